@@ -15,6 +15,7 @@
 import { growthService } from '@naroto/api/services/growth.service';
 import { getSession } from '@naroto/api/utils/index';
 import {
+  ConfirmGrowthRecordSchema,
   type CreateGrowthRecordInput,
   DeleteGrowthRecordSchema,
   GrowthRecordCreateSchema,
@@ -33,7 +34,7 @@ export async function createGrowthRecordAction(input: unknown) {
 
   const validated = GrowthRecordCreateSchema.parse(input);
 
-  const result = await growthService.createGrowthRecord(validated as CreateGrowthRecordInput);
+  const result = await growthService.createGrowthRecord(validated as CreateGrowthRecordInput, session.user.id);
 
   // Revalidate UI paths
   revalidatePath(`/dashboard/patients/${validated.patientId}`);
@@ -66,6 +67,25 @@ export async function updateGrowthRecordAction(id: string, input: unknown) {
   };
 }
 
+export async function confirmGrowthRecordAction(input: unknown) {
+  const session = await getSession();
+  if (!session?.user) {
+    throw new Error('Unauthorized');
+  }
+
+  const validated = ConfirmGrowthRecordSchema.parse(input);
+
+  const result = await growthService.confirmGrowthRecord(validated.id, session.user.clinic?.id ?? '', session.user.id);
+
+  revalidatePath(`/dashboard/patients/${result.patientId}`);
+  revalidatePath('/dashboard/growth');
+
+  return {
+    success: true,
+    data: result
+  };
+}
+
 // ==================== DELETE ACTIONS ====================
 
 export async function deleteGrowthRecordAction(input: unknown) {
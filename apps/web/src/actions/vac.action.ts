@@ -16,6 +16,7 @@ import { vaccinationService } from '@naroto/api/services/vac.service';
 import { getSession } from '@naroto/api/utils/index';
 import type { ImmunizationStatus } from '@naroto/db';
 import {
+  ActivateScheduleSetSchema,
   type DeleteImmunizationInput,
   DeleteImmunizationSchema,
   type ImmunizationCreateInput,
@@ -24,10 +25,13 @@ import {
   ImmunizationUpdateSchema,
   type ScheduleVaccinationInput,
   ScheduleVaccinationSchema,
-  VaccinationByIdSchema
+  VaccinationByIdSchema,
+  VaccineScheduleSetImportSchema
 } from '@naroto/db/zodSchemas/vac.schema';
 import { revalidatePath, revalidateTag } from 'next/cache';
 
+import { CACHE_TAGS } from '../lib/cache/utils/tags';
+
 // ==================== CREATE ACTIONS ====================
 
 export async function recordImmunizationAction(input: unknown) {
@@ -182,6 +186,51 @@ export async function scheduleDueVaccinationsAction(patientId: string, clinicId:
   };
 }
 
+// ==================== SCHEDULE SET ACTIONS ====================
+
+export async function importScheduleSetAction(input: unknown) {
+  const session = await getSession();
+  if (!session?.user) {
+    throw new Error('Unauthorized');
+  }
+
+  const validated = VaccineScheduleSetImportSchema.parse(input);
+
+  const result = await vaccinationService.importScheduleSet(validated);
+
+  revalidateTag(CACHE_TAGS.vaccination.scheduleSets, 'max');
+  if (validated.isDefault) {
+    revalidateTag(CACHE_TAGS.vaccination.schedule, 'max');
+  }
+
+  return {
+    success: true,
+    data: result
+  };
+}
+
+export async function activateScheduleSetAction(input: unknown) {
+  const session = await getSession();
+  if (!session?.user) {
+    throw new Error('Unauthorized');
+  }
+
+  const { clinicId, scheduleSetId } = ActivateScheduleSetSchema.parse(input);
+
+  const result = await vaccinationService.activateScheduleSet(clinicId, scheduleSetId);
+
+  revalidateTag(CACHE_TAGS.vaccination.scheduleByClinic(clinicId), 'max');
+  revalidateTag(CACHE_TAGS.vaccination.byClinic(clinicId), 'max');
+  revalidateTag(CACHE_TAGS.vaccination.counts(clinicId), 'max');
+  revalidateTag(CACHE_TAGS.vaccination.scheduleSets, 'max');
+  revalidatePath('/dashboard/immunizations');
+
+  return {
+    success: true,
+    data: result
+  };
+}
+
 // ==================== DELETE ACTIONS ====================
 
 export async function deleteImmunizationAction(input: DeleteImmunizationInput) {
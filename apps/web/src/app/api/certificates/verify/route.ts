@@ -0,0 +1,23 @@
+import { immunizationCertificateService } from '@naroto/db/services/immunization/certificate';
+import { type NextRequest, NextResponse } from 'next/server';
+
+// Public: reached from the certificate QR code without a session
+export async function GET(request: NextRequest) {
+  const token = request.nextUrl.searchParams.get('token');
+  if (!token) {
+    return NextResponse.json({ status: 'MALFORMED' }, { status: 400 });
+  }
+
+  try {
+    const result = await immunizationCertificateService.verifyCertificate(token);
+    const httpStatus = result.status === 'MALFORMED' || result.status === 'INVALID_SIGNATURE' ? 400 : 200;
+
+    return NextResponse.json(result, {
+      status: httpStatus,
+      headers: { 'Cache-Control': 'no-store' }
+    });
+  } catch (error) {
+    console.error('Certificate verification error:', error);
+    return NextResponse.json({ error: 'Failed to verify certificate' }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NotFoundError } from '@naroto/db/error';
+import { growthChartRenderer } from '@naroto/db/services/growth/chart-renderer';
+import { GrowthChartDownloadSchema } from '@naroto/db/zodSchemas/growth.schema';
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { getSession } from '@/lib/auth-server';
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ patientId: string }> }) {
+  const session = await getSession();
+  const clinicId = session?.user.clinic?.id;
+  if (!(session?.user && clinicId)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { patientId } = await params;
+  const query = GrowthChartDownloadSchema.safeParse(Object.fromEntries(request.nextUrl.searchParams));
+  if (!query.success) {
+    return NextResponse.json({ error: 'Invalid chart options', issues: query.error.issues }, { status: 400 });
+  }
+
+  const { format, ...options } = query.data;
+
+  try {
+    if (format === 'svg') {
+      const chart = await growthChartRenderer.renderSvg(patientId, clinicId, options);
+      return new NextResponse(chart.svg, {
+        headers: {
+          'Content-Type': 'image/svg+xml; charset=utf-8',
+          'Content-Disposition': `attachment; filename="${chart.fileName}"`,
+          'Cache-Control': 'private, no-store'
+        }
+      });
+    }
+
+    const chart = await growthChartRenderer.renderPdf(patientId, clinicId, options);
+    return new NextResponse(Buffer.from(chart.pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${chart.fileName}"`,
+        'Cache-Control': 'private, no-store'
+      }
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error('Growth chart generation error:', error);
+    return NextResponse.json({ error: 'Failed to generate growth chart' }, { status: 500 });
+  }
+}
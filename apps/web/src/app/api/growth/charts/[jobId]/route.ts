@@ -0,0 +1,44 @@
+import { NotFoundError } from '@naroto/db/error';
+import { growthChartRenderer } from '@naroto/db/services/growth/chart-renderer';
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { getSession } from '@/lib/auth-server';
+
+/**
+ * Download a batch of growth charts queued with `growth.queueGrowthChartBatch`.
+ * Answers 202 with the job state until the PDF is ready.
+ */
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ jobId: string }> }) {
+  const session = await getSession();
+  const clinicId = session?.user.clinic?.id;
+  if (!(session?.user && clinicId)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { jobId } = await params;
+
+  try {
+    const batch = await growthChartRenderer.getBatch(jobId, clinicId);
+
+    if (batch.status === 'pending') {
+      return NextResponse.json({ status: batch.status, state: batch.state }, { status: 202 });
+    }
+    if (batch.status === 'failed') {
+      return NextResponse.json({ status: batch.status, error: batch.error }, { status: 422 });
+    }
+
+    return new NextResponse(Buffer.from(batch.pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${batch.fileName}"`,
+        'Cache-Control': 'private, no-store'
+      }
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error('Growth chart batch download error:', error);
+    return NextResponse.json({ error: 'Failed to download growth charts' }, { status: 500 });
+  }
+}
@@ -0,0 +1,34 @@
+import { NotFoundError } from '@naroto/db/error';
+import { immunizationCertificateService } from '@naroto/db/services/immunization/certificate';
+import { type NextRequest, NextResponse } from 'next/server';
+
+import { getSession } from '@/lib/auth-server';
+
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ patientId: string }> }) {
+  const session = await getSession();
+  const clinicId = session?.user.clinic?.id;
+  if (!(session?.user && clinicId)) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
+
+  const { patientId } = await params;
+
+  try {
+    const certificate = await immunizationCertificateService.generateCertificate(patientId, clinicId);
+
+    return new NextResponse(Buffer.from(certificate.pdf), {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${certificate.fileName}"`,
+        'Cache-Control': 'private, no-store',
+        'X-Certificate-Id': certificate.certificateId
+      }
+    });
+  } catch (error) {
+    if (error instanceof NotFoundError) {
+      return NextResponse.json({ error: error.message }, { status: 404 });
+    }
+    console.error('Certificate generation error:', error);
+    return NextResponse.json({ error: 'Failed to generate certificate' }, { status: 500 });
+  }
+}
@@ -3,15 +3,25 @@
 
 import { useQuery } from '@tanstack/react-query';
 import { format } from 'date-fns';
-import { Calendar, ChevronRight, FileText, Pill } from 'lucide-react';
+import { AlertCircle, Baby, Calendar, ChevronRight, FileText, Pill } from 'lucide-react';
 import Link from 'next/link';
 import { useId, useMemo } from 'react';
 
+import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Skeleton } from '@/components/ui/skeleton';
 import { useTRPC } from '@/trpc/client';
 
+interface FeedingSummary {
+  averages: { feedsPerDay: number | null; mlPerKgPerDay: number | null };
+  breastBalance: { leftShare: number | null };
+  flags: Array<{ code: string; message: string }>;
+  totalFeeds: number;
+  underFeeding: boolean;
+  weight: { gain: number | null; gainUnit: string };
+}
+
 interface PatientHistoryProps {
   clinicId: string;
   limit?: number;
@@ -66,6 +76,7 @@ export function PatientHistory({ patientId, clinicId: _clinicId, limit: _limit =
   const totalAppointments = stats?.totalAppointments ?? 0;
   const totalRecords = stats?.totalRecords ?? 0;
   const activePrescriptions = stats?.activePrescriptions ?? 0;
+  const feeding: FeedingSummary | null = stats?.feeding ?? null;
 
   return (
     <div className='space-y-6'>
@@ -156,6 +167,55 @@ export function PatientHistory({ patientId, clinicId: _clinicId, limit: _limit =
           </CardContent>
         </Card>
       </div>
+
+      {feeding && feeding.totalFeeds > 0 && (
+        <Card>
+          <CardHeader className='flex flex-row items-center justify-between pb-3'>
+            <CardTitle className='flex items-center gap-2 text-base'>
+              <Baby className='h-4 w-4' />
+              Feeding (last 7 days)
+            </CardTitle>
+            {feeding.underFeeding && <Badge variant='destructive'>Under-feeding</Badge>}
+          </CardHeader>
+          <CardContent className='space-y-3'>
+            <div className='grid grid-cols-2 gap-4 text-sm sm:grid-cols-4'>
+              <div>
+                <p className='text-muted-foreground text-xs'>Feeds / day</p>
+                <p className='font-medium'>{feeding.averages.feedsPerDay ?? '—'}</p>
+              </div>
+              <div>
+                <p className='text-muted-foreground text-xs'>Intake</p>
+                <p className='font-medium'>
+                  {feeding.averages.mlPerKgPerDay === null ? '—' : `${feeding.averages.mlPerKgPerDay} ml/kg/day`}
+                </p>
+              </div>
+              <div>
+                <p className='text-muted-foreground text-xs'>Weight gain</p>
+                <p className='font-medium'>
+                  {feeding.weight.gain === null ? '—' : `${feeding.weight.gain} ${feeding.weight.gainUnit}`}
+                </p>
+              </div>
+              <div>
+                <p className='text-muted-foreground text-xs'>Left / right</p>
+                <p className='font-medium'>
+                  {feeding.breastBalance.leftShare === null
+                    ? '—'
+                    : `${Math.round(feeding.breastBalance.leftShare * 100)}% / ${Math.round((1 - feeding.breastBalance.leftShare) * 100)}%`}
+                </p>
+              </div>
+            </div>
+            {feeding.flags.map(flag => (
+              <p
+                className='flex items-center gap-2 text-destructive text-xs'
+                key={flag.code}
+              >
+                <AlertCircle className='h-3 w-3' />
+                {flag.message}
+              </p>
+            ))}
+          </CardContent>
+        </Card>
+      )}
     </div>
   );
 }
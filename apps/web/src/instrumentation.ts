@@ -0,0 +1,16 @@
+/**
+ * Runs once when the server starts
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  // Processors first: workers start for every job type as soon as the queues do
+  const { registerProcessors } = await import('@naroto/db/services/queue-processors');
+  const { initializeQueues } = await import('@naroto/redis/queue');
+  registerProcessors();
+  await initializeQueues();
+
+  // Keep stored growth scores in step with corrected reference data
+  const { growthRecomputeService } = await import('@naroto/db/services/growth/recompute');
+  await growthRecomputeService.scheduleNightly();
+}
@@ -38,14 +38,14 @@ export async function getCachedAppointments(
   return appointmentService.getAppointments(clinicId, filter);
 }
 
-export async function getCachedAvailableSlots(clinicId: string, doctorId: string, date: Date, _duration: number) {
+export async function getCachedAvailableSlots(clinicId: string, doctorId: string, date: Date, duration?: number) {
   'use cache';
 
   cacheTag(`slots:clinic:${clinicId}:doctor:${doctorId}:date:${date.toISOString()}`);
+  cacheTag(CACHE_TAGS.doctor.workingDays(doctorId));
   cacheLife(CACHE_PROFILES.realtime);
 
-  // Service method expects (doctorId, date)
-  return appointmentService.getAvailableTimes(doctorId, date);
+  return appointmentService.getAvailableTimes(doctorId, date, { duration });
 }
 
 // ==================== TODAY'S APPOINTMENTS ====================
@@ -130,6 +130,7 @@ export async function getCachedAvailableTimes(doctorId: string, _clinicId: strin
   const dateStr = date.toISOString().split('T')[0];
   cacheTag(CACHE_TAGS.appointment.byDoctor(doctorId));
   cacheTag(`available-times-${doctorId}-${dateStr}`);
+  cacheTag(CACHE_TAGS.doctor.workingDays(doctorId));
   cacheLife(CACHE_PROFILES.realtime); // Real-time availability
 
   return appointmentService.getAvailableTimes(doctorId, date);
@@ -53,6 +53,8 @@ export async function getCachedDrugDosage(
   patientParams: {
     weightKg?: number;
     ageDays?: number;
+    gestationalAgeWeeks?: number;
+    route?: string;
     bsa?: number;
     renalFunction?: number;
     hepaticFunction?: 'normal' | 'mild' | 'moderate' | 'severe';
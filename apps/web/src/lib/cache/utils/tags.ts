@@ -188,6 +188,8 @@ export const CACHE_TAGS = {
     byId: (id: string) => `vaccination:${id}`,
     scheduleByAge: (ageMonth: number) => `vaccinations:schedule:${ageMonth}`,
     schedule: 'vaccinations:schedule',
+    scheduleByClinic: (clinicId: string) => `vaccinations:schedule:clinic:${clinicId}`,
+    scheduleSets: 'vaccinations:schedule-sets',
     counts: (clinicId: string) => `vaccinations:counts:${clinicId}`,
     byStatus: (clinicId: string, status: string) => `vaccinations:status:${status}:clinic:${clinicId}`,
     byPatient: (patientId: string) => `vaccinations:patient:${patientId}`,
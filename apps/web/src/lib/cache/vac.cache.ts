@@ -14,6 +14,7 @@
 'use cache';
 
 import type { ImmunizationStatus } from '@naroto/db';
+import { immunizationService } from '@naroto/db/services/immunization/due-calculator';
 import { vaccinationService } from '@naroto/db/services/vaccination.service';
 import { cacheLife, cacheTag } from 'next/cache';
 
@@ -135,30 +136,53 @@ export async function getCachedVaccinationCountByStatus(clinicId: string, status
 
 // ==================== VACCINE SCHEDULE CACHE ====================
 
-export async function getCachedVaccineSchedule(options?: {
-  ageMonths?: number;
-  isMandatory?: boolean;
-  vaccineName?: string;
-  limit?: number;
-}) {
+export async function getCachedVaccineSchedule(
+  clinicId: string,
+  options?: {
+    ageMonths?: number;
+    isMandatory?: boolean;
+    vaccineName?: string;
+    limit?: number;
+  }
+) {
   'use cache';
 
   cacheTag(CACHE_TAGS.vaccination.schedule);
+  cacheTag(CACHE_TAGS.vaccination.scheduleByClinic(clinicId));
   cacheLife(CACHE_PROFILES.reference);
 
-  return vaccinationService.getVaccineSchedule({
+  return vaccinationService.getVaccineSchedule(clinicId, {
     ...options,
     limit: options?.limit ?? 50
   });
 }
 
-export async function getCachedVaccineScheduleByAge(ageMonths: number) {
+export async function getCachedVaccineScheduleByAge(clinicId: string, ageMonths: number) {
   'use cache';
 
   cacheTag(CACHE_TAGS.vaccination.scheduleByAge(ageMonths));
+  cacheTag(CACHE_TAGS.vaccination.scheduleByClinic(clinicId));
+  cacheLife(CACHE_PROFILES.reference);
+
+  return vaccinationService.getVaccineSchedule(clinicId, { ageMonths });
+}
+
+export async function getCachedScheduleSets() {
+  'use cache';
+
+  cacheTag(CACHE_TAGS.vaccination.scheduleSets);
   cacheLife(CACHE_PROFILES.reference);
 
-  return vaccinationService.getVaccineSchedule({ ageMonths });
+  return vaccinationService.getScheduleSets();
+}
+
+export async function getCachedClinicScheduleSet(clinicId: string) {
+  'use cache';
+
+  cacheTag(CACHE_TAGS.vaccination.scheduleByClinic(clinicId));
+  cacheLife(CACHE_PROFILES.reference);
+
+  return vaccinationService.getClinicScheduleSet(clinicId);
 }
 
 // ==================== PATIENT SUMMARY CACHE ====================
@@ -174,24 +198,28 @@ export async function getCachedPatientVaccinationSummary(patientId: string, clin
   return vaccinationService.getPatientImmunizations(patientId, clinicId);
 }
 
-export async function getCachedCalculatedDueVaccines(
-  patientId: string,
-  clinicId: string,
-  _input: {
-    patientAgeDays: number;
-    completedVaccines: Array<{
-      vaccineName: string;
-      doseNumber: number;
-      administrationDate: Date;
-    }>;
-  }
-) {
+// ==================== DUE VACCINES CACHE ====================
+
+export async function getCachedDueVaccinations(patientId: string, clinicId: string) {
+  'use cache';
+
+  cacheTag(CACHE_TAGS.vaccination.byPatient(patientId));
+  cacheTag(CACHE_TAGS.patient.immunizations(patientId));
+  cacheTag(CACHE_TAGS.vaccination.schedule);
+  cacheTag(CACHE_TAGS.vaccination.scheduleByClinic(clinicId));
+  cacheLife(CACHE_PROFILES.medicalShort);
+
+  return vaccinationService.getDueVaccinesForPatient(patientId, clinicId);
+}
+
+export async function getCachedCalculatedDueVaccines(patientId: string, clinicId: string) {
   'use cache';
 
   // Invalidate this if the patient's record changes or the global schedule changes
   cacheTag(CACHE_TAGS.vaccination.byPatient(patientId));
   cacheTag(CACHE_TAGS.patient.immunizations(patientId));
   cacheTag(CACHE_TAGS.vaccination.schedule);
+  cacheTag(CACHE_TAGS.vaccination.scheduleByClinic(clinicId));
 
   // High-intensity calculation, keep in cache for a short medical burst
   cacheLife(CACHE_PROFILES.medicalShort);
@@ -199,6 +227,18 @@ export async function getCachedCalculatedDueVaccines(
   return vaccinationService.getDueVaccinesForPatient(patientId, clinicId);
 }
 
+export async function getCachedClinicDueCount(clinicId: string) {
+  'use cache';
+
+  cacheTag(CACHE_TAGS.vaccination.counts(clinicId));
+  cacheTag(CACHE_TAGS.vaccination.byClinic(clinicId));
+  cacheTag(CACHE_TAGS.vaccination.schedule);
+  cacheTag(CACHE_TAGS.vaccination.scheduleByClinic(clinicId));
+  cacheLife(CACHE_PROFILES.medicalShort);
+
+  return immunizationService.getClinicDueCount(clinicId);
+}
+
 /**
  * CACHED: Patient Immunization Record (Full Profile)
  * Combines history with patient metadata
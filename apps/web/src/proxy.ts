@@ -51,6 +51,6 @@ function getPublicOrigin(request: NextRequest) {
 
 export const config = {
   matcher: [
-    '/((?!api/auth|api/health|api/trpc|trpc|_next|favicon|icons|manifest|robots|login|signup|auth-error|sw.js|.*\\.png|.*\\.ico|.*\\.json|.*\\.webp|.*\\.svg).*)'
+    '/((?!api/auth|api/certificates/verify|api/health|api/trpc|trpc|_next|favicon|icons|manifest|robots|login|signup|auth-error|sw.js|.*\\.png|.*\\.ico|.*\\.json|.*\\.webp|.*\\.svg).*)'
   ]
 };
@@ -0,0 +1,103 @@
+/**
+ * 🟣 ALLERGY MODULE - tRPC ROUTER
+ *
+ * RESPONSIBILITIES:
+ * - tRPC procedure definitions
+ * - Permission checks
+ * - Input validation via schema
+ * - Delegates to service layer
+ * - NO business logic
+ * - NO database calls
+ */
+
+import { allergyService } from '@naroto/db/services/allergy/allergy.service';
+import {
+  AllergyByIdSchema,
+  AllergyCheckSchema,
+  ConditionByIdSchema,
+  CreateAllergySchema,
+  CreateConditionSchema,
+  PatientAllergyListSchema,
+  PatientConditionListSchema,
+  ReviewAllergySchema,
+  ReviewConditionSchema,
+  ReviewQueueSchema,
+  UpdateAllergySchema,
+  UpdateConditionSchema
+} from '@naroto/db/zodSchemas/allergy.schema';
+import type { AnyRouter } from '@trpc/server';
+
+import { createTRPCRouter, protectedProcedure } from '..';
+import { resolveClinicId } from '../utils/validate-clinic';
+
+export const allergyRouter: AnyRouter = createTRPCRouter({
+  // ==================== QUERY PROCEDURES ====================
+
+  getPatientAllergies: protectedProcedure.input(PatientAllergyListSchema).query(async ({ ctx, input }) => {
+    const clinicId = resolveClinicId(ctx.session?.user.clinic?.id, input.clinicId);
+    return allergyService.getAllergies({ ...input, clinicId });
+  }),
+
+  getPatientConditions: protectedProcedure.input(PatientConditionListSchema).query(async ({ ctx, input }) => {
+    const clinicId = resolveClinicId(ctx.session?.user.clinic?.id, input.clinicId);
+    return allergyService.getConditions({ ...input, clinicId });
+  }),
+
+  /**
+   * Allergies and conditions taken from free text, awaiting a clinician
+   */
+  getReviewQueue: protectedProcedure.input(ReviewQueueSchema).query(async ({ ctx, input }) => {
+    const clinicId = resolveClinicId(ctx.session?.user.clinic?.id, input.clinicId);
+    return allergyService.getReviewQueue({ ...input, clinicId });
+  }),
+
+  /**
+   * Allergy alerts for drugs before they are prescribed
+   */
+  checkDrugs: protectedProcedure.input(AllergyCheckSchema).query(async ({ ctx, input }) => {
+    const clinicId = resolveClinicId(ctx.session?.user.clinic?.id, input.clinicId);
+    return allergyService.checkForPatient({ ...input, clinicId });
+  }),
+
+  // ==================== MUTATION PROCEDURES ====================
+
+  createAllergy: protectedProcedure.input(CreateAllergySchema).mutation(async ({ ctx, input }) => {
+    const clinicId = resolveClinicId(ctx.session?.user.clinic?.id, input.clinicId);
+    return allergyService.createAllergy({ ...input, clinicId }, ctx.user.id);
+  }),
+
+  updateAllergy: protectedProcedure.input(UpdateAllergySchema).mutation(async ({ ctx, input }) => {
+    const clinicId = resolveClinicId(ctx.session?.user.clinic?.id, input.clinicId);
+    return allergyService.updateAllergy({ ...input, clinicId });
+  }),
+
+  deleteAllergy: protectedProcedure.input(AllergyByIdSchema).mutation(async ({ ctx, input }) => {
+    const clinicId = resolveClinicId(ctx.session?.user.clinic?.id, input.clinicId);
+    return allergyService.deleteAllergy(input.id, clinicId);
+  }),
+
+  createCondition: protectedProcedure.input(CreateConditionSchema).mutation(async ({ ctx, input }) => {
+    const clinicId = resolveClinicId(ctx.session?.user.clinic?.id, input.clinicId);
+    return allergyService.createCondition({ ...input, clinicId }, ctx.user.id);
+  }),
+
+  updateCondition: protectedProcedure.input(UpdateConditionSchema).mutation(async ({ ctx, input }) => {
+    const clinicId = resolveClinicId(ctx.session?.user.clinic?.id, input.clinicId);
+    return allergyService.updateCondition({ ...input, clinicId });
+  }),
+
+  deleteCondition: protectedProcedure.input(ConditionByIdSchema).mutation(async ({ ctx, input }) => {
+    const clinicId = resolveClinicId(ctx.session?.user.clinic?.id, input.clinicId);
+    return allergyService.deleteCondition(input.id, clinicId);
+  }),
+
+  reviewAllergy: protectedProcedure.input(ReviewAllergySchema).mutation(async ({ ctx, input }) => {
+    const clinicId = resolveClinicId(ctx.session?.user.clinic?.id, input.clinicId);
+    return allergyService.reviewAllergy({ ...input, clinicId }, ctx.user.id);
+  }),
+
+  reviewCondition: protectedProcedure.input(ReviewConditionSchema).mutation(async ({ ctx, input }) => {
+    const clinicId = resolveClinicId(ctx.session?.user.clinic?.id, input.clinicId);
+    return allergyService.reviewCondition({ ...input, clinicId }, ctx.user.id);
+  })
+});
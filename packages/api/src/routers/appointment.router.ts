@@ -12,12 +12,17 @@
  */
 
 // Import service from @naroto/db/services
+import { waitlistService } from '@naroto/db/services/appointment/waitlist';
 import { appointmentService } from '@naroto/db/services/appointment.service';
+import { reminderService } from '@naroto/db/services/reminder/reminder.service';
 // Import schemas from @naroto/db/zodSchemas
 import {
   AllAppointmentsInputSchema,
   AppointmentDeleteSchema,
   AppointmentFilterSchema,
+  AppointmentSeriesCancelSchema,
+  AppointmentSeriesCreateSchema,
+  AppointmentSeriesUpdateSchema,
   AppointmentStatsInputSchema,
   AppointmentUpdateStatusSchema,
   AvailableTimesInputSchema,
@@ -25,7 +30,10 @@ import {
   GetForMonthInputSchema,
   type UpdateAppointmentInput,
   UpdateAppointmentSchema,
-  type UpdateAppointmentStatusInput
+  type UpdateAppointmentStatusInput,
+  WaitlistEntryCreateSchema,
+  WaitlistFilterSchema,
+  WaitlistOfferResponseSchema
 } from '@naroto/db/zodSchemas/appointment.schema';
 import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
@@ -58,11 +66,15 @@ export const appointmentRouter = createTRPCRouter({
       z.object({
         doctorId: z.string(),
         date: z.date(),
-        duration: z.number().default(30)
+        duration: z.number().min(5).optional(),
+        serviceId: z.string().optional()
       })
     )
-    .query(async ({ input, ctx }) => {
-      return appointmentService.getAvailableTimes(ctx.session.user.clinic?.id ?? '', input.date);
+    .query(async ({ input }) => {
+      return appointmentService.getAvailableTimes(input.doctorId, input.date, {
+        duration: input.duration,
+        serviceId: input.serviceId
+      });
     }),
 
   // ==================== MUTATIONS ====================
@@ -83,7 +95,12 @@ export const appointmentRouter = createTRPCRouter({
       })
     )
     .mutation(async ({ input, ctx }) => {
-      return appointmentService.cancelAppointment(input.id, ctx.session.user.id, input.reason ?? '');
+      return appointmentService.cancelAppointment(
+        input.id,
+        ctx.session.user.id,
+        ctx.session.user.clinic?.id ?? '',
+        input.reason ?? ''
+      );
     }),
 
   checkIn: protectedProcedure.input(z.object({ id: z.string() })).mutation(async ({ input, ctx }) => {
@@ -241,8 +258,8 @@ export const appointmentRouter = createTRPCRouter({
    */
   getAvailableTimes: protectedProcedure.input(AvailableTimesInputSchema).query(async ({ input }) => {
     try {
-      const { doctorId, appointmentDate } = input;
-      return await appointmentService.getAvailableTimes(doctorId, appointmentDate);
+      const { doctorId, appointmentDate, duration, serviceId } = input;
+      return await appointmentService.getAvailableTimes(doctorId, appointmentDate, { duration, serviceId });
     } catch (error) {
       throw new TRPCError({
         code: 'INTERNAL_SERVER_ERROR',
@@ -343,6 +360,176 @@ export const appointmentRouter = createTRPCRouter({
     }
   }),
 
+  // ==================== REMINDERS ====================
+
+  /**
+   * Reminder history of an appointment: what is scheduled, what went out, what failed
+   */
+  getReminders: protectedProcedure.input(z.object({ id: z.uuid() })).query(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    const appointment = await appointmentService.getAppointmentById(input.id, clinicId);
+    if (!appointment) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Appointment not found' });
+    }
+
+    return reminderService.getAppointmentReminders(input.id);
+  }),
+
+  // ==================== RECURRING SERIES ====================
+
+  /**
+   * Get a recurring series with its occurrences
+   */
+  getSeries: protectedProcedure.input(z.object({ id: z.uuid() })).query(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    return appointmentService.getSeries(input.id, clinicId);
+  }),
+
+  /**
+   * Expand a recurrence rule and report availability per occurrence, without booking
+   */
+  previewSeries: protectedProcedure.input(AppointmentSeriesCreateSchema).query(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    return appointmentService.previewSeries(input, clinicId);
+  }),
+
+  /**
+   * Book a recurring series; conflicts are returned per occurrence
+   */
+  createSeries: protectedProcedure.input(AppointmentSeriesCreateSchema).mutation(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    return appointmentService.createSeries(input, clinicId);
+  }),
+
+  /**
+   * Edit this occurrence, this and following, or the whole series
+   */
+  updateSeries: protectedProcedure.input(AppointmentSeriesUpdateSchema).mutation(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    return appointmentService.updateSeries(input, clinicId);
+  }),
+
+  /**
+   * Cancel this occurrence, this and following, or the whole series
+   */
+  cancelSeries: protectedProcedure.input(AppointmentSeriesCancelSchema).mutation(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    return appointmentService.cancelSeries(input, ctx.session.user.id, clinicId);
+  }),
+
+  // ==================== WAITLIST ====================
+
+  /**
+   * Open waitlist entries, best first, with any slot currently held for them
+   */
+  getWaitlist: protectedProcedure.input(WaitlistFilterSchema).query(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    return waitlistService.getEntries(clinicId, input);
+  }),
+
+  addToWaitlist: protectedProcedure.input(WaitlistEntryCreateSchema).mutation(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    return waitlistService.addEntry(input, clinicId, ctx.session.user.id);
+  }),
+
+  removeFromWaitlist: protectedProcedure.input(z.object({ id: z.uuid() })).mutation(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    return waitlistService.cancelEntry(input.id, clinicId);
+  }),
+
+  /**
+   * Accept (book) or decline a held slot; a declined slot goes to the next candidate
+   */
+  respondToWaitlistOffer: protectedProcedure.input(WaitlistOfferResponseSchema).mutation(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    return waitlistService.respondToOffer(input, clinicId);
+  }),
+
+  /**
+   * Expire lapsed offers and pass their slots on; safe to call on a schedule
+   */
+  expireWaitlistOffers: protectedProcedure.mutation(async ({ ctx }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    return { expired: await waitlistService.processExpiredOffers(clinicId) };
+  }),
+
   /**
    * Delete appointment (soft delete)
    * Service handles cache invalidation internally
@@ -0,0 +1,66 @@
+/**
+ * 🟣 DEVELOPMENT MODULE - tRPC ROUTER
+ *
+ * RESPONSIBILITIES:
+ * - tRPC procedure definitions
+ * - Permission checks
+ * - Input validation via schema
+ * - Delegates to service layer
+ * - NO business logic
+ * - NO database calls
+ */
+
+import { developmentService } from '@naroto/db/services/development/development.service';
+import {
+  DevelopmentalCheckByIdSchema,
+  DevelopmentalHistorySchema,
+  MilestoneCatalogueSchema,
+  RecordDevelopmentalCheckSchema,
+  ScreeningFormSchema
+} from '@naroto/db/zodSchemas/development.schema';
+import type { AnyRouter } from '@trpc/server';
+
+import { createTRPCRouter, protectedProcedure } from '..';
+import { resolveClinicId } from '../utils/validate-clinic';
+
+export const developmentRouter: AnyRouter = createTRPCRouter({
+  // ==================== QUERY PROCEDURES ====================
+
+  /**
+   * Milestone catalogue, optionally for the checkpoint an age falls in
+   */
+  getCatalogue: protectedProcedure.input(MilestoneCatalogueSchema).query(({ input }) => {
+    return developmentService.getCatalogue(input.ageMonths);
+  }),
+
+  /**
+   * Milestones to ask about at today's screen, with their last recorded status
+   */
+  getScreeningForm: protectedProcedure.input(ScreeningFormSchema).query(async ({ ctx, input }) => {
+    const clinicId = resolveClinicId(ctx.session?.user.clinic?.id, input.clinicId);
+    return developmentService.getScreeningForm(input.patientId, clinicId);
+  }),
+
+  /**
+   * A patient's developmental checks with current domain status and overdue milestones
+   */
+  getPatientHistory: protectedProcedure.input(DevelopmentalHistorySchema).query(async ({ ctx, input }) => {
+    const clinicId = resolveClinicId(ctx.session?.user.clinic?.id, input.clinicId);
+    return developmentService.getHistory({ ...input, clinicId });
+  }),
+
+  getCheckById: protectedProcedure.input(DevelopmentalCheckByIdSchema).query(async ({ ctx, input }) => {
+    const clinicId = resolveClinicId(ctx.session?.user.clinic?.id, input.clinicId);
+    return developmentService.getCheckById(input.id, clinicId);
+  }),
+
+  // ==================== MUTATION PROCEDURES ====================
+
+  /**
+   * Record a developmental check from structured milestone entries
+   */
+  recordCheck: protectedProcedure.input(RecordDevelopmentalCheckSchema).mutation(async ({ ctx, input }) => {
+    const clinicId = resolveClinicId(ctx.session?.user.clinic?.id, input.clinicId);
+    return developmentService.recordCheck({ ...input, clinicId }, ctx.user.id);
+  })
+});
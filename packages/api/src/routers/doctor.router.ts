@@ -19,6 +19,10 @@ import {
   CreateDoctorSchema,
   DoctorByIdSchema,
   DoctorListSchema,
+  DoctorScheduleRangeSchema,
+  ScheduleExceptionFilterSchema,
+  ScheduleExceptionSchema,
+  UpdateDoctorBreaksSchema,
   type UpdateDoctorInput,
   UpdateDoctorInputSchema
 } from '@naroto/db/zodSchemas/doctor.schema';
@@ -234,6 +238,75 @@ export const doctorRouter: AnyRouter = createTRPCRouter({
     }
   }),
 
+  /**
+   * Get recurring breaks for a doctor
+   */
+  getBreaks: protectedProcedure.input(DoctorByIdSchema).query(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'No clinic ID found in session'
+      });
+    }
+
+    try {
+      return await doctorService.getDoctorBreaks(input.id, clinicId);
+    } catch (error) {
+      if (error instanceof TRPCError) throw error;
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch breaks'
+      });
+    }
+  }),
+
+  /**
+   * Get resolved working windows per date (working days, breaks and exceptions applied)
+   */
+  getSchedule: protectedProcedure.input(DoctorScheduleRangeSchema).query(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'No clinic ID found in session'
+      });
+    }
+
+    try {
+      return await doctorService.getDoctorSchedule(input.doctorId, clinicId, input.from, input.to);
+    } catch (error) {
+      if (error instanceof TRPCError) throw error;
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch schedule'
+      });
+    }
+  }),
+
+  /**
+   * List leave, holidays, closures and extra sessions
+   */
+  getScheduleExceptions: protectedProcedure.input(ScheduleExceptionFilterSchema).query(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'No clinic ID found in session'
+      });
+    }
+
+    try {
+      return await doctorService.getScheduleExceptions(clinicId, input);
+    } catch (error) {
+      if (error instanceof TRPCError) throw error;
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to fetch schedule exceptions'
+      });
+    }
+  }),
+
   // ==================== MUTATIONS ====================
 
   /**
@@ -372,5 +445,80 @@ export const doctorRouter: AnyRouter = createTRPCRouter({
           message: error instanceof Error ? error.message : 'Failed to update working days'
         });
       }
-    })
+    }),
+
+  /**
+   * Replace doctor recurring breaks
+   */
+  updateBreaks: protectedProcedure.input(UpdateDoctorBreaksSchema).mutation(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'No clinic ID found in session'
+      });
+    }
+
+    try {
+      const result = await doctorService.updateBreaks(input.doctorId, clinicId, input.breaks);
+
+      return {
+        success: true,
+        message: 'Breaks updated successfully',
+        data: result
+      };
+    } catch (error) {
+      if (error instanceof TRPCError) throw error;
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to update breaks'
+      });
+    }
+  }),
+
+  /**
+   * Add leave, a holiday, a closure or an extra session
+   */
+  addScheduleException: protectedProcedure.input(ScheduleExceptionSchema).mutation(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'No clinic ID found in session'
+      });
+    }
+
+    try {
+      return await doctorService.addScheduleException(clinicId, input);
+    } catch (error) {
+      if (error instanceof TRPCError) throw error;
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to add schedule exception'
+      });
+    }
+  }),
+
+  /**
+   * Remove a schedule exception
+   */
+  removeScheduleException: protectedProcedure.input(z.object({ id: z.uuid() })).mutation(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: 'No clinic ID found in session'
+      });
+    }
+
+    try {
+      return await doctorService.removeScheduleException(input.id, clinicId);
+    } catch (error) {
+      if (error instanceof TRPCError) throw error;
+      throw new TRPCError({
+        code: 'INTERNAL_SERVER_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to remove schedule exception'
+      });
+    }
+  })
 });
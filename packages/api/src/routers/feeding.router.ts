@@ -0,0 +1,66 @@
+/**
+ * 🟣 FEEDING MODULE - tRPC ROUTER
+ *
+ * RESPONSIBILITIES:
+ * - tRPC procedure definitions
+ * - Permission checks
+ * - Input validation via schema
+ * - Delegates to service layer
+ * - NO business logic
+ * - NO database calls
+ */
+
+import { feedingService } from '@naroto/db/services/feeding/feeding.service';
+import {
+  CreateFeedingLogSchema,
+  FeedingLogByIdSchema,
+  FeedingLogListSchema,
+  FeedingSummarySchema,
+  UpdateFeedingLogSchema
+} from '@naroto/db/zodSchemas/feeding.schema';
+import type { AnyRouter } from '@trpc/server';
+
+import { createTRPCRouter, protectedProcedure } from '..';
+import { resolveClinicId } from '../utils/validate-clinic';
+
+export const feedingRouter: AnyRouter = createTRPCRouter({
+  // ==================== QUERY PROCEDURES ====================
+
+  /**
+   * A patient's feeding logs, newest first
+   */
+  getPatientLogs: protectedProcedure.input(FeedingLogListSchema).query(async ({ ctx, input }) => {
+    const clinicId = resolveClinicId(ctx.session?.user.clinic?.id, input.clinicId);
+    return feedingService.getLogs({ ...input, clinicId });
+  }),
+
+  getLogById: protectedProcedure.input(FeedingLogByIdSchema).query(async ({ ctx, input }) => {
+    const clinicId = resolveClinicId(ctx.session?.user.clinic?.id, input.clinicId);
+    return feedingService.getLogById(input.id, clinicId);
+  }),
+
+  /**
+   * Daily intake, feeds per day, breast balance and under-feeding flags
+   */
+  getSummary: protectedProcedure.input(FeedingSummarySchema).query(async ({ ctx, input }) => {
+    const clinicId = resolveClinicId(ctx.session?.user.clinic?.id, input.clinicId);
+    return feedingService.getSummary(input.patientId, clinicId, input.days);
+  }),
+
+  // ==================== MUTATION PROCEDURES ====================
+
+  createLog: protectedProcedure.input(CreateFeedingLogSchema).mutation(async ({ ctx, input }) => {
+    const clinicId = resolveClinicId(ctx.session?.user.clinic?.id, input.clinicId);
+    return feedingService.createLog({ ...input, clinicId });
+  }),
+
+  updateLog: protectedProcedure.input(UpdateFeedingLogSchema).mutation(async ({ ctx, input }) => {
+    const clinicId = resolveClinicId(ctx.session?.user.clinic?.id, input.clinicId);
+    return feedingService.updateLog({ ...input, clinicId });
+  }),
+
+  deleteLog: protectedProcedure.input(FeedingLogByIdSchema).mutation(async ({ ctx, input }) => {
+    const clinicId = resolveClinicId(ctx.session?.user.clinic?.id, input.clinicId);
+    return feedingService.deleteLog(input.id, clinicId);
+  })
+});
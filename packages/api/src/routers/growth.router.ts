@@ -12,13 +12,27 @@
  */
 
 // Import service from @naroto/db/services
+import { growthAlertService } from '@naroto/db/services/growth/alert.service';
+import { growthChartRenderer } from '@naroto/db/services/growth/chart-renderer';
+import { growthImportService } from '@naroto/db/services/growth/import';
+import { growthRecomputeService } from '@naroto/db/services/growth/recompute';
 import { growthService } from '@naroto/db/services/growth.service';
 // Import schemas from @naroto/db/zodSchemas
 import {
+  AcknowledgeGrowthAlertSchema,
+  AcknowledgePatientGrowthAlertsSchema,
+  ClinicGrowthAlertsSchema,
+  ConfirmGrowthRecordSchema,
   DeleteGrowthRecordSchema,
+  FlaggedGrowthRecordsSchema,
+  GrowthAlertsByPatientSchema,
+  GrowthChartBatchSchema,
   GrowthComparisonSchema,
+  GrowthImportJobSchema,
+  GrowthImportSchema,
   GrowthPercentileSchema,
   GrowthProjectionSchema,
+  GrowthRecomputeSchema,
   GrowthRecordByIdSchema,
   GrowthRecordCreateSchema,
   GrowthRecordsByPatientSchema,
@@ -409,7 +423,10 @@ export const growthRouter: AnyRouter = createTRPCRouter({
    */
   calculateZScore: protectedProcedure.input(ZScoreCalculationSchema).query(async ({ input }) => {
     try {
-      return await growthService.calculateZScores(input.ageDays, input.weight, input.gender);
+      return await growthService.calculateZScores(input.ageDays, input.weight, input.gender, {
+        height: input.height,
+        headCircumference: input.headCircumference
+      });
     } catch (error) {
       throw new TRPCError({
         code: 'INTERNAL_SERVER_ERROR',
@@ -474,7 +491,7 @@ export const growthRouter: AnyRouter = createTRPCRouter({
    */
   getZScoreChartData: protectedProcedure.input(ZScoreChartSchema).query(async ({ input }) => {
     try {
-      return await growthService.getZScoreChartData(input.gender, input.measurementType);
+      return await growthService.getZScoreChartData(input.gender, input.measurementType, input.chartType);
     } catch (error) {
       throw new TRPCError({
         code: 'INTERNAL_SERVER_ERROR',
@@ -503,7 +520,13 @@ export const growthRouter: AnyRouter = createTRPCRouter({
         });
       }
 
-      return await growthService.getPatientZScoreChart(input.patientId, clinicId, input.measurementType);
+      return await growthService.getPatientZScoreChart(
+        input.patientId,
+        clinicId,
+        input.measurementType,
+        input.chartType,
+        input.pretermReference
+      );
     } catch (error) {
       if (error instanceof TRPCError) throw error;
       throw new TRPCError({
@@ -518,7 +541,7 @@ export const growthRouter: AnyRouter = createTRPCRouter({
    */
   getZScoreAreas: protectedProcedure.input(ZScoreChartSchema).query(async ({ input }) => {
     try {
-      return await growthService.getZScoreAreas(input.gender, input.measurementType);
+      return await growthService.getZScoreAreas(input.gender, input.measurementType, input.chartType);
     } catch (error) {
       throw new TRPCError({
         code: 'INTERNAL_SERVER_ERROR',
@@ -527,6 +550,34 @@ export const growthRouter: AnyRouter = createTRPCRouter({
     }
   }),
 
+  /**
+   * Queue growth charts for a batch of patients, rendered into one PDF for
+   * printing and downloaded from /api/growth/charts/[jobId]
+   */
+  queueGrowthChartBatch: protectedProcedure.input(GrowthChartBatchSchema).mutation(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    if (input.clinicId !== clinicId) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'Access denied'
+      });
+    }
+
+    return growthChartRenderer.queueBatch(
+      clinicId,
+      input.patientIds,
+      { measurementType: input.measurementType, chartType: input.chartType, mode: input.mode },
+      ctx.user.id
+    );
+  }),
+
   // ==================== MUTATION PROCEDURES ====================
 
   /**
@@ -536,7 +587,7 @@ export const growthRouter: AnyRouter = createTRPCRouter({
   createGrowthRecord: protectedProcedure.input(GrowthRecordCreateSchema).mutation(async ({ ctx, input }) => {
     try {
       const clinicId = ctx.session?.user.clinic?.id;
-      const _userId = ctx.user.id;
+      const userId = ctx.user.id;
 
       if (!clinicId) {
         throw new TRPCError({
@@ -552,11 +603,14 @@ export const growthRouter: AnyRouter = createTRPCRouter({
         });
       }
 
-      const result = await growthService.createGrowthRecord(input);
+      const result = await growthService.createGrowthRecord(input, userId);
 
       return {
         success: true,
-        message: 'Growth record created successfully',
+        message:
+          result.plausibility === 'FLAGGED'
+            ? 'Growth record saved; it needs confirmation before it is used in trends'
+            : 'Growth record created successfully',
         data: result
       };
     } catch (error) {
@@ -648,5 +702,231 @@ export const growthRouter: AnyRouter = createTRPCRouter({
         message: error instanceof Error ? error.message : 'Failed to delete growth record'
       });
     }
+  }),
+
+  // ==================== PLAUSIBILITY ====================
+
+  /**
+   * Confirm a measurement flagged as implausible
+   */
+  confirmGrowthRecord: protectedProcedure.input(ConfirmGrowthRecordSchema).mutation(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    return growthService.confirmGrowthRecord(input.id, clinicId, ctx.user.id);
+  }),
+
+  /**
+   * Get measurements awaiting confirmation across the clinic
+   */
+  getFlaggedGrowthRecords: protectedProcedure.input(FlaggedGrowthRecordsSchema).query(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    if (input.clinicId !== clinicId) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'Access denied'
+      });
+    }
+
+    return growthService.getFlaggedGrowthRecords(clinicId, input);
+  }),
+
+  // ==================== ALERTS ====================
+
+  /**
+   * Get a patient's growth alerts, open ones only unless asked otherwise
+   */
+  getPatientAlerts: protectedProcedure.input(GrowthAlertsByPatientSchema).query(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    return growthAlertService.getPatientAlerts(input.patientId, clinicId, {
+      includeAcknowledged: input.includeAcknowledged,
+      type: input.type
+    });
+  }),
+
+  /**
+   * Get growth alerts across the clinic
+   */
+  getClinicAlerts: protectedProcedure.input(ClinicGrowthAlertsSchema).query(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    if (input.clinicId !== clinicId) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'Access denied'
+      });
+    }
+
+    return growthAlertService.getClinicAlerts(clinicId, input);
+  }),
+
+  /**
+   * Acknowledge one growth alert
+   */
+  acknowledgeAlert: protectedProcedure.input(AcknowledgeGrowthAlertSchema).mutation(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    return growthAlertService.acknowledgeAlert(input.id, clinicId, ctx.user.id);
+  }),
+
+  /**
+   * Acknowledge every open growth alert of a patient
+   */
+  acknowledgePatientAlerts: protectedProcedure
+    .input(AcknowledgePatientGrowthAlertsSchema)
+    .mutation(async ({ ctx, input }) => {
+      const clinicId = ctx.session?.user.clinic?.id;
+      if (!clinicId) {
+        throw new TRPCError({
+          code: 'UNAUTHORIZED',
+          message: 'Clinic ID not found'
+        });
+      }
+
+      return growthAlertService.acknowledgePatientAlerts(input.patientId, clinicId, ctx.user.id);
+    }),
+
+  // ==================== IMPORT PROCEDURES ====================
+
+  /**
+   * Dry run of a CSV/XLSX growth history: column mapping, units, matched
+   * patients and a per-row report, with nothing written
+   */
+  previewImport: protectedProcedure.input(GrowthImportSchema).mutation(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    if (input.clinicId !== clinicId) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'Access denied'
+      });
+    }
+
+    return growthImportService.preview(input);
+  }),
+
+  /**
+   * Queue the import of a growth history; poll `getImport` for the report
+   */
+  startImport: protectedProcedure.input(GrowthImportSchema).mutation(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    if (input.clinicId !== clinicId) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'Access denied'
+      });
+    }
+
+    return growthImportService.queueImport(input, ctx.user.id);
+  }),
+
+  getImport: protectedProcedure.input(GrowthImportJobSchema).query(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    if (input.clinicId !== clinicId) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'Access denied'
+      });
+    }
+
+    return growthImportService.getImport(input.jobId, clinicId);
+  }),
+
+  // ==================== RECOMPUTE PROCEDURES ====================
+
+  /**
+   * Rescore the clinic's records that were scored against older reference
+   * data now, rather than waiting for the nightly run
+   */
+  startRecompute: protectedProcedure.input(GrowthRecomputeSchema).mutation(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    if (input.clinicId !== clinicId) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'Access denied'
+      });
+    }
+
+    return growthRecomputeService.startRecompute(clinicId, ctx.user.id);
+  }),
+
+  /**
+   * Progress of the latest recompute and the patients whose classification changed
+   */
+  getRecompute: protectedProcedure.input(GrowthRecomputeSchema).query(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    if (input.clinicId !== clinicId) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'Access denied'
+      });
+    }
+
+    return growthRecomputeService.getStatus(clinicId);
   })
 });
@@ -1,10 +1,13 @@
 import { protectedProcedure, publicProcedure, router } from '../index';
 import { adminRouter } from './admin.router';
+import { allergyRouter } from './allergy.router';
 import { appointmentRouter } from './appointment.router';
 import { authRouter } from './auth-router';
 import { clinicRouter } from './clinic.router';
 import { dashboardRouter } from './dashboard';
+import { developmentRouter } from './development.router';
 import { doctorRouter } from './doctor.router';
+import { feedingRouter } from './feeding.router';
 import { growthRouter } from './growth.router';
 import { healthRouter } from './health';
 import { medicalRouter } from './medical.router';
@@ -31,11 +34,14 @@ export const appRouter = router({
   }),
   todo: todoRouter,
   admin: adminRouter,
+  allergy: allergyRouter,
   appointment: appointmentRouter,
   auth: authRouter,
   clinic: clinicRouter,
   dashboard: dashboardRouter,
+  development: developmentRouter,
   doctor: doctorRouter,
+  feeding: feedingRouter,
   growth: growthRouter,
   health: healthRouter,
   medical: medicalRouter,
@@ -12,11 +12,14 @@
  */
 
 import type { LabStatus } from '@naroto/db';
+import { drugInteractionService } from '@naroto/db/services/drug-interaction.service';
+import { formularyService } from '@naroto/db/services/formulary.service';
 import { labTestService } from '@naroto/db/services/lab-test.service';
 import { medicalService } from '@naroto/db/services/medical.service';
 // Import service from @naroto/db/services
 import { medicalRecordService } from '@naroto/db/services/medical-record.service';
 import { prescriptionService } from '@naroto/db/services/prescription.service';
+import { systemService } from '@naroto/db/services/system.service';
 import { vitalService } from '@naroto/db/services/vitals.service';
 // Import schemas from @naroto/db/zodSchemas
 import {
@@ -44,12 +47,29 @@ import {
   MedicalRecordCreateSchema,
   MedicalRecordFilterSchema
 } from '@naroto/db/zodSchemas/medical.schema';
-import { PrescriptionFilterSchema } from '@naroto/db/zodSchemas/prescription.schema';
+import {
+  DoseMeasureSchema,
+  DrugByIdSchema,
+  DrugCreateSchema,
+  DrugFilterSchema,
+  DrugFormulationCreateSchema,
+  DrugFormulationUpdateSchema,
+  DrugInteractionCheckSchema,
+  DrugInteractionDatasetSchema,
+  DrugSearchSchema,
+  DrugUpdateSchema,
+  FormularyImportSchema,
+  PrescriptionByIdSchema,
+  PrescriptionCreateSchema,
+  PrescriptionDiscontinueSchema,
+  PrescriptionFilterSchema,
+  PrescriptionRenewSchema
+} from '@naroto/db/zodSchemas/prescription.schema';
 import type { AnyRouter } from '@trpc/server';
 import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
 
-import { createTRPCRouter, protectedProcedure } from '..';
+import { adminProcedure, createTRPCRouter, protectedProcedure } from '..';
 
 export const medicalRouter: AnyRouter = createTRPCRouter({
   // ==================== DIAGNOSIS PROCEDURES ====================
@@ -913,6 +933,196 @@ export const medicalRouter: AnyRouter = createTRPCRouter({
       }
     }),
 
+  // ==================== PRESCRIBING PROCEDURES ====================
+
+  /**
+   * Prescription with its items, prescriber and renewal
+   */
+  getPrescriptionById: protectedProcedure.input(PrescriptionByIdSchema).query(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    if (input.clinicId !== clinicId) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'Access denied'
+      });
+    }
+
+    return prescriptionService.getPrescriptionById(input.id, clinicId);
+  }),
+
+  /**
+   * Prescribe one or more drugs from a diagnosis encounter; each dose is
+   * checked against the drug's guidelines at the latest weight
+   */
+  createPrescription: protectedProcedure.input(PrescriptionCreateSchema).mutation(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    if (input.clinicId !== clinicId) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'Access denied'
+      });
+    }
+
+    return prescriptionService.createPrescription(input, ctx.user.id);
+  }),
+
+  /**
+   * Issue a prescription again, rechecking doses at the current weight
+   */
+  renewPrescription: protectedProcedure.input(PrescriptionRenewSchema).mutation(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    if (input.clinicId !== clinicId) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'Access denied'
+      });
+    }
+
+    return prescriptionService.renewPrescription(input, ctx.user.id);
+  }),
+
+  /**
+   * Stop an active prescription, with the reason
+   */
+  discontinuePrescription: protectedProcedure.input(PrescriptionDiscontinueSchema).mutation(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    if (input.clinicId !== clinicId) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'Access denied'
+      });
+    }
+
+    return prescriptionService.discontinuePrescription(input, ctx.user.id);
+  }),
+
+  /**
+   * Mark an active prescription as finished
+   */
+  completePrescription: protectedProcedure.input(PrescriptionByIdSchema).mutation(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    if (input.clinicId !== clinicId) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'Access denied'
+      });
+    }
+
+    return prescriptionService.completePrescription(input, ctx.user.id);
+  }),
+
+  /**
+   * Interactions among drugs, and with a patient's active prescriptions
+   * when a patient is given
+   */
+  checkDrugInteractions: protectedProcedure.input(DrugInteractionCheckSchema).query(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({
+        code: 'UNAUTHORIZED',
+        message: 'Clinic ID not found'
+      });
+    }
+
+    if (input.clinicId !== clinicId) {
+      throw new TRPCError({
+        code: 'FORBIDDEN',
+        message: 'Access denied'
+      });
+    }
+
+    return drugInteractionService.check(input.drugIds, { patientId: input.patientId, clinicId });
+  }),
+
+  /**
+   * Load or update the interaction table from a dataset
+   */
+  importDrugInteractions: adminProcedure.input(DrugInteractionDatasetSchema).mutation(async ({ input }) => {
+    return drugInteractionService.importDataset(input);
+  }),
+
+  // ==================== FORMULARY PROCEDURES ====================
+
+  /**
+   * Drugs by name, generic name or brand name, with their formulations
+   */
+  searchDrugs: protectedProcedure.input(DrugSearchSchema).query(async ({ input }) => {
+    return systemService.searchDrugsWithDetails(input.query, input.limit);
+  }),
+
+  getFormularyDrugs: protectedProcedure.input(DrugFilterSchema).query(async ({ input }) => {
+    return formularyService.listDrugs(input);
+  }),
+
+  getFormularyDrug: protectedProcedure.input(DrugByIdSchema).query(async ({ input }) => {
+    return formularyService.getDrug(input.id);
+  }),
+
+  /**
+   * The volume or tablets of a formulation that give a dose
+   */
+  measureDose: protectedProcedure.input(DoseMeasureSchema).query(async ({ input }) => {
+    return formularyService.measureDose(input);
+  }),
+
+  createDrug: adminProcedure.input(DrugCreateSchema).mutation(async ({ input }) => {
+    return formularyService.createDrug(input);
+  }),
+
+  updateDrug: adminProcedure.input(DrugUpdateSchema).mutation(async ({ input }) => {
+    return formularyService.updateDrug(input);
+  }),
+
+  addDrugFormulation: adminProcedure.input(DrugFormulationCreateSchema).mutation(async ({ input }) => {
+    return formularyService.addFormulation(input);
+  }),
+
+  updateDrugFormulation: adminProcedure.input(DrugFormulationUpdateSchema).mutation(async ({ input }) => {
+    return formularyService.updateFormulation(input);
+  }),
+
+  /**
+   * Load or update generic and brand names and formulations from a dataset
+   */
+  importFormulary: adminProcedure.input(FormularyImportSchema).mutation(async ({ input }) => {
+    return formularyService.importFormulary(input);
+  }),
+
   // ==================== COMPREHENSIVE PATIENT MEDICAL SUMMARY ====================
 
   /**
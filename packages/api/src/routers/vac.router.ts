@@ -10,7 +10,9 @@
  * - NO database calls
  */
 
+import { reminderService } from '@naroto/db/services/reminder/reminder.service';
 import {
+  ActivateScheduleSetSchema,
   calculateDueVaccinesSchema,
   ImmunizationCreateSchema,
   ImmunizationUpdateSchema,
@@ -22,25 +24,29 @@ import {
   VaccinationByClinicSchema,
   VaccinationByIdSchema,
   VaccinationByPatientSchema,
-  VaccineScheduleFilterSchema
+  VaccineScheduleFilterSchema,
+  VaccineScheduleSetImportSchema
 } from '@naroto/db/zodSchemas/vac.schema';
 import type { AnyRouter } from '@trpc/server';
 import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
 
 import {
+  activateScheduleSetAction,
   completeImmunizationAction,
   delayImmunizationAction,
   deleteImmunizationAction,
+  importScheduleSetAction,
   recordImmunizationAction,
   scheduleDueVaccinationsAction,
   scheduleVaccinationAction,
   updateImmunizationAction,
   updateImmunizationStatusAction
 } from '../../../../apps/web/src/actions/vac.action';
-import { getCachedVaccineSchedule } from '../../../../apps/web/src/lib/cache/system.cache';
 import {
   getCachedCalculatedDueVaccines,
+  getCachedClinicDueCount,
+  getCachedClinicScheduleSet,
   getCachedDueVaccinations,
   getCachedImmunizationById,
   getCachedImmunizationsByClinic,
@@ -49,12 +55,14 @@ import {
   getCachedOverdueVaccinations,
   getCachedPatientImmunizationRecord,
   getCachedPatientVaccinationSummary,
+  getCachedScheduleSets,
   getCachedUpcomingVaccinationCount,
   getCachedUpcomingVaccinations,
   getCachedVaccinationCountByStatus,
+  getCachedVaccineSchedule,
   getCachedVaccineScheduleByAge
 } from '../../../../apps/web/src/lib/cache/vac.cache';
-import { createTRPCRouter, protectedProcedure } from '..';
+import { adminProcedure, createTRPCRouter, protectedProcedure } from '..';
 
 export const vaccinationRouter: AnyRouter = createTRPCRouter({
   // ==================== QUERY PROCEDURES ====================
@@ -167,16 +175,56 @@ export const vaccinationRouter: AnyRouter = createTRPCRouter({
 
   // ==================== VACCINE SCHEDULE PROCEDURES ====================
 
-  getVaccineSchedule: protectedProcedure.input(VaccineScheduleFilterSchema.optional()).query(async () => {
-    return getCachedVaccineSchedule();
+  getVaccineSchedule: protectedProcedure.input(VaccineScheduleFilterSchema.optional()).query(async ({ ctx, input }) => {
+    const clinicId = ctx.session?.user.clinic?.id;
+    if (!clinicId) {
+      throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Clinic ID not found' });
+    }
+    if (input?.clinicId && input.clinicId !== clinicId) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Access denied' });
+    }
+
+    const { clinicId: _clinicId, ...options } = input ?? {};
+    return getCachedVaccineSchedule(clinicId, options);
   }),
 
   getVaccineScheduleByAge: protectedProcedure
     .input(z.object({ ageMonths: z.number().int().min(0).max(240) }))
-    .query(async ({ input }) => {
-      return getCachedVaccineScheduleByAge(input.ageMonths);
+    .query(async ({ ctx, input }) => {
+      const clinicId = ctx.session?.user.clinic?.id;
+      if (!clinicId) {
+        throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Clinic ID not found' });
+      }
+
+      return getCachedVaccineScheduleByAge(clinicId, input.ageMonths);
     }),
 
+  // ==================== SCHEDULE SET PROCEDURES ====================
+
+  getScheduleSets: protectedProcedure.query(async () => {
+    return getCachedScheduleSets();
+  }),
+
+  getClinicScheduleSet: protectedProcedure.input(z.object({ clinicId: z.uuid() })).query(async ({ ctx, input }) => {
+    if (input.clinicId !== ctx.session?.user.clinic?.id) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Access denied' });
+    }
+
+    return getCachedClinicScheduleSet(input.clinicId);
+  }),
+
+  importScheduleSet: adminProcedure.input(VaccineScheduleSetImportSchema).mutation(async ({ input }) => {
+    return importScheduleSetAction(input);
+  }),
+
+  activateScheduleSet: adminProcedure.input(ActivateScheduleSetSchema).mutation(async ({ ctx, input }) => {
+    if (input.clinicId !== ctx.session?.user.clinic?.id) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Access denied' });
+    }
+
+    return activateScheduleSetAction(input);
+  }),
+
   // ==================== PATIENT SUMMARY PROCEDURES ====================
 
   getPatientVaccinationSummary: protectedProcedure
@@ -290,12 +338,39 @@ export const vaccinationRouter: AnyRouter = createTRPCRouter({
     }
 
     // Logic is encapsulated in the Service/Query layer to keep router clean
-    return getCachedCalculatedDueVaccines(input.patientId, {
-      patientAgeDays: input.patientAgeDays,
-      completedVaccines: input.completedVaccines
-    });
+    return getCachedCalculatedDueVaccines(input.patientId, input.clinicId);
+  }),
+
+  getClinicDueCount: protectedProcedure.input(z.object({ clinicId: z.uuid() })).query(async ({ ctx, input }) => {
+    if (input.clinicId !== ctx.session?.user.clinic?.id) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Access denied' });
+    }
+
+    return getCachedClinicDueCount(input.clinicId);
   }),
 
+  /**
+   * POST: Queue reminders for vaccinations coming due in a clinic
+   */
+  sendImmunizationReminders: protectedProcedure
+    .input(
+      z.object({
+        clinicId: z.uuid(),
+        daysAhead: z.number().int().min(1).max(90).optional(),
+        includeOverdue: z.boolean().optional()
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      if (input.clinicId !== ctx.session?.user.clinic?.id) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: 'Access denied' });
+      }
+
+      return reminderService.queueImmunizationReminders(input.clinicId, {
+        daysAhead: input.daysAhead,
+        includeOverdue: input.includeOverdue
+      });
+    }),
+
   // ==================== RECORD PROCEDURES ====================
 
   /**
@@ -1,6 +1,7 @@
 import { getRole } from '@naroto/api/utils/utils';
 import type { auth } from '@naroto/auth'; // Your Better Auth instance
 import { prisma } from '@naroto/db';
+import { TRPCError } from '@trpc/server';
 
 type BetterAuthSession = typeof auth.$Infer.Session | null;
 
@@ -22,6 +23,28 @@ export async function validateClinicAccess(clinicId: string, userId: string): Pr
   }
 }
 
+/**
+ * 🛂 Router Guard
+ * Clinic of the session, checked against the clinic the input names.
+ */
+export function resolveClinicId(sessionClinicId: string | undefined, inputClinicId: string): string {
+  if (!sessionClinicId) {
+    throw new TRPCError({
+      code: 'UNAUTHORIZED',
+      message: 'Clinic ID not found'
+    });
+  }
+
+  if (inputClinicId !== sessionClinicId) {
+    throw new TRPCError({
+      code: 'FORBIDDEN',
+      message: 'Access denied'
+    });
+  }
+
+  return sessionClinicId;
+}
+
 /**
  * ⚡ PERFORMANCE: UI/Display Access Checker
  * Uses session data for fast UI rendering (Sidebar, Tabs).
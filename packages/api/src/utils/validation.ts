@@ -1,3 +1,4 @@
+import { AppError } from '@naroto/db/error';
 import { TRPCError } from '@trpc/server';
 import type { TRPCErrorShape } from '@trpc/server/rpc';
 import type z from 'zod';
@@ -88,6 +89,19 @@ export function enhancedErrorFormatter({ shape, error }: { shape: TRPCErrorShape
     };
   }
 
+  // Domain errors carry a code and structured details (e.g. per-occurrence booking conflicts)
+  if (error.cause instanceof AppError) {
+    return {
+      ...shape,
+      data: {
+        ...shape.data,
+        code: error.cause.code,
+        message: error.cause.message,
+        details: error.cause.details
+      }
+    };
+  }
+
   // Handle other types of errors
   if (error.cause instanceof Error) {
     return {
@@ -124,6 +124,16 @@ export type Doctor = Prisma.DoctorModel
  * 
  */
 export type WorkingDays = Prisma.WorkingDaysModel
+/**
+ * Model DoctorBreak
+ * 
+ */
+export type DoctorBreak = Prisma.DoctorBreakModel
+/**
+ * Model ScheduleException
+ * 
+ */
+export type ScheduleException = Prisma.ScheduleExceptionModel
 /**
  * Model Staff
  * 
@@ -159,6 +169,11 @@ export type ClinicSetting = Prisma.ClinicSettingModel
  * 
  */
 export type WHOGrowthStandard = Prisma.WHOGrowthStandardModel
+/**
+ * Model GrowthVelocityStandard
+ * 
+ */
+export type GrowthVelocityStandard = Prisma.GrowthVelocityStandardModel
 /**
  * Model Rating
  * 
@@ -174,6 +189,19 @@ export type Prescription = Prisma.PrescriptionModel
  * 
  */
 export type Drug = Prisma.DrugModel
+/**
+ * Model DrugFormulation
+ * A product a drug is given as, e.g. a 125 mg/5 mL syrup or a scored 500 mg
+ * tablet. Liquids hold `strength` per `perVolumeMl`; solids hold it per unit.
+ */
+export type DrugFormulation = Prisma.DrugFormulationModel
+/**
+ * Model DrugInteraction
+ * An interacting pair from the interaction dataset. Each side is a drug name
+ * or a drug class, in lower case; the sides are stored in alphabetical order
+ * so a pair is listed once.
+ */
+export type DrugInteraction = Prisma.DrugInteractionModel
 /**
  * Model DoseGuideline
  * 
@@ -194,11 +222,40 @@ export type Guardian = Prisma.GuardianModel
  * 
  */
 export type Patient = Prisma.PatientModel
+/**
+ * Model PatientAllergy
+ * A recorded allergy. Entries migrated from the free-text `Patient.allergies`
+ * wait in the review queue (`needsReview`) until a clinician confirms or
+ * corrects them; they are checked at prescribing meanwhile.
+ */
+export type PatientAllergy = Prisma.PatientAllergyModel
+/**
+ * Model PatientCondition
+ * A coded condition on the patient's problem list. Only entries migrated
+ * from the free-text `Patient.medicalConditions` may lack a code, and they
+ * stay in the review queue until one is given.
+ */
+export type PatientCondition = Prisma.PatientConditionModel
 /**
  * Model Appointment
  * 
  */
 export type Appointment = Prisma.AppointmentModel
+/**
+ * Model AppointmentSeries
+ * 
+ */
+export type AppointmentSeries = Prisma.AppointmentSeriesModel
+/**
+ * Model WaitlistEntry
+ * 
+ */
+export type WaitlistEntry = Prisma.WaitlistEntryModel
+/**
+ * Model WaitlistOffer
+ * 
+ */
+export type WaitlistOffer = Prisma.WaitlistOfferModel
 /**
  * Model MedicalRecords
  * 
@@ -224,6 +281,11 @@ export type VitalSigns = Prisma.VitalSignsModel
  * 
  */
 export type GrowthRecord = Prisma.GrowthRecordModel
+/**
+ * Model GrowthAlert
+ * 
+ */
+export type GrowthAlert = Prisma.GrowthAlertModel
 /**
  * Model Immunization
  * 
@@ -264,6 +326,16 @@ export type DevelopmentalCheck = Prisma.DevelopmentalCheckModel
  * 
  */
 export type VaccineSchedule = Prisma.VaccineScheduleModel
+/**
+ * Model VaccineScheduleSet
+ * 
+ */
+export type VaccineScheduleSet = Prisma.VaccineScheduleSetModel
+/**
+ * Model VaccineScheduleDose
+ * 
+ */
+export type VaccineScheduleDose = Prisma.VaccineScheduleDoseModel
 /**
  * Model Expense
  * 
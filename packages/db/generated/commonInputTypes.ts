@@ -361,6 +361,23 @@ export type DecimalWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedDecimalFilter<$PrismaModel>
 }
 
+export type EnumScheduleExceptionTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.ScheduleExceptionType | Prisma.EnumScheduleExceptionTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.ScheduleExceptionType[] | Prisma.ListEnumScheduleExceptionTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ScheduleExceptionType[] | Prisma.ListEnumScheduleExceptionTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumScheduleExceptionTypeFilter<$PrismaModel> | $Enums.ScheduleExceptionType
+}
+
+export type EnumScheduleExceptionTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ScheduleExceptionType | Prisma.EnumScheduleExceptionTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.ScheduleExceptionType[] | Prisma.ListEnumScheduleExceptionTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ScheduleExceptionType[] | Prisma.ListEnumScheduleExceptionTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumScheduleExceptionTypeWithAggregatesFilter<$PrismaModel> | $Enums.ScheduleExceptionType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumScheduleExceptionTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumScheduleExceptionTypeFilter<$PrismaModel>
+}
+
 export type FloatNullableFilter<$PrismaModel = never> = {
   equals?: number | Prisma.FloatFieldRefInput<$PrismaModel> | null
   in?: number[] | Prisma.ListFloatFieldRefInput<$PrismaModel> | null
@@ -517,6 +534,13 @@ export type EnumServiceCategoryNullableWithAggregatesFilter<$PrismaModel = never
   _max?: Prisma.NestedEnumServiceCategoryNullableFilter<$PrismaModel>
 }
 
+export type EnumGrowthReferenceSourceFilter<$PrismaModel = never> = {
+  equals?: $Enums.GrowthReferenceSource | Prisma.EnumGrowthReferenceSourceFieldRefInput<$PrismaModel>
+  in?: $Enums.GrowthReferenceSource[] | Prisma.ListEnumGrowthReferenceSourceFieldRefInput<$PrismaModel>
+  notIn?: $Enums.GrowthReferenceSource[] | Prisma.ListEnumGrowthReferenceSourceFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumGrowthReferenceSourceFilter<$PrismaModel> | $Enums.GrowthReferenceSource
+}
+
 export type EnumGenderFilter<$PrismaModel = never> = {
   equals?: $Enums.Gender | Prisma.EnumGenderFieldRefInput<$PrismaModel>
   in?: $Enums.Gender[] | Prisma.ListEnumGenderFieldRefInput<$PrismaModel>
@@ -538,6 +562,16 @@ export type EnumMeasurementTypeNullableFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumMeasurementTypeNullableFilter<$PrismaModel> | $Enums.MeasurementType | null
 }
 
+export type EnumGrowthReferenceSourceWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.GrowthReferenceSource | Prisma.EnumGrowthReferenceSourceFieldRefInput<$PrismaModel>
+  in?: $Enums.GrowthReferenceSource[] | Prisma.ListEnumGrowthReferenceSourceFieldRefInput<$PrismaModel>
+  notIn?: $Enums.GrowthReferenceSource[] | Prisma.ListEnumGrowthReferenceSourceFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumGrowthReferenceSourceWithAggregatesFilter<$PrismaModel> | $Enums.GrowthReferenceSource
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumGrowthReferenceSourceFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumGrowthReferenceSourceFilter<$PrismaModel>
+}
+
 export type EnumGenderWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.Gender | Prisma.EnumGenderFieldRefInput<$PrismaModel>
   in?: $Enums.Gender[] | Prisma.ListEnumGenderFieldRefInput<$PrismaModel>
@@ -568,6 +602,13 @@ export type EnumMeasurementTypeNullableWithAggregatesFilter<$PrismaModel = never
   _max?: Prisma.NestedEnumMeasurementTypeNullableFilter<$PrismaModel>
 }
 
+export type EnumMeasurementTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.MeasurementType | Prisma.EnumMeasurementTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.MeasurementType[] | Prisma.ListEnumMeasurementTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.MeasurementType[] | Prisma.ListEnumMeasurementTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumMeasurementTypeFilter<$PrismaModel> | $Enums.MeasurementType
+}
+
 export type FloatFilter<$PrismaModel = never> = {
   equals?: number | Prisma.FloatFieldRefInput<$PrismaModel>
   in?: number[] | Prisma.ListFloatFieldRefInput<$PrismaModel>
@@ -579,18 +620,14 @@ export type FloatFilter<$PrismaModel = never> = {
   not?: Prisma.NestedFloatFilter<$PrismaModel> | number
 }
 
-export type EnumDosageUnitFilter<$PrismaModel = never> = {
-  equals?: $Enums.DosageUnit | Prisma.EnumDosageUnitFieldRefInput<$PrismaModel>
-  in?: $Enums.DosageUnit[] | Prisma.ListEnumDosageUnitFieldRefInput<$PrismaModel>
-  notIn?: $Enums.DosageUnit[] | Prisma.ListEnumDosageUnitFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedEnumDosageUnitFilter<$PrismaModel> | $Enums.DosageUnit
-}
-
-export type EnumDrugRouteNullableFilter<$PrismaModel = never> = {
-  equals?: $Enums.DrugRoute | Prisma.EnumDrugRouteFieldRefInput<$PrismaModel> | null
-  in?: $Enums.DrugRoute[] | Prisma.ListEnumDrugRouteFieldRefInput<$PrismaModel> | null
-  notIn?: $Enums.DrugRoute[] | Prisma.ListEnumDrugRouteFieldRefInput<$PrismaModel> | null
-  not?: Prisma.NestedEnumDrugRouteNullableFilter<$PrismaModel> | $Enums.DrugRoute | null
+export type EnumMeasurementTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.MeasurementType | Prisma.EnumMeasurementTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.MeasurementType[] | Prisma.ListEnumMeasurementTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.MeasurementType[] | Prisma.ListEnumMeasurementTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumMeasurementTypeWithAggregatesFilter<$PrismaModel> | $Enums.MeasurementType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumMeasurementTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumMeasurementTypeFilter<$PrismaModel>
 }
 
 export type FloatWithAggregatesFilter<$PrismaModel = never> = {
@@ -609,6 +646,122 @@ export type FloatWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedFloatFilter<$PrismaModel>
 }
 
+export type EnumPrescriptionStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.PrescriptionStatus | Prisma.EnumPrescriptionStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.PrescriptionStatus[] | Prisma.ListEnumPrescriptionStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PrescriptionStatus[] | Prisma.ListEnumPrescriptionStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPrescriptionStatusFilter<$PrismaModel> | $Enums.PrescriptionStatus
+}
+
+export type EnumPrescriptionStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PrescriptionStatus | Prisma.EnumPrescriptionStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.PrescriptionStatus[] | Prisma.ListEnumPrescriptionStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PrescriptionStatus[] | Prisma.ListEnumPrescriptionStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPrescriptionStatusWithAggregatesFilter<$PrismaModel> | $Enums.PrescriptionStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPrescriptionStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPrescriptionStatusFilter<$PrismaModel>
+}
+
+export type EnumPregnancyCategoryNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.PregnancyCategory | Prisma.EnumPregnancyCategoryFieldRefInput<$PrismaModel> | null
+  in?: $Enums.PregnancyCategory[] | Prisma.ListEnumPregnancyCategoryFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.PregnancyCategory[] | Prisma.ListEnumPregnancyCategoryFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumPregnancyCategoryNullableFilter<$PrismaModel> | $Enums.PregnancyCategory | null
+}
+
+export type EnumControlledScheduleNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.ControlledSchedule | Prisma.EnumControlledScheduleFieldRefInput<$PrismaModel> | null
+  in?: $Enums.ControlledSchedule[] | Prisma.ListEnumControlledScheduleFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.ControlledSchedule[] | Prisma.ListEnumControlledScheduleFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumControlledScheduleNullableFilter<$PrismaModel> | $Enums.ControlledSchedule | null
+}
+
+export type EnumPregnancyCategoryNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PregnancyCategory | Prisma.EnumPregnancyCategoryFieldRefInput<$PrismaModel> | null
+  in?: $Enums.PregnancyCategory[] | Prisma.ListEnumPregnancyCategoryFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.PregnancyCategory[] | Prisma.ListEnumPregnancyCategoryFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumPregnancyCategoryNullableWithAggregatesFilter<$PrismaModel> | $Enums.PregnancyCategory | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPregnancyCategoryNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPregnancyCategoryNullableFilter<$PrismaModel>
+}
+
+export type EnumControlledScheduleNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ControlledSchedule | Prisma.EnumControlledScheduleFieldRefInput<$PrismaModel> | null
+  in?: $Enums.ControlledSchedule[] | Prisma.ListEnumControlledScheduleFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.ControlledSchedule[] | Prisma.ListEnumControlledScheduleFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumControlledScheduleNullableWithAggregatesFilter<$PrismaModel> | $Enums.ControlledSchedule | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumControlledScheduleNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumControlledScheduleNullableFilter<$PrismaModel>
+}
+
+export type EnumDrugFormFilter<$PrismaModel = never> = {
+  equals?: $Enums.DrugForm | Prisma.EnumDrugFormFieldRefInput<$PrismaModel>
+  in?: $Enums.DrugForm[] | Prisma.ListEnumDrugFormFieldRefInput<$PrismaModel>
+  notIn?: $Enums.DrugForm[] | Prisma.ListEnumDrugFormFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumDrugFormFilter<$PrismaModel> | $Enums.DrugForm
+}
+
+export type EnumDrugRouteFilter<$PrismaModel = never> = {
+  equals?: $Enums.DrugRoute | Prisma.EnumDrugRouteFieldRefInput<$PrismaModel>
+  in?: $Enums.DrugRoute[] | Prisma.ListEnumDrugRouteFieldRefInput<$PrismaModel>
+  notIn?: $Enums.DrugRoute[] | Prisma.ListEnumDrugRouteFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumDrugRouteFilter<$PrismaModel> | $Enums.DrugRoute
+}
+
+export type EnumDrugFormWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.DrugForm | Prisma.EnumDrugFormFieldRefInput<$PrismaModel>
+  in?: $Enums.DrugForm[] | Prisma.ListEnumDrugFormFieldRefInput<$PrismaModel>
+  notIn?: $Enums.DrugForm[] | Prisma.ListEnumDrugFormFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumDrugFormWithAggregatesFilter<$PrismaModel> | $Enums.DrugForm
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumDrugFormFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumDrugFormFilter<$PrismaModel>
+}
+
+export type EnumDrugRouteWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.DrugRoute | Prisma.EnumDrugRouteFieldRefInput<$PrismaModel>
+  in?: $Enums.DrugRoute[] | Prisma.ListEnumDrugRouteFieldRefInput<$PrismaModel>
+  notIn?: $Enums.DrugRoute[] | Prisma.ListEnumDrugRouteFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumDrugRouteWithAggregatesFilter<$PrismaModel> | $Enums.DrugRoute
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumDrugRouteFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumDrugRouteFilter<$PrismaModel>
+}
+
+export type EnumInteractionSeverityFilter<$PrismaModel = never> = {
+  equals?: $Enums.InteractionSeverity | Prisma.EnumInteractionSeverityFieldRefInput<$PrismaModel>
+  in?: $Enums.InteractionSeverity[] | Prisma.ListEnumInteractionSeverityFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InteractionSeverity[] | Prisma.ListEnumInteractionSeverityFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInteractionSeverityFilter<$PrismaModel> | $Enums.InteractionSeverity
+}
+
+export type EnumInteractionSeverityWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InteractionSeverity | Prisma.EnumInteractionSeverityFieldRefInput<$PrismaModel>
+  in?: $Enums.InteractionSeverity[] | Prisma.ListEnumInteractionSeverityFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InteractionSeverity[] | Prisma.ListEnumInteractionSeverityFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInteractionSeverityWithAggregatesFilter<$PrismaModel> | $Enums.InteractionSeverity
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInteractionSeverityFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInteractionSeverityFilter<$PrismaModel>
+}
+
+export type EnumDosageUnitFilter<$PrismaModel = never> = {
+  equals?: $Enums.DosageUnit | Prisma.EnumDosageUnitFieldRefInput<$PrismaModel>
+  in?: $Enums.DosageUnit[] | Prisma.ListEnumDosageUnitFieldRefInput<$PrismaModel>
+  notIn?: $Enums.DosageUnit[] | Prisma.ListEnumDosageUnitFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumDosageUnitFilter<$PrismaModel> | $Enums.DosageUnit
+}
+
+export type EnumDrugRouteNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.DrugRoute | Prisma.EnumDrugRouteFieldRefInput<$PrismaModel> | null
+  in?: $Enums.DrugRoute[] | Prisma.ListEnumDrugRouteFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.DrugRoute[] | Prisma.ListEnumDrugRouteFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumDrugRouteNullableFilter<$PrismaModel> | $Enums.DrugRoute | null
+}
+
 export type EnumDosageUnitWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.DosageUnit | Prisma.EnumDosageUnitFieldRefInput<$PrismaModel>
   in?: $Enums.DosageUnit[] | Prisma.ListEnumDosageUnitFieldRefInput<$PrismaModel>
@@ -629,6 +782,91 @@ export type EnumDrugRouteNullableWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedEnumDrugRouteNullableFilter<$PrismaModel>
 }
 
+export type EnumAllergenTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.AllergenType | Prisma.EnumAllergenTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.AllergenType[] | Prisma.ListEnumAllergenTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AllergenType[] | Prisma.ListEnumAllergenTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAllergenTypeFilter<$PrismaModel> | $Enums.AllergenType
+}
+
+export type EnumAllergySeverityNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.AllergySeverity | Prisma.EnumAllergySeverityFieldRefInput<$PrismaModel> | null
+  in?: $Enums.AllergySeverity[] | Prisma.ListEnumAllergySeverityFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.AllergySeverity[] | Prisma.ListEnumAllergySeverityFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumAllergySeverityNullableFilter<$PrismaModel> | $Enums.AllergySeverity | null
+}
+
+export type EnumAllergyVerificationStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.AllergyVerificationStatus | Prisma.EnumAllergyVerificationStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.AllergyVerificationStatus[] | Prisma.ListEnumAllergyVerificationStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AllergyVerificationStatus[] | Prisma.ListEnumAllergyVerificationStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAllergyVerificationStatusFilter<$PrismaModel> | $Enums.AllergyVerificationStatus
+}
+
+export type EnumAllergenTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.AllergenType | Prisma.EnumAllergenTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.AllergenType[] | Prisma.ListEnumAllergenTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AllergenType[] | Prisma.ListEnumAllergenTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAllergenTypeWithAggregatesFilter<$PrismaModel> | $Enums.AllergenType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumAllergenTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumAllergenTypeFilter<$PrismaModel>
+}
+
+export type EnumAllergySeverityNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.AllergySeverity | Prisma.EnumAllergySeverityFieldRefInput<$PrismaModel> | null
+  in?: $Enums.AllergySeverity[] | Prisma.ListEnumAllergySeverityFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.AllergySeverity[] | Prisma.ListEnumAllergySeverityFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumAllergySeverityNullableWithAggregatesFilter<$PrismaModel> | $Enums.AllergySeverity | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumAllergySeverityNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumAllergySeverityNullableFilter<$PrismaModel>
+}
+
+export type EnumAllergyVerificationStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.AllergyVerificationStatus | Prisma.EnumAllergyVerificationStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.AllergyVerificationStatus[] | Prisma.ListEnumAllergyVerificationStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AllergyVerificationStatus[] | Prisma.ListEnumAllergyVerificationStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAllergyVerificationStatusWithAggregatesFilter<$PrismaModel> | $Enums.AllergyVerificationStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumAllergyVerificationStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumAllergyVerificationStatusFilter<$PrismaModel>
+}
+
+export type EnumConditionCodeSystemNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.ConditionCodeSystem | Prisma.EnumConditionCodeSystemFieldRefInput<$PrismaModel> | null
+  in?: $Enums.ConditionCodeSystem[] | Prisma.ListEnumConditionCodeSystemFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.ConditionCodeSystem[] | Prisma.ListEnumConditionCodeSystemFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumConditionCodeSystemNullableFilter<$PrismaModel> | $Enums.ConditionCodeSystem | null
+}
+
+export type EnumConditionStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.ConditionStatus | Prisma.EnumConditionStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.ConditionStatus[] | Prisma.ListEnumConditionStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ConditionStatus[] | Prisma.ListEnumConditionStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumConditionStatusFilter<$PrismaModel> | $Enums.ConditionStatus
+}
+
+export type EnumConditionCodeSystemNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ConditionCodeSystem | Prisma.EnumConditionCodeSystemFieldRefInput<$PrismaModel> | null
+  in?: $Enums.ConditionCodeSystem[] | Prisma.ListEnumConditionCodeSystemFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.ConditionCodeSystem[] | Prisma.ListEnumConditionCodeSystemFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumConditionCodeSystemNullableWithAggregatesFilter<$PrismaModel> | $Enums.ConditionCodeSystem | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumConditionCodeSystemNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumConditionCodeSystemNullableFilter<$PrismaModel>
+}
+
+export type EnumConditionStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ConditionStatus | Prisma.EnumConditionStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.ConditionStatus[] | Prisma.ListEnumConditionStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ConditionStatus[] | Prisma.ListEnumConditionStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumConditionStatusWithAggregatesFilter<$PrismaModel> | $Enums.ConditionStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumConditionStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumConditionStatusFilter<$PrismaModel>
+}
+
 export type EnumAppointmentStatusNullableFilter<$PrismaModel = never> = {
   equals?: $Enums.AppointmentStatus | Prisma.EnumAppointmentStatusFieldRefInput<$PrismaModel> | null
   in?: $Enums.AppointmentStatus[] | Prisma.ListEnumAppointmentStatusFieldRefInput<$PrismaModel> | null
@@ -663,6 +901,74 @@ export type EnumAppointmentTypeWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedEnumAppointmentTypeFilter<$PrismaModel>
 }
 
+export type EnumRecurrenceFrequencyFilter<$PrismaModel = never> = {
+  equals?: $Enums.RecurrenceFrequency | Prisma.EnumRecurrenceFrequencyFieldRefInput<$PrismaModel>
+  in?: $Enums.RecurrenceFrequency[] | Prisma.ListEnumRecurrenceFrequencyFieldRefInput<$PrismaModel>
+  notIn?: $Enums.RecurrenceFrequency[] | Prisma.ListEnumRecurrenceFrequencyFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumRecurrenceFrequencyFilter<$PrismaModel> | $Enums.RecurrenceFrequency
+}
+
+export type EnumAppointmentSeriesStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.AppointmentSeriesStatus | Prisma.EnumAppointmentSeriesStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.AppointmentSeriesStatus[] | Prisma.ListEnumAppointmentSeriesStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AppointmentSeriesStatus[] | Prisma.ListEnumAppointmentSeriesStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAppointmentSeriesStatusFilter<$PrismaModel> | $Enums.AppointmentSeriesStatus
+}
+
+export type EnumRecurrenceFrequencyWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.RecurrenceFrequency | Prisma.EnumRecurrenceFrequencyFieldRefInput<$PrismaModel>
+  in?: $Enums.RecurrenceFrequency[] | Prisma.ListEnumRecurrenceFrequencyFieldRefInput<$PrismaModel>
+  notIn?: $Enums.RecurrenceFrequency[] | Prisma.ListEnumRecurrenceFrequencyFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumRecurrenceFrequencyWithAggregatesFilter<$PrismaModel> | $Enums.RecurrenceFrequency
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumRecurrenceFrequencyFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumRecurrenceFrequencyFilter<$PrismaModel>
+}
+
+export type EnumAppointmentSeriesStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.AppointmentSeriesStatus | Prisma.EnumAppointmentSeriesStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.AppointmentSeriesStatus[] | Prisma.ListEnumAppointmentSeriesStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AppointmentSeriesStatus[] | Prisma.ListEnumAppointmentSeriesStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAppointmentSeriesStatusWithAggregatesFilter<$PrismaModel> | $Enums.AppointmentSeriesStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumAppointmentSeriesStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumAppointmentSeriesStatusFilter<$PrismaModel>
+}
+
+export type EnumWaitlistEntryStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.WaitlistEntryStatus | Prisma.EnumWaitlistEntryStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.WaitlistEntryStatus[] | Prisma.ListEnumWaitlistEntryStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.WaitlistEntryStatus[] | Prisma.ListEnumWaitlistEntryStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumWaitlistEntryStatusFilter<$PrismaModel> | $Enums.WaitlistEntryStatus
+}
+
+export type EnumWaitlistEntryStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.WaitlistEntryStatus | Prisma.EnumWaitlistEntryStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.WaitlistEntryStatus[] | Prisma.ListEnumWaitlistEntryStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.WaitlistEntryStatus[] | Prisma.ListEnumWaitlistEntryStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumWaitlistEntryStatusWithAggregatesFilter<$PrismaModel> | $Enums.WaitlistEntryStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumWaitlistEntryStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumWaitlistEntryStatusFilter<$PrismaModel>
+}
+
+export type EnumWaitlistOfferStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.WaitlistOfferStatus | Prisma.EnumWaitlistOfferStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.WaitlistOfferStatus[] | Prisma.ListEnumWaitlistOfferStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.WaitlistOfferStatus[] | Prisma.ListEnumWaitlistOfferStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumWaitlistOfferStatusFilter<$PrismaModel> | $Enums.WaitlistOfferStatus
+}
+
+export type EnumWaitlistOfferStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.WaitlistOfferStatus | Prisma.EnumWaitlistOfferStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.WaitlistOfferStatus[] | Prisma.ListEnumWaitlistOfferStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.WaitlistOfferStatus[] | Prisma.ListEnumWaitlistOfferStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumWaitlistOfferStatusWithAggregatesFilter<$PrismaModel> | $Enums.WaitlistOfferStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumWaitlistOfferStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumWaitlistOfferStatusFilter<$PrismaModel>
+}
+
 export type EnumAccessLevelFilter<$PrismaModel = never> = {
   equals?: $Enums.AccessLevel | Prisma.EnumAccessLevelFieldRefInput<$PrismaModel>
   in?: $Enums.AccessLevel[] | Prisma.ListEnumAccessLevelFieldRefInput<$PrismaModel>
@@ -755,6 +1061,13 @@ export type EnumGrowthStatusNullableFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumGrowthStatusNullableFilter<$PrismaModel> | $Enums.GrowthStatus | null
 }
 
+export type EnumMeasurementPlausibilityFilter<$PrismaModel = never> = {
+  equals?: $Enums.MeasurementPlausibility | Prisma.EnumMeasurementPlausibilityFieldRefInput<$PrismaModel>
+  in?: $Enums.MeasurementPlausibility[] | Prisma.ListEnumMeasurementPlausibilityFieldRefInput<$PrismaModel>
+  notIn?: $Enums.MeasurementPlausibility[] | Prisma.ListEnumMeasurementPlausibilityFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumMeasurementPlausibilityFilter<$PrismaModel> | $Enums.MeasurementPlausibility
+}
+
 export type EnumGrowthStatusNullableWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.GrowthStatus | Prisma.EnumGrowthStatusFieldRefInput<$PrismaModel> | null
   in?: $Enums.GrowthStatus[] | Prisma.ListEnumGrowthStatusFieldRefInput<$PrismaModel> | null
@@ -765,6 +1078,50 @@ export type EnumGrowthStatusNullableWithAggregatesFilter<$PrismaModel = never> =
   _max?: Prisma.NestedEnumGrowthStatusNullableFilter<$PrismaModel>
 }
 
+export type EnumMeasurementPlausibilityWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.MeasurementPlausibility | Prisma.EnumMeasurementPlausibilityFieldRefInput<$PrismaModel>
+  in?: $Enums.MeasurementPlausibility[] | Prisma.ListEnumMeasurementPlausibilityFieldRefInput<$PrismaModel>
+  notIn?: $Enums.MeasurementPlausibility[] | Prisma.ListEnumMeasurementPlausibilityFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumMeasurementPlausibilityWithAggregatesFilter<$PrismaModel> | $Enums.MeasurementPlausibility
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumMeasurementPlausibilityFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumMeasurementPlausibilityFilter<$PrismaModel>
+}
+
+export type EnumGrowthAlertTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.GrowthAlertType | Prisma.EnumGrowthAlertTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.GrowthAlertType[] | Prisma.ListEnumGrowthAlertTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.GrowthAlertType[] | Prisma.ListEnumGrowthAlertTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumGrowthAlertTypeFilter<$PrismaModel> | $Enums.GrowthAlertType
+}
+
+export type EnumGrowthAlertSeverityFilter<$PrismaModel = never> = {
+  equals?: $Enums.GrowthAlertSeverity | Prisma.EnumGrowthAlertSeverityFieldRefInput<$PrismaModel>
+  in?: $Enums.GrowthAlertSeverity[] | Prisma.ListEnumGrowthAlertSeverityFieldRefInput<$PrismaModel>
+  notIn?: $Enums.GrowthAlertSeverity[] | Prisma.ListEnumGrowthAlertSeverityFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumGrowthAlertSeverityFilter<$PrismaModel> | $Enums.GrowthAlertSeverity
+}
+
+export type EnumGrowthAlertTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.GrowthAlertType | Prisma.EnumGrowthAlertTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.GrowthAlertType[] | Prisma.ListEnumGrowthAlertTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.GrowthAlertType[] | Prisma.ListEnumGrowthAlertTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumGrowthAlertTypeWithAggregatesFilter<$PrismaModel> | $Enums.GrowthAlertType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumGrowthAlertTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumGrowthAlertTypeFilter<$PrismaModel>
+}
+
+export type EnumGrowthAlertSeverityWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.GrowthAlertSeverity | Prisma.EnumGrowthAlertSeverityFieldRefInput<$PrismaModel>
+  in?: $Enums.GrowthAlertSeverity[] | Prisma.ListEnumGrowthAlertSeverityFieldRefInput<$PrismaModel>
+  notIn?: $Enums.GrowthAlertSeverity[] | Prisma.ListEnumGrowthAlertSeverityFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumGrowthAlertSeverityWithAggregatesFilter<$PrismaModel> | $Enums.GrowthAlertSeverity
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumGrowthAlertSeverityFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumGrowthAlertSeverityFilter<$PrismaModel>
+}
+
 export type EnumImmunizationStatusNullableFilter<$PrismaModel = never> = {
   equals?: $Enums.ImmunizationStatus | Prisma.EnumImmunizationStatusFieldRefInput<$PrismaModel> | null
   in?: $Enums.ImmunizationStatus[] | Prisma.ListEnumImmunizationStatusFieldRefInput<$PrismaModel> | null
@@ -772,6 +1129,13 @@ export type EnumImmunizationStatusNullableFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumImmunizationStatusNullableFilter<$PrismaModel> | $Enums.ImmunizationStatus | null
 }
 
+export type EnumDoseValidityNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.DoseValidity | Prisma.EnumDoseValidityFieldRefInput<$PrismaModel> | null
+  in?: $Enums.DoseValidity[] | Prisma.ListEnumDoseValidityFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.DoseValidity[] | Prisma.ListEnumDoseValidityFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumDoseValidityNullableFilter<$PrismaModel> | $Enums.DoseValidity | null
+}
+
 export type EnumImmunizationStatusNullableWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.ImmunizationStatus | Prisma.EnumImmunizationStatusFieldRefInput<$PrismaModel> | null
   in?: $Enums.ImmunizationStatus[] | Prisma.ListEnumImmunizationStatusFieldRefInput<$PrismaModel> | null
@@ -782,6 +1146,16 @@ export type EnumImmunizationStatusNullableWithAggregatesFilter<$PrismaModel = ne
   _max?: Prisma.NestedEnumImmunizationStatusNullableFilter<$PrismaModel>
 }
 
+export type EnumDoseValidityNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.DoseValidity | Prisma.EnumDoseValidityFieldRefInput<$PrismaModel> | null
+  in?: $Enums.DoseValidity[] | Prisma.ListEnumDoseValidityFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.DoseValidity[] | Prisma.ListEnumDoseValidityFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumDoseValidityNullableWithAggregatesFilter<$PrismaModel> | $Enums.DoseValidity | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumDoseValidityNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumDoseValidityNullableFilter<$PrismaModel>
+}
+
 export type EnumLabStatusFilter<$PrismaModel = never> = {
   equals?: $Enums.LabStatus | Prisma.EnumLabStatusFieldRefInput<$PrismaModel>
   in?: $Enums.LabStatus[] | Prisma.ListEnumLabStatusFieldRefInput<$PrismaModel>
@@ -816,6 +1190,40 @@ export type EnumFeedingTypeWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedEnumFeedingTypeFilter<$PrismaModel>
 }
 
+export type EnumDevelopmentalDomainNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.DevelopmentalDomain | Prisma.EnumDevelopmentalDomainFieldRefInput<$PrismaModel> | null
+  in?: $Enums.DevelopmentalDomain[] | Prisma.ListEnumDevelopmentalDomainFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.DevelopmentalDomain[] | Prisma.ListEnumDevelopmentalDomainFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumDevelopmentalDomainNullableFilter<$PrismaModel> | $Enums.DevelopmentalDomain | null
+}
+
+export type EnumMilestoneStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.MilestoneStatus | Prisma.EnumMilestoneStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.MilestoneStatus[] | Prisma.ListEnumMilestoneStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.MilestoneStatus[] | Prisma.ListEnumMilestoneStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumMilestoneStatusFilter<$PrismaModel> | $Enums.MilestoneStatus
+}
+
+export type EnumDevelopmentalDomainNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.DevelopmentalDomain | Prisma.EnumDevelopmentalDomainFieldRefInput<$PrismaModel> | null
+  in?: $Enums.DevelopmentalDomain[] | Prisma.ListEnumDevelopmentalDomainFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.DevelopmentalDomain[] | Prisma.ListEnumDevelopmentalDomainFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumDevelopmentalDomainNullableWithAggregatesFilter<$PrismaModel> | $Enums.DevelopmentalDomain | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumDevelopmentalDomainNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumDevelopmentalDomainNullableFilter<$PrismaModel>
+}
+
+export type EnumMilestoneStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.MilestoneStatus | Prisma.EnumMilestoneStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.MilestoneStatus[] | Prisma.ListEnumMilestoneStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.MilestoneStatus[] | Prisma.ListEnumMilestoneStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumMilestoneStatusWithAggregatesFilter<$PrismaModel> | $Enums.MilestoneStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumMilestoneStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumMilestoneStatusFilter<$PrismaModel>
+}
+
 export type EnumDevelopmentStatusFilter<$PrismaModel = never> = {
   equals?: $Enums.DevelopmentStatus | Prisma.EnumDevelopmentStatusFieldRefInput<$PrismaModel>
   in?: $Enums.DevelopmentStatus[] | Prisma.ListEnumDevelopmentStatusFieldRefInput<$PrismaModel>
@@ -823,6 +1231,13 @@ export type EnumDevelopmentStatusFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumDevelopmentStatusFilter<$PrismaModel> | $Enums.DevelopmentStatus
 }
 
+export type EnumDevelopmentStatusNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.DevelopmentStatus | Prisma.EnumDevelopmentStatusFieldRefInput<$PrismaModel> | null
+  in?: $Enums.DevelopmentStatus[] | Prisma.ListEnumDevelopmentStatusFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.DevelopmentStatus[] | Prisma.ListEnumDevelopmentStatusFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumDevelopmentStatusNullableFilter<$PrismaModel> | $Enums.DevelopmentStatus | null
+}
+
 export type EnumDevelopmentStatusWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.DevelopmentStatus | Prisma.EnumDevelopmentStatusFieldRefInput<$PrismaModel>
   in?: $Enums.DevelopmentStatus[] | Prisma.ListEnumDevelopmentStatusFieldRefInput<$PrismaModel>
@@ -833,6 +1248,16 @@ export type EnumDevelopmentStatusWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedEnumDevelopmentStatusFilter<$PrismaModel>
 }
 
+export type EnumDevelopmentStatusNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.DevelopmentStatus | Prisma.EnumDevelopmentStatusFieldRefInput<$PrismaModel> | null
+  in?: $Enums.DevelopmentStatus[] | Prisma.ListEnumDevelopmentStatusFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.DevelopmentStatus[] | Prisma.ListEnumDevelopmentStatusFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumDevelopmentStatusNullableWithAggregatesFilter<$PrismaModel> | $Enums.DevelopmentStatus | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumDevelopmentStatusNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumDevelopmentStatusNullableFilter<$PrismaModel>
+}
+
 export type NestedStringFilter<$PrismaModel = never> = {
   equals?: string | Prisma.StringFieldRefInput<$PrismaModel>
   in?: string[] | Prisma.ListStringFieldRefInput<$PrismaModel>
@@ -1166,6 +1591,23 @@ export type NestedDecimalWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedDecimalFilter<$PrismaModel>
 }
 
+export type NestedEnumScheduleExceptionTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.ScheduleExceptionType | Prisma.EnumScheduleExceptionTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.ScheduleExceptionType[] | Prisma.ListEnumScheduleExceptionTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ScheduleExceptionType[] | Prisma.ListEnumScheduleExceptionTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumScheduleExceptionTypeFilter<$PrismaModel> | $Enums.ScheduleExceptionType
+}
+
+export type NestedEnumScheduleExceptionTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ScheduleExceptionType | Prisma.EnumScheduleExceptionTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.ScheduleExceptionType[] | Prisma.ListEnumScheduleExceptionTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ScheduleExceptionType[] | Prisma.ListEnumScheduleExceptionTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumScheduleExceptionTypeWithAggregatesFilter<$PrismaModel> | $Enums.ScheduleExceptionType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumScheduleExceptionTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumScheduleExceptionTypeFilter<$PrismaModel>
+}
+
 export type NestedEnumUserRoleFilter<$PrismaModel = never> = {
   equals?: $Enums.UserRole | Prisma.EnumUserRoleFieldRefInput<$PrismaModel>
   in?: $Enums.UserRole[] | Prisma.ListEnumUserRoleFieldRefInput<$PrismaModel>
@@ -1311,6 +1753,13 @@ export type NestedEnumServiceCategoryNullableWithAggregatesFilter<$PrismaModel =
   _max?: Prisma.NestedEnumServiceCategoryNullableFilter<$PrismaModel>
 }
 
+export type NestedEnumGrowthReferenceSourceFilter<$PrismaModel = never> = {
+  equals?: $Enums.GrowthReferenceSource | Prisma.EnumGrowthReferenceSourceFieldRefInput<$PrismaModel>
+  in?: $Enums.GrowthReferenceSource[] | Prisma.ListEnumGrowthReferenceSourceFieldRefInput<$PrismaModel>
+  notIn?: $Enums.GrowthReferenceSource[] | Prisma.ListEnumGrowthReferenceSourceFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumGrowthReferenceSourceFilter<$PrismaModel> | $Enums.GrowthReferenceSource
+}
+
 export type NestedEnumGenderFilter<$PrismaModel = never> = {
   equals?: $Enums.Gender | Prisma.EnumGenderFieldRefInput<$PrismaModel>
   in?: $Enums.Gender[] | Prisma.ListEnumGenderFieldRefInput<$PrismaModel>
@@ -1332,6 +1781,16 @@ export type NestedEnumMeasurementTypeNullableFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumMeasurementTypeNullableFilter<$PrismaModel> | $Enums.MeasurementType | null
 }
 
+export type NestedEnumGrowthReferenceSourceWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.GrowthReferenceSource | Prisma.EnumGrowthReferenceSourceFieldRefInput<$PrismaModel>
+  in?: $Enums.GrowthReferenceSource[] | Prisma.ListEnumGrowthReferenceSourceFieldRefInput<$PrismaModel>
+  notIn?: $Enums.GrowthReferenceSource[] | Prisma.ListEnumGrowthReferenceSourceFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumGrowthReferenceSourceWithAggregatesFilter<$PrismaModel> | $Enums.GrowthReferenceSource
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumGrowthReferenceSourceFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumGrowthReferenceSourceFilter<$PrismaModel>
+}
+
 export type NestedEnumGenderWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.Gender | Prisma.EnumGenderFieldRefInput<$PrismaModel>
   in?: $Enums.Gender[] | Prisma.ListEnumGenderFieldRefInput<$PrismaModel>
@@ -1362,18 +1821,21 @@ export type NestedEnumMeasurementTypeNullableWithAggregatesFilter<$PrismaModel =
   _max?: Prisma.NestedEnumMeasurementTypeNullableFilter<$PrismaModel>
 }
 
-export type NestedEnumDosageUnitFilter<$PrismaModel = never> = {
-  equals?: $Enums.DosageUnit | Prisma.EnumDosageUnitFieldRefInput<$PrismaModel>
-  in?: $Enums.DosageUnit[] | Prisma.ListEnumDosageUnitFieldRefInput<$PrismaModel>
-  notIn?: $Enums.DosageUnit[] | Prisma.ListEnumDosageUnitFieldRefInput<$PrismaModel>
-  not?: Prisma.NestedEnumDosageUnitFilter<$PrismaModel> | $Enums.DosageUnit
+export type NestedEnumMeasurementTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.MeasurementType | Prisma.EnumMeasurementTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.MeasurementType[] | Prisma.ListEnumMeasurementTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.MeasurementType[] | Prisma.ListEnumMeasurementTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumMeasurementTypeFilter<$PrismaModel> | $Enums.MeasurementType
 }
 
-export type NestedEnumDrugRouteNullableFilter<$PrismaModel = never> = {
-  equals?: $Enums.DrugRoute | Prisma.EnumDrugRouteFieldRefInput<$PrismaModel> | null
-  in?: $Enums.DrugRoute[] | Prisma.ListEnumDrugRouteFieldRefInput<$PrismaModel> | null
-  notIn?: $Enums.DrugRoute[] | Prisma.ListEnumDrugRouteFieldRefInput<$PrismaModel> | null
-  not?: Prisma.NestedEnumDrugRouteNullableFilter<$PrismaModel> | $Enums.DrugRoute | null
+export type NestedEnumMeasurementTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.MeasurementType | Prisma.EnumMeasurementTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.MeasurementType[] | Prisma.ListEnumMeasurementTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.MeasurementType[] | Prisma.ListEnumMeasurementTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumMeasurementTypeWithAggregatesFilter<$PrismaModel> | $Enums.MeasurementType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumMeasurementTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumMeasurementTypeFilter<$PrismaModel>
 }
 
 export type NestedFloatWithAggregatesFilter<$PrismaModel = never> = {
@@ -1392,6 +1854,122 @@ export type NestedFloatWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedFloatFilter<$PrismaModel>
 }
 
+export type NestedEnumPrescriptionStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.PrescriptionStatus | Prisma.EnumPrescriptionStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.PrescriptionStatus[] | Prisma.ListEnumPrescriptionStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PrescriptionStatus[] | Prisma.ListEnumPrescriptionStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPrescriptionStatusFilter<$PrismaModel> | $Enums.PrescriptionStatus
+}
+
+export type NestedEnumPrescriptionStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PrescriptionStatus | Prisma.EnumPrescriptionStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.PrescriptionStatus[] | Prisma.ListEnumPrescriptionStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.PrescriptionStatus[] | Prisma.ListEnumPrescriptionStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumPrescriptionStatusWithAggregatesFilter<$PrismaModel> | $Enums.PrescriptionStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPrescriptionStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPrescriptionStatusFilter<$PrismaModel>
+}
+
+export type NestedEnumPregnancyCategoryNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.PregnancyCategory | Prisma.EnumPregnancyCategoryFieldRefInput<$PrismaModel> | null
+  in?: $Enums.PregnancyCategory[] | Prisma.ListEnumPregnancyCategoryFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.PregnancyCategory[] | Prisma.ListEnumPregnancyCategoryFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumPregnancyCategoryNullableFilter<$PrismaModel> | $Enums.PregnancyCategory | null
+}
+
+export type NestedEnumControlledScheduleNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.ControlledSchedule | Prisma.EnumControlledScheduleFieldRefInput<$PrismaModel> | null
+  in?: $Enums.ControlledSchedule[] | Prisma.ListEnumControlledScheduleFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.ControlledSchedule[] | Prisma.ListEnumControlledScheduleFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumControlledScheduleNullableFilter<$PrismaModel> | $Enums.ControlledSchedule | null
+}
+
+export type NestedEnumPregnancyCategoryNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.PregnancyCategory | Prisma.EnumPregnancyCategoryFieldRefInput<$PrismaModel> | null
+  in?: $Enums.PregnancyCategory[] | Prisma.ListEnumPregnancyCategoryFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.PregnancyCategory[] | Prisma.ListEnumPregnancyCategoryFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumPregnancyCategoryNullableWithAggregatesFilter<$PrismaModel> | $Enums.PregnancyCategory | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumPregnancyCategoryNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumPregnancyCategoryNullableFilter<$PrismaModel>
+}
+
+export type NestedEnumControlledScheduleNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ControlledSchedule | Prisma.EnumControlledScheduleFieldRefInput<$PrismaModel> | null
+  in?: $Enums.ControlledSchedule[] | Prisma.ListEnumControlledScheduleFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.ControlledSchedule[] | Prisma.ListEnumControlledScheduleFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumControlledScheduleNullableWithAggregatesFilter<$PrismaModel> | $Enums.ControlledSchedule | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumControlledScheduleNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumControlledScheduleNullableFilter<$PrismaModel>
+}
+
+export type NestedEnumDrugFormFilter<$PrismaModel = never> = {
+  equals?: $Enums.DrugForm | Prisma.EnumDrugFormFieldRefInput<$PrismaModel>
+  in?: $Enums.DrugForm[] | Prisma.ListEnumDrugFormFieldRefInput<$PrismaModel>
+  notIn?: $Enums.DrugForm[] | Prisma.ListEnumDrugFormFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumDrugFormFilter<$PrismaModel> | $Enums.DrugForm
+}
+
+export type NestedEnumDrugRouteFilter<$PrismaModel = never> = {
+  equals?: $Enums.DrugRoute | Prisma.EnumDrugRouteFieldRefInput<$PrismaModel>
+  in?: $Enums.DrugRoute[] | Prisma.ListEnumDrugRouteFieldRefInput<$PrismaModel>
+  notIn?: $Enums.DrugRoute[] | Prisma.ListEnumDrugRouteFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumDrugRouteFilter<$PrismaModel> | $Enums.DrugRoute
+}
+
+export type NestedEnumDrugFormWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.DrugForm | Prisma.EnumDrugFormFieldRefInput<$PrismaModel>
+  in?: $Enums.DrugForm[] | Prisma.ListEnumDrugFormFieldRefInput<$PrismaModel>
+  notIn?: $Enums.DrugForm[] | Prisma.ListEnumDrugFormFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumDrugFormWithAggregatesFilter<$PrismaModel> | $Enums.DrugForm
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumDrugFormFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumDrugFormFilter<$PrismaModel>
+}
+
+export type NestedEnumDrugRouteWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.DrugRoute | Prisma.EnumDrugRouteFieldRefInput<$PrismaModel>
+  in?: $Enums.DrugRoute[] | Prisma.ListEnumDrugRouteFieldRefInput<$PrismaModel>
+  notIn?: $Enums.DrugRoute[] | Prisma.ListEnumDrugRouteFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumDrugRouteWithAggregatesFilter<$PrismaModel> | $Enums.DrugRoute
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumDrugRouteFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumDrugRouteFilter<$PrismaModel>
+}
+
+export type NestedEnumInteractionSeverityFilter<$PrismaModel = never> = {
+  equals?: $Enums.InteractionSeverity | Prisma.EnumInteractionSeverityFieldRefInput<$PrismaModel>
+  in?: $Enums.InteractionSeverity[] | Prisma.ListEnumInteractionSeverityFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InteractionSeverity[] | Prisma.ListEnumInteractionSeverityFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInteractionSeverityFilter<$PrismaModel> | $Enums.InteractionSeverity
+}
+
+export type NestedEnumInteractionSeverityWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.InteractionSeverity | Prisma.EnumInteractionSeverityFieldRefInput<$PrismaModel>
+  in?: $Enums.InteractionSeverity[] | Prisma.ListEnumInteractionSeverityFieldRefInput<$PrismaModel>
+  notIn?: $Enums.InteractionSeverity[] | Prisma.ListEnumInteractionSeverityFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumInteractionSeverityWithAggregatesFilter<$PrismaModel> | $Enums.InteractionSeverity
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumInteractionSeverityFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumInteractionSeverityFilter<$PrismaModel>
+}
+
+export type NestedEnumDosageUnitFilter<$PrismaModel = never> = {
+  equals?: $Enums.DosageUnit | Prisma.EnumDosageUnitFieldRefInput<$PrismaModel>
+  in?: $Enums.DosageUnit[] | Prisma.ListEnumDosageUnitFieldRefInput<$PrismaModel>
+  notIn?: $Enums.DosageUnit[] | Prisma.ListEnumDosageUnitFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumDosageUnitFilter<$PrismaModel> | $Enums.DosageUnit
+}
+
+export type NestedEnumDrugRouteNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.DrugRoute | Prisma.EnumDrugRouteFieldRefInput<$PrismaModel> | null
+  in?: $Enums.DrugRoute[] | Prisma.ListEnumDrugRouteFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.DrugRoute[] | Prisma.ListEnumDrugRouteFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumDrugRouteNullableFilter<$PrismaModel> | $Enums.DrugRoute | null
+}
+
 export type NestedEnumDosageUnitWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.DosageUnit | Prisma.EnumDosageUnitFieldRefInput<$PrismaModel>
   in?: $Enums.DosageUnit[] | Prisma.ListEnumDosageUnitFieldRefInput<$PrismaModel>
@@ -1412,6 +1990,91 @@ export type NestedEnumDrugRouteNullableWithAggregatesFilter<$PrismaModel = never
   _max?: Prisma.NestedEnumDrugRouteNullableFilter<$PrismaModel>
 }
 
+export type NestedEnumAllergenTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.AllergenType | Prisma.EnumAllergenTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.AllergenType[] | Prisma.ListEnumAllergenTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AllergenType[] | Prisma.ListEnumAllergenTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAllergenTypeFilter<$PrismaModel> | $Enums.AllergenType
+}
+
+export type NestedEnumAllergySeverityNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.AllergySeverity | Prisma.EnumAllergySeverityFieldRefInput<$PrismaModel> | null
+  in?: $Enums.AllergySeverity[] | Prisma.ListEnumAllergySeverityFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.AllergySeverity[] | Prisma.ListEnumAllergySeverityFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumAllergySeverityNullableFilter<$PrismaModel> | $Enums.AllergySeverity | null
+}
+
+export type NestedEnumAllergyVerificationStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.AllergyVerificationStatus | Prisma.EnumAllergyVerificationStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.AllergyVerificationStatus[] | Prisma.ListEnumAllergyVerificationStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AllergyVerificationStatus[] | Prisma.ListEnumAllergyVerificationStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAllergyVerificationStatusFilter<$PrismaModel> | $Enums.AllergyVerificationStatus
+}
+
+export type NestedEnumAllergenTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.AllergenType | Prisma.EnumAllergenTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.AllergenType[] | Prisma.ListEnumAllergenTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AllergenType[] | Prisma.ListEnumAllergenTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAllergenTypeWithAggregatesFilter<$PrismaModel> | $Enums.AllergenType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumAllergenTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumAllergenTypeFilter<$PrismaModel>
+}
+
+export type NestedEnumAllergySeverityNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.AllergySeverity | Prisma.EnumAllergySeverityFieldRefInput<$PrismaModel> | null
+  in?: $Enums.AllergySeverity[] | Prisma.ListEnumAllergySeverityFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.AllergySeverity[] | Prisma.ListEnumAllergySeverityFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumAllergySeverityNullableWithAggregatesFilter<$PrismaModel> | $Enums.AllergySeverity | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumAllergySeverityNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumAllergySeverityNullableFilter<$PrismaModel>
+}
+
+export type NestedEnumAllergyVerificationStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.AllergyVerificationStatus | Prisma.EnumAllergyVerificationStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.AllergyVerificationStatus[] | Prisma.ListEnumAllergyVerificationStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AllergyVerificationStatus[] | Prisma.ListEnumAllergyVerificationStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAllergyVerificationStatusWithAggregatesFilter<$PrismaModel> | $Enums.AllergyVerificationStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumAllergyVerificationStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumAllergyVerificationStatusFilter<$PrismaModel>
+}
+
+export type NestedEnumConditionCodeSystemNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.ConditionCodeSystem | Prisma.EnumConditionCodeSystemFieldRefInput<$PrismaModel> | null
+  in?: $Enums.ConditionCodeSystem[] | Prisma.ListEnumConditionCodeSystemFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.ConditionCodeSystem[] | Prisma.ListEnumConditionCodeSystemFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumConditionCodeSystemNullableFilter<$PrismaModel> | $Enums.ConditionCodeSystem | null
+}
+
+export type NestedEnumConditionStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.ConditionStatus | Prisma.EnumConditionStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.ConditionStatus[] | Prisma.ListEnumConditionStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ConditionStatus[] | Prisma.ListEnumConditionStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumConditionStatusFilter<$PrismaModel> | $Enums.ConditionStatus
+}
+
+export type NestedEnumConditionCodeSystemNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ConditionCodeSystem | Prisma.EnumConditionCodeSystemFieldRefInput<$PrismaModel> | null
+  in?: $Enums.ConditionCodeSystem[] | Prisma.ListEnumConditionCodeSystemFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.ConditionCodeSystem[] | Prisma.ListEnumConditionCodeSystemFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumConditionCodeSystemNullableWithAggregatesFilter<$PrismaModel> | $Enums.ConditionCodeSystem | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumConditionCodeSystemNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumConditionCodeSystemNullableFilter<$PrismaModel>
+}
+
+export type NestedEnumConditionStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.ConditionStatus | Prisma.EnumConditionStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.ConditionStatus[] | Prisma.ListEnumConditionStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.ConditionStatus[] | Prisma.ListEnumConditionStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumConditionStatusWithAggregatesFilter<$PrismaModel> | $Enums.ConditionStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumConditionStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumConditionStatusFilter<$PrismaModel>
+}
+
 export type NestedEnumAppointmentStatusNullableFilter<$PrismaModel = never> = {
   equals?: $Enums.AppointmentStatus | Prisma.EnumAppointmentStatusFieldRefInput<$PrismaModel> | null
   in?: $Enums.AppointmentStatus[] | Prisma.ListEnumAppointmentStatusFieldRefInput<$PrismaModel> | null
@@ -1446,6 +2109,74 @@ export type NestedEnumAppointmentTypeWithAggregatesFilter<$PrismaModel = never>
   _max?: Prisma.NestedEnumAppointmentTypeFilter<$PrismaModel>
 }
 
+export type NestedEnumRecurrenceFrequencyFilter<$PrismaModel = never> = {
+  equals?: $Enums.RecurrenceFrequency | Prisma.EnumRecurrenceFrequencyFieldRefInput<$PrismaModel>
+  in?: $Enums.RecurrenceFrequency[] | Prisma.ListEnumRecurrenceFrequencyFieldRefInput<$PrismaModel>
+  notIn?: $Enums.RecurrenceFrequency[] | Prisma.ListEnumRecurrenceFrequencyFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumRecurrenceFrequencyFilter<$PrismaModel> | $Enums.RecurrenceFrequency
+}
+
+export type NestedEnumAppointmentSeriesStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.AppointmentSeriesStatus | Prisma.EnumAppointmentSeriesStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.AppointmentSeriesStatus[] | Prisma.ListEnumAppointmentSeriesStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AppointmentSeriesStatus[] | Prisma.ListEnumAppointmentSeriesStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAppointmentSeriesStatusFilter<$PrismaModel> | $Enums.AppointmentSeriesStatus
+}
+
+export type NestedEnumRecurrenceFrequencyWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.RecurrenceFrequency | Prisma.EnumRecurrenceFrequencyFieldRefInput<$PrismaModel>
+  in?: $Enums.RecurrenceFrequency[] | Prisma.ListEnumRecurrenceFrequencyFieldRefInput<$PrismaModel>
+  notIn?: $Enums.RecurrenceFrequency[] | Prisma.ListEnumRecurrenceFrequencyFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumRecurrenceFrequencyWithAggregatesFilter<$PrismaModel> | $Enums.RecurrenceFrequency
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumRecurrenceFrequencyFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumRecurrenceFrequencyFilter<$PrismaModel>
+}
+
+export type NestedEnumAppointmentSeriesStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.AppointmentSeriesStatus | Prisma.EnumAppointmentSeriesStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.AppointmentSeriesStatus[] | Prisma.ListEnumAppointmentSeriesStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.AppointmentSeriesStatus[] | Prisma.ListEnumAppointmentSeriesStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumAppointmentSeriesStatusWithAggregatesFilter<$PrismaModel> | $Enums.AppointmentSeriesStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumAppointmentSeriesStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumAppointmentSeriesStatusFilter<$PrismaModel>
+}
+
+export type NestedEnumWaitlistEntryStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.WaitlistEntryStatus | Prisma.EnumWaitlistEntryStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.WaitlistEntryStatus[] | Prisma.ListEnumWaitlistEntryStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.WaitlistEntryStatus[] | Prisma.ListEnumWaitlistEntryStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumWaitlistEntryStatusFilter<$PrismaModel> | $Enums.WaitlistEntryStatus
+}
+
+export type NestedEnumWaitlistEntryStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.WaitlistEntryStatus | Prisma.EnumWaitlistEntryStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.WaitlistEntryStatus[] | Prisma.ListEnumWaitlistEntryStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.WaitlistEntryStatus[] | Prisma.ListEnumWaitlistEntryStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumWaitlistEntryStatusWithAggregatesFilter<$PrismaModel> | $Enums.WaitlistEntryStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumWaitlistEntryStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumWaitlistEntryStatusFilter<$PrismaModel>
+}
+
+export type NestedEnumWaitlistOfferStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.WaitlistOfferStatus | Prisma.EnumWaitlistOfferStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.WaitlistOfferStatus[] | Prisma.ListEnumWaitlistOfferStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.WaitlistOfferStatus[] | Prisma.ListEnumWaitlistOfferStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumWaitlistOfferStatusFilter<$PrismaModel> | $Enums.WaitlistOfferStatus
+}
+
+export type NestedEnumWaitlistOfferStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.WaitlistOfferStatus | Prisma.EnumWaitlistOfferStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.WaitlistOfferStatus[] | Prisma.ListEnumWaitlistOfferStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.WaitlistOfferStatus[] | Prisma.ListEnumWaitlistOfferStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumWaitlistOfferStatusWithAggregatesFilter<$PrismaModel> | $Enums.WaitlistOfferStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumWaitlistOfferStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumWaitlistOfferStatusFilter<$PrismaModel>
+}
+
 export type NestedEnumAccessLevelFilter<$PrismaModel = never> = {
   equals?: $Enums.AccessLevel | Prisma.EnumAccessLevelFieldRefInput<$PrismaModel>
   in?: $Enums.AccessLevel[] | Prisma.ListEnumAccessLevelFieldRefInput<$PrismaModel>
@@ -1538,6 +2269,13 @@ export type NestedEnumGrowthStatusNullableFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumGrowthStatusNullableFilter<$PrismaModel> | $Enums.GrowthStatus | null
 }
 
+export type NestedEnumMeasurementPlausibilityFilter<$PrismaModel = never> = {
+  equals?: $Enums.MeasurementPlausibility | Prisma.EnumMeasurementPlausibilityFieldRefInput<$PrismaModel>
+  in?: $Enums.MeasurementPlausibility[] | Prisma.ListEnumMeasurementPlausibilityFieldRefInput<$PrismaModel>
+  notIn?: $Enums.MeasurementPlausibility[] | Prisma.ListEnumMeasurementPlausibilityFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumMeasurementPlausibilityFilter<$PrismaModel> | $Enums.MeasurementPlausibility
+}
+
 export type NestedEnumGrowthStatusNullableWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.GrowthStatus | Prisma.EnumGrowthStatusFieldRefInput<$PrismaModel> | null
   in?: $Enums.GrowthStatus[] | Prisma.ListEnumGrowthStatusFieldRefInput<$PrismaModel> | null
@@ -1548,6 +2286,50 @@ export type NestedEnumGrowthStatusNullableWithAggregatesFilter<$PrismaModel = ne
   _max?: Prisma.NestedEnumGrowthStatusNullableFilter<$PrismaModel>
 }
 
+export type NestedEnumMeasurementPlausibilityWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.MeasurementPlausibility | Prisma.EnumMeasurementPlausibilityFieldRefInput<$PrismaModel>
+  in?: $Enums.MeasurementPlausibility[] | Prisma.ListEnumMeasurementPlausibilityFieldRefInput<$PrismaModel>
+  notIn?: $Enums.MeasurementPlausibility[] | Prisma.ListEnumMeasurementPlausibilityFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumMeasurementPlausibilityWithAggregatesFilter<$PrismaModel> | $Enums.MeasurementPlausibility
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumMeasurementPlausibilityFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumMeasurementPlausibilityFilter<$PrismaModel>
+}
+
+export type NestedEnumGrowthAlertTypeFilter<$PrismaModel = never> = {
+  equals?: $Enums.GrowthAlertType | Prisma.EnumGrowthAlertTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.GrowthAlertType[] | Prisma.ListEnumGrowthAlertTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.GrowthAlertType[] | Prisma.ListEnumGrowthAlertTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumGrowthAlertTypeFilter<$PrismaModel> | $Enums.GrowthAlertType
+}
+
+export type NestedEnumGrowthAlertSeverityFilter<$PrismaModel = never> = {
+  equals?: $Enums.GrowthAlertSeverity | Prisma.EnumGrowthAlertSeverityFieldRefInput<$PrismaModel>
+  in?: $Enums.GrowthAlertSeverity[] | Prisma.ListEnumGrowthAlertSeverityFieldRefInput<$PrismaModel>
+  notIn?: $Enums.GrowthAlertSeverity[] | Prisma.ListEnumGrowthAlertSeverityFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumGrowthAlertSeverityFilter<$PrismaModel> | $Enums.GrowthAlertSeverity
+}
+
+export type NestedEnumGrowthAlertTypeWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.GrowthAlertType | Prisma.EnumGrowthAlertTypeFieldRefInput<$PrismaModel>
+  in?: $Enums.GrowthAlertType[] | Prisma.ListEnumGrowthAlertTypeFieldRefInput<$PrismaModel>
+  notIn?: $Enums.GrowthAlertType[] | Prisma.ListEnumGrowthAlertTypeFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumGrowthAlertTypeWithAggregatesFilter<$PrismaModel> | $Enums.GrowthAlertType
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumGrowthAlertTypeFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumGrowthAlertTypeFilter<$PrismaModel>
+}
+
+export type NestedEnumGrowthAlertSeverityWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.GrowthAlertSeverity | Prisma.EnumGrowthAlertSeverityFieldRefInput<$PrismaModel>
+  in?: $Enums.GrowthAlertSeverity[] | Prisma.ListEnumGrowthAlertSeverityFieldRefInput<$PrismaModel>
+  notIn?: $Enums.GrowthAlertSeverity[] | Prisma.ListEnumGrowthAlertSeverityFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumGrowthAlertSeverityWithAggregatesFilter<$PrismaModel> | $Enums.GrowthAlertSeverity
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumGrowthAlertSeverityFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumGrowthAlertSeverityFilter<$PrismaModel>
+}
+
 export type NestedEnumImmunizationStatusNullableFilter<$PrismaModel = never> = {
   equals?: $Enums.ImmunizationStatus | Prisma.EnumImmunizationStatusFieldRefInput<$PrismaModel> | null
   in?: $Enums.ImmunizationStatus[] | Prisma.ListEnumImmunizationStatusFieldRefInput<$PrismaModel> | null
@@ -1555,6 +2337,13 @@ export type NestedEnumImmunizationStatusNullableFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumImmunizationStatusNullableFilter<$PrismaModel> | $Enums.ImmunizationStatus | null
 }
 
+export type NestedEnumDoseValidityNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.DoseValidity | Prisma.EnumDoseValidityFieldRefInput<$PrismaModel> | null
+  in?: $Enums.DoseValidity[] | Prisma.ListEnumDoseValidityFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.DoseValidity[] | Prisma.ListEnumDoseValidityFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumDoseValidityNullableFilter<$PrismaModel> | $Enums.DoseValidity | null
+}
+
 export type NestedEnumImmunizationStatusNullableWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.ImmunizationStatus | Prisma.EnumImmunizationStatusFieldRefInput<$PrismaModel> | null
   in?: $Enums.ImmunizationStatus[] | Prisma.ListEnumImmunizationStatusFieldRefInput<$PrismaModel> | null
@@ -1565,6 +2354,16 @@ export type NestedEnumImmunizationStatusNullableWithAggregatesFilter<$PrismaMode
   _max?: Prisma.NestedEnumImmunizationStatusNullableFilter<$PrismaModel>
 }
 
+export type NestedEnumDoseValidityNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.DoseValidity | Prisma.EnumDoseValidityFieldRefInput<$PrismaModel> | null
+  in?: $Enums.DoseValidity[] | Prisma.ListEnumDoseValidityFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.DoseValidity[] | Prisma.ListEnumDoseValidityFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumDoseValidityNullableWithAggregatesFilter<$PrismaModel> | $Enums.DoseValidity | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumDoseValidityNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumDoseValidityNullableFilter<$PrismaModel>
+}
+
 export type NestedEnumLabStatusFilter<$PrismaModel = never> = {
   equals?: $Enums.LabStatus | Prisma.EnumLabStatusFieldRefInput<$PrismaModel>
   in?: $Enums.LabStatus[] | Prisma.ListEnumLabStatusFieldRefInput<$PrismaModel>
@@ -1599,6 +2398,40 @@ export type NestedEnumFeedingTypeWithAggregatesFilter<$PrismaModel = never> = {
   _max?: Prisma.NestedEnumFeedingTypeFilter<$PrismaModel>
 }
 
+export type NestedEnumDevelopmentalDomainNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.DevelopmentalDomain | Prisma.EnumDevelopmentalDomainFieldRefInput<$PrismaModel> | null
+  in?: $Enums.DevelopmentalDomain[] | Prisma.ListEnumDevelopmentalDomainFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.DevelopmentalDomain[] | Prisma.ListEnumDevelopmentalDomainFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumDevelopmentalDomainNullableFilter<$PrismaModel> | $Enums.DevelopmentalDomain | null
+}
+
+export type NestedEnumMilestoneStatusFilter<$PrismaModel = never> = {
+  equals?: $Enums.MilestoneStatus | Prisma.EnumMilestoneStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.MilestoneStatus[] | Prisma.ListEnumMilestoneStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.MilestoneStatus[] | Prisma.ListEnumMilestoneStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumMilestoneStatusFilter<$PrismaModel> | $Enums.MilestoneStatus
+}
+
+export type NestedEnumDevelopmentalDomainNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.DevelopmentalDomain | Prisma.EnumDevelopmentalDomainFieldRefInput<$PrismaModel> | null
+  in?: $Enums.DevelopmentalDomain[] | Prisma.ListEnumDevelopmentalDomainFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.DevelopmentalDomain[] | Prisma.ListEnumDevelopmentalDomainFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumDevelopmentalDomainNullableWithAggregatesFilter<$PrismaModel> | $Enums.DevelopmentalDomain | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumDevelopmentalDomainNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumDevelopmentalDomainNullableFilter<$PrismaModel>
+}
+
+export type NestedEnumMilestoneStatusWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.MilestoneStatus | Prisma.EnumMilestoneStatusFieldRefInput<$PrismaModel>
+  in?: $Enums.MilestoneStatus[] | Prisma.ListEnumMilestoneStatusFieldRefInput<$PrismaModel>
+  notIn?: $Enums.MilestoneStatus[] | Prisma.ListEnumMilestoneStatusFieldRefInput<$PrismaModel>
+  not?: Prisma.NestedEnumMilestoneStatusWithAggregatesFilter<$PrismaModel> | $Enums.MilestoneStatus
+  _count?: Prisma.NestedIntFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumMilestoneStatusFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumMilestoneStatusFilter<$PrismaModel>
+}
+
 export type NestedEnumDevelopmentStatusFilter<$PrismaModel = never> = {
   equals?: $Enums.DevelopmentStatus | Prisma.EnumDevelopmentStatusFieldRefInput<$PrismaModel>
   in?: $Enums.DevelopmentStatus[] | Prisma.ListEnumDevelopmentStatusFieldRefInput<$PrismaModel>
@@ -1606,6 +2439,13 @@ export type NestedEnumDevelopmentStatusFilter<$PrismaModel = never> = {
   not?: Prisma.NestedEnumDevelopmentStatusFilter<$PrismaModel> | $Enums.DevelopmentStatus
 }
 
+export type NestedEnumDevelopmentStatusNullableFilter<$PrismaModel = never> = {
+  equals?: $Enums.DevelopmentStatus | Prisma.EnumDevelopmentStatusFieldRefInput<$PrismaModel> | null
+  in?: $Enums.DevelopmentStatus[] | Prisma.ListEnumDevelopmentStatusFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.DevelopmentStatus[] | Prisma.ListEnumDevelopmentStatusFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumDevelopmentStatusNullableFilter<$PrismaModel> | $Enums.DevelopmentStatus | null
+}
+
 export type NestedEnumDevelopmentStatusWithAggregatesFilter<$PrismaModel = never> = {
   equals?: $Enums.DevelopmentStatus | Prisma.EnumDevelopmentStatusFieldRefInput<$PrismaModel>
   in?: $Enums.DevelopmentStatus[] | Prisma.ListEnumDevelopmentStatusFieldRefInput<$PrismaModel>
@@ -1616,4 +2456,14 @@ export type NestedEnumDevelopmentStatusWithAggregatesFilter<$PrismaModel = never
   _max?: Prisma.NestedEnumDevelopmentStatusFilter<$PrismaModel>
 }
 
+export type NestedEnumDevelopmentStatusNullableWithAggregatesFilter<$PrismaModel = never> = {
+  equals?: $Enums.DevelopmentStatus | Prisma.EnumDevelopmentStatusFieldRefInput<$PrismaModel> | null
+  in?: $Enums.DevelopmentStatus[] | Prisma.ListEnumDevelopmentStatusFieldRefInput<$PrismaModel> | null
+  notIn?: $Enums.DevelopmentStatus[] | Prisma.ListEnumDevelopmentStatusFieldRefInput<$PrismaModel> | null
+  not?: Prisma.NestedEnumDevelopmentStatusNullableWithAggregatesFilter<$PrismaModel> | $Enums.DevelopmentStatus | null
+  _count?: Prisma.NestedIntNullableFilter<$PrismaModel>
+  _min?: Prisma.NestedEnumDevelopmentStatusNullableFilter<$PrismaModel>
+  _max?: Prisma.NestedEnumDevelopmentStatusNullableFilter<$PrismaModel>
+}
+
 
@@ -9,6 +9,63 @@
 * 🟢 You can import this file directly.
 */
 
+export const PrescriptionStatus = {
+  ACTIVE: 'ACTIVE',
+  COMPLETED: 'COMPLETED',
+  CANCELLED: 'CANCELLED'
+} as const
+
+export type PrescriptionStatus = (typeof PrescriptionStatus)[keyof typeof PrescriptionStatus]
+
+
+export const DrugForm = {
+  TABLET: 'TABLET',
+  DISPERSIBLE_TABLET: 'DISPERSIBLE_TABLET',
+  CAPSULE: 'CAPSULE',
+  SYRUP: 'SYRUP',
+  SUSPENSION: 'SUSPENSION',
+  SOLUTION: 'SOLUTION',
+  DROPS: 'DROPS',
+  INJECTION: 'INJECTION',
+  SUPPOSITORY: 'SUPPOSITORY'
+} as const
+
+export type DrugForm = (typeof DrugForm)[keyof typeof DrugForm]
+
+
+export const PregnancyCategory = {
+  A: 'A',
+  B: 'B',
+  C: 'C',
+  D: 'D',
+  X: 'X',
+  N: 'N'
+} as const
+
+export type PregnancyCategory = (typeof PregnancyCategory)[keyof typeof PregnancyCategory]
+
+
+export const ControlledSchedule = {
+  I: 'I',
+  II: 'II',
+  III: 'III',
+  IV: 'IV',
+  V: 'V'
+} as const
+
+export type ControlledSchedule = (typeof ControlledSchedule)[keyof typeof ControlledSchedule]
+
+
+export const InteractionSeverity = {
+  MILD: 'MILD',
+  MODERATE: 'MODERATE',
+  SEVERE: 'SEVERE',
+  CONTRAINDICATED: 'CONTRAINDICATED'
+} as const
+
+export type InteractionSeverity = (typeof InteractionSeverity)[keyof typeof InteractionSeverity]
+
+
 export const UserRole = {
   ADMIN: 'ADMIN',
   STAFF: 'STAFF',
@@ -147,7 +204,8 @@ export type ServiceCategory = (typeof ServiceCategory)[keyof typeof ServiceCateg
 export const MeasurementType = {
   Weight: 'Weight',
   Height: 'Height',
-  HeadCircumference: 'HeadCircumference'
+  HeadCircumference: 'HeadCircumference',
+  BMI: 'BMI'
 } as const
 
 export type MeasurementType = (typeof MeasurementType)[keyof typeof MeasurementType]
@@ -156,12 +214,43 @@ export type MeasurementType = (typeof MeasurementType)[keyof typeof MeasurementT
 export const ChartType = {
   WFA: 'WFA',
   HFA: 'HFA',
-  HcFA: 'HcFA'
+  HcFA: 'HcFA',
+  BFA: 'BFA',
+  WFL: 'WFL',
+  WFH: 'WFH'
 } as const
 
 export type ChartType = (typeof ChartType)[keyof typeof ChartType]
 
 
+export const GrowthReferenceSource = {
+  WHO: 'WHO',
+  FENTON_2013: 'FENTON_2013',
+  INTERGROWTH_21ST: 'INTERGROWTH_21ST'
+} as const
+
+export type GrowthReferenceSource = (typeof GrowthReferenceSource)[keyof typeof GrowthReferenceSource]
+
+
+export const GrowthAlertType = {
+  PERCENTILE_CROSSING_DOWN: 'PERCENTILE_CROSSING_DOWN',
+  WEIGHT_FOR_LENGTH_DECLINE: 'WEIGHT_FOR_LENGTH_DECLINE',
+  HEAD_CIRCUMFERENCE_CROSSING_UP: 'HEAD_CIRCUMFERENCE_CROSSING_UP',
+  LOW_HEIGHT_VELOCITY: 'LOW_HEIGHT_VELOCITY',
+  RAPID_WEIGHT_GAIN: 'RAPID_WEIGHT_GAIN'
+} as const
+
+export type GrowthAlertType = (typeof GrowthAlertType)[keyof typeof GrowthAlertType]
+
+
+export const GrowthAlertSeverity = {
+  WARNING: 'WARNING',
+  CRITICAL: 'CRITICAL'
+} as const
+
+export type GrowthAlertSeverity = (typeof GrowthAlertSeverity)[keyof typeof GrowthAlertSeverity]
+
+
 export const ReminderMethod = {
   EMAIL: 'EMAIL',
   SMS: 'SMS'
@@ -173,7 +262,9 @@ export type ReminderMethod = (typeof ReminderMethod)[keyof typeof ReminderMethod
 export const ReminderStatus = {
   SENT: 'SENT',
   FAILED: 'FAILED',
-  PENDING: 'PENDING'
+  PENDING: 'PENDING',
+  RETRYING: 'RETRYING',
+  CANCELLED: 'CANCELLED'
 } as const
 
 export type ReminderStatus = (typeof ReminderStatus)[keyof typeof ReminderStatus]
@@ -208,6 +299,25 @@ export const DevelopmentStatus = {
 export type DevelopmentStatus = (typeof DevelopmentStatus)[keyof typeof DevelopmentStatus]
 
 
+export const DevelopmentalDomain = {
+  GROSS_MOTOR: 'GROSS_MOTOR',
+  FINE_MOTOR: 'FINE_MOTOR',
+  LANGUAGE: 'LANGUAGE',
+  SOCIAL: 'SOCIAL',
+  COGNITIVE: 'COGNITIVE'
+} as const
+
+export type DevelopmentalDomain = (typeof DevelopmentalDomain)[keyof typeof DevelopmentalDomain]
+
+
+export const MilestoneStatus = {
+  ACHIEVED: 'ACHIEVED',
+  NOT_YET: 'NOT_YET'
+} as const
+
+export type MilestoneStatus = (typeof MilestoneStatus)[keyof typeof MilestoneStatus]
+
+
 export const ImmunizationStatus = {
   COMPLETED: 'COMPLETED',
   PENDING: 'PENDING',
@@ -219,6 +329,63 @@ export const ImmunizationStatus = {
 export type ImmunizationStatus = (typeof ImmunizationStatus)[keyof typeof ImmunizationStatus]
 
 
+export const RecurrenceFrequency = {
+  DAILY: 'DAILY',
+  WEEKLY: 'WEEKLY',
+  MONTHLY: 'MONTHLY'
+} as const
+
+export type RecurrenceFrequency = (typeof RecurrenceFrequency)[keyof typeof RecurrenceFrequency]
+
+
+export const AppointmentSeriesStatus = {
+  ACTIVE: 'ACTIVE',
+  CANCELLED: 'CANCELLED'
+} as const
+
+export type AppointmentSeriesStatus = (typeof AppointmentSeriesStatus)[keyof typeof AppointmentSeriesStatus]
+
+
+export const WaitlistEntryStatus = {
+  WAITING: 'WAITING',
+  OFFERED: 'OFFERED',
+  BOOKED: 'BOOKED',
+  CANCELLED: 'CANCELLED',
+  EXPIRED: 'EXPIRED'
+} as const
+
+export type WaitlistEntryStatus = (typeof WaitlistEntryStatus)[keyof typeof WaitlistEntryStatus]
+
+
+export const WaitlistOfferStatus = {
+  PENDING: 'PENDING',
+  ACCEPTED: 'ACCEPTED',
+  DECLINED: 'DECLINED',
+  EXPIRED: 'EXPIRED'
+} as const
+
+export type WaitlistOfferStatus = (typeof WaitlistOfferStatus)[keyof typeof WaitlistOfferStatus]
+
+
+export const ScheduleExceptionType = {
+  LEAVE: 'LEAVE',
+  HOLIDAY: 'HOLIDAY',
+  CLOSURE: 'CLOSURE',
+  EXTRA_SESSION: 'EXTRA_SESSION'
+} as const
+
+export type ScheduleExceptionType = (typeof ScheduleExceptionType)[keyof typeof ScheduleExceptionType]
+
+
+export const DoseValidity = {
+  VALID: 'VALID',
+  GRACE_PERIOD: 'GRACE_PERIOD',
+  INVALID: 'INVALID'
+} as const
+
+export type DoseValidity = (typeof DoseValidity)[keyof typeof DoseValidity]
+
+
 export const DosageUnit = {
   MG: 'MG',
   ML: 'ML',
@@ -261,6 +428,52 @@ export const LabStatus = {
 export type LabStatus = (typeof LabStatus)[keyof typeof LabStatus]
 
 
+export const AllergenType = {
+  DRUG: 'DRUG',
+  DRUG_CLASS: 'DRUG_CLASS',
+  FOOD: 'FOOD',
+  ENVIRONMENTAL: 'ENVIRONMENTAL',
+  OTHER: 'OTHER'
+} as const
+
+export type AllergenType = (typeof AllergenType)[keyof typeof AllergenType]
+
+
+export const AllergySeverity = {
+  MILD: 'MILD',
+  MODERATE: 'MODERATE',
+  SEVERE: 'SEVERE',
+  ANAPHYLAXIS: 'ANAPHYLAXIS'
+} as const
+
+export type AllergySeverity = (typeof AllergySeverity)[keyof typeof AllergySeverity]
+
+
+export const AllergyVerificationStatus = {
+  UNVERIFIED: 'UNVERIFIED',
+  VERIFIED: 'VERIFIED',
+  REFUTED: 'REFUTED'
+} as const
+
+export type AllergyVerificationStatus = (typeof AllergyVerificationStatus)[keyof typeof AllergyVerificationStatus]
+
+
+export const ConditionCodeSystem = {
+  ICD10: 'ICD10',
+  SNOMED_CT: 'SNOMED_CT'
+} as const
+
+export type ConditionCodeSystem = (typeof ConditionCodeSystem)[keyof typeof ConditionCodeSystem]
+
+
+export const ConditionStatus = {
+  ACTIVE: 'ACTIVE',
+  RESOLVED: 'RESOLVED'
+} as const
+
+export type ConditionStatus = (typeof ConditionStatus)[keyof typeof ConditionStatus]
+
+
 export const AccessLevel = {
   STANDARD: 'STANDARD',
   SENSITIVE: 'SENSITIVE',
@@ -280,6 +493,15 @@ export const AccessType = {
 export type AccessType = (typeof AccessType)[keyof typeof AccessType]
 
 
+export const MeasurementPlausibility = {
+  PLAUSIBLE: 'PLAUSIBLE',
+  FLAGGED: 'FLAGGED',
+  CONFIRMED: 'CONFIRMED'
+} as const
+
+export type MeasurementPlausibility = (typeof MeasurementPlausibility)[keyof typeof MeasurementPlausibility]
+
+
 export const SavedFilterType = {
   medical_records: 'medical_records',
   patients: 'patients',
@@ -401,6 +401,8 @@ export const ModelName = {
   ClinicMember: 'ClinicMember',
   Doctor: 'Doctor',
   WorkingDays: 'WorkingDays',
+  DoctorBreak: 'DoctorBreak',
+  ScheduleException: 'ScheduleException',
   Staff: 'Staff',
   Payment: 'Payment',
   Reminder: 'Reminder',
@@ -408,19 +410,28 @@ export const ModelName = {
   Service: 'Service',
   ClinicSetting: 'ClinicSetting',
   WHOGrowthStandard: 'WHOGrowthStandard',
+  GrowthVelocityStandard: 'GrowthVelocityStandard',
   Rating: 'Rating',
   Prescription: 'Prescription',
   Drug: 'Drug',
+  DrugFormulation: 'DrugFormulation',
+  DrugInteraction: 'DrugInteraction',
   DoseGuideline: 'DoseGuideline',
   PrescribedItem: 'PrescribedItem',
   Guardian: 'Guardian',
   Patient: 'Patient',
+  PatientAllergy: 'PatientAllergy',
+  PatientCondition: 'PatientCondition',
   Appointment: 'Appointment',
+  AppointmentSeries: 'AppointmentSeries',
+  WaitlistEntry: 'WaitlistEntry',
+  WaitlistOffer: 'WaitlistOffer',
   MedicalRecords: 'MedicalRecords',
   MedicalRecordAccess: 'MedicalRecordAccess',
   Diagnosis: 'Diagnosis',
   VitalSigns: 'VitalSigns',
   GrowthRecord: 'GrowthRecord',
+  GrowthAlert: 'GrowthAlert',
   Immunization: 'Immunization',
   ConfigStore: 'ConfigStore',
   UserQuota: 'UserQuota',
@@ -429,6 +440,8 @@ export const ModelName = {
   DevelopmentalMilestone: 'DevelopmentalMilestone',
   DevelopmentalCheck: 'DevelopmentalCheck',
   VaccineSchedule: 'VaccineSchedule',
+  VaccineScheduleSet: 'VaccineScheduleSet',
+  VaccineScheduleDose: 'VaccineScheduleDose',
   Expense: 'Expense',
   ExpenseCategory: 'ExpenseCategory',
   ExpenseSubCategory: 'ExpenseSubCategory',
@@ -457,7 +470,7 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
     omit: GlobalOmitOptions
   }
   meta: {
-    modelProps: "user" | "session" | "account" | "verification" | "twoFactor" | "todo" | "feature" | "file" | "folder" | "settings" | "notification" | "auditLog" | "systemSettings" | "clinic" | "clinicMember" | "doctor" | "workingDays" | "staff" | "payment" | "reminder" | "patientBill" | "service" | "clinicSetting" | "wHOGrowthStandard" | "rating" | "prescription" | "drug" | "doseGuideline" | "prescribedItem" | "guardian" | "patient" | "appointment" | "medicalRecords" | "medicalRecordAccess" | "diagnosis" | "vitalSigns" | "growthRecord" | "immunization" | "configStore" | "userQuota" | "labTest" | "feedingLog" | "developmentalMilestone" | "developmentalCheck" | "vaccineSchedule" | "expense" | "expenseCategory" | "expenseSubCategory" | "clinicDashboardMV" | "patientOverviewMV" | "doctorPerformanceMV" | "financialOverviewMV" | "appointmentScheduleMV" | "patientGrowthChartMV" | "immunizationScheduleMV" | "medicalRecordsMV" | "notificationsMV" | "expenseAnalysisMV"
+    modelProps: "user" | "session" | "account" | "verification" | "twoFactor" | "todo" | "feature" | "file" | "folder" | "settings" | "notification" | "auditLog" | "systemSettings" | "clinic" | "clinicMember" | "doctor" | "workingDays" | "doctorBreak" | "scheduleException" | "staff" | "payment" | "reminder" | "patientBill" | "service" | "clinicSetting" | "wHOGrowthStandard" | "growthVelocityStandard" | "rating" | "prescription" | "drug" | "drugFormulation" | "drugInteraction" | "doseGuideline" | "prescribedItem" | "guardian" | "patient" | "patientAllergy" | "patientCondition" | "appointment" | "appointmentSeries" | "waitlistEntry" | "waitlistOffer" | "medicalRecords" | "medicalRecordAccess" | "diagnosis" | "vitalSigns" | "growthRecord" | "growthAlert" | "immunization" | "configStore" | "userQuota" | "labTest" | "feedingLog" | "developmentalMilestone" | "developmentalCheck" | "vaccineSchedule" | "vaccineScheduleSet" | "vaccineScheduleDose" | "expense" | "expenseCategory" | "expenseSubCategory" | "clinicDashboardMV" | "patientOverviewMV" | "doctorPerformanceMV" | "financialOverviewMV" | "appointmentScheduleMV" | "patientGrowthChartMV" | "immunizationScheduleMV" | "medicalRecordsMV" | "notificationsMV" | "expenseAnalysisMV"
     txIsolationLevel: TransactionIsolationLevel
   }
   model: {
@@ -1719,6 +1732,154 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    DoctorBreak: {
+      payload: Prisma.$DoctorBreakPayload<ExtArgs>
+      fields: Prisma.DoctorBreakFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.DoctorBreakFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DoctorBreakPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.DoctorBreakFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DoctorBreakPayload>
+        }
+        findFirst: {
+          args: Prisma.DoctorBreakFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DoctorBreakPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.DoctorBreakFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DoctorBreakPayload>
+        }
+        findMany: {
+          args: Prisma.DoctorBreakFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DoctorBreakPayload>[]
+        }
+        create: {
+          args: Prisma.DoctorBreakCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DoctorBreakPayload>
+        }
+        createMany: {
+          args: Prisma.DoctorBreakCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.DoctorBreakCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DoctorBreakPayload>[]
+        }
+        delete: {
+          args: Prisma.DoctorBreakDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DoctorBreakPayload>
+        }
+        update: {
+          args: Prisma.DoctorBreakUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DoctorBreakPayload>
+        }
+        deleteMany: {
+          args: Prisma.DoctorBreakDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.DoctorBreakUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.DoctorBreakUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DoctorBreakPayload>[]
+        }
+        upsert: {
+          args: Prisma.DoctorBreakUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DoctorBreakPayload>
+        }
+        aggregate: {
+          args: Prisma.DoctorBreakAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateDoctorBreak>
+        }
+        groupBy: {
+          args: Prisma.DoctorBreakGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.DoctorBreakGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.DoctorBreakCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.DoctorBreakCountAggregateOutputType> | number
+        }
+      }
+    }
+    ScheduleException: {
+      payload: Prisma.$ScheduleExceptionPayload<ExtArgs>
+      fields: Prisma.ScheduleExceptionFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.ScheduleExceptionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleExceptionPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.ScheduleExceptionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleExceptionPayload>
+        }
+        findFirst: {
+          args: Prisma.ScheduleExceptionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleExceptionPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.ScheduleExceptionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleExceptionPayload>
+        }
+        findMany: {
+          args: Prisma.ScheduleExceptionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleExceptionPayload>[]
+        }
+        create: {
+          args: Prisma.ScheduleExceptionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleExceptionPayload>
+        }
+        createMany: {
+          args: Prisma.ScheduleExceptionCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.ScheduleExceptionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleExceptionPayload>[]
+        }
+        delete: {
+          args: Prisma.ScheduleExceptionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleExceptionPayload>
+        }
+        update: {
+          args: Prisma.ScheduleExceptionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleExceptionPayload>
+        }
+        deleteMany: {
+          args: Prisma.ScheduleExceptionDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.ScheduleExceptionUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.ScheduleExceptionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleExceptionPayload>[]
+        }
+        upsert: {
+          args: Prisma.ScheduleExceptionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$ScheduleExceptionPayload>
+        }
+        aggregate: {
+          args: Prisma.ScheduleExceptionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateScheduleException>
+        }
+        groupBy: {
+          args: Prisma.ScheduleExceptionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ScheduleExceptionGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.ScheduleExceptionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.ScheduleExceptionCountAggregateOutputType> | number
+        }
+      }
+    }
     Staff: {
       payload: Prisma.$StaffPayload<ExtArgs>
       fields: Prisma.StaffFieldRefs
@@ -2237,6 +2398,80 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    GrowthVelocityStandard: {
+      payload: Prisma.$GrowthVelocityStandardPayload<ExtArgs>
+      fields: Prisma.GrowthVelocityStandardFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.GrowthVelocityStandardFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthVelocityStandardPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.GrowthVelocityStandardFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthVelocityStandardPayload>
+        }
+        findFirst: {
+          args: Prisma.GrowthVelocityStandardFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthVelocityStandardPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.GrowthVelocityStandardFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthVelocityStandardPayload>
+        }
+        findMany: {
+          args: Prisma.GrowthVelocityStandardFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthVelocityStandardPayload>[]
+        }
+        create: {
+          args: Prisma.GrowthVelocityStandardCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthVelocityStandardPayload>
+        }
+        createMany: {
+          args: Prisma.GrowthVelocityStandardCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.GrowthVelocityStandardCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthVelocityStandardPayload>[]
+        }
+        delete: {
+          args: Prisma.GrowthVelocityStandardDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthVelocityStandardPayload>
+        }
+        update: {
+          args: Prisma.GrowthVelocityStandardUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthVelocityStandardPayload>
+        }
+        deleteMany: {
+          args: Prisma.GrowthVelocityStandardDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.GrowthVelocityStandardUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.GrowthVelocityStandardUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthVelocityStandardPayload>[]
+        }
+        upsert: {
+          args: Prisma.GrowthVelocityStandardUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthVelocityStandardPayload>
+        }
+        aggregate: {
+          args: Prisma.GrowthVelocityStandardAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateGrowthVelocityStandard>
+        }
+        groupBy: {
+          args: Prisma.GrowthVelocityStandardGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.GrowthVelocityStandardGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.GrowthVelocityStandardCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.GrowthVelocityStandardCountAggregateOutputType> | number
+        }
+      }
+    }
     Rating: {
       payload: Prisma.$RatingPayload<ExtArgs>
       fields: Prisma.RatingFieldRefs
@@ -2459,6 +2694,154 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    DrugFormulation: {
+      payload: Prisma.$DrugFormulationPayload<ExtArgs>
+      fields: Prisma.DrugFormulationFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.DrugFormulationFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DrugFormulationPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.DrugFormulationFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DrugFormulationPayload>
+        }
+        findFirst: {
+          args: Prisma.DrugFormulationFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DrugFormulationPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.DrugFormulationFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DrugFormulationPayload>
+        }
+        findMany: {
+          args: Prisma.DrugFormulationFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DrugFormulationPayload>[]
+        }
+        create: {
+          args: Prisma.DrugFormulationCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DrugFormulationPayload>
+        }
+        createMany: {
+          args: Prisma.DrugFormulationCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.DrugFormulationCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DrugFormulationPayload>[]
+        }
+        delete: {
+          args: Prisma.DrugFormulationDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DrugFormulationPayload>
+        }
+        update: {
+          args: Prisma.DrugFormulationUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DrugFormulationPayload>
+        }
+        deleteMany: {
+          args: Prisma.DrugFormulationDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.DrugFormulationUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.DrugFormulationUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DrugFormulationPayload>[]
+        }
+        upsert: {
+          args: Prisma.DrugFormulationUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DrugFormulationPayload>
+        }
+        aggregate: {
+          args: Prisma.DrugFormulationAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateDrugFormulation>
+        }
+        groupBy: {
+          args: Prisma.DrugFormulationGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.DrugFormulationGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.DrugFormulationCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.DrugFormulationCountAggregateOutputType> | number
+        }
+      }
+    }
+    DrugInteraction: {
+      payload: Prisma.$DrugInteractionPayload<ExtArgs>
+      fields: Prisma.DrugInteractionFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.DrugInteractionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DrugInteractionPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.DrugInteractionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DrugInteractionPayload>
+        }
+        findFirst: {
+          args: Prisma.DrugInteractionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DrugInteractionPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.DrugInteractionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DrugInteractionPayload>
+        }
+        findMany: {
+          args: Prisma.DrugInteractionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DrugInteractionPayload>[]
+        }
+        create: {
+          args: Prisma.DrugInteractionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DrugInteractionPayload>
+        }
+        createMany: {
+          args: Prisma.DrugInteractionCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.DrugInteractionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DrugInteractionPayload>[]
+        }
+        delete: {
+          args: Prisma.DrugInteractionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DrugInteractionPayload>
+        }
+        update: {
+          args: Prisma.DrugInteractionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DrugInteractionPayload>
+        }
+        deleteMany: {
+          args: Prisma.DrugInteractionDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.DrugInteractionUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.DrugInteractionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DrugInteractionPayload>[]
+        }
+        upsert: {
+          args: Prisma.DrugInteractionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$DrugInteractionPayload>
+        }
+        aggregate: {
+          args: Prisma.DrugInteractionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateDrugInteraction>
+        }
+        groupBy: {
+          args: Prisma.DrugInteractionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.DrugInteractionGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.DrugInteractionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.DrugInteractionCountAggregateOutputType> | number
+        }
+      }
+    }
     DoseGuideline: {
       payload: Prisma.$DoseGuidelinePayload<ExtArgs>
       fields: Prisma.DoseGuidelineFieldRefs
@@ -2755,123 +3138,493 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
-    Appointment: {
-      payload: Prisma.$AppointmentPayload<ExtArgs>
-      fields: Prisma.AppointmentFieldRefs
+    PatientAllergy: {
+      payload: Prisma.$PatientAllergyPayload<ExtArgs>
+      fields: Prisma.PatientAllergyFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.AppointmentFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentPayload> | null
+          args: Prisma.PatientAllergyFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PatientAllergyPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.AppointmentFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentPayload>
+          args: Prisma.PatientAllergyFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PatientAllergyPayload>
         }
         findFirst: {
-          args: Prisma.AppointmentFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentPayload> | null
+          args: Prisma.PatientAllergyFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PatientAllergyPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.AppointmentFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentPayload>
+          args: Prisma.PatientAllergyFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PatientAllergyPayload>
         }
         findMany: {
-          args: Prisma.AppointmentFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentPayload>[]
+          args: Prisma.PatientAllergyFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PatientAllergyPayload>[]
         }
         create: {
-          args: Prisma.AppointmentCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentPayload>
+          args: Prisma.PatientAllergyCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PatientAllergyPayload>
         }
         createMany: {
-          args: Prisma.AppointmentCreateManyArgs<ExtArgs>
+          args: Prisma.PatientAllergyCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.AppointmentCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentPayload>[]
+          args: Prisma.PatientAllergyCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PatientAllergyPayload>[]
         }
         delete: {
-          args: Prisma.AppointmentDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentPayload>
+          args: Prisma.PatientAllergyDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PatientAllergyPayload>
         }
         update: {
-          args: Prisma.AppointmentUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentPayload>
+          args: Prisma.PatientAllergyUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PatientAllergyPayload>
         }
         deleteMany: {
-          args: Prisma.AppointmentDeleteManyArgs<ExtArgs>
+          args: Prisma.PatientAllergyDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.AppointmentUpdateManyArgs<ExtArgs>
+          args: Prisma.PatientAllergyUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.AppointmentUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentPayload>[]
+          args: Prisma.PatientAllergyUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PatientAllergyPayload>[]
         }
         upsert: {
-          args: Prisma.AppointmentUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentPayload>
+          args: Prisma.PatientAllergyUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PatientAllergyPayload>
         }
         aggregate: {
-          args: Prisma.AppointmentAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateAppointment>
+          args: Prisma.PatientAllergyAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregatePatientAllergy>
         }
         groupBy: {
-          args: Prisma.AppointmentGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AppointmentGroupByOutputType>[]
+          args: Prisma.PatientAllergyGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PatientAllergyGroupByOutputType>[]
         }
         count: {
-          args: Prisma.AppointmentCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AppointmentCountAggregateOutputType> | number
+          args: Prisma.PatientAllergyCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PatientAllergyCountAggregateOutputType> | number
         }
       }
     }
-    MedicalRecords: {
-      payload: Prisma.$MedicalRecordsPayload<ExtArgs>
-      fields: Prisma.MedicalRecordsFieldRefs
+    PatientCondition: {
+      payload: Prisma.$PatientConditionPayload<ExtArgs>
+      fields: Prisma.PatientConditionFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.MedicalRecordsFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$MedicalRecordsPayload> | null
+          args: Prisma.PatientConditionFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PatientConditionPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.MedicalRecordsFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$MedicalRecordsPayload>
+          args: Prisma.PatientConditionFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PatientConditionPayload>
         }
         findFirst: {
-          args: Prisma.MedicalRecordsFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$MedicalRecordsPayload> | null
+          args: Prisma.PatientConditionFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PatientConditionPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.MedicalRecordsFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$MedicalRecordsPayload>
+          args: Prisma.PatientConditionFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PatientConditionPayload>
         }
         findMany: {
-          args: Prisma.MedicalRecordsFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$MedicalRecordsPayload>[]
+          args: Prisma.PatientConditionFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PatientConditionPayload>[]
         }
         create: {
-          args: Prisma.MedicalRecordsCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$MedicalRecordsPayload>
+          args: Prisma.PatientConditionCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PatientConditionPayload>
         }
         createMany: {
-          args: Prisma.MedicalRecordsCreateManyArgs<ExtArgs>
+          args: Prisma.PatientConditionCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.MedicalRecordsCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$MedicalRecordsPayload>[]
+          args: Prisma.PatientConditionCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PatientConditionPayload>[]
         }
         delete: {
-          args: Prisma.MedicalRecordsDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$MedicalRecordsPayload>
+          args: Prisma.PatientConditionDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PatientConditionPayload>
         }
         update: {
-          args: Prisma.MedicalRecordsUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$MedicalRecordsPayload>
+          args: Prisma.PatientConditionUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PatientConditionPayload>
+        }
+        deleteMany: {
+          args: Prisma.PatientConditionDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.PatientConditionUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.PatientConditionUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PatientConditionPayload>[]
+        }
+        upsert: {
+          args: Prisma.PatientConditionUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$PatientConditionPayload>
+        }
+        aggregate: {
+          args: Prisma.PatientConditionAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregatePatientCondition>
+        }
+        groupBy: {
+          args: Prisma.PatientConditionGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PatientConditionGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.PatientConditionCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.PatientConditionCountAggregateOutputType> | number
+        }
+      }
+    }
+    Appointment: {
+      payload: Prisma.$AppointmentPayload<ExtArgs>
+      fields: Prisma.AppointmentFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.AppointmentFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.AppointmentFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentPayload>
+        }
+        findFirst: {
+          args: Prisma.AppointmentFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.AppointmentFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentPayload>
+        }
+        findMany: {
+          args: Prisma.AppointmentFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentPayload>[]
+        }
+        create: {
+          args: Prisma.AppointmentCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentPayload>
+        }
+        createMany: {
+          args: Prisma.AppointmentCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.AppointmentCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentPayload>[]
+        }
+        delete: {
+          args: Prisma.AppointmentDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentPayload>
+        }
+        update: {
+          args: Prisma.AppointmentUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentPayload>
+        }
+        deleteMany: {
+          args: Prisma.AppointmentDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.AppointmentUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.AppointmentUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentPayload>[]
+        }
+        upsert: {
+          args: Prisma.AppointmentUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentPayload>
+        }
+        aggregate: {
+          args: Prisma.AppointmentAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateAppointment>
+        }
+        groupBy: {
+          args: Prisma.AppointmentGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AppointmentGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.AppointmentCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AppointmentCountAggregateOutputType> | number
+        }
+      }
+    }
+    AppointmentSeries: {
+      payload: Prisma.$AppointmentSeriesPayload<ExtArgs>
+      fields: Prisma.AppointmentSeriesFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.AppointmentSeriesFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentSeriesPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.AppointmentSeriesFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentSeriesPayload>
+        }
+        findFirst: {
+          args: Prisma.AppointmentSeriesFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentSeriesPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.AppointmentSeriesFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentSeriesPayload>
+        }
+        findMany: {
+          args: Prisma.AppointmentSeriesFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentSeriesPayload>[]
+        }
+        create: {
+          args: Prisma.AppointmentSeriesCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentSeriesPayload>
+        }
+        createMany: {
+          args: Prisma.AppointmentSeriesCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.AppointmentSeriesCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentSeriesPayload>[]
+        }
+        delete: {
+          args: Prisma.AppointmentSeriesDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentSeriesPayload>
+        }
+        update: {
+          args: Prisma.AppointmentSeriesUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentSeriesPayload>
+        }
+        deleteMany: {
+          args: Prisma.AppointmentSeriesDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.AppointmentSeriesUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.AppointmentSeriesUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentSeriesPayload>[]
+        }
+        upsert: {
+          args: Prisma.AppointmentSeriesUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$AppointmentSeriesPayload>
+        }
+        aggregate: {
+          args: Prisma.AppointmentSeriesAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateAppointmentSeries>
+        }
+        groupBy: {
+          args: Prisma.AppointmentSeriesGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AppointmentSeriesGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.AppointmentSeriesCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AppointmentSeriesCountAggregateOutputType> | number
+        }
+      }
+    }
+    WaitlistEntry: {
+      payload: Prisma.$WaitlistEntryPayload<ExtArgs>
+      fields: Prisma.WaitlistEntryFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.WaitlistEntryFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.WaitlistEntryFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload>
+        }
+        findFirst: {
+          args: Prisma.WaitlistEntryFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.WaitlistEntryFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload>
+        }
+        findMany: {
+          args: Prisma.WaitlistEntryFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload>[]
+        }
+        create: {
+          args: Prisma.WaitlistEntryCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload>
+        }
+        createMany: {
+          args: Prisma.WaitlistEntryCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.WaitlistEntryCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload>[]
+        }
+        delete: {
+          args: Prisma.WaitlistEntryDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload>
+        }
+        update: {
+          args: Prisma.WaitlistEntryUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload>
+        }
+        deleteMany: {
+          args: Prisma.WaitlistEntryDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.WaitlistEntryUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.WaitlistEntryUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload>[]
+        }
+        upsert: {
+          args: Prisma.WaitlistEntryUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistEntryPayload>
+        }
+        aggregate: {
+          args: Prisma.WaitlistEntryAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateWaitlistEntry>
+        }
+        groupBy: {
+          args: Prisma.WaitlistEntryGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.WaitlistEntryGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.WaitlistEntryCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.WaitlistEntryCountAggregateOutputType> | number
+        }
+      }
+    }
+    WaitlistOffer: {
+      payload: Prisma.$WaitlistOfferPayload<ExtArgs>
+      fields: Prisma.WaitlistOfferFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.WaitlistOfferFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistOfferPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.WaitlistOfferFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistOfferPayload>
+        }
+        findFirst: {
+          args: Prisma.WaitlistOfferFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistOfferPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.WaitlistOfferFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistOfferPayload>
+        }
+        findMany: {
+          args: Prisma.WaitlistOfferFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistOfferPayload>[]
+        }
+        create: {
+          args: Prisma.WaitlistOfferCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistOfferPayload>
+        }
+        createMany: {
+          args: Prisma.WaitlistOfferCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.WaitlistOfferCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistOfferPayload>[]
+        }
+        delete: {
+          args: Prisma.WaitlistOfferDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistOfferPayload>
+        }
+        update: {
+          args: Prisma.WaitlistOfferUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistOfferPayload>
+        }
+        deleteMany: {
+          args: Prisma.WaitlistOfferDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.WaitlistOfferUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.WaitlistOfferUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistOfferPayload>[]
+        }
+        upsert: {
+          args: Prisma.WaitlistOfferUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$WaitlistOfferPayload>
+        }
+        aggregate: {
+          args: Prisma.WaitlistOfferAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateWaitlistOffer>
+        }
+        groupBy: {
+          args: Prisma.WaitlistOfferGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.WaitlistOfferGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.WaitlistOfferCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.WaitlistOfferCountAggregateOutputType> | number
+        }
+      }
+    }
+    MedicalRecords: {
+      payload: Prisma.$MedicalRecordsPayload<ExtArgs>
+      fields: Prisma.MedicalRecordsFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.MedicalRecordsFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MedicalRecordsPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.MedicalRecordsFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MedicalRecordsPayload>
+        }
+        findFirst: {
+          args: Prisma.MedicalRecordsFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MedicalRecordsPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.MedicalRecordsFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MedicalRecordsPayload>
+        }
+        findMany: {
+          args: Prisma.MedicalRecordsFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MedicalRecordsPayload>[]
+        }
+        create: {
+          args: Prisma.MedicalRecordsCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MedicalRecordsPayload>
+        }
+        createMany: {
+          args: Prisma.MedicalRecordsCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.MedicalRecordsCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MedicalRecordsPayload>[]
+        }
+        delete: {
+          args: Prisma.MedicalRecordsDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MedicalRecordsPayload>
+        }
+        update: {
+          args: Prisma.MedicalRecordsUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$MedicalRecordsPayload>
         }
         deleteMany: {
           args: Prisma.MedicalRecordsDeleteManyArgs<ExtArgs>
@@ -3125,77 +3878,151 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
-    GrowthRecord: {
-      payload: Prisma.$GrowthRecordPayload<ExtArgs>
-      fields: Prisma.GrowthRecordFieldRefs
+    GrowthRecord: {
+      payload: Prisma.$GrowthRecordPayload<ExtArgs>
+      fields: Prisma.GrowthRecordFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.GrowthRecordFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthRecordPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.GrowthRecordFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthRecordPayload>
+        }
+        findFirst: {
+          args: Prisma.GrowthRecordFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthRecordPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.GrowthRecordFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthRecordPayload>
+        }
+        findMany: {
+          args: Prisma.GrowthRecordFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthRecordPayload>[]
+        }
+        create: {
+          args: Prisma.GrowthRecordCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthRecordPayload>
+        }
+        createMany: {
+          args: Prisma.GrowthRecordCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.GrowthRecordCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthRecordPayload>[]
+        }
+        delete: {
+          args: Prisma.GrowthRecordDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthRecordPayload>
+        }
+        update: {
+          args: Prisma.GrowthRecordUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthRecordPayload>
+        }
+        deleteMany: {
+          args: Prisma.GrowthRecordDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.GrowthRecordUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.GrowthRecordUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthRecordPayload>[]
+        }
+        upsert: {
+          args: Prisma.GrowthRecordUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthRecordPayload>
+        }
+        aggregate: {
+          args: Prisma.GrowthRecordAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateGrowthRecord>
+        }
+        groupBy: {
+          args: Prisma.GrowthRecordGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.GrowthRecordGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.GrowthRecordCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.GrowthRecordCountAggregateOutputType> | number
+        }
+      }
+    }
+    GrowthAlert: {
+      payload: Prisma.$GrowthAlertPayload<ExtArgs>
+      fields: Prisma.GrowthAlertFieldRefs
       operations: {
         findUnique: {
-          args: Prisma.GrowthRecordFindUniqueArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthRecordPayload> | null
+          args: Prisma.GrowthAlertFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthAlertPayload> | null
         }
         findUniqueOrThrow: {
-          args: Prisma.GrowthRecordFindUniqueOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthRecordPayload>
+          args: Prisma.GrowthAlertFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthAlertPayload>
         }
         findFirst: {
-          args: Prisma.GrowthRecordFindFirstArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthRecordPayload> | null
+          args: Prisma.GrowthAlertFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthAlertPayload> | null
         }
         findFirstOrThrow: {
-          args: Prisma.GrowthRecordFindFirstOrThrowArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthRecordPayload>
+          args: Prisma.GrowthAlertFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthAlertPayload>
         }
         findMany: {
-          args: Prisma.GrowthRecordFindManyArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthRecordPayload>[]
+          args: Prisma.GrowthAlertFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthAlertPayload>[]
         }
         create: {
-          args: Prisma.GrowthRecordCreateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthRecordPayload>
+          args: Prisma.GrowthAlertCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthAlertPayload>
         }
         createMany: {
-          args: Prisma.GrowthRecordCreateManyArgs<ExtArgs>
+          args: Prisma.GrowthAlertCreateManyArgs<ExtArgs>
           result: BatchPayload
         }
         createManyAndReturn: {
-          args: Prisma.GrowthRecordCreateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthRecordPayload>[]
+          args: Prisma.GrowthAlertCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthAlertPayload>[]
         }
         delete: {
-          args: Prisma.GrowthRecordDeleteArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthRecordPayload>
+          args: Prisma.GrowthAlertDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthAlertPayload>
         }
         update: {
-          args: Prisma.GrowthRecordUpdateArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthRecordPayload>
+          args: Prisma.GrowthAlertUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthAlertPayload>
         }
         deleteMany: {
-          args: Prisma.GrowthRecordDeleteManyArgs<ExtArgs>
+          args: Prisma.GrowthAlertDeleteManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateMany: {
-          args: Prisma.GrowthRecordUpdateManyArgs<ExtArgs>
+          args: Prisma.GrowthAlertUpdateManyArgs<ExtArgs>
           result: BatchPayload
         }
         updateManyAndReturn: {
-          args: Prisma.GrowthRecordUpdateManyAndReturnArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthRecordPayload>[]
+          args: Prisma.GrowthAlertUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthAlertPayload>[]
         }
         upsert: {
-          args: Prisma.GrowthRecordUpsertArgs<ExtArgs>
-          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthRecordPayload>
+          args: Prisma.GrowthAlertUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$GrowthAlertPayload>
         }
         aggregate: {
-          args: Prisma.GrowthRecordAggregateArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.AggregateGrowthRecord>
+          args: Prisma.GrowthAlertAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateGrowthAlert>
         }
         groupBy: {
-          args: Prisma.GrowthRecordGroupByArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.GrowthRecordGroupByOutputType>[]
+          args: Prisma.GrowthAlertGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.GrowthAlertGroupByOutputType>[]
         }
         count: {
-          args: Prisma.GrowthRecordCountArgs<ExtArgs>
-          result: runtime.Types.Utils.Optional<Prisma.GrowthRecordCountAggregateOutputType> | number
+          args: Prisma.GrowthAlertCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.GrowthAlertCountAggregateOutputType> | number
         }
       }
     }
@@ -3791,6 +4618,154 @@ export type TypeMap<ExtArgs extends runtime.Types.Extensions.InternalArgs = runt
         }
       }
     }
+    VaccineScheduleSet: {
+      payload: Prisma.$VaccineScheduleSetPayload<ExtArgs>
+      fields: Prisma.VaccineScheduleSetFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.VaccineScheduleSetFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VaccineScheduleSetPayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.VaccineScheduleSetFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VaccineScheduleSetPayload>
+        }
+        findFirst: {
+          args: Prisma.VaccineScheduleSetFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VaccineScheduleSetPayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.VaccineScheduleSetFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VaccineScheduleSetPayload>
+        }
+        findMany: {
+          args: Prisma.VaccineScheduleSetFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VaccineScheduleSetPayload>[]
+        }
+        create: {
+          args: Prisma.VaccineScheduleSetCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VaccineScheduleSetPayload>
+        }
+        createMany: {
+          args: Prisma.VaccineScheduleSetCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.VaccineScheduleSetCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VaccineScheduleSetPayload>[]
+        }
+        delete: {
+          args: Prisma.VaccineScheduleSetDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VaccineScheduleSetPayload>
+        }
+        update: {
+          args: Prisma.VaccineScheduleSetUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VaccineScheduleSetPayload>
+        }
+        deleteMany: {
+          args: Prisma.VaccineScheduleSetDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.VaccineScheduleSetUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.VaccineScheduleSetUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VaccineScheduleSetPayload>[]
+        }
+        upsert: {
+          args: Prisma.VaccineScheduleSetUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VaccineScheduleSetPayload>
+        }
+        aggregate: {
+          args: Prisma.VaccineScheduleSetAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateVaccineScheduleSet>
+        }
+        groupBy: {
+          args: Prisma.VaccineScheduleSetGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.VaccineScheduleSetGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.VaccineScheduleSetCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.VaccineScheduleSetCountAggregateOutputType> | number
+        }
+      }
+    }
+    VaccineScheduleDose: {
+      payload: Prisma.$VaccineScheduleDosePayload<ExtArgs>
+      fields: Prisma.VaccineScheduleDoseFieldRefs
+      operations: {
+        findUnique: {
+          args: Prisma.VaccineScheduleDoseFindUniqueArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VaccineScheduleDosePayload> | null
+        }
+        findUniqueOrThrow: {
+          args: Prisma.VaccineScheduleDoseFindUniqueOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VaccineScheduleDosePayload>
+        }
+        findFirst: {
+          args: Prisma.VaccineScheduleDoseFindFirstArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VaccineScheduleDosePayload> | null
+        }
+        findFirstOrThrow: {
+          args: Prisma.VaccineScheduleDoseFindFirstOrThrowArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VaccineScheduleDosePayload>
+        }
+        findMany: {
+          args: Prisma.VaccineScheduleDoseFindManyArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VaccineScheduleDosePayload>[]
+        }
+        create: {
+          args: Prisma.VaccineScheduleDoseCreateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VaccineScheduleDosePayload>
+        }
+        createMany: {
+          args: Prisma.VaccineScheduleDoseCreateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        createManyAndReturn: {
+          args: Prisma.VaccineScheduleDoseCreateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VaccineScheduleDosePayload>[]
+        }
+        delete: {
+          args: Prisma.VaccineScheduleDoseDeleteArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VaccineScheduleDosePayload>
+        }
+        update: {
+          args: Prisma.VaccineScheduleDoseUpdateArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VaccineScheduleDosePayload>
+        }
+        deleteMany: {
+          args: Prisma.VaccineScheduleDoseDeleteManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateMany: {
+          args: Prisma.VaccineScheduleDoseUpdateManyArgs<ExtArgs>
+          result: BatchPayload
+        }
+        updateManyAndReturn: {
+          args: Prisma.VaccineScheduleDoseUpdateManyAndReturnArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VaccineScheduleDosePayload>[]
+        }
+        upsert: {
+          args: Prisma.VaccineScheduleDoseUpsertArgs<ExtArgs>
+          result: runtime.Types.Utils.PayloadToResult<Prisma.$VaccineScheduleDosePayload>
+        }
+        aggregate: {
+          args: Prisma.VaccineScheduleDoseAggregateArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.AggregateVaccineScheduleDose>
+        }
+        groupBy: {
+          args: Prisma.VaccineScheduleDoseGroupByArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.VaccineScheduleDoseGroupByOutputType>[]
+        }
+        count: {
+          args: Prisma.VaccineScheduleDoseCountArgs<ExtArgs>
+          result: runtime.Types.Utils.Optional<Prisma.VaccineScheduleDoseCountAggregateOutputType> | number
+        }
+      }
+    }
     Expense: {
       payload: Prisma.$ExpensePayload<ExtArgs>
       fields: Prisma.ExpenseFieldRefs
@@ -4628,6 +5603,37 @@ export const WorkingDaysScalarFieldEnum = {
 export type WorkingDaysScalarFieldEnum = (typeof WorkingDaysScalarFieldEnum)[keyof typeof WorkingDaysScalarFieldEnum]
 
 
+export const DoctorBreakScalarFieldEnum = {
+  id: 'id',
+  doctorId: 'doctorId',
+  clinicId: 'clinicId',
+  day: 'day',
+  startTime: 'startTime',
+  endTime: 'endTime',
+  label: 'label',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type DoctorBreakScalarFieldEnum = (typeof DoctorBreakScalarFieldEnum)[keyof typeof DoctorBreakScalarFieldEnum]
+
+
+export const ScheduleExceptionScalarFieldEnum = {
+  id: 'id',
+  clinicId: 'clinicId',
+  doctorId: 'doctorId',
+  date: 'date',
+  type: 'type',
+  startTime: 'startTime',
+  endTime: 'endTime',
+  reason: 'reason',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ScheduleExceptionScalarFieldEnum = (typeof ScheduleExceptionScalarFieldEnum)[keyof typeof ScheduleExceptionScalarFieldEnum]
+
+
 export const StaffScalarFieldEnum = {
   id: 'id',
   email: 'email',
@@ -4686,9 +5692,19 @@ export type PaymentScalarFieldEnum = (typeof PaymentScalarFieldEnum)[keyof typeo
 export const ReminderScalarFieldEnum = {
   id: 'id',
   appointmentId: 'appointmentId',
+  immunizationId: 'immunizationId',
   method: 'method',
+  leadTime: 'leadTime',
+  recipient: 'recipient',
+  scheduledFor: 'scheduledFor',
   sentAt: 'sentAt',
-  status: 'status'
+  status: 'status',
+  attempts: 'attempts',
+  lastAttemptAt: 'lastAttemptAt',
+  error: 'error',
+  jobId: 'jobId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
 } as const
 
 export type ReminderScalarFieldEnum = (typeof ReminderScalarFieldEnum)[keyof typeof ReminderScalarFieldEnum]
@@ -4738,6 +5754,8 @@ export const ClinicSettingScalarFieldEnum = {
   workingDays: 'workingDays',
   defaultAppointmentDuration: 'defaultAppointmentDuration',
   requireEmergencyContact: 'requireEmergencyContact',
+  waitlistOfferHoldMinutes: 'waitlistOfferHoldMinutes',
+  vaccineScheduleSetId: 'vaccineScheduleSetId',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -4749,6 +5767,8 @@ export const WHOGrowthStandardScalarFieldEnum = {
   id: 'id',
   ageInMonths: 'ageInMonths',
   ageDays: 'ageDays',
+  lengthCm: 'lengthCm',
+  source: 'source',
   gender: 'gender',
   chartType: 'chartType',
   measurementType: 'measurementType',
@@ -4771,6 +5791,23 @@ export const WHOGrowthStandardScalarFieldEnum = {
 export type WHOGrowthStandardScalarFieldEnum = (typeof WHOGrowthStandardScalarFieldEnum)[keyof typeof WHOGrowthStandardScalarFieldEnum]
 
 
+export const GrowthVelocityStandardScalarFieldEnum = {
+  id: 'id',
+  gender: 'gender',
+  measurementType: 'measurementType',
+  intervalMonths: 'intervalMonths',
+  startMonth: 'startMonth',
+  endMonth: 'endMonth',
+  delta: 'delta',
+  lValue: 'lValue',
+  mValue: 'mValue',
+  sValue: 'sValue',
+  createdAt: 'createdAt'
+} as const
+
+export type GrowthVelocityStandardScalarFieldEnum = (typeof GrowthVelocityStandardScalarFieldEnum)[keyof typeof GrowthVelocityStandardScalarFieldEnum]
+
+
 export const RatingScalarFieldEnum = {
   id: 'id',
   clinicId: 'clinicId',
@@ -4796,6 +5833,11 @@ export const PrescriptionScalarFieldEnum = {
   issuedDate: 'issuedDate',
   endDate: 'endDate',
   status: 'status',
+  weightKg: 'weightKg',
+  discontinuedAt: 'discontinuedAt',
+  discontinuedReason: 'discontinuedReason',
+  discontinuedById: 'discontinuedById',
+  renewedFromId: 'renewedFromId',
   clinicId: 'clinicId',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
@@ -4807,6 +5849,21 @@ export type PrescriptionScalarFieldEnum = (typeof PrescriptionScalarFieldEnum)[k
 export const DrugScalarFieldEnum = {
   id: 'id',
   name: 'name',
+  drugClasses: 'drugClasses',
+  ingredients: 'ingredients',
+  genericName: 'genericName',
+  brandNames: 'brandNames',
+  manufacturer: 'manufacturer',
+  description: 'description',
+  indications: 'indications',
+  contraindications: 'contraindications',
+  sideEffects: 'sideEffects',
+  warnings: 'warnings',
+  pregnancyCategory: 'pregnancyCategory',
+  isControlled: 'isControlled',
+  controlledSchedule: 'controlledSchedule',
+  requiresPriorAuth: 'requiresPriorAuth',
+  isActive: 'isActive',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -4814,6 +5871,39 @@ export const DrugScalarFieldEnum = {
 export type DrugScalarFieldEnum = (typeof DrugScalarFieldEnum)[keyof typeof DrugScalarFieldEnum]
 
 
+export const DrugFormulationScalarFieldEnum = {
+  id: 'id',
+  drugId: 'drugId',
+  form: 'form',
+  route: 'route',
+  strength: 'strength',
+  strengthUnit: 'strengthUnit',
+  perVolumeMl: 'perVolumeMl',
+  divisions: 'divisions',
+  label: 'label',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type DrugFormulationScalarFieldEnum = (typeof DrugFormulationScalarFieldEnum)[keyof typeof DrugFormulationScalarFieldEnum]
+
+
+export const DrugInteractionScalarFieldEnum = {
+  id: 'id',
+  subjectA: 'subjectA',
+  subjectB: 'subjectB',
+  severity: 'severity',
+  mechanism: 'mechanism',
+  management: 'management',
+  source: 'source',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type DrugInteractionScalarFieldEnum = (typeof DrugInteractionScalarFieldEnum)[keyof typeof DrugInteractionScalarFieldEnum]
+
+
 export const DoseGuidelineScalarFieldEnum = {
   id: 'id',
   drugId: 'drugId',
@@ -4849,6 +5939,10 @@ export const PrescribedItemScalarFieldEnum = {
   duration: 'duration',
   instructions: 'instructions',
   drugRoute: 'drugRoute',
+  indication: 'indication',
+  formulationId: 'formulationId',
+  measuredQuantity: 'measuredQuantity',
+  measuredUnit: 'measuredUnit',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -4862,6 +5956,7 @@ export const GuardianScalarFieldEnum = {
   userId: 'userId',
   relation: 'relation',
   isPrimary: 'isPrimary',
+  heightCm: 'heightCm',
   phone: 'phone',
   email: 'email'
 } as const
@@ -4878,7 +5973,12 @@ export const PatientScalarFieldEnum = {
   emergencyContactNumber: 'emergencyContactNumber',
   firstName: 'firstName',
   lastName: 'lastName',
+  medicalRecordNumber: 'medicalRecordNumber',
   dateOfBirth: 'dateOfBirth',
+  gestationalAgeWeeks: 'gestationalAgeWeeks',
+  gestationalAgeDays: 'gestationalAgeDays',
+  fatherHeightCm: 'fatherHeightCm',
+  motherHeightCm: 'motherHeightCm',
   ageMonths: 'ageMonths',
   ageDays: 'ageDays',
   gender: 'gender',
@@ -4907,6 +6007,54 @@ export const PatientScalarFieldEnum = {
 export type PatientScalarFieldEnum = (typeof PatientScalarFieldEnum)[keyof typeof PatientScalarFieldEnum]
 
 
+export const PatientAllergyScalarFieldEnum = {
+  id: 'id',
+  clinicId: 'clinicId',
+  patientId: 'patientId',
+  allergen: 'allergen',
+  allergenType: 'allergenType',
+  drugId: 'drugId',
+  reaction: 'reaction',
+  severity: 'severity',
+  verificationStatus: 'verificationStatus',
+  onsetDate: 'onsetDate',
+  notes: 'notes',
+  sourceText: 'sourceText',
+  needsReview: 'needsReview',
+  reviewedAt: 'reviewedAt',
+  reviewedById: 'reviewedById',
+  recordedById: 'recordedById',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type PatientAllergyScalarFieldEnum = (typeof PatientAllergyScalarFieldEnum)[keyof typeof PatientAllergyScalarFieldEnum]
+
+
+export const PatientConditionScalarFieldEnum = {
+  id: 'id',
+  clinicId: 'clinicId',
+  patientId: 'patientId',
+  display: 'display',
+  code: 'code',
+  codeSystem: 'codeSystem',
+  status: 'status',
+  onsetDate: 'onsetDate',
+  resolvedDate: 'resolvedDate',
+  notes: 'notes',
+  sourceText: 'sourceText',
+  needsReview: 'needsReview',
+  reviewedAt: 'reviewedAt',
+  reviewedById: 'reviewedById',
+  recordedById: 'recordedById',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type PatientConditionScalarFieldEnum = (typeof PatientConditionScalarFieldEnum)[keyof typeof PatientConditionScalarFieldEnum]
+
+
 export const AppointmentScalarFieldEnum = {
   id: 'id',
   patientId: 'patientId',
@@ -4925,12 +6073,80 @@ export const AppointmentScalarFieldEnum = {
   isDeleted: 'isDeleted',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
-  duration: 'duration'
+  duration: 'duration',
+  seriesId: 'seriesId',
+  occurrence: 'occurrence'
 } as const
 
 export type AppointmentScalarFieldEnum = (typeof AppointmentScalarFieldEnum)[keyof typeof AppointmentScalarFieldEnum]
 
 
+export const AppointmentSeriesScalarFieldEnum = {
+  id: 'id',
+  clinicId: 'clinicId',
+  patientId: 'patientId',
+  doctorId: 'doctorId',
+  serviceId: 'serviceId',
+  type: 'type',
+  frequency: 'frequency',
+  interval: 'interval',
+  startDate: 'startDate',
+  until: 'until',
+  count: 'count',
+  time: 'time',
+  duration: 'duration',
+  appointmentPrice: 'appointmentPrice',
+  note: 'note',
+  status: 'status',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type AppointmentSeriesScalarFieldEnum = (typeof AppointmentSeriesScalarFieldEnum)[keyof typeof AppointmentSeriesScalarFieldEnum]
+
+
+export const WaitlistEntryScalarFieldEnum = {
+  id: 'id',
+  clinicId: 'clinicId',
+  patientId: 'patientId',
+  doctorId: 'doctorId',
+  specialty: 'specialty',
+  serviceId: 'serviceId',
+  type: 'type',
+  earliestDate: 'earliestDate',
+  latestDate: 'latestDate',
+  preferredFromTime: 'preferredFromTime',
+  preferredToTime: 'preferredToTime',
+  preferredWeekdays: 'preferredWeekdays',
+  priority: 'priority',
+  status: 'status',
+  note: 'note',
+  createdById: 'createdById',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type WaitlistEntryScalarFieldEnum = (typeof WaitlistEntryScalarFieldEnum)[keyof typeof WaitlistEntryScalarFieldEnum]
+
+
+export const WaitlistOfferScalarFieldEnum = {
+  id: 'id',
+  entryId: 'entryId',
+  clinicId: 'clinicId',
+  doctorId: 'doctorId',
+  appointmentId: 'appointmentId',
+  slotStart: 'slotStart',
+  time: 'time',
+  duration: 'duration',
+  status: 'status',
+  expiresAt: 'expiresAt',
+  respondedAt: 'respondedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type WaitlistOfferScalarFieldEnum = (typeof WaitlistOfferScalarFieldEnum)[keyof typeof WaitlistOfferScalarFieldEnum]
+
+
 export const MedicalRecordsScalarFieldEnum = {
   id: 'id',
   patientId: 'patientId',
@@ -5053,10 +6269,32 @@ export const GrowthRecordScalarFieldEnum = {
   classification: 'classification',
   deletedAt: 'deletedAt',
   measurementType: 'measurementType',
-  recordedById: 'recordedById'
+  recordedById: 'recordedById',
+  plausibility: 'plausibility',
+  plausibilityFlags: 'plausibilityFlags',
+  confirmedAt: 'confirmedAt',
+  confirmedById: 'confirmedById',
+  referenceVersion: 'referenceVersion'
+} as const
+
+export type GrowthRecordScalarFieldEnum = (typeof GrowthRecordScalarFieldEnum)[keyof typeof GrowthRecordScalarFieldEnum]
+
+
+export const GrowthAlertScalarFieldEnum = {
+  id: 'id',
+  clinicId: 'clinicId',
+  patientId: 'patientId',
+  growthRecordId: 'growthRecordId',
+  type: 'type',
+  severity: 'severity',
+  message: 'message',
+  details: 'details',
+  acknowledgedAt: 'acknowledgedAt',
+  acknowledgedById: 'acknowledgedById',
+  createdAt: 'createdAt'
 } as const
 
-export type GrowthRecordScalarFieldEnum = (typeof GrowthRecordScalarFieldEnum)[keyof typeof GrowthRecordScalarFieldEnum]
+export type GrowthAlertScalarFieldEnum = (typeof GrowthAlertScalarFieldEnum)[keyof typeof GrowthAlertScalarFieldEnum]
 
 
 export const ImmunizationScalarFieldEnum = {
@@ -5074,7 +6312,10 @@ export const ImmunizationScalarFieldEnum = {
   status: 'status',
   updatedAt: 'updatedAt',
   isOverDue: 'isOverDue',
-  daysOverDue: 'daysOverDue'
+  daysOverDue: 'daysOverDue',
+  doseNumber: 'doseNumber',
+  validity: 'validity',
+  validityReasons: 'validityReasons'
 } as const
 
 export type ImmunizationScalarFieldEnum = (typeof ImmunizationScalarFieldEnum)[keyof typeof ImmunizationScalarFieldEnum]
@@ -5134,7 +6375,11 @@ export type FeedingLogScalarFieldEnum = (typeof FeedingLogScalarFieldEnum)[keyof
 export const DevelopmentalMilestoneScalarFieldEnum = {
   id: 'id',
   patientId: 'patientId',
+  checkId: 'checkId',
   milestone: 'milestone',
+  milestoneCode: 'milestoneCode',
+  domain: 'domain',
+  status: 'status',
   ageAchieved: 'ageAchieved',
   dateRecorded: 'dateRecorded',
   notes: 'notes',
@@ -5156,6 +6401,12 @@ export const DevelopmentalCheckScalarFieldEnum = {
   languageSkills: 'languageSkills',
   socialSkills: 'socialSkills',
   cognitiveSkills: 'cognitiveSkills',
+  grossMotorSkills: 'grossMotorSkills',
+  fineMotorSkills: 'fineMotorSkills',
+  assessedAgeMonths: 'assessedAgeMonths',
+  instrument: 'instrument',
+  overdueMilestones: 'overdueMilestones',
+  performedById: 'performedById',
   milestonesMet: 'milestonesMet',
   milestonesPending: 'milestonesPending',
   concerns: 'concerns',
@@ -5178,12 +6429,44 @@ export const VaccineScheduleScalarFieldEnum = {
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
   ageInDaysMin: 'ageInDaysMin',
-  ageInDaysMax: 'ageInDaysMax'
+  ageInDaysMax: 'ageInDaysMax',
+  scheduleSetId: 'scheduleSetId'
 } as const
 
 export type VaccineScheduleScalarFieldEnum = (typeof VaccineScheduleScalarFieldEnum)[keyof typeof VaccineScheduleScalarFieldEnum]
 
 
+export const VaccineScheduleSetScalarFieldEnum = {
+  id: 'id',
+  code: 'code',
+  name: 'name',
+  country: 'country',
+  version: 'version',
+  description: 'description',
+  isDefault: 'isDefault',
+  effectiveFrom: 'effectiveFrom',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type VaccineScheduleSetScalarFieldEnum = (typeof VaccineScheduleSetScalarFieldEnum)[keyof typeof VaccineScheduleSetScalarFieldEnum]
+
+
+export const VaccineScheduleDoseScalarFieldEnum = {
+  id: 'id',
+  scheduleId: 'scheduleId',
+  doseNumber: 'doseNumber',
+  minimumAgeDays: 'minimumAgeDays',
+  recommendedAgeDays: 'recommendedAgeDays',
+  maximumAgeDays: 'maximumAgeDays',
+  minimumIntervalDays: 'minimumIntervalDays',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type VaccineScheduleDoseScalarFieldEnum = (typeof VaccineScheduleDoseScalarFieldEnum)[keyof typeof VaccineScheduleDoseScalarFieldEnum]
+
+
 export const ExpenseScalarFieldEnum = {
   id: 'id',
   clinicId: 'clinicId',
@@ -5702,6 +6985,20 @@ export type ListDecimalFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaMo
     
 
 
+/**
+ * Reference to a field of type 'ScheduleExceptionType'
+ */
+export type EnumScheduleExceptionTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ScheduleExceptionType'>
+    
+
+
+/**
+ * Reference to a field of type 'ScheduleExceptionType[]'
+ */
+export type ListEnumScheduleExceptionTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ScheduleExceptionType[]'>
+    
+
+
 /**
  * Reference to a field of type 'Float'
  */
@@ -5786,6 +7083,20 @@ export type ListEnumServiceCategoryFieldRefInput<$PrismaModel> = FieldRefInputTy
     
 
 
+/**
+ * Reference to a field of type 'GrowthReferenceSource'
+ */
+export type EnumGrowthReferenceSourceFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'GrowthReferenceSource'>
+    
+
+
+/**
+ * Reference to a field of type 'GrowthReferenceSource[]'
+ */
+export type ListEnumGrowthReferenceSourceFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'GrowthReferenceSource[]'>
+    
+
+
 /**
  * Reference to a field of type 'Gender'
  */
@@ -5829,16 +7140,58 @@ export type ListEnumMeasurementTypeFieldRefInput<$PrismaModel> = FieldRefInputTy
 
 
 /**
- * Reference to a field of type 'DosageUnit'
+ * Reference to a field of type 'PrescriptionStatus'
  */
-export type EnumDosageUnitFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DosageUnit'>
+export type EnumPrescriptionStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PrescriptionStatus'>
     
 
 
 /**
- * Reference to a field of type 'DosageUnit[]'
+ * Reference to a field of type 'PrescriptionStatus[]'
  */
-export type ListEnumDosageUnitFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DosageUnit[]'>
+export type ListEnumPrescriptionStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PrescriptionStatus[]'>
+    
+
+
+/**
+ * Reference to a field of type 'PregnancyCategory'
+ */
+export type EnumPregnancyCategoryFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PregnancyCategory'>
+    
+
+
+/**
+ * Reference to a field of type 'PregnancyCategory[]'
+ */
+export type ListEnumPregnancyCategoryFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'PregnancyCategory[]'>
+    
+
+
+/**
+ * Reference to a field of type 'ControlledSchedule'
+ */
+export type EnumControlledScheduleFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ControlledSchedule'>
+    
+
+
+/**
+ * Reference to a field of type 'ControlledSchedule[]'
+ */
+export type ListEnumControlledScheduleFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ControlledSchedule[]'>
+    
+
+
+/**
+ * Reference to a field of type 'DrugForm'
+ */
+export type EnumDrugFormFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DrugForm'>
+    
+
+
+/**
+ * Reference to a field of type 'DrugForm[]'
+ */
+export type ListEnumDrugFormFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DrugForm[]'>
     
 
 
@@ -5856,6 +7209,104 @@ export type ListEnumDrugRouteFieldRefInput<$PrismaModel> = FieldRefInputType<$Pr
     
 
 
+/**
+ * Reference to a field of type 'InteractionSeverity'
+ */
+export type EnumInteractionSeverityFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'InteractionSeverity'>
+    
+
+
+/**
+ * Reference to a field of type 'InteractionSeverity[]'
+ */
+export type ListEnumInteractionSeverityFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'InteractionSeverity[]'>
+    
+
+
+/**
+ * Reference to a field of type 'DosageUnit'
+ */
+export type EnumDosageUnitFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DosageUnit'>
+    
+
+
+/**
+ * Reference to a field of type 'DosageUnit[]'
+ */
+export type ListEnumDosageUnitFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DosageUnit[]'>
+    
+
+
+/**
+ * Reference to a field of type 'AllergenType'
+ */
+export type EnumAllergenTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'AllergenType'>
+    
+
+
+/**
+ * Reference to a field of type 'AllergenType[]'
+ */
+export type ListEnumAllergenTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'AllergenType[]'>
+    
+
+
+/**
+ * Reference to a field of type 'AllergySeverity'
+ */
+export type EnumAllergySeverityFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'AllergySeverity'>
+    
+
+
+/**
+ * Reference to a field of type 'AllergySeverity[]'
+ */
+export type ListEnumAllergySeverityFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'AllergySeverity[]'>
+    
+
+
+/**
+ * Reference to a field of type 'AllergyVerificationStatus'
+ */
+export type EnumAllergyVerificationStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'AllergyVerificationStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'AllergyVerificationStatus[]'
+ */
+export type ListEnumAllergyVerificationStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'AllergyVerificationStatus[]'>
+    
+
+
+/**
+ * Reference to a field of type 'ConditionCodeSystem'
+ */
+export type EnumConditionCodeSystemFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ConditionCodeSystem'>
+    
+
+
+/**
+ * Reference to a field of type 'ConditionCodeSystem[]'
+ */
+export type ListEnumConditionCodeSystemFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ConditionCodeSystem[]'>
+    
+
+
+/**
+ * Reference to a field of type 'ConditionStatus'
+ */
+export type EnumConditionStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ConditionStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'ConditionStatus[]'
+ */
+export type ListEnumConditionStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'ConditionStatus[]'>
+    
+
+
 /**
  * Reference to a field of type 'AppointmentStatus'
  */
@@ -5884,6 +7335,62 @@ export type ListEnumAppointmentTypeFieldRefInput<$PrismaModel> = FieldRefInputTy
     
 
 
+/**
+ * Reference to a field of type 'RecurrenceFrequency'
+ */
+export type EnumRecurrenceFrequencyFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'RecurrenceFrequency'>
+    
+
+
+/**
+ * Reference to a field of type 'RecurrenceFrequency[]'
+ */
+export type ListEnumRecurrenceFrequencyFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'RecurrenceFrequency[]'>
+    
+
+
+/**
+ * Reference to a field of type 'AppointmentSeriesStatus'
+ */
+export type EnumAppointmentSeriesStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'AppointmentSeriesStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'AppointmentSeriesStatus[]'
+ */
+export type ListEnumAppointmentSeriesStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'AppointmentSeriesStatus[]'>
+    
+
+
+/**
+ * Reference to a field of type 'WaitlistEntryStatus'
+ */
+export type EnumWaitlistEntryStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'WaitlistEntryStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'WaitlistEntryStatus[]'
+ */
+export type ListEnumWaitlistEntryStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'WaitlistEntryStatus[]'>
+    
+
+
+/**
+ * Reference to a field of type 'WaitlistOfferStatus'
+ */
+export type EnumWaitlistOfferStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'WaitlistOfferStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'WaitlistOfferStatus[]'
+ */
+export type ListEnumWaitlistOfferStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'WaitlistOfferStatus[]'>
+    
+
+
 /**
  * Reference to a field of type 'AccessLevel'
  */
@@ -5954,6 +7461,48 @@ export type ListEnumGrowthStatusFieldRefInput<$PrismaModel> = FieldRefInputType<
     
 
 
+/**
+ * Reference to a field of type 'MeasurementPlausibility'
+ */
+export type EnumMeasurementPlausibilityFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'MeasurementPlausibility'>
+    
+
+
+/**
+ * Reference to a field of type 'MeasurementPlausibility[]'
+ */
+export type ListEnumMeasurementPlausibilityFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'MeasurementPlausibility[]'>
+    
+
+
+/**
+ * Reference to a field of type 'GrowthAlertType'
+ */
+export type EnumGrowthAlertTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'GrowthAlertType'>
+    
+
+
+/**
+ * Reference to a field of type 'GrowthAlertType[]'
+ */
+export type ListEnumGrowthAlertTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'GrowthAlertType[]'>
+    
+
+
+/**
+ * Reference to a field of type 'GrowthAlertSeverity'
+ */
+export type EnumGrowthAlertSeverityFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'GrowthAlertSeverity'>
+    
+
+
+/**
+ * Reference to a field of type 'GrowthAlertSeverity[]'
+ */
+export type ListEnumGrowthAlertSeverityFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'GrowthAlertSeverity[]'>
+    
+
+
 /**
  * Reference to a field of type 'ImmunizationStatus'
  */
@@ -5968,6 +7517,20 @@ export type ListEnumImmunizationStatusFieldRefInput<$PrismaModel> = FieldRefInpu
     
 
 
+/**
+ * Reference to a field of type 'DoseValidity'
+ */
+export type EnumDoseValidityFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DoseValidity'>
+    
+
+
+/**
+ * Reference to a field of type 'DoseValidity[]'
+ */
+export type ListEnumDoseValidityFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DoseValidity[]'>
+    
+
+
 /**
  * Reference to a field of type 'LabStatus'
  */
@@ -5996,6 +7559,34 @@ export type ListEnumFeedingTypeFieldRefInput<$PrismaModel> = FieldRefInputType<$
     
 
 
+/**
+ * Reference to a field of type 'DevelopmentalDomain'
+ */
+export type EnumDevelopmentalDomainFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DevelopmentalDomain'>
+    
+
+
+/**
+ * Reference to a field of type 'DevelopmentalDomain[]'
+ */
+export type ListEnumDevelopmentalDomainFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'DevelopmentalDomain[]'>
+    
+
+
+/**
+ * Reference to a field of type 'MilestoneStatus'
+ */
+export type EnumMilestoneStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'MilestoneStatus'>
+    
+
+
+/**
+ * Reference to a field of type 'MilestoneStatus[]'
+ */
+export type ListEnumMilestoneStatusFieldRefInput<$PrismaModel> = FieldRefInputType<$PrismaModel, 'MilestoneStatus[]'>
+    
+
+
 /**
  * Reference to a field of type 'DevelopmentStatus'
  */
@@ -6121,6 +7712,8 @@ export type GlobalOmitConfig = {
   clinicMember?: Prisma.ClinicMemberOmit
   doctor?: Prisma.DoctorOmit
   workingDays?: Prisma.WorkingDaysOmit
+  doctorBreak?: Prisma.DoctorBreakOmit
+  scheduleException?: Prisma.ScheduleExceptionOmit
   staff?: Prisma.StaffOmit
   payment?: Prisma.PaymentOmit
   reminder?: Prisma.ReminderOmit
@@ -6128,19 +7721,28 @@ export type GlobalOmitConfig = {
   service?: Prisma.ServiceOmit
   clinicSetting?: Prisma.ClinicSettingOmit
   wHOGrowthStandard?: Prisma.WHOGrowthStandardOmit
+  growthVelocityStandard?: Prisma.GrowthVelocityStandardOmit
   rating?: Prisma.RatingOmit
   prescription?: Prisma.PrescriptionOmit
   drug?: Prisma.DrugOmit
+  drugFormulation?: Prisma.DrugFormulationOmit
+  drugInteraction?: Prisma.DrugInteractionOmit
   doseGuideline?: Prisma.DoseGuidelineOmit
   prescribedItem?: Prisma.PrescribedItemOmit
   guardian?: Prisma.GuardianOmit
   patient?: Prisma.PatientOmit
+  patientAllergy?: Prisma.PatientAllergyOmit
+  patientCondition?: Prisma.PatientConditionOmit
   appointment?: Prisma.AppointmentOmit
+  appointmentSeries?: Prisma.AppointmentSeriesOmit
+  waitlistEntry?: Prisma.WaitlistEntryOmit
+  waitlistOffer?: Prisma.WaitlistOfferOmit
   medicalRecords?: Prisma.MedicalRecordsOmit
   medicalRecordAccess?: Prisma.MedicalRecordAccessOmit
   diagnosis?: Prisma.DiagnosisOmit
   vitalSigns?: Prisma.VitalSignsOmit
   growthRecord?: Prisma.GrowthRecordOmit
+  growthAlert?: Prisma.GrowthAlertOmit
   immunization?: Prisma.ImmunizationOmit
   configStore?: Prisma.ConfigStoreOmit
   userQuota?: Prisma.UserQuotaOmit
@@ -6149,6 +7751,8 @@ export type GlobalOmitConfig = {
   developmentalMilestone?: Prisma.DevelopmentalMilestoneOmit
   developmentalCheck?: Prisma.DevelopmentalCheckOmit
   vaccineSchedule?: Prisma.VaccineScheduleOmit
+  vaccineScheduleSet?: Prisma.VaccineScheduleSetOmit
+  vaccineScheduleDose?: Prisma.VaccineScheduleDoseOmit
   expense?: Prisma.ExpenseOmit
   expenseCategory?: Prisma.ExpenseCategoryOmit
   expenseSubCategory?: Prisma.ExpenseSubCategoryOmit
@@ -68,6 +68,8 @@ export const ModelName = {
   ClinicMember: 'ClinicMember',
   Doctor: 'Doctor',
   WorkingDays: 'WorkingDays',
+  DoctorBreak: 'DoctorBreak',
+  ScheduleException: 'ScheduleException',
   Staff: 'Staff',
   Payment: 'Payment',
   Reminder: 'Reminder',
@@ -75,19 +77,28 @@ export const ModelName = {
   Service: 'Service',
   ClinicSetting: 'ClinicSetting',
   WHOGrowthStandard: 'WHOGrowthStandard',
+  GrowthVelocityStandard: 'GrowthVelocityStandard',
   Rating: 'Rating',
   Prescription: 'Prescription',
   Drug: 'Drug',
+  DrugFormulation: 'DrugFormulation',
+  DrugInteraction: 'DrugInteraction',
   DoseGuideline: 'DoseGuideline',
   PrescribedItem: 'PrescribedItem',
   Guardian: 'Guardian',
   Patient: 'Patient',
+  PatientAllergy: 'PatientAllergy',
+  PatientCondition: 'PatientCondition',
   Appointment: 'Appointment',
+  AppointmentSeries: 'AppointmentSeries',
+  WaitlistEntry: 'WaitlistEntry',
+  WaitlistOffer: 'WaitlistOffer',
   MedicalRecords: 'MedicalRecords',
   MedicalRecordAccess: 'MedicalRecordAccess',
   Diagnosis: 'Diagnosis',
   VitalSigns: 'VitalSigns',
   GrowthRecord: 'GrowthRecord',
+  GrowthAlert: 'GrowthAlert',
   Immunization: 'Immunization',
   ConfigStore: 'ConfigStore',
   UserQuota: 'UserQuota',
@@ -96,6 +107,8 @@ export const ModelName = {
   DevelopmentalMilestone: 'DevelopmentalMilestone',
   DevelopmentalCheck: 'DevelopmentalCheck',
   VaccineSchedule: 'VaccineSchedule',
+  VaccineScheduleSet: 'VaccineScheduleSet',
+  VaccineScheduleDose: 'VaccineScheduleDose',
   Expense: 'Expense',
   ExpenseCategory: 'ExpenseCategory',
   ExpenseSubCategory: 'ExpenseSubCategory',
@@ -403,6 +416,37 @@ export const WorkingDaysScalarFieldEnum = {
 export type WorkingDaysScalarFieldEnum = (typeof WorkingDaysScalarFieldEnum)[keyof typeof WorkingDaysScalarFieldEnum]
 
 
+export const DoctorBreakScalarFieldEnum = {
+  id: 'id',
+  doctorId: 'doctorId',
+  clinicId: 'clinicId',
+  day: 'day',
+  startTime: 'startTime',
+  endTime: 'endTime',
+  label: 'label',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type DoctorBreakScalarFieldEnum = (typeof DoctorBreakScalarFieldEnum)[keyof typeof DoctorBreakScalarFieldEnum]
+
+
+export const ScheduleExceptionScalarFieldEnum = {
+  id: 'id',
+  clinicId: 'clinicId',
+  doctorId: 'doctorId',
+  date: 'date',
+  type: 'type',
+  startTime: 'startTime',
+  endTime: 'endTime',
+  reason: 'reason',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type ScheduleExceptionScalarFieldEnum = (typeof ScheduleExceptionScalarFieldEnum)[keyof typeof ScheduleExceptionScalarFieldEnum]
+
+
 export const StaffScalarFieldEnum = {
   id: 'id',
   email: 'email',
@@ -461,9 +505,19 @@ export type PaymentScalarFieldEnum = (typeof PaymentScalarFieldEnum)[keyof typeo
 export const ReminderScalarFieldEnum = {
   id: 'id',
   appointmentId: 'appointmentId',
+  immunizationId: 'immunizationId',
   method: 'method',
+  leadTime: 'leadTime',
+  recipient: 'recipient',
+  scheduledFor: 'scheduledFor',
   sentAt: 'sentAt',
-  status: 'status'
+  status: 'status',
+  attempts: 'attempts',
+  lastAttemptAt: 'lastAttemptAt',
+  error: 'error',
+  jobId: 'jobId',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
 } as const
 
 export type ReminderScalarFieldEnum = (typeof ReminderScalarFieldEnum)[keyof typeof ReminderScalarFieldEnum]
@@ -513,6 +567,8 @@ export const ClinicSettingScalarFieldEnum = {
   workingDays: 'workingDays',
   defaultAppointmentDuration: 'defaultAppointmentDuration',
   requireEmergencyContact: 'requireEmergencyContact',
+  waitlistOfferHoldMinutes: 'waitlistOfferHoldMinutes',
+  vaccineScheduleSetId: 'vaccineScheduleSetId',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -524,6 +580,8 @@ export const WHOGrowthStandardScalarFieldEnum = {
   id: 'id',
   ageInMonths: 'ageInMonths',
   ageDays: 'ageDays',
+  lengthCm: 'lengthCm',
+  source: 'source',
   gender: 'gender',
   chartType: 'chartType',
   measurementType: 'measurementType',
@@ -546,6 +604,23 @@ export const WHOGrowthStandardScalarFieldEnum = {
 export type WHOGrowthStandardScalarFieldEnum = (typeof WHOGrowthStandardScalarFieldEnum)[keyof typeof WHOGrowthStandardScalarFieldEnum]
 
 
+export const GrowthVelocityStandardScalarFieldEnum = {
+  id: 'id',
+  gender: 'gender',
+  measurementType: 'measurementType',
+  intervalMonths: 'intervalMonths',
+  startMonth: 'startMonth',
+  endMonth: 'endMonth',
+  delta: 'delta',
+  lValue: 'lValue',
+  mValue: 'mValue',
+  sValue: 'sValue',
+  createdAt: 'createdAt'
+} as const
+
+export type GrowthVelocityStandardScalarFieldEnum = (typeof GrowthVelocityStandardScalarFieldEnum)[keyof typeof GrowthVelocityStandardScalarFieldEnum]
+
+
 export const RatingScalarFieldEnum = {
   id: 'id',
   clinicId: 'clinicId',
@@ -571,6 +646,11 @@ export const PrescriptionScalarFieldEnum = {
   issuedDate: 'issuedDate',
   endDate: 'endDate',
   status: 'status',
+  weightKg: 'weightKg',
+  discontinuedAt: 'discontinuedAt',
+  discontinuedReason: 'discontinuedReason',
+  discontinuedById: 'discontinuedById',
+  renewedFromId: 'renewedFromId',
   clinicId: 'clinicId',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
@@ -582,6 +662,21 @@ export type PrescriptionScalarFieldEnum = (typeof PrescriptionScalarFieldEnum)[k
 export const DrugScalarFieldEnum = {
   id: 'id',
   name: 'name',
+  drugClasses: 'drugClasses',
+  ingredients: 'ingredients',
+  genericName: 'genericName',
+  brandNames: 'brandNames',
+  manufacturer: 'manufacturer',
+  description: 'description',
+  indications: 'indications',
+  contraindications: 'contraindications',
+  sideEffects: 'sideEffects',
+  warnings: 'warnings',
+  pregnancyCategory: 'pregnancyCategory',
+  isControlled: 'isControlled',
+  controlledSchedule: 'controlledSchedule',
+  requiresPriorAuth: 'requiresPriorAuth',
+  isActive: 'isActive',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -589,6 +684,39 @@ export const DrugScalarFieldEnum = {
 export type DrugScalarFieldEnum = (typeof DrugScalarFieldEnum)[keyof typeof DrugScalarFieldEnum]
 
 
+export const DrugFormulationScalarFieldEnum = {
+  id: 'id',
+  drugId: 'drugId',
+  form: 'form',
+  route: 'route',
+  strength: 'strength',
+  strengthUnit: 'strengthUnit',
+  perVolumeMl: 'perVolumeMl',
+  divisions: 'divisions',
+  label: 'label',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type DrugFormulationScalarFieldEnum = (typeof DrugFormulationScalarFieldEnum)[keyof typeof DrugFormulationScalarFieldEnum]
+
+
+export const DrugInteractionScalarFieldEnum = {
+  id: 'id',
+  subjectA: 'subjectA',
+  subjectB: 'subjectB',
+  severity: 'severity',
+  mechanism: 'mechanism',
+  management: 'management',
+  source: 'source',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type DrugInteractionScalarFieldEnum = (typeof DrugInteractionScalarFieldEnum)[keyof typeof DrugInteractionScalarFieldEnum]
+
+
 export const DoseGuidelineScalarFieldEnum = {
   id: 'id',
   drugId: 'drugId',
@@ -624,6 +752,10 @@ export const PrescribedItemScalarFieldEnum = {
   duration: 'duration',
   instructions: 'instructions',
   drugRoute: 'drugRoute',
+  indication: 'indication',
+  formulationId: 'formulationId',
+  measuredQuantity: 'measuredQuantity',
+  measuredUnit: 'measuredUnit',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt'
 } as const
@@ -637,6 +769,7 @@ export const GuardianScalarFieldEnum = {
   userId: 'userId',
   relation: 'relation',
   isPrimary: 'isPrimary',
+  heightCm: 'heightCm',
   phone: 'phone',
   email: 'email'
 } as const
@@ -653,7 +786,12 @@ export const PatientScalarFieldEnum = {
   emergencyContactNumber: 'emergencyContactNumber',
   firstName: 'firstName',
   lastName: 'lastName',
+  medicalRecordNumber: 'medicalRecordNumber',
   dateOfBirth: 'dateOfBirth',
+  gestationalAgeWeeks: 'gestationalAgeWeeks',
+  gestationalAgeDays: 'gestationalAgeDays',
+  fatherHeightCm: 'fatherHeightCm',
+  motherHeightCm: 'motherHeightCm',
   ageMonths: 'ageMonths',
   ageDays: 'ageDays',
   gender: 'gender',
@@ -682,6 +820,54 @@ export const PatientScalarFieldEnum = {
 export type PatientScalarFieldEnum = (typeof PatientScalarFieldEnum)[keyof typeof PatientScalarFieldEnum]
 
 
+export const PatientAllergyScalarFieldEnum = {
+  id: 'id',
+  clinicId: 'clinicId',
+  patientId: 'patientId',
+  allergen: 'allergen',
+  allergenType: 'allergenType',
+  drugId: 'drugId',
+  reaction: 'reaction',
+  severity: 'severity',
+  verificationStatus: 'verificationStatus',
+  onsetDate: 'onsetDate',
+  notes: 'notes',
+  sourceText: 'sourceText',
+  needsReview: 'needsReview',
+  reviewedAt: 'reviewedAt',
+  reviewedById: 'reviewedById',
+  recordedById: 'recordedById',
+  isActive: 'isActive',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type PatientAllergyScalarFieldEnum = (typeof PatientAllergyScalarFieldEnum)[keyof typeof PatientAllergyScalarFieldEnum]
+
+
+export const PatientConditionScalarFieldEnum = {
+  id: 'id',
+  clinicId: 'clinicId',
+  patientId: 'patientId',
+  display: 'display',
+  code: 'code',
+  codeSystem: 'codeSystem',
+  status: 'status',
+  onsetDate: 'onsetDate',
+  resolvedDate: 'resolvedDate',
+  notes: 'notes',
+  sourceText: 'sourceText',
+  needsReview: 'needsReview',
+  reviewedAt: 'reviewedAt',
+  reviewedById: 'reviewedById',
+  recordedById: 'recordedById',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type PatientConditionScalarFieldEnum = (typeof PatientConditionScalarFieldEnum)[keyof typeof PatientConditionScalarFieldEnum]
+
+
 export const AppointmentScalarFieldEnum = {
   id: 'id',
   patientId: 'patientId',
@@ -700,12 +886,80 @@ export const AppointmentScalarFieldEnum = {
   isDeleted: 'isDeleted',
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
-  duration: 'duration'
+  duration: 'duration',
+  seriesId: 'seriesId',
+  occurrence: 'occurrence'
 } as const
 
 export type AppointmentScalarFieldEnum = (typeof AppointmentScalarFieldEnum)[keyof typeof AppointmentScalarFieldEnum]
 
 
+export const AppointmentSeriesScalarFieldEnum = {
+  id: 'id',
+  clinicId: 'clinicId',
+  patientId: 'patientId',
+  doctorId: 'doctorId',
+  serviceId: 'serviceId',
+  type: 'type',
+  frequency: 'frequency',
+  interval: 'interval',
+  startDate: 'startDate',
+  until: 'until',
+  count: 'count',
+  time: 'time',
+  duration: 'duration',
+  appointmentPrice: 'appointmentPrice',
+  note: 'note',
+  status: 'status',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type AppointmentSeriesScalarFieldEnum = (typeof AppointmentSeriesScalarFieldEnum)[keyof typeof AppointmentSeriesScalarFieldEnum]
+
+
+export const WaitlistEntryScalarFieldEnum = {
+  id: 'id',
+  clinicId: 'clinicId',
+  patientId: 'patientId',
+  doctorId: 'doctorId',
+  specialty: 'specialty',
+  serviceId: 'serviceId',
+  type: 'type',
+  earliestDate: 'earliestDate',
+  latestDate: 'latestDate',
+  preferredFromTime: 'preferredFromTime',
+  preferredToTime: 'preferredToTime',
+  preferredWeekdays: 'preferredWeekdays',
+  priority: 'priority',
+  status: 'status',
+  note: 'note',
+  createdById: 'createdById',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type WaitlistEntryScalarFieldEnum = (typeof WaitlistEntryScalarFieldEnum)[keyof typeof WaitlistEntryScalarFieldEnum]
+
+
+export const WaitlistOfferScalarFieldEnum = {
+  id: 'id',
+  entryId: 'entryId',
+  clinicId: 'clinicId',
+  doctorId: 'doctorId',
+  appointmentId: 'appointmentId',
+  slotStart: 'slotStart',
+  time: 'time',
+  duration: 'duration',
+  status: 'status',
+  expiresAt: 'expiresAt',
+  respondedAt: 'respondedAt',
+  createdAt: 'createdAt'
+} as const
+
+export type WaitlistOfferScalarFieldEnum = (typeof WaitlistOfferScalarFieldEnum)[keyof typeof WaitlistOfferScalarFieldEnum]
+
+
 export const MedicalRecordsScalarFieldEnum = {
   id: 'id',
   patientId: 'patientId',
@@ -828,12 +1082,34 @@ export const GrowthRecordScalarFieldEnum = {
   classification: 'classification',
   deletedAt: 'deletedAt',
   measurementType: 'measurementType',
-  recordedById: 'recordedById'
+  recordedById: 'recordedById',
+  plausibility: 'plausibility',
+  plausibilityFlags: 'plausibilityFlags',
+  confirmedAt: 'confirmedAt',
+  confirmedById: 'confirmedById',
+  referenceVersion: 'referenceVersion'
 } as const
 
 export type GrowthRecordScalarFieldEnum = (typeof GrowthRecordScalarFieldEnum)[keyof typeof GrowthRecordScalarFieldEnum]
 
 
+export const GrowthAlertScalarFieldEnum = {
+  id: 'id',
+  clinicId: 'clinicId',
+  patientId: 'patientId',
+  growthRecordId: 'growthRecordId',
+  type: 'type',
+  severity: 'severity',
+  message: 'message',
+  details: 'details',
+  acknowledgedAt: 'acknowledgedAt',
+  acknowledgedById: 'acknowledgedById',
+  createdAt: 'createdAt'
+} as const
+
+export type GrowthAlertScalarFieldEnum = (typeof GrowthAlertScalarFieldEnum)[keyof typeof GrowthAlertScalarFieldEnum]
+
+
 export const ImmunizationScalarFieldEnum = {
   id: 'id',
   patientId: 'patientId',
@@ -849,7 +1125,10 @@ export const ImmunizationScalarFieldEnum = {
   status: 'status',
   updatedAt: 'updatedAt',
   isOverDue: 'isOverDue',
-  daysOverDue: 'daysOverDue'
+  daysOverDue: 'daysOverDue',
+  doseNumber: 'doseNumber',
+  validity: 'validity',
+  validityReasons: 'validityReasons'
 } as const
 
 export type ImmunizationScalarFieldEnum = (typeof ImmunizationScalarFieldEnum)[keyof typeof ImmunizationScalarFieldEnum]
@@ -909,7 +1188,11 @@ export type FeedingLogScalarFieldEnum = (typeof FeedingLogScalarFieldEnum)[keyof
 export const DevelopmentalMilestoneScalarFieldEnum = {
   id: 'id',
   patientId: 'patientId',
+  checkId: 'checkId',
   milestone: 'milestone',
+  milestoneCode: 'milestoneCode',
+  domain: 'domain',
+  status: 'status',
   ageAchieved: 'ageAchieved',
   dateRecorded: 'dateRecorded',
   notes: 'notes',
@@ -931,6 +1214,12 @@ export const DevelopmentalCheckScalarFieldEnum = {
   languageSkills: 'languageSkills',
   socialSkills: 'socialSkills',
   cognitiveSkills: 'cognitiveSkills',
+  grossMotorSkills: 'grossMotorSkills',
+  fineMotorSkills: 'fineMotorSkills',
+  assessedAgeMonths: 'assessedAgeMonths',
+  instrument: 'instrument',
+  overdueMilestones: 'overdueMilestones',
+  performedById: 'performedById',
   milestonesMet: 'milestonesMet',
   milestonesPending: 'milestonesPending',
   concerns: 'concerns',
@@ -953,12 +1242,44 @@ export const VaccineScheduleScalarFieldEnum = {
   createdAt: 'createdAt',
   updatedAt: 'updatedAt',
   ageInDaysMin: 'ageInDaysMin',
-  ageInDaysMax: 'ageInDaysMax'
+  ageInDaysMax: 'ageInDaysMax',
+  scheduleSetId: 'scheduleSetId'
 } as const
 
 export type VaccineScheduleScalarFieldEnum = (typeof VaccineScheduleScalarFieldEnum)[keyof typeof VaccineScheduleScalarFieldEnum]
 
 
+export const VaccineScheduleSetScalarFieldEnum = {
+  id: 'id',
+  code: 'code',
+  name: 'name',
+  country: 'country',
+  version: 'version',
+  description: 'description',
+  isDefault: 'isDefault',
+  effectiveFrom: 'effectiveFrom',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type VaccineScheduleSetScalarFieldEnum = (typeof VaccineScheduleSetScalarFieldEnum)[keyof typeof VaccineScheduleSetScalarFieldEnum]
+
+
+export const VaccineScheduleDoseScalarFieldEnum = {
+  id: 'id',
+  scheduleId: 'scheduleId',
+  doseNumber: 'doseNumber',
+  minimumAgeDays: 'minimumAgeDays',
+  recommendedAgeDays: 'recommendedAgeDays',
+  maximumAgeDays: 'maximumAgeDays',
+  minimumIntervalDays: 'minimumIntervalDays',
+  createdAt: 'createdAt',
+  updatedAt: 'updatedAt'
+} as const
+
+export type VaccineScheduleDoseScalarFieldEnum = (typeof VaccineScheduleDoseScalarFieldEnum)[keyof typeof VaccineScheduleDoseScalarFieldEnum]
+
+
 export const ExpenseScalarFieldEnum = {
   id: 'id',
   clinicId: 'clinicId',
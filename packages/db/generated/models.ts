@@ -25,6 +25,8 @@ export type * from './models/Clinic'
 export type * from './models/ClinicMember'
 export type * from './models/Doctor'
 export type * from './models/WorkingDays'
+export type * from './models/DoctorBreak'
+export type * from './models/ScheduleException'
 export type * from './models/Staff'
 export type * from './models/Payment'
 export type * from './models/Reminder'
@@ -32,19 +34,28 @@ export type * from './models/PatientBill'
 export type * from './models/Service'
 export type * from './models/ClinicSetting'
 export type * from './models/WHOGrowthStandard'
+export type * from './models/GrowthVelocityStandard'
 export type * from './models/Rating'
 export type * from './models/Prescription'
 export type * from './models/Drug'
+export type * from './models/DrugFormulation'
+export type * from './models/DrugInteraction'
 export type * from './models/DoseGuideline'
 export type * from './models/PrescribedItem'
 export type * from './models/Guardian'
 export type * from './models/Patient'
+export type * from './models/PatientAllergy'
+export type * from './models/PatientCondition'
 export type * from './models/Appointment'
+export type * from './models/AppointmentSeries'
+export type * from './models/WaitlistEntry'
+export type * from './models/WaitlistOffer'
 export type * from './models/MedicalRecords'
 export type * from './models/MedicalRecordAccess'
 export type * from './models/Diagnosis'
 export type * from './models/VitalSigns'
 export type * from './models/GrowthRecord'
+export type * from './models/GrowthAlert'
 export type * from './models/Immunization'
 export type * from './models/ConfigStore'
 export type * from './models/UserQuota'
@@ -53,6 +64,8 @@ export type * from './models/FeedingLog'
 export type * from './models/DevelopmentalMilestone'
 export type * from './models/DevelopmentalCheck'
 export type * from './models/VaccineSchedule'
+export type * from './models/VaccineScheduleSet'
+export type * from './models/VaccineScheduleDose'
 export type * from './models/Expense'
 export type * from './models/ExpenseCategory'
 export type * from './models/ExpenseSubCategory'
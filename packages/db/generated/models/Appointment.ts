@@ -29,11 +29,13 @@ export type AggregateAppointment = {
 export type AppointmentAvgAggregateOutputType = {
   appointmentPrice: runtime.Decimal | null
   duration: number | null
+  occurrence: number | null
 }
 
 export type AppointmentSumAggregateOutputType = {
   appointmentPrice: runtime.Decimal | null
   duration: number | null
+  occurrence: number | null
 }
 
 export type AppointmentMinAggregateOutputType = {
@@ -55,6 +57,8 @@ export type AppointmentMinAggregateOutputType = {
   createdAt: Date | null
   updatedAt: Date | null
   duration: number | null
+  seriesId: string | null
+  occurrence: number | null
 }
 
 export type AppointmentMaxAggregateOutputType = {
@@ -76,6 +80,8 @@ export type AppointmentMaxAggregateOutputType = {
   createdAt: Date | null
   updatedAt: Date | null
   duration: number | null
+  seriesId: string | null
+  occurrence: number | null
 }
 
 export type AppointmentCountAggregateOutputType = {
@@ -97,6 +103,8 @@ export type AppointmentCountAggregateOutputType = {
   createdAt: number
   updatedAt: number
   duration: number
+  seriesId: number
+  occurrence: number
   _all: number
 }
 
@@ -104,11 +112,13 @@ export type AppointmentCountAggregateOutputType = {
 export type AppointmentAvgAggregateInputType = {
   appointmentPrice?: true
   duration?: true
+  occurrence?: true
 }
 
 export type AppointmentSumAggregateInputType = {
   appointmentPrice?: true
   duration?: true
+  occurrence?: true
 }
 
 export type AppointmentMinAggregateInputType = {
@@ -130,6 +140,8 @@ export type AppointmentMinAggregateInputType = {
   createdAt?: true
   updatedAt?: true
   duration?: true
+  seriesId?: true
+  occurrence?: true
 }
 
 export type AppointmentMaxAggregateInputType = {
@@ -151,6 +163,8 @@ export type AppointmentMaxAggregateInputType = {
   createdAt?: true
   updatedAt?: true
   duration?: true
+  seriesId?: true
+  occurrence?: true
 }
 
 export type AppointmentCountAggregateInputType = {
@@ -172,6 +186,8 @@ export type AppointmentCountAggregateInputType = {
   createdAt?: true
   updatedAt?: true
   duration?: true
+  seriesId?: true
+  occurrence?: true
   _all?: true
 }
 
@@ -280,6 +296,8 @@ export type AppointmentGroupByOutputType = {
   createdAt: Date
   updatedAt: Date
   duration: number | null
+  seriesId: string | null
+  occurrence: number | null
   _count: AppointmentCountAggregateOutputType | null
   _avg: AppointmentAvgAggregateOutputType | null
   _sum: AppointmentSumAggregateOutputType | null
@@ -324,6 +342,9 @@ export type AppointmentWhereInput = {
   createdAt?: Prisma.DateTimeFilter<"Appointment"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Appointment"> | Date | string
   duration?: Prisma.IntNullableFilter<"Appointment"> | number | null
+  seriesId?: Prisma.StringNullableFilter<"Appointment"> | string | null
+  occurrence?: Prisma.IntNullableFilter<"Appointment"> | number | null
+  series?: Prisma.XOR<Prisma.AppointmentSeriesNullableScalarRelationFilter, Prisma.AppointmentSeriesWhereInput> | null
   patient?: Prisma.XOR<Prisma.PatientScalarRelationFilter, Prisma.PatientWhereInput>
   doctor?: Prisma.XOR<Prisma.DoctorScalarRelationFilter, Prisma.DoctorWhereInput>
   clinic?: Prisma.XOR<Prisma.ClinicScalarRelationFilter, Prisma.ClinicWhereInput>
@@ -332,6 +353,7 @@ export type AppointmentWhereInput = {
   medical?: Prisma.MedicalRecordsListRelationFilter
   reminders?: Prisma.ReminderListRelationFilter
   encounters?: Prisma.DiagnosisListRelationFilter
+  waitlistOffer?: Prisma.XOR<Prisma.WaitlistOfferNullableScalarRelationFilter, Prisma.WaitlistOfferWhereInput> | null
 }
 
 export type AppointmentOrderByWithRelationInput = {
@@ -353,6 +375,9 @@ export type AppointmentOrderByWithRelationInput = {
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   duration?: Prisma.SortOrderInput | Prisma.SortOrder
+  seriesId?: Prisma.SortOrderInput | Prisma.SortOrder
+  occurrence?: Prisma.SortOrderInput | Prisma.SortOrder
+  series?: Prisma.AppointmentSeriesOrderByWithRelationInput
   patient?: Prisma.PatientOrderByWithRelationInput
   doctor?: Prisma.DoctorOrderByWithRelationInput
   clinic?: Prisma.ClinicOrderByWithRelationInput
@@ -361,6 +386,7 @@ export type AppointmentOrderByWithRelationInput = {
   medical?: Prisma.MedicalRecordsOrderByRelationAggregateInput
   reminders?: Prisma.ReminderOrderByRelationAggregateInput
   encounters?: Prisma.DiagnosisOrderByRelationAggregateInput
+  waitlistOffer?: Prisma.WaitlistOfferOrderByWithRelationInput
 }
 
 export type AppointmentWhereUniqueInput = Prisma.AtLeast<{
@@ -385,6 +411,9 @@ export type AppointmentWhereUniqueInput = Prisma.AtLeast<{
   createdAt?: Prisma.DateTimeFilter<"Appointment"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Appointment"> | Date | string
   duration?: Prisma.IntNullableFilter<"Appointment"> | number | null
+  seriesId?: Prisma.StringNullableFilter<"Appointment"> | string | null
+  occurrence?: Prisma.IntNullableFilter<"Appointment"> | number | null
+  series?: Prisma.XOR<Prisma.AppointmentSeriesNullableScalarRelationFilter, Prisma.AppointmentSeriesWhereInput> | null
   patient?: Prisma.XOR<Prisma.PatientScalarRelationFilter, Prisma.PatientWhereInput>
   doctor?: Prisma.XOR<Prisma.DoctorScalarRelationFilter, Prisma.DoctorWhereInput>
   clinic?: Prisma.XOR<Prisma.ClinicScalarRelationFilter, Prisma.ClinicWhereInput>
@@ -393,6 +422,7 @@ export type AppointmentWhereUniqueInput = Prisma.AtLeast<{
   medical?: Prisma.MedicalRecordsListRelationFilter
   reminders?: Prisma.ReminderListRelationFilter
   encounters?: Prisma.DiagnosisListRelationFilter
+  waitlistOffer?: Prisma.XOR<Prisma.WaitlistOfferNullableScalarRelationFilter, Prisma.WaitlistOfferWhereInput> | null
 }, "id">
 
 export type AppointmentOrderByWithAggregationInput = {
@@ -414,6 +444,8 @@ export type AppointmentOrderByWithAggregationInput = {
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   duration?: Prisma.SortOrderInput | Prisma.SortOrder
+  seriesId?: Prisma.SortOrderInput | Prisma.SortOrder
+  occurrence?: Prisma.SortOrderInput | Prisma.SortOrder
   _count?: Prisma.AppointmentCountOrderByAggregateInput
   _avg?: Prisma.AppointmentAvgOrderByAggregateInput
   _max?: Prisma.AppointmentMaxOrderByAggregateInput
@@ -443,6 +475,8 @@ export type AppointmentScalarWhereWithAggregatesInput = {
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Appointment"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Appointment"> | Date | string
   duration?: Prisma.IntNullableWithAggregatesFilter<"Appointment"> | number | null
+  seriesId?: Prisma.StringNullableWithAggregatesFilter<"Appointment"> | string | null
+  occurrence?: Prisma.IntNullableWithAggregatesFilter<"Appointment"> | number | null
 }
 
 export type AppointmentCreateInput = {
@@ -460,6 +494,8 @@ export type AppointmentCreateInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   duration?: number | null
+  occurrence?: number | null
+  series?: Prisma.AppointmentSeriesCreateNestedOneWithoutAppointmentsInput
   patient: Prisma.PatientCreateNestedOneWithoutAppointmentsInput
   doctor: Prisma.DoctorCreateNestedOneWithoutAppointmentsInput
   clinic: Prisma.ClinicCreateNestedOneWithoutAppointmentsInput
@@ -468,6 +504,7 @@ export type AppointmentCreateInput = {
   medical?: Prisma.MedicalRecordsCreateNestedManyWithoutAppointmentInput
   reminders?: Prisma.ReminderCreateNestedManyWithoutAppointmentInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutAppointmentInput
+  waitlistOffer?: Prisma.WaitlistOfferCreateNestedOneWithoutAppointmentInput
 }
 
 export type AppointmentUncheckedCreateInput = {
@@ -489,10 +526,13 @@ export type AppointmentUncheckedCreateInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   duration?: number | null
+  seriesId?: string | null
+  occurrence?: number | null
   bills?: Prisma.PaymentUncheckedCreateNestedManyWithoutAppointmentInput
   medical?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutAppointmentInput
   reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutAppointmentInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutAppointmentInput
+  waitlistOffer?: Prisma.WaitlistOfferUncheckedCreateNestedOneWithoutAppointmentInput
 }
 
 export type AppointmentUpdateInput = {
@@ -510,6 +550,8 @@ export type AppointmentUpdateInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  series?: Prisma.AppointmentSeriesUpdateOneWithoutAppointmentsNestedInput
   patient?: Prisma.PatientUpdateOneRequiredWithoutAppointmentsNestedInput
   doctor?: Prisma.DoctorUpdateOneRequiredWithoutAppointmentsNestedInput
   clinic?: Prisma.ClinicUpdateOneRequiredWithoutAppointmentsNestedInput
@@ -518,6 +560,7 @@ export type AppointmentUpdateInput = {
   medical?: Prisma.MedicalRecordsUpdateManyWithoutAppointmentNestedInput
   reminders?: Prisma.ReminderUpdateManyWithoutAppointmentNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutAppointmentNestedInput
+  waitlistOffer?: Prisma.WaitlistOfferUpdateOneWithoutAppointmentNestedInput
 }
 
 export type AppointmentUncheckedUpdateInput = {
@@ -539,10 +582,13 @@ export type AppointmentUncheckedUpdateInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  seriesId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   bills?: Prisma.PaymentUncheckedUpdateManyWithoutAppointmentNestedInput
   medical?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutAppointmentNestedInput
   reminders?: Prisma.ReminderUncheckedUpdateManyWithoutAppointmentNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutAppointmentNestedInput
+  waitlistOffer?: Prisma.WaitlistOfferUncheckedUpdateOneWithoutAppointmentNestedInput
 }
 
 export type AppointmentCreateManyInput = {
@@ -564,6 +610,8 @@ export type AppointmentCreateManyInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   duration?: number | null
+  seriesId?: string | null
+  occurrence?: number | null
 }
 
 export type AppointmentUpdateManyMutationInput = {
@@ -581,6 +629,7 @@ export type AppointmentUpdateManyMutationInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
 }
 
 export type AppointmentUncheckedUpdateManyInput = {
@@ -602,6 +651,8 @@ export type AppointmentUncheckedUpdateManyInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  seriesId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
 }
 
 export type AppointmentListRelationFilter = {
@@ -619,11 +670,6 @@ export type AppointmentNullableScalarRelationFilter = {
   isNot?: Prisma.AppointmentWhereInput | null
 }
 
-export type AppointmentScalarRelationFilter = {
-  is?: Prisma.AppointmentWhereInput
-  isNot?: Prisma.AppointmentWhereInput
-}
-
 export type AppointmentCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   patientId?: Prisma.SortOrder
@@ -643,11 +689,14 @@ export type AppointmentCountOrderByAggregateInput = {
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   duration?: Prisma.SortOrder
+  seriesId?: Prisma.SortOrder
+  occurrence?: Prisma.SortOrder
 }
 
 export type AppointmentAvgOrderByAggregateInput = {
   appointmentPrice?: Prisma.SortOrder
   duration?: Prisma.SortOrder
+  occurrence?: Prisma.SortOrder
 }
 
 export type AppointmentMaxOrderByAggregateInput = {
@@ -669,6 +718,8 @@ export type AppointmentMaxOrderByAggregateInput = {
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   duration?: Prisma.SortOrder
+  seriesId?: Prisma.SortOrder
+  occurrence?: Prisma.SortOrder
 }
 
 export type AppointmentMinOrderByAggregateInput = {
@@ -690,11 +741,19 @@ export type AppointmentMinOrderByAggregateInput = {
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   duration?: Prisma.SortOrder
+  seriesId?: Prisma.SortOrder
+  occurrence?: Prisma.SortOrder
 }
 
 export type AppointmentSumOrderByAggregateInput = {
   appointmentPrice?: Prisma.SortOrder
   duration?: Prisma.SortOrder
+  occurrence?: Prisma.SortOrder
+}
+
+export type AppointmentScalarRelationFilter = {
+  is?: Prisma.AppointmentWhereInput
+  isNot?: Prisma.AppointmentWhereInput
 }
 
 export type AppointmentCreateNestedManyWithoutClinicInput = {
@@ -803,10 +862,12 @@ export type AppointmentCreateNestedOneWithoutRemindersInput = {
   connect?: Prisma.AppointmentWhereUniqueInput
 }
 
-export type AppointmentUpdateOneRequiredWithoutRemindersNestedInput = {
+export type AppointmentUpdateOneWithoutRemindersNestedInput = {
   create?: Prisma.XOR<Prisma.AppointmentCreateWithoutRemindersInput, Prisma.AppointmentUncheckedCreateWithoutRemindersInput>
   connectOrCreate?: Prisma.AppointmentCreateOrConnectWithoutRemindersInput
   upsert?: Prisma.AppointmentUpsertWithoutRemindersInput
+  disconnect?: Prisma.AppointmentWhereInput | boolean
+  delete?: Prisma.AppointmentWhereInput | boolean
   connect?: Prisma.AppointmentWhereUniqueInput
   update?: Prisma.XOR<Prisma.XOR<Prisma.AppointmentUpdateToOneWithWhereWithoutRemindersInput, Prisma.AppointmentUpdateWithoutRemindersInput>, Prisma.AppointmentUncheckedUpdateWithoutRemindersInput>
 }
@@ -903,6 +964,64 @@ export type EnumAppointmentTypeFieldUpdateOperationsInput = {
   set?: $Enums.AppointmentType
 }
 
+export type AppointmentCreateNestedManyWithoutSeriesInput = {
+  create?: Prisma.XOR<Prisma.AppointmentCreateWithoutSeriesInput, Prisma.AppointmentUncheckedCreateWithoutSeriesInput> | Prisma.AppointmentCreateWithoutSeriesInput[] | Prisma.AppointmentUncheckedCreateWithoutSeriesInput[]
+  connectOrCreate?: Prisma.AppointmentCreateOrConnectWithoutSeriesInput | Prisma.AppointmentCreateOrConnectWithoutSeriesInput[]
+  createMany?: Prisma.AppointmentCreateManySeriesInputEnvelope
+  connect?: Prisma.AppointmentWhereUniqueInput | Prisma.AppointmentWhereUniqueInput[]
+}
+
+export type AppointmentUncheckedCreateNestedManyWithoutSeriesInput = {
+  create?: Prisma.XOR<Prisma.AppointmentCreateWithoutSeriesInput, Prisma.AppointmentUncheckedCreateWithoutSeriesInput> | Prisma.AppointmentCreateWithoutSeriesInput[] | Prisma.AppointmentUncheckedCreateWithoutSeriesInput[]
+  connectOrCreate?: Prisma.AppointmentCreateOrConnectWithoutSeriesInput | Prisma.AppointmentCreateOrConnectWithoutSeriesInput[]
+  createMany?: Prisma.AppointmentCreateManySeriesInputEnvelope
+  connect?: Prisma.AppointmentWhereUniqueInput | Prisma.AppointmentWhereUniqueInput[]
+}
+
+export type AppointmentUpdateManyWithoutSeriesNestedInput = {
+  create?: Prisma.XOR<Prisma.AppointmentCreateWithoutSeriesInput, Prisma.AppointmentUncheckedCreateWithoutSeriesInput> | Prisma.AppointmentCreateWithoutSeriesInput[] | Prisma.AppointmentUncheckedCreateWithoutSeriesInput[]
+  connectOrCreate?: Prisma.AppointmentCreateOrConnectWithoutSeriesInput | Prisma.AppointmentCreateOrConnectWithoutSeriesInput[]
+  upsert?: Prisma.AppointmentUpsertWithWhereUniqueWithoutSeriesInput | Prisma.AppointmentUpsertWithWhereUniqueWithoutSeriesInput[]
+  createMany?: Prisma.AppointmentCreateManySeriesInputEnvelope
+  set?: Prisma.AppointmentWhereUniqueInput | Prisma.AppointmentWhereUniqueInput[]
+  disconnect?: Prisma.AppointmentWhereUniqueInput | Prisma.AppointmentWhereUniqueInput[]
+  delete?: Prisma.AppointmentWhereUniqueInput | Prisma.AppointmentWhereUniqueInput[]
+  connect?: Prisma.AppointmentWhereUniqueInput | Prisma.AppointmentWhereUniqueInput[]
+  update?: Prisma.AppointmentUpdateWithWhereUniqueWithoutSeriesInput | Prisma.AppointmentUpdateWithWhereUniqueWithoutSeriesInput[]
+  updateMany?: Prisma.AppointmentUpdateManyWithWhereWithoutSeriesInput | Prisma.AppointmentUpdateManyWithWhereWithoutSeriesInput[]
+  deleteMany?: Prisma.AppointmentScalarWhereInput | Prisma.AppointmentScalarWhereInput[]
+}
+
+export type AppointmentUncheckedUpdateManyWithoutSeriesNestedInput = {
+  create?: Prisma.XOR<Prisma.AppointmentCreateWithoutSeriesInput, Prisma.AppointmentUncheckedCreateWithoutSeriesInput> | Prisma.AppointmentCreateWithoutSeriesInput[] | Prisma.AppointmentUncheckedCreateWithoutSeriesInput[]
+  connectOrCreate?: Prisma.AppointmentCreateOrConnectWithoutSeriesInput | Prisma.AppointmentCreateOrConnectWithoutSeriesInput[]
+  upsert?: Prisma.AppointmentUpsertWithWhereUniqueWithoutSeriesInput | Prisma.AppointmentUpsertWithWhereUniqueWithoutSeriesInput[]
+  createMany?: Prisma.AppointmentCreateManySeriesInputEnvelope
+  set?: Prisma.AppointmentWhereUniqueInput | Prisma.AppointmentWhereUniqueInput[]
+  disconnect?: Prisma.AppointmentWhereUniqueInput | Prisma.AppointmentWhereUniqueInput[]
+  delete?: Prisma.AppointmentWhereUniqueInput | Prisma.AppointmentWhereUniqueInput[]
+  connect?: Prisma.AppointmentWhereUniqueInput | Prisma.AppointmentWhereUniqueInput[]
+  update?: Prisma.AppointmentUpdateWithWhereUniqueWithoutSeriesInput | Prisma.AppointmentUpdateWithWhereUniqueWithoutSeriesInput[]
+  updateMany?: Prisma.AppointmentUpdateManyWithWhereWithoutSeriesInput | Prisma.AppointmentUpdateManyWithWhereWithoutSeriesInput[]
+  deleteMany?: Prisma.AppointmentScalarWhereInput | Prisma.AppointmentScalarWhereInput[]
+}
+
+export type AppointmentCreateNestedOneWithoutWaitlistOfferInput = {
+  create?: Prisma.XOR<Prisma.AppointmentCreateWithoutWaitlistOfferInput, Prisma.AppointmentUncheckedCreateWithoutWaitlistOfferInput>
+  connectOrCreate?: Prisma.AppointmentCreateOrConnectWithoutWaitlistOfferInput
+  connect?: Prisma.AppointmentWhereUniqueInput
+}
+
+export type AppointmentUpdateOneWithoutWaitlistOfferNestedInput = {
+  create?: Prisma.XOR<Prisma.AppointmentCreateWithoutWaitlistOfferInput, Prisma.AppointmentUncheckedCreateWithoutWaitlistOfferInput>
+  connectOrCreate?: Prisma.AppointmentCreateOrConnectWithoutWaitlistOfferInput
+  upsert?: Prisma.AppointmentUpsertWithoutWaitlistOfferInput
+  disconnect?: Prisma.AppointmentWhereInput | boolean
+  delete?: Prisma.AppointmentWhereInput | boolean
+  connect?: Prisma.AppointmentWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.AppointmentUpdateToOneWithWhereWithoutWaitlistOfferInput, Prisma.AppointmentUpdateWithoutWaitlistOfferInput>, Prisma.AppointmentUncheckedUpdateWithoutWaitlistOfferInput>
+}
+
 export type AppointmentCreateNestedOneWithoutMedicalInput = {
   create?: Prisma.XOR<Prisma.AppointmentCreateWithoutMedicalInput, Prisma.AppointmentUncheckedCreateWithoutMedicalInput>
   connectOrCreate?: Prisma.AppointmentCreateOrConnectWithoutMedicalInput
@@ -948,6 +1067,8 @@ export type AppointmentCreateWithoutClinicInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   duration?: number | null
+  occurrence?: number | null
+  series?: Prisma.AppointmentSeriesCreateNestedOneWithoutAppointmentsInput
   patient: Prisma.PatientCreateNestedOneWithoutAppointmentsInput
   doctor: Prisma.DoctorCreateNestedOneWithoutAppointmentsInput
   service?: Prisma.ServiceCreateNestedOneWithoutAppointmentsInput
@@ -955,6 +1076,7 @@ export type AppointmentCreateWithoutClinicInput = {
   medical?: Prisma.MedicalRecordsCreateNestedManyWithoutAppointmentInput
   reminders?: Prisma.ReminderCreateNestedManyWithoutAppointmentInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutAppointmentInput
+  waitlistOffer?: Prisma.WaitlistOfferCreateNestedOneWithoutAppointmentInput
 }
 
 export type AppointmentUncheckedCreateWithoutClinicInput = {
@@ -975,10 +1097,13 @@ export type AppointmentUncheckedCreateWithoutClinicInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   duration?: number | null
+  seriesId?: string | null
+  occurrence?: number | null
   bills?: Prisma.PaymentUncheckedCreateNestedManyWithoutAppointmentInput
   medical?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutAppointmentInput
   reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutAppointmentInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutAppointmentInput
+  waitlistOffer?: Prisma.WaitlistOfferUncheckedCreateNestedOneWithoutAppointmentInput
 }
 
 export type AppointmentCreateOrConnectWithoutClinicInput = {
@@ -1029,6 +1154,8 @@ export type AppointmentScalarWhereInput = {
   createdAt?: Prisma.DateTimeFilter<"Appointment"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Appointment"> | Date | string
   duration?: Prisma.IntNullableFilter<"Appointment"> | number | null
+  seriesId?: Prisma.StringNullableFilter<"Appointment"> | string | null
+  occurrence?: Prisma.IntNullableFilter<"Appointment"> | number | null
 }
 
 export type AppointmentCreateWithoutDoctorInput = {
@@ -1046,6 +1173,8 @@ export type AppointmentCreateWithoutDoctorInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   duration?: number | null
+  occurrence?: number | null
+  series?: Prisma.AppointmentSeriesCreateNestedOneWithoutAppointmentsInput
   patient: Prisma.PatientCreateNestedOneWithoutAppointmentsInput
   clinic: Prisma.ClinicCreateNestedOneWithoutAppointmentsInput
   service?: Prisma.ServiceCreateNestedOneWithoutAppointmentsInput
@@ -1053,6 +1182,7 @@ export type AppointmentCreateWithoutDoctorInput = {
   medical?: Prisma.MedicalRecordsCreateNestedManyWithoutAppointmentInput
   reminders?: Prisma.ReminderCreateNestedManyWithoutAppointmentInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutAppointmentInput
+  waitlistOffer?: Prisma.WaitlistOfferCreateNestedOneWithoutAppointmentInput
 }
 
 export type AppointmentUncheckedCreateWithoutDoctorInput = {
@@ -1073,10 +1203,13 @@ export type AppointmentUncheckedCreateWithoutDoctorInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   duration?: number | null
+  seriesId?: string | null
+  occurrence?: number | null
   bills?: Prisma.PaymentUncheckedCreateNestedManyWithoutAppointmentInput
   medical?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutAppointmentInput
   reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutAppointmentInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutAppointmentInput
+  waitlistOffer?: Prisma.WaitlistOfferUncheckedCreateNestedOneWithoutAppointmentInput
 }
 
 export type AppointmentCreateOrConnectWithoutDoctorInput = {
@@ -1120,6 +1253,8 @@ export type AppointmentCreateWithoutBillsInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   duration?: number | null
+  occurrence?: number | null
+  series?: Prisma.AppointmentSeriesCreateNestedOneWithoutAppointmentsInput
   patient: Prisma.PatientCreateNestedOneWithoutAppointmentsInput
   doctor: Prisma.DoctorCreateNestedOneWithoutAppointmentsInput
   clinic: Prisma.ClinicCreateNestedOneWithoutAppointmentsInput
@@ -1127,6 +1262,7 @@ export type AppointmentCreateWithoutBillsInput = {
   medical?: Prisma.MedicalRecordsCreateNestedManyWithoutAppointmentInput
   reminders?: Prisma.ReminderCreateNestedManyWithoutAppointmentInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutAppointmentInput
+  waitlistOffer?: Prisma.WaitlistOfferCreateNestedOneWithoutAppointmentInput
 }
 
 export type AppointmentUncheckedCreateWithoutBillsInput = {
@@ -1148,9 +1284,12 @@ export type AppointmentUncheckedCreateWithoutBillsInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   duration?: number | null
+  seriesId?: string | null
+  occurrence?: number | null
   medical?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutAppointmentInput
   reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutAppointmentInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutAppointmentInput
+  waitlistOffer?: Prisma.WaitlistOfferUncheckedCreateNestedOneWithoutAppointmentInput
 }
 
 export type AppointmentCreateOrConnectWithoutBillsInput = {
@@ -1184,6 +1323,8 @@ export type AppointmentUpdateWithoutBillsInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  series?: Prisma.AppointmentSeriesUpdateOneWithoutAppointmentsNestedInput
   patient?: Prisma.PatientUpdateOneRequiredWithoutAppointmentsNestedInput
   doctor?: Prisma.DoctorUpdateOneRequiredWithoutAppointmentsNestedInput
   clinic?: Prisma.ClinicUpdateOneRequiredWithoutAppointmentsNestedInput
@@ -1191,6 +1332,7 @@ export type AppointmentUpdateWithoutBillsInput = {
   medical?: Prisma.MedicalRecordsUpdateManyWithoutAppointmentNestedInput
   reminders?: Prisma.ReminderUpdateManyWithoutAppointmentNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutAppointmentNestedInput
+  waitlistOffer?: Prisma.WaitlistOfferUpdateOneWithoutAppointmentNestedInput
 }
 
 export type AppointmentUncheckedUpdateWithoutBillsInput = {
@@ -1212,9 +1354,12 @@ export type AppointmentUncheckedUpdateWithoutBillsInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  seriesId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   medical?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutAppointmentNestedInput
   reminders?: Prisma.ReminderUncheckedUpdateManyWithoutAppointmentNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutAppointmentNestedInput
+  waitlistOffer?: Prisma.WaitlistOfferUncheckedUpdateOneWithoutAppointmentNestedInput
 }
 
 export type AppointmentCreateWithoutRemindersInput = {
@@ -1232,6 +1377,8 @@ export type AppointmentCreateWithoutRemindersInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   duration?: number | null
+  occurrence?: number | null
+  series?: Prisma.AppointmentSeriesCreateNestedOneWithoutAppointmentsInput
   patient: Prisma.PatientCreateNestedOneWithoutAppointmentsInput
   doctor: Prisma.DoctorCreateNestedOneWithoutAppointmentsInput
   clinic: Prisma.ClinicCreateNestedOneWithoutAppointmentsInput
@@ -1239,6 +1386,7 @@ export type AppointmentCreateWithoutRemindersInput = {
   bills?: Prisma.PaymentCreateNestedManyWithoutAppointmentInput
   medical?: Prisma.MedicalRecordsCreateNestedManyWithoutAppointmentInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutAppointmentInput
+  waitlistOffer?: Prisma.WaitlistOfferCreateNestedOneWithoutAppointmentInput
 }
 
 export type AppointmentUncheckedCreateWithoutRemindersInput = {
@@ -1260,9 +1408,12 @@ export type AppointmentUncheckedCreateWithoutRemindersInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   duration?: number | null
+  seriesId?: string | null
+  occurrence?: number | null
   bills?: Prisma.PaymentUncheckedCreateNestedManyWithoutAppointmentInput
   medical?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutAppointmentInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutAppointmentInput
+  waitlistOffer?: Prisma.WaitlistOfferUncheckedCreateNestedOneWithoutAppointmentInput
 }
 
 export type AppointmentCreateOrConnectWithoutRemindersInput = {
@@ -1296,6 +1447,8 @@ export type AppointmentUpdateWithoutRemindersInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  series?: Prisma.AppointmentSeriesUpdateOneWithoutAppointmentsNestedInput
   patient?: Prisma.PatientUpdateOneRequiredWithoutAppointmentsNestedInput
   doctor?: Prisma.DoctorUpdateOneRequiredWithoutAppointmentsNestedInput
   clinic?: Prisma.ClinicUpdateOneRequiredWithoutAppointmentsNestedInput
@@ -1303,6 +1456,7 @@ export type AppointmentUpdateWithoutRemindersInput = {
   bills?: Prisma.PaymentUpdateManyWithoutAppointmentNestedInput
   medical?: Prisma.MedicalRecordsUpdateManyWithoutAppointmentNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutAppointmentNestedInput
+  waitlistOffer?: Prisma.WaitlistOfferUpdateOneWithoutAppointmentNestedInput
 }
 
 export type AppointmentUncheckedUpdateWithoutRemindersInput = {
@@ -1324,9 +1478,12 @@ export type AppointmentUncheckedUpdateWithoutRemindersInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  seriesId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   bills?: Prisma.PaymentUncheckedUpdateManyWithoutAppointmentNestedInput
   medical?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutAppointmentNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutAppointmentNestedInput
+  waitlistOffer?: Prisma.WaitlistOfferUncheckedUpdateOneWithoutAppointmentNestedInput
 }
 
 export type AppointmentCreateWithoutServiceInput = {
@@ -1344,6 +1501,8 @@ export type AppointmentCreateWithoutServiceInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   duration?: number | null
+  occurrence?: number | null
+  series?: Prisma.AppointmentSeriesCreateNestedOneWithoutAppointmentsInput
   patient: Prisma.PatientCreateNestedOneWithoutAppointmentsInput
   doctor: Prisma.DoctorCreateNestedOneWithoutAppointmentsInput
   clinic: Prisma.ClinicCreateNestedOneWithoutAppointmentsInput
@@ -1351,6 +1510,7 @@ export type AppointmentCreateWithoutServiceInput = {
   medical?: Prisma.MedicalRecordsCreateNestedManyWithoutAppointmentInput
   reminders?: Prisma.ReminderCreateNestedManyWithoutAppointmentInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutAppointmentInput
+  waitlistOffer?: Prisma.WaitlistOfferCreateNestedOneWithoutAppointmentInput
 }
 
 export type AppointmentUncheckedCreateWithoutServiceInput = {
@@ -1371,10 +1531,13 @@ export type AppointmentUncheckedCreateWithoutServiceInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   duration?: number | null
+  seriesId?: string | null
+  occurrence?: number | null
   bills?: Prisma.PaymentUncheckedCreateNestedManyWithoutAppointmentInput
   medical?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutAppointmentInput
   reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutAppointmentInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutAppointmentInput
+  waitlistOffer?: Prisma.WaitlistOfferUncheckedCreateNestedOneWithoutAppointmentInput
 }
 
 export type AppointmentCreateOrConnectWithoutServiceInput = {
@@ -1418,6 +1581,8 @@ export type AppointmentCreateWithoutPatientInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   duration?: number | null
+  occurrence?: number | null
+  series?: Prisma.AppointmentSeriesCreateNestedOneWithoutAppointmentsInput
   doctor: Prisma.DoctorCreateNestedOneWithoutAppointmentsInput
   clinic: Prisma.ClinicCreateNestedOneWithoutAppointmentsInput
   service?: Prisma.ServiceCreateNestedOneWithoutAppointmentsInput
@@ -1425,6 +1590,7 @@ export type AppointmentCreateWithoutPatientInput = {
   medical?: Prisma.MedicalRecordsCreateNestedManyWithoutAppointmentInput
   reminders?: Prisma.ReminderCreateNestedManyWithoutAppointmentInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutAppointmentInput
+  waitlistOffer?: Prisma.WaitlistOfferCreateNestedOneWithoutAppointmentInput
 }
 
 export type AppointmentUncheckedCreateWithoutPatientInput = {
@@ -1445,10 +1611,13 @@ export type AppointmentUncheckedCreateWithoutPatientInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   duration?: number | null
+  seriesId?: string | null
+  occurrence?: number | null
   bills?: Prisma.PaymentUncheckedCreateNestedManyWithoutAppointmentInput
   medical?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutAppointmentInput
   reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutAppointmentInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutAppointmentInput
+  waitlistOffer?: Prisma.WaitlistOfferUncheckedCreateNestedOneWithoutAppointmentInput
 }
 
 export type AppointmentCreateOrConnectWithoutPatientInput = {
@@ -1477,6 +1646,210 @@ export type AppointmentUpdateManyWithWhereWithoutPatientInput = {
   data: Prisma.XOR<Prisma.AppointmentUpdateManyMutationInput, Prisma.AppointmentUncheckedUpdateManyWithoutPatientInput>
 }
 
+export type AppointmentCreateWithoutSeriesInput = {
+  id?: string
+  doctorSpecialty?: string | null
+  appointmentDate: Date | string
+  time?: string | null
+  appointmentPrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  status?: $Enums.AppointmentStatus | null
+  type: $Enums.AppointmentType
+  note?: string | null
+  reason?: string | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  duration?: number | null
+  occurrence?: number | null
+  patient: Prisma.PatientCreateNestedOneWithoutAppointmentsInput
+  doctor: Prisma.DoctorCreateNestedOneWithoutAppointmentsInput
+  clinic: Prisma.ClinicCreateNestedOneWithoutAppointmentsInput
+  service?: Prisma.ServiceCreateNestedOneWithoutAppointmentsInput
+  bills?: Prisma.PaymentCreateNestedManyWithoutAppointmentInput
+  medical?: Prisma.MedicalRecordsCreateNestedManyWithoutAppointmentInput
+  reminders?: Prisma.ReminderCreateNestedManyWithoutAppointmentInput
+  encounters?: Prisma.DiagnosisCreateNestedManyWithoutAppointmentInput
+  waitlistOffer?: Prisma.WaitlistOfferCreateNestedOneWithoutAppointmentInput
+}
+
+export type AppointmentUncheckedCreateWithoutSeriesInput = {
+  id?: string
+  patientId: string
+  doctorId: string
+  serviceId?: string | null
+  doctorSpecialty?: string | null
+  clinicId: string
+  appointmentDate: Date | string
+  time?: string | null
+  appointmentPrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  status?: $Enums.AppointmentStatus | null
+  type: $Enums.AppointmentType
+  note?: string | null
+  reason?: string | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  duration?: number | null
+  occurrence?: number | null
+  bills?: Prisma.PaymentUncheckedCreateNestedManyWithoutAppointmentInput
+  medical?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutAppointmentInput
+  reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutAppointmentInput
+  encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutAppointmentInput
+  waitlistOffer?: Prisma.WaitlistOfferUncheckedCreateNestedOneWithoutAppointmentInput
+}
+
+export type AppointmentCreateOrConnectWithoutSeriesInput = {
+  where: Prisma.AppointmentWhereUniqueInput
+  create: Prisma.XOR<Prisma.AppointmentCreateWithoutSeriesInput, Prisma.AppointmentUncheckedCreateWithoutSeriesInput>
+}
+
+export type AppointmentCreateManySeriesInputEnvelope = {
+  data: Prisma.AppointmentCreateManySeriesInput | Prisma.AppointmentCreateManySeriesInput[]
+  skipDuplicates?: boolean
+}
+
+export type AppointmentUpsertWithWhereUniqueWithoutSeriesInput = {
+  where: Prisma.AppointmentWhereUniqueInput
+  update: Prisma.XOR<Prisma.AppointmentUpdateWithoutSeriesInput, Prisma.AppointmentUncheckedUpdateWithoutSeriesInput>
+  create: Prisma.XOR<Prisma.AppointmentCreateWithoutSeriesInput, Prisma.AppointmentUncheckedCreateWithoutSeriesInput>
+}
+
+export type AppointmentUpdateWithWhereUniqueWithoutSeriesInput = {
+  where: Prisma.AppointmentWhereUniqueInput
+  data: Prisma.XOR<Prisma.AppointmentUpdateWithoutSeriesInput, Prisma.AppointmentUncheckedUpdateWithoutSeriesInput>
+}
+
+export type AppointmentUpdateManyWithWhereWithoutSeriesInput = {
+  where: Prisma.AppointmentScalarWhereInput
+  data: Prisma.XOR<Prisma.AppointmentUpdateManyMutationInput, Prisma.AppointmentUncheckedUpdateManyWithoutSeriesInput>
+}
+
+export type AppointmentCreateWithoutWaitlistOfferInput = {
+  id?: string
+  doctorSpecialty?: string | null
+  appointmentDate: Date | string
+  time?: string | null
+  appointmentPrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  status?: $Enums.AppointmentStatus | null
+  type: $Enums.AppointmentType
+  note?: string | null
+  reason?: string | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  duration?: number | null
+  occurrence?: number | null
+  series?: Prisma.AppointmentSeriesCreateNestedOneWithoutAppointmentsInput
+  patient: Prisma.PatientCreateNestedOneWithoutAppointmentsInput
+  doctor: Prisma.DoctorCreateNestedOneWithoutAppointmentsInput
+  clinic: Prisma.ClinicCreateNestedOneWithoutAppointmentsInput
+  service?: Prisma.ServiceCreateNestedOneWithoutAppointmentsInput
+  bills?: Prisma.PaymentCreateNestedManyWithoutAppointmentInput
+  medical?: Prisma.MedicalRecordsCreateNestedManyWithoutAppointmentInput
+  reminders?: Prisma.ReminderCreateNestedManyWithoutAppointmentInput
+  encounters?: Prisma.DiagnosisCreateNestedManyWithoutAppointmentInput
+}
+
+export type AppointmentUncheckedCreateWithoutWaitlistOfferInput = {
+  id?: string
+  patientId: string
+  doctorId: string
+  serviceId?: string | null
+  doctorSpecialty?: string | null
+  clinicId: string
+  appointmentDate: Date | string
+  time?: string | null
+  appointmentPrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  status?: $Enums.AppointmentStatus | null
+  type: $Enums.AppointmentType
+  note?: string | null
+  reason?: string | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  duration?: number | null
+  seriesId?: string | null
+  occurrence?: number | null
+  bills?: Prisma.PaymentUncheckedCreateNestedManyWithoutAppointmentInput
+  medical?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutAppointmentInput
+  reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutAppointmentInput
+  encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutAppointmentInput
+}
+
+export type AppointmentCreateOrConnectWithoutWaitlistOfferInput = {
+  where: Prisma.AppointmentWhereUniqueInput
+  create: Prisma.XOR<Prisma.AppointmentCreateWithoutWaitlistOfferInput, Prisma.AppointmentUncheckedCreateWithoutWaitlistOfferInput>
+}
+
+export type AppointmentUpsertWithoutWaitlistOfferInput = {
+  update: Prisma.XOR<Prisma.AppointmentUpdateWithoutWaitlistOfferInput, Prisma.AppointmentUncheckedUpdateWithoutWaitlistOfferInput>
+  create: Prisma.XOR<Prisma.AppointmentCreateWithoutWaitlistOfferInput, Prisma.AppointmentUncheckedCreateWithoutWaitlistOfferInput>
+  where?: Prisma.AppointmentWhereInput
+}
+
+export type AppointmentUpdateToOneWithWhereWithoutWaitlistOfferInput = {
+  where?: Prisma.AppointmentWhereInput
+  data: Prisma.XOR<Prisma.AppointmentUpdateWithoutWaitlistOfferInput, Prisma.AppointmentUncheckedUpdateWithoutWaitlistOfferInput>
+}
+
+export type AppointmentUpdateWithoutWaitlistOfferInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorSpecialty?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  appointmentDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  time?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  appointmentPrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  status?: Prisma.NullableEnumAppointmentStatusFieldUpdateOperationsInput | $Enums.AppointmentStatus | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  series?: Prisma.AppointmentSeriesUpdateOneWithoutAppointmentsNestedInput
+  patient?: Prisma.PatientUpdateOneRequiredWithoutAppointmentsNestedInput
+  doctor?: Prisma.DoctorUpdateOneRequiredWithoutAppointmentsNestedInput
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutAppointmentsNestedInput
+  service?: Prisma.ServiceUpdateOneWithoutAppointmentsNestedInput
+  bills?: Prisma.PaymentUpdateManyWithoutAppointmentNestedInput
+  medical?: Prisma.MedicalRecordsUpdateManyWithoutAppointmentNestedInput
+  reminders?: Prisma.ReminderUpdateManyWithoutAppointmentNestedInput
+  encounters?: Prisma.DiagnosisUpdateManyWithoutAppointmentNestedInput
+}
+
+export type AppointmentUncheckedUpdateWithoutWaitlistOfferInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.StringFieldUpdateOperationsInput | string
+  serviceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  doctorSpecialty?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  appointmentDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  time?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  appointmentPrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  status?: Prisma.NullableEnumAppointmentStatusFieldUpdateOperationsInput | $Enums.AppointmentStatus | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  seriesId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bills?: Prisma.PaymentUncheckedUpdateManyWithoutAppointmentNestedInput
+  medical?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutAppointmentNestedInput
+  reminders?: Prisma.ReminderUncheckedUpdateManyWithoutAppointmentNestedInput
+  encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutAppointmentNestedInput
+}
+
 export type AppointmentCreateWithoutMedicalInput = {
   id?: string
   doctorSpecialty?: string | null
@@ -1492,6 +1865,8 @@ export type AppointmentCreateWithoutMedicalInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   duration?: number | null
+  occurrence?: number | null
+  series?: Prisma.AppointmentSeriesCreateNestedOneWithoutAppointmentsInput
   patient: Prisma.PatientCreateNestedOneWithoutAppointmentsInput
   doctor: Prisma.DoctorCreateNestedOneWithoutAppointmentsInput
   clinic: Prisma.ClinicCreateNestedOneWithoutAppointmentsInput
@@ -1499,6 +1874,7 @@ export type AppointmentCreateWithoutMedicalInput = {
   bills?: Prisma.PaymentCreateNestedManyWithoutAppointmentInput
   reminders?: Prisma.ReminderCreateNestedManyWithoutAppointmentInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutAppointmentInput
+  waitlistOffer?: Prisma.WaitlistOfferCreateNestedOneWithoutAppointmentInput
 }
 
 export type AppointmentUncheckedCreateWithoutMedicalInput = {
@@ -1520,9 +1896,12 @@ export type AppointmentUncheckedCreateWithoutMedicalInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   duration?: number | null
+  seriesId?: string | null
+  occurrence?: number | null
   bills?: Prisma.PaymentUncheckedCreateNestedManyWithoutAppointmentInput
   reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutAppointmentInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutAppointmentInput
+  waitlistOffer?: Prisma.WaitlistOfferUncheckedCreateNestedOneWithoutAppointmentInput
 }
 
 export type AppointmentCreateOrConnectWithoutMedicalInput = {
@@ -1556,6 +1935,8 @@ export type AppointmentUpdateWithoutMedicalInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  series?: Prisma.AppointmentSeriesUpdateOneWithoutAppointmentsNestedInput
   patient?: Prisma.PatientUpdateOneRequiredWithoutAppointmentsNestedInput
   doctor?: Prisma.DoctorUpdateOneRequiredWithoutAppointmentsNestedInput
   clinic?: Prisma.ClinicUpdateOneRequiredWithoutAppointmentsNestedInput
@@ -1563,6 +1944,7 @@ export type AppointmentUpdateWithoutMedicalInput = {
   bills?: Prisma.PaymentUpdateManyWithoutAppointmentNestedInput
   reminders?: Prisma.ReminderUpdateManyWithoutAppointmentNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutAppointmentNestedInput
+  waitlistOffer?: Prisma.WaitlistOfferUpdateOneWithoutAppointmentNestedInput
 }
 
 export type AppointmentUncheckedUpdateWithoutMedicalInput = {
@@ -1584,9 +1966,12 @@ export type AppointmentUncheckedUpdateWithoutMedicalInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  seriesId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   bills?: Prisma.PaymentUncheckedUpdateManyWithoutAppointmentNestedInput
   reminders?: Prisma.ReminderUncheckedUpdateManyWithoutAppointmentNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutAppointmentNestedInput
+  waitlistOffer?: Prisma.WaitlistOfferUncheckedUpdateOneWithoutAppointmentNestedInput
 }
 
 export type AppointmentCreateWithoutEncountersInput = {
@@ -1604,6 +1989,8 @@ export type AppointmentCreateWithoutEncountersInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   duration?: number | null
+  occurrence?: number | null
+  series?: Prisma.AppointmentSeriesCreateNestedOneWithoutAppointmentsInput
   patient: Prisma.PatientCreateNestedOneWithoutAppointmentsInput
   doctor: Prisma.DoctorCreateNestedOneWithoutAppointmentsInput
   clinic: Prisma.ClinicCreateNestedOneWithoutAppointmentsInput
@@ -1611,6 +1998,7 @@ export type AppointmentCreateWithoutEncountersInput = {
   bills?: Prisma.PaymentCreateNestedManyWithoutAppointmentInput
   medical?: Prisma.MedicalRecordsCreateNestedManyWithoutAppointmentInput
   reminders?: Prisma.ReminderCreateNestedManyWithoutAppointmentInput
+  waitlistOffer?: Prisma.WaitlistOfferCreateNestedOneWithoutAppointmentInput
 }
 
 export type AppointmentUncheckedCreateWithoutEncountersInput = {
@@ -1632,9 +2020,12 @@ export type AppointmentUncheckedCreateWithoutEncountersInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   duration?: number | null
+  seriesId?: string | null
+  occurrence?: number | null
   bills?: Prisma.PaymentUncheckedCreateNestedManyWithoutAppointmentInput
   medical?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutAppointmentInput
   reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutAppointmentInput
+  waitlistOffer?: Prisma.WaitlistOfferUncheckedCreateNestedOneWithoutAppointmentInput
 }
 
 export type AppointmentCreateOrConnectWithoutEncountersInput = {
@@ -1668,6 +2059,8 @@ export type AppointmentUpdateWithoutEncountersInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  series?: Prisma.AppointmentSeriesUpdateOneWithoutAppointmentsNestedInput
   patient?: Prisma.PatientUpdateOneRequiredWithoutAppointmentsNestedInput
   doctor?: Prisma.DoctorUpdateOneRequiredWithoutAppointmentsNestedInput
   clinic?: Prisma.ClinicUpdateOneRequiredWithoutAppointmentsNestedInput
@@ -1675,6 +2068,7 @@ export type AppointmentUpdateWithoutEncountersInput = {
   bills?: Prisma.PaymentUpdateManyWithoutAppointmentNestedInput
   medical?: Prisma.MedicalRecordsUpdateManyWithoutAppointmentNestedInput
   reminders?: Prisma.ReminderUpdateManyWithoutAppointmentNestedInput
+  waitlistOffer?: Prisma.WaitlistOfferUpdateOneWithoutAppointmentNestedInput
 }
 
 export type AppointmentUncheckedUpdateWithoutEncountersInput = {
@@ -1696,9 +2090,12 @@ export type AppointmentUncheckedUpdateWithoutEncountersInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  seriesId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   bills?: Prisma.PaymentUncheckedUpdateManyWithoutAppointmentNestedInput
   medical?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutAppointmentNestedInput
   reminders?: Prisma.ReminderUncheckedUpdateManyWithoutAppointmentNestedInput
+  waitlistOffer?: Prisma.WaitlistOfferUncheckedUpdateOneWithoutAppointmentNestedInput
 }
 
 export type AppointmentCreateManyClinicInput = {
@@ -1719,6 +2116,8 @@ export type AppointmentCreateManyClinicInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   duration?: number | null
+  seriesId?: string | null
+  occurrence?: number | null
 }
 
 export type AppointmentUpdateWithoutClinicInput = {
@@ -1736,6 +2135,8 @@ export type AppointmentUpdateWithoutClinicInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  series?: Prisma.AppointmentSeriesUpdateOneWithoutAppointmentsNestedInput
   patient?: Prisma.PatientUpdateOneRequiredWithoutAppointmentsNestedInput
   doctor?: Prisma.DoctorUpdateOneRequiredWithoutAppointmentsNestedInput
   service?: Prisma.ServiceUpdateOneWithoutAppointmentsNestedInput
@@ -1743,6 +2144,7 @@ export type AppointmentUpdateWithoutClinicInput = {
   medical?: Prisma.MedicalRecordsUpdateManyWithoutAppointmentNestedInput
   reminders?: Prisma.ReminderUpdateManyWithoutAppointmentNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutAppointmentNestedInput
+  waitlistOffer?: Prisma.WaitlistOfferUpdateOneWithoutAppointmentNestedInput
 }
 
 export type AppointmentUncheckedUpdateWithoutClinicInput = {
@@ -1763,10 +2165,13 @@ export type AppointmentUncheckedUpdateWithoutClinicInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  seriesId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   bills?: Prisma.PaymentUncheckedUpdateManyWithoutAppointmentNestedInput
   medical?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutAppointmentNestedInput
   reminders?: Prisma.ReminderUncheckedUpdateManyWithoutAppointmentNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutAppointmentNestedInput
+  waitlistOffer?: Prisma.WaitlistOfferUncheckedUpdateOneWithoutAppointmentNestedInput
 }
 
 export type AppointmentUncheckedUpdateManyWithoutClinicInput = {
@@ -1787,6 +2192,8 @@ export type AppointmentUncheckedUpdateManyWithoutClinicInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  seriesId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
 }
 
 export type AppointmentCreateManyDoctorInput = {
@@ -1807,6 +2214,8 @@ export type AppointmentCreateManyDoctorInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   duration?: number | null
+  seriesId?: string | null
+  occurrence?: number | null
 }
 
 export type AppointmentUpdateWithoutDoctorInput = {
@@ -1824,6 +2233,8 @@ export type AppointmentUpdateWithoutDoctorInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  series?: Prisma.AppointmentSeriesUpdateOneWithoutAppointmentsNestedInput
   patient?: Prisma.PatientUpdateOneRequiredWithoutAppointmentsNestedInput
   clinic?: Prisma.ClinicUpdateOneRequiredWithoutAppointmentsNestedInput
   service?: Prisma.ServiceUpdateOneWithoutAppointmentsNestedInput
@@ -1831,6 +2242,7 @@ export type AppointmentUpdateWithoutDoctorInput = {
   medical?: Prisma.MedicalRecordsUpdateManyWithoutAppointmentNestedInput
   reminders?: Prisma.ReminderUpdateManyWithoutAppointmentNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutAppointmentNestedInput
+  waitlistOffer?: Prisma.WaitlistOfferUpdateOneWithoutAppointmentNestedInput
 }
 
 export type AppointmentUncheckedUpdateWithoutDoctorInput = {
@@ -1851,10 +2263,13 @@ export type AppointmentUncheckedUpdateWithoutDoctorInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  seriesId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   bills?: Prisma.PaymentUncheckedUpdateManyWithoutAppointmentNestedInput
   medical?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutAppointmentNestedInput
   reminders?: Prisma.ReminderUncheckedUpdateManyWithoutAppointmentNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutAppointmentNestedInput
+  waitlistOffer?: Prisma.WaitlistOfferUncheckedUpdateOneWithoutAppointmentNestedInput
 }
 
 export type AppointmentUncheckedUpdateManyWithoutDoctorInput = {
@@ -1875,6 +2290,8 @@ export type AppointmentUncheckedUpdateManyWithoutDoctorInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  seriesId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
 }
 
 export type AppointmentCreateManyServiceInput = {
@@ -1895,6 +2312,8 @@ export type AppointmentCreateManyServiceInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   duration?: number | null
+  seriesId?: string | null
+  occurrence?: number | null
 }
 
 export type AppointmentUpdateWithoutServiceInput = {
@@ -1912,6 +2331,8 @@ export type AppointmentUpdateWithoutServiceInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  series?: Prisma.AppointmentSeriesUpdateOneWithoutAppointmentsNestedInput
   patient?: Prisma.PatientUpdateOneRequiredWithoutAppointmentsNestedInput
   doctor?: Prisma.DoctorUpdateOneRequiredWithoutAppointmentsNestedInput
   clinic?: Prisma.ClinicUpdateOneRequiredWithoutAppointmentsNestedInput
@@ -1919,6 +2340,7 @@ export type AppointmentUpdateWithoutServiceInput = {
   medical?: Prisma.MedicalRecordsUpdateManyWithoutAppointmentNestedInput
   reminders?: Prisma.ReminderUpdateManyWithoutAppointmentNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutAppointmentNestedInput
+  waitlistOffer?: Prisma.WaitlistOfferUpdateOneWithoutAppointmentNestedInput
 }
 
 export type AppointmentUncheckedUpdateWithoutServiceInput = {
@@ -1939,10 +2361,13 @@ export type AppointmentUncheckedUpdateWithoutServiceInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  seriesId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   bills?: Prisma.PaymentUncheckedUpdateManyWithoutAppointmentNestedInput
   medical?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutAppointmentNestedInput
   reminders?: Prisma.ReminderUncheckedUpdateManyWithoutAppointmentNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutAppointmentNestedInput
+  waitlistOffer?: Prisma.WaitlistOfferUncheckedUpdateOneWithoutAppointmentNestedInput
 }
 
 export type AppointmentUncheckedUpdateManyWithoutServiceInput = {
@@ -1963,6 +2388,8 @@ export type AppointmentUncheckedUpdateManyWithoutServiceInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  seriesId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
 }
 
 export type AppointmentCreateManyPatientInput = {
@@ -1983,6 +2410,8 @@ export type AppointmentCreateManyPatientInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   duration?: number | null
+  seriesId?: string | null
+  occurrence?: number | null
 }
 
 export type AppointmentUpdateWithoutPatientInput = {
@@ -2000,6 +2429,8 @@ export type AppointmentUpdateWithoutPatientInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  series?: Prisma.AppointmentSeriesUpdateOneWithoutAppointmentsNestedInput
   doctor?: Prisma.DoctorUpdateOneRequiredWithoutAppointmentsNestedInput
   clinic?: Prisma.ClinicUpdateOneRequiredWithoutAppointmentsNestedInput
   service?: Prisma.ServiceUpdateOneWithoutAppointmentsNestedInput
@@ -2007,6 +2438,7 @@ export type AppointmentUpdateWithoutPatientInput = {
   medical?: Prisma.MedicalRecordsUpdateManyWithoutAppointmentNestedInput
   reminders?: Prisma.ReminderUpdateManyWithoutAppointmentNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutAppointmentNestedInput
+  waitlistOffer?: Prisma.WaitlistOfferUpdateOneWithoutAppointmentNestedInput
 }
 
 export type AppointmentUncheckedUpdateWithoutPatientInput = {
@@ -2027,10 +2459,13 @@ export type AppointmentUncheckedUpdateWithoutPatientInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  seriesId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   bills?: Prisma.PaymentUncheckedUpdateManyWithoutAppointmentNestedInput
   medical?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutAppointmentNestedInput
   reminders?: Prisma.ReminderUncheckedUpdateManyWithoutAppointmentNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutAppointmentNestedInput
+  waitlistOffer?: Prisma.WaitlistOfferUncheckedUpdateOneWithoutAppointmentNestedInput
 }
 
 export type AppointmentUncheckedUpdateManyWithoutPatientInput = {
@@ -2051,6 +2486,106 @@ export type AppointmentUncheckedUpdateManyWithoutPatientInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  seriesId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+}
+
+export type AppointmentCreateManySeriesInput = {
+  id?: string
+  patientId: string
+  doctorId: string
+  serviceId?: string | null
+  doctorSpecialty?: string | null
+  clinicId: string
+  appointmentDate: Date | string
+  time?: string | null
+  appointmentPrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  status?: $Enums.AppointmentStatus | null
+  type: $Enums.AppointmentType
+  note?: string | null
+  reason?: string | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  duration?: number | null
+  occurrence?: number | null
+}
+
+export type AppointmentUpdateWithoutSeriesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorSpecialty?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  appointmentDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  time?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  appointmentPrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  status?: Prisma.NullableEnumAppointmentStatusFieldUpdateOperationsInput | $Enums.AppointmentStatus | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  patient?: Prisma.PatientUpdateOneRequiredWithoutAppointmentsNestedInput
+  doctor?: Prisma.DoctorUpdateOneRequiredWithoutAppointmentsNestedInput
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutAppointmentsNestedInput
+  service?: Prisma.ServiceUpdateOneWithoutAppointmentsNestedInput
+  bills?: Prisma.PaymentUpdateManyWithoutAppointmentNestedInput
+  medical?: Prisma.MedicalRecordsUpdateManyWithoutAppointmentNestedInput
+  reminders?: Prisma.ReminderUpdateManyWithoutAppointmentNestedInput
+  encounters?: Prisma.DiagnosisUpdateManyWithoutAppointmentNestedInput
+  waitlistOffer?: Prisma.WaitlistOfferUpdateOneWithoutAppointmentNestedInput
+}
+
+export type AppointmentUncheckedUpdateWithoutSeriesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.StringFieldUpdateOperationsInput | string
+  serviceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  doctorSpecialty?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  appointmentDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  time?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  appointmentPrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  status?: Prisma.NullableEnumAppointmentStatusFieldUpdateOperationsInput | $Enums.AppointmentStatus | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  bills?: Prisma.PaymentUncheckedUpdateManyWithoutAppointmentNestedInput
+  medical?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutAppointmentNestedInput
+  reminders?: Prisma.ReminderUncheckedUpdateManyWithoutAppointmentNestedInput
+  encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutAppointmentNestedInput
+  waitlistOffer?: Prisma.WaitlistOfferUncheckedUpdateOneWithoutAppointmentNestedInput
+}
+
+export type AppointmentUncheckedUpdateManyWithoutSeriesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.StringFieldUpdateOperationsInput | string
+  serviceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  doctorSpecialty?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  appointmentDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  time?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  appointmentPrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  status?: Prisma.NullableEnumAppointmentStatusFieldUpdateOperationsInput | $Enums.AppointmentStatus | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  occurrence?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
 }
 
 
@@ -2130,6 +2665,9 @@ export type AppointmentSelect<ExtArgs extends runtime.Types.Extensions.InternalA
   createdAt?: boolean
   updatedAt?: boolean
   duration?: boolean
+  seriesId?: boolean
+  occurrence?: boolean
+  series?: boolean | Prisma.Appointment$seriesArgs<ExtArgs>
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
   doctor?: boolean | Prisma.DoctorDefaultArgs<ExtArgs>
   clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
@@ -2138,6 +2676,7 @@ export type AppointmentSelect<ExtArgs extends runtime.Types.Extensions.InternalA
   medical?: boolean | Prisma.Appointment$medicalArgs<ExtArgs>
   reminders?: boolean | Prisma.Appointment$remindersArgs<ExtArgs>
   encounters?: boolean | Prisma.Appointment$encountersArgs<ExtArgs>
+  waitlistOffer?: boolean | Prisma.Appointment$waitlistOfferArgs<ExtArgs>
   _count?: boolean | Prisma.AppointmentCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["appointment"]>
 
@@ -2160,6 +2699,9 @@ export type AppointmentSelectCreateManyAndReturn<ExtArgs extends runtime.Types.E
   createdAt?: boolean
   updatedAt?: boolean
   duration?: boolean
+  seriesId?: boolean
+  occurrence?: boolean
+  series?: boolean | Prisma.Appointment$seriesArgs<ExtArgs>
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
   doctor?: boolean | Prisma.DoctorDefaultArgs<ExtArgs>
   clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
@@ -2185,6 +2727,9 @@ export type AppointmentSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.E
   createdAt?: boolean
   updatedAt?: boolean
   duration?: boolean
+  seriesId?: boolean
+  occurrence?: boolean
+  series?: boolean | Prisma.Appointment$seriesArgs<ExtArgs>
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
   doctor?: boolean | Prisma.DoctorDefaultArgs<ExtArgs>
   clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
@@ -2210,10 +2755,13 @@ export type AppointmentSelectScalar = {
   createdAt?: boolean
   updatedAt?: boolean
   duration?: boolean
+  seriesId?: boolean
+  occurrence?: boolean
 }
 
-export type AppointmentOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "patientId" | "doctorId" | "serviceId" | "doctorSpecialty" | "clinicId" | "appointmentDate" | "time" | "appointmentPrice" | "status" | "type" | "note" | "reason" | "deletedAt" | "isDeleted" | "createdAt" | "updatedAt" | "duration", ExtArgs["result"]["appointment"]>
+export type AppointmentOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "patientId" | "doctorId" | "serviceId" | "doctorSpecialty" | "clinicId" | "appointmentDate" | "time" | "appointmentPrice" | "status" | "type" | "note" | "reason" | "deletedAt" | "isDeleted" | "createdAt" | "updatedAt" | "duration" | "seriesId" | "occurrence", ExtArgs["result"]["appointment"]>
 export type AppointmentInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  series?: boolean | Prisma.Appointment$seriesArgs<ExtArgs>
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
   doctor?: boolean | Prisma.DoctorDefaultArgs<ExtArgs>
   clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
@@ -2222,15 +2770,18 @@ export type AppointmentInclude<ExtArgs extends runtime.Types.Extensions.Internal
   medical?: boolean | Prisma.Appointment$medicalArgs<ExtArgs>
   reminders?: boolean | Prisma.Appointment$remindersArgs<ExtArgs>
   encounters?: boolean | Prisma.Appointment$encountersArgs<ExtArgs>
+  waitlistOffer?: boolean | Prisma.Appointment$waitlistOfferArgs<ExtArgs>
   _count?: boolean | Prisma.AppointmentCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type AppointmentIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  series?: boolean | Prisma.Appointment$seriesArgs<ExtArgs>
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
   doctor?: boolean | Prisma.DoctorDefaultArgs<ExtArgs>
   clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
   service?: boolean | Prisma.Appointment$serviceArgs<ExtArgs>
 }
 export type AppointmentIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  series?: boolean | Prisma.Appointment$seriesArgs<ExtArgs>
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
   doctor?: boolean | Prisma.DoctorDefaultArgs<ExtArgs>
   clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
@@ -2240,6 +2791,7 @@ export type AppointmentIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.
 export type $AppointmentPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   name: "Appointment"
   objects: {
+    series: Prisma.$AppointmentSeriesPayload<ExtArgs> | null
     patient: Prisma.$PatientPayload<ExtArgs>
     doctor: Prisma.$DoctorPayload<ExtArgs>
     clinic: Prisma.$ClinicPayload<ExtArgs>
@@ -2248,6 +2800,7 @@ export type $AppointmentPayload<ExtArgs extends runtime.Types.Extensions.Interna
     medical: Prisma.$MedicalRecordsPayload<ExtArgs>[]
     reminders: Prisma.$ReminderPayload<ExtArgs>[]
     encounters: Prisma.$DiagnosisPayload<ExtArgs>[]
+    waitlistOffer: Prisma.$WaitlistOfferPayload<ExtArgs> | null
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -2268,6 +2821,8 @@ export type $AppointmentPayload<ExtArgs extends runtime.Types.Extensions.Interna
     createdAt: Date
     updatedAt: Date
     duration: number | null
+    seriesId: string | null
+    occurrence: number | null
   }, ExtArgs["result"]["appointment"]>
   composites: {}
 }
@@ -2662,6 +3217,7 @@ readonly fields: AppointmentFieldRefs;
  */
 export interface Prisma__AppointmentClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
+  series<T extends Prisma.Appointment$seriesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Appointment$seriesArgs<ExtArgs>>): Prisma.Prisma__AppointmentSeriesClient<runtime.Types.Result.GetResult<Prisma.$AppointmentSeriesPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   patient<T extends Prisma.PatientDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PatientDefaultArgs<ExtArgs>>): Prisma.Prisma__PatientClient<runtime.Types.Result.GetResult<Prisma.$PatientPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   doctor<T extends Prisma.DoctorDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.DoctorDefaultArgs<ExtArgs>>): Prisma.Prisma__DoctorClient<runtime.Types.Result.GetResult<Prisma.$DoctorPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   clinic<T extends Prisma.ClinicDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ClinicDefaultArgs<ExtArgs>>): Prisma.Prisma__ClinicClient<runtime.Types.Result.GetResult<Prisma.$ClinicPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
@@ -2670,6 +3226,7 @@ export interface Prisma__AppointmentClient<T, Null = never, ExtArgs extends runt
   medical<T extends Prisma.Appointment$medicalArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Appointment$medicalArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MedicalRecordsPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   reminders<T extends Prisma.Appointment$remindersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Appointment$remindersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReminderPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   encounters<T extends Prisma.Appointment$encountersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Appointment$encountersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DiagnosisPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  waitlistOffer<T extends Prisma.Appointment$waitlistOfferArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Appointment$waitlistOfferArgs<ExtArgs>>): Prisma.Prisma__WaitlistOfferClient<runtime.Types.Result.GetResult<Prisma.$WaitlistOfferPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -2717,6 +3274,8 @@ export interface AppointmentFieldRefs {
   readonly createdAt: Prisma.FieldRef<"Appointment", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Appointment", 'DateTime'>
   readonly duration: Prisma.FieldRef<"Appointment", 'Int'>
+  readonly seriesId: Prisma.FieldRef<"Appointment", 'String'>
+  readonly occurrence: Prisma.FieldRef<"Appointment", 'Int'>
 }
     
 
@@ -3121,6 +3680,25 @@ export type AppointmentDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.I
   limit?: number
 }
 
+/**
+ * Appointment.series
+ */
+export type Appointment$seriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppointmentSeries
+   */
+  select?: Prisma.AppointmentSeriesSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppointmentSeries
+   */
+  omit?: Prisma.AppointmentSeriesOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AppointmentSeriesInclude<ExtArgs> | null
+  where?: Prisma.AppointmentSeriesWhereInput
+}
+
 /**
  * Appointment.service
  */
@@ -3236,6 +3814,25 @@ export type Appointment$encountersArgs<ExtArgs extends runtime.Types.Extensions.
   distinct?: Prisma.DiagnosisScalarFieldEnum | Prisma.DiagnosisScalarFieldEnum[]
 }
 
+/**
+ * Appointment.waitlistOffer
+ */
+export type Appointment$waitlistOfferArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistOffer
+   */
+  select?: Prisma.WaitlistOfferSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistOffer
+   */
+  omit?: Prisma.WaitlistOfferOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistOfferInclude<ExtArgs> | null
+  where?: Prisma.WaitlistOfferWhereInput
+}
+
 /**
  * Appointment without action
  */
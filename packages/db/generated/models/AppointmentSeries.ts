@@ -0,0 +1,2690 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `AppointmentSeries` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model AppointmentSeries
+ * 
+ */
+export type AppointmentSeriesModel = runtime.Types.Result.DefaultSelection<Prisma.$AppointmentSeriesPayload>
+
+export type AggregateAppointmentSeries = {
+  _count: AppointmentSeriesCountAggregateOutputType | null
+  _avg: AppointmentSeriesAvgAggregateOutputType | null
+  _sum: AppointmentSeriesSumAggregateOutputType | null
+  _min: AppointmentSeriesMinAggregateOutputType | null
+  _max: AppointmentSeriesMaxAggregateOutputType | null
+}
+
+export type AppointmentSeriesAvgAggregateOutputType = {
+  interval: number | null
+  count: number | null
+  duration: number | null
+  appointmentPrice: runtime.Decimal | null
+}
+
+export type AppointmentSeriesSumAggregateOutputType = {
+  interval: number | null
+  count: number | null
+  duration: number | null
+  appointmentPrice: runtime.Decimal | null
+}
+
+export type AppointmentSeriesMinAggregateOutputType = {
+  id: string | null
+  clinicId: string | null
+  patientId: string | null
+  doctorId: string | null
+  serviceId: string | null
+  type: $Enums.AppointmentType | null
+  frequency: $Enums.RecurrenceFrequency | null
+  interval: number | null
+  startDate: Date | null
+  until: Date | null
+  count: number | null
+  time: string | null
+  duration: number | null
+  appointmentPrice: runtime.Decimal | null
+  note: string | null
+  status: $Enums.AppointmentSeriesStatus | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type AppointmentSeriesMaxAggregateOutputType = {
+  id: string | null
+  clinicId: string | null
+  patientId: string | null
+  doctorId: string | null
+  serviceId: string | null
+  type: $Enums.AppointmentType | null
+  frequency: $Enums.RecurrenceFrequency | null
+  interval: number | null
+  startDate: Date | null
+  until: Date | null
+  count: number | null
+  time: string | null
+  duration: number | null
+  appointmentPrice: runtime.Decimal | null
+  note: string | null
+  status: $Enums.AppointmentSeriesStatus | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type AppointmentSeriesCountAggregateOutputType = {
+  id: number
+  clinicId: number
+  patientId: number
+  doctorId: number
+  serviceId: number
+  type: number
+  frequency: number
+  interval: number
+  startDate: number
+  until: number
+  count: number
+  time: number
+  duration: number
+  appointmentPrice: number
+  note: number
+  status: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type AppointmentSeriesAvgAggregateInputType = {
+  interval?: true
+  count?: true
+  duration?: true
+  appointmentPrice?: true
+}
+
+export type AppointmentSeriesSumAggregateInputType = {
+  interval?: true
+  count?: true
+  duration?: true
+  appointmentPrice?: true
+}
+
+export type AppointmentSeriesMinAggregateInputType = {
+  id?: true
+  clinicId?: true
+  patientId?: true
+  doctorId?: true
+  serviceId?: true
+  type?: true
+  frequency?: true
+  interval?: true
+  startDate?: true
+  until?: true
+  count?: true
+  time?: true
+  duration?: true
+  appointmentPrice?: true
+  note?: true
+  status?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type AppointmentSeriesMaxAggregateInputType = {
+  id?: true
+  clinicId?: true
+  patientId?: true
+  doctorId?: true
+  serviceId?: true
+  type?: true
+  frequency?: true
+  interval?: true
+  startDate?: true
+  until?: true
+  count?: true
+  time?: true
+  duration?: true
+  appointmentPrice?: true
+  note?: true
+  status?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type AppointmentSeriesCountAggregateInputType = {
+  id?: true
+  clinicId?: true
+  patientId?: true
+  doctorId?: true
+  serviceId?: true
+  type?: true
+  frequency?: true
+  interval?: true
+  startDate?: true
+  until?: true
+  count?: true
+  time?: true
+  duration?: true
+  appointmentPrice?: true
+  note?: true
+  status?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type AppointmentSeriesAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which AppointmentSeries to aggregate.
+   */
+  where?: Prisma.AppointmentSeriesWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AppointmentSeries to fetch.
+   */
+  orderBy?: Prisma.AppointmentSeriesOrderByWithRelationInput | Prisma.AppointmentSeriesOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.AppointmentSeriesWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AppointmentSeries from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AppointmentSeries.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned AppointmentSeries
+  **/
+  _count?: true | AppointmentSeriesCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: AppointmentSeriesAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: AppointmentSeriesSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: AppointmentSeriesMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: AppointmentSeriesMaxAggregateInputType
+}
+
+export type GetAppointmentSeriesAggregateType<T extends AppointmentSeriesAggregateArgs> = {
+      [P in keyof T & keyof AggregateAppointmentSeries]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateAppointmentSeries[P]>
+    : Prisma.GetScalarType<T[P], AggregateAppointmentSeries[P]>
+}
+
+
+
+
+export type AppointmentSeriesGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AppointmentSeriesWhereInput
+  orderBy?: Prisma.AppointmentSeriesOrderByWithAggregationInput | Prisma.AppointmentSeriesOrderByWithAggregationInput[]
+  by: Prisma.AppointmentSeriesScalarFieldEnum[] | Prisma.AppointmentSeriesScalarFieldEnum
+  having?: Prisma.AppointmentSeriesScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: AppointmentSeriesCountAggregateInputType | true
+  _avg?: AppointmentSeriesAvgAggregateInputType
+  _sum?: AppointmentSeriesSumAggregateInputType
+  _min?: AppointmentSeriesMinAggregateInputType
+  _max?: AppointmentSeriesMaxAggregateInputType
+}
+
+export type AppointmentSeriesGroupByOutputType = {
+  id: string
+  clinicId: string
+  patientId: string
+  doctorId: string
+  serviceId: string | null
+  type: $Enums.AppointmentType
+  frequency: $Enums.RecurrenceFrequency
+  interval: number
+  startDate: Date
+  until: Date | null
+  count: number | null
+  time: string
+  duration: number | null
+  appointmentPrice: runtime.Decimal | null
+  note: string | null
+  status: $Enums.AppointmentSeriesStatus
+  createdAt: Date
+  updatedAt: Date
+  _count: AppointmentSeriesCountAggregateOutputType | null
+  _avg: AppointmentSeriesAvgAggregateOutputType | null
+  _sum: AppointmentSeriesSumAggregateOutputType | null
+  _min: AppointmentSeriesMinAggregateOutputType | null
+  _max: AppointmentSeriesMaxAggregateOutputType | null
+}
+
+type GetAppointmentSeriesGroupByPayload<T extends AppointmentSeriesGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<AppointmentSeriesGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof AppointmentSeriesGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], AppointmentSeriesGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], AppointmentSeriesGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type AppointmentSeriesWhereInput = {
+  AND?: Prisma.AppointmentSeriesWhereInput | Prisma.AppointmentSeriesWhereInput[]
+  OR?: Prisma.AppointmentSeriesWhereInput[]
+  NOT?: Prisma.AppointmentSeriesWhereInput | Prisma.AppointmentSeriesWhereInput[]
+  id?: Prisma.StringFilter<"AppointmentSeries"> | string
+  clinicId?: Prisma.StringFilter<"AppointmentSeries"> | string
+  patientId?: Prisma.StringFilter<"AppointmentSeries"> | string
+  doctorId?: Prisma.StringFilter<"AppointmentSeries"> | string
+  serviceId?: Prisma.StringNullableFilter<"AppointmentSeries"> | string | null
+  type?: Prisma.EnumAppointmentTypeFilter<"AppointmentSeries"> | $Enums.AppointmentType
+  frequency?: Prisma.EnumRecurrenceFrequencyFilter<"AppointmentSeries"> | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFilter<"AppointmentSeries"> | number
+  startDate?: Prisma.DateTimeFilter<"AppointmentSeries"> | Date | string
+  until?: Prisma.DateTimeNullableFilter<"AppointmentSeries"> | Date | string | null
+  count?: Prisma.IntNullableFilter<"AppointmentSeries"> | number | null
+  time?: Prisma.StringFilter<"AppointmentSeries"> | string
+  duration?: Prisma.IntNullableFilter<"AppointmentSeries"> | number | null
+  appointmentPrice?: Prisma.DecimalNullableFilter<"AppointmentSeries"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.StringNullableFilter<"AppointmentSeries"> | string | null
+  status?: Prisma.EnumAppointmentSeriesStatusFilter<"AppointmentSeries"> | $Enums.AppointmentSeriesStatus
+  createdAt?: Prisma.DateTimeFilter<"AppointmentSeries"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"AppointmentSeries"> | Date | string
+  clinic?: Prisma.XOR<Prisma.ClinicScalarRelationFilter, Prisma.ClinicWhereInput>
+  patient?: Prisma.XOR<Prisma.PatientScalarRelationFilter, Prisma.PatientWhereInput>
+  doctor?: Prisma.XOR<Prisma.DoctorScalarRelationFilter, Prisma.DoctorWhereInput>
+  service?: Prisma.XOR<Prisma.ServiceNullableScalarRelationFilter, Prisma.ServiceWhereInput> | null
+  appointments?: Prisma.AppointmentListRelationFilter
+}
+
+export type AppointmentSeriesOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  patientId?: Prisma.SortOrder
+  doctorId?: Prisma.SortOrder
+  serviceId?: Prisma.SortOrderInput | Prisma.SortOrder
+  type?: Prisma.SortOrder
+  frequency?: Prisma.SortOrder
+  interval?: Prisma.SortOrder
+  startDate?: Prisma.SortOrder
+  until?: Prisma.SortOrderInput | Prisma.SortOrder
+  count?: Prisma.SortOrderInput | Prisma.SortOrder
+  time?: Prisma.SortOrder
+  duration?: Prisma.SortOrderInput | Prisma.SortOrder
+  appointmentPrice?: Prisma.SortOrderInput | Prisma.SortOrder
+  note?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  clinic?: Prisma.ClinicOrderByWithRelationInput
+  patient?: Prisma.PatientOrderByWithRelationInput
+  doctor?: Prisma.DoctorOrderByWithRelationInput
+  service?: Prisma.ServiceOrderByWithRelationInput
+  appointments?: Prisma.AppointmentOrderByRelationAggregateInput
+}
+
+export type AppointmentSeriesWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.AppointmentSeriesWhereInput | Prisma.AppointmentSeriesWhereInput[]
+  OR?: Prisma.AppointmentSeriesWhereInput[]
+  NOT?: Prisma.AppointmentSeriesWhereInput | Prisma.AppointmentSeriesWhereInput[]
+  clinicId?: Prisma.StringFilter<"AppointmentSeries"> | string
+  patientId?: Prisma.StringFilter<"AppointmentSeries"> | string
+  doctorId?: Prisma.StringFilter<"AppointmentSeries"> | string
+  serviceId?: Prisma.StringNullableFilter<"AppointmentSeries"> | string | null
+  type?: Prisma.EnumAppointmentTypeFilter<"AppointmentSeries"> | $Enums.AppointmentType
+  frequency?: Prisma.EnumRecurrenceFrequencyFilter<"AppointmentSeries"> | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFilter<"AppointmentSeries"> | number
+  startDate?: Prisma.DateTimeFilter<"AppointmentSeries"> | Date | string
+  until?: Prisma.DateTimeNullableFilter<"AppointmentSeries"> | Date | string | null
+  count?: Prisma.IntNullableFilter<"AppointmentSeries"> | number | null
+  time?: Prisma.StringFilter<"AppointmentSeries"> | string
+  duration?: Prisma.IntNullableFilter<"AppointmentSeries"> | number | null
+  appointmentPrice?: Prisma.DecimalNullableFilter<"AppointmentSeries"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.StringNullableFilter<"AppointmentSeries"> | string | null
+  status?: Prisma.EnumAppointmentSeriesStatusFilter<"AppointmentSeries"> | $Enums.AppointmentSeriesStatus
+  createdAt?: Prisma.DateTimeFilter<"AppointmentSeries"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"AppointmentSeries"> | Date | string
+  clinic?: Prisma.XOR<Prisma.ClinicScalarRelationFilter, Prisma.ClinicWhereInput>
+  patient?: Prisma.XOR<Prisma.PatientScalarRelationFilter, Prisma.PatientWhereInput>
+  doctor?: Prisma.XOR<Prisma.DoctorScalarRelationFilter, Prisma.DoctorWhereInput>
+  service?: Prisma.XOR<Prisma.ServiceNullableScalarRelationFilter, Prisma.ServiceWhereInput> | null
+  appointments?: Prisma.AppointmentListRelationFilter
+}, "id">
+
+export type AppointmentSeriesOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  patientId?: Prisma.SortOrder
+  doctorId?: Prisma.SortOrder
+  serviceId?: Prisma.SortOrderInput | Prisma.SortOrder
+  type?: Prisma.SortOrder
+  frequency?: Prisma.SortOrder
+  interval?: Prisma.SortOrder
+  startDate?: Prisma.SortOrder
+  until?: Prisma.SortOrderInput | Prisma.SortOrder
+  count?: Prisma.SortOrderInput | Prisma.SortOrder
+  time?: Prisma.SortOrder
+  duration?: Prisma.SortOrderInput | Prisma.SortOrder
+  appointmentPrice?: Prisma.SortOrderInput | Prisma.SortOrder
+  note?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.AppointmentSeriesCountOrderByAggregateInput
+  _avg?: Prisma.AppointmentSeriesAvgOrderByAggregateInput
+  _max?: Prisma.AppointmentSeriesMaxOrderByAggregateInput
+  _min?: Prisma.AppointmentSeriesMinOrderByAggregateInput
+  _sum?: Prisma.AppointmentSeriesSumOrderByAggregateInput
+}
+
+export type AppointmentSeriesScalarWhereWithAggregatesInput = {
+  AND?: Prisma.AppointmentSeriesScalarWhereWithAggregatesInput | Prisma.AppointmentSeriesScalarWhereWithAggregatesInput[]
+  OR?: Prisma.AppointmentSeriesScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.AppointmentSeriesScalarWhereWithAggregatesInput | Prisma.AppointmentSeriesScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"AppointmentSeries"> | string
+  clinicId?: Prisma.StringWithAggregatesFilter<"AppointmentSeries"> | string
+  patientId?: Prisma.StringWithAggregatesFilter<"AppointmentSeries"> | string
+  doctorId?: Prisma.StringWithAggregatesFilter<"AppointmentSeries"> | string
+  serviceId?: Prisma.StringNullableWithAggregatesFilter<"AppointmentSeries"> | string | null
+  type?: Prisma.EnumAppointmentTypeWithAggregatesFilter<"AppointmentSeries"> | $Enums.AppointmentType
+  frequency?: Prisma.EnumRecurrenceFrequencyWithAggregatesFilter<"AppointmentSeries"> | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntWithAggregatesFilter<"AppointmentSeries"> | number
+  startDate?: Prisma.DateTimeWithAggregatesFilter<"AppointmentSeries"> | Date | string
+  until?: Prisma.DateTimeNullableWithAggregatesFilter<"AppointmentSeries"> | Date | string | null
+  count?: Prisma.IntNullableWithAggregatesFilter<"AppointmentSeries"> | number | null
+  time?: Prisma.StringWithAggregatesFilter<"AppointmentSeries"> | string
+  duration?: Prisma.IntNullableWithAggregatesFilter<"AppointmentSeries"> | number | null
+  appointmentPrice?: Prisma.DecimalNullableWithAggregatesFilter<"AppointmentSeries"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.StringNullableWithAggregatesFilter<"AppointmentSeries"> | string | null
+  status?: Prisma.EnumAppointmentSeriesStatusWithAggregatesFilter<"AppointmentSeries"> | $Enums.AppointmentSeriesStatus
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"AppointmentSeries"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"AppointmentSeries"> | Date | string
+}
+
+export type AppointmentSeriesCreateInput = {
+  id?: string
+  type: $Enums.AppointmentType
+  frequency: $Enums.RecurrenceFrequency
+  interval?: number
+  startDate: Date | string
+  until?: Date | string | null
+  count?: number | null
+  time: string
+  duration?: number | null
+  appointmentPrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: string | null
+  status?: $Enums.AppointmentSeriesStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  clinic: Prisma.ClinicCreateNestedOneWithoutAppointmentSeriesInput
+  patient: Prisma.PatientCreateNestedOneWithoutAppointmentSeriesInput
+  doctor: Prisma.DoctorCreateNestedOneWithoutAppointmentSeriesInput
+  service?: Prisma.ServiceCreateNestedOneWithoutAppointmentSeriesInput
+  appointments?: Prisma.AppointmentCreateNestedManyWithoutSeriesInput
+}
+
+export type AppointmentSeriesUncheckedCreateInput = {
+  id?: string
+  clinicId: string
+  patientId: string
+  doctorId: string
+  serviceId?: string | null
+  type: $Enums.AppointmentType
+  frequency: $Enums.RecurrenceFrequency
+  interval?: number
+  startDate: Date | string
+  until?: Date | string | null
+  count?: number | null
+  time: string
+  duration?: number | null
+  appointmentPrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: string | null
+  status?: $Enums.AppointmentSeriesStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutSeriesInput
+}
+
+export type AppointmentSeriesUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  frequency?: Prisma.EnumRecurrenceFrequencyFieldUpdateOperationsInput | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  time?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  appointmentPrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumAppointmentSeriesStatusFieldUpdateOperationsInput | $Enums.AppointmentSeriesStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutAppointmentSeriesNestedInput
+  patient?: Prisma.PatientUpdateOneRequiredWithoutAppointmentSeriesNestedInput
+  doctor?: Prisma.DoctorUpdateOneRequiredWithoutAppointmentSeriesNestedInput
+  service?: Prisma.ServiceUpdateOneWithoutAppointmentSeriesNestedInput
+  appointments?: Prisma.AppointmentUpdateManyWithoutSeriesNestedInput
+}
+
+export type AppointmentSeriesUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.StringFieldUpdateOperationsInput | string
+  serviceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  frequency?: Prisma.EnumRecurrenceFrequencyFieldUpdateOperationsInput | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  time?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  appointmentPrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumAppointmentSeriesStatusFieldUpdateOperationsInput | $Enums.AppointmentSeriesStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutSeriesNestedInput
+}
+
+export type AppointmentSeriesCreateManyInput = {
+  id?: string
+  clinicId: string
+  patientId: string
+  doctorId: string
+  serviceId?: string | null
+  type: $Enums.AppointmentType
+  frequency: $Enums.RecurrenceFrequency
+  interval?: number
+  startDate: Date | string
+  until?: Date | string | null
+  count?: number | null
+  time: string
+  duration?: number | null
+  appointmentPrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: string | null
+  status?: $Enums.AppointmentSeriesStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type AppointmentSeriesUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  frequency?: Prisma.EnumRecurrenceFrequencyFieldUpdateOperationsInput | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  time?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  appointmentPrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumAppointmentSeriesStatusFieldUpdateOperationsInput | $Enums.AppointmentSeriesStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AppointmentSeriesUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.StringFieldUpdateOperationsInput | string
+  serviceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  frequency?: Prisma.EnumRecurrenceFrequencyFieldUpdateOperationsInput | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  time?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  appointmentPrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumAppointmentSeriesStatusFieldUpdateOperationsInput | $Enums.AppointmentSeriesStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AppointmentSeriesListRelationFilter = {
+  every?: Prisma.AppointmentSeriesWhereInput
+  some?: Prisma.AppointmentSeriesWhereInput
+  none?: Prisma.AppointmentSeriesWhereInput
+}
+
+export type AppointmentSeriesOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type AppointmentSeriesNullableScalarRelationFilter = {
+  is?: Prisma.AppointmentSeriesWhereInput | null
+  isNot?: Prisma.AppointmentSeriesWhereInput | null
+}
+
+export type AppointmentSeriesCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  patientId?: Prisma.SortOrder
+  doctorId?: Prisma.SortOrder
+  serviceId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  frequency?: Prisma.SortOrder
+  interval?: Prisma.SortOrder
+  startDate?: Prisma.SortOrder
+  until?: Prisma.SortOrder
+  count?: Prisma.SortOrder
+  time?: Prisma.SortOrder
+  duration?: Prisma.SortOrder
+  appointmentPrice?: Prisma.SortOrder
+  note?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type AppointmentSeriesAvgOrderByAggregateInput = {
+  interval?: Prisma.SortOrder
+  count?: Prisma.SortOrder
+  duration?: Prisma.SortOrder
+  appointmentPrice?: Prisma.SortOrder
+}
+
+export type AppointmentSeriesMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  patientId?: Prisma.SortOrder
+  doctorId?: Prisma.SortOrder
+  serviceId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  frequency?: Prisma.SortOrder
+  interval?: Prisma.SortOrder
+  startDate?: Prisma.SortOrder
+  until?: Prisma.SortOrder
+  count?: Prisma.SortOrder
+  time?: Prisma.SortOrder
+  duration?: Prisma.SortOrder
+  appointmentPrice?: Prisma.SortOrder
+  note?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type AppointmentSeriesMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  patientId?: Prisma.SortOrder
+  doctorId?: Prisma.SortOrder
+  serviceId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  frequency?: Prisma.SortOrder
+  interval?: Prisma.SortOrder
+  startDate?: Prisma.SortOrder
+  until?: Prisma.SortOrder
+  count?: Prisma.SortOrder
+  time?: Prisma.SortOrder
+  duration?: Prisma.SortOrder
+  appointmentPrice?: Prisma.SortOrder
+  note?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type AppointmentSeriesSumOrderByAggregateInput = {
+  interval?: Prisma.SortOrder
+  count?: Prisma.SortOrder
+  duration?: Prisma.SortOrder
+  appointmentPrice?: Prisma.SortOrder
+}
+
+export type AppointmentSeriesCreateNestedManyWithoutClinicInput = {
+  create?: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutClinicInput, Prisma.AppointmentSeriesUncheckedCreateWithoutClinicInput> | Prisma.AppointmentSeriesCreateWithoutClinicInput[] | Prisma.AppointmentSeriesUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.AppointmentSeriesCreateOrConnectWithoutClinicInput | Prisma.AppointmentSeriesCreateOrConnectWithoutClinicInput[]
+  createMany?: Prisma.AppointmentSeriesCreateManyClinicInputEnvelope
+  connect?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+}
+
+export type AppointmentSeriesUncheckedCreateNestedManyWithoutClinicInput = {
+  create?: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutClinicInput, Prisma.AppointmentSeriesUncheckedCreateWithoutClinicInput> | Prisma.AppointmentSeriesCreateWithoutClinicInput[] | Prisma.AppointmentSeriesUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.AppointmentSeriesCreateOrConnectWithoutClinicInput | Prisma.AppointmentSeriesCreateOrConnectWithoutClinicInput[]
+  createMany?: Prisma.AppointmentSeriesCreateManyClinicInputEnvelope
+  connect?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+}
+
+export type AppointmentSeriesUpdateManyWithoutClinicNestedInput = {
+  create?: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutClinicInput, Prisma.AppointmentSeriesUncheckedCreateWithoutClinicInput> | Prisma.AppointmentSeriesCreateWithoutClinicInput[] | Prisma.AppointmentSeriesUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.AppointmentSeriesCreateOrConnectWithoutClinicInput | Prisma.AppointmentSeriesCreateOrConnectWithoutClinicInput[]
+  upsert?: Prisma.AppointmentSeriesUpsertWithWhereUniqueWithoutClinicInput | Prisma.AppointmentSeriesUpsertWithWhereUniqueWithoutClinicInput[]
+  createMany?: Prisma.AppointmentSeriesCreateManyClinicInputEnvelope
+  set?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  disconnect?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  delete?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  connect?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  update?: Prisma.AppointmentSeriesUpdateWithWhereUniqueWithoutClinicInput | Prisma.AppointmentSeriesUpdateWithWhereUniqueWithoutClinicInput[]
+  updateMany?: Prisma.AppointmentSeriesUpdateManyWithWhereWithoutClinicInput | Prisma.AppointmentSeriesUpdateManyWithWhereWithoutClinicInput[]
+  deleteMany?: Prisma.AppointmentSeriesScalarWhereInput | Prisma.AppointmentSeriesScalarWhereInput[]
+}
+
+export type AppointmentSeriesUncheckedUpdateManyWithoutClinicNestedInput = {
+  create?: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutClinicInput, Prisma.AppointmentSeriesUncheckedCreateWithoutClinicInput> | Prisma.AppointmentSeriesCreateWithoutClinicInput[] | Prisma.AppointmentSeriesUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.AppointmentSeriesCreateOrConnectWithoutClinicInput | Prisma.AppointmentSeriesCreateOrConnectWithoutClinicInput[]
+  upsert?: Prisma.AppointmentSeriesUpsertWithWhereUniqueWithoutClinicInput | Prisma.AppointmentSeriesUpsertWithWhereUniqueWithoutClinicInput[]
+  createMany?: Prisma.AppointmentSeriesCreateManyClinicInputEnvelope
+  set?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  disconnect?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  delete?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  connect?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  update?: Prisma.AppointmentSeriesUpdateWithWhereUniqueWithoutClinicInput | Prisma.AppointmentSeriesUpdateWithWhereUniqueWithoutClinicInput[]
+  updateMany?: Prisma.AppointmentSeriesUpdateManyWithWhereWithoutClinicInput | Prisma.AppointmentSeriesUpdateManyWithWhereWithoutClinicInput[]
+  deleteMany?: Prisma.AppointmentSeriesScalarWhereInput | Prisma.AppointmentSeriesScalarWhereInput[]
+}
+
+export type AppointmentSeriesCreateNestedManyWithoutDoctorInput = {
+  create?: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutDoctorInput, Prisma.AppointmentSeriesUncheckedCreateWithoutDoctorInput> | Prisma.AppointmentSeriesCreateWithoutDoctorInput[] | Prisma.AppointmentSeriesUncheckedCreateWithoutDoctorInput[]
+  connectOrCreate?: Prisma.AppointmentSeriesCreateOrConnectWithoutDoctorInput | Prisma.AppointmentSeriesCreateOrConnectWithoutDoctorInput[]
+  createMany?: Prisma.AppointmentSeriesCreateManyDoctorInputEnvelope
+  connect?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+}
+
+export type AppointmentSeriesUncheckedCreateNestedManyWithoutDoctorInput = {
+  create?: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutDoctorInput, Prisma.AppointmentSeriesUncheckedCreateWithoutDoctorInput> | Prisma.AppointmentSeriesCreateWithoutDoctorInput[] | Prisma.AppointmentSeriesUncheckedCreateWithoutDoctorInput[]
+  connectOrCreate?: Prisma.AppointmentSeriesCreateOrConnectWithoutDoctorInput | Prisma.AppointmentSeriesCreateOrConnectWithoutDoctorInput[]
+  createMany?: Prisma.AppointmentSeriesCreateManyDoctorInputEnvelope
+  connect?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+}
+
+export type AppointmentSeriesUpdateManyWithoutDoctorNestedInput = {
+  create?: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutDoctorInput, Prisma.AppointmentSeriesUncheckedCreateWithoutDoctorInput> | Prisma.AppointmentSeriesCreateWithoutDoctorInput[] | Prisma.AppointmentSeriesUncheckedCreateWithoutDoctorInput[]
+  connectOrCreate?: Prisma.AppointmentSeriesCreateOrConnectWithoutDoctorInput | Prisma.AppointmentSeriesCreateOrConnectWithoutDoctorInput[]
+  upsert?: Prisma.AppointmentSeriesUpsertWithWhereUniqueWithoutDoctorInput | Prisma.AppointmentSeriesUpsertWithWhereUniqueWithoutDoctorInput[]
+  createMany?: Prisma.AppointmentSeriesCreateManyDoctorInputEnvelope
+  set?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  disconnect?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  delete?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  connect?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  update?: Prisma.AppointmentSeriesUpdateWithWhereUniqueWithoutDoctorInput | Prisma.AppointmentSeriesUpdateWithWhereUniqueWithoutDoctorInput[]
+  updateMany?: Prisma.AppointmentSeriesUpdateManyWithWhereWithoutDoctorInput | Prisma.AppointmentSeriesUpdateManyWithWhereWithoutDoctorInput[]
+  deleteMany?: Prisma.AppointmentSeriesScalarWhereInput | Prisma.AppointmentSeriesScalarWhereInput[]
+}
+
+export type AppointmentSeriesUncheckedUpdateManyWithoutDoctorNestedInput = {
+  create?: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutDoctorInput, Prisma.AppointmentSeriesUncheckedCreateWithoutDoctorInput> | Prisma.AppointmentSeriesCreateWithoutDoctorInput[] | Prisma.AppointmentSeriesUncheckedCreateWithoutDoctorInput[]
+  connectOrCreate?: Prisma.AppointmentSeriesCreateOrConnectWithoutDoctorInput | Prisma.AppointmentSeriesCreateOrConnectWithoutDoctorInput[]
+  upsert?: Prisma.AppointmentSeriesUpsertWithWhereUniqueWithoutDoctorInput | Prisma.AppointmentSeriesUpsertWithWhereUniqueWithoutDoctorInput[]
+  createMany?: Prisma.AppointmentSeriesCreateManyDoctorInputEnvelope
+  set?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  disconnect?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  delete?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  connect?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  update?: Prisma.AppointmentSeriesUpdateWithWhereUniqueWithoutDoctorInput | Prisma.AppointmentSeriesUpdateWithWhereUniqueWithoutDoctorInput[]
+  updateMany?: Prisma.AppointmentSeriesUpdateManyWithWhereWithoutDoctorInput | Prisma.AppointmentSeriesUpdateManyWithWhereWithoutDoctorInput[]
+  deleteMany?: Prisma.AppointmentSeriesScalarWhereInput | Prisma.AppointmentSeriesScalarWhereInput[]
+}
+
+export type AppointmentSeriesCreateNestedManyWithoutServiceInput = {
+  create?: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutServiceInput, Prisma.AppointmentSeriesUncheckedCreateWithoutServiceInput> | Prisma.AppointmentSeriesCreateWithoutServiceInput[] | Prisma.AppointmentSeriesUncheckedCreateWithoutServiceInput[]
+  connectOrCreate?: Prisma.AppointmentSeriesCreateOrConnectWithoutServiceInput | Prisma.AppointmentSeriesCreateOrConnectWithoutServiceInput[]
+  createMany?: Prisma.AppointmentSeriesCreateManyServiceInputEnvelope
+  connect?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+}
+
+export type AppointmentSeriesUncheckedCreateNestedManyWithoutServiceInput = {
+  create?: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutServiceInput, Prisma.AppointmentSeriesUncheckedCreateWithoutServiceInput> | Prisma.AppointmentSeriesCreateWithoutServiceInput[] | Prisma.AppointmentSeriesUncheckedCreateWithoutServiceInput[]
+  connectOrCreate?: Prisma.AppointmentSeriesCreateOrConnectWithoutServiceInput | Prisma.AppointmentSeriesCreateOrConnectWithoutServiceInput[]
+  createMany?: Prisma.AppointmentSeriesCreateManyServiceInputEnvelope
+  connect?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+}
+
+export type AppointmentSeriesUpdateManyWithoutServiceNestedInput = {
+  create?: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutServiceInput, Prisma.AppointmentSeriesUncheckedCreateWithoutServiceInput> | Prisma.AppointmentSeriesCreateWithoutServiceInput[] | Prisma.AppointmentSeriesUncheckedCreateWithoutServiceInput[]
+  connectOrCreate?: Prisma.AppointmentSeriesCreateOrConnectWithoutServiceInput | Prisma.AppointmentSeriesCreateOrConnectWithoutServiceInput[]
+  upsert?: Prisma.AppointmentSeriesUpsertWithWhereUniqueWithoutServiceInput | Prisma.AppointmentSeriesUpsertWithWhereUniqueWithoutServiceInput[]
+  createMany?: Prisma.AppointmentSeriesCreateManyServiceInputEnvelope
+  set?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  disconnect?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  delete?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  connect?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  update?: Prisma.AppointmentSeriesUpdateWithWhereUniqueWithoutServiceInput | Prisma.AppointmentSeriesUpdateWithWhereUniqueWithoutServiceInput[]
+  updateMany?: Prisma.AppointmentSeriesUpdateManyWithWhereWithoutServiceInput | Prisma.AppointmentSeriesUpdateManyWithWhereWithoutServiceInput[]
+  deleteMany?: Prisma.AppointmentSeriesScalarWhereInput | Prisma.AppointmentSeriesScalarWhereInput[]
+}
+
+export type AppointmentSeriesUncheckedUpdateManyWithoutServiceNestedInput = {
+  create?: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutServiceInput, Prisma.AppointmentSeriesUncheckedCreateWithoutServiceInput> | Prisma.AppointmentSeriesCreateWithoutServiceInput[] | Prisma.AppointmentSeriesUncheckedCreateWithoutServiceInput[]
+  connectOrCreate?: Prisma.AppointmentSeriesCreateOrConnectWithoutServiceInput | Prisma.AppointmentSeriesCreateOrConnectWithoutServiceInput[]
+  upsert?: Prisma.AppointmentSeriesUpsertWithWhereUniqueWithoutServiceInput | Prisma.AppointmentSeriesUpsertWithWhereUniqueWithoutServiceInput[]
+  createMany?: Prisma.AppointmentSeriesCreateManyServiceInputEnvelope
+  set?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  disconnect?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  delete?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  connect?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  update?: Prisma.AppointmentSeriesUpdateWithWhereUniqueWithoutServiceInput | Prisma.AppointmentSeriesUpdateWithWhereUniqueWithoutServiceInput[]
+  updateMany?: Prisma.AppointmentSeriesUpdateManyWithWhereWithoutServiceInput | Prisma.AppointmentSeriesUpdateManyWithWhereWithoutServiceInput[]
+  deleteMany?: Prisma.AppointmentSeriesScalarWhereInput | Prisma.AppointmentSeriesScalarWhereInput[]
+}
+
+export type AppointmentSeriesCreateNestedManyWithoutPatientInput = {
+  create?: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutPatientInput, Prisma.AppointmentSeriesUncheckedCreateWithoutPatientInput> | Prisma.AppointmentSeriesCreateWithoutPatientInput[] | Prisma.AppointmentSeriesUncheckedCreateWithoutPatientInput[]
+  connectOrCreate?: Prisma.AppointmentSeriesCreateOrConnectWithoutPatientInput | Prisma.AppointmentSeriesCreateOrConnectWithoutPatientInput[]
+  createMany?: Prisma.AppointmentSeriesCreateManyPatientInputEnvelope
+  connect?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+}
+
+export type AppointmentSeriesUncheckedCreateNestedManyWithoutPatientInput = {
+  create?: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutPatientInput, Prisma.AppointmentSeriesUncheckedCreateWithoutPatientInput> | Prisma.AppointmentSeriesCreateWithoutPatientInput[] | Prisma.AppointmentSeriesUncheckedCreateWithoutPatientInput[]
+  connectOrCreate?: Prisma.AppointmentSeriesCreateOrConnectWithoutPatientInput | Prisma.AppointmentSeriesCreateOrConnectWithoutPatientInput[]
+  createMany?: Prisma.AppointmentSeriesCreateManyPatientInputEnvelope
+  connect?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+}
+
+export type AppointmentSeriesUpdateManyWithoutPatientNestedInput = {
+  create?: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutPatientInput, Prisma.AppointmentSeriesUncheckedCreateWithoutPatientInput> | Prisma.AppointmentSeriesCreateWithoutPatientInput[] | Prisma.AppointmentSeriesUncheckedCreateWithoutPatientInput[]
+  connectOrCreate?: Prisma.AppointmentSeriesCreateOrConnectWithoutPatientInput | Prisma.AppointmentSeriesCreateOrConnectWithoutPatientInput[]
+  upsert?: Prisma.AppointmentSeriesUpsertWithWhereUniqueWithoutPatientInput | Prisma.AppointmentSeriesUpsertWithWhereUniqueWithoutPatientInput[]
+  createMany?: Prisma.AppointmentSeriesCreateManyPatientInputEnvelope
+  set?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  disconnect?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  delete?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  connect?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  update?: Prisma.AppointmentSeriesUpdateWithWhereUniqueWithoutPatientInput | Prisma.AppointmentSeriesUpdateWithWhereUniqueWithoutPatientInput[]
+  updateMany?: Prisma.AppointmentSeriesUpdateManyWithWhereWithoutPatientInput | Prisma.AppointmentSeriesUpdateManyWithWhereWithoutPatientInput[]
+  deleteMany?: Prisma.AppointmentSeriesScalarWhereInput | Prisma.AppointmentSeriesScalarWhereInput[]
+}
+
+export type AppointmentSeriesUncheckedUpdateManyWithoutPatientNestedInput = {
+  create?: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutPatientInput, Prisma.AppointmentSeriesUncheckedCreateWithoutPatientInput> | Prisma.AppointmentSeriesCreateWithoutPatientInput[] | Prisma.AppointmentSeriesUncheckedCreateWithoutPatientInput[]
+  connectOrCreate?: Prisma.AppointmentSeriesCreateOrConnectWithoutPatientInput | Prisma.AppointmentSeriesCreateOrConnectWithoutPatientInput[]
+  upsert?: Prisma.AppointmentSeriesUpsertWithWhereUniqueWithoutPatientInput | Prisma.AppointmentSeriesUpsertWithWhereUniqueWithoutPatientInput[]
+  createMany?: Prisma.AppointmentSeriesCreateManyPatientInputEnvelope
+  set?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  disconnect?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  delete?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  connect?: Prisma.AppointmentSeriesWhereUniqueInput | Prisma.AppointmentSeriesWhereUniqueInput[]
+  update?: Prisma.AppointmentSeriesUpdateWithWhereUniqueWithoutPatientInput | Prisma.AppointmentSeriesUpdateWithWhereUniqueWithoutPatientInput[]
+  updateMany?: Prisma.AppointmentSeriesUpdateManyWithWhereWithoutPatientInput | Prisma.AppointmentSeriesUpdateManyWithWhereWithoutPatientInput[]
+  deleteMany?: Prisma.AppointmentSeriesScalarWhereInput | Prisma.AppointmentSeriesScalarWhereInput[]
+}
+
+export type AppointmentSeriesCreateNestedOneWithoutAppointmentsInput = {
+  create?: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutAppointmentsInput, Prisma.AppointmentSeriesUncheckedCreateWithoutAppointmentsInput>
+  connectOrCreate?: Prisma.AppointmentSeriesCreateOrConnectWithoutAppointmentsInput
+  connect?: Prisma.AppointmentSeriesWhereUniqueInput
+}
+
+export type AppointmentSeriesUpdateOneWithoutAppointmentsNestedInput = {
+  create?: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutAppointmentsInput, Prisma.AppointmentSeriesUncheckedCreateWithoutAppointmentsInput>
+  connectOrCreate?: Prisma.AppointmentSeriesCreateOrConnectWithoutAppointmentsInput
+  upsert?: Prisma.AppointmentSeriesUpsertWithoutAppointmentsInput
+  disconnect?: Prisma.AppointmentSeriesWhereInput | boolean
+  delete?: Prisma.AppointmentSeriesWhereInput | boolean
+  connect?: Prisma.AppointmentSeriesWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.AppointmentSeriesUpdateToOneWithWhereWithoutAppointmentsInput, Prisma.AppointmentSeriesUpdateWithoutAppointmentsInput>, Prisma.AppointmentSeriesUncheckedUpdateWithoutAppointmentsInput>
+}
+
+export type EnumRecurrenceFrequencyFieldUpdateOperationsInput = {
+  set?: $Enums.RecurrenceFrequency
+}
+
+export type EnumAppointmentSeriesStatusFieldUpdateOperationsInput = {
+  set?: $Enums.AppointmentSeriesStatus
+}
+
+export type AppointmentSeriesCreateWithoutClinicInput = {
+  id?: string
+  type: $Enums.AppointmentType
+  frequency: $Enums.RecurrenceFrequency
+  interval?: number
+  startDate: Date | string
+  until?: Date | string | null
+  count?: number | null
+  time: string
+  duration?: number | null
+  appointmentPrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: string | null
+  status?: $Enums.AppointmentSeriesStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  patient: Prisma.PatientCreateNestedOneWithoutAppointmentSeriesInput
+  doctor: Prisma.DoctorCreateNestedOneWithoutAppointmentSeriesInput
+  service?: Prisma.ServiceCreateNestedOneWithoutAppointmentSeriesInput
+  appointments?: Prisma.AppointmentCreateNestedManyWithoutSeriesInput
+}
+
+export type AppointmentSeriesUncheckedCreateWithoutClinicInput = {
+  id?: string
+  patientId: string
+  doctorId: string
+  serviceId?: string | null
+  type: $Enums.AppointmentType
+  frequency: $Enums.RecurrenceFrequency
+  interval?: number
+  startDate: Date | string
+  until?: Date | string | null
+  count?: number | null
+  time: string
+  duration?: number | null
+  appointmentPrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: string | null
+  status?: $Enums.AppointmentSeriesStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutSeriesInput
+}
+
+export type AppointmentSeriesCreateOrConnectWithoutClinicInput = {
+  where: Prisma.AppointmentSeriesWhereUniqueInput
+  create: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutClinicInput, Prisma.AppointmentSeriesUncheckedCreateWithoutClinicInput>
+}
+
+export type AppointmentSeriesCreateManyClinicInputEnvelope = {
+  data: Prisma.AppointmentSeriesCreateManyClinicInput | Prisma.AppointmentSeriesCreateManyClinicInput[]
+  skipDuplicates?: boolean
+}
+
+export type AppointmentSeriesUpsertWithWhereUniqueWithoutClinicInput = {
+  where: Prisma.AppointmentSeriesWhereUniqueInput
+  update: Prisma.XOR<Prisma.AppointmentSeriesUpdateWithoutClinicInput, Prisma.AppointmentSeriesUncheckedUpdateWithoutClinicInput>
+  create: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutClinicInput, Prisma.AppointmentSeriesUncheckedCreateWithoutClinicInput>
+}
+
+export type AppointmentSeriesUpdateWithWhereUniqueWithoutClinicInput = {
+  where: Prisma.AppointmentSeriesWhereUniqueInput
+  data: Prisma.XOR<Prisma.AppointmentSeriesUpdateWithoutClinicInput, Prisma.AppointmentSeriesUncheckedUpdateWithoutClinicInput>
+}
+
+export type AppointmentSeriesUpdateManyWithWhereWithoutClinicInput = {
+  where: Prisma.AppointmentSeriesScalarWhereInput
+  data: Prisma.XOR<Prisma.AppointmentSeriesUpdateManyMutationInput, Prisma.AppointmentSeriesUncheckedUpdateManyWithoutClinicInput>
+}
+
+export type AppointmentSeriesScalarWhereInput = {
+  AND?: Prisma.AppointmentSeriesScalarWhereInput | Prisma.AppointmentSeriesScalarWhereInput[]
+  OR?: Prisma.AppointmentSeriesScalarWhereInput[]
+  NOT?: Prisma.AppointmentSeriesScalarWhereInput | Prisma.AppointmentSeriesScalarWhereInput[]
+  id?: Prisma.StringFilter<"AppointmentSeries"> | string
+  clinicId?: Prisma.StringFilter<"AppointmentSeries"> | string
+  patientId?: Prisma.StringFilter<"AppointmentSeries"> | string
+  doctorId?: Prisma.StringFilter<"AppointmentSeries"> | string
+  serviceId?: Prisma.StringNullableFilter<"AppointmentSeries"> | string | null
+  type?: Prisma.EnumAppointmentTypeFilter<"AppointmentSeries"> | $Enums.AppointmentType
+  frequency?: Prisma.EnumRecurrenceFrequencyFilter<"AppointmentSeries"> | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFilter<"AppointmentSeries"> | number
+  startDate?: Prisma.DateTimeFilter<"AppointmentSeries"> | Date | string
+  until?: Prisma.DateTimeNullableFilter<"AppointmentSeries"> | Date | string | null
+  count?: Prisma.IntNullableFilter<"AppointmentSeries"> | number | null
+  time?: Prisma.StringFilter<"AppointmentSeries"> | string
+  duration?: Prisma.IntNullableFilter<"AppointmentSeries"> | number | null
+  appointmentPrice?: Prisma.DecimalNullableFilter<"AppointmentSeries"> | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.StringNullableFilter<"AppointmentSeries"> | string | null
+  status?: Prisma.EnumAppointmentSeriesStatusFilter<"AppointmentSeries"> | $Enums.AppointmentSeriesStatus
+  createdAt?: Prisma.DateTimeFilter<"AppointmentSeries"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"AppointmentSeries"> | Date | string
+}
+
+export type AppointmentSeriesCreateWithoutDoctorInput = {
+  id?: string
+  type: $Enums.AppointmentType
+  frequency: $Enums.RecurrenceFrequency
+  interval?: number
+  startDate: Date | string
+  until?: Date | string | null
+  count?: number | null
+  time: string
+  duration?: number | null
+  appointmentPrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: string | null
+  status?: $Enums.AppointmentSeriesStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  clinic: Prisma.ClinicCreateNestedOneWithoutAppointmentSeriesInput
+  patient: Prisma.PatientCreateNestedOneWithoutAppointmentSeriesInput
+  service?: Prisma.ServiceCreateNestedOneWithoutAppointmentSeriesInput
+  appointments?: Prisma.AppointmentCreateNestedManyWithoutSeriesInput
+}
+
+export type AppointmentSeriesUncheckedCreateWithoutDoctorInput = {
+  id?: string
+  clinicId: string
+  patientId: string
+  serviceId?: string | null
+  type: $Enums.AppointmentType
+  frequency: $Enums.RecurrenceFrequency
+  interval?: number
+  startDate: Date | string
+  until?: Date | string | null
+  count?: number | null
+  time: string
+  duration?: number | null
+  appointmentPrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: string | null
+  status?: $Enums.AppointmentSeriesStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutSeriesInput
+}
+
+export type AppointmentSeriesCreateOrConnectWithoutDoctorInput = {
+  where: Prisma.AppointmentSeriesWhereUniqueInput
+  create: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutDoctorInput, Prisma.AppointmentSeriesUncheckedCreateWithoutDoctorInput>
+}
+
+export type AppointmentSeriesCreateManyDoctorInputEnvelope = {
+  data: Prisma.AppointmentSeriesCreateManyDoctorInput | Prisma.AppointmentSeriesCreateManyDoctorInput[]
+  skipDuplicates?: boolean
+}
+
+export type AppointmentSeriesUpsertWithWhereUniqueWithoutDoctorInput = {
+  where: Prisma.AppointmentSeriesWhereUniqueInput
+  update: Prisma.XOR<Prisma.AppointmentSeriesUpdateWithoutDoctorInput, Prisma.AppointmentSeriesUncheckedUpdateWithoutDoctorInput>
+  create: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutDoctorInput, Prisma.AppointmentSeriesUncheckedCreateWithoutDoctorInput>
+}
+
+export type AppointmentSeriesUpdateWithWhereUniqueWithoutDoctorInput = {
+  where: Prisma.AppointmentSeriesWhereUniqueInput
+  data: Prisma.XOR<Prisma.AppointmentSeriesUpdateWithoutDoctorInput, Prisma.AppointmentSeriesUncheckedUpdateWithoutDoctorInput>
+}
+
+export type AppointmentSeriesUpdateManyWithWhereWithoutDoctorInput = {
+  where: Prisma.AppointmentSeriesScalarWhereInput
+  data: Prisma.XOR<Prisma.AppointmentSeriesUpdateManyMutationInput, Prisma.AppointmentSeriesUncheckedUpdateManyWithoutDoctorInput>
+}
+
+export type AppointmentSeriesCreateWithoutServiceInput = {
+  id?: string
+  type: $Enums.AppointmentType
+  frequency: $Enums.RecurrenceFrequency
+  interval?: number
+  startDate: Date | string
+  until?: Date | string | null
+  count?: number | null
+  time: string
+  duration?: number | null
+  appointmentPrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: string | null
+  status?: $Enums.AppointmentSeriesStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  clinic: Prisma.ClinicCreateNestedOneWithoutAppointmentSeriesInput
+  patient: Prisma.PatientCreateNestedOneWithoutAppointmentSeriesInput
+  doctor: Prisma.DoctorCreateNestedOneWithoutAppointmentSeriesInput
+  appointments?: Prisma.AppointmentCreateNestedManyWithoutSeriesInput
+}
+
+export type AppointmentSeriesUncheckedCreateWithoutServiceInput = {
+  id?: string
+  clinicId: string
+  patientId: string
+  doctorId: string
+  type: $Enums.AppointmentType
+  frequency: $Enums.RecurrenceFrequency
+  interval?: number
+  startDate: Date | string
+  until?: Date | string | null
+  count?: number | null
+  time: string
+  duration?: number | null
+  appointmentPrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: string | null
+  status?: $Enums.AppointmentSeriesStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutSeriesInput
+}
+
+export type AppointmentSeriesCreateOrConnectWithoutServiceInput = {
+  where: Prisma.AppointmentSeriesWhereUniqueInput
+  create: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutServiceInput, Prisma.AppointmentSeriesUncheckedCreateWithoutServiceInput>
+}
+
+export type AppointmentSeriesCreateManyServiceInputEnvelope = {
+  data: Prisma.AppointmentSeriesCreateManyServiceInput | Prisma.AppointmentSeriesCreateManyServiceInput[]
+  skipDuplicates?: boolean
+}
+
+export type AppointmentSeriesUpsertWithWhereUniqueWithoutServiceInput = {
+  where: Prisma.AppointmentSeriesWhereUniqueInput
+  update: Prisma.XOR<Prisma.AppointmentSeriesUpdateWithoutServiceInput, Prisma.AppointmentSeriesUncheckedUpdateWithoutServiceInput>
+  create: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutServiceInput, Prisma.AppointmentSeriesUncheckedCreateWithoutServiceInput>
+}
+
+export type AppointmentSeriesUpdateWithWhereUniqueWithoutServiceInput = {
+  where: Prisma.AppointmentSeriesWhereUniqueInput
+  data: Prisma.XOR<Prisma.AppointmentSeriesUpdateWithoutServiceInput, Prisma.AppointmentSeriesUncheckedUpdateWithoutServiceInput>
+}
+
+export type AppointmentSeriesUpdateManyWithWhereWithoutServiceInput = {
+  where: Prisma.AppointmentSeriesScalarWhereInput
+  data: Prisma.XOR<Prisma.AppointmentSeriesUpdateManyMutationInput, Prisma.AppointmentSeriesUncheckedUpdateManyWithoutServiceInput>
+}
+
+export type AppointmentSeriesCreateWithoutPatientInput = {
+  id?: string
+  type: $Enums.AppointmentType
+  frequency: $Enums.RecurrenceFrequency
+  interval?: number
+  startDate: Date | string
+  until?: Date | string | null
+  count?: number | null
+  time: string
+  duration?: number | null
+  appointmentPrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: string | null
+  status?: $Enums.AppointmentSeriesStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  clinic: Prisma.ClinicCreateNestedOneWithoutAppointmentSeriesInput
+  doctor: Prisma.DoctorCreateNestedOneWithoutAppointmentSeriesInput
+  service?: Prisma.ServiceCreateNestedOneWithoutAppointmentSeriesInput
+  appointments?: Prisma.AppointmentCreateNestedManyWithoutSeriesInput
+}
+
+export type AppointmentSeriesUncheckedCreateWithoutPatientInput = {
+  id?: string
+  clinicId: string
+  doctorId: string
+  serviceId?: string | null
+  type: $Enums.AppointmentType
+  frequency: $Enums.RecurrenceFrequency
+  interval?: number
+  startDate: Date | string
+  until?: Date | string | null
+  count?: number | null
+  time: string
+  duration?: number | null
+  appointmentPrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: string | null
+  status?: $Enums.AppointmentSeriesStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutSeriesInput
+}
+
+export type AppointmentSeriesCreateOrConnectWithoutPatientInput = {
+  where: Prisma.AppointmentSeriesWhereUniqueInput
+  create: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutPatientInput, Prisma.AppointmentSeriesUncheckedCreateWithoutPatientInput>
+}
+
+export type AppointmentSeriesCreateManyPatientInputEnvelope = {
+  data: Prisma.AppointmentSeriesCreateManyPatientInput | Prisma.AppointmentSeriesCreateManyPatientInput[]
+  skipDuplicates?: boolean
+}
+
+export type AppointmentSeriesUpsertWithWhereUniqueWithoutPatientInput = {
+  where: Prisma.AppointmentSeriesWhereUniqueInput
+  update: Prisma.XOR<Prisma.AppointmentSeriesUpdateWithoutPatientInput, Prisma.AppointmentSeriesUncheckedUpdateWithoutPatientInput>
+  create: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutPatientInput, Prisma.AppointmentSeriesUncheckedCreateWithoutPatientInput>
+}
+
+export type AppointmentSeriesUpdateWithWhereUniqueWithoutPatientInput = {
+  where: Prisma.AppointmentSeriesWhereUniqueInput
+  data: Prisma.XOR<Prisma.AppointmentSeriesUpdateWithoutPatientInput, Prisma.AppointmentSeriesUncheckedUpdateWithoutPatientInput>
+}
+
+export type AppointmentSeriesUpdateManyWithWhereWithoutPatientInput = {
+  where: Prisma.AppointmentSeriesScalarWhereInput
+  data: Prisma.XOR<Prisma.AppointmentSeriesUpdateManyMutationInput, Prisma.AppointmentSeriesUncheckedUpdateManyWithoutPatientInput>
+}
+
+export type AppointmentSeriesCreateWithoutAppointmentsInput = {
+  id?: string
+  type: $Enums.AppointmentType
+  frequency: $Enums.RecurrenceFrequency
+  interval?: number
+  startDate: Date | string
+  until?: Date | string | null
+  count?: number | null
+  time: string
+  duration?: number | null
+  appointmentPrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: string | null
+  status?: $Enums.AppointmentSeriesStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  clinic: Prisma.ClinicCreateNestedOneWithoutAppointmentSeriesInput
+  patient: Prisma.PatientCreateNestedOneWithoutAppointmentSeriesInput
+  doctor: Prisma.DoctorCreateNestedOneWithoutAppointmentSeriesInput
+  service?: Prisma.ServiceCreateNestedOneWithoutAppointmentSeriesInput
+}
+
+export type AppointmentSeriesUncheckedCreateWithoutAppointmentsInput = {
+  id?: string
+  clinicId: string
+  patientId: string
+  doctorId: string
+  serviceId?: string | null
+  type: $Enums.AppointmentType
+  frequency: $Enums.RecurrenceFrequency
+  interval?: number
+  startDate: Date | string
+  until?: Date | string | null
+  count?: number | null
+  time: string
+  duration?: number | null
+  appointmentPrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: string | null
+  status?: $Enums.AppointmentSeriesStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type AppointmentSeriesCreateOrConnectWithoutAppointmentsInput = {
+  where: Prisma.AppointmentSeriesWhereUniqueInput
+  create: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutAppointmentsInput, Prisma.AppointmentSeriesUncheckedCreateWithoutAppointmentsInput>
+}
+
+export type AppointmentSeriesUpsertWithoutAppointmentsInput = {
+  update: Prisma.XOR<Prisma.AppointmentSeriesUpdateWithoutAppointmentsInput, Prisma.AppointmentSeriesUncheckedUpdateWithoutAppointmentsInput>
+  create: Prisma.XOR<Prisma.AppointmentSeriesCreateWithoutAppointmentsInput, Prisma.AppointmentSeriesUncheckedCreateWithoutAppointmentsInput>
+  where?: Prisma.AppointmentSeriesWhereInput
+}
+
+export type AppointmentSeriesUpdateToOneWithWhereWithoutAppointmentsInput = {
+  where?: Prisma.AppointmentSeriesWhereInput
+  data: Prisma.XOR<Prisma.AppointmentSeriesUpdateWithoutAppointmentsInput, Prisma.AppointmentSeriesUncheckedUpdateWithoutAppointmentsInput>
+}
+
+export type AppointmentSeriesUpdateWithoutAppointmentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  frequency?: Prisma.EnumRecurrenceFrequencyFieldUpdateOperationsInput | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  time?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  appointmentPrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumAppointmentSeriesStatusFieldUpdateOperationsInput | $Enums.AppointmentSeriesStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutAppointmentSeriesNestedInput
+  patient?: Prisma.PatientUpdateOneRequiredWithoutAppointmentSeriesNestedInput
+  doctor?: Prisma.DoctorUpdateOneRequiredWithoutAppointmentSeriesNestedInput
+  service?: Prisma.ServiceUpdateOneWithoutAppointmentSeriesNestedInput
+}
+
+export type AppointmentSeriesUncheckedUpdateWithoutAppointmentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.StringFieldUpdateOperationsInput | string
+  serviceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  frequency?: Prisma.EnumRecurrenceFrequencyFieldUpdateOperationsInput | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  time?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  appointmentPrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumAppointmentSeriesStatusFieldUpdateOperationsInput | $Enums.AppointmentSeriesStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AppointmentSeriesCreateManyClinicInput = {
+  id?: string
+  patientId: string
+  doctorId: string
+  serviceId?: string | null
+  type: $Enums.AppointmentType
+  frequency: $Enums.RecurrenceFrequency
+  interval?: number
+  startDate: Date | string
+  until?: Date | string | null
+  count?: number | null
+  time: string
+  duration?: number | null
+  appointmentPrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: string | null
+  status?: $Enums.AppointmentSeriesStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type AppointmentSeriesUpdateWithoutClinicInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  frequency?: Prisma.EnumRecurrenceFrequencyFieldUpdateOperationsInput | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  time?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  appointmentPrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumAppointmentSeriesStatusFieldUpdateOperationsInput | $Enums.AppointmentSeriesStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  patient?: Prisma.PatientUpdateOneRequiredWithoutAppointmentSeriesNestedInput
+  doctor?: Prisma.DoctorUpdateOneRequiredWithoutAppointmentSeriesNestedInput
+  service?: Prisma.ServiceUpdateOneWithoutAppointmentSeriesNestedInput
+  appointments?: Prisma.AppointmentUpdateManyWithoutSeriesNestedInput
+}
+
+export type AppointmentSeriesUncheckedUpdateWithoutClinicInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.StringFieldUpdateOperationsInput | string
+  serviceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  frequency?: Prisma.EnumRecurrenceFrequencyFieldUpdateOperationsInput | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  time?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  appointmentPrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumAppointmentSeriesStatusFieldUpdateOperationsInput | $Enums.AppointmentSeriesStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutSeriesNestedInput
+}
+
+export type AppointmentSeriesUncheckedUpdateManyWithoutClinicInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.StringFieldUpdateOperationsInput | string
+  serviceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  frequency?: Prisma.EnumRecurrenceFrequencyFieldUpdateOperationsInput | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  time?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  appointmentPrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumAppointmentSeriesStatusFieldUpdateOperationsInput | $Enums.AppointmentSeriesStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AppointmentSeriesCreateManyDoctorInput = {
+  id?: string
+  clinicId: string
+  patientId: string
+  serviceId?: string | null
+  type: $Enums.AppointmentType
+  frequency: $Enums.RecurrenceFrequency
+  interval?: number
+  startDate: Date | string
+  until?: Date | string | null
+  count?: number | null
+  time: string
+  duration?: number | null
+  appointmentPrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: string | null
+  status?: $Enums.AppointmentSeriesStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type AppointmentSeriesUpdateWithoutDoctorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  frequency?: Prisma.EnumRecurrenceFrequencyFieldUpdateOperationsInput | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  time?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  appointmentPrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumAppointmentSeriesStatusFieldUpdateOperationsInput | $Enums.AppointmentSeriesStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutAppointmentSeriesNestedInput
+  patient?: Prisma.PatientUpdateOneRequiredWithoutAppointmentSeriesNestedInput
+  service?: Prisma.ServiceUpdateOneWithoutAppointmentSeriesNestedInput
+  appointments?: Prisma.AppointmentUpdateManyWithoutSeriesNestedInput
+}
+
+export type AppointmentSeriesUncheckedUpdateWithoutDoctorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  serviceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  frequency?: Prisma.EnumRecurrenceFrequencyFieldUpdateOperationsInput | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  time?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  appointmentPrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumAppointmentSeriesStatusFieldUpdateOperationsInput | $Enums.AppointmentSeriesStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutSeriesNestedInput
+}
+
+export type AppointmentSeriesUncheckedUpdateManyWithoutDoctorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  serviceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  frequency?: Prisma.EnumRecurrenceFrequencyFieldUpdateOperationsInput | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  time?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  appointmentPrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumAppointmentSeriesStatusFieldUpdateOperationsInput | $Enums.AppointmentSeriesStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AppointmentSeriesCreateManyServiceInput = {
+  id?: string
+  clinicId: string
+  patientId: string
+  doctorId: string
+  type: $Enums.AppointmentType
+  frequency: $Enums.RecurrenceFrequency
+  interval?: number
+  startDate: Date | string
+  until?: Date | string | null
+  count?: number | null
+  time: string
+  duration?: number | null
+  appointmentPrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: string | null
+  status?: $Enums.AppointmentSeriesStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type AppointmentSeriesUpdateWithoutServiceInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  frequency?: Prisma.EnumRecurrenceFrequencyFieldUpdateOperationsInput | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  time?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  appointmentPrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumAppointmentSeriesStatusFieldUpdateOperationsInput | $Enums.AppointmentSeriesStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutAppointmentSeriesNestedInput
+  patient?: Prisma.PatientUpdateOneRequiredWithoutAppointmentSeriesNestedInput
+  doctor?: Prisma.DoctorUpdateOneRequiredWithoutAppointmentSeriesNestedInput
+  appointments?: Prisma.AppointmentUpdateManyWithoutSeriesNestedInput
+}
+
+export type AppointmentSeriesUncheckedUpdateWithoutServiceInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  frequency?: Prisma.EnumRecurrenceFrequencyFieldUpdateOperationsInput | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  time?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  appointmentPrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumAppointmentSeriesStatusFieldUpdateOperationsInput | $Enums.AppointmentSeriesStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutSeriesNestedInput
+}
+
+export type AppointmentSeriesUncheckedUpdateManyWithoutServiceInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  frequency?: Prisma.EnumRecurrenceFrequencyFieldUpdateOperationsInput | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  time?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  appointmentPrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumAppointmentSeriesStatusFieldUpdateOperationsInput | $Enums.AppointmentSeriesStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type AppointmentSeriesCreateManyPatientInput = {
+  id?: string
+  clinicId: string
+  doctorId: string
+  serviceId?: string | null
+  type: $Enums.AppointmentType
+  frequency: $Enums.RecurrenceFrequency
+  interval?: number
+  startDate: Date | string
+  until?: Date | string | null
+  count?: number | null
+  time: string
+  duration?: number | null
+  appointmentPrice?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: string | null
+  status?: $Enums.AppointmentSeriesStatus
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type AppointmentSeriesUpdateWithoutPatientInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  frequency?: Prisma.EnumRecurrenceFrequencyFieldUpdateOperationsInput | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  time?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  appointmentPrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumAppointmentSeriesStatusFieldUpdateOperationsInput | $Enums.AppointmentSeriesStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutAppointmentSeriesNestedInput
+  doctor?: Prisma.DoctorUpdateOneRequiredWithoutAppointmentSeriesNestedInput
+  service?: Prisma.ServiceUpdateOneWithoutAppointmentSeriesNestedInput
+  appointments?: Prisma.AppointmentUpdateManyWithoutSeriesNestedInput
+}
+
+export type AppointmentSeriesUncheckedUpdateWithoutPatientInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.StringFieldUpdateOperationsInput | string
+  serviceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  frequency?: Prisma.EnumRecurrenceFrequencyFieldUpdateOperationsInput | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  time?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  appointmentPrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumAppointmentSeriesStatusFieldUpdateOperationsInput | $Enums.AppointmentSeriesStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutSeriesNestedInput
+}
+
+export type AppointmentSeriesUncheckedUpdateManyWithoutPatientInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.StringFieldUpdateOperationsInput | string
+  serviceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  frequency?: Prisma.EnumRecurrenceFrequencyFieldUpdateOperationsInput | $Enums.RecurrenceFrequency
+  interval?: Prisma.IntFieldUpdateOperationsInput | number
+  startDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  until?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  count?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  time?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  appointmentPrice?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.EnumAppointmentSeriesStatusFieldUpdateOperationsInput | $Enums.AppointmentSeriesStatus
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type AppointmentSeriesCountOutputType
+ */
+
+export type AppointmentSeriesCountOutputType = {
+  appointments: number
+}
+
+export type AppointmentSeriesCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  appointments?: boolean | AppointmentSeriesCountOutputTypeCountAppointmentsArgs
+}
+
+/**
+ * AppointmentSeriesCountOutputType without action
+ */
+export type AppointmentSeriesCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppointmentSeriesCountOutputType
+   */
+  select?: Prisma.AppointmentSeriesCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * AppointmentSeriesCountOutputType without action
+ */
+export type AppointmentSeriesCountOutputTypeCountAppointmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AppointmentWhereInput
+}
+
+
+export type AppointmentSeriesSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  clinicId?: boolean
+  patientId?: boolean
+  doctorId?: boolean
+  serviceId?: boolean
+  type?: boolean
+  frequency?: boolean
+  interval?: boolean
+  startDate?: boolean
+  until?: boolean
+  count?: boolean
+  time?: boolean
+  duration?: boolean
+  appointmentPrice?: boolean
+  note?: boolean
+  status?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  doctor?: boolean | Prisma.DoctorDefaultArgs<ExtArgs>
+  service?: boolean | Prisma.AppointmentSeries$serviceArgs<ExtArgs>
+  appointments?: boolean | Prisma.AppointmentSeries$appointmentsArgs<ExtArgs>
+  _count?: boolean | Prisma.AppointmentSeriesCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["appointmentSeries"]>
+
+export type AppointmentSeriesSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  clinicId?: boolean
+  patientId?: boolean
+  doctorId?: boolean
+  serviceId?: boolean
+  type?: boolean
+  frequency?: boolean
+  interval?: boolean
+  startDate?: boolean
+  until?: boolean
+  count?: boolean
+  time?: boolean
+  duration?: boolean
+  appointmentPrice?: boolean
+  note?: boolean
+  status?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  doctor?: boolean | Prisma.DoctorDefaultArgs<ExtArgs>
+  service?: boolean | Prisma.AppointmentSeries$serviceArgs<ExtArgs>
+}, ExtArgs["result"]["appointmentSeries"]>
+
+export type AppointmentSeriesSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  clinicId?: boolean
+  patientId?: boolean
+  doctorId?: boolean
+  serviceId?: boolean
+  type?: boolean
+  frequency?: boolean
+  interval?: boolean
+  startDate?: boolean
+  until?: boolean
+  count?: boolean
+  time?: boolean
+  duration?: boolean
+  appointmentPrice?: boolean
+  note?: boolean
+  status?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  doctor?: boolean | Prisma.DoctorDefaultArgs<ExtArgs>
+  service?: boolean | Prisma.AppointmentSeries$serviceArgs<ExtArgs>
+}, ExtArgs["result"]["appointmentSeries"]>
+
+export type AppointmentSeriesSelectScalar = {
+  id?: boolean
+  clinicId?: boolean
+  patientId?: boolean
+  doctorId?: boolean
+  serviceId?: boolean
+  type?: boolean
+  frequency?: boolean
+  interval?: boolean
+  startDate?: boolean
+  until?: boolean
+  count?: boolean
+  time?: boolean
+  duration?: boolean
+  appointmentPrice?: boolean
+  note?: boolean
+  status?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type AppointmentSeriesOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "clinicId" | "patientId" | "doctorId" | "serviceId" | "type" | "frequency" | "interval" | "startDate" | "until" | "count" | "time" | "duration" | "appointmentPrice" | "note" | "status" | "createdAt" | "updatedAt", ExtArgs["result"]["appointmentSeries"]>
+export type AppointmentSeriesInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  doctor?: boolean | Prisma.DoctorDefaultArgs<ExtArgs>
+  service?: boolean | Prisma.AppointmentSeries$serviceArgs<ExtArgs>
+  appointments?: boolean | Prisma.AppointmentSeries$appointmentsArgs<ExtArgs>
+  _count?: boolean | Prisma.AppointmentSeriesCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type AppointmentSeriesIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  doctor?: boolean | Prisma.DoctorDefaultArgs<ExtArgs>
+  service?: boolean | Prisma.AppointmentSeries$serviceArgs<ExtArgs>
+}
+export type AppointmentSeriesIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  doctor?: boolean | Prisma.DoctorDefaultArgs<ExtArgs>
+  service?: boolean | Prisma.AppointmentSeries$serviceArgs<ExtArgs>
+}
+
+export type $AppointmentSeriesPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "AppointmentSeries"
+  objects: {
+    clinic: Prisma.$ClinicPayload<ExtArgs>
+    patient: Prisma.$PatientPayload<ExtArgs>
+    doctor: Prisma.$DoctorPayload<ExtArgs>
+    service: Prisma.$ServicePayload<ExtArgs> | null
+    appointments: Prisma.$AppointmentPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    clinicId: string
+    patientId: string
+    doctorId: string
+    serviceId: string | null
+    type: $Enums.AppointmentType
+    frequency: $Enums.RecurrenceFrequency
+    interval: number
+    startDate: Date
+    until: Date | null
+    count: number | null
+    time: string
+    duration: number | null
+    appointmentPrice: runtime.Decimal | null
+    note: string | null
+    status: $Enums.AppointmentSeriesStatus
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["appointmentSeries"]>
+  composites: {}
+}
+
+export type AppointmentSeriesGetPayload<S extends boolean | null | undefined | AppointmentSeriesDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$AppointmentSeriesPayload, S>
+
+export type AppointmentSeriesCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<AppointmentSeriesFindManyArgs, 'select' | 'include' | 'distinct' | 'omit' | 'relationLoadStrategy'> & {
+    select?: AppointmentSeriesCountAggregateInputType | true
+  }
+
+export interface AppointmentSeriesDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['AppointmentSeries'], meta: { name: 'AppointmentSeries' } }
+  /**
+   * Find zero or one AppointmentSeries that matches the filter.
+   * @param {AppointmentSeriesFindUniqueArgs} args - Arguments to find a AppointmentSeries
+   * @example
+   * // Get one AppointmentSeries
+   * const appointmentSeries = await prisma.appointmentSeries.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends AppointmentSeriesFindUniqueArgs>(args: Prisma.SelectSubset<T, AppointmentSeriesFindUniqueArgs<ExtArgs>>): Prisma.Prisma__AppointmentSeriesClient<runtime.Types.Result.GetResult<Prisma.$AppointmentSeriesPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one AppointmentSeries that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {AppointmentSeriesFindUniqueOrThrowArgs} args - Arguments to find a AppointmentSeries
+   * @example
+   * // Get one AppointmentSeries
+   * const appointmentSeries = await prisma.appointmentSeries.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends AppointmentSeriesFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, AppointmentSeriesFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__AppointmentSeriesClient<runtime.Types.Result.GetResult<Prisma.$AppointmentSeriesPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first AppointmentSeries that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AppointmentSeriesFindFirstArgs} args - Arguments to find a AppointmentSeries
+   * @example
+   * // Get one AppointmentSeries
+   * const appointmentSeries = await prisma.appointmentSeries.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends AppointmentSeriesFindFirstArgs>(args?: Prisma.SelectSubset<T, AppointmentSeriesFindFirstArgs<ExtArgs>>): Prisma.Prisma__AppointmentSeriesClient<runtime.Types.Result.GetResult<Prisma.$AppointmentSeriesPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first AppointmentSeries that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AppointmentSeriesFindFirstOrThrowArgs} args - Arguments to find a AppointmentSeries
+   * @example
+   * // Get one AppointmentSeries
+   * const appointmentSeries = await prisma.appointmentSeries.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends AppointmentSeriesFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, AppointmentSeriesFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__AppointmentSeriesClient<runtime.Types.Result.GetResult<Prisma.$AppointmentSeriesPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more AppointmentSeries that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AppointmentSeriesFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all AppointmentSeries
+   * const appointmentSeries = await prisma.appointmentSeries.findMany()
+   * 
+   * // Get first 10 AppointmentSeries
+   * const appointmentSeries = await prisma.appointmentSeries.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const appointmentSeriesWithIdOnly = await prisma.appointmentSeries.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends AppointmentSeriesFindManyArgs>(args?: Prisma.SelectSubset<T, AppointmentSeriesFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AppointmentSeriesPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a AppointmentSeries.
+   * @param {AppointmentSeriesCreateArgs} args - Arguments to create a AppointmentSeries.
+   * @example
+   * // Create one AppointmentSeries
+   * const AppointmentSeries = await prisma.appointmentSeries.create({
+   *   data: {
+   *     // ... data to create a AppointmentSeries
+   *   }
+   * })
+   * 
+   */
+  create<T extends AppointmentSeriesCreateArgs>(args: Prisma.SelectSubset<T, AppointmentSeriesCreateArgs<ExtArgs>>): Prisma.Prisma__AppointmentSeriesClient<runtime.Types.Result.GetResult<Prisma.$AppointmentSeriesPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many AppointmentSeries.
+   * @param {AppointmentSeriesCreateManyArgs} args - Arguments to create many AppointmentSeries.
+   * @example
+   * // Create many AppointmentSeries
+   * const appointmentSeries = await prisma.appointmentSeries.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends AppointmentSeriesCreateManyArgs>(args?: Prisma.SelectSubset<T, AppointmentSeriesCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many AppointmentSeries and returns the data saved in the database.
+   * @param {AppointmentSeriesCreateManyAndReturnArgs} args - Arguments to create many AppointmentSeries.
+   * @example
+   * // Create many AppointmentSeries
+   * const appointmentSeries = await prisma.appointmentSeries.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many AppointmentSeries and only return the `id`
+   * const appointmentSeriesWithIdOnly = await prisma.appointmentSeries.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends AppointmentSeriesCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, AppointmentSeriesCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AppointmentSeriesPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a AppointmentSeries.
+   * @param {AppointmentSeriesDeleteArgs} args - Arguments to delete one AppointmentSeries.
+   * @example
+   * // Delete one AppointmentSeries
+   * const AppointmentSeries = await prisma.appointmentSeries.delete({
+   *   where: {
+   *     // ... filter to delete one AppointmentSeries
+   *   }
+   * })
+   * 
+   */
+  delete<T extends AppointmentSeriesDeleteArgs>(args: Prisma.SelectSubset<T, AppointmentSeriesDeleteArgs<ExtArgs>>): Prisma.Prisma__AppointmentSeriesClient<runtime.Types.Result.GetResult<Prisma.$AppointmentSeriesPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one AppointmentSeries.
+   * @param {AppointmentSeriesUpdateArgs} args - Arguments to update one AppointmentSeries.
+   * @example
+   * // Update one AppointmentSeries
+   * const appointmentSeries = await prisma.appointmentSeries.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends AppointmentSeriesUpdateArgs>(args: Prisma.SelectSubset<T, AppointmentSeriesUpdateArgs<ExtArgs>>): Prisma.Prisma__AppointmentSeriesClient<runtime.Types.Result.GetResult<Prisma.$AppointmentSeriesPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more AppointmentSeries.
+   * @param {AppointmentSeriesDeleteManyArgs} args - Arguments to filter AppointmentSeries to delete.
+   * @example
+   * // Delete a few AppointmentSeries
+   * const { count } = await prisma.appointmentSeries.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends AppointmentSeriesDeleteManyArgs>(args?: Prisma.SelectSubset<T, AppointmentSeriesDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more AppointmentSeries.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AppointmentSeriesUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many AppointmentSeries
+   * const appointmentSeries = await prisma.appointmentSeries.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends AppointmentSeriesUpdateManyArgs>(args: Prisma.SelectSubset<T, AppointmentSeriesUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more AppointmentSeries and returns the data updated in the database.
+   * @param {AppointmentSeriesUpdateManyAndReturnArgs} args - Arguments to update many AppointmentSeries.
+   * @example
+   * // Update many AppointmentSeries
+   * const appointmentSeries = await prisma.appointmentSeries.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more AppointmentSeries and only return the `id`
+   * const appointmentSeriesWithIdOnly = await prisma.appointmentSeries.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends AppointmentSeriesUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, AppointmentSeriesUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AppointmentSeriesPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one AppointmentSeries.
+   * @param {AppointmentSeriesUpsertArgs} args - Arguments to update or create a AppointmentSeries.
+   * @example
+   * // Update or create a AppointmentSeries
+   * const appointmentSeries = await prisma.appointmentSeries.upsert({
+   *   create: {
+   *     // ... data to create a AppointmentSeries
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the AppointmentSeries we want to update
+   *   }
+   * })
+   */
+  upsert<T extends AppointmentSeriesUpsertArgs>(args: Prisma.SelectSubset<T, AppointmentSeriesUpsertArgs<ExtArgs>>): Prisma.Prisma__AppointmentSeriesClient<runtime.Types.Result.GetResult<Prisma.$AppointmentSeriesPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of AppointmentSeries.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AppointmentSeriesCountArgs} args - Arguments to filter AppointmentSeries to count.
+   * @example
+   * // Count the number of AppointmentSeries
+   * const count = await prisma.appointmentSeries.count({
+   *   where: {
+   *     // ... the filter for the AppointmentSeries we want to count
+   *   }
+   * })
+  **/
+  count<T extends AppointmentSeriesCountArgs>(
+    args?: Prisma.Subset<T, AppointmentSeriesCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], AppointmentSeriesCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a AppointmentSeries.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AppointmentSeriesAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends AppointmentSeriesAggregateArgs>(args: Prisma.Subset<T, AppointmentSeriesAggregateArgs>): Prisma.PrismaPromise<GetAppointmentSeriesAggregateType<T>>
+
+  /**
+   * Group by AppointmentSeries.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {AppointmentSeriesGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends AppointmentSeriesGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: AppointmentSeriesGroupByArgs['orderBy'] }
+      : { orderBy?: AppointmentSeriesGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, AppointmentSeriesGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetAppointmentSeriesGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the AppointmentSeries model
+ */
+readonly fields: AppointmentSeriesFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for AppointmentSeries.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__AppointmentSeriesClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  clinic<T extends Prisma.ClinicDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ClinicDefaultArgs<ExtArgs>>): Prisma.Prisma__ClinicClient<runtime.Types.Result.GetResult<Prisma.$ClinicPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  patient<T extends Prisma.PatientDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PatientDefaultArgs<ExtArgs>>): Prisma.Prisma__PatientClient<runtime.Types.Result.GetResult<Prisma.$PatientPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  doctor<T extends Prisma.DoctorDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.DoctorDefaultArgs<ExtArgs>>): Prisma.Prisma__DoctorClient<runtime.Types.Result.GetResult<Prisma.$DoctorPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  service<T extends Prisma.AppointmentSeries$serviceArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.AppointmentSeries$serviceArgs<ExtArgs>>): Prisma.Prisma__ServiceClient<runtime.Types.Result.GetResult<Prisma.$ServicePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  appointments<T extends Prisma.AppointmentSeries$appointmentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.AppointmentSeries$appointmentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AppointmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the AppointmentSeries model
+ */
+export interface AppointmentSeriesFieldRefs {
+  readonly id: Prisma.FieldRef<"AppointmentSeries", 'String'>
+  readonly clinicId: Prisma.FieldRef<"AppointmentSeries", 'String'>
+  readonly patientId: Prisma.FieldRef<"AppointmentSeries", 'String'>
+  readonly doctorId: Prisma.FieldRef<"AppointmentSeries", 'String'>
+  readonly serviceId: Prisma.FieldRef<"AppointmentSeries", 'String'>
+  readonly type: Prisma.FieldRef<"AppointmentSeries", 'AppointmentType'>
+  readonly frequency: Prisma.FieldRef<"AppointmentSeries", 'RecurrenceFrequency'>
+  readonly interval: Prisma.FieldRef<"AppointmentSeries", 'Int'>
+  readonly startDate: Prisma.FieldRef<"AppointmentSeries", 'DateTime'>
+  readonly until: Prisma.FieldRef<"AppointmentSeries", 'DateTime'>
+  readonly count: Prisma.FieldRef<"AppointmentSeries", 'Int'>
+  readonly time: Prisma.FieldRef<"AppointmentSeries", 'String'>
+  readonly duration: Prisma.FieldRef<"AppointmentSeries", 'Int'>
+  readonly appointmentPrice: Prisma.FieldRef<"AppointmentSeries", 'Decimal'>
+  readonly note: Prisma.FieldRef<"AppointmentSeries", 'String'>
+  readonly status: Prisma.FieldRef<"AppointmentSeries", 'AppointmentSeriesStatus'>
+  readonly createdAt: Prisma.FieldRef<"AppointmentSeries", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"AppointmentSeries", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * AppointmentSeries findUnique
+ */
+export type AppointmentSeriesFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppointmentSeries
+   */
+  select?: Prisma.AppointmentSeriesSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppointmentSeries
+   */
+  omit?: Prisma.AppointmentSeriesOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AppointmentSeriesInclude<ExtArgs> | null
+  /**
+   * Filter, which AppointmentSeries to fetch.
+   */
+  where: Prisma.AppointmentSeriesWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * AppointmentSeries findUniqueOrThrow
+ */
+export type AppointmentSeriesFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppointmentSeries
+   */
+  select?: Prisma.AppointmentSeriesSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppointmentSeries
+   */
+  omit?: Prisma.AppointmentSeriesOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AppointmentSeriesInclude<ExtArgs> | null
+  /**
+   * Filter, which AppointmentSeries to fetch.
+   */
+  where: Prisma.AppointmentSeriesWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * AppointmentSeries findFirst
+ */
+export type AppointmentSeriesFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppointmentSeries
+   */
+  select?: Prisma.AppointmentSeriesSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppointmentSeries
+   */
+  omit?: Prisma.AppointmentSeriesOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AppointmentSeriesInclude<ExtArgs> | null
+  /**
+   * Filter, which AppointmentSeries to fetch.
+   */
+  where?: Prisma.AppointmentSeriesWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AppointmentSeries to fetch.
+   */
+  orderBy?: Prisma.AppointmentSeriesOrderByWithRelationInput | Prisma.AppointmentSeriesOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for AppointmentSeries.
+   */
+  cursor?: Prisma.AppointmentSeriesWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AppointmentSeries from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AppointmentSeries.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of AppointmentSeries.
+   */
+  distinct?: Prisma.AppointmentSeriesScalarFieldEnum | Prisma.AppointmentSeriesScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * AppointmentSeries findFirstOrThrow
+ */
+export type AppointmentSeriesFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppointmentSeries
+   */
+  select?: Prisma.AppointmentSeriesSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppointmentSeries
+   */
+  omit?: Prisma.AppointmentSeriesOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AppointmentSeriesInclude<ExtArgs> | null
+  /**
+   * Filter, which AppointmentSeries to fetch.
+   */
+  where?: Prisma.AppointmentSeriesWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AppointmentSeries to fetch.
+   */
+  orderBy?: Prisma.AppointmentSeriesOrderByWithRelationInput | Prisma.AppointmentSeriesOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for AppointmentSeries.
+   */
+  cursor?: Prisma.AppointmentSeriesWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AppointmentSeries from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AppointmentSeries.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of AppointmentSeries.
+   */
+  distinct?: Prisma.AppointmentSeriesScalarFieldEnum | Prisma.AppointmentSeriesScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * AppointmentSeries findMany
+ */
+export type AppointmentSeriesFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppointmentSeries
+   */
+  select?: Prisma.AppointmentSeriesSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppointmentSeries
+   */
+  omit?: Prisma.AppointmentSeriesOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AppointmentSeriesInclude<ExtArgs> | null
+  /**
+   * Filter, which AppointmentSeries to fetch.
+   */
+  where?: Prisma.AppointmentSeriesWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of AppointmentSeries to fetch.
+   */
+  orderBy?: Prisma.AppointmentSeriesOrderByWithRelationInput | Prisma.AppointmentSeriesOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing AppointmentSeries.
+   */
+  cursor?: Prisma.AppointmentSeriesWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` AppointmentSeries from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` AppointmentSeries.
+   */
+  skip?: number
+  distinct?: Prisma.AppointmentSeriesScalarFieldEnum | Prisma.AppointmentSeriesScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * AppointmentSeries create
+ */
+export type AppointmentSeriesCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppointmentSeries
+   */
+  select?: Prisma.AppointmentSeriesSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppointmentSeries
+   */
+  omit?: Prisma.AppointmentSeriesOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AppointmentSeriesInclude<ExtArgs> | null
+  /**
+   * The data needed to create a AppointmentSeries.
+   */
+  data: Prisma.XOR<Prisma.AppointmentSeriesCreateInput, Prisma.AppointmentSeriesUncheckedCreateInput>
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * AppointmentSeries createMany
+ */
+export type AppointmentSeriesCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many AppointmentSeries.
+   */
+  data: Prisma.AppointmentSeriesCreateManyInput | Prisma.AppointmentSeriesCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * AppointmentSeries createManyAndReturn
+ */
+export type AppointmentSeriesCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppointmentSeries
+   */
+  select?: Prisma.AppointmentSeriesSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppointmentSeries
+   */
+  omit?: Prisma.AppointmentSeriesOmit<ExtArgs> | null
+  /**
+   * The data used to create many AppointmentSeries.
+   */
+  data: Prisma.AppointmentSeriesCreateManyInput | Prisma.AppointmentSeriesCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AppointmentSeriesIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * AppointmentSeries update
+ */
+export type AppointmentSeriesUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppointmentSeries
+   */
+  select?: Prisma.AppointmentSeriesSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppointmentSeries
+   */
+  omit?: Prisma.AppointmentSeriesOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AppointmentSeriesInclude<ExtArgs> | null
+  /**
+   * The data needed to update a AppointmentSeries.
+   */
+  data: Prisma.XOR<Prisma.AppointmentSeriesUpdateInput, Prisma.AppointmentSeriesUncheckedUpdateInput>
+  /**
+   * Choose, which AppointmentSeries to update.
+   */
+  where: Prisma.AppointmentSeriesWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * AppointmentSeries updateMany
+ */
+export type AppointmentSeriesUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update AppointmentSeries.
+   */
+  data: Prisma.XOR<Prisma.AppointmentSeriesUpdateManyMutationInput, Prisma.AppointmentSeriesUncheckedUpdateManyInput>
+  /**
+   * Filter which AppointmentSeries to update
+   */
+  where?: Prisma.AppointmentSeriesWhereInput
+  /**
+   * Limit how many AppointmentSeries to update.
+   */
+  limit?: number
+}
+
+/**
+ * AppointmentSeries updateManyAndReturn
+ */
+export type AppointmentSeriesUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppointmentSeries
+   */
+  select?: Prisma.AppointmentSeriesSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppointmentSeries
+   */
+  omit?: Prisma.AppointmentSeriesOmit<ExtArgs> | null
+  /**
+   * The data used to update AppointmentSeries.
+   */
+  data: Prisma.XOR<Prisma.AppointmentSeriesUpdateManyMutationInput, Prisma.AppointmentSeriesUncheckedUpdateManyInput>
+  /**
+   * Filter which AppointmentSeries to update
+   */
+  where?: Prisma.AppointmentSeriesWhereInput
+  /**
+   * Limit how many AppointmentSeries to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AppointmentSeriesIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * AppointmentSeries upsert
+ */
+export type AppointmentSeriesUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppointmentSeries
+   */
+  select?: Prisma.AppointmentSeriesSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppointmentSeries
+   */
+  omit?: Prisma.AppointmentSeriesOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AppointmentSeriesInclude<ExtArgs> | null
+  /**
+   * The filter to search for the AppointmentSeries to update in case it exists.
+   */
+  where: Prisma.AppointmentSeriesWhereUniqueInput
+  /**
+   * In case the AppointmentSeries found by the `where` argument doesn't exist, create a new AppointmentSeries with this data.
+   */
+  create: Prisma.XOR<Prisma.AppointmentSeriesCreateInput, Prisma.AppointmentSeriesUncheckedCreateInput>
+  /**
+   * In case the AppointmentSeries was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.AppointmentSeriesUpdateInput, Prisma.AppointmentSeriesUncheckedUpdateInput>
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * AppointmentSeries delete
+ */
+export type AppointmentSeriesDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppointmentSeries
+   */
+  select?: Prisma.AppointmentSeriesSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppointmentSeries
+   */
+  omit?: Prisma.AppointmentSeriesOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AppointmentSeriesInclude<ExtArgs> | null
+  /**
+   * Filter which AppointmentSeries to delete.
+   */
+  where: Prisma.AppointmentSeriesWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * AppointmentSeries deleteMany
+ */
+export type AppointmentSeriesDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which AppointmentSeries to delete
+   */
+  where?: Prisma.AppointmentSeriesWhereInput
+  /**
+   * Limit how many AppointmentSeries to delete.
+   */
+  limit?: number
+}
+
+/**
+ * AppointmentSeries.service
+ */
+export type AppointmentSeries$serviceArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Service
+   */
+  select?: Prisma.ServiceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Service
+   */
+  omit?: Prisma.ServiceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ServiceInclude<ExtArgs> | null
+  where?: Prisma.ServiceWhereInput
+}
+
+/**
+ * AppointmentSeries.appointments
+ */
+export type AppointmentSeries$appointmentsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Appointment
+   */
+  select?: Prisma.AppointmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Appointment
+   */
+  omit?: Prisma.AppointmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AppointmentInclude<ExtArgs> | null
+  where?: Prisma.AppointmentWhereInput
+  orderBy?: Prisma.AppointmentOrderByWithRelationInput | Prisma.AppointmentOrderByWithRelationInput[]
+  cursor?: Prisma.AppointmentWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.AppointmentScalarFieldEnum | Prisma.AppointmentScalarFieldEnum[]
+}
+
+/**
+ * AppointmentSeries without action
+ */
+export type AppointmentSeriesDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppointmentSeries
+   */
+  select?: Prisma.AppointmentSeriesSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppointmentSeries
+   */
+  omit?: Prisma.AppointmentSeriesOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AppointmentSeriesInclude<ExtArgs> | null
+}
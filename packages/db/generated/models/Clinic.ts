@@ -233,6 +233,8 @@ export type ClinicWhereInput = {
   doctors?: Prisma.DoctorListRelationFilter
   patients?: Prisma.PatientListRelationFilter
   appointments?: Prisma.AppointmentListRelationFilter
+  appointmentSeries?: Prisma.AppointmentSeriesListRelationFilter
+  waitlistEntries?: Prisma.WaitlistEntryListRelationFilter
   medicalRecords?: Prisma.MedicalRecordsListRelationFilter
   clinicSettings?: Prisma.ClinicSettingListRelationFilter
   prescriptions?: Prisma.PrescriptionListRelationFilter
@@ -243,12 +245,17 @@ export type ClinicWhereInput = {
   staffs?: Prisma.StaffListRelationFilter
   expenses?: Prisma.ExpenseListRelationFilter
   workingDays?: Prisma.WorkingDaysListRelationFilter
+  doctorBreaks?: Prisma.DoctorBreakListRelationFilter
+  scheduleExceptions?: Prisma.ScheduleExceptionListRelationFilter
   features?: Prisma.FeatureListRelationFilter
   systemSettings?: Prisma.SystemSettingsListRelationFilter
   users?: Prisma.UserListRelationFilter
   clinicMembers?: Prisma.ClinicMemberListRelationFilter
   ratings?: Prisma.RatingListRelationFilter
   growthRecords?: Prisma.GrowthRecordListRelationFilter
+  growthAlerts?: Prisma.GrowthAlertListRelationFilter
+  patientAllergies?: Prisma.PatientAllergyListRelationFilter
+  patientConditions?: Prisma.PatientConditionListRelationFilter
 }
 
 export type ClinicOrderByWithRelationInput = {
@@ -266,6 +273,8 @@ export type ClinicOrderByWithRelationInput = {
   doctors?: Prisma.DoctorOrderByRelationAggregateInput
   patients?: Prisma.PatientOrderByRelationAggregateInput
   appointments?: Prisma.AppointmentOrderByRelationAggregateInput
+  appointmentSeries?: Prisma.AppointmentSeriesOrderByRelationAggregateInput
+  waitlistEntries?: Prisma.WaitlistEntryOrderByRelationAggregateInput
   medicalRecords?: Prisma.MedicalRecordsOrderByRelationAggregateInput
   clinicSettings?: Prisma.ClinicSettingOrderByRelationAggregateInput
   prescriptions?: Prisma.PrescriptionOrderByRelationAggregateInput
@@ -276,12 +285,17 @@ export type ClinicOrderByWithRelationInput = {
   staffs?: Prisma.StaffOrderByRelationAggregateInput
   expenses?: Prisma.ExpenseOrderByRelationAggregateInput
   workingDays?: Prisma.WorkingDaysOrderByRelationAggregateInput
+  doctorBreaks?: Prisma.DoctorBreakOrderByRelationAggregateInput
+  scheduleExceptions?: Prisma.ScheduleExceptionOrderByRelationAggregateInput
   features?: Prisma.FeatureOrderByRelationAggregateInput
   systemSettings?: Prisma.SystemSettingsOrderByRelationAggregateInput
   users?: Prisma.UserOrderByRelationAggregateInput
   clinicMembers?: Prisma.ClinicMemberOrderByRelationAggregateInput
   ratings?: Prisma.RatingOrderByRelationAggregateInput
   growthRecords?: Prisma.GrowthRecordOrderByRelationAggregateInput
+  growthAlerts?: Prisma.GrowthAlertOrderByRelationAggregateInput
+  patientAllergies?: Prisma.PatientAllergyOrderByRelationAggregateInput
+  patientConditions?: Prisma.PatientConditionOrderByRelationAggregateInput
 }
 
 export type ClinicWhereUniqueInput = Prisma.AtLeast<{
@@ -302,6 +316,8 @@ export type ClinicWhereUniqueInput = Prisma.AtLeast<{
   doctors?: Prisma.DoctorListRelationFilter
   patients?: Prisma.PatientListRelationFilter
   appointments?: Prisma.AppointmentListRelationFilter
+  appointmentSeries?: Prisma.AppointmentSeriesListRelationFilter
+  waitlistEntries?: Prisma.WaitlistEntryListRelationFilter
   medicalRecords?: Prisma.MedicalRecordsListRelationFilter
   clinicSettings?: Prisma.ClinicSettingListRelationFilter
   prescriptions?: Prisma.PrescriptionListRelationFilter
@@ -312,12 +328,17 @@ export type ClinicWhereUniqueInput = Prisma.AtLeast<{
   staffs?: Prisma.StaffListRelationFilter
   expenses?: Prisma.ExpenseListRelationFilter
   workingDays?: Prisma.WorkingDaysListRelationFilter
+  doctorBreaks?: Prisma.DoctorBreakListRelationFilter
+  scheduleExceptions?: Prisma.ScheduleExceptionListRelationFilter
   features?: Prisma.FeatureListRelationFilter
   systemSettings?: Prisma.SystemSettingsListRelationFilter
   users?: Prisma.UserListRelationFilter
   clinicMembers?: Prisma.ClinicMemberListRelationFilter
   ratings?: Prisma.RatingListRelationFilter
   growthRecords?: Prisma.GrowthRecordListRelationFilter
+  growthAlerts?: Prisma.GrowthAlertListRelationFilter
+  patientAllergies?: Prisma.PatientAllergyListRelationFilter
+  patientConditions?: Prisma.PatientConditionListRelationFilter
 }, "id" | "name">
 
 export type ClinicOrderByWithAggregationInput = {
@@ -369,6 +390,8 @@ export type ClinicCreateInput = {
   doctors?: Prisma.DoctorCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutClinicInput
@@ -379,12 +402,17 @@ export type ClinicCreateInput = {
   staffs?: Prisma.StaffCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsCreateNestedManyWithoutClinicInput
   users?: Prisma.UserCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionCreateNestedManyWithoutClinicInput
 }
 
 export type ClinicUncheckedCreateInput = {
@@ -402,6 +430,8 @@ export type ClinicUncheckedCreateInput = {
   doctors?: Prisma.DoctorUncheckedCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientUncheckedCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutClinicInput
@@ -412,12 +442,17 @@ export type ClinicUncheckedCreateInput = {
   staffs?: Prisma.StaffUncheckedCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureUncheckedCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsUncheckedCreateNestedManyWithoutClinicInput
   users?: Prisma.UserUncheckedCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberUncheckedCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutClinicInput
 }
 
 export type ClinicUpdateInput = {
@@ -435,6 +470,8 @@ export type ClinicUpdateInput = {
   doctors?: Prisma.DoctorUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUpdateManyWithoutClinicNestedInput
@@ -445,12 +482,17 @@ export type ClinicUpdateInput = {
   staffs?: Prisma.StaffUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUpdateManyWithoutClinicNestedInput
 }
 
 export type ClinicUncheckedUpdateInput = {
@@ -468,6 +510,8 @@ export type ClinicUncheckedUpdateInput = {
   doctors?: Prisma.DoctorUncheckedUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUncheckedUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutClinicNestedInput
@@ -478,12 +522,17 @@ export type ClinicUncheckedUpdateInput = {
   staffs?: Prisma.StaffUncheckedUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUncheckedUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUncheckedUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUncheckedUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUncheckedUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUncheckedUpdateManyWithoutClinicNestedInput
 }
 
 export type ClinicCreateManyInput = {
@@ -688,6 +737,34 @@ export type ClinicUpdateOneRequiredWithoutWorkingDaysNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.ClinicUpdateToOneWithWhereWithoutWorkingDaysInput, Prisma.ClinicUpdateWithoutWorkingDaysInput>, Prisma.ClinicUncheckedUpdateWithoutWorkingDaysInput>
 }
 
+export type ClinicCreateNestedOneWithoutDoctorBreaksInput = {
+  create?: Prisma.XOR<Prisma.ClinicCreateWithoutDoctorBreaksInput, Prisma.ClinicUncheckedCreateWithoutDoctorBreaksInput>
+  connectOrCreate?: Prisma.ClinicCreateOrConnectWithoutDoctorBreaksInput
+  connect?: Prisma.ClinicWhereUniqueInput
+}
+
+export type ClinicUpdateOneRequiredWithoutDoctorBreaksNestedInput = {
+  create?: Prisma.XOR<Prisma.ClinicCreateWithoutDoctorBreaksInput, Prisma.ClinicUncheckedCreateWithoutDoctorBreaksInput>
+  connectOrCreate?: Prisma.ClinicCreateOrConnectWithoutDoctorBreaksInput
+  upsert?: Prisma.ClinicUpsertWithoutDoctorBreaksInput
+  connect?: Prisma.ClinicWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ClinicUpdateToOneWithWhereWithoutDoctorBreaksInput, Prisma.ClinicUpdateWithoutDoctorBreaksInput>, Prisma.ClinicUncheckedUpdateWithoutDoctorBreaksInput>
+}
+
+export type ClinicCreateNestedOneWithoutScheduleExceptionsInput = {
+  create?: Prisma.XOR<Prisma.ClinicCreateWithoutScheduleExceptionsInput, Prisma.ClinicUncheckedCreateWithoutScheduleExceptionsInput>
+  connectOrCreate?: Prisma.ClinicCreateOrConnectWithoutScheduleExceptionsInput
+  connect?: Prisma.ClinicWhereUniqueInput
+}
+
+export type ClinicUpdateOneRequiredWithoutScheduleExceptionsNestedInput = {
+  create?: Prisma.XOR<Prisma.ClinicCreateWithoutScheduleExceptionsInput, Prisma.ClinicUncheckedCreateWithoutScheduleExceptionsInput>
+  connectOrCreate?: Prisma.ClinicCreateOrConnectWithoutScheduleExceptionsInput
+  upsert?: Prisma.ClinicUpsertWithoutScheduleExceptionsInput
+  connect?: Prisma.ClinicWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ClinicUpdateToOneWithWhereWithoutScheduleExceptionsInput, Prisma.ClinicUpdateWithoutScheduleExceptionsInput>, Prisma.ClinicUncheckedUpdateWithoutScheduleExceptionsInput>
+}
+
 export type ClinicCreateNestedOneWithoutStaffsInput = {
   create?: Prisma.XOR<Prisma.ClinicCreateWithoutStaffsInput, Prisma.ClinicUncheckedCreateWithoutStaffsInput>
   connectOrCreate?: Prisma.ClinicCreateOrConnectWithoutStaffsInput
@@ -796,6 +873,34 @@ export type ClinicUpdateOneRequiredWithoutPatientsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.ClinicUpdateToOneWithWhereWithoutPatientsInput, Prisma.ClinicUpdateWithoutPatientsInput>, Prisma.ClinicUncheckedUpdateWithoutPatientsInput>
 }
 
+export type ClinicCreateNestedOneWithoutPatientAllergiesInput = {
+  create?: Prisma.XOR<Prisma.ClinicCreateWithoutPatientAllergiesInput, Prisma.ClinicUncheckedCreateWithoutPatientAllergiesInput>
+  connectOrCreate?: Prisma.ClinicCreateOrConnectWithoutPatientAllergiesInput
+  connect?: Prisma.ClinicWhereUniqueInput
+}
+
+export type ClinicUpdateOneRequiredWithoutPatientAllergiesNestedInput = {
+  create?: Prisma.XOR<Prisma.ClinicCreateWithoutPatientAllergiesInput, Prisma.ClinicUncheckedCreateWithoutPatientAllergiesInput>
+  connectOrCreate?: Prisma.ClinicCreateOrConnectWithoutPatientAllergiesInput
+  upsert?: Prisma.ClinicUpsertWithoutPatientAllergiesInput
+  connect?: Prisma.ClinicWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ClinicUpdateToOneWithWhereWithoutPatientAllergiesInput, Prisma.ClinicUpdateWithoutPatientAllergiesInput>, Prisma.ClinicUncheckedUpdateWithoutPatientAllergiesInput>
+}
+
+export type ClinicCreateNestedOneWithoutPatientConditionsInput = {
+  create?: Prisma.XOR<Prisma.ClinicCreateWithoutPatientConditionsInput, Prisma.ClinicUncheckedCreateWithoutPatientConditionsInput>
+  connectOrCreate?: Prisma.ClinicCreateOrConnectWithoutPatientConditionsInput
+  connect?: Prisma.ClinicWhereUniqueInput
+}
+
+export type ClinicUpdateOneRequiredWithoutPatientConditionsNestedInput = {
+  create?: Prisma.XOR<Prisma.ClinicCreateWithoutPatientConditionsInput, Prisma.ClinicUncheckedCreateWithoutPatientConditionsInput>
+  connectOrCreate?: Prisma.ClinicCreateOrConnectWithoutPatientConditionsInput
+  upsert?: Prisma.ClinicUpsertWithoutPatientConditionsInput
+  connect?: Prisma.ClinicWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ClinicUpdateToOneWithWhereWithoutPatientConditionsInput, Prisma.ClinicUpdateWithoutPatientConditionsInput>, Prisma.ClinicUncheckedUpdateWithoutPatientConditionsInput>
+}
+
 export type ClinicCreateNestedOneWithoutAppointmentsInput = {
   create?: Prisma.XOR<Prisma.ClinicCreateWithoutAppointmentsInput, Prisma.ClinicUncheckedCreateWithoutAppointmentsInput>
   connectOrCreate?: Prisma.ClinicCreateOrConnectWithoutAppointmentsInput
@@ -810,6 +915,34 @@ export type ClinicUpdateOneRequiredWithoutAppointmentsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.ClinicUpdateToOneWithWhereWithoutAppointmentsInput, Prisma.ClinicUpdateWithoutAppointmentsInput>, Prisma.ClinicUncheckedUpdateWithoutAppointmentsInput>
 }
 
+export type ClinicCreateNestedOneWithoutAppointmentSeriesInput = {
+  create?: Prisma.XOR<Prisma.ClinicCreateWithoutAppointmentSeriesInput, Prisma.ClinicUncheckedCreateWithoutAppointmentSeriesInput>
+  connectOrCreate?: Prisma.ClinicCreateOrConnectWithoutAppointmentSeriesInput
+  connect?: Prisma.ClinicWhereUniqueInput
+}
+
+export type ClinicUpdateOneRequiredWithoutAppointmentSeriesNestedInput = {
+  create?: Prisma.XOR<Prisma.ClinicCreateWithoutAppointmentSeriesInput, Prisma.ClinicUncheckedCreateWithoutAppointmentSeriesInput>
+  connectOrCreate?: Prisma.ClinicCreateOrConnectWithoutAppointmentSeriesInput
+  upsert?: Prisma.ClinicUpsertWithoutAppointmentSeriesInput
+  connect?: Prisma.ClinicWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ClinicUpdateToOneWithWhereWithoutAppointmentSeriesInput, Prisma.ClinicUpdateWithoutAppointmentSeriesInput>, Prisma.ClinicUncheckedUpdateWithoutAppointmentSeriesInput>
+}
+
+export type ClinicCreateNestedOneWithoutWaitlistEntriesInput = {
+  create?: Prisma.XOR<Prisma.ClinicCreateWithoutWaitlistEntriesInput, Prisma.ClinicUncheckedCreateWithoutWaitlistEntriesInput>
+  connectOrCreate?: Prisma.ClinicCreateOrConnectWithoutWaitlistEntriesInput
+  connect?: Prisma.ClinicWhereUniqueInput
+}
+
+export type ClinicUpdateOneRequiredWithoutWaitlistEntriesNestedInput = {
+  create?: Prisma.XOR<Prisma.ClinicCreateWithoutWaitlistEntriesInput, Prisma.ClinicUncheckedCreateWithoutWaitlistEntriesInput>
+  connectOrCreate?: Prisma.ClinicCreateOrConnectWithoutWaitlistEntriesInput
+  upsert?: Prisma.ClinicUpsertWithoutWaitlistEntriesInput
+  connect?: Prisma.ClinicWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ClinicUpdateToOneWithWhereWithoutWaitlistEntriesInput, Prisma.ClinicUpdateWithoutWaitlistEntriesInput>, Prisma.ClinicUncheckedUpdateWithoutWaitlistEntriesInput>
+}
+
 export type ClinicCreateNestedOneWithoutMedicalRecordsInput = {
   create?: Prisma.XOR<Prisma.ClinicCreateWithoutMedicalRecordsInput, Prisma.ClinicUncheckedCreateWithoutMedicalRecordsInput>
   connectOrCreate?: Prisma.ClinicCreateOrConnectWithoutMedicalRecordsInput
@@ -856,6 +989,20 @@ export type ClinicUpdateOneWithoutGrowthRecordsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.ClinicUpdateToOneWithWhereWithoutGrowthRecordsInput, Prisma.ClinicUpdateWithoutGrowthRecordsInput>, Prisma.ClinicUncheckedUpdateWithoutGrowthRecordsInput>
 }
 
+export type ClinicCreateNestedOneWithoutGrowthAlertsInput = {
+  create?: Prisma.XOR<Prisma.ClinicCreateWithoutGrowthAlertsInput, Prisma.ClinicUncheckedCreateWithoutGrowthAlertsInput>
+  connectOrCreate?: Prisma.ClinicCreateOrConnectWithoutGrowthAlertsInput
+  connect?: Prisma.ClinicWhereUniqueInput
+}
+
+export type ClinicUpdateOneRequiredWithoutGrowthAlertsNestedInput = {
+  create?: Prisma.XOR<Prisma.ClinicCreateWithoutGrowthAlertsInput, Prisma.ClinicUncheckedCreateWithoutGrowthAlertsInput>
+  connectOrCreate?: Prisma.ClinicCreateOrConnectWithoutGrowthAlertsInput
+  upsert?: Prisma.ClinicUpsertWithoutGrowthAlertsInput
+  connect?: Prisma.ClinicWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ClinicUpdateToOneWithWhereWithoutGrowthAlertsInput, Prisma.ClinicUpdateWithoutGrowthAlertsInput>, Prisma.ClinicUncheckedUpdateWithoutGrowthAlertsInput>
+}
+
 export type ClinicCreateNestedOneWithoutExpensesInput = {
   create?: Prisma.XOR<Prisma.ClinicCreateWithoutExpensesInput, Prisma.ClinicUncheckedCreateWithoutExpensesInput>
   connectOrCreate?: Prisma.ClinicCreateOrConnectWithoutExpensesInput
@@ -885,6 +1032,8 @@ export type ClinicCreateWithoutUsersInput = {
   doctors?: Prisma.DoctorCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutClinicInput
@@ -895,11 +1044,16 @@ export type ClinicCreateWithoutUsersInput = {
   staffs?: Prisma.StaffCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionCreateNestedManyWithoutClinicInput
 }
 
 export type ClinicUncheckedCreateWithoutUsersInput = {
@@ -917,6 +1071,8 @@ export type ClinicUncheckedCreateWithoutUsersInput = {
   doctors?: Prisma.DoctorUncheckedCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientUncheckedCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutClinicInput
@@ -927,11 +1083,16 @@ export type ClinicUncheckedCreateWithoutUsersInput = {
   staffs?: Prisma.StaffUncheckedCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureUncheckedCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsUncheckedCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberUncheckedCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutClinicInput
 }
 
 export type ClinicCreateOrConnectWithoutUsersInput = {
@@ -965,6 +1126,8 @@ export type ClinicUpdateWithoutUsersInput = {
   doctors?: Prisma.DoctorUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUpdateManyWithoutClinicNestedInput
@@ -975,11 +1138,16 @@ export type ClinicUpdateWithoutUsersInput = {
   staffs?: Prisma.StaffUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUpdateManyWithoutClinicNestedInput
 }
 
 export type ClinicUncheckedUpdateWithoutUsersInput = {
@@ -997,6 +1165,8 @@ export type ClinicUncheckedUpdateWithoutUsersInput = {
   doctors?: Prisma.DoctorUncheckedUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUncheckedUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutClinicNestedInput
@@ -1007,11 +1177,16 @@ export type ClinicUncheckedUpdateWithoutUsersInput = {
   staffs?: Prisma.StaffUncheckedUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUncheckedUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUncheckedUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUncheckedUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUncheckedUpdateManyWithoutClinicNestedInput
 }
 
 export type ClinicCreateWithoutFeaturesInput = {
@@ -1029,6 +1204,8 @@ export type ClinicCreateWithoutFeaturesInput = {
   doctors?: Prisma.DoctorCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutClinicInput
@@ -1039,11 +1216,16 @@ export type ClinicCreateWithoutFeaturesInput = {
   staffs?: Prisma.StaffCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsCreateNestedManyWithoutClinicInput
   users?: Prisma.UserCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionCreateNestedManyWithoutClinicInput
 }
 
 export type ClinicUncheckedCreateWithoutFeaturesInput = {
@@ -1061,6 +1243,8 @@ export type ClinicUncheckedCreateWithoutFeaturesInput = {
   doctors?: Prisma.DoctorUncheckedCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientUncheckedCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutClinicInput
@@ -1071,11 +1255,16 @@ export type ClinicUncheckedCreateWithoutFeaturesInput = {
   staffs?: Prisma.StaffUncheckedCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsUncheckedCreateNestedManyWithoutClinicInput
   users?: Prisma.UserUncheckedCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberUncheckedCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutClinicInput
 }
 
 export type ClinicCreateOrConnectWithoutFeaturesInput = {
@@ -1109,6 +1298,8 @@ export type ClinicUpdateWithoutFeaturesInput = {
   doctors?: Prisma.DoctorUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUpdateManyWithoutClinicNestedInput
@@ -1119,11 +1310,16 @@ export type ClinicUpdateWithoutFeaturesInput = {
   staffs?: Prisma.StaffUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUpdateManyWithoutClinicNestedInput
 }
 
 export type ClinicUncheckedUpdateWithoutFeaturesInput = {
@@ -1141,6 +1337,8 @@ export type ClinicUncheckedUpdateWithoutFeaturesInput = {
   doctors?: Prisma.DoctorUncheckedUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUncheckedUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutClinicNestedInput
@@ -1151,11 +1349,16 @@ export type ClinicUncheckedUpdateWithoutFeaturesInput = {
   staffs?: Prisma.StaffUncheckedUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUncheckedUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUncheckedUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUncheckedUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUncheckedUpdateManyWithoutClinicNestedInput
 }
 
 export type ClinicCreateWithoutAuditLogsInput = {
@@ -1173,6 +1376,8 @@ export type ClinicCreateWithoutAuditLogsInput = {
   doctors?: Prisma.DoctorCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutClinicInput
@@ -1182,12 +1387,17 @@ export type ClinicCreateWithoutAuditLogsInput = {
   staffs?: Prisma.StaffCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsCreateNestedManyWithoutClinicInput
   users?: Prisma.UserCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionCreateNestedManyWithoutClinicInput
 }
 
 export type ClinicUncheckedCreateWithoutAuditLogsInput = {
@@ -1205,6 +1415,8 @@ export type ClinicUncheckedCreateWithoutAuditLogsInput = {
   doctors?: Prisma.DoctorUncheckedCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientUncheckedCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutClinicInput
@@ -1214,12 +1426,17 @@ export type ClinicUncheckedCreateWithoutAuditLogsInput = {
   staffs?: Prisma.StaffUncheckedCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureUncheckedCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsUncheckedCreateNestedManyWithoutClinicInput
   users?: Prisma.UserUncheckedCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberUncheckedCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutClinicInput
 }
 
 export type ClinicCreateOrConnectWithoutAuditLogsInput = {
@@ -1253,6 +1470,8 @@ export type ClinicUpdateWithoutAuditLogsInput = {
   doctors?: Prisma.DoctorUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUpdateManyWithoutClinicNestedInput
@@ -1262,12 +1481,17 @@ export type ClinicUpdateWithoutAuditLogsInput = {
   staffs?: Prisma.StaffUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUpdateManyWithoutClinicNestedInput
 }
 
 export type ClinicUncheckedUpdateWithoutAuditLogsInput = {
@@ -1285,6 +1509,8 @@ export type ClinicUncheckedUpdateWithoutAuditLogsInput = {
   doctors?: Prisma.DoctorUncheckedUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUncheckedUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutClinicNestedInput
@@ -1294,12 +1520,17 @@ export type ClinicUncheckedUpdateWithoutAuditLogsInput = {
   staffs?: Prisma.StaffUncheckedUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUncheckedUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUncheckedUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUncheckedUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUncheckedUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUncheckedUpdateManyWithoutClinicNestedInput
 }
 
 export type ClinicCreateWithoutSystemSettingsInput = {
@@ -1317,6 +1548,8 @@ export type ClinicCreateWithoutSystemSettingsInput = {
   doctors?: Prisma.DoctorCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutClinicInput
@@ -1327,11 +1560,16 @@ export type ClinicCreateWithoutSystemSettingsInput = {
   staffs?: Prisma.StaffCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureCreateNestedManyWithoutClinicInput
   users?: Prisma.UserCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionCreateNestedManyWithoutClinicInput
 }
 
 export type ClinicUncheckedCreateWithoutSystemSettingsInput = {
@@ -1349,6 +1587,8 @@ export type ClinicUncheckedCreateWithoutSystemSettingsInput = {
   doctors?: Prisma.DoctorUncheckedCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientUncheckedCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutClinicInput
@@ -1359,11 +1599,16 @@ export type ClinicUncheckedCreateWithoutSystemSettingsInput = {
   staffs?: Prisma.StaffUncheckedCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureUncheckedCreateNestedManyWithoutClinicInput
   users?: Prisma.UserUncheckedCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberUncheckedCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutClinicInput
 }
 
 export type ClinicCreateOrConnectWithoutSystemSettingsInput = {
@@ -1397,6 +1642,8 @@ export type ClinicUpdateWithoutSystemSettingsInput = {
   doctors?: Prisma.DoctorUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUpdateManyWithoutClinicNestedInput
@@ -1407,11 +1654,16 @@ export type ClinicUpdateWithoutSystemSettingsInput = {
   staffs?: Prisma.StaffUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUpdateManyWithoutClinicNestedInput
 }
 
 export type ClinicUncheckedUpdateWithoutSystemSettingsInput = {
@@ -1429,6 +1681,8 @@ export type ClinicUncheckedUpdateWithoutSystemSettingsInput = {
   doctors?: Prisma.DoctorUncheckedUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUncheckedUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutClinicNestedInput
@@ -1439,11 +1693,16 @@ export type ClinicUncheckedUpdateWithoutSystemSettingsInput = {
   staffs?: Prisma.StaffUncheckedUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUncheckedUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUncheckedUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUncheckedUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUncheckedUpdateManyWithoutClinicNestedInput
 }
 
 export type ClinicCreateWithoutClinicMembersInput = {
@@ -1461,6 +1720,8 @@ export type ClinicCreateWithoutClinicMembersInput = {
   doctors?: Prisma.DoctorCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutClinicInput
@@ -1471,11 +1732,16 @@ export type ClinicCreateWithoutClinicMembersInput = {
   staffs?: Prisma.StaffCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsCreateNestedManyWithoutClinicInput
   users?: Prisma.UserCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionCreateNestedManyWithoutClinicInput
 }
 
 export type ClinicUncheckedCreateWithoutClinicMembersInput = {
@@ -1493,6 +1759,8 @@ export type ClinicUncheckedCreateWithoutClinicMembersInput = {
   doctors?: Prisma.DoctorUncheckedCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientUncheckedCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutClinicInput
@@ -1503,11 +1771,16 @@ export type ClinicUncheckedCreateWithoutClinicMembersInput = {
   staffs?: Prisma.StaffUncheckedCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureUncheckedCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsUncheckedCreateNestedManyWithoutClinicInput
   users?: Prisma.UserUncheckedCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutClinicInput
 }
 
 export type ClinicCreateOrConnectWithoutClinicMembersInput = {
@@ -1541,6 +1814,8 @@ export type ClinicUpdateWithoutClinicMembersInput = {
   doctors?: Prisma.DoctorUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUpdateManyWithoutClinicNestedInput
@@ -1551,11 +1826,16 @@ export type ClinicUpdateWithoutClinicMembersInput = {
   staffs?: Prisma.StaffUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUpdateManyWithoutClinicNestedInput
 }
 
 export type ClinicUncheckedUpdateWithoutClinicMembersInput = {
@@ -1573,6 +1853,8 @@ export type ClinicUncheckedUpdateWithoutClinicMembersInput = {
   doctors?: Prisma.DoctorUncheckedUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUncheckedUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutClinicNestedInput
@@ -1583,11 +1865,16 @@ export type ClinicUncheckedUpdateWithoutClinicMembersInput = {
   staffs?: Prisma.StaffUncheckedUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUncheckedUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUncheckedUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUncheckedUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUncheckedUpdateManyWithoutClinicNestedInput
 }
 
 export type ClinicCreateWithoutDoctorsInput = {
@@ -1604,6 +1891,8 @@ export type ClinicCreateWithoutDoctorsInput = {
   logo?: string | null
   patients?: Prisma.PatientCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutClinicInput
@@ -1614,12 +1903,17 @@ export type ClinicCreateWithoutDoctorsInput = {
   staffs?: Prisma.StaffCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsCreateNestedManyWithoutClinicInput
   users?: Prisma.UserCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionCreateNestedManyWithoutClinicInput
 }
 
 export type ClinicUncheckedCreateWithoutDoctorsInput = {
@@ -1636,6 +1930,8 @@ export type ClinicUncheckedCreateWithoutDoctorsInput = {
   logo?: string | null
   patients?: Prisma.PatientUncheckedCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutClinicInput
@@ -1646,12 +1942,17 @@ export type ClinicUncheckedCreateWithoutDoctorsInput = {
   staffs?: Prisma.StaffUncheckedCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureUncheckedCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsUncheckedCreateNestedManyWithoutClinicInput
   users?: Prisma.UserUncheckedCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberUncheckedCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutClinicInput
 }
 
 export type ClinicCreateOrConnectWithoutDoctorsInput = {
@@ -1684,6 +1985,8 @@ export type ClinicUpdateWithoutDoctorsInput = {
   logo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   patients?: Prisma.PatientUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUpdateManyWithoutClinicNestedInput
@@ -1694,12 +1997,17 @@ export type ClinicUpdateWithoutDoctorsInput = {
   staffs?: Prisma.StaffUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUpdateManyWithoutClinicNestedInput
 }
 
 export type ClinicUncheckedUpdateWithoutDoctorsInput = {
@@ -1716,6 +2024,8 @@ export type ClinicUncheckedUpdateWithoutDoctorsInput = {
   logo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   patients?: Prisma.PatientUncheckedUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutClinicNestedInput
@@ -1726,12 +2036,17 @@ export type ClinicUncheckedUpdateWithoutDoctorsInput = {
   staffs?: Prisma.StaffUncheckedUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUncheckedUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUncheckedUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUncheckedUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUncheckedUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUncheckedUpdateManyWithoutClinicNestedInput
 }
 
 export type ClinicCreateWithoutWorkingDaysInput = {
@@ -1749,6 +2064,8 @@ export type ClinicCreateWithoutWorkingDaysInput = {
   doctors?: Prisma.DoctorCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutClinicInput
@@ -1758,12 +2075,17 @@ export type ClinicCreateWithoutWorkingDaysInput = {
   auditLogs?: Prisma.AuditLogCreateNestedManyWithoutClinicInput
   staffs?: Prisma.StaffCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsCreateNestedManyWithoutClinicInput
   users?: Prisma.UserCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionCreateNestedManyWithoutClinicInput
 }
 
 export type ClinicUncheckedCreateWithoutWorkingDaysInput = {
@@ -1781,6 +2103,8 @@ export type ClinicUncheckedCreateWithoutWorkingDaysInput = {
   doctors?: Prisma.DoctorUncheckedCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientUncheckedCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutClinicInput
@@ -1790,12 +2114,17 @@ export type ClinicUncheckedCreateWithoutWorkingDaysInput = {
   auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutClinicInput
   staffs?: Prisma.StaffUncheckedCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureUncheckedCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsUncheckedCreateNestedManyWithoutClinicInput
   users?: Prisma.UserUncheckedCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberUncheckedCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutClinicInput
 }
 
 export type ClinicCreateOrConnectWithoutWorkingDaysInput = {
@@ -1829,6 +2158,8 @@ export type ClinicUpdateWithoutWorkingDaysInput = {
   doctors?: Prisma.DoctorUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUpdateManyWithoutClinicNestedInput
@@ -1838,12 +2169,17 @@ export type ClinicUpdateWithoutWorkingDaysInput = {
   auditLogs?: Prisma.AuditLogUpdateManyWithoutClinicNestedInput
   staffs?: Prisma.StaffUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUpdateManyWithoutClinicNestedInput
 }
 
 export type ClinicUncheckedUpdateWithoutWorkingDaysInput = {
@@ -1861,6 +2197,8 @@ export type ClinicUncheckedUpdateWithoutWorkingDaysInput = {
   doctors?: Prisma.DoctorUncheckedUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUncheckedUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutClinicNestedInput
@@ -1870,15 +2208,20 @@ export type ClinicUncheckedUpdateWithoutWorkingDaysInput = {
   auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutClinicNestedInput
   staffs?: Prisma.StaffUncheckedUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUncheckedUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUncheckedUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUncheckedUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUncheckedUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUncheckedUpdateManyWithoutClinicNestedInput
 }
 
-export type ClinicCreateWithoutStaffsInput = {
+export type ClinicCreateWithoutDoctorBreaksInput = {
   id?: string
   name: string
   email?: string | null
@@ -1893,6 +2236,8 @@ export type ClinicCreateWithoutStaffsInput = {
   doctors?: Prisma.DoctorCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutClinicInput
@@ -1900,17 +2245,22 @@ export type ClinicCreateWithoutStaffsInput = {
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutClinicInput
   services?: Prisma.ServiceCreateNestedManyWithoutClinicInput
   auditLogs?: Prisma.AuditLogCreateNestedManyWithoutClinicInput
+  staffs?: Prisma.StaffCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsCreateNestedManyWithoutClinicInput
   users?: Prisma.UserCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionCreateNestedManyWithoutClinicInput
 }
 
-export type ClinicUncheckedCreateWithoutStaffsInput = {
+export type ClinicUncheckedCreateWithoutDoctorBreaksInput = {
   id?: string
   name: string
   email?: string | null
@@ -1925,6 +2275,8 @@ export type ClinicUncheckedCreateWithoutStaffsInput = {
   doctors?: Prisma.DoctorUncheckedCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientUncheckedCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutClinicInput
@@ -1932,33 +2284,38 @@ export type ClinicUncheckedCreateWithoutStaffsInput = {
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutClinicInput
   services?: Prisma.ServiceUncheckedCreateNestedManyWithoutClinicInput
   auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutClinicInput
+  staffs?: Prisma.StaffUncheckedCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureUncheckedCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsUncheckedCreateNestedManyWithoutClinicInput
   users?: Prisma.UserUncheckedCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberUncheckedCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutClinicInput
 }
 
-export type ClinicCreateOrConnectWithoutStaffsInput = {
+export type ClinicCreateOrConnectWithoutDoctorBreaksInput = {
   where: Prisma.ClinicWhereUniqueInput
-  create: Prisma.XOR<Prisma.ClinicCreateWithoutStaffsInput, Prisma.ClinicUncheckedCreateWithoutStaffsInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutDoctorBreaksInput, Prisma.ClinicUncheckedCreateWithoutDoctorBreaksInput>
 }
 
-export type ClinicUpsertWithoutStaffsInput = {
-  update: Prisma.XOR<Prisma.ClinicUpdateWithoutStaffsInput, Prisma.ClinicUncheckedUpdateWithoutStaffsInput>
-  create: Prisma.XOR<Prisma.ClinicCreateWithoutStaffsInput, Prisma.ClinicUncheckedCreateWithoutStaffsInput>
+export type ClinicUpsertWithoutDoctorBreaksInput = {
+  update: Prisma.XOR<Prisma.ClinicUpdateWithoutDoctorBreaksInput, Prisma.ClinicUncheckedUpdateWithoutDoctorBreaksInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutDoctorBreaksInput, Prisma.ClinicUncheckedCreateWithoutDoctorBreaksInput>
   where?: Prisma.ClinicWhereInput
 }
 
-export type ClinicUpdateToOneWithWhereWithoutStaffsInput = {
+export type ClinicUpdateToOneWithWhereWithoutDoctorBreaksInput = {
   where?: Prisma.ClinicWhereInput
-  data: Prisma.XOR<Prisma.ClinicUpdateWithoutStaffsInput, Prisma.ClinicUncheckedUpdateWithoutStaffsInput>
+  data: Prisma.XOR<Prisma.ClinicUpdateWithoutDoctorBreaksInput, Prisma.ClinicUncheckedUpdateWithoutDoctorBreaksInput>
 }
 
-export type ClinicUpdateWithoutStaffsInput = {
+export type ClinicUpdateWithoutDoctorBreaksInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -1973,6 +2330,8 @@ export type ClinicUpdateWithoutStaffsInput = {
   doctors?: Prisma.DoctorUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUpdateManyWithoutClinicNestedInput
@@ -1980,17 +2339,22 @@ export type ClinicUpdateWithoutStaffsInput = {
   encounters?: Prisma.DiagnosisUpdateManyWithoutClinicNestedInput
   services?: Prisma.ServiceUpdateManyWithoutClinicNestedInput
   auditLogs?: Prisma.AuditLogUpdateManyWithoutClinicNestedInput
+  staffs?: Prisma.StaffUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUpdateManyWithoutClinicNestedInput
 }
 
-export type ClinicUncheckedUpdateWithoutStaffsInput = {
+export type ClinicUncheckedUpdateWithoutDoctorBreaksInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2005,6 +2369,8 @@ export type ClinicUncheckedUpdateWithoutStaffsInput = {
   doctors?: Prisma.DoctorUncheckedUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUncheckedUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutClinicNestedInput
@@ -2012,17 +2378,22 @@ export type ClinicUncheckedUpdateWithoutStaffsInput = {
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutClinicNestedInput
   services?: Prisma.ServiceUncheckedUpdateManyWithoutClinicNestedInput
   auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutClinicNestedInput
+  staffs?: Prisma.StaffUncheckedUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUncheckedUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUncheckedUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUncheckedUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUncheckedUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUncheckedUpdateManyWithoutClinicNestedInput
 }
 
-export type ClinicCreateWithoutPaymentsInput = {
+export type ClinicCreateWithoutScheduleExceptionsInput = {
   id?: string
   name: string
   email?: string | null
@@ -2037,24 +2408,31 @@ export type ClinicCreateWithoutPaymentsInput = {
   doctors?: Prisma.DoctorCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutClinicInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutClinicInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutClinicInput
   services?: Prisma.ServiceCreateNestedManyWithoutClinicInput
   auditLogs?: Prisma.AuditLogCreateNestedManyWithoutClinicInput
   staffs?: Prisma.StaffCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsCreateNestedManyWithoutClinicInput
   users?: Prisma.UserCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionCreateNestedManyWithoutClinicInput
 }
 
-export type ClinicUncheckedCreateWithoutPaymentsInput = {
+export type ClinicUncheckedCreateWithoutScheduleExceptionsInput = {
   id?: string
   name: string
   email?: string | null
@@ -2069,40 +2447,47 @@ export type ClinicUncheckedCreateWithoutPaymentsInput = {
   doctors?: Prisma.DoctorUncheckedCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientUncheckedCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutClinicInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutClinicInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutClinicInput
   services?: Prisma.ServiceUncheckedCreateNestedManyWithoutClinicInput
   auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutClinicInput
   staffs?: Prisma.StaffUncheckedCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureUncheckedCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsUncheckedCreateNestedManyWithoutClinicInput
   users?: Prisma.UserUncheckedCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberUncheckedCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutClinicInput
 }
 
-export type ClinicCreateOrConnectWithoutPaymentsInput = {
+export type ClinicCreateOrConnectWithoutScheduleExceptionsInput = {
   where: Prisma.ClinicWhereUniqueInput
-  create: Prisma.XOR<Prisma.ClinicCreateWithoutPaymentsInput, Prisma.ClinicUncheckedCreateWithoutPaymentsInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutScheduleExceptionsInput, Prisma.ClinicUncheckedCreateWithoutScheduleExceptionsInput>
 }
 
-export type ClinicUpsertWithoutPaymentsInput = {
-  update: Prisma.XOR<Prisma.ClinicUpdateWithoutPaymentsInput, Prisma.ClinicUncheckedUpdateWithoutPaymentsInput>
-  create: Prisma.XOR<Prisma.ClinicCreateWithoutPaymentsInput, Prisma.ClinicUncheckedCreateWithoutPaymentsInput>
+export type ClinicUpsertWithoutScheduleExceptionsInput = {
+  update: Prisma.XOR<Prisma.ClinicUpdateWithoutScheduleExceptionsInput, Prisma.ClinicUncheckedUpdateWithoutScheduleExceptionsInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutScheduleExceptionsInput, Prisma.ClinicUncheckedCreateWithoutScheduleExceptionsInput>
   where?: Prisma.ClinicWhereInput
 }
 
-export type ClinicUpdateToOneWithWhereWithoutPaymentsInput = {
+export type ClinicUpdateToOneWithWhereWithoutScheduleExceptionsInput = {
   where?: Prisma.ClinicWhereInput
-  data: Prisma.XOR<Prisma.ClinicUpdateWithoutPaymentsInput, Prisma.ClinicUncheckedUpdateWithoutPaymentsInput>
+  data: Prisma.XOR<Prisma.ClinicUpdateWithoutScheduleExceptionsInput, Prisma.ClinicUncheckedUpdateWithoutScheduleExceptionsInput>
 }
 
-export type ClinicUpdateWithoutPaymentsInput = {
+export type ClinicUpdateWithoutScheduleExceptionsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2117,24 +2502,31 @@ export type ClinicUpdateWithoutPaymentsInput = {
   doctors?: Prisma.DoctorUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUpdateManyWithoutClinicNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutClinicNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutClinicNestedInput
   services?: Prisma.ServiceUpdateManyWithoutClinicNestedInput
   auditLogs?: Prisma.AuditLogUpdateManyWithoutClinicNestedInput
   staffs?: Prisma.StaffUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUpdateManyWithoutClinicNestedInput
 }
 
-export type ClinicUncheckedUpdateWithoutPaymentsInput = {
+export type ClinicUncheckedUpdateWithoutScheduleExceptionsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2149,24 +2541,31 @@ export type ClinicUncheckedUpdateWithoutPaymentsInput = {
   doctors?: Prisma.DoctorUncheckedUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUncheckedUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutClinicNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutClinicNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutClinicNestedInput
   services?: Prisma.ServiceUncheckedUpdateManyWithoutClinicNestedInput
   auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutClinicNestedInput
   staffs?: Prisma.StaffUncheckedUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUncheckedUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUncheckedUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUncheckedUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUncheckedUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUncheckedUpdateManyWithoutClinicNestedInput
 }
 
-export type ClinicCreateWithoutServicesInput = {
+export type ClinicCreateWithoutStaffsInput = {
   id?: string
   name: string
   email?: string | null
@@ -2181,24 +2580,31 @@ export type ClinicCreateWithoutServicesInput = {
   doctors?: Prisma.DoctorCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutClinicInput
   payments?: Prisma.PaymentCreateNestedManyWithoutClinicInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutClinicInput
+  services?: Prisma.ServiceCreateNestedManyWithoutClinicInput
   auditLogs?: Prisma.AuditLogCreateNestedManyWithoutClinicInput
-  staffs?: Prisma.StaffCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsCreateNestedManyWithoutClinicInput
   users?: Prisma.UserCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionCreateNestedManyWithoutClinicInput
 }
 
-export type ClinicUncheckedCreateWithoutServicesInput = {
+export type ClinicUncheckedCreateWithoutStaffsInput = {
   id?: string
   name: string
   email?: string | null
@@ -2213,40 +2619,47 @@ export type ClinicUncheckedCreateWithoutServicesInput = {
   doctors?: Prisma.DoctorUncheckedCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientUncheckedCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutClinicInput
   payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutClinicInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutClinicInput
+  services?: Prisma.ServiceUncheckedCreateNestedManyWithoutClinicInput
   auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutClinicInput
-  staffs?: Prisma.StaffUncheckedCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureUncheckedCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsUncheckedCreateNestedManyWithoutClinicInput
   users?: Prisma.UserUncheckedCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberUncheckedCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutClinicInput
 }
 
-export type ClinicCreateOrConnectWithoutServicesInput = {
+export type ClinicCreateOrConnectWithoutStaffsInput = {
   where: Prisma.ClinicWhereUniqueInput
-  create: Prisma.XOR<Prisma.ClinicCreateWithoutServicesInput, Prisma.ClinicUncheckedCreateWithoutServicesInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutStaffsInput, Prisma.ClinicUncheckedCreateWithoutStaffsInput>
 }
 
-export type ClinicUpsertWithoutServicesInput = {
-  update: Prisma.XOR<Prisma.ClinicUpdateWithoutServicesInput, Prisma.ClinicUncheckedUpdateWithoutServicesInput>
-  create: Prisma.XOR<Prisma.ClinicCreateWithoutServicesInput, Prisma.ClinicUncheckedCreateWithoutServicesInput>
+export type ClinicUpsertWithoutStaffsInput = {
+  update: Prisma.XOR<Prisma.ClinicUpdateWithoutStaffsInput, Prisma.ClinicUncheckedUpdateWithoutStaffsInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutStaffsInput, Prisma.ClinicUncheckedCreateWithoutStaffsInput>
   where?: Prisma.ClinicWhereInput
 }
 
-export type ClinicUpdateToOneWithWhereWithoutServicesInput = {
+export type ClinicUpdateToOneWithWhereWithoutStaffsInput = {
   where?: Prisma.ClinicWhereInput
-  data: Prisma.XOR<Prisma.ClinicUpdateWithoutServicesInput, Prisma.ClinicUncheckedUpdateWithoutServicesInput>
+  data: Prisma.XOR<Prisma.ClinicUpdateWithoutStaffsInput, Prisma.ClinicUncheckedUpdateWithoutStaffsInput>
 }
 
-export type ClinicUpdateWithoutServicesInput = {
+export type ClinicUpdateWithoutStaffsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2261,24 +2674,31 @@ export type ClinicUpdateWithoutServicesInput = {
   doctors?: Prisma.DoctorUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUpdateManyWithoutClinicNestedInput
   payments?: Prisma.PaymentUpdateManyWithoutClinicNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutClinicNestedInput
+  services?: Prisma.ServiceUpdateManyWithoutClinicNestedInput
   auditLogs?: Prisma.AuditLogUpdateManyWithoutClinicNestedInput
-  staffs?: Prisma.StaffUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUpdateManyWithoutClinicNestedInput
 }
 
-export type ClinicUncheckedUpdateWithoutServicesInput = {
+export type ClinicUncheckedUpdateWithoutStaffsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2293,24 +2713,31 @@ export type ClinicUncheckedUpdateWithoutServicesInput = {
   doctors?: Prisma.DoctorUncheckedUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUncheckedUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutClinicNestedInput
   payments?: Prisma.PaymentUncheckedUpdateManyWithoutClinicNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutClinicNestedInput
+  services?: Prisma.ServiceUncheckedUpdateManyWithoutClinicNestedInput
   auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutClinicNestedInput
-  staffs?: Prisma.StaffUncheckedUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUncheckedUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUncheckedUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUncheckedUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUncheckedUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUncheckedUpdateManyWithoutClinicNestedInput
 }
 
-export type ClinicCreateWithoutClinicSettingsInput = {
+export type ClinicCreateWithoutPaymentsInput = {
   id?: string
   name: string
   email?: string | null
@@ -2325,24 +2752,31 @@ export type ClinicCreateWithoutClinicSettingsInput = {
   doctors?: Prisma.DoctorCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutClinicInput
+  clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutClinicInput
-  payments?: Prisma.PaymentCreateNestedManyWithoutClinicInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutClinicInput
   services?: Prisma.ServiceCreateNestedManyWithoutClinicInput
   auditLogs?: Prisma.AuditLogCreateNestedManyWithoutClinicInput
   staffs?: Prisma.StaffCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsCreateNestedManyWithoutClinicInput
   users?: Prisma.UserCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionCreateNestedManyWithoutClinicInput
 }
 
-export type ClinicUncheckedCreateWithoutClinicSettingsInput = {
+export type ClinicUncheckedCreateWithoutPaymentsInput = {
   id?: string
   name: string
   email?: string | null
@@ -2357,40 +2791,47 @@ export type ClinicUncheckedCreateWithoutClinicSettingsInput = {
   doctors?: Prisma.DoctorUncheckedCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientUncheckedCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutClinicInput
+  clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutClinicInput
-  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutClinicInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutClinicInput
   services?: Prisma.ServiceUncheckedCreateNestedManyWithoutClinicInput
   auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutClinicInput
   staffs?: Prisma.StaffUncheckedCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureUncheckedCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsUncheckedCreateNestedManyWithoutClinicInput
   users?: Prisma.UserUncheckedCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberUncheckedCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutClinicInput
 }
 
-export type ClinicCreateOrConnectWithoutClinicSettingsInput = {
+export type ClinicCreateOrConnectWithoutPaymentsInput = {
   where: Prisma.ClinicWhereUniqueInput
-  create: Prisma.XOR<Prisma.ClinicCreateWithoutClinicSettingsInput, Prisma.ClinicUncheckedCreateWithoutClinicSettingsInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutPaymentsInput, Prisma.ClinicUncheckedCreateWithoutPaymentsInput>
 }
 
-export type ClinicUpsertWithoutClinicSettingsInput = {
-  update: Prisma.XOR<Prisma.ClinicUpdateWithoutClinicSettingsInput, Prisma.ClinicUncheckedUpdateWithoutClinicSettingsInput>
-  create: Prisma.XOR<Prisma.ClinicCreateWithoutClinicSettingsInput, Prisma.ClinicUncheckedCreateWithoutClinicSettingsInput>
+export type ClinicUpsertWithoutPaymentsInput = {
+  update: Prisma.XOR<Prisma.ClinicUpdateWithoutPaymentsInput, Prisma.ClinicUncheckedUpdateWithoutPaymentsInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutPaymentsInput, Prisma.ClinicUncheckedCreateWithoutPaymentsInput>
   where?: Prisma.ClinicWhereInput
 }
 
-export type ClinicUpdateToOneWithWhereWithoutClinicSettingsInput = {
+export type ClinicUpdateToOneWithWhereWithoutPaymentsInput = {
   where?: Prisma.ClinicWhereInput
-  data: Prisma.XOR<Prisma.ClinicUpdateWithoutClinicSettingsInput, Prisma.ClinicUncheckedUpdateWithoutClinicSettingsInput>
+  data: Prisma.XOR<Prisma.ClinicUpdateWithoutPaymentsInput, Prisma.ClinicUncheckedUpdateWithoutPaymentsInput>
 }
 
-export type ClinicUpdateWithoutClinicSettingsInput = {
+export type ClinicUpdateWithoutPaymentsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2405,24 +2846,31 @@ export type ClinicUpdateWithoutClinicSettingsInput = {
   doctors?: Prisma.DoctorUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutClinicNestedInput
+  clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUpdateManyWithoutClinicNestedInput
-  payments?: Prisma.PaymentUpdateManyWithoutClinicNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutClinicNestedInput
   services?: Prisma.ServiceUpdateManyWithoutClinicNestedInput
   auditLogs?: Prisma.AuditLogUpdateManyWithoutClinicNestedInput
   staffs?: Prisma.StaffUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUpdateManyWithoutClinicNestedInput
 }
 
-export type ClinicUncheckedUpdateWithoutClinicSettingsInput = {
+export type ClinicUncheckedUpdateWithoutPaymentsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2437,24 +2885,31 @@ export type ClinicUncheckedUpdateWithoutClinicSettingsInput = {
   doctors?: Prisma.DoctorUncheckedUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUncheckedUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutClinicNestedInput
+  clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutClinicNestedInput
-  payments?: Prisma.PaymentUncheckedUpdateManyWithoutClinicNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutClinicNestedInput
   services?: Prisma.ServiceUncheckedUpdateManyWithoutClinicNestedInput
   auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutClinicNestedInput
   staffs?: Prisma.StaffUncheckedUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUncheckedUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUncheckedUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUncheckedUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUncheckedUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUncheckedUpdateManyWithoutClinicNestedInput
 }
 
-export type ClinicCreateWithoutRatingsInput = {
+export type ClinicCreateWithoutServicesInput = {
   id?: string
   name: string
   email?: string | null
@@ -2469,24 +2924,31 @@ export type ClinicCreateWithoutRatingsInput = {
   doctors?: Prisma.DoctorCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutClinicInput
   payments?: Prisma.PaymentCreateNestedManyWithoutClinicInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutClinicInput
-  services?: Prisma.ServiceCreateNestedManyWithoutClinicInput
   auditLogs?: Prisma.AuditLogCreateNestedManyWithoutClinicInput
   staffs?: Prisma.StaffCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsCreateNestedManyWithoutClinicInput
   users?: Prisma.UserCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberCreateNestedManyWithoutClinicInput
+  ratings?: Prisma.RatingCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionCreateNestedManyWithoutClinicInput
 }
 
-export type ClinicUncheckedCreateWithoutRatingsInput = {
+export type ClinicUncheckedCreateWithoutServicesInput = {
   id?: string
   name: string
   email?: string | null
@@ -2501,40 +2963,47 @@ export type ClinicUncheckedCreateWithoutRatingsInput = {
   doctors?: Prisma.DoctorUncheckedCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientUncheckedCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutClinicInput
   payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutClinicInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutClinicInput
-  services?: Prisma.ServiceUncheckedCreateNestedManyWithoutClinicInput
   auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutClinicInput
   staffs?: Prisma.StaffUncheckedCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureUncheckedCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsUncheckedCreateNestedManyWithoutClinicInput
   users?: Prisma.UserUncheckedCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberUncheckedCreateNestedManyWithoutClinicInput
+  ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutClinicInput
 }
 
-export type ClinicCreateOrConnectWithoutRatingsInput = {
+export type ClinicCreateOrConnectWithoutServicesInput = {
   where: Prisma.ClinicWhereUniqueInput
-  create: Prisma.XOR<Prisma.ClinicCreateWithoutRatingsInput, Prisma.ClinicUncheckedCreateWithoutRatingsInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutServicesInput, Prisma.ClinicUncheckedCreateWithoutServicesInput>
 }
 
-export type ClinicUpsertWithoutRatingsInput = {
-  update: Prisma.XOR<Prisma.ClinicUpdateWithoutRatingsInput, Prisma.ClinicUncheckedUpdateWithoutRatingsInput>
-  create: Prisma.XOR<Prisma.ClinicCreateWithoutRatingsInput, Prisma.ClinicUncheckedCreateWithoutRatingsInput>
+export type ClinicUpsertWithoutServicesInput = {
+  update: Prisma.XOR<Prisma.ClinicUpdateWithoutServicesInput, Prisma.ClinicUncheckedUpdateWithoutServicesInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutServicesInput, Prisma.ClinicUncheckedCreateWithoutServicesInput>
   where?: Prisma.ClinicWhereInput
 }
 
-export type ClinicUpdateToOneWithWhereWithoutRatingsInput = {
+export type ClinicUpdateToOneWithWhereWithoutServicesInput = {
   where?: Prisma.ClinicWhereInput
-  data: Prisma.XOR<Prisma.ClinicUpdateWithoutRatingsInput, Prisma.ClinicUncheckedUpdateWithoutRatingsInput>
+  data: Prisma.XOR<Prisma.ClinicUpdateWithoutServicesInput, Prisma.ClinicUncheckedUpdateWithoutServicesInput>
 }
 
-export type ClinicUpdateWithoutRatingsInput = {
+export type ClinicUpdateWithoutServicesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2549,24 +3018,31 @@ export type ClinicUpdateWithoutRatingsInput = {
   doctors?: Prisma.DoctorUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUpdateManyWithoutClinicNestedInput
   payments?: Prisma.PaymentUpdateManyWithoutClinicNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutClinicNestedInput
-  services?: Prisma.ServiceUpdateManyWithoutClinicNestedInput
   auditLogs?: Prisma.AuditLogUpdateManyWithoutClinicNestedInput
   staffs?: Prisma.StaffUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUpdateManyWithoutClinicNestedInput
+  ratings?: Prisma.RatingUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUpdateManyWithoutClinicNestedInput
 }
 
-export type ClinicUncheckedUpdateWithoutRatingsInput = {
+export type ClinicUncheckedUpdateWithoutServicesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2581,24 +3057,31 @@ export type ClinicUncheckedUpdateWithoutRatingsInput = {
   doctors?: Prisma.DoctorUncheckedUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUncheckedUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutClinicNestedInput
   payments?: Prisma.PaymentUncheckedUpdateManyWithoutClinicNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutClinicNestedInput
-  services?: Prisma.ServiceUncheckedUpdateManyWithoutClinicNestedInput
   auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutClinicNestedInput
   staffs?: Prisma.StaffUncheckedUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUncheckedUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUncheckedUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUncheckedUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUncheckedUpdateManyWithoutClinicNestedInput
+  ratings?: Prisma.RatingUncheckedUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUncheckedUpdateManyWithoutClinicNestedInput
 }
 
-export type ClinicCreateWithoutPrescriptionsInput = {
+export type ClinicCreateWithoutClinicSettingsInput = {
   id?: string
   name: string
   email?: string | null
@@ -2613,8 +3096,10 @@ export type ClinicCreateWithoutPrescriptionsInput = {
   doctors?: Prisma.DoctorCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutClinicInput
-  clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutClinicInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutClinicInput
   payments?: Prisma.PaymentCreateNestedManyWithoutClinicInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutClinicInput
   services?: Prisma.ServiceCreateNestedManyWithoutClinicInput
@@ -2622,15 +3107,20 @@ export type ClinicCreateWithoutPrescriptionsInput = {
   staffs?: Prisma.StaffCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsCreateNestedManyWithoutClinicInput
   users?: Prisma.UserCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionCreateNestedManyWithoutClinicInput
 }
 
-export type ClinicUncheckedCreateWithoutPrescriptionsInput = {
+export type ClinicUncheckedCreateWithoutClinicSettingsInput = {
   id?: string
   name: string
   email?: string | null
@@ -2645,8 +3135,10 @@ export type ClinicUncheckedCreateWithoutPrescriptionsInput = {
   doctors?: Prisma.DoctorUncheckedCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientUncheckedCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutClinicInput
-  clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutClinicInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutClinicInput
   payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutClinicInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutClinicInput
   services?: Prisma.ServiceUncheckedCreateNestedManyWithoutClinicInput
@@ -2654,31 +3146,1240 @@ export type ClinicUncheckedCreateWithoutPrescriptionsInput = {
   staffs?: Prisma.StaffUncheckedCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureUncheckedCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsUncheckedCreateNestedManyWithoutClinicInput
   users?: Prisma.UserUncheckedCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberUncheckedCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutClinicInput
 }
 
-export type ClinicCreateOrConnectWithoutPrescriptionsInput = {
+export type ClinicCreateOrConnectWithoutClinicSettingsInput = {
+  where: Prisma.ClinicWhereUniqueInput
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutClinicSettingsInput, Prisma.ClinicUncheckedCreateWithoutClinicSettingsInput>
+}
+
+export type ClinicUpsertWithoutClinicSettingsInput = {
+  update: Prisma.XOR<Prisma.ClinicUpdateWithoutClinicSettingsInput, Prisma.ClinicUncheckedUpdateWithoutClinicSettingsInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutClinicSettingsInput, Prisma.ClinicUncheckedCreateWithoutClinicSettingsInput>
+  where?: Prisma.ClinicWhereInput
+}
+
+export type ClinicUpdateToOneWithWhereWithoutClinicSettingsInput = {
+  where?: Prisma.ClinicWhereInput
+  data: Prisma.XOR<Prisma.ClinicUpdateWithoutClinicSettingsInput, Prisma.ClinicUncheckedUpdateWithoutClinicSettingsInput>
+}
+
+export type ClinicUpdateWithoutClinicSettingsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  timezone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  logo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  doctors?: Prisma.DoctorUpdateManyWithoutClinicNestedInput
+  patients?: Prisma.PatientUpdateManyWithoutClinicNestedInput
+  appointments?: Prisma.AppointmentUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutClinicNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutClinicNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutClinicNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutClinicNestedInput
+  encounters?: Prisma.DiagnosisUpdateManyWithoutClinicNestedInput
+  services?: Prisma.ServiceUpdateManyWithoutClinicNestedInput
+  auditLogs?: Prisma.AuditLogUpdateManyWithoutClinicNestedInput
+  staffs?: Prisma.StaffUpdateManyWithoutClinicNestedInput
+  expenses?: Prisma.ExpenseUpdateManyWithoutClinicNestedInput
+  workingDays?: Prisma.WorkingDaysUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutClinicNestedInput
+  features?: Prisma.FeatureUpdateManyWithoutClinicNestedInput
+  systemSettings?: Prisma.SystemSettingsUpdateManyWithoutClinicNestedInput
+  users?: Prisma.UserUpdateManyWithoutClinicNestedInput
+  clinicMembers?: Prisma.ClinicMemberUpdateManyWithoutClinicNestedInput
+  ratings?: Prisma.RatingUpdateManyWithoutClinicNestedInput
+  growthRecords?: Prisma.GrowthRecordUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUpdateManyWithoutClinicNestedInput
+}
+
+export type ClinicUncheckedUpdateWithoutClinicSettingsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  timezone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  logo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  doctors?: Prisma.DoctorUncheckedUpdateManyWithoutClinicNestedInput
+  patients?: Prisma.PatientUncheckedUpdateManyWithoutClinicNestedInput
+  appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutClinicNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutClinicNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutClinicNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutClinicNestedInput
+  encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutClinicNestedInput
+  services?: Prisma.ServiceUncheckedUpdateManyWithoutClinicNestedInput
+  auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutClinicNestedInput
+  staffs?: Prisma.StaffUncheckedUpdateManyWithoutClinicNestedInput
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutClinicNestedInput
+  workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutClinicNestedInput
+  features?: Prisma.FeatureUncheckedUpdateManyWithoutClinicNestedInput
+  systemSettings?: Prisma.SystemSettingsUncheckedUpdateManyWithoutClinicNestedInput
+  users?: Prisma.UserUncheckedUpdateManyWithoutClinicNestedInput
+  clinicMembers?: Prisma.ClinicMemberUncheckedUpdateManyWithoutClinicNestedInput
+  ratings?: Prisma.RatingUncheckedUpdateManyWithoutClinicNestedInput
+  growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUncheckedUpdateManyWithoutClinicNestedInput
+}
+
+export type ClinicCreateWithoutRatingsInput = {
+  id?: string
+  name: string
+  email?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  timezone?: string | null
+  address?: string | null
+  phone?: string | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  logo?: string | null
+  doctors?: Prisma.DoctorCreateNestedManyWithoutClinicInput
+  patients?: Prisma.PatientCreateNestedManyWithoutClinicInput
+  appointments?: Prisma.AppointmentCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutClinicInput
+  medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutClinicInput
+  clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutClinicInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutClinicInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutClinicInput
+  encounters?: Prisma.DiagnosisCreateNestedManyWithoutClinicInput
+  services?: Prisma.ServiceCreateNestedManyWithoutClinicInput
+  auditLogs?: Prisma.AuditLogCreateNestedManyWithoutClinicInput
+  staffs?: Prisma.StaffCreateNestedManyWithoutClinicInput
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutClinicInput
+  workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutClinicInput
+  features?: Prisma.FeatureCreateNestedManyWithoutClinicInput
+  systemSettings?: Prisma.SystemSettingsCreateNestedManyWithoutClinicInput
+  users?: Prisma.UserCreateNestedManyWithoutClinicInput
+  clinicMembers?: Prisma.ClinicMemberCreateNestedManyWithoutClinicInput
+  growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionCreateNestedManyWithoutClinicInput
+}
+
+export type ClinicUncheckedCreateWithoutRatingsInput = {
+  id?: string
+  name: string
+  email?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  timezone?: string | null
+  address?: string | null
+  phone?: string | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  logo?: string | null
+  doctors?: Prisma.DoctorUncheckedCreateNestedManyWithoutClinicInput
+  patients?: Prisma.PatientUncheckedCreateNestedManyWithoutClinicInput
+  appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutClinicInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutClinicInput
+  clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutClinicInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutClinicInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutClinicInput
+  encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutClinicInput
+  services?: Prisma.ServiceUncheckedCreateNestedManyWithoutClinicInput
+  auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutClinicInput
+  staffs?: Prisma.StaffUncheckedCreateNestedManyWithoutClinicInput
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutClinicInput
+  workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutClinicInput
+  features?: Prisma.FeatureUncheckedCreateNestedManyWithoutClinicInput
+  systemSettings?: Prisma.SystemSettingsUncheckedCreateNestedManyWithoutClinicInput
+  users?: Prisma.UserUncheckedCreateNestedManyWithoutClinicInput
+  clinicMembers?: Prisma.ClinicMemberUncheckedCreateNestedManyWithoutClinicInput
+  growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutClinicInput
+}
+
+export type ClinicCreateOrConnectWithoutRatingsInput = {
+  where: Prisma.ClinicWhereUniqueInput
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutRatingsInput, Prisma.ClinicUncheckedCreateWithoutRatingsInput>
+}
+
+export type ClinicUpsertWithoutRatingsInput = {
+  update: Prisma.XOR<Prisma.ClinicUpdateWithoutRatingsInput, Prisma.ClinicUncheckedUpdateWithoutRatingsInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutRatingsInput, Prisma.ClinicUncheckedCreateWithoutRatingsInput>
+  where?: Prisma.ClinicWhereInput
+}
+
+export type ClinicUpdateToOneWithWhereWithoutRatingsInput = {
+  where?: Prisma.ClinicWhereInput
+  data: Prisma.XOR<Prisma.ClinicUpdateWithoutRatingsInput, Prisma.ClinicUncheckedUpdateWithoutRatingsInput>
+}
+
+export type ClinicUpdateWithoutRatingsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  timezone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  logo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  doctors?: Prisma.DoctorUpdateManyWithoutClinicNestedInput
+  patients?: Prisma.PatientUpdateManyWithoutClinicNestedInput
+  appointments?: Prisma.AppointmentUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutClinicNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutClinicNestedInput
+  clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutClinicNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutClinicNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutClinicNestedInput
+  encounters?: Prisma.DiagnosisUpdateManyWithoutClinicNestedInput
+  services?: Prisma.ServiceUpdateManyWithoutClinicNestedInput
+  auditLogs?: Prisma.AuditLogUpdateManyWithoutClinicNestedInput
+  staffs?: Prisma.StaffUpdateManyWithoutClinicNestedInput
+  expenses?: Prisma.ExpenseUpdateManyWithoutClinicNestedInput
+  workingDays?: Prisma.WorkingDaysUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutClinicNestedInput
+  features?: Prisma.FeatureUpdateManyWithoutClinicNestedInput
+  systemSettings?: Prisma.SystemSettingsUpdateManyWithoutClinicNestedInput
+  users?: Prisma.UserUpdateManyWithoutClinicNestedInput
+  clinicMembers?: Prisma.ClinicMemberUpdateManyWithoutClinicNestedInput
+  growthRecords?: Prisma.GrowthRecordUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUpdateManyWithoutClinicNestedInput
+}
+
+export type ClinicUncheckedUpdateWithoutRatingsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  timezone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  logo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  doctors?: Prisma.DoctorUncheckedUpdateManyWithoutClinicNestedInput
+  patients?: Prisma.PatientUncheckedUpdateManyWithoutClinicNestedInput
+  appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutClinicNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutClinicNestedInput
+  clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutClinicNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutClinicNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutClinicNestedInput
+  encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutClinicNestedInput
+  services?: Prisma.ServiceUncheckedUpdateManyWithoutClinicNestedInput
+  auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutClinicNestedInput
+  staffs?: Prisma.StaffUncheckedUpdateManyWithoutClinicNestedInput
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutClinicNestedInput
+  workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutClinicNestedInput
+  features?: Prisma.FeatureUncheckedUpdateManyWithoutClinicNestedInput
+  systemSettings?: Prisma.SystemSettingsUncheckedUpdateManyWithoutClinicNestedInput
+  users?: Prisma.UserUncheckedUpdateManyWithoutClinicNestedInput
+  clinicMembers?: Prisma.ClinicMemberUncheckedUpdateManyWithoutClinicNestedInput
+  growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUncheckedUpdateManyWithoutClinicNestedInput
+}
+
+export type ClinicCreateWithoutPrescriptionsInput = {
+  id?: string
+  name: string
+  email?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  timezone?: string | null
+  address?: string | null
+  phone?: string | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  logo?: string | null
+  doctors?: Prisma.DoctorCreateNestedManyWithoutClinicInput
+  patients?: Prisma.PatientCreateNestedManyWithoutClinicInput
+  appointments?: Prisma.AppointmentCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutClinicInput
+  medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutClinicInput
+  clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutClinicInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutClinicInput
+  encounters?: Prisma.DiagnosisCreateNestedManyWithoutClinicInput
+  services?: Prisma.ServiceCreateNestedManyWithoutClinicInput
+  auditLogs?: Prisma.AuditLogCreateNestedManyWithoutClinicInput
+  staffs?: Prisma.StaffCreateNestedManyWithoutClinicInput
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutClinicInput
+  workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutClinicInput
+  features?: Prisma.FeatureCreateNestedManyWithoutClinicInput
+  systemSettings?: Prisma.SystemSettingsCreateNestedManyWithoutClinicInput
+  users?: Prisma.UserCreateNestedManyWithoutClinicInput
+  clinicMembers?: Prisma.ClinicMemberCreateNestedManyWithoutClinicInput
+  ratings?: Prisma.RatingCreateNestedManyWithoutClinicInput
+  growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionCreateNestedManyWithoutClinicInput
+}
+
+export type ClinicUncheckedCreateWithoutPrescriptionsInput = {
+  id?: string
+  name: string
+  email?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  timezone?: string | null
+  address?: string | null
+  phone?: string | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  logo?: string | null
+  doctors?: Prisma.DoctorUncheckedCreateNestedManyWithoutClinicInput
+  patients?: Prisma.PatientUncheckedCreateNestedManyWithoutClinicInput
+  appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutClinicInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutClinicInput
+  clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutClinicInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutClinicInput
+  encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutClinicInput
+  services?: Prisma.ServiceUncheckedCreateNestedManyWithoutClinicInput
+  auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutClinicInput
+  staffs?: Prisma.StaffUncheckedCreateNestedManyWithoutClinicInput
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutClinicInput
+  workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutClinicInput
+  features?: Prisma.FeatureUncheckedCreateNestedManyWithoutClinicInput
+  systemSettings?: Prisma.SystemSettingsUncheckedCreateNestedManyWithoutClinicInput
+  users?: Prisma.UserUncheckedCreateNestedManyWithoutClinicInput
+  clinicMembers?: Prisma.ClinicMemberUncheckedCreateNestedManyWithoutClinicInput
+  ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutClinicInput
+  growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutClinicInput
+}
+
+export type ClinicCreateOrConnectWithoutPrescriptionsInput = {
+  where: Prisma.ClinicWhereUniqueInput
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutPrescriptionsInput, Prisma.ClinicUncheckedCreateWithoutPrescriptionsInput>
+}
+
+export type ClinicUpsertWithoutPrescriptionsInput = {
+  update: Prisma.XOR<Prisma.ClinicUpdateWithoutPrescriptionsInput, Prisma.ClinicUncheckedUpdateWithoutPrescriptionsInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutPrescriptionsInput, Prisma.ClinicUncheckedCreateWithoutPrescriptionsInput>
+  where?: Prisma.ClinicWhereInput
+}
+
+export type ClinicUpdateToOneWithWhereWithoutPrescriptionsInput = {
+  where?: Prisma.ClinicWhereInput
+  data: Prisma.XOR<Prisma.ClinicUpdateWithoutPrescriptionsInput, Prisma.ClinicUncheckedUpdateWithoutPrescriptionsInput>
+}
+
+export type ClinicUpdateWithoutPrescriptionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  timezone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  logo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  doctors?: Prisma.DoctorUpdateManyWithoutClinicNestedInput
+  patients?: Prisma.PatientUpdateManyWithoutClinicNestedInput
+  appointments?: Prisma.AppointmentUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutClinicNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutClinicNestedInput
+  clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutClinicNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutClinicNestedInput
+  encounters?: Prisma.DiagnosisUpdateManyWithoutClinicNestedInput
+  services?: Prisma.ServiceUpdateManyWithoutClinicNestedInput
+  auditLogs?: Prisma.AuditLogUpdateManyWithoutClinicNestedInput
+  staffs?: Prisma.StaffUpdateManyWithoutClinicNestedInput
+  expenses?: Prisma.ExpenseUpdateManyWithoutClinicNestedInput
+  workingDays?: Prisma.WorkingDaysUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutClinicNestedInput
+  features?: Prisma.FeatureUpdateManyWithoutClinicNestedInput
+  systemSettings?: Prisma.SystemSettingsUpdateManyWithoutClinicNestedInput
+  users?: Prisma.UserUpdateManyWithoutClinicNestedInput
+  clinicMembers?: Prisma.ClinicMemberUpdateManyWithoutClinicNestedInput
+  ratings?: Prisma.RatingUpdateManyWithoutClinicNestedInput
+  growthRecords?: Prisma.GrowthRecordUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUpdateManyWithoutClinicNestedInput
+}
+
+export type ClinicUncheckedUpdateWithoutPrescriptionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  timezone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  logo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  doctors?: Prisma.DoctorUncheckedUpdateManyWithoutClinicNestedInput
+  patients?: Prisma.PatientUncheckedUpdateManyWithoutClinicNestedInput
+  appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutClinicNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutClinicNestedInput
+  clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutClinicNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutClinicNestedInput
+  encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutClinicNestedInput
+  services?: Prisma.ServiceUncheckedUpdateManyWithoutClinicNestedInput
+  auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutClinicNestedInput
+  staffs?: Prisma.StaffUncheckedUpdateManyWithoutClinicNestedInput
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutClinicNestedInput
+  workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutClinicNestedInput
+  features?: Prisma.FeatureUncheckedUpdateManyWithoutClinicNestedInput
+  systemSettings?: Prisma.SystemSettingsUncheckedUpdateManyWithoutClinicNestedInput
+  users?: Prisma.UserUncheckedUpdateManyWithoutClinicNestedInput
+  clinicMembers?: Prisma.ClinicMemberUncheckedUpdateManyWithoutClinicNestedInput
+  ratings?: Prisma.RatingUncheckedUpdateManyWithoutClinicNestedInput
+  growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUncheckedUpdateManyWithoutClinicNestedInput
+}
+
+export type ClinicCreateWithoutPatientsInput = {
+  id?: string
+  name: string
+  email?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  timezone?: string | null
+  address?: string | null
+  phone?: string | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  logo?: string | null
+  doctors?: Prisma.DoctorCreateNestedManyWithoutClinicInput
+  appointments?: Prisma.AppointmentCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutClinicInput
+  medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutClinicInput
+  clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutClinicInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutClinicInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutClinicInput
+  encounters?: Prisma.DiagnosisCreateNestedManyWithoutClinicInput
+  services?: Prisma.ServiceCreateNestedManyWithoutClinicInput
+  auditLogs?: Prisma.AuditLogCreateNestedManyWithoutClinicInput
+  staffs?: Prisma.StaffCreateNestedManyWithoutClinicInput
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutClinicInput
+  workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutClinicInput
+  features?: Prisma.FeatureCreateNestedManyWithoutClinicInput
+  systemSettings?: Prisma.SystemSettingsCreateNestedManyWithoutClinicInput
+  users?: Prisma.UserCreateNestedManyWithoutClinicInput
+  clinicMembers?: Prisma.ClinicMemberCreateNestedManyWithoutClinicInput
+  ratings?: Prisma.RatingCreateNestedManyWithoutClinicInput
+  growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionCreateNestedManyWithoutClinicInput
+}
+
+export type ClinicUncheckedCreateWithoutPatientsInput = {
+  id?: string
+  name: string
+  email?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  timezone?: string | null
+  address?: string | null
+  phone?: string | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  logo?: string | null
+  doctors?: Prisma.DoctorUncheckedCreateNestedManyWithoutClinicInput
+  appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutClinicInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutClinicInput
+  clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutClinicInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutClinicInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutClinicInput
+  encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutClinicInput
+  services?: Prisma.ServiceUncheckedCreateNestedManyWithoutClinicInput
+  auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutClinicInput
+  staffs?: Prisma.StaffUncheckedCreateNestedManyWithoutClinicInput
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutClinicInput
+  workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutClinicInput
+  features?: Prisma.FeatureUncheckedCreateNestedManyWithoutClinicInput
+  systemSettings?: Prisma.SystemSettingsUncheckedCreateNestedManyWithoutClinicInput
+  users?: Prisma.UserUncheckedCreateNestedManyWithoutClinicInput
+  clinicMembers?: Prisma.ClinicMemberUncheckedCreateNestedManyWithoutClinicInput
+  ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutClinicInput
+  growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutClinicInput
+}
+
+export type ClinicCreateOrConnectWithoutPatientsInput = {
+  where: Prisma.ClinicWhereUniqueInput
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutPatientsInput, Prisma.ClinicUncheckedCreateWithoutPatientsInput>
+}
+
+export type ClinicUpsertWithoutPatientsInput = {
+  update: Prisma.XOR<Prisma.ClinicUpdateWithoutPatientsInput, Prisma.ClinicUncheckedUpdateWithoutPatientsInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutPatientsInput, Prisma.ClinicUncheckedCreateWithoutPatientsInput>
+  where?: Prisma.ClinicWhereInput
+}
+
+export type ClinicUpdateToOneWithWhereWithoutPatientsInput = {
+  where?: Prisma.ClinicWhereInput
+  data: Prisma.XOR<Prisma.ClinicUpdateWithoutPatientsInput, Prisma.ClinicUncheckedUpdateWithoutPatientsInput>
+}
+
+export type ClinicUpdateWithoutPatientsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  timezone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  logo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  doctors?: Prisma.DoctorUpdateManyWithoutClinicNestedInput
+  appointments?: Prisma.AppointmentUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutClinicNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutClinicNestedInput
+  clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutClinicNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutClinicNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutClinicNestedInput
+  encounters?: Prisma.DiagnosisUpdateManyWithoutClinicNestedInput
+  services?: Prisma.ServiceUpdateManyWithoutClinicNestedInput
+  auditLogs?: Prisma.AuditLogUpdateManyWithoutClinicNestedInput
+  staffs?: Prisma.StaffUpdateManyWithoutClinicNestedInput
+  expenses?: Prisma.ExpenseUpdateManyWithoutClinicNestedInput
+  workingDays?: Prisma.WorkingDaysUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutClinicNestedInput
+  features?: Prisma.FeatureUpdateManyWithoutClinicNestedInput
+  systemSettings?: Prisma.SystemSettingsUpdateManyWithoutClinicNestedInput
+  users?: Prisma.UserUpdateManyWithoutClinicNestedInput
+  clinicMembers?: Prisma.ClinicMemberUpdateManyWithoutClinicNestedInput
+  ratings?: Prisma.RatingUpdateManyWithoutClinicNestedInput
+  growthRecords?: Prisma.GrowthRecordUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUpdateManyWithoutClinicNestedInput
+}
+
+export type ClinicUncheckedUpdateWithoutPatientsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  timezone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  logo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  doctors?: Prisma.DoctorUncheckedUpdateManyWithoutClinicNestedInput
+  appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutClinicNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutClinicNestedInput
+  clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutClinicNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutClinicNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutClinicNestedInput
+  encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutClinicNestedInput
+  services?: Prisma.ServiceUncheckedUpdateManyWithoutClinicNestedInput
+  auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutClinicNestedInput
+  staffs?: Prisma.StaffUncheckedUpdateManyWithoutClinicNestedInput
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutClinicNestedInput
+  workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutClinicNestedInput
+  features?: Prisma.FeatureUncheckedUpdateManyWithoutClinicNestedInput
+  systemSettings?: Prisma.SystemSettingsUncheckedUpdateManyWithoutClinicNestedInput
+  users?: Prisma.UserUncheckedUpdateManyWithoutClinicNestedInput
+  clinicMembers?: Prisma.ClinicMemberUncheckedUpdateManyWithoutClinicNestedInput
+  ratings?: Prisma.RatingUncheckedUpdateManyWithoutClinicNestedInput
+  growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUncheckedUpdateManyWithoutClinicNestedInput
+}
+
+export type ClinicCreateWithoutPatientAllergiesInput = {
+  id?: string
+  name: string
+  email?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  timezone?: string | null
+  address?: string | null
+  phone?: string | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  logo?: string | null
+  doctors?: Prisma.DoctorCreateNestedManyWithoutClinicInput
+  patients?: Prisma.PatientCreateNestedManyWithoutClinicInput
+  appointments?: Prisma.AppointmentCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutClinicInput
+  medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutClinicInput
+  clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutClinicInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutClinicInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutClinicInput
+  encounters?: Prisma.DiagnosisCreateNestedManyWithoutClinicInput
+  services?: Prisma.ServiceCreateNestedManyWithoutClinicInput
+  auditLogs?: Prisma.AuditLogCreateNestedManyWithoutClinicInput
+  staffs?: Prisma.StaffCreateNestedManyWithoutClinicInput
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutClinicInput
+  workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutClinicInput
+  features?: Prisma.FeatureCreateNestedManyWithoutClinicInput
+  systemSettings?: Prisma.SystemSettingsCreateNestedManyWithoutClinicInput
+  users?: Prisma.UserCreateNestedManyWithoutClinicInput
+  clinicMembers?: Prisma.ClinicMemberCreateNestedManyWithoutClinicInput
+  ratings?: Prisma.RatingCreateNestedManyWithoutClinicInput
+  growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionCreateNestedManyWithoutClinicInput
+}
+
+export type ClinicUncheckedCreateWithoutPatientAllergiesInput = {
+  id?: string
+  name: string
+  email?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  timezone?: string | null
+  address?: string | null
+  phone?: string | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  logo?: string | null
+  doctors?: Prisma.DoctorUncheckedCreateNestedManyWithoutClinicInput
+  patients?: Prisma.PatientUncheckedCreateNestedManyWithoutClinicInput
+  appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutClinicInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutClinicInput
+  clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutClinicInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutClinicInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutClinicInput
+  encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutClinicInput
+  services?: Prisma.ServiceUncheckedCreateNestedManyWithoutClinicInput
+  auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutClinicInput
+  staffs?: Prisma.StaffUncheckedCreateNestedManyWithoutClinicInput
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutClinicInput
+  workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutClinicInput
+  features?: Prisma.FeatureUncheckedCreateNestedManyWithoutClinicInput
+  systemSettings?: Prisma.SystemSettingsUncheckedCreateNestedManyWithoutClinicInput
+  users?: Prisma.UserUncheckedCreateNestedManyWithoutClinicInput
+  clinicMembers?: Prisma.ClinicMemberUncheckedCreateNestedManyWithoutClinicInput
+  ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutClinicInput
+  growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutClinicInput
+}
+
+export type ClinicCreateOrConnectWithoutPatientAllergiesInput = {
+  where: Prisma.ClinicWhereUniqueInput
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutPatientAllergiesInput, Prisma.ClinicUncheckedCreateWithoutPatientAllergiesInput>
+}
+
+export type ClinicUpsertWithoutPatientAllergiesInput = {
+  update: Prisma.XOR<Prisma.ClinicUpdateWithoutPatientAllergiesInput, Prisma.ClinicUncheckedUpdateWithoutPatientAllergiesInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutPatientAllergiesInput, Prisma.ClinicUncheckedCreateWithoutPatientAllergiesInput>
+  where?: Prisma.ClinicWhereInput
+}
+
+export type ClinicUpdateToOneWithWhereWithoutPatientAllergiesInput = {
+  where?: Prisma.ClinicWhereInput
+  data: Prisma.XOR<Prisma.ClinicUpdateWithoutPatientAllergiesInput, Prisma.ClinicUncheckedUpdateWithoutPatientAllergiesInput>
+}
+
+export type ClinicUpdateWithoutPatientAllergiesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  timezone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  logo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  doctors?: Prisma.DoctorUpdateManyWithoutClinicNestedInput
+  patients?: Prisma.PatientUpdateManyWithoutClinicNestedInput
+  appointments?: Prisma.AppointmentUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutClinicNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutClinicNestedInput
+  clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutClinicNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutClinicNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutClinicNestedInput
+  encounters?: Prisma.DiagnosisUpdateManyWithoutClinicNestedInput
+  services?: Prisma.ServiceUpdateManyWithoutClinicNestedInput
+  auditLogs?: Prisma.AuditLogUpdateManyWithoutClinicNestedInput
+  staffs?: Prisma.StaffUpdateManyWithoutClinicNestedInput
+  expenses?: Prisma.ExpenseUpdateManyWithoutClinicNestedInput
+  workingDays?: Prisma.WorkingDaysUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutClinicNestedInput
+  features?: Prisma.FeatureUpdateManyWithoutClinicNestedInput
+  systemSettings?: Prisma.SystemSettingsUpdateManyWithoutClinicNestedInput
+  users?: Prisma.UserUpdateManyWithoutClinicNestedInput
+  clinicMembers?: Prisma.ClinicMemberUpdateManyWithoutClinicNestedInput
+  ratings?: Prisma.RatingUpdateManyWithoutClinicNestedInput
+  growthRecords?: Prisma.GrowthRecordUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUpdateManyWithoutClinicNestedInput
+}
+
+export type ClinicUncheckedUpdateWithoutPatientAllergiesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  timezone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  logo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  doctors?: Prisma.DoctorUncheckedUpdateManyWithoutClinicNestedInput
+  patients?: Prisma.PatientUncheckedUpdateManyWithoutClinicNestedInput
+  appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutClinicNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutClinicNestedInput
+  clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutClinicNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutClinicNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutClinicNestedInput
+  encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutClinicNestedInput
+  services?: Prisma.ServiceUncheckedUpdateManyWithoutClinicNestedInput
+  auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutClinicNestedInput
+  staffs?: Prisma.StaffUncheckedUpdateManyWithoutClinicNestedInput
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutClinicNestedInput
+  workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutClinicNestedInput
+  features?: Prisma.FeatureUncheckedUpdateManyWithoutClinicNestedInput
+  systemSettings?: Prisma.SystemSettingsUncheckedUpdateManyWithoutClinicNestedInput
+  users?: Prisma.UserUncheckedUpdateManyWithoutClinicNestedInput
+  clinicMembers?: Prisma.ClinicMemberUncheckedUpdateManyWithoutClinicNestedInput
+  ratings?: Prisma.RatingUncheckedUpdateManyWithoutClinicNestedInput
+  growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUncheckedUpdateManyWithoutClinicNestedInput
+}
+
+export type ClinicCreateWithoutPatientConditionsInput = {
+  id?: string
+  name: string
+  email?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  timezone?: string | null
+  address?: string | null
+  phone?: string | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  logo?: string | null
+  doctors?: Prisma.DoctorCreateNestedManyWithoutClinicInput
+  patients?: Prisma.PatientCreateNestedManyWithoutClinicInput
+  appointments?: Prisma.AppointmentCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutClinicInput
+  medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutClinicInput
+  clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutClinicInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutClinicInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutClinicInput
+  encounters?: Prisma.DiagnosisCreateNestedManyWithoutClinicInput
+  services?: Prisma.ServiceCreateNestedManyWithoutClinicInput
+  auditLogs?: Prisma.AuditLogCreateNestedManyWithoutClinicInput
+  staffs?: Prisma.StaffCreateNestedManyWithoutClinicInput
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutClinicInput
+  workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutClinicInput
+  features?: Prisma.FeatureCreateNestedManyWithoutClinicInput
+  systemSettings?: Prisma.SystemSettingsCreateNestedManyWithoutClinicInput
+  users?: Prisma.UserCreateNestedManyWithoutClinicInput
+  clinicMembers?: Prisma.ClinicMemberCreateNestedManyWithoutClinicInput
+  ratings?: Prisma.RatingCreateNestedManyWithoutClinicInput
+  growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyCreateNestedManyWithoutClinicInput
+}
+
+export type ClinicUncheckedCreateWithoutPatientConditionsInput = {
+  id?: string
+  name: string
+  email?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  timezone?: string | null
+  address?: string | null
+  phone?: string | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  logo?: string | null
+  doctors?: Prisma.DoctorUncheckedCreateNestedManyWithoutClinicInput
+  patients?: Prisma.PatientUncheckedCreateNestedManyWithoutClinicInput
+  appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutClinicInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutClinicInput
+  clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutClinicInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutClinicInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutClinicInput
+  encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutClinicInput
+  services?: Prisma.ServiceUncheckedCreateNestedManyWithoutClinicInput
+  auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutClinicInput
+  staffs?: Prisma.StaffUncheckedCreateNestedManyWithoutClinicInput
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutClinicInput
+  workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutClinicInput
+  features?: Prisma.FeatureUncheckedCreateNestedManyWithoutClinicInput
+  systemSettings?: Prisma.SystemSettingsUncheckedCreateNestedManyWithoutClinicInput
+  users?: Prisma.UserUncheckedCreateNestedManyWithoutClinicInput
+  clinicMembers?: Prisma.ClinicMemberUncheckedCreateNestedManyWithoutClinicInput
+  ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutClinicInput
+  growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutClinicInput
+}
+
+export type ClinicCreateOrConnectWithoutPatientConditionsInput = {
+  where: Prisma.ClinicWhereUniqueInput
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutPatientConditionsInput, Prisma.ClinicUncheckedCreateWithoutPatientConditionsInput>
+}
+
+export type ClinicUpsertWithoutPatientConditionsInput = {
+  update: Prisma.XOR<Prisma.ClinicUpdateWithoutPatientConditionsInput, Prisma.ClinicUncheckedUpdateWithoutPatientConditionsInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutPatientConditionsInput, Prisma.ClinicUncheckedCreateWithoutPatientConditionsInput>
+  where?: Prisma.ClinicWhereInput
+}
+
+export type ClinicUpdateToOneWithWhereWithoutPatientConditionsInput = {
+  where?: Prisma.ClinicWhereInput
+  data: Prisma.XOR<Prisma.ClinicUpdateWithoutPatientConditionsInput, Prisma.ClinicUncheckedUpdateWithoutPatientConditionsInput>
+}
+
+export type ClinicUpdateWithoutPatientConditionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  timezone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  logo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  doctors?: Prisma.DoctorUpdateManyWithoutClinicNestedInput
+  patients?: Prisma.PatientUpdateManyWithoutClinicNestedInput
+  appointments?: Prisma.AppointmentUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutClinicNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutClinicNestedInput
+  clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutClinicNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutClinicNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutClinicNestedInput
+  encounters?: Prisma.DiagnosisUpdateManyWithoutClinicNestedInput
+  services?: Prisma.ServiceUpdateManyWithoutClinicNestedInput
+  auditLogs?: Prisma.AuditLogUpdateManyWithoutClinicNestedInput
+  staffs?: Prisma.StaffUpdateManyWithoutClinicNestedInput
+  expenses?: Prisma.ExpenseUpdateManyWithoutClinicNestedInput
+  workingDays?: Prisma.WorkingDaysUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutClinicNestedInput
+  features?: Prisma.FeatureUpdateManyWithoutClinicNestedInput
+  systemSettings?: Prisma.SystemSettingsUpdateManyWithoutClinicNestedInput
+  users?: Prisma.UserUpdateManyWithoutClinicNestedInput
+  clinicMembers?: Prisma.ClinicMemberUpdateManyWithoutClinicNestedInput
+  ratings?: Prisma.RatingUpdateManyWithoutClinicNestedInput
+  growthRecords?: Prisma.GrowthRecordUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUpdateManyWithoutClinicNestedInput
+}
+
+export type ClinicUncheckedUpdateWithoutPatientConditionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  timezone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  logo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  doctors?: Prisma.DoctorUncheckedUpdateManyWithoutClinicNestedInput
+  patients?: Prisma.PatientUncheckedUpdateManyWithoutClinicNestedInput
+  appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutClinicNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutClinicNestedInput
+  clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutClinicNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutClinicNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutClinicNestedInput
+  encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutClinicNestedInput
+  services?: Prisma.ServiceUncheckedUpdateManyWithoutClinicNestedInput
+  auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutClinicNestedInput
+  staffs?: Prisma.StaffUncheckedUpdateManyWithoutClinicNestedInput
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutClinicNestedInput
+  workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutClinicNestedInput
+  features?: Prisma.FeatureUncheckedUpdateManyWithoutClinicNestedInput
+  systemSettings?: Prisma.SystemSettingsUncheckedUpdateManyWithoutClinicNestedInput
+  users?: Prisma.UserUncheckedUpdateManyWithoutClinicNestedInput
+  clinicMembers?: Prisma.ClinicMemberUncheckedUpdateManyWithoutClinicNestedInput
+  ratings?: Prisma.RatingUncheckedUpdateManyWithoutClinicNestedInput
+  growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutClinicNestedInput
+}
+
+export type ClinicCreateWithoutAppointmentsInput = {
+  id?: string
+  name: string
+  email?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  timezone?: string | null
+  address?: string | null
+  phone?: string | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  logo?: string | null
+  doctors?: Prisma.DoctorCreateNestedManyWithoutClinicInput
+  patients?: Prisma.PatientCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutClinicInput
+  medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutClinicInput
+  clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutClinicInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutClinicInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutClinicInput
+  encounters?: Prisma.DiagnosisCreateNestedManyWithoutClinicInput
+  services?: Prisma.ServiceCreateNestedManyWithoutClinicInput
+  auditLogs?: Prisma.AuditLogCreateNestedManyWithoutClinicInput
+  staffs?: Prisma.StaffCreateNestedManyWithoutClinicInput
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutClinicInput
+  workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutClinicInput
+  features?: Prisma.FeatureCreateNestedManyWithoutClinicInput
+  systemSettings?: Prisma.SystemSettingsCreateNestedManyWithoutClinicInput
+  users?: Prisma.UserCreateNestedManyWithoutClinicInput
+  clinicMembers?: Prisma.ClinicMemberCreateNestedManyWithoutClinicInput
+  ratings?: Prisma.RatingCreateNestedManyWithoutClinicInput
+  growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionCreateNestedManyWithoutClinicInput
+}
+
+export type ClinicUncheckedCreateWithoutAppointmentsInput = {
+  id?: string
+  name: string
+  email?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  timezone?: string | null
+  address?: string | null
+  phone?: string | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  logo?: string | null
+  doctors?: Prisma.DoctorUncheckedCreateNestedManyWithoutClinicInput
+  patients?: Prisma.PatientUncheckedCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutClinicInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutClinicInput
+  clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutClinicInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutClinicInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutClinicInput
+  encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutClinicInput
+  services?: Prisma.ServiceUncheckedCreateNestedManyWithoutClinicInput
+  auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutClinicInput
+  staffs?: Prisma.StaffUncheckedCreateNestedManyWithoutClinicInput
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutClinicInput
+  workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutClinicInput
+  features?: Prisma.FeatureUncheckedCreateNestedManyWithoutClinicInput
+  systemSettings?: Prisma.SystemSettingsUncheckedCreateNestedManyWithoutClinicInput
+  users?: Prisma.UserUncheckedCreateNestedManyWithoutClinicInput
+  clinicMembers?: Prisma.ClinicMemberUncheckedCreateNestedManyWithoutClinicInput
+  ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutClinicInput
+  growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutClinicInput
+}
+
+export type ClinicCreateOrConnectWithoutAppointmentsInput = {
+  where: Prisma.ClinicWhereUniqueInput
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutAppointmentsInput, Prisma.ClinicUncheckedCreateWithoutAppointmentsInput>
+}
+
+export type ClinicUpsertWithoutAppointmentsInput = {
+  update: Prisma.XOR<Prisma.ClinicUpdateWithoutAppointmentsInput, Prisma.ClinicUncheckedUpdateWithoutAppointmentsInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutAppointmentsInput, Prisma.ClinicUncheckedCreateWithoutAppointmentsInput>
+  where?: Prisma.ClinicWhereInput
+}
+
+export type ClinicUpdateToOneWithWhereWithoutAppointmentsInput = {
+  where?: Prisma.ClinicWhereInput
+  data: Prisma.XOR<Prisma.ClinicUpdateWithoutAppointmentsInput, Prisma.ClinicUncheckedUpdateWithoutAppointmentsInput>
+}
+
+export type ClinicUpdateWithoutAppointmentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  timezone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  logo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  doctors?: Prisma.DoctorUpdateManyWithoutClinicNestedInput
+  patients?: Prisma.PatientUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutClinicNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutClinicNestedInput
+  clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutClinicNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutClinicNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutClinicNestedInput
+  encounters?: Prisma.DiagnosisUpdateManyWithoutClinicNestedInput
+  services?: Prisma.ServiceUpdateManyWithoutClinicNestedInput
+  auditLogs?: Prisma.AuditLogUpdateManyWithoutClinicNestedInput
+  staffs?: Prisma.StaffUpdateManyWithoutClinicNestedInput
+  expenses?: Prisma.ExpenseUpdateManyWithoutClinicNestedInput
+  workingDays?: Prisma.WorkingDaysUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutClinicNestedInput
+  features?: Prisma.FeatureUpdateManyWithoutClinicNestedInput
+  systemSettings?: Prisma.SystemSettingsUpdateManyWithoutClinicNestedInput
+  users?: Prisma.UserUpdateManyWithoutClinicNestedInput
+  clinicMembers?: Prisma.ClinicMemberUpdateManyWithoutClinicNestedInput
+  ratings?: Prisma.RatingUpdateManyWithoutClinicNestedInput
+  growthRecords?: Prisma.GrowthRecordUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUpdateManyWithoutClinicNestedInput
+}
+
+export type ClinicUncheckedUpdateWithoutAppointmentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  timezone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  logo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  doctors?: Prisma.DoctorUncheckedUpdateManyWithoutClinicNestedInput
+  patients?: Prisma.PatientUncheckedUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutClinicNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutClinicNestedInput
+  clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutClinicNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutClinicNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutClinicNestedInput
+  encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutClinicNestedInput
+  services?: Prisma.ServiceUncheckedUpdateManyWithoutClinicNestedInput
+  auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutClinicNestedInput
+  staffs?: Prisma.StaffUncheckedUpdateManyWithoutClinicNestedInput
+  expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutClinicNestedInput
+  workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutClinicNestedInput
+  features?: Prisma.FeatureUncheckedUpdateManyWithoutClinicNestedInput
+  systemSettings?: Prisma.SystemSettingsUncheckedUpdateManyWithoutClinicNestedInput
+  users?: Prisma.UserUncheckedUpdateManyWithoutClinicNestedInput
+  clinicMembers?: Prisma.ClinicMemberUncheckedUpdateManyWithoutClinicNestedInput
+  ratings?: Prisma.RatingUncheckedUpdateManyWithoutClinicNestedInput
+  growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUncheckedUpdateManyWithoutClinicNestedInput
+}
+
+export type ClinicCreateWithoutAppointmentSeriesInput = {
+  id?: string
+  name: string
+  email?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  timezone?: string | null
+  address?: string | null
+  phone?: string | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  logo?: string | null
+  doctors?: Prisma.DoctorCreateNestedManyWithoutClinicInput
+  patients?: Prisma.PatientCreateNestedManyWithoutClinicInput
+  appointments?: Prisma.AppointmentCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutClinicInput
+  medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutClinicInput
+  clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutClinicInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutClinicInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutClinicInput
+  encounters?: Prisma.DiagnosisCreateNestedManyWithoutClinicInput
+  services?: Prisma.ServiceCreateNestedManyWithoutClinicInput
+  auditLogs?: Prisma.AuditLogCreateNestedManyWithoutClinicInput
+  staffs?: Prisma.StaffCreateNestedManyWithoutClinicInput
+  expenses?: Prisma.ExpenseCreateNestedManyWithoutClinicInput
+  workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutClinicInput
+  features?: Prisma.FeatureCreateNestedManyWithoutClinicInput
+  systemSettings?: Prisma.SystemSettingsCreateNestedManyWithoutClinicInput
+  users?: Prisma.UserCreateNestedManyWithoutClinicInput
+  clinicMembers?: Prisma.ClinicMemberCreateNestedManyWithoutClinicInput
+  ratings?: Prisma.RatingCreateNestedManyWithoutClinicInput
+  growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionCreateNestedManyWithoutClinicInput
+}
+
+export type ClinicUncheckedCreateWithoutAppointmentSeriesInput = {
+  id?: string
+  name: string
+  email?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  timezone?: string | null
+  address?: string | null
+  phone?: string | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  logo?: string | null
+  doctors?: Prisma.DoctorUncheckedCreateNestedManyWithoutClinicInput
+  patients?: Prisma.PatientUncheckedCreateNestedManyWithoutClinicInput
+  appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutClinicInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutClinicInput
+  clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutClinicInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutClinicInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutClinicInput
+  encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutClinicInput
+  services?: Prisma.ServiceUncheckedCreateNestedManyWithoutClinicInput
+  auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutClinicInput
+  staffs?: Prisma.StaffUncheckedCreateNestedManyWithoutClinicInput
+  expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutClinicInput
+  workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutClinicInput
+  features?: Prisma.FeatureUncheckedCreateNestedManyWithoutClinicInput
+  systemSettings?: Prisma.SystemSettingsUncheckedCreateNestedManyWithoutClinicInput
+  users?: Prisma.UserUncheckedCreateNestedManyWithoutClinicInput
+  clinicMembers?: Prisma.ClinicMemberUncheckedCreateNestedManyWithoutClinicInput
+  ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutClinicInput
+  growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutClinicInput
+}
+
+export type ClinicCreateOrConnectWithoutAppointmentSeriesInput = {
   where: Prisma.ClinicWhereUniqueInput
-  create: Prisma.XOR<Prisma.ClinicCreateWithoutPrescriptionsInput, Prisma.ClinicUncheckedCreateWithoutPrescriptionsInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutAppointmentSeriesInput, Prisma.ClinicUncheckedCreateWithoutAppointmentSeriesInput>
 }
 
-export type ClinicUpsertWithoutPrescriptionsInput = {
-  update: Prisma.XOR<Prisma.ClinicUpdateWithoutPrescriptionsInput, Prisma.ClinicUncheckedUpdateWithoutPrescriptionsInput>
-  create: Prisma.XOR<Prisma.ClinicCreateWithoutPrescriptionsInput, Prisma.ClinicUncheckedCreateWithoutPrescriptionsInput>
+export type ClinicUpsertWithoutAppointmentSeriesInput = {
+  update: Prisma.XOR<Prisma.ClinicUpdateWithoutAppointmentSeriesInput, Prisma.ClinicUncheckedUpdateWithoutAppointmentSeriesInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutAppointmentSeriesInput, Prisma.ClinicUncheckedCreateWithoutAppointmentSeriesInput>
   where?: Prisma.ClinicWhereInput
 }
 
-export type ClinicUpdateToOneWithWhereWithoutPrescriptionsInput = {
+export type ClinicUpdateToOneWithWhereWithoutAppointmentSeriesInput = {
   where?: Prisma.ClinicWhereInput
-  data: Prisma.XOR<Prisma.ClinicUpdateWithoutPrescriptionsInput, Prisma.ClinicUncheckedUpdateWithoutPrescriptionsInput>
+  data: Prisma.XOR<Prisma.ClinicUpdateWithoutAppointmentSeriesInput, Prisma.ClinicUncheckedUpdateWithoutAppointmentSeriesInput>
 }
 
-export type ClinicUpdateWithoutPrescriptionsInput = {
+export type ClinicUpdateWithoutAppointmentSeriesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2693,8 +4394,10 @@ export type ClinicUpdateWithoutPrescriptionsInput = {
   doctors?: Prisma.DoctorUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutClinicNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutClinicNestedInput
   payments?: Prisma.PaymentUpdateManyWithoutClinicNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutClinicNestedInput
   services?: Prisma.ServiceUpdateManyWithoutClinicNestedInput
@@ -2702,15 +4405,20 @@ export type ClinicUpdateWithoutPrescriptionsInput = {
   staffs?: Prisma.StaffUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUpdateManyWithoutClinicNestedInput
 }
 
-export type ClinicUncheckedUpdateWithoutPrescriptionsInput = {
+export type ClinicUncheckedUpdateWithoutAppointmentSeriesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2725,8 +4433,10 @@ export type ClinicUncheckedUpdateWithoutPrescriptionsInput = {
   doctors?: Prisma.DoctorUncheckedUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUncheckedUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutClinicNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutClinicNestedInput
   payments?: Prisma.PaymentUncheckedUpdateManyWithoutClinicNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutClinicNestedInput
   services?: Prisma.ServiceUncheckedUpdateManyWithoutClinicNestedInput
@@ -2734,15 +4444,20 @@ export type ClinicUncheckedUpdateWithoutPrescriptionsInput = {
   staffs?: Prisma.StaffUncheckedUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUncheckedUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUncheckedUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUncheckedUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUncheckedUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUncheckedUpdateManyWithoutClinicNestedInput
 }
 
-export type ClinicCreateWithoutPatientsInput = {
+export type ClinicCreateWithoutWaitlistEntriesInput = {
   id?: string
   name: string
   email?: string | null
@@ -2755,7 +4470,9 @@ export type ClinicCreateWithoutPatientsInput = {
   isDeleted?: boolean | null
   logo?: string | null
   doctors?: Prisma.DoctorCreateNestedManyWithoutClinicInput
+  patients?: Prisma.PatientCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutClinicInput
@@ -2766,15 +4483,20 @@ export type ClinicCreateWithoutPatientsInput = {
   staffs?: Prisma.StaffCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsCreateNestedManyWithoutClinicInput
   users?: Prisma.UserCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionCreateNestedManyWithoutClinicInput
 }
 
-export type ClinicUncheckedCreateWithoutPatientsInput = {
+export type ClinicUncheckedCreateWithoutWaitlistEntriesInput = {
   id?: string
   name: string
   email?: string | null
@@ -2787,7 +4509,9 @@ export type ClinicUncheckedCreateWithoutPatientsInput = {
   isDeleted?: boolean | null
   logo?: string | null
   doctors?: Prisma.DoctorUncheckedCreateNestedManyWithoutClinicInput
+  patients?: Prisma.PatientUncheckedCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutClinicInput
@@ -2798,31 +4522,36 @@ export type ClinicUncheckedCreateWithoutPatientsInput = {
   staffs?: Prisma.StaffUncheckedCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureUncheckedCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsUncheckedCreateNestedManyWithoutClinicInput
   users?: Prisma.UserUncheckedCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberUncheckedCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutClinicInput
 }
 
-export type ClinicCreateOrConnectWithoutPatientsInput = {
+export type ClinicCreateOrConnectWithoutWaitlistEntriesInput = {
   where: Prisma.ClinicWhereUniqueInput
-  create: Prisma.XOR<Prisma.ClinicCreateWithoutPatientsInput, Prisma.ClinicUncheckedCreateWithoutPatientsInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutWaitlistEntriesInput, Prisma.ClinicUncheckedCreateWithoutWaitlistEntriesInput>
 }
 
-export type ClinicUpsertWithoutPatientsInput = {
-  update: Prisma.XOR<Prisma.ClinicUpdateWithoutPatientsInput, Prisma.ClinicUncheckedUpdateWithoutPatientsInput>
-  create: Prisma.XOR<Prisma.ClinicCreateWithoutPatientsInput, Prisma.ClinicUncheckedCreateWithoutPatientsInput>
+export type ClinicUpsertWithoutWaitlistEntriesInput = {
+  update: Prisma.XOR<Prisma.ClinicUpdateWithoutWaitlistEntriesInput, Prisma.ClinicUncheckedUpdateWithoutWaitlistEntriesInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutWaitlistEntriesInput, Prisma.ClinicUncheckedCreateWithoutWaitlistEntriesInput>
   where?: Prisma.ClinicWhereInput
 }
 
-export type ClinicUpdateToOneWithWhereWithoutPatientsInput = {
+export type ClinicUpdateToOneWithWhereWithoutWaitlistEntriesInput = {
   where?: Prisma.ClinicWhereInput
-  data: Prisma.XOR<Prisma.ClinicUpdateWithoutPatientsInput, Prisma.ClinicUncheckedUpdateWithoutPatientsInput>
+  data: Prisma.XOR<Prisma.ClinicUpdateWithoutWaitlistEntriesInput, Prisma.ClinicUncheckedUpdateWithoutWaitlistEntriesInput>
 }
 
-export type ClinicUpdateWithoutPatientsInput = {
+export type ClinicUpdateWithoutWaitlistEntriesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2835,7 +4564,9 @@ export type ClinicUpdateWithoutPatientsInput = {
   isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   logo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   doctors?: Prisma.DoctorUpdateManyWithoutClinicNestedInput
+  patients?: Prisma.PatientUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUpdateManyWithoutClinicNestedInput
@@ -2846,15 +4577,20 @@ export type ClinicUpdateWithoutPatientsInput = {
   staffs?: Prisma.StaffUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUpdateManyWithoutClinicNestedInput
 }
 
-export type ClinicUncheckedUpdateWithoutPatientsInput = {
+export type ClinicUncheckedUpdateWithoutWaitlistEntriesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2867,7 +4603,9 @@ export type ClinicUncheckedUpdateWithoutPatientsInput = {
   isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   logo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   doctors?: Prisma.DoctorUncheckedUpdateManyWithoutClinicNestedInput
+  patients?: Prisma.PatientUncheckedUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutClinicNestedInput
@@ -2878,15 +4616,20 @@ export type ClinicUncheckedUpdateWithoutPatientsInput = {
   staffs?: Prisma.StaffUncheckedUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUncheckedUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUncheckedUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUncheckedUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUncheckedUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUncheckedUpdateManyWithoutClinicNestedInput
 }
 
-export type ClinicCreateWithoutAppointmentsInput = {
+export type ClinicCreateWithoutMedicalRecordsInput = {
   id?: string
   name: string
   email?: string | null
@@ -2900,7 +4643,9 @@ export type ClinicCreateWithoutAppointmentsInput = {
   logo?: string | null
   doctors?: Prisma.DoctorCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientCreateNestedManyWithoutClinicInput
-  medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutClinicInput
+  appointments?: Prisma.AppointmentCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutClinicInput
   payments?: Prisma.PaymentCreateNestedManyWithoutClinicInput
@@ -2910,15 +4655,20 @@ export type ClinicCreateWithoutAppointmentsInput = {
   staffs?: Prisma.StaffCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsCreateNestedManyWithoutClinicInput
   users?: Prisma.UserCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionCreateNestedManyWithoutClinicInput
 }
 
-export type ClinicUncheckedCreateWithoutAppointmentsInput = {
+export type ClinicUncheckedCreateWithoutMedicalRecordsInput = {
   id?: string
   name: string
   email?: string | null
@@ -2932,7 +4682,9 @@ export type ClinicUncheckedCreateWithoutAppointmentsInput = {
   logo?: string | null
   doctors?: Prisma.DoctorUncheckedCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientUncheckedCreateNestedManyWithoutClinicInput
-  medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutClinicInput
+  appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutClinicInput
   payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutClinicInput
@@ -2942,31 +4694,36 @@ export type ClinicUncheckedCreateWithoutAppointmentsInput = {
   staffs?: Prisma.StaffUncheckedCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureUncheckedCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsUncheckedCreateNestedManyWithoutClinicInput
   users?: Prisma.UserUncheckedCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberUncheckedCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutClinicInput
 }
 
-export type ClinicCreateOrConnectWithoutAppointmentsInput = {
+export type ClinicCreateOrConnectWithoutMedicalRecordsInput = {
   where: Prisma.ClinicWhereUniqueInput
-  create: Prisma.XOR<Prisma.ClinicCreateWithoutAppointmentsInput, Prisma.ClinicUncheckedCreateWithoutAppointmentsInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutMedicalRecordsInput, Prisma.ClinicUncheckedCreateWithoutMedicalRecordsInput>
 }
 
-export type ClinicUpsertWithoutAppointmentsInput = {
-  update: Prisma.XOR<Prisma.ClinicUpdateWithoutAppointmentsInput, Prisma.ClinicUncheckedUpdateWithoutAppointmentsInput>
-  create: Prisma.XOR<Prisma.ClinicCreateWithoutAppointmentsInput, Prisma.ClinicUncheckedCreateWithoutAppointmentsInput>
+export type ClinicUpsertWithoutMedicalRecordsInput = {
+  update: Prisma.XOR<Prisma.ClinicUpdateWithoutMedicalRecordsInput, Prisma.ClinicUncheckedUpdateWithoutMedicalRecordsInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutMedicalRecordsInput, Prisma.ClinicUncheckedCreateWithoutMedicalRecordsInput>
   where?: Prisma.ClinicWhereInput
 }
 
-export type ClinicUpdateToOneWithWhereWithoutAppointmentsInput = {
+export type ClinicUpdateToOneWithWhereWithoutMedicalRecordsInput = {
   where?: Prisma.ClinicWhereInput
-  data: Prisma.XOR<Prisma.ClinicUpdateWithoutAppointmentsInput, Prisma.ClinicUncheckedUpdateWithoutAppointmentsInput>
+  data: Prisma.XOR<Prisma.ClinicUpdateWithoutMedicalRecordsInput, Prisma.ClinicUncheckedUpdateWithoutMedicalRecordsInput>
 }
 
-export type ClinicUpdateWithoutAppointmentsInput = {
+export type ClinicUpdateWithoutMedicalRecordsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -2980,7 +4737,9 @@ export type ClinicUpdateWithoutAppointmentsInput = {
   logo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   doctors?: Prisma.DoctorUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUpdateManyWithoutClinicNestedInput
-  medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutClinicNestedInput
+  appointments?: Prisma.AppointmentUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUpdateManyWithoutClinicNestedInput
   payments?: Prisma.PaymentUpdateManyWithoutClinicNestedInput
@@ -2990,15 +4749,20 @@ export type ClinicUpdateWithoutAppointmentsInput = {
   staffs?: Prisma.StaffUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUpdateManyWithoutClinicNestedInput
 }
 
-export type ClinicUncheckedUpdateWithoutAppointmentsInput = {
+export type ClinicUncheckedUpdateWithoutMedicalRecordsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -3012,7 +4776,9 @@ export type ClinicUncheckedUpdateWithoutAppointmentsInput = {
   logo?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   doctors?: Prisma.DoctorUncheckedUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUncheckedUpdateManyWithoutClinicNestedInput
-  medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutClinicNestedInput
+  appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutClinicNestedInput
   payments?: Prisma.PaymentUncheckedUpdateManyWithoutClinicNestedInput
@@ -3022,15 +4788,20 @@ export type ClinicUncheckedUpdateWithoutAppointmentsInput = {
   staffs?: Prisma.StaffUncheckedUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUncheckedUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUncheckedUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUncheckedUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUncheckedUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUncheckedUpdateManyWithoutClinicNestedInput
 }
 
-export type ClinicCreateWithoutMedicalRecordsInput = {
+export type ClinicCreateWithoutEncountersInput = {
   id?: string
   name: string
   email?: string | null
@@ -3045,24 +4816,31 @@ export type ClinicCreateWithoutMedicalRecordsInput = {
   doctors?: Prisma.DoctorCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutClinicInput
+  medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutClinicInput
   payments?: Prisma.PaymentCreateNestedManyWithoutClinicInput
-  encounters?: Prisma.DiagnosisCreateNestedManyWithoutClinicInput
   services?: Prisma.ServiceCreateNestedManyWithoutClinicInput
   auditLogs?: Prisma.AuditLogCreateNestedManyWithoutClinicInput
   staffs?: Prisma.StaffCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsCreateNestedManyWithoutClinicInput
   users?: Prisma.UserCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionCreateNestedManyWithoutClinicInput
 }
 
-export type ClinicUncheckedCreateWithoutMedicalRecordsInput = {
+export type ClinicUncheckedCreateWithoutEncountersInput = {
   id?: string
   name: string
   email?: string | null
@@ -3077,40 +4855,47 @@ export type ClinicUncheckedCreateWithoutMedicalRecordsInput = {
   doctors?: Prisma.DoctorUncheckedCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientUncheckedCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutClinicInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutClinicInput
   payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutClinicInput
-  encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutClinicInput
   services?: Prisma.ServiceUncheckedCreateNestedManyWithoutClinicInput
   auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutClinicInput
   staffs?: Prisma.StaffUncheckedCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureUncheckedCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsUncheckedCreateNestedManyWithoutClinicInput
   users?: Prisma.UserUncheckedCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberUncheckedCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutClinicInput
 }
 
-export type ClinicCreateOrConnectWithoutMedicalRecordsInput = {
+export type ClinicCreateOrConnectWithoutEncountersInput = {
   where: Prisma.ClinicWhereUniqueInput
-  create: Prisma.XOR<Prisma.ClinicCreateWithoutMedicalRecordsInput, Prisma.ClinicUncheckedCreateWithoutMedicalRecordsInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutEncountersInput, Prisma.ClinicUncheckedCreateWithoutEncountersInput>
 }
 
-export type ClinicUpsertWithoutMedicalRecordsInput = {
-  update: Prisma.XOR<Prisma.ClinicUpdateWithoutMedicalRecordsInput, Prisma.ClinicUncheckedUpdateWithoutMedicalRecordsInput>
-  create: Prisma.XOR<Prisma.ClinicCreateWithoutMedicalRecordsInput, Prisma.ClinicUncheckedCreateWithoutMedicalRecordsInput>
+export type ClinicUpsertWithoutEncountersInput = {
+  update: Prisma.XOR<Prisma.ClinicUpdateWithoutEncountersInput, Prisma.ClinicUncheckedUpdateWithoutEncountersInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutEncountersInput, Prisma.ClinicUncheckedCreateWithoutEncountersInput>
   where?: Prisma.ClinicWhereInput
 }
 
-export type ClinicUpdateToOneWithWhereWithoutMedicalRecordsInput = {
+export type ClinicUpdateToOneWithWhereWithoutEncountersInput = {
   where?: Prisma.ClinicWhereInput
-  data: Prisma.XOR<Prisma.ClinicUpdateWithoutMedicalRecordsInput, Prisma.ClinicUncheckedUpdateWithoutMedicalRecordsInput>
+  data: Prisma.XOR<Prisma.ClinicUpdateWithoutEncountersInput, Prisma.ClinicUncheckedUpdateWithoutEncountersInput>
 }
 
-export type ClinicUpdateWithoutMedicalRecordsInput = {
+export type ClinicUpdateWithoutEncountersInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -3125,24 +4910,31 @@ export type ClinicUpdateWithoutMedicalRecordsInput = {
   doctors?: Prisma.DoctorUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutClinicNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUpdateManyWithoutClinicNestedInput
   payments?: Prisma.PaymentUpdateManyWithoutClinicNestedInput
-  encounters?: Prisma.DiagnosisUpdateManyWithoutClinicNestedInput
   services?: Prisma.ServiceUpdateManyWithoutClinicNestedInput
   auditLogs?: Prisma.AuditLogUpdateManyWithoutClinicNestedInput
   staffs?: Prisma.StaffUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUpdateManyWithoutClinicNestedInput
 }
 
-export type ClinicUncheckedUpdateWithoutMedicalRecordsInput = {
+export type ClinicUncheckedUpdateWithoutEncountersInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -3157,24 +4949,31 @@ export type ClinicUncheckedUpdateWithoutMedicalRecordsInput = {
   doctors?: Prisma.DoctorUncheckedUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUncheckedUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutClinicNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutClinicNestedInput
   payments?: Prisma.PaymentUncheckedUpdateManyWithoutClinicNestedInput
-  encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutClinicNestedInput
   services?: Prisma.ServiceUncheckedUpdateManyWithoutClinicNestedInput
   auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutClinicNestedInput
   staffs?: Prisma.StaffUncheckedUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUncheckedUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUncheckedUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUncheckedUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUncheckedUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUncheckedUpdateManyWithoutClinicNestedInput
 }
 
-export type ClinicCreateWithoutEncountersInput = {
+export type ClinicCreateWithoutGrowthRecordsInput = {
   id?: string
   name: string
   email?: string | null
@@ -3189,24 +4988,31 @@ export type ClinicCreateWithoutEncountersInput = {
   doctors?: Prisma.DoctorCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutClinicInput
   payments?: Prisma.PaymentCreateNestedManyWithoutClinicInput
+  encounters?: Prisma.DiagnosisCreateNestedManyWithoutClinicInput
   services?: Prisma.ServiceCreateNestedManyWithoutClinicInput
   auditLogs?: Prisma.AuditLogCreateNestedManyWithoutClinicInput
   staffs?: Prisma.StaffCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsCreateNestedManyWithoutClinicInput
   users?: Prisma.UserCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingCreateNestedManyWithoutClinicInput
-  growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionCreateNestedManyWithoutClinicInput
 }
 
-export type ClinicUncheckedCreateWithoutEncountersInput = {
+export type ClinicUncheckedCreateWithoutGrowthRecordsInput = {
   id?: string
   name: string
   email?: string | null
@@ -3221,40 +5027,47 @@ export type ClinicUncheckedCreateWithoutEncountersInput = {
   doctors?: Prisma.DoctorUncheckedCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientUncheckedCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutClinicInput
   payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutClinicInput
+  encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutClinicInput
   services?: Prisma.ServiceUncheckedCreateNestedManyWithoutClinicInput
   auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutClinicInput
   staffs?: Prisma.StaffUncheckedCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureUncheckedCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsUncheckedCreateNestedManyWithoutClinicInput
   users?: Prisma.UserUncheckedCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberUncheckedCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutClinicInput
-  growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutClinicInput
 }
 
-export type ClinicCreateOrConnectWithoutEncountersInput = {
+export type ClinicCreateOrConnectWithoutGrowthRecordsInput = {
   where: Prisma.ClinicWhereUniqueInput
-  create: Prisma.XOR<Prisma.ClinicCreateWithoutEncountersInput, Prisma.ClinicUncheckedCreateWithoutEncountersInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutGrowthRecordsInput, Prisma.ClinicUncheckedCreateWithoutGrowthRecordsInput>
 }
 
-export type ClinicUpsertWithoutEncountersInput = {
-  update: Prisma.XOR<Prisma.ClinicUpdateWithoutEncountersInput, Prisma.ClinicUncheckedUpdateWithoutEncountersInput>
-  create: Prisma.XOR<Prisma.ClinicCreateWithoutEncountersInput, Prisma.ClinicUncheckedCreateWithoutEncountersInput>
+export type ClinicUpsertWithoutGrowthRecordsInput = {
+  update: Prisma.XOR<Prisma.ClinicUpdateWithoutGrowthRecordsInput, Prisma.ClinicUncheckedUpdateWithoutGrowthRecordsInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutGrowthRecordsInput, Prisma.ClinicUncheckedCreateWithoutGrowthRecordsInput>
   where?: Prisma.ClinicWhereInput
 }
 
-export type ClinicUpdateToOneWithWhereWithoutEncountersInput = {
+export type ClinicUpdateToOneWithWhereWithoutGrowthRecordsInput = {
   where?: Prisma.ClinicWhereInput
-  data: Prisma.XOR<Prisma.ClinicUpdateWithoutEncountersInput, Prisma.ClinicUncheckedUpdateWithoutEncountersInput>
+  data: Prisma.XOR<Prisma.ClinicUpdateWithoutGrowthRecordsInput, Prisma.ClinicUncheckedUpdateWithoutGrowthRecordsInput>
 }
 
-export type ClinicUpdateWithoutEncountersInput = {
+export type ClinicUpdateWithoutGrowthRecordsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -3269,24 +5082,31 @@ export type ClinicUpdateWithoutEncountersInput = {
   doctors?: Prisma.DoctorUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUpdateManyWithoutClinicNestedInput
   payments?: Prisma.PaymentUpdateManyWithoutClinicNestedInput
+  encounters?: Prisma.DiagnosisUpdateManyWithoutClinicNestedInput
   services?: Prisma.ServiceUpdateManyWithoutClinicNestedInput
   auditLogs?: Prisma.AuditLogUpdateManyWithoutClinicNestedInput
   staffs?: Prisma.StaffUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUpdateManyWithoutClinicNestedInput
-  growthRecords?: Prisma.GrowthRecordUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUpdateManyWithoutClinicNestedInput
 }
 
-export type ClinicUncheckedUpdateWithoutEncountersInput = {
+export type ClinicUncheckedUpdateWithoutGrowthRecordsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -3301,24 +5121,31 @@ export type ClinicUncheckedUpdateWithoutEncountersInput = {
   doctors?: Prisma.DoctorUncheckedUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUncheckedUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutClinicNestedInput
   payments?: Prisma.PaymentUncheckedUpdateManyWithoutClinicNestedInput
+  encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutClinicNestedInput
   services?: Prisma.ServiceUncheckedUpdateManyWithoutClinicNestedInput
   auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutClinicNestedInput
   staffs?: Prisma.StaffUncheckedUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUncheckedUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUncheckedUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUncheckedUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUncheckedUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutClinicNestedInput
-  growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUncheckedUpdateManyWithoutClinicNestedInput
 }
 
-export type ClinicCreateWithoutGrowthRecordsInput = {
+export type ClinicCreateWithoutGrowthAlertsInput = {
   id?: string
   name: string
   email?: string | null
@@ -3333,6 +5160,8 @@ export type ClinicCreateWithoutGrowthRecordsInput = {
   doctors?: Prisma.DoctorCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutClinicInput
@@ -3343,14 +5172,19 @@ export type ClinicCreateWithoutGrowthRecordsInput = {
   staffs?: Prisma.StaffCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsCreateNestedManyWithoutClinicInput
   users?: Prisma.UserCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingCreateNestedManyWithoutClinicInput
+  growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionCreateNestedManyWithoutClinicInput
 }
 
-export type ClinicUncheckedCreateWithoutGrowthRecordsInput = {
+export type ClinicUncheckedCreateWithoutGrowthAlertsInput = {
   id?: string
   name: string
   email?: string | null
@@ -3365,6 +5199,8 @@ export type ClinicUncheckedCreateWithoutGrowthRecordsInput = {
   doctors?: Prisma.DoctorUncheckedCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientUncheckedCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutClinicInput
@@ -3375,30 +5211,35 @@ export type ClinicUncheckedCreateWithoutGrowthRecordsInput = {
   staffs?: Prisma.StaffUncheckedCreateNestedManyWithoutClinicInput
   expenses?: Prisma.ExpenseUncheckedCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureUncheckedCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsUncheckedCreateNestedManyWithoutClinicInput
   users?: Prisma.UserUncheckedCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberUncheckedCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutClinicInput
+  growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutClinicInput
 }
 
-export type ClinicCreateOrConnectWithoutGrowthRecordsInput = {
+export type ClinicCreateOrConnectWithoutGrowthAlertsInput = {
   where: Prisma.ClinicWhereUniqueInput
-  create: Prisma.XOR<Prisma.ClinicCreateWithoutGrowthRecordsInput, Prisma.ClinicUncheckedCreateWithoutGrowthRecordsInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutGrowthAlertsInput, Prisma.ClinicUncheckedCreateWithoutGrowthAlertsInput>
 }
 
-export type ClinicUpsertWithoutGrowthRecordsInput = {
-  update: Prisma.XOR<Prisma.ClinicUpdateWithoutGrowthRecordsInput, Prisma.ClinicUncheckedUpdateWithoutGrowthRecordsInput>
-  create: Prisma.XOR<Prisma.ClinicCreateWithoutGrowthRecordsInput, Prisma.ClinicUncheckedCreateWithoutGrowthRecordsInput>
+export type ClinicUpsertWithoutGrowthAlertsInput = {
+  update: Prisma.XOR<Prisma.ClinicUpdateWithoutGrowthAlertsInput, Prisma.ClinicUncheckedUpdateWithoutGrowthAlertsInput>
+  create: Prisma.XOR<Prisma.ClinicCreateWithoutGrowthAlertsInput, Prisma.ClinicUncheckedCreateWithoutGrowthAlertsInput>
   where?: Prisma.ClinicWhereInput
 }
 
-export type ClinicUpdateToOneWithWhereWithoutGrowthRecordsInput = {
+export type ClinicUpdateToOneWithWhereWithoutGrowthAlertsInput = {
   where?: Prisma.ClinicWhereInput
-  data: Prisma.XOR<Prisma.ClinicUpdateWithoutGrowthRecordsInput, Prisma.ClinicUncheckedUpdateWithoutGrowthRecordsInput>
+  data: Prisma.XOR<Prisma.ClinicUpdateWithoutGrowthAlertsInput, Prisma.ClinicUncheckedUpdateWithoutGrowthAlertsInput>
 }
 
-export type ClinicUpdateWithoutGrowthRecordsInput = {
+export type ClinicUpdateWithoutGrowthAlertsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -3413,6 +5254,8 @@ export type ClinicUpdateWithoutGrowthRecordsInput = {
   doctors?: Prisma.DoctorUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUpdateManyWithoutClinicNestedInput
@@ -3423,14 +5266,19 @@ export type ClinicUpdateWithoutGrowthRecordsInput = {
   staffs?: Prisma.StaffUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUpdateManyWithoutClinicNestedInput
+  growthRecords?: Prisma.GrowthRecordUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUpdateManyWithoutClinicNestedInput
 }
 
-export type ClinicUncheckedUpdateWithoutGrowthRecordsInput = {
+export type ClinicUncheckedUpdateWithoutGrowthAlertsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -3445,6 +5293,8 @@ export type ClinicUncheckedUpdateWithoutGrowthRecordsInput = {
   doctors?: Prisma.DoctorUncheckedUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUncheckedUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutClinicNestedInput
@@ -3455,11 +5305,16 @@ export type ClinicUncheckedUpdateWithoutGrowthRecordsInput = {
   staffs?: Prisma.StaffUncheckedUpdateManyWithoutClinicNestedInput
   expenses?: Prisma.ExpenseUncheckedUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUncheckedUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUncheckedUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUncheckedUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUncheckedUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutClinicNestedInput
+  growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUncheckedUpdateManyWithoutClinicNestedInput
 }
 
 export type ClinicCreateWithoutExpensesInput = {
@@ -3477,6 +5332,8 @@ export type ClinicCreateWithoutExpensesInput = {
   doctors?: Prisma.DoctorCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutClinicInput
@@ -3486,12 +5343,17 @@ export type ClinicCreateWithoutExpensesInput = {
   auditLogs?: Prisma.AuditLogCreateNestedManyWithoutClinicInput
   staffs?: Prisma.StaffCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsCreateNestedManyWithoutClinicInput
   users?: Prisma.UserCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionCreateNestedManyWithoutClinicInput
 }
 
 export type ClinicUncheckedCreateWithoutExpensesInput = {
@@ -3509,6 +5371,8 @@ export type ClinicUncheckedCreateWithoutExpensesInput = {
   doctors?: Prisma.DoctorUncheckedCreateNestedManyWithoutClinicInput
   patients?: Prisma.PatientUncheckedCreateNestedManyWithoutClinicInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutClinicInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutClinicInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutClinicInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutClinicInput
   clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutClinicInput
   prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutClinicInput
@@ -3518,12 +5382,17 @@ export type ClinicUncheckedCreateWithoutExpensesInput = {
   auditLogs?: Prisma.AuditLogUncheckedCreateNestedManyWithoutClinicInput
   staffs?: Prisma.StaffUncheckedCreateNestedManyWithoutClinicInput
   workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutClinicInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutClinicInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutClinicInput
   features?: Prisma.FeatureUncheckedCreateNestedManyWithoutClinicInput
   systemSettings?: Prisma.SystemSettingsUncheckedCreateNestedManyWithoutClinicInput
   users?: Prisma.UserUncheckedCreateNestedManyWithoutClinicInput
   clinicMembers?: Prisma.ClinicMemberUncheckedCreateNestedManyWithoutClinicInput
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutClinicInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutClinicInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutClinicInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutClinicInput
+  patientConditions?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutClinicInput
 }
 
 export type ClinicCreateOrConnectWithoutExpensesInput = {
@@ -3557,6 +5426,8 @@ export type ClinicUpdateWithoutExpensesInput = {
   doctors?: Prisma.DoctorUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUpdateManyWithoutClinicNestedInput
@@ -3566,12 +5437,17 @@ export type ClinicUpdateWithoutExpensesInput = {
   auditLogs?: Prisma.AuditLogUpdateManyWithoutClinicNestedInput
   staffs?: Prisma.StaffUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUpdateManyWithoutClinicNestedInput
 }
 
 export type ClinicUncheckedUpdateWithoutExpensesInput = {
@@ -3589,6 +5465,8 @@ export type ClinicUncheckedUpdateWithoutExpensesInput = {
   doctors?: Prisma.DoctorUncheckedUpdateManyWithoutClinicNestedInput
   patients?: Prisma.PatientUncheckedUpdateManyWithoutClinicNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutClinicNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutClinicNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutClinicNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutClinicNestedInput
   clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutClinicNestedInput
   prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutClinicNestedInput
@@ -3598,12 +5476,17 @@ export type ClinicUncheckedUpdateWithoutExpensesInput = {
   auditLogs?: Prisma.AuditLogUncheckedUpdateManyWithoutClinicNestedInput
   staffs?: Prisma.StaffUncheckedUpdateManyWithoutClinicNestedInput
   workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutClinicNestedInput
+  doctorBreaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutClinicNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutClinicNestedInput
   features?: Prisma.FeatureUncheckedUpdateManyWithoutClinicNestedInput
   systemSettings?: Prisma.SystemSettingsUncheckedUpdateManyWithoutClinicNestedInput
   users?: Prisma.UserUncheckedUpdateManyWithoutClinicNestedInput
   clinicMembers?: Prisma.ClinicMemberUncheckedUpdateManyWithoutClinicNestedInput
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutClinicNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutClinicNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutClinicNestedInput
+  patientAllergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutClinicNestedInput
+  patientConditions?: Prisma.PatientConditionUncheckedUpdateManyWithoutClinicNestedInput
 }
 
 
@@ -3615,6 +5498,8 @@ export type ClinicCountOutputType = {
   doctors: number
   patients: number
   appointments: number
+  appointmentSeries: number
+  waitlistEntries: number
   medicalRecords: number
   clinicSettings: number
   prescriptions: number
@@ -3625,18 +5510,25 @@ export type ClinicCountOutputType = {
   staffs: number
   expenses: number
   workingDays: number
+  doctorBreaks: number
+  scheduleExceptions: number
   features: number
   systemSettings: number
   users: number
   clinicMembers: number
   ratings: number
   growthRecords: number
+  growthAlerts: number
+  patientAllergies: number
+  patientConditions: number
 }
 
 export type ClinicCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   doctors?: boolean | ClinicCountOutputTypeCountDoctorsArgs
   patients?: boolean | ClinicCountOutputTypeCountPatientsArgs
   appointments?: boolean | ClinicCountOutputTypeCountAppointmentsArgs
+  appointmentSeries?: boolean | ClinicCountOutputTypeCountAppointmentSeriesArgs
+  waitlistEntries?: boolean | ClinicCountOutputTypeCountWaitlistEntriesArgs
   medicalRecords?: boolean | ClinicCountOutputTypeCountMedicalRecordsArgs
   clinicSettings?: boolean | ClinicCountOutputTypeCountClinicSettingsArgs
   prescriptions?: boolean | ClinicCountOutputTypeCountPrescriptionsArgs
@@ -3647,12 +5539,17 @@ export type ClinicCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions
   staffs?: boolean | ClinicCountOutputTypeCountStaffsArgs
   expenses?: boolean | ClinicCountOutputTypeCountExpensesArgs
   workingDays?: boolean | ClinicCountOutputTypeCountWorkingDaysArgs
+  doctorBreaks?: boolean | ClinicCountOutputTypeCountDoctorBreaksArgs
+  scheduleExceptions?: boolean | ClinicCountOutputTypeCountScheduleExceptionsArgs
   features?: boolean | ClinicCountOutputTypeCountFeaturesArgs
   systemSettings?: boolean | ClinicCountOutputTypeCountSystemSettingsArgs
   users?: boolean | ClinicCountOutputTypeCountUsersArgs
   clinicMembers?: boolean | ClinicCountOutputTypeCountClinicMembersArgs
   ratings?: boolean | ClinicCountOutputTypeCountRatingsArgs
   growthRecords?: boolean | ClinicCountOutputTypeCountGrowthRecordsArgs
+  growthAlerts?: boolean | ClinicCountOutputTypeCountGrowthAlertsArgs
+  patientAllergies?: boolean | ClinicCountOutputTypeCountPatientAllergiesArgs
+  patientConditions?: boolean | ClinicCountOutputTypeCountPatientConditionsArgs
 }
 
 /**
@@ -3686,6 +5583,20 @@ export type ClinicCountOutputTypeCountAppointmentsArgs<ExtArgs extends runtime.T
   where?: Prisma.AppointmentWhereInput
 }
 
+/**
+ * ClinicCountOutputType without action
+ */
+export type ClinicCountOutputTypeCountAppointmentSeriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AppointmentSeriesWhereInput
+}
+
+/**
+ * ClinicCountOutputType without action
+ */
+export type ClinicCountOutputTypeCountWaitlistEntriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WaitlistEntryWhereInput
+}
+
 /**
  * ClinicCountOutputType without action
  */
@@ -3756,6 +5667,20 @@ export type ClinicCountOutputTypeCountWorkingDaysArgs<ExtArgs extends runtime.Ty
   where?: Prisma.WorkingDaysWhereInput
 }
 
+/**
+ * ClinicCountOutputType without action
+ */
+export type ClinicCountOutputTypeCountDoctorBreaksArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.DoctorBreakWhereInput
+}
+
+/**
+ * ClinicCountOutputType without action
+ */
+export type ClinicCountOutputTypeCountScheduleExceptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ScheduleExceptionWhereInput
+}
+
 /**
  * ClinicCountOutputType without action
  */
@@ -3798,6 +5723,27 @@ export type ClinicCountOutputTypeCountGrowthRecordsArgs<ExtArgs extends runtime.
   where?: Prisma.GrowthRecordWhereInput
 }
 
+/**
+ * ClinicCountOutputType without action
+ */
+export type ClinicCountOutputTypeCountGrowthAlertsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.GrowthAlertWhereInput
+}
+
+/**
+ * ClinicCountOutputType without action
+ */
+export type ClinicCountOutputTypeCountPatientAllergiesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PatientAllergyWhereInput
+}
+
+/**
+ * ClinicCountOutputType without action
+ */
+export type ClinicCountOutputTypeCountPatientConditionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PatientConditionWhereInput
+}
+
 
 export type ClinicSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -3814,6 +5760,8 @@ export type ClinicSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   doctors?: boolean | Prisma.Clinic$doctorsArgs<ExtArgs>
   patients?: boolean | Prisma.Clinic$patientsArgs<ExtArgs>
   appointments?: boolean | Prisma.Clinic$appointmentsArgs<ExtArgs>
+  appointmentSeries?: boolean | Prisma.Clinic$appointmentSeriesArgs<ExtArgs>
+  waitlistEntries?: boolean | Prisma.Clinic$waitlistEntriesArgs<ExtArgs>
   medicalRecords?: boolean | Prisma.Clinic$medicalRecordsArgs<ExtArgs>
   clinicSettings?: boolean | Prisma.Clinic$clinicSettingsArgs<ExtArgs>
   prescriptions?: boolean | Prisma.Clinic$prescriptionsArgs<ExtArgs>
@@ -3824,12 +5772,17 @@ export type ClinicSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   staffs?: boolean | Prisma.Clinic$staffsArgs<ExtArgs>
   expenses?: boolean | Prisma.Clinic$expensesArgs<ExtArgs>
   workingDays?: boolean | Prisma.Clinic$workingDaysArgs<ExtArgs>
+  doctorBreaks?: boolean | Prisma.Clinic$doctorBreaksArgs<ExtArgs>
+  scheduleExceptions?: boolean | Prisma.Clinic$scheduleExceptionsArgs<ExtArgs>
   features?: boolean | Prisma.Clinic$featuresArgs<ExtArgs>
   systemSettings?: boolean | Prisma.Clinic$systemSettingsArgs<ExtArgs>
   users?: boolean | Prisma.Clinic$usersArgs<ExtArgs>
   clinicMembers?: boolean | Prisma.Clinic$clinicMembersArgs<ExtArgs>
   ratings?: boolean | Prisma.Clinic$ratingsArgs<ExtArgs>
   growthRecords?: boolean | Prisma.Clinic$growthRecordsArgs<ExtArgs>
+  growthAlerts?: boolean | Prisma.Clinic$growthAlertsArgs<ExtArgs>
+  patientAllergies?: boolean | Prisma.Clinic$patientAllergiesArgs<ExtArgs>
+  patientConditions?: boolean | Prisma.Clinic$patientConditionsArgs<ExtArgs>
   _count?: boolean | Prisma.ClinicCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["clinic"]>
 
@@ -3880,6 +5833,8 @@ export type ClinicInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs
   doctors?: boolean | Prisma.Clinic$doctorsArgs<ExtArgs>
   patients?: boolean | Prisma.Clinic$patientsArgs<ExtArgs>
   appointments?: boolean | Prisma.Clinic$appointmentsArgs<ExtArgs>
+  appointmentSeries?: boolean | Prisma.Clinic$appointmentSeriesArgs<ExtArgs>
+  waitlistEntries?: boolean | Prisma.Clinic$waitlistEntriesArgs<ExtArgs>
   medicalRecords?: boolean | Prisma.Clinic$medicalRecordsArgs<ExtArgs>
   clinicSettings?: boolean | Prisma.Clinic$clinicSettingsArgs<ExtArgs>
   prescriptions?: boolean | Prisma.Clinic$prescriptionsArgs<ExtArgs>
@@ -3890,12 +5845,17 @@ export type ClinicInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs
   staffs?: boolean | Prisma.Clinic$staffsArgs<ExtArgs>
   expenses?: boolean | Prisma.Clinic$expensesArgs<ExtArgs>
   workingDays?: boolean | Prisma.Clinic$workingDaysArgs<ExtArgs>
+  doctorBreaks?: boolean | Prisma.Clinic$doctorBreaksArgs<ExtArgs>
+  scheduleExceptions?: boolean | Prisma.Clinic$scheduleExceptionsArgs<ExtArgs>
   features?: boolean | Prisma.Clinic$featuresArgs<ExtArgs>
   systemSettings?: boolean | Prisma.Clinic$systemSettingsArgs<ExtArgs>
   users?: boolean | Prisma.Clinic$usersArgs<ExtArgs>
   clinicMembers?: boolean | Prisma.Clinic$clinicMembersArgs<ExtArgs>
   ratings?: boolean | Prisma.Clinic$ratingsArgs<ExtArgs>
   growthRecords?: boolean | Prisma.Clinic$growthRecordsArgs<ExtArgs>
+  growthAlerts?: boolean | Prisma.Clinic$growthAlertsArgs<ExtArgs>
+  patientAllergies?: boolean | Prisma.Clinic$patientAllergiesArgs<ExtArgs>
+  patientConditions?: boolean | Prisma.Clinic$patientConditionsArgs<ExtArgs>
   _count?: boolean | Prisma.ClinicCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type ClinicIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
@@ -3907,6 +5867,8 @@ export type $ClinicPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs
     doctors: Prisma.$DoctorPayload<ExtArgs>[]
     patients: Prisma.$PatientPayload<ExtArgs>[]
     appointments: Prisma.$AppointmentPayload<ExtArgs>[]
+    appointmentSeries: Prisma.$AppointmentSeriesPayload<ExtArgs>[]
+    waitlistEntries: Prisma.$WaitlistEntryPayload<ExtArgs>[]
     medicalRecords: Prisma.$MedicalRecordsPayload<ExtArgs>[]
     clinicSettings: Prisma.$ClinicSettingPayload<ExtArgs>[]
     prescriptions: Prisma.$PrescriptionPayload<ExtArgs>[]
@@ -3917,12 +5879,17 @@ export type $ClinicPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs
     staffs: Prisma.$StaffPayload<ExtArgs>[]
     expenses: Prisma.$ExpensePayload<ExtArgs>[]
     workingDays: Prisma.$WorkingDaysPayload<ExtArgs>[]
+    doctorBreaks: Prisma.$DoctorBreakPayload<ExtArgs>[]
+    scheduleExceptions: Prisma.$ScheduleExceptionPayload<ExtArgs>[]
     features: Prisma.$FeaturePayload<ExtArgs>[]
     systemSettings: Prisma.$SystemSettingsPayload<ExtArgs>[]
     users: Prisma.$UserPayload<ExtArgs>[]
     clinicMembers: Prisma.$ClinicMemberPayload<ExtArgs>[]
     ratings: Prisma.$RatingPayload<ExtArgs>[]
     growthRecords: Prisma.$GrowthRecordPayload<ExtArgs>[]
+    growthAlerts: Prisma.$GrowthAlertPayload<ExtArgs>[]
+    patientAllergies: Prisma.$PatientAllergyPayload<ExtArgs>[]
+    patientConditions: Prisma.$PatientConditionPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -4333,6 +6300,8 @@ export interface Prisma__ClinicClient<T, Null = never, ExtArgs extends runtime.T
   doctors<T extends Prisma.Clinic$doctorsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Clinic$doctorsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DoctorPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   patients<T extends Prisma.Clinic$patientsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Clinic$patientsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PatientPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   appointments<T extends Prisma.Clinic$appointmentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Clinic$appointmentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AppointmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  appointmentSeries<T extends Prisma.Clinic$appointmentSeriesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Clinic$appointmentSeriesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AppointmentSeriesPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  waitlistEntries<T extends Prisma.Clinic$waitlistEntriesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Clinic$waitlistEntriesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   medicalRecords<T extends Prisma.Clinic$medicalRecordsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Clinic$medicalRecordsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MedicalRecordsPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   clinicSettings<T extends Prisma.Clinic$clinicSettingsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Clinic$clinicSettingsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ClinicSettingPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   prescriptions<T extends Prisma.Clinic$prescriptionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Clinic$prescriptionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PrescriptionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
@@ -4343,12 +6312,17 @@ export interface Prisma__ClinicClient<T, Null = never, ExtArgs extends runtime.T
   staffs<T extends Prisma.Clinic$staffsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Clinic$staffsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$StaffPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   expenses<T extends Prisma.Clinic$expensesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Clinic$expensesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ExpensePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   workingDays<T extends Prisma.Clinic$workingDaysArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Clinic$workingDaysArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkingDaysPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  doctorBreaks<T extends Prisma.Clinic$doctorBreaksArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Clinic$doctorBreaksArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DoctorBreakPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  scheduleExceptions<T extends Prisma.Clinic$scheduleExceptionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Clinic$scheduleExceptionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ScheduleExceptionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   features<T extends Prisma.Clinic$featuresArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Clinic$featuresArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$FeaturePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   systemSettings<T extends Prisma.Clinic$systemSettingsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Clinic$systemSettingsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$SystemSettingsPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   users<T extends Prisma.Clinic$usersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Clinic$usersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   clinicMembers<T extends Prisma.Clinic$clinicMembersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Clinic$clinicMembersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ClinicMemberPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   ratings<T extends Prisma.Clinic$ratingsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Clinic$ratingsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$RatingPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   growthRecords<T extends Prisma.Clinic$growthRecordsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Clinic$growthRecordsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$GrowthRecordPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  growthAlerts<T extends Prisma.Clinic$growthAlertsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Clinic$growthAlertsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$GrowthAlertPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  patientAllergies<T extends Prisma.Clinic$patientAllergiesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Clinic$patientAllergiesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PatientAllergyPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  patientConditions<T extends Prisma.Clinic$patientConditionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Clinic$patientConditionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PatientConditionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -4857,6 +6831,54 @@ export type Clinic$appointmentsArgs<ExtArgs extends runtime.Types.Extensions.Int
   distinct?: Prisma.AppointmentScalarFieldEnum | Prisma.AppointmentScalarFieldEnum[]
 }
 
+/**
+ * Clinic.appointmentSeries
+ */
+export type Clinic$appointmentSeriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppointmentSeries
+   */
+  select?: Prisma.AppointmentSeriesSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppointmentSeries
+   */
+  omit?: Prisma.AppointmentSeriesOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AppointmentSeriesInclude<ExtArgs> | null
+  where?: Prisma.AppointmentSeriesWhereInput
+  orderBy?: Prisma.AppointmentSeriesOrderByWithRelationInput | Prisma.AppointmentSeriesOrderByWithRelationInput[]
+  cursor?: Prisma.AppointmentSeriesWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.AppointmentSeriesScalarFieldEnum | Prisma.AppointmentSeriesScalarFieldEnum[]
+}
+
+/**
+ * Clinic.waitlistEntries
+ */
+export type Clinic$waitlistEntriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  where?: Prisma.WaitlistEntryWhereInput
+  orderBy?: Prisma.WaitlistEntryOrderByWithRelationInput | Prisma.WaitlistEntryOrderByWithRelationInput[]
+  cursor?: Prisma.WaitlistEntryWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.WaitlistEntryScalarFieldEnum | Prisma.WaitlistEntryScalarFieldEnum[]
+}
+
 /**
  * Clinic.medicalRecords
  */
@@ -5097,6 +7119,54 @@ export type Clinic$workingDaysArgs<ExtArgs extends runtime.Types.Extensions.Inte
   distinct?: Prisma.WorkingDaysScalarFieldEnum | Prisma.WorkingDaysScalarFieldEnum[]
 }
 
+/**
+ * Clinic.doctorBreaks
+ */
+export type Clinic$doctorBreaksArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DoctorBreak
+   */
+  select?: Prisma.DoctorBreakSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DoctorBreak
+   */
+  omit?: Prisma.DoctorBreakOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DoctorBreakInclude<ExtArgs> | null
+  where?: Prisma.DoctorBreakWhereInput
+  orderBy?: Prisma.DoctorBreakOrderByWithRelationInput | Prisma.DoctorBreakOrderByWithRelationInput[]
+  cursor?: Prisma.DoctorBreakWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.DoctorBreakScalarFieldEnum | Prisma.DoctorBreakScalarFieldEnum[]
+}
+
+/**
+ * Clinic.scheduleExceptions
+ */
+export type Clinic$scheduleExceptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleException
+   */
+  select?: Prisma.ScheduleExceptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleException
+   */
+  omit?: Prisma.ScheduleExceptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleExceptionInclude<ExtArgs> | null
+  where?: Prisma.ScheduleExceptionWhereInput
+  orderBy?: Prisma.ScheduleExceptionOrderByWithRelationInput | Prisma.ScheduleExceptionOrderByWithRelationInput[]
+  cursor?: Prisma.ScheduleExceptionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ScheduleExceptionScalarFieldEnum | Prisma.ScheduleExceptionScalarFieldEnum[]
+}
+
 /**
  * Clinic.features
  */
@@ -5241,6 +7311,78 @@ export type Clinic$growthRecordsArgs<ExtArgs extends runtime.Types.Extensions.In
   distinct?: Prisma.GrowthRecordScalarFieldEnum | Prisma.GrowthRecordScalarFieldEnum[]
 }
 
+/**
+ * Clinic.growthAlerts
+ */
+export type Clinic$growthAlertsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthAlert
+   */
+  select?: Prisma.GrowthAlertSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GrowthAlert
+   */
+  omit?: Prisma.GrowthAlertOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GrowthAlertInclude<ExtArgs> | null
+  where?: Prisma.GrowthAlertWhereInput
+  orderBy?: Prisma.GrowthAlertOrderByWithRelationInput | Prisma.GrowthAlertOrderByWithRelationInput[]
+  cursor?: Prisma.GrowthAlertWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.GrowthAlertScalarFieldEnum | Prisma.GrowthAlertScalarFieldEnum[]
+}
+
+/**
+ * Clinic.patientAllergies
+ */
+export type Clinic$patientAllergiesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientAllergy
+   */
+  select?: Prisma.PatientAllergySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientAllergy
+   */
+  omit?: Prisma.PatientAllergyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientAllergyInclude<ExtArgs> | null
+  where?: Prisma.PatientAllergyWhereInput
+  orderBy?: Prisma.PatientAllergyOrderByWithRelationInput | Prisma.PatientAllergyOrderByWithRelationInput[]
+  cursor?: Prisma.PatientAllergyWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PatientAllergyScalarFieldEnum | Prisma.PatientAllergyScalarFieldEnum[]
+}
+
+/**
+ * Clinic.patientConditions
+ */
+export type Clinic$patientConditionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientCondition
+   */
+  select?: Prisma.PatientConditionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientCondition
+   */
+  omit?: Prisma.PatientConditionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientConditionInclude<ExtArgs> | null
+  where?: Prisma.PatientConditionWhereInput
+  orderBy?: Prisma.PatientConditionOrderByWithRelationInput | Prisma.PatientConditionOrderByWithRelationInput[]
+  cursor?: Prisma.PatientConditionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PatientConditionScalarFieldEnum | Prisma.PatientConditionScalarFieldEnum[]
+}
+
 /**
  * Clinic without action
  */
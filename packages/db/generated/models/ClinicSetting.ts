@@ -28,10 +28,14 @@ export type AggregateClinicSetting = {
 
 export type ClinicSettingAvgAggregateOutputType = {
   defaultAppointmentDuration: number | null
+  waitlistOfferHoldMinutes: number | null
+  vaccineScheduleSetId: number | null
 }
 
 export type ClinicSettingSumAggregateOutputType = {
   defaultAppointmentDuration: number | null
+  waitlistOfferHoldMinutes: number | null
+  vaccineScheduleSetId: number | null
 }
 
 export type ClinicSettingMinAggregateOutputType = {
@@ -41,6 +45,8 @@ export type ClinicSettingMinAggregateOutputType = {
   closingTime: string | null
   defaultAppointmentDuration: number | null
   requireEmergencyContact: boolean | null
+  waitlistOfferHoldMinutes: number | null
+  vaccineScheduleSetId: number | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -52,6 +58,8 @@ export type ClinicSettingMaxAggregateOutputType = {
   closingTime: string | null
   defaultAppointmentDuration: number | null
   requireEmergencyContact: boolean | null
+  waitlistOfferHoldMinutes: number | null
+  vaccineScheduleSetId: number | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -64,6 +72,8 @@ export type ClinicSettingCountAggregateOutputType = {
   workingDays: number
   defaultAppointmentDuration: number
   requireEmergencyContact: number
+  waitlistOfferHoldMinutes: number
+  vaccineScheduleSetId: number
   createdAt: number
   updatedAt: number
   _all: number
@@ -72,10 +82,14 @@ export type ClinicSettingCountAggregateOutputType = {
 
 export type ClinicSettingAvgAggregateInputType = {
   defaultAppointmentDuration?: true
+  waitlistOfferHoldMinutes?: true
+  vaccineScheduleSetId?: true
 }
 
 export type ClinicSettingSumAggregateInputType = {
   defaultAppointmentDuration?: true
+  waitlistOfferHoldMinutes?: true
+  vaccineScheduleSetId?: true
 }
 
 export type ClinicSettingMinAggregateInputType = {
@@ -85,6 +99,8 @@ export type ClinicSettingMinAggregateInputType = {
   closingTime?: true
   defaultAppointmentDuration?: true
   requireEmergencyContact?: true
+  waitlistOfferHoldMinutes?: true
+  vaccineScheduleSetId?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -96,6 +112,8 @@ export type ClinicSettingMaxAggregateInputType = {
   closingTime?: true
   defaultAppointmentDuration?: true
   requireEmergencyContact?: true
+  waitlistOfferHoldMinutes?: true
+  vaccineScheduleSetId?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -108,6 +126,8 @@ export type ClinicSettingCountAggregateInputType = {
   workingDays?: true
   defaultAppointmentDuration?: true
   requireEmergencyContact?: true
+  waitlistOfferHoldMinutes?: true
+  vaccineScheduleSetId?: true
   createdAt?: true
   updatedAt?: true
   _all?: true
@@ -207,6 +227,8 @@ export type ClinicSettingGroupByOutputType = {
   workingDays: string[]
   defaultAppointmentDuration: number
   requireEmergencyContact: boolean
+  waitlistOfferHoldMinutes: number
+  vaccineScheduleSetId: number | null
   createdAt: Date
   updatedAt: Date
   _count: ClinicSettingCountAggregateOutputType | null
@@ -242,9 +264,12 @@ export type ClinicSettingWhereInput = {
   workingDays?: Prisma.StringNullableListFilter<"ClinicSetting">
   defaultAppointmentDuration?: Prisma.IntFilter<"ClinicSetting"> | number
   requireEmergencyContact?: Prisma.BoolFilter<"ClinicSetting"> | boolean
+  waitlistOfferHoldMinutes?: Prisma.IntFilter<"ClinicSetting"> | number
+  vaccineScheduleSetId?: Prisma.IntNullableFilter<"ClinicSetting"> | number | null
   createdAt?: Prisma.DateTimeFilter<"ClinicSetting"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"ClinicSetting"> | Date | string
   clinic?: Prisma.XOR<Prisma.ClinicScalarRelationFilter, Prisma.ClinicWhereInput>
+  vaccineScheduleSet?: Prisma.XOR<Prisma.VaccineScheduleSetNullableScalarRelationFilter, Prisma.VaccineScheduleSetWhereInput> | null
 }
 
 export type ClinicSettingOrderByWithRelationInput = {
@@ -255,9 +280,12 @@ export type ClinicSettingOrderByWithRelationInput = {
   workingDays?: Prisma.SortOrder
   defaultAppointmentDuration?: Prisma.SortOrder
   requireEmergencyContact?: Prisma.SortOrder
+  waitlistOfferHoldMinutes?: Prisma.SortOrder
+  vaccineScheduleSetId?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   clinic?: Prisma.ClinicOrderByWithRelationInput
+  vaccineScheduleSet?: Prisma.VaccineScheduleSetOrderByWithRelationInput
 }
 
 export type ClinicSettingWhereUniqueInput = Prisma.AtLeast<{
@@ -271,9 +299,12 @@ export type ClinicSettingWhereUniqueInput = Prisma.AtLeast<{
   workingDays?: Prisma.StringNullableListFilter<"ClinicSetting">
   defaultAppointmentDuration?: Prisma.IntFilter<"ClinicSetting"> | number
   requireEmergencyContact?: Prisma.BoolFilter<"ClinicSetting"> | boolean
+  waitlistOfferHoldMinutes?: Prisma.IntFilter<"ClinicSetting"> | number
+  vaccineScheduleSetId?: Prisma.IntNullableFilter<"ClinicSetting"> | number | null
   createdAt?: Prisma.DateTimeFilter<"ClinicSetting"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"ClinicSetting"> | Date | string
   clinic?: Prisma.XOR<Prisma.ClinicScalarRelationFilter, Prisma.ClinicWhereInput>
+  vaccineScheduleSet?: Prisma.XOR<Prisma.VaccineScheduleSetNullableScalarRelationFilter, Prisma.VaccineScheduleSetWhereInput> | null
 }, "id" | "clinicId">
 
 export type ClinicSettingOrderByWithAggregationInput = {
@@ -284,6 +315,8 @@ export type ClinicSettingOrderByWithAggregationInput = {
   workingDays?: Prisma.SortOrder
   defaultAppointmentDuration?: Prisma.SortOrder
   requireEmergencyContact?: Prisma.SortOrder
+  waitlistOfferHoldMinutes?: Prisma.SortOrder
+  vaccineScheduleSetId?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.ClinicSettingCountOrderByAggregateInput
@@ -304,6 +337,8 @@ export type ClinicSettingScalarWhereWithAggregatesInput = {
   workingDays?: Prisma.StringNullableListFilter<"ClinicSetting">
   defaultAppointmentDuration?: Prisma.IntWithAggregatesFilter<"ClinicSetting"> | number
   requireEmergencyContact?: Prisma.BoolWithAggregatesFilter<"ClinicSetting"> | boolean
+  waitlistOfferHoldMinutes?: Prisma.IntWithAggregatesFilter<"ClinicSetting"> | number
+  vaccineScheduleSetId?: Prisma.IntNullableWithAggregatesFilter<"ClinicSetting"> | number | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"ClinicSetting"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ClinicSetting"> | Date | string
 }
@@ -315,9 +350,11 @@ export type ClinicSettingCreateInput = {
   workingDays?: Prisma.ClinicSettingCreateworkingDaysInput | string[]
   defaultAppointmentDuration?: number
   requireEmergencyContact?: boolean
+  waitlistOfferHoldMinutes?: number
   createdAt?: Date | string
   updatedAt?: Date | string
   clinic: Prisma.ClinicCreateNestedOneWithoutClinicSettingsInput
+  vaccineScheduleSet?: Prisma.VaccineScheduleSetCreateNestedOneWithoutClinicSettingsInput
 }
 
 export type ClinicSettingUncheckedCreateInput = {
@@ -328,6 +365,8 @@ export type ClinicSettingUncheckedCreateInput = {
   workingDays?: Prisma.ClinicSettingCreateworkingDaysInput | string[]
   defaultAppointmentDuration?: number
   requireEmergencyContact?: boolean
+  waitlistOfferHoldMinutes?: number
+  vaccineScheduleSetId?: number | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -339,9 +378,11 @@ export type ClinicSettingUpdateInput = {
   workingDays?: Prisma.ClinicSettingUpdateworkingDaysInput | string[]
   defaultAppointmentDuration?: Prisma.IntFieldUpdateOperationsInput | number
   requireEmergencyContact?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  waitlistOfferHoldMinutes?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   clinic?: Prisma.ClinicUpdateOneRequiredWithoutClinicSettingsNestedInput
+  vaccineScheduleSet?: Prisma.VaccineScheduleSetUpdateOneWithoutClinicSettingsNestedInput
 }
 
 export type ClinicSettingUncheckedUpdateInput = {
@@ -352,6 +393,8 @@ export type ClinicSettingUncheckedUpdateInput = {
   workingDays?: Prisma.ClinicSettingUpdateworkingDaysInput | string[]
   defaultAppointmentDuration?: Prisma.IntFieldUpdateOperationsInput | number
   requireEmergencyContact?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  waitlistOfferHoldMinutes?: Prisma.IntFieldUpdateOperationsInput | number
+  vaccineScheduleSetId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -364,6 +407,8 @@ export type ClinicSettingCreateManyInput = {
   workingDays?: Prisma.ClinicSettingCreateworkingDaysInput | string[]
   defaultAppointmentDuration?: number
   requireEmergencyContact?: boolean
+  waitlistOfferHoldMinutes?: number
+  vaccineScheduleSetId?: number | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -375,6 +420,7 @@ export type ClinicSettingUpdateManyMutationInput = {
   workingDays?: Prisma.ClinicSettingUpdateworkingDaysInput | string[]
   defaultAppointmentDuration?: Prisma.IntFieldUpdateOperationsInput | number
   requireEmergencyContact?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  waitlistOfferHoldMinutes?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -387,6 +433,8 @@ export type ClinicSettingUncheckedUpdateManyInput = {
   workingDays?: Prisma.ClinicSettingUpdateworkingDaysInput | string[]
   defaultAppointmentDuration?: Prisma.IntFieldUpdateOperationsInput | number
   requireEmergencyContact?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  waitlistOfferHoldMinutes?: Prisma.IntFieldUpdateOperationsInput | number
+  vaccineScheduleSetId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -417,12 +465,16 @@ export type ClinicSettingCountOrderByAggregateInput = {
   workingDays?: Prisma.SortOrder
   defaultAppointmentDuration?: Prisma.SortOrder
   requireEmergencyContact?: Prisma.SortOrder
+  waitlistOfferHoldMinutes?: Prisma.SortOrder
+  vaccineScheduleSetId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
 export type ClinicSettingAvgOrderByAggregateInput = {
   defaultAppointmentDuration?: Prisma.SortOrder
+  waitlistOfferHoldMinutes?: Prisma.SortOrder
+  vaccineScheduleSetId?: Prisma.SortOrder
 }
 
 export type ClinicSettingMaxOrderByAggregateInput = {
@@ -432,6 +484,8 @@ export type ClinicSettingMaxOrderByAggregateInput = {
   closingTime?: Prisma.SortOrder
   defaultAppointmentDuration?: Prisma.SortOrder
   requireEmergencyContact?: Prisma.SortOrder
+  waitlistOfferHoldMinutes?: Prisma.SortOrder
+  vaccineScheduleSetId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -443,12 +497,16 @@ export type ClinicSettingMinOrderByAggregateInput = {
   closingTime?: Prisma.SortOrder
   defaultAppointmentDuration?: Prisma.SortOrder
   requireEmergencyContact?: Prisma.SortOrder
+  waitlistOfferHoldMinutes?: Prisma.SortOrder
+  vaccineScheduleSetId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
 export type ClinicSettingSumOrderByAggregateInput = {
   defaultAppointmentDuration?: Prisma.SortOrder
+  waitlistOfferHoldMinutes?: Prisma.SortOrder
+  vaccineScheduleSetId?: Prisma.SortOrder
 }
 
 export type ClinicSettingCreateNestedManyWithoutClinicInput = {
@@ -502,6 +560,48 @@ export type ClinicSettingUpdateworkingDaysInput = {
   push?: string | string[]
 }
 
+export type ClinicSettingCreateNestedManyWithoutVaccineScheduleSetInput = {
+  create?: Prisma.XOR<Prisma.ClinicSettingCreateWithoutVaccineScheduleSetInput, Prisma.ClinicSettingUncheckedCreateWithoutVaccineScheduleSetInput> | Prisma.ClinicSettingCreateWithoutVaccineScheduleSetInput[] | Prisma.ClinicSettingUncheckedCreateWithoutVaccineScheduleSetInput[]
+  connectOrCreate?: Prisma.ClinicSettingCreateOrConnectWithoutVaccineScheduleSetInput | Prisma.ClinicSettingCreateOrConnectWithoutVaccineScheduleSetInput[]
+  createMany?: Prisma.ClinicSettingCreateManyVaccineScheduleSetInputEnvelope
+  connect?: Prisma.ClinicSettingWhereUniqueInput | Prisma.ClinicSettingWhereUniqueInput[]
+}
+
+export type ClinicSettingUncheckedCreateNestedManyWithoutVaccineScheduleSetInput = {
+  create?: Prisma.XOR<Prisma.ClinicSettingCreateWithoutVaccineScheduleSetInput, Prisma.ClinicSettingUncheckedCreateWithoutVaccineScheduleSetInput> | Prisma.ClinicSettingCreateWithoutVaccineScheduleSetInput[] | Prisma.ClinicSettingUncheckedCreateWithoutVaccineScheduleSetInput[]
+  connectOrCreate?: Prisma.ClinicSettingCreateOrConnectWithoutVaccineScheduleSetInput | Prisma.ClinicSettingCreateOrConnectWithoutVaccineScheduleSetInput[]
+  createMany?: Prisma.ClinicSettingCreateManyVaccineScheduleSetInputEnvelope
+  connect?: Prisma.ClinicSettingWhereUniqueInput | Prisma.ClinicSettingWhereUniqueInput[]
+}
+
+export type ClinicSettingUpdateManyWithoutVaccineScheduleSetNestedInput = {
+  create?: Prisma.XOR<Prisma.ClinicSettingCreateWithoutVaccineScheduleSetInput, Prisma.ClinicSettingUncheckedCreateWithoutVaccineScheduleSetInput> | Prisma.ClinicSettingCreateWithoutVaccineScheduleSetInput[] | Prisma.ClinicSettingUncheckedCreateWithoutVaccineScheduleSetInput[]
+  connectOrCreate?: Prisma.ClinicSettingCreateOrConnectWithoutVaccineScheduleSetInput | Prisma.ClinicSettingCreateOrConnectWithoutVaccineScheduleSetInput[]
+  upsert?: Prisma.ClinicSettingUpsertWithWhereUniqueWithoutVaccineScheduleSetInput | Prisma.ClinicSettingUpsertWithWhereUniqueWithoutVaccineScheduleSetInput[]
+  createMany?: Prisma.ClinicSettingCreateManyVaccineScheduleSetInputEnvelope
+  set?: Prisma.ClinicSettingWhereUniqueInput | Prisma.ClinicSettingWhereUniqueInput[]
+  disconnect?: Prisma.ClinicSettingWhereUniqueInput | Prisma.ClinicSettingWhereUniqueInput[]
+  delete?: Prisma.ClinicSettingWhereUniqueInput | Prisma.ClinicSettingWhereUniqueInput[]
+  connect?: Prisma.ClinicSettingWhereUniqueInput | Prisma.ClinicSettingWhereUniqueInput[]
+  update?: Prisma.ClinicSettingUpdateWithWhereUniqueWithoutVaccineScheduleSetInput | Prisma.ClinicSettingUpdateWithWhereUniqueWithoutVaccineScheduleSetInput[]
+  updateMany?: Prisma.ClinicSettingUpdateManyWithWhereWithoutVaccineScheduleSetInput | Prisma.ClinicSettingUpdateManyWithWhereWithoutVaccineScheduleSetInput[]
+  deleteMany?: Prisma.ClinicSettingScalarWhereInput | Prisma.ClinicSettingScalarWhereInput[]
+}
+
+export type ClinicSettingUncheckedUpdateManyWithoutVaccineScheduleSetNestedInput = {
+  create?: Prisma.XOR<Prisma.ClinicSettingCreateWithoutVaccineScheduleSetInput, Prisma.ClinicSettingUncheckedCreateWithoutVaccineScheduleSetInput> | Prisma.ClinicSettingCreateWithoutVaccineScheduleSetInput[] | Prisma.ClinicSettingUncheckedCreateWithoutVaccineScheduleSetInput[]
+  connectOrCreate?: Prisma.ClinicSettingCreateOrConnectWithoutVaccineScheduleSetInput | Prisma.ClinicSettingCreateOrConnectWithoutVaccineScheduleSetInput[]
+  upsert?: Prisma.ClinicSettingUpsertWithWhereUniqueWithoutVaccineScheduleSetInput | Prisma.ClinicSettingUpsertWithWhereUniqueWithoutVaccineScheduleSetInput[]
+  createMany?: Prisma.ClinicSettingCreateManyVaccineScheduleSetInputEnvelope
+  set?: Prisma.ClinicSettingWhereUniqueInput | Prisma.ClinicSettingWhereUniqueInput[]
+  disconnect?: Prisma.ClinicSettingWhereUniqueInput | Prisma.ClinicSettingWhereUniqueInput[]
+  delete?: Prisma.ClinicSettingWhereUniqueInput | Prisma.ClinicSettingWhereUniqueInput[]
+  connect?: Prisma.ClinicSettingWhereUniqueInput | Prisma.ClinicSettingWhereUniqueInput[]
+  update?: Prisma.ClinicSettingUpdateWithWhereUniqueWithoutVaccineScheduleSetInput | Prisma.ClinicSettingUpdateWithWhereUniqueWithoutVaccineScheduleSetInput[]
+  updateMany?: Prisma.ClinicSettingUpdateManyWithWhereWithoutVaccineScheduleSetInput | Prisma.ClinicSettingUpdateManyWithWhereWithoutVaccineScheduleSetInput[]
+  deleteMany?: Prisma.ClinicSettingScalarWhereInput | Prisma.ClinicSettingScalarWhereInput[]
+}
+
 export type ClinicSettingCreateWithoutClinicInput = {
   id?: string
   openingTime: string
@@ -509,8 +609,10 @@ export type ClinicSettingCreateWithoutClinicInput = {
   workingDays?: Prisma.ClinicSettingCreateworkingDaysInput | string[]
   defaultAppointmentDuration?: number
   requireEmergencyContact?: boolean
+  waitlistOfferHoldMinutes?: number
   createdAt?: Date | string
   updatedAt?: Date | string
+  vaccineScheduleSet?: Prisma.VaccineScheduleSetCreateNestedOneWithoutClinicSettingsInput
 }
 
 export type ClinicSettingUncheckedCreateWithoutClinicInput = {
@@ -520,6 +622,8 @@ export type ClinicSettingUncheckedCreateWithoutClinicInput = {
   workingDays?: Prisma.ClinicSettingCreateworkingDaysInput | string[]
   defaultAppointmentDuration?: number
   requireEmergencyContact?: boolean
+  waitlistOfferHoldMinutes?: number
+  vaccineScheduleSetId?: number | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -561,10 +665,64 @@ export type ClinicSettingScalarWhereInput = {
   workingDays?: Prisma.StringNullableListFilter<"ClinicSetting">
   defaultAppointmentDuration?: Prisma.IntFilter<"ClinicSetting"> | number
   requireEmergencyContact?: Prisma.BoolFilter<"ClinicSetting"> | boolean
+  waitlistOfferHoldMinutes?: Prisma.IntFilter<"ClinicSetting"> | number
+  vaccineScheduleSetId?: Prisma.IntNullableFilter<"ClinicSetting"> | number | null
   createdAt?: Prisma.DateTimeFilter<"ClinicSetting"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"ClinicSetting"> | Date | string
 }
 
+export type ClinicSettingCreateWithoutVaccineScheduleSetInput = {
+  id?: string
+  openingTime: string
+  closingTime: string
+  workingDays?: Prisma.ClinicSettingCreateworkingDaysInput | string[]
+  defaultAppointmentDuration?: number
+  requireEmergencyContact?: boolean
+  waitlistOfferHoldMinutes?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  clinic: Prisma.ClinicCreateNestedOneWithoutClinicSettingsInput
+}
+
+export type ClinicSettingUncheckedCreateWithoutVaccineScheduleSetInput = {
+  id?: string
+  clinicId: string
+  openingTime: string
+  closingTime: string
+  workingDays?: Prisma.ClinicSettingCreateworkingDaysInput | string[]
+  defaultAppointmentDuration?: number
+  requireEmergencyContact?: boolean
+  waitlistOfferHoldMinutes?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ClinicSettingCreateOrConnectWithoutVaccineScheduleSetInput = {
+  where: Prisma.ClinicSettingWhereUniqueInput
+  create: Prisma.XOR<Prisma.ClinicSettingCreateWithoutVaccineScheduleSetInput, Prisma.ClinicSettingUncheckedCreateWithoutVaccineScheduleSetInput>
+}
+
+export type ClinicSettingCreateManyVaccineScheduleSetInputEnvelope = {
+  data: Prisma.ClinicSettingCreateManyVaccineScheduleSetInput | Prisma.ClinicSettingCreateManyVaccineScheduleSetInput[]
+  skipDuplicates?: boolean
+}
+
+export type ClinicSettingUpsertWithWhereUniqueWithoutVaccineScheduleSetInput = {
+  where: Prisma.ClinicSettingWhereUniqueInput
+  update: Prisma.XOR<Prisma.ClinicSettingUpdateWithoutVaccineScheduleSetInput, Prisma.ClinicSettingUncheckedUpdateWithoutVaccineScheduleSetInput>
+  create: Prisma.XOR<Prisma.ClinicSettingCreateWithoutVaccineScheduleSetInput, Prisma.ClinicSettingUncheckedCreateWithoutVaccineScheduleSetInput>
+}
+
+export type ClinicSettingUpdateWithWhereUniqueWithoutVaccineScheduleSetInput = {
+  where: Prisma.ClinicSettingWhereUniqueInput
+  data: Prisma.XOR<Prisma.ClinicSettingUpdateWithoutVaccineScheduleSetInput, Prisma.ClinicSettingUncheckedUpdateWithoutVaccineScheduleSetInput>
+}
+
+export type ClinicSettingUpdateManyWithWhereWithoutVaccineScheduleSetInput = {
+  where: Prisma.ClinicSettingScalarWhereInput
+  data: Prisma.XOR<Prisma.ClinicSettingUpdateManyMutationInput, Prisma.ClinicSettingUncheckedUpdateManyWithoutVaccineScheduleSetInput>
+}
+
 export type ClinicSettingCreateManyClinicInput = {
   id?: string
   openingTime: string
@@ -572,6 +730,8 @@ export type ClinicSettingCreateManyClinicInput = {
   workingDays?: Prisma.ClinicSettingCreateworkingDaysInput | string[]
   defaultAppointmentDuration?: number
   requireEmergencyContact?: boolean
+  waitlistOfferHoldMinutes?: number
+  vaccineScheduleSetId?: number | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -583,8 +743,10 @@ export type ClinicSettingUpdateWithoutClinicInput = {
   workingDays?: Prisma.ClinicSettingUpdateworkingDaysInput | string[]
   defaultAppointmentDuration?: Prisma.IntFieldUpdateOperationsInput | number
   requireEmergencyContact?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  waitlistOfferHoldMinutes?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  vaccineScheduleSet?: Prisma.VaccineScheduleSetUpdateOneWithoutClinicSettingsNestedInput
 }
 
 export type ClinicSettingUncheckedUpdateWithoutClinicInput = {
@@ -594,6 +756,8 @@ export type ClinicSettingUncheckedUpdateWithoutClinicInput = {
   workingDays?: Prisma.ClinicSettingUpdateworkingDaysInput | string[]
   defaultAppointmentDuration?: Prisma.IntFieldUpdateOperationsInput | number
   requireEmergencyContact?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  waitlistOfferHoldMinutes?: Prisma.IntFieldUpdateOperationsInput | number
+  vaccineScheduleSetId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -605,6 +769,60 @@ export type ClinicSettingUncheckedUpdateManyWithoutClinicInput = {
   workingDays?: Prisma.ClinicSettingUpdateworkingDaysInput | string[]
   defaultAppointmentDuration?: Prisma.IntFieldUpdateOperationsInput | number
   requireEmergencyContact?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  waitlistOfferHoldMinutes?: Prisma.IntFieldUpdateOperationsInput | number
+  vaccineScheduleSetId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ClinicSettingCreateManyVaccineScheduleSetInput = {
+  id?: string
+  clinicId: string
+  openingTime: string
+  closingTime: string
+  workingDays?: Prisma.ClinicSettingCreateworkingDaysInput | string[]
+  defaultAppointmentDuration?: number
+  requireEmergencyContact?: boolean
+  waitlistOfferHoldMinutes?: number
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ClinicSettingUpdateWithoutVaccineScheduleSetInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  openingTime?: Prisma.StringFieldUpdateOperationsInput | string
+  closingTime?: Prisma.StringFieldUpdateOperationsInput | string
+  workingDays?: Prisma.ClinicSettingUpdateworkingDaysInput | string[]
+  defaultAppointmentDuration?: Prisma.IntFieldUpdateOperationsInput | number
+  requireEmergencyContact?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  waitlistOfferHoldMinutes?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutClinicSettingsNestedInput
+}
+
+export type ClinicSettingUncheckedUpdateWithoutVaccineScheduleSetInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  openingTime?: Prisma.StringFieldUpdateOperationsInput | string
+  closingTime?: Prisma.StringFieldUpdateOperationsInput | string
+  workingDays?: Prisma.ClinicSettingUpdateworkingDaysInput | string[]
+  defaultAppointmentDuration?: Prisma.IntFieldUpdateOperationsInput | number
+  requireEmergencyContact?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  waitlistOfferHoldMinutes?: Prisma.IntFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ClinicSettingUncheckedUpdateManyWithoutVaccineScheduleSetInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  openingTime?: Prisma.StringFieldUpdateOperationsInput | string
+  closingTime?: Prisma.StringFieldUpdateOperationsInput | string
+  workingDays?: Prisma.ClinicSettingUpdateworkingDaysInput | string[]
+  defaultAppointmentDuration?: Prisma.IntFieldUpdateOperationsInput | number
+  requireEmergencyContact?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  waitlistOfferHoldMinutes?: Prisma.IntFieldUpdateOperationsInput | number
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -619,9 +837,12 @@ export type ClinicSettingSelect<ExtArgs extends runtime.Types.Extensions.Interna
   workingDays?: boolean
   defaultAppointmentDuration?: boolean
   requireEmergencyContact?: boolean
+  waitlistOfferHoldMinutes?: boolean
+  vaccineScheduleSetId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  vaccineScheduleSet?: boolean | Prisma.ClinicSetting$vaccineScheduleSetArgs<ExtArgs>
 }, ExtArgs["result"]["clinicSetting"]>
 
 export type ClinicSettingSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -632,9 +853,12 @@ export type ClinicSettingSelectCreateManyAndReturn<ExtArgs extends runtime.Types
   workingDays?: boolean
   defaultAppointmentDuration?: boolean
   requireEmergencyContact?: boolean
+  waitlistOfferHoldMinutes?: boolean
+  vaccineScheduleSetId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  vaccineScheduleSet?: boolean | Prisma.ClinicSetting$vaccineScheduleSetArgs<ExtArgs>
 }, ExtArgs["result"]["clinicSetting"]>
 
 export type ClinicSettingSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -645,9 +869,12 @@ export type ClinicSettingSelectUpdateManyAndReturn<ExtArgs extends runtime.Types
   workingDays?: boolean
   defaultAppointmentDuration?: boolean
   requireEmergencyContact?: boolean
+  waitlistOfferHoldMinutes?: boolean
+  vaccineScheduleSetId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  vaccineScheduleSet?: boolean | Prisma.ClinicSetting$vaccineScheduleSetArgs<ExtArgs>
 }, ExtArgs["result"]["clinicSetting"]>
 
 export type ClinicSettingSelectScalar = {
@@ -658,25 +885,31 @@ export type ClinicSettingSelectScalar = {
   workingDays?: boolean
   defaultAppointmentDuration?: boolean
   requireEmergencyContact?: boolean
+  waitlistOfferHoldMinutes?: boolean
+  vaccineScheduleSetId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type ClinicSettingOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "clinicId" | "openingTime" | "closingTime" | "workingDays" | "defaultAppointmentDuration" | "requireEmergencyContact" | "createdAt" | "updatedAt", ExtArgs["result"]["clinicSetting"]>
+export type ClinicSettingOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "clinicId" | "openingTime" | "closingTime" | "workingDays" | "defaultAppointmentDuration" | "requireEmergencyContact" | "waitlistOfferHoldMinutes" | "vaccineScheduleSetId" | "createdAt" | "updatedAt", ExtArgs["result"]["clinicSetting"]>
 export type ClinicSettingInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  vaccineScheduleSet?: boolean | Prisma.ClinicSetting$vaccineScheduleSetArgs<ExtArgs>
 }
 export type ClinicSettingIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  vaccineScheduleSet?: boolean | Prisma.ClinicSetting$vaccineScheduleSetArgs<ExtArgs>
 }
 export type ClinicSettingIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  vaccineScheduleSet?: boolean | Prisma.ClinicSetting$vaccineScheduleSetArgs<ExtArgs>
 }
 
 export type $ClinicSettingPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   name: "ClinicSetting"
   objects: {
     clinic: Prisma.$ClinicPayload<ExtArgs>
+    vaccineScheduleSet: Prisma.$VaccineScheduleSetPayload<ExtArgs> | null
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -686,6 +919,8 @@ export type $ClinicSettingPayload<ExtArgs extends runtime.Types.Extensions.Inter
     workingDays: string[]
     defaultAppointmentDuration: number
     requireEmergencyContact: boolean
+    waitlistOfferHoldMinutes: number
+    vaccineScheduleSetId: number | null
     createdAt: Date
     updatedAt: Date
   }, ExtArgs["result"]["clinicSetting"]>
@@ -1083,6 +1318,7 @@ readonly fields: ClinicSettingFieldRefs;
 export interface Prisma__ClinicSettingClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   clinic<T extends Prisma.ClinicDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ClinicDefaultArgs<ExtArgs>>): Prisma.Prisma__ClinicClient<runtime.Types.Result.GetResult<Prisma.$ClinicPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  vaccineScheduleSet<T extends Prisma.ClinicSetting$vaccineScheduleSetArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ClinicSetting$vaccineScheduleSetArgs<ExtArgs>>): Prisma.Prisma__VaccineScheduleSetClient<runtime.Types.Result.GetResult<Prisma.$VaccineScheduleSetPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1119,6 +1355,8 @@ export interface ClinicSettingFieldRefs {
   readonly workingDays: Prisma.FieldRef<"ClinicSetting", 'String[]'>
   readonly defaultAppointmentDuration: Prisma.FieldRef<"ClinicSetting", 'Int'>
   readonly requireEmergencyContact: Prisma.FieldRef<"ClinicSetting", 'Boolean'>
+  readonly waitlistOfferHoldMinutes: Prisma.FieldRef<"ClinicSetting", 'Int'>
+  readonly vaccineScheduleSetId: Prisma.FieldRef<"ClinicSetting", 'Int'>
   readonly createdAt: Prisma.FieldRef<"ClinicSetting", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"ClinicSetting", 'DateTime'>
 }
@@ -1525,6 +1763,25 @@ export type ClinicSettingDeleteManyArgs<ExtArgs extends runtime.Types.Extensions
   limit?: number
 }
 
+/**
+ * ClinicSetting.vaccineScheduleSet
+ */
+export type ClinicSetting$vaccineScheduleSetArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleSet
+   */
+  select?: Prisma.VaccineScheduleSetSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VaccineScheduleSet
+   */
+  omit?: Prisma.VaccineScheduleSetOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleSetInclude<ExtArgs> | null
+  where?: Prisma.VaccineScheduleSetWhereInput
+}
+
 /**
  * ClinicSetting without action
  */
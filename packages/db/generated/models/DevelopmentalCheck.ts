@@ -29,11 +29,13 @@ export type AggregateDevelopmentalCheck = {
 export type DevelopmentalCheckAvgAggregateOutputType = {
   id: number | null
   ageMonths: number | null
+  assessedAgeMonths: number | null
 }
 
 export type DevelopmentalCheckSumAggregateOutputType = {
   id: number | null
   ageMonths: number | null
+  assessedAgeMonths: number | null
 }
 
 export type DevelopmentalCheckMinAggregateOutputType = {
@@ -45,6 +47,11 @@ export type DevelopmentalCheckMinAggregateOutputType = {
   languageSkills: $Enums.DevelopmentStatus | null
   socialSkills: $Enums.DevelopmentStatus | null
   cognitiveSkills: $Enums.DevelopmentStatus | null
+  grossMotorSkills: $Enums.DevelopmentStatus | null
+  fineMotorSkills: $Enums.DevelopmentStatus | null
+  assessedAgeMonths: number | null
+  instrument: string | null
+  performedById: string | null
   milestonesMet: string | null
   milestonesPending: string | null
   concerns: string | null
@@ -62,6 +69,11 @@ export type DevelopmentalCheckMaxAggregateOutputType = {
   languageSkills: $Enums.DevelopmentStatus | null
   socialSkills: $Enums.DevelopmentStatus | null
   cognitiveSkills: $Enums.DevelopmentStatus | null
+  grossMotorSkills: $Enums.DevelopmentStatus | null
+  fineMotorSkills: $Enums.DevelopmentStatus | null
+  assessedAgeMonths: number | null
+  instrument: string | null
+  performedById: string | null
   milestonesMet: string | null
   milestonesPending: string | null
   concerns: string | null
@@ -79,6 +91,12 @@ export type DevelopmentalCheckCountAggregateOutputType = {
   languageSkills: number
   socialSkills: number
   cognitiveSkills: number
+  grossMotorSkills: number
+  fineMotorSkills: number
+  assessedAgeMonths: number
+  instrument: number
+  overdueMilestones: number
+  performedById: number
   milestonesMet: number
   milestonesPending: number
   concerns: number
@@ -92,11 +110,13 @@ export type DevelopmentalCheckCountAggregateOutputType = {
 export type DevelopmentalCheckAvgAggregateInputType = {
   id?: true
   ageMonths?: true
+  assessedAgeMonths?: true
 }
 
 export type DevelopmentalCheckSumAggregateInputType = {
   id?: true
   ageMonths?: true
+  assessedAgeMonths?: true
 }
 
 export type DevelopmentalCheckMinAggregateInputType = {
@@ -108,6 +128,11 @@ export type DevelopmentalCheckMinAggregateInputType = {
   languageSkills?: true
   socialSkills?: true
   cognitiveSkills?: true
+  grossMotorSkills?: true
+  fineMotorSkills?: true
+  assessedAgeMonths?: true
+  instrument?: true
+  performedById?: true
   milestonesMet?: true
   milestonesPending?: true
   concerns?: true
@@ -125,6 +150,11 @@ export type DevelopmentalCheckMaxAggregateInputType = {
   languageSkills?: true
   socialSkills?: true
   cognitiveSkills?: true
+  grossMotorSkills?: true
+  fineMotorSkills?: true
+  assessedAgeMonths?: true
+  instrument?: true
+  performedById?: true
   milestonesMet?: true
   milestonesPending?: true
   concerns?: true
@@ -142,6 +172,12 @@ export type DevelopmentalCheckCountAggregateInputType = {
   languageSkills?: true
   socialSkills?: true
   cognitiveSkills?: true
+  grossMotorSkills?: true
+  fineMotorSkills?: true
+  assessedAgeMonths?: true
+  instrument?: true
+  overdueMilestones?: true
+  performedById?: true
   milestonesMet?: true
   milestonesPending?: true
   concerns?: true
@@ -246,6 +282,12 @@ export type DevelopmentalCheckGroupByOutputType = {
   languageSkills: $Enums.DevelopmentStatus
   socialSkills: $Enums.DevelopmentStatus
   cognitiveSkills: $Enums.DevelopmentStatus
+  grossMotorSkills: $Enums.DevelopmentStatus | null
+  fineMotorSkills: $Enums.DevelopmentStatus | null
+  assessedAgeMonths: number | null
+  instrument: string | null
+  overdueMilestones: string[]
+  performedById: string | null
   milestonesMet: string | null
   milestonesPending: string | null
   concerns: string | null
@@ -286,6 +328,12 @@ export type DevelopmentalCheckWhereInput = {
   languageSkills?: Prisma.EnumDevelopmentStatusFilter<"DevelopmentalCheck"> | $Enums.DevelopmentStatus
   socialSkills?: Prisma.EnumDevelopmentStatusFilter<"DevelopmentalCheck"> | $Enums.DevelopmentStatus
   cognitiveSkills?: Prisma.EnumDevelopmentStatusFilter<"DevelopmentalCheck"> | $Enums.DevelopmentStatus
+  grossMotorSkills?: Prisma.EnumDevelopmentStatusNullableFilter<"DevelopmentalCheck"> | $Enums.DevelopmentStatus | null
+  fineMotorSkills?: Prisma.EnumDevelopmentStatusNullableFilter<"DevelopmentalCheck"> | $Enums.DevelopmentStatus | null
+  assessedAgeMonths?: Prisma.IntNullableFilter<"DevelopmentalCheck"> | number | null
+  instrument?: Prisma.StringNullableFilter<"DevelopmentalCheck"> | string | null
+  overdueMilestones?: Prisma.StringNullableListFilter<"DevelopmentalCheck">
+  performedById?: Prisma.StringNullableFilter<"DevelopmentalCheck"> | string | null
   milestonesMet?: Prisma.StringNullableFilter<"DevelopmentalCheck"> | string | null
   milestonesPending?: Prisma.StringNullableFilter<"DevelopmentalCheck"> | string | null
   concerns?: Prisma.StringNullableFilter<"DevelopmentalCheck"> | string | null
@@ -293,6 +341,7 @@ export type DevelopmentalCheckWhereInput = {
   createdAt?: Prisma.DateTimeFilter<"DevelopmentalCheck"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"DevelopmentalCheck"> | Date | string
   patient?: Prisma.XOR<Prisma.PatientScalarRelationFilter, Prisma.PatientWhereInput>
+  milestones?: Prisma.DevelopmentalMilestoneListRelationFilter
 }
 
 export type DevelopmentalCheckOrderByWithRelationInput = {
@@ -304,6 +353,12 @@ export type DevelopmentalCheckOrderByWithRelationInput = {
   languageSkills?: Prisma.SortOrder
   socialSkills?: Prisma.SortOrder
   cognitiveSkills?: Prisma.SortOrder
+  grossMotorSkills?: Prisma.SortOrderInput | Prisma.SortOrder
+  fineMotorSkills?: Prisma.SortOrderInput | Prisma.SortOrder
+  assessedAgeMonths?: Prisma.SortOrderInput | Prisma.SortOrder
+  instrument?: Prisma.SortOrderInput | Prisma.SortOrder
+  overdueMilestones?: Prisma.SortOrder
+  performedById?: Prisma.SortOrderInput | Prisma.SortOrder
   milestonesMet?: Prisma.SortOrderInput | Prisma.SortOrder
   milestonesPending?: Prisma.SortOrderInput | Prisma.SortOrder
   concerns?: Prisma.SortOrderInput | Prisma.SortOrder
@@ -311,6 +366,7 @@ export type DevelopmentalCheckOrderByWithRelationInput = {
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   patient?: Prisma.PatientOrderByWithRelationInput
+  milestones?: Prisma.DevelopmentalMilestoneOrderByRelationAggregateInput
 }
 
 export type DevelopmentalCheckWhereUniqueInput = Prisma.AtLeast<{
@@ -325,6 +381,12 @@ export type DevelopmentalCheckWhereUniqueInput = Prisma.AtLeast<{
   languageSkills?: Prisma.EnumDevelopmentStatusFilter<"DevelopmentalCheck"> | $Enums.DevelopmentStatus
   socialSkills?: Prisma.EnumDevelopmentStatusFilter<"DevelopmentalCheck"> | $Enums.DevelopmentStatus
   cognitiveSkills?: Prisma.EnumDevelopmentStatusFilter<"DevelopmentalCheck"> | $Enums.DevelopmentStatus
+  grossMotorSkills?: Prisma.EnumDevelopmentStatusNullableFilter<"DevelopmentalCheck"> | $Enums.DevelopmentStatus | null
+  fineMotorSkills?: Prisma.EnumDevelopmentStatusNullableFilter<"DevelopmentalCheck"> | $Enums.DevelopmentStatus | null
+  assessedAgeMonths?: Prisma.IntNullableFilter<"DevelopmentalCheck"> | number | null
+  instrument?: Prisma.StringNullableFilter<"DevelopmentalCheck"> | string | null
+  overdueMilestones?: Prisma.StringNullableListFilter<"DevelopmentalCheck">
+  performedById?: Prisma.StringNullableFilter<"DevelopmentalCheck"> | string | null
   milestonesMet?: Prisma.StringNullableFilter<"DevelopmentalCheck"> | string | null
   milestonesPending?: Prisma.StringNullableFilter<"DevelopmentalCheck"> | string | null
   concerns?: Prisma.StringNullableFilter<"DevelopmentalCheck"> | string | null
@@ -332,6 +394,7 @@ export type DevelopmentalCheckWhereUniqueInput = Prisma.AtLeast<{
   createdAt?: Prisma.DateTimeFilter<"DevelopmentalCheck"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"DevelopmentalCheck"> | Date | string
   patient?: Prisma.XOR<Prisma.PatientScalarRelationFilter, Prisma.PatientWhereInput>
+  milestones?: Prisma.DevelopmentalMilestoneListRelationFilter
 }, "id">
 
 export type DevelopmentalCheckOrderByWithAggregationInput = {
@@ -343,6 +406,12 @@ export type DevelopmentalCheckOrderByWithAggregationInput = {
   languageSkills?: Prisma.SortOrder
   socialSkills?: Prisma.SortOrder
   cognitiveSkills?: Prisma.SortOrder
+  grossMotorSkills?: Prisma.SortOrderInput | Prisma.SortOrder
+  fineMotorSkills?: Prisma.SortOrderInput | Prisma.SortOrder
+  assessedAgeMonths?: Prisma.SortOrderInput | Prisma.SortOrder
+  instrument?: Prisma.SortOrderInput | Prisma.SortOrder
+  overdueMilestones?: Prisma.SortOrder
+  performedById?: Prisma.SortOrderInput | Prisma.SortOrder
   milestonesMet?: Prisma.SortOrderInput | Prisma.SortOrder
   milestonesPending?: Prisma.SortOrderInput | Prisma.SortOrder
   concerns?: Prisma.SortOrderInput | Prisma.SortOrder
@@ -368,6 +437,12 @@ export type DevelopmentalCheckScalarWhereWithAggregatesInput = {
   languageSkills?: Prisma.EnumDevelopmentStatusWithAggregatesFilter<"DevelopmentalCheck"> | $Enums.DevelopmentStatus
   socialSkills?: Prisma.EnumDevelopmentStatusWithAggregatesFilter<"DevelopmentalCheck"> | $Enums.DevelopmentStatus
   cognitiveSkills?: Prisma.EnumDevelopmentStatusWithAggregatesFilter<"DevelopmentalCheck"> | $Enums.DevelopmentStatus
+  grossMotorSkills?: Prisma.EnumDevelopmentStatusNullableWithAggregatesFilter<"DevelopmentalCheck"> | $Enums.DevelopmentStatus | null
+  fineMotorSkills?: Prisma.EnumDevelopmentStatusNullableWithAggregatesFilter<"DevelopmentalCheck"> | $Enums.DevelopmentStatus | null
+  assessedAgeMonths?: Prisma.IntNullableWithAggregatesFilter<"DevelopmentalCheck"> | number | null
+  instrument?: Prisma.StringNullableWithAggregatesFilter<"DevelopmentalCheck"> | string | null
+  overdueMilestones?: Prisma.StringNullableListFilter<"DevelopmentalCheck">
+  performedById?: Prisma.StringNullableWithAggregatesFilter<"DevelopmentalCheck"> | string | null
   milestonesMet?: Prisma.StringNullableWithAggregatesFilter<"DevelopmentalCheck"> | string | null
   milestonesPending?: Prisma.StringNullableWithAggregatesFilter<"DevelopmentalCheck"> | string | null
   concerns?: Prisma.StringNullableWithAggregatesFilter<"DevelopmentalCheck"> | string | null
@@ -383,6 +458,12 @@ export type DevelopmentalCheckCreateInput = {
   languageSkills: $Enums.DevelopmentStatus
   socialSkills: $Enums.DevelopmentStatus
   cognitiveSkills: $Enums.DevelopmentStatus
+  grossMotorSkills?: $Enums.DevelopmentStatus | null
+  fineMotorSkills?: $Enums.DevelopmentStatus | null
+  assessedAgeMonths?: number | null
+  instrument?: string | null
+  overdueMilestones?: Prisma.DevelopmentalCheckCreateoverdueMilestonesInput | string[]
+  performedById?: string | null
   milestonesMet?: string | null
   milestonesPending?: string | null
   concerns?: string | null
@@ -390,6 +471,7 @@ export type DevelopmentalCheckCreateInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   patient: Prisma.PatientCreateNestedOneWithoutDevelopmentalChecksInput
+  milestones?: Prisma.DevelopmentalMilestoneCreateNestedManyWithoutCheckInput
 }
 
 export type DevelopmentalCheckUncheckedCreateInput = {
@@ -401,12 +483,19 @@ export type DevelopmentalCheckUncheckedCreateInput = {
   languageSkills: $Enums.DevelopmentStatus
   socialSkills: $Enums.DevelopmentStatus
   cognitiveSkills: $Enums.DevelopmentStatus
+  grossMotorSkills?: $Enums.DevelopmentStatus | null
+  fineMotorSkills?: $Enums.DevelopmentStatus | null
+  assessedAgeMonths?: number | null
+  instrument?: string | null
+  overdueMilestones?: Prisma.DevelopmentalCheckCreateoverdueMilestonesInput | string[]
+  performedById?: string | null
   milestonesMet?: string | null
   milestonesPending?: string | null
   concerns?: string | null
   recommendations?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  milestones?: Prisma.DevelopmentalMilestoneUncheckedCreateNestedManyWithoutCheckInput
 }
 
 export type DevelopmentalCheckUpdateInput = {
@@ -416,6 +505,12 @@ export type DevelopmentalCheckUpdateInput = {
   languageSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
   socialSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
   cognitiveSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
+  grossMotorSkills?: Prisma.NullableEnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus | null
+  fineMotorSkills?: Prisma.NullableEnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus | null
+  assessedAgeMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  instrument?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  overdueMilestones?: Prisma.DevelopmentalCheckUpdateoverdueMilestonesInput | string[]
+  performedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   milestonesMet?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   milestonesPending?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   concerns?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -423,6 +518,7 @@ export type DevelopmentalCheckUpdateInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   patient?: Prisma.PatientUpdateOneRequiredWithoutDevelopmentalChecksNestedInput
+  milestones?: Prisma.DevelopmentalMilestoneUpdateManyWithoutCheckNestedInput
 }
 
 export type DevelopmentalCheckUncheckedUpdateInput = {
@@ -434,12 +530,19 @@ export type DevelopmentalCheckUncheckedUpdateInput = {
   languageSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
   socialSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
   cognitiveSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
+  grossMotorSkills?: Prisma.NullableEnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus | null
+  fineMotorSkills?: Prisma.NullableEnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus | null
+  assessedAgeMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  instrument?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  overdueMilestones?: Prisma.DevelopmentalCheckUpdateoverdueMilestonesInput | string[]
+  performedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   milestonesMet?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   milestonesPending?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   concerns?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   recommendations?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  milestones?: Prisma.DevelopmentalMilestoneUncheckedUpdateManyWithoutCheckNestedInput
 }
 
 export type DevelopmentalCheckCreateManyInput = {
@@ -451,6 +554,12 @@ export type DevelopmentalCheckCreateManyInput = {
   languageSkills: $Enums.DevelopmentStatus
   socialSkills: $Enums.DevelopmentStatus
   cognitiveSkills: $Enums.DevelopmentStatus
+  grossMotorSkills?: $Enums.DevelopmentStatus | null
+  fineMotorSkills?: $Enums.DevelopmentStatus | null
+  assessedAgeMonths?: number | null
+  instrument?: string | null
+  overdueMilestones?: Prisma.DevelopmentalCheckCreateoverdueMilestonesInput | string[]
+  performedById?: string | null
   milestonesMet?: string | null
   milestonesPending?: string | null
   concerns?: string | null
@@ -466,6 +575,12 @@ export type DevelopmentalCheckUpdateManyMutationInput = {
   languageSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
   socialSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
   cognitiveSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
+  grossMotorSkills?: Prisma.NullableEnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus | null
+  fineMotorSkills?: Prisma.NullableEnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus | null
+  assessedAgeMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  instrument?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  overdueMilestones?: Prisma.DevelopmentalCheckUpdateoverdueMilestonesInput | string[]
+  performedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   milestonesMet?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   milestonesPending?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   concerns?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -483,6 +598,12 @@ export type DevelopmentalCheckUncheckedUpdateManyInput = {
   languageSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
   socialSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
   cognitiveSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
+  grossMotorSkills?: Prisma.NullableEnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus | null
+  fineMotorSkills?: Prisma.NullableEnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus | null
+  assessedAgeMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  instrument?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  overdueMilestones?: Prisma.DevelopmentalCheckUpdateoverdueMilestonesInput | string[]
+  performedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   milestonesMet?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   milestonesPending?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   concerns?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -501,6 +622,11 @@ export type DevelopmentalCheckOrderByRelationAggregateInput = {
   _count?: Prisma.SortOrder
 }
 
+export type DevelopmentalCheckNullableScalarRelationFilter = {
+  is?: Prisma.DevelopmentalCheckWhereInput | null
+  isNot?: Prisma.DevelopmentalCheckWhereInput | null
+}
+
 export type DevelopmentalCheckCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   patientId?: Prisma.SortOrder
@@ -510,6 +636,12 @@ export type DevelopmentalCheckCountOrderByAggregateInput = {
   languageSkills?: Prisma.SortOrder
   socialSkills?: Prisma.SortOrder
   cognitiveSkills?: Prisma.SortOrder
+  grossMotorSkills?: Prisma.SortOrder
+  fineMotorSkills?: Prisma.SortOrder
+  assessedAgeMonths?: Prisma.SortOrder
+  instrument?: Prisma.SortOrder
+  overdueMilestones?: Prisma.SortOrder
+  performedById?: Prisma.SortOrder
   milestonesMet?: Prisma.SortOrder
   milestonesPending?: Prisma.SortOrder
   concerns?: Prisma.SortOrder
@@ -521,6 +653,7 @@ export type DevelopmentalCheckCountOrderByAggregateInput = {
 export type DevelopmentalCheckAvgOrderByAggregateInput = {
   id?: Prisma.SortOrder
   ageMonths?: Prisma.SortOrder
+  assessedAgeMonths?: Prisma.SortOrder
 }
 
 export type DevelopmentalCheckMaxOrderByAggregateInput = {
@@ -532,6 +665,11 @@ export type DevelopmentalCheckMaxOrderByAggregateInput = {
   languageSkills?: Prisma.SortOrder
   socialSkills?: Prisma.SortOrder
   cognitiveSkills?: Prisma.SortOrder
+  grossMotorSkills?: Prisma.SortOrder
+  fineMotorSkills?: Prisma.SortOrder
+  assessedAgeMonths?: Prisma.SortOrder
+  instrument?: Prisma.SortOrder
+  performedById?: Prisma.SortOrder
   milestonesMet?: Prisma.SortOrder
   milestonesPending?: Prisma.SortOrder
   concerns?: Prisma.SortOrder
@@ -549,6 +687,11 @@ export type DevelopmentalCheckMinOrderByAggregateInput = {
   languageSkills?: Prisma.SortOrder
   socialSkills?: Prisma.SortOrder
   cognitiveSkills?: Prisma.SortOrder
+  grossMotorSkills?: Prisma.SortOrder
+  fineMotorSkills?: Prisma.SortOrder
+  assessedAgeMonths?: Prisma.SortOrder
+  instrument?: Prisma.SortOrder
+  performedById?: Prisma.SortOrder
   milestonesMet?: Prisma.SortOrder
   milestonesPending?: Prisma.SortOrder
   concerns?: Prisma.SortOrder
@@ -560,6 +703,7 @@ export type DevelopmentalCheckMinOrderByAggregateInput = {
 export type DevelopmentalCheckSumOrderByAggregateInput = {
   id?: Prisma.SortOrder
   ageMonths?: Prisma.SortOrder
+  assessedAgeMonths?: Prisma.SortOrder
 }
 
 export type DevelopmentalCheckCreateNestedManyWithoutPatientInput = {
@@ -604,10 +748,39 @@ export type DevelopmentalCheckUncheckedUpdateManyWithoutPatientNestedInput = {
   deleteMany?: Prisma.DevelopmentalCheckScalarWhereInput | Prisma.DevelopmentalCheckScalarWhereInput[]
 }
 
+export type DevelopmentalCheckCreateNestedOneWithoutMilestonesInput = {
+  create?: Prisma.XOR<Prisma.DevelopmentalCheckCreateWithoutMilestonesInput, Prisma.DevelopmentalCheckUncheckedCreateWithoutMilestonesInput>
+  connectOrCreate?: Prisma.DevelopmentalCheckCreateOrConnectWithoutMilestonesInput
+  connect?: Prisma.DevelopmentalCheckWhereUniqueInput
+}
+
+export type DevelopmentalCheckUpdateOneWithoutMilestonesNestedInput = {
+  create?: Prisma.XOR<Prisma.DevelopmentalCheckCreateWithoutMilestonesInput, Prisma.DevelopmentalCheckUncheckedCreateWithoutMilestonesInput>
+  connectOrCreate?: Prisma.DevelopmentalCheckCreateOrConnectWithoutMilestonesInput
+  upsert?: Prisma.DevelopmentalCheckUpsertWithoutMilestonesInput
+  disconnect?: Prisma.DevelopmentalCheckWhereInput | boolean
+  delete?: Prisma.DevelopmentalCheckWhereInput | boolean
+  connect?: Prisma.DevelopmentalCheckWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.DevelopmentalCheckUpdateToOneWithWhereWithoutMilestonesInput, Prisma.DevelopmentalCheckUpdateWithoutMilestonesInput>, Prisma.DevelopmentalCheckUncheckedUpdateWithoutMilestonesInput>
+}
+
+export type DevelopmentalCheckCreateoverdueMilestonesInput = {
+  set: string[]
+}
+
 export type EnumDevelopmentStatusFieldUpdateOperationsInput = {
   set?: $Enums.DevelopmentStatus
 }
 
+export type NullableEnumDevelopmentStatusFieldUpdateOperationsInput = {
+  set?: $Enums.DevelopmentStatus | null
+}
+
+export type DevelopmentalCheckUpdateoverdueMilestonesInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
 export type DevelopmentalCheckCreateWithoutPatientInput = {
   checkDate: Date | string
   ageMonths: number
@@ -615,12 +788,19 @@ export type DevelopmentalCheckCreateWithoutPatientInput = {
   languageSkills: $Enums.DevelopmentStatus
   socialSkills: $Enums.DevelopmentStatus
   cognitiveSkills: $Enums.DevelopmentStatus
+  grossMotorSkills?: $Enums.DevelopmentStatus | null
+  fineMotorSkills?: $Enums.DevelopmentStatus | null
+  assessedAgeMonths?: number | null
+  instrument?: string | null
+  overdueMilestones?: Prisma.DevelopmentalCheckCreateoverdueMilestonesInput | string[]
+  performedById?: string | null
   milestonesMet?: string | null
   milestonesPending?: string | null
   concerns?: string | null
   recommendations?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  milestones?: Prisma.DevelopmentalMilestoneCreateNestedManyWithoutCheckInput
 }
 
 export type DevelopmentalCheckUncheckedCreateWithoutPatientInput = {
@@ -631,12 +811,19 @@ export type DevelopmentalCheckUncheckedCreateWithoutPatientInput = {
   languageSkills: $Enums.DevelopmentStatus
   socialSkills: $Enums.DevelopmentStatus
   cognitiveSkills: $Enums.DevelopmentStatus
+  grossMotorSkills?: $Enums.DevelopmentStatus | null
+  fineMotorSkills?: $Enums.DevelopmentStatus | null
+  assessedAgeMonths?: number | null
+  instrument?: string | null
+  overdueMilestones?: Prisma.DevelopmentalCheckCreateoverdueMilestonesInput | string[]
+  performedById?: string | null
   milestonesMet?: string | null
   milestonesPending?: string | null
   concerns?: string | null
   recommendations?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  milestones?: Prisma.DevelopmentalMilestoneUncheckedCreateNestedManyWithoutCheckInput
 }
 
 export type DevelopmentalCheckCreateOrConnectWithoutPatientInput = {
@@ -677,6 +864,12 @@ export type DevelopmentalCheckScalarWhereInput = {
   languageSkills?: Prisma.EnumDevelopmentStatusFilter<"DevelopmentalCheck"> | $Enums.DevelopmentStatus
   socialSkills?: Prisma.EnumDevelopmentStatusFilter<"DevelopmentalCheck"> | $Enums.DevelopmentStatus
   cognitiveSkills?: Prisma.EnumDevelopmentStatusFilter<"DevelopmentalCheck"> | $Enums.DevelopmentStatus
+  grossMotorSkills?: Prisma.EnumDevelopmentStatusNullableFilter<"DevelopmentalCheck"> | $Enums.DevelopmentStatus | null
+  fineMotorSkills?: Prisma.EnumDevelopmentStatusNullableFilter<"DevelopmentalCheck"> | $Enums.DevelopmentStatus | null
+  assessedAgeMonths?: Prisma.IntNullableFilter<"DevelopmentalCheck"> | number | null
+  instrument?: Prisma.StringNullableFilter<"DevelopmentalCheck"> | string | null
+  overdueMilestones?: Prisma.StringNullableListFilter<"DevelopmentalCheck">
+  performedById?: Prisma.StringNullableFilter<"DevelopmentalCheck"> | string | null
   milestonesMet?: Prisma.StringNullableFilter<"DevelopmentalCheck"> | string | null
   milestonesPending?: Prisma.StringNullableFilter<"DevelopmentalCheck"> | string | null
   concerns?: Prisma.StringNullableFilter<"DevelopmentalCheck"> | string | null
@@ -685,6 +878,112 @@ export type DevelopmentalCheckScalarWhereInput = {
   updatedAt?: Prisma.DateTimeFilter<"DevelopmentalCheck"> | Date | string
 }
 
+export type DevelopmentalCheckCreateWithoutMilestonesInput = {
+  checkDate: Date | string
+  ageMonths: number
+  motorSkills: $Enums.DevelopmentStatus
+  languageSkills: $Enums.DevelopmentStatus
+  socialSkills: $Enums.DevelopmentStatus
+  cognitiveSkills: $Enums.DevelopmentStatus
+  grossMotorSkills?: $Enums.DevelopmentStatus | null
+  fineMotorSkills?: $Enums.DevelopmentStatus | null
+  assessedAgeMonths?: number | null
+  instrument?: string | null
+  overdueMilestones?: Prisma.DevelopmentalCheckCreateoverdueMilestonesInput | string[]
+  performedById?: string | null
+  milestonesMet?: string | null
+  milestonesPending?: string | null
+  concerns?: string | null
+  recommendations?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  patient: Prisma.PatientCreateNestedOneWithoutDevelopmentalChecksInput
+}
+
+export type DevelopmentalCheckUncheckedCreateWithoutMilestonesInput = {
+  id?: number
+  patientId: string
+  checkDate: Date | string
+  ageMonths: number
+  motorSkills: $Enums.DevelopmentStatus
+  languageSkills: $Enums.DevelopmentStatus
+  socialSkills: $Enums.DevelopmentStatus
+  cognitiveSkills: $Enums.DevelopmentStatus
+  grossMotorSkills?: $Enums.DevelopmentStatus | null
+  fineMotorSkills?: $Enums.DevelopmentStatus | null
+  assessedAgeMonths?: number | null
+  instrument?: string | null
+  overdueMilestones?: Prisma.DevelopmentalCheckCreateoverdueMilestonesInput | string[]
+  performedById?: string | null
+  milestonesMet?: string | null
+  milestonesPending?: string | null
+  concerns?: string | null
+  recommendations?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type DevelopmentalCheckCreateOrConnectWithoutMilestonesInput = {
+  where: Prisma.DevelopmentalCheckWhereUniqueInput
+  create: Prisma.XOR<Prisma.DevelopmentalCheckCreateWithoutMilestonesInput, Prisma.DevelopmentalCheckUncheckedCreateWithoutMilestonesInput>
+}
+
+export type DevelopmentalCheckUpsertWithoutMilestonesInput = {
+  update: Prisma.XOR<Prisma.DevelopmentalCheckUpdateWithoutMilestonesInput, Prisma.DevelopmentalCheckUncheckedUpdateWithoutMilestonesInput>
+  create: Prisma.XOR<Prisma.DevelopmentalCheckCreateWithoutMilestonesInput, Prisma.DevelopmentalCheckUncheckedCreateWithoutMilestonesInput>
+  where?: Prisma.DevelopmentalCheckWhereInput
+}
+
+export type DevelopmentalCheckUpdateToOneWithWhereWithoutMilestonesInput = {
+  where?: Prisma.DevelopmentalCheckWhereInput
+  data: Prisma.XOR<Prisma.DevelopmentalCheckUpdateWithoutMilestonesInput, Prisma.DevelopmentalCheckUncheckedUpdateWithoutMilestonesInput>
+}
+
+export type DevelopmentalCheckUpdateWithoutMilestonesInput = {
+  checkDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ageMonths?: Prisma.IntFieldUpdateOperationsInput | number
+  motorSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
+  languageSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
+  socialSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
+  cognitiveSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
+  grossMotorSkills?: Prisma.NullableEnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus | null
+  fineMotorSkills?: Prisma.NullableEnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus | null
+  assessedAgeMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  instrument?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  overdueMilestones?: Prisma.DevelopmentalCheckUpdateoverdueMilestonesInput | string[]
+  performedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  milestonesMet?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  milestonesPending?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  concerns?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recommendations?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  patient?: Prisma.PatientUpdateOneRequiredWithoutDevelopmentalChecksNestedInput
+}
+
+export type DevelopmentalCheckUncheckedUpdateWithoutMilestonesInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  checkDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ageMonths?: Prisma.IntFieldUpdateOperationsInput | number
+  motorSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
+  languageSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
+  socialSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
+  cognitiveSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
+  grossMotorSkills?: Prisma.NullableEnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus | null
+  fineMotorSkills?: Prisma.NullableEnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus | null
+  assessedAgeMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  instrument?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  overdueMilestones?: Prisma.DevelopmentalCheckUpdateoverdueMilestonesInput | string[]
+  performedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  milestonesMet?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  milestonesPending?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  concerns?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recommendations?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
 export type DevelopmentalCheckCreateManyPatientInput = {
   id?: number
   checkDate: Date | string
@@ -693,6 +992,12 @@ export type DevelopmentalCheckCreateManyPatientInput = {
   languageSkills: $Enums.DevelopmentStatus
   socialSkills: $Enums.DevelopmentStatus
   cognitiveSkills: $Enums.DevelopmentStatus
+  grossMotorSkills?: $Enums.DevelopmentStatus | null
+  fineMotorSkills?: $Enums.DevelopmentStatus | null
+  assessedAgeMonths?: number | null
+  instrument?: string | null
+  overdueMilestones?: Prisma.DevelopmentalCheckCreateoverdueMilestonesInput | string[]
+  performedById?: string | null
   milestonesMet?: string | null
   milestonesPending?: string | null
   concerns?: string | null
@@ -708,12 +1013,19 @@ export type DevelopmentalCheckUpdateWithoutPatientInput = {
   languageSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
   socialSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
   cognitiveSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
+  grossMotorSkills?: Prisma.NullableEnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus | null
+  fineMotorSkills?: Prisma.NullableEnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus | null
+  assessedAgeMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  instrument?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  overdueMilestones?: Prisma.DevelopmentalCheckUpdateoverdueMilestonesInput | string[]
+  performedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   milestonesMet?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   milestonesPending?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   concerns?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   recommendations?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  milestones?: Prisma.DevelopmentalMilestoneUpdateManyWithoutCheckNestedInput
 }
 
 export type DevelopmentalCheckUncheckedUpdateWithoutPatientInput = {
@@ -724,12 +1036,19 @@ export type DevelopmentalCheckUncheckedUpdateWithoutPatientInput = {
   languageSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
   socialSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
   cognitiveSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
+  grossMotorSkills?: Prisma.NullableEnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus | null
+  fineMotorSkills?: Prisma.NullableEnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus | null
+  assessedAgeMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  instrument?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  overdueMilestones?: Prisma.DevelopmentalCheckUpdateoverdueMilestonesInput | string[]
+  performedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   milestonesMet?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   milestonesPending?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   concerns?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   recommendations?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  milestones?: Prisma.DevelopmentalMilestoneUncheckedUpdateManyWithoutCheckNestedInput
 }
 
 export type DevelopmentalCheckUncheckedUpdateManyWithoutPatientInput = {
@@ -740,6 +1059,12 @@ export type DevelopmentalCheckUncheckedUpdateManyWithoutPatientInput = {
   languageSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
   socialSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
   cognitiveSkills?: Prisma.EnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus
+  grossMotorSkills?: Prisma.NullableEnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus | null
+  fineMotorSkills?: Prisma.NullableEnumDevelopmentStatusFieldUpdateOperationsInput | $Enums.DevelopmentStatus | null
+  assessedAgeMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  instrument?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  overdueMilestones?: Prisma.DevelopmentalCheckUpdateoverdueMilestonesInput | string[]
+  performedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   milestonesMet?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   milestonesPending?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   concerns?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -749,6 +1074,35 @@ export type DevelopmentalCheckUncheckedUpdateManyWithoutPatientInput = {
 }
 
 
+/**
+ * Count Type DevelopmentalCheckCountOutputType
+ */
+
+export type DevelopmentalCheckCountOutputType = {
+  milestones: number
+}
+
+export type DevelopmentalCheckCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  milestones?: boolean | DevelopmentalCheckCountOutputTypeCountMilestonesArgs
+}
+
+/**
+ * DevelopmentalCheckCountOutputType without action
+ */
+export type DevelopmentalCheckCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DevelopmentalCheckCountOutputType
+   */
+  select?: Prisma.DevelopmentalCheckCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * DevelopmentalCheckCountOutputType without action
+ */
+export type DevelopmentalCheckCountOutputTypeCountMilestonesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.DevelopmentalMilestoneWhereInput
+}
+
 
 export type DevelopmentalCheckSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -759,6 +1113,12 @@ export type DevelopmentalCheckSelect<ExtArgs extends runtime.Types.Extensions.In
   languageSkills?: boolean
   socialSkills?: boolean
   cognitiveSkills?: boolean
+  grossMotorSkills?: boolean
+  fineMotorSkills?: boolean
+  assessedAgeMonths?: boolean
+  instrument?: boolean
+  overdueMilestones?: boolean
+  performedById?: boolean
   milestonesMet?: boolean
   milestonesPending?: boolean
   concerns?: boolean
@@ -766,6 +1126,8 @@ export type DevelopmentalCheckSelect<ExtArgs extends runtime.Types.Extensions.In
   createdAt?: boolean
   updatedAt?: boolean
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  milestones?: boolean | Prisma.DevelopmentalCheck$milestonesArgs<ExtArgs>
+  _count?: boolean | Prisma.DevelopmentalCheckCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["developmentalCheck"]>
 
 export type DevelopmentalCheckSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -777,6 +1139,12 @@ export type DevelopmentalCheckSelectCreateManyAndReturn<ExtArgs extends runtime.
   languageSkills?: boolean
   socialSkills?: boolean
   cognitiveSkills?: boolean
+  grossMotorSkills?: boolean
+  fineMotorSkills?: boolean
+  assessedAgeMonths?: boolean
+  instrument?: boolean
+  overdueMilestones?: boolean
+  performedById?: boolean
   milestonesMet?: boolean
   milestonesPending?: boolean
   concerns?: boolean
@@ -795,6 +1163,12 @@ export type DevelopmentalCheckSelectUpdateManyAndReturn<ExtArgs extends runtime.
   languageSkills?: boolean
   socialSkills?: boolean
   cognitiveSkills?: boolean
+  grossMotorSkills?: boolean
+  fineMotorSkills?: boolean
+  assessedAgeMonths?: boolean
+  instrument?: boolean
+  overdueMilestones?: boolean
+  performedById?: boolean
   milestonesMet?: boolean
   milestonesPending?: boolean
   concerns?: boolean
@@ -813,6 +1187,12 @@ export type DevelopmentalCheckSelectScalar = {
   languageSkills?: boolean
   socialSkills?: boolean
   cognitiveSkills?: boolean
+  grossMotorSkills?: boolean
+  fineMotorSkills?: boolean
+  assessedAgeMonths?: boolean
+  instrument?: boolean
+  overdueMilestones?: boolean
+  performedById?: boolean
   milestonesMet?: boolean
   milestonesPending?: boolean
   concerns?: boolean
@@ -821,9 +1201,11 @@ export type DevelopmentalCheckSelectScalar = {
   updatedAt?: boolean
 }
 
-export type DevelopmentalCheckOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "patientId" | "checkDate" | "ageMonths" | "motorSkills" | "languageSkills" | "socialSkills" | "cognitiveSkills" | "milestonesMet" | "milestonesPending" | "concerns" | "recommendations" | "createdAt" | "updatedAt", ExtArgs["result"]["developmentalCheck"]>
+export type DevelopmentalCheckOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "patientId" | "checkDate" | "ageMonths" | "motorSkills" | "languageSkills" | "socialSkills" | "cognitiveSkills" | "grossMotorSkills" | "fineMotorSkills" | "assessedAgeMonths" | "instrument" | "overdueMilestones" | "performedById" | "milestonesMet" | "milestonesPending" | "concerns" | "recommendations" | "createdAt" | "updatedAt", ExtArgs["result"]["developmentalCheck"]>
 export type DevelopmentalCheckInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  milestones?: boolean | Prisma.DevelopmentalCheck$milestonesArgs<ExtArgs>
+  _count?: boolean | Prisma.DevelopmentalCheckCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type DevelopmentalCheckIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
@@ -836,6 +1218,7 @@ export type $DevelopmentalCheckPayload<ExtArgs extends runtime.Types.Extensions.
   name: "DevelopmentalCheck"
   objects: {
     patient: Prisma.$PatientPayload<ExtArgs>
+    milestones: Prisma.$DevelopmentalMilestonePayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: number
@@ -846,6 +1229,21 @@ export type $DevelopmentalCheckPayload<ExtArgs extends runtime.Types.Extensions.
     languageSkills: $Enums.DevelopmentStatus
     socialSkills: $Enums.DevelopmentStatus
     cognitiveSkills: $Enums.DevelopmentStatus
+    /**
+     * Motor skills split as screened; `motorSkills` holds the worse of the two
+     */
+    grossMotorSkills: $Enums.DevelopmentStatus | null
+    fineMotorSkills: $Enums.DevelopmentStatus | null
+    /**
+     * Age the milestones were judged against: corrected for prematurity under 24 months
+     */
+    assessedAgeMonths: number | null
+    instrument: string | null
+    /**
+     * Catalogue codes not yet achieved past the age most children reach them
+     */
+    overdueMilestones: string[]
+    performedById: string | null
     milestonesMet: string | null
     milestonesPending: string | null
     concerns: string | null
@@ -1247,6 +1645,7 @@ readonly fields: DevelopmentalCheckFieldRefs;
 export interface Prisma__DevelopmentalCheckClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   patient<T extends Prisma.PatientDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PatientDefaultArgs<ExtArgs>>): Prisma.Prisma__PatientClient<runtime.Types.Result.GetResult<Prisma.$PatientPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  milestones<T extends Prisma.DevelopmentalCheck$milestonesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.DevelopmentalCheck$milestonesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DevelopmentalMilestonePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1284,6 +1683,12 @@ export interface DevelopmentalCheckFieldRefs {
   readonly languageSkills: Prisma.FieldRef<"DevelopmentalCheck", 'DevelopmentStatus'>
   readonly socialSkills: Prisma.FieldRef<"DevelopmentalCheck", 'DevelopmentStatus'>
   readonly cognitiveSkills: Prisma.FieldRef<"DevelopmentalCheck", 'DevelopmentStatus'>
+  readonly grossMotorSkills: Prisma.FieldRef<"DevelopmentalCheck", 'DevelopmentStatus'>
+  readonly fineMotorSkills: Prisma.FieldRef<"DevelopmentalCheck", 'DevelopmentStatus'>
+  readonly assessedAgeMonths: Prisma.FieldRef<"DevelopmentalCheck", 'Int'>
+  readonly instrument: Prisma.FieldRef<"DevelopmentalCheck", 'String'>
+  readonly overdueMilestones: Prisma.FieldRef<"DevelopmentalCheck", 'String[]'>
+  readonly performedById: Prisma.FieldRef<"DevelopmentalCheck", 'String'>
   readonly milestonesMet: Prisma.FieldRef<"DevelopmentalCheck", 'String'>
   readonly milestonesPending: Prisma.FieldRef<"DevelopmentalCheck", 'String'>
   readonly concerns: Prisma.FieldRef<"DevelopmentalCheck", 'String'>
@@ -1694,6 +2099,30 @@ export type DevelopmentalCheckDeleteManyArgs<ExtArgs extends runtime.Types.Exten
   limit?: number
 }
 
+/**
+ * DevelopmentalCheck.milestones
+ */
+export type DevelopmentalCheck$milestonesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DevelopmentalMilestone
+   */
+  select?: Prisma.DevelopmentalMilestoneSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DevelopmentalMilestone
+   */
+  omit?: Prisma.DevelopmentalMilestoneOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DevelopmentalMilestoneInclude<ExtArgs> | null
+  where?: Prisma.DevelopmentalMilestoneWhereInput
+  orderBy?: Prisma.DevelopmentalMilestoneOrderByWithRelationInput | Prisma.DevelopmentalMilestoneOrderByWithRelationInput[]
+  cursor?: Prisma.DevelopmentalMilestoneWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.DevelopmentalMilestoneScalarFieldEnum | Prisma.DevelopmentalMilestoneScalarFieldEnum[]
+}
+
 /**
  * DevelopmentalCheck without action
  */
@@ -28,16 +28,22 @@ export type AggregateDevelopmentalMilestone = {
 
 export type DevelopmentalMilestoneAvgAggregateOutputType = {
   id: number | null
+  checkId: number | null
 }
 
 export type DevelopmentalMilestoneSumAggregateOutputType = {
   id: number | null
+  checkId: number | null
 }
 
 export type DevelopmentalMilestoneMinAggregateOutputType = {
   id: number | null
   patientId: string | null
+  checkId: number | null
   milestone: string | null
+  milestoneCode: string | null
+  domain: $Enums.DevelopmentalDomain | null
+  status: $Enums.MilestoneStatus | null
   ageAchieved: string | null
   dateRecorded: Date | null
   notes: string | null
@@ -50,7 +56,11 @@ export type DevelopmentalMilestoneMinAggregateOutputType = {
 export type DevelopmentalMilestoneMaxAggregateOutputType = {
   id: number | null
   patientId: string | null
+  checkId: number | null
   milestone: string | null
+  milestoneCode: string | null
+  domain: $Enums.DevelopmentalDomain | null
+  status: $Enums.MilestoneStatus | null
   ageAchieved: string | null
   dateRecorded: Date | null
   notes: string | null
@@ -63,7 +73,11 @@ export type DevelopmentalMilestoneMaxAggregateOutputType = {
 export type DevelopmentalMilestoneCountAggregateOutputType = {
   id: number
   patientId: number
+  checkId: number
   milestone: number
+  milestoneCode: number
+  domain: number
+  status: number
   ageAchieved: number
   dateRecorded: number
   notes: number
@@ -77,16 +91,22 @@ export type DevelopmentalMilestoneCountAggregateOutputType = {
 
 export type DevelopmentalMilestoneAvgAggregateInputType = {
   id?: true
+  checkId?: true
 }
 
 export type DevelopmentalMilestoneSumAggregateInputType = {
   id?: true
+  checkId?: true
 }
 
 export type DevelopmentalMilestoneMinAggregateInputType = {
   id?: true
   patientId?: true
+  checkId?: true
   milestone?: true
+  milestoneCode?: true
+  domain?: true
+  status?: true
   ageAchieved?: true
   dateRecorded?: true
   notes?: true
@@ -99,7 +119,11 @@ export type DevelopmentalMilestoneMinAggregateInputType = {
 export type DevelopmentalMilestoneMaxAggregateInputType = {
   id?: true
   patientId?: true
+  checkId?: true
   milestone?: true
+  milestoneCode?: true
+  domain?: true
+  status?: true
   ageAchieved?: true
   dateRecorded?: true
   notes?: true
@@ -112,7 +136,11 @@ export type DevelopmentalMilestoneMaxAggregateInputType = {
 export type DevelopmentalMilestoneCountAggregateInputType = {
   id?: true
   patientId?: true
+  checkId?: true
   milestone?: true
+  milestoneCode?: true
+  domain?: true
+  status?: true
   ageAchieved?: true
   dateRecorded?: true
   notes?: true
@@ -212,8 +240,12 @@ export type DevelopmentalMilestoneGroupByArgs<ExtArgs extends runtime.Types.Exte
 export type DevelopmentalMilestoneGroupByOutputType = {
   id: number
   patientId: string
+  checkId: number | null
   milestone: string
-  ageAchieved: string
+  milestoneCode: string | null
+  domain: $Enums.DevelopmentalDomain | null
+  status: $Enums.MilestoneStatus
+  ageAchieved: string | null
   dateRecorded: Date
   notes: string | null
   createdBy: string | null
@@ -248,8 +280,12 @@ export type DevelopmentalMilestoneWhereInput = {
   NOT?: Prisma.DevelopmentalMilestoneWhereInput | Prisma.DevelopmentalMilestoneWhereInput[]
   id?: Prisma.IntFilter<"DevelopmentalMilestone"> | number
   patientId?: Prisma.StringFilter<"DevelopmentalMilestone"> | string
+  checkId?: Prisma.IntNullableFilter<"DevelopmentalMilestone"> | number | null
   milestone?: Prisma.StringFilter<"DevelopmentalMilestone"> | string
-  ageAchieved?: Prisma.StringFilter<"DevelopmentalMilestone"> | string
+  milestoneCode?: Prisma.StringNullableFilter<"DevelopmentalMilestone"> | string | null
+  domain?: Prisma.EnumDevelopmentalDomainNullableFilter<"DevelopmentalMilestone"> | $Enums.DevelopmentalDomain | null
+  status?: Prisma.EnumMilestoneStatusFilter<"DevelopmentalMilestone"> | $Enums.MilestoneStatus
+  ageAchieved?: Prisma.StringNullableFilter<"DevelopmentalMilestone"> | string | null
   dateRecorded?: Prisma.DateTimeFilter<"DevelopmentalMilestone"> | Date | string
   notes?: Prisma.StringNullableFilter<"DevelopmentalMilestone"> | string | null
   createdBy?: Prisma.StringNullableFilter<"DevelopmentalMilestone"> | string | null
@@ -257,13 +293,18 @@ export type DevelopmentalMilestoneWhereInput = {
   createdAt?: Prisma.DateTimeFilter<"DevelopmentalMilestone"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"DevelopmentalMilestone"> | Date | string
   patient?: Prisma.XOR<Prisma.PatientScalarRelationFilter, Prisma.PatientWhereInput>
+  check?: Prisma.XOR<Prisma.DevelopmentalCheckNullableScalarRelationFilter, Prisma.DevelopmentalCheckWhereInput> | null
 }
 
 export type DevelopmentalMilestoneOrderByWithRelationInput = {
   id?: Prisma.SortOrder
   patientId?: Prisma.SortOrder
+  checkId?: Prisma.SortOrderInput | Prisma.SortOrder
   milestone?: Prisma.SortOrder
-  ageAchieved?: Prisma.SortOrder
+  milestoneCode?: Prisma.SortOrderInput | Prisma.SortOrder
+  domain?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  ageAchieved?: Prisma.SortOrderInput | Prisma.SortOrder
   dateRecorded?: Prisma.SortOrder
   notes?: Prisma.SortOrderInput | Prisma.SortOrder
   createdBy?: Prisma.SortOrderInput | Prisma.SortOrder
@@ -271,6 +312,7 @@ export type DevelopmentalMilestoneOrderByWithRelationInput = {
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   patient?: Prisma.PatientOrderByWithRelationInput
+  check?: Prisma.DevelopmentalCheckOrderByWithRelationInput
 }
 
 export type DevelopmentalMilestoneWhereUniqueInput = Prisma.AtLeast<{
@@ -279,8 +321,12 @@ export type DevelopmentalMilestoneWhereUniqueInput = Prisma.AtLeast<{
   OR?: Prisma.DevelopmentalMilestoneWhereInput[]
   NOT?: Prisma.DevelopmentalMilestoneWhereInput | Prisma.DevelopmentalMilestoneWhereInput[]
   patientId?: Prisma.StringFilter<"DevelopmentalMilestone"> | string
+  checkId?: Prisma.IntNullableFilter<"DevelopmentalMilestone"> | number | null
   milestone?: Prisma.StringFilter<"DevelopmentalMilestone"> | string
-  ageAchieved?: Prisma.StringFilter<"DevelopmentalMilestone"> | string
+  milestoneCode?: Prisma.StringNullableFilter<"DevelopmentalMilestone"> | string | null
+  domain?: Prisma.EnumDevelopmentalDomainNullableFilter<"DevelopmentalMilestone"> | $Enums.DevelopmentalDomain | null
+  status?: Prisma.EnumMilestoneStatusFilter<"DevelopmentalMilestone"> | $Enums.MilestoneStatus
+  ageAchieved?: Prisma.StringNullableFilter<"DevelopmentalMilestone"> | string | null
   dateRecorded?: Prisma.DateTimeFilter<"DevelopmentalMilestone"> | Date | string
   notes?: Prisma.StringNullableFilter<"DevelopmentalMilestone"> | string | null
   createdBy?: Prisma.StringNullableFilter<"DevelopmentalMilestone"> | string | null
@@ -288,13 +334,18 @@ export type DevelopmentalMilestoneWhereUniqueInput = Prisma.AtLeast<{
   createdAt?: Prisma.DateTimeFilter<"DevelopmentalMilestone"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"DevelopmentalMilestone"> | Date | string
   patient?: Prisma.XOR<Prisma.PatientScalarRelationFilter, Prisma.PatientWhereInput>
+  check?: Prisma.XOR<Prisma.DevelopmentalCheckNullableScalarRelationFilter, Prisma.DevelopmentalCheckWhereInput> | null
 }, "id">
 
 export type DevelopmentalMilestoneOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
   patientId?: Prisma.SortOrder
+  checkId?: Prisma.SortOrderInput | Prisma.SortOrder
   milestone?: Prisma.SortOrder
-  ageAchieved?: Prisma.SortOrder
+  milestoneCode?: Prisma.SortOrderInput | Prisma.SortOrder
+  domain?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  ageAchieved?: Prisma.SortOrderInput | Prisma.SortOrder
   dateRecorded?: Prisma.SortOrder
   notes?: Prisma.SortOrderInput | Prisma.SortOrder
   createdBy?: Prisma.SortOrderInput | Prisma.SortOrder
@@ -314,8 +365,12 @@ export type DevelopmentalMilestoneScalarWhereWithAggregatesInput = {
   NOT?: Prisma.DevelopmentalMilestoneScalarWhereWithAggregatesInput | Prisma.DevelopmentalMilestoneScalarWhereWithAggregatesInput[]
   id?: Prisma.IntWithAggregatesFilter<"DevelopmentalMilestone"> | number
   patientId?: Prisma.StringWithAggregatesFilter<"DevelopmentalMilestone"> | string
+  checkId?: Prisma.IntNullableWithAggregatesFilter<"DevelopmentalMilestone"> | number | null
   milestone?: Prisma.StringWithAggregatesFilter<"DevelopmentalMilestone"> | string
-  ageAchieved?: Prisma.StringWithAggregatesFilter<"DevelopmentalMilestone"> | string
+  milestoneCode?: Prisma.StringNullableWithAggregatesFilter<"DevelopmentalMilestone"> | string | null
+  domain?: Prisma.EnumDevelopmentalDomainNullableWithAggregatesFilter<"DevelopmentalMilestone"> | $Enums.DevelopmentalDomain | null
+  status?: Prisma.EnumMilestoneStatusWithAggregatesFilter<"DevelopmentalMilestone"> | $Enums.MilestoneStatus
+  ageAchieved?: Prisma.StringNullableWithAggregatesFilter<"DevelopmentalMilestone"> | string | null
   dateRecorded?: Prisma.DateTimeWithAggregatesFilter<"DevelopmentalMilestone"> | Date | string
   notes?: Prisma.StringNullableWithAggregatesFilter<"DevelopmentalMilestone"> | string | null
   createdBy?: Prisma.StringNullableWithAggregatesFilter<"DevelopmentalMilestone"> | string | null
@@ -326,7 +381,10 @@ export type DevelopmentalMilestoneScalarWhereWithAggregatesInput = {
 
 export type DevelopmentalMilestoneCreateInput = {
   milestone: string
-  ageAchieved: string
+  milestoneCode?: string | null
+  domain?: $Enums.DevelopmentalDomain | null
+  status?: $Enums.MilestoneStatus
+  ageAchieved?: string | null
   dateRecorded: Date | string
   notes?: string | null
   createdBy?: string | null
@@ -334,13 +392,18 @@ export type DevelopmentalMilestoneCreateInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   patient: Prisma.PatientCreateNestedOneWithoutDevelopmentalMilestonesInput
+  check?: Prisma.DevelopmentalCheckCreateNestedOneWithoutMilestonesInput
 }
 
 export type DevelopmentalMilestoneUncheckedCreateInput = {
   id?: number
   patientId: string
+  checkId?: number | null
   milestone: string
-  ageAchieved: string
+  milestoneCode?: string | null
+  domain?: $Enums.DevelopmentalDomain | null
+  status?: $Enums.MilestoneStatus
+  ageAchieved?: string | null
   dateRecorded: Date | string
   notes?: string | null
   createdBy?: string | null
@@ -351,7 +414,10 @@ export type DevelopmentalMilestoneUncheckedCreateInput = {
 
 export type DevelopmentalMilestoneUpdateInput = {
   milestone?: Prisma.StringFieldUpdateOperationsInput | string
-  ageAchieved?: Prisma.StringFieldUpdateOperationsInput | string
+  milestoneCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  domain?: Prisma.NullableEnumDevelopmentalDomainFieldUpdateOperationsInput | $Enums.DevelopmentalDomain | null
+  status?: Prisma.EnumMilestoneStatusFieldUpdateOperationsInput | $Enums.MilestoneStatus
+  ageAchieved?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateRecorded?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -359,13 +425,18 @@ export type DevelopmentalMilestoneUpdateInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   patient?: Prisma.PatientUpdateOneRequiredWithoutDevelopmentalMilestonesNestedInput
+  check?: Prisma.DevelopmentalCheckUpdateOneWithoutMilestonesNestedInput
 }
 
 export type DevelopmentalMilestoneUncheckedUpdateInput = {
   id?: Prisma.IntFieldUpdateOperationsInput | number
   patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  checkId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   milestone?: Prisma.StringFieldUpdateOperationsInput | string
-  ageAchieved?: Prisma.StringFieldUpdateOperationsInput | string
+  milestoneCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  domain?: Prisma.NullableEnumDevelopmentalDomainFieldUpdateOperationsInput | $Enums.DevelopmentalDomain | null
+  status?: Prisma.EnumMilestoneStatusFieldUpdateOperationsInput | $Enums.MilestoneStatus
+  ageAchieved?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateRecorded?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -377,8 +448,12 @@ export type DevelopmentalMilestoneUncheckedUpdateInput = {
 export type DevelopmentalMilestoneCreateManyInput = {
   id?: number
   patientId: string
+  checkId?: number | null
   milestone: string
-  ageAchieved: string
+  milestoneCode?: string | null
+  domain?: $Enums.DevelopmentalDomain | null
+  status?: $Enums.MilestoneStatus
+  ageAchieved?: string | null
   dateRecorded: Date | string
   notes?: string | null
   createdBy?: string | null
@@ -389,7 +464,10 @@ export type DevelopmentalMilestoneCreateManyInput = {
 
 export type DevelopmentalMilestoneUpdateManyMutationInput = {
   milestone?: Prisma.StringFieldUpdateOperationsInput | string
-  ageAchieved?: Prisma.StringFieldUpdateOperationsInput | string
+  milestoneCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  domain?: Prisma.NullableEnumDevelopmentalDomainFieldUpdateOperationsInput | $Enums.DevelopmentalDomain | null
+  status?: Prisma.EnumMilestoneStatusFieldUpdateOperationsInput | $Enums.MilestoneStatus
+  ageAchieved?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateRecorded?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -401,8 +479,12 @@ export type DevelopmentalMilestoneUpdateManyMutationInput = {
 export type DevelopmentalMilestoneUncheckedUpdateManyInput = {
   id?: Prisma.IntFieldUpdateOperationsInput | number
   patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  checkId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   milestone?: Prisma.StringFieldUpdateOperationsInput | string
-  ageAchieved?: Prisma.StringFieldUpdateOperationsInput | string
+  milestoneCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  domain?: Prisma.NullableEnumDevelopmentalDomainFieldUpdateOperationsInput | $Enums.DevelopmentalDomain | null
+  status?: Prisma.EnumMilestoneStatusFieldUpdateOperationsInput | $Enums.MilestoneStatus
+  ageAchieved?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateRecorded?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -424,7 +506,11 @@ export type DevelopmentalMilestoneOrderByRelationAggregateInput = {
 export type DevelopmentalMilestoneCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   patientId?: Prisma.SortOrder
+  checkId?: Prisma.SortOrder
   milestone?: Prisma.SortOrder
+  milestoneCode?: Prisma.SortOrder
+  domain?: Prisma.SortOrder
+  status?: Prisma.SortOrder
   ageAchieved?: Prisma.SortOrder
   dateRecorded?: Prisma.SortOrder
   notes?: Prisma.SortOrder
@@ -436,12 +522,17 @@ export type DevelopmentalMilestoneCountOrderByAggregateInput = {
 
 export type DevelopmentalMilestoneAvgOrderByAggregateInput = {
   id?: Prisma.SortOrder
+  checkId?: Prisma.SortOrder
 }
 
 export type DevelopmentalMilestoneMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder
   patientId?: Prisma.SortOrder
+  checkId?: Prisma.SortOrder
   milestone?: Prisma.SortOrder
+  milestoneCode?: Prisma.SortOrder
+  domain?: Prisma.SortOrder
+  status?: Prisma.SortOrder
   ageAchieved?: Prisma.SortOrder
   dateRecorded?: Prisma.SortOrder
   notes?: Prisma.SortOrder
@@ -454,7 +545,11 @@ export type DevelopmentalMilestoneMaxOrderByAggregateInput = {
 export type DevelopmentalMilestoneMinOrderByAggregateInput = {
   id?: Prisma.SortOrder
   patientId?: Prisma.SortOrder
+  checkId?: Prisma.SortOrder
   milestone?: Prisma.SortOrder
+  milestoneCode?: Prisma.SortOrder
+  domain?: Prisma.SortOrder
+  status?: Prisma.SortOrder
   ageAchieved?: Prisma.SortOrder
   dateRecorded?: Prisma.SortOrder
   notes?: Prisma.SortOrder
@@ -466,6 +561,7 @@ export type DevelopmentalMilestoneMinOrderByAggregateInput = {
 
 export type DevelopmentalMilestoneSumOrderByAggregateInput = {
   id?: Prisma.SortOrder
+  checkId?: Prisma.SortOrder
 }
 
 export type DevelopmentalMilestoneCreateNestedManyWithoutPatientInput = {
@@ -510,21 +606,79 @@ export type DevelopmentalMilestoneUncheckedUpdateManyWithoutPatientNestedInput =
   deleteMany?: Prisma.DevelopmentalMilestoneScalarWhereInput | Prisma.DevelopmentalMilestoneScalarWhereInput[]
 }
 
+export type NullableEnumDevelopmentalDomainFieldUpdateOperationsInput = {
+  set?: $Enums.DevelopmentalDomain | null
+}
+
+export type EnumMilestoneStatusFieldUpdateOperationsInput = {
+  set?: $Enums.MilestoneStatus
+}
+
+export type DevelopmentalMilestoneCreateNestedManyWithoutCheckInput = {
+  create?: Prisma.XOR<Prisma.DevelopmentalMilestoneCreateWithoutCheckInput, Prisma.DevelopmentalMilestoneUncheckedCreateWithoutCheckInput> | Prisma.DevelopmentalMilestoneCreateWithoutCheckInput[] | Prisma.DevelopmentalMilestoneUncheckedCreateWithoutCheckInput[]
+  connectOrCreate?: Prisma.DevelopmentalMilestoneCreateOrConnectWithoutCheckInput | Prisma.DevelopmentalMilestoneCreateOrConnectWithoutCheckInput[]
+  createMany?: Prisma.DevelopmentalMilestoneCreateManyCheckInputEnvelope
+  connect?: Prisma.DevelopmentalMilestoneWhereUniqueInput | Prisma.DevelopmentalMilestoneWhereUniqueInput[]
+}
+
+export type DevelopmentalMilestoneUncheckedCreateNestedManyWithoutCheckInput = {
+  create?: Prisma.XOR<Prisma.DevelopmentalMilestoneCreateWithoutCheckInput, Prisma.DevelopmentalMilestoneUncheckedCreateWithoutCheckInput> | Prisma.DevelopmentalMilestoneCreateWithoutCheckInput[] | Prisma.DevelopmentalMilestoneUncheckedCreateWithoutCheckInput[]
+  connectOrCreate?: Prisma.DevelopmentalMilestoneCreateOrConnectWithoutCheckInput | Prisma.DevelopmentalMilestoneCreateOrConnectWithoutCheckInput[]
+  createMany?: Prisma.DevelopmentalMilestoneCreateManyCheckInputEnvelope
+  connect?: Prisma.DevelopmentalMilestoneWhereUniqueInput | Prisma.DevelopmentalMilestoneWhereUniqueInput[]
+}
+
+export type DevelopmentalMilestoneUpdateManyWithoutCheckNestedInput = {
+  create?: Prisma.XOR<Prisma.DevelopmentalMilestoneCreateWithoutCheckInput, Prisma.DevelopmentalMilestoneUncheckedCreateWithoutCheckInput> | Prisma.DevelopmentalMilestoneCreateWithoutCheckInput[] | Prisma.DevelopmentalMilestoneUncheckedCreateWithoutCheckInput[]
+  connectOrCreate?: Prisma.DevelopmentalMilestoneCreateOrConnectWithoutCheckInput | Prisma.DevelopmentalMilestoneCreateOrConnectWithoutCheckInput[]
+  upsert?: Prisma.DevelopmentalMilestoneUpsertWithWhereUniqueWithoutCheckInput | Prisma.DevelopmentalMilestoneUpsertWithWhereUniqueWithoutCheckInput[]
+  createMany?: Prisma.DevelopmentalMilestoneCreateManyCheckInputEnvelope
+  set?: Prisma.DevelopmentalMilestoneWhereUniqueInput | Prisma.DevelopmentalMilestoneWhereUniqueInput[]
+  disconnect?: Prisma.DevelopmentalMilestoneWhereUniqueInput | Prisma.DevelopmentalMilestoneWhereUniqueInput[]
+  delete?: Prisma.DevelopmentalMilestoneWhereUniqueInput | Prisma.DevelopmentalMilestoneWhereUniqueInput[]
+  connect?: Prisma.DevelopmentalMilestoneWhereUniqueInput | Prisma.DevelopmentalMilestoneWhereUniqueInput[]
+  update?: Prisma.DevelopmentalMilestoneUpdateWithWhereUniqueWithoutCheckInput | Prisma.DevelopmentalMilestoneUpdateWithWhereUniqueWithoutCheckInput[]
+  updateMany?: Prisma.DevelopmentalMilestoneUpdateManyWithWhereWithoutCheckInput | Prisma.DevelopmentalMilestoneUpdateManyWithWhereWithoutCheckInput[]
+  deleteMany?: Prisma.DevelopmentalMilestoneScalarWhereInput | Prisma.DevelopmentalMilestoneScalarWhereInput[]
+}
+
+export type DevelopmentalMilestoneUncheckedUpdateManyWithoutCheckNestedInput = {
+  create?: Prisma.XOR<Prisma.DevelopmentalMilestoneCreateWithoutCheckInput, Prisma.DevelopmentalMilestoneUncheckedCreateWithoutCheckInput> | Prisma.DevelopmentalMilestoneCreateWithoutCheckInput[] | Prisma.DevelopmentalMilestoneUncheckedCreateWithoutCheckInput[]
+  connectOrCreate?: Prisma.DevelopmentalMilestoneCreateOrConnectWithoutCheckInput | Prisma.DevelopmentalMilestoneCreateOrConnectWithoutCheckInput[]
+  upsert?: Prisma.DevelopmentalMilestoneUpsertWithWhereUniqueWithoutCheckInput | Prisma.DevelopmentalMilestoneUpsertWithWhereUniqueWithoutCheckInput[]
+  createMany?: Prisma.DevelopmentalMilestoneCreateManyCheckInputEnvelope
+  set?: Prisma.DevelopmentalMilestoneWhereUniqueInput | Prisma.DevelopmentalMilestoneWhereUniqueInput[]
+  disconnect?: Prisma.DevelopmentalMilestoneWhereUniqueInput | Prisma.DevelopmentalMilestoneWhereUniqueInput[]
+  delete?: Prisma.DevelopmentalMilestoneWhereUniqueInput | Prisma.DevelopmentalMilestoneWhereUniqueInput[]
+  connect?: Prisma.DevelopmentalMilestoneWhereUniqueInput | Prisma.DevelopmentalMilestoneWhereUniqueInput[]
+  update?: Prisma.DevelopmentalMilestoneUpdateWithWhereUniqueWithoutCheckInput | Prisma.DevelopmentalMilestoneUpdateWithWhereUniqueWithoutCheckInput[]
+  updateMany?: Prisma.DevelopmentalMilestoneUpdateManyWithWhereWithoutCheckInput | Prisma.DevelopmentalMilestoneUpdateManyWithWhereWithoutCheckInput[]
+  deleteMany?: Prisma.DevelopmentalMilestoneScalarWhereInput | Prisma.DevelopmentalMilestoneScalarWhereInput[]
+}
+
 export type DevelopmentalMilestoneCreateWithoutPatientInput = {
   milestone: string
-  ageAchieved: string
+  milestoneCode?: string | null
+  domain?: $Enums.DevelopmentalDomain | null
+  status?: $Enums.MilestoneStatus
+  ageAchieved?: string | null
   dateRecorded: Date | string
   notes?: string | null
   createdBy?: string | null
   updatedBy?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  check?: Prisma.DevelopmentalCheckCreateNestedOneWithoutMilestonesInput
 }
 
 export type DevelopmentalMilestoneUncheckedCreateWithoutPatientInput = {
   id?: number
+  checkId?: number | null
   milestone: string
-  ageAchieved: string
+  milestoneCode?: string | null
+  domain?: $Enums.DevelopmentalDomain | null
+  status?: $Enums.MilestoneStatus
+  ageAchieved?: string | null
   dateRecorded: Date | string
   notes?: string | null
   createdBy?: string | null
@@ -565,8 +719,12 @@ export type DevelopmentalMilestoneScalarWhereInput = {
   NOT?: Prisma.DevelopmentalMilestoneScalarWhereInput | Prisma.DevelopmentalMilestoneScalarWhereInput[]
   id?: Prisma.IntFilter<"DevelopmentalMilestone"> | number
   patientId?: Prisma.StringFilter<"DevelopmentalMilestone"> | string
+  checkId?: Prisma.IntNullableFilter<"DevelopmentalMilestone"> | number | null
   milestone?: Prisma.StringFilter<"DevelopmentalMilestone"> | string
-  ageAchieved?: Prisma.StringFilter<"DevelopmentalMilestone"> | string
+  milestoneCode?: Prisma.StringNullableFilter<"DevelopmentalMilestone"> | string | null
+  domain?: Prisma.EnumDevelopmentalDomainNullableFilter<"DevelopmentalMilestone"> | $Enums.DevelopmentalDomain | null
+  status?: Prisma.EnumMilestoneStatusFilter<"DevelopmentalMilestone"> | $Enums.MilestoneStatus
+  ageAchieved?: Prisma.StringNullableFilter<"DevelopmentalMilestone"> | string | null
   dateRecorded?: Prisma.DateTimeFilter<"DevelopmentalMilestone"> | Date | string
   notes?: Prisma.StringNullableFilter<"DevelopmentalMilestone"> | string | null
   createdBy?: Prisma.StringNullableFilter<"DevelopmentalMilestone"> | string | null
@@ -575,10 +733,71 @@ export type DevelopmentalMilestoneScalarWhereInput = {
   updatedAt?: Prisma.DateTimeFilter<"DevelopmentalMilestone"> | Date | string
 }
 
+export type DevelopmentalMilestoneCreateWithoutCheckInput = {
+  milestone: string
+  milestoneCode?: string | null
+  domain?: $Enums.DevelopmentalDomain | null
+  status?: $Enums.MilestoneStatus
+  ageAchieved?: string | null
+  dateRecorded: Date | string
+  notes?: string | null
+  createdBy?: string | null
+  updatedBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  patient: Prisma.PatientCreateNestedOneWithoutDevelopmentalMilestonesInput
+}
+
+export type DevelopmentalMilestoneUncheckedCreateWithoutCheckInput = {
+  id?: number
+  patientId: string
+  milestone: string
+  milestoneCode?: string | null
+  domain?: $Enums.DevelopmentalDomain | null
+  status?: $Enums.MilestoneStatus
+  ageAchieved?: string | null
+  dateRecorded: Date | string
+  notes?: string | null
+  createdBy?: string | null
+  updatedBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type DevelopmentalMilestoneCreateOrConnectWithoutCheckInput = {
+  where: Prisma.DevelopmentalMilestoneWhereUniqueInput
+  create: Prisma.XOR<Prisma.DevelopmentalMilestoneCreateWithoutCheckInput, Prisma.DevelopmentalMilestoneUncheckedCreateWithoutCheckInput>
+}
+
+export type DevelopmentalMilestoneCreateManyCheckInputEnvelope = {
+  data: Prisma.DevelopmentalMilestoneCreateManyCheckInput | Prisma.DevelopmentalMilestoneCreateManyCheckInput[]
+  skipDuplicates?: boolean
+}
+
+export type DevelopmentalMilestoneUpsertWithWhereUniqueWithoutCheckInput = {
+  where: Prisma.DevelopmentalMilestoneWhereUniqueInput
+  update: Prisma.XOR<Prisma.DevelopmentalMilestoneUpdateWithoutCheckInput, Prisma.DevelopmentalMilestoneUncheckedUpdateWithoutCheckInput>
+  create: Prisma.XOR<Prisma.DevelopmentalMilestoneCreateWithoutCheckInput, Prisma.DevelopmentalMilestoneUncheckedCreateWithoutCheckInput>
+}
+
+export type DevelopmentalMilestoneUpdateWithWhereUniqueWithoutCheckInput = {
+  where: Prisma.DevelopmentalMilestoneWhereUniqueInput
+  data: Prisma.XOR<Prisma.DevelopmentalMilestoneUpdateWithoutCheckInput, Prisma.DevelopmentalMilestoneUncheckedUpdateWithoutCheckInput>
+}
+
+export type DevelopmentalMilestoneUpdateManyWithWhereWithoutCheckInput = {
+  where: Prisma.DevelopmentalMilestoneScalarWhereInput
+  data: Prisma.XOR<Prisma.DevelopmentalMilestoneUpdateManyMutationInput, Prisma.DevelopmentalMilestoneUncheckedUpdateManyWithoutCheckInput>
+}
+
 export type DevelopmentalMilestoneCreateManyPatientInput = {
   id?: number
+  checkId?: number | null
   milestone: string
-  ageAchieved: string
+  milestoneCode?: string | null
+  domain?: $Enums.DevelopmentalDomain | null
+  status?: $Enums.MilestoneStatus
+  ageAchieved?: string | null
   dateRecorded: Date | string
   notes?: string | null
   createdBy?: string | null
@@ -589,19 +808,27 @@ export type DevelopmentalMilestoneCreateManyPatientInput = {
 
 export type DevelopmentalMilestoneUpdateWithoutPatientInput = {
   milestone?: Prisma.StringFieldUpdateOperationsInput | string
-  ageAchieved?: Prisma.StringFieldUpdateOperationsInput | string
+  milestoneCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  domain?: Prisma.NullableEnumDevelopmentalDomainFieldUpdateOperationsInput | $Enums.DevelopmentalDomain | null
+  status?: Prisma.EnumMilestoneStatusFieldUpdateOperationsInput | $Enums.MilestoneStatus
+  ageAchieved?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateRecorded?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   updatedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  check?: Prisma.DevelopmentalCheckUpdateOneWithoutMilestonesNestedInput
 }
 
 export type DevelopmentalMilestoneUncheckedUpdateWithoutPatientInput = {
   id?: Prisma.IntFieldUpdateOperationsInput | number
+  checkId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   milestone?: Prisma.StringFieldUpdateOperationsInput | string
-  ageAchieved?: Prisma.StringFieldUpdateOperationsInput | string
+  milestoneCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  domain?: Prisma.NullableEnumDevelopmentalDomainFieldUpdateOperationsInput | $Enums.DevelopmentalDomain | null
+  status?: Prisma.EnumMilestoneStatusFieldUpdateOperationsInput | $Enums.MilestoneStatus
+  ageAchieved?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateRecorded?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -612,8 +839,75 @@ export type DevelopmentalMilestoneUncheckedUpdateWithoutPatientInput = {
 
 export type DevelopmentalMilestoneUncheckedUpdateManyWithoutPatientInput = {
   id?: Prisma.IntFieldUpdateOperationsInput | number
+  checkId?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  milestone?: Prisma.StringFieldUpdateOperationsInput | string
+  milestoneCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  domain?: Prisma.NullableEnumDevelopmentalDomainFieldUpdateOperationsInput | $Enums.DevelopmentalDomain | null
+  status?: Prisma.EnumMilestoneStatusFieldUpdateOperationsInput | $Enums.MilestoneStatus
+  ageAchieved?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRecorded?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  updatedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DevelopmentalMilestoneCreateManyCheckInput = {
+  id?: number
+  patientId: string
+  milestone: string
+  milestoneCode?: string | null
+  domain?: $Enums.DevelopmentalDomain | null
+  status?: $Enums.MilestoneStatus
+  ageAchieved?: string | null
+  dateRecorded: Date | string
+  notes?: string | null
+  createdBy?: string | null
+  updatedBy?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type DevelopmentalMilestoneUpdateWithoutCheckInput = {
+  milestone?: Prisma.StringFieldUpdateOperationsInput | string
+  milestoneCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  domain?: Prisma.NullableEnumDevelopmentalDomainFieldUpdateOperationsInput | $Enums.DevelopmentalDomain | null
+  status?: Prisma.EnumMilestoneStatusFieldUpdateOperationsInput | $Enums.MilestoneStatus
+  ageAchieved?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRecorded?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  updatedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  patient?: Prisma.PatientUpdateOneRequiredWithoutDevelopmentalMilestonesNestedInput
+}
+
+export type DevelopmentalMilestoneUncheckedUpdateWithoutCheckInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
   milestone?: Prisma.StringFieldUpdateOperationsInput | string
-  ageAchieved?: Prisma.StringFieldUpdateOperationsInput | string
+  milestoneCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  domain?: Prisma.NullableEnumDevelopmentalDomainFieldUpdateOperationsInput | $Enums.DevelopmentalDomain | null
+  status?: Prisma.EnumMilestoneStatusFieldUpdateOperationsInput | $Enums.MilestoneStatus
+  ageAchieved?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateRecorded?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  updatedBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DevelopmentalMilestoneUncheckedUpdateManyWithoutCheckInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  milestone?: Prisma.StringFieldUpdateOperationsInput | string
+  milestoneCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  domain?: Prisma.NullableEnumDevelopmentalDomainFieldUpdateOperationsInput | $Enums.DevelopmentalDomain | null
+  status?: Prisma.EnumMilestoneStatusFieldUpdateOperationsInput | $Enums.MilestoneStatus
+  ageAchieved?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateRecorded?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdBy?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
@@ -627,7 +921,11 @@ export type DevelopmentalMilestoneUncheckedUpdateManyWithoutPatientInput = {
 export type DevelopmentalMilestoneSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   patientId?: boolean
+  checkId?: boolean
   milestone?: boolean
+  milestoneCode?: boolean
+  domain?: boolean
+  status?: boolean
   ageAchieved?: boolean
   dateRecorded?: boolean
   notes?: boolean
@@ -636,12 +934,17 @@ export type DevelopmentalMilestoneSelect<ExtArgs extends runtime.Types.Extension
   createdAt?: boolean
   updatedAt?: boolean
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  check?: boolean | Prisma.DevelopmentalMilestone$checkArgs<ExtArgs>
 }, ExtArgs["result"]["developmentalMilestone"]>
 
 export type DevelopmentalMilestoneSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   patientId?: boolean
+  checkId?: boolean
   milestone?: boolean
+  milestoneCode?: boolean
+  domain?: boolean
+  status?: boolean
   ageAchieved?: boolean
   dateRecorded?: boolean
   notes?: boolean
@@ -650,12 +953,17 @@ export type DevelopmentalMilestoneSelectCreateManyAndReturn<ExtArgs extends runt
   createdAt?: boolean
   updatedAt?: boolean
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  check?: boolean | Prisma.DevelopmentalMilestone$checkArgs<ExtArgs>
 }, ExtArgs["result"]["developmentalMilestone"]>
 
 export type DevelopmentalMilestoneSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   patientId?: boolean
+  checkId?: boolean
   milestone?: boolean
+  milestoneCode?: boolean
+  domain?: boolean
+  status?: boolean
   ageAchieved?: boolean
   dateRecorded?: boolean
   notes?: boolean
@@ -664,12 +972,17 @@ export type DevelopmentalMilestoneSelectUpdateManyAndReturn<ExtArgs extends runt
   createdAt?: boolean
   updatedAt?: boolean
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  check?: boolean | Prisma.DevelopmentalMilestone$checkArgs<ExtArgs>
 }, ExtArgs["result"]["developmentalMilestone"]>
 
 export type DevelopmentalMilestoneSelectScalar = {
   id?: boolean
   patientId?: boolean
+  checkId?: boolean
   milestone?: boolean
+  milestoneCode?: boolean
+  domain?: boolean
+  status?: boolean
   ageAchieved?: boolean
   dateRecorded?: boolean
   notes?: boolean
@@ -679,27 +992,38 @@ export type DevelopmentalMilestoneSelectScalar = {
   updatedAt?: boolean
 }
 
-export type DevelopmentalMilestoneOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "patientId" | "milestone" | "ageAchieved" | "dateRecorded" | "notes" | "createdBy" | "updatedBy" | "createdAt" | "updatedAt", ExtArgs["result"]["developmentalMilestone"]>
+export type DevelopmentalMilestoneOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "patientId" | "checkId" | "milestone" | "milestoneCode" | "domain" | "status" | "ageAchieved" | "dateRecorded" | "notes" | "createdBy" | "updatedBy" | "createdAt" | "updatedAt", ExtArgs["result"]["developmentalMilestone"]>
 export type DevelopmentalMilestoneInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  check?: boolean | Prisma.DevelopmentalMilestone$checkArgs<ExtArgs>
 }
 export type DevelopmentalMilestoneIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  check?: boolean | Prisma.DevelopmentalMilestone$checkArgs<ExtArgs>
 }
 export type DevelopmentalMilestoneIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  check?: boolean | Prisma.DevelopmentalMilestone$checkArgs<ExtArgs>
 }
 
 export type $DevelopmentalMilestonePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   name: "DevelopmentalMilestone"
   objects: {
     patient: Prisma.$PatientPayload<ExtArgs>
+    check: Prisma.$DevelopmentalCheckPayload<ExtArgs> | null
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: number
     patientId: string
+    checkId: number | null
     milestone: string
-    ageAchieved: string
+    /**
+     * Catalogue code; null for free-text milestones recorded before the catalogue
+     */
+    milestoneCode: string | null
+    domain: $Enums.DevelopmentalDomain | null
+    status: $Enums.MilestoneStatus
+    ageAchieved: string | null
     dateRecorded: Date
     notes: string | null
     createdBy: string | null
@@ -1101,6 +1425,7 @@ readonly fields: DevelopmentalMilestoneFieldRefs;
 export interface Prisma__DevelopmentalMilestoneClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   patient<T extends Prisma.PatientDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PatientDefaultArgs<ExtArgs>>): Prisma.Prisma__PatientClient<runtime.Types.Result.GetResult<Prisma.$PatientPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  check<T extends Prisma.DevelopmentalMilestone$checkArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.DevelopmentalMilestone$checkArgs<ExtArgs>>): Prisma.Prisma__DevelopmentalCheckClient<runtime.Types.Result.GetResult<Prisma.$DevelopmentalCheckPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1132,7 +1457,11 @@ export interface Prisma__DevelopmentalMilestoneClient<T, Null = never, ExtArgs e
 export interface DevelopmentalMilestoneFieldRefs {
   readonly id: Prisma.FieldRef<"DevelopmentalMilestone", 'Int'>
   readonly patientId: Prisma.FieldRef<"DevelopmentalMilestone", 'String'>
+  readonly checkId: Prisma.FieldRef<"DevelopmentalMilestone", 'Int'>
   readonly milestone: Prisma.FieldRef<"DevelopmentalMilestone", 'String'>
+  readonly milestoneCode: Prisma.FieldRef<"DevelopmentalMilestone", 'String'>
+  readonly domain: Prisma.FieldRef<"DevelopmentalMilestone", 'DevelopmentalDomain'>
+  readonly status: Prisma.FieldRef<"DevelopmentalMilestone", 'MilestoneStatus'>
   readonly ageAchieved: Prisma.FieldRef<"DevelopmentalMilestone", 'String'>
   readonly dateRecorded: Prisma.FieldRef<"DevelopmentalMilestone", 'DateTime'>
   readonly notes: Prisma.FieldRef<"DevelopmentalMilestone", 'String'>
@@ -1544,6 +1873,25 @@ export type DevelopmentalMilestoneDeleteManyArgs<ExtArgs extends runtime.Types.E
   limit?: number
 }
 
+/**
+ * DevelopmentalMilestone.check
+ */
+export type DevelopmentalMilestone$checkArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DevelopmentalCheck
+   */
+  select?: Prisma.DevelopmentalCheckSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DevelopmentalCheck
+   */
+  omit?: Prisma.DevelopmentalCheckOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DevelopmentalCheckInclude<ExtArgs> | null
+  where?: Prisma.DevelopmentalCheckWhereInput
+}
+
 /**
  * DevelopmentalMilestone without action
  */
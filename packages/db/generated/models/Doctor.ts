@@ -395,7 +395,11 @@ export type DoctorWhereInput = {
   user?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
   clinic?: Prisma.XOR<Prisma.ClinicNullableScalarRelationFilter, Prisma.ClinicWhereInput> | null
   workingDays?: Prisma.WorkingDaysListRelationFilter
+  breaks?: Prisma.DoctorBreakListRelationFilter
+  scheduleExceptions?: Prisma.ScheduleExceptionListRelationFilter
   appointments?: Prisma.AppointmentListRelationFilter
+  appointmentSeries?: Prisma.AppointmentSeriesListRelationFilter
+  waitlistEntries?: Prisma.WaitlistEntryListRelationFilter
   encounter?: Prisma.DiagnosisListRelationFilter
   Prescription?: Prisma.PrescriptionListRelationFilter
   medicalRecords?: Prisma.MedicalRecordsListRelationFilter
@@ -432,7 +436,11 @@ export type DoctorOrderByWithRelationInput = {
   user?: Prisma.UserOrderByWithRelationInput
   clinic?: Prisma.ClinicOrderByWithRelationInput
   workingDays?: Prisma.WorkingDaysOrderByRelationAggregateInput
+  breaks?: Prisma.DoctorBreakOrderByRelationAggregateInput
+  scheduleExceptions?: Prisma.ScheduleExceptionOrderByRelationAggregateInput
   appointments?: Prisma.AppointmentOrderByRelationAggregateInput
+  appointmentSeries?: Prisma.AppointmentSeriesOrderByRelationAggregateInput
+  waitlistEntries?: Prisma.WaitlistEntryOrderByRelationAggregateInput
   encounter?: Prisma.DiagnosisOrderByRelationAggregateInput
   Prescription?: Prisma.PrescriptionOrderByRelationAggregateInput
   medicalRecords?: Prisma.MedicalRecordsOrderByRelationAggregateInput
@@ -472,7 +480,11 @@ export type DoctorWhereUniqueInput = Prisma.AtLeast<{
   user?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
   clinic?: Prisma.XOR<Prisma.ClinicNullableScalarRelationFilter, Prisma.ClinicWhereInput> | null
   workingDays?: Prisma.WorkingDaysListRelationFilter
+  breaks?: Prisma.DoctorBreakListRelationFilter
+  scheduleExceptions?: Prisma.ScheduleExceptionListRelationFilter
   appointments?: Prisma.AppointmentListRelationFilter
+  appointmentSeries?: Prisma.AppointmentSeriesListRelationFilter
+  waitlistEntries?: Prisma.WaitlistEntryListRelationFilter
   encounter?: Prisma.DiagnosisListRelationFilter
   Prescription?: Prisma.PrescriptionListRelationFilter
   medicalRecords?: Prisma.MedicalRecordsListRelationFilter
@@ -573,7 +585,11 @@ export type DoctorCreateInput = {
   user?: Prisma.UserCreateNestedOneWithoutDoctorInput
   clinic?: Prisma.ClinicCreateNestedOneWithoutDoctorsInput
   workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutDoctorInput
+  breaks?: Prisma.DoctorBreakCreateNestedManyWithoutDoctorInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutDoctorInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutDoctorInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutDoctorInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutDoctorInput
   encounter?: Prisma.DiagnosisCreateNestedManyWithoutDoctorInput
   Prescription?: Prisma.PrescriptionCreateNestedManyWithoutDoctorInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutDoctorInput
@@ -608,7 +624,11 @@ export type DoctorUncheckedCreateInput = {
   deletedAt?: Date | string | null
   isDeleted?: boolean | null
   workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutDoctorInput
+  breaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutDoctorInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutDoctorInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutDoctorInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutDoctorInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutDoctorInput
   encounter?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutDoctorInput
   Prescription?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutDoctorInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutDoctorInput
@@ -643,7 +663,11 @@ export type DoctorUpdateInput = {
   user?: Prisma.UserUpdateOneWithoutDoctorNestedInput
   clinic?: Prisma.ClinicUpdateOneWithoutDoctorsNestedInput
   workingDays?: Prisma.WorkingDaysUpdateManyWithoutDoctorNestedInput
+  breaks?: Prisma.DoctorBreakUpdateManyWithoutDoctorNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutDoctorNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutDoctorNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutDoctorNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutDoctorNestedInput
   encounter?: Prisma.DiagnosisUpdateManyWithoutDoctorNestedInput
   Prescription?: Prisma.PrescriptionUpdateManyWithoutDoctorNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutDoctorNestedInput
@@ -678,7 +702,11 @@ export type DoctorUncheckedUpdateInput = {
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutDoctorNestedInput
+  breaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutDoctorNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutDoctorNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutDoctorNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutDoctorNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutDoctorNestedInput
   encounter?: Prisma.DiagnosisUncheckedUpdateManyWithoutDoctorNestedInput
   Prescription?: Prisma.PrescriptionUncheckedUpdateManyWithoutDoctorNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutDoctorNestedInput
@@ -997,6 +1025,36 @@ export type DoctorUpdateOneRequiredWithoutWorkingDaysNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.DoctorUpdateToOneWithWhereWithoutWorkingDaysInput, Prisma.DoctorUpdateWithoutWorkingDaysInput>, Prisma.DoctorUncheckedUpdateWithoutWorkingDaysInput>
 }
 
+export type DoctorCreateNestedOneWithoutBreaksInput = {
+  create?: Prisma.XOR<Prisma.DoctorCreateWithoutBreaksInput, Prisma.DoctorUncheckedCreateWithoutBreaksInput>
+  connectOrCreate?: Prisma.DoctorCreateOrConnectWithoutBreaksInput
+  connect?: Prisma.DoctorWhereUniqueInput
+}
+
+export type DoctorUpdateOneRequiredWithoutBreaksNestedInput = {
+  create?: Prisma.XOR<Prisma.DoctorCreateWithoutBreaksInput, Prisma.DoctorUncheckedCreateWithoutBreaksInput>
+  connectOrCreate?: Prisma.DoctorCreateOrConnectWithoutBreaksInput
+  upsert?: Prisma.DoctorUpsertWithoutBreaksInput
+  connect?: Prisma.DoctorWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.DoctorUpdateToOneWithWhereWithoutBreaksInput, Prisma.DoctorUpdateWithoutBreaksInput>, Prisma.DoctorUncheckedUpdateWithoutBreaksInput>
+}
+
+export type DoctorCreateNestedOneWithoutScheduleExceptionsInput = {
+  create?: Prisma.XOR<Prisma.DoctorCreateWithoutScheduleExceptionsInput, Prisma.DoctorUncheckedCreateWithoutScheduleExceptionsInput>
+  connectOrCreate?: Prisma.DoctorCreateOrConnectWithoutScheduleExceptionsInput
+  connect?: Prisma.DoctorWhereUniqueInput
+}
+
+export type DoctorUpdateOneWithoutScheduleExceptionsNestedInput = {
+  create?: Prisma.XOR<Prisma.DoctorCreateWithoutScheduleExceptionsInput, Prisma.DoctorUncheckedCreateWithoutScheduleExceptionsInput>
+  connectOrCreate?: Prisma.DoctorCreateOrConnectWithoutScheduleExceptionsInput
+  upsert?: Prisma.DoctorUpsertWithoutScheduleExceptionsInput
+  disconnect?: Prisma.DoctorWhereInput | boolean
+  delete?: Prisma.DoctorWhereInput | boolean
+  connect?: Prisma.DoctorWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.DoctorUpdateToOneWithWhereWithoutScheduleExceptionsInput, Prisma.DoctorUpdateWithoutScheduleExceptionsInput>, Prisma.DoctorUncheckedUpdateWithoutScheduleExceptionsInput>
+}
+
 export type DoctorCreateNestedOneWithoutRatingsInput = {
   create?: Prisma.XOR<Prisma.DoctorCreateWithoutRatingsInput, Prisma.DoctorUncheckedCreateWithoutRatingsInput>
   connectOrCreate?: Prisma.DoctorCreateOrConnectWithoutRatingsInput
@@ -1043,6 +1101,36 @@ export type DoctorUpdateOneRequiredWithoutAppointmentsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.DoctorUpdateToOneWithWhereWithoutAppointmentsInput, Prisma.DoctorUpdateWithoutAppointmentsInput>, Prisma.DoctorUncheckedUpdateWithoutAppointmentsInput>
 }
 
+export type DoctorCreateNestedOneWithoutAppointmentSeriesInput = {
+  create?: Prisma.XOR<Prisma.DoctorCreateWithoutAppointmentSeriesInput, Prisma.DoctorUncheckedCreateWithoutAppointmentSeriesInput>
+  connectOrCreate?: Prisma.DoctorCreateOrConnectWithoutAppointmentSeriesInput
+  connect?: Prisma.DoctorWhereUniqueInput
+}
+
+export type DoctorUpdateOneRequiredWithoutAppointmentSeriesNestedInput = {
+  create?: Prisma.XOR<Prisma.DoctorCreateWithoutAppointmentSeriesInput, Prisma.DoctorUncheckedCreateWithoutAppointmentSeriesInput>
+  connectOrCreate?: Prisma.DoctorCreateOrConnectWithoutAppointmentSeriesInput
+  upsert?: Prisma.DoctorUpsertWithoutAppointmentSeriesInput
+  connect?: Prisma.DoctorWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.DoctorUpdateToOneWithWhereWithoutAppointmentSeriesInput, Prisma.DoctorUpdateWithoutAppointmentSeriesInput>, Prisma.DoctorUncheckedUpdateWithoutAppointmentSeriesInput>
+}
+
+export type DoctorCreateNestedOneWithoutWaitlistEntriesInput = {
+  create?: Prisma.XOR<Prisma.DoctorCreateWithoutWaitlistEntriesInput, Prisma.DoctorUncheckedCreateWithoutWaitlistEntriesInput>
+  connectOrCreate?: Prisma.DoctorCreateOrConnectWithoutWaitlistEntriesInput
+  connect?: Prisma.DoctorWhereUniqueInput
+}
+
+export type DoctorUpdateOneWithoutWaitlistEntriesNestedInput = {
+  create?: Prisma.XOR<Prisma.DoctorCreateWithoutWaitlistEntriesInput, Prisma.DoctorUncheckedCreateWithoutWaitlistEntriesInput>
+  connectOrCreate?: Prisma.DoctorCreateOrConnectWithoutWaitlistEntriesInput
+  upsert?: Prisma.DoctorUpsertWithoutWaitlistEntriesInput
+  disconnect?: Prisma.DoctorWhereInput | boolean
+  delete?: Prisma.DoctorWhereInput | boolean
+  connect?: Prisma.DoctorWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.DoctorUpdateToOneWithWhereWithoutWaitlistEntriesInput, Prisma.DoctorUpdateWithoutWaitlistEntriesInput>, Prisma.DoctorUncheckedUpdateWithoutWaitlistEntriesInput>
+}
+
 export type DoctorCreateNestedOneWithoutMedicalRecordsInput = {
   create?: Prisma.XOR<Prisma.DoctorCreateWithoutMedicalRecordsInput, Prisma.DoctorUncheckedCreateWithoutMedicalRecordsInput>
   connectOrCreate?: Prisma.DoctorCreateOrConnectWithoutMedicalRecordsInput
@@ -1100,7 +1188,11 @@ export type DoctorCreateWithoutUserInput = {
   isDeleted?: boolean | null
   clinic?: Prisma.ClinicCreateNestedOneWithoutDoctorsInput
   workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutDoctorInput
+  breaks?: Prisma.DoctorBreakCreateNestedManyWithoutDoctorInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutDoctorInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutDoctorInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutDoctorInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutDoctorInput
   encounter?: Prisma.DiagnosisCreateNestedManyWithoutDoctorInput
   Prescription?: Prisma.PrescriptionCreateNestedManyWithoutDoctorInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutDoctorInput
@@ -1134,7 +1226,11 @@ export type DoctorUncheckedCreateWithoutUserInput = {
   deletedAt?: Date | string | null
   isDeleted?: boolean | null
   workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutDoctorInput
+  breaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutDoctorInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutDoctorInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutDoctorInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutDoctorInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutDoctorInput
   encounter?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutDoctorInput
   Prescription?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutDoctorInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutDoctorInput
@@ -1184,7 +1280,11 @@ export type DoctorUpdateWithoutUserInput = {
   isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   clinic?: Prisma.ClinicUpdateOneWithoutDoctorsNestedInput
   workingDays?: Prisma.WorkingDaysUpdateManyWithoutDoctorNestedInput
+  breaks?: Prisma.DoctorBreakUpdateManyWithoutDoctorNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutDoctorNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutDoctorNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutDoctorNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutDoctorNestedInput
   encounter?: Prisma.DiagnosisUpdateManyWithoutDoctorNestedInput
   Prescription?: Prisma.PrescriptionUpdateManyWithoutDoctorNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutDoctorNestedInput
@@ -1218,7 +1318,11 @@ export type DoctorUncheckedUpdateWithoutUserInput = {
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutDoctorNestedInput
+  breaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutDoctorNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutDoctorNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutDoctorNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutDoctorNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutDoctorNestedInput
   encounter?: Prisma.DiagnosisUncheckedUpdateManyWithoutDoctorNestedInput
   Prescription?: Prisma.PrescriptionUncheckedUpdateManyWithoutDoctorNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutDoctorNestedInput
@@ -1252,7 +1356,11 @@ export type DoctorCreateWithoutClinicInput = {
   isDeleted?: boolean | null
   user?: Prisma.UserCreateNestedOneWithoutDoctorInput
   workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutDoctorInput
+  breaks?: Prisma.DoctorBreakCreateNestedManyWithoutDoctorInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutDoctorInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutDoctorInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutDoctorInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutDoctorInput
   encounter?: Prisma.DiagnosisCreateNestedManyWithoutDoctorInput
   Prescription?: Prisma.PrescriptionCreateNestedManyWithoutDoctorInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutDoctorInput
@@ -1286,7 +1394,11 @@ export type DoctorUncheckedCreateWithoutClinicInput = {
   deletedAt?: Date | string | null
   isDeleted?: boolean | null
   workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutDoctorInput
+  breaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutDoctorInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutDoctorInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutDoctorInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutDoctorInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutDoctorInput
   encounter?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutDoctorInput
   Prescription?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutDoctorInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutDoctorInput
@@ -1319,39 +1431,711 @@ export type DoctorUpdateManyWithWhereWithoutClinicInput = {
   data: Prisma.XOR<Prisma.DoctorUpdateManyMutationInput, Prisma.DoctorUncheckedUpdateManyWithoutClinicInput>
 }
 
-export type DoctorScalarWhereInput = {
-  AND?: Prisma.DoctorScalarWhereInput | Prisma.DoctorScalarWhereInput[]
-  OR?: Prisma.DoctorScalarWhereInput[]
-  NOT?: Prisma.DoctorScalarWhereInput | Prisma.DoctorScalarWhereInput[]
-  id?: Prisma.StringFilter<"Doctor"> | string
-  email?: Prisma.StringNullableFilter<"Doctor"> | string | null
-  name?: Prisma.StringFilter<"Doctor"> | string
-  userId?: Prisma.StringNullableFilter<"Doctor"> | string | null
-  clinicId?: Prisma.StringNullableFilter<"Doctor"> | string | null
-  specialty?: Prisma.StringFilter<"Doctor"> | string
-  licenseNumber?: Prisma.StringNullableFilter<"Doctor"> | string | null
-  phone?: Prisma.StringNullableFilter<"Doctor"> | string | null
-  address?: Prisma.StringNullableFilter<"Doctor"> | string | null
-  department?: Prisma.StringNullableFilter<"Doctor"> | string | null
-  img?: Prisma.StringNullableFilter<"Doctor"> | string | null
-  colorCode?: Prisma.StringNullableFilter<"Doctor"> | string | null
-  availabilityStatus?: Prisma.EnumAvailabilityStatusNullableFilter<"Doctor"> | $Enums.AvailabilityStatus | null
-  availableFromWeekDay?: Prisma.IntNullableFilter<"Doctor"> | number | null
-  availableToWeekDay?: Prisma.IntNullableFilter<"Doctor"> | number | null
-  isActive?: Prisma.BoolNullableFilter<"Doctor"> | boolean | null
-  status?: Prisma.EnumStatusNullableFilter<"Doctor"> | $Enums.Status | null
-  availableFromTime?: Prisma.StringNullableFilter<"Doctor"> | string | null
-  availableToTime?: Prisma.StringNullableFilter<"Doctor"> | string | null
-  type?: Prisma.EnumJOBTYPEFilter<"Doctor"> | $Enums.JOBTYPE
-  createdAt?: Prisma.DateTimeFilter<"Doctor"> | Date | string
-  updatedAt?: Prisma.DateTimeFilter<"Doctor"> | Date | string
-  appointmentPrice?: Prisma.DecimalFilter<"Doctor"> | runtime.Decimal | runtime.DecimalJsLike | number | string
-  role?: Prisma.EnumUserRoleNullableFilter<"Doctor"> | $Enums.UserRole | null
-  deletedAt?: Prisma.DateTimeNullableFilter<"Doctor"> | Date | string | null
-  isDeleted?: Prisma.BoolNullableFilter<"Doctor"> | boolean | null
+export type DoctorScalarWhereInput = {
+  AND?: Prisma.DoctorScalarWhereInput | Prisma.DoctorScalarWhereInput[]
+  OR?: Prisma.DoctorScalarWhereInput[]
+  NOT?: Prisma.DoctorScalarWhereInput | Prisma.DoctorScalarWhereInput[]
+  id?: Prisma.StringFilter<"Doctor"> | string
+  email?: Prisma.StringNullableFilter<"Doctor"> | string | null
+  name?: Prisma.StringFilter<"Doctor"> | string
+  userId?: Prisma.StringNullableFilter<"Doctor"> | string | null
+  clinicId?: Prisma.StringNullableFilter<"Doctor"> | string | null
+  specialty?: Prisma.StringFilter<"Doctor"> | string
+  licenseNumber?: Prisma.StringNullableFilter<"Doctor"> | string | null
+  phone?: Prisma.StringNullableFilter<"Doctor"> | string | null
+  address?: Prisma.StringNullableFilter<"Doctor"> | string | null
+  department?: Prisma.StringNullableFilter<"Doctor"> | string | null
+  img?: Prisma.StringNullableFilter<"Doctor"> | string | null
+  colorCode?: Prisma.StringNullableFilter<"Doctor"> | string | null
+  availabilityStatus?: Prisma.EnumAvailabilityStatusNullableFilter<"Doctor"> | $Enums.AvailabilityStatus | null
+  availableFromWeekDay?: Prisma.IntNullableFilter<"Doctor"> | number | null
+  availableToWeekDay?: Prisma.IntNullableFilter<"Doctor"> | number | null
+  isActive?: Prisma.BoolNullableFilter<"Doctor"> | boolean | null
+  status?: Prisma.EnumStatusNullableFilter<"Doctor"> | $Enums.Status | null
+  availableFromTime?: Prisma.StringNullableFilter<"Doctor"> | string | null
+  availableToTime?: Prisma.StringNullableFilter<"Doctor"> | string | null
+  type?: Prisma.EnumJOBTYPEFilter<"Doctor"> | $Enums.JOBTYPE
+  createdAt?: Prisma.DateTimeFilter<"Doctor"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Doctor"> | Date | string
+  appointmentPrice?: Prisma.DecimalFilter<"Doctor"> | runtime.Decimal | runtime.DecimalJsLike | number | string
+  role?: Prisma.EnumUserRoleNullableFilter<"Doctor"> | $Enums.UserRole | null
+  deletedAt?: Prisma.DateTimeNullableFilter<"Doctor"> | Date | string | null
+  isDeleted?: Prisma.BoolNullableFilter<"Doctor"> | boolean | null
+}
+
+export type DoctorCreateWithoutWorkingDaysInput = {
+  id?: string
+  email?: string | null
+  name: string
+  specialty: string
+  licenseNumber?: string | null
+  phone?: string | null
+  address?: string | null
+  department?: string | null
+  img?: string | null
+  colorCode?: string | null
+  availabilityStatus?: $Enums.AvailabilityStatus | null
+  availableFromWeekDay?: number | null
+  availableToWeekDay?: number | null
+  isActive?: boolean | null
+  status?: $Enums.Status | null
+  availableFromTime?: string | null
+  availableToTime?: string | null
+  type?: $Enums.JOBTYPE
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  appointmentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  role?: $Enums.UserRole | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  user?: Prisma.UserCreateNestedOneWithoutDoctorInput
+  clinic?: Prisma.ClinicCreateNestedOneWithoutDoctorsInput
+  breaks?: Prisma.DoctorBreakCreateNestedManyWithoutDoctorInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutDoctorInput
+  appointments?: Prisma.AppointmentCreateNestedManyWithoutDoctorInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutDoctorInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutDoctorInput
+  encounter?: Prisma.DiagnosisCreateNestedManyWithoutDoctorInput
+  Prescription?: Prisma.PrescriptionCreateNestedManyWithoutDoctorInput
+  medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutDoctorInput
+  ratings?: Prisma.RatingCreateNestedManyWithoutDoctorInput
+}
+
+export type DoctorUncheckedCreateWithoutWorkingDaysInput = {
+  id?: string
+  email?: string | null
+  name: string
+  userId?: string | null
+  clinicId?: string | null
+  specialty: string
+  licenseNumber?: string | null
+  phone?: string | null
+  address?: string | null
+  department?: string | null
+  img?: string | null
+  colorCode?: string | null
+  availabilityStatus?: $Enums.AvailabilityStatus | null
+  availableFromWeekDay?: number | null
+  availableToWeekDay?: number | null
+  isActive?: boolean | null
+  status?: $Enums.Status | null
+  availableFromTime?: string | null
+  availableToTime?: string | null
+  type?: $Enums.JOBTYPE
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  appointmentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  role?: $Enums.UserRole | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  breaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutDoctorInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutDoctorInput
+  appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutDoctorInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutDoctorInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutDoctorInput
+  encounter?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutDoctorInput
+  Prescription?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutDoctorInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutDoctorInput
+  ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutDoctorInput
+}
+
+export type DoctorCreateOrConnectWithoutWorkingDaysInput = {
+  where: Prisma.DoctorWhereUniqueInput
+  create: Prisma.XOR<Prisma.DoctorCreateWithoutWorkingDaysInput, Prisma.DoctorUncheckedCreateWithoutWorkingDaysInput>
+}
+
+export type DoctorUpsertWithoutWorkingDaysInput = {
+  update: Prisma.XOR<Prisma.DoctorUpdateWithoutWorkingDaysInput, Prisma.DoctorUncheckedUpdateWithoutWorkingDaysInput>
+  create: Prisma.XOR<Prisma.DoctorCreateWithoutWorkingDaysInput, Prisma.DoctorUncheckedCreateWithoutWorkingDaysInput>
+  where?: Prisma.DoctorWhereInput
+}
+
+export type DoctorUpdateToOneWithWhereWithoutWorkingDaysInput = {
+  where?: Prisma.DoctorWhereInput
+  data: Prisma.XOR<Prisma.DoctorUpdateWithoutWorkingDaysInput, Prisma.DoctorUncheckedUpdateWithoutWorkingDaysInput>
+}
+
+export type DoctorUpdateWithoutWorkingDaysInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  specialty?: Prisma.StringFieldUpdateOperationsInput | string
+  licenseNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  department?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  img?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  colorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  availabilityStatus?: Prisma.NullableEnumAvailabilityStatusFieldUpdateOperationsInput | $Enums.AvailabilityStatus | null
+  availableFromWeekDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  availableToWeekDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isActive?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  status?: Prisma.NullableEnumStatusFieldUpdateOperationsInput | $Enums.Status | null
+  availableFromTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  availableToTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumJOBTYPEFieldUpdateOperationsInput | $Enums.JOBTYPE
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  appointmentPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  role?: Prisma.NullableEnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  user?: Prisma.UserUpdateOneWithoutDoctorNestedInput
+  clinic?: Prisma.ClinicUpdateOneWithoutDoctorsNestedInput
+  breaks?: Prisma.DoctorBreakUpdateManyWithoutDoctorNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutDoctorNestedInput
+  appointments?: Prisma.AppointmentUpdateManyWithoutDoctorNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutDoctorNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutDoctorNestedInput
+  encounter?: Prisma.DiagnosisUpdateManyWithoutDoctorNestedInput
+  Prescription?: Prisma.PrescriptionUpdateManyWithoutDoctorNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutDoctorNestedInput
+  ratings?: Prisma.RatingUpdateManyWithoutDoctorNestedInput
+}
+
+export type DoctorUncheckedUpdateWithoutWorkingDaysInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  clinicId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  specialty?: Prisma.StringFieldUpdateOperationsInput | string
+  licenseNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  department?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  img?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  colorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  availabilityStatus?: Prisma.NullableEnumAvailabilityStatusFieldUpdateOperationsInput | $Enums.AvailabilityStatus | null
+  availableFromWeekDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  availableToWeekDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isActive?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  status?: Prisma.NullableEnumStatusFieldUpdateOperationsInput | $Enums.Status | null
+  availableFromTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  availableToTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumJOBTYPEFieldUpdateOperationsInput | $Enums.JOBTYPE
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  appointmentPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  role?: Prisma.NullableEnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  breaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutDoctorNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutDoctorNestedInput
+  appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutDoctorNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutDoctorNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutDoctorNestedInput
+  encounter?: Prisma.DiagnosisUncheckedUpdateManyWithoutDoctorNestedInput
+  Prescription?: Prisma.PrescriptionUncheckedUpdateManyWithoutDoctorNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutDoctorNestedInput
+  ratings?: Prisma.RatingUncheckedUpdateManyWithoutDoctorNestedInput
+}
+
+export type DoctorCreateWithoutBreaksInput = {
+  id?: string
+  email?: string | null
+  name: string
+  specialty: string
+  licenseNumber?: string | null
+  phone?: string | null
+  address?: string | null
+  department?: string | null
+  img?: string | null
+  colorCode?: string | null
+  availabilityStatus?: $Enums.AvailabilityStatus | null
+  availableFromWeekDay?: number | null
+  availableToWeekDay?: number | null
+  isActive?: boolean | null
+  status?: $Enums.Status | null
+  availableFromTime?: string | null
+  availableToTime?: string | null
+  type?: $Enums.JOBTYPE
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  appointmentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  role?: $Enums.UserRole | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  user?: Prisma.UserCreateNestedOneWithoutDoctorInput
+  clinic?: Prisma.ClinicCreateNestedOneWithoutDoctorsInput
+  workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutDoctorInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutDoctorInput
+  appointments?: Prisma.AppointmentCreateNestedManyWithoutDoctorInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutDoctorInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutDoctorInput
+  encounter?: Prisma.DiagnosisCreateNestedManyWithoutDoctorInput
+  Prescription?: Prisma.PrescriptionCreateNestedManyWithoutDoctorInput
+  medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutDoctorInput
+  ratings?: Prisma.RatingCreateNestedManyWithoutDoctorInput
+}
+
+export type DoctorUncheckedCreateWithoutBreaksInput = {
+  id?: string
+  email?: string | null
+  name: string
+  userId?: string | null
+  clinicId?: string | null
+  specialty: string
+  licenseNumber?: string | null
+  phone?: string | null
+  address?: string | null
+  department?: string | null
+  img?: string | null
+  colorCode?: string | null
+  availabilityStatus?: $Enums.AvailabilityStatus | null
+  availableFromWeekDay?: number | null
+  availableToWeekDay?: number | null
+  isActive?: boolean | null
+  status?: $Enums.Status | null
+  availableFromTime?: string | null
+  availableToTime?: string | null
+  type?: $Enums.JOBTYPE
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  appointmentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  role?: $Enums.UserRole | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutDoctorInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutDoctorInput
+  appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutDoctorInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutDoctorInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutDoctorInput
+  encounter?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutDoctorInput
+  Prescription?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutDoctorInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutDoctorInput
+  ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutDoctorInput
+}
+
+export type DoctorCreateOrConnectWithoutBreaksInput = {
+  where: Prisma.DoctorWhereUniqueInput
+  create: Prisma.XOR<Prisma.DoctorCreateWithoutBreaksInput, Prisma.DoctorUncheckedCreateWithoutBreaksInput>
+}
+
+export type DoctorUpsertWithoutBreaksInput = {
+  update: Prisma.XOR<Prisma.DoctorUpdateWithoutBreaksInput, Prisma.DoctorUncheckedUpdateWithoutBreaksInput>
+  create: Prisma.XOR<Prisma.DoctorCreateWithoutBreaksInput, Prisma.DoctorUncheckedCreateWithoutBreaksInput>
+  where?: Prisma.DoctorWhereInput
+}
+
+export type DoctorUpdateToOneWithWhereWithoutBreaksInput = {
+  where?: Prisma.DoctorWhereInput
+  data: Prisma.XOR<Prisma.DoctorUpdateWithoutBreaksInput, Prisma.DoctorUncheckedUpdateWithoutBreaksInput>
+}
+
+export type DoctorUpdateWithoutBreaksInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  specialty?: Prisma.StringFieldUpdateOperationsInput | string
+  licenseNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  department?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  img?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  colorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  availabilityStatus?: Prisma.NullableEnumAvailabilityStatusFieldUpdateOperationsInput | $Enums.AvailabilityStatus | null
+  availableFromWeekDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  availableToWeekDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isActive?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  status?: Prisma.NullableEnumStatusFieldUpdateOperationsInput | $Enums.Status | null
+  availableFromTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  availableToTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumJOBTYPEFieldUpdateOperationsInput | $Enums.JOBTYPE
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  appointmentPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  role?: Prisma.NullableEnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  user?: Prisma.UserUpdateOneWithoutDoctorNestedInput
+  clinic?: Prisma.ClinicUpdateOneWithoutDoctorsNestedInput
+  workingDays?: Prisma.WorkingDaysUpdateManyWithoutDoctorNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutDoctorNestedInput
+  appointments?: Prisma.AppointmentUpdateManyWithoutDoctorNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutDoctorNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutDoctorNestedInput
+  encounter?: Prisma.DiagnosisUpdateManyWithoutDoctorNestedInput
+  Prescription?: Prisma.PrescriptionUpdateManyWithoutDoctorNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutDoctorNestedInput
+  ratings?: Prisma.RatingUpdateManyWithoutDoctorNestedInput
+}
+
+export type DoctorUncheckedUpdateWithoutBreaksInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  clinicId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  specialty?: Prisma.StringFieldUpdateOperationsInput | string
+  licenseNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  department?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  img?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  colorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  availabilityStatus?: Prisma.NullableEnumAvailabilityStatusFieldUpdateOperationsInput | $Enums.AvailabilityStatus | null
+  availableFromWeekDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  availableToWeekDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isActive?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  status?: Prisma.NullableEnumStatusFieldUpdateOperationsInput | $Enums.Status | null
+  availableFromTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  availableToTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumJOBTYPEFieldUpdateOperationsInput | $Enums.JOBTYPE
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  appointmentPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  role?: Prisma.NullableEnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutDoctorNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutDoctorNestedInput
+  appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutDoctorNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutDoctorNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutDoctorNestedInput
+  encounter?: Prisma.DiagnosisUncheckedUpdateManyWithoutDoctorNestedInput
+  Prescription?: Prisma.PrescriptionUncheckedUpdateManyWithoutDoctorNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutDoctorNestedInput
+  ratings?: Prisma.RatingUncheckedUpdateManyWithoutDoctorNestedInput
+}
+
+export type DoctorCreateWithoutScheduleExceptionsInput = {
+  id?: string
+  email?: string | null
+  name: string
+  specialty: string
+  licenseNumber?: string | null
+  phone?: string | null
+  address?: string | null
+  department?: string | null
+  img?: string | null
+  colorCode?: string | null
+  availabilityStatus?: $Enums.AvailabilityStatus | null
+  availableFromWeekDay?: number | null
+  availableToWeekDay?: number | null
+  isActive?: boolean | null
+  status?: $Enums.Status | null
+  availableFromTime?: string | null
+  availableToTime?: string | null
+  type?: $Enums.JOBTYPE
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  appointmentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  role?: $Enums.UserRole | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  user?: Prisma.UserCreateNestedOneWithoutDoctorInput
+  clinic?: Prisma.ClinicCreateNestedOneWithoutDoctorsInput
+  workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutDoctorInput
+  breaks?: Prisma.DoctorBreakCreateNestedManyWithoutDoctorInput
+  appointments?: Prisma.AppointmentCreateNestedManyWithoutDoctorInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutDoctorInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutDoctorInput
+  encounter?: Prisma.DiagnosisCreateNestedManyWithoutDoctorInput
+  Prescription?: Prisma.PrescriptionCreateNestedManyWithoutDoctorInput
+  medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutDoctorInput
+  ratings?: Prisma.RatingCreateNestedManyWithoutDoctorInput
+}
+
+export type DoctorUncheckedCreateWithoutScheduleExceptionsInput = {
+  id?: string
+  email?: string | null
+  name: string
+  userId?: string | null
+  clinicId?: string | null
+  specialty: string
+  licenseNumber?: string | null
+  phone?: string | null
+  address?: string | null
+  department?: string | null
+  img?: string | null
+  colorCode?: string | null
+  availabilityStatus?: $Enums.AvailabilityStatus | null
+  availableFromWeekDay?: number | null
+  availableToWeekDay?: number | null
+  isActive?: boolean | null
+  status?: $Enums.Status | null
+  availableFromTime?: string | null
+  availableToTime?: string | null
+  type?: $Enums.JOBTYPE
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  appointmentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  role?: $Enums.UserRole | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutDoctorInput
+  breaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutDoctorInput
+  appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutDoctorInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutDoctorInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutDoctorInput
+  encounter?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutDoctorInput
+  Prescription?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutDoctorInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutDoctorInput
+  ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutDoctorInput
+}
+
+export type DoctorCreateOrConnectWithoutScheduleExceptionsInput = {
+  where: Prisma.DoctorWhereUniqueInput
+  create: Prisma.XOR<Prisma.DoctorCreateWithoutScheduleExceptionsInput, Prisma.DoctorUncheckedCreateWithoutScheduleExceptionsInput>
+}
+
+export type DoctorUpsertWithoutScheduleExceptionsInput = {
+  update: Prisma.XOR<Prisma.DoctorUpdateWithoutScheduleExceptionsInput, Prisma.DoctorUncheckedUpdateWithoutScheduleExceptionsInput>
+  create: Prisma.XOR<Prisma.DoctorCreateWithoutScheduleExceptionsInput, Prisma.DoctorUncheckedCreateWithoutScheduleExceptionsInput>
+  where?: Prisma.DoctorWhereInput
+}
+
+export type DoctorUpdateToOneWithWhereWithoutScheduleExceptionsInput = {
+  where?: Prisma.DoctorWhereInput
+  data: Prisma.XOR<Prisma.DoctorUpdateWithoutScheduleExceptionsInput, Prisma.DoctorUncheckedUpdateWithoutScheduleExceptionsInput>
+}
+
+export type DoctorUpdateWithoutScheduleExceptionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  specialty?: Prisma.StringFieldUpdateOperationsInput | string
+  licenseNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  department?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  img?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  colorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  availabilityStatus?: Prisma.NullableEnumAvailabilityStatusFieldUpdateOperationsInput | $Enums.AvailabilityStatus | null
+  availableFromWeekDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  availableToWeekDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isActive?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  status?: Prisma.NullableEnumStatusFieldUpdateOperationsInput | $Enums.Status | null
+  availableFromTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  availableToTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumJOBTYPEFieldUpdateOperationsInput | $Enums.JOBTYPE
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  appointmentPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  role?: Prisma.NullableEnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  user?: Prisma.UserUpdateOneWithoutDoctorNestedInput
+  clinic?: Prisma.ClinicUpdateOneWithoutDoctorsNestedInput
+  workingDays?: Prisma.WorkingDaysUpdateManyWithoutDoctorNestedInput
+  breaks?: Prisma.DoctorBreakUpdateManyWithoutDoctorNestedInput
+  appointments?: Prisma.AppointmentUpdateManyWithoutDoctorNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutDoctorNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutDoctorNestedInput
+  encounter?: Prisma.DiagnosisUpdateManyWithoutDoctorNestedInput
+  Prescription?: Prisma.PrescriptionUpdateManyWithoutDoctorNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutDoctorNestedInput
+  ratings?: Prisma.RatingUpdateManyWithoutDoctorNestedInput
+}
+
+export type DoctorUncheckedUpdateWithoutScheduleExceptionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  clinicId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  specialty?: Prisma.StringFieldUpdateOperationsInput | string
+  licenseNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  department?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  img?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  colorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  availabilityStatus?: Prisma.NullableEnumAvailabilityStatusFieldUpdateOperationsInput | $Enums.AvailabilityStatus | null
+  availableFromWeekDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  availableToWeekDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isActive?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  status?: Prisma.NullableEnumStatusFieldUpdateOperationsInput | $Enums.Status | null
+  availableFromTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  availableToTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumJOBTYPEFieldUpdateOperationsInput | $Enums.JOBTYPE
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  appointmentPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  role?: Prisma.NullableEnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutDoctorNestedInput
+  breaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutDoctorNestedInput
+  appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutDoctorNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutDoctorNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutDoctorNestedInput
+  encounter?: Prisma.DiagnosisUncheckedUpdateManyWithoutDoctorNestedInput
+  Prescription?: Prisma.PrescriptionUncheckedUpdateManyWithoutDoctorNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutDoctorNestedInput
+  ratings?: Prisma.RatingUncheckedUpdateManyWithoutDoctorNestedInput
+}
+
+export type DoctorCreateWithoutRatingsInput = {
+  id?: string
+  email?: string | null
+  name: string
+  specialty: string
+  licenseNumber?: string | null
+  phone?: string | null
+  address?: string | null
+  department?: string | null
+  img?: string | null
+  colorCode?: string | null
+  availabilityStatus?: $Enums.AvailabilityStatus | null
+  availableFromWeekDay?: number | null
+  availableToWeekDay?: number | null
+  isActive?: boolean | null
+  status?: $Enums.Status | null
+  availableFromTime?: string | null
+  availableToTime?: string | null
+  type?: $Enums.JOBTYPE
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  appointmentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  role?: $Enums.UserRole | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  user?: Prisma.UserCreateNestedOneWithoutDoctorInput
+  clinic?: Prisma.ClinicCreateNestedOneWithoutDoctorsInput
+  workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutDoctorInput
+  breaks?: Prisma.DoctorBreakCreateNestedManyWithoutDoctorInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutDoctorInput
+  appointments?: Prisma.AppointmentCreateNestedManyWithoutDoctorInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutDoctorInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutDoctorInput
+  encounter?: Prisma.DiagnosisCreateNestedManyWithoutDoctorInput
+  Prescription?: Prisma.PrescriptionCreateNestedManyWithoutDoctorInput
+  medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutDoctorInput
+}
+
+export type DoctorUncheckedCreateWithoutRatingsInput = {
+  id?: string
+  email?: string | null
+  name: string
+  userId?: string | null
+  clinicId?: string | null
+  specialty: string
+  licenseNumber?: string | null
+  phone?: string | null
+  address?: string | null
+  department?: string | null
+  img?: string | null
+  colorCode?: string | null
+  availabilityStatus?: $Enums.AvailabilityStatus | null
+  availableFromWeekDay?: number | null
+  availableToWeekDay?: number | null
+  isActive?: boolean | null
+  status?: $Enums.Status | null
+  availableFromTime?: string | null
+  availableToTime?: string | null
+  type?: $Enums.JOBTYPE
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  appointmentPrice: runtime.Decimal | runtime.DecimalJsLike | number | string
+  role?: $Enums.UserRole | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutDoctorInput
+  breaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutDoctorInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutDoctorInput
+  appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutDoctorInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutDoctorInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutDoctorInput
+  encounter?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutDoctorInput
+  Prescription?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutDoctorInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutDoctorInput
+}
+
+export type DoctorCreateOrConnectWithoutRatingsInput = {
+  where: Prisma.DoctorWhereUniqueInput
+  create: Prisma.XOR<Prisma.DoctorCreateWithoutRatingsInput, Prisma.DoctorUncheckedCreateWithoutRatingsInput>
+}
+
+export type DoctorUpsertWithoutRatingsInput = {
+  update: Prisma.XOR<Prisma.DoctorUpdateWithoutRatingsInput, Prisma.DoctorUncheckedUpdateWithoutRatingsInput>
+  create: Prisma.XOR<Prisma.DoctorCreateWithoutRatingsInput, Prisma.DoctorUncheckedCreateWithoutRatingsInput>
+  where?: Prisma.DoctorWhereInput
+}
+
+export type DoctorUpdateToOneWithWhereWithoutRatingsInput = {
+  where?: Prisma.DoctorWhereInput
+  data: Prisma.XOR<Prisma.DoctorUpdateWithoutRatingsInput, Prisma.DoctorUncheckedUpdateWithoutRatingsInput>
+}
+
+export type DoctorUpdateWithoutRatingsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  specialty?: Prisma.StringFieldUpdateOperationsInput | string
+  licenseNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  department?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  img?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  colorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  availabilityStatus?: Prisma.NullableEnumAvailabilityStatusFieldUpdateOperationsInput | $Enums.AvailabilityStatus | null
+  availableFromWeekDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  availableToWeekDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isActive?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  status?: Prisma.NullableEnumStatusFieldUpdateOperationsInput | $Enums.Status | null
+  availableFromTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  availableToTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumJOBTYPEFieldUpdateOperationsInput | $Enums.JOBTYPE
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  appointmentPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  role?: Prisma.NullableEnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  user?: Prisma.UserUpdateOneWithoutDoctorNestedInput
+  clinic?: Prisma.ClinicUpdateOneWithoutDoctorsNestedInput
+  workingDays?: Prisma.WorkingDaysUpdateManyWithoutDoctorNestedInput
+  breaks?: Prisma.DoctorBreakUpdateManyWithoutDoctorNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutDoctorNestedInput
+  appointments?: Prisma.AppointmentUpdateManyWithoutDoctorNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutDoctorNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutDoctorNestedInput
+  encounter?: Prisma.DiagnosisUpdateManyWithoutDoctorNestedInput
+  Prescription?: Prisma.PrescriptionUpdateManyWithoutDoctorNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutDoctorNestedInput
+}
+
+export type DoctorUncheckedUpdateWithoutRatingsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  clinicId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  specialty?: Prisma.StringFieldUpdateOperationsInput | string
+  licenseNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  department?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  img?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  colorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  availabilityStatus?: Prisma.NullableEnumAvailabilityStatusFieldUpdateOperationsInput | $Enums.AvailabilityStatus | null
+  availableFromWeekDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  availableToWeekDay?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isActive?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  status?: Prisma.NullableEnumStatusFieldUpdateOperationsInput | $Enums.Status | null
+  availableFromTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  availableToTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumJOBTYPEFieldUpdateOperationsInput | $Enums.JOBTYPE
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  appointmentPrice?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  role?: Prisma.NullableEnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutDoctorNestedInput
+  breaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutDoctorNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutDoctorNestedInput
+  appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutDoctorNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutDoctorNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutDoctorNestedInput
+  encounter?: Prisma.DiagnosisUncheckedUpdateManyWithoutDoctorNestedInput
+  Prescription?: Prisma.PrescriptionUncheckedUpdateManyWithoutDoctorNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutDoctorNestedInput
 }
 
-export type DoctorCreateWithoutWorkingDaysInput = {
+export type DoctorCreateWithoutPrescriptionInput = {
   id?: string
   email?: string | null
   name: string
@@ -1378,14 +2162,18 @@ export type DoctorCreateWithoutWorkingDaysInput = {
   isDeleted?: boolean | null
   user?: Prisma.UserCreateNestedOneWithoutDoctorInput
   clinic?: Prisma.ClinicCreateNestedOneWithoutDoctorsInput
+  workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutDoctorInput
+  breaks?: Prisma.DoctorBreakCreateNestedManyWithoutDoctorInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutDoctorInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutDoctorInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutDoctorInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutDoctorInput
   encounter?: Prisma.DiagnosisCreateNestedManyWithoutDoctorInput
-  Prescription?: Prisma.PrescriptionCreateNestedManyWithoutDoctorInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutDoctorInput
   ratings?: Prisma.RatingCreateNestedManyWithoutDoctorInput
 }
 
-export type DoctorUncheckedCreateWithoutWorkingDaysInput = {
+export type DoctorUncheckedCreateWithoutPrescriptionInput = {
   id?: string
   email?: string | null
   name: string
@@ -1412,30 +2200,34 @@ export type DoctorUncheckedCreateWithoutWorkingDaysInput = {
   role?: $Enums.UserRole | null
   deletedAt?: Date | string | null
   isDeleted?: boolean | null
+  workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutDoctorInput
+  breaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutDoctorInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutDoctorInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutDoctorInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutDoctorInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutDoctorInput
   encounter?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutDoctorInput
-  Prescription?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutDoctorInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutDoctorInput
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutDoctorInput
 }
 
-export type DoctorCreateOrConnectWithoutWorkingDaysInput = {
+export type DoctorCreateOrConnectWithoutPrescriptionInput = {
   where: Prisma.DoctorWhereUniqueInput
-  create: Prisma.XOR<Prisma.DoctorCreateWithoutWorkingDaysInput, Prisma.DoctorUncheckedCreateWithoutWorkingDaysInput>
+  create: Prisma.XOR<Prisma.DoctorCreateWithoutPrescriptionInput, Prisma.DoctorUncheckedCreateWithoutPrescriptionInput>
 }
 
-export type DoctorUpsertWithoutWorkingDaysInput = {
-  update: Prisma.XOR<Prisma.DoctorUpdateWithoutWorkingDaysInput, Prisma.DoctorUncheckedUpdateWithoutWorkingDaysInput>
-  create: Prisma.XOR<Prisma.DoctorCreateWithoutWorkingDaysInput, Prisma.DoctorUncheckedCreateWithoutWorkingDaysInput>
+export type DoctorUpsertWithoutPrescriptionInput = {
+  update: Prisma.XOR<Prisma.DoctorUpdateWithoutPrescriptionInput, Prisma.DoctorUncheckedUpdateWithoutPrescriptionInput>
+  create: Prisma.XOR<Prisma.DoctorCreateWithoutPrescriptionInput, Prisma.DoctorUncheckedCreateWithoutPrescriptionInput>
   where?: Prisma.DoctorWhereInput
 }
 
-export type DoctorUpdateToOneWithWhereWithoutWorkingDaysInput = {
+export type DoctorUpdateToOneWithWhereWithoutPrescriptionInput = {
   where?: Prisma.DoctorWhereInput
-  data: Prisma.XOR<Prisma.DoctorUpdateWithoutWorkingDaysInput, Prisma.DoctorUncheckedUpdateWithoutWorkingDaysInput>
+  data: Prisma.XOR<Prisma.DoctorUpdateWithoutPrescriptionInput, Prisma.DoctorUncheckedUpdateWithoutPrescriptionInput>
 }
 
-export type DoctorUpdateWithoutWorkingDaysInput = {
+export type DoctorUpdateWithoutPrescriptionInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -1462,14 +2254,18 @@ export type DoctorUpdateWithoutWorkingDaysInput = {
   isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   user?: Prisma.UserUpdateOneWithoutDoctorNestedInput
   clinic?: Prisma.ClinicUpdateOneWithoutDoctorsNestedInput
+  workingDays?: Prisma.WorkingDaysUpdateManyWithoutDoctorNestedInput
+  breaks?: Prisma.DoctorBreakUpdateManyWithoutDoctorNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutDoctorNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutDoctorNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutDoctorNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutDoctorNestedInput
   encounter?: Prisma.DiagnosisUpdateManyWithoutDoctorNestedInput
-  Prescription?: Prisma.PrescriptionUpdateManyWithoutDoctorNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutDoctorNestedInput
   ratings?: Prisma.RatingUpdateManyWithoutDoctorNestedInput
 }
 
-export type DoctorUncheckedUpdateWithoutWorkingDaysInput = {
+export type DoctorUncheckedUpdateWithoutPrescriptionInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -1496,14 +2292,18 @@ export type DoctorUncheckedUpdateWithoutWorkingDaysInput = {
   role?: Prisma.NullableEnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole | null
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutDoctorNestedInput
+  breaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutDoctorNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutDoctorNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutDoctorNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutDoctorNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutDoctorNestedInput
   encounter?: Prisma.DiagnosisUncheckedUpdateManyWithoutDoctorNestedInput
-  Prescription?: Prisma.PrescriptionUncheckedUpdateManyWithoutDoctorNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutDoctorNestedInput
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutDoctorNestedInput
 }
 
-export type DoctorCreateWithoutRatingsInput = {
+export type DoctorCreateWithoutAppointmentsInput = {
   id?: string
   email?: string | null
   name: string
@@ -1531,13 +2331,17 @@ export type DoctorCreateWithoutRatingsInput = {
   user?: Prisma.UserCreateNestedOneWithoutDoctorInput
   clinic?: Prisma.ClinicCreateNestedOneWithoutDoctorsInput
   workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutDoctorInput
-  appointments?: Prisma.AppointmentCreateNestedManyWithoutDoctorInput
+  breaks?: Prisma.DoctorBreakCreateNestedManyWithoutDoctorInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutDoctorInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutDoctorInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutDoctorInput
   encounter?: Prisma.DiagnosisCreateNestedManyWithoutDoctorInput
   Prescription?: Prisma.PrescriptionCreateNestedManyWithoutDoctorInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutDoctorInput
+  ratings?: Prisma.RatingCreateNestedManyWithoutDoctorInput
 }
 
-export type DoctorUncheckedCreateWithoutRatingsInput = {
+export type DoctorUncheckedCreateWithoutAppointmentsInput = {
   id?: string
   email?: string | null
   name: string
@@ -1565,29 +2369,33 @@ export type DoctorUncheckedCreateWithoutRatingsInput = {
   deletedAt?: Date | string | null
   isDeleted?: boolean | null
   workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutDoctorInput
-  appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutDoctorInput
+  breaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutDoctorInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutDoctorInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutDoctorInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutDoctorInput
   encounter?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutDoctorInput
   Prescription?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutDoctorInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutDoctorInput
+  ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutDoctorInput
 }
 
-export type DoctorCreateOrConnectWithoutRatingsInput = {
+export type DoctorCreateOrConnectWithoutAppointmentsInput = {
   where: Prisma.DoctorWhereUniqueInput
-  create: Prisma.XOR<Prisma.DoctorCreateWithoutRatingsInput, Prisma.DoctorUncheckedCreateWithoutRatingsInput>
+  create: Prisma.XOR<Prisma.DoctorCreateWithoutAppointmentsInput, Prisma.DoctorUncheckedCreateWithoutAppointmentsInput>
 }
 
-export type DoctorUpsertWithoutRatingsInput = {
-  update: Prisma.XOR<Prisma.DoctorUpdateWithoutRatingsInput, Prisma.DoctorUncheckedUpdateWithoutRatingsInput>
-  create: Prisma.XOR<Prisma.DoctorCreateWithoutRatingsInput, Prisma.DoctorUncheckedCreateWithoutRatingsInput>
+export type DoctorUpsertWithoutAppointmentsInput = {
+  update: Prisma.XOR<Prisma.DoctorUpdateWithoutAppointmentsInput, Prisma.DoctorUncheckedUpdateWithoutAppointmentsInput>
+  create: Prisma.XOR<Prisma.DoctorCreateWithoutAppointmentsInput, Prisma.DoctorUncheckedCreateWithoutAppointmentsInput>
   where?: Prisma.DoctorWhereInput
 }
 
-export type DoctorUpdateToOneWithWhereWithoutRatingsInput = {
+export type DoctorUpdateToOneWithWhereWithoutAppointmentsInput = {
   where?: Prisma.DoctorWhereInput
-  data: Prisma.XOR<Prisma.DoctorUpdateWithoutRatingsInput, Prisma.DoctorUncheckedUpdateWithoutRatingsInput>
+  data: Prisma.XOR<Prisma.DoctorUpdateWithoutAppointmentsInput, Prisma.DoctorUncheckedUpdateWithoutAppointmentsInput>
 }
 
-export type DoctorUpdateWithoutRatingsInput = {
+export type DoctorUpdateWithoutAppointmentsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -1615,13 +2423,17 @@ export type DoctorUpdateWithoutRatingsInput = {
   user?: Prisma.UserUpdateOneWithoutDoctorNestedInput
   clinic?: Prisma.ClinicUpdateOneWithoutDoctorsNestedInput
   workingDays?: Prisma.WorkingDaysUpdateManyWithoutDoctorNestedInput
-  appointments?: Prisma.AppointmentUpdateManyWithoutDoctorNestedInput
+  breaks?: Prisma.DoctorBreakUpdateManyWithoutDoctorNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutDoctorNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutDoctorNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutDoctorNestedInput
   encounter?: Prisma.DiagnosisUpdateManyWithoutDoctorNestedInput
   Prescription?: Prisma.PrescriptionUpdateManyWithoutDoctorNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutDoctorNestedInput
+  ratings?: Prisma.RatingUpdateManyWithoutDoctorNestedInput
 }
 
-export type DoctorUncheckedUpdateWithoutRatingsInput = {
+export type DoctorUncheckedUpdateWithoutAppointmentsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -1649,13 +2461,17 @@ export type DoctorUncheckedUpdateWithoutRatingsInput = {
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutDoctorNestedInput
-  appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutDoctorNestedInput
+  breaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutDoctorNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutDoctorNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutDoctorNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutDoctorNestedInput
   encounter?: Prisma.DiagnosisUncheckedUpdateManyWithoutDoctorNestedInput
   Prescription?: Prisma.PrescriptionUncheckedUpdateManyWithoutDoctorNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutDoctorNestedInput
+  ratings?: Prisma.RatingUncheckedUpdateManyWithoutDoctorNestedInput
 }
 
-export type DoctorCreateWithoutPrescriptionInput = {
+export type DoctorCreateWithoutAppointmentSeriesInput = {
   id?: string
   email?: string | null
   name: string
@@ -1683,13 +2499,17 @@ export type DoctorCreateWithoutPrescriptionInput = {
   user?: Prisma.UserCreateNestedOneWithoutDoctorInput
   clinic?: Prisma.ClinicCreateNestedOneWithoutDoctorsInput
   workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutDoctorInput
+  breaks?: Prisma.DoctorBreakCreateNestedManyWithoutDoctorInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutDoctorInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutDoctorInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutDoctorInput
   encounter?: Prisma.DiagnosisCreateNestedManyWithoutDoctorInput
+  Prescription?: Prisma.PrescriptionCreateNestedManyWithoutDoctorInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutDoctorInput
   ratings?: Prisma.RatingCreateNestedManyWithoutDoctorInput
 }
 
-export type DoctorUncheckedCreateWithoutPrescriptionInput = {
+export type DoctorUncheckedCreateWithoutAppointmentSeriesInput = {
   id?: string
   email?: string | null
   name: string
@@ -1717,29 +2537,33 @@ export type DoctorUncheckedCreateWithoutPrescriptionInput = {
   deletedAt?: Date | string | null
   isDeleted?: boolean | null
   workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutDoctorInput
+  breaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutDoctorInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutDoctorInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutDoctorInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutDoctorInput
   encounter?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutDoctorInput
+  Prescription?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutDoctorInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutDoctorInput
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutDoctorInput
 }
 
-export type DoctorCreateOrConnectWithoutPrescriptionInput = {
+export type DoctorCreateOrConnectWithoutAppointmentSeriesInput = {
   where: Prisma.DoctorWhereUniqueInput
-  create: Prisma.XOR<Prisma.DoctorCreateWithoutPrescriptionInput, Prisma.DoctorUncheckedCreateWithoutPrescriptionInput>
+  create: Prisma.XOR<Prisma.DoctorCreateWithoutAppointmentSeriesInput, Prisma.DoctorUncheckedCreateWithoutAppointmentSeriesInput>
 }
 
-export type DoctorUpsertWithoutPrescriptionInput = {
-  update: Prisma.XOR<Prisma.DoctorUpdateWithoutPrescriptionInput, Prisma.DoctorUncheckedUpdateWithoutPrescriptionInput>
-  create: Prisma.XOR<Prisma.DoctorCreateWithoutPrescriptionInput, Prisma.DoctorUncheckedCreateWithoutPrescriptionInput>
+export type DoctorUpsertWithoutAppointmentSeriesInput = {
+  update: Prisma.XOR<Prisma.DoctorUpdateWithoutAppointmentSeriesInput, Prisma.DoctorUncheckedUpdateWithoutAppointmentSeriesInput>
+  create: Prisma.XOR<Prisma.DoctorCreateWithoutAppointmentSeriesInput, Prisma.DoctorUncheckedCreateWithoutAppointmentSeriesInput>
   where?: Prisma.DoctorWhereInput
 }
 
-export type DoctorUpdateToOneWithWhereWithoutPrescriptionInput = {
+export type DoctorUpdateToOneWithWhereWithoutAppointmentSeriesInput = {
   where?: Prisma.DoctorWhereInput
-  data: Prisma.XOR<Prisma.DoctorUpdateWithoutPrescriptionInput, Prisma.DoctorUncheckedUpdateWithoutPrescriptionInput>
+  data: Prisma.XOR<Prisma.DoctorUpdateWithoutAppointmentSeriesInput, Prisma.DoctorUncheckedUpdateWithoutAppointmentSeriesInput>
 }
 
-export type DoctorUpdateWithoutPrescriptionInput = {
+export type DoctorUpdateWithoutAppointmentSeriesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -1767,13 +2591,17 @@ export type DoctorUpdateWithoutPrescriptionInput = {
   user?: Prisma.UserUpdateOneWithoutDoctorNestedInput
   clinic?: Prisma.ClinicUpdateOneWithoutDoctorsNestedInput
   workingDays?: Prisma.WorkingDaysUpdateManyWithoutDoctorNestedInput
+  breaks?: Prisma.DoctorBreakUpdateManyWithoutDoctorNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutDoctorNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutDoctorNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutDoctorNestedInput
   encounter?: Prisma.DiagnosisUpdateManyWithoutDoctorNestedInput
+  Prescription?: Prisma.PrescriptionUpdateManyWithoutDoctorNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutDoctorNestedInput
   ratings?: Prisma.RatingUpdateManyWithoutDoctorNestedInput
 }
 
-export type DoctorUncheckedUpdateWithoutPrescriptionInput = {
+export type DoctorUncheckedUpdateWithoutAppointmentSeriesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -1801,13 +2629,17 @@ export type DoctorUncheckedUpdateWithoutPrescriptionInput = {
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutDoctorNestedInput
+  breaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutDoctorNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutDoctorNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutDoctorNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutDoctorNestedInput
   encounter?: Prisma.DiagnosisUncheckedUpdateManyWithoutDoctorNestedInput
+  Prescription?: Prisma.PrescriptionUncheckedUpdateManyWithoutDoctorNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutDoctorNestedInput
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutDoctorNestedInput
 }
 
-export type DoctorCreateWithoutAppointmentsInput = {
+export type DoctorCreateWithoutWaitlistEntriesInput = {
   id?: string
   email?: string | null
   name: string
@@ -1835,13 +2667,17 @@ export type DoctorCreateWithoutAppointmentsInput = {
   user?: Prisma.UserCreateNestedOneWithoutDoctorInput
   clinic?: Prisma.ClinicCreateNestedOneWithoutDoctorsInput
   workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutDoctorInput
+  breaks?: Prisma.DoctorBreakCreateNestedManyWithoutDoctorInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutDoctorInput
+  appointments?: Prisma.AppointmentCreateNestedManyWithoutDoctorInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutDoctorInput
   encounter?: Prisma.DiagnosisCreateNestedManyWithoutDoctorInput
   Prescription?: Prisma.PrescriptionCreateNestedManyWithoutDoctorInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutDoctorInput
   ratings?: Prisma.RatingCreateNestedManyWithoutDoctorInput
 }
 
-export type DoctorUncheckedCreateWithoutAppointmentsInput = {
+export type DoctorUncheckedCreateWithoutWaitlistEntriesInput = {
   id?: string
   email?: string | null
   name: string
@@ -1869,29 +2705,33 @@ export type DoctorUncheckedCreateWithoutAppointmentsInput = {
   deletedAt?: Date | string | null
   isDeleted?: boolean | null
   workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutDoctorInput
+  breaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutDoctorInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutDoctorInput
+  appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutDoctorInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutDoctorInput
   encounter?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutDoctorInput
   Prescription?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutDoctorInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutDoctorInput
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutDoctorInput
 }
 
-export type DoctorCreateOrConnectWithoutAppointmentsInput = {
+export type DoctorCreateOrConnectWithoutWaitlistEntriesInput = {
   where: Prisma.DoctorWhereUniqueInput
-  create: Prisma.XOR<Prisma.DoctorCreateWithoutAppointmentsInput, Prisma.DoctorUncheckedCreateWithoutAppointmentsInput>
+  create: Prisma.XOR<Prisma.DoctorCreateWithoutWaitlistEntriesInput, Prisma.DoctorUncheckedCreateWithoutWaitlistEntriesInput>
 }
 
-export type DoctorUpsertWithoutAppointmentsInput = {
-  update: Prisma.XOR<Prisma.DoctorUpdateWithoutAppointmentsInput, Prisma.DoctorUncheckedUpdateWithoutAppointmentsInput>
-  create: Prisma.XOR<Prisma.DoctorCreateWithoutAppointmentsInput, Prisma.DoctorUncheckedCreateWithoutAppointmentsInput>
+export type DoctorUpsertWithoutWaitlistEntriesInput = {
+  update: Prisma.XOR<Prisma.DoctorUpdateWithoutWaitlistEntriesInput, Prisma.DoctorUncheckedUpdateWithoutWaitlistEntriesInput>
+  create: Prisma.XOR<Prisma.DoctorCreateWithoutWaitlistEntriesInput, Prisma.DoctorUncheckedCreateWithoutWaitlistEntriesInput>
   where?: Prisma.DoctorWhereInput
 }
 
-export type DoctorUpdateToOneWithWhereWithoutAppointmentsInput = {
+export type DoctorUpdateToOneWithWhereWithoutWaitlistEntriesInput = {
   where?: Prisma.DoctorWhereInput
-  data: Prisma.XOR<Prisma.DoctorUpdateWithoutAppointmentsInput, Prisma.DoctorUncheckedUpdateWithoutAppointmentsInput>
+  data: Prisma.XOR<Prisma.DoctorUpdateWithoutWaitlistEntriesInput, Prisma.DoctorUncheckedUpdateWithoutWaitlistEntriesInput>
 }
 
-export type DoctorUpdateWithoutAppointmentsInput = {
+export type DoctorUpdateWithoutWaitlistEntriesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -1919,13 +2759,17 @@ export type DoctorUpdateWithoutAppointmentsInput = {
   user?: Prisma.UserUpdateOneWithoutDoctorNestedInput
   clinic?: Prisma.ClinicUpdateOneWithoutDoctorsNestedInput
   workingDays?: Prisma.WorkingDaysUpdateManyWithoutDoctorNestedInput
+  breaks?: Prisma.DoctorBreakUpdateManyWithoutDoctorNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutDoctorNestedInput
+  appointments?: Prisma.AppointmentUpdateManyWithoutDoctorNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutDoctorNestedInput
   encounter?: Prisma.DiagnosisUpdateManyWithoutDoctorNestedInput
   Prescription?: Prisma.PrescriptionUpdateManyWithoutDoctorNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutDoctorNestedInput
   ratings?: Prisma.RatingUpdateManyWithoutDoctorNestedInput
 }
 
-export type DoctorUncheckedUpdateWithoutAppointmentsInput = {
+export type DoctorUncheckedUpdateWithoutWaitlistEntriesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   name?: Prisma.StringFieldUpdateOperationsInput | string
@@ -1953,6 +2797,10 @@ export type DoctorUncheckedUpdateWithoutAppointmentsInput = {
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutDoctorNestedInput
+  breaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutDoctorNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutDoctorNestedInput
+  appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutDoctorNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutDoctorNestedInput
   encounter?: Prisma.DiagnosisUncheckedUpdateManyWithoutDoctorNestedInput
   Prescription?: Prisma.PrescriptionUncheckedUpdateManyWithoutDoctorNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutDoctorNestedInput
@@ -1987,7 +2835,11 @@ export type DoctorCreateWithoutMedicalRecordsInput = {
   user?: Prisma.UserCreateNestedOneWithoutDoctorInput
   clinic?: Prisma.ClinicCreateNestedOneWithoutDoctorsInput
   workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutDoctorInput
+  breaks?: Prisma.DoctorBreakCreateNestedManyWithoutDoctorInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutDoctorInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutDoctorInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutDoctorInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutDoctorInput
   encounter?: Prisma.DiagnosisCreateNestedManyWithoutDoctorInput
   Prescription?: Prisma.PrescriptionCreateNestedManyWithoutDoctorInput
   ratings?: Prisma.RatingCreateNestedManyWithoutDoctorInput
@@ -2021,7 +2873,11 @@ export type DoctorUncheckedCreateWithoutMedicalRecordsInput = {
   deletedAt?: Date | string | null
   isDeleted?: boolean | null
   workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutDoctorInput
+  breaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutDoctorInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutDoctorInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutDoctorInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutDoctorInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutDoctorInput
   encounter?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutDoctorInput
   Prescription?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutDoctorInput
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutDoctorInput
@@ -2071,7 +2927,11 @@ export type DoctorUpdateWithoutMedicalRecordsInput = {
   user?: Prisma.UserUpdateOneWithoutDoctorNestedInput
   clinic?: Prisma.ClinicUpdateOneWithoutDoctorsNestedInput
   workingDays?: Prisma.WorkingDaysUpdateManyWithoutDoctorNestedInput
+  breaks?: Prisma.DoctorBreakUpdateManyWithoutDoctorNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutDoctorNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutDoctorNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutDoctorNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutDoctorNestedInput
   encounter?: Prisma.DiagnosisUpdateManyWithoutDoctorNestedInput
   Prescription?: Prisma.PrescriptionUpdateManyWithoutDoctorNestedInput
   ratings?: Prisma.RatingUpdateManyWithoutDoctorNestedInput
@@ -2105,7 +2965,11 @@ export type DoctorUncheckedUpdateWithoutMedicalRecordsInput = {
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutDoctorNestedInput
+  breaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutDoctorNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutDoctorNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutDoctorNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutDoctorNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutDoctorNestedInput
   encounter?: Prisma.DiagnosisUncheckedUpdateManyWithoutDoctorNestedInput
   Prescription?: Prisma.PrescriptionUncheckedUpdateManyWithoutDoctorNestedInput
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutDoctorNestedInput
@@ -2139,7 +3003,11 @@ export type DoctorCreateWithoutEncounterInput = {
   user?: Prisma.UserCreateNestedOneWithoutDoctorInput
   clinic?: Prisma.ClinicCreateNestedOneWithoutDoctorsInput
   workingDays?: Prisma.WorkingDaysCreateNestedManyWithoutDoctorInput
+  breaks?: Prisma.DoctorBreakCreateNestedManyWithoutDoctorInput
+  scheduleExceptions?: Prisma.ScheduleExceptionCreateNestedManyWithoutDoctorInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutDoctorInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutDoctorInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutDoctorInput
   Prescription?: Prisma.PrescriptionCreateNestedManyWithoutDoctorInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutDoctorInput
   ratings?: Prisma.RatingCreateNestedManyWithoutDoctorInput
@@ -2173,7 +3041,11 @@ export type DoctorUncheckedCreateWithoutEncounterInput = {
   deletedAt?: Date | string | null
   isDeleted?: boolean | null
   workingDays?: Prisma.WorkingDaysUncheckedCreateNestedManyWithoutDoctorInput
+  breaks?: Prisma.DoctorBreakUncheckedCreateNestedManyWithoutDoctorInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedCreateNestedManyWithoutDoctorInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutDoctorInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutDoctorInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutDoctorInput
   Prescription?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutDoctorInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutDoctorInput
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutDoctorInput
@@ -2223,7 +3095,11 @@ export type DoctorUpdateWithoutEncounterInput = {
   user?: Prisma.UserUpdateOneWithoutDoctorNestedInput
   clinic?: Prisma.ClinicUpdateOneWithoutDoctorsNestedInput
   workingDays?: Prisma.WorkingDaysUpdateManyWithoutDoctorNestedInput
+  breaks?: Prisma.DoctorBreakUpdateManyWithoutDoctorNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutDoctorNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutDoctorNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutDoctorNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutDoctorNestedInput
   Prescription?: Prisma.PrescriptionUpdateManyWithoutDoctorNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutDoctorNestedInput
   ratings?: Prisma.RatingUpdateManyWithoutDoctorNestedInput
@@ -2257,7 +3133,11 @@ export type DoctorUncheckedUpdateWithoutEncounterInput = {
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutDoctorNestedInput
+  breaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutDoctorNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutDoctorNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutDoctorNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutDoctorNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutDoctorNestedInput
   Prescription?: Prisma.PrescriptionUncheckedUpdateManyWithoutDoctorNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutDoctorNestedInput
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutDoctorNestedInput
@@ -2318,7 +3198,11 @@ export type DoctorUpdateWithoutClinicInput = {
   isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   user?: Prisma.UserUpdateOneWithoutDoctorNestedInput
   workingDays?: Prisma.WorkingDaysUpdateManyWithoutDoctorNestedInput
+  breaks?: Prisma.DoctorBreakUpdateManyWithoutDoctorNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUpdateManyWithoutDoctorNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutDoctorNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutDoctorNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutDoctorNestedInput
   encounter?: Prisma.DiagnosisUpdateManyWithoutDoctorNestedInput
   Prescription?: Prisma.PrescriptionUpdateManyWithoutDoctorNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutDoctorNestedInput
@@ -2352,7 +3236,11 @@ export type DoctorUncheckedUpdateWithoutClinicInput = {
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   workingDays?: Prisma.WorkingDaysUncheckedUpdateManyWithoutDoctorNestedInput
+  breaks?: Prisma.DoctorBreakUncheckedUpdateManyWithoutDoctorNestedInput
+  scheduleExceptions?: Prisma.ScheduleExceptionUncheckedUpdateManyWithoutDoctorNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutDoctorNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutDoctorNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutDoctorNestedInput
   encounter?: Prisma.DiagnosisUncheckedUpdateManyWithoutDoctorNestedInput
   Prescription?: Prisma.PrescriptionUncheckedUpdateManyWithoutDoctorNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutDoctorNestedInput
@@ -2394,7 +3282,11 @@ export type DoctorUncheckedUpdateManyWithoutClinicInput = {
 
 export type DoctorCountOutputType = {
   workingDays: number
+  breaks: number
+  scheduleExceptions: number
   appointments: number
+  appointmentSeries: number
+  waitlistEntries: number
   encounter: number
   Prescription: number
   medicalRecords: number
@@ -2403,7 +3295,11 @@ export type DoctorCountOutputType = {
 
 export type DoctorCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   workingDays?: boolean | DoctorCountOutputTypeCountWorkingDaysArgs
+  breaks?: boolean | DoctorCountOutputTypeCountBreaksArgs
+  scheduleExceptions?: boolean | DoctorCountOutputTypeCountScheduleExceptionsArgs
   appointments?: boolean | DoctorCountOutputTypeCountAppointmentsArgs
+  appointmentSeries?: boolean | DoctorCountOutputTypeCountAppointmentSeriesArgs
+  waitlistEntries?: boolean | DoctorCountOutputTypeCountWaitlistEntriesArgs
   encounter?: boolean | DoctorCountOutputTypeCountEncounterArgs
   Prescription?: boolean | DoctorCountOutputTypeCountPrescriptionArgs
   medicalRecords?: boolean | DoctorCountOutputTypeCountMedicalRecordsArgs
@@ -2427,6 +3323,20 @@ export type DoctorCountOutputTypeCountWorkingDaysArgs<ExtArgs extends runtime.Ty
   where?: Prisma.WorkingDaysWhereInput
 }
 
+/**
+ * DoctorCountOutputType without action
+ */
+export type DoctorCountOutputTypeCountBreaksArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.DoctorBreakWhereInput
+}
+
+/**
+ * DoctorCountOutputType without action
+ */
+export type DoctorCountOutputTypeCountScheduleExceptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ScheduleExceptionWhereInput
+}
+
 /**
  * DoctorCountOutputType without action
  */
@@ -2434,6 +3344,20 @@ export type DoctorCountOutputTypeCountAppointmentsArgs<ExtArgs extends runtime.T
   where?: Prisma.AppointmentWhereInput
 }
 
+/**
+ * DoctorCountOutputType without action
+ */
+export type DoctorCountOutputTypeCountAppointmentSeriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AppointmentSeriesWhereInput
+}
+
+/**
+ * DoctorCountOutputType without action
+ */
+export type DoctorCountOutputTypeCountWaitlistEntriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WaitlistEntryWhereInput
+}
+
 /**
  * DoctorCountOutputType without action
  */
@@ -2493,7 +3417,11 @@ export type DoctorSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   user?: boolean | Prisma.Doctor$userArgs<ExtArgs>
   clinic?: boolean | Prisma.Doctor$clinicArgs<ExtArgs>
   workingDays?: boolean | Prisma.Doctor$workingDaysArgs<ExtArgs>
+  breaks?: boolean | Prisma.Doctor$breaksArgs<ExtArgs>
+  scheduleExceptions?: boolean | Prisma.Doctor$scheduleExceptionsArgs<ExtArgs>
   appointments?: boolean | Prisma.Doctor$appointmentsArgs<ExtArgs>
+  appointmentSeries?: boolean | Prisma.Doctor$appointmentSeriesArgs<ExtArgs>
+  waitlistEntries?: boolean | Prisma.Doctor$waitlistEntriesArgs<ExtArgs>
   encounter?: boolean | Prisma.Doctor$encounterArgs<ExtArgs>
   Prescription?: boolean | Prisma.Doctor$PrescriptionArgs<ExtArgs>
   medicalRecords?: boolean | Prisma.Doctor$medicalRecordsArgs<ExtArgs>
@@ -2597,7 +3525,11 @@ export type DoctorInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs
   user?: boolean | Prisma.Doctor$userArgs<ExtArgs>
   clinic?: boolean | Prisma.Doctor$clinicArgs<ExtArgs>
   workingDays?: boolean | Prisma.Doctor$workingDaysArgs<ExtArgs>
+  breaks?: boolean | Prisma.Doctor$breaksArgs<ExtArgs>
+  scheduleExceptions?: boolean | Prisma.Doctor$scheduleExceptionsArgs<ExtArgs>
   appointments?: boolean | Prisma.Doctor$appointmentsArgs<ExtArgs>
+  appointmentSeries?: boolean | Prisma.Doctor$appointmentSeriesArgs<ExtArgs>
+  waitlistEntries?: boolean | Prisma.Doctor$waitlistEntriesArgs<ExtArgs>
   encounter?: boolean | Prisma.Doctor$encounterArgs<ExtArgs>
   Prescription?: boolean | Prisma.Doctor$PrescriptionArgs<ExtArgs>
   medicalRecords?: boolean | Prisma.Doctor$medicalRecordsArgs<ExtArgs>
@@ -2619,7 +3551,11 @@ export type $DoctorPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs
     user: Prisma.$UserPayload<ExtArgs> | null
     clinic: Prisma.$ClinicPayload<ExtArgs> | null
     workingDays: Prisma.$WorkingDaysPayload<ExtArgs>[]
+    breaks: Prisma.$DoctorBreakPayload<ExtArgs>[]
+    scheduleExceptions: Prisma.$ScheduleExceptionPayload<ExtArgs>[]
     appointments: Prisma.$AppointmentPayload<ExtArgs>[]
+    appointmentSeries: Prisma.$AppointmentSeriesPayload<ExtArgs>[]
+    waitlistEntries: Prisma.$WaitlistEntryPayload<ExtArgs>[]
     encounter: Prisma.$DiagnosisPayload<ExtArgs>[]
     Prescription: Prisma.$PrescriptionPayload<ExtArgs>[]
     medicalRecords: Prisma.$MedicalRecordsPayload<ExtArgs>[]
@@ -3049,7 +3985,11 @@ export interface Prisma__DoctorClient<T, Null = never, ExtArgs extends runtime.T
   user<T extends Prisma.Doctor$userArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Doctor$userArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   clinic<T extends Prisma.Doctor$clinicArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Doctor$clinicArgs<ExtArgs>>): Prisma.Prisma__ClinicClient<runtime.Types.Result.GetResult<Prisma.$ClinicPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   workingDays<T extends Prisma.Doctor$workingDaysArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Doctor$workingDaysArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WorkingDaysPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  breaks<T extends Prisma.Doctor$breaksArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Doctor$breaksArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DoctorBreakPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  scheduleExceptions<T extends Prisma.Doctor$scheduleExceptionsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Doctor$scheduleExceptionsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ScheduleExceptionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   appointments<T extends Prisma.Doctor$appointmentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Doctor$appointmentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AppointmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  appointmentSeries<T extends Prisma.Doctor$appointmentSeriesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Doctor$appointmentSeriesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AppointmentSeriesPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  waitlistEntries<T extends Prisma.Doctor$waitlistEntriesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Doctor$waitlistEntriesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   encounter<T extends Prisma.Doctor$encounterArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Doctor$encounterArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DiagnosisPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   Prescription<T extends Prisma.Doctor$PrescriptionArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Doctor$PrescriptionArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PrescriptionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   medicalRecords<T extends Prisma.Doctor$medicalRecordsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Doctor$medicalRecordsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MedicalRecordsPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
@@ -3575,6 +4515,54 @@ export type Doctor$workingDaysArgs<ExtArgs extends runtime.Types.Extensions.Inte
   distinct?: Prisma.WorkingDaysScalarFieldEnum | Prisma.WorkingDaysScalarFieldEnum[]
 }
 
+/**
+ * Doctor.breaks
+ */
+export type Doctor$breaksArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DoctorBreak
+   */
+  select?: Prisma.DoctorBreakSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DoctorBreak
+   */
+  omit?: Prisma.DoctorBreakOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DoctorBreakInclude<ExtArgs> | null
+  where?: Prisma.DoctorBreakWhereInput
+  orderBy?: Prisma.DoctorBreakOrderByWithRelationInput | Prisma.DoctorBreakOrderByWithRelationInput[]
+  cursor?: Prisma.DoctorBreakWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.DoctorBreakScalarFieldEnum | Prisma.DoctorBreakScalarFieldEnum[]
+}
+
+/**
+ * Doctor.scheduleExceptions
+ */
+export type Doctor$scheduleExceptionsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleException
+   */
+  select?: Prisma.ScheduleExceptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleException
+   */
+  omit?: Prisma.ScheduleExceptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleExceptionInclude<ExtArgs> | null
+  where?: Prisma.ScheduleExceptionWhereInput
+  orderBy?: Prisma.ScheduleExceptionOrderByWithRelationInput | Prisma.ScheduleExceptionOrderByWithRelationInput[]
+  cursor?: Prisma.ScheduleExceptionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ScheduleExceptionScalarFieldEnum | Prisma.ScheduleExceptionScalarFieldEnum[]
+}
+
 /**
  * Doctor.appointments
  */
@@ -3599,6 +4587,54 @@ export type Doctor$appointmentsArgs<ExtArgs extends runtime.Types.Extensions.Int
   distinct?: Prisma.AppointmentScalarFieldEnum | Prisma.AppointmentScalarFieldEnum[]
 }
 
+/**
+ * Doctor.appointmentSeries
+ */
+export type Doctor$appointmentSeriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppointmentSeries
+   */
+  select?: Prisma.AppointmentSeriesSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppointmentSeries
+   */
+  omit?: Prisma.AppointmentSeriesOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AppointmentSeriesInclude<ExtArgs> | null
+  where?: Prisma.AppointmentSeriesWhereInput
+  orderBy?: Prisma.AppointmentSeriesOrderByWithRelationInput | Prisma.AppointmentSeriesOrderByWithRelationInput[]
+  cursor?: Prisma.AppointmentSeriesWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.AppointmentSeriesScalarFieldEnum | Prisma.AppointmentSeriesScalarFieldEnum[]
+}
+
+/**
+ * Doctor.waitlistEntries
+ */
+export type Doctor$waitlistEntriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  where?: Prisma.WaitlistEntryWhereInput
+  orderBy?: Prisma.WaitlistEntryOrderByWithRelationInput | Prisma.WaitlistEntryOrderByWithRelationInput[]
+  cursor?: Prisma.WaitlistEntryWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.WaitlistEntryScalarFieldEnum | Prisma.WaitlistEntryScalarFieldEnum[]
+}
+
 /**
  * Doctor.encounter
  */
@@ -0,0 +1,1670 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `DoctorBreak` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model DoctorBreak
+ * 
+ */
+export type DoctorBreakModel = runtime.Types.Result.DefaultSelection<Prisma.$DoctorBreakPayload>
+
+export type AggregateDoctorBreak = {
+  _count: DoctorBreakCountAggregateOutputType | null
+  _avg: DoctorBreakAvgAggregateOutputType | null
+  _sum: DoctorBreakSumAggregateOutputType | null
+  _min: DoctorBreakMinAggregateOutputType | null
+  _max: DoctorBreakMaxAggregateOutputType | null
+}
+
+export type DoctorBreakAvgAggregateOutputType = {
+  id: number | null
+}
+
+export type DoctorBreakSumAggregateOutputType = {
+  id: number | null
+}
+
+export type DoctorBreakMinAggregateOutputType = {
+  id: number | null
+  doctorId: string | null
+  clinicId: string | null
+  day: string | null
+  startTime: string | null
+  endTime: string | null
+  label: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type DoctorBreakMaxAggregateOutputType = {
+  id: number | null
+  doctorId: string | null
+  clinicId: string | null
+  day: string | null
+  startTime: string | null
+  endTime: string | null
+  label: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type DoctorBreakCountAggregateOutputType = {
+  id: number
+  doctorId: number
+  clinicId: number
+  day: number
+  startTime: number
+  endTime: number
+  label: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type DoctorBreakAvgAggregateInputType = {
+  id?: true
+}
+
+export type DoctorBreakSumAggregateInputType = {
+  id?: true
+}
+
+export type DoctorBreakMinAggregateInputType = {
+  id?: true
+  doctorId?: true
+  clinicId?: true
+  day?: true
+  startTime?: true
+  endTime?: true
+  label?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type DoctorBreakMaxAggregateInputType = {
+  id?: true
+  doctorId?: true
+  clinicId?: true
+  day?: true
+  startTime?: true
+  endTime?: true
+  label?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type DoctorBreakCountAggregateInputType = {
+  id?: true
+  doctorId?: true
+  clinicId?: true
+  day?: true
+  startTime?: true
+  endTime?: true
+  label?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type DoctorBreakAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which DoctorBreak to aggregate.
+   */
+  where?: Prisma.DoctorBreakWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DoctorBreaks to fetch.
+   */
+  orderBy?: Prisma.DoctorBreakOrderByWithRelationInput | Prisma.DoctorBreakOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.DoctorBreakWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DoctorBreaks from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DoctorBreaks.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned DoctorBreaks
+  **/
+  _count?: true | DoctorBreakCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: DoctorBreakAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: DoctorBreakSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: DoctorBreakMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: DoctorBreakMaxAggregateInputType
+}
+
+export type GetDoctorBreakAggregateType<T extends DoctorBreakAggregateArgs> = {
+      [P in keyof T & keyof AggregateDoctorBreak]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateDoctorBreak[P]>
+    : Prisma.GetScalarType<T[P], AggregateDoctorBreak[P]>
+}
+
+
+
+
+export type DoctorBreakGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.DoctorBreakWhereInput
+  orderBy?: Prisma.DoctorBreakOrderByWithAggregationInput | Prisma.DoctorBreakOrderByWithAggregationInput[]
+  by: Prisma.DoctorBreakScalarFieldEnum[] | Prisma.DoctorBreakScalarFieldEnum
+  having?: Prisma.DoctorBreakScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: DoctorBreakCountAggregateInputType | true
+  _avg?: DoctorBreakAvgAggregateInputType
+  _sum?: DoctorBreakSumAggregateInputType
+  _min?: DoctorBreakMinAggregateInputType
+  _max?: DoctorBreakMaxAggregateInputType
+}
+
+export type DoctorBreakGroupByOutputType = {
+  id: number
+  doctorId: string
+  clinicId: string
+  day: string
+  startTime: string
+  endTime: string
+  label: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: DoctorBreakCountAggregateOutputType | null
+  _avg: DoctorBreakAvgAggregateOutputType | null
+  _sum: DoctorBreakSumAggregateOutputType | null
+  _min: DoctorBreakMinAggregateOutputType | null
+  _max: DoctorBreakMaxAggregateOutputType | null
+}
+
+type GetDoctorBreakGroupByPayload<T extends DoctorBreakGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<DoctorBreakGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof DoctorBreakGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], DoctorBreakGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], DoctorBreakGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type DoctorBreakWhereInput = {
+  AND?: Prisma.DoctorBreakWhereInput | Prisma.DoctorBreakWhereInput[]
+  OR?: Prisma.DoctorBreakWhereInput[]
+  NOT?: Prisma.DoctorBreakWhereInput | Prisma.DoctorBreakWhereInput[]
+  id?: Prisma.IntFilter<"DoctorBreak"> | number
+  doctorId?: Prisma.StringFilter<"DoctorBreak"> | string
+  clinicId?: Prisma.StringFilter<"DoctorBreak"> | string
+  day?: Prisma.StringFilter<"DoctorBreak"> | string
+  startTime?: Prisma.StringFilter<"DoctorBreak"> | string
+  endTime?: Prisma.StringFilter<"DoctorBreak"> | string
+  label?: Prisma.StringNullableFilter<"DoctorBreak"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"DoctorBreak"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"DoctorBreak"> | Date | string
+  doctor?: Prisma.XOR<Prisma.DoctorScalarRelationFilter, Prisma.DoctorWhereInput>
+  clinic?: Prisma.XOR<Prisma.ClinicScalarRelationFilter, Prisma.ClinicWhereInput>
+}
+
+export type DoctorBreakOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  doctorId?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  day?: Prisma.SortOrder
+  startTime?: Prisma.SortOrder
+  endTime?: Prisma.SortOrder
+  label?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  doctor?: Prisma.DoctorOrderByWithRelationInput
+  clinic?: Prisma.ClinicOrderByWithRelationInput
+}
+
+export type DoctorBreakWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  AND?: Prisma.DoctorBreakWhereInput | Prisma.DoctorBreakWhereInput[]
+  OR?: Prisma.DoctorBreakWhereInput[]
+  NOT?: Prisma.DoctorBreakWhereInput | Prisma.DoctorBreakWhereInput[]
+  doctorId?: Prisma.StringFilter<"DoctorBreak"> | string
+  clinicId?: Prisma.StringFilter<"DoctorBreak"> | string
+  day?: Prisma.StringFilter<"DoctorBreak"> | string
+  startTime?: Prisma.StringFilter<"DoctorBreak"> | string
+  endTime?: Prisma.StringFilter<"DoctorBreak"> | string
+  label?: Prisma.StringNullableFilter<"DoctorBreak"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"DoctorBreak"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"DoctorBreak"> | Date | string
+  doctor?: Prisma.XOR<Prisma.DoctorScalarRelationFilter, Prisma.DoctorWhereInput>
+  clinic?: Prisma.XOR<Prisma.ClinicScalarRelationFilter, Prisma.ClinicWhereInput>
+}, "id">
+
+export type DoctorBreakOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  doctorId?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  day?: Prisma.SortOrder
+  startTime?: Prisma.SortOrder
+  endTime?: Prisma.SortOrder
+  label?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.DoctorBreakCountOrderByAggregateInput
+  _avg?: Prisma.DoctorBreakAvgOrderByAggregateInput
+  _max?: Prisma.DoctorBreakMaxOrderByAggregateInput
+  _min?: Prisma.DoctorBreakMinOrderByAggregateInput
+  _sum?: Prisma.DoctorBreakSumOrderByAggregateInput
+}
+
+export type DoctorBreakScalarWhereWithAggregatesInput = {
+  AND?: Prisma.DoctorBreakScalarWhereWithAggregatesInput | Prisma.DoctorBreakScalarWhereWithAggregatesInput[]
+  OR?: Prisma.DoctorBreakScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.DoctorBreakScalarWhereWithAggregatesInput | Prisma.DoctorBreakScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"DoctorBreak"> | number
+  doctorId?: Prisma.StringWithAggregatesFilter<"DoctorBreak"> | string
+  clinicId?: Prisma.StringWithAggregatesFilter<"DoctorBreak"> | string
+  day?: Prisma.StringWithAggregatesFilter<"DoctorBreak"> | string
+  startTime?: Prisma.StringWithAggregatesFilter<"DoctorBreak"> | string
+  endTime?: Prisma.StringWithAggregatesFilter<"DoctorBreak"> | string
+  label?: Prisma.StringNullableWithAggregatesFilter<"DoctorBreak"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"DoctorBreak"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"DoctorBreak"> | Date | string
+}
+
+export type DoctorBreakCreateInput = {
+  day: string
+  startTime: string
+  endTime: string
+  label?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  doctor: Prisma.DoctorCreateNestedOneWithoutBreaksInput
+  clinic: Prisma.ClinicCreateNestedOneWithoutDoctorBreaksInput
+}
+
+export type DoctorBreakUncheckedCreateInput = {
+  id?: number
+  doctorId: string
+  clinicId: string
+  day: string
+  startTime: string
+  endTime: string
+  label?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type DoctorBreakUpdateInput = {
+  day?: Prisma.StringFieldUpdateOperationsInput | string
+  startTime?: Prisma.StringFieldUpdateOperationsInput | string
+  endTime?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  doctor?: Prisma.DoctorUpdateOneRequiredWithoutBreaksNestedInput
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutDoctorBreaksNestedInput
+}
+
+export type DoctorBreakUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  doctorId?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  day?: Prisma.StringFieldUpdateOperationsInput | string
+  startTime?: Prisma.StringFieldUpdateOperationsInput | string
+  endTime?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DoctorBreakCreateManyInput = {
+  id?: number
+  doctorId: string
+  clinicId: string
+  day: string
+  startTime: string
+  endTime: string
+  label?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type DoctorBreakUpdateManyMutationInput = {
+  day?: Prisma.StringFieldUpdateOperationsInput | string
+  startTime?: Prisma.StringFieldUpdateOperationsInput | string
+  endTime?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DoctorBreakUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  doctorId?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  day?: Prisma.StringFieldUpdateOperationsInput | string
+  startTime?: Prisma.StringFieldUpdateOperationsInput | string
+  endTime?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DoctorBreakListRelationFilter = {
+  every?: Prisma.DoctorBreakWhereInput
+  some?: Prisma.DoctorBreakWhereInput
+  none?: Prisma.DoctorBreakWhereInput
+}
+
+export type DoctorBreakOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type DoctorBreakCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  doctorId?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  day?: Prisma.SortOrder
+  startTime?: Prisma.SortOrder
+  endTime?: Prisma.SortOrder
+  label?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type DoctorBreakAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+}
+
+export type DoctorBreakMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  doctorId?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  day?: Prisma.SortOrder
+  startTime?: Prisma.SortOrder
+  endTime?: Prisma.SortOrder
+  label?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type DoctorBreakMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  doctorId?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  day?: Prisma.SortOrder
+  startTime?: Prisma.SortOrder
+  endTime?: Prisma.SortOrder
+  label?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type DoctorBreakSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+}
+
+export type DoctorBreakCreateNestedManyWithoutClinicInput = {
+  create?: Prisma.XOR<Prisma.DoctorBreakCreateWithoutClinicInput, Prisma.DoctorBreakUncheckedCreateWithoutClinicInput> | Prisma.DoctorBreakCreateWithoutClinicInput[] | Prisma.DoctorBreakUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.DoctorBreakCreateOrConnectWithoutClinicInput | Prisma.DoctorBreakCreateOrConnectWithoutClinicInput[]
+  createMany?: Prisma.DoctorBreakCreateManyClinicInputEnvelope
+  connect?: Prisma.DoctorBreakWhereUniqueInput | Prisma.DoctorBreakWhereUniqueInput[]
+}
+
+export type DoctorBreakUncheckedCreateNestedManyWithoutClinicInput = {
+  create?: Prisma.XOR<Prisma.DoctorBreakCreateWithoutClinicInput, Prisma.DoctorBreakUncheckedCreateWithoutClinicInput> | Prisma.DoctorBreakCreateWithoutClinicInput[] | Prisma.DoctorBreakUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.DoctorBreakCreateOrConnectWithoutClinicInput | Prisma.DoctorBreakCreateOrConnectWithoutClinicInput[]
+  createMany?: Prisma.DoctorBreakCreateManyClinicInputEnvelope
+  connect?: Prisma.DoctorBreakWhereUniqueInput | Prisma.DoctorBreakWhereUniqueInput[]
+}
+
+export type DoctorBreakUpdateManyWithoutClinicNestedInput = {
+  create?: Prisma.XOR<Prisma.DoctorBreakCreateWithoutClinicInput, Prisma.DoctorBreakUncheckedCreateWithoutClinicInput> | Prisma.DoctorBreakCreateWithoutClinicInput[] | Prisma.DoctorBreakUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.DoctorBreakCreateOrConnectWithoutClinicInput | Prisma.DoctorBreakCreateOrConnectWithoutClinicInput[]
+  upsert?: Prisma.DoctorBreakUpsertWithWhereUniqueWithoutClinicInput | Prisma.DoctorBreakUpsertWithWhereUniqueWithoutClinicInput[]
+  createMany?: Prisma.DoctorBreakCreateManyClinicInputEnvelope
+  set?: Prisma.DoctorBreakWhereUniqueInput | Prisma.DoctorBreakWhereUniqueInput[]
+  disconnect?: Prisma.DoctorBreakWhereUniqueInput | Prisma.DoctorBreakWhereUniqueInput[]
+  delete?: Prisma.DoctorBreakWhereUniqueInput | Prisma.DoctorBreakWhereUniqueInput[]
+  connect?: Prisma.DoctorBreakWhereUniqueInput | Prisma.DoctorBreakWhereUniqueInput[]
+  update?: Prisma.DoctorBreakUpdateWithWhereUniqueWithoutClinicInput | Prisma.DoctorBreakUpdateWithWhereUniqueWithoutClinicInput[]
+  updateMany?: Prisma.DoctorBreakUpdateManyWithWhereWithoutClinicInput | Prisma.DoctorBreakUpdateManyWithWhereWithoutClinicInput[]
+  deleteMany?: Prisma.DoctorBreakScalarWhereInput | Prisma.DoctorBreakScalarWhereInput[]
+}
+
+export type DoctorBreakUncheckedUpdateManyWithoutClinicNestedInput = {
+  create?: Prisma.XOR<Prisma.DoctorBreakCreateWithoutClinicInput, Prisma.DoctorBreakUncheckedCreateWithoutClinicInput> | Prisma.DoctorBreakCreateWithoutClinicInput[] | Prisma.DoctorBreakUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.DoctorBreakCreateOrConnectWithoutClinicInput | Prisma.DoctorBreakCreateOrConnectWithoutClinicInput[]
+  upsert?: Prisma.DoctorBreakUpsertWithWhereUniqueWithoutClinicInput | Prisma.DoctorBreakUpsertWithWhereUniqueWithoutClinicInput[]
+  createMany?: Prisma.DoctorBreakCreateManyClinicInputEnvelope
+  set?: Prisma.DoctorBreakWhereUniqueInput | Prisma.DoctorBreakWhereUniqueInput[]
+  disconnect?: Prisma.DoctorBreakWhereUniqueInput | Prisma.DoctorBreakWhereUniqueInput[]
+  delete?: Prisma.DoctorBreakWhereUniqueInput | Prisma.DoctorBreakWhereUniqueInput[]
+  connect?: Prisma.DoctorBreakWhereUniqueInput | Prisma.DoctorBreakWhereUniqueInput[]
+  update?: Prisma.DoctorBreakUpdateWithWhereUniqueWithoutClinicInput | Prisma.DoctorBreakUpdateWithWhereUniqueWithoutClinicInput[]
+  updateMany?: Prisma.DoctorBreakUpdateManyWithWhereWithoutClinicInput | Prisma.DoctorBreakUpdateManyWithWhereWithoutClinicInput[]
+  deleteMany?: Prisma.DoctorBreakScalarWhereInput | Prisma.DoctorBreakScalarWhereInput[]
+}
+
+export type DoctorBreakCreateNestedManyWithoutDoctorInput = {
+  create?: Prisma.XOR<Prisma.DoctorBreakCreateWithoutDoctorInput, Prisma.DoctorBreakUncheckedCreateWithoutDoctorInput> | Prisma.DoctorBreakCreateWithoutDoctorInput[] | Prisma.DoctorBreakUncheckedCreateWithoutDoctorInput[]
+  connectOrCreate?: Prisma.DoctorBreakCreateOrConnectWithoutDoctorInput | Prisma.DoctorBreakCreateOrConnectWithoutDoctorInput[]
+  createMany?: Prisma.DoctorBreakCreateManyDoctorInputEnvelope
+  connect?: Prisma.DoctorBreakWhereUniqueInput | Prisma.DoctorBreakWhereUniqueInput[]
+}
+
+export type DoctorBreakUncheckedCreateNestedManyWithoutDoctorInput = {
+  create?: Prisma.XOR<Prisma.DoctorBreakCreateWithoutDoctorInput, Prisma.DoctorBreakUncheckedCreateWithoutDoctorInput> | Prisma.DoctorBreakCreateWithoutDoctorInput[] | Prisma.DoctorBreakUncheckedCreateWithoutDoctorInput[]
+  connectOrCreate?: Prisma.DoctorBreakCreateOrConnectWithoutDoctorInput | Prisma.DoctorBreakCreateOrConnectWithoutDoctorInput[]
+  createMany?: Prisma.DoctorBreakCreateManyDoctorInputEnvelope
+  connect?: Prisma.DoctorBreakWhereUniqueInput | Prisma.DoctorBreakWhereUniqueInput[]
+}
+
+export type DoctorBreakUpdateManyWithoutDoctorNestedInput = {
+  create?: Prisma.XOR<Prisma.DoctorBreakCreateWithoutDoctorInput, Prisma.DoctorBreakUncheckedCreateWithoutDoctorInput> | Prisma.DoctorBreakCreateWithoutDoctorInput[] | Prisma.DoctorBreakUncheckedCreateWithoutDoctorInput[]
+  connectOrCreate?: Prisma.DoctorBreakCreateOrConnectWithoutDoctorInput | Prisma.DoctorBreakCreateOrConnectWithoutDoctorInput[]
+  upsert?: Prisma.DoctorBreakUpsertWithWhereUniqueWithoutDoctorInput | Prisma.DoctorBreakUpsertWithWhereUniqueWithoutDoctorInput[]
+  createMany?: Prisma.DoctorBreakCreateManyDoctorInputEnvelope
+  set?: Prisma.DoctorBreakWhereUniqueInput | Prisma.DoctorBreakWhereUniqueInput[]
+  disconnect?: Prisma.DoctorBreakWhereUniqueInput | Prisma.DoctorBreakWhereUniqueInput[]
+  delete?: Prisma.DoctorBreakWhereUniqueInput | Prisma.DoctorBreakWhereUniqueInput[]
+  connect?: Prisma.DoctorBreakWhereUniqueInput | Prisma.DoctorBreakWhereUniqueInput[]
+  update?: Prisma.DoctorBreakUpdateWithWhereUniqueWithoutDoctorInput | Prisma.DoctorBreakUpdateWithWhereUniqueWithoutDoctorInput[]
+  updateMany?: Prisma.DoctorBreakUpdateManyWithWhereWithoutDoctorInput | Prisma.DoctorBreakUpdateManyWithWhereWithoutDoctorInput[]
+  deleteMany?: Prisma.DoctorBreakScalarWhereInput | Prisma.DoctorBreakScalarWhereInput[]
+}
+
+export type DoctorBreakUncheckedUpdateManyWithoutDoctorNestedInput = {
+  create?: Prisma.XOR<Prisma.DoctorBreakCreateWithoutDoctorInput, Prisma.DoctorBreakUncheckedCreateWithoutDoctorInput> | Prisma.DoctorBreakCreateWithoutDoctorInput[] | Prisma.DoctorBreakUncheckedCreateWithoutDoctorInput[]
+  connectOrCreate?: Prisma.DoctorBreakCreateOrConnectWithoutDoctorInput | Prisma.DoctorBreakCreateOrConnectWithoutDoctorInput[]
+  upsert?: Prisma.DoctorBreakUpsertWithWhereUniqueWithoutDoctorInput | Prisma.DoctorBreakUpsertWithWhereUniqueWithoutDoctorInput[]
+  createMany?: Prisma.DoctorBreakCreateManyDoctorInputEnvelope
+  set?: Prisma.DoctorBreakWhereUniqueInput | Prisma.DoctorBreakWhereUniqueInput[]
+  disconnect?: Prisma.DoctorBreakWhereUniqueInput | Prisma.DoctorBreakWhereUniqueInput[]
+  delete?: Prisma.DoctorBreakWhereUniqueInput | Prisma.DoctorBreakWhereUniqueInput[]
+  connect?: Prisma.DoctorBreakWhereUniqueInput | Prisma.DoctorBreakWhereUniqueInput[]
+  update?: Prisma.DoctorBreakUpdateWithWhereUniqueWithoutDoctorInput | Prisma.DoctorBreakUpdateWithWhereUniqueWithoutDoctorInput[]
+  updateMany?: Prisma.DoctorBreakUpdateManyWithWhereWithoutDoctorInput | Prisma.DoctorBreakUpdateManyWithWhereWithoutDoctorInput[]
+  deleteMany?: Prisma.DoctorBreakScalarWhereInput | Prisma.DoctorBreakScalarWhereInput[]
+}
+
+export type DoctorBreakCreateWithoutClinicInput = {
+  day: string
+  startTime: string
+  endTime: string
+  label?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  doctor: Prisma.DoctorCreateNestedOneWithoutBreaksInput
+}
+
+export type DoctorBreakUncheckedCreateWithoutClinicInput = {
+  id?: number
+  doctorId: string
+  day: string
+  startTime: string
+  endTime: string
+  label?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type DoctorBreakCreateOrConnectWithoutClinicInput = {
+  where: Prisma.DoctorBreakWhereUniqueInput
+  create: Prisma.XOR<Prisma.DoctorBreakCreateWithoutClinicInput, Prisma.DoctorBreakUncheckedCreateWithoutClinicInput>
+}
+
+export type DoctorBreakCreateManyClinicInputEnvelope = {
+  data: Prisma.DoctorBreakCreateManyClinicInput | Prisma.DoctorBreakCreateManyClinicInput[]
+  skipDuplicates?: boolean
+}
+
+export type DoctorBreakUpsertWithWhereUniqueWithoutClinicInput = {
+  where: Prisma.DoctorBreakWhereUniqueInput
+  update: Prisma.XOR<Prisma.DoctorBreakUpdateWithoutClinicInput, Prisma.DoctorBreakUncheckedUpdateWithoutClinicInput>
+  create: Prisma.XOR<Prisma.DoctorBreakCreateWithoutClinicInput, Prisma.DoctorBreakUncheckedCreateWithoutClinicInput>
+}
+
+export type DoctorBreakUpdateWithWhereUniqueWithoutClinicInput = {
+  where: Prisma.DoctorBreakWhereUniqueInput
+  data: Prisma.XOR<Prisma.DoctorBreakUpdateWithoutClinicInput, Prisma.DoctorBreakUncheckedUpdateWithoutClinicInput>
+}
+
+export type DoctorBreakUpdateManyWithWhereWithoutClinicInput = {
+  where: Prisma.DoctorBreakScalarWhereInput
+  data: Prisma.XOR<Prisma.DoctorBreakUpdateManyMutationInput, Prisma.DoctorBreakUncheckedUpdateManyWithoutClinicInput>
+}
+
+export type DoctorBreakScalarWhereInput = {
+  AND?: Prisma.DoctorBreakScalarWhereInput | Prisma.DoctorBreakScalarWhereInput[]
+  OR?: Prisma.DoctorBreakScalarWhereInput[]
+  NOT?: Prisma.DoctorBreakScalarWhereInput | Prisma.DoctorBreakScalarWhereInput[]
+  id?: Prisma.IntFilter<"DoctorBreak"> | number
+  doctorId?: Prisma.StringFilter<"DoctorBreak"> | string
+  clinicId?: Prisma.StringFilter<"DoctorBreak"> | string
+  day?: Prisma.StringFilter<"DoctorBreak"> | string
+  startTime?: Prisma.StringFilter<"DoctorBreak"> | string
+  endTime?: Prisma.StringFilter<"DoctorBreak"> | string
+  label?: Prisma.StringNullableFilter<"DoctorBreak"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"DoctorBreak"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"DoctorBreak"> | Date | string
+}
+
+export type DoctorBreakCreateWithoutDoctorInput = {
+  day: string
+  startTime: string
+  endTime: string
+  label?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  clinic: Prisma.ClinicCreateNestedOneWithoutDoctorBreaksInput
+}
+
+export type DoctorBreakUncheckedCreateWithoutDoctorInput = {
+  id?: number
+  clinicId: string
+  day: string
+  startTime: string
+  endTime: string
+  label?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type DoctorBreakCreateOrConnectWithoutDoctorInput = {
+  where: Prisma.DoctorBreakWhereUniqueInput
+  create: Prisma.XOR<Prisma.DoctorBreakCreateWithoutDoctorInput, Prisma.DoctorBreakUncheckedCreateWithoutDoctorInput>
+}
+
+export type DoctorBreakCreateManyDoctorInputEnvelope = {
+  data: Prisma.DoctorBreakCreateManyDoctorInput | Prisma.DoctorBreakCreateManyDoctorInput[]
+  skipDuplicates?: boolean
+}
+
+export type DoctorBreakUpsertWithWhereUniqueWithoutDoctorInput = {
+  where: Prisma.DoctorBreakWhereUniqueInput
+  update: Prisma.XOR<Prisma.DoctorBreakUpdateWithoutDoctorInput, Prisma.DoctorBreakUncheckedUpdateWithoutDoctorInput>
+  create: Prisma.XOR<Prisma.DoctorBreakCreateWithoutDoctorInput, Prisma.DoctorBreakUncheckedCreateWithoutDoctorInput>
+}
+
+export type DoctorBreakUpdateWithWhereUniqueWithoutDoctorInput = {
+  where: Prisma.DoctorBreakWhereUniqueInput
+  data: Prisma.XOR<Prisma.DoctorBreakUpdateWithoutDoctorInput, Prisma.DoctorBreakUncheckedUpdateWithoutDoctorInput>
+}
+
+export type DoctorBreakUpdateManyWithWhereWithoutDoctorInput = {
+  where: Prisma.DoctorBreakScalarWhereInput
+  data: Prisma.XOR<Prisma.DoctorBreakUpdateManyMutationInput, Prisma.DoctorBreakUncheckedUpdateManyWithoutDoctorInput>
+}
+
+export type DoctorBreakCreateManyClinicInput = {
+  id?: number
+  doctorId: string
+  day: string
+  startTime: string
+  endTime: string
+  label?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type DoctorBreakUpdateWithoutClinicInput = {
+  day?: Prisma.StringFieldUpdateOperationsInput | string
+  startTime?: Prisma.StringFieldUpdateOperationsInput | string
+  endTime?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  doctor?: Prisma.DoctorUpdateOneRequiredWithoutBreaksNestedInput
+}
+
+export type DoctorBreakUncheckedUpdateWithoutClinicInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  doctorId?: Prisma.StringFieldUpdateOperationsInput | string
+  day?: Prisma.StringFieldUpdateOperationsInput | string
+  startTime?: Prisma.StringFieldUpdateOperationsInput | string
+  endTime?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DoctorBreakUncheckedUpdateManyWithoutClinicInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  doctorId?: Prisma.StringFieldUpdateOperationsInput | string
+  day?: Prisma.StringFieldUpdateOperationsInput | string
+  startTime?: Prisma.StringFieldUpdateOperationsInput | string
+  endTime?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DoctorBreakCreateManyDoctorInput = {
+  id?: number
+  clinicId: string
+  day: string
+  startTime: string
+  endTime: string
+  label?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type DoctorBreakUpdateWithoutDoctorInput = {
+  day?: Prisma.StringFieldUpdateOperationsInput | string
+  startTime?: Prisma.StringFieldUpdateOperationsInput | string
+  endTime?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutDoctorBreaksNestedInput
+}
+
+export type DoctorBreakUncheckedUpdateWithoutDoctorInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  day?: Prisma.StringFieldUpdateOperationsInput | string
+  startTime?: Prisma.StringFieldUpdateOperationsInput | string
+  endTime?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DoctorBreakUncheckedUpdateManyWithoutDoctorInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  day?: Prisma.StringFieldUpdateOperationsInput | string
+  startTime?: Prisma.StringFieldUpdateOperationsInput | string
+  endTime?: Prisma.StringFieldUpdateOperationsInput | string
+  label?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type DoctorBreakSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  doctorId?: boolean
+  clinicId?: boolean
+  day?: boolean
+  startTime?: boolean
+  endTime?: boolean
+  label?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  doctor?: boolean | Prisma.DoctorDefaultArgs<ExtArgs>
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["doctorBreak"]>
+
+export type DoctorBreakSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  doctorId?: boolean
+  clinicId?: boolean
+  day?: boolean
+  startTime?: boolean
+  endTime?: boolean
+  label?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  doctor?: boolean | Prisma.DoctorDefaultArgs<ExtArgs>
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["doctorBreak"]>
+
+export type DoctorBreakSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  doctorId?: boolean
+  clinicId?: boolean
+  day?: boolean
+  startTime?: boolean
+  endTime?: boolean
+  label?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  doctor?: boolean | Prisma.DoctorDefaultArgs<ExtArgs>
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["doctorBreak"]>
+
+export type DoctorBreakSelectScalar = {
+  id?: boolean
+  doctorId?: boolean
+  clinicId?: boolean
+  day?: boolean
+  startTime?: boolean
+  endTime?: boolean
+  label?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type DoctorBreakOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "doctorId" | "clinicId" | "day" | "startTime" | "endTime" | "label" | "createdAt" | "updatedAt", ExtArgs["result"]["doctorBreak"]>
+export type DoctorBreakInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  doctor?: boolean | Prisma.DoctorDefaultArgs<ExtArgs>
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+}
+export type DoctorBreakIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  doctor?: boolean | Prisma.DoctorDefaultArgs<ExtArgs>
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+}
+export type DoctorBreakIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  doctor?: boolean | Prisma.DoctorDefaultArgs<ExtArgs>
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+}
+
+export type $DoctorBreakPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "DoctorBreak"
+  objects: {
+    doctor: Prisma.$DoctorPayload<ExtArgs>
+    clinic: Prisma.$ClinicPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    doctorId: string
+    clinicId: string
+    day: string
+    startTime: string
+    endTime: string
+    label: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["doctorBreak"]>
+  composites: {}
+}
+
+export type DoctorBreakGetPayload<S extends boolean | null | undefined | DoctorBreakDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$DoctorBreakPayload, S>
+
+export type DoctorBreakCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<DoctorBreakFindManyArgs, 'select' | 'include' | 'distinct' | 'omit' | 'relationLoadStrategy'> & {
+    select?: DoctorBreakCountAggregateInputType | true
+  }
+
+export interface DoctorBreakDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['DoctorBreak'], meta: { name: 'DoctorBreak' } }
+  /**
+   * Find zero or one DoctorBreak that matches the filter.
+   * @param {DoctorBreakFindUniqueArgs} args - Arguments to find a DoctorBreak
+   * @example
+   * // Get one DoctorBreak
+   * const doctorBreak = await prisma.doctorBreak.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends DoctorBreakFindUniqueArgs>(args: Prisma.SelectSubset<T, DoctorBreakFindUniqueArgs<ExtArgs>>): Prisma.Prisma__DoctorBreakClient<runtime.Types.Result.GetResult<Prisma.$DoctorBreakPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one DoctorBreak that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {DoctorBreakFindUniqueOrThrowArgs} args - Arguments to find a DoctorBreak
+   * @example
+   * // Get one DoctorBreak
+   * const doctorBreak = await prisma.doctorBreak.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends DoctorBreakFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, DoctorBreakFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__DoctorBreakClient<runtime.Types.Result.GetResult<Prisma.$DoctorBreakPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first DoctorBreak that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DoctorBreakFindFirstArgs} args - Arguments to find a DoctorBreak
+   * @example
+   * // Get one DoctorBreak
+   * const doctorBreak = await prisma.doctorBreak.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends DoctorBreakFindFirstArgs>(args?: Prisma.SelectSubset<T, DoctorBreakFindFirstArgs<ExtArgs>>): Prisma.Prisma__DoctorBreakClient<runtime.Types.Result.GetResult<Prisma.$DoctorBreakPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first DoctorBreak that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DoctorBreakFindFirstOrThrowArgs} args - Arguments to find a DoctorBreak
+   * @example
+   * // Get one DoctorBreak
+   * const doctorBreak = await prisma.doctorBreak.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends DoctorBreakFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, DoctorBreakFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__DoctorBreakClient<runtime.Types.Result.GetResult<Prisma.$DoctorBreakPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more DoctorBreaks that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DoctorBreakFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all DoctorBreaks
+   * const doctorBreaks = await prisma.doctorBreak.findMany()
+   * 
+   * // Get first 10 DoctorBreaks
+   * const doctorBreaks = await prisma.doctorBreak.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const doctorBreakWithIdOnly = await prisma.doctorBreak.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends DoctorBreakFindManyArgs>(args?: Prisma.SelectSubset<T, DoctorBreakFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DoctorBreakPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a DoctorBreak.
+   * @param {DoctorBreakCreateArgs} args - Arguments to create a DoctorBreak.
+   * @example
+   * // Create one DoctorBreak
+   * const DoctorBreak = await prisma.doctorBreak.create({
+   *   data: {
+   *     // ... data to create a DoctorBreak
+   *   }
+   * })
+   * 
+   */
+  create<T extends DoctorBreakCreateArgs>(args: Prisma.SelectSubset<T, DoctorBreakCreateArgs<ExtArgs>>): Prisma.Prisma__DoctorBreakClient<runtime.Types.Result.GetResult<Prisma.$DoctorBreakPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many DoctorBreaks.
+   * @param {DoctorBreakCreateManyArgs} args - Arguments to create many DoctorBreaks.
+   * @example
+   * // Create many DoctorBreaks
+   * const doctorBreak = await prisma.doctorBreak.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends DoctorBreakCreateManyArgs>(args?: Prisma.SelectSubset<T, DoctorBreakCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many DoctorBreaks and returns the data saved in the database.
+   * @param {DoctorBreakCreateManyAndReturnArgs} args - Arguments to create many DoctorBreaks.
+   * @example
+   * // Create many DoctorBreaks
+   * const doctorBreak = await prisma.doctorBreak.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many DoctorBreaks and only return the `id`
+   * const doctorBreakWithIdOnly = await prisma.doctorBreak.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends DoctorBreakCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, DoctorBreakCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DoctorBreakPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a DoctorBreak.
+   * @param {DoctorBreakDeleteArgs} args - Arguments to delete one DoctorBreak.
+   * @example
+   * // Delete one DoctorBreak
+   * const DoctorBreak = await prisma.doctorBreak.delete({
+   *   where: {
+   *     // ... filter to delete one DoctorBreak
+   *   }
+   * })
+   * 
+   */
+  delete<T extends DoctorBreakDeleteArgs>(args: Prisma.SelectSubset<T, DoctorBreakDeleteArgs<ExtArgs>>): Prisma.Prisma__DoctorBreakClient<runtime.Types.Result.GetResult<Prisma.$DoctorBreakPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one DoctorBreak.
+   * @param {DoctorBreakUpdateArgs} args - Arguments to update one DoctorBreak.
+   * @example
+   * // Update one DoctorBreak
+   * const doctorBreak = await prisma.doctorBreak.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends DoctorBreakUpdateArgs>(args: Prisma.SelectSubset<T, DoctorBreakUpdateArgs<ExtArgs>>): Prisma.Prisma__DoctorBreakClient<runtime.Types.Result.GetResult<Prisma.$DoctorBreakPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more DoctorBreaks.
+   * @param {DoctorBreakDeleteManyArgs} args - Arguments to filter DoctorBreaks to delete.
+   * @example
+   * // Delete a few DoctorBreaks
+   * const { count } = await prisma.doctorBreak.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends DoctorBreakDeleteManyArgs>(args?: Prisma.SelectSubset<T, DoctorBreakDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more DoctorBreaks.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DoctorBreakUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many DoctorBreaks
+   * const doctorBreak = await prisma.doctorBreak.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends DoctorBreakUpdateManyArgs>(args: Prisma.SelectSubset<T, DoctorBreakUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more DoctorBreaks and returns the data updated in the database.
+   * @param {DoctorBreakUpdateManyAndReturnArgs} args - Arguments to update many DoctorBreaks.
+   * @example
+   * // Update many DoctorBreaks
+   * const doctorBreak = await prisma.doctorBreak.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more DoctorBreaks and only return the `id`
+   * const doctorBreakWithIdOnly = await prisma.doctorBreak.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends DoctorBreakUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, DoctorBreakUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DoctorBreakPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one DoctorBreak.
+   * @param {DoctorBreakUpsertArgs} args - Arguments to update or create a DoctorBreak.
+   * @example
+   * // Update or create a DoctorBreak
+   * const doctorBreak = await prisma.doctorBreak.upsert({
+   *   create: {
+   *     // ... data to create a DoctorBreak
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the DoctorBreak we want to update
+   *   }
+   * })
+   */
+  upsert<T extends DoctorBreakUpsertArgs>(args: Prisma.SelectSubset<T, DoctorBreakUpsertArgs<ExtArgs>>): Prisma.Prisma__DoctorBreakClient<runtime.Types.Result.GetResult<Prisma.$DoctorBreakPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of DoctorBreaks.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DoctorBreakCountArgs} args - Arguments to filter DoctorBreaks to count.
+   * @example
+   * // Count the number of DoctorBreaks
+   * const count = await prisma.doctorBreak.count({
+   *   where: {
+   *     // ... the filter for the DoctorBreaks we want to count
+   *   }
+   * })
+  **/
+  count<T extends DoctorBreakCountArgs>(
+    args?: Prisma.Subset<T, DoctorBreakCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], DoctorBreakCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a DoctorBreak.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DoctorBreakAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends DoctorBreakAggregateArgs>(args: Prisma.Subset<T, DoctorBreakAggregateArgs>): Prisma.PrismaPromise<GetDoctorBreakAggregateType<T>>
+
+  /**
+   * Group by DoctorBreak.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DoctorBreakGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends DoctorBreakGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: DoctorBreakGroupByArgs['orderBy'] }
+      : { orderBy?: DoctorBreakGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, DoctorBreakGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetDoctorBreakGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the DoctorBreak model
+ */
+readonly fields: DoctorBreakFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for DoctorBreak.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__DoctorBreakClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  doctor<T extends Prisma.DoctorDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.DoctorDefaultArgs<ExtArgs>>): Prisma.Prisma__DoctorClient<runtime.Types.Result.GetResult<Prisma.$DoctorPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  clinic<T extends Prisma.ClinicDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ClinicDefaultArgs<ExtArgs>>): Prisma.Prisma__ClinicClient<runtime.Types.Result.GetResult<Prisma.$ClinicPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the DoctorBreak model
+ */
+export interface DoctorBreakFieldRefs {
+  readonly id: Prisma.FieldRef<"DoctorBreak", 'Int'>
+  readonly doctorId: Prisma.FieldRef<"DoctorBreak", 'String'>
+  readonly clinicId: Prisma.FieldRef<"DoctorBreak", 'String'>
+  readonly day: Prisma.FieldRef<"DoctorBreak", 'String'>
+  readonly startTime: Prisma.FieldRef<"DoctorBreak", 'String'>
+  readonly endTime: Prisma.FieldRef<"DoctorBreak", 'String'>
+  readonly label: Prisma.FieldRef<"DoctorBreak", 'String'>
+  readonly createdAt: Prisma.FieldRef<"DoctorBreak", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"DoctorBreak", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * DoctorBreak findUnique
+ */
+export type DoctorBreakFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DoctorBreak
+   */
+  select?: Prisma.DoctorBreakSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DoctorBreak
+   */
+  omit?: Prisma.DoctorBreakOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DoctorBreakInclude<ExtArgs> | null
+  /**
+   * Filter, which DoctorBreak to fetch.
+   */
+  where: Prisma.DoctorBreakWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * DoctorBreak findUniqueOrThrow
+ */
+export type DoctorBreakFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DoctorBreak
+   */
+  select?: Prisma.DoctorBreakSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DoctorBreak
+   */
+  omit?: Prisma.DoctorBreakOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DoctorBreakInclude<ExtArgs> | null
+  /**
+   * Filter, which DoctorBreak to fetch.
+   */
+  where: Prisma.DoctorBreakWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * DoctorBreak findFirst
+ */
+export type DoctorBreakFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DoctorBreak
+   */
+  select?: Prisma.DoctorBreakSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DoctorBreak
+   */
+  omit?: Prisma.DoctorBreakOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DoctorBreakInclude<ExtArgs> | null
+  /**
+   * Filter, which DoctorBreak to fetch.
+   */
+  where?: Prisma.DoctorBreakWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DoctorBreaks to fetch.
+   */
+  orderBy?: Prisma.DoctorBreakOrderByWithRelationInput | Prisma.DoctorBreakOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for DoctorBreaks.
+   */
+  cursor?: Prisma.DoctorBreakWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DoctorBreaks from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DoctorBreaks.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of DoctorBreaks.
+   */
+  distinct?: Prisma.DoctorBreakScalarFieldEnum | Prisma.DoctorBreakScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * DoctorBreak findFirstOrThrow
+ */
+export type DoctorBreakFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DoctorBreak
+   */
+  select?: Prisma.DoctorBreakSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DoctorBreak
+   */
+  omit?: Prisma.DoctorBreakOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DoctorBreakInclude<ExtArgs> | null
+  /**
+   * Filter, which DoctorBreak to fetch.
+   */
+  where?: Prisma.DoctorBreakWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DoctorBreaks to fetch.
+   */
+  orderBy?: Prisma.DoctorBreakOrderByWithRelationInput | Prisma.DoctorBreakOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for DoctorBreaks.
+   */
+  cursor?: Prisma.DoctorBreakWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DoctorBreaks from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DoctorBreaks.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of DoctorBreaks.
+   */
+  distinct?: Prisma.DoctorBreakScalarFieldEnum | Prisma.DoctorBreakScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * DoctorBreak findMany
+ */
+export type DoctorBreakFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DoctorBreak
+   */
+  select?: Prisma.DoctorBreakSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DoctorBreak
+   */
+  omit?: Prisma.DoctorBreakOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DoctorBreakInclude<ExtArgs> | null
+  /**
+   * Filter, which DoctorBreaks to fetch.
+   */
+  where?: Prisma.DoctorBreakWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DoctorBreaks to fetch.
+   */
+  orderBy?: Prisma.DoctorBreakOrderByWithRelationInput | Prisma.DoctorBreakOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing DoctorBreaks.
+   */
+  cursor?: Prisma.DoctorBreakWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DoctorBreaks from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DoctorBreaks.
+   */
+  skip?: number
+  distinct?: Prisma.DoctorBreakScalarFieldEnum | Prisma.DoctorBreakScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * DoctorBreak create
+ */
+export type DoctorBreakCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DoctorBreak
+   */
+  select?: Prisma.DoctorBreakSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DoctorBreak
+   */
+  omit?: Prisma.DoctorBreakOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DoctorBreakInclude<ExtArgs> | null
+  /**
+   * The data needed to create a DoctorBreak.
+   */
+  data: Prisma.XOR<Prisma.DoctorBreakCreateInput, Prisma.DoctorBreakUncheckedCreateInput>
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * DoctorBreak createMany
+ */
+export type DoctorBreakCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many DoctorBreaks.
+   */
+  data: Prisma.DoctorBreakCreateManyInput | Prisma.DoctorBreakCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * DoctorBreak createManyAndReturn
+ */
+export type DoctorBreakCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DoctorBreak
+   */
+  select?: Prisma.DoctorBreakSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the DoctorBreak
+   */
+  omit?: Prisma.DoctorBreakOmit<ExtArgs> | null
+  /**
+   * The data used to create many DoctorBreaks.
+   */
+  data: Prisma.DoctorBreakCreateManyInput | Prisma.DoctorBreakCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DoctorBreakIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * DoctorBreak update
+ */
+export type DoctorBreakUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DoctorBreak
+   */
+  select?: Prisma.DoctorBreakSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DoctorBreak
+   */
+  omit?: Prisma.DoctorBreakOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DoctorBreakInclude<ExtArgs> | null
+  /**
+   * The data needed to update a DoctorBreak.
+   */
+  data: Prisma.XOR<Prisma.DoctorBreakUpdateInput, Prisma.DoctorBreakUncheckedUpdateInput>
+  /**
+   * Choose, which DoctorBreak to update.
+   */
+  where: Prisma.DoctorBreakWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * DoctorBreak updateMany
+ */
+export type DoctorBreakUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update DoctorBreaks.
+   */
+  data: Prisma.XOR<Prisma.DoctorBreakUpdateManyMutationInput, Prisma.DoctorBreakUncheckedUpdateManyInput>
+  /**
+   * Filter which DoctorBreaks to update
+   */
+  where?: Prisma.DoctorBreakWhereInput
+  /**
+   * Limit how many DoctorBreaks to update.
+   */
+  limit?: number
+}
+
+/**
+ * DoctorBreak updateManyAndReturn
+ */
+export type DoctorBreakUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DoctorBreak
+   */
+  select?: Prisma.DoctorBreakSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the DoctorBreak
+   */
+  omit?: Prisma.DoctorBreakOmit<ExtArgs> | null
+  /**
+   * The data used to update DoctorBreaks.
+   */
+  data: Prisma.XOR<Prisma.DoctorBreakUpdateManyMutationInput, Prisma.DoctorBreakUncheckedUpdateManyInput>
+  /**
+   * Filter which DoctorBreaks to update
+   */
+  where?: Prisma.DoctorBreakWhereInput
+  /**
+   * Limit how many DoctorBreaks to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DoctorBreakIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * DoctorBreak upsert
+ */
+export type DoctorBreakUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DoctorBreak
+   */
+  select?: Prisma.DoctorBreakSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DoctorBreak
+   */
+  omit?: Prisma.DoctorBreakOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DoctorBreakInclude<ExtArgs> | null
+  /**
+   * The filter to search for the DoctorBreak to update in case it exists.
+   */
+  where: Prisma.DoctorBreakWhereUniqueInput
+  /**
+   * In case the DoctorBreak found by the `where` argument doesn't exist, create a new DoctorBreak with this data.
+   */
+  create: Prisma.XOR<Prisma.DoctorBreakCreateInput, Prisma.DoctorBreakUncheckedCreateInput>
+  /**
+   * In case the DoctorBreak was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.DoctorBreakUpdateInput, Prisma.DoctorBreakUncheckedUpdateInput>
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * DoctorBreak delete
+ */
+export type DoctorBreakDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DoctorBreak
+   */
+  select?: Prisma.DoctorBreakSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DoctorBreak
+   */
+  omit?: Prisma.DoctorBreakOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DoctorBreakInclude<ExtArgs> | null
+  /**
+   * Filter which DoctorBreak to delete.
+   */
+  where: Prisma.DoctorBreakWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * DoctorBreak deleteMany
+ */
+export type DoctorBreakDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which DoctorBreaks to delete
+   */
+  where?: Prisma.DoctorBreakWhereInput
+  /**
+   * Limit how many DoctorBreaks to delete.
+   */
+  limit?: number
+}
+
+/**
+ * DoctorBreak without action
+ */
+export type DoctorBreakDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DoctorBreak
+   */
+  select?: Prisma.DoctorBreakSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DoctorBreak
+   */
+  omit?: Prisma.DoctorBreakOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DoctorBreakInclude<ExtArgs> | null
+}
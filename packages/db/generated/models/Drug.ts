@@ -27,6 +27,14 @@ export type AggregateDrug = {
 export type DrugMinAggregateOutputType = {
   id: string | null
   name: string | null
+  genericName: string | null
+  manufacturer: string | null
+  description: string | null
+  pregnancyCategory: $Enums.PregnancyCategory | null
+  isControlled: boolean | null
+  controlledSchedule: $Enums.ControlledSchedule | null
+  requiresPriorAuth: boolean | null
+  isActive: boolean | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -34,6 +42,14 @@ export type DrugMinAggregateOutputType = {
 export type DrugMaxAggregateOutputType = {
   id: string | null
   name: string | null
+  genericName: string | null
+  manufacturer: string | null
+  description: string | null
+  pregnancyCategory: $Enums.PregnancyCategory | null
+  isControlled: boolean | null
+  controlledSchedule: $Enums.ControlledSchedule | null
+  requiresPriorAuth: boolean | null
+  isActive: boolean | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -41,6 +57,21 @@ export type DrugMaxAggregateOutputType = {
 export type DrugCountAggregateOutputType = {
   id: number
   name: number
+  drugClasses: number
+  ingredients: number
+  genericName: number
+  brandNames: number
+  manufacturer: number
+  description: number
+  indications: number
+  contraindications: number
+  sideEffects: number
+  warnings: number
+  pregnancyCategory: number
+  isControlled: number
+  controlledSchedule: number
+  requiresPriorAuth: number
+  isActive: number
   createdAt: number
   updatedAt: number
   _all: number
@@ -50,6 +81,14 @@ export type DrugCountAggregateOutputType = {
 export type DrugMinAggregateInputType = {
   id?: true
   name?: true
+  genericName?: true
+  manufacturer?: true
+  description?: true
+  pregnancyCategory?: true
+  isControlled?: true
+  controlledSchedule?: true
+  requiresPriorAuth?: true
+  isActive?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -57,6 +96,14 @@ export type DrugMinAggregateInputType = {
 export type DrugMaxAggregateInputType = {
   id?: true
   name?: true
+  genericName?: true
+  manufacturer?: true
+  description?: true
+  pregnancyCategory?: true
+  isControlled?: true
+  controlledSchedule?: true
+  requiresPriorAuth?: true
+  isActive?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -64,6 +111,21 @@ export type DrugMaxAggregateInputType = {
 export type DrugCountAggregateInputType = {
   id?: true
   name?: true
+  drugClasses?: true
+  ingredients?: true
+  genericName?: true
+  brandNames?: true
+  manufacturer?: true
+  description?: true
+  indications?: true
+  contraindications?: true
+  sideEffects?: true
+  warnings?: true
+  pregnancyCategory?: true
+  isControlled?: true
+  controlledSchedule?: true
+  requiresPriorAuth?: true
+  isActive?: true
   createdAt?: true
   updatedAt?: true
   _all?: true
@@ -144,6 +206,21 @@ export type DrugGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArg
 export type DrugGroupByOutputType = {
   id: string
   name: string
+  drugClasses: string[]
+  ingredients: string[]
+  genericName: string | null
+  brandNames: string[]
+  manufacturer: string | null
+  description: string | null
+  indications: string[]
+  contraindications: string[]
+  sideEffects: string[]
+  warnings: string[]
+  pregnancyCategory: $Enums.PregnancyCategory | null
+  isControlled: boolean
+  controlledSchedule: $Enums.ControlledSchedule | null
+  requiresPriorAuth: boolean
+  isActive: boolean
   createdAt: Date
   updatedAt: Date
   _count: DrugCountAggregateOutputType | null
@@ -172,19 +249,53 @@ export type DrugWhereInput = {
   NOT?: Prisma.DrugWhereInput | Prisma.DrugWhereInput[]
   id?: Prisma.StringFilter<"Drug"> | string
   name?: Prisma.StringFilter<"Drug"> | string
+  drugClasses?: Prisma.StringNullableListFilter<"Drug">
+  ingredients?: Prisma.StringNullableListFilter<"Drug">
+  genericName?: Prisma.StringNullableFilter<"Drug"> | string | null
+  brandNames?: Prisma.StringNullableListFilter<"Drug">
+  manufacturer?: Prisma.StringNullableFilter<"Drug"> | string | null
+  description?: Prisma.StringNullableFilter<"Drug"> | string | null
+  indications?: Prisma.StringNullableListFilter<"Drug">
+  contraindications?: Prisma.StringNullableListFilter<"Drug">
+  sideEffects?: Prisma.StringNullableListFilter<"Drug">
+  warnings?: Prisma.StringNullableListFilter<"Drug">
+  pregnancyCategory?: Prisma.EnumPregnancyCategoryNullableFilter<"Drug"> | $Enums.PregnancyCategory | null
+  isControlled?: Prisma.BoolFilter<"Drug"> | boolean
+  controlledSchedule?: Prisma.EnumControlledScheduleNullableFilter<"Drug"> | $Enums.ControlledSchedule | null
+  requiresPriorAuth?: Prisma.BoolFilter<"Drug"> | boolean
+  isActive?: Prisma.BoolFilter<"Drug"> | boolean
   createdAt?: Prisma.DateTimeFilter<"Drug"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Drug"> | Date | string
   guidelines?: Prisma.DoseGuidelineListRelationFilter
+  formulations?: Prisma.DrugFormulationListRelationFilter
   prescribedItems?: Prisma.PrescribedItemListRelationFilter
+  allergies?: Prisma.PatientAllergyListRelationFilter
 }
 
 export type DrugOrderByWithRelationInput = {
   id?: Prisma.SortOrder
   name?: Prisma.SortOrder
+  drugClasses?: Prisma.SortOrder
+  ingredients?: Prisma.SortOrder
+  genericName?: Prisma.SortOrderInput | Prisma.SortOrder
+  brandNames?: Prisma.SortOrder
+  manufacturer?: Prisma.SortOrderInput | Prisma.SortOrder
+  description?: Prisma.SortOrderInput | Prisma.SortOrder
+  indications?: Prisma.SortOrder
+  contraindications?: Prisma.SortOrder
+  sideEffects?: Prisma.SortOrder
+  warnings?: Prisma.SortOrder
+  pregnancyCategory?: Prisma.SortOrderInput | Prisma.SortOrder
+  isControlled?: Prisma.SortOrder
+  controlledSchedule?: Prisma.SortOrderInput | Prisma.SortOrder
+  requiresPriorAuth?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   guidelines?: Prisma.DoseGuidelineOrderByRelationAggregateInput
+  formulations?: Prisma.DrugFormulationOrderByRelationAggregateInput
   prescribedItems?: Prisma.PrescribedItemOrderByRelationAggregateInput
+  allergies?: Prisma.PatientAllergyOrderByRelationAggregateInput
 }
 
 export type DrugWhereUniqueInput = Prisma.AtLeast<{
@@ -193,15 +304,47 @@ export type DrugWhereUniqueInput = Prisma.AtLeast<{
   AND?: Prisma.DrugWhereInput | Prisma.DrugWhereInput[]
   OR?: Prisma.DrugWhereInput[]
   NOT?: Prisma.DrugWhereInput | Prisma.DrugWhereInput[]
+  drugClasses?: Prisma.StringNullableListFilter<"Drug">
+  ingredients?: Prisma.StringNullableListFilter<"Drug">
+  genericName?: Prisma.StringNullableFilter<"Drug"> | string | null
+  brandNames?: Prisma.StringNullableListFilter<"Drug">
+  manufacturer?: Prisma.StringNullableFilter<"Drug"> | string | null
+  description?: Prisma.StringNullableFilter<"Drug"> | string | null
+  indications?: Prisma.StringNullableListFilter<"Drug">
+  contraindications?: Prisma.StringNullableListFilter<"Drug">
+  sideEffects?: Prisma.StringNullableListFilter<"Drug">
+  warnings?: Prisma.StringNullableListFilter<"Drug">
+  pregnancyCategory?: Prisma.EnumPregnancyCategoryNullableFilter<"Drug"> | $Enums.PregnancyCategory | null
+  isControlled?: Prisma.BoolFilter<"Drug"> | boolean
+  controlledSchedule?: Prisma.EnumControlledScheduleNullableFilter<"Drug"> | $Enums.ControlledSchedule | null
+  requiresPriorAuth?: Prisma.BoolFilter<"Drug"> | boolean
+  isActive?: Prisma.BoolFilter<"Drug"> | boolean
   createdAt?: Prisma.DateTimeFilter<"Drug"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Drug"> | Date | string
   guidelines?: Prisma.DoseGuidelineListRelationFilter
+  formulations?: Prisma.DrugFormulationListRelationFilter
   prescribedItems?: Prisma.PrescribedItemListRelationFilter
+  allergies?: Prisma.PatientAllergyListRelationFilter
 }, "id" | "name">
 
 export type DrugOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
   name?: Prisma.SortOrder
+  drugClasses?: Prisma.SortOrder
+  ingredients?: Prisma.SortOrder
+  genericName?: Prisma.SortOrderInput | Prisma.SortOrder
+  brandNames?: Prisma.SortOrder
+  manufacturer?: Prisma.SortOrderInput | Prisma.SortOrder
+  description?: Prisma.SortOrderInput | Prisma.SortOrder
+  indications?: Prisma.SortOrder
+  contraindications?: Prisma.SortOrder
+  sideEffects?: Prisma.SortOrder
+  warnings?: Prisma.SortOrder
+  pregnancyCategory?: Prisma.SortOrderInput | Prisma.SortOrder
+  isControlled?: Prisma.SortOrder
+  controlledSchedule?: Prisma.SortOrderInput | Prisma.SortOrder
+  requiresPriorAuth?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.DrugCountOrderByAggregateInput
@@ -215,6 +358,21 @@ export type DrugScalarWhereWithAggregatesInput = {
   NOT?: Prisma.DrugScalarWhereWithAggregatesInput | Prisma.DrugScalarWhereWithAggregatesInput[]
   id?: Prisma.StringWithAggregatesFilter<"Drug"> | string
   name?: Prisma.StringWithAggregatesFilter<"Drug"> | string
+  drugClasses?: Prisma.StringNullableListFilter<"Drug">
+  ingredients?: Prisma.StringNullableListFilter<"Drug">
+  genericName?: Prisma.StringNullableWithAggregatesFilter<"Drug"> | string | null
+  brandNames?: Prisma.StringNullableListFilter<"Drug">
+  manufacturer?: Prisma.StringNullableWithAggregatesFilter<"Drug"> | string | null
+  description?: Prisma.StringNullableWithAggregatesFilter<"Drug"> | string | null
+  indications?: Prisma.StringNullableListFilter<"Drug">
+  contraindications?: Prisma.StringNullableListFilter<"Drug">
+  sideEffects?: Prisma.StringNullableListFilter<"Drug">
+  warnings?: Prisma.StringNullableListFilter<"Drug">
+  pregnancyCategory?: Prisma.EnumPregnancyCategoryNullableWithAggregatesFilter<"Drug"> | $Enums.PregnancyCategory | null
+  isControlled?: Prisma.BoolWithAggregatesFilter<"Drug"> | boolean
+  controlledSchedule?: Prisma.EnumControlledScheduleNullableWithAggregatesFilter<"Drug"> | $Enums.ControlledSchedule | null
+  requiresPriorAuth?: Prisma.BoolWithAggregatesFilter<"Drug"> | boolean
+  isActive?: Prisma.BoolWithAggregatesFilter<"Drug"> | boolean
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Drug"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Drug"> | Date | string
 }
@@ -222,42 +380,125 @@ export type DrugScalarWhereWithAggregatesInput = {
 export type DrugCreateInput = {
   id?: string
   name: string
+  drugClasses?: Prisma.DrugCreatedrugClassesInput | string[]
+  ingredients?: Prisma.DrugCreateingredientsInput | string[]
+  genericName?: string | null
+  brandNames?: Prisma.DrugCreatebrandNamesInput | string[]
+  manufacturer?: string | null
+  description?: string | null
+  indications?: Prisma.DrugCreateindicationsInput | string[]
+  contraindications?: Prisma.DrugCreatecontraindicationsInput | string[]
+  sideEffects?: Prisma.DrugCreatesideEffectsInput | string[]
+  warnings?: Prisma.DrugCreatewarningsInput | string[]
+  pregnancyCategory?: $Enums.PregnancyCategory | null
+  isControlled?: boolean
+  controlledSchedule?: $Enums.ControlledSchedule | null
+  requiresPriorAuth?: boolean
+  isActive?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   guidelines?: Prisma.DoseGuidelineCreateNestedManyWithoutDrugInput
+  formulations?: Prisma.DrugFormulationCreateNestedManyWithoutDrugInput
   prescribedItems?: Prisma.PrescribedItemCreateNestedManyWithoutDrugInput
+  allergies?: Prisma.PatientAllergyCreateNestedManyWithoutDrugInput
 }
 
 export type DrugUncheckedCreateInput = {
   id?: string
   name: string
+  drugClasses?: Prisma.DrugCreatedrugClassesInput | string[]
+  ingredients?: Prisma.DrugCreateingredientsInput | string[]
+  genericName?: string | null
+  brandNames?: Prisma.DrugCreatebrandNamesInput | string[]
+  manufacturer?: string | null
+  description?: string | null
+  indications?: Prisma.DrugCreateindicationsInput | string[]
+  contraindications?: Prisma.DrugCreatecontraindicationsInput | string[]
+  sideEffects?: Prisma.DrugCreatesideEffectsInput | string[]
+  warnings?: Prisma.DrugCreatewarningsInput | string[]
+  pregnancyCategory?: $Enums.PregnancyCategory | null
+  isControlled?: boolean
+  controlledSchedule?: $Enums.ControlledSchedule | null
+  requiresPriorAuth?: boolean
+  isActive?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   guidelines?: Prisma.DoseGuidelineUncheckedCreateNestedManyWithoutDrugInput
+  formulations?: Prisma.DrugFormulationUncheckedCreateNestedManyWithoutDrugInput
   prescribedItems?: Prisma.PrescribedItemUncheckedCreateNestedManyWithoutDrugInput
+  allergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutDrugInput
 }
 
 export type DrugUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
+  drugClasses?: Prisma.DrugUpdatedrugClassesInput | string[]
+  ingredients?: Prisma.DrugUpdateingredientsInput | string[]
+  genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandNames?: Prisma.DrugUpdatebrandNamesInput | string[]
+  manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indications?: Prisma.DrugUpdateindicationsInput | string[]
+  contraindications?: Prisma.DrugUpdatecontraindicationsInput | string[]
+  sideEffects?: Prisma.DrugUpdatesideEffectsInput | string[]
+  warnings?: Prisma.DrugUpdatewarningsInput | string[]
+  pregnancyCategory?: Prisma.NullableEnumPregnancyCategoryFieldUpdateOperationsInput | $Enums.PregnancyCategory | null
+  isControlled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  controlledSchedule?: Prisma.NullableEnumControlledScheduleFieldUpdateOperationsInput | $Enums.ControlledSchedule | null
+  requiresPriorAuth?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   guidelines?: Prisma.DoseGuidelineUpdateManyWithoutDrugNestedInput
+  formulations?: Prisma.DrugFormulationUpdateManyWithoutDrugNestedInput
   prescribedItems?: Prisma.PrescribedItemUpdateManyWithoutDrugNestedInput
+  allergies?: Prisma.PatientAllergyUpdateManyWithoutDrugNestedInput
 }
 
 export type DrugUncheckedUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
+  drugClasses?: Prisma.DrugUpdatedrugClassesInput | string[]
+  ingredients?: Prisma.DrugUpdateingredientsInput | string[]
+  genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandNames?: Prisma.DrugUpdatebrandNamesInput | string[]
+  manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indications?: Prisma.DrugUpdateindicationsInput | string[]
+  contraindications?: Prisma.DrugUpdatecontraindicationsInput | string[]
+  sideEffects?: Prisma.DrugUpdatesideEffectsInput | string[]
+  warnings?: Prisma.DrugUpdatewarningsInput | string[]
+  pregnancyCategory?: Prisma.NullableEnumPregnancyCategoryFieldUpdateOperationsInput | $Enums.PregnancyCategory | null
+  isControlled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  controlledSchedule?: Prisma.NullableEnumControlledScheduleFieldUpdateOperationsInput | $Enums.ControlledSchedule | null
+  requiresPriorAuth?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   guidelines?: Prisma.DoseGuidelineUncheckedUpdateManyWithoutDrugNestedInput
+  formulations?: Prisma.DrugFormulationUncheckedUpdateManyWithoutDrugNestedInput
   prescribedItems?: Prisma.PrescribedItemUncheckedUpdateManyWithoutDrugNestedInput
+  allergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutDrugNestedInput
 }
 
 export type DrugCreateManyInput = {
   id?: string
   name: string
+  drugClasses?: Prisma.DrugCreatedrugClassesInput | string[]
+  ingredients?: Prisma.DrugCreateingredientsInput | string[]
+  genericName?: string | null
+  brandNames?: Prisma.DrugCreatebrandNamesInput | string[]
+  manufacturer?: string | null
+  description?: string | null
+  indications?: Prisma.DrugCreateindicationsInput | string[]
+  contraindications?: Prisma.DrugCreatecontraindicationsInput | string[]
+  sideEffects?: Prisma.DrugCreatesideEffectsInput | string[]
+  warnings?: Prisma.DrugCreatewarningsInput | string[]
+  pregnancyCategory?: $Enums.PregnancyCategory | null
+  isControlled?: boolean
+  controlledSchedule?: $Enums.ControlledSchedule | null
+  requiresPriorAuth?: boolean
+  isActive?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -265,6 +506,21 @@ export type DrugCreateManyInput = {
 export type DrugUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
+  drugClasses?: Prisma.DrugUpdatedrugClassesInput | string[]
+  ingredients?: Prisma.DrugUpdateingredientsInput | string[]
+  genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandNames?: Prisma.DrugUpdatebrandNamesInput | string[]
+  manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indications?: Prisma.DrugUpdateindicationsInput | string[]
+  contraindications?: Prisma.DrugUpdatecontraindicationsInput | string[]
+  sideEffects?: Prisma.DrugUpdatesideEffectsInput | string[]
+  warnings?: Prisma.DrugUpdatewarningsInput | string[]
+  pregnancyCategory?: Prisma.NullableEnumPregnancyCategoryFieldUpdateOperationsInput | $Enums.PregnancyCategory | null
+  isControlled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  controlledSchedule?: Prisma.NullableEnumControlledScheduleFieldUpdateOperationsInput | $Enums.ControlledSchedule | null
+  requiresPriorAuth?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -272,6 +528,21 @@ export type DrugUpdateManyMutationInput = {
 export type DrugUncheckedUpdateManyInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
+  drugClasses?: Prisma.DrugUpdatedrugClassesInput | string[]
+  ingredients?: Prisma.DrugUpdateingredientsInput | string[]
+  genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandNames?: Prisma.DrugUpdatebrandNamesInput | string[]
+  manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indications?: Prisma.DrugUpdateindicationsInput | string[]
+  contraindications?: Prisma.DrugUpdatecontraindicationsInput | string[]
+  sideEffects?: Prisma.DrugUpdatesideEffectsInput | string[]
+  warnings?: Prisma.DrugUpdatewarningsInput | string[]
+  pregnancyCategory?: Prisma.NullableEnumPregnancyCategoryFieldUpdateOperationsInput | $Enums.PregnancyCategory | null
+  isControlled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  controlledSchedule?: Prisma.NullableEnumControlledScheduleFieldUpdateOperationsInput | $Enums.ControlledSchedule | null
+  requiresPriorAuth?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -279,6 +550,21 @@ export type DrugUncheckedUpdateManyInput = {
 export type DrugCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   name?: Prisma.SortOrder
+  drugClasses?: Prisma.SortOrder
+  ingredients?: Prisma.SortOrder
+  genericName?: Prisma.SortOrder
+  brandNames?: Prisma.SortOrder
+  manufacturer?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  indications?: Prisma.SortOrder
+  contraindications?: Prisma.SortOrder
+  sideEffects?: Prisma.SortOrder
+  warnings?: Prisma.SortOrder
+  pregnancyCategory?: Prisma.SortOrder
+  isControlled?: Prisma.SortOrder
+  controlledSchedule?: Prisma.SortOrder
+  requiresPriorAuth?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -286,6 +572,14 @@ export type DrugCountOrderByAggregateInput = {
 export type DrugMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder
   name?: Prisma.SortOrder
+  genericName?: Prisma.SortOrder
+  manufacturer?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  pregnancyCategory?: Prisma.SortOrder
+  isControlled?: Prisma.SortOrder
+  controlledSchedule?: Prisma.SortOrder
+  requiresPriorAuth?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -293,6 +587,14 @@ export type DrugMaxOrderByAggregateInput = {
 export type DrugMinOrderByAggregateInput = {
   id?: Prisma.SortOrder
   name?: Prisma.SortOrder
+  genericName?: Prisma.SortOrder
+  manufacturer?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  pregnancyCategory?: Prisma.SortOrder
+  isControlled?: Prisma.SortOrder
+  controlledSchedule?: Prisma.SortOrder
+  requiresPriorAuth?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -302,6 +604,96 @@ export type DrugScalarRelationFilter = {
   isNot?: Prisma.DrugWhereInput
 }
 
+export type DrugNullableScalarRelationFilter = {
+  is?: Prisma.DrugWhereInput | null
+  isNot?: Prisma.DrugWhereInput | null
+}
+
+export type DrugCreatedrugClassesInput = {
+  set: string[]
+}
+
+export type DrugCreateingredientsInput = {
+  set: string[]
+}
+
+export type DrugCreatebrandNamesInput = {
+  set: string[]
+}
+
+export type DrugCreateindicationsInput = {
+  set: string[]
+}
+
+export type DrugCreatecontraindicationsInput = {
+  set: string[]
+}
+
+export type DrugCreatesideEffectsInput = {
+  set: string[]
+}
+
+export type DrugCreatewarningsInput = {
+  set: string[]
+}
+
+export type DrugUpdatedrugClassesInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type DrugUpdateingredientsInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type DrugUpdatebrandNamesInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type DrugUpdateindicationsInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type DrugUpdatecontraindicationsInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type DrugUpdatesideEffectsInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type DrugUpdatewarningsInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
+export type NullableEnumPregnancyCategoryFieldUpdateOperationsInput = {
+  set?: $Enums.PregnancyCategory | null
+}
+
+export type NullableEnumControlledScheduleFieldUpdateOperationsInput = {
+  set?: $Enums.ControlledSchedule | null
+}
+
+export type DrugCreateNestedOneWithoutFormulationsInput = {
+  create?: Prisma.XOR<Prisma.DrugCreateWithoutFormulationsInput, Prisma.DrugUncheckedCreateWithoutFormulationsInput>
+  connectOrCreate?: Prisma.DrugCreateOrConnectWithoutFormulationsInput
+  connect?: Prisma.DrugWhereUniqueInput
+}
+
+export type DrugUpdateOneRequiredWithoutFormulationsNestedInput = {
+  create?: Prisma.XOR<Prisma.DrugCreateWithoutFormulationsInput, Prisma.DrugUncheckedCreateWithoutFormulationsInput>
+  connectOrCreate?: Prisma.DrugCreateOrConnectWithoutFormulationsInput
+  upsert?: Prisma.DrugUpsertWithoutFormulationsInput
+  connect?: Prisma.DrugWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.DrugUpdateToOneWithWhereWithoutFormulationsInput, Prisma.DrugUpdateWithoutFormulationsInput>, Prisma.DrugUncheckedUpdateWithoutFormulationsInput>
+}
+
 export type DrugCreateNestedOneWithoutGuidelinesInput = {
   create?: Prisma.XOR<Prisma.DrugCreateWithoutGuidelinesInput, Prisma.DrugUncheckedCreateWithoutGuidelinesInput>
   connectOrCreate?: Prisma.DrugCreateOrConnectWithoutGuidelinesInput
@@ -330,20 +722,186 @@ export type DrugUpdateOneRequiredWithoutPrescribedItemsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.DrugUpdateToOneWithWhereWithoutPrescribedItemsInput, Prisma.DrugUpdateWithoutPrescribedItemsInput>, Prisma.DrugUncheckedUpdateWithoutPrescribedItemsInput>
 }
 
+export type DrugCreateNestedOneWithoutAllergiesInput = {
+  create?: Prisma.XOR<Prisma.DrugCreateWithoutAllergiesInput, Prisma.DrugUncheckedCreateWithoutAllergiesInput>
+  connectOrCreate?: Prisma.DrugCreateOrConnectWithoutAllergiesInput
+  connect?: Prisma.DrugWhereUniqueInput
+}
+
+export type DrugUpdateOneWithoutAllergiesNestedInput = {
+  create?: Prisma.XOR<Prisma.DrugCreateWithoutAllergiesInput, Prisma.DrugUncheckedCreateWithoutAllergiesInput>
+  connectOrCreate?: Prisma.DrugCreateOrConnectWithoutAllergiesInput
+  upsert?: Prisma.DrugUpsertWithoutAllergiesInput
+  disconnect?: Prisma.DrugWhereInput | boolean
+  delete?: Prisma.DrugWhereInput | boolean
+  connect?: Prisma.DrugWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.DrugUpdateToOneWithWhereWithoutAllergiesInput, Prisma.DrugUpdateWithoutAllergiesInput>, Prisma.DrugUncheckedUpdateWithoutAllergiesInput>
+}
+
+export type DrugCreateWithoutFormulationsInput = {
+  id?: string
+  name: string
+  drugClasses?: Prisma.DrugCreatedrugClassesInput | string[]
+  ingredients?: Prisma.DrugCreateingredientsInput | string[]
+  genericName?: string | null
+  brandNames?: Prisma.DrugCreatebrandNamesInput | string[]
+  manufacturer?: string | null
+  description?: string | null
+  indications?: Prisma.DrugCreateindicationsInput | string[]
+  contraindications?: Prisma.DrugCreatecontraindicationsInput | string[]
+  sideEffects?: Prisma.DrugCreatesideEffectsInput | string[]
+  warnings?: Prisma.DrugCreatewarningsInput | string[]
+  pregnancyCategory?: $Enums.PregnancyCategory | null
+  isControlled?: boolean
+  controlledSchedule?: $Enums.ControlledSchedule | null
+  requiresPriorAuth?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  guidelines?: Prisma.DoseGuidelineCreateNestedManyWithoutDrugInput
+  prescribedItems?: Prisma.PrescribedItemCreateNestedManyWithoutDrugInput
+  allergies?: Prisma.PatientAllergyCreateNestedManyWithoutDrugInput
+}
+
+export type DrugUncheckedCreateWithoutFormulationsInput = {
+  id?: string
+  name: string
+  drugClasses?: Prisma.DrugCreatedrugClassesInput | string[]
+  ingredients?: Prisma.DrugCreateingredientsInput | string[]
+  genericName?: string | null
+  brandNames?: Prisma.DrugCreatebrandNamesInput | string[]
+  manufacturer?: string | null
+  description?: string | null
+  indications?: Prisma.DrugCreateindicationsInput | string[]
+  contraindications?: Prisma.DrugCreatecontraindicationsInput | string[]
+  sideEffects?: Prisma.DrugCreatesideEffectsInput | string[]
+  warnings?: Prisma.DrugCreatewarningsInput | string[]
+  pregnancyCategory?: $Enums.PregnancyCategory | null
+  isControlled?: boolean
+  controlledSchedule?: $Enums.ControlledSchedule | null
+  requiresPriorAuth?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  guidelines?: Prisma.DoseGuidelineUncheckedCreateNestedManyWithoutDrugInput
+  prescribedItems?: Prisma.PrescribedItemUncheckedCreateNestedManyWithoutDrugInput
+  allergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutDrugInput
+}
+
+export type DrugCreateOrConnectWithoutFormulationsInput = {
+  where: Prisma.DrugWhereUniqueInput
+  create: Prisma.XOR<Prisma.DrugCreateWithoutFormulationsInput, Prisma.DrugUncheckedCreateWithoutFormulationsInput>
+}
+
+export type DrugUpsertWithoutFormulationsInput = {
+  update: Prisma.XOR<Prisma.DrugUpdateWithoutFormulationsInput, Prisma.DrugUncheckedUpdateWithoutFormulationsInput>
+  create: Prisma.XOR<Prisma.DrugCreateWithoutFormulationsInput, Prisma.DrugUncheckedCreateWithoutFormulationsInput>
+  where?: Prisma.DrugWhereInput
+}
+
+export type DrugUpdateToOneWithWhereWithoutFormulationsInput = {
+  where?: Prisma.DrugWhereInput
+  data: Prisma.XOR<Prisma.DrugUpdateWithoutFormulationsInput, Prisma.DrugUncheckedUpdateWithoutFormulationsInput>
+}
+
+export type DrugUpdateWithoutFormulationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  drugClasses?: Prisma.DrugUpdatedrugClassesInput | string[]
+  ingredients?: Prisma.DrugUpdateingredientsInput | string[]
+  genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandNames?: Prisma.DrugUpdatebrandNamesInput | string[]
+  manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indications?: Prisma.DrugUpdateindicationsInput | string[]
+  contraindications?: Prisma.DrugUpdatecontraindicationsInput | string[]
+  sideEffects?: Prisma.DrugUpdatesideEffectsInput | string[]
+  warnings?: Prisma.DrugUpdatewarningsInput | string[]
+  pregnancyCategory?: Prisma.NullableEnumPregnancyCategoryFieldUpdateOperationsInput | $Enums.PregnancyCategory | null
+  isControlled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  controlledSchedule?: Prisma.NullableEnumControlledScheduleFieldUpdateOperationsInput | $Enums.ControlledSchedule | null
+  requiresPriorAuth?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  guidelines?: Prisma.DoseGuidelineUpdateManyWithoutDrugNestedInput
+  prescribedItems?: Prisma.PrescribedItemUpdateManyWithoutDrugNestedInput
+  allergies?: Prisma.PatientAllergyUpdateManyWithoutDrugNestedInput
+}
+
+export type DrugUncheckedUpdateWithoutFormulationsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  drugClasses?: Prisma.DrugUpdatedrugClassesInput | string[]
+  ingredients?: Prisma.DrugUpdateingredientsInput | string[]
+  genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandNames?: Prisma.DrugUpdatebrandNamesInput | string[]
+  manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indications?: Prisma.DrugUpdateindicationsInput | string[]
+  contraindications?: Prisma.DrugUpdatecontraindicationsInput | string[]
+  sideEffects?: Prisma.DrugUpdatesideEffectsInput | string[]
+  warnings?: Prisma.DrugUpdatewarningsInput | string[]
+  pregnancyCategory?: Prisma.NullableEnumPregnancyCategoryFieldUpdateOperationsInput | $Enums.PregnancyCategory | null
+  isControlled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  controlledSchedule?: Prisma.NullableEnumControlledScheduleFieldUpdateOperationsInput | $Enums.ControlledSchedule | null
+  requiresPriorAuth?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  guidelines?: Prisma.DoseGuidelineUncheckedUpdateManyWithoutDrugNestedInput
+  prescribedItems?: Prisma.PrescribedItemUncheckedUpdateManyWithoutDrugNestedInput
+  allergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutDrugNestedInput
+}
+
 export type DrugCreateWithoutGuidelinesInput = {
   id?: string
   name: string
+  drugClasses?: Prisma.DrugCreatedrugClassesInput | string[]
+  ingredients?: Prisma.DrugCreateingredientsInput | string[]
+  genericName?: string | null
+  brandNames?: Prisma.DrugCreatebrandNamesInput | string[]
+  manufacturer?: string | null
+  description?: string | null
+  indications?: Prisma.DrugCreateindicationsInput | string[]
+  contraindications?: Prisma.DrugCreatecontraindicationsInput | string[]
+  sideEffects?: Prisma.DrugCreatesideEffectsInput | string[]
+  warnings?: Prisma.DrugCreatewarningsInput | string[]
+  pregnancyCategory?: $Enums.PregnancyCategory | null
+  isControlled?: boolean
+  controlledSchedule?: $Enums.ControlledSchedule | null
+  requiresPriorAuth?: boolean
+  isActive?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
+  formulations?: Prisma.DrugFormulationCreateNestedManyWithoutDrugInput
   prescribedItems?: Prisma.PrescribedItemCreateNestedManyWithoutDrugInput
+  allergies?: Prisma.PatientAllergyCreateNestedManyWithoutDrugInput
 }
 
 export type DrugUncheckedCreateWithoutGuidelinesInput = {
   id?: string
   name: string
+  drugClasses?: Prisma.DrugCreatedrugClassesInput | string[]
+  ingredients?: Prisma.DrugCreateingredientsInput | string[]
+  genericName?: string | null
+  brandNames?: Prisma.DrugCreatebrandNamesInput | string[]
+  manufacturer?: string | null
+  description?: string | null
+  indications?: Prisma.DrugCreateindicationsInput | string[]
+  contraindications?: Prisma.DrugCreatecontraindicationsInput | string[]
+  sideEffects?: Prisma.DrugCreatesideEffectsInput | string[]
+  warnings?: Prisma.DrugCreatewarningsInput | string[]
+  pregnancyCategory?: $Enums.PregnancyCategory | null
+  isControlled?: boolean
+  controlledSchedule?: $Enums.ControlledSchedule | null
+  requiresPriorAuth?: boolean
+  isActive?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
+  formulations?: Prisma.DrugFormulationUncheckedCreateNestedManyWithoutDrugInput
   prescribedItems?: Prisma.PrescribedItemUncheckedCreateNestedManyWithoutDrugInput
+  allergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutDrugInput
 }
 
 export type DrugCreateOrConnectWithoutGuidelinesInput = {
@@ -365,33 +923,101 @@ export type DrugUpdateToOneWithWhereWithoutGuidelinesInput = {
 export type DrugUpdateWithoutGuidelinesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
+  drugClasses?: Prisma.DrugUpdatedrugClassesInput | string[]
+  ingredients?: Prisma.DrugUpdateingredientsInput | string[]
+  genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandNames?: Prisma.DrugUpdatebrandNamesInput | string[]
+  manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indications?: Prisma.DrugUpdateindicationsInput | string[]
+  contraindications?: Prisma.DrugUpdatecontraindicationsInput | string[]
+  sideEffects?: Prisma.DrugUpdatesideEffectsInput | string[]
+  warnings?: Prisma.DrugUpdatewarningsInput | string[]
+  pregnancyCategory?: Prisma.NullableEnumPregnancyCategoryFieldUpdateOperationsInput | $Enums.PregnancyCategory | null
+  isControlled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  controlledSchedule?: Prisma.NullableEnumControlledScheduleFieldUpdateOperationsInput | $Enums.ControlledSchedule | null
+  requiresPriorAuth?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  formulations?: Prisma.DrugFormulationUpdateManyWithoutDrugNestedInput
   prescribedItems?: Prisma.PrescribedItemUpdateManyWithoutDrugNestedInput
+  allergies?: Prisma.PatientAllergyUpdateManyWithoutDrugNestedInput
 }
 
 export type DrugUncheckedUpdateWithoutGuidelinesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
+  drugClasses?: Prisma.DrugUpdatedrugClassesInput | string[]
+  ingredients?: Prisma.DrugUpdateingredientsInput | string[]
+  genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandNames?: Prisma.DrugUpdatebrandNamesInput | string[]
+  manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indications?: Prisma.DrugUpdateindicationsInput | string[]
+  contraindications?: Prisma.DrugUpdatecontraindicationsInput | string[]
+  sideEffects?: Prisma.DrugUpdatesideEffectsInput | string[]
+  warnings?: Prisma.DrugUpdatewarningsInput | string[]
+  pregnancyCategory?: Prisma.NullableEnumPregnancyCategoryFieldUpdateOperationsInput | $Enums.PregnancyCategory | null
+  isControlled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  controlledSchedule?: Prisma.NullableEnumControlledScheduleFieldUpdateOperationsInput | $Enums.ControlledSchedule | null
+  requiresPriorAuth?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  formulations?: Prisma.DrugFormulationUncheckedUpdateManyWithoutDrugNestedInput
   prescribedItems?: Prisma.PrescribedItemUncheckedUpdateManyWithoutDrugNestedInput
+  allergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutDrugNestedInput
 }
 
 export type DrugCreateWithoutPrescribedItemsInput = {
   id?: string
   name: string
+  drugClasses?: Prisma.DrugCreatedrugClassesInput | string[]
+  ingredients?: Prisma.DrugCreateingredientsInput | string[]
+  genericName?: string | null
+  brandNames?: Prisma.DrugCreatebrandNamesInput | string[]
+  manufacturer?: string | null
+  description?: string | null
+  indications?: Prisma.DrugCreateindicationsInput | string[]
+  contraindications?: Prisma.DrugCreatecontraindicationsInput | string[]
+  sideEffects?: Prisma.DrugCreatesideEffectsInput | string[]
+  warnings?: Prisma.DrugCreatewarningsInput | string[]
+  pregnancyCategory?: $Enums.PregnancyCategory | null
+  isControlled?: boolean
+  controlledSchedule?: $Enums.ControlledSchedule | null
+  requiresPriorAuth?: boolean
+  isActive?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   guidelines?: Prisma.DoseGuidelineCreateNestedManyWithoutDrugInput
+  formulations?: Prisma.DrugFormulationCreateNestedManyWithoutDrugInput
+  allergies?: Prisma.PatientAllergyCreateNestedManyWithoutDrugInput
 }
 
 export type DrugUncheckedCreateWithoutPrescribedItemsInput = {
   id?: string
   name: string
+  drugClasses?: Prisma.DrugCreatedrugClassesInput | string[]
+  ingredients?: Prisma.DrugCreateingredientsInput | string[]
+  genericName?: string | null
+  brandNames?: Prisma.DrugCreatebrandNamesInput | string[]
+  manufacturer?: string | null
+  description?: string | null
+  indications?: Prisma.DrugCreateindicationsInput | string[]
+  contraindications?: Prisma.DrugCreatecontraindicationsInput | string[]
+  sideEffects?: Prisma.DrugCreatesideEffectsInput | string[]
+  warnings?: Prisma.DrugCreatewarningsInput | string[]
+  pregnancyCategory?: $Enums.PregnancyCategory | null
+  isControlled?: boolean
+  controlledSchedule?: $Enums.ControlledSchedule | null
+  requiresPriorAuth?: boolean
+  isActive?: boolean
   createdAt?: Date | string
   updatedAt?: Date | string
   guidelines?: Prisma.DoseGuidelineUncheckedCreateNestedManyWithoutDrugInput
+  formulations?: Prisma.DrugFormulationUncheckedCreateNestedManyWithoutDrugInput
+  allergies?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutDrugInput
 }
 
 export type DrugCreateOrConnectWithoutPrescribedItemsInput = {
@@ -413,17 +1039,167 @@ export type DrugUpdateToOneWithWhereWithoutPrescribedItemsInput = {
 export type DrugUpdateWithoutPrescribedItemsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
+  drugClasses?: Prisma.DrugUpdatedrugClassesInput | string[]
+  ingredients?: Prisma.DrugUpdateingredientsInput | string[]
+  genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandNames?: Prisma.DrugUpdatebrandNamesInput | string[]
+  manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indications?: Prisma.DrugUpdateindicationsInput | string[]
+  contraindications?: Prisma.DrugUpdatecontraindicationsInput | string[]
+  sideEffects?: Prisma.DrugUpdatesideEffectsInput | string[]
+  warnings?: Prisma.DrugUpdatewarningsInput | string[]
+  pregnancyCategory?: Prisma.NullableEnumPregnancyCategoryFieldUpdateOperationsInput | $Enums.PregnancyCategory | null
+  isControlled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  controlledSchedule?: Prisma.NullableEnumControlledScheduleFieldUpdateOperationsInput | $Enums.ControlledSchedule | null
+  requiresPriorAuth?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   guidelines?: Prisma.DoseGuidelineUpdateManyWithoutDrugNestedInput
+  formulations?: Prisma.DrugFormulationUpdateManyWithoutDrugNestedInput
+  allergies?: Prisma.PatientAllergyUpdateManyWithoutDrugNestedInput
 }
 
 export type DrugUncheckedUpdateWithoutPrescribedItemsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   name?: Prisma.StringFieldUpdateOperationsInput | string
+  drugClasses?: Prisma.DrugUpdatedrugClassesInput | string[]
+  ingredients?: Prisma.DrugUpdateingredientsInput | string[]
+  genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandNames?: Prisma.DrugUpdatebrandNamesInput | string[]
+  manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indications?: Prisma.DrugUpdateindicationsInput | string[]
+  contraindications?: Prisma.DrugUpdatecontraindicationsInput | string[]
+  sideEffects?: Prisma.DrugUpdatesideEffectsInput | string[]
+  warnings?: Prisma.DrugUpdatewarningsInput | string[]
+  pregnancyCategory?: Prisma.NullableEnumPregnancyCategoryFieldUpdateOperationsInput | $Enums.PregnancyCategory | null
+  isControlled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  controlledSchedule?: Prisma.NullableEnumControlledScheduleFieldUpdateOperationsInput | $Enums.ControlledSchedule | null
+  requiresPriorAuth?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  guidelines?: Prisma.DoseGuidelineUncheckedUpdateManyWithoutDrugNestedInput
+  formulations?: Prisma.DrugFormulationUncheckedUpdateManyWithoutDrugNestedInput
+  allergies?: Prisma.PatientAllergyUncheckedUpdateManyWithoutDrugNestedInput
+}
+
+export type DrugCreateWithoutAllergiesInput = {
+  id?: string
+  name: string
+  drugClasses?: Prisma.DrugCreatedrugClassesInput | string[]
+  ingredients?: Prisma.DrugCreateingredientsInput | string[]
+  genericName?: string | null
+  brandNames?: Prisma.DrugCreatebrandNamesInput | string[]
+  manufacturer?: string | null
+  description?: string | null
+  indications?: Prisma.DrugCreateindicationsInput | string[]
+  contraindications?: Prisma.DrugCreatecontraindicationsInput | string[]
+  sideEffects?: Prisma.DrugCreatesideEffectsInput | string[]
+  warnings?: Prisma.DrugCreatewarningsInput | string[]
+  pregnancyCategory?: $Enums.PregnancyCategory | null
+  isControlled?: boolean
+  controlledSchedule?: $Enums.ControlledSchedule | null
+  requiresPriorAuth?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  guidelines?: Prisma.DoseGuidelineCreateNestedManyWithoutDrugInput
+  formulations?: Prisma.DrugFormulationCreateNestedManyWithoutDrugInput
+  prescribedItems?: Prisma.PrescribedItemCreateNestedManyWithoutDrugInput
+}
+
+export type DrugUncheckedCreateWithoutAllergiesInput = {
+  id?: string
+  name: string
+  drugClasses?: Prisma.DrugCreatedrugClassesInput | string[]
+  ingredients?: Prisma.DrugCreateingredientsInput | string[]
+  genericName?: string | null
+  brandNames?: Prisma.DrugCreatebrandNamesInput | string[]
+  manufacturer?: string | null
+  description?: string | null
+  indications?: Prisma.DrugCreateindicationsInput | string[]
+  contraindications?: Prisma.DrugCreatecontraindicationsInput | string[]
+  sideEffects?: Prisma.DrugCreatesideEffectsInput | string[]
+  warnings?: Prisma.DrugCreatewarningsInput | string[]
+  pregnancyCategory?: $Enums.PregnancyCategory | null
+  isControlled?: boolean
+  controlledSchedule?: $Enums.ControlledSchedule | null
+  requiresPriorAuth?: boolean
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  guidelines?: Prisma.DoseGuidelineUncheckedCreateNestedManyWithoutDrugInput
+  formulations?: Prisma.DrugFormulationUncheckedCreateNestedManyWithoutDrugInput
+  prescribedItems?: Prisma.PrescribedItemUncheckedCreateNestedManyWithoutDrugInput
+}
+
+export type DrugCreateOrConnectWithoutAllergiesInput = {
+  where: Prisma.DrugWhereUniqueInput
+  create: Prisma.XOR<Prisma.DrugCreateWithoutAllergiesInput, Prisma.DrugUncheckedCreateWithoutAllergiesInput>
+}
+
+export type DrugUpsertWithoutAllergiesInput = {
+  update: Prisma.XOR<Prisma.DrugUpdateWithoutAllergiesInput, Prisma.DrugUncheckedUpdateWithoutAllergiesInput>
+  create: Prisma.XOR<Prisma.DrugCreateWithoutAllergiesInput, Prisma.DrugUncheckedCreateWithoutAllergiesInput>
+  where?: Prisma.DrugWhereInput
+}
+
+export type DrugUpdateToOneWithWhereWithoutAllergiesInput = {
+  where?: Prisma.DrugWhereInput
+  data: Prisma.XOR<Prisma.DrugUpdateWithoutAllergiesInput, Prisma.DrugUncheckedUpdateWithoutAllergiesInput>
+}
+
+export type DrugUpdateWithoutAllergiesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  drugClasses?: Prisma.DrugUpdatedrugClassesInput | string[]
+  ingredients?: Prisma.DrugUpdateingredientsInput | string[]
+  genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandNames?: Prisma.DrugUpdatebrandNamesInput | string[]
+  manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indications?: Prisma.DrugUpdateindicationsInput | string[]
+  contraindications?: Prisma.DrugUpdatecontraindicationsInput | string[]
+  sideEffects?: Prisma.DrugUpdatesideEffectsInput | string[]
+  warnings?: Prisma.DrugUpdatewarningsInput | string[]
+  pregnancyCategory?: Prisma.NullableEnumPregnancyCategoryFieldUpdateOperationsInput | $Enums.PregnancyCategory | null
+  isControlled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  controlledSchedule?: Prisma.NullableEnumControlledScheduleFieldUpdateOperationsInput | $Enums.ControlledSchedule | null
+  requiresPriorAuth?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  guidelines?: Prisma.DoseGuidelineUpdateManyWithoutDrugNestedInput
+  formulations?: Prisma.DrugFormulationUpdateManyWithoutDrugNestedInput
+  prescribedItems?: Prisma.PrescribedItemUpdateManyWithoutDrugNestedInput
+}
+
+export type DrugUncheckedUpdateWithoutAllergiesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  drugClasses?: Prisma.DrugUpdatedrugClassesInput | string[]
+  ingredients?: Prisma.DrugUpdateingredientsInput | string[]
+  genericName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  brandNames?: Prisma.DrugUpdatebrandNamesInput | string[]
+  manufacturer?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  indications?: Prisma.DrugUpdateindicationsInput | string[]
+  contraindications?: Prisma.DrugUpdatecontraindicationsInput | string[]
+  sideEffects?: Prisma.DrugUpdatesideEffectsInput | string[]
+  warnings?: Prisma.DrugUpdatewarningsInput | string[]
+  pregnancyCategory?: Prisma.NullableEnumPregnancyCategoryFieldUpdateOperationsInput | $Enums.PregnancyCategory | null
+  isControlled?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  controlledSchedule?: Prisma.NullableEnumControlledScheduleFieldUpdateOperationsInput | $Enums.ControlledSchedule | null
+  requiresPriorAuth?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   guidelines?: Prisma.DoseGuidelineUncheckedUpdateManyWithoutDrugNestedInput
+  formulations?: Prisma.DrugFormulationUncheckedUpdateManyWithoutDrugNestedInput
+  prescribedItems?: Prisma.PrescribedItemUncheckedUpdateManyWithoutDrugNestedInput
 }
 
 
@@ -433,12 +1209,16 @@ export type DrugUncheckedUpdateWithoutPrescribedItemsInput = {
 
 export type DrugCountOutputType = {
   guidelines: number
+  formulations: number
   prescribedItems: number
+  allergies: number
 }
 
 export type DrugCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   guidelines?: boolean | DrugCountOutputTypeCountGuidelinesArgs
+  formulations?: boolean | DrugCountOutputTypeCountFormulationsArgs
   prescribedItems?: boolean | DrugCountOutputTypeCountPrescribedItemsArgs
+  allergies?: boolean | DrugCountOutputTypeCountAllergiesArgs
 }
 
 /**
@@ -458,6 +1238,13 @@ export type DrugCountOutputTypeCountGuidelinesArgs<ExtArgs extends runtime.Types
   where?: Prisma.DoseGuidelineWhereInput
 }
 
+/**
+ * DrugCountOutputType without action
+ */
+export type DrugCountOutputTypeCountFormulationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.DrugFormulationWhereInput
+}
+
 /**
  * DrugCountOutputType without action
  */
@@ -465,20 +1252,59 @@ export type DrugCountOutputTypeCountPrescribedItemsArgs<ExtArgs extends runtime.
   where?: Prisma.PrescribedItemWhereInput
 }
 
+/**
+ * DrugCountOutputType without action
+ */
+export type DrugCountOutputTypeCountAllergiesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PatientAllergyWhereInput
+}
+
 
 export type DrugSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   name?: boolean
+  drugClasses?: boolean
+  ingredients?: boolean
+  genericName?: boolean
+  brandNames?: boolean
+  manufacturer?: boolean
+  description?: boolean
+  indications?: boolean
+  contraindications?: boolean
+  sideEffects?: boolean
+  warnings?: boolean
+  pregnancyCategory?: boolean
+  isControlled?: boolean
+  controlledSchedule?: boolean
+  requiresPriorAuth?: boolean
+  isActive?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   guidelines?: boolean | Prisma.Drug$guidelinesArgs<ExtArgs>
+  formulations?: boolean | Prisma.Drug$formulationsArgs<ExtArgs>
   prescribedItems?: boolean | Prisma.Drug$prescribedItemsArgs<ExtArgs>
+  allergies?: boolean | Prisma.Drug$allergiesArgs<ExtArgs>
   _count?: boolean | Prisma.DrugCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["drug"]>
 
 export type DrugSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   name?: boolean
+  drugClasses?: boolean
+  ingredients?: boolean
+  genericName?: boolean
+  brandNames?: boolean
+  manufacturer?: boolean
+  description?: boolean
+  indications?: boolean
+  contraindications?: boolean
+  sideEffects?: boolean
+  warnings?: boolean
+  pregnancyCategory?: boolean
+  isControlled?: boolean
+  controlledSchedule?: boolean
+  requiresPriorAuth?: boolean
+  isActive?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }, ExtArgs["result"]["drug"]>
@@ -486,6 +1312,21 @@ export type DrugSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensio
 export type DrugSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   name?: boolean
+  drugClasses?: boolean
+  ingredients?: boolean
+  genericName?: boolean
+  brandNames?: boolean
+  manufacturer?: boolean
+  description?: boolean
+  indications?: boolean
+  contraindications?: boolean
+  sideEffects?: boolean
+  warnings?: boolean
+  pregnancyCategory?: boolean
+  isControlled?: boolean
+  controlledSchedule?: boolean
+  requiresPriorAuth?: boolean
+  isActive?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }, ExtArgs["result"]["drug"]>
@@ -493,14 +1334,31 @@ export type DrugSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensio
 export type DrugSelectScalar = {
   id?: boolean
   name?: boolean
+  drugClasses?: boolean
+  ingredients?: boolean
+  genericName?: boolean
+  brandNames?: boolean
+  manufacturer?: boolean
+  description?: boolean
+  indications?: boolean
+  contraindications?: boolean
+  sideEffects?: boolean
+  warnings?: boolean
+  pregnancyCategory?: boolean
+  isControlled?: boolean
+  controlledSchedule?: boolean
+  requiresPriorAuth?: boolean
+  isActive?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type DrugOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "createdAt" | "updatedAt", ExtArgs["result"]["drug"]>
+export type DrugOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "name" | "drugClasses" | "ingredients" | "genericName" | "brandNames" | "manufacturer" | "description" | "indications" | "contraindications" | "sideEffects" | "warnings" | "pregnancyCategory" | "isControlled" | "controlledSchedule" | "requiresPriorAuth" | "isActive" | "createdAt" | "updatedAt", ExtArgs["result"]["drug"]>
 export type DrugInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   guidelines?: boolean | Prisma.Drug$guidelinesArgs<ExtArgs>
+  formulations?: boolean | Prisma.Drug$formulationsArgs<ExtArgs>
   prescribedItems?: boolean | Prisma.Drug$prescribedItemsArgs<ExtArgs>
+  allergies?: boolean | Prisma.Drug$allergiesArgs<ExtArgs>
   _count?: boolean | Prisma.DrugCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type DrugIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
@@ -510,11 +1368,37 @@ export type $DrugPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs =
   name: "Drug"
   objects: {
     guidelines: Prisma.$DoseGuidelinePayload<ExtArgs>[]
+    formulations: Prisma.$DrugFormulationPayload<ExtArgs>[]
     prescribedItems: Prisma.$PrescribedItemPayload<ExtArgs>[]
+    allergies: Prisma.$PatientAllergyPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
     name: string
+    /**
+     * Classes interactions can be listed under, lower case, e.g. "aminoglycoside"
+     */
+    drugClasses: string[]
+    /**
+     * Active ingredients, lower case; a drug with none listed is its own ingredient
+     */
+    ingredients: string[]
+    genericName: string | null
+    brandNames: string[]
+    manufacturer: string | null
+    description: string | null
+    indications: string[]
+    contraindications: string[]
+    sideEffects: string[]
+    warnings: string[]
+    pregnancyCategory: $Enums.PregnancyCategory | null
+    isControlled: boolean
+    controlledSchedule: $Enums.ControlledSchedule | null
+    requiresPriorAuth: boolean
+    /**
+     * Inactive drugs stay on existing prescriptions but are not offered for new ones
+     */
+    isActive: boolean
     createdAt: Date
     updatedAt: Date
   }, ExtArgs["result"]["drug"]>
@@ -912,7 +1796,9 @@ readonly fields: DrugFieldRefs;
 export interface Prisma__DrugClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   guidelines<T extends Prisma.Drug$guidelinesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Drug$guidelinesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DoseGuidelinePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  formulations<T extends Prisma.Drug$formulationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Drug$formulationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DrugFormulationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   prescribedItems<T extends Prisma.Drug$prescribedItemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Drug$prescribedItemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PrescribedItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  allergies<T extends Prisma.Drug$allergiesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Drug$allergiesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PatientAllergyPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -944,6 +1830,21 @@ export interface Prisma__DrugClient<T, Null = never, ExtArgs extends runtime.Typ
 export interface DrugFieldRefs {
   readonly id: Prisma.FieldRef<"Drug", 'String'>
   readonly name: Prisma.FieldRef<"Drug", 'String'>
+  readonly drugClasses: Prisma.FieldRef<"Drug", 'String[]'>
+  readonly ingredients: Prisma.FieldRef<"Drug", 'String[]'>
+  readonly genericName: Prisma.FieldRef<"Drug", 'String'>
+  readonly brandNames: Prisma.FieldRef<"Drug", 'String[]'>
+  readonly manufacturer: Prisma.FieldRef<"Drug", 'String'>
+  readonly description: Prisma.FieldRef<"Drug", 'String'>
+  readonly indications: Prisma.FieldRef<"Drug", 'String[]'>
+  readonly contraindications: Prisma.FieldRef<"Drug", 'String[]'>
+  readonly sideEffects: Prisma.FieldRef<"Drug", 'String[]'>
+  readonly warnings: Prisma.FieldRef<"Drug", 'String[]'>
+  readonly pregnancyCategory: Prisma.FieldRef<"Drug", 'PregnancyCategory'>
+  readonly isControlled: Prisma.FieldRef<"Drug", 'Boolean'>
+  readonly controlledSchedule: Prisma.FieldRef<"Drug", 'ControlledSchedule'>
+  readonly requiresPriorAuth: Prisma.FieldRef<"Drug", 'Boolean'>
+  readonly isActive: Prisma.FieldRef<"Drug", 'Boolean'>
   readonly createdAt: Prisma.FieldRef<"Drug", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Drug", 'DateTime'>
 }
@@ -1366,6 +2267,30 @@ export type Drug$guidelinesArgs<ExtArgs extends runtime.Types.Extensions.Interna
   distinct?: Prisma.DoseGuidelineScalarFieldEnum | Prisma.DoseGuidelineScalarFieldEnum[]
 }
 
+/**
+ * Drug.formulations
+ */
+export type Drug$formulationsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DrugFormulation
+   */
+  select?: Prisma.DrugFormulationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DrugFormulation
+   */
+  omit?: Prisma.DrugFormulationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DrugFormulationInclude<ExtArgs> | null
+  where?: Prisma.DrugFormulationWhereInput
+  orderBy?: Prisma.DrugFormulationOrderByWithRelationInput | Prisma.DrugFormulationOrderByWithRelationInput[]
+  cursor?: Prisma.DrugFormulationWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.DrugFormulationScalarFieldEnum | Prisma.DrugFormulationScalarFieldEnum[]
+}
+
 /**
  * Drug.prescribedItems
  */
@@ -1390,6 +2315,30 @@ export type Drug$prescribedItemsArgs<ExtArgs extends runtime.Types.Extensions.In
   distinct?: Prisma.PrescribedItemScalarFieldEnum | Prisma.PrescribedItemScalarFieldEnum[]
 }
 
+/**
+ * Drug.allergies
+ */
+export type Drug$allergiesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientAllergy
+   */
+  select?: Prisma.PatientAllergySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientAllergy
+   */
+  omit?: Prisma.PatientAllergyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientAllergyInclude<ExtArgs> | null
+  where?: Prisma.PatientAllergyWhereInput
+  orderBy?: Prisma.PatientAllergyOrderByWithRelationInput | Prisma.PatientAllergyOrderByWithRelationInput[]
+  cursor?: Prisma.PatientAllergyWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PatientAllergyScalarFieldEnum | Prisma.PatientAllergyScalarFieldEnum[]
+}
+
 /**
  * Drug without action
  */
@@ -0,0 +1,1832 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `DrugFormulation` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model DrugFormulation
+ * A product a drug is given as, e.g. a 125 mg/5 mL syrup or a scored 500 mg
+ * tablet. Liquids hold `strength` per `perVolumeMl`; solids hold it per unit.
+ */
+export type DrugFormulationModel = runtime.Types.Result.DefaultSelection<Prisma.$DrugFormulationPayload>
+
+export type AggregateDrugFormulation = {
+  _count: DrugFormulationCountAggregateOutputType | null
+  _avg: DrugFormulationAvgAggregateOutputType | null
+  _sum: DrugFormulationSumAggregateOutputType | null
+  _min: DrugFormulationMinAggregateOutputType | null
+  _max: DrugFormulationMaxAggregateOutputType | null
+}
+
+export type DrugFormulationAvgAggregateOutputType = {
+  strength: number | null
+  perVolumeMl: number | null
+  divisions: number | null
+}
+
+export type DrugFormulationSumAggregateOutputType = {
+  strength: number | null
+  perVolumeMl: number | null
+  divisions: number | null
+}
+
+export type DrugFormulationMinAggregateOutputType = {
+  id: string | null
+  drugId: string | null
+  form: $Enums.DrugForm | null
+  route: $Enums.DrugRoute | null
+  strength: number | null
+  strengthUnit: string | null
+  perVolumeMl: number | null
+  divisions: number | null
+  label: string | null
+  isActive: boolean | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type DrugFormulationMaxAggregateOutputType = {
+  id: string | null
+  drugId: string | null
+  form: $Enums.DrugForm | null
+  route: $Enums.DrugRoute | null
+  strength: number | null
+  strengthUnit: string | null
+  perVolumeMl: number | null
+  divisions: number | null
+  label: string | null
+  isActive: boolean | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type DrugFormulationCountAggregateOutputType = {
+  id: number
+  drugId: number
+  form: number
+  route: number
+  strength: number
+  strengthUnit: number
+  perVolumeMl: number
+  divisions: number
+  label: number
+  isActive: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type DrugFormulationAvgAggregateInputType = {
+  strength?: true
+  perVolumeMl?: true
+  divisions?: true
+}
+
+export type DrugFormulationSumAggregateInputType = {
+  strength?: true
+  perVolumeMl?: true
+  divisions?: true
+}
+
+export type DrugFormulationMinAggregateInputType = {
+  id?: true
+  drugId?: true
+  form?: true
+  route?: true
+  strength?: true
+  strengthUnit?: true
+  perVolumeMl?: true
+  divisions?: true
+  label?: true
+  isActive?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type DrugFormulationMaxAggregateInputType = {
+  id?: true
+  drugId?: true
+  form?: true
+  route?: true
+  strength?: true
+  strengthUnit?: true
+  perVolumeMl?: true
+  divisions?: true
+  label?: true
+  isActive?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type DrugFormulationCountAggregateInputType = {
+  id?: true
+  drugId?: true
+  form?: true
+  route?: true
+  strength?: true
+  strengthUnit?: true
+  perVolumeMl?: true
+  divisions?: true
+  label?: true
+  isActive?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type DrugFormulationAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which DrugFormulation to aggregate.
+   */
+  where?: Prisma.DrugFormulationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DrugFormulations to fetch.
+   */
+  orderBy?: Prisma.DrugFormulationOrderByWithRelationInput | Prisma.DrugFormulationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.DrugFormulationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DrugFormulations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DrugFormulations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned DrugFormulations
+  **/
+  _count?: true | DrugFormulationCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: DrugFormulationAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: DrugFormulationSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: DrugFormulationMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: DrugFormulationMaxAggregateInputType
+}
+
+export type GetDrugFormulationAggregateType<T extends DrugFormulationAggregateArgs> = {
+      [P in keyof T & keyof AggregateDrugFormulation]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateDrugFormulation[P]>
+    : Prisma.GetScalarType<T[P], AggregateDrugFormulation[P]>
+}
+
+
+
+
+export type DrugFormulationGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.DrugFormulationWhereInput
+  orderBy?: Prisma.DrugFormulationOrderByWithAggregationInput | Prisma.DrugFormulationOrderByWithAggregationInput[]
+  by: Prisma.DrugFormulationScalarFieldEnum[] | Prisma.DrugFormulationScalarFieldEnum
+  having?: Prisma.DrugFormulationScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: DrugFormulationCountAggregateInputType | true
+  _avg?: DrugFormulationAvgAggregateInputType
+  _sum?: DrugFormulationSumAggregateInputType
+  _min?: DrugFormulationMinAggregateInputType
+  _max?: DrugFormulationMaxAggregateInputType
+}
+
+export type DrugFormulationGroupByOutputType = {
+  id: string
+  drugId: string
+  form: $Enums.DrugForm
+  route: $Enums.DrugRoute
+  strength: number
+  strengthUnit: string
+  perVolumeMl: number | null
+  divisions: number
+  label: string | null
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+  _count: DrugFormulationCountAggregateOutputType | null
+  _avg: DrugFormulationAvgAggregateOutputType | null
+  _sum: DrugFormulationSumAggregateOutputType | null
+  _min: DrugFormulationMinAggregateOutputType | null
+  _max: DrugFormulationMaxAggregateOutputType | null
+}
+
+type GetDrugFormulationGroupByPayload<T extends DrugFormulationGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<DrugFormulationGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof DrugFormulationGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], DrugFormulationGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], DrugFormulationGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type DrugFormulationWhereInput = {
+  AND?: Prisma.DrugFormulationWhereInput | Prisma.DrugFormulationWhereInput[]
+  OR?: Prisma.DrugFormulationWhereInput[]
+  NOT?: Prisma.DrugFormulationWhereInput | Prisma.DrugFormulationWhereInput[]
+  id?: Prisma.StringFilter<"DrugFormulation"> | string
+  drugId?: Prisma.StringFilter<"DrugFormulation"> | string
+  form?: Prisma.EnumDrugFormFilter<"DrugFormulation"> | $Enums.DrugForm
+  route?: Prisma.EnumDrugRouteFilter<"DrugFormulation"> | $Enums.DrugRoute
+  strength?: Prisma.FloatFilter<"DrugFormulation"> | number
+  strengthUnit?: Prisma.StringFilter<"DrugFormulation"> | string
+  perVolumeMl?: Prisma.FloatNullableFilter<"DrugFormulation"> | number | null
+  divisions?: Prisma.IntFilter<"DrugFormulation"> | number
+  label?: Prisma.StringNullableFilter<"DrugFormulation"> | string | null
+  isActive?: Prisma.BoolFilter<"DrugFormulation"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"DrugFormulation"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"DrugFormulation"> | Date | string
+  drug?: Prisma.XOR<Prisma.DrugScalarRelationFilter, Prisma.DrugWhereInput>
+  prescribedItems?: Prisma.PrescribedItemListRelationFilter
+}
+
+export type DrugFormulationOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  drugId?: Prisma.SortOrder
+  form?: Prisma.SortOrder
+  route?: Prisma.SortOrder
+  strength?: Prisma.SortOrder
+  strengthUnit?: Prisma.SortOrder
+  perVolumeMl?: Prisma.SortOrderInput | Prisma.SortOrder
+  divisions?: Prisma.SortOrder
+  label?: Prisma.SortOrderInput | Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  drug?: Prisma.DrugOrderByWithRelationInput
+  prescribedItems?: Prisma.PrescribedItemOrderByRelationAggregateInput
+}
+
+export type DrugFormulationWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.DrugFormulationWhereInput | Prisma.DrugFormulationWhereInput[]
+  OR?: Prisma.DrugFormulationWhereInput[]
+  NOT?: Prisma.DrugFormulationWhereInput | Prisma.DrugFormulationWhereInput[]
+  drugId?: Prisma.StringFilter<"DrugFormulation"> | string
+  form?: Prisma.EnumDrugFormFilter<"DrugFormulation"> | $Enums.DrugForm
+  route?: Prisma.EnumDrugRouteFilter<"DrugFormulation"> | $Enums.DrugRoute
+  strength?: Prisma.FloatFilter<"DrugFormulation"> | number
+  strengthUnit?: Prisma.StringFilter<"DrugFormulation"> | string
+  perVolumeMl?: Prisma.FloatNullableFilter<"DrugFormulation"> | number | null
+  divisions?: Prisma.IntFilter<"DrugFormulation"> | number
+  label?: Prisma.StringNullableFilter<"DrugFormulation"> | string | null
+  isActive?: Prisma.BoolFilter<"DrugFormulation"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"DrugFormulation"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"DrugFormulation"> | Date | string
+  drug?: Prisma.XOR<Prisma.DrugScalarRelationFilter, Prisma.DrugWhereInput>
+  prescribedItems?: Prisma.PrescribedItemListRelationFilter
+}, "id">
+
+export type DrugFormulationOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  drugId?: Prisma.SortOrder
+  form?: Prisma.SortOrder
+  route?: Prisma.SortOrder
+  strength?: Prisma.SortOrder
+  strengthUnit?: Prisma.SortOrder
+  perVolumeMl?: Prisma.SortOrderInput | Prisma.SortOrder
+  divisions?: Prisma.SortOrder
+  label?: Prisma.SortOrderInput | Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.DrugFormulationCountOrderByAggregateInput
+  _avg?: Prisma.DrugFormulationAvgOrderByAggregateInput
+  _max?: Prisma.DrugFormulationMaxOrderByAggregateInput
+  _min?: Prisma.DrugFormulationMinOrderByAggregateInput
+  _sum?: Prisma.DrugFormulationSumOrderByAggregateInput
+}
+
+export type DrugFormulationScalarWhereWithAggregatesInput = {
+  AND?: Prisma.DrugFormulationScalarWhereWithAggregatesInput | Prisma.DrugFormulationScalarWhereWithAggregatesInput[]
+  OR?: Prisma.DrugFormulationScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.DrugFormulationScalarWhereWithAggregatesInput | Prisma.DrugFormulationScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"DrugFormulation"> | string
+  drugId?: Prisma.StringWithAggregatesFilter<"DrugFormulation"> | string
+  form?: Prisma.EnumDrugFormWithAggregatesFilter<"DrugFormulation"> | $Enums.DrugForm
+  route?: Prisma.EnumDrugRouteWithAggregatesFilter<"DrugFormulation"> | $Enums.DrugRoute
+  strength?: Prisma.FloatWithAggregatesFilter<"DrugFormulation"> | number
+  strengthUnit?: Prisma.StringWithAggregatesFilter<"DrugFormulation"> | string
+  perVolumeMl?: Prisma.FloatNullableWithAggregatesFilter<"DrugFormulation"> | number | null
+  divisions?: Prisma.IntWithAggregatesFilter<"DrugFormulation"> | number
+  label?: Prisma.StringNullableWithAggregatesFilter<"DrugFormulation"> | string | null
+  isActive?: Prisma.BoolWithAggregatesFilter<"DrugFormulation"> | boolean
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"DrugFormulation"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"DrugFormulation"> | Date | string
+}
+
+export type DrugFormulationCreateInput = {
+  id?: string
+  form: $Enums.DrugForm
+  route: $Enums.DrugRoute
+  strength: number
+  strengthUnit?: string
+  perVolumeMl?: number | null
+  divisions?: number
+  label?: string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  drug: Prisma.DrugCreateNestedOneWithoutFormulationsInput
+  prescribedItems?: Prisma.PrescribedItemCreateNestedManyWithoutFormulationInput
+}
+
+export type DrugFormulationUncheckedCreateInput = {
+  id?: string
+  drugId: string
+  form: $Enums.DrugForm
+  route: $Enums.DrugRoute
+  strength: number
+  strengthUnit?: string
+  perVolumeMl?: number | null
+  divisions?: number
+  label?: string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  prescribedItems?: Prisma.PrescribedItemUncheckedCreateNestedManyWithoutFormulationInput
+}
+
+export type DrugFormulationUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  form?: Prisma.EnumDrugFormFieldUpdateOperationsInput | $Enums.DrugForm
+  route?: Prisma.EnumDrugRouteFieldUpdateOperationsInput | $Enums.DrugRoute
+  strength?: Prisma.FloatFieldUpdateOperationsInput | number
+  strengthUnit?: Prisma.StringFieldUpdateOperationsInput | string
+  perVolumeMl?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  divisions?: Prisma.IntFieldUpdateOperationsInput | number
+  label?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  drug?: Prisma.DrugUpdateOneRequiredWithoutFormulationsNestedInput
+  prescribedItems?: Prisma.PrescribedItemUpdateManyWithoutFormulationNestedInput
+}
+
+export type DrugFormulationUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  drugId?: Prisma.StringFieldUpdateOperationsInput | string
+  form?: Prisma.EnumDrugFormFieldUpdateOperationsInput | $Enums.DrugForm
+  route?: Prisma.EnumDrugRouteFieldUpdateOperationsInput | $Enums.DrugRoute
+  strength?: Prisma.FloatFieldUpdateOperationsInput | number
+  strengthUnit?: Prisma.StringFieldUpdateOperationsInput | string
+  perVolumeMl?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  divisions?: Prisma.IntFieldUpdateOperationsInput | number
+  label?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescribedItems?: Prisma.PrescribedItemUncheckedUpdateManyWithoutFormulationNestedInput
+}
+
+export type DrugFormulationCreateManyInput = {
+  id?: string
+  drugId: string
+  form: $Enums.DrugForm
+  route: $Enums.DrugRoute
+  strength: number
+  strengthUnit?: string
+  perVolumeMl?: number | null
+  divisions?: number
+  label?: string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type DrugFormulationUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  form?: Prisma.EnumDrugFormFieldUpdateOperationsInput | $Enums.DrugForm
+  route?: Prisma.EnumDrugRouteFieldUpdateOperationsInput | $Enums.DrugRoute
+  strength?: Prisma.FloatFieldUpdateOperationsInput | number
+  strengthUnit?: Prisma.StringFieldUpdateOperationsInput | string
+  perVolumeMl?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  divisions?: Prisma.IntFieldUpdateOperationsInput | number
+  label?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DrugFormulationUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  drugId?: Prisma.StringFieldUpdateOperationsInput | string
+  form?: Prisma.EnumDrugFormFieldUpdateOperationsInput | $Enums.DrugForm
+  route?: Prisma.EnumDrugRouteFieldUpdateOperationsInput | $Enums.DrugRoute
+  strength?: Prisma.FloatFieldUpdateOperationsInput | number
+  strengthUnit?: Prisma.StringFieldUpdateOperationsInput | string
+  perVolumeMl?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  divisions?: Prisma.IntFieldUpdateOperationsInput | number
+  label?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DrugFormulationListRelationFilter = {
+  every?: Prisma.DrugFormulationWhereInput
+  some?: Prisma.DrugFormulationWhereInput
+  none?: Prisma.DrugFormulationWhereInput
+}
+
+export type DrugFormulationOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type DrugFormulationCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  drugId?: Prisma.SortOrder
+  form?: Prisma.SortOrder
+  route?: Prisma.SortOrder
+  strength?: Prisma.SortOrder
+  strengthUnit?: Prisma.SortOrder
+  perVolumeMl?: Prisma.SortOrder
+  divisions?: Prisma.SortOrder
+  label?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type DrugFormulationAvgOrderByAggregateInput = {
+  strength?: Prisma.SortOrder
+  perVolumeMl?: Prisma.SortOrder
+  divisions?: Prisma.SortOrder
+}
+
+export type DrugFormulationMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  drugId?: Prisma.SortOrder
+  form?: Prisma.SortOrder
+  route?: Prisma.SortOrder
+  strength?: Prisma.SortOrder
+  strengthUnit?: Prisma.SortOrder
+  perVolumeMl?: Prisma.SortOrder
+  divisions?: Prisma.SortOrder
+  label?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type DrugFormulationMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  drugId?: Prisma.SortOrder
+  form?: Prisma.SortOrder
+  route?: Prisma.SortOrder
+  strength?: Prisma.SortOrder
+  strengthUnit?: Prisma.SortOrder
+  perVolumeMl?: Prisma.SortOrder
+  divisions?: Prisma.SortOrder
+  label?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type DrugFormulationSumOrderByAggregateInput = {
+  strength?: Prisma.SortOrder
+  perVolumeMl?: Prisma.SortOrder
+  divisions?: Prisma.SortOrder
+}
+
+export type DrugFormulationNullableScalarRelationFilter = {
+  is?: Prisma.DrugFormulationWhereInput | null
+  isNot?: Prisma.DrugFormulationWhereInput | null
+}
+
+export type DrugFormulationCreateNestedManyWithoutDrugInput = {
+  create?: Prisma.XOR<Prisma.DrugFormulationCreateWithoutDrugInput, Prisma.DrugFormulationUncheckedCreateWithoutDrugInput> | Prisma.DrugFormulationCreateWithoutDrugInput[] | Prisma.DrugFormulationUncheckedCreateWithoutDrugInput[]
+  connectOrCreate?: Prisma.DrugFormulationCreateOrConnectWithoutDrugInput | Prisma.DrugFormulationCreateOrConnectWithoutDrugInput[]
+  createMany?: Prisma.DrugFormulationCreateManyDrugInputEnvelope
+  connect?: Prisma.DrugFormulationWhereUniqueInput | Prisma.DrugFormulationWhereUniqueInput[]
+}
+
+export type DrugFormulationUncheckedCreateNestedManyWithoutDrugInput = {
+  create?: Prisma.XOR<Prisma.DrugFormulationCreateWithoutDrugInput, Prisma.DrugFormulationUncheckedCreateWithoutDrugInput> | Prisma.DrugFormulationCreateWithoutDrugInput[] | Prisma.DrugFormulationUncheckedCreateWithoutDrugInput[]
+  connectOrCreate?: Prisma.DrugFormulationCreateOrConnectWithoutDrugInput | Prisma.DrugFormulationCreateOrConnectWithoutDrugInput[]
+  createMany?: Prisma.DrugFormulationCreateManyDrugInputEnvelope
+  connect?: Prisma.DrugFormulationWhereUniqueInput | Prisma.DrugFormulationWhereUniqueInput[]
+}
+
+export type DrugFormulationUpdateManyWithoutDrugNestedInput = {
+  create?: Prisma.XOR<Prisma.DrugFormulationCreateWithoutDrugInput, Prisma.DrugFormulationUncheckedCreateWithoutDrugInput> | Prisma.DrugFormulationCreateWithoutDrugInput[] | Prisma.DrugFormulationUncheckedCreateWithoutDrugInput[]
+  connectOrCreate?: Prisma.DrugFormulationCreateOrConnectWithoutDrugInput | Prisma.DrugFormulationCreateOrConnectWithoutDrugInput[]
+  upsert?: Prisma.DrugFormulationUpsertWithWhereUniqueWithoutDrugInput | Prisma.DrugFormulationUpsertWithWhereUniqueWithoutDrugInput[]
+  createMany?: Prisma.DrugFormulationCreateManyDrugInputEnvelope
+  set?: Prisma.DrugFormulationWhereUniqueInput | Prisma.DrugFormulationWhereUniqueInput[]
+  disconnect?: Prisma.DrugFormulationWhereUniqueInput | Prisma.DrugFormulationWhereUniqueInput[]
+  delete?: Prisma.DrugFormulationWhereUniqueInput | Prisma.DrugFormulationWhereUniqueInput[]
+  connect?: Prisma.DrugFormulationWhereUniqueInput | Prisma.DrugFormulationWhereUniqueInput[]
+  update?: Prisma.DrugFormulationUpdateWithWhereUniqueWithoutDrugInput | Prisma.DrugFormulationUpdateWithWhereUniqueWithoutDrugInput[]
+  updateMany?: Prisma.DrugFormulationUpdateManyWithWhereWithoutDrugInput | Prisma.DrugFormulationUpdateManyWithWhereWithoutDrugInput[]
+  deleteMany?: Prisma.DrugFormulationScalarWhereInput | Prisma.DrugFormulationScalarWhereInput[]
+}
+
+export type DrugFormulationUncheckedUpdateManyWithoutDrugNestedInput = {
+  create?: Prisma.XOR<Prisma.DrugFormulationCreateWithoutDrugInput, Prisma.DrugFormulationUncheckedCreateWithoutDrugInput> | Prisma.DrugFormulationCreateWithoutDrugInput[] | Prisma.DrugFormulationUncheckedCreateWithoutDrugInput[]
+  connectOrCreate?: Prisma.DrugFormulationCreateOrConnectWithoutDrugInput | Prisma.DrugFormulationCreateOrConnectWithoutDrugInput[]
+  upsert?: Prisma.DrugFormulationUpsertWithWhereUniqueWithoutDrugInput | Prisma.DrugFormulationUpsertWithWhereUniqueWithoutDrugInput[]
+  createMany?: Prisma.DrugFormulationCreateManyDrugInputEnvelope
+  set?: Prisma.DrugFormulationWhereUniqueInput | Prisma.DrugFormulationWhereUniqueInput[]
+  disconnect?: Prisma.DrugFormulationWhereUniqueInput | Prisma.DrugFormulationWhereUniqueInput[]
+  delete?: Prisma.DrugFormulationWhereUniqueInput | Prisma.DrugFormulationWhereUniqueInput[]
+  connect?: Prisma.DrugFormulationWhereUniqueInput | Prisma.DrugFormulationWhereUniqueInput[]
+  update?: Prisma.DrugFormulationUpdateWithWhereUniqueWithoutDrugInput | Prisma.DrugFormulationUpdateWithWhereUniqueWithoutDrugInput[]
+  updateMany?: Prisma.DrugFormulationUpdateManyWithWhereWithoutDrugInput | Prisma.DrugFormulationUpdateManyWithWhereWithoutDrugInput[]
+  deleteMany?: Prisma.DrugFormulationScalarWhereInput | Prisma.DrugFormulationScalarWhereInput[]
+}
+
+export type EnumDrugFormFieldUpdateOperationsInput = {
+  set?: $Enums.DrugForm
+}
+
+export type EnumDrugRouteFieldUpdateOperationsInput = {
+  set?: $Enums.DrugRoute
+}
+
+export type DrugFormulationCreateNestedOneWithoutPrescribedItemsInput = {
+  create?: Prisma.XOR<Prisma.DrugFormulationCreateWithoutPrescribedItemsInput, Prisma.DrugFormulationUncheckedCreateWithoutPrescribedItemsInput>
+  connectOrCreate?: Prisma.DrugFormulationCreateOrConnectWithoutPrescribedItemsInput
+  connect?: Prisma.DrugFormulationWhereUniqueInput
+}
+
+export type DrugFormulationUpdateOneWithoutPrescribedItemsNestedInput = {
+  create?: Prisma.XOR<Prisma.DrugFormulationCreateWithoutPrescribedItemsInput, Prisma.DrugFormulationUncheckedCreateWithoutPrescribedItemsInput>
+  connectOrCreate?: Prisma.DrugFormulationCreateOrConnectWithoutPrescribedItemsInput
+  upsert?: Prisma.DrugFormulationUpsertWithoutPrescribedItemsInput
+  disconnect?: Prisma.DrugFormulationWhereInput | boolean
+  delete?: Prisma.DrugFormulationWhereInput | boolean
+  connect?: Prisma.DrugFormulationWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.DrugFormulationUpdateToOneWithWhereWithoutPrescribedItemsInput, Prisma.DrugFormulationUpdateWithoutPrescribedItemsInput>, Prisma.DrugFormulationUncheckedUpdateWithoutPrescribedItemsInput>
+}
+
+export type DrugFormulationCreateWithoutDrugInput = {
+  id?: string
+  form: $Enums.DrugForm
+  route: $Enums.DrugRoute
+  strength: number
+  strengthUnit?: string
+  perVolumeMl?: number | null
+  divisions?: number
+  label?: string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  prescribedItems?: Prisma.PrescribedItemCreateNestedManyWithoutFormulationInput
+}
+
+export type DrugFormulationUncheckedCreateWithoutDrugInput = {
+  id?: string
+  form: $Enums.DrugForm
+  route: $Enums.DrugRoute
+  strength: number
+  strengthUnit?: string
+  perVolumeMl?: number | null
+  divisions?: number
+  label?: string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  prescribedItems?: Prisma.PrescribedItemUncheckedCreateNestedManyWithoutFormulationInput
+}
+
+export type DrugFormulationCreateOrConnectWithoutDrugInput = {
+  where: Prisma.DrugFormulationWhereUniqueInput
+  create: Prisma.XOR<Prisma.DrugFormulationCreateWithoutDrugInput, Prisma.DrugFormulationUncheckedCreateWithoutDrugInput>
+}
+
+export type DrugFormulationCreateManyDrugInputEnvelope = {
+  data: Prisma.DrugFormulationCreateManyDrugInput | Prisma.DrugFormulationCreateManyDrugInput[]
+  skipDuplicates?: boolean
+}
+
+export type DrugFormulationUpsertWithWhereUniqueWithoutDrugInput = {
+  where: Prisma.DrugFormulationWhereUniqueInput
+  update: Prisma.XOR<Prisma.DrugFormulationUpdateWithoutDrugInput, Prisma.DrugFormulationUncheckedUpdateWithoutDrugInput>
+  create: Prisma.XOR<Prisma.DrugFormulationCreateWithoutDrugInput, Prisma.DrugFormulationUncheckedCreateWithoutDrugInput>
+}
+
+export type DrugFormulationUpdateWithWhereUniqueWithoutDrugInput = {
+  where: Prisma.DrugFormulationWhereUniqueInput
+  data: Prisma.XOR<Prisma.DrugFormulationUpdateWithoutDrugInput, Prisma.DrugFormulationUncheckedUpdateWithoutDrugInput>
+}
+
+export type DrugFormulationUpdateManyWithWhereWithoutDrugInput = {
+  where: Prisma.DrugFormulationScalarWhereInput
+  data: Prisma.XOR<Prisma.DrugFormulationUpdateManyMutationInput, Prisma.DrugFormulationUncheckedUpdateManyWithoutDrugInput>
+}
+
+export type DrugFormulationScalarWhereInput = {
+  AND?: Prisma.DrugFormulationScalarWhereInput | Prisma.DrugFormulationScalarWhereInput[]
+  OR?: Prisma.DrugFormulationScalarWhereInput[]
+  NOT?: Prisma.DrugFormulationScalarWhereInput | Prisma.DrugFormulationScalarWhereInput[]
+  id?: Prisma.StringFilter<"DrugFormulation"> | string
+  drugId?: Prisma.StringFilter<"DrugFormulation"> | string
+  form?: Prisma.EnumDrugFormFilter<"DrugFormulation"> | $Enums.DrugForm
+  route?: Prisma.EnumDrugRouteFilter<"DrugFormulation"> | $Enums.DrugRoute
+  strength?: Prisma.FloatFilter<"DrugFormulation"> | number
+  strengthUnit?: Prisma.StringFilter<"DrugFormulation"> | string
+  perVolumeMl?: Prisma.FloatNullableFilter<"DrugFormulation"> | number | null
+  divisions?: Prisma.IntFilter<"DrugFormulation"> | number
+  label?: Prisma.StringNullableFilter<"DrugFormulation"> | string | null
+  isActive?: Prisma.BoolFilter<"DrugFormulation"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"DrugFormulation"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"DrugFormulation"> | Date | string
+}
+
+export type DrugFormulationCreateWithoutPrescribedItemsInput = {
+  id?: string
+  form: $Enums.DrugForm
+  route: $Enums.DrugRoute
+  strength: number
+  strengthUnit?: string
+  perVolumeMl?: number | null
+  divisions?: number
+  label?: string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  drug: Prisma.DrugCreateNestedOneWithoutFormulationsInput
+}
+
+export type DrugFormulationUncheckedCreateWithoutPrescribedItemsInput = {
+  id?: string
+  drugId: string
+  form: $Enums.DrugForm
+  route: $Enums.DrugRoute
+  strength: number
+  strengthUnit?: string
+  perVolumeMl?: number | null
+  divisions?: number
+  label?: string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type DrugFormulationCreateOrConnectWithoutPrescribedItemsInput = {
+  where: Prisma.DrugFormulationWhereUniqueInput
+  create: Prisma.XOR<Prisma.DrugFormulationCreateWithoutPrescribedItemsInput, Prisma.DrugFormulationUncheckedCreateWithoutPrescribedItemsInput>
+}
+
+export type DrugFormulationUpsertWithoutPrescribedItemsInput = {
+  update: Prisma.XOR<Prisma.DrugFormulationUpdateWithoutPrescribedItemsInput, Prisma.DrugFormulationUncheckedUpdateWithoutPrescribedItemsInput>
+  create: Prisma.XOR<Prisma.DrugFormulationCreateWithoutPrescribedItemsInput, Prisma.DrugFormulationUncheckedCreateWithoutPrescribedItemsInput>
+  where?: Prisma.DrugFormulationWhereInput
+}
+
+export type DrugFormulationUpdateToOneWithWhereWithoutPrescribedItemsInput = {
+  where?: Prisma.DrugFormulationWhereInput
+  data: Prisma.XOR<Prisma.DrugFormulationUpdateWithoutPrescribedItemsInput, Prisma.DrugFormulationUncheckedUpdateWithoutPrescribedItemsInput>
+}
+
+export type DrugFormulationUpdateWithoutPrescribedItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  form?: Prisma.EnumDrugFormFieldUpdateOperationsInput | $Enums.DrugForm
+  route?: Prisma.EnumDrugRouteFieldUpdateOperationsInput | $Enums.DrugRoute
+  strength?: Prisma.FloatFieldUpdateOperationsInput | number
+  strengthUnit?: Prisma.StringFieldUpdateOperationsInput | string
+  perVolumeMl?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  divisions?: Prisma.IntFieldUpdateOperationsInput | number
+  label?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  drug?: Prisma.DrugUpdateOneRequiredWithoutFormulationsNestedInput
+}
+
+export type DrugFormulationUncheckedUpdateWithoutPrescribedItemsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  drugId?: Prisma.StringFieldUpdateOperationsInput | string
+  form?: Prisma.EnumDrugFormFieldUpdateOperationsInput | $Enums.DrugForm
+  route?: Prisma.EnumDrugRouteFieldUpdateOperationsInput | $Enums.DrugRoute
+  strength?: Prisma.FloatFieldUpdateOperationsInput | number
+  strengthUnit?: Prisma.StringFieldUpdateOperationsInput | string
+  perVolumeMl?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  divisions?: Prisma.IntFieldUpdateOperationsInput | number
+  label?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DrugFormulationCreateManyDrugInput = {
+  id?: string
+  form: $Enums.DrugForm
+  route: $Enums.DrugRoute
+  strength: number
+  strengthUnit?: string
+  perVolumeMl?: number | null
+  divisions?: number
+  label?: string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type DrugFormulationUpdateWithoutDrugInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  form?: Prisma.EnumDrugFormFieldUpdateOperationsInput | $Enums.DrugForm
+  route?: Prisma.EnumDrugRouteFieldUpdateOperationsInput | $Enums.DrugRoute
+  strength?: Prisma.FloatFieldUpdateOperationsInput | number
+  strengthUnit?: Prisma.StringFieldUpdateOperationsInput | string
+  perVolumeMl?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  divisions?: Prisma.IntFieldUpdateOperationsInput | number
+  label?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescribedItems?: Prisma.PrescribedItemUpdateManyWithoutFormulationNestedInput
+}
+
+export type DrugFormulationUncheckedUpdateWithoutDrugInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  form?: Prisma.EnumDrugFormFieldUpdateOperationsInput | $Enums.DrugForm
+  route?: Prisma.EnumDrugRouteFieldUpdateOperationsInput | $Enums.DrugRoute
+  strength?: Prisma.FloatFieldUpdateOperationsInput | number
+  strengthUnit?: Prisma.StringFieldUpdateOperationsInput | string
+  perVolumeMl?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  divisions?: Prisma.IntFieldUpdateOperationsInput | number
+  label?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescribedItems?: Prisma.PrescribedItemUncheckedUpdateManyWithoutFormulationNestedInput
+}
+
+export type DrugFormulationUncheckedUpdateManyWithoutDrugInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  form?: Prisma.EnumDrugFormFieldUpdateOperationsInput | $Enums.DrugForm
+  route?: Prisma.EnumDrugRouteFieldUpdateOperationsInput | $Enums.DrugRoute
+  strength?: Prisma.FloatFieldUpdateOperationsInput | number
+  strengthUnit?: Prisma.StringFieldUpdateOperationsInput | string
+  perVolumeMl?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  divisions?: Prisma.IntFieldUpdateOperationsInput | number
+  label?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type DrugFormulationCountOutputType
+ */
+
+export type DrugFormulationCountOutputType = {
+  prescribedItems: number
+}
+
+export type DrugFormulationCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  prescribedItems?: boolean | DrugFormulationCountOutputTypeCountPrescribedItemsArgs
+}
+
+/**
+ * DrugFormulationCountOutputType without action
+ */
+export type DrugFormulationCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DrugFormulationCountOutputType
+   */
+  select?: Prisma.DrugFormulationCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * DrugFormulationCountOutputType without action
+ */
+export type DrugFormulationCountOutputTypeCountPrescribedItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PrescribedItemWhereInput
+}
+
+
+export type DrugFormulationSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  drugId?: boolean
+  form?: boolean
+  route?: boolean
+  strength?: boolean
+  strengthUnit?: boolean
+  perVolumeMl?: boolean
+  divisions?: boolean
+  label?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  drug?: boolean | Prisma.DrugDefaultArgs<ExtArgs>
+  prescribedItems?: boolean | Prisma.DrugFormulation$prescribedItemsArgs<ExtArgs>
+  _count?: boolean | Prisma.DrugFormulationCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["drugFormulation"]>
+
+export type DrugFormulationSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  drugId?: boolean
+  form?: boolean
+  route?: boolean
+  strength?: boolean
+  strengthUnit?: boolean
+  perVolumeMl?: boolean
+  divisions?: boolean
+  label?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  drug?: boolean | Prisma.DrugDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["drugFormulation"]>
+
+export type DrugFormulationSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  drugId?: boolean
+  form?: boolean
+  route?: boolean
+  strength?: boolean
+  strengthUnit?: boolean
+  perVolumeMl?: boolean
+  divisions?: boolean
+  label?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  drug?: boolean | Prisma.DrugDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["drugFormulation"]>
+
+export type DrugFormulationSelectScalar = {
+  id?: boolean
+  drugId?: boolean
+  form?: boolean
+  route?: boolean
+  strength?: boolean
+  strengthUnit?: boolean
+  perVolumeMl?: boolean
+  divisions?: boolean
+  label?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type DrugFormulationOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "drugId" | "form" | "route" | "strength" | "strengthUnit" | "perVolumeMl" | "divisions" | "label" | "isActive" | "createdAt" | "updatedAt", ExtArgs["result"]["drugFormulation"]>
+export type DrugFormulationInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  drug?: boolean | Prisma.DrugDefaultArgs<ExtArgs>
+  prescribedItems?: boolean | Prisma.DrugFormulation$prescribedItemsArgs<ExtArgs>
+  _count?: boolean | Prisma.DrugFormulationCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type DrugFormulationIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  drug?: boolean | Prisma.DrugDefaultArgs<ExtArgs>
+}
+export type DrugFormulationIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  drug?: boolean | Prisma.DrugDefaultArgs<ExtArgs>
+}
+
+export type $DrugFormulationPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "DrugFormulation"
+  objects: {
+    drug: Prisma.$DrugPayload<ExtArgs>
+    prescribedItems: Prisma.$PrescribedItemPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    drugId: string
+    form: $Enums.DrugForm
+    route: $Enums.DrugRoute
+    strength: number
+    strengthUnit: string
+    /**
+     * Volume the strength is given in, for liquids; null for tablets and capsules
+     */
+    perVolumeMl: number | null
+    /**
+     * Equal parts a unit can be split into: 2 for a half-scored tablet, 1 for a capsule
+     */
+    divisions: number
+    label: string | null
+    isActive: boolean
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["drugFormulation"]>
+  composites: {}
+}
+
+export type DrugFormulationGetPayload<S extends boolean | null | undefined | DrugFormulationDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$DrugFormulationPayload, S>
+
+export type DrugFormulationCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<DrugFormulationFindManyArgs, 'select' | 'include' | 'distinct' | 'omit' | 'relationLoadStrategy'> & {
+    select?: DrugFormulationCountAggregateInputType | true
+  }
+
+export interface DrugFormulationDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['DrugFormulation'], meta: { name: 'DrugFormulation' } }
+  /**
+   * Find zero or one DrugFormulation that matches the filter.
+   * @param {DrugFormulationFindUniqueArgs} args - Arguments to find a DrugFormulation
+   * @example
+   * // Get one DrugFormulation
+   * const drugFormulation = await prisma.drugFormulation.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends DrugFormulationFindUniqueArgs>(args: Prisma.SelectSubset<T, DrugFormulationFindUniqueArgs<ExtArgs>>): Prisma.Prisma__DrugFormulationClient<runtime.Types.Result.GetResult<Prisma.$DrugFormulationPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one DrugFormulation that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {DrugFormulationFindUniqueOrThrowArgs} args - Arguments to find a DrugFormulation
+   * @example
+   * // Get one DrugFormulation
+   * const drugFormulation = await prisma.drugFormulation.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends DrugFormulationFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, DrugFormulationFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__DrugFormulationClient<runtime.Types.Result.GetResult<Prisma.$DrugFormulationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first DrugFormulation that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DrugFormulationFindFirstArgs} args - Arguments to find a DrugFormulation
+   * @example
+   * // Get one DrugFormulation
+   * const drugFormulation = await prisma.drugFormulation.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends DrugFormulationFindFirstArgs>(args?: Prisma.SelectSubset<T, DrugFormulationFindFirstArgs<ExtArgs>>): Prisma.Prisma__DrugFormulationClient<runtime.Types.Result.GetResult<Prisma.$DrugFormulationPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first DrugFormulation that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DrugFormulationFindFirstOrThrowArgs} args - Arguments to find a DrugFormulation
+   * @example
+   * // Get one DrugFormulation
+   * const drugFormulation = await prisma.drugFormulation.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends DrugFormulationFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, DrugFormulationFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__DrugFormulationClient<runtime.Types.Result.GetResult<Prisma.$DrugFormulationPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more DrugFormulations that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DrugFormulationFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all DrugFormulations
+   * const drugFormulations = await prisma.drugFormulation.findMany()
+   * 
+   * // Get first 10 DrugFormulations
+   * const drugFormulations = await prisma.drugFormulation.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const drugFormulationWithIdOnly = await prisma.drugFormulation.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends DrugFormulationFindManyArgs>(args?: Prisma.SelectSubset<T, DrugFormulationFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DrugFormulationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a DrugFormulation.
+   * @param {DrugFormulationCreateArgs} args - Arguments to create a DrugFormulation.
+   * @example
+   * // Create one DrugFormulation
+   * const DrugFormulation = await prisma.drugFormulation.create({
+   *   data: {
+   *     // ... data to create a DrugFormulation
+   *   }
+   * })
+   * 
+   */
+  create<T extends DrugFormulationCreateArgs>(args: Prisma.SelectSubset<T, DrugFormulationCreateArgs<ExtArgs>>): Prisma.Prisma__DrugFormulationClient<runtime.Types.Result.GetResult<Prisma.$DrugFormulationPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many DrugFormulations.
+   * @param {DrugFormulationCreateManyArgs} args - Arguments to create many DrugFormulations.
+   * @example
+   * // Create many DrugFormulations
+   * const drugFormulation = await prisma.drugFormulation.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends DrugFormulationCreateManyArgs>(args?: Prisma.SelectSubset<T, DrugFormulationCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many DrugFormulations and returns the data saved in the database.
+   * @param {DrugFormulationCreateManyAndReturnArgs} args - Arguments to create many DrugFormulations.
+   * @example
+   * // Create many DrugFormulations
+   * const drugFormulation = await prisma.drugFormulation.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many DrugFormulations and only return the `id`
+   * const drugFormulationWithIdOnly = await prisma.drugFormulation.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends DrugFormulationCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, DrugFormulationCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DrugFormulationPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a DrugFormulation.
+   * @param {DrugFormulationDeleteArgs} args - Arguments to delete one DrugFormulation.
+   * @example
+   * // Delete one DrugFormulation
+   * const DrugFormulation = await prisma.drugFormulation.delete({
+   *   where: {
+   *     // ... filter to delete one DrugFormulation
+   *   }
+   * })
+   * 
+   */
+  delete<T extends DrugFormulationDeleteArgs>(args: Prisma.SelectSubset<T, DrugFormulationDeleteArgs<ExtArgs>>): Prisma.Prisma__DrugFormulationClient<runtime.Types.Result.GetResult<Prisma.$DrugFormulationPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one DrugFormulation.
+   * @param {DrugFormulationUpdateArgs} args - Arguments to update one DrugFormulation.
+   * @example
+   * // Update one DrugFormulation
+   * const drugFormulation = await prisma.drugFormulation.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends DrugFormulationUpdateArgs>(args: Prisma.SelectSubset<T, DrugFormulationUpdateArgs<ExtArgs>>): Prisma.Prisma__DrugFormulationClient<runtime.Types.Result.GetResult<Prisma.$DrugFormulationPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more DrugFormulations.
+   * @param {DrugFormulationDeleteManyArgs} args - Arguments to filter DrugFormulations to delete.
+   * @example
+   * // Delete a few DrugFormulations
+   * const { count } = await prisma.drugFormulation.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends DrugFormulationDeleteManyArgs>(args?: Prisma.SelectSubset<T, DrugFormulationDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more DrugFormulations.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DrugFormulationUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many DrugFormulations
+   * const drugFormulation = await prisma.drugFormulation.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends DrugFormulationUpdateManyArgs>(args: Prisma.SelectSubset<T, DrugFormulationUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more DrugFormulations and returns the data updated in the database.
+   * @param {DrugFormulationUpdateManyAndReturnArgs} args - Arguments to update many DrugFormulations.
+   * @example
+   * // Update many DrugFormulations
+   * const drugFormulation = await prisma.drugFormulation.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more DrugFormulations and only return the `id`
+   * const drugFormulationWithIdOnly = await prisma.drugFormulation.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends DrugFormulationUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, DrugFormulationUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DrugFormulationPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one DrugFormulation.
+   * @param {DrugFormulationUpsertArgs} args - Arguments to update or create a DrugFormulation.
+   * @example
+   * // Update or create a DrugFormulation
+   * const drugFormulation = await prisma.drugFormulation.upsert({
+   *   create: {
+   *     // ... data to create a DrugFormulation
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the DrugFormulation we want to update
+   *   }
+   * })
+   */
+  upsert<T extends DrugFormulationUpsertArgs>(args: Prisma.SelectSubset<T, DrugFormulationUpsertArgs<ExtArgs>>): Prisma.Prisma__DrugFormulationClient<runtime.Types.Result.GetResult<Prisma.$DrugFormulationPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of DrugFormulations.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DrugFormulationCountArgs} args - Arguments to filter DrugFormulations to count.
+   * @example
+   * // Count the number of DrugFormulations
+   * const count = await prisma.drugFormulation.count({
+   *   where: {
+   *     // ... the filter for the DrugFormulations we want to count
+   *   }
+   * })
+  **/
+  count<T extends DrugFormulationCountArgs>(
+    args?: Prisma.Subset<T, DrugFormulationCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], DrugFormulationCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a DrugFormulation.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DrugFormulationAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends DrugFormulationAggregateArgs>(args: Prisma.Subset<T, DrugFormulationAggregateArgs>): Prisma.PrismaPromise<GetDrugFormulationAggregateType<T>>
+
+  /**
+   * Group by DrugFormulation.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DrugFormulationGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends DrugFormulationGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: DrugFormulationGroupByArgs['orderBy'] }
+      : { orderBy?: DrugFormulationGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, DrugFormulationGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetDrugFormulationGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the DrugFormulation model
+ */
+readonly fields: DrugFormulationFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for DrugFormulation.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__DrugFormulationClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  drug<T extends Prisma.DrugDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.DrugDefaultArgs<ExtArgs>>): Prisma.Prisma__DrugClient<runtime.Types.Result.GetResult<Prisma.$DrugPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  prescribedItems<T extends Prisma.DrugFormulation$prescribedItemsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.DrugFormulation$prescribedItemsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PrescribedItemPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the DrugFormulation model
+ */
+export interface DrugFormulationFieldRefs {
+  readonly id: Prisma.FieldRef<"DrugFormulation", 'String'>
+  readonly drugId: Prisma.FieldRef<"DrugFormulation", 'String'>
+  readonly form: Prisma.FieldRef<"DrugFormulation", 'DrugForm'>
+  readonly route: Prisma.FieldRef<"DrugFormulation", 'DrugRoute'>
+  readonly strength: Prisma.FieldRef<"DrugFormulation", 'Float'>
+  readonly strengthUnit: Prisma.FieldRef<"DrugFormulation", 'String'>
+  readonly perVolumeMl: Prisma.FieldRef<"DrugFormulation", 'Float'>
+  readonly divisions: Prisma.FieldRef<"DrugFormulation", 'Int'>
+  readonly label: Prisma.FieldRef<"DrugFormulation", 'String'>
+  readonly isActive: Prisma.FieldRef<"DrugFormulation", 'Boolean'>
+  readonly createdAt: Prisma.FieldRef<"DrugFormulation", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"DrugFormulation", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * DrugFormulation findUnique
+ */
+export type DrugFormulationFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DrugFormulation
+   */
+  select?: Prisma.DrugFormulationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DrugFormulation
+   */
+  omit?: Prisma.DrugFormulationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DrugFormulationInclude<ExtArgs> | null
+  /**
+   * Filter, which DrugFormulation to fetch.
+   */
+  where: Prisma.DrugFormulationWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * DrugFormulation findUniqueOrThrow
+ */
+export type DrugFormulationFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DrugFormulation
+   */
+  select?: Prisma.DrugFormulationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DrugFormulation
+   */
+  omit?: Prisma.DrugFormulationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DrugFormulationInclude<ExtArgs> | null
+  /**
+   * Filter, which DrugFormulation to fetch.
+   */
+  where: Prisma.DrugFormulationWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * DrugFormulation findFirst
+ */
+export type DrugFormulationFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DrugFormulation
+   */
+  select?: Prisma.DrugFormulationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DrugFormulation
+   */
+  omit?: Prisma.DrugFormulationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DrugFormulationInclude<ExtArgs> | null
+  /**
+   * Filter, which DrugFormulation to fetch.
+   */
+  where?: Prisma.DrugFormulationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DrugFormulations to fetch.
+   */
+  orderBy?: Prisma.DrugFormulationOrderByWithRelationInput | Prisma.DrugFormulationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for DrugFormulations.
+   */
+  cursor?: Prisma.DrugFormulationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DrugFormulations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DrugFormulations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of DrugFormulations.
+   */
+  distinct?: Prisma.DrugFormulationScalarFieldEnum | Prisma.DrugFormulationScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * DrugFormulation findFirstOrThrow
+ */
+export type DrugFormulationFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DrugFormulation
+   */
+  select?: Prisma.DrugFormulationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DrugFormulation
+   */
+  omit?: Prisma.DrugFormulationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DrugFormulationInclude<ExtArgs> | null
+  /**
+   * Filter, which DrugFormulation to fetch.
+   */
+  where?: Prisma.DrugFormulationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DrugFormulations to fetch.
+   */
+  orderBy?: Prisma.DrugFormulationOrderByWithRelationInput | Prisma.DrugFormulationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for DrugFormulations.
+   */
+  cursor?: Prisma.DrugFormulationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DrugFormulations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DrugFormulations.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of DrugFormulations.
+   */
+  distinct?: Prisma.DrugFormulationScalarFieldEnum | Prisma.DrugFormulationScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * DrugFormulation findMany
+ */
+export type DrugFormulationFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DrugFormulation
+   */
+  select?: Prisma.DrugFormulationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DrugFormulation
+   */
+  omit?: Prisma.DrugFormulationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DrugFormulationInclude<ExtArgs> | null
+  /**
+   * Filter, which DrugFormulations to fetch.
+   */
+  where?: Prisma.DrugFormulationWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DrugFormulations to fetch.
+   */
+  orderBy?: Prisma.DrugFormulationOrderByWithRelationInput | Prisma.DrugFormulationOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing DrugFormulations.
+   */
+  cursor?: Prisma.DrugFormulationWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DrugFormulations from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DrugFormulations.
+   */
+  skip?: number
+  distinct?: Prisma.DrugFormulationScalarFieldEnum | Prisma.DrugFormulationScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * DrugFormulation create
+ */
+export type DrugFormulationCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DrugFormulation
+   */
+  select?: Prisma.DrugFormulationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DrugFormulation
+   */
+  omit?: Prisma.DrugFormulationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DrugFormulationInclude<ExtArgs> | null
+  /**
+   * The data needed to create a DrugFormulation.
+   */
+  data: Prisma.XOR<Prisma.DrugFormulationCreateInput, Prisma.DrugFormulationUncheckedCreateInput>
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * DrugFormulation createMany
+ */
+export type DrugFormulationCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many DrugFormulations.
+   */
+  data: Prisma.DrugFormulationCreateManyInput | Prisma.DrugFormulationCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * DrugFormulation createManyAndReturn
+ */
+export type DrugFormulationCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DrugFormulation
+   */
+  select?: Prisma.DrugFormulationSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the DrugFormulation
+   */
+  omit?: Prisma.DrugFormulationOmit<ExtArgs> | null
+  /**
+   * The data used to create many DrugFormulations.
+   */
+  data: Prisma.DrugFormulationCreateManyInput | Prisma.DrugFormulationCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DrugFormulationIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * DrugFormulation update
+ */
+export type DrugFormulationUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DrugFormulation
+   */
+  select?: Prisma.DrugFormulationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DrugFormulation
+   */
+  omit?: Prisma.DrugFormulationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DrugFormulationInclude<ExtArgs> | null
+  /**
+   * The data needed to update a DrugFormulation.
+   */
+  data: Prisma.XOR<Prisma.DrugFormulationUpdateInput, Prisma.DrugFormulationUncheckedUpdateInput>
+  /**
+   * Choose, which DrugFormulation to update.
+   */
+  where: Prisma.DrugFormulationWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * DrugFormulation updateMany
+ */
+export type DrugFormulationUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update DrugFormulations.
+   */
+  data: Prisma.XOR<Prisma.DrugFormulationUpdateManyMutationInput, Prisma.DrugFormulationUncheckedUpdateManyInput>
+  /**
+   * Filter which DrugFormulations to update
+   */
+  where?: Prisma.DrugFormulationWhereInput
+  /**
+   * Limit how many DrugFormulations to update.
+   */
+  limit?: number
+}
+
+/**
+ * DrugFormulation updateManyAndReturn
+ */
+export type DrugFormulationUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DrugFormulation
+   */
+  select?: Prisma.DrugFormulationSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the DrugFormulation
+   */
+  omit?: Prisma.DrugFormulationOmit<ExtArgs> | null
+  /**
+   * The data used to update DrugFormulations.
+   */
+  data: Prisma.XOR<Prisma.DrugFormulationUpdateManyMutationInput, Prisma.DrugFormulationUncheckedUpdateManyInput>
+  /**
+   * Filter which DrugFormulations to update
+   */
+  where?: Prisma.DrugFormulationWhereInput
+  /**
+   * Limit how many DrugFormulations to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DrugFormulationIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * DrugFormulation upsert
+ */
+export type DrugFormulationUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DrugFormulation
+   */
+  select?: Prisma.DrugFormulationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DrugFormulation
+   */
+  omit?: Prisma.DrugFormulationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DrugFormulationInclude<ExtArgs> | null
+  /**
+   * The filter to search for the DrugFormulation to update in case it exists.
+   */
+  where: Prisma.DrugFormulationWhereUniqueInput
+  /**
+   * In case the DrugFormulation found by the `where` argument doesn't exist, create a new DrugFormulation with this data.
+   */
+  create: Prisma.XOR<Prisma.DrugFormulationCreateInput, Prisma.DrugFormulationUncheckedCreateInput>
+  /**
+   * In case the DrugFormulation was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.DrugFormulationUpdateInput, Prisma.DrugFormulationUncheckedUpdateInput>
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * DrugFormulation delete
+ */
+export type DrugFormulationDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DrugFormulation
+   */
+  select?: Prisma.DrugFormulationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DrugFormulation
+   */
+  omit?: Prisma.DrugFormulationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DrugFormulationInclude<ExtArgs> | null
+  /**
+   * Filter which DrugFormulation to delete.
+   */
+  where: Prisma.DrugFormulationWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * DrugFormulation deleteMany
+ */
+export type DrugFormulationDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which DrugFormulations to delete
+   */
+  where?: Prisma.DrugFormulationWhereInput
+  /**
+   * Limit how many DrugFormulations to delete.
+   */
+  limit?: number
+}
+
+/**
+ * DrugFormulation.prescribedItems
+ */
+export type DrugFormulation$prescribedItemsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PrescribedItem
+   */
+  select?: Prisma.PrescribedItemSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PrescribedItem
+   */
+  omit?: Prisma.PrescribedItemOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PrescribedItemInclude<ExtArgs> | null
+  where?: Prisma.PrescribedItemWhereInput
+  orderBy?: Prisma.PrescribedItemOrderByWithRelationInput | Prisma.PrescribedItemOrderByWithRelationInput[]
+  cursor?: Prisma.PrescribedItemWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PrescribedItemScalarFieldEnum | Prisma.PrescribedItemScalarFieldEnum[]
+}
+
+/**
+ * DrugFormulation without action
+ */
+export type DrugFormulationDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DrugFormulation
+   */
+  select?: Prisma.DrugFormulationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DrugFormulation
+   */
+  omit?: Prisma.DrugFormulationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DrugFormulationInclude<ExtArgs> | null
+}
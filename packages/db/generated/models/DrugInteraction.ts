@@ -0,0 +1,1277 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `DrugInteraction` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model DrugInteraction
+ * An interacting pair from the interaction dataset. Each side is a drug name
+ * or a drug class, in lower case; the sides are stored in alphabetical order
+ * so a pair is listed once.
+ */
+export type DrugInteractionModel = runtime.Types.Result.DefaultSelection<Prisma.$DrugInteractionPayload>
+
+export type AggregateDrugInteraction = {
+  _count: DrugInteractionCountAggregateOutputType | null
+  _min: DrugInteractionMinAggregateOutputType | null
+  _max: DrugInteractionMaxAggregateOutputType | null
+}
+
+export type DrugInteractionMinAggregateOutputType = {
+  id: string | null
+  subjectA: string | null
+  subjectB: string | null
+  severity: $Enums.InteractionSeverity | null
+  mechanism: string | null
+  management: string | null
+  source: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type DrugInteractionMaxAggregateOutputType = {
+  id: string | null
+  subjectA: string | null
+  subjectB: string | null
+  severity: $Enums.InteractionSeverity | null
+  mechanism: string | null
+  management: string | null
+  source: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type DrugInteractionCountAggregateOutputType = {
+  id: number
+  subjectA: number
+  subjectB: number
+  severity: number
+  mechanism: number
+  management: number
+  source: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type DrugInteractionMinAggregateInputType = {
+  id?: true
+  subjectA?: true
+  subjectB?: true
+  severity?: true
+  mechanism?: true
+  management?: true
+  source?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type DrugInteractionMaxAggregateInputType = {
+  id?: true
+  subjectA?: true
+  subjectB?: true
+  severity?: true
+  mechanism?: true
+  management?: true
+  source?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type DrugInteractionCountAggregateInputType = {
+  id?: true
+  subjectA?: true
+  subjectB?: true
+  severity?: true
+  mechanism?: true
+  management?: true
+  source?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type DrugInteractionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which DrugInteraction to aggregate.
+   */
+  where?: Prisma.DrugInteractionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DrugInteractions to fetch.
+   */
+  orderBy?: Prisma.DrugInteractionOrderByWithRelationInput | Prisma.DrugInteractionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.DrugInteractionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DrugInteractions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DrugInteractions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned DrugInteractions
+  **/
+  _count?: true | DrugInteractionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: DrugInteractionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: DrugInteractionMaxAggregateInputType
+}
+
+export type GetDrugInteractionAggregateType<T extends DrugInteractionAggregateArgs> = {
+      [P in keyof T & keyof AggregateDrugInteraction]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateDrugInteraction[P]>
+    : Prisma.GetScalarType<T[P], AggregateDrugInteraction[P]>
+}
+
+
+
+
+export type DrugInteractionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.DrugInteractionWhereInput
+  orderBy?: Prisma.DrugInteractionOrderByWithAggregationInput | Prisma.DrugInteractionOrderByWithAggregationInput[]
+  by: Prisma.DrugInteractionScalarFieldEnum[] | Prisma.DrugInteractionScalarFieldEnum
+  having?: Prisma.DrugInteractionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: DrugInteractionCountAggregateInputType | true
+  _min?: DrugInteractionMinAggregateInputType
+  _max?: DrugInteractionMaxAggregateInputType
+}
+
+export type DrugInteractionGroupByOutputType = {
+  id: string
+  subjectA: string
+  subjectB: string
+  severity: $Enums.InteractionSeverity
+  mechanism: string
+  management: string
+  source: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: DrugInteractionCountAggregateOutputType | null
+  _min: DrugInteractionMinAggregateOutputType | null
+  _max: DrugInteractionMaxAggregateOutputType | null
+}
+
+type GetDrugInteractionGroupByPayload<T extends DrugInteractionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<DrugInteractionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof DrugInteractionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], DrugInteractionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], DrugInteractionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type DrugInteractionWhereInput = {
+  AND?: Prisma.DrugInteractionWhereInput | Prisma.DrugInteractionWhereInput[]
+  OR?: Prisma.DrugInteractionWhereInput[]
+  NOT?: Prisma.DrugInteractionWhereInput | Prisma.DrugInteractionWhereInput[]
+  id?: Prisma.StringFilter<"DrugInteraction"> | string
+  subjectA?: Prisma.StringFilter<"DrugInteraction"> | string
+  subjectB?: Prisma.StringFilter<"DrugInteraction"> | string
+  severity?: Prisma.EnumInteractionSeverityFilter<"DrugInteraction"> | $Enums.InteractionSeverity
+  mechanism?: Prisma.StringFilter<"DrugInteraction"> | string
+  management?: Prisma.StringFilter<"DrugInteraction"> | string
+  source?: Prisma.StringNullableFilter<"DrugInteraction"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"DrugInteraction"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"DrugInteraction"> | Date | string
+}
+
+export type DrugInteractionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  subjectA?: Prisma.SortOrder
+  subjectB?: Prisma.SortOrder
+  severity?: Prisma.SortOrder
+  mechanism?: Prisma.SortOrder
+  management?: Prisma.SortOrder
+  source?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type DrugInteractionWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  subjectA_subjectB?: Prisma.DrugInteractionSubjectASubjectBCompoundUniqueInput
+  AND?: Prisma.DrugInteractionWhereInput | Prisma.DrugInteractionWhereInput[]
+  OR?: Prisma.DrugInteractionWhereInput[]
+  NOT?: Prisma.DrugInteractionWhereInput | Prisma.DrugInteractionWhereInput[]
+  subjectA?: Prisma.StringFilter<"DrugInteraction"> | string
+  subjectB?: Prisma.StringFilter<"DrugInteraction"> | string
+  severity?: Prisma.EnumInteractionSeverityFilter<"DrugInteraction"> | $Enums.InteractionSeverity
+  mechanism?: Prisma.StringFilter<"DrugInteraction"> | string
+  management?: Prisma.StringFilter<"DrugInteraction"> | string
+  source?: Prisma.StringNullableFilter<"DrugInteraction"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"DrugInteraction"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"DrugInteraction"> | Date | string
+}, "id" | "subjectA_subjectB">
+
+export type DrugInteractionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  subjectA?: Prisma.SortOrder
+  subjectB?: Prisma.SortOrder
+  severity?: Prisma.SortOrder
+  mechanism?: Prisma.SortOrder
+  management?: Prisma.SortOrder
+  source?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.DrugInteractionCountOrderByAggregateInput
+  _max?: Prisma.DrugInteractionMaxOrderByAggregateInput
+  _min?: Prisma.DrugInteractionMinOrderByAggregateInput
+}
+
+export type DrugInteractionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.DrugInteractionScalarWhereWithAggregatesInput | Prisma.DrugInteractionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.DrugInteractionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.DrugInteractionScalarWhereWithAggregatesInput | Prisma.DrugInteractionScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"DrugInteraction"> | string
+  subjectA?: Prisma.StringWithAggregatesFilter<"DrugInteraction"> | string
+  subjectB?: Prisma.StringWithAggregatesFilter<"DrugInteraction"> | string
+  severity?: Prisma.EnumInteractionSeverityWithAggregatesFilter<"DrugInteraction"> | $Enums.InteractionSeverity
+  mechanism?: Prisma.StringWithAggregatesFilter<"DrugInteraction"> | string
+  management?: Prisma.StringWithAggregatesFilter<"DrugInteraction"> | string
+  source?: Prisma.StringNullableWithAggregatesFilter<"DrugInteraction"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"DrugInteraction"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"DrugInteraction"> | Date | string
+}
+
+export type DrugInteractionCreateInput = {
+  id?: string
+  subjectA: string
+  subjectB: string
+  severity: $Enums.InteractionSeverity
+  mechanism: string
+  management: string
+  source?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type DrugInteractionUncheckedCreateInput = {
+  id?: string
+  subjectA: string
+  subjectB: string
+  severity: $Enums.InteractionSeverity
+  mechanism: string
+  management: string
+  source?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type DrugInteractionUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  subjectA?: Prisma.StringFieldUpdateOperationsInput | string
+  subjectB?: Prisma.StringFieldUpdateOperationsInput | string
+  severity?: Prisma.EnumInteractionSeverityFieldUpdateOperationsInput | $Enums.InteractionSeverity
+  mechanism?: Prisma.StringFieldUpdateOperationsInput | string
+  management?: Prisma.StringFieldUpdateOperationsInput | string
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DrugInteractionUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  subjectA?: Prisma.StringFieldUpdateOperationsInput | string
+  subjectB?: Prisma.StringFieldUpdateOperationsInput | string
+  severity?: Prisma.EnumInteractionSeverityFieldUpdateOperationsInput | $Enums.InteractionSeverity
+  mechanism?: Prisma.StringFieldUpdateOperationsInput | string
+  management?: Prisma.StringFieldUpdateOperationsInput | string
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DrugInteractionCreateManyInput = {
+  id?: string
+  subjectA: string
+  subjectB: string
+  severity: $Enums.InteractionSeverity
+  mechanism: string
+  management: string
+  source?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type DrugInteractionUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  subjectA?: Prisma.StringFieldUpdateOperationsInput | string
+  subjectB?: Prisma.StringFieldUpdateOperationsInput | string
+  severity?: Prisma.EnumInteractionSeverityFieldUpdateOperationsInput | $Enums.InteractionSeverity
+  mechanism?: Prisma.StringFieldUpdateOperationsInput | string
+  management?: Prisma.StringFieldUpdateOperationsInput | string
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DrugInteractionUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  subjectA?: Prisma.StringFieldUpdateOperationsInput | string
+  subjectB?: Prisma.StringFieldUpdateOperationsInput | string
+  severity?: Prisma.EnumInteractionSeverityFieldUpdateOperationsInput | $Enums.InteractionSeverity
+  mechanism?: Prisma.StringFieldUpdateOperationsInput | string
+  management?: Prisma.StringFieldUpdateOperationsInput | string
+  source?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type DrugInteractionSubjectASubjectBCompoundUniqueInput = {
+  subjectA: string
+  subjectB: string
+}
+
+export type DrugInteractionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  subjectA?: Prisma.SortOrder
+  subjectB?: Prisma.SortOrder
+  severity?: Prisma.SortOrder
+  mechanism?: Prisma.SortOrder
+  management?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type DrugInteractionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  subjectA?: Prisma.SortOrder
+  subjectB?: Prisma.SortOrder
+  severity?: Prisma.SortOrder
+  mechanism?: Prisma.SortOrder
+  management?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type DrugInteractionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  subjectA?: Prisma.SortOrder
+  subjectB?: Prisma.SortOrder
+  severity?: Prisma.SortOrder
+  mechanism?: Prisma.SortOrder
+  management?: Prisma.SortOrder
+  source?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type EnumInteractionSeverityFieldUpdateOperationsInput = {
+  set?: $Enums.InteractionSeverity
+}
+
+
+
+export type DrugInteractionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  subjectA?: boolean
+  subjectB?: boolean
+  severity?: boolean
+  mechanism?: boolean
+  management?: boolean
+  source?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["drugInteraction"]>
+
+export type DrugInteractionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  subjectA?: boolean
+  subjectB?: boolean
+  severity?: boolean
+  mechanism?: boolean
+  management?: boolean
+  source?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["drugInteraction"]>
+
+export type DrugInteractionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  subjectA?: boolean
+  subjectB?: boolean
+  severity?: boolean
+  mechanism?: boolean
+  management?: boolean
+  source?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["drugInteraction"]>
+
+export type DrugInteractionSelectScalar = {
+  id?: boolean
+  subjectA?: boolean
+  subjectB?: boolean
+  severity?: boolean
+  mechanism?: boolean
+  management?: boolean
+  source?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type DrugInteractionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "subjectA" | "subjectB" | "severity" | "mechanism" | "management" | "source" | "createdAt" | "updatedAt", ExtArgs["result"]["drugInteraction"]>
+
+export type $DrugInteractionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "DrugInteraction"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    subjectA: string
+    subjectB: string
+    severity: $Enums.InteractionSeverity
+    mechanism: string
+    management: string
+    source: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["drugInteraction"]>
+  composites: {}
+}
+
+export type DrugInteractionGetPayload<S extends boolean | null | undefined | DrugInteractionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$DrugInteractionPayload, S>
+
+export type DrugInteractionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<DrugInteractionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit' | 'relationLoadStrategy'> & {
+    select?: DrugInteractionCountAggregateInputType | true
+  }
+
+export interface DrugInteractionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['DrugInteraction'], meta: { name: 'DrugInteraction' } }
+  /**
+   * Find zero or one DrugInteraction that matches the filter.
+   * @param {DrugInteractionFindUniqueArgs} args - Arguments to find a DrugInteraction
+   * @example
+   * // Get one DrugInteraction
+   * const drugInteraction = await prisma.drugInteraction.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends DrugInteractionFindUniqueArgs>(args: Prisma.SelectSubset<T, DrugInteractionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__DrugInteractionClient<runtime.Types.Result.GetResult<Prisma.$DrugInteractionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one DrugInteraction that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {DrugInteractionFindUniqueOrThrowArgs} args - Arguments to find a DrugInteraction
+   * @example
+   * // Get one DrugInteraction
+   * const drugInteraction = await prisma.drugInteraction.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends DrugInteractionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, DrugInteractionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__DrugInteractionClient<runtime.Types.Result.GetResult<Prisma.$DrugInteractionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first DrugInteraction that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DrugInteractionFindFirstArgs} args - Arguments to find a DrugInteraction
+   * @example
+   * // Get one DrugInteraction
+   * const drugInteraction = await prisma.drugInteraction.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends DrugInteractionFindFirstArgs>(args?: Prisma.SelectSubset<T, DrugInteractionFindFirstArgs<ExtArgs>>): Prisma.Prisma__DrugInteractionClient<runtime.Types.Result.GetResult<Prisma.$DrugInteractionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first DrugInteraction that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DrugInteractionFindFirstOrThrowArgs} args - Arguments to find a DrugInteraction
+   * @example
+   * // Get one DrugInteraction
+   * const drugInteraction = await prisma.drugInteraction.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends DrugInteractionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, DrugInteractionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__DrugInteractionClient<runtime.Types.Result.GetResult<Prisma.$DrugInteractionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more DrugInteractions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DrugInteractionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all DrugInteractions
+   * const drugInteractions = await prisma.drugInteraction.findMany()
+   * 
+   * // Get first 10 DrugInteractions
+   * const drugInteractions = await prisma.drugInteraction.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const drugInteractionWithIdOnly = await prisma.drugInteraction.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends DrugInteractionFindManyArgs>(args?: Prisma.SelectSubset<T, DrugInteractionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DrugInteractionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a DrugInteraction.
+   * @param {DrugInteractionCreateArgs} args - Arguments to create a DrugInteraction.
+   * @example
+   * // Create one DrugInteraction
+   * const DrugInteraction = await prisma.drugInteraction.create({
+   *   data: {
+   *     // ... data to create a DrugInteraction
+   *   }
+   * })
+   * 
+   */
+  create<T extends DrugInteractionCreateArgs>(args: Prisma.SelectSubset<T, DrugInteractionCreateArgs<ExtArgs>>): Prisma.Prisma__DrugInteractionClient<runtime.Types.Result.GetResult<Prisma.$DrugInteractionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many DrugInteractions.
+   * @param {DrugInteractionCreateManyArgs} args - Arguments to create many DrugInteractions.
+   * @example
+   * // Create many DrugInteractions
+   * const drugInteraction = await prisma.drugInteraction.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends DrugInteractionCreateManyArgs>(args?: Prisma.SelectSubset<T, DrugInteractionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many DrugInteractions and returns the data saved in the database.
+   * @param {DrugInteractionCreateManyAndReturnArgs} args - Arguments to create many DrugInteractions.
+   * @example
+   * // Create many DrugInteractions
+   * const drugInteraction = await prisma.drugInteraction.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many DrugInteractions and only return the `id`
+   * const drugInteractionWithIdOnly = await prisma.drugInteraction.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends DrugInteractionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, DrugInteractionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DrugInteractionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a DrugInteraction.
+   * @param {DrugInteractionDeleteArgs} args - Arguments to delete one DrugInteraction.
+   * @example
+   * // Delete one DrugInteraction
+   * const DrugInteraction = await prisma.drugInteraction.delete({
+   *   where: {
+   *     // ... filter to delete one DrugInteraction
+   *   }
+   * })
+   * 
+   */
+  delete<T extends DrugInteractionDeleteArgs>(args: Prisma.SelectSubset<T, DrugInteractionDeleteArgs<ExtArgs>>): Prisma.Prisma__DrugInteractionClient<runtime.Types.Result.GetResult<Prisma.$DrugInteractionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one DrugInteraction.
+   * @param {DrugInteractionUpdateArgs} args - Arguments to update one DrugInteraction.
+   * @example
+   * // Update one DrugInteraction
+   * const drugInteraction = await prisma.drugInteraction.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends DrugInteractionUpdateArgs>(args: Prisma.SelectSubset<T, DrugInteractionUpdateArgs<ExtArgs>>): Prisma.Prisma__DrugInteractionClient<runtime.Types.Result.GetResult<Prisma.$DrugInteractionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more DrugInteractions.
+   * @param {DrugInteractionDeleteManyArgs} args - Arguments to filter DrugInteractions to delete.
+   * @example
+   * // Delete a few DrugInteractions
+   * const { count } = await prisma.drugInteraction.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends DrugInteractionDeleteManyArgs>(args?: Prisma.SelectSubset<T, DrugInteractionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more DrugInteractions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DrugInteractionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many DrugInteractions
+   * const drugInteraction = await prisma.drugInteraction.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends DrugInteractionUpdateManyArgs>(args: Prisma.SelectSubset<T, DrugInteractionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more DrugInteractions and returns the data updated in the database.
+   * @param {DrugInteractionUpdateManyAndReturnArgs} args - Arguments to update many DrugInteractions.
+   * @example
+   * // Update many DrugInteractions
+   * const drugInteraction = await prisma.drugInteraction.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more DrugInteractions and only return the `id`
+   * const drugInteractionWithIdOnly = await prisma.drugInteraction.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends DrugInteractionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, DrugInteractionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DrugInteractionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one DrugInteraction.
+   * @param {DrugInteractionUpsertArgs} args - Arguments to update or create a DrugInteraction.
+   * @example
+   * // Update or create a DrugInteraction
+   * const drugInteraction = await prisma.drugInteraction.upsert({
+   *   create: {
+   *     // ... data to create a DrugInteraction
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the DrugInteraction we want to update
+   *   }
+   * })
+   */
+  upsert<T extends DrugInteractionUpsertArgs>(args: Prisma.SelectSubset<T, DrugInteractionUpsertArgs<ExtArgs>>): Prisma.Prisma__DrugInteractionClient<runtime.Types.Result.GetResult<Prisma.$DrugInteractionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of DrugInteractions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DrugInteractionCountArgs} args - Arguments to filter DrugInteractions to count.
+   * @example
+   * // Count the number of DrugInteractions
+   * const count = await prisma.drugInteraction.count({
+   *   where: {
+   *     // ... the filter for the DrugInteractions we want to count
+   *   }
+   * })
+  **/
+  count<T extends DrugInteractionCountArgs>(
+    args?: Prisma.Subset<T, DrugInteractionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], DrugInteractionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a DrugInteraction.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DrugInteractionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends DrugInteractionAggregateArgs>(args: Prisma.Subset<T, DrugInteractionAggregateArgs>): Prisma.PrismaPromise<GetDrugInteractionAggregateType<T>>
+
+  /**
+   * Group by DrugInteraction.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {DrugInteractionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends DrugInteractionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: DrugInteractionGroupByArgs['orderBy'] }
+      : { orderBy?: DrugInteractionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, DrugInteractionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetDrugInteractionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the DrugInteraction model
+ */
+readonly fields: DrugInteractionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for DrugInteraction.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__DrugInteractionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the DrugInteraction model
+ */
+export interface DrugInteractionFieldRefs {
+  readonly id: Prisma.FieldRef<"DrugInteraction", 'String'>
+  readonly subjectA: Prisma.FieldRef<"DrugInteraction", 'String'>
+  readonly subjectB: Prisma.FieldRef<"DrugInteraction", 'String'>
+  readonly severity: Prisma.FieldRef<"DrugInteraction", 'InteractionSeverity'>
+  readonly mechanism: Prisma.FieldRef<"DrugInteraction", 'String'>
+  readonly management: Prisma.FieldRef<"DrugInteraction", 'String'>
+  readonly source: Prisma.FieldRef<"DrugInteraction", 'String'>
+  readonly createdAt: Prisma.FieldRef<"DrugInteraction", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"DrugInteraction", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * DrugInteraction findUnique
+ */
+export type DrugInteractionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DrugInteraction
+   */
+  select?: Prisma.DrugInteractionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DrugInteraction
+   */
+  omit?: Prisma.DrugInteractionOmit<ExtArgs> | null
+  /**
+   * Filter, which DrugInteraction to fetch.
+   */
+  where: Prisma.DrugInteractionWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * DrugInteraction findUniqueOrThrow
+ */
+export type DrugInteractionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DrugInteraction
+   */
+  select?: Prisma.DrugInteractionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DrugInteraction
+   */
+  omit?: Prisma.DrugInteractionOmit<ExtArgs> | null
+  /**
+   * Filter, which DrugInteraction to fetch.
+   */
+  where: Prisma.DrugInteractionWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * DrugInteraction findFirst
+ */
+export type DrugInteractionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DrugInteraction
+   */
+  select?: Prisma.DrugInteractionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DrugInteraction
+   */
+  omit?: Prisma.DrugInteractionOmit<ExtArgs> | null
+  /**
+   * Filter, which DrugInteraction to fetch.
+   */
+  where?: Prisma.DrugInteractionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DrugInteractions to fetch.
+   */
+  orderBy?: Prisma.DrugInteractionOrderByWithRelationInput | Prisma.DrugInteractionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for DrugInteractions.
+   */
+  cursor?: Prisma.DrugInteractionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DrugInteractions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DrugInteractions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of DrugInteractions.
+   */
+  distinct?: Prisma.DrugInteractionScalarFieldEnum | Prisma.DrugInteractionScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * DrugInteraction findFirstOrThrow
+ */
+export type DrugInteractionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DrugInteraction
+   */
+  select?: Prisma.DrugInteractionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DrugInteraction
+   */
+  omit?: Prisma.DrugInteractionOmit<ExtArgs> | null
+  /**
+   * Filter, which DrugInteraction to fetch.
+   */
+  where?: Prisma.DrugInteractionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DrugInteractions to fetch.
+   */
+  orderBy?: Prisma.DrugInteractionOrderByWithRelationInput | Prisma.DrugInteractionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for DrugInteractions.
+   */
+  cursor?: Prisma.DrugInteractionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DrugInteractions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DrugInteractions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of DrugInteractions.
+   */
+  distinct?: Prisma.DrugInteractionScalarFieldEnum | Prisma.DrugInteractionScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * DrugInteraction findMany
+ */
+export type DrugInteractionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DrugInteraction
+   */
+  select?: Prisma.DrugInteractionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DrugInteraction
+   */
+  omit?: Prisma.DrugInteractionOmit<ExtArgs> | null
+  /**
+   * Filter, which DrugInteractions to fetch.
+   */
+  where?: Prisma.DrugInteractionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of DrugInteractions to fetch.
+   */
+  orderBy?: Prisma.DrugInteractionOrderByWithRelationInput | Prisma.DrugInteractionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing DrugInteractions.
+   */
+  cursor?: Prisma.DrugInteractionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` DrugInteractions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` DrugInteractions.
+   */
+  skip?: number
+  distinct?: Prisma.DrugInteractionScalarFieldEnum | Prisma.DrugInteractionScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * DrugInteraction create
+ */
+export type DrugInteractionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DrugInteraction
+   */
+  select?: Prisma.DrugInteractionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DrugInteraction
+   */
+  omit?: Prisma.DrugInteractionOmit<ExtArgs> | null
+  /**
+   * The data needed to create a DrugInteraction.
+   */
+  data: Prisma.XOR<Prisma.DrugInteractionCreateInput, Prisma.DrugInteractionUncheckedCreateInput>
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * DrugInteraction createMany
+ */
+export type DrugInteractionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many DrugInteractions.
+   */
+  data: Prisma.DrugInteractionCreateManyInput | Prisma.DrugInteractionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * DrugInteraction createManyAndReturn
+ */
+export type DrugInteractionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DrugInteraction
+   */
+  select?: Prisma.DrugInteractionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the DrugInteraction
+   */
+  omit?: Prisma.DrugInteractionOmit<ExtArgs> | null
+  /**
+   * The data used to create many DrugInteractions.
+   */
+  data: Prisma.DrugInteractionCreateManyInput | Prisma.DrugInteractionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * DrugInteraction update
+ */
+export type DrugInteractionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DrugInteraction
+   */
+  select?: Prisma.DrugInteractionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DrugInteraction
+   */
+  omit?: Prisma.DrugInteractionOmit<ExtArgs> | null
+  /**
+   * The data needed to update a DrugInteraction.
+   */
+  data: Prisma.XOR<Prisma.DrugInteractionUpdateInput, Prisma.DrugInteractionUncheckedUpdateInput>
+  /**
+   * Choose, which DrugInteraction to update.
+   */
+  where: Prisma.DrugInteractionWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * DrugInteraction updateMany
+ */
+export type DrugInteractionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update DrugInteractions.
+   */
+  data: Prisma.XOR<Prisma.DrugInteractionUpdateManyMutationInput, Prisma.DrugInteractionUncheckedUpdateManyInput>
+  /**
+   * Filter which DrugInteractions to update
+   */
+  where?: Prisma.DrugInteractionWhereInput
+  /**
+   * Limit how many DrugInteractions to update.
+   */
+  limit?: number
+}
+
+/**
+ * DrugInteraction updateManyAndReturn
+ */
+export type DrugInteractionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DrugInteraction
+   */
+  select?: Prisma.DrugInteractionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the DrugInteraction
+   */
+  omit?: Prisma.DrugInteractionOmit<ExtArgs> | null
+  /**
+   * The data used to update DrugInteractions.
+   */
+  data: Prisma.XOR<Prisma.DrugInteractionUpdateManyMutationInput, Prisma.DrugInteractionUncheckedUpdateManyInput>
+  /**
+   * Filter which DrugInteractions to update
+   */
+  where?: Prisma.DrugInteractionWhereInput
+  /**
+   * Limit how many DrugInteractions to update.
+   */
+  limit?: number
+}
+
+/**
+ * DrugInteraction upsert
+ */
+export type DrugInteractionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DrugInteraction
+   */
+  select?: Prisma.DrugInteractionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DrugInteraction
+   */
+  omit?: Prisma.DrugInteractionOmit<ExtArgs> | null
+  /**
+   * The filter to search for the DrugInteraction to update in case it exists.
+   */
+  where: Prisma.DrugInteractionWhereUniqueInput
+  /**
+   * In case the DrugInteraction found by the `where` argument doesn't exist, create a new DrugInteraction with this data.
+   */
+  create: Prisma.XOR<Prisma.DrugInteractionCreateInput, Prisma.DrugInteractionUncheckedCreateInput>
+  /**
+   * In case the DrugInteraction was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.DrugInteractionUpdateInput, Prisma.DrugInteractionUncheckedUpdateInput>
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * DrugInteraction delete
+ */
+export type DrugInteractionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DrugInteraction
+   */
+  select?: Prisma.DrugInteractionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DrugInteraction
+   */
+  omit?: Prisma.DrugInteractionOmit<ExtArgs> | null
+  /**
+   * Filter which DrugInteraction to delete.
+   */
+  where: Prisma.DrugInteractionWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * DrugInteraction deleteMany
+ */
+export type DrugInteractionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which DrugInteractions to delete
+   */
+  where?: Prisma.DrugInteractionWhereInput
+  /**
+   * Limit how many DrugInteractions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * DrugInteraction without action
+ */
+export type DrugInteractionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DrugInteraction
+   */
+  select?: Prisma.DrugInteractionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DrugInteraction
+   */
+  omit?: Prisma.DrugInteractionOmit<ExtArgs> | null
+}
@@ -0,0 +1,1879 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `GrowthAlert` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model GrowthAlert
+ * 
+ */
+export type GrowthAlertModel = runtime.Types.Result.DefaultSelection<Prisma.$GrowthAlertPayload>
+
+export type AggregateGrowthAlert = {
+  _count: GrowthAlertCountAggregateOutputType | null
+  _min: GrowthAlertMinAggregateOutputType | null
+  _max: GrowthAlertMaxAggregateOutputType | null
+}
+
+export type GrowthAlertMinAggregateOutputType = {
+  id: string | null
+  clinicId: string | null
+  patientId: string | null
+  growthRecordId: string | null
+  type: $Enums.GrowthAlertType | null
+  severity: $Enums.GrowthAlertSeverity | null
+  message: string | null
+  acknowledgedAt: Date | null
+  acknowledgedById: string | null
+  createdAt: Date | null
+}
+
+export type GrowthAlertMaxAggregateOutputType = {
+  id: string | null
+  clinicId: string | null
+  patientId: string | null
+  growthRecordId: string | null
+  type: $Enums.GrowthAlertType | null
+  severity: $Enums.GrowthAlertSeverity | null
+  message: string | null
+  acknowledgedAt: Date | null
+  acknowledgedById: string | null
+  createdAt: Date | null
+}
+
+export type GrowthAlertCountAggregateOutputType = {
+  id: number
+  clinicId: number
+  patientId: number
+  growthRecordId: number
+  type: number
+  severity: number
+  message: number
+  details: number
+  acknowledgedAt: number
+  acknowledgedById: number
+  createdAt: number
+  _all: number
+}
+
+
+export type GrowthAlertMinAggregateInputType = {
+  id?: true
+  clinicId?: true
+  patientId?: true
+  growthRecordId?: true
+  type?: true
+  severity?: true
+  message?: true
+  acknowledgedAt?: true
+  acknowledgedById?: true
+  createdAt?: true
+}
+
+export type GrowthAlertMaxAggregateInputType = {
+  id?: true
+  clinicId?: true
+  patientId?: true
+  growthRecordId?: true
+  type?: true
+  severity?: true
+  message?: true
+  acknowledgedAt?: true
+  acknowledgedById?: true
+  createdAt?: true
+}
+
+export type GrowthAlertCountAggregateInputType = {
+  id?: true
+  clinicId?: true
+  patientId?: true
+  growthRecordId?: true
+  type?: true
+  severity?: true
+  message?: true
+  details?: true
+  acknowledgedAt?: true
+  acknowledgedById?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type GrowthAlertAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which GrowthAlert to aggregate.
+   */
+  where?: Prisma.GrowthAlertWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of GrowthAlerts to fetch.
+   */
+  orderBy?: Prisma.GrowthAlertOrderByWithRelationInput | Prisma.GrowthAlertOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.GrowthAlertWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` GrowthAlerts from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` GrowthAlerts.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned GrowthAlerts
+  **/
+  _count?: true | GrowthAlertCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: GrowthAlertMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: GrowthAlertMaxAggregateInputType
+}
+
+export type GetGrowthAlertAggregateType<T extends GrowthAlertAggregateArgs> = {
+      [P in keyof T & keyof AggregateGrowthAlert]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateGrowthAlert[P]>
+    : Prisma.GetScalarType<T[P], AggregateGrowthAlert[P]>
+}
+
+
+
+
+export type GrowthAlertGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.GrowthAlertWhereInput
+  orderBy?: Prisma.GrowthAlertOrderByWithAggregationInput | Prisma.GrowthAlertOrderByWithAggregationInput[]
+  by: Prisma.GrowthAlertScalarFieldEnum[] | Prisma.GrowthAlertScalarFieldEnum
+  having?: Prisma.GrowthAlertScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: GrowthAlertCountAggregateInputType | true
+  _min?: GrowthAlertMinAggregateInputType
+  _max?: GrowthAlertMaxAggregateInputType
+}
+
+export type GrowthAlertGroupByOutputType = {
+  id: string
+  clinicId: string
+  patientId: string
+  growthRecordId: string
+  type: $Enums.GrowthAlertType
+  severity: $Enums.GrowthAlertSeverity
+  message: string
+  details: runtime.JsonValue | null
+  acknowledgedAt: Date | null
+  acknowledgedById: string | null
+  createdAt: Date
+  _count: GrowthAlertCountAggregateOutputType | null
+  _min: GrowthAlertMinAggregateOutputType | null
+  _max: GrowthAlertMaxAggregateOutputType | null
+}
+
+type GetGrowthAlertGroupByPayload<T extends GrowthAlertGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<GrowthAlertGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof GrowthAlertGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], GrowthAlertGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], GrowthAlertGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type GrowthAlertWhereInput = {
+  AND?: Prisma.GrowthAlertWhereInput | Prisma.GrowthAlertWhereInput[]
+  OR?: Prisma.GrowthAlertWhereInput[]
+  NOT?: Prisma.GrowthAlertWhereInput | Prisma.GrowthAlertWhereInput[]
+  id?: Prisma.StringFilter<"GrowthAlert"> | string
+  clinicId?: Prisma.StringFilter<"GrowthAlert"> | string
+  patientId?: Prisma.StringFilter<"GrowthAlert"> | string
+  growthRecordId?: Prisma.StringFilter<"GrowthAlert"> | string
+  type?: Prisma.EnumGrowthAlertTypeFilter<"GrowthAlert"> | $Enums.GrowthAlertType
+  severity?: Prisma.EnumGrowthAlertSeverityFilter<"GrowthAlert"> | $Enums.GrowthAlertSeverity
+  message?: Prisma.StringFilter<"GrowthAlert"> | string
+  details?: Prisma.JsonNullableFilter<"GrowthAlert">
+  acknowledgedAt?: Prisma.DateTimeNullableFilter<"GrowthAlert"> | Date | string | null
+  acknowledgedById?: Prisma.StringNullableFilter<"GrowthAlert"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"GrowthAlert"> | Date | string
+  clinic?: Prisma.XOR<Prisma.ClinicScalarRelationFilter, Prisma.ClinicWhereInput>
+  patient?: Prisma.XOR<Prisma.PatientScalarRelationFilter, Prisma.PatientWhereInput>
+  growthRecord?: Prisma.XOR<Prisma.GrowthRecordScalarRelationFilter, Prisma.GrowthRecordWhereInput>
+}
+
+export type GrowthAlertOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  patientId?: Prisma.SortOrder
+  growthRecordId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  severity?: Prisma.SortOrder
+  message?: Prisma.SortOrder
+  details?: Prisma.SortOrderInput | Prisma.SortOrder
+  acknowledgedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  acknowledgedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  clinic?: Prisma.ClinicOrderByWithRelationInput
+  patient?: Prisma.PatientOrderByWithRelationInput
+  growthRecord?: Prisma.GrowthRecordOrderByWithRelationInput
+}
+
+export type GrowthAlertWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  growthRecordId_type?: Prisma.GrowthAlertGrowthRecordIdTypeCompoundUniqueInput
+  AND?: Prisma.GrowthAlertWhereInput | Prisma.GrowthAlertWhereInput[]
+  OR?: Prisma.GrowthAlertWhereInput[]
+  NOT?: Prisma.GrowthAlertWhereInput | Prisma.GrowthAlertWhereInput[]
+  clinicId?: Prisma.StringFilter<"GrowthAlert"> | string
+  patientId?: Prisma.StringFilter<"GrowthAlert"> | string
+  growthRecordId?: Prisma.StringFilter<"GrowthAlert"> | string
+  type?: Prisma.EnumGrowthAlertTypeFilter<"GrowthAlert"> | $Enums.GrowthAlertType
+  severity?: Prisma.EnumGrowthAlertSeverityFilter<"GrowthAlert"> | $Enums.GrowthAlertSeverity
+  message?: Prisma.StringFilter<"GrowthAlert"> | string
+  details?: Prisma.JsonNullableFilter<"GrowthAlert">
+  acknowledgedAt?: Prisma.DateTimeNullableFilter<"GrowthAlert"> | Date | string | null
+  acknowledgedById?: Prisma.StringNullableFilter<"GrowthAlert"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"GrowthAlert"> | Date | string
+  clinic?: Prisma.XOR<Prisma.ClinicScalarRelationFilter, Prisma.ClinicWhereInput>
+  patient?: Prisma.XOR<Prisma.PatientScalarRelationFilter, Prisma.PatientWhereInput>
+  growthRecord?: Prisma.XOR<Prisma.GrowthRecordScalarRelationFilter, Prisma.GrowthRecordWhereInput>
+}, "id" | "growthRecordId_type">
+
+export type GrowthAlertOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  patientId?: Prisma.SortOrder
+  growthRecordId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  severity?: Prisma.SortOrder
+  message?: Prisma.SortOrder
+  details?: Prisma.SortOrderInput | Prisma.SortOrder
+  acknowledgedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  acknowledgedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.GrowthAlertCountOrderByAggregateInput
+  _max?: Prisma.GrowthAlertMaxOrderByAggregateInput
+  _min?: Prisma.GrowthAlertMinOrderByAggregateInput
+}
+
+export type GrowthAlertScalarWhereWithAggregatesInput = {
+  AND?: Prisma.GrowthAlertScalarWhereWithAggregatesInput | Prisma.GrowthAlertScalarWhereWithAggregatesInput[]
+  OR?: Prisma.GrowthAlertScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.GrowthAlertScalarWhereWithAggregatesInput | Prisma.GrowthAlertScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"GrowthAlert"> | string
+  clinicId?: Prisma.StringWithAggregatesFilter<"GrowthAlert"> | string
+  patientId?: Prisma.StringWithAggregatesFilter<"GrowthAlert"> | string
+  growthRecordId?: Prisma.StringWithAggregatesFilter<"GrowthAlert"> | string
+  type?: Prisma.EnumGrowthAlertTypeWithAggregatesFilter<"GrowthAlert"> | $Enums.GrowthAlertType
+  severity?: Prisma.EnumGrowthAlertSeverityWithAggregatesFilter<"GrowthAlert"> | $Enums.GrowthAlertSeverity
+  message?: Prisma.StringWithAggregatesFilter<"GrowthAlert"> | string
+  details?: Prisma.JsonNullableWithAggregatesFilter<"GrowthAlert">
+  acknowledgedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"GrowthAlert"> | Date | string | null
+  acknowledgedById?: Prisma.StringNullableWithAggregatesFilter<"GrowthAlert"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"GrowthAlert"> | Date | string
+}
+
+export type GrowthAlertCreateInput = {
+  id?: string
+  type: $Enums.GrowthAlertType
+  severity: $Enums.GrowthAlertSeverity
+  message: string
+  details?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  acknowledgedAt?: Date | string | null
+  acknowledgedById?: string | null
+  createdAt?: Date | string
+  clinic: Prisma.ClinicCreateNestedOneWithoutGrowthAlertsInput
+  patient: Prisma.PatientCreateNestedOneWithoutGrowthAlertsInput
+  growthRecord: Prisma.GrowthRecordCreateNestedOneWithoutAlertsInput
+}
+
+export type GrowthAlertUncheckedCreateInput = {
+  id?: string
+  clinicId: string
+  patientId: string
+  growthRecordId: string
+  type: $Enums.GrowthAlertType
+  severity: $Enums.GrowthAlertSeverity
+  message: string
+  details?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  acknowledgedAt?: Date | string | null
+  acknowledgedById?: string | null
+  createdAt?: Date | string
+}
+
+export type GrowthAlertUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumGrowthAlertTypeFieldUpdateOperationsInput | $Enums.GrowthAlertType
+  severity?: Prisma.EnumGrowthAlertSeverityFieldUpdateOperationsInput | $Enums.GrowthAlertSeverity
+  message?: Prisma.StringFieldUpdateOperationsInput | string
+  details?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  acknowledgedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  acknowledgedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutGrowthAlertsNestedInput
+  patient?: Prisma.PatientUpdateOneRequiredWithoutGrowthAlertsNestedInput
+  growthRecord?: Prisma.GrowthRecordUpdateOneRequiredWithoutAlertsNestedInput
+}
+
+export type GrowthAlertUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  growthRecordId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumGrowthAlertTypeFieldUpdateOperationsInput | $Enums.GrowthAlertType
+  severity?: Prisma.EnumGrowthAlertSeverityFieldUpdateOperationsInput | $Enums.GrowthAlertSeverity
+  message?: Prisma.StringFieldUpdateOperationsInput | string
+  details?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  acknowledgedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  acknowledgedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type GrowthAlertCreateManyInput = {
+  id?: string
+  clinicId: string
+  patientId: string
+  growthRecordId: string
+  type: $Enums.GrowthAlertType
+  severity: $Enums.GrowthAlertSeverity
+  message: string
+  details?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  acknowledgedAt?: Date | string | null
+  acknowledgedById?: string | null
+  createdAt?: Date | string
+}
+
+export type GrowthAlertUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumGrowthAlertTypeFieldUpdateOperationsInput | $Enums.GrowthAlertType
+  severity?: Prisma.EnumGrowthAlertSeverityFieldUpdateOperationsInput | $Enums.GrowthAlertSeverity
+  message?: Prisma.StringFieldUpdateOperationsInput | string
+  details?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  acknowledgedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  acknowledgedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type GrowthAlertUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  growthRecordId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumGrowthAlertTypeFieldUpdateOperationsInput | $Enums.GrowthAlertType
+  severity?: Prisma.EnumGrowthAlertSeverityFieldUpdateOperationsInput | $Enums.GrowthAlertSeverity
+  message?: Prisma.StringFieldUpdateOperationsInput | string
+  details?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  acknowledgedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  acknowledgedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type GrowthAlertListRelationFilter = {
+  every?: Prisma.GrowthAlertWhereInput
+  some?: Prisma.GrowthAlertWhereInput
+  none?: Prisma.GrowthAlertWhereInput
+}
+
+export type GrowthAlertOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type GrowthAlertGrowthRecordIdTypeCompoundUniqueInput = {
+  growthRecordId: string
+  type: $Enums.GrowthAlertType
+}
+
+export type GrowthAlertCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  patientId?: Prisma.SortOrder
+  growthRecordId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  severity?: Prisma.SortOrder
+  message?: Prisma.SortOrder
+  details?: Prisma.SortOrder
+  acknowledgedAt?: Prisma.SortOrder
+  acknowledgedById?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type GrowthAlertMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  patientId?: Prisma.SortOrder
+  growthRecordId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  severity?: Prisma.SortOrder
+  message?: Prisma.SortOrder
+  acknowledgedAt?: Prisma.SortOrder
+  acknowledgedById?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type GrowthAlertMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  patientId?: Prisma.SortOrder
+  growthRecordId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  severity?: Prisma.SortOrder
+  message?: Prisma.SortOrder
+  acknowledgedAt?: Prisma.SortOrder
+  acknowledgedById?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type GrowthAlertCreateNestedManyWithoutClinicInput = {
+  create?: Prisma.XOR<Prisma.GrowthAlertCreateWithoutClinicInput, Prisma.GrowthAlertUncheckedCreateWithoutClinicInput> | Prisma.GrowthAlertCreateWithoutClinicInput[] | Prisma.GrowthAlertUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.GrowthAlertCreateOrConnectWithoutClinicInput | Prisma.GrowthAlertCreateOrConnectWithoutClinicInput[]
+  createMany?: Prisma.GrowthAlertCreateManyClinicInputEnvelope
+  connect?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+}
+
+export type GrowthAlertUncheckedCreateNestedManyWithoutClinicInput = {
+  create?: Prisma.XOR<Prisma.GrowthAlertCreateWithoutClinicInput, Prisma.GrowthAlertUncheckedCreateWithoutClinicInput> | Prisma.GrowthAlertCreateWithoutClinicInput[] | Prisma.GrowthAlertUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.GrowthAlertCreateOrConnectWithoutClinicInput | Prisma.GrowthAlertCreateOrConnectWithoutClinicInput[]
+  createMany?: Prisma.GrowthAlertCreateManyClinicInputEnvelope
+  connect?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+}
+
+export type GrowthAlertUpdateManyWithoutClinicNestedInput = {
+  create?: Prisma.XOR<Prisma.GrowthAlertCreateWithoutClinicInput, Prisma.GrowthAlertUncheckedCreateWithoutClinicInput> | Prisma.GrowthAlertCreateWithoutClinicInput[] | Prisma.GrowthAlertUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.GrowthAlertCreateOrConnectWithoutClinicInput | Prisma.GrowthAlertCreateOrConnectWithoutClinicInput[]
+  upsert?: Prisma.GrowthAlertUpsertWithWhereUniqueWithoutClinicInput | Prisma.GrowthAlertUpsertWithWhereUniqueWithoutClinicInput[]
+  createMany?: Prisma.GrowthAlertCreateManyClinicInputEnvelope
+  set?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+  disconnect?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+  delete?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+  connect?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+  update?: Prisma.GrowthAlertUpdateWithWhereUniqueWithoutClinicInput | Prisma.GrowthAlertUpdateWithWhereUniqueWithoutClinicInput[]
+  updateMany?: Prisma.GrowthAlertUpdateManyWithWhereWithoutClinicInput | Prisma.GrowthAlertUpdateManyWithWhereWithoutClinicInput[]
+  deleteMany?: Prisma.GrowthAlertScalarWhereInput | Prisma.GrowthAlertScalarWhereInput[]
+}
+
+export type GrowthAlertUncheckedUpdateManyWithoutClinicNestedInput = {
+  create?: Prisma.XOR<Prisma.GrowthAlertCreateWithoutClinicInput, Prisma.GrowthAlertUncheckedCreateWithoutClinicInput> | Prisma.GrowthAlertCreateWithoutClinicInput[] | Prisma.GrowthAlertUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.GrowthAlertCreateOrConnectWithoutClinicInput | Prisma.GrowthAlertCreateOrConnectWithoutClinicInput[]
+  upsert?: Prisma.GrowthAlertUpsertWithWhereUniqueWithoutClinicInput | Prisma.GrowthAlertUpsertWithWhereUniqueWithoutClinicInput[]
+  createMany?: Prisma.GrowthAlertCreateManyClinicInputEnvelope
+  set?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+  disconnect?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+  delete?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+  connect?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+  update?: Prisma.GrowthAlertUpdateWithWhereUniqueWithoutClinicInput | Prisma.GrowthAlertUpdateWithWhereUniqueWithoutClinicInput[]
+  updateMany?: Prisma.GrowthAlertUpdateManyWithWhereWithoutClinicInput | Prisma.GrowthAlertUpdateManyWithWhereWithoutClinicInput[]
+  deleteMany?: Prisma.GrowthAlertScalarWhereInput | Prisma.GrowthAlertScalarWhereInput[]
+}
+
+export type GrowthAlertCreateNestedManyWithoutPatientInput = {
+  create?: Prisma.XOR<Prisma.GrowthAlertCreateWithoutPatientInput, Prisma.GrowthAlertUncheckedCreateWithoutPatientInput> | Prisma.GrowthAlertCreateWithoutPatientInput[] | Prisma.GrowthAlertUncheckedCreateWithoutPatientInput[]
+  connectOrCreate?: Prisma.GrowthAlertCreateOrConnectWithoutPatientInput | Prisma.GrowthAlertCreateOrConnectWithoutPatientInput[]
+  createMany?: Prisma.GrowthAlertCreateManyPatientInputEnvelope
+  connect?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+}
+
+export type GrowthAlertUncheckedCreateNestedManyWithoutPatientInput = {
+  create?: Prisma.XOR<Prisma.GrowthAlertCreateWithoutPatientInput, Prisma.GrowthAlertUncheckedCreateWithoutPatientInput> | Prisma.GrowthAlertCreateWithoutPatientInput[] | Prisma.GrowthAlertUncheckedCreateWithoutPatientInput[]
+  connectOrCreate?: Prisma.GrowthAlertCreateOrConnectWithoutPatientInput | Prisma.GrowthAlertCreateOrConnectWithoutPatientInput[]
+  createMany?: Prisma.GrowthAlertCreateManyPatientInputEnvelope
+  connect?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+}
+
+export type GrowthAlertUpdateManyWithoutPatientNestedInput = {
+  create?: Prisma.XOR<Prisma.GrowthAlertCreateWithoutPatientInput, Prisma.GrowthAlertUncheckedCreateWithoutPatientInput> | Prisma.GrowthAlertCreateWithoutPatientInput[] | Prisma.GrowthAlertUncheckedCreateWithoutPatientInput[]
+  connectOrCreate?: Prisma.GrowthAlertCreateOrConnectWithoutPatientInput | Prisma.GrowthAlertCreateOrConnectWithoutPatientInput[]
+  upsert?: Prisma.GrowthAlertUpsertWithWhereUniqueWithoutPatientInput | Prisma.GrowthAlertUpsertWithWhereUniqueWithoutPatientInput[]
+  createMany?: Prisma.GrowthAlertCreateManyPatientInputEnvelope
+  set?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+  disconnect?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+  delete?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+  connect?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+  update?: Prisma.GrowthAlertUpdateWithWhereUniqueWithoutPatientInput | Prisma.GrowthAlertUpdateWithWhereUniqueWithoutPatientInput[]
+  updateMany?: Prisma.GrowthAlertUpdateManyWithWhereWithoutPatientInput | Prisma.GrowthAlertUpdateManyWithWhereWithoutPatientInput[]
+  deleteMany?: Prisma.GrowthAlertScalarWhereInput | Prisma.GrowthAlertScalarWhereInput[]
+}
+
+export type GrowthAlertUncheckedUpdateManyWithoutPatientNestedInput = {
+  create?: Prisma.XOR<Prisma.GrowthAlertCreateWithoutPatientInput, Prisma.GrowthAlertUncheckedCreateWithoutPatientInput> | Prisma.GrowthAlertCreateWithoutPatientInput[] | Prisma.GrowthAlertUncheckedCreateWithoutPatientInput[]
+  connectOrCreate?: Prisma.GrowthAlertCreateOrConnectWithoutPatientInput | Prisma.GrowthAlertCreateOrConnectWithoutPatientInput[]
+  upsert?: Prisma.GrowthAlertUpsertWithWhereUniqueWithoutPatientInput | Prisma.GrowthAlertUpsertWithWhereUniqueWithoutPatientInput[]
+  createMany?: Prisma.GrowthAlertCreateManyPatientInputEnvelope
+  set?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+  disconnect?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+  delete?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+  connect?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+  update?: Prisma.GrowthAlertUpdateWithWhereUniqueWithoutPatientInput | Prisma.GrowthAlertUpdateWithWhereUniqueWithoutPatientInput[]
+  updateMany?: Prisma.GrowthAlertUpdateManyWithWhereWithoutPatientInput | Prisma.GrowthAlertUpdateManyWithWhereWithoutPatientInput[]
+  deleteMany?: Prisma.GrowthAlertScalarWhereInput | Prisma.GrowthAlertScalarWhereInput[]
+}
+
+export type GrowthAlertCreateNestedManyWithoutGrowthRecordInput = {
+  create?: Prisma.XOR<Prisma.GrowthAlertCreateWithoutGrowthRecordInput, Prisma.GrowthAlertUncheckedCreateWithoutGrowthRecordInput> | Prisma.GrowthAlertCreateWithoutGrowthRecordInput[] | Prisma.GrowthAlertUncheckedCreateWithoutGrowthRecordInput[]
+  connectOrCreate?: Prisma.GrowthAlertCreateOrConnectWithoutGrowthRecordInput | Prisma.GrowthAlertCreateOrConnectWithoutGrowthRecordInput[]
+  createMany?: Prisma.GrowthAlertCreateManyGrowthRecordInputEnvelope
+  connect?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+}
+
+export type GrowthAlertUncheckedCreateNestedManyWithoutGrowthRecordInput = {
+  create?: Prisma.XOR<Prisma.GrowthAlertCreateWithoutGrowthRecordInput, Prisma.GrowthAlertUncheckedCreateWithoutGrowthRecordInput> | Prisma.GrowthAlertCreateWithoutGrowthRecordInput[] | Prisma.GrowthAlertUncheckedCreateWithoutGrowthRecordInput[]
+  connectOrCreate?: Prisma.GrowthAlertCreateOrConnectWithoutGrowthRecordInput | Prisma.GrowthAlertCreateOrConnectWithoutGrowthRecordInput[]
+  createMany?: Prisma.GrowthAlertCreateManyGrowthRecordInputEnvelope
+  connect?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+}
+
+export type GrowthAlertUpdateManyWithoutGrowthRecordNestedInput = {
+  create?: Prisma.XOR<Prisma.GrowthAlertCreateWithoutGrowthRecordInput, Prisma.GrowthAlertUncheckedCreateWithoutGrowthRecordInput> | Prisma.GrowthAlertCreateWithoutGrowthRecordInput[] | Prisma.GrowthAlertUncheckedCreateWithoutGrowthRecordInput[]
+  connectOrCreate?: Prisma.GrowthAlertCreateOrConnectWithoutGrowthRecordInput | Prisma.GrowthAlertCreateOrConnectWithoutGrowthRecordInput[]
+  upsert?: Prisma.GrowthAlertUpsertWithWhereUniqueWithoutGrowthRecordInput | Prisma.GrowthAlertUpsertWithWhereUniqueWithoutGrowthRecordInput[]
+  createMany?: Prisma.GrowthAlertCreateManyGrowthRecordInputEnvelope
+  set?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+  disconnect?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+  delete?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+  connect?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+  update?: Prisma.GrowthAlertUpdateWithWhereUniqueWithoutGrowthRecordInput | Prisma.GrowthAlertUpdateWithWhereUniqueWithoutGrowthRecordInput[]
+  updateMany?: Prisma.GrowthAlertUpdateManyWithWhereWithoutGrowthRecordInput | Prisma.GrowthAlertUpdateManyWithWhereWithoutGrowthRecordInput[]
+  deleteMany?: Prisma.GrowthAlertScalarWhereInput | Prisma.GrowthAlertScalarWhereInput[]
+}
+
+export type GrowthAlertUncheckedUpdateManyWithoutGrowthRecordNestedInput = {
+  create?: Prisma.XOR<Prisma.GrowthAlertCreateWithoutGrowthRecordInput, Prisma.GrowthAlertUncheckedCreateWithoutGrowthRecordInput> | Prisma.GrowthAlertCreateWithoutGrowthRecordInput[] | Prisma.GrowthAlertUncheckedCreateWithoutGrowthRecordInput[]
+  connectOrCreate?: Prisma.GrowthAlertCreateOrConnectWithoutGrowthRecordInput | Prisma.GrowthAlertCreateOrConnectWithoutGrowthRecordInput[]
+  upsert?: Prisma.GrowthAlertUpsertWithWhereUniqueWithoutGrowthRecordInput | Prisma.GrowthAlertUpsertWithWhereUniqueWithoutGrowthRecordInput[]
+  createMany?: Prisma.GrowthAlertCreateManyGrowthRecordInputEnvelope
+  set?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+  disconnect?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+  delete?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+  connect?: Prisma.GrowthAlertWhereUniqueInput | Prisma.GrowthAlertWhereUniqueInput[]
+  update?: Prisma.GrowthAlertUpdateWithWhereUniqueWithoutGrowthRecordInput | Prisma.GrowthAlertUpdateWithWhereUniqueWithoutGrowthRecordInput[]
+  updateMany?: Prisma.GrowthAlertUpdateManyWithWhereWithoutGrowthRecordInput | Prisma.GrowthAlertUpdateManyWithWhereWithoutGrowthRecordInput[]
+  deleteMany?: Prisma.GrowthAlertScalarWhereInput | Prisma.GrowthAlertScalarWhereInput[]
+}
+
+export type EnumGrowthAlertTypeFieldUpdateOperationsInput = {
+  set?: $Enums.GrowthAlertType
+}
+
+export type EnumGrowthAlertSeverityFieldUpdateOperationsInput = {
+  set?: $Enums.GrowthAlertSeverity
+}
+
+export type GrowthAlertCreateWithoutClinicInput = {
+  id?: string
+  type: $Enums.GrowthAlertType
+  severity: $Enums.GrowthAlertSeverity
+  message: string
+  details?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  acknowledgedAt?: Date | string | null
+  acknowledgedById?: string | null
+  createdAt?: Date | string
+  patient: Prisma.PatientCreateNestedOneWithoutGrowthAlertsInput
+  growthRecord: Prisma.GrowthRecordCreateNestedOneWithoutAlertsInput
+}
+
+export type GrowthAlertUncheckedCreateWithoutClinicInput = {
+  id?: string
+  patientId: string
+  growthRecordId: string
+  type: $Enums.GrowthAlertType
+  severity: $Enums.GrowthAlertSeverity
+  message: string
+  details?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  acknowledgedAt?: Date | string | null
+  acknowledgedById?: string | null
+  createdAt?: Date | string
+}
+
+export type GrowthAlertCreateOrConnectWithoutClinicInput = {
+  where: Prisma.GrowthAlertWhereUniqueInput
+  create: Prisma.XOR<Prisma.GrowthAlertCreateWithoutClinicInput, Prisma.GrowthAlertUncheckedCreateWithoutClinicInput>
+}
+
+export type GrowthAlertCreateManyClinicInputEnvelope = {
+  data: Prisma.GrowthAlertCreateManyClinicInput | Prisma.GrowthAlertCreateManyClinicInput[]
+  skipDuplicates?: boolean
+}
+
+export type GrowthAlertUpsertWithWhereUniqueWithoutClinicInput = {
+  where: Prisma.GrowthAlertWhereUniqueInput
+  update: Prisma.XOR<Prisma.GrowthAlertUpdateWithoutClinicInput, Prisma.GrowthAlertUncheckedUpdateWithoutClinicInput>
+  create: Prisma.XOR<Prisma.GrowthAlertCreateWithoutClinicInput, Prisma.GrowthAlertUncheckedCreateWithoutClinicInput>
+}
+
+export type GrowthAlertUpdateWithWhereUniqueWithoutClinicInput = {
+  where: Prisma.GrowthAlertWhereUniqueInput
+  data: Prisma.XOR<Prisma.GrowthAlertUpdateWithoutClinicInput, Prisma.GrowthAlertUncheckedUpdateWithoutClinicInput>
+}
+
+export type GrowthAlertUpdateManyWithWhereWithoutClinicInput = {
+  where: Prisma.GrowthAlertScalarWhereInput
+  data: Prisma.XOR<Prisma.GrowthAlertUpdateManyMutationInput, Prisma.GrowthAlertUncheckedUpdateManyWithoutClinicInput>
+}
+
+export type GrowthAlertScalarWhereInput = {
+  AND?: Prisma.GrowthAlertScalarWhereInput | Prisma.GrowthAlertScalarWhereInput[]
+  OR?: Prisma.GrowthAlertScalarWhereInput[]
+  NOT?: Prisma.GrowthAlertScalarWhereInput | Prisma.GrowthAlertScalarWhereInput[]
+  id?: Prisma.StringFilter<"GrowthAlert"> | string
+  clinicId?: Prisma.StringFilter<"GrowthAlert"> | string
+  patientId?: Prisma.StringFilter<"GrowthAlert"> | string
+  growthRecordId?: Prisma.StringFilter<"GrowthAlert"> | string
+  type?: Prisma.EnumGrowthAlertTypeFilter<"GrowthAlert"> | $Enums.GrowthAlertType
+  severity?: Prisma.EnumGrowthAlertSeverityFilter<"GrowthAlert"> | $Enums.GrowthAlertSeverity
+  message?: Prisma.StringFilter<"GrowthAlert"> | string
+  details?: Prisma.JsonNullableFilter<"GrowthAlert">
+  acknowledgedAt?: Prisma.DateTimeNullableFilter<"GrowthAlert"> | Date | string | null
+  acknowledgedById?: Prisma.StringNullableFilter<"GrowthAlert"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"GrowthAlert"> | Date | string
+}
+
+export type GrowthAlertCreateWithoutPatientInput = {
+  id?: string
+  type: $Enums.GrowthAlertType
+  severity: $Enums.GrowthAlertSeverity
+  message: string
+  details?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  acknowledgedAt?: Date | string | null
+  acknowledgedById?: string | null
+  createdAt?: Date | string
+  clinic: Prisma.ClinicCreateNestedOneWithoutGrowthAlertsInput
+  growthRecord: Prisma.GrowthRecordCreateNestedOneWithoutAlertsInput
+}
+
+export type GrowthAlertUncheckedCreateWithoutPatientInput = {
+  id?: string
+  clinicId: string
+  growthRecordId: string
+  type: $Enums.GrowthAlertType
+  severity: $Enums.GrowthAlertSeverity
+  message: string
+  details?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  acknowledgedAt?: Date | string | null
+  acknowledgedById?: string | null
+  createdAt?: Date | string
+}
+
+export type GrowthAlertCreateOrConnectWithoutPatientInput = {
+  where: Prisma.GrowthAlertWhereUniqueInput
+  create: Prisma.XOR<Prisma.GrowthAlertCreateWithoutPatientInput, Prisma.GrowthAlertUncheckedCreateWithoutPatientInput>
+}
+
+export type GrowthAlertCreateManyPatientInputEnvelope = {
+  data: Prisma.GrowthAlertCreateManyPatientInput | Prisma.GrowthAlertCreateManyPatientInput[]
+  skipDuplicates?: boolean
+}
+
+export type GrowthAlertUpsertWithWhereUniqueWithoutPatientInput = {
+  where: Prisma.GrowthAlertWhereUniqueInput
+  update: Prisma.XOR<Prisma.GrowthAlertUpdateWithoutPatientInput, Prisma.GrowthAlertUncheckedUpdateWithoutPatientInput>
+  create: Prisma.XOR<Prisma.GrowthAlertCreateWithoutPatientInput, Prisma.GrowthAlertUncheckedCreateWithoutPatientInput>
+}
+
+export type GrowthAlertUpdateWithWhereUniqueWithoutPatientInput = {
+  where: Prisma.GrowthAlertWhereUniqueInput
+  data: Prisma.XOR<Prisma.GrowthAlertUpdateWithoutPatientInput, Prisma.GrowthAlertUncheckedUpdateWithoutPatientInput>
+}
+
+export type GrowthAlertUpdateManyWithWhereWithoutPatientInput = {
+  where: Prisma.GrowthAlertScalarWhereInput
+  data: Prisma.XOR<Prisma.GrowthAlertUpdateManyMutationInput, Prisma.GrowthAlertUncheckedUpdateManyWithoutPatientInput>
+}
+
+export type GrowthAlertCreateWithoutGrowthRecordInput = {
+  id?: string
+  type: $Enums.GrowthAlertType
+  severity: $Enums.GrowthAlertSeverity
+  message: string
+  details?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  acknowledgedAt?: Date | string | null
+  acknowledgedById?: string | null
+  createdAt?: Date | string
+  clinic: Prisma.ClinicCreateNestedOneWithoutGrowthAlertsInput
+  patient: Prisma.PatientCreateNestedOneWithoutGrowthAlertsInput
+}
+
+export type GrowthAlertUncheckedCreateWithoutGrowthRecordInput = {
+  id?: string
+  clinicId: string
+  patientId: string
+  type: $Enums.GrowthAlertType
+  severity: $Enums.GrowthAlertSeverity
+  message: string
+  details?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  acknowledgedAt?: Date | string | null
+  acknowledgedById?: string | null
+  createdAt?: Date | string
+}
+
+export type GrowthAlertCreateOrConnectWithoutGrowthRecordInput = {
+  where: Prisma.GrowthAlertWhereUniqueInput
+  create: Prisma.XOR<Prisma.GrowthAlertCreateWithoutGrowthRecordInput, Prisma.GrowthAlertUncheckedCreateWithoutGrowthRecordInput>
+}
+
+export type GrowthAlertCreateManyGrowthRecordInputEnvelope = {
+  data: Prisma.GrowthAlertCreateManyGrowthRecordInput | Prisma.GrowthAlertCreateManyGrowthRecordInput[]
+  skipDuplicates?: boolean
+}
+
+export type GrowthAlertUpsertWithWhereUniqueWithoutGrowthRecordInput = {
+  where: Prisma.GrowthAlertWhereUniqueInput
+  update: Prisma.XOR<Prisma.GrowthAlertUpdateWithoutGrowthRecordInput, Prisma.GrowthAlertUncheckedUpdateWithoutGrowthRecordInput>
+  create: Prisma.XOR<Prisma.GrowthAlertCreateWithoutGrowthRecordInput, Prisma.GrowthAlertUncheckedCreateWithoutGrowthRecordInput>
+}
+
+export type GrowthAlertUpdateWithWhereUniqueWithoutGrowthRecordInput = {
+  where: Prisma.GrowthAlertWhereUniqueInput
+  data: Prisma.XOR<Prisma.GrowthAlertUpdateWithoutGrowthRecordInput, Prisma.GrowthAlertUncheckedUpdateWithoutGrowthRecordInput>
+}
+
+export type GrowthAlertUpdateManyWithWhereWithoutGrowthRecordInput = {
+  where: Prisma.GrowthAlertScalarWhereInput
+  data: Prisma.XOR<Prisma.GrowthAlertUpdateManyMutationInput, Prisma.GrowthAlertUncheckedUpdateManyWithoutGrowthRecordInput>
+}
+
+export type GrowthAlertCreateManyClinicInput = {
+  id?: string
+  patientId: string
+  growthRecordId: string
+  type: $Enums.GrowthAlertType
+  severity: $Enums.GrowthAlertSeverity
+  message: string
+  details?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  acknowledgedAt?: Date | string | null
+  acknowledgedById?: string | null
+  createdAt?: Date | string
+}
+
+export type GrowthAlertUpdateWithoutClinicInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumGrowthAlertTypeFieldUpdateOperationsInput | $Enums.GrowthAlertType
+  severity?: Prisma.EnumGrowthAlertSeverityFieldUpdateOperationsInput | $Enums.GrowthAlertSeverity
+  message?: Prisma.StringFieldUpdateOperationsInput | string
+  details?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  acknowledgedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  acknowledgedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  patient?: Prisma.PatientUpdateOneRequiredWithoutGrowthAlertsNestedInput
+  growthRecord?: Prisma.GrowthRecordUpdateOneRequiredWithoutAlertsNestedInput
+}
+
+export type GrowthAlertUncheckedUpdateWithoutClinicInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  growthRecordId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumGrowthAlertTypeFieldUpdateOperationsInput | $Enums.GrowthAlertType
+  severity?: Prisma.EnumGrowthAlertSeverityFieldUpdateOperationsInput | $Enums.GrowthAlertSeverity
+  message?: Prisma.StringFieldUpdateOperationsInput | string
+  details?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  acknowledgedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  acknowledgedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type GrowthAlertUncheckedUpdateManyWithoutClinicInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  growthRecordId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumGrowthAlertTypeFieldUpdateOperationsInput | $Enums.GrowthAlertType
+  severity?: Prisma.EnumGrowthAlertSeverityFieldUpdateOperationsInput | $Enums.GrowthAlertSeverity
+  message?: Prisma.StringFieldUpdateOperationsInput | string
+  details?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  acknowledgedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  acknowledgedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type GrowthAlertCreateManyPatientInput = {
+  id?: string
+  clinicId: string
+  growthRecordId: string
+  type: $Enums.GrowthAlertType
+  severity: $Enums.GrowthAlertSeverity
+  message: string
+  details?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  acknowledgedAt?: Date | string | null
+  acknowledgedById?: string | null
+  createdAt?: Date | string
+}
+
+export type GrowthAlertUpdateWithoutPatientInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumGrowthAlertTypeFieldUpdateOperationsInput | $Enums.GrowthAlertType
+  severity?: Prisma.EnumGrowthAlertSeverityFieldUpdateOperationsInput | $Enums.GrowthAlertSeverity
+  message?: Prisma.StringFieldUpdateOperationsInput | string
+  details?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  acknowledgedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  acknowledgedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutGrowthAlertsNestedInput
+  growthRecord?: Prisma.GrowthRecordUpdateOneRequiredWithoutAlertsNestedInput
+}
+
+export type GrowthAlertUncheckedUpdateWithoutPatientInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  growthRecordId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumGrowthAlertTypeFieldUpdateOperationsInput | $Enums.GrowthAlertType
+  severity?: Prisma.EnumGrowthAlertSeverityFieldUpdateOperationsInput | $Enums.GrowthAlertSeverity
+  message?: Prisma.StringFieldUpdateOperationsInput | string
+  details?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  acknowledgedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  acknowledgedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type GrowthAlertUncheckedUpdateManyWithoutPatientInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  growthRecordId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumGrowthAlertTypeFieldUpdateOperationsInput | $Enums.GrowthAlertType
+  severity?: Prisma.EnumGrowthAlertSeverityFieldUpdateOperationsInput | $Enums.GrowthAlertSeverity
+  message?: Prisma.StringFieldUpdateOperationsInput | string
+  details?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  acknowledgedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  acknowledgedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type GrowthAlertCreateManyGrowthRecordInput = {
+  id?: string
+  clinicId: string
+  patientId: string
+  type: $Enums.GrowthAlertType
+  severity: $Enums.GrowthAlertSeverity
+  message: string
+  details?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  acknowledgedAt?: Date | string | null
+  acknowledgedById?: string | null
+  createdAt?: Date | string
+}
+
+export type GrowthAlertUpdateWithoutGrowthRecordInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumGrowthAlertTypeFieldUpdateOperationsInput | $Enums.GrowthAlertType
+  severity?: Prisma.EnumGrowthAlertSeverityFieldUpdateOperationsInput | $Enums.GrowthAlertSeverity
+  message?: Prisma.StringFieldUpdateOperationsInput | string
+  details?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  acknowledgedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  acknowledgedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutGrowthAlertsNestedInput
+  patient?: Prisma.PatientUpdateOneRequiredWithoutGrowthAlertsNestedInput
+}
+
+export type GrowthAlertUncheckedUpdateWithoutGrowthRecordInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumGrowthAlertTypeFieldUpdateOperationsInput | $Enums.GrowthAlertType
+  severity?: Prisma.EnumGrowthAlertSeverityFieldUpdateOperationsInput | $Enums.GrowthAlertSeverity
+  message?: Prisma.StringFieldUpdateOperationsInput | string
+  details?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  acknowledgedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  acknowledgedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type GrowthAlertUncheckedUpdateManyWithoutGrowthRecordInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  type?: Prisma.EnumGrowthAlertTypeFieldUpdateOperationsInput | $Enums.GrowthAlertType
+  severity?: Prisma.EnumGrowthAlertSeverityFieldUpdateOperationsInput | $Enums.GrowthAlertSeverity
+  message?: Prisma.StringFieldUpdateOperationsInput | string
+  details?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  acknowledgedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  acknowledgedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type GrowthAlertSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  clinicId?: boolean
+  patientId?: boolean
+  growthRecordId?: boolean
+  type?: boolean
+  severity?: boolean
+  message?: boolean
+  details?: boolean
+  acknowledgedAt?: boolean
+  acknowledgedById?: boolean
+  createdAt?: boolean
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  growthRecord?: boolean | Prisma.GrowthRecordDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["growthAlert"]>
+
+export type GrowthAlertSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  clinicId?: boolean
+  patientId?: boolean
+  growthRecordId?: boolean
+  type?: boolean
+  severity?: boolean
+  message?: boolean
+  details?: boolean
+  acknowledgedAt?: boolean
+  acknowledgedById?: boolean
+  createdAt?: boolean
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  growthRecord?: boolean | Prisma.GrowthRecordDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["growthAlert"]>
+
+export type GrowthAlertSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  clinicId?: boolean
+  patientId?: boolean
+  growthRecordId?: boolean
+  type?: boolean
+  severity?: boolean
+  message?: boolean
+  details?: boolean
+  acknowledgedAt?: boolean
+  acknowledgedById?: boolean
+  createdAt?: boolean
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  growthRecord?: boolean | Prisma.GrowthRecordDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["growthAlert"]>
+
+export type GrowthAlertSelectScalar = {
+  id?: boolean
+  clinicId?: boolean
+  patientId?: boolean
+  growthRecordId?: boolean
+  type?: boolean
+  severity?: boolean
+  message?: boolean
+  details?: boolean
+  acknowledgedAt?: boolean
+  acknowledgedById?: boolean
+  createdAt?: boolean
+}
+
+export type GrowthAlertOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "clinicId" | "patientId" | "growthRecordId" | "type" | "severity" | "message" | "details" | "acknowledgedAt" | "acknowledgedById" | "createdAt", ExtArgs["result"]["growthAlert"]>
+export type GrowthAlertInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  growthRecord?: boolean | Prisma.GrowthRecordDefaultArgs<ExtArgs>
+}
+export type GrowthAlertIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  growthRecord?: boolean | Prisma.GrowthRecordDefaultArgs<ExtArgs>
+}
+export type GrowthAlertIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  growthRecord?: boolean | Prisma.GrowthRecordDefaultArgs<ExtArgs>
+}
+
+export type $GrowthAlertPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "GrowthAlert"
+  objects: {
+    clinic: Prisma.$ClinicPayload<ExtArgs>
+    patient: Prisma.$PatientPayload<ExtArgs>
+    growthRecord: Prisma.$GrowthRecordPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    clinicId: string
+    patientId: string
+    growthRecordId: string
+    type: $Enums.GrowthAlertType
+    severity: $Enums.GrowthAlertSeverity
+    message: string
+    details: runtime.JsonValue | null
+    acknowledgedAt: Date | null
+    acknowledgedById: string | null
+    createdAt: Date
+  }, ExtArgs["result"]["growthAlert"]>
+  composites: {}
+}
+
+export type GrowthAlertGetPayload<S extends boolean | null | undefined | GrowthAlertDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$GrowthAlertPayload, S>
+
+export type GrowthAlertCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<GrowthAlertFindManyArgs, 'select' | 'include' | 'distinct' | 'omit' | 'relationLoadStrategy'> & {
+    select?: GrowthAlertCountAggregateInputType | true
+  }
+
+export interface GrowthAlertDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['GrowthAlert'], meta: { name: 'GrowthAlert' } }
+  /**
+   * Find zero or one GrowthAlert that matches the filter.
+   * @param {GrowthAlertFindUniqueArgs} args - Arguments to find a GrowthAlert
+   * @example
+   * // Get one GrowthAlert
+   * const growthAlert = await prisma.growthAlert.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends GrowthAlertFindUniqueArgs>(args: Prisma.SelectSubset<T, GrowthAlertFindUniqueArgs<ExtArgs>>): Prisma.Prisma__GrowthAlertClient<runtime.Types.Result.GetResult<Prisma.$GrowthAlertPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one GrowthAlert that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {GrowthAlertFindUniqueOrThrowArgs} args - Arguments to find a GrowthAlert
+   * @example
+   * // Get one GrowthAlert
+   * const growthAlert = await prisma.growthAlert.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends GrowthAlertFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, GrowthAlertFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__GrowthAlertClient<runtime.Types.Result.GetResult<Prisma.$GrowthAlertPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first GrowthAlert that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GrowthAlertFindFirstArgs} args - Arguments to find a GrowthAlert
+   * @example
+   * // Get one GrowthAlert
+   * const growthAlert = await prisma.growthAlert.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends GrowthAlertFindFirstArgs>(args?: Prisma.SelectSubset<T, GrowthAlertFindFirstArgs<ExtArgs>>): Prisma.Prisma__GrowthAlertClient<runtime.Types.Result.GetResult<Prisma.$GrowthAlertPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first GrowthAlert that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GrowthAlertFindFirstOrThrowArgs} args - Arguments to find a GrowthAlert
+   * @example
+   * // Get one GrowthAlert
+   * const growthAlert = await prisma.growthAlert.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends GrowthAlertFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, GrowthAlertFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__GrowthAlertClient<runtime.Types.Result.GetResult<Prisma.$GrowthAlertPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more GrowthAlerts that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GrowthAlertFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all GrowthAlerts
+   * const growthAlerts = await prisma.growthAlert.findMany()
+   * 
+   * // Get first 10 GrowthAlerts
+   * const growthAlerts = await prisma.growthAlert.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const growthAlertWithIdOnly = await prisma.growthAlert.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends GrowthAlertFindManyArgs>(args?: Prisma.SelectSubset<T, GrowthAlertFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$GrowthAlertPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a GrowthAlert.
+   * @param {GrowthAlertCreateArgs} args - Arguments to create a GrowthAlert.
+   * @example
+   * // Create one GrowthAlert
+   * const GrowthAlert = await prisma.growthAlert.create({
+   *   data: {
+   *     // ... data to create a GrowthAlert
+   *   }
+   * })
+   * 
+   */
+  create<T extends GrowthAlertCreateArgs>(args: Prisma.SelectSubset<T, GrowthAlertCreateArgs<ExtArgs>>): Prisma.Prisma__GrowthAlertClient<runtime.Types.Result.GetResult<Prisma.$GrowthAlertPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many GrowthAlerts.
+   * @param {GrowthAlertCreateManyArgs} args - Arguments to create many GrowthAlerts.
+   * @example
+   * // Create many GrowthAlerts
+   * const growthAlert = await prisma.growthAlert.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends GrowthAlertCreateManyArgs>(args?: Prisma.SelectSubset<T, GrowthAlertCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many GrowthAlerts and returns the data saved in the database.
+   * @param {GrowthAlertCreateManyAndReturnArgs} args - Arguments to create many GrowthAlerts.
+   * @example
+   * // Create many GrowthAlerts
+   * const growthAlert = await prisma.growthAlert.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many GrowthAlerts and only return the `id`
+   * const growthAlertWithIdOnly = await prisma.growthAlert.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends GrowthAlertCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, GrowthAlertCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$GrowthAlertPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a GrowthAlert.
+   * @param {GrowthAlertDeleteArgs} args - Arguments to delete one GrowthAlert.
+   * @example
+   * // Delete one GrowthAlert
+   * const GrowthAlert = await prisma.growthAlert.delete({
+   *   where: {
+   *     // ... filter to delete one GrowthAlert
+   *   }
+   * })
+   * 
+   */
+  delete<T extends GrowthAlertDeleteArgs>(args: Prisma.SelectSubset<T, GrowthAlertDeleteArgs<ExtArgs>>): Prisma.Prisma__GrowthAlertClient<runtime.Types.Result.GetResult<Prisma.$GrowthAlertPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one GrowthAlert.
+   * @param {GrowthAlertUpdateArgs} args - Arguments to update one GrowthAlert.
+   * @example
+   * // Update one GrowthAlert
+   * const growthAlert = await prisma.growthAlert.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends GrowthAlertUpdateArgs>(args: Prisma.SelectSubset<T, GrowthAlertUpdateArgs<ExtArgs>>): Prisma.Prisma__GrowthAlertClient<runtime.Types.Result.GetResult<Prisma.$GrowthAlertPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more GrowthAlerts.
+   * @param {GrowthAlertDeleteManyArgs} args - Arguments to filter GrowthAlerts to delete.
+   * @example
+   * // Delete a few GrowthAlerts
+   * const { count } = await prisma.growthAlert.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends GrowthAlertDeleteManyArgs>(args?: Prisma.SelectSubset<T, GrowthAlertDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more GrowthAlerts.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GrowthAlertUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many GrowthAlerts
+   * const growthAlert = await prisma.growthAlert.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends GrowthAlertUpdateManyArgs>(args: Prisma.SelectSubset<T, GrowthAlertUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more GrowthAlerts and returns the data updated in the database.
+   * @param {GrowthAlertUpdateManyAndReturnArgs} args - Arguments to update many GrowthAlerts.
+   * @example
+   * // Update many GrowthAlerts
+   * const growthAlert = await prisma.growthAlert.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more GrowthAlerts and only return the `id`
+   * const growthAlertWithIdOnly = await prisma.growthAlert.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends GrowthAlertUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, GrowthAlertUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$GrowthAlertPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one GrowthAlert.
+   * @param {GrowthAlertUpsertArgs} args - Arguments to update or create a GrowthAlert.
+   * @example
+   * // Update or create a GrowthAlert
+   * const growthAlert = await prisma.growthAlert.upsert({
+   *   create: {
+   *     // ... data to create a GrowthAlert
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the GrowthAlert we want to update
+   *   }
+   * })
+   */
+  upsert<T extends GrowthAlertUpsertArgs>(args: Prisma.SelectSubset<T, GrowthAlertUpsertArgs<ExtArgs>>): Prisma.Prisma__GrowthAlertClient<runtime.Types.Result.GetResult<Prisma.$GrowthAlertPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of GrowthAlerts.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GrowthAlertCountArgs} args - Arguments to filter GrowthAlerts to count.
+   * @example
+   * // Count the number of GrowthAlerts
+   * const count = await prisma.growthAlert.count({
+   *   where: {
+   *     // ... the filter for the GrowthAlerts we want to count
+   *   }
+   * })
+  **/
+  count<T extends GrowthAlertCountArgs>(
+    args?: Prisma.Subset<T, GrowthAlertCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], GrowthAlertCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a GrowthAlert.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GrowthAlertAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends GrowthAlertAggregateArgs>(args: Prisma.Subset<T, GrowthAlertAggregateArgs>): Prisma.PrismaPromise<GetGrowthAlertAggregateType<T>>
+
+  /**
+   * Group by GrowthAlert.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GrowthAlertGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends GrowthAlertGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: GrowthAlertGroupByArgs['orderBy'] }
+      : { orderBy?: GrowthAlertGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, GrowthAlertGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetGrowthAlertGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the GrowthAlert model
+ */
+readonly fields: GrowthAlertFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for GrowthAlert.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__GrowthAlertClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  clinic<T extends Prisma.ClinicDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ClinicDefaultArgs<ExtArgs>>): Prisma.Prisma__ClinicClient<runtime.Types.Result.GetResult<Prisma.$ClinicPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  patient<T extends Prisma.PatientDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PatientDefaultArgs<ExtArgs>>): Prisma.Prisma__PatientClient<runtime.Types.Result.GetResult<Prisma.$PatientPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  growthRecord<T extends Prisma.GrowthRecordDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.GrowthRecordDefaultArgs<ExtArgs>>): Prisma.Prisma__GrowthRecordClient<runtime.Types.Result.GetResult<Prisma.$GrowthRecordPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the GrowthAlert model
+ */
+export interface GrowthAlertFieldRefs {
+  readonly id: Prisma.FieldRef<"GrowthAlert", 'String'>
+  readonly clinicId: Prisma.FieldRef<"GrowthAlert", 'String'>
+  readonly patientId: Prisma.FieldRef<"GrowthAlert", 'String'>
+  readonly growthRecordId: Prisma.FieldRef<"GrowthAlert", 'String'>
+  readonly type: Prisma.FieldRef<"GrowthAlert", 'GrowthAlertType'>
+  readonly severity: Prisma.FieldRef<"GrowthAlert", 'GrowthAlertSeverity'>
+  readonly message: Prisma.FieldRef<"GrowthAlert", 'String'>
+  readonly details: Prisma.FieldRef<"GrowthAlert", 'Json'>
+  readonly acknowledgedAt: Prisma.FieldRef<"GrowthAlert", 'DateTime'>
+  readonly acknowledgedById: Prisma.FieldRef<"GrowthAlert", 'String'>
+  readonly createdAt: Prisma.FieldRef<"GrowthAlert", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * GrowthAlert findUnique
+ */
+export type GrowthAlertFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthAlert
+   */
+  select?: Prisma.GrowthAlertSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GrowthAlert
+   */
+  omit?: Prisma.GrowthAlertOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GrowthAlertInclude<ExtArgs> | null
+  /**
+   * Filter, which GrowthAlert to fetch.
+   */
+  where: Prisma.GrowthAlertWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * GrowthAlert findUniqueOrThrow
+ */
+export type GrowthAlertFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthAlert
+   */
+  select?: Prisma.GrowthAlertSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GrowthAlert
+   */
+  omit?: Prisma.GrowthAlertOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GrowthAlertInclude<ExtArgs> | null
+  /**
+   * Filter, which GrowthAlert to fetch.
+   */
+  where: Prisma.GrowthAlertWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * GrowthAlert findFirst
+ */
+export type GrowthAlertFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthAlert
+   */
+  select?: Prisma.GrowthAlertSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GrowthAlert
+   */
+  omit?: Prisma.GrowthAlertOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GrowthAlertInclude<ExtArgs> | null
+  /**
+   * Filter, which GrowthAlert to fetch.
+   */
+  where?: Prisma.GrowthAlertWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of GrowthAlerts to fetch.
+   */
+  orderBy?: Prisma.GrowthAlertOrderByWithRelationInput | Prisma.GrowthAlertOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for GrowthAlerts.
+   */
+  cursor?: Prisma.GrowthAlertWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` GrowthAlerts from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` GrowthAlerts.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of GrowthAlerts.
+   */
+  distinct?: Prisma.GrowthAlertScalarFieldEnum | Prisma.GrowthAlertScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * GrowthAlert findFirstOrThrow
+ */
+export type GrowthAlertFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthAlert
+   */
+  select?: Prisma.GrowthAlertSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GrowthAlert
+   */
+  omit?: Prisma.GrowthAlertOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GrowthAlertInclude<ExtArgs> | null
+  /**
+   * Filter, which GrowthAlert to fetch.
+   */
+  where?: Prisma.GrowthAlertWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of GrowthAlerts to fetch.
+   */
+  orderBy?: Prisma.GrowthAlertOrderByWithRelationInput | Prisma.GrowthAlertOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for GrowthAlerts.
+   */
+  cursor?: Prisma.GrowthAlertWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` GrowthAlerts from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` GrowthAlerts.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of GrowthAlerts.
+   */
+  distinct?: Prisma.GrowthAlertScalarFieldEnum | Prisma.GrowthAlertScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * GrowthAlert findMany
+ */
+export type GrowthAlertFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthAlert
+   */
+  select?: Prisma.GrowthAlertSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GrowthAlert
+   */
+  omit?: Prisma.GrowthAlertOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GrowthAlertInclude<ExtArgs> | null
+  /**
+   * Filter, which GrowthAlerts to fetch.
+   */
+  where?: Prisma.GrowthAlertWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of GrowthAlerts to fetch.
+   */
+  orderBy?: Prisma.GrowthAlertOrderByWithRelationInput | Prisma.GrowthAlertOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing GrowthAlerts.
+   */
+  cursor?: Prisma.GrowthAlertWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` GrowthAlerts from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` GrowthAlerts.
+   */
+  skip?: number
+  distinct?: Prisma.GrowthAlertScalarFieldEnum | Prisma.GrowthAlertScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * GrowthAlert create
+ */
+export type GrowthAlertCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthAlert
+   */
+  select?: Prisma.GrowthAlertSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GrowthAlert
+   */
+  omit?: Prisma.GrowthAlertOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GrowthAlertInclude<ExtArgs> | null
+  /**
+   * The data needed to create a GrowthAlert.
+   */
+  data: Prisma.XOR<Prisma.GrowthAlertCreateInput, Prisma.GrowthAlertUncheckedCreateInput>
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * GrowthAlert createMany
+ */
+export type GrowthAlertCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many GrowthAlerts.
+   */
+  data: Prisma.GrowthAlertCreateManyInput | Prisma.GrowthAlertCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * GrowthAlert createManyAndReturn
+ */
+export type GrowthAlertCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthAlert
+   */
+  select?: Prisma.GrowthAlertSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the GrowthAlert
+   */
+  omit?: Prisma.GrowthAlertOmit<ExtArgs> | null
+  /**
+   * The data used to create many GrowthAlerts.
+   */
+  data: Prisma.GrowthAlertCreateManyInput | Prisma.GrowthAlertCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GrowthAlertIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * GrowthAlert update
+ */
+export type GrowthAlertUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthAlert
+   */
+  select?: Prisma.GrowthAlertSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GrowthAlert
+   */
+  omit?: Prisma.GrowthAlertOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GrowthAlertInclude<ExtArgs> | null
+  /**
+   * The data needed to update a GrowthAlert.
+   */
+  data: Prisma.XOR<Prisma.GrowthAlertUpdateInput, Prisma.GrowthAlertUncheckedUpdateInput>
+  /**
+   * Choose, which GrowthAlert to update.
+   */
+  where: Prisma.GrowthAlertWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * GrowthAlert updateMany
+ */
+export type GrowthAlertUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update GrowthAlerts.
+   */
+  data: Prisma.XOR<Prisma.GrowthAlertUpdateManyMutationInput, Prisma.GrowthAlertUncheckedUpdateManyInput>
+  /**
+   * Filter which GrowthAlerts to update
+   */
+  where?: Prisma.GrowthAlertWhereInput
+  /**
+   * Limit how many GrowthAlerts to update.
+   */
+  limit?: number
+}
+
+/**
+ * GrowthAlert updateManyAndReturn
+ */
+export type GrowthAlertUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthAlert
+   */
+  select?: Prisma.GrowthAlertSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the GrowthAlert
+   */
+  omit?: Prisma.GrowthAlertOmit<ExtArgs> | null
+  /**
+   * The data used to update GrowthAlerts.
+   */
+  data: Prisma.XOR<Prisma.GrowthAlertUpdateManyMutationInput, Prisma.GrowthAlertUncheckedUpdateManyInput>
+  /**
+   * Filter which GrowthAlerts to update
+   */
+  where?: Prisma.GrowthAlertWhereInput
+  /**
+   * Limit how many GrowthAlerts to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GrowthAlertIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * GrowthAlert upsert
+ */
+export type GrowthAlertUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthAlert
+   */
+  select?: Prisma.GrowthAlertSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GrowthAlert
+   */
+  omit?: Prisma.GrowthAlertOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GrowthAlertInclude<ExtArgs> | null
+  /**
+   * The filter to search for the GrowthAlert to update in case it exists.
+   */
+  where: Prisma.GrowthAlertWhereUniqueInput
+  /**
+   * In case the GrowthAlert found by the `where` argument doesn't exist, create a new GrowthAlert with this data.
+   */
+  create: Prisma.XOR<Prisma.GrowthAlertCreateInput, Prisma.GrowthAlertUncheckedCreateInput>
+  /**
+   * In case the GrowthAlert was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.GrowthAlertUpdateInput, Prisma.GrowthAlertUncheckedUpdateInput>
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * GrowthAlert delete
+ */
+export type GrowthAlertDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthAlert
+   */
+  select?: Prisma.GrowthAlertSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GrowthAlert
+   */
+  omit?: Prisma.GrowthAlertOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GrowthAlertInclude<ExtArgs> | null
+  /**
+   * Filter which GrowthAlert to delete.
+   */
+  where: Prisma.GrowthAlertWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * GrowthAlert deleteMany
+ */
+export type GrowthAlertDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which GrowthAlerts to delete
+   */
+  where?: Prisma.GrowthAlertWhereInput
+  /**
+   * Limit how many GrowthAlerts to delete.
+   */
+  limit?: number
+}
+
+/**
+ * GrowthAlert without action
+ */
+export type GrowthAlertDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthAlert
+   */
+  select?: Prisma.GrowthAlertSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GrowthAlert
+   */
+  omit?: Prisma.GrowthAlertOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GrowthAlertInclude<ExtArgs> | null
+}
@@ -88,6 +88,10 @@ export type GrowthRecordMinAggregateOutputType = {
   deletedAt: Date | null
   measurementType: $Enums.MeasurementType | null
   recordedById: string | null
+  plausibility: $Enums.MeasurementPlausibility | null
+  confirmedAt: Date | null
+  confirmedById: string | null
+  referenceVersion: string | null
 }
 
 export type GrowthRecordMaxAggregateOutputType = {
@@ -120,6 +124,10 @@ export type GrowthRecordMaxAggregateOutputType = {
   deletedAt: Date | null
   measurementType: $Enums.MeasurementType | null
   recordedById: string | null
+  plausibility: $Enums.MeasurementPlausibility | null
+  confirmedAt: Date | null
+  confirmedById: string | null
+  referenceVersion: string | null
 }
 
 export type GrowthRecordCountAggregateOutputType = {
@@ -152,6 +160,11 @@ export type GrowthRecordCountAggregateOutputType = {
   deletedAt: number
   measurementType: number
   recordedById: number
+  plausibility: number
+  plausibilityFlags: number
+  confirmedAt: number
+  confirmedById: number
+  referenceVersion: number
   _all: number
 }
 
@@ -218,6 +231,10 @@ export type GrowthRecordMinAggregateInputType = {
   deletedAt?: true
   measurementType?: true
   recordedById?: true
+  plausibility?: true
+  confirmedAt?: true
+  confirmedById?: true
+  referenceVersion?: true
 }
 
 export type GrowthRecordMaxAggregateInputType = {
@@ -250,6 +267,10 @@ export type GrowthRecordMaxAggregateInputType = {
   deletedAt?: true
   measurementType?: true
   recordedById?: true
+  plausibility?: true
+  confirmedAt?: true
+  confirmedById?: true
+  referenceVersion?: true
 }
 
 export type GrowthRecordCountAggregateInputType = {
@@ -282,6 +303,11 @@ export type GrowthRecordCountAggregateInputType = {
   deletedAt?: true
   measurementType?: true
   recordedById?: true
+  plausibility?: true
+  plausibilityFlags?: true
+  confirmedAt?: true
+  confirmedById?: true
+  referenceVersion?: true
   _all?: true
 }
 
@@ -401,6 +427,11 @@ export type GrowthRecordGroupByOutputType = {
   deletedAt: Date | null
   measurementType: $Enums.MeasurementType | null
   recordedById: string | null
+  plausibility: $Enums.MeasurementPlausibility
+  plausibilityFlags: runtime.JsonValue | null
+  confirmedAt: Date | null
+  confirmedById: string | null
+  referenceVersion: string | null
   _count: GrowthRecordCountAggregateOutputType | null
   _avg: GrowthRecordAvgAggregateOutputType | null
   _sum: GrowthRecordSumAggregateOutputType | null
@@ -456,11 +487,17 @@ export type GrowthRecordWhereInput = {
   deletedAt?: Prisma.DateTimeNullableFilter<"GrowthRecord"> | Date | string | null
   measurementType?: Prisma.EnumMeasurementTypeNullableFilter<"GrowthRecord"> | $Enums.MeasurementType | null
   recordedById?: Prisma.StringNullableFilter<"GrowthRecord"> | string | null
+  plausibility?: Prisma.EnumMeasurementPlausibilityFilter<"GrowthRecord"> | $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.JsonNullableFilter<"GrowthRecord">
+  confirmedAt?: Prisma.DateTimeNullableFilter<"GrowthRecord"> | Date | string | null
+  confirmedById?: Prisma.StringNullableFilter<"GrowthRecord"> | string | null
+  referenceVersion?: Prisma.StringNullableFilter<"GrowthRecord"> | string | null
   clinic?: Prisma.XOR<Prisma.ClinicNullableScalarRelationFilter, Prisma.ClinicWhereInput> | null
   patient?: Prisma.XOR<Prisma.PatientScalarRelationFilter, Prisma.PatientWhereInput>
   vitalSigns?: Prisma.XOR<Prisma.VitalSignsNullableScalarRelationFilter, Prisma.VitalSignsWhereInput> | null
   medical?: Prisma.XOR<Prisma.MedicalRecordsNullableScalarRelationFilter, Prisma.MedicalRecordsWhereInput> | null
   recordedBy?: Prisma.XOR<Prisma.StaffNullableScalarRelationFilter, Prisma.StaffWhereInput> | null
+  alerts?: Prisma.GrowthAlertListRelationFilter
 }
 
 export type GrowthRecordOrderByWithRelationInput = {
@@ -493,11 +530,17 @@ export type GrowthRecordOrderByWithRelationInput = {
   deletedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   measurementType?: Prisma.SortOrderInput | Prisma.SortOrder
   recordedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  plausibility?: Prisma.SortOrder
+  plausibilityFlags?: Prisma.SortOrderInput | Prisma.SortOrder
+  confirmedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  confirmedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  referenceVersion?: Prisma.SortOrderInput | Prisma.SortOrder
   clinic?: Prisma.ClinicOrderByWithRelationInput
   patient?: Prisma.PatientOrderByWithRelationInput
   vitalSigns?: Prisma.VitalSignsOrderByWithRelationInput
   medical?: Prisma.MedicalRecordsOrderByWithRelationInput
   recordedBy?: Prisma.StaffOrderByWithRelationInput
+  alerts?: Prisma.GrowthAlertOrderByRelationAggregateInput
 }
 
 export type GrowthRecordWhereUniqueInput = Prisma.AtLeast<{
@@ -533,11 +576,17 @@ export type GrowthRecordWhereUniqueInput = Prisma.AtLeast<{
   deletedAt?: Prisma.DateTimeNullableFilter<"GrowthRecord"> | Date | string | null
   measurementType?: Prisma.EnumMeasurementTypeNullableFilter<"GrowthRecord"> | $Enums.MeasurementType | null
   recordedById?: Prisma.StringNullableFilter<"GrowthRecord"> | string | null
+  plausibility?: Prisma.EnumMeasurementPlausibilityFilter<"GrowthRecord"> | $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.JsonNullableFilter<"GrowthRecord">
+  confirmedAt?: Prisma.DateTimeNullableFilter<"GrowthRecord"> | Date | string | null
+  confirmedById?: Prisma.StringNullableFilter<"GrowthRecord"> | string | null
+  referenceVersion?: Prisma.StringNullableFilter<"GrowthRecord"> | string | null
   clinic?: Prisma.XOR<Prisma.ClinicNullableScalarRelationFilter, Prisma.ClinicWhereInput> | null
   patient?: Prisma.XOR<Prisma.PatientScalarRelationFilter, Prisma.PatientWhereInput>
   vitalSigns?: Prisma.XOR<Prisma.VitalSignsNullableScalarRelationFilter, Prisma.VitalSignsWhereInput> | null
   medical?: Prisma.XOR<Prisma.MedicalRecordsNullableScalarRelationFilter, Prisma.MedicalRecordsWhereInput> | null
   recordedBy?: Prisma.XOR<Prisma.StaffNullableScalarRelationFilter, Prisma.StaffWhereInput> | null
+  alerts?: Prisma.GrowthAlertListRelationFilter
 }, "id" | "medicalId" | "vitalSignsId">
 
 export type GrowthRecordOrderByWithAggregationInput = {
@@ -570,6 +619,11 @@ export type GrowthRecordOrderByWithAggregationInput = {
   deletedAt?: Prisma.SortOrderInput | Prisma.SortOrder
   measurementType?: Prisma.SortOrderInput | Prisma.SortOrder
   recordedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  plausibility?: Prisma.SortOrder
+  plausibilityFlags?: Prisma.SortOrderInput | Prisma.SortOrder
+  confirmedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  confirmedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  referenceVersion?: Prisma.SortOrderInput | Prisma.SortOrder
   _count?: Prisma.GrowthRecordCountOrderByAggregateInput
   _avg?: Prisma.GrowthRecordAvgOrderByAggregateInput
   _max?: Prisma.GrowthRecordMaxOrderByAggregateInput
@@ -610,6 +664,11 @@ export type GrowthRecordScalarWhereWithAggregatesInput = {
   deletedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"GrowthRecord"> | Date | string | null
   measurementType?: Prisma.EnumMeasurementTypeNullableWithAggregatesFilter<"GrowthRecord"> | $Enums.MeasurementType | null
   recordedById?: Prisma.StringNullableWithAggregatesFilter<"GrowthRecord"> | string | null
+  plausibility?: Prisma.EnumMeasurementPlausibilityWithAggregatesFilter<"GrowthRecord"> | $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.JsonNullableWithAggregatesFilter<"GrowthRecord">
+  confirmedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"GrowthRecord"> | Date | string | null
+  confirmedById?: Prisma.StringNullableWithAggregatesFilter<"GrowthRecord"> | string | null
+  referenceVersion?: Prisma.StringNullableWithAggregatesFilter<"GrowthRecord"> | string | null
 }
 
 export type GrowthRecordCreateInput = {
@@ -637,11 +696,17 @@ export type GrowthRecordCreateInput = {
   classification?: string | null
   deletedAt?: Date | string | null
   measurementType?: $Enums.MeasurementType | null
+  plausibility?: $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Date | string | null
+  confirmedById?: string | null
+  referenceVersion?: string | null
   clinic?: Prisma.ClinicCreateNestedOneWithoutGrowthRecordsInput
   patient: Prisma.PatientCreateNestedOneWithoutGrowthRecordsInput
   vitalSigns?: Prisma.VitalSignsCreateNestedOneWithoutGrowthRecordsInput
   medical?: Prisma.MedicalRecordsCreateNestedOneWithoutGrowthRecordsInput
   recordedBy?: Prisma.StaffCreateNestedOneWithoutGrowthRecordsInput
+  alerts?: Prisma.GrowthAlertCreateNestedManyWithoutGrowthRecordInput
 }
 
 export type GrowthRecordUncheckedCreateInput = {
@@ -674,6 +739,12 @@ export type GrowthRecordUncheckedCreateInput = {
   deletedAt?: Date | string | null
   measurementType?: $Enums.MeasurementType | null
   recordedById?: string | null
+  plausibility?: $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Date | string | null
+  confirmedById?: string | null
+  referenceVersion?: string | null
+  alerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutGrowthRecordInput
 }
 
 export type GrowthRecordUpdateInput = {
@@ -701,11 +772,17 @@ export type GrowthRecordUpdateInput = {
   classification?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   measurementType?: Prisma.NullableEnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType | null
+  plausibility?: Prisma.EnumMeasurementPlausibilityFieldUpdateOperationsInput | $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  referenceVersion?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   clinic?: Prisma.ClinicUpdateOneWithoutGrowthRecordsNestedInput
   patient?: Prisma.PatientUpdateOneRequiredWithoutGrowthRecordsNestedInput
   vitalSigns?: Prisma.VitalSignsUpdateOneWithoutGrowthRecordsNestedInput
   medical?: Prisma.MedicalRecordsUpdateOneWithoutGrowthRecordsNestedInput
   recordedBy?: Prisma.StaffUpdateOneWithoutGrowthRecordsNestedInput
+  alerts?: Prisma.GrowthAlertUpdateManyWithoutGrowthRecordNestedInput
 }
 
 export type GrowthRecordUncheckedUpdateInput = {
@@ -738,6 +815,12 @@ export type GrowthRecordUncheckedUpdateInput = {
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   measurementType?: Prisma.NullableEnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType | null
   recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  plausibility?: Prisma.EnumMeasurementPlausibilityFieldUpdateOperationsInput | $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  referenceVersion?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  alerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutGrowthRecordNestedInput
 }
 
 export type GrowthRecordCreateManyInput = {
@@ -770,6 +853,11 @@ export type GrowthRecordCreateManyInput = {
   deletedAt?: Date | string | null
   measurementType?: $Enums.MeasurementType | null
   recordedById?: string | null
+  plausibility?: $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Date | string | null
+  confirmedById?: string | null
+  referenceVersion?: string | null
 }
 
 export type GrowthRecordUpdateManyMutationInput = {
@@ -797,6 +885,11 @@ export type GrowthRecordUpdateManyMutationInput = {
   classification?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   measurementType?: Prisma.NullableEnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType | null
+  plausibility?: Prisma.EnumMeasurementPlausibilityFieldUpdateOperationsInput | $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  referenceVersion?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
 export type GrowthRecordUncheckedUpdateManyInput = {
@@ -829,6 +922,11 @@ export type GrowthRecordUncheckedUpdateManyInput = {
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   measurementType?: Prisma.NullableEnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType | null
   recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  plausibility?: Prisma.EnumMeasurementPlausibilityFieldUpdateOperationsInput | $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  referenceVersion?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
 export type GrowthRecordListRelationFilter = {
@@ -871,6 +969,11 @@ export type GrowthRecordCountOrderByAggregateInput = {
   deletedAt?: Prisma.SortOrder
   measurementType?: Prisma.SortOrder
   recordedById?: Prisma.SortOrder
+  plausibility?: Prisma.SortOrder
+  plausibilityFlags?: Prisma.SortOrder
+  confirmedAt?: Prisma.SortOrder
+  confirmedById?: Prisma.SortOrder
+  referenceVersion?: Prisma.SortOrder
 }
 
 export type GrowthRecordAvgOrderByAggregateInput = {
@@ -919,6 +1022,10 @@ export type GrowthRecordMaxOrderByAggregateInput = {
   deletedAt?: Prisma.SortOrder
   measurementType?: Prisma.SortOrder
   recordedById?: Prisma.SortOrder
+  plausibility?: Prisma.SortOrder
+  confirmedAt?: Prisma.SortOrder
+  confirmedById?: Prisma.SortOrder
+  referenceVersion?: Prisma.SortOrder
 }
 
 export type GrowthRecordMinOrderByAggregateInput = {
@@ -951,6 +1058,10 @@ export type GrowthRecordMinOrderByAggregateInput = {
   deletedAt?: Prisma.SortOrder
   measurementType?: Prisma.SortOrder
   recordedById?: Prisma.SortOrder
+  plausibility?: Prisma.SortOrder
+  confirmedAt?: Prisma.SortOrder
+  confirmedById?: Prisma.SortOrder
+  referenceVersion?: Prisma.SortOrder
 }
 
 export type GrowthRecordSumOrderByAggregateInput = {
@@ -969,6 +1080,11 @@ export type GrowthRecordSumOrderByAggregateInput = {
   height?: Prisma.SortOrder
 }
 
+export type GrowthRecordScalarRelationFilter = {
+  is?: Prisma.GrowthRecordWhereInput
+  isNot?: Prisma.GrowthRecordWhereInput
+}
+
 export type GrowthRecordCreateNestedManyWithoutClinicInput = {
   create?: Prisma.XOR<Prisma.GrowthRecordCreateWithoutClinicInput, Prisma.GrowthRecordUncheckedCreateWithoutClinicInput> | Prisma.GrowthRecordCreateWithoutClinicInput[] | Prisma.GrowthRecordUncheckedCreateWithoutClinicInput[]
   connectOrCreate?: Prisma.GrowthRecordCreateOrConnectWithoutClinicInput | Prisma.GrowthRecordCreateOrConnectWithoutClinicInput[]
@@ -1183,6 +1299,24 @@ export type NullableEnumGrowthStatusFieldUpdateOperationsInput = {
   set?: $Enums.GrowthStatus | null
 }
 
+export type EnumMeasurementPlausibilityFieldUpdateOperationsInput = {
+  set?: $Enums.MeasurementPlausibility
+}
+
+export type GrowthRecordCreateNestedOneWithoutAlertsInput = {
+  create?: Prisma.XOR<Prisma.GrowthRecordCreateWithoutAlertsInput, Prisma.GrowthRecordUncheckedCreateWithoutAlertsInput>
+  connectOrCreate?: Prisma.GrowthRecordCreateOrConnectWithoutAlertsInput
+  connect?: Prisma.GrowthRecordWhereUniqueInput
+}
+
+export type GrowthRecordUpdateOneRequiredWithoutAlertsNestedInput = {
+  create?: Prisma.XOR<Prisma.GrowthRecordCreateWithoutAlertsInput, Prisma.GrowthRecordUncheckedCreateWithoutAlertsInput>
+  connectOrCreate?: Prisma.GrowthRecordCreateOrConnectWithoutAlertsInput
+  upsert?: Prisma.GrowthRecordUpsertWithoutAlertsInput
+  connect?: Prisma.GrowthRecordWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.GrowthRecordUpdateToOneWithWhereWithoutAlertsInput, Prisma.GrowthRecordUpdateWithoutAlertsInput>, Prisma.GrowthRecordUncheckedUpdateWithoutAlertsInput>
+}
+
 export type GrowthRecordCreateWithoutClinicInput = {
   id?: string
   gender?: $Enums.Gender | null
@@ -1208,10 +1342,16 @@ export type GrowthRecordCreateWithoutClinicInput = {
   classification?: string | null
   deletedAt?: Date | string | null
   measurementType?: $Enums.MeasurementType | null
+  plausibility?: $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Date | string | null
+  confirmedById?: string | null
+  referenceVersion?: string | null
   patient: Prisma.PatientCreateNestedOneWithoutGrowthRecordsInput
   vitalSigns?: Prisma.VitalSignsCreateNestedOneWithoutGrowthRecordsInput
   medical?: Prisma.MedicalRecordsCreateNestedOneWithoutGrowthRecordsInput
   recordedBy?: Prisma.StaffCreateNestedOneWithoutGrowthRecordsInput
+  alerts?: Prisma.GrowthAlertCreateNestedManyWithoutGrowthRecordInput
 }
 
 export type GrowthRecordUncheckedCreateWithoutClinicInput = {
@@ -1243,6 +1383,12 @@ export type GrowthRecordUncheckedCreateWithoutClinicInput = {
   deletedAt?: Date | string | null
   measurementType?: $Enums.MeasurementType | null
   recordedById?: string | null
+  plausibility?: $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Date | string | null
+  confirmedById?: string | null
+  referenceVersion?: string | null
+  alerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutGrowthRecordInput
 }
 
 export type GrowthRecordCreateOrConnectWithoutClinicInput = {
@@ -1304,6 +1450,11 @@ export type GrowthRecordScalarWhereInput = {
   deletedAt?: Prisma.DateTimeNullableFilter<"GrowthRecord"> | Date | string | null
   measurementType?: Prisma.EnumMeasurementTypeNullableFilter<"GrowthRecord"> | $Enums.MeasurementType | null
   recordedById?: Prisma.StringNullableFilter<"GrowthRecord"> | string | null
+  plausibility?: Prisma.EnumMeasurementPlausibilityFilter<"GrowthRecord"> | $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.JsonNullableFilter<"GrowthRecord">
+  confirmedAt?: Prisma.DateTimeNullableFilter<"GrowthRecord"> | Date | string | null
+  confirmedById?: Prisma.StringNullableFilter<"GrowthRecord"> | string | null
+  referenceVersion?: Prisma.StringNullableFilter<"GrowthRecord"> | string | null
 }
 
 export type GrowthRecordCreateWithoutRecordedByInput = {
@@ -1331,10 +1482,16 @@ export type GrowthRecordCreateWithoutRecordedByInput = {
   classification?: string | null
   deletedAt?: Date | string | null
   measurementType?: $Enums.MeasurementType | null
+  plausibility?: $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Date | string | null
+  confirmedById?: string | null
+  referenceVersion?: string | null
   clinic?: Prisma.ClinicCreateNestedOneWithoutGrowthRecordsInput
   patient: Prisma.PatientCreateNestedOneWithoutGrowthRecordsInput
   vitalSigns?: Prisma.VitalSignsCreateNestedOneWithoutGrowthRecordsInput
   medical?: Prisma.MedicalRecordsCreateNestedOneWithoutGrowthRecordsInput
+  alerts?: Prisma.GrowthAlertCreateNestedManyWithoutGrowthRecordInput
 }
 
 export type GrowthRecordUncheckedCreateWithoutRecordedByInput = {
@@ -1366,6 +1523,12 @@ export type GrowthRecordUncheckedCreateWithoutRecordedByInput = {
   classification?: string | null
   deletedAt?: Date | string | null
   measurementType?: $Enums.MeasurementType | null
+  plausibility?: $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Date | string | null
+  confirmedById?: string | null
+  referenceVersion?: string | null
+  alerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutGrowthRecordInput
 }
 
 export type GrowthRecordCreateOrConnectWithoutRecordedByInput = {
@@ -1419,10 +1582,16 @@ export type GrowthRecordCreateWithoutPatientInput = {
   classification?: string | null
   deletedAt?: Date | string | null
   measurementType?: $Enums.MeasurementType | null
+  plausibility?: $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Date | string | null
+  confirmedById?: string | null
+  referenceVersion?: string | null
   clinic?: Prisma.ClinicCreateNestedOneWithoutGrowthRecordsInput
   vitalSigns?: Prisma.VitalSignsCreateNestedOneWithoutGrowthRecordsInput
   medical?: Prisma.MedicalRecordsCreateNestedOneWithoutGrowthRecordsInput
   recordedBy?: Prisma.StaffCreateNestedOneWithoutGrowthRecordsInput
+  alerts?: Prisma.GrowthAlertCreateNestedManyWithoutGrowthRecordInput
 }
 
 export type GrowthRecordUncheckedCreateWithoutPatientInput = {
@@ -1454,6 +1623,12 @@ export type GrowthRecordUncheckedCreateWithoutPatientInput = {
   deletedAt?: Date | string | null
   measurementType?: $Enums.MeasurementType | null
   recordedById?: string | null
+  plausibility?: $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Date | string | null
+  confirmedById?: string | null
+  referenceVersion?: string | null
+  alerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutGrowthRecordInput
 }
 
 export type GrowthRecordCreateOrConnectWithoutPatientInput = {
@@ -1507,10 +1682,16 @@ export type GrowthRecordCreateWithoutMedicalInput = {
   classification?: string | null
   deletedAt?: Date | string | null
   measurementType?: $Enums.MeasurementType | null
+  plausibility?: $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Date | string | null
+  confirmedById?: string | null
+  referenceVersion?: string | null
   clinic?: Prisma.ClinicCreateNestedOneWithoutGrowthRecordsInput
   patient: Prisma.PatientCreateNestedOneWithoutGrowthRecordsInput
   vitalSigns?: Prisma.VitalSignsCreateNestedOneWithoutGrowthRecordsInput
   recordedBy?: Prisma.StaffCreateNestedOneWithoutGrowthRecordsInput
+  alerts?: Prisma.GrowthAlertCreateNestedManyWithoutGrowthRecordInput
 }
 
 export type GrowthRecordUncheckedCreateWithoutMedicalInput = {
@@ -1542,6 +1723,12 @@ export type GrowthRecordUncheckedCreateWithoutMedicalInput = {
   deletedAt?: Date | string | null
   measurementType?: $Enums.MeasurementType | null
   recordedById?: string | null
+  plausibility?: $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Date | string | null
+  confirmedById?: string | null
+  referenceVersion?: string | null
+  alerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutGrowthRecordInput
 }
 
 export type GrowthRecordCreateOrConnectWithoutMedicalInput = {
@@ -1595,10 +1782,16 @@ export type GrowthRecordCreateWithoutVitalSignsInput = {
   classification?: string | null
   deletedAt?: Date | string | null
   measurementType?: $Enums.MeasurementType | null
+  plausibility?: $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Date | string | null
+  confirmedById?: string | null
+  referenceVersion?: string | null
   clinic?: Prisma.ClinicCreateNestedOneWithoutGrowthRecordsInput
   patient: Prisma.PatientCreateNestedOneWithoutGrowthRecordsInput
   medical?: Prisma.MedicalRecordsCreateNestedOneWithoutGrowthRecordsInput
   recordedBy?: Prisma.StaffCreateNestedOneWithoutGrowthRecordsInput
+  alerts?: Prisma.GrowthAlertCreateNestedManyWithoutGrowthRecordInput
 }
 
 export type GrowthRecordUncheckedCreateWithoutVitalSignsInput = {
@@ -1630,6 +1823,12 @@ export type GrowthRecordUncheckedCreateWithoutVitalSignsInput = {
   deletedAt?: Date | string | null
   measurementType?: $Enums.MeasurementType | null
   recordedById?: string | null
+  plausibility?: $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Date | string | null
+  confirmedById?: string | null
+  referenceVersion?: string | null
+  alerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutGrowthRecordInput
 }
 
 export type GrowthRecordCreateOrConnectWithoutVitalSignsInput = {
@@ -1658,6 +1857,170 @@ export type GrowthRecordUpdateManyWithWhereWithoutVitalSignsInput = {
   data: Prisma.XOR<Prisma.GrowthRecordUpdateManyMutationInput, Prisma.GrowthRecordUncheckedUpdateManyWithoutVitalSignsInput>
 }
 
+export type GrowthRecordCreateWithoutAlertsInput = {
+  id?: string
+  gender?: $Enums.Gender | null
+  ageDays?: number | null
+  ageMonths?: number | null
+  ageYears?: number | null
+  percentile?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  zScore?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  headCircumference?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  bmi?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  weightForAgeZ?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  heightForAgeZ?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  bmiForAgeZ?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  hcForAgeZ?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  weight?: number | null
+  height?: number | null
+  notes?: string | null
+  growthStatus?: $Enums.GrowthStatus | null
+  date: Date | string
+  recordedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  classification?: string | null
+  deletedAt?: Date | string | null
+  measurementType?: $Enums.MeasurementType | null
+  plausibility?: $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Date | string | null
+  confirmedById?: string | null
+  referenceVersion?: string | null
+  clinic?: Prisma.ClinicCreateNestedOneWithoutGrowthRecordsInput
+  patient: Prisma.PatientCreateNestedOneWithoutGrowthRecordsInput
+  vitalSigns?: Prisma.VitalSignsCreateNestedOneWithoutGrowthRecordsInput
+  medical?: Prisma.MedicalRecordsCreateNestedOneWithoutGrowthRecordsInput
+  recordedBy?: Prisma.StaffCreateNestedOneWithoutGrowthRecordsInput
+}
+
+export type GrowthRecordUncheckedCreateWithoutAlertsInput = {
+  id?: string
+  patientId: string
+  clinicId?: string | null
+  gender?: $Enums.Gender | null
+  medicalId?: string | null
+  vitalSignsId?: string | null
+  ageDays?: number | null
+  ageMonths?: number | null
+  ageYears?: number | null
+  percentile?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  zScore?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  headCircumference?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  bmi?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  weightForAgeZ?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  heightForAgeZ?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  bmiForAgeZ?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  hcForAgeZ?: runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  weight?: number | null
+  height?: number | null
+  notes?: string | null
+  growthStatus?: $Enums.GrowthStatus | null
+  date: Date | string
+  recordedAt?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  classification?: string | null
+  deletedAt?: Date | string | null
+  measurementType?: $Enums.MeasurementType | null
+  recordedById?: string | null
+  plausibility?: $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Date | string | null
+  confirmedById?: string | null
+  referenceVersion?: string | null
+}
+
+export type GrowthRecordCreateOrConnectWithoutAlertsInput = {
+  where: Prisma.GrowthRecordWhereUniqueInput
+  create: Prisma.XOR<Prisma.GrowthRecordCreateWithoutAlertsInput, Prisma.GrowthRecordUncheckedCreateWithoutAlertsInput>
+}
+
+export type GrowthRecordUpsertWithoutAlertsInput = {
+  update: Prisma.XOR<Prisma.GrowthRecordUpdateWithoutAlertsInput, Prisma.GrowthRecordUncheckedUpdateWithoutAlertsInput>
+  create: Prisma.XOR<Prisma.GrowthRecordCreateWithoutAlertsInput, Prisma.GrowthRecordUncheckedCreateWithoutAlertsInput>
+  where?: Prisma.GrowthRecordWhereInput
+}
+
+export type GrowthRecordUpdateToOneWithWhereWithoutAlertsInput = {
+  where?: Prisma.GrowthRecordWhereInput
+  data: Prisma.XOR<Prisma.GrowthRecordUpdateWithoutAlertsInput, Prisma.GrowthRecordUncheckedUpdateWithoutAlertsInput>
+}
+
+export type GrowthRecordUpdateWithoutAlertsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  gender?: Prisma.NullableEnumGenderFieldUpdateOperationsInput | $Enums.Gender | null
+  ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  ageYears?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  percentile?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  zScore?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  headCircumference?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  bmi?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  weightForAgeZ?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  heightForAgeZ?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  bmiForAgeZ?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  hcForAgeZ?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  weight?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  growthStatus?: Prisma.NullableEnumGrowthStatusFieldUpdateOperationsInput | $Enums.GrowthStatus | null
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  recordedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  classification?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  measurementType?: Prisma.NullableEnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType | null
+  plausibility?: Prisma.EnumMeasurementPlausibilityFieldUpdateOperationsInput | $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  referenceVersion?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  clinic?: Prisma.ClinicUpdateOneWithoutGrowthRecordsNestedInput
+  patient?: Prisma.PatientUpdateOneRequiredWithoutGrowthRecordsNestedInput
+  vitalSigns?: Prisma.VitalSignsUpdateOneWithoutGrowthRecordsNestedInput
+  medical?: Prisma.MedicalRecordsUpdateOneWithoutGrowthRecordsNestedInput
+  recordedBy?: Prisma.StaffUpdateOneWithoutGrowthRecordsNestedInput
+}
+
+export type GrowthRecordUncheckedUpdateWithoutAlertsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  gender?: Prisma.NullableEnumGenderFieldUpdateOperationsInput | $Enums.Gender | null
+  medicalId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  vitalSignsId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  ageYears?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  percentile?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  zScore?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  headCircumference?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  bmi?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  weightForAgeZ?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  heightForAgeZ?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  bmiForAgeZ?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  hcForAgeZ?: Prisma.NullableDecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string | null
+  weight?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  height?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  growthStatus?: Prisma.NullableEnumGrowthStatusFieldUpdateOperationsInput | $Enums.GrowthStatus | null
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  recordedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  classification?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  measurementType?: Prisma.NullableEnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType | null
+  recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  plausibility?: Prisma.EnumMeasurementPlausibilityFieldUpdateOperationsInput | $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  referenceVersion?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
 export type GrowthRecordCreateManyClinicInput = {
   id?: string
   patientId: string
@@ -1687,6 +2050,11 @@ export type GrowthRecordCreateManyClinicInput = {
   deletedAt?: Date | string | null
   measurementType?: $Enums.MeasurementType | null
   recordedById?: string | null
+  plausibility?: $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Date | string | null
+  confirmedById?: string | null
+  referenceVersion?: string | null
 }
 
 export type GrowthRecordUpdateWithoutClinicInput = {
@@ -1714,10 +2082,16 @@ export type GrowthRecordUpdateWithoutClinicInput = {
   classification?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   measurementType?: Prisma.NullableEnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType | null
+  plausibility?: Prisma.EnumMeasurementPlausibilityFieldUpdateOperationsInput | $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  referenceVersion?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   patient?: Prisma.PatientUpdateOneRequiredWithoutGrowthRecordsNestedInput
   vitalSigns?: Prisma.VitalSignsUpdateOneWithoutGrowthRecordsNestedInput
   medical?: Prisma.MedicalRecordsUpdateOneWithoutGrowthRecordsNestedInput
   recordedBy?: Prisma.StaffUpdateOneWithoutGrowthRecordsNestedInput
+  alerts?: Prisma.GrowthAlertUpdateManyWithoutGrowthRecordNestedInput
 }
 
 export type GrowthRecordUncheckedUpdateWithoutClinicInput = {
@@ -1749,6 +2123,12 @@ export type GrowthRecordUncheckedUpdateWithoutClinicInput = {
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   measurementType?: Prisma.NullableEnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType | null
   recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  plausibility?: Prisma.EnumMeasurementPlausibilityFieldUpdateOperationsInput | $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  referenceVersion?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  alerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutGrowthRecordNestedInput
 }
 
 export type GrowthRecordUncheckedUpdateManyWithoutClinicInput = {
@@ -1780,6 +2160,11 @@ export type GrowthRecordUncheckedUpdateManyWithoutClinicInput = {
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   measurementType?: Prisma.NullableEnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType | null
   recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  plausibility?: Prisma.EnumMeasurementPlausibilityFieldUpdateOperationsInput | $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  referenceVersion?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
 export type GrowthRecordCreateManyRecordedByInput = {
@@ -1811,6 +2196,11 @@ export type GrowthRecordCreateManyRecordedByInput = {
   classification?: string | null
   deletedAt?: Date | string | null
   measurementType?: $Enums.MeasurementType | null
+  plausibility?: $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Date | string | null
+  confirmedById?: string | null
+  referenceVersion?: string | null
 }
 
 export type GrowthRecordUpdateWithoutRecordedByInput = {
@@ -1838,10 +2228,16 @@ export type GrowthRecordUpdateWithoutRecordedByInput = {
   classification?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   measurementType?: Prisma.NullableEnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType | null
+  plausibility?: Prisma.EnumMeasurementPlausibilityFieldUpdateOperationsInput | $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  referenceVersion?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   clinic?: Prisma.ClinicUpdateOneWithoutGrowthRecordsNestedInput
   patient?: Prisma.PatientUpdateOneRequiredWithoutGrowthRecordsNestedInput
   vitalSigns?: Prisma.VitalSignsUpdateOneWithoutGrowthRecordsNestedInput
   medical?: Prisma.MedicalRecordsUpdateOneWithoutGrowthRecordsNestedInput
+  alerts?: Prisma.GrowthAlertUpdateManyWithoutGrowthRecordNestedInput
 }
 
 export type GrowthRecordUncheckedUpdateWithoutRecordedByInput = {
@@ -1873,6 +2269,12 @@ export type GrowthRecordUncheckedUpdateWithoutRecordedByInput = {
   classification?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   measurementType?: Prisma.NullableEnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType | null
+  plausibility?: Prisma.EnumMeasurementPlausibilityFieldUpdateOperationsInput | $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  referenceVersion?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  alerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutGrowthRecordNestedInput
 }
 
 export type GrowthRecordUncheckedUpdateManyWithoutRecordedByInput = {
@@ -1904,6 +2306,11 @@ export type GrowthRecordUncheckedUpdateManyWithoutRecordedByInput = {
   classification?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   measurementType?: Prisma.NullableEnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType | null
+  plausibility?: Prisma.EnumMeasurementPlausibilityFieldUpdateOperationsInput | $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  referenceVersion?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
 export type GrowthRecordCreateManyPatientInput = {
@@ -1935,6 +2342,11 @@ export type GrowthRecordCreateManyPatientInput = {
   deletedAt?: Date | string | null
   measurementType?: $Enums.MeasurementType | null
   recordedById?: string | null
+  plausibility?: $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Date | string | null
+  confirmedById?: string | null
+  referenceVersion?: string | null
 }
 
 export type GrowthRecordUpdateWithoutPatientInput = {
@@ -1962,10 +2374,16 @@ export type GrowthRecordUpdateWithoutPatientInput = {
   classification?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   measurementType?: Prisma.NullableEnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType | null
+  plausibility?: Prisma.EnumMeasurementPlausibilityFieldUpdateOperationsInput | $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  referenceVersion?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   clinic?: Prisma.ClinicUpdateOneWithoutGrowthRecordsNestedInput
   vitalSigns?: Prisma.VitalSignsUpdateOneWithoutGrowthRecordsNestedInput
   medical?: Prisma.MedicalRecordsUpdateOneWithoutGrowthRecordsNestedInput
   recordedBy?: Prisma.StaffUpdateOneWithoutGrowthRecordsNestedInput
+  alerts?: Prisma.GrowthAlertUpdateManyWithoutGrowthRecordNestedInput
 }
 
 export type GrowthRecordUncheckedUpdateWithoutPatientInput = {
@@ -1997,6 +2415,12 @@ export type GrowthRecordUncheckedUpdateWithoutPatientInput = {
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   measurementType?: Prisma.NullableEnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType | null
   recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  plausibility?: Prisma.EnumMeasurementPlausibilityFieldUpdateOperationsInput | $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  referenceVersion?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  alerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutGrowthRecordNestedInput
 }
 
 export type GrowthRecordUncheckedUpdateManyWithoutPatientInput = {
@@ -2028,6 +2452,11 @@ export type GrowthRecordUncheckedUpdateManyWithoutPatientInput = {
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   measurementType?: Prisma.NullableEnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType | null
   recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  plausibility?: Prisma.EnumMeasurementPlausibilityFieldUpdateOperationsInput | $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  referenceVersion?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
 export type GrowthRecordCreateManyMedicalInput = {
@@ -2059,6 +2488,11 @@ export type GrowthRecordCreateManyMedicalInput = {
   deletedAt?: Date | string | null
   measurementType?: $Enums.MeasurementType | null
   recordedById?: string | null
+  plausibility?: $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Date | string | null
+  confirmedById?: string | null
+  referenceVersion?: string | null
 }
 
 export type GrowthRecordUpdateWithoutMedicalInput = {
@@ -2086,10 +2520,16 @@ export type GrowthRecordUpdateWithoutMedicalInput = {
   classification?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   measurementType?: Prisma.NullableEnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType | null
+  plausibility?: Prisma.EnumMeasurementPlausibilityFieldUpdateOperationsInput | $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  referenceVersion?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   clinic?: Prisma.ClinicUpdateOneWithoutGrowthRecordsNestedInput
   patient?: Prisma.PatientUpdateOneRequiredWithoutGrowthRecordsNestedInput
   vitalSigns?: Prisma.VitalSignsUpdateOneWithoutGrowthRecordsNestedInput
   recordedBy?: Prisma.StaffUpdateOneWithoutGrowthRecordsNestedInput
+  alerts?: Prisma.GrowthAlertUpdateManyWithoutGrowthRecordNestedInput
 }
 
 export type GrowthRecordUncheckedUpdateWithoutMedicalInput = {
@@ -2121,6 +2561,12 @@ export type GrowthRecordUncheckedUpdateWithoutMedicalInput = {
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   measurementType?: Prisma.NullableEnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType | null
   recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  plausibility?: Prisma.EnumMeasurementPlausibilityFieldUpdateOperationsInput | $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  referenceVersion?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  alerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutGrowthRecordNestedInput
 }
 
 export type GrowthRecordUncheckedUpdateManyWithoutMedicalInput = {
@@ -2152,6 +2598,11 @@ export type GrowthRecordUncheckedUpdateManyWithoutMedicalInput = {
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   measurementType?: Prisma.NullableEnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType | null
   recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  plausibility?: Prisma.EnumMeasurementPlausibilityFieldUpdateOperationsInput | $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  referenceVersion?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
 
 export type GrowthRecordCreateManyVitalSignsInput = {
@@ -2183,6 +2634,11 @@ export type GrowthRecordCreateManyVitalSignsInput = {
   deletedAt?: Date | string | null
   measurementType?: $Enums.MeasurementType | null
   recordedById?: string | null
+  plausibility?: $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Date | string | null
+  confirmedById?: string | null
+  referenceVersion?: string | null
 }
 
 export type GrowthRecordUpdateWithoutVitalSignsInput = {
@@ -2210,10 +2666,16 @@ export type GrowthRecordUpdateWithoutVitalSignsInput = {
   classification?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   measurementType?: Prisma.NullableEnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType | null
+  plausibility?: Prisma.EnumMeasurementPlausibilityFieldUpdateOperationsInput | $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  referenceVersion?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   clinic?: Prisma.ClinicUpdateOneWithoutGrowthRecordsNestedInput
   patient?: Prisma.PatientUpdateOneRequiredWithoutGrowthRecordsNestedInput
   medical?: Prisma.MedicalRecordsUpdateOneWithoutGrowthRecordsNestedInput
   recordedBy?: Prisma.StaffUpdateOneWithoutGrowthRecordsNestedInput
+  alerts?: Prisma.GrowthAlertUpdateManyWithoutGrowthRecordNestedInput
 }
 
 export type GrowthRecordUncheckedUpdateWithoutVitalSignsInput = {
@@ -2245,6 +2707,12 @@ export type GrowthRecordUncheckedUpdateWithoutVitalSignsInput = {
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   measurementType?: Prisma.NullableEnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType | null
   recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  plausibility?: Prisma.EnumMeasurementPlausibilityFieldUpdateOperationsInput | $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  referenceVersion?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  alerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutGrowthRecordNestedInput
 }
 
 export type GrowthRecordUncheckedUpdateManyWithoutVitalSignsInput = {
@@ -2276,8 +2744,42 @@ export type GrowthRecordUncheckedUpdateManyWithoutVitalSignsInput = {
   deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   measurementType?: Prisma.NullableEnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType | null
   recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  plausibility?: Prisma.EnumMeasurementPlausibilityFieldUpdateOperationsInput | $Enums.MeasurementPlausibility
+  plausibilityFlags?: Prisma.NullableJsonNullValueInput | runtime.InputJsonValue
+  confirmedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  confirmedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  referenceVersion?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+}
+
+
+/**
+ * Count Type GrowthRecordCountOutputType
+ */
+
+export type GrowthRecordCountOutputType = {
+  alerts: number
+}
+
+export type GrowthRecordCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  alerts?: boolean | GrowthRecordCountOutputTypeCountAlertsArgs
+}
+
+/**
+ * GrowthRecordCountOutputType without action
+ */
+export type GrowthRecordCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthRecordCountOutputType
+   */
+  select?: Prisma.GrowthRecordCountOutputTypeSelect<ExtArgs> | null
 }
 
+/**
+ * GrowthRecordCountOutputType without action
+ */
+export type GrowthRecordCountOutputTypeCountAlertsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.GrowthAlertWhereInput
+}
 
 
 export type GrowthRecordSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -2310,11 +2812,18 @@ export type GrowthRecordSelect<ExtArgs extends runtime.Types.Extensions.Internal
   deletedAt?: boolean
   measurementType?: boolean
   recordedById?: boolean
+  plausibility?: boolean
+  plausibilityFlags?: boolean
+  confirmedAt?: boolean
+  confirmedById?: boolean
+  referenceVersion?: boolean
   clinic?: boolean | Prisma.GrowthRecord$clinicArgs<ExtArgs>
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
   vitalSigns?: boolean | Prisma.GrowthRecord$vitalSignsArgs<ExtArgs>
   medical?: boolean | Prisma.GrowthRecord$medicalArgs<ExtArgs>
   recordedBy?: boolean | Prisma.GrowthRecord$recordedByArgs<ExtArgs>
+  alerts?: boolean | Prisma.GrowthRecord$alertsArgs<ExtArgs>
+  _count?: boolean | Prisma.GrowthRecordCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["growthRecord"]>
 
 export type GrowthRecordSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -2347,6 +2856,11 @@ export type GrowthRecordSelectCreateManyAndReturn<ExtArgs extends runtime.Types.
   deletedAt?: boolean
   measurementType?: boolean
   recordedById?: boolean
+  plausibility?: boolean
+  plausibilityFlags?: boolean
+  confirmedAt?: boolean
+  confirmedById?: boolean
+  referenceVersion?: boolean
   clinic?: boolean | Prisma.GrowthRecord$clinicArgs<ExtArgs>
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
   vitalSigns?: boolean | Prisma.GrowthRecord$vitalSignsArgs<ExtArgs>
@@ -2384,6 +2898,11 @@ export type GrowthRecordSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.
   deletedAt?: boolean
   measurementType?: boolean
   recordedById?: boolean
+  plausibility?: boolean
+  plausibilityFlags?: boolean
+  confirmedAt?: boolean
+  confirmedById?: boolean
+  referenceVersion?: boolean
   clinic?: boolean | Prisma.GrowthRecord$clinicArgs<ExtArgs>
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
   vitalSigns?: boolean | Prisma.GrowthRecord$vitalSignsArgs<ExtArgs>
@@ -2421,15 +2940,22 @@ export type GrowthRecordSelectScalar = {
   deletedAt?: boolean
   measurementType?: boolean
   recordedById?: boolean
+  plausibility?: boolean
+  plausibilityFlags?: boolean
+  confirmedAt?: boolean
+  confirmedById?: boolean
+  referenceVersion?: boolean
 }
 
-export type GrowthRecordOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "patientId" | "clinicId" | "gender" | "medicalId" | "vitalSignsId" | "ageDays" | "ageMonths" | "ageYears" | "percentile" | "zScore" | "headCircumference" | "bmi" | "weightForAgeZ" | "heightForAgeZ" | "bmiForAgeZ" | "hcForAgeZ" | "weight" | "height" | "notes" | "growthStatus" | "date" | "recordedAt" | "createdAt" | "updatedAt" | "classification" | "deletedAt" | "measurementType" | "recordedById", ExtArgs["result"]["growthRecord"]>
+export type GrowthRecordOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "patientId" | "clinicId" | "gender" | "medicalId" | "vitalSignsId" | "ageDays" | "ageMonths" | "ageYears" | "percentile" | "zScore" | "headCircumference" | "bmi" | "weightForAgeZ" | "heightForAgeZ" | "bmiForAgeZ" | "hcForAgeZ" | "weight" | "height" | "notes" | "growthStatus" | "date" | "recordedAt" | "createdAt" | "updatedAt" | "classification" | "deletedAt" | "measurementType" | "recordedById" | "plausibility" | "plausibilityFlags" | "confirmedAt" | "confirmedById" | "referenceVersion", ExtArgs["result"]["growthRecord"]>
 export type GrowthRecordInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   clinic?: boolean | Prisma.GrowthRecord$clinicArgs<ExtArgs>
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
   vitalSigns?: boolean | Prisma.GrowthRecord$vitalSignsArgs<ExtArgs>
   medical?: boolean | Prisma.GrowthRecord$medicalArgs<ExtArgs>
   recordedBy?: boolean | Prisma.GrowthRecord$recordedByArgs<ExtArgs>
+  alerts?: boolean | Prisma.GrowthRecord$alertsArgs<ExtArgs>
+  _count?: boolean | Prisma.GrowthRecordCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type GrowthRecordIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   clinic?: boolean | Prisma.GrowthRecord$clinicArgs<ExtArgs>
@@ -2454,6 +2980,7 @@ export type $GrowthRecordPayload<ExtArgs extends runtime.Types.Extensions.Intern
     vitalSigns: Prisma.$VitalSignsPayload<ExtArgs> | null
     medical: Prisma.$MedicalRecordsPayload<ExtArgs> | null
     recordedBy: Prisma.$StaffPayload<ExtArgs> | null
+    alerts: Prisma.$GrowthAlertPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -2485,6 +3012,11 @@ export type $GrowthRecordPayload<ExtArgs extends runtime.Types.Extensions.Intern
     deletedAt: Date | null
     measurementType: $Enums.MeasurementType | null
     recordedById: string | null
+    plausibility: $Enums.MeasurementPlausibility
+    plausibilityFlags: runtime.JsonValue | null
+    confirmedAt: Date | null
+    confirmedById: string | null
+    referenceVersion: string | null
   }, ExtArgs["result"]["growthRecord"]>
   composites: {}
 }
@@ -2884,6 +3416,7 @@ export interface Prisma__GrowthRecordClient<T, Null = never, ExtArgs extends run
   vitalSigns<T extends Prisma.GrowthRecord$vitalSignsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.GrowthRecord$vitalSignsArgs<ExtArgs>>): Prisma.Prisma__VitalSignsClient<runtime.Types.Result.GetResult<Prisma.$VitalSignsPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   medical<T extends Prisma.GrowthRecord$medicalArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.GrowthRecord$medicalArgs<ExtArgs>>): Prisma.Prisma__MedicalRecordsClient<runtime.Types.Result.GetResult<Prisma.$MedicalRecordsPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   recordedBy<T extends Prisma.GrowthRecord$recordedByArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.GrowthRecord$recordedByArgs<ExtArgs>>): Prisma.Prisma__StaffClient<runtime.Types.Result.GetResult<Prisma.$StaffPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  alerts<T extends Prisma.GrowthRecord$alertsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.GrowthRecord$alertsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$GrowthAlertPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -2942,6 +3475,11 @@ export interface GrowthRecordFieldRefs {
   readonly deletedAt: Prisma.FieldRef<"GrowthRecord", 'DateTime'>
   readonly measurementType: Prisma.FieldRef<"GrowthRecord", 'MeasurementType'>
   readonly recordedById: Prisma.FieldRef<"GrowthRecord", 'String'>
+  readonly plausibility: Prisma.FieldRef<"GrowthRecord", 'MeasurementPlausibility'>
+  readonly plausibilityFlags: Prisma.FieldRef<"GrowthRecord", 'Json'>
+  readonly confirmedAt: Prisma.FieldRef<"GrowthRecord", 'DateTime'>
+  readonly confirmedById: Prisma.FieldRef<"GrowthRecord", 'String'>
+  readonly referenceVersion: Prisma.FieldRef<"GrowthRecord", 'String'>
 }
     
 
@@ -3422,6 +3960,30 @@ export type GrowthRecord$recordedByArgs<ExtArgs extends runtime.Types.Extensions
   where?: Prisma.StaffWhereInput
 }
 
+/**
+ * GrowthRecord.alerts
+ */
+export type GrowthRecord$alertsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthAlert
+   */
+  select?: Prisma.GrowthAlertSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GrowthAlert
+   */
+  omit?: Prisma.GrowthAlertOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GrowthAlertInclude<ExtArgs> | null
+  where?: Prisma.GrowthAlertWhereInput
+  orderBy?: Prisma.GrowthAlertOrderByWithRelationInput | Prisma.GrowthAlertOrderByWithRelationInput[]
+  cursor?: Prisma.GrowthAlertWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.GrowthAlertScalarFieldEnum | Prisma.GrowthAlertScalarFieldEnum[]
+}
+
 /**
  * GrowthRecord without action
  */
@@ -0,0 +1,1421 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `GrowthVelocityStandard` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model GrowthVelocityStandard
+ * 
+ */
+export type GrowthVelocityStandardModel = runtime.Types.Result.DefaultSelection<Prisma.$GrowthVelocityStandardPayload>
+
+export type AggregateGrowthVelocityStandard = {
+  _count: GrowthVelocityStandardCountAggregateOutputType | null
+  _avg: GrowthVelocityStandardAvgAggregateOutputType | null
+  _sum: GrowthVelocityStandardSumAggregateOutputType | null
+  _min: GrowthVelocityStandardMinAggregateOutputType | null
+  _max: GrowthVelocityStandardMaxAggregateOutputType | null
+}
+
+export type GrowthVelocityStandardAvgAggregateOutputType = {
+  intervalMonths: number | null
+  startMonth: number | null
+  endMonth: number | null
+  delta: number | null
+  lValue: number | null
+  mValue: number | null
+  sValue: number | null
+}
+
+export type GrowthVelocityStandardSumAggregateOutputType = {
+  intervalMonths: number | null
+  startMonth: number | null
+  endMonth: number | null
+  delta: number | null
+  lValue: number | null
+  mValue: number | null
+  sValue: number | null
+}
+
+export type GrowthVelocityStandardMinAggregateOutputType = {
+  id: string | null
+  gender: $Enums.Gender | null
+  measurementType: $Enums.MeasurementType | null
+  intervalMonths: number | null
+  startMonth: number | null
+  endMonth: number | null
+  delta: number | null
+  lValue: number | null
+  mValue: number | null
+  sValue: number | null
+  createdAt: Date | null
+}
+
+export type GrowthVelocityStandardMaxAggregateOutputType = {
+  id: string | null
+  gender: $Enums.Gender | null
+  measurementType: $Enums.MeasurementType | null
+  intervalMonths: number | null
+  startMonth: number | null
+  endMonth: number | null
+  delta: number | null
+  lValue: number | null
+  mValue: number | null
+  sValue: number | null
+  createdAt: Date | null
+}
+
+export type GrowthVelocityStandardCountAggregateOutputType = {
+  id: number
+  gender: number
+  measurementType: number
+  intervalMonths: number
+  startMonth: number
+  endMonth: number
+  delta: number
+  lValue: number
+  mValue: number
+  sValue: number
+  createdAt: number
+  _all: number
+}
+
+
+export type GrowthVelocityStandardAvgAggregateInputType = {
+  intervalMonths?: true
+  startMonth?: true
+  endMonth?: true
+  delta?: true
+  lValue?: true
+  mValue?: true
+  sValue?: true
+}
+
+export type GrowthVelocityStandardSumAggregateInputType = {
+  intervalMonths?: true
+  startMonth?: true
+  endMonth?: true
+  delta?: true
+  lValue?: true
+  mValue?: true
+  sValue?: true
+}
+
+export type GrowthVelocityStandardMinAggregateInputType = {
+  id?: true
+  gender?: true
+  measurementType?: true
+  intervalMonths?: true
+  startMonth?: true
+  endMonth?: true
+  delta?: true
+  lValue?: true
+  mValue?: true
+  sValue?: true
+  createdAt?: true
+}
+
+export type GrowthVelocityStandardMaxAggregateInputType = {
+  id?: true
+  gender?: true
+  measurementType?: true
+  intervalMonths?: true
+  startMonth?: true
+  endMonth?: true
+  delta?: true
+  lValue?: true
+  mValue?: true
+  sValue?: true
+  createdAt?: true
+}
+
+export type GrowthVelocityStandardCountAggregateInputType = {
+  id?: true
+  gender?: true
+  measurementType?: true
+  intervalMonths?: true
+  startMonth?: true
+  endMonth?: true
+  delta?: true
+  lValue?: true
+  mValue?: true
+  sValue?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type GrowthVelocityStandardAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which GrowthVelocityStandard to aggregate.
+   */
+  where?: Prisma.GrowthVelocityStandardWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of GrowthVelocityStandards to fetch.
+   */
+  orderBy?: Prisma.GrowthVelocityStandardOrderByWithRelationInput | Prisma.GrowthVelocityStandardOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.GrowthVelocityStandardWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` GrowthVelocityStandards from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` GrowthVelocityStandards.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned GrowthVelocityStandards
+  **/
+  _count?: true | GrowthVelocityStandardCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: GrowthVelocityStandardAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: GrowthVelocityStandardSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: GrowthVelocityStandardMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: GrowthVelocityStandardMaxAggregateInputType
+}
+
+export type GetGrowthVelocityStandardAggregateType<T extends GrowthVelocityStandardAggregateArgs> = {
+      [P in keyof T & keyof AggregateGrowthVelocityStandard]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateGrowthVelocityStandard[P]>
+    : Prisma.GetScalarType<T[P], AggregateGrowthVelocityStandard[P]>
+}
+
+
+
+
+export type GrowthVelocityStandardGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.GrowthVelocityStandardWhereInput
+  orderBy?: Prisma.GrowthVelocityStandardOrderByWithAggregationInput | Prisma.GrowthVelocityStandardOrderByWithAggregationInput[]
+  by: Prisma.GrowthVelocityStandardScalarFieldEnum[] | Prisma.GrowthVelocityStandardScalarFieldEnum
+  having?: Prisma.GrowthVelocityStandardScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: GrowthVelocityStandardCountAggregateInputType | true
+  _avg?: GrowthVelocityStandardAvgAggregateInputType
+  _sum?: GrowthVelocityStandardSumAggregateInputType
+  _min?: GrowthVelocityStandardMinAggregateInputType
+  _max?: GrowthVelocityStandardMaxAggregateInputType
+}
+
+export type GrowthVelocityStandardGroupByOutputType = {
+  id: string
+  gender: $Enums.Gender
+  measurementType: $Enums.MeasurementType
+  intervalMonths: number
+  startMonth: number
+  endMonth: number
+  delta: number
+  lValue: number
+  mValue: number
+  sValue: number
+  createdAt: Date
+  _count: GrowthVelocityStandardCountAggregateOutputType | null
+  _avg: GrowthVelocityStandardAvgAggregateOutputType | null
+  _sum: GrowthVelocityStandardSumAggregateOutputType | null
+  _min: GrowthVelocityStandardMinAggregateOutputType | null
+  _max: GrowthVelocityStandardMaxAggregateOutputType | null
+}
+
+type GetGrowthVelocityStandardGroupByPayload<T extends GrowthVelocityStandardGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<GrowthVelocityStandardGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof GrowthVelocityStandardGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], GrowthVelocityStandardGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], GrowthVelocityStandardGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type GrowthVelocityStandardWhereInput = {
+  AND?: Prisma.GrowthVelocityStandardWhereInput | Prisma.GrowthVelocityStandardWhereInput[]
+  OR?: Prisma.GrowthVelocityStandardWhereInput[]
+  NOT?: Prisma.GrowthVelocityStandardWhereInput | Prisma.GrowthVelocityStandardWhereInput[]
+  id?: Prisma.StringFilter<"GrowthVelocityStandard"> | string
+  gender?: Prisma.EnumGenderFilter<"GrowthVelocityStandard"> | $Enums.Gender
+  measurementType?: Prisma.EnumMeasurementTypeFilter<"GrowthVelocityStandard"> | $Enums.MeasurementType
+  intervalMonths?: Prisma.IntFilter<"GrowthVelocityStandard"> | number
+  startMonth?: Prisma.IntFilter<"GrowthVelocityStandard"> | number
+  endMonth?: Prisma.IntFilter<"GrowthVelocityStandard"> | number
+  delta?: Prisma.FloatFilter<"GrowthVelocityStandard"> | number
+  lValue?: Prisma.FloatFilter<"GrowthVelocityStandard"> | number
+  mValue?: Prisma.FloatFilter<"GrowthVelocityStandard"> | number
+  sValue?: Prisma.FloatFilter<"GrowthVelocityStandard"> | number
+  createdAt?: Prisma.DateTimeFilter<"GrowthVelocityStandard"> | Date | string
+}
+
+export type GrowthVelocityStandardOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  gender?: Prisma.SortOrder
+  measurementType?: Prisma.SortOrder
+  intervalMonths?: Prisma.SortOrder
+  startMonth?: Prisma.SortOrder
+  endMonth?: Prisma.SortOrder
+  delta?: Prisma.SortOrder
+  lValue?: Prisma.SortOrder
+  mValue?: Prisma.SortOrder
+  sValue?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type GrowthVelocityStandardWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  gender_measurementType_intervalMonths_startMonth?: Prisma.GrowthVelocityStandardGenderMeasurementTypeIntervalMonthsStartMonthCompoundUniqueInput
+  AND?: Prisma.GrowthVelocityStandardWhereInput | Prisma.GrowthVelocityStandardWhereInput[]
+  OR?: Prisma.GrowthVelocityStandardWhereInput[]
+  NOT?: Prisma.GrowthVelocityStandardWhereInput | Prisma.GrowthVelocityStandardWhereInput[]
+  gender?: Prisma.EnumGenderFilter<"GrowthVelocityStandard"> | $Enums.Gender
+  measurementType?: Prisma.EnumMeasurementTypeFilter<"GrowthVelocityStandard"> | $Enums.MeasurementType
+  intervalMonths?: Prisma.IntFilter<"GrowthVelocityStandard"> | number
+  startMonth?: Prisma.IntFilter<"GrowthVelocityStandard"> | number
+  endMonth?: Prisma.IntFilter<"GrowthVelocityStandard"> | number
+  delta?: Prisma.FloatFilter<"GrowthVelocityStandard"> | number
+  lValue?: Prisma.FloatFilter<"GrowthVelocityStandard"> | number
+  mValue?: Prisma.FloatFilter<"GrowthVelocityStandard"> | number
+  sValue?: Prisma.FloatFilter<"GrowthVelocityStandard"> | number
+  createdAt?: Prisma.DateTimeFilter<"GrowthVelocityStandard"> | Date | string
+}, "id" | "gender_measurementType_intervalMonths_startMonth">
+
+export type GrowthVelocityStandardOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  gender?: Prisma.SortOrder
+  measurementType?: Prisma.SortOrder
+  intervalMonths?: Prisma.SortOrder
+  startMonth?: Prisma.SortOrder
+  endMonth?: Prisma.SortOrder
+  delta?: Prisma.SortOrder
+  lValue?: Prisma.SortOrder
+  mValue?: Prisma.SortOrder
+  sValue?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.GrowthVelocityStandardCountOrderByAggregateInput
+  _avg?: Prisma.GrowthVelocityStandardAvgOrderByAggregateInput
+  _max?: Prisma.GrowthVelocityStandardMaxOrderByAggregateInput
+  _min?: Prisma.GrowthVelocityStandardMinOrderByAggregateInput
+  _sum?: Prisma.GrowthVelocityStandardSumOrderByAggregateInput
+}
+
+export type GrowthVelocityStandardScalarWhereWithAggregatesInput = {
+  AND?: Prisma.GrowthVelocityStandardScalarWhereWithAggregatesInput | Prisma.GrowthVelocityStandardScalarWhereWithAggregatesInput[]
+  OR?: Prisma.GrowthVelocityStandardScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.GrowthVelocityStandardScalarWhereWithAggregatesInput | Prisma.GrowthVelocityStandardScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"GrowthVelocityStandard"> | string
+  gender?: Prisma.EnumGenderWithAggregatesFilter<"GrowthVelocityStandard"> | $Enums.Gender
+  measurementType?: Prisma.EnumMeasurementTypeWithAggregatesFilter<"GrowthVelocityStandard"> | $Enums.MeasurementType
+  intervalMonths?: Prisma.IntWithAggregatesFilter<"GrowthVelocityStandard"> | number
+  startMonth?: Prisma.IntWithAggregatesFilter<"GrowthVelocityStandard"> | number
+  endMonth?: Prisma.IntWithAggregatesFilter<"GrowthVelocityStandard"> | number
+  delta?: Prisma.FloatWithAggregatesFilter<"GrowthVelocityStandard"> | number
+  lValue?: Prisma.FloatWithAggregatesFilter<"GrowthVelocityStandard"> | number
+  mValue?: Prisma.FloatWithAggregatesFilter<"GrowthVelocityStandard"> | number
+  sValue?: Prisma.FloatWithAggregatesFilter<"GrowthVelocityStandard"> | number
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"GrowthVelocityStandard"> | Date | string
+}
+
+export type GrowthVelocityStandardCreateInput = {
+  id?: string
+  gender: $Enums.Gender
+  measurementType: $Enums.MeasurementType
+  intervalMonths: number
+  startMonth: number
+  endMonth: number
+  delta?: number
+  lValue: number
+  mValue: number
+  sValue: number
+  createdAt?: Date | string
+}
+
+export type GrowthVelocityStandardUncheckedCreateInput = {
+  id?: string
+  gender: $Enums.Gender
+  measurementType: $Enums.MeasurementType
+  intervalMonths: number
+  startMonth: number
+  endMonth: number
+  delta?: number
+  lValue: number
+  mValue: number
+  sValue: number
+  createdAt?: Date | string
+}
+
+export type GrowthVelocityStandardUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
+  measurementType?: Prisma.EnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType
+  intervalMonths?: Prisma.IntFieldUpdateOperationsInput | number
+  startMonth?: Prisma.IntFieldUpdateOperationsInput | number
+  endMonth?: Prisma.IntFieldUpdateOperationsInput | number
+  delta?: Prisma.FloatFieldUpdateOperationsInput | number
+  lValue?: Prisma.FloatFieldUpdateOperationsInput | number
+  mValue?: Prisma.FloatFieldUpdateOperationsInput | number
+  sValue?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type GrowthVelocityStandardUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
+  measurementType?: Prisma.EnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType
+  intervalMonths?: Prisma.IntFieldUpdateOperationsInput | number
+  startMonth?: Prisma.IntFieldUpdateOperationsInput | number
+  endMonth?: Prisma.IntFieldUpdateOperationsInput | number
+  delta?: Prisma.FloatFieldUpdateOperationsInput | number
+  lValue?: Prisma.FloatFieldUpdateOperationsInput | number
+  mValue?: Prisma.FloatFieldUpdateOperationsInput | number
+  sValue?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type GrowthVelocityStandardCreateManyInput = {
+  id?: string
+  gender: $Enums.Gender
+  measurementType: $Enums.MeasurementType
+  intervalMonths: number
+  startMonth: number
+  endMonth: number
+  delta?: number
+  lValue: number
+  mValue: number
+  sValue: number
+  createdAt?: Date | string
+}
+
+export type GrowthVelocityStandardUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
+  measurementType?: Prisma.EnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType
+  intervalMonths?: Prisma.IntFieldUpdateOperationsInput | number
+  startMonth?: Prisma.IntFieldUpdateOperationsInput | number
+  endMonth?: Prisma.IntFieldUpdateOperationsInput | number
+  delta?: Prisma.FloatFieldUpdateOperationsInput | number
+  lValue?: Prisma.FloatFieldUpdateOperationsInput | number
+  mValue?: Prisma.FloatFieldUpdateOperationsInput | number
+  sValue?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type GrowthVelocityStandardUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
+  measurementType?: Prisma.EnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType
+  intervalMonths?: Prisma.IntFieldUpdateOperationsInput | number
+  startMonth?: Prisma.IntFieldUpdateOperationsInput | number
+  endMonth?: Prisma.IntFieldUpdateOperationsInput | number
+  delta?: Prisma.FloatFieldUpdateOperationsInput | number
+  lValue?: Prisma.FloatFieldUpdateOperationsInput | number
+  mValue?: Prisma.FloatFieldUpdateOperationsInput | number
+  sValue?: Prisma.FloatFieldUpdateOperationsInput | number
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type GrowthVelocityStandardGenderMeasurementTypeIntervalMonthsStartMonthCompoundUniqueInput = {
+  gender: $Enums.Gender
+  measurementType: $Enums.MeasurementType
+  intervalMonths: number
+  startMonth: number
+}
+
+export type GrowthVelocityStandardCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  gender?: Prisma.SortOrder
+  measurementType?: Prisma.SortOrder
+  intervalMonths?: Prisma.SortOrder
+  startMonth?: Prisma.SortOrder
+  endMonth?: Prisma.SortOrder
+  delta?: Prisma.SortOrder
+  lValue?: Prisma.SortOrder
+  mValue?: Prisma.SortOrder
+  sValue?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type GrowthVelocityStandardAvgOrderByAggregateInput = {
+  intervalMonths?: Prisma.SortOrder
+  startMonth?: Prisma.SortOrder
+  endMonth?: Prisma.SortOrder
+  delta?: Prisma.SortOrder
+  lValue?: Prisma.SortOrder
+  mValue?: Prisma.SortOrder
+  sValue?: Prisma.SortOrder
+}
+
+export type GrowthVelocityStandardMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  gender?: Prisma.SortOrder
+  measurementType?: Prisma.SortOrder
+  intervalMonths?: Prisma.SortOrder
+  startMonth?: Prisma.SortOrder
+  endMonth?: Prisma.SortOrder
+  delta?: Prisma.SortOrder
+  lValue?: Prisma.SortOrder
+  mValue?: Prisma.SortOrder
+  sValue?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type GrowthVelocityStandardMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  gender?: Prisma.SortOrder
+  measurementType?: Prisma.SortOrder
+  intervalMonths?: Prisma.SortOrder
+  startMonth?: Prisma.SortOrder
+  endMonth?: Prisma.SortOrder
+  delta?: Prisma.SortOrder
+  lValue?: Prisma.SortOrder
+  mValue?: Prisma.SortOrder
+  sValue?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type GrowthVelocityStandardSumOrderByAggregateInput = {
+  intervalMonths?: Prisma.SortOrder
+  startMonth?: Prisma.SortOrder
+  endMonth?: Prisma.SortOrder
+  delta?: Prisma.SortOrder
+  lValue?: Prisma.SortOrder
+  mValue?: Prisma.SortOrder
+  sValue?: Prisma.SortOrder
+}
+
+export type EnumMeasurementTypeFieldUpdateOperationsInput = {
+  set?: $Enums.MeasurementType
+}
+
+export type FloatFieldUpdateOperationsInput = {
+  set?: number
+  increment?: number
+  decrement?: number
+  multiply?: number
+  divide?: number
+}
+
+
+
+export type GrowthVelocityStandardSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  gender?: boolean
+  measurementType?: boolean
+  intervalMonths?: boolean
+  startMonth?: boolean
+  endMonth?: boolean
+  delta?: boolean
+  lValue?: boolean
+  mValue?: boolean
+  sValue?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["growthVelocityStandard"]>
+
+export type GrowthVelocityStandardSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  gender?: boolean
+  measurementType?: boolean
+  intervalMonths?: boolean
+  startMonth?: boolean
+  endMonth?: boolean
+  delta?: boolean
+  lValue?: boolean
+  mValue?: boolean
+  sValue?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["growthVelocityStandard"]>
+
+export type GrowthVelocityStandardSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  gender?: boolean
+  measurementType?: boolean
+  intervalMonths?: boolean
+  startMonth?: boolean
+  endMonth?: boolean
+  delta?: boolean
+  lValue?: boolean
+  mValue?: boolean
+  sValue?: boolean
+  createdAt?: boolean
+}, ExtArgs["result"]["growthVelocityStandard"]>
+
+export type GrowthVelocityStandardSelectScalar = {
+  id?: boolean
+  gender?: boolean
+  measurementType?: boolean
+  intervalMonths?: boolean
+  startMonth?: boolean
+  endMonth?: boolean
+  delta?: boolean
+  lValue?: boolean
+  mValue?: boolean
+  sValue?: boolean
+  createdAt?: boolean
+}
+
+export type GrowthVelocityStandardOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "gender" | "measurementType" | "intervalMonths" | "startMonth" | "endMonth" | "delta" | "lValue" | "mValue" | "sValue" | "createdAt", ExtArgs["result"]["growthVelocityStandard"]>
+
+export type $GrowthVelocityStandardPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "GrowthVelocityStandard"
+  objects: {}
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    gender: $Enums.Gender
+    measurementType: $Enums.MeasurementType
+    intervalMonths: number
+    startMonth: number
+    endMonth: number
+    delta: number
+    lValue: number
+    mValue: number
+    sValue: number
+    createdAt: Date
+  }, ExtArgs["result"]["growthVelocityStandard"]>
+  composites: {}
+}
+
+export type GrowthVelocityStandardGetPayload<S extends boolean | null | undefined | GrowthVelocityStandardDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$GrowthVelocityStandardPayload, S>
+
+export type GrowthVelocityStandardCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<GrowthVelocityStandardFindManyArgs, 'select' | 'include' | 'distinct' | 'omit' | 'relationLoadStrategy'> & {
+    select?: GrowthVelocityStandardCountAggregateInputType | true
+  }
+
+export interface GrowthVelocityStandardDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['GrowthVelocityStandard'], meta: { name: 'GrowthVelocityStandard' } }
+  /**
+   * Find zero or one GrowthVelocityStandard that matches the filter.
+   * @param {GrowthVelocityStandardFindUniqueArgs} args - Arguments to find a GrowthVelocityStandard
+   * @example
+   * // Get one GrowthVelocityStandard
+   * const growthVelocityStandard = await prisma.growthVelocityStandard.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends GrowthVelocityStandardFindUniqueArgs>(args: Prisma.SelectSubset<T, GrowthVelocityStandardFindUniqueArgs<ExtArgs>>): Prisma.Prisma__GrowthVelocityStandardClient<runtime.Types.Result.GetResult<Prisma.$GrowthVelocityStandardPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one GrowthVelocityStandard that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {GrowthVelocityStandardFindUniqueOrThrowArgs} args - Arguments to find a GrowthVelocityStandard
+   * @example
+   * // Get one GrowthVelocityStandard
+   * const growthVelocityStandard = await prisma.growthVelocityStandard.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends GrowthVelocityStandardFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, GrowthVelocityStandardFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__GrowthVelocityStandardClient<runtime.Types.Result.GetResult<Prisma.$GrowthVelocityStandardPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first GrowthVelocityStandard that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GrowthVelocityStandardFindFirstArgs} args - Arguments to find a GrowthVelocityStandard
+   * @example
+   * // Get one GrowthVelocityStandard
+   * const growthVelocityStandard = await prisma.growthVelocityStandard.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends GrowthVelocityStandardFindFirstArgs>(args?: Prisma.SelectSubset<T, GrowthVelocityStandardFindFirstArgs<ExtArgs>>): Prisma.Prisma__GrowthVelocityStandardClient<runtime.Types.Result.GetResult<Prisma.$GrowthVelocityStandardPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first GrowthVelocityStandard that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GrowthVelocityStandardFindFirstOrThrowArgs} args - Arguments to find a GrowthVelocityStandard
+   * @example
+   * // Get one GrowthVelocityStandard
+   * const growthVelocityStandard = await prisma.growthVelocityStandard.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends GrowthVelocityStandardFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, GrowthVelocityStandardFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__GrowthVelocityStandardClient<runtime.Types.Result.GetResult<Prisma.$GrowthVelocityStandardPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more GrowthVelocityStandards that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GrowthVelocityStandardFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all GrowthVelocityStandards
+   * const growthVelocityStandards = await prisma.growthVelocityStandard.findMany()
+   * 
+   * // Get first 10 GrowthVelocityStandards
+   * const growthVelocityStandards = await prisma.growthVelocityStandard.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const growthVelocityStandardWithIdOnly = await prisma.growthVelocityStandard.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends GrowthVelocityStandardFindManyArgs>(args?: Prisma.SelectSubset<T, GrowthVelocityStandardFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$GrowthVelocityStandardPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a GrowthVelocityStandard.
+   * @param {GrowthVelocityStandardCreateArgs} args - Arguments to create a GrowthVelocityStandard.
+   * @example
+   * // Create one GrowthVelocityStandard
+   * const GrowthVelocityStandard = await prisma.growthVelocityStandard.create({
+   *   data: {
+   *     // ... data to create a GrowthVelocityStandard
+   *   }
+   * })
+   * 
+   */
+  create<T extends GrowthVelocityStandardCreateArgs>(args: Prisma.SelectSubset<T, GrowthVelocityStandardCreateArgs<ExtArgs>>): Prisma.Prisma__GrowthVelocityStandardClient<runtime.Types.Result.GetResult<Prisma.$GrowthVelocityStandardPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many GrowthVelocityStandards.
+   * @param {GrowthVelocityStandardCreateManyArgs} args - Arguments to create many GrowthVelocityStandards.
+   * @example
+   * // Create many GrowthVelocityStandards
+   * const growthVelocityStandard = await prisma.growthVelocityStandard.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends GrowthVelocityStandardCreateManyArgs>(args?: Prisma.SelectSubset<T, GrowthVelocityStandardCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many GrowthVelocityStandards and returns the data saved in the database.
+   * @param {GrowthVelocityStandardCreateManyAndReturnArgs} args - Arguments to create many GrowthVelocityStandards.
+   * @example
+   * // Create many GrowthVelocityStandards
+   * const growthVelocityStandard = await prisma.growthVelocityStandard.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many GrowthVelocityStandards and only return the `id`
+   * const growthVelocityStandardWithIdOnly = await prisma.growthVelocityStandard.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends GrowthVelocityStandardCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, GrowthVelocityStandardCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$GrowthVelocityStandardPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a GrowthVelocityStandard.
+   * @param {GrowthVelocityStandardDeleteArgs} args - Arguments to delete one GrowthVelocityStandard.
+   * @example
+   * // Delete one GrowthVelocityStandard
+   * const GrowthVelocityStandard = await prisma.growthVelocityStandard.delete({
+   *   where: {
+   *     // ... filter to delete one GrowthVelocityStandard
+   *   }
+   * })
+   * 
+   */
+  delete<T extends GrowthVelocityStandardDeleteArgs>(args: Prisma.SelectSubset<T, GrowthVelocityStandardDeleteArgs<ExtArgs>>): Prisma.Prisma__GrowthVelocityStandardClient<runtime.Types.Result.GetResult<Prisma.$GrowthVelocityStandardPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one GrowthVelocityStandard.
+   * @param {GrowthVelocityStandardUpdateArgs} args - Arguments to update one GrowthVelocityStandard.
+   * @example
+   * // Update one GrowthVelocityStandard
+   * const growthVelocityStandard = await prisma.growthVelocityStandard.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends GrowthVelocityStandardUpdateArgs>(args: Prisma.SelectSubset<T, GrowthVelocityStandardUpdateArgs<ExtArgs>>): Prisma.Prisma__GrowthVelocityStandardClient<runtime.Types.Result.GetResult<Prisma.$GrowthVelocityStandardPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more GrowthVelocityStandards.
+   * @param {GrowthVelocityStandardDeleteManyArgs} args - Arguments to filter GrowthVelocityStandards to delete.
+   * @example
+   * // Delete a few GrowthVelocityStandards
+   * const { count } = await prisma.growthVelocityStandard.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends GrowthVelocityStandardDeleteManyArgs>(args?: Prisma.SelectSubset<T, GrowthVelocityStandardDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more GrowthVelocityStandards.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GrowthVelocityStandardUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many GrowthVelocityStandards
+   * const growthVelocityStandard = await prisma.growthVelocityStandard.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends GrowthVelocityStandardUpdateManyArgs>(args: Prisma.SelectSubset<T, GrowthVelocityStandardUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more GrowthVelocityStandards and returns the data updated in the database.
+   * @param {GrowthVelocityStandardUpdateManyAndReturnArgs} args - Arguments to update many GrowthVelocityStandards.
+   * @example
+   * // Update many GrowthVelocityStandards
+   * const growthVelocityStandard = await prisma.growthVelocityStandard.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more GrowthVelocityStandards and only return the `id`
+   * const growthVelocityStandardWithIdOnly = await prisma.growthVelocityStandard.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends GrowthVelocityStandardUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, GrowthVelocityStandardUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$GrowthVelocityStandardPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one GrowthVelocityStandard.
+   * @param {GrowthVelocityStandardUpsertArgs} args - Arguments to update or create a GrowthVelocityStandard.
+   * @example
+   * // Update or create a GrowthVelocityStandard
+   * const growthVelocityStandard = await prisma.growthVelocityStandard.upsert({
+   *   create: {
+   *     // ... data to create a GrowthVelocityStandard
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the GrowthVelocityStandard we want to update
+   *   }
+   * })
+   */
+  upsert<T extends GrowthVelocityStandardUpsertArgs>(args: Prisma.SelectSubset<T, GrowthVelocityStandardUpsertArgs<ExtArgs>>): Prisma.Prisma__GrowthVelocityStandardClient<runtime.Types.Result.GetResult<Prisma.$GrowthVelocityStandardPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of GrowthVelocityStandards.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GrowthVelocityStandardCountArgs} args - Arguments to filter GrowthVelocityStandards to count.
+   * @example
+   * // Count the number of GrowthVelocityStandards
+   * const count = await prisma.growthVelocityStandard.count({
+   *   where: {
+   *     // ... the filter for the GrowthVelocityStandards we want to count
+   *   }
+   * })
+  **/
+  count<T extends GrowthVelocityStandardCountArgs>(
+    args?: Prisma.Subset<T, GrowthVelocityStandardCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], GrowthVelocityStandardCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a GrowthVelocityStandard.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GrowthVelocityStandardAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends GrowthVelocityStandardAggregateArgs>(args: Prisma.Subset<T, GrowthVelocityStandardAggregateArgs>): Prisma.PrismaPromise<GetGrowthVelocityStandardAggregateType<T>>
+
+  /**
+   * Group by GrowthVelocityStandard.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {GrowthVelocityStandardGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends GrowthVelocityStandardGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: GrowthVelocityStandardGroupByArgs['orderBy'] }
+      : { orderBy?: GrowthVelocityStandardGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, GrowthVelocityStandardGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetGrowthVelocityStandardGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the GrowthVelocityStandard model
+ */
+readonly fields: GrowthVelocityStandardFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for GrowthVelocityStandard.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__GrowthVelocityStandardClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the GrowthVelocityStandard model
+ */
+export interface GrowthVelocityStandardFieldRefs {
+  readonly id: Prisma.FieldRef<"GrowthVelocityStandard", 'String'>
+  readonly gender: Prisma.FieldRef<"GrowthVelocityStandard", 'Gender'>
+  readonly measurementType: Prisma.FieldRef<"GrowthVelocityStandard", 'MeasurementType'>
+  readonly intervalMonths: Prisma.FieldRef<"GrowthVelocityStandard", 'Int'>
+  readonly startMonth: Prisma.FieldRef<"GrowthVelocityStandard", 'Int'>
+  readonly endMonth: Prisma.FieldRef<"GrowthVelocityStandard", 'Int'>
+  readonly delta: Prisma.FieldRef<"GrowthVelocityStandard", 'Float'>
+  readonly lValue: Prisma.FieldRef<"GrowthVelocityStandard", 'Float'>
+  readonly mValue: Prisma.FieldRef<"GrowthVelocityStandard", 'Float'>
+  readonly sValue: Prisma.FieldRef<"GrowthVelocityStandard", 'Float'>
+  readonly createdAt: Prisma.FieldRef<"GrowthVelocityStandard", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * GrowthVelocityStandard findUnique
+ */
+export type GrowthVelocityStandardFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthVelocityStandard
+   */
+  select?: Prisma.GrowthVelocityStandardSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GrowthVelocityStandard
+   */
+  omit?: Prisma.GrowthVelocityStandardOmit<ExtArgs> | null
+  /**
+   * Filter, which GrowthVelocityStandard to fetch.
+   */
+  where: Prisma.GrowthVelocityStandardWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * GrowthVelocityStandard findUniqueOrThrow
+ */
+export type GrowthVelocityStandardFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthVelocityStandard
+   */
+  select?: Prisma.GrowthVelocityStandardSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GrowthVelocityStandard
+   */
+  omit?: Prisma.GrowthVelocityStandardOmit<ExtArgs> | null
+  /**
+   * Filter, which GrowthVelocityStandard to fetch.
+   */
+  where: Prisma.GrowthVelocityStandardWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * GrowthVelocityStandard findFirst
+ */
+export type GrowthVelocityStandardFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthVelocityStandard
+   */
+  select?: Prisma.GrowthVelocityStandardSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GrowthVelocityStandard
+   */
+  omit?: Prisma.GrowthVelocityStandardOmit<ExtArgs> | null
+  /**
+   * Filter, which GrowthVelocityStandard to fetch.
+   */
+  where?: Prisma.GrowthVelocityStandardWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of GrowthVelocityStandards to fetch.
+   */
+  orderBy?: Prisma.GrowthVelocityStandardOrderByWithRelationInput | Prisma.GrowthVelocityStandardOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for GrowthVelocityStandards.
+   */
+  cursor?: Prisma.GrowthVelocityStandardWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` GrowthVelocityStandards from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` GrowthVelocityStandards.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of GrowthVelocityStandards.
+   */
+  distinct?: Prisma.GrowthVelocityStandardScalarFieldEnum | Prisma.GrowthVelocityStandardScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * GrowthVelocityStandard findFirstOrThrow
+ */
+export type GrowthVelocityStandardFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthVelocityStandard
+   */
+  select?: Prisma.GrowthVelocityStandardSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GrowthVelocityStandard
+   */
+  omit?: Prisma.GrowthVelocityStandardOmit<ExtArgs> | null
+  /**
+   * Filter, which GrowthVelocityStandard to fetch.
+   */
+  where?: Prisma.GrowthVelocityStandardWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of GrowthVelocityStandards to fetch.
+   */
+  orderBy?: Prisma.GrowthVelocityStandardOrderByWithRelationInput | Prisma.GrowthVelocityStandardOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for GrowthVelocityStandards.
+   */
+  cursor?: Prisma.GrowthVelocityStandardWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` GrowthVelocityStandards from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` GrowthVelocityStandards.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of GrowthVelocityStandards.
+   */
+  distinct?: Prisma.GrowthVelocityStandardScalarFieldEnum | Prisma.GrowthVelocityStandardScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * GrowthVelocityStandard findMany
+ */
+export type GrowthVelocityStandardFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthVelocityStandard
+   */
+  select?: Prisma.GrowthVelocityStandardSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GrowthVelocityStandard
+   */
+  omit?: Prisma.GrowthVelocityStandardOmit<ExtArgs> | null
+  /**
+   * Filter, which GrowthVelocityStandards to fetch.
+   */
+  where?: Prisma.GrowthVelocityStandardWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of GrowthVelocityStandards to fetch.
+   */
+  orderBy?: Prisma.GrowthVelocityStandardOrderByWithRelationInput | Prisma.GrowthVelocityStandardOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing GrowthVelocityStandards.
+   */
+  cursor?: Prisma.GrowthVelocityStandardWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` GrowthVelocityStandards from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` GrowthVelocityStandards.
+   */
+  skip?: number
+  distinct?: Prisma.GrowthVelocityStandardScalarFieldEnum | Prisma.GrowthVelocityStandardScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * GrowthVelocityStandard create
+ */
+export type GrowthVelocityStandardCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthVelocityStandard
+   */
+  select?: Prisma.GrowthVelocityStandardSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GrowthVelocityStandard
+   */
+  omit?: Prisma.GrowthVelocityStandardOmit<ExtArgs> | null
+  /**
+   * The data needed to create a GrowthVelocityStandard.
+   */
+  data: Prisma.XOR<Prisma.GrowthVelocityStandardCreateInput, Prisma.GrowthVelocityStandardUncheckedCreateInput>
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * GrowthVelocityStandard createMany
+ */
+export type GrowthVelocityStandardCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many GrowthVelocityStandards.
+   */
+  data: Prisma.GrowthVelocityStandardCreateManyInput | Prisma.GrowthVelocityStandardCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * GrowthVelocityStandard createManyAndReturn
+ */
+export type GrowthVelocityStandardCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthVelocityStandard
+   */
+  select?: Prisma.GrowthVelocityStandardSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the GrowthVelocityStandard
+   */
+  omit?: Prisma.GrowthVelocityStandardOmit<ExtArgs> | null
+  /**
+   * The data used to create many GrowthVelocityStandards.
+   */
+  data: Prisma.GrowthVelocityStandardCreateManyInput | Prisma.GrowthVelocityStandardCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * GrowthVelocityStandard update
+ */
+export type GrowthVelocityStandardUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthVelocityStandard
+   */
+  select?: Prisma.GrowthVelocityStandardSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GrowthVelocityStandard
+   */
+  omit?: Prisma.GrowthVelocityStandardOmit<ExtArgs> | null
+  /**
+   * The data needed to update a GrowthVelocityStandard.
+   */
+  data: Prisma.XOR<Prisma.GrowthVelocityStandardUpdateInput, Prisma.GrowthVelocityStandardUncheckedUpdateInput>
+  /**
+   * Choose, which GrowthVelocityStandard to update.
+   */
+  where: Prisma.GrowthVelocityStandardWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * GrowthVelocityStandard updateMany
+ */
+export type GrowthVelocityStandardUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update GrowthVelocityStandards.
+   */
+  data: Prisma.XOR<Prisma.GrowthVelocityStandardUpdateManyMutationInput, Prisma.GrowthVelocityStandardUncheckedUpdateManyInput>
+  /**
+   * Filter which GrowthVelocityStandards to update
+   */
+  where?: Prisma.GrowthVelocityStandardWhereInput
+  /**
+   * Limit how many GrowthVelocityStandards to update.
+   */
+  limit?: number
+}
+
+/**
+ * GrowthVelocityStandard updateManyAndReturn
+ */
+export type GrowthVelocityStandardUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthVelocityStandard
+   */
+  select?: Prisma.GrowthVelocityStandardSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the GrowthVelocityStandard
+   */
+  omit?: Prisma.GrowthVelocityStandardOmit<ExtArgs> | null
+  /**
+   * The data used to update GrowthVelocityStandards.
+   */
+  data: Prisma.XOR<Prisma.GrowthVelocityStandardUpdateManyMutationInput, Prisma.GrowthVelocityStandardUncheckedUpdateManyInput>
+  /**
+   * Filter which GrowthVelocityStandards to update
+   */
+  where?: Prisma.GrowthVelocityStandardWhereInput
+  /**
+   * Limit how many GrowthVelocityStandards to update.
+   */
+  limit?: number
+}
+
+/**
+ * GrowthVelocityStandard upsert
+ */
+export type GrowthVelocityStandardUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthVelocityStandard
+   */
+  select?: Prisma.GrowthVelocityStandardSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GrowthVelocityStandard
+   */
+  omit?: Prisma.GrowthVelocityStandardOmit<ExtArgs> | null
+  /**
+   * The filter to search for the GrowthVelocityStandard to update in case it exists.
+   */
+  where: Prisma.GrowthVelocityStandardWhereUniqueInput
+  /**
+   * In case the GrowthVelocityStandard found by the `where` argument doesn't exist, create a new GrowthVelocityStandard with this data.
+   */
+  create: Prisma.XOR<Prisma.GrowthVelocityStandardCreateInput, Prisma.GrowthVelocityStandardUncheckedCreateInput>
+  /**
+   * In case the GrowthVelocityStandard was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.GrowthVelocityStandardUpdateInput, Prisma.GrowthVelocityStandardUncheckedUpdateInput>
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * GrowthVelocityStandard delete
+ */
+export type GrowthVelocityStandardDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthVelocityStandard
+   */
+  select?: Prisma.GrowthVelocityStandardSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GrowthVelocityStandard
+   */
+  omit?: Prisma.GrowthVelocityStandardOmit<ExtArgs> | null
+  /**
+   * Filter which GrowthVelocityStandard to delete.
+   */
+  where: Prisma.GrowthVelocityStandardWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * GrowthVelocityStandard deleteMany
+ */
+export type GrowthVelocityStandardDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which GrowthVelocityStandards to delete
+   */
+  where?: Prisma.GrowthVelocityStandardWhereInput
+  /**
+   * Limit how many GrowthVelocityStandards to delete.
+   */
+  limit?: number
+}
+
+/**
+ * GrowthVelocityStandard without action
+ */
+export type GrowthVelocityStandardDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthVelocityStandard
+   */
+  select?: Prisma.GrowthVelocityStandardSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GrowthVelocityStandard
+   */
+  omit?: Prisma.GrowthVelocityStandardOmit<ExtArgs> | null
+}
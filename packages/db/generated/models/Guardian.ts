@@ -20,16 +20,27 @@ export type GuardianModel = runtime.Types.Result.DefaultSelection<Prisma.$Guardi
 
 export type AggregateGuardian = {
   _count: GuardianCountAggregateOutputType | null
+  _avg: GuardianAvgAggregateOutputType | null
+  _sum: GuardianSumAggregateOutputType | null
   _min: GuardianMinAggregateOutputType | null
   _max: GuardianMaxAggregateOutputType | null
 }
 
+export type GuardianAvgAggregateOutputType = {
+  heightCm: number | null
+}
+
+export type GuardianSumAggregateOutputType = {
+  heightCm: number | null
+}
+
 export type GuardianMinAggregateOutputType = {
   id: string | null
   patientId: string | null
   userId: string | null
   relation: string | null
   isPrimary: boolean | null
+  heightCm: number | null
   phone: string | null
   email: string | null
 }
@@ -40,6 +51,7 @@ export type GuardianMaxAggregateOutputType = {
   userId: string | null
   relation: string | null
   isPrimary: boolean | null
+  heightCm: number | null
   phone: string | null
   email: string | null
 }
@@ -50,18 +62,28 @@ export type GuardianCountAggregateOutputType = {
   userId: number
   relation: number
   isPrimary: number
+  heightCm: number
   phone: number
   email: number
   _all: number
 }
 
 
+export type GuardianAvgAggregateInputType = {
+  heightCm?: true
+}
+
+export type GuardianSumAggregateInputType = {
+  heightCm?: true
+}
+
 export type GuardianMinAggregateInputType = {
   id?: true
   patientId?: true
   userId?: true
   relation?: true
   isPrimary?: true
+  heightCm?: true
   phone?: true
   email?: true
 }
@@ -72,6 +94,7 @@ export type GuardianMaxAggregateInputType = {
   userId?: true
   relation?: true
   isPrimary?: true
+  heightCm?: true
   phone?: true
   email?: true
 }
@@ -82,6 +105,7 @@ export type GuardianCountAggregateInputType = {
   userId?: true
   relation?: true
   isPrimary?: true
+  heightCm?: true
   phone?: true
   email?: true
   _all?: true
@@ -122,6 +146,18 @@ export type GuardianAggregateArgs<ExtArgs extends runtime.Types.Extensions.Inter
    * Count returned Guardians
   **/
   _count?: true | GuardianCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: GuardianAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: GuardianSumAggregateInputType
   /**
    * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
    * 
@@ -155,6 +191,8 @@ export type GuardianGroupByArgs<ExtArgs extends runtime.Types.Extensions.Interna
   take?: number
   skip?: number
   _count?: GuardianCountAggregateInputType | true
+  _avg?: GuardianAvgAggregateInputType
+  _sum?: GuardianSumAggregateInputType
   _min?: GuardianMinAggregateInputType
   _max?: GuardianMaxAggregateInputType
 }
@@ -165,9 +203,12 @@ export type GuardianGroupByOutputType = {
   userId: string
   relation: string
   isPrimary: boolean
+  heightCm: number | null
   phone: string | null
   email: string | null
   _count: GuardianCountAggregateOutputType | null
+  _avg: GuardianAvgAggregateOutputType | null
+  _sum: GuardianSumAggregateOutputType | null
   _min: GuardianMinAggregateOutputType | null
   _max: GuardianMaxAggregateOutputType | null
 }
@@ -196,6 +237,7 @@ export type GuardianWhereInput = {
   userId?: Prisma.StringFilter<"Guardian"> | string
   relation?: Prisma.StringFilter<"Guardian"> | string
   isPrimary?: Prisma.BoolFilter<"Guardian"> | boolean
+  heightCm?: Prisma.FloatNullableFilter<"Guardian"> | number | null
   phone?: Prisma.StringNullableFilter<"Guardian"> | string | null
   email?: Prisma.StringNullableFilter<"Guardian"> | string | null
   patient?: Prisma.XOR<Prisma.PatientScalarRelationFilter, Prisma.PatientWhereInput>
@@ -208,6 +250,7 @@ export type GuardianOrderByWithRelationInput = {
   userId?: Prisma.SortOrder
   relation?: Prisma.SortOrder
   isPrimary?: Prisma.SortOrder
+  heightCm?: Prisma.SortOrderInput | Prisma.SortOrder
   phone?: Prisma.SortOrderInput | Prisma.SortOrder
   email?: Prisma.SortOrderInput | Prisma.SortOrder
   patient?: Prisma.PatientOrderByWithRelationInput
@@ -223,6 +266,7 @@ export type GuardianWhereUniqueInput = Prisma.AtLeast<{
   userId?: Prisma.StringFilter<"Guardian"> | string
   relation?: Prisma.StringFilter<"Guardian"> | string
   isPrimary?: Prisma.BoolFilter<"Guardian"> | boolean
+  heightCm?: Prisma.FloatNullableFilter<"Guardian"> | number | null
   phone?: Prisma.StringNullableFilter<"Guardian"> | string | null
   email?: Prisma.StringNullableFilter<"Guardian"> | string | null
   patient?: Prisma.XOR<Prisma.PatientScalarRelationFilter, Prisma.PatientWhereInput>
@@ -235,11 +279,14 @@ export type GuardianOrderByWithAggregationInput = {
   userId?: Prisma.SortOrder
   relation?: Prisma.SortOrder
   isPrimary?: Prisma.SortOrder
+  heightCm?: Prisma.SortOrderInput | Prisma.SortOrder
   phone?: Prisma.SortOrderInput | Prisma.SortOrder
   email?: Prisma.SortOrderInput | Prisma.SortOrder
   _count?: Prisma.GuardianCountOrderByAggregateInput
+  _avg?: Prisma.GuardianAvgOrderByAggregateInput
   _max?: Prisma.GuardianMaxOrderByAggregateInput
   _min?: Prisma.GuardianMinOrderByAggregateInput
+  _sum?: Prisma.GuardianSumOrderByAggregateInput
 }
 
 export type GuardianScalarWhereWithAggregatesInput = {
@@ -251,6 +298,7 @@ export type GuardianScalarWhereWithAggregatesInput = {
   userId?: Prisma.StringWithAggregatesFilter<"Guardian"> | string
   relation?: Prisma.StringWithAggregatesFilter<"Guardian"> | string
   isPrimary?: Prisma.BoolWithAggregatesFilter<"Guardian"> | boolean
+  heightCm?: Prisma.FloatNullableWithAggregatesFilter<"Guardian"> | number | null
   phone?: Prisma.StringNullableWithAggregatesFilter<"Guardian"> | string | null
   email?: Prisma.StringNullableWithAggregatesFilter<"Guardian"> | string | null
 }
@@ -259,6 +307,7 @@ export type GuardianCreateInput = {
   id?: string
   relation: string
   isPrimary?: boolean
+  heightCm?: number | null
   phone?: string | null
   email?: string | null
   patient: Prisma.PatientCreateNestedOneWithoutGuardiansInput
@@ -271,6 +320,7 @@ export type GuardianUncheckedCreateInput = {
   userId: string
   relation: string
   isPrimary?: boolean
+  heightCm?: number | null
   phone?: string | null
   email?: string | null
 }
@@ -279,6 +329,7 @@ export type GuardianUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   relation?: Prisma.StringFieldUpdateOperationsInput | string
   isPrimary?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  heightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   patient?: Prisma.PatientUpdateOneRequiredWithoutGuardiansNestedInput
@@ -291,6 +342,7 @@ export type GuardianUncheckedUpdateInput = {
   userId?: Prisma.StringFieldUpdateOperationsInput | string
   relation?: Prisma.StringFieldUpdateOperationsInput | string
   isPrimary?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  heightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
@@ -301,6 +353,7 @@ export type GuardianCreateManyInput = {
   userId: string
   relation: string
   isPrimary?: boolean
+  heightCm?: number | null
   phone?: string | null
   email?: string | null
 }
@@ -309,6 +362,7 @@ export type GuardianUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   relation?: Prisma.StringFieldUpdateOperationsInput | string
   isPrimary?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  heightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
@@ -319,6 +373,7 @@ export type GuardianUncheckedUpdateManyInput = {
   userId?: Prisma.StringFieldUpdateOperationsInput | string
   relation?: Prisma.StringFieldUpdateOperationsInput | string
   isPrimary?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  heightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
@@ -339,16 +394,22 @@ export type GuardianCountOrderByAggregateInput = {
   userId?: Prisma.SortOrder
   relation?: Prisma.SortOrder
   isPrimary?: Prisma.SortOrder
+  heightCm?: Prisma.SortOrder
   phone?: Prisma.SortOrder
   email?: Prisma.SortOrder
 }
 
+export type GuardianAvgOrderByAggregateInput = {
+  heightCm?: Prisma.SortOrder
+}
+
 export type GuardianMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder
   patientId?: Prisma.SortOrder
   userId?: Prisma.SortOrder
   relation?: Prisma.SortOrder
   isPrimary?: Prisma.SortOrder
+  heightCm?: Prisma.SortOrder
   phone?: Prisma.SortOrder
   email?: Prisma.SortOrder
 }
@@ -359,10 +420,15 @@ export type GuardianMinOrderByAggregateInput = {
   userId?: Prisma.SortOrder
   relation?: Prisma.SortOrder
   isPrimary?: Prisma.SortOrder
+  heightCm?: Prisma.SortOrder
   phone?: Prisma.SortOrder
   email?: Prisma.SortOrder
 }
 
+export type GuardianSumOrderByAggregateInput = {
+  heightCm?: Prisma.SortOrder
+}
+
 export type GuardianCreateNestedManyWithoutUserInput = {
   create?: Prisma.XOR<Prisma.GuardianCreateWithoutUserInput, Prisma.GuardianUncheckedCreateWithoutUserInput> | Prisma.GuardianCreateWithoutUserInput[] | Prisma.GuardianUncheckedCreateWithoutUserInput[]
   connectOrCreate?: Prisma.GuardianCreateOrConnectWithoutUserInput | Prisma.GuardianCreateOrConnectWithoutUserInput[]
@@ -451,6 +517,7 @@ export type GuardianCreateWithoutUserInput = {
   id?: string
   relation: string
   isPrimary?: boolean
+  heightCm?: number | null
   phone?: string | null
   email?: string | null
   patient: Prisma.PatientCreateNestedOneWithoutGuardiansInput
@@ -461,6 +528,7 @@ export type GuardianUncheckedCreateWithoutUserInput = {
   patientId: string
   relation: string
   isPrimary?: boolean
+  heightCm?: number | null
   phone?: string | null
   email?: string | null
 }
@@ -500,6 +568,7 @@ export type GuardianScalarWhereInput = {
   userId?: Prisma.StringFilter<"Guardian"> | string
   relation?: Prisma.StringFilter<"Guardian"> | string
   isPrimary?: Prisma.BoolFilter<"Guardian"> | boolean
+  heightCm?: Prisma.FloatNullableFilter<"Guardian"> | number | null
   phone?: Prisma.StringNullableFilter<"Guardian"> | string | null
   email?: Prisma.StringNullableFilter<"Guardian"> | string | null
 }
@@ -508,6 +577,7 @@ export type GuardianCreateWithoutPatientInput = {
   id?: string
   relation: string
   isPrimary?: boolean
+  heightCm?: number | null
   phone?: string | null
   email?: string | null
   user: Prisma.UserCreateNestedOneWithoutGuardiansInput
@@ -518,6 +588,7 @@ export type GuardianUncheckedCreateWithoutPatientInput = {
   userId: string
   relation: string
   isPrimary?: boolean
+  heightCm?: number | null
   phone?: string | null
   email?: string | null
 }
@@ -553,6 +624,7 @@ export type GuardianCreateManyUserInput = {
   patientId: string
   relation: string
   isPrimary?: boolean
+  heightCm?: number | null
   phone?: string | null
   email?: string | null
 }
@@ -561,6 +633,7 @@ export type GuardianUpdateWithoutUserInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   relation?: Prisma.StringFieldUpdateOperationsInput | string
   isPrimary?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  heightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   patient?: Prisma.PatientUpdateOneRequiredWithoutGuardiansNestedInput
@@ -571,6 +644,7 @@ export type GuardianUncheckedUpdateWithoutUserInput = {
   patientId?: Prisma.StringFieldUpdateOperationsInput | string
   relation?: Prisma.StringFieldUpdateOperationsInput | string
   isPrimary?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  heightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
@@ -580,6 +654,7 @@ export type GuardianUncheckedUpdateManyWithoutUserInput = {
   patientId?: Prisma.StringFieldUpdateOperationsInput | string
   relation?: Prisma.StringFieldUpdateOperationsInput | string
   isPrimary?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  heightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
@@ -589,6 +664,7 @@ export type GuardianCreateManyPatientInput = {
   userId: string
   relation: string
   isPrimary?: boolean
+  heightCm?: number | null
   phone?: string | null
   email?: string | null
 }
@@ -597,6 +673,7 @@ export type GuardianUpdateWithoutPatientInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   relation?: Prisma.StringFieldUpdateOperationsInput | string
   isPrimary?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  heightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   user?: Prisma.UserUpdateOneRequiredWithoutGuardiansNestedInput
@@ -607,6 +684,7 @@ export type GuardianUncheckedUpdateWithoutPatientInput = {
   userId?: Prisma.StringFieldUpdateOperationsInput | string
   relation?: Prisma.StringFieldUpdateOperationsInput | string
   isPrimary?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  heightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
@@ -616,6 +694,7 @@ export type GuardianUncheckedUpdateManyWithoutPatientInput = {
   userId?: Prisma.StringFieldUpdateOperationsInput | string
   relation?: Prisma.StringFieldUpdateOperationsInput | string
   isPrimary?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  heightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
 }
@@ -628,6 +707,7 @@ export type GuardianSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   userId?: boolean
   relation?: boolean
   isPrimary?: boolean
+  heightCm?: boolean
   phone?: boolean
   email?: boolean
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
@@ -640,6 +720,7 @@ export type GuardianSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Exte
   userId?: boolean
   relation?: boolean
   isPrimary?: boolean
+  heightCm?: boolean
   phone?: boolean
   email?: boolean
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
@@ -652,6 +733,7 @@ export type GuardianSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Exte
   userId?: boolean
   relation?: boolean
   isPrimary?: boolean
+  heightCm?: boolean
   phone?: boolean
   email?: boolean
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
@@ -664,11 +746,12 @@ export type GuardianSelectScalar = {
   userId?: boolean
   relation?: boolean
   isPrimary?: boolean
+  heightCm?: boolean
   phone?: boolean
   email?: boolean
 }
 
-export type GuardianOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "patientId" | "userId" | "relation" | "isPrimary" | "phone" | "email", ExtArgs["result"]["guardian"]>
+export type GuardianOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "patientId" | "userId" | "relation" | "isPrimary" | "heightCm" | "phone" | "email", ExtArgs["result"]["guardian"]>
 export type GuardianInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
@@ -694,6 +777,7 @@ export type $GuardianPayload<ExtArgs extends runtime.Types.Extensions.InternalAr
     userId: string
     relation: string
     isPrimary: boolean
+    heightCm: number | null
     phone: string | null
     email: string | null
   }, ExtArgs["result"]["guardian"]>
@@ -1126,6 +1210,7 @@ export interface GuardianFieldRefs {
   readonly userId: Prisma.FieldRef<"Guardian", 'String'>
   readonly relation: Prisma.FieldRef<"Guardian", 'String'>
   readonly isPrimary: Prisma.FieldRef<"Guardian", 'Boolean'>
+  readonly heightCm: Prisma.FieldRef<"Guardian", 'Float'>
   readonly phone: Prisma.FieldRef<"Guardian", 'String'>
   readonly email: Prisma.FieldRef<"Guardian", 'String'>
 }
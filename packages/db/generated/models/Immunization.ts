@@ -28,10 +28,12 @@ export type AggregateImmunization = {
 
 export type ImmunizationAvgAggregateOutputType = {
   daysOverDue: number | null
+  doseNumber: number | null
 }
 
 export type ImmunizationSumAggregateOutputType = {
   daysOverDue: number | null
+  doseNumber: number | null
 }
 
 export type ImmunizationMinAggregateOutputType = {
@@ -50,6 +52,8 @@ export type ImmunizationMinAggregateOutputType = {
   updatedAt: Date | null
   isOverDue: boolean | null
   daysOverDue: number | null
+  doseNumber: number | null
+  validity: $Enums.DoseValidity | null
 }
 
 export type ImmunizationMaxAggregateOutputType = {
@@ -68,6 +72,8 @@ export type ImmunizationMaxAggregateOutputType = {
   updatedAt: Date | null
   isOverDue: boolean | null
   daysOverDue: number | null
+  doseNumber: number | null
+  validity: $Enums.DoseValidity | null
 }
 
 export type ImmunizationCountAggregateOutputType = {
@@ -86,16 +92,21 @@ export type ImmunizationCountAggregateOutputType = {
   updatedAt: number
   isOverDue: number
   daysOverDue: number
+  doseNumber: number
+  validity: number
+  validityReasons: number
   _all: number
 }
 
 
 export type ImmunizationAvgAggregateInputType = {
   daysOverDue?: true
+  doseNumber?: true
 }
 
 export type ImmunizationSumAggregateInputType = {
   daysOverDue?: true
+  doseNumber?: true
 }
 
 export type ImmunizationMinAggregateInputType = {
@@ -114,6 +125,8 @@ export type ImmunizationMinAggregateInputType = {
   updatedAt?: true
   isOverDue?: true
   daysOverDue?: true
+  doseNumber?: true
+  validity?: true
 }
 
 export type ImmunizationMaxAggregateInputType = {
@@ -132,6 +145,8 @@ export type ImmunizationMaxAggregateInputType = {
   updatedAt?: true
   isOverDue?: true
   daysOverDue?: true
+  doseNumber?: true
+  validity?: true
 }
 
 export type ImmunizationCountAggregateInputType = {
@@ -150,6 +165,9 @@ export type ImmunizationCountAggregateInputType = {
   updatedAt?: true
   isOverDue?: true
   daysOverDue?: true
+  doseNumber?: true
+  validity?: true
+  validityReasons?: true
   _all?: true
 }
 
@@ -255,6 +273,9 @@ export type ImmunizationGroupByOutputType = {
   updatedAt: Date
   isOverDue: boolean | null
   daysOverDue: number | null
+  doseNumber: number | null
+  validity: $Enums.DoseValidity | null
+  validityReasons: string[]
   _count: ImmunizationCountAggregateOutputType | null
   _avg: ImmunizationAvgAggregateOutputType | null
   _sum: ImmunizationSumAggregateOutputType | null
@@ -296,9 +317,13 @@ export type ImmunizationWhereInput = {
   updatedAt?: Prisma.DateTimeFilter<"Immunization"> | Date | string
   isOverDue?: Prisma.BoolNullableFilter<"Immunization"> | boolean | null
   daysOverDue?: Prisma.IntNullableFilter<"Immunization"> | number | null
+  doseNumber?: Prisma.IntNullableFilter<"Immunization"> | number | null
+  validity?: Prisma.EnumDoseValidityNullableFilter<"Immunization"> | $Enums.DoseValidity | null
+  validityReasons?: Prisma.StringNullableListFilter<"Immunization">
   patient?: Prisma.XOR<Prisma.PatientScalarRelationFilter, Prisma.PatientWhereInput>
   administeredBy?: Prisma.XOR<Prisma.StaffNullableScalarRelationFilter, Prisma.StaffWhereInput> | null
   medicalRecords?: Prisma.MedicalRecordsListRelationFilter
+  reminders?: Prisma.ReminderListRelationFilter
 }
 
 export type ImmunizationOrderByWithRelationInput = {
@@ -317,9 +342,13 @@ export type ImmunizationOrderByWithRelationInput = {
   updatedAt?: Prisma.SortOrder
   isOverDue?: Prisma.SortOrderInput | Prisma.SortOrder
   daysOverDue?: Prisma.SortOrderInput | Prisma.SortOrder
+  doseNumber?: Prisma.SortOrderInput | Prisma.SortOrder
+  validity?: Prisma.SortOrderInput | Prisma.SortOrder
+  validityReasons?: Prisma.SortOrder
   patient?: Prisma.PatientOrderByWithRelationInput
   administeredBy?: Prisma.StaffOrderByWithRelationInput
   medicalRecords?: Prisma.MedicalRecordsOrderByRelationAggregateInput
+  reminders?: Prisma.ReminderOrderByRelationAggregateInput
 }
 
 export type ImmunizationWhereUniqueInput = Prisma.AtLeast<{
@@ -341,9 +370,13 @@ export type ImmunizationWhereUniqueInput = Prisma.AtLeast<{
   updatedAt?: Prisma.DateTimeFilter<"Immunization"> | Date | string
   isOverDue?: Prisma.BoolNullableFilter<"Immunization"> | boolean | null
   daysOverDue?: Prisma.IntNullableFilter<"Immunization"> | number | null
+  doseNumber?: Prisma.IntNullableFilter<"Immunization"> | number | null
+  validity?: Prisma.EnumDoseValidityNullableFilter<"Immunization"> | $Enums.DoseValidity | null
+  validityReasons?: Prisma.StringNullableListFilter<"Immunization">
   patient?: Prisma.XOR<Prisma.PatientScalarRelationFilter, Prisma.PatientWhereInput>
   administeredBy?: Prisma.XOR<Prisma.StaffNullableScalarRelationFilter, Prisma.StaffWhereInput> | null
   medicalRecords?: Prisma.MedicalRecordsListRelationFilter
+  reminders?: Prisma.ReminderListRelationFilter
 }, "id">
 
 export type ImmunizationOrderByWithAggregationInput = {
@@ -362,6 +395,9 @@ export type ImmunizationOrderByWithAggregationInput = {
   updatedAt?: Prisma.SortOrder
   isOverDue?: Prisma.SortOrderInput | Prisma.SortOrder
   daysOverDue?: Prisma.SortOrderInput | Prisma.SortOrder
+  doseNumber?: Prisma.SortOrderInput | Prisma.SortOrder
+  validity?: Prisma.SortOrderInput | Prisma.SortOrder
+  validityReasons?: Prisma.SortOrder
   _count?: Prisma.ImmunizationCountOrderByAggregateInput
   _avg?: Prisma.ImmunizationAvgOrderByAggregateInput
   _max?: Prisma.ImmunizationMaxOrderByAggregateInput
@@ -388,6 +424,9 @@ export type ImmunizationScalarWhereWithAggregatesInput = {
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Immunization"> | Date | string
   isOverDue?: Prisma.BoolNullableWithAggregatesFilter<"Immunization"> | boolean | null
   daysOverDue?: Prisma.IntNullableWithAggregatesFilter<"Immunization"> | number | null
+  doseNumber?: Prisma.IntNullableWithAggregatesFilter<"Immunization"> | number | null
+  validity?: Prisma.EnumDoseValidityNullableWithAggregatesFilter<"Immunization"> | $Enums.DoseValidity | null
+  validityReasons?: Prisma.StringNullableListFilter<"Immunization">
 }
 
 export type ImmunizationCreateInput = {
@@ -404,9 +443,13 @@ export type ImmunizationCreateInput = {
   updatedAt?: Date | string
   isOverDue?: boolean | null
   daysOverDue?: number | null
+  doseNumber?: number | null
+  validity?: $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationCreatevalidityReasonsInput | string[]
   patient: Prisma.PatientCreateNestedOneWithoutImmunizationsInput
   administeredBy?: Prisma.StaffCreateNestedOneWithoutImmunizationsInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutImmunizationsInput
+  reminders?: Prisma.ReminderCreateNestedManyWithoutImmunizationInput
 }
 
 export type ImmunizationUncheckedCreateInput = {
@@ -425,7 +468,11 @@ export type ImmunizationUncheckedCreateInput = {
   updatedAt?: Date | string
   isOverDue?: boolean | null
   daysOverDue?: number | null
+  doseNumber?: number | null
+  validity?: $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationCreatevalidityReasonsInput | string[]
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutImmunizationsInput
+  reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutImmunizationInput
 }
 
 export type ImmunizationUpdateInput = {
@@ -442,9 +489,13 @@ export type ImmunizationUpdateInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isOverDue?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   daysOverDue?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  doseNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validity?: Prisma.NullableEnumDoseValidityFieldUpdateOperationsInput | $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationUpdatevalidityReasonsInput | string[]
   patient?: Prisma.PatientUpdateOneRequiredWithoutImmunizationsNestedInput
   administeredBy?: Prisma.StaffUpdateOneWithoutImmunizationsNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutImmunizationsNestedInput
+  reminders?: Prisma.ReminderUpdateManyWithoutImmunizationNestedInput
 }
 
 export type ImmunizationUncheckedUpdateInput = {
@@ -463,7 +514,11 @@ export type ImmunizationUncheckedUpdateInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isOverDue?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   daysOverDue?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  doseNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validity?: Prisma.NullableEnumDoseValidityFieldUpdateOperationsInput | $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationUpdatevalidityReasonsInput | string[]
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutImmunizationsNestedInput
+  reminders?: Prisma.ReminderUncheckedUpdateManyWithoutImmunizationNestedInput
 }
 
 export type ImmunizationCreateManyInput = {
@@ -482,6 +537,9 @@ export type ImmunizationCreateManyInput = {
   updatedAt?: Date | string
   isOverDue?: boolean | null
   daysOverDue?: number | null
+  doseNumber?: number | null
+  validity?: $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationCreatevalidityReasonsInput | string[]
 }
 
 export type ImmunizationUpdateManyMutationInput = {
@@ -498,6 +556,9 @@ export type ImmunizationUpdateManyMutationInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isOverDue?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   daysOverDue?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  doseNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validity?: Prisma.NullableEnumDoseValidityFieldUpdateOperationsInput | $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationUpdatevalidityReasonsInput | string[]
 }
 
 export type ImmunizationUncheckedUpdateManyInput = {
@@ -516,6 +577,9 @@ export type ImmunizationUncheckedUpdateManyInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isOverDue?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   daysOverDue?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  doseNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validity?: Prisma.NullableEnumDoseValidityFieldUpdateOperationsInput | $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationUpdatevalidityReasonsInput | string[]
 }
 
 export type ImmunizationListRelationFilter = {
@@ -528,6 +592,11 @@ export type ImmunizationOrderByRelationAggregateInput = {
   _count?: Prisma.SortOrder
 }
 
+export type ImmunizationNullableScalarRelationFilter = {
+  is?: Prisma.ImmunizationWhereInput | null
+  isNot?: Prisma.ImmunizationWhereInput | null
+}
+
 export type ImmunizationCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   patientId?: Prisma.SortOrder
@@ -544,10 +613,14 @@ export type ImmunizationCountOrderByAggregateInput = {
   updatedAt?: Prisma.SortOrder
   isOverDue?: Prisma.SortOrder
   daysOverDue?: Prisma.SortOrder
+  doseNumber?: Prisma.SortOrder
+  validity?: Prisma.SortOrder
+  validityReasons?: Prisma.SortOrder
 }
 
 export type ImmunizationAvgOrderByAggregateInput = {
   daysOverDue?: Prisma.SortOrder
+  doseNumber?: Prisma.SortOrder
 }
 
 export type ImmunizationMaxOrderByAggregateInput = {
@@ -566,6 +639,8 @@ export type ImmunizationMaxOrderByAggregateInput = {
   updatedAt?: Prisma.SortOrder
   isOverDue?: Prisma.SortOrder
   daysOverDue?: Prisma.SortOrder
+  doseNumber?: Prisma.SortOrder
+  validity?: Prisma.SortOrder
 }
 
 export type ImmunizationMinOrderByAggregateInput = {
@@ -584,10 +659,13 @@ export type ImmunizationMinOrderByAggregateInput = {
   updatedAt?: Prisma.SortOrder
   isOverDue?: Prisma.SortOrder
   daysOverDue?: Prisma.SortOrder
+  doseNumber?: Prisma.SortOrder
+  validity?: Prisma.SortOrder
 }
 
 export type ImmunizationSumOrderByAggregateInput = {
   daysOverDue?: Prisma.SortOrder
+  doseNumber?: Prisma.SortOrder
 }
 
 export type ImmunizationCreateNestedManyWithoutAdministeredByInput = {
@@ -632,6 +710,22 @@ export type ImmunizationUncheckedUpdateManyWithoutAdministeredByNestedInput = {
   deleteMany?: Prisma.ImmunizationScalarWhereInput | Prisma.ImmunizationScalarWhereInput[]
 }
 
+export type ImmunizationCreateNestedOneWithoutRemindersInput = {
+  create?: Prisma.XOR<Prisma.ImmunizationCreateWithoutRemindersInput, Prisma.ImmunizationUncheckedCreateWithoutRemindersInput>
+  connectOrCreate?: Prisma.ImmunizationCreateOrConnectWithoutRemindersInput
+  connect?: Prisma.ImmunizationWhereUniqueInput
+}
+
+export type ImmunizationUpdateOneWithoutRemindersNestedInput = {
+  create?: Prisma.XOR<Prisma.ImmunizationCreateWithoutRemindersInput, Prisma.ImmunizationUncheckedCreateWithoutRemindersInput>
+  connectOrCreate?: Prisma.ImmunizationCreateOrConnectWithoutRemindersInput
+  upsert?: Prisma.ImmunizationUpsertWithoutRemindersInput
+  disconnect?: Prisma.ImmunizationWhereInput | boolean
+  delete?: Prisma.ImmunizationWhereInput | boolean
+  connect?: Prisma.ImmunizationWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ImmunizationUpdateToOneWithWhereWithoutRemindersInput, Prisma.ImmunizationUpdateWithoutRemindersInput>, Prisma.ImmunizationUncheckedUpdateWithoutRemindersInput>
+}
+
 export type ImmunizationCreateNestedManyWithoutPatientInput = {
   create?: Prisma.XOR<Prisma.ImmunizationCreateWithoutPatientInput, Prisma.ImmunizationUncheckedCreateWithoutPatientInput> | Prisma.ImmunizationCreateWithoutPatientInput[] | Prisma.ImmunizationUncheckedCreateWithoutPatientInput[]
   connectOrCreate?: Prisma.ImmunizationCreateOrConnectWithoutPatientInput | Prisma.ImmunizationCreateOrConnectWithoutPatientInput[]
@@ -712,10 +806,23 @@ export type ImmunizationUncheckedUpdateManyWithoutMedicalRecordsNestedInput = {
   deleteMany?: Prisma.ImmunizationScalarWhereInput | Prisma.ImmunizationScalarWhereInput[]
 }
 
+export type ImmunizationCreatevalidityReasonsInput = {
+  set: string[]
+}
+
 export type NullableEnumImmunizationStatusFieldUpdateOperationsInput = {
   set?: $Enums.ImmunizationStatus | null
 }
 
+export type NullableEnumDoseValidityFieldUpdateOperationsInput = {
+  set?: $Enums.DoseValidity | null
+}
+
+export type ImmunizationUpdatevalidityReasonsInput = {
+  set?: string[]
+  push?: string | string[]
+}
+
 export type ImmunizationCreateWithoutAdministeredByInput = {
   id?: string
   vaccine: string
@@ -730,8 +837,12 @@ export type ImmunizationCreateWithoutAdministeredByInput = {
   updatedAt?: Date | string
   isOverDue?: boolean | null
   daysOverDue?: number | null
+  doseNumber?: number | null
+  validity?: $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationCreatevalidityReasonsInput | string[]
   patient: Prisma.PatientCreateNestedOneWithoutImmunizationsInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutImmunizationsInput
+  reminders?: Prisma.ReminderCreateNestedManyWithoutImmunizationInput
 }
 
 export type ImmunizationUncheckedCreateWithoutAdministeredByInput = {
@@ -749,7 +860,11 @@ export type ImmunizationUncheckedCreateWithoutAdministeredByInput = {
   updatedAt?: Date | string
   isOverDue?: boolean | null
   daysOverDue?: number | null
+  doseNumber?: number | null
+  validity?: $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationCreatevalidityReasonsInput | string[]
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutImmunizationsInput
+  reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutImmunizationInput
 }
 
 export type ImmunizationCreateOrConnectWithoutAdministeredByInput = {
@@ -797,6 +912,113 @@ export type ImmunizationScalarWhereInput = {
   updatedAt?: Prisma.DateTimeFilter<"Immunization"> | Date | string
   isOverDue?: Prisma.BoolNullableFilter<"Immunization"> | boolean | null
   daysOverDue?: Prisma.IntNullableFilter<"Immunization"> | number | null
+  doseNumber?: Prisma.IntNullableFilter<"Immunization"> | number | null
+  validity?: Prisma.EnumDoseValidityNullableFilter<"Immunization"> | $Enums.DoseValidity | null
+  validityReasons?: Prisma.StringNullableListFilter<"Immunization">
+}
+
+export type ImmunizationCreateWithoutRemindersInput = {
+  id?: string
+  vaccine: string
+  date: Date | string
+  dose?: string | null
+  lotNumber?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  status?: $Enums.ImmunizationStatus | null
+  updatedAt?: Date | string
+  isOverDue?: boolean | null
+  daysOverDue?: number | null
+  doseNumber?: number | null
+  validity?: $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationCreatevalidityReasonsInput | string[]
+  patient: Prisma.PatientCreateNestedOneWithoutImmunizationsInput
+  administeredBy?: Prisma.StaffCreateNestedOneWithoutImmunizationsInput
+  medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutImmunizationsInput
+}
+
+export type ImmunizationUncheckedCreateWithoutRemindersInput = {
+  id?: string
+  patientId: string
+  vaccine: string
+  date: Date | string
+  dose?: string | null
+  lotNumber?: string | null
+  administeredByStaffId?: string | null
+  notes?: string | null
+  createdAt?: Date | string
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  status?: $Enums.ImmunizationStatus | null
+  updatedAt?: Date | string
+  isOverDue?: boolean | null
+  daysOverDue?: number | null
+  doseNumber?: number | null
+  validity?: $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationCreatevalidityReasonsInput | string[]
+  medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutImmunizationsInput
+}
+
+export type ImmunizationCreateOrConnectWithoutRemindersInput = {
+  where: Prisma.ImmunizationWhereUniqueInput
+  create: Prisma.XOR<Prisma.ImmunizationCreateWithoutRemindersInput, Prisma.ImmunizationUncheckedCreateWithoutRemindersInput>
+}
+
+export type ImmunizationUpsertWithoutRemindersInput = {
+  update: Prisma.XOR<Prisma.ImmunizationUpdateWithoutRemindersInput, Prisma.ImmunizationUncheckedUpdateWithoutRemindersInput>
+  create: Prisma.XOR<Prisma.ImmunizationCreateWithoutRemindersInput, Prisma.ImmunizationUncheckedCreateWithoutRemindersInput>
+  where?: Prisma.ImmunizationWhereInput
+}
+
+export type ImmunizationUpdateToOneWithWhereWithoutRemindersInput = {
+  where?: Prisma.ImmunizationWhereInput
+  data: Prisma.XOR<Prisma.ImmunizationUpdateWithoutRemindersInput, Prisma.ImmunizationUncheckedUpdateWithoutRemindersInput>
+}
+
+export type ImmunizationUpdateWithoutRemindersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  vaccine?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dose?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lotNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  status?: Prisma.NullableEnumImmunizationStatusFieldUpdateOperationsInput | $Enums.ImmunizationStatus | null
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isOverDue?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  daysOverDue?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  doseNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validity?: Prisma.NullableEnumDoseValidityFieldUpdateOperationsInput | $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationUpdatevalidityReasonsInput | string[]
+  patient?: Prisma.PatientUpdateOneRequiredWithoutImmunizationsNestedInput
+  administeredBy?: Prisma.StaffUpdateOneWithoutImmunizationsNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutImmunizationsNestedInput
+}
+
+export type ImmunizationUncheckedUpdateWithoutRemindersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  vaccine?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  dose?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  lotNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  administeredByStaffId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  status?: Prisma.NullableEnumImmunizationStatusFieldUpdateOperationsInput | $Enums.ImmunizationStatus | null
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  isOverDue?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  daysOverDue?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  doseNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validity?: Prisma.NullableEnumDoseValidityFieldUpdateOperationsInput | $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationUpdatevalidityReasonsInput | string[]
+  medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutImmunizationsNestedInput
 }
 
 export type ImmunizationCreateWithoutPatientInput = {
@@ -813,8 +1035,12 @@ export type ImmunizationCreateWithoutPatientInput = {
   updatedAt?: Date | string
   isOverDue?: boolean | null
   daysOverDue?: number | null
+  doseNumber?: number | null
+  validity?: $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationCreatevalidityReasonsInput | string[]
   administeredBy?: Prisma.StaffCreateNestedOneWithoutImmunizationsInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutImmunizationsInput
+  reminders?: Prisma.ReminderCreateNestedManyWithoutImmunizationInput
 }
 
 export type ImmunizationUncheckedCreateWithoutPatientInput = {
@@ -832,7 +1058,11 @@ export type ImmunizationUncheckedCreateWithoutPatientInput = {
   updatedAt?: Date | string
   isOverDue?: boolean | null
   daysOverDue?: number | null
+  doseNumber?: number | null
+  validity?: $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationCreatevalidityReasonsInput | string[]
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutImmunizationsInput
+  reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutImmunizationInput
 }
 
 export type ImmunizationCreateOrConnectWithoutPatientInput = {
@@ -875,8 +1105,12 @@ export type ImmunizationCreateWithoutMedicalRecordsInput = {
   updatedAt?: Date | string
   isOverDue?: boolean | null
   daysOverDue?: number | null
+  doseNumber?: number | null
+  validity?: $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationCreatevalidityReasonsInput | string[]
   patient: Prisma.PatientCreateNestedOneWithoutImmunizationsInput
   administeredBy?: Prisma.StaffCreateNestedOneWithoutImmunizationsInput
+  reminders?: Prisma.ReminderCreateNestedManyWithoutImmunizationInput
 }
 
 export type ImmunizationUncheckedCreateWithoutMedicalRecordsInput = {
@@ -895,6 +1129,10 @@ export type ImmunizationUncheckedCreateWithoutMedicalRecordsInput = {
   updatedAt?: Date | string
   isOverDue?: boolean | null
   daysOverDue?: number | null
+  doseNumber?: number | null
+  validity?: $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationCreatevalidityReasonsInput | string[]
+  reminders?: Prisma.ReminderUncheckedCreateNestedManyWithoutImmunizationInput
 }
 
 export type ImmunizationCreateOrConnectWithoutMedicalRecordsInput = {
@@ -933,6 +1171,9 @@ export type ImmunizationCreateManyAdministeredByInput = {
   updatedAt?: Date | string
   isOverDue?: boolean | null
   daysOverDue?: number | null
+  doseNumber?: number | null
+  validity?: $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationCreatevalidityReasonsInput | string[]
 }
 
 export type ImmunizationUpdateWithoutAdministeredByInput = {
@@ -949,8 +1190,12 @@ export type ImmunizationUpdateWithoutAdministeredByInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isOverDue?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   daysOverDue?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  doseNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validity?: Prisma.NullableEnumDoseValidityFieldUpdateOperationsInput | $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationUpdatevalidityReasonsInput | string[]
   patient?: Prisma.PatientUpdateOneRequiredWithoutImmunizationsNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutImmunizationsNestedInput
+  reminders?: Prisma.ReminderUpdateManyWithoutImmunizationNestedInput
 }
 
 export type ImmunizationUncheckedUpdateWithoutAdministeredByInput = {
@@ -968,7 +1213,11 @@ export type ImmunizationUncheckedUpdateWithoutAdministeredByInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isOverDue?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   daysOverDue?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  doseNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validity?: Prisma.NullableEnumDoseValidityFieldUpdateOperationsInput | $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationUpdatevalidityReasonsInput | string[]
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutImmunizationsNestedInput
+  reminders?: Prisma.ReminderUncheckedUpdateManyWithoutImmunizationNestedInput
 }
 
 export type ImmunizationUncheckedUpdateManyWithoutAdministeredByInput = {
@@ -986,6 +1235,9 @@ export type ImmunizationUncheckedUpdateManyWithoutAdministeredByInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isOverDue?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   daysOverDue?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  doseNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validity?: Prisma.NullableEnumDoseValidityFieldUpdateOperationsInput | $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationUpdatevalidityReasonsInput | string[]
 }
 
 export type ImmunizationCreateManyPatientInput = {
@@ -1003,6 +1255,9 @@ export type ImmunizationCreateManyPatientInput = {
   updatedAt?: Date | string
   isOverDue?: boolean | null
   daysOverDue?: number | null
+  doseNumber?: number | null
+  validity?: $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationCreatevalidityReasonsInput | string[]
 }
 
 export type ImmunizationUpdateWithoutPatientInput = {
@@ -1019,8 +1274,12 @@ export type ImmunizationUpdateWithoutPatientInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isOverDue?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   daysOverDue?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  doseNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validity?: Prisma.NullableEnumDoseValidityFieldUpdateOperationsInput | $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationUpdatevalidityReasonsInput | string[]
   administeredBy?: Prisma.StaffUpdateOneWithoutImmunizationsNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutImmunizationsNestedInput
+  reminders?: Prisma.ReminderUpdateManyWithoutImmunizationNestedInput
 }
 
 export type ImmunizationUncheckedUpdateWithoutPatientInput = {
@@ -1038,7 +1297,11 @@ export type ImmunizationUncheckedUpdateWithoutPatientInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isOverDue?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   daysOverDue?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  doseNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validity?: Prisma.NullableEnumDoseValidityFieldUpdateOperationsInput | $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationUpdatevalidityReasonsInput | string[]
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutImmunizationsNestedInput
+  reminders?: Prisma.ReminderUncheckedUpdateManyWithoutImmunizationNestedInput
 }
 
 export type ImmunizationUncheckedUpdateManyWithoutPatientInput = {
@@ -1056,6 +1319,9 @@ export type ImmunizationUncheckedUpdateManyWithoutPatientInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isOverDue?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   daysOverDue?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  doseNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validity?: Prisma.NullableEnumDoseValidityFieldUpdateOperationsInput | $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationUpdatevalidityReasonsInput | string[]
 }
 
 export type ImmunizationUpdateWithoutMedicalRecordsInput = {
@@ -1072,8 +1338,12 @@ export type ImmunizationUpdateWithoutMedicalRecordsInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isOverDue?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   daysOverDue?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  doseNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validity?: Prisma.NullableEnumDoseValidityFieldUpdateOperationsInput | $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationUpdatevalidityReasonsInput | string[]
   patient?: Prisma.PatientUpdateOneRequiredWithoutImmunizationsNestedInput
   administeredBy?: Prisma.StaffUpdateOneWithoutImmunizationsNestedInput
+  reminders?: Prisma.ReminderUpdateManyWithoutImmunizationNestedInput
 }
 
 export type ImmunizationUncheckedUpdateWithoutMedicalRecordsInput = {
@@ -1092,6 +1362,10 @@ export type ImmunizationUncheckedUpdateWithoutMedicalRecordsInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isOverDue?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   daysOverDue?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  doseNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validity?: Prisma.NullableEnumDoseValidityFieldUpdateOperationsInput | $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationUpdatevalidityReasonsInput | string[]
+  reminders?: Prisma.ReminderUncheckedUpdateManyWithoutImmunizationNestedInput
 }
 
 export type ImmunizationUncheckedUpdateManyWithoutMedicalRecordsInput = {
@@ -1110,6 +1384,9 @@ export type ImmunizationUncheckedUpdateManyWithoutMedicalRecordsInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   isOverDue?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   daysOverDue?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  doseNumber?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  validity?: Prisma.NullableEnumDoseValidityFieldUpdateOperationsInput | $Enums.DoseValidity | null
+  validityReasons?: Prisma.ImmunizationUpdatevalidityReasonsInput | string[]
 }
 
 
@@ -1119,10 +1396,12 @@ export type ImmunizationUncheckedUpdateManyWithoutMedicalRecordsInput = {
 
 export type ImmunizationCountOutputType = {
   medicalRecords: number
+  reminders: number
 }
 
 export type ImmunizationCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   medicalRecords?: boolean | ImmunizationCountOutputTypeCountMedicalRecordsArgs
+  reminders?: boolean | ImmunizationCountOutputTypeCountRemindersArgs
 }
 
 /**
@@ -1142,6 +1421,13 @@ export type ImmunizationCountOutputTypeCountMedicalRecordsArgs<ExtArgs extends r
   where?: Prisma.MedicalRecordsWhereInput
 }
 
+/**
+ * ImmunizationCountOutputType without action
+ */
+export type ImmunizationCountOutputTypeCountRemindersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ReminderWhereInput
+}
+
 
 export type ImmunizationSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1159,9 +1445,13 @@ export type ImmunizationSelect<ExtArgs extends runtime.Types.Extensions.Internal
   updatedAt?: boolean
   isOverDue?: boolean
   daysOverDue?: boolean
+  doseNumber?: boolean
+  validity?: boolean
+  validityReasons?: boolean
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
   administeredBy?: boolean | Prisma.Immunization$administeredByArgs<ExtArgs>
   medicalRecords?: boolean | Prisma.Immunization$medicalRecordsArgs<ExtArgs>
+  reminders?: boolean | Prisma.Immunization$remindersArgs<ExtArgs>
   _count?: boolean | Prisma.ImmunizationCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["immunization"]>
 
@@ -1181,6 +1471,9 @@ export type ImmunizationSelectCreateManyAndReturn<ExtArgs extends runtime.Types.
   updatedAt?: boolean
   isOverDue?: boolean
   daysOverDue?: boolean
+  doseNumber?: boolean
+  validity?: boolean
+  validityReasons?: boolean
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
   administeredBy?: boolean | Prisma.Immunization$administeredByArgs<ExtArgs>
 }, ExtArgs["result"]["immunization"]>
@@ -1201,6 +1494,9 @@ export type ImmunizationSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.
   updatedAt?: boolean
   isOverDue?: boolean
   daysOverDue?: boolean
+  doseNumber?: boolean
+  validity?: boolean
+  validityReasons?: boolean
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
   administeredBy?: boolean | Prisma.Immunization$administeredByArgs<ExtArgs>
 }, ExtArgs["result"]["immunization"]>
@@ -1221,13 +1517,17 @@ export type ImmunizationSelectScalar = {
   updatedAt?: boolean
   isOverDue?: boolean
   daysOverDue?: boolean
+  doseNumber?: boolean
+  validity?: boolean
+  validityReasons?: boolean
 }
 
-export type ImmunizationOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "patientId" | "vaccine" | "date" | "dose" | "lotNumber" | "administeredByStaffId" | "notes" | "createdAt" | "deletedAt" | "isDeleted" | "status" | "updatedAt" | "isOverDue" | "daysOverDue", ExtArgs["result"]["immunization"]>
+export type ImmunizationOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "patientId" | "vaccine" | "date" | "dose" | "lotNumber" | "administeredByStaffId" | "notes" | "createdAt" | "deletedAt" | "isDeleted" | "status" | "updatedAt" | "isOverDue" | "daysOverDue" | "doseNumber" | "validity" | "validityReasons", ExtArgs["result"]["immunization"]>
 export type ImmunizationInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
   administeredBy?: boolean | Prisma.Immunization$administeredByArgs<ExtArgs>
   medicalRecords?: boolean | Prisma.Immunization$medicalRecordsArgs<ExtArgs>
+  reminders?: boolean | Prisma.Immunization$remindersArgs<ExtArgs>
   _count?: boolean | Prisma.ImmunizationCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type ImmunizationIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -1245,6 +1545,7 @@ export type $ImmunizationPayload<ExtArgs extends runtime.Types.Extensions.Intern
     patient: Prisma.$PatientPayload<ExtArgs>
     administeredBy: Prisma.$StaffPayload<ExtArgs> | null
     medicalRecords: Prisma.$MedicalRecordsPayload<ExtArgs>[]
+    reminders: Prisma.$ReminderPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -1262,6 +1563,9 @@ export type $ImmunizationPayload<ExtArgs extends runtime.Types.Extensions.Intern
     updatedAt: Date
     isOverDue: boolean | null
     daysOverDue: number | null
+    doseNumber: number | null
+    validity: $Enums.DoseValidity | null
+    validityReasons: string[]
   }, ExtArgs["result"]["immunization"]>
   composites: {}
 }
@@ -1659,6 +1963,7 @@ export interface Prisma__ImmunizationClient<T, Null = never, ExtArgs extends run
   patient<T extends Prisma.PatientDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PatientDefaultArgs<ExtArgs>>): Prisma.Prisma__PatientClient<runtime.Types.Result.GetResult<Prisma.$PatientPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   administeredBy<T extends Prisma.Immunization$administeredByArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Immunization$administeredByArgs<ExtArgs>>): Prisma.Prisma__StaffClient<runtime.Types.Result.GetResult<Prisma.$StaffPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   medicalRecords<T extends Prisma.Immunization$medicalRecordsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Immunization$medicalRecordsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MedicalRecordsPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  reminders<T extends Prisma.Immunization$remindersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Immunization$remindersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ReminderPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1703,6 +2008,9 @@ export interface ImmunizationFieldRefs {
   readonly updatedAt: Prisma.FieldRef<"Immunization", 'DateTime'>
   readonly isOverDue: Prisma.FieldRef<"Immunization", 'Boolean'>
   readonly daysOverDue: Prisma.FieldRef<"Immunization", 'Int'>
+  readonly doseNumber: Prisma.FieldRef<"Immunization", 'Int'>
+  readonly validity: Prisma.FieldRef<"Immunization", 'DoseValidity'>
+  readonly validityReasons: Prisma.FieldRef<"Immunization", 'String[]'>
 }
     
 
@@ -2150,6 +2458,30 @@ export type Immunization$medicalRecordsArgs<ExtArgs extends runtime.Types.Extens
   distinct?: Prisma.MedicalRecordsScalarFieldEnum | Prisma.MedicalRecordsScalarFieldEnum[]
 }
 
+/**
+ * Immunization.reminders
+ */
+export type Immunization$remindersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Reminder
+   */
+  select?: Prisma.ReminderSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Reminder
+   */
+  omit?: Prisma.ReminderOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ReminderInclude<ExtArgs> | null
+  where?: Prisma.ReminderWhereInput
+  orderBy?: Prisma.ReminderOrderByWithRelationInput | Prisma.ReminderOrderByWithRelationInput[]
+  cursor?: Prisma.ReminderWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ReminderScalarFieldEnum | Prisma.ReminderScalarFieldEnum[]
+}
+
 /**
  * Immunization without action
  */
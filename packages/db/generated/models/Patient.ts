@@ -27,11 +27,19 @@ export type AggregatePatient = {
 }
 
 export type PatientAvgAggregateOutputType = {
+  gestationalAgeWeeks: number | null
+  gestationalAgeDays: number | null
+  fatherHeightCm: number | null
+  motherHeightCm: number | null
   ageMonths: number | null
   ageDays: number | null
 }
 
 export type PatientSumAggregateOutputType = {
+  gestationalAgeWeeks: number | null
+  gestationalAgeDays: number | null
+  fatherHeightCm: number | null
+  motherHeightCm: number | null
   ageMonths: number | null
   ageDays: number | null
 }
@@ -45,7 +53,12 @@ export type PatientMinAggregateOutputType = {
   emergencyContactNumber: string | null
   firstName: string | null
   lastName: string | null
+  medicalRecordNumber: string | null
   dateOfBirth: Date | null
+  gestationalAgeWeeks: number | null
+  gestationalAgeDays: number | null
+  fatherHeightCm: number | null
+  motherHeightCm: number | null
   ageMonths: number | null
   ageDays: number | null
   gender: $Enums.Gender | null
@@ -80,7 +93,12 @@ export type PatientMaxAggregateOutputType = {
   emergencyContactNumber: string | null
   firstName: string | null
   lastName: string | null
+  medicalRecordNumber: string | null
   dateOfBirth: Date | null
+  gestationalAgeWeeks: number | null
+  gestationalAgeDays: number | null
+  fatherHeightCm: number | null
+  motherHeightCm: number | null
   ageMonths: number | null
   ageDays: number | null
   gender: $Enums.Gender | null
@@ -115,7 +133,12 @@ export type PatientCountAggregateOutputType = {
   emergencyContactNumber: number
   firstName: number
   lastName: number
+  medicalRecordNumber: number
   dateOfBirth: number
+  gestationalAgeWeeks: number
+  gestationalAgeDays: number
+  fatherHeightCm: number
+  motherHeightCm: number
   ageMonths: number
   ageDays: number
   gender: number
@@ -144,11 +167,19 @@ export type PatientCountAggregateOutputType = {
 
 
 export type PatientAvgAggregateInputType = {
+  gestationalAgeWeeks?: true
+  gestationalAgeDays?: true
+  fatherHeightCm?: true
+  motherHeightCm?: true
   ageMonths?: true
   ageDays?: true
 }
 
 export type PatientSumAggregateInputType = {
+  gestationalAgeWeeks?: true
+  gestationalAgeDays?: true
+  fatherHeightCm?: true
+  motherHeightCm?: true
   ageMonths?: true
   ageDays?: true
 }
@@ -162,7 +193,12 @@ export type PatientMinAggregateInputType = {
   emergencyContactNumber?: true
   firstName?: true
   lastName?: true
+  medicalRecordNumber?: true
   dateOfBirth?: true
+  gestationalAgeWeeks?: true
+  gestationalAgeDays?: true
+  fatherHeightCm?: true
+  motherHeightCm?: true
   ageMonths?: true
   ageDays?: true
   gender?: true
@@ -197,7 +233,12 @@ export type PatientMaxAggregateInputType = {
   emergencyContactNumber?: true
   firstName?: true
   lastName?: true
+  medicalRecordNumber?: true
   dateOfBirth?: true
+  gestationalAgeWeeks?: true
+  gestationalAgeDays?: true
+  fatherHeightCm?: true
+  motherHeightCm?: true
   ageMonths?: true
   ageDays?: true
   gender?: true
@@ -232,7 +273,12 @@ export type PatientCountAggregateInputType = {
   emergencyContactNumber?: true
   firstName?: true
   lastName?: true
+  medicalRecordNumber?: true
   dateOfBirth?: true
+  gestationalAgeWeeks?: true
+  gestationalAgeDays?: true
+  fatherHeightCm?: true
+  motherHeightCm?: true
   ageMonths?: true
   ageDays?: true
   gender?: true
@@ -354,7 +400,12 @@ export type PatientGroupByOutputType = {
   emergencyContactNumber: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber: string | null
   dateOfBirth: Date
+  gestationalAgeWeeks: number | null
+  gestationalAgeDays: number | null
+  fatherHeightCm: number | null
+  motherHeightCm: number | null
   ageMonths: number | null
   ageDays: number | null
   gender: $Enums.Gender
@@ -412,7 +463,12 @@ export type PatientWhereInput = {
   emergencyContactNumber?: Prisma.StringNullableFilter<"Patient"> | string | null
   firstName?: Prisma.StringFilter<"Patient"> | string
   lastName?: Prisma.StringFilter<"Patient"> | string
+  medicalRecordNumber?: Prisma.StringNullableFilter<"Patient"> | string | null
   dateOfBirth?: Prisma.DateTimeFilter<"Patient"> | Date | string
+  gestationalAgeWeeks?: Prisma.IntNullableFilter<"Patient"> | number | null
+  gestationalAgeDays?: Prisma.IntNullableFilter<"Patient"> | number | null
+  fatherHeightCm?: Prisma.FloatNullableFilter<"Patient"> | number | null
+  motherHeightCm?: Prisma.FloatNullableFilter<"Patient"> | number | null
   ageMonths?: Prisma.IntNullableFilter<"Patient"> | number | null
   ageDays?: Prisma.IntNullableFilter<"Patient"> | number | null
   gender?: Prisma.EnumGenderFilter<"Patient"> | $Enums.Gender
@@ -440,6 +496,8 @@ export type PatientWhereInput = {
   user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   createdBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
   appointments?: Prisma.AppointmentListRelationFilter
+  appointmentSeries?: Prisma.AppointmentSeriesListRelationFilter
+  waitlistEntries?: Prisma.WaitlistEntryListRelationFilter
   medicalRecords?: Prisma.MedicalRecordsListRelationFilter
   encounters?: Prisma.DiagnosisListRelationFilter
   immunizations?: Prisma.ImmunizationListRelationFilter
@@ -450,8 +508,11 @@ export type PatientWhereInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckListRelationFilter
   developmentalMilestones?: Prisma.DevelopmentalMilestoneListRelationFilter
   growthRecords?: Prisma.GrowthRecordListRelationFilter
+  growthAlerts?: Prisma.GrowthAlertListRelationFilter
   payments?: Prisma.PaymentListRelationFilter
   guardians?: Prisma.GuardianListRelationFilter
+  allergyRecords?: Prisma.PatientAllergyListRelationFilter
+  conditionRecords?: Prisma.PatientConditionListRelationFilter
 }
 
 export type PatientOrderByWithRelationInput = {
@@ -463,7 +524,12 @@ export type PatientOrderByWithRelationInput = {
   emergencyContactNumber?: Prisma.SortOrderInput | Prisma.SortOrder
   firstName?: Prisma.SortOrder
   lastName?: Prisma.SortOrder
+  medicalRecordNumber?: Prisma.SortOrderInput | Prisma.SortOrder
   dateOfBirth?: Prisma.SortOrder
+  gestationalAgeWeeks?: Prisma.SortOrderInput | Prisma.SortOrder
+  gestationalAgeDays?: Prisma.SortOrderInput | Prisma.SortOrder
+  fatherHeightCm?: Prisma.SortOrderInput | Prisma.SortOrder
+  motherHeightCm?: Prisma.SortOrderInput | Prisma.SortOrder
   ageMonths?: Prisma.SortOrderInput | Prisma.SortOrder
   ageDays?: Prisma.SortOrderInput | Prisma.SortOrder
   gender?: Prisma.SortOrder
@@ -491,6 +557,8 @@ export type PatientOrderByWithRelationInput = {
   user?: Prisma.UserOrderByWithRelationInput
   createdBy?: Prisma.UserOrderByWithRelationInput
   appointments?: Prisma.AppointmentOrderByRelationAggregateInput
+  appointmentSeries?: Prisma.AppointmentSeriesOrderByRelationAggregateInput
+  waitlistEntries?: Prisma.WaitlistEntryOrderByRelationAggregateInput
   medicalRecords?: Prisma.MedicalRecordsOrderByRelationAggregateInput
   encounters?: Prisma.DiagnosisOrderByRelationAggregateInput
   immunizations?: Prisma.ImmunizationOrderByRelationAggregateInput
@@ -501,14 +569,18 @@ export type PatientOrderByWithRelationInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckOrderByRelationAggregateInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneOrderByRelationAggregateInput
   growthRecords?: Prisma.GrowthRecordOrderByRelationAggregateInput
+  growthAlerts?: Prisma.GrowthAlertOrderByRelationAggregateInput
   payments?: Prisma.PaymentOrderByRelationAggregateInput
   guardians?: Prisma.GuardianOrderByRelationAggregateInput
+  allergyRecords?: Prisma.PatientAllergyOrderByRelationAggregateInput
+  conditionRecords?: Prisma.PatientConditionOrderByRelationAggregateInput
 }
 
 export type PatientWhereUniqueInput = Prisma.AtLeast<{
   id?: string
   userId?: string
   email?: string
+  clinicId_medicalRecordNumber?: Prisma.PatientClinicIdMedicalRecordNumberCompoundUniqueInput
   AND?: Prisma.PatientWhereInput | Prisma.PatientWhereInput[]
   OR?: Prisma.PatientWhereInput[]
   NOT?: Prisma.PatientWhereInput | Prisma.PatientWhereInput[]
@@ -517,7 +589,12 @@ export type PatientWhereUniqueInput = Prisma.AtLeast<{
   emergencyContactNumber?: Prisma.StringNullableFilter<"Patient"> | string | null
   firstName?: Prisma.StringFilter<"Patient"> | string
   lastName?: Prisma.StringFilter<"Patient"> | string
+  medicalRecordNumber?: Prisma.StringNullableFilter<"Patient"> | string | null
   dateOfBirth?: Prisma.DateTimeFilter<"Patient"> | Date | string
+  gestationalAgeWeeks?: Prisma.IntNullableFilter<"Patient"> | number | null
+  gestationalAgeDays?: Prisma.IntNullableFilter<"Patient"> | number | null
+  fatherHeightCm?: Prisma.FloatNullableFilter<"Patient"> | number | null
+  motherHeightCm?: Prisma.FloatNullableFilter<"Patient"> | number | null
   ageMonths?: Prisma.IntNullableFilter<"Patient"> | number | null
   ageDays?: Prisma.IntNullableFilter<"Patient"> | number | null
   gender?: Prisma.EnumGenderFilter<"Patient"> | $Enums.Gender
@@ -545,6 +622,8 @@ export type PatientWhereUniqueInput = Prisma.AtLeast<{
   user?: Prisma.XOR<Prisma.UserScalarRelationFilter, Prisma.UserWhereInput>
   createdBy?: Prisma.XOR<Prisma.UserNullableScalarRelationFilter, Prisma.UserWhereInput> | null
   appointments?: Prisma.AppointmentListRelationFilter
+  appointmentSeries?: Prisma.AppointmentSeriesListRelationFilter
+  waitlistEntries?: Prisma.WaitlistEntryListRelationFilter
   medicalRecords?: Prisma.MedicalRecordsListRelationFilter
   encounters?: Prisma.DiagnosisListRelationFilter
   immunizations?: Prisma.ImmunizationListRelationFilter
@@ -555,9 +634,12 @@ export type PatientWhereUniqueInput = Prisma.AtLeast<{
   developmentalChecks?: Prisma.DevelopmentalCheckListRelationFilter
   developmentalMilestones?: Prisma.DevelopmentalMilestoneListRelationFilter
   growthRecords?: Prisma.GrowthRecordListRelationFilter
+  growthAlerts?: Prisma.GrowthAlertListRelationFilter
   payments?: Prisma.PaymentListRelationFilter
   guardians?: Prisma.GuardianListRelationFilter
-}, "id" | "userId" | "email">
+  allergyRecords?: Prisma.PatientAllergyListRelationFilter
+  conditionRecords?: Prisma.PatientConditionListRelationFilter
+}, "id" | "userId" | "email" | "clinicId_medicalRecordNumber">
 
 export type PatientOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
@@ -568,7 +650,12 @@ export type PatientOrderByWithAggregationInput = {
   emergencyContactNumber?: Prisma.SortOrderInput | Prisma.SortOrder
   firstName?: Prisma.SortOrder
   lastName?: Prisma.SortOrder
+  medicalRecordNumber?: Prisma.SortOrderInput | Prisma.SortOrder
   dateOfBirth?: Prisma.SortOrder
+  gestationalAgeWeeks?: Prisma.SortOrderInput | Prisma.SortOrder
+  gestationalAgeDays?: Prisma.SortOrderInput | Prisma.SortOrder
+  fatherHeightCm?: Prisma.SortOrderInput | Prisma.SortOrder
+  motherHeightCm?: Prisma.SortOrderInput | Prisma.SortOrder
   ageMonths?: Prisma.SortOrderInput | Prisma.SortOrder
   ageDays?: Prisma.SortOrderInput | Prisma.SortOrder
   gender?: Prisma.SortOrder
@@ -611,7 +698,12 @@ export type PatientScalarWhereWithAggregatesInput = {
   emergencyContactNumber?: Prisma.StringNullableWithAggregatesFilter<"Patient"> | string | null
   firstName?: Prisma.StringWithAggregatesFilter<"Patient"> | string
   lastName?: Prisma.StringWithAggregatesFilter<"Patient"> | string
+  medicalRecordNumber?: Prisma.StringNullableWithAggregatesFilter<"Patient"> | string | null
   dateOfBirth?: Prisma.DateTimeWithAggregatesFilter<"Patient"> | Date | string
+  gestationalAgeWeeks?: Prisma.IntNullableWithAggregatesFilter<"Patient"> | number | null
+  gestationalAgeDays?: Prisma.IntNullableWithAggregatesFilter<"Patient"> | number | null
+  fatherHeightCm?: Prisma.FloatNullableWithAggregatesFilter<"Patient"> | number | null
+  motherHeightCm?: Prisma.FloatNullableWithAggregatesFilter<"Patient"> | number | null
   ageMonths?: Prisma.IntNullableWithAggregatesFilter<"Patient"> | number | null
   ageDays?: Prisma.IntNullableWithAggregatesFilter<"Patient"> | number | null
   gender?: Prisma.EnumGenderWithAggregatesFilter<"Patient"> | $Enums.Gender
@@ -644,7 +736,12 @@ export type PatientCreateInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -671,6 +768,8 @@ export type PatientCreateInput = {
   user: Prisma.UserCreateNestedOneWithoutPatientInput
   createdBy?: Prisma.UserCreateNestedOneWithoutPatientsInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationCreateNestedManyWithoutPatientInput
@@ -681,8 +780,11 @@ export type PatientCreateInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionCreateNestedManyWithoutPatientInput
 }
 
 export type PatientUncheckedCreateInput = {
@@ -694,7 +796,12 @@ export type PatientUncheckedCreateInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -719,6 +826,8 @@ export type PatientUncheckedCreateInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationUncheckedCreateNestedManyWithoutPatientInput
@@ -729,8 +838,11 @@ export type PatientUncheckedCreateInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianUncheckedCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutPatientInput
 }
 
 export type PatientUpdateInput = {
@@ -740,7 +852,12 @@ export type PatientUpdateInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -767,6 +884,8 @@ export type PatientUpdateInput = {
   user?: Prisma.UserUpdateOneRequiredWithoutPatientNestedInput
   createdBy?: Prisma.UserUpdateOneWithoutPatientsNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUpdateManyWithoutPatientNestedInput
@@ -777,8 +896,11 @@ export type PatientUpdateInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUpdateManyWithoutPatientNestedInput
 }
 
 export type PatientUncheckedUpdateInput = {
@@ -790,7 +912,12 @@ export type PatientUncheckedUpdateInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -815,6 +942,8 @@ export type PatientUncheckedUpdateInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUncheckedUpdateManyWithoutPatientNestedInput
@@ -825,8 +954,11 @@ export type PatientUncheckedUpdateInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUncheckedUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUncheckedUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUncheckedUpdateManyWithoutPatientNestedInput
 }
 
 export type PatientCreateManyInput = {
@@ -838,7 +970,12 @@ export type PatientCreateManyInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -871,7 +1008,12 @@ export type PatientUpdateManyMutationInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -905,7 +1047,12 @@ export type PatientUncheckedUpdateManyInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -951,6 +1098,11 @@ export type PatientScalarRelationFilter = {
   isNot?: Prisma.PatientWhereInput
 }
 
+export type PatientClinicIdMedicalRecordNumberCompoundUniqueInput = {
+  clinicId: string
+  medicalRecordNumber: string
+}
+
 export type PatientCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   clinicId?: Prisma.SortOrder
@@ -960,7 +1112,12 @@ export type PatientCountOrderByAggregateInput = {
   emergencyContactNumber?: Prisma.SortOrder
   firstName?: Prisma.SortOrder
   lastName?: Prisma.SortOrder
+  medicalRecordNumber?: Prisma.SortOrder
   dateOfBirth?: Prisma.SortOrder
+  gestationalAgeWeeks?: Prisma.SortOrder
+  gestationalAgeDays?: Prisma.SortOrder
+  fatherHeightCm?: Prisma.SortOrder
+  motherHeightCm?: Prisma.SortOrder
   ageMonths?: Prisma.SortOrder
   ageDays?: Prisma.SortOrder
   gender?: Prisma.SortOrder
@@ -987,6 +1144,10 @@ export type PatientCountOrderByAggregateInput = {
 }
 
 export type PatientAvgOrderByAggregateInput = {
+  gestationalAgeWeeks?: Prisma.SortOrder
+  gestationalAgeDays?: Prisma.SortOrder
+  fatherHeightCm?: Prisma.SortOrder
+  motherHeightCm?: Prisma.SortOrder
   ageMonths?: Prisma.SortOrder
   ageDays?: Prisma.SortOrder
 }
@@ -1000,7 +1161,12 @@ export type PatientMaxOrderByAggregateInput = {
   emergencyContactNumber?: Prisma.SortOrder
   firstName?: Prisma.SortOrder
   lastName?: Prisma.SortOrder
+  medicalRecordNumber?: Prisma.SortOrder
   dateOfBirth?: Prisma.SortOrder
+  gestationalAgeWeeks?: Prisma.SortOrder
+  gestationalAgeDays?: Prisma.SortOrder
+  fatherHeightCm?: Prisma.SortOrder
+  motherHeightCm?: Prisma.SortOrder
   ageMonths?: Prisma.SortOrder
   ageDays?: Prisma.SortOrder
   gender?: Prisma.SortOrder
@@ -1035,7 +1201,12 @@ export type PatientMinOrderByAggregateInput = {
   emergencyContactNumber?: Prisma.SortOrder
   firstName?: Prisma.SortOrder
   lastName?: Prisma.SortOrder
+  medicalRecordNumber?: Prisma.SortOrder
   dateOfBirth?: Prisma.SortOrder
+  gestationalAgeWeeks?: Prisma.SortOrder
+  gestationalAgeDays?: Prisma.SortOrder
+  fatherHeightCm?: Prisma.SortOrder
+  motherHeightCm?: Prisma.SortOrder
   ageMonths?: Prisma.SortOrder
   ageDays?: Prisma.SortOrder
   gender?: Prisma.SortOrder
@@ -1062,6 +1233,10 @@ export type PatientMinOrderByAggregateInput = {
 }
 
 export type PatientSumOrderByAggregateInput = {
+  gestationalAgeWeeks?: Prisma.SortOrder
+  gestationalAgeDays?: Prisma.SortOrder
+  fatherHeightCm?: Prisma.SortOrder
+  motherHeightCm?: Prisma.SortOrder
   ageMonths?: Prisma.SortOrder
   ageDays?: Prisma.SortOrder
 }
@@ -1242,6 +1417,34 @@ export type PatientUpdateOneRequiredWithoutGuardiansNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.PatientUpdateToOneWithWhereWithoutGuardiansInput, Prisma.PatientUpdateWithoutGuardiansInput>, Prisma.PatientUncheckedUpdateWithoutGuardiansInput>
 }
 
+export type PatientCreateNestedOneWithoutAllergyRecordsInput = {
+  create?: Prisma.XOR<Prisma.PatientCreateWithoutAllergyRecordsInput, Prisma.PatientUncheckedCreateWithoutAllergyRecordsInput>
+  connectOrCreate?: Prisma.PatientCreateOrConnectWithoutAllergyRecordsInput
+  connect?: Prisma.PatientWhereUniqueInput
+}
+
+export type PatientUpdateOneRequiredWithoutAllergyRecordsNestedInput = {
+  create?: Prisma.XOR<Prisma.PatientCreateWithoutAllergyRecordsInput, Prisma.PatientUncheckedCreateWithoutAllergyRecordsInput>
+  connectOrCreate?: Prisma.PatientCreateOrConnectWithoutAllergyRecordsInput
+  upsert?: Prisma.PatientUpsertWithoutAllergyRecordsInput
+  connect?: Prisma.PatientWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PatientUpdateToOneWithWhereWithoutAllergyRecordsInput, Prisma.PatientUpdateWithoutAllergyRecordsInput>, Prisma.PatientUncheckedUpdateWithoutAllergyRecordsInput>
+}
+
+export type PatientCreateNestedOneWithoutConditionRecordsInput = {
+  create?: Prisma.XOR<Prisma.PatientCreateWithoutConditionRecordsInput, Prisma.PatientUncheckedCreateWithoutConditionRecordsInput>
+  connectOrCreate?: Prisma.PatientCreateOrConnectWithoutConditionRecordsInput
+  connect?: Prisma.PatientWhereUniqueInput
+}
+
+export type PatientUpdateOneRequiredWithoutConditionRecordsNestedInput = {
+  create?: Prisma.XOR<Prisma.PatientCreateWithoutConditionRecordsInput, Prisma.PatientUncheckedCreateWithoutConditionRecordsInput>
+  connectOrCreate?: Prisma.PatientCreateOrConnectWithoutConditionRecordsInput
+  upsert?: Prisma.PatientUpsertWithoutConditionRecordsInput
+  connect?: Prisma.PatientWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PatientUpdateToOneWithWhereWithoutConditionRecordsInput, Prisma.PatientUpdateWithoutConditionRecordsInput>, Prisma.PatientUncheckedUpdateWithoutConditionRecordsInput>
+}
+
 export type PatientCreateNestedOneWithoutAppointmentsInput = {
   create?: Prisma.XOR<Prisma.PatientCreateWithoutAppointmentsInput, Prisma.PatientUncheckedCreateWithoutAppointmentsInput>
   connectOrCreate?: Prisma.PatientCreateOrConnectWithoutAppointmentsInput
@@ -1256,6 +1459,34 @@ export type PatientUpdateOneRequiredWithoutAppointmentsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.PatientUpdateToOneWithWhereWithoutAppointmentsInput, Prisma.PatientUpdateWithoutAppointmentsInput>, Prisma.PatientUncheckedUpdateWithoutAppointmentsInput>
 }
 
+export type PatientCreateNestedOneWithoutAppointmentSeriesInput = {
+  create?: Prisma.XOR<Prisma.PatientCreateWithoutAppointmentSeriesInput, Prisma.PatientUncheckedCreateWithoutAppointmentSeriesInput>
+  connectOrCreate?: Prisma.PatientCreateOrConnectWithoutAppointmentSeriesInput
+  connect?: Prisma.PatientWhereUniqueInput
+}
+
+export type PatientUpdateOneRequiredWithoutAppointmentSeriesNestedInput = {
+  create?: Prisma.XOR<Prisma.PatientCreateWithoutAppointmentSeriesInput, Prisma.PatientUncheckedCreateWithoutAppointmentSeriesInput>
+  connectOrCreate?: Prisma.PatientCreateOrConnectWithoutAppointmentSeriesInput
+  upsert?: Prisma.PatientUpsertWithoutAppointmentSeriesInput
+  connect?: Prisma.PatientWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PatientUpdateToOneWithWhereWithoutAppointmentSeriesInput, Prisma.PatientUpdateWithoutAppointmentSeriesInput>, Prisma.PatientUncheckedUpdateWithoutAppointmentSeriesInput>
+}
+
+export type PatientCreateNestedOneWithoutWaitlistEntriesInput = {
+  create?: Prisma.XOR<Prisma.PatientCreateWithoutWaitlistEntriesInput, Prisma.PatientUncheckedCreateWithoutWaitlistEntriesInput>
+  connectOrCreate?: Prisma.PatientCreateOrConnectWithoutWaitlistEntriesInput
+  connect?: Prisma.PatientWhereUniqueInput
+}
+
+export type PatientUpdateOneRequiredWithoutWaitlistEntriesNestedInput = {
+  create?: Prisma.XOR<Prisma.PatientCreateWithoutWaitlistEntriesInput, Prisma.PatientUncheckedCreateWithoutWaitlistEntriesInput>
+  connectOrCreate?: Prisma.PatientCreateOrConnectWithoutWaitlistEntriesInput
+  upsert?: Prisma.PatientUpsertWithoutWaitlistEntriesInput
+  connect?: Prisma.PatientWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PatientUpdateToOneWithWhereWithoutWaitlistEntriesInput, Prisma.PatientUpdateWithoutWaitlistEntriesInput>, Prisma.PatientUncheckedUpdateWithoutWaitlistEntriesInput>
+}
+
 export type PatientCreateNestedOneWithoutMedicalRecordsInput = {
   create?: Prisma.XOR<Prisma.PatientCreateWithoutMedicalRecordsInput, Prisma.PatientUncheckedCreateWithoutMedicalRecordsInput>
   connectOrCreate?: Prisma.PatientCreateOrConnectWithoutMedicalRecordsInput
@@ -1314,6 +1545,20 @@ export type PatientUpdateOneRequiredWithoutGrowthRecordsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.PatientUpdateToOneWithWhereWithoutGrowthRecordsInput, Prisma.PatientUpdateWithoutGrowthRecordsInput>, Prisma.PatientUncheckedUpdateWithoutGrowthRecordsInput>
 }
 
+export type PatientCreateNestedOneWithoutGrowthAlertsInput = {
+  create?: Prisma.XOR<Prisma.PatientCreateWithoutGrowthAlertsInput, Prisma.PatientUncheckedCreateWithoutGrowthAlertsInput>
+  connectOrCreate?: Prisma.PatientCreateOrConnectWithoutGrowthAlertsInput
+  connect?: Prisma.PatientWhereUniqueInput
+}
+
+export type PatientUpdateOneRequiredWithoutGrowthAlertsNestedInput = {
+  create?: Prisma.XOR<Prisma.PatientCreateWithoutGrowthAlertsInput, Prisma.PatientUncheckedCreateWithoutGrowthAlertsInput>
+  connectOrCreate?: Prisma.PatientCreateOrConnectWithoutGrowthAlertsInput
+  upsert?: Prisma.PatientUpsertWithoutGrowthAlertsInput
+  connect?: Prisma.PatientWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PatientUpdateToOneWithWhereWithoutGrowthAlertsInput, Prisma.PatientUpdateWithoutGrowthAlertsInput>, Prisma.PatientUncheckedUpdateWithoutGrowthAlertsInput>
+}
+
 export type PatientCreateNestedOneWithoutImmunizationsInput = {
   create?: Prisma.XOR<Prisma.PatientCreateWithoutImmunizationsInput, Prisma.PatientUncheckedCreateWithoutImmunizationsInput>
   connectOrCreate?: Prisma.PatientCreateOrConnectWithoutImmunizationsInput
@@ -1377,7 +1622,12 @@ export type PatientCreateWithoutUserInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -1403,6 +1653,8 @@ export type PatientCreateWithoutUserInput = {
   clinic: Prisma.ClinicCreateNestedOneWithoutPatientsInput
   createdBy?: Prisma.UserCreateNestedOneWithoutPatientsInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationCreateNestedManyWithoutPatientInput
@@ -1413,8 +1665,11 @@ export type PatientCreateWithoutUserInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionCreateNestedManyWithoutPatientInput
 }
 
 export type PatientUncheckedCreateWithoutUserInput = {
@@ -1425,7 +1680,12 @@ export type PatientUncheckedCreateWithoutUserInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -1450,6 +1710,8 @@ export type PatientUncheckedCreateWithoutUserInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationUncheckedCreateNestedManyWithoutPatientInput
@@ -1460,8 +1722,11 @@ export type PatientUncheckedCreateWithoutUserInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianUncheckedCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutPatientInput
 }
 
 export type PatientCreateOrConnectWithoutUserInput = {
@@ -1476,7 +1741,12 @@ export type PatientCreateWithoutCreatedByInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -1502,6 +1772,8 @@ export type PatientCreateWithoutCreatedByInput = {
   clinic: Prisma.ClinicCreateNestedOneWithoutPatientsInput
   user: Prisma.UserCreateNestedOneWithoutPatientInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationCreateNestedManyWithoutPatientInput
@@ -1512,8 +1784,11 @@ export type PatientCreateWithoutCreatedByInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionCreateNestedManyWithoutPatientInput
 }
 
 export type PatientUncheckedCreateWithoutCreatedByInput = {
@@ -1525,7 +1800,12 @@ export type PatientUncheckedCreateWithoutCreatedByInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -1549,6 +1829,8 @@ export type PatientUncheckedCreateWithoutCreatedByInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationUncheckedCreateNestedManyWithoutPatientInput
@@ -1559,8 +1841,11 @@ export type PatientUncheckedCreateWithoutCreatedByInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianUncheckedCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutPatientInput
 }
 
 export type PatientCreateOrConnectWithoutCreatedByInput = {
@@ -1591,7 +1876,12 @@ export type PatientUpdateWithoutUserInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -1617,6 +1907,8 @@ export type PatientUpdateWithoutUserInput = {
   clinic?: Prisma.ClinicUpdateOneRequiredWithoutPatientsNestedInput
   createdBy?: Prisma.UserUpdateOneWithoutPatientsNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUpdateManyWithoutPatientNestedInput
@@ -1627,8 +1919,11 @@ export type PatientUpdateWithoutUserInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUpdateManyWithoutPatientNestedInput
 }
 
 export type PatientUncheckedUpdateWithoutUserInput = {
@@ -1639,7 +1934,12 @@ export type PatientUncheckedUpdateWithoutUserInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -1664,6 +1964,8 @@ export type PatientUncheckedUpdateWithoutUserInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUncheckedUpdateManyWithoutPatientNestedInput
@@ -1674,8 +1976,11 @@ export type PatientUncheckedUpdateWithoutUserInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUncheckedUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUncheckedUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUncheckedUpdateManyWithoutPatientNestedInput
 }
 
 export type PatientUpsertWithWhereUniqueWithoutCreatedByInput = {
@@ -1706,7 +2011,12 @@ export type PatientScalarWhereInput = {
   emergencyContactNumber?: Prisma.StringNullableFilter<"Patient"> | string | null
   firstName?: Prisma.StringFilter<"Patient"> | string
   lastName?: Prisma.StringFilter<"Patient"> | string
+  medicalRecordNumber?: Prisma.StringNullableFilter<"Patient"> | string | null
   dateOfBirth?: Prisma.DateTimeFilter<"Patient"> | Date | string
+  gestationalAgeWeeks?: Prisma.IntNullableFilter<"Patient"> | number | null
+  gestationalAgeDays?: Prisma.IntNullableFilter<"Patient"> | number | null
+  fatherHeightCm?: Prisma.FloatNullableFilter<"Patient"> | number | null
+  motherHeightCm?: Prisma.FloatNullableFilter<"Patient"> | number | null
   ageMonths?: Prisma.IntNullableFilter<"Patient"> | number | null
   ageDays?: Prisma.IntNullableFilter<"Patient"> | number | null
   gender?: Prisma.EnumGenderFilter<"Patient"> | $Enums.Gender
@@ -1739,7 +2049,12 @@ export type PatientCreateWithoutClinicInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -1765,6 +2080,8 @@ export type PatientCreateWithoutClinicInput = {
   user: Prisma.UserCreateNestedOneWithoutPatientInput
   createdBy?: Prisma.UserCreateNestedOneWithoutPatientsInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationCreateNestedManyWithoutPatientInput
@@ -1775,8 +2092,11 @@ export type PatientCreateWithoutClinicInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionCreateNestedManyWithoutPatientInput
 }
 
 export type PatientUncheckedCreateWithoutClinicInput = {
@@ -1787,7 +2107,12 @@ export type PatientUncheckedCreateWithoutClinicInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -1812,6 +2137,8 @@ export type PatientUncheckedCreateWithoutClinicInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationUncheckedCreateNestedManyWithoutPatientInput
@@ -1822,8 +2149,11 @@ export type PatientUncheckedCreateWithoutClinicInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianUncheckedCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutPatientInput
 }
 
 export type PatientCreateOrConnectWithoutClinicInput = {
@@ -1859,7 +2189,12 @@ export type PatientCreateWithoutPaymentsInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -1886,6 +2221,8 @@ export type PatientCreateWithoutPaymentsInput = {
   user: Prisma.UserCreateNestedOneWithoutPatientInput
   createdBy?: Prisma.UserCreateNestedOneWithoutPatientsInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationCreateNestedManyWithoutPatientInput
@@ -1896,7 +2233,10 @@ export type PatientCreateWithoutPaymentsInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionCreateNestedManyWithoutPatientInput
 }
 
 export type PatientUncheckedCreateWithoutPaymentsInput = {
@@ -1908,7 +2248,12 @@ export type PatientUncheckedCreateWithoutPaymentsInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -1933,6 +2278,8 @@ export type PatientUncheckedCreateWithoutPaymentsInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationUncheckedCreateNestedManyWithoutPatientInput
@@ -1943,7 +2290,10 @@ export type PatientUncheckedCreateWithoutPaymentsInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianUncheckedCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutPatientInput
 }
 
 export type PatientCreateOrConnectWithoutPaymentsInput = {
@@ -1969,7 +2319,12 @@ export type PatientUpdateWithoutPaymentsInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -1996,6 +2351,8 @@ export type PatientUpdateWithoutPaymentsInput = {
   user?: Prisma.UserUpdateOneRequiredWithoutPatientNestedInput
   createdBy?: Prisma.UserUpdateOneWithoutPatientsNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUpdateManyWithoutPatientNestedInput
@@ -2006,7 +2363,10 @@ export type PatientUpdateWithoutPaymentsInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUpdateManyWithoutPatientNestedInput
 }
 
 export type PatientUncheckedUpdateWithoutPaymentsInput = {
@@ -2018,7 +2378,12 @@ export type PatientUncheckedUpdateWithoutPaymentsInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -2043,6 +2408,8 @@ export type PatientUncheckedUpdateWithoutPaymentsInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUncheckedUpdateManyWithoutPatientNestedInput
@@ -2053,7 +2420,10 @@ export type PatientUncheckedUpdateWithoutPaymentsInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUncheckedUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUncheckedUpdateManyWithoutPatientNestedInput
 }
 
 export type PatientCreateWithoutRatingsInput = {
@@ -2063,7 +2433,12 @@ export type PatientCreateWithoutRatingsInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -2090,6 +2465,8 @@ export type PatientCreateWithoutRatingsInput = {
   user: Prisma.UserCreateNestedOneWithoutPatientInput
   createdBy?: Prisma.UserCreateNestedOneWithoutPatientsInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationCreateNestedManyWithoutPatientInput
@@ -2099,8 +2476,11 @@ export type PatientCreateWithoutRatingsInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionCreateNestedManyWithoutPatientInput
 }
 
 export type PatientUncheckedCreateWithoutRatingsInput = {
@@ -2112,7 +2492,12 @@ export type PatientUncheckedCreateWithoutRatingsInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -2137,6 +2522,8 @@ export type PatientUncheckedCreateWithoutRatingsInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationUncheckedCreateNestedManyWithoutPatientInput
@@ -2146,8 +2533,11 @@ export type PatientUncheckedCreateWithoutRatingsInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianUncheckedCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutPatientInput
 }
 
 export type PatientCreateOrConnectWithoutRatingsInput = {
@@ -2173,7 +2563,12 @@ export type PatientUpdateWithoutRatingsInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -2200,6 +2595,8 @@ export type PatientUpdateWithoutRatingsInput = {
   user?: Prisma.UserUpdateOneRequiredWithoutPatientNestedInput
   createdBy?: Prisma.UserUpdateOneWithoutPatientsNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUpdateManyWithoutPatientNestedInput
@@ -2209,8 +2606,11 @@ export type PatientUpdateWithoutRatingsInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUpdateManyWithoutPatientNestedInput
 }
 
 export type PatientUncheckedUpdateWithoutRatingsInput = {
@@ -2222,7 +2622,256 @@ export type PatientUncheckedUpdateWithoutRatingsInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
+  maritalStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nutritionalStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emergencyContactName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  relation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergies?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  medicalConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  medicalHistory?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  colorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.NullableEnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole | null
+  status?: Prisma.NullableEnumStatusFieldUpdateOperationsInput | $Enums.Status | null
+  isActive?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  updatedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bloodGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutPatientNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutPatientNestedInput
+  encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutPatientNestedInput
+  immunizations?: Prisma.ImmunizationUncheckedUpdateManyWithoutPatientNestedInput
+  vitalSigns?: Prisma.VitalSignsUncheckedUpdateManyWithoutPatientNestedInput
+  feedingLogs?: Prisma.FeedingLogUncheckedUpdateManyWithoutPatientNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutPatientNestedInput
+  developmentalChecks?: Prisma.DevelopmentalCheckUncheckedUpdateManyWithoutPatientNestedInput
+  developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedUpdateManyWithoutPatientNestedInput
+  growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutPatientNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutPatientNestedInput
+  guardians?: Prisma.GuardianUncheckedUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUncheckedUpdateManyWithoutPatientNestedInput
+}
+
+export type PatientCreateWithoutPrescriptionsInput = {
+  id?: string
+  email?: string | null
+  phone?: string | null
+  emergencyContactNumber?: string | null
+  firstName: string
+  lastName: string
+  medicalRecordNumber?: string | null
+  dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
+  ageMonths?: number | null
+  ageDays?: number | null
+  gender?: $Enums.Gender
+  maritalStatus?: string | null
+  nutritionalStatus?: string | null
+  address?: string | null
+  emergencyContactName?: string | null
+  relation?: string | null
+  allergies?: string | null
+  medicalConditions?: string | null
+  medicalHistory?: string | null
+  image?: string | null
+  colorCode?: string | null
+  role?: $Enums.UserRole | null
+  status?: $Enums.Status | null
+  isActive?: boolean | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  updatedById?: string | null
+  bloodGroup?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  clinic: Prisma.ClinicCreateNestedOneWithoutPatientsInput
+  user: Prisma.UserCreateNestedOneWithoutPatientInput
+  createdBy?: Prisma.UserCreateNestedOneWithoutPatientsInput
+  appointments?: Prisma.AppointmentCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutPatientInput
+  medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutPatientInput
+  encounters?: Prisma.DiagnosisCreateNestedManyWithoutPatientInput
+  immunizations?: Prisma.ImmunizationCreateNestedManyWithoutPatientInput
+  vitalSigns?: Prisma.VitalSignsCreateNestedManyWithoutPatientInput
+  feedingLogs?: Prisma.FeedingLogCreateNestedManyWithoutPatientInput
+  ratings?: Prisma.RatingCreateNestedManyWithoutPatientInput
+  developmentalChecks?: Prisma.DevelopmentalCheckCreateNestedManyWithoutPatientInput
+  developmentalMilestones?: Prisma.DevelopmentalMilestoneCreateNestedManyWithoutPatientInput
+  growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutPatientInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutPatientInput
+  guardians?: Prisma.GuardianCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionCreateNestedManyWithoutPatientInput
+}
+
+export type PatientUncheckedCreateWithoutPrescriptionsInput = {
+  id?: string
+  clinicId: string
+  userId: string
+  email?: string | null
+  phone?: string | null
+  emergencyContactNumber?: string | null
+  firstName: string
+  lastName: string
+  medicalRecordNumber?: string | null
+  dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
+  ageMonths?: number | null
+  ageDays?: number | null
+  gender?: $Enums.Gender
+  maritalStatus?: string | null
+  nutritionalStatus?: string | null
+  address?: string | null
+  emergencyContactName?: string | null
+  relation?: string | null
+  allergies?: string | null
+  medicalConditions?: string | null
+  medicalHistory?: string | null
+  image?: string | null
+  colorCode?: string | null
+  role?: $Enums.UserRole | null
+  status?: $Enums.Status | null
+  isActive?: boolean | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  createdById?: string | null
+  updatedById?: string | null
+  bloodGroup?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutPatientInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutPatientInput
+  encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutPatientInput
+  immunizations?: Prisma.ImmunizationUncheckedCreateNestedManyWithoutPatientInput
+  vitalSigns?: Prisma.VitalSignsUncheckedCreateNestedManyWithoutPatientInput
+  feedingLogs?: Prisma.FeedingLogUncheckedCreateNestedManyWithoutPatientInput
+  ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutPatientInput
+  developmentalChecks?: Prisma.DevelopmentalCheckUncheckedCreateNestedManyWithoutPatientInput
+  developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedCreateNestedManyWithoutPatientInput
+  growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutPatientInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutPatientInput
+  guardians?: Prisma.GuardianUncheckedCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutPatientInput
+}
+
+export type PatientCreateOrConnectWithoutPrescriptionsInput = {
+  where: Prisma.PatientWhereUniqueInput
+  create: Prisma.XOR<Prisma.PatientCreateWithoutPrescriptionsInput, Prisma.PatientUncheckedCreateWithoutPrescriptionsInput>
+}
+
+export type PatientUpsertWithoutPrescriptionsInput = {
+  update: Prisma.XOR<Prisma.PatientUpdateWithoutPrescriptionsInput, Prisma.PatientUncheckedUpdateWithoutPrescriptionsInput>
+  create: Prisma.XOR<Prisma.PatientCreateWithoutPrescriptionsInput, Prisma.PatientUncheckedCreateWithoutPrescriptionsInput>
+  where?: Prisma.PatientWhereInput
+}
+
+export type PatientUpdateToOneWithWhereWithoutPrescriptionsInput = {
+  where?: Prisma.PatientWhereInput
+  data: Prisma.XOR<Prisma.PatientUpdateWithoutPrescriptionsInput, Prisma.PatientUncheckedUpdateWithoutPrescriptionsInput>
+}
+
+export type PatientUpdateWithoutPrescriptionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
+  maritalStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nutritionalStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emergencyContactName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  relation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergies?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  medicalConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  medicalHistory?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  colorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.NullableEnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole | null
+  status?: Prisma.NullableEnumStatusFieldUpdateOperationsInput | $Enums.Status | null
+  isActive?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  updatedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bloodGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutPatientsNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutPatientNestedInput
+  createdBy?: Prisma.UserUpdateOneWithoutPatientsNestedInput
+  appointments?: Prisma.AppointmentUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutPatientNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutPatientNestedInput
+  encounters?: Prisma.DiagnosisUpdateManyWithoutPatientNestedInput
+  immunizations?: Prisma.ImmunizationUpdateManyWithoutPatientNestedInput
+  vitalSigns?: Prisma.VitalSignsUpdateManyWithoutPatientNestedInput
+  feedingLogs?: Prisma.FeedingLogUpdateManyWithoutPatientNestedInput
+  ratings?: Prisma.RatingUpdateManyWithoutPatientNestedInput
+  developmentalChecks?: Prisma.DevelopmentalCheckUpdateManyWithoutPatientNestedInput
+  developmentalMilestones?: Prisma.DevelopmentalMilestoneUpdateManyWithoutPatientNestedInput
+  growthRecords?: Prisma.GrowthRecordUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutPatientNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutPatientNestedInput
+  guardians?: Prisma.GuardianUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUpdateManyWithoutPatientNestedInput
+}
+
+export type PatientUncheckedUpdateWithoutPrescriptionsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -2247,27 +2896,1013 @@ export type PatientUncheckedUpdateWithoutRatingsInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutPatientNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutPatientNestedInput
+  encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutPatientNestedInput
+  immunizations?: Prisma.ImmunizationUncheckedUpdateManyWithoutPatientNestedInput
+  vitalSigns?: Prisma.VitalSignsUncheckedUpdateManyWithoutPatientNestedInput
+  feedingLogs?: Prisma.FeedingLogUncheckedUpdateManyWithoutPatientNestedInput
+  ratings?: Prisma.RatingUncheckedUpdateManyWithoutPatientNestedInput
+  developmentalChecks?: Prisma.DevelopmentalCheckUncheckedUpdateManyWithoutPatientNestedInput
+  developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedUpdateManyWithoutPatientNestedInput
+  growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutPatientNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutPatientNestedInput
+  guardians?: Prisma.GuardianUncheckedUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUncheckedUpdateManyWithoutPatientNestedInput
+}
+
+export type PatientCreateWithoutGuardiansInput = {
+  id?: string
+  email?: string | null
+  phone?: string | null
+  emergencyContactNumber?: string | null
+  firstName: string
+  lastName: string
+  medicalRecordNumber?: string | null
+  dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
+  ageMonths?: number | null
+  ageDays?: number | null
+  gender?: $Enums.Gender
+  maritalStatus?: string | null
+  nutritionalStatus?: string | null
+  address?: string | null
+  emergencyContactName?: string | null
+  relation?: string | null
+  allergies?: string | null
+  medicalConditions?: string | null
+  medicalHistory?: string | null
+  image?: string | null
+  colorCode?: string | null
+  role?: $Enums.UserRole | null
+  status?: $Enums.Status | null
+  isActive?: boolean | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  updatedById?: string | null
+  bloodGroup?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  clinic: Prisma.ClinicCreateNestedOneWithoutPatientsInput
+  user: Prisma.UserCreateNestedOneWithoutPatientInput
+  createdBy?: Prisma.UserCreateNestedOneWithoutPatientsInput
+  appointments?: Prisma.AppointmentCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutPatientInput
+  medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutPatientInput
+  encounters?: Prisma.DiagnosisCreateNestedManyWithoutPatientInput
+  immunizations?: Prisma.ImmunizationCreateNestedManyWithoutPatientInput
+  vitalSigns?: Prisma.VitalSignsCreateNestedManyWithoutPatientInput
+  feedingLogs?: Prisma.FeedingLogCreateNestedManyWithoutPatientInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutPatientInput
+  ratings?: Prisma.RatingCreateNestedManyWithoutPatientInput
+  developmentalChecks?: Prisma.DevelopmentalCheckCreateNestedManyWithoutPatientInput
+  developmentalMilestones?: Prisma.DevelopmentalMilestoneCreateNestedManyWithoutPatientInput
+  growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutPatientInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionCreateNestedManyWithoutPatientInput
+}
+
+export type PatientUncheckedCreateWithoutGuardiansInput = {
+  id?: string
+  clinicId: string
+  userId: string
+  email?: string | null
+  phone?: string | null
+  emergencyContactNumber?: string | null
+  firstName: string
+  lastName: string
+  medicalRecordNumber?: string | null
+  dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
+  ageMonths?: number | null
+  ageDays?: number | null
+  gender?: $Enums.Gender
+  maritalStatus?: string | null
+  nutritionalStatus?: string | null
+  address?: string | null
+  emergencyContactName?: string | null
+  relation?: string | null
+  allergies?: string | null
+  medicalConditions?: string | null
+  medicalHistory?: string | null
+  image?: string | null
+  colorCode?: string | null
+  role?: $Enums.UserRole | null
+  status?: $Enums.Status | null
+  isActive?: boolean | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  createdById?: string | null
+  updatedById?: string | null
+  bloodGroup?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutPatientInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutPatientInput
+  encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutPatientInput
+  immunizations?: Prisma.ImmunizationUncheckedCreateNestedManyWithoutPatientInput
+  vitalSigns?: Prisma.VitalSignsUncheckedCreateNestedManyWithoutPatientInput
+  feedingLogs?: Prisma.FeedingLogUncheckedCreateNestedManyWithoutPatientInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutPatientInput
+  ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutPatientInput
+  developmentalChecks?: Prisma.DevelopmentalCheckUncheckedCreateNestedManyWithoutPatientInput
+  developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedCreateNestedManyWithoutPatientInput
+  growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutPatientInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutPatientInput
+}
+
+export type PatientCreateOrConnectWithoutGuardiansInput = {
+  where: Prisma.PatientWhereUniqueInput
+  create: Prisma.XOR<Prisma.PatientCreateWithoutGuardiansInput, Prisma.PatientUncheckedCreateWithoutGuardiansInput>
+}
+
+export type PatientUpsertWithoutGuardiansInput = {
+  update: Prisma.XOR<Prisma.PatientUpdateWithoutGuardiansInput, Prisma.PatientUncheckedUpdateWithoutGuardiansInput>
+  create: Prisma.XOR<Prisma.PatientCreateWithoutGuardiansInput, Prisma.PatientUncheckedCreateWithoutGuardiansInput>
+  where?: Prisma.PatientWhereInput
+}
+
+export type PatientUpdateToOneWithWhereWithoutGuardiansInput = {
+  where?: Prisma.PatientWhereInput
+  data: Prisma.XOR<Prisma.PatientUpdateWithoutGuardiansInput, Prisma.PatientUncheckedUpdateWithoutGuardiansInput>
+}
+
+export type PatientUpdateWithoutGuardiansInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
+  maritalStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nutritionalStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emergencyContactName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  relation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergies?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  medicalConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  medicalHistory?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  colorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.NullableEnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole | null
+  status?: Prisma.NullableEnumStatusFieldUpdateOperationsInput | $Enums.Status | null
+  isActive?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  updatedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bloodGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutPatientsNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutPatientNestedInput
+  createdBy?: Prisma.UserUpdateOneWithoutPatientsNestedInput
+  appointments?: Prisma.AppointmentUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutPatientNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutPatientNestedInput
+  encounters?: Prisma.DiagnosisUpdateManyWithoutPatientNestedInput
+  immunizations?: Prisma.ImmunizationUpdateManyWithoutPatientNestedInput
+  vitalSigns?: Prisma.VitalSignsUpdateManyWithoutPatientNestedInput
+  feedingLogs?: Prisma.FeedingLogUpdateManyWithoutPatientNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutPatientNestedInput
+  ratings?: Prisma.RatingUpdateManyWithoutPatientNestedInput
+  developmentalChecks?: Prisma.DevelopmentalCheckUpdateManyWithoutPatientNestedInput
+  developmentalMilestones?: Prisma.DevelopmentalMilestoneUpdateManyWithoutPatientNestedInput
+  growthRecords?: Prisma.GrowthRecordUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutPatientNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUpdateManyWithoutPatientNestedInput
+}
+
+export type PatientUncheckedUpdateWithoutGuardiansInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
+  maritalStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nutritionalStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emergencyContactName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  relation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergies?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  medicalConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  medicalHistory?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  colorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.NullableEnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole | null
+  status?: Prisma.NullableEnumStatusFieldUpdateOperationsInput | $Enums.Status | null
+  isActive?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  updatedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bloodGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutPatientNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutPatientNestedInput
+  encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutPatientNestedInput
+  immunizations?: Prisma.ImmunizationUncheckedUpdateManyWithoutPatientNestedInput
+  vitalSigns?: Prisma.VitalSignsUncheckedUpdateManyWithoutPatientNestedInput
+  feedingLogs?: Prisma.FeedingLogUncheckedUpdateManyWithoutPatientNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutPatientNestedInput
+  ratings?: Prisma.RatingUncheckedUpdateManyWithoutPatientNestedInput
+  developmentalChecks?: Prisma.DevelopmentalCheckUncheckedUpdateManyWithoutPatientNestedInput
+  developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedUpdateManyWithoutPatientNestedInput
+  growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutPatientNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUncheckedUpdateManyWithoutPatientNestedInput
+}
+
+export type PatientCreateWithoutAllergyRecordsInput = {
+  id?: string
+  email?: string | null
+  phone?: string | null
+  emergencyContactNumber?: string | null
+  firstName: string
+  lastName: string
+  medicalRecordNumber?: string | null
+  dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
+  ageMonths?: number | null
+  ageDays?: number | null
+  gender?: $Enums.Gender
+  maritalStatus?: string | null
+  nutritionalStatus?: string | null
+  address?: string | null
+  emergencyContactName?: string | null
+  relation?: string | null
+  allergies?: string | null
+  medicalConditions?: string | null
+  medicalHistory?: string | null
+  image?: string | null
+  colorCode?: string | null
+  role?: $Enums.UserRole | null
+  status?: $Enums.Status | null
+  isActive?: boolean | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  updatedById?: string | null
+  bloodGroup?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  clinic: Prisma.ClinicCreateNestedOneWithoutPatientsInput
+  user: Prisma.UserCreateNestedOneWithoutPatientInput
+  createdBy?: Prisma.UserCreateNestedOneWithoutPatientsInput
+  appointments?: Prisma.AppointmentCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutPatientInput
+  medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutPatientInput
+  encounters?: Prisma.DiagnosisCreateNestedManyWithoutPatientInput
+  immunizations?: Prisma.ImmunizationCreateNestedManyWithoutPatientInput
+  vitalSigns?: Prisma.VitalSignsCreateNestedManyWithoutPatientInput
+  feedingLogs?: Prisma.FeedingLogCreateNestedManyWithoutPatientInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutPatientInput
+  ratings?: Prisma.RatingCreateNestedManyWithoutPatientInput
+  developmentalChecks?: Prisma.DevelopmentalCheckCreateNestedManyWithoutPatientInput
+  developmentalMilestones?: Prisma.DevelopmentalMilestoneCreateNestedManyWithoutPatientInput
+  growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutPatientInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutPatientInput
+  guardians?: Prisma.GuardianCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionCreateNestedManyWithoutPatientInput
+}
+
+export type PatientUncheckedCreateWithoutAllergyRecordsInput = {
+  id?: string
+  clinicId: string
+  userId: string
+  email?: string | null
+  phone?: string | null
+  emergencyContactNumber?: string | null
+  firstName: string
+  lastName: string
+  medicalRecordNumber?: string | null
+  dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
+  ageMonths?: number | null
+  ageDays?: number | null
+  gender?: $Enums.Gender
+  maritalStatus?: string | null
+  nutritionalStatus?: string | null
+  address?: string | null
+  emergencyContactName?: string | null
+  relation?: string | null
+  allergies?: string | null
+  medicalConditions?: string | null
+  medicalHistory?: string | null
+  image?: string | null
+  colorCode?: string | null
+  role?: $Enums.UserRole | null
+  status?: $Enums.Status | null
+  isActive?: boolean | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  createdById?: string | null
+  updatedById?: string | null
+  bloodGroup?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutPatientInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutPatientInput
+  encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutPatientInput
+  immunizations?: Prisma.ImmunizationUncheckedCreateNestedManyWithoutPatientInput
+  vitalSigns?: Prisma.VitalSignsUncheckedCreateNestedManyWithoutPatientInput
+  feedingLogs?: Prisma.FeedingLogUncheckedCreateNestedManyWithoutPatientInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutPatientInput
+  ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutPatientInput
+  developmentalChecks?: Prisma.DevelopmentalCheckUncheckedCreateNestedManyWithoutPatientInput
+  developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedCreateNestedManyWithoutPatientInput
+  growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutPatientInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutPatientInput
+  guardians?: Prisma.GuardianUncheckedCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutPatientInput
+}
+
+export type PatientCreateOrConnectWithoutAllergyRecordsInput = {
+  where: Prisma.PatientWhereUniqueInput
+  create: Prisma.XOR<Prisma.PatientCreateWithoutAllergyRecordsInput, Prisma.PatientUncheckedCreateWithoutAllergyRecordsInput>
+}
+
+export type PatientUpsertWithoutAllergyRecordsInput = {
+  update: Prisma.XOR<Prisma.PatientUpdateWithoutAllergyRecordsInput, Prisma.PatientUncheckedUpdateWithoutAllergyRecordsInput>
+  create: Prisma.XOR<Prisma.PatientCreateWithoutAllergyRecordsInput, Prisma.PatientUncheckedCreateWithoutAllergyRecordsInput>
+  where?: Prisma.PatientWhereInput
+}
+
+export type PatientUpdateToOneWithWhereWithoutAllergyRecordsInput = {
+  where?: Prisma.PatientWhereInput
+  data: Prisma.XOR<Prisma.PatientUpdateWithoutAllergyRecordsInput, Prisma.PatientUncheckedUpdateWithoutAllergyRecordsInput>
+}
+
+export type PatientUpdateWithoutAllergyRecordsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
+  maritalStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nutritionalStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emergencyContactName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  relation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergies?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  medicalConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  medicalHistory?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  colorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.NullableEnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole | null
+  status?: Prisma.NullableEnumStatusFieldUpdateOperationsInput | $Enums.Status | null
+  isActive?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  updatedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bloodGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutPatientsNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutPatientNestedInput
+  createdBy?: Prisma.UserUpdateOneWithoutPatientsNestedInput
+  appointments?: Prisma.AppointmentUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutPatientNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutPatientNestedInput
+  encounters?: Prisma.DiagnosisUpdateManyWithoutPatientNestedInput
+  immunizations?: Prisma.ImmunizationUpdateManyWithoutPatientNestedInput
+  vitalSigns?: Prisma.VitalSignsUpdateManyWithoutPatientNestedInput
+  feedingLogs?: Prisma.FeedingLogUpdateManyWithoutPatientNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutPatientNestedInput
+  ratings?: Prisma.RatingUpdateManyWithoutPatientNestedInput
+  developmentalChecks?: Prisma.DevelopmentalCheckUpdateManyWithoutPatientNestedInput
+  developmentalMilestones?: Prisma.DevelopmentalMilestoneUpdateManyWithoutPatientNestedInput
+  growthRecords?: Prisma.GrowthRecordUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutPatientNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutPatientNestedInput
+  guardians?: Prisma.GuardianUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUpdateManyWithoutPatientNestedInput
+}
+
+export type PatientUncheckedUpdateWithoutAllergyRecordsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
+  maritalStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nutritionalStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emergencyContactName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  relation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergies?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  medicalConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  medicalHistory?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  colorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.NullableEnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole | null
+  status?: Prisma.NullableEnumStatusFieldUpdateOperationsInput | $Enums.Status | null
+  isActive?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  updatedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bloodGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutPatientNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutPatientNestedInput
+  encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutPatientNestedInput
+  immunizations?: Prisma.ImmunizationUncheckedUpdateManyWithoutPatientNestedInput
+  vitalSigns?: Prisma.VitalSignsUncheckedUpdateManyWithoutPatientNestedInput
+  feedingLogs?: Prisma.FeedingLogUncheckedUpdateManyWithoutPatientNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutPatientNestedInput
+  ratings?: Prisma.RatingUncheckedUpdateManyWithoutPatientNestedInput
+  developmentalChecks?: Prisma.DevelopmentalCheckUncheckedUpdateManyWithoutPatientNestedInput
+  developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedUpdateManyWithoutPatientNestedInput
+  growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutPatientNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutPatientNestedInput
+  guardians?: Prisma.GuardianUncheckedUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUncheckedUpdateManyWithoutPatientNestedInput
+}
+
+export type PatientCreateWithoutConditionRecordsInput = {
+  id?: string
+  email?: string | null
+  phone?: string | null
+  emergencyContactNumber?: string | null
+  firstName: string
+  lastName: string
+  medicalRecordNumber?: string | null
+  dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
+  ageMonths?: number | null
+  ageDays?: number | null
+  gender?: $Enums.Gender
+  maritalStatus?: string | null
+  nutritionalStatus?: string | null
+  address?: string | null
+  emergencyContactName?: string | null
+  relation?: string | null
+  allergies?: string | null
+  medicalConditions?: string | null
+  medicalHistory?: string | null
+  image?: string | null
+  colorCode?: string | null
+  role?: $Enums.UserRole | null
+  status?: $Enums.Status | null
+  isActive?: boolean | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  updatedById?: string | null
+  bloodGroup?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  clinic: Prisma.ClinicCreateNestedOneWithoutPatientsInput
+  user: Prisma.UserCreateNestedOneWithoutPatientInput
+  createdBy?: Prisma.UserCreateNestedOneWithoutPatientsInput
+  appointments?: Prisma.AppointmentCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutPatientInput
+  medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutPatientInput
+  encounters?: Prisma.DiagnosisCreateNestedManyWithoutPatientInput
+  immunizations?: Prisma.ImmunizationCreateNestedManyWithoutPatientInput
+  vitalSigns?: Prisma.VitalSignsCreateNestedManyWithoutPatientInput
+  feedingLogs?: Prisma.FeedingLogCreateNestedManyWithoutPatientInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutPatientInput
+  ratings?: Prisma.RatingCreateNestedManyWithoutPatientInput
+  developmentalChecks?: Prisma.DevelopmentalCheckCreateNestedManyWithoutPatientInput
+  developmentalMilestones?: Prisma.DevelopmentalMilestoneCreateNestedManyWithoutPatientInput
+  growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutPatientInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutPatientInput
+  guardians?: Prisma.GuardianCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyCreateNestedManyWithoutPatientInput
+}
+
+export type PatientUncheckedCreateWithoutConditionRecordsInput = {
+  id?: string
+  clinicId: string
+  userId: string
+  email?: string | null
+  phone?: string | null
+  emergencyContactNumber?: string | null
+  firstName: string
+  lastName: string
+  medicalRecordNumber?: string | null
+  dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
+  ageMonths?: number | null
+  ageDays?: number | null
+  gender?: $Enums.Gender
+  maritalStatus?: string | null
+  nutritionalStatus?: string | null
+  address?: string | null
+  emergencyContactName?: string | null
+  relation?: string | null
+  allergies?: string | null
+  medicalConditions?: string | null
+  medicalHistory?: string | null
+  image?: string | null
+  colorCode?: string | null
+  role?: $Enums.UserRole | null
+  status?: $Enums.Status | null
+  isActive?: boolean | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  createdById?: string | null
+  updatedById?: string | null
+  bloodGroup?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutPatientInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutPatientInput
+  encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutPatientInput
+  immunizations?: Prisma.ImmunizationUncheckedCreateNestedManyWithoutPatientInput
+  vitalSigns?: Prisma.VitalSignsUncheckedCreateNestedManyWithoutPatientInput
+  feedingLogs?: Prisma.FeedingLogUncheckedCreateNestedManyWithoutPatientInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutPatientInput
+  ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutPatientInput
+  developmentalChecks?: Prisma.DevelopmentalCheckUncheckedCreateNestedManyWithoutPatientInput
+  developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedCreateNestedManyWithoutPatientInput
+  growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutPatientInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutPatientInput
+  guardians?: Prisma.GuardianUncheckedCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutPatientInput
+}
+
+export type PatientCreateOrConnectWithoutConditionRecordsInput = {
+  where: Prisma.PatientWhereUniqueInput
+  create: Prisma.XOR<Prisma.PatientCreateWithoutConditionRecordsInput, Prisma.PatientUncheckedCreateWithoutConditionRecordsInput>
+}
+
+export type PatientUpsertWithoutConditionRecordsInput = {
+  update: Prisma.XOR<Prisma.PatientUpdateWithoutConditionRecordsInput, Prisma.PatientUncheckedUpdateWithoutConditionRecordsInput>
+  create: Prisma.XOR<Prisma.PatientCreateWithoutConditionRecordsInput, Prisma.PatientUncheckedCreateWithoutConditionRecordsInput>
+  where?: Prisma.PatientWhereInput
+}
+
+export type PatientUpdateToOneWithWhereWithoutConditionRecordsInput = {
+  where?: Prisma.PatientWhereInput
+  data: Prisma.XOR<Prisma.PatientUpdateWithoutConditionRecordsInput, Prisma.PatientUncheckedUpdateWithoutConditionRecordsInput>
+}
+
+export type PatientUpdateWithoutConditionRecordsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
+  maritalStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nutritionalStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emergencyContactName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  relation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergies?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  medicalConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  medicalHistory?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  colorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.NullableEnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole | null
+  status?: Prisma.NullableEnumStatusFieldUpdateOperationsInput | $Enums.Status | null
+  isActive?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  updatedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bloodGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutPatientsNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutPatientNestedInput
+  createdBy?: Prisma.UserUpdateOneWithoutPatientsNestedInput
+  appointments?: Prisma.AppointmentUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutPatientNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutPatientNestedInput
+  encounters?: Prisma.DiagnosisUpdateManyWithoutPatientNestedInput
+  immunizations?: Prisma.ImmunizationUpdateManyWithoutPatientNestedInput
+  vitalSigns?: Prisma.VitalSignsUpdateManyWithoutPatientNestedInput
+  feedingLogs?: Prisma.FeedingLogUpdateManyWithoutPatientNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutPatientNestedInput
+  ratings?: Prisma.RatingUpdateManyWithoutPatientNestedInput
+  developmentalChecks?: Prisma.DevelopmentalCheckUpdateManyWithoutPatientNestedInput
+  developmentalMilestones?: Prisma.DevelopmentalMilestoneUpdateManyWithoutPatientNestedInput
+  growthRecords?: Prisma.GrowthRecordUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutPatientNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutPatientNestedInput
+  guardians?: Prisma.GuardianUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUpdateManyWithoutPatientNestedInput
+}
+
+export type PatientUncheckedUpdateWithoutConditionRecordsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
+  maritalStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nutritionalStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emergencyContactName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  relation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergies?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  medicalConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  medicalHistory?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  colorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.NullableEnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole | null
+  status?: Prisma.NullableEnumStatusFieldUpdateOperationsInput | $Enums.Status | null
+  isActive?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  updatedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bloodGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutPatientNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutPatientNestedInput
+  encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutPatientNestedInput
+  immunizations?: Prisma.ImmunizationUncheckedUpdateManyWithoutPatientNestedInput
+  vitalSigns?: Prisma.VitalSignsUncheckedUpdateManyWithoutPatientNestedInput
+  feedingLogs?: Prisma.FeedingLogUncheckedUpdateManyWithoutPatientNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutPatientNestedInput
+  ratings?: Prisma.RatingUncheckedUpdateManyWithoutPatientNestedInput
+  developmentalChecks?: Prisma.DevelopmentalCheckUncheckedUpdateManyWithoutPatientNestedInput
+  developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedUpdateManyWithoutPatientNestedInput
+  growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutPatientNestedInput
+  payments?: Prisma.PaymentUncheckedUpdateManyWithoutPatientNestedInput
+  guardians?: Prisma.GuardianUncheckedUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedUpdateManyWithoutPatientNestedInput
+}
+
+export type PatientCreateWithoutAppointmentsInput = {
+  id?: string
+  email?: string | null
+  phone?: string | null
+  emergencyContactNumber?: string | null
+  firstName: string
+  lastName: string
+  medicalRecordNumber?: string | null
+  dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
+  ageMonths?: number | null
+  ageDays?: number | null
+  gender?: $Enums.Gender
+  maritalStatus?: string | null
+  nutritionalStatus?: string | null
+  address?: string | null
+  emergencyContactName?: string | null
+  relation?: string | null
+  allergies?: string | null
+  medicalConditions?: string | null
+  medicalHistory?: string | null
+  image?: string | null
+  colorCode?: string | null
+  role?: $Enums.UserRole | null
+  status?: $Enums.Status | null
+  isActive?: boolean | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  updatedById?: string | null
+  bloodGroup?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  clinic: Prisma.ClinicCreateNestedOneWithoutPatientsInput
+  user: Prisma.UserCreateNestedOneWithoutPatientInput
+  createdBy?: Prisma.UserCreateNestedOneWithoutPatientsInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutPatientInput
+  medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutPatientInput
+  encounters?: Prisma.DiagnosisCreateNestedManyWithoutPatientInput
+  immunizations?: Prisma.ImmunizationCreateNestedManyWithoutPatientInput
+  vitalSigns?: Prisma.VitalSignsCreateNestedManyWithoutPatientInput
+  feedingLogs?: Prisma.FeedingLogCreateNestedManyWithoutPatientInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutPatientInput
+  ratings?: Prisma.RatingCreateNestedManyWithoutPatientInput
+  developmentalChecks?: Prisma.DevelopmentalCheckCreateNestedManyWithoutPatientInput
+  developmentalMilestones?: Prisma.DevelopmentalMilestoneCreateNestedManyWithoutPatientInput
+  growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutPatientInput
+  payments?: Prisma.PaymentCreateNestedManyWithoutPatientInput
+  guardians?: Prisma.GuardianCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionCreateNestedManyWithoutPatientInput
+}
+
+export type PatientUncheckedCreateWithoutAppointmentsInput = {
+  id?: string
+  clinicId: string
+  userId: string
+  email?: string | null
+  phone?: string | null
+  emergencyContactNumber?: string | null
+  firstName: string
+  lastName: string
+  medicalRecordNumber?: string | null
+  dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
+  ageMonths?: number | null
+  ageDays?: number | null
+  gender?: $Enums.Gender
+  maritalStatus?: string | null
+  nutritionalStatus?: string | null
+  address?: string | null
+  emergencyContactName?: string | null
+  relation?: string | null
+  allergies?: string | null
+  medicalConditions?: string | null
+  medicalHistory?: string | null
+  image?: string | null
+  colorCode?: string | null
+  role?: $Enums.UserRole | null
+  status?: $Enums.Status | null
+  isActive?: boolean | null
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  createdById?: string | null
+  updatedById?: string | null
+  bloodGroup?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutPatientInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutPatientInput
+  encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutPatientInput
+  immunizations?: Prisma.ImmunizationUncheckedCreateNestedManyWithoutPatientInput
+  vitalSigns?: Prisma.VitalSignsUncheckedCreateNestedManyWithoutPatientInput
+  feedingLogs?: Prisma.FeedingLogUncheckedCreateNestedManyWithoutPatientInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutPatientInput
+  ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutPatientInput
+  developmentalChecks?: Prisma.DevelopmentalCheckUncheckedCreateNestedManyWithoutPatientInput
+  developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedCreateNestedManyWithoutPatientInput
+  growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutPatientInput
+  payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutPatientInput
+  guardians?: Prisma.GuardianUncheckedCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutPatientInput
+}
+
+export type PatientCreateOrConnectWithoutAppointmentsInput = {
+  where: Prisma.PatientWhereUniqueInput
+  create: Prisma.XOR<Prisma.PatientCreateWithoutAppointmentsInput, Prisma.PatientUncheckedCreateWithoutAppointmentsInput>
+}
+
+export type PatientUpsertWithoutAppointmentsInput = {
+  update: Prisma.XOR<Prisma.PatientUpdateWithoutAppointmentsInput, Prisma.PatientUncheckedUpdateWithoutAppointmentsInput>
+  create: Prisma.XOR<Prisma.PatientCreateWithoutAppointmentsInput, Prisma.PatientUncheckedCreateWithoutAppointmentsInput>
+  where?: Prisma.PatientWhereInput
+}
+
+export type PatientUpdateToOneWithWhereWithoutAppointmentsInput = {
+  where?: Prisma.PatientWhereInput
+  data: Prisma.XOR<Prisma.PatientUpdateWithoutAppointmentsInput, Prisma.PatientUncheckedUpdateWithoutAppointmentsInput>
+}
+
+export type PatientUpdateWithoutAppointmentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
+  maritalStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nutritionalStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emergencyContactName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  relation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergies?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  medicalConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  medicalHistory?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  colorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.NullableEnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole | null
+  status?: Prisma.NullableEnumStatusFieldUpdateOperationsInput | $Enums.Status | null
+  isActive?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  updatedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bloodGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutPatientsNestedInput
+  user?: Prisma.UserUpdateOneRequiredWithoutPatientNestedInput
+  createdBy?: Prisma.UserUpdateOneWithoutPatientsNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutPatientNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutPatientNestedInput
+  encounters?: Prisma.DiagnosisUpdateManyWithoutPatientNestedInput
+  immunizations?: Prisma.ImmunizationUpdateManyWithoutPatientNestedInput
+  vitalSigns?: Prisma.VitalSignsUpdateManyWithoutPatientNestedInput
+  feedingLogs?: Prisma.FeedingLogUpdateManyWithoutPatientNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutPatientNestedInput
+  ratings?: Prisma.RatingUpdateManyWithoutPatientNestedInput
+  developmentalChecks?: Prisma.DevelopmentalCheckUpdateManyWithoutPatientNestedInput
+  developmentalMilestones?: Prisma.DevelopmentalMilestoneUpdateManyWithoutPatientNestedInput
+  growthRecords?: Prisma.GrowthRecordUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutPatientNestedInput
+  payments?: Prisma.PaymentUpdateManyWithoutPatientNestedInput
+  guardians?: Prisma.GuardianUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUpdateManyWithoutPatientNestedInput
+}
+
+export type PatientUncheckedUpdateWithoutAppointmentsInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  userId?: Prisma.StringFieldUpdateOperationsInput | string
+  email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  firstName?: Prisma.StringFieldUpdateOperationsInput | string
+  lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
+  maritalStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  nutritionalStatus?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  address?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  emergencyContactName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  relation?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  allergies?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  medicalConditions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  medicalHistory?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  image?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  colorCode?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  role?: Prisma.NullableEnumUserRoleFieldUpdateOperationsInput | $Enums.UserRole | null
+  status?: Prisma.NullableEnumStatusFieldUpdateOperationsInput | $Enums.Status | null
+  isActive?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  updatedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  bloodGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUncheckedUpdateManyWithoutPatientNestedInput
   vitalSigns?: Prisma.VitalSignsUncheckedUpdateManyWithoutPatientNestedInput
   feedingLogs?: Prisma.FeedingLogUncheckedUpdateManyWithoutPatientNestedInput
   prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutPatientNestedInput
+  ratings?: Prisma.RatingUncheckedUpdateManyWithoutPatientNestedInput
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUncheckedUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUncheckedUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUncheckedUpdateManyWithoutPatientNestedInput
 }
 
-export type PatientCreateWithoutPrescriptionsInput = {
+export type PatientCreateWithoutAppointmentSeriesInput = {
   id?: string
   email?: string | null
   phone?: string | null
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -2294,20 +3929,25 @@ export type PatientCreateWithoutPrescriptionsInput = {
   user: Prisma.UserCreateNestedOneWithoutPatientInput
   createdBy?: Prisma.UserCreateNestedOneWithoutPatientsInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationCreateNestedManyWithoutPatientInput
   vitalSigns?: Prisma.VitalSignsCreateNestedManyWithoutPatientInput
   feedingLogs?: Prisma.FeedingLogCreateNestedManyWithoutPatientInput
+  prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutPatientInput
   ratings?: Prisma.RatingCreateNestedManyWithoutPatientInput
   developmentalChecks?: Prisma.DevelopmentalCheckCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionCreateNestedManyWithoutPatientInput
 }
 
-export type PatientUncheckedCreateWithoutPrescriptionsInput = {
+export type PatientUncheckedCreateWithoutAppointmentSeriesInput = {
   id?: string
   clinicId: string
   userId: string
@@ -2316,7 +3956,12 @@ export type PatientUncheckedCreateWithoutPrescriptionsInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -2341,43 +3986,53 @@ export type PatientUncheckedCreateWithoutPrescriptionsInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationUncheckedCreateNestedManyWithoutPatientInput
   vitalSigns?: Prisma.VitalSignsUncheckedCreateNestedManyWithoutPatientInput
   feedingLogs?: Prisma.FeedingLogUncheckedCreateNestedManyWithoutPatientInput
+  prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutPatientInput
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutPatientInput
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianUncheckedCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutPatientInput
 }
 
-export type PatientCreateOrConnectWithoutPrescriptionsInput = {
+export type PatientCreateOrConnectWithoutAppointmentSeriesInput = {
   where: Prisma.PatientWhereUniqueInput
-  create: Prisma.XOR<Prisma.PatientCreateWithoutPrescriptionsInput, Prisma.PatientUncheckedCreateWithoutPrescriptionsInput>
+  create: Prisma.XOR<Prisma.PatientCreateWithoutAppointmentSeriesInput, Prisma.PatientUncheckedCreateWithoutAppointmentSeriesInput>
 }
 
-export type PatientUpsertWithoutPrescriptionsInput = {
-  update: Prisma.XOR<Prisma.PatientUpdateWithoutPrescriptionsInput, Prisma.PatientUncheckedUpdateWithoutPrescriptionsInput>
-  create: Prisma.XOR<Prisma.PatientCreateWithoutPrescriptionsInput, Prisma.PatientUncheckedCreateWithoutPrescriptionsInput>
+export type PatientUpsertWithoutAppointmentSeriesInput = {
+  update: Prisma.XOR<Prisma.PatientUpdateWithoutAppointmentSeriesInput, Prisma.PatientUncheckedUpdateWithoutAppointmentSeriesInput>
+  create: Prisma.XOR<Prisma.PatientCreateWithoutAppointmentSeriesInput, Prisma.PatientUncheckedCreateWithoutAppointmentSeriesInput>
   where?: Prisma.PatientWhereInput
 }
 
-export type PatientUpdateToOneWithWhereWithoutPrescriptionsInput = {
+export type PatientUpdateToOneWithWhereWithoutAppointmentSeriesInput = {
   where?: Prisma.PatientWhereInput
-  data: Prisma.XOR<Prisma.PatientUpdateWithoutPrescriptionsInput, Prisma.PatientUncheckedUpdateWithoutPrescriptionsInput>
+  data: Prisma.XOR<Prisma.PatientUpdateWithoutAppointmentSeriesInput, Prisma.PatientUncheckedUpdateWithoutAppointmentSeriesInput>
 }
 
-export type PatientUpdateWithoutPrescriptionsInput = {
+export type PatientUpdateWithoutAppointmentSeriesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -2404,20 +4059,25 @@ export type PatientUpdateWithoutPrescriptionsInput = {
   user?: Prisma.UserUpdateOneRequiredWithoutPatientNestedInput
   createdBy?: Prisma.UserUpdateOneWithoutPatientsNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUpdateManyWithoutPatientNestedInput
   vitalSigns?: Prisma.VitalSignsUpdateManyWithoutPatientNestedInput
   feedingLogs?: Prisma.FeedingLogUpdateManyWithoutPatientNestedInput
+  prescriptions?: Prisma.PrescriptionUpdateManyWithoutPatientNestedInput
   ratings?: Prisma.RatingUpdateManyWithoutPatientNestedInput
   developmentalChecks?: Prisma.DevelopmentalCheckUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUpdateManyWithoutPatientNestedInput
 }
 
-export type PatientUncheckedUpdateWithoutPrescriptionsInput = {
+export type PatientUncheckedUpdateWithoutAppointmentSeriesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   clinicId?: Prisma.StringFieldUpdateOperationsInput | string
   userId?: Prisma.StringFieldUpdateOperationsInput | string
@@ -2426,7 +4086,12 @@ export type PatientUncheckedUpdateWithoutPrescriptionsInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -2451,27 +4116,37 @@ export type PatientUncheckedUpdateWithoutPrescriptionsInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUncheckedUpdateManyWithoutPatientNestedInput
   vitalSigns?: Prisma.VitalSignsUncheckedUpdateManyWithoutPatientNestedInput
   feedingLogs?: Prisma.FeedingLogUncheckedUpdateManyWithoutPatientNestedInput
+  prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutPatientNestedInput
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutPatientNestedInput
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUncheckedUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUncheckedUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUncheckedUpdateManyWithoutPatientNestedInput
 }
 
-export type PatientCreateWithoutGuardiansInput = {
+export type PatientCreateWithoutWaitlistEntriesInput = {
   id?: string
   email?: string | null
   phone?: string | null
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -2498,6 +4173,7 @@ export type PatientCreateWithoutGuardiansInput = {
   user: Prisma.UserCreateNestedOneWithoutPatientInput
   createdBy?: Prisma.UserCreateNestedOneWithoutPatientsInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationCreateNestedManyWithoutPatientInput
@@ -2508,10 +4184,14 @@ export type PatientCreateWithoutGuardiansInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentCreateNestedManyWithoutPatientInput
+  guardians?: Prisma.GuardianCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionCreateNestedManyWithoutPatientInput
 }
 
-export type PatientUncheckedCreateWithoutGuardiansInput = {
+export type PatientUncheckedCreateWithoutWaitlistEntriesInput = {
   id?: string
   clinicId: string
   userId: string
@@ -2520,7 +4200,12 @@ export type PatientUncheckedCreateWithoutGuardiansInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -2545,6 +4230,7 @@ export type PatientUncheckedCreateWithoutGuardiansInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationUncheckedCreateNestedManyWithoutPatientInput
@@ -2555,33 +4241,42 @@ export type PatientUncheckedCreateWithoutGuardiansInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutPatientInput
+  guardians?: Prisma.GuardianUncheckedCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutPatientInput
 }
 
-export type PatientCreateOrConnectWithoutGuardiansInput = {
+export type PatientCreateOrConnectWithoutWaitlistEntriesInput = {
   where: Prisma.PatientWhereUniqueInput
-  create: Prisma.XOR<Prisma.PatientCreateWithoutGuardiansInput, Prisma.PatientUncheckedCreateWithoutGuardiansInput>
+  create: Prisma.XOR<Prisma.PatientCreateWithoutWaitlistEntriesInput, Prisma.PatientUncheckedCreateWithoutWaitlistEntriesInput>
 }
 
-export type PatientUpsertWithoutGuardiansInput = {
-  update: Prisma.XOR<Prisma.PatientUpdateWithoutGuardiansInput, Prisma.PatientUncheckedUpdateWithoutGuardiansInput>
-  create: Prisma.XOR<Prisma.PatientCreateWithoutGuardiansInput, Prisma.PatientUncheckedCreateWithoutGuardiansInput>
+export type PatientUpsertWithoutWaitlistEntriesInput = {
+  update: Prisma.XOR<Prisma.PatientUpdateWithoutWaitlistEntriesInput, Prisma.PatientUncheckedUpdateWithoutWaitlistEntriesInput>
+  create: Prisma.XOR<Prisma.PatientCreateWithoutWaitlistEntriesInput, Prisma.PatientUncheckedCreateWithoutWaitlistEntriesInput>
   where?: Prisma.PatientWhereInput
 }
 
-export type PatientUpdateToOneWithWhereWithoutGuardiansInput = {
+export type PatientUpdateToOneWithWhereWithoutWaitlistEntriesInput = {
   where?: Prisma.PatientWhereInput
-  data: Prisma.XOR<Prisma.PatientUpdateWithoutGuardiansInput, Prisma.PatientUncheckedUpdateWithoutGuardiansInput>
+  data: Prisma.XOR<Prisma.PatientUpdateWithoutWaitlistEntriesInput, Prisma.PatientUncheckedUpdateWithoutWaitlistEntriesInput>
 }
 
-export type PatientUpdateWithoutGuardiansInput = {
+export type PatientUpdateWithoutWaitlistEntriesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -2608,6 +4303,7 @@ export type PatientUpdateWithoutGuardiansInput = {
   user?: Prisma.UserUpdateOneRequiredWithoutPatientNestedInput
   createdBy?: Prisma.UserUpdateOneWithoutPatientsNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUpdateManyWithoutPatientNestedInput
@@ -2618,10 +4314,14 @@ export type PatientUpdateWithoutGuardiansInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUpdateManyWithoutPatientNestedInput
+  guardians?: Prisma.GuardianUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUpdateManyWithoutPatientNestedInput
 }
 
-export type PatientUncheckedUpdateWithoutGuardiansInput = {
+export type PatientUncheckedUpdateWithoutWaitlistEntriesInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   clinicId?: Prisma.StringFieldUpdateOperationsInput | string
   userId?: Prisma.StringFieldUpdateOperationsInput | string
@@ -2630,7 +4330,12 @@ export type PatientUncheckedUpdateWithoutGuardiansInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -2655,6 +4360,7 @@ export type PatientUncheckedUpdateWithoutGuardiansInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUncheckedUpdateManyWithoutPatientNestedInput
@@ -2665,17 +4371,26 @@ export type PatientUncheckedUpdateWithoutGuardiansInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUncheckedUpdateManyWithoutPatientNestedInput
+  guardians?: Prisma.GuardianUncheckedUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUncheckedUpdateManyWithoutPatientNestedInput
 }
 
-export type PatientCreateWithoutAppointmentsInput = {
+export type PatientCreateWithoutMedicalRecordsInput = {
   id?: string
   email?: string | null
   phone?: string | null
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -2701,7 +4416,9 @@ export type PatientCreateWithoutAppointmentsInput = {
   clinic: Prisma.ClinicCreateNestedOneWithoutPatientsInput
   user: Prisma.UserCreateNestedOneWithoutPatientInput
   createdBy?: Prisma.UserCreateNestedOneWithoutPatientsInput
-  medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutPatientInput
+  appointments?: Prisma.AppointmentCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationCreateNestedManyWithoutPatientInput
   vitalSigns?: Prisma.VitalSignsCreateNestedManyWithoutPatientInput
@@ -2711,11 +4428,14 @@ export type PatientCreateWithoutAppointmentsInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionCreateNestedManyWithoutPatientInput
 }
 
-export type PatientUncheckedCreateWithoutAppointmentsInput = {
+export type PatientUncheckedCreateWithoutMedicalRecordsInput = {
   id?: string
   clinicId: string
   userId: string
@@ -2724,7 +4444,12 @@ export type PatientUncheckedCreateWithoutAppointmentsInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -2748,7 +4473,9 @@ export type PatientUncheckedCreateWithoutAppointmentsInput = {
   bloodGroup?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
-  medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutPatientInput
+  appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationUncheckedCreateNestedManyWithoutPatientInput
   vitalSigns?: Prisma.VitalSignsUncheckedCreateNestedManyWithoutPatientInput
@@ -2758,34 +4485,42 @@ export type PatientUncheckedCreateWithoutAppointmentsInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianUncheckedCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutPatientInput
 }
 
-export type PatientCreateOrConnectWithoutAppointmentsInput = {
+export type PatientCreateOrConnectWithoutMedicalRecordsInput = {
   where: Prisma.PatientWhereUniqueInput
-  create: Prisma.XOR<Prisma.PatientCreateWithoutAppointmentsInput, Prisma.PatientUncheckedCreateWithoutAppointmentsInput>
+  create: Prisma.XOR<Prisma.PatientCreateWithoutMedicalRecordsInput, Prisma.PatientUncheckedCreateWithoutMedicalRecordsInput>
 }
 
-export type PatientUpsertWithoutAppointmentsInput = {
-  update: Prisma.XOR<Prisma.PatientUpdateWithoutAppointmentsInput, Prisma.PatientUncheckedUpdateWithoutAppointmentsInput>
-  create: Prisma.XOR<Prisma.PatientCreateWithoutAppointmentsInput, Prisma.PatientUncheckedCreateWithoutAppointmentsInput>
+export type PatientUpsertWithoutMedicalRecordsInput = {
+  update: Prisma.XOR<Prisma.PatientUpdateWithoutMedicalRecordsInput, Prisma.PatientUncheckedUpdateWithoutMedicalRecordsInput>
+  create: Prisma.XOR<Prisma.PatientCreateWithoutMedicalRecordsInput, Prisma.PatientUncheckedCreateWithoutMedicalRecordsInput>
   where?: Prisma.PatientWhereInput
 }
 
-export type PatientUpdateToOneWithWhereWithoutAppointmentsInput = {
+export type PatientUpdateToOneWithWhereWithoutMedicalRecordsInput = {
   where?: Prisma.PatientWhereInput
-  data: Prisma.XOR<Prisma.PatientUpdateWithoutAppointmentsInput, Prisma.PatientUncheckedUpdateWithoutAppointmentsInput>
+  data: Prisma.XOR<Prisma.PatientUpdateWithoutMedicalRecordsInput, Prisma.PatientUncheckedUpdateWithoutMedicalRecordsInput>
 }
 
-export type PatientUpdateWithoutAppointmentsInput = {
+export type PatientUpdateWithoutMedicalRecordsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -2811,7 +4546,9 @@ export type PatientUpdateWithoutAppointmentsInput = {
   clinic?: Prisma.ClinicUpdateOneRequiredWithoutPatientsNestedInput
   user?: Prisma.UserUpdateOneRequiredWithoutPatientNestedInput
   createdBy?: Prisma.UserUpdateOneWithoutPatientsNestedInput
-  medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutPatientNestedInput
+  appointments?: Prisma.AppointmentUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUpdateManyWithoutPatientNestedInput
   vitalSigns?: Prisma.VitalSignsUpdateManyWithoutPatientNestedInput
@@ -2821,11 +4558,14 @@ export type PatientUpdateWithoutAppointmentsInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUpdateManyWithoutPatientNestedInput
 }
 
-export type PatientUncheckedUpdateWithoutAppointmentsInput = {
+export type PatientUncheckedUpdateWithoutMedicalRecordsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   clinicId?: Prisma.StringFieldUpdateOperationsInput | string
   userId?: Prisma.StringFieldUpdateOperationsInput | string
@@ -2834,7 +4574,12 @@ export type PatientUncheckedUpdateWithoutAppointmentsInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -2858,7 +4603,9 @@ export type PatientUncheckedUpdateWithoutAppointmentsInput = {
   bloodGroup?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
-  medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutPatientNestedInput
+  appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUncheckedUpdateManyWithoutPatientNestedInput
   vitalSigns?: Prisma.VitalSignsUncheckedUpdateManyWithoutPatientNestedInput
@@ -2868,18 +4615,26 @@ export type PatientUncheckedUpdateWithoutAppointmentsInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUncheckedUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUncheckedUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUncheckedUpdateManyWithoutPatientNestedInput
 }
 
-export type PatientCreateWithoutMedicalRecordsInput = {
+export type PatientCreateWithoutEncountersInput = {
   id?: string
   email?: string | null
   phone?: string | null
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -2906,7 +4661,9 @@ export type PatientCreateWithoutMedicalRecordsInput = {
   user: Prisma.UserCreateNestedOneWithoutPatientInput
   createdBy?: Prisma.UserCreateNestedOneWithoutPatientsInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutPatientInput
-  encounters?: Prisma.DiagnosisCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutPatientInput
+  medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationCreateNestedManyWithoutPatientInput
   vitalSigns?: Prisma.VitalSignsCreateNestedManyWithoutPatientInput
   feedingLogs?: Prisma.FeedingLogCreateNestedManyWithoutPatientInput
@@ -2915,11 +4672,14 @@ export type PatientCreateWithoutMedicalRecordsInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionCreateNestedManyWithoutPatientInput
 }
 
-export type PatientUncheckedCreateWithoutMedicalRecordsInput = {
+export type PatientUncheckedCreateWithoutEncountersInput = {
   id?: string
   clinicId: string
   userId: string
@@ -2928,7 +4688,12 @@ export type PatientUncheckedCreateWithoutMedicalRecordsInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -2953,7 +4718,9 @@ export type PatientUncheckedCreateWithoutMedicalRecordsInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutPatientInput
-  encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutPatientInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationUncheckedCreateNestedManyWithoutPatientInput
   vitalSigns?: Prisma.VitalSignsUncheckedCreateNestedManyWithoutPatientInput
   feedingLogs?: Prisma.FeedingLogUncheckedCreateNestedManyWithoutPatientInput
@@ -2962,34 +4729,42 @@ export type PatientUncheckedCreateWithoutMedicalRecordsInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianUncheckedCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutPatientInput
 }
 
-export type PatientCreateOrConnectWithoutMedicalRecordsInput = {
+export type PatientCreateOrConnectWithoutEncountersInput = {
   where: Prisma.PatientWhereUniqueInput
-  create: Prisma.XOR<Prisma.PatientCreateWithoutMedicalRecordsInput, Prisma.PatientUncheckedCreateWithoutMedicalRecordsInput>
+  create: Prisma.XOR<Prisma.PatientCreateWithoutEncountersInput, Prisma.PatientUncheckedCreateWithoutEncountersInput>
 }
 
-export type PatientUpsertWithoutMedicalRecordsInput = {
-  update: Prisma.XOR<Prisma.PatientUpdateWithoutMedicalRecordsInput, Prisma.PatientUncheckedUpdateWithoutMedicalRecordsInput>
-  create: Prisma.XOR<Prisma.PatientCreateWithoutMedicalRecordsInput, Prisma.PatientUncheckedCreateWithoutMedicalRecordsInput>
+export type PatientUpsertWithoutEncountersInput = {
+  update: Prisma.XOR<Prisma.PatientUpdateWithoutEncountersInput, Prisma.PatientUncheckedUpdateWithoutEncountersInput>
+  create: Prisma.XOR<Prisma.PatientCreateWithoutEncountersInput, Prisma.PatientUncheckedCreateWithoutEncountersInput>
   where?: Prisma.PatientWhereInput
 }
 
-export type PatientUpdateToOneWithWhereWithoutMedicalRecordsInput = {
+export type PatientUpdateToOneWithWhereWithoutEncountersInput = {
   where?: Prisma.PatientWhereInput
-  data: Prisma.XOR<Prisma.PatientUpdateWithoutMedicalRecordsInput, Prisma.PatientUncheckedUpdateWithoutMedicalRecordsInput>
+  data: Prisma.XOR<Prisma.PatientUpdateWithoutEncountersInput, Prisma.PatientUncheckedUpdateWithoutEncountersInput>
 }
 
-export type PatientUpdateWithoutMedicalRecordsInput = {
+export type PatientUpdateWithoutEncountersInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -3016,7 +4791,9 @@ export type PatientUpdateWithoutMedicalRecordsInput = {
   user?: Prisma.UserUpdateOneRequiredWithoutPatientNestedInput
   createdBy?: Prisma.UserUpdateOneWithoutPatientsNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutPatientNestedInput
-  encounters?: Prisma.DiagnosisUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutPatientNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUpdateManyWithoutPatientNestedInput
   vitalSigns?: Prisma.VitalSignsUpdateManyWithoutPatientNestedInput
   feedingLogs?: Prisma.FeedingLogUpdateManyWithoutPatientNestedInput
@@ -3025,11 +4802,14 @@ export type PatientUpdateWithoutMedicalRecordsInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUpdateManyWithoutPatientNestedInput
 }
 
-export type PatientUncheckedUpdateWithoutMedicalRecordsInput = {
+export type PatientUncheckedUpdateWithoutEncountersInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   clinicId?: Prisma.StringFieldUpdateOperationsInput | string
   userId?: Prisma.StringFieldUpdateOperationsInput | string
@@ -3038,7 +4818,12 @@ export type PatientUncheckedUpdateWithoutMedicalRecordsInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -3063,7 +4848,9 @@ export type PatientUncheckedUpdateWithoutMedicalRecordsInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutPatientNestedInput
-  encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutPatientNestedInput
+  medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUncheckedUpdateManyWithoutPatientNestedInput
   vitalSigns?: Prisma.VitalSignsUncheckedUpdateManyWithoutPatientNestedInput
   feedingLogs?: Prisma.FeedingLogUncheckedUpdateManyWithoutPatientNestedInput
@@ -3072,18 +4859,26 @@ export type PatientUncheckedUpdateWithoutMedicalRecordsInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUncheckedUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUncheckedUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUncheckedUpdateManyWithoutPatientNestedInput
 }
 
-export type PatientCreateWithoutEncountersInput = {
+export type PatientCreateWithoutVitalSignsInput = {
   id?: string
   email?: string | null
   phone?: string | null
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -3110,20 +4905,25 @@ export type PatientCreateWithoutEncountersInput = {
   user: Prisma.UserCreateNestedOneWithoutPatientInput
   createdBy?: Prisma.UserCreateNestedOneWithoutPatientsInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutPatientInput
+  encounters?: Prisma.DiagnosisCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationCreateNestedManyWithoutPatientInput
-  vitalSigns?: Prisma.VitalSignsCreateNestedManyWithoutPatientInput
   feedingLogs?: Prisma.FeedingLogCreateNestedManyWithoutPatientInput
   prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutPatientInput
   ratings?: Prisma.RatingCreateNestedManyWithoutPatientInput
   developmentalChecks?: Prisma.DevelopmentalCheckCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionCreateNestedManyWithoutPatientInput
 }
 
-export type PatientUncheckedCreateWithoutEncountersInput = {
+export type PatientUncheckedCreateWithoutVitalSignsInput = {
   id?: string
   clinicId: string
   userId: string
@@ -3132,7 +4932,12 @@ export type PatientUncheckedCreateWithoutEncountersInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -3157,43 +4962,53 @@ export type PatientUncheckedCreateWithoutEncountersInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutPatientInput
+  encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationUncheckedCreateNestedManyWithoutPatientInput
-  vitalSigns?: Prisma.VitalSignsUncheckedCreateNestedManyWithoutPatientInput
   feedingLogs?: Prisma.FeedingLogUncheckedCreateNestedManyWithoutPatientInput
   prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutPatientInput
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutPatientInput
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianUncheckedCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutPatientInput
 }
 
-export type PatientCreateOrConnectWithoutEncountersInput = {
+export type PatientCreateOrConnectWithoutVitalSignsInput = {
   where: Prisma.PatientWhereUniqueInput
-  create: Prisma.XOR<Prisma.PatientCreateWithoutEncountersInput, Prisma.PatientUncheckedCreateWithoutEncountersInput>
+  create: Prisma.XOR<Prisma.PatientCreateWithoutVitalSignsInput, Prisma.PatientUncheckedCreateWithoutVitalSignsInput>
 }
 
-export type PatientUpsertWithoutEncountersInput = {
-  update: Prisma.XOR<Prisma.PatientUpdateWithoutEncountersInput, Prisma.PatientUncheckedUpdateWithoutEncountersInput>
-  create: Prisma.XOR<Prisma.PatientCreateWithoutEncountersInput, Prisma.PatientUncheckedCreateWithoutEncountersInput>
+export type PatientUpsertWithoutVitalSignsInput = {
+  update: Prisma.XOR<Prisma.PatientUpdateWithoutVitalSignsInput, Prisma.PatientUncheckedUpdateWithoutVitalSignsInput>
+  create: Prisma.XOR<Prisma.PatientCreateWithoutVitalSignsInput, Prisma.PatientUncheckedCreateWithoutVitalSignsInput>
   where?: Prisma.PatientWhereInput
 }
 
-export type PatientUpdateToOneWithWhereWithoutEncountersInput = {
+export type PatientUpdateToOneWithWhereWithoutVitalSignsInput = {
   where?: Prisma.PatientWhereInput
-  data: Prisma.XOR<Prisma.PatientUpdateWithoutEncountersInput, Prisma.PatientUncheckedUpdateWithoutEncountersInput>
+  data: Prisma.XOR<Prisma.PatientUpdateWithoutVitalSignsInput, Prisma.PatientUncheckedUpdateWithoutVitalSignsInput>
 }
 
-export type PatientUpdateWithoutEncountersInput = {
+export type PatientUpdateWithoutVitalSignsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -3220,20 +5035,25 @@ export type PatientUpdateWithoutEncountersInput = {
   user?: Prisma.UserUpdateOneRequiredWithoutPatientNestedInput
   createdBy?: Prisma.UserUpdateOneWithoutPatientsNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutPatientNestedInput
+  encounters?: Prisma.DiagnosisUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUpdateManyWithoutPatientNestedInput
-  vitalSigns?: Prisma.VitalSignsUpdateManyWithoutPatientNestedInput
   feedingLogs?: Prisma.FeedingLogUpdateManyWithoutPatientNestedInput
   prescriptions?: Prisma.PrescriptionUpdateManyWithoutPatientNestedInput
   ratings?: Prisma.RatingUpdateManyWithoutPatientNestedInput
   developmentalChecks?: Prisma.DevelopmentalCheckUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUpdateManyWithoutPatientNestedInput
 }
 
-export type PatientUncheckedUpdateWithoutEncountersInput = {
+export type PatientUncheckedUpdateWithoutVitalSignsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   clinicId?: Prisma.StringFieldUpdateOperationsInput | string
   userId?: Prisma.StringFieldUpdateOperationsInput | string
@@ -3242,7 +5062,12 @@ export type PatientUncheckedUpdateWithoutEncountersInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -3267,27 +5092,37 @@ export type PatientUncheckedUpdateWithoutEncountersInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutPatientNestedInput
+  encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUncheckedUpdateManyWithoutPatientNestedInput
-  vitalSigns?: Prisma.VitalSignsUncheckedUpdateManyWithoutPatientNestedInput
   feedingLogs?: Prisma.FeedingLogUncheckedUpdateManyWithoutPatientNestedInput
   prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutPatientNestedInput
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutPatientNestedInput
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUncheckedUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUncheckedUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUncheckedUpdateManyWithoutPatientNestedInput
 }
 
-export type PatientCreateWithoutVitalSignsInput = {
+export type PatientCreateWithoutGrowthRecordsInput = {
   id?: string
   email?: string | null
   phone?: string | null
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -3314,20 +5149,25 @@ export type PatientCreateWithoutVitalSignsInput = {
   user: Prisma.UserCreateNestedOneWithoutPatientInput
   createdBy?: Prisma.UserCreateNestedOneWithoutPatientsInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationCreateNestedManyWithoutPatientInput
+  vitalSigns?: Prisma.VitalSignsCreateNestedManyWithoutPatientInput
   feedingLogs?: Prisma.FeedingLogCreateNestedManyWithoutPatientInput
   prescriptions?: Prisma.PrescriptionCreateNestedManyWithoutPatientInput
   ratings?: Prisma.RatingCreateNestedManyWithoutPatientInput
   developmentalChecks?: Prisma.DevelopmentalCheckCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneCreateNestedManyWithoutPatientInput
-  growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionCreateNestedManyWithoutPatientInput
 }
 
-export type PatientUncheckedCreateWithoutVitalSignsInput = {
+export type PatientUncheckedCreateWithoutGrowthRecordsInput = {
   id?: string
   clinicId: string
   userId: string
@@ -3336,7 +5176,12 @@ export type PatientUncheckedCreateWithoutVitalSignsInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -3361,43 +5206,53 @@ export type PatientUncheckedCreateWithoutVitalSignsInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationUncheckedCreateNestedManyWithoutPatientInput
+  vitalSigns?: Prisma.VitalSignsUncheckedCreateNestedManyWithoutPatientInput
   feedingLogs?: Prisma.FeedingLogUncheckedCreateNestedManyWithoutPatientInput
   prescriptions?: Prisma.PrescriptionUncheckedCreateNestedManyWithoutPatientInput
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutPatientInput
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedCreateNestedManyWithoutPatientInput
-  growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianUncheckedCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutPatientInput
 }
 
-export type PatientCreateOrConnectWithoutVitalSignsInput = {
+export type PatientCreateOrConnectWithoutGrowthRecordsInput = {
   where: Prisma.PatientWhereUniqueInput
-  create: Prisma.XOR<Prisma.PatientCreateWithoutVitalSignsInput, Prisma.PatientUncheckedCreateWithoutVitalSignsInput>
+  create: Prisma.XOR<Prisma.PatientCreateWithoutGrowthRecordsInput, Prisma.PatientUncheckedCreateWithoutGrowthRecordsInput>
 }
 
-export type PatientUpsertWithoutVitalSignsInput = {
-  update: Prisma.XOR<Prisma.PatientUpdateWithoutVitalSignsInput, Prisma.PatientUncheckedUpdateWithoutVitalSignsInput>
-  create: Prisma.XOR<Prisma.PatientCreateWithoutVitalSignsInput, Prisma.PatientUncheckedCreateWithoutVitalSignsInput>
+export type PatientUpsertWithoutGrowthRecordsInput = {
+  update: Prisma.XOR<Prisma.PatientUpdateWithoutGrowthRecordsInput, Prisma.PatientUncheckedUpdateWithoutGrowthRecordsInput>
+  create: Prisma.XOR<Prisma.PatientCreateWithoutGrowthRecordsInput, Prisma.PatientUncheckedCreateWithoutGrowthRecordsInput>
   where?: Prisma.PatientWhereInput
 }
 
-export type PatientUpdateToOneWithWhereWithoutVitalSignsInput = {
+export type PatientUpdateToOneWithWhereWithoutGrowthRecordsInput = {
   where?: Prisma.PatientWhereInput
-  data: Prisma.XOR<Prisma.PatientUpdateWithoutVitalSignsInput, Prisma.PatientUncheckedUpdateWithoutVitalSignsInput>
+  data: Prisma.XOR<Prisma.PatientUpdateWithoutGrowthRecordsInput, Prisma.PatientUncheckedUpdateWithoutGrowthRecordsInput>
 }
 
-export type PatientUpdateWithoutVitalSignsInput = {
+export type PatientUpdateWithoutGrowthRecordsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -3424,20 +5279,25 @@ export type PatientUpdateWithoutVitalSignsInput = {
   user?: Prisma.UserUpdateOneRequiredWithoutPatientNestedInput
   createdBy?: Prisma.UserUpdateOneWithoutPatientsNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUpdateManyWithoutPatientNestedInput
+  vitalSigns?: Prisma.VitalSignsUpdateManyWithoutPatientNestedInput
   feedingLogs?: Prisma.FeedingLogUpdateManyWithoutPatientNestedInput
   prescriptions?: Prisma.PrescriptionUpdateManyWithoutPatientNestedInput
   ratings?: Prisma.RatingUpdateManyWithoutPatientNestedInput
   developmentalChecks?: Prisma.DevelopmentalCheckUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUpdateManyWithoutPatientNestedInput
-  growthRecords?: Prisma.GrowthRecordUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUpdateManyWithoutPatientNestedInput
 }
 
-export type PatientUncheckedUpdateWithoutVitalSignsInput = {
+export type PatientUncheckedUpdateWithoutGrowthRecordsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   clinicId?: Prisma.StringFieldUpdateOperationsInput | string
   userId?: Prisma.StringFieldUpdateOperationsInput | string
@@ -3446,7 +5306,12 @@ export type PatientUncheckedUpdateWithoutVitalSignsInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -3471,27 +5336,37 @@ export type PatientUncheckedUpdateWithoutVitalSignsInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUncheckedUpdateManyWithoutPatientNestedInput
+  vitalSigns?: Prisma.VitalSignsUncheckedUpdateManyWithoutPatientNestedInput
   feedingLogs?: Prisma.FeedingLogUncheckedUpdateManyWithoutPatientNestedInput
   prescriptions?: Prisma.PrescriptionUncheckedUpdateManyWithoutPatientNestedInput
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutPatientNestedInput
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedUpdateManyWithoutPatientNestedInput
-  growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUncheckedUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUncheckedUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUncheckedUpdateManyWithoutPatientNestedInput
 }
 
-export type PatientCreateWithoutGrowthRecordsInput = {
+export type PatientCreateWithoutGrowthAlertsInput = {
   id?: string
   email?: string | null
   phone?: string | null
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -3518,6 +5393,8 @@ export type PatientCreateWithoutGrowthRecordsInput = {
   user: Prisma.UserCreateNestedOneWithoutPatientInput
   createdBy?: Prisma.UserCreateNestedOneWithoutPatientsInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationCreateNestedManyWithoutPatientInput
@@ -3527,11 +5404,14 @@ export type PatientCreateWithoutGrowthRecordsInput = {
   ratings?: Prisma.RatingCreateNestedManyWithoutPatientInput
   developmentalChecks?: Prisma.DevelopmentalCheckCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneCreateNestedManyWithoutPatientInput
+  growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionCreateNestedManyWithoutPatientInput
 }
 
-export type PatientUncheckedCreateWithoutGrowthRecordsInput = {
+export type PatientUncheckedCreateWithoutGrowthAlertsInput = {
   id?: string
   clinicId: string
   userId: string
@@ -3540,7 +5420,12 @@ export type PatientUncheckedCreateWithoutGrowthRecordsInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -3565,6 +5450,8 @@ export type PatientUncheckedCreateWithoutGrowthRecordsInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationUncheckedCreateNestedManyWithoutPatientInput
@@ -3574,34 +5461,42 @@ export type PatientUncheckedCreateWithoutGrowthRecordsInput = {
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutPatientInput
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedCreateNestedManyWithoutPatientInput
+  growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianUncheckedCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutPatientInput
 }
 
-export type PatientCreateOrConnectWithoutGrowthRecordsInput = {
+export type PatientCreateOrConnectWithoutGrowthAlertsInput = {
   where: Prisma.PatientWhereUniqueInput
-  create: Prisma.XOR<Prisma.PatientCreateWithoutGrowthRecordsInput, Prisma.PatientUncheckedCreateWithoutGrowthRecordsInput>
+  create: Prisma.XOR<Prisma.PatientCreateWithoutGrowthAlertsInput, Prisma.PatientUncheckedCreateWithoutGrowthAlertsInput>
 }
 
-export type PatientUpsertWithoutGrowthRecordsInput = {
-  update: Prisma.XOR<Prisma.PatientUpdateWithoutGrowthRecordsInput, Prisma.PatientUncheckedUpdateWithoutGrowthRecordsInput>
-  create: Prisma.XOR<Prisma.PatientCreateWithoutGrowthRecordsInput, Prisma.PatientUncheckedCreateWithoutGrowthRecordsInput>
+export type PatientUpsertWithoutGrowthAlertsInput = {
+  update: Prisma.XOR<Prisma.PatientUpdateWithoutGrowthAlertsInput, Prisma.PatientUncheckedUpdateWithoutGrowthAlertsInput>
+  create: Prisma.XOR<Prisma.PatientCreateWithoutGrowthAlertsInput, Prisma.PatientUncheckedCreateWithoutGrowthAlertsInput>
   where?: Prisma.PatientWhereInput
 }
 
-export type PatientUpdateToOneWithWhereWithoutGrowthRecordsInput = {
+export type PatientUpdateToOneWithWhereWithoutGrowthAlertsInput = {
   where?: Prisma.PatientWhereInput
-  data: Prisma.XOR<Prisma.PatientUpdateWithoutGrowthRecordsInput, Prisma.PatientUncheckedUpdateWithoutGrowthRecordsInput>
+  data: Prisma.XOR<Prisma.PatientUpdateWithoutGrowthAlertsInput, Prisma.PatientUncheckedUpdateWithoutGrowthAlertsInput>
 }
 
-export type PatientUpdateWithoutGrowthRecordsInput = {
+export type PatientUpdateWithoutGrowthAlertsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   email?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   phone?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -3628,6 +5523,8 @@ export type PatientUpdateWithoutGrowthRecordsInput = {
   user?: Prisma.UserUpdateOneRequiredWithoutPatientNestedInput
   createdBy?: Prisma.UserUpdateOneWithoutPatientsNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUpdateManyWithoutPatientNestedInput
@@ -3637,11 +5534,14 @@ export type PatientUpdateWithoutGrowthRecordsInput = {
   ratings?: Prisma.RatingUpdateManyWithoutPatientNestedInput
   developmentalChecks?: Prisma.DevelopmentalCheckUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUpdateManyWithoutPatientNestedInput
+  growthRecords?: Prisma.GrowthRecordUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUpdateManyWithoutPatientNestedInput
 }
 
-export type PatientUncheckedUpdateWithoutGrowthRecordsInput = {
+export type PatientUncheckedUpdateWithoutGrowthAlertsInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   clinicId?: Prisma.StringFieldUpdateOperationsInput | string
   userId?: Prisma.StringFieldUpdateOperationsInput | string
@@ -3650,7 +5550,12 @@ export type PatientUncheckedUpdateWithoutGrowthRecordsInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -3675,6 +5580,8 @@ export type PatientUncheckedUpdateWithoutGrowthRecordsInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUncheckedUpdateManyWithoutPatientNestedInput
@@ -3684,8 +5591,11 @@ export type PatientUncheckedUpdateWithoutGrowthRecordsInput = {
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutPatientNestedInput
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedUpdateManyWithoutPatientNestedInput
+  growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUncheckedUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUncheckedUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUncheckedUpdateManyWithoutPatientNestedInput
 }
 
 export type PatientCreateWithoutImmunizationsInput = {
@@ -3695,7 +5605,12 @@ export type PatientCreateWithoutImmunizationsInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -3722,6 +5637,8 @@ export type PatientCreateWithoutImmunizationsInput = {
   user: Prisma.UserCreateNestedOneWithoutPatientInput
   createdBy?: Prisma.UserCreateNestedOneWithoutPatientsInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutPatientInput
   vitalSigns?: Prisma.VitalSignsCreateNestedManyWithoutPatientInput
@@ -3731,8 +5648,11 @@ export type PatientCreateWithoutImmunizationsInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionCreateNestedManyWithoutPatientInput
 }
 
 export type PatientUncheckedCreateWithoutImmunizationsInput = {
@@ -3744,7 +5664,12 @@ export type PatientUncheckedCreateWithoutImmunizationsInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -3769,6 +5694,8 @@ export type PatientUncheckedCreateWithoutImmunizationsInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutPatientInput
   vitalSigns?: Prisma.VitalSignsUncheckedCreateNestedManyWithoutPatientInput
@@ -3778,8 +5705,11 @@ export type PatientUncheckedCreateWithoutImmunizationsInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianUncheckedCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutPatientInput
 }
 
 export type PatientCreateOrConnectWithoutImmunizationsInput = {
@@ -3805,7 +5735,12 @@ export type PatientUpdateWithoutImmunizationsInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -3832,6 +5767,8 @@ export type PatientUpdateWithoutImmunizationsInput = {
   user?: Prisma.UserUpdateOneRequiredWithoutPatientNestedInput
   createdBy?: Prisma.UserUpdateOneWithoutPatientsNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutPatientNestedInput
   vitalSigns?: Prisma.VitalSignsUpdateManyWithoutPatientNestedInput
@@ -3841,8 +5778,11 @@ export type PatientUpdateWithoutImmunizationsInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUpdateManyWithoutPatientNestedInput
 }
 
 export type PatientUncheckedUpdateWithoutImmunizationsInput = {
@@ -3854,7 +5794,12 @@ export type PatientUncheckedUpdateWithoutImmunizationsInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -3879,6 +5824,8 @@ export type PatientUncheckedUpdateWithoutImmunizationsInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutPatientNestedInput
   vitalSigns?: Prisma.VitalSignsUncheckedUpdateManyWithoutPatientNestedInput
@@ -3888,8 +5835,11 @@ export type PatientUncheckedUpdateWithoutImmunizationsInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUncheckedUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUncheckedUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUncheckedUpdateManyWithoutPatientNestedInput
 }
 
 export type PatientCreateWithoutFeedingLogsInput = {
@@ -3899,7 +5849,12 @@ export type PatientCreateWithoutFeedingLogsInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -3926,6 +5881,8 @@ export type PatientCreateWithoutFeedingLogsInput = {
   user: Prisma.UserCreateNestedOneWithoutPatientInput
   createdBy?: Prisma.UserCreateNestedOneWithoutPatientsInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationCreateNestedManyWithoutPatientInput
@@ -3935,8 +5892,11 @@ export type PatientCreateWithoutFeedingLogsInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionCreateNestedManyWithoutPatientInput
 }
 
 export type PatientUncheckedCreateWithoutFeedingLogsInput = {
@@ -3948,7 +5908,12 @@ export type PatientUncheckedCreateWithoutFeedingLogsInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -3973,6 +5938,8 @@ export type PatientUncheckedCreateWithoutFeedingLogsInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationUncheckedCreateNestedManyWithoutPatientInput
@@ -3982,8 +5949,11 @@ export type PatientUncheckedCreateWithoutFeedingLogsInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianUncheckedCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutPatientInput
 }
 
 export type PatientCreateOrConnectWithoutFeedingLogsInput = {
@@ -4009,7 +5979,12 @@ export type PatientUpdateWithoutFeedingLogsInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -4036,6 +6011,8 @@ export type PatientUpdateWithoutFeedingLogsInput = {
   user?: Prisma.UserUpdateOneRequiredWithoutPatientNestedInput
   createdBy?: Prisma.UserUpdateOneWithoutPatientsNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUpdateManyWithoutPatientNestedInput
@@ -4045,8 +6022,11 @@ export type PatientUpdateWithoutFeedingLogsInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUpdateManyWithoutPatientNestedInput
 }
 
 export type PatientUncheckedUpdateWithoutFeedingLogsInput = {
@@ -4058,7 +6038,12 @@ export type PatientUncheckedUpdateWithoutFeedingLogsInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -4083,6 +6068,8 @@ export type PatientUncheckedUpdateWithoutFeedingLogsInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUncheckedUpdateManyWithoutPatientNestedInput
@@ -4092,8 +6079,11 @@ export type PatientUncheckedUpdateWithoutFeedingLogsInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUncheckedUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUncheckedUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUncheckedUpdateManyWithoutPatientNestedInput
 }
 
 export type PatientCreateWithoutDevelopmentalMilestonesInput = {
@@ -4103,7 +6093,12 @@ export type PatientCreateWithoutDevelopmentalMilestonesInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -4130,6 +6125,8 @@ export type PatientCreateWithoutDevelopmentalMilestonesInput = {
   user: Prisma.UserCreateNestedOneWithoutPatientInput
   createdBy?: Prisma.UserCreateNestedOneWithoutPatientsInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationCreateNestedManyWithoutPatientInput
@@ -4139,8 +6136,11 @@ export type PatientCreateWithoutDevelopmentalMilestonesInput = {
   ratings?: Prisma.RatingCreateNestedManyWithoutPatientInput
   developmentalChecks?: Prisma.DevelopmentalCheckCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionCreateNestedManyWithoutPatientInput
 }
 
 export type PatientUncheckedCreateWithoutDevelopmentalMilestonesInput = {
@@ -4152,7 +6152,12 @@ export type PatientUncheckedCreateWithoutDevelopmentalMilestonesInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -4177,6 +6182,8 @@ export type PatientUncheckedCreateWithoutDevelopmentalMilestonesInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationUncheckedCreateNestedManyWithoutPatientInput
@@ -4186,8 +6193,11 @@ export type PatientUncheckedCreateWithoutDevelopmentalMilestonesInput = {
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutPatientInput
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianUncheckedCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutPatientInput
 }
 
 export type PatientCreateOrConnectWithoutDevelopmentalMilestonesInput = {
@@ -4213,7 +6223,12 @@ export type PatientUpdateWithoutDevelopmentalMilestonesInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -4240,6 +6255,8 @@ export type PatientUpdateWithoutDevelopmentalMilestonesInput = {
   user?: Prisma.UserUpdateOneRequiredWithoutPatientNestedInput
   createdBy?: Prisma.UserUpdateOneWithoutPatientsNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUpdateManyWithoutPatientNestedInput
@@ -4249,8 +6266,11 @@ export type PatientUpdateWithoutDevelopmentalMilestonesInput = {
   ratings?: Prisma.RatingUpdateManyWithoutPatientNestedInput
   developmentalChecks?: Prisma.DevelopmentalCheckUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUpdateManyWithoutPatientNestedInput
 }
 
 export type PatientUncheckedUpdateWithoutDevelopmentalMilestonesInput = {
@@ -4262,7 +6282,12 @@ export type PatientUncheckedUpdateWithoutDevelopmentalMilestonesInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -4287,6 +6312,8 @@ export type PatientUncheckedUpdateWithoutDevelopmentalMilestonesInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUncheckedUpdateManyWithoutPatientNestedInput
@@ -4296,8 +6323,11 @@ export type PatientUncheckedUpdateWithoutDevelopmentalMilestonesInput = {
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutPatientNestedInput
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUncheckedUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUncheckedUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUncheckedUpdateManyWithoutPatientNestedInput
 }
 
 export type PatientCreateWithoutDevelopmentalChecksInput = {
@@ -4307,7 +6337,12 @@ export type PatientCreateWithoutDevelopmentalChecksInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -4334,6 +6369,8 @@ export type PatientCreateWithoutDevelopmentalChecksInput = {
   user: Prisma.UserCreateNestedOneWithoutPatientInput
   createdBy?: Prisma.UserCreateNestedOneWithoutPatientsInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationCreateNestedManyWithoutPatientInput
@@ -4343,8 +6380,11 @@ export type PatientCreateWithoutDevelopmentalChecksInput = {
   ratings?: Prisma.RatingCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionCreateNestedManyWithoutPatientInput
 }
 
 export type PatientUncheckedCreateWithoutDevelopmentalChecksInput = {
@@ -4356,7 +6396,12 @@ export type PatientUncheckedCreateWithoutDevelopmentalChecksInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -4381,6 +6426,8 @@ export type PatientUncheckedCreateWithoutDevelopmentalChecksInput = {
   createdAt?: Date | string
   updatedAt?: Date | string
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutPatientInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutPatientInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutPatientInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedCreateNestedManyWithoutPatientInput
   encounters?: Prisma.DiagnosisUncheckedCreateNestedManyWithoutPatientInput
   immunizations?: Prisma.ImmunizationUncheckedCreateNestedManyWithoutPatientInput
@@ -4390,8 +6437,11 @@ export type PatientUncheckedCreateWithoutDevelopmentalChecksInput = {
   ratings?: Prisma.RatingUncheckedCreateNestedManyWithoutPatientInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedCreateNestedManyWithoutPatientInput
   growthRecords?: Prisma.GrowthRecordUncheckedCreateNestedManyWithoutPatientInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedCreateNestedManyWithoutPatientInput
   payments?: Prisma.PaymentUncheckedCreateNestedManyWithoutPatientInput
   guardians?: Prisma.GuardianUncheckedCreateNestedManyWithoutPatientInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedCreateNestedManyWithoutPatientInput
+  conditionRecords?: Prisma.PatientConditionUncheckedCreateNestedManyWithoutPatientInput
 }
 
 export type PatientCreateOrConnectWithoutDevelopmentalChecksInput = {
@@ -4417,7 +6467,12 @@ export type PatientUpdateWithoutDevelopmentalChecksInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -4444,6 +6499,8 @@ export type PatientUpdateWithoutDevelopmentalChecksInput = {
   user?: Prisma.UserUpdateOneRequiredWithoutPatientNestedInput
   createdBy?: Prisma.UserUpdateOneWithoutPatientsNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUpdateManyWithoutPatientNestedInput
@@ -4453,8 +6510,11 @@ export type PatientUpdateWithoutDevelopmentalChecksInput = {
   ratings?: Prisma.RatingUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUpdateManyWithoutPatientNestedInput
 }
 
 export type PatientUncheckedUpdateWithoutDevelopmentalChecksInput = {
@@ -4466,7 +6526,12 @@ export type PatientUncheckedUpdateWithoutDevelopmentalChecksInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -4491,6 +6556,8 @@ export type PatientUncheckedUpdateWithoutDevelopmentalChecksInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUncheckedUpdateManyWithoutPatientNestedInput
@@ -4500,8 +6567,11 @@ export type PatientUncheckedUpdateWithoutDevelopmentalChecksInput = {
   ratings?: Prisma.RatingUncheckedUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUncheckedUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUncheckedUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUncheckedUpdateManyWithoutPatientNestedInput
 }
 
 export type PatientCreateManyCreatedByInput = {
@@ -4513,7 +6583,12 @@ export type PatientCreateManyCreatedByInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -4545,7 +6620,12 @@ export type PatientUpdateWithoutCreatedByInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -4571,6 +6651,8 @@ export type PatientUpdateWithoutCreatedByInput = {
   clinic?: Prisma.ClinicUpdateOneRequiredWithoutPatientsNestedInput
   user?: Prisma.UserUpdateOneRequiredWithoutPatientNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUpdateManyWithoutPatientNestedInput
@@ -4581,8 +6663,11 @@ export type PatientUpdateWithoutCreatedByInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUpdateManyWithoutPatientNestedInput
 }
 
 export type PatientUncheckedUpdateWithoutCreatedByInput = {
@@ -4594,7 +6679,12 @@ export type PatientUncheckedUpdateWithoutCreatedByInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -4618,6 +6708,8 @@ export type PatientUncheckedUpdateWithoutCreatedByInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUncheckedUpdateManyWithoutPatientNestedInput
@@ -4628,8 +6720,11 @@ export type PatientUncheckedUpdateWithoutCreatedByInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUncheckedUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUncheckedUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUncheckedUpdateManyWithoutPatientNestedInput
 }
 
 export type PatientUncheckedUpdateManyWithoutCreatedByInput = {
@@ -4641,7 +6736,12 @@ export type PatientUncheckedUpdateManyWithoutCreatedByInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -4674,7 +6774,12 @@ export type PatientCreateManyClinicInput = {
   emergencyContactNumber?: string | null
   firstName: string
   lastName: string
+  medicalRecordNumber?: string | null
   dateOfBirth: Date | string
+  gestationalAgeWeeks?: number | null
+  gestationalAgeDays?: number | null
+  fatherHeightCm?: number | null
+  motherHeightCm?: number | null
   ageMonths?: number | null
   ageDays?: number | null
   gender?: $Enums.Gender
@@ -4707,7 +6812,12 @@ export type PatientUpdateWithoutClinicInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -4733,6 +6843,8 @@ export type PatientUpdateWithoutClinicInput = {
   user?: Prisma.UserUpdateOneRequiredWithoutPatientNestedInput
   createdBy?: Prisma.UserUpdateOneWithoutPatientsNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUpdateManyWithoutPatientNestedInput
@@ -4743,8 +6855,11 @@ export type PatientUpdateWithoutClinicInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUpdateManyWithoutPatientNestedInput
 }
 
 export type PatientUncheckedUpdateWithoutClinicInput = {
@@ -4755,7 +6870,12 @@ export type PatientUncheckedUpdateWithoutClinicInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -4780,6 +6900,8 @@ export type PatientUncheckedUpdateWithoutClinicInput = {
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutPatientNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutPatientNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutPatientNestedInput
   medicalRecords?: Prisma.MedicalRecordsUncheckedUpdateManyWithoutPatientNestedInput
   encounters?: Prisma.DiagnosisUncheckedUpdateManyWithoutPatientNestedInput
   immunizations?: Prisma.ImmunizationUncheckedUpdateManyWithoutPatientNestedInput
@@ -4790,8 +6912,11 @@ export type PatientUncheckedUpdateWithoutClinicInput = {
   developmentalChecks?: Prisma.DevelopmentalCheckUncheckedUpdateManyWithoutPatientNestedInput
   developmentalMilestones?: Prisma.DevelopmentalMilestoneUncheckedUpdateManyWithoutPatientNestedInput
   growthRecords?: Prisma.GrowthRecordUncheckedUpdateManyWithoutPatientNestedInput
+  growthAlerts?: Prisma.GrowthAlertUncheckedUpdateManyWithoutPatientNestedInput
   payments?: Prisma.PaymentUncheckedUpdateManyWithoutPatientNestedInput
   guardians?: Prisma.GuardianUncheckedUpdateManyWithoutPatientNestedInput
+  allergyRecords?: Prisma.PatientAllergyUncheckedUpdateManyWithoutPatientNestedInput
+  conditionRecords?: Prisma.PatientConditionUncheckedUpdateManyWithoutPatientNestedInput
 }
 
 export type PatientUncheckedUpdateManyWithoutClinicInput = {
@@ -4802,7 +6927,12 @@ export type PatientUncheckedUpdateManyWithoutClinicInput = {
   emergencyContactNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   firstName?: Prisma.StringFieldUpdateOperationsInput | string
   lastName?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordNumber?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   dateOfBirth?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  gestationalAgeWeeks?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  gestationalAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  fatherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  motherHeightCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
   ageMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
@@ -4835,6 +6965,8 @@ export type PatientUncheckedUpdateManyWithoutClinicInput = {
 
 export type PatientCountOutputType = {
   appointments: number
+  appointmentSeries: number
+  waitlistEntries: number
   medicalRecords: number
   encounters: number
   immunizations: number
@@ -4845,12 +6977,17 @@ export type PatientCountOutputType = {
   developmentalChecks: number
   developmentalMilestones: number
   growthRecords: number
+  growthAlerts: number
   payments: number
   guardians: number
+  allergyRecords: number
+  conditionRecords: number
 }
 
 export type PatientCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   appointments?: boolean | PatientCountOutputTypeCountAppointmentsArgs
+  appointmentSeries?: boolean | PatientCountOutputTypeCountAppointmentSeriesArgs
+  waitlistEntries?: boolean | PatientCountOutputTypeCountWaitlistEntriesArgs
   medicalRecords?: boolean | PatientCountOutputTypeCountMedicalRecordsArgs
   encounters?: boolean | PatientCountOutputTypeCountEncountersArgs
   immunizations?: boolean | PatientCountOutputTypeCountImmunizationsArgs
@@ -4861,8 +6998,11 @@ export type PatientCountOutputTypeSelect<ExtArgs extends runtime.Types.Extension
   developmentalChecks?: boolean | PatientCountOutputTypeCountDevelopmentalChecksArgs
   developmentalMilestones?: boolean | PatientCountOutputTypeCountDevelopmentalMilestonesArgs
   growthRecords?: boolean | PatientCountOutputTypeCountGrowthRecordsArgs
+  growthAlerts?: boolean | PatientCountOutputTypeCountGrowthAlertsArgs
   payments?: boolean | PatientCountOutputTypeCountPaymentsArgs
   guardians?: boolean | PatientCountOutputTypeCountGuardiansArgs
+  allergyRecords?: boolean | PatientCountOutputTypeCountAllergyRecordsArgs
+  conditionRecords?: boolean | PatientCountOutputTypeCountConditionRecordsArgs
 }
 
 /**
@@ -4882,6 +7022,20 @@ export type PatientCountOutputTypeCountAppointmentsArgs<ExtArgs extends runtime.
   where?: Prisma.AppointmentWhereInput
 }
 
+/**
+ * PatientCountOutputType without action
+ */
+export type PatientCountOutputTypeCountAppointmentSeriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AppointmentSeriesWhereInput
+}
+
+/**
+ * PatientCountOutputType without action
+ */
+export type PatientCountOutputTypeCountWaitlistEntriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WaitlistEntryWhereInput
+}
+
 /**
  * PatientCountOutputType without action
  */
@@ -4952,6 +7106,13 @@ export type PatientCountOutputTypeCountGrowthRecordsArgs<ExtArgs extends runtime
   where?: Prisma.GrowthRecordWhereInput
 }
 
+/**
+ * PatientCountOutputType without action
+ */
+export type PatientCountOutputTypeCountGrowthAlertsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.GrowthAlertWhereInput
+}
+
 /**
  * PatientCountOutputType without action
  */
@@ -4966,6 +7127,20 @@ export type PatientCountOutputTypeCountGuardiansArgs<ExtArgs extends runtime.Typ
   where?: Prisma.GuardianWhereInput
 }
 
+/**
+ * PatientCountOutputType without action
+ */
+export type PatientCountOutputTypeCountAllergyRecordsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PatientAllergyWhereInput
+}
+
+/**
+ * PatientCountOutputType without action
+ */
+export type PatientCountOutputTypeCountConditionRecordsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PatientConditionWhereInput
+}
+
 
 export type PatientSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -4976,7 +7151,12 @@ export type PatientSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   emergencyContactNumber?: boolean
   firstName?: boolean
   lastName?: boolean
+  medicalRecordNumber?: boolean
   dateOfBirth?: boolean
+  gestationalAgeWeeks?: boolean
+  gestationalAgeDays?: boolean
+  fatherHeightCm?: boolean
+  motherHeightCm?: boolean
   ageMonths?: boolean
   ageDays?: boolean
   gender?: boolean
@@ -5004,6 +7184,8 @@ export type PatientSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   createdBy?: boolean | Prisma.Patient$createdByArgs<ExtArgs>
   appointments?: boolean | Prisma.Patient$appointmentsArgs<ExtArgs>
+  appointmentSeries?: boolean | Prisma.Patient$appointmentSeriesArgs<ExtArgs>
+  waitlistEntries?: boolean | Prisma.Patient$waitlistEntriesArgs<ExtArgs>
   medicalRecords?: boolean | Prisma.Patient$medicalRecordsArgs<ExtArgs>
   encounters?: boolean | Prisma.Patient$encountersArgs<ExtArgs>
   immunizations?: boolean | Prisma.Patient$immunizationsArgs<ExtArgs>
@@ -5014,8 +7196,11 @@ export type PatientSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   developmentalChecks?: boolean | Prisma.Patient$developmentalChecksArgs<ExtArgs>
   developmentalMilestones?: boolean | Prisma.Patient$developmentalMilestonesArgs<ExtArgs>
   growthRecords?: boolean | Prisma.Patient$growthRecordsArgs<ExtArgs>
+  growthAlerts?: boolean | Prisma.Patient$growthAlertsArgs<ExtArgs>
   payments?: boolean | Prisma.Patient$paymentsArgs<ExtArgs>
   guardians?: boolean | Prisma.Patient$guardiansArgs<ExtArgs>
+  allergyRecords?: boolean | Prisma.Patient$allergyRecordsArgs<ExtArgs>
+  conditionRecords?: boolean | Prisma.Patient$conditionRecordsArgs<ExtArgs>
   _count?: boolean | Prisma.PatientCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["patient"]>
 
@@ -5028,7 +7213,12 @@ export type PatientSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Exten
   emergencyContactNumber?: boolean
   firstName?: boolean
   lastName?: boolean
+  medicalRecordNumber?: boolean
   dateOfBirth?: boolean
+  gestationalAgeWeeks?: boolean
+  gestationalAgeDays?: boolean
+  fatherHeightCm?: boolean
+  motherHeightCm?: boolean
   ageMonths?: boolean
   ageDays?: boolean
   gender?: boolean
@@ -5066,7 +7256,12 @@ export type PatientSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Exten
   emergencyContactNumber?: boolean
   firstName?: boolean
   lastName?: boolean
+  medicalRecordNumber?: boolean
   dateOfBirth?: boolean
+  gestationalAgeWeeks?: boolean
+  gestationalAgeDays?: boolean
+  fatherHeightCm?: boolean
+  motherHeightCm?: boolean
   ageMonths?: boolean
   ageDays?: boolean
   gender?: boolean
@@ -5104,7 +7299,12 @@ export type PatientSelectScalar = {
   emergencyContactNumber?: boolean
   firstName?: boolean
   lastName?: boolean
+  medicalRecordNumber?: boolean
   dateOfBirth?: boolean
+  gestationalAgeWeeks?: boolean
+  gestationalAgeDays?: boolean
+  fatherHeightCm?: boolean
+  motherHeightCm?: boolean
   ageMonths?: boolean
   ageDays?: boolean
   gender?: boolean
@@ -5130,12 +7330,14 @@ export type PatientSelectScalar = {
   updatedAt?: boolean
 }
 
-export type PatientOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "clinicId" | "userId" | "email" | "phone" | "emergencyContactNumber" | "firstName" | "lastName" | "dateOfBirth" | "ageMonths" | "ageDays" | "gender" | "maritalStatus" | "nutritionalStatus" | "address" | "emergencyContactName" | "relation" | "allergies" | "medicalConditions" | "medicalHistory" | "image" | "colorCode" | "role" | "status" | "isActive" | "deletedAt" | "isDeleted" | "createdById" | "updatedById" | "bloodGroup" | "createdAt" | "updatedAt", ExtArgs["result"]["patient"]>
+export type PatientOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "clinicId" | "userId" | "email" | "phone" | "emergencyContactNumber" | "firstName" | "lastName" | "medicalRecordNumber" | "dateOfBirth" | "gestationalAgeWeeks" | "gestationalAgeDays" | "fatherHeightCm" | "motherHeightCm" | "ageMonths" | "ageDays" | "gender" | "maritalStatus" | "nutritionalStatus" | "address" | "emergencyContactName" | "relation" | "allergies" | "medicalConditions" | "medicalHistory" | "image" | "colorCode" | "role" | "status" | "isActive" | "deletedAt" | "isDeleted" | "createdById" | "updatedById" | "bloodGroup" | "createdAt" | "updatedAt", ExtArgs["result"]["patient"]>
 export type PatientInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
   user?: boolean | Prisma.UserDefaultArgs<ExtArgs>
   createdBy?: boolean | Prisma.Patient$createdByArgs<ExtArgs>
   appointments?: boolean | Prisma.Patient$appointmentsArgs<ExtArgs>
+  appointmentSeries?: boolean | Prisma.Patient$appointmentSeriesArgs<ExtArgs>
+  waitlistEntries?: boolean | Prisma.Patient$waitlistEntriesArgs<ExtArgs>
   medicalRecords?: boolean | Prisma.Patient$medicalRecordsArgs<ExtArgs>
   encounters?: boolean | Prisma.Patient$encountersArgs<ExtArgs>
   immunizations?: boolean | Prisma.Patient$immunizationsArgs<ExtArgs>
@@ -5146,8 +7348,11 @@ export type PatientInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs
   developmentalChecks?: boolean | Prisma.Patient$developmentalChecksArgs<ExtArgs>
   developmentalMilestones?: boolean | Prisma.Patient$developmentalMilestonesArgs<ExtArgs>
   growthRecords?: boolean | Prisma.Patient$growthRecordsArgs<ExtArgs>
+  growthAlerts?: boolean | Prisma.Patient$growthAlertsArgs<ExtArgs>
   payments?: boolean | Prisma.Patient$paymentsArgs<ExtArgs>
   guardians?: boolean | Prisma.Patient$guardiansArgs<ExtArgs>
+  allergyRecords?: boolean | Prisma.Patient$allergyRecordsArgs<ExtArgs>
+  conditionRecords?: boolean | Prisma.Patient$conditionRecordsArgs<ExtArgs>
   _count?: boolean | Prisma.PatientCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type PatientIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -5168,6 +7373,8 @@ export type $PatientPayload<ExtArgs extends runtime.Types.Extensions.InternalArg
     user: Prisma.$UserPayload<ExtArgs>
     createdBy: Prisma.$UserPayload<ExtArgs> | null
     appointments: Prisma.$AppointmentPayload<ExtArgs>[]
+    appointmentSeries: Prisma.$AppointmentSeriesPayload<ExtArgs>[]
+    waitlistEntries: Prisma.$WaitlistEntryPayload<ExtArgs>[]
     medicalRecords: Prisma.$MedicalRecordsPayload<ExtArgs>[]
     encounters: Prisma.$DiagnosisPayload<ExtArgs>[]
     immunizations: Prisma.$ImmunizationPayload<ExtArgs>[]
@@ -5178,8 +7385,11 @@ export type $PatientPayload<ExtArgs extends runtime.Types.Extensions.InternalArg
     developmentalChecks: Prisma.$DevelopmentalCheckPayload<ExtArgs>[]
     developmentalMilestones: Prisma.$DevelopmentalMilestonePayload<ExtArgs>[]
     growthRecords: Prisma.$GrowthRecordPayload<ExtArgs>[]
+    growthAlerts: Prisma.$GrowthAlertPayload<ExtArgs>[]
     payments: Prisma.$PaymentPayload<ExtArgs>[]
     guardians: Prisma.$GuardianPayload<ExtArgs>[]
+    allergyRecords: Prisma.$PatientAllergyPayload<ExtArgs>[]
+    conditionRecords: Prisma.$PatientConditionPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -5190,7 +7400,12 @@ export type $PatientPayload<ExtArgs extends runtime.Types.Extensions.InternalArg
     emergencyContactNumber: string | null
     firstName: string
     lastName: string
+    medicalRecordNumber: string | null
     dateOfBirth: Date
+    gestationalAgeWeeks: number | null
+    gestationalAgeDays: number | null
+    fatherHeightCm: number | null
+    motherHeightCm: number | null
     ageMonths: number | null
     ageDays: number | null
     gender: $Enums.Gender
@@ -5612,6 +7827,8 @@ export interface Prisma__PatientClient<T, Null = never, ExtArgs extends runtime.
   user<T extends Prisma.UserDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.UserDefaultArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   createdBy<T extends Prisma.Patient$createdByArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Patient$createdByArgs<ExtArgs>>): Prisma.Prisma__UserClient<runtime.Types.Result.GetResult<Prisma.$UserPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   appointments<T extends Prisma.Patient$appointmentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Patient$appointmentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AppointmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  appointmentSeries<T extends Prisma.Patient$appointmentSeriesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Patient$appointmentSeriesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AppointmentSeriesPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  waitlistEntries<T extends Prisma.Patient$waitlistEntriesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Patient$waitlistEntriesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   medicalRecords<T extends Prisma.Patient$medicalRecordsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Patient$medicalRecordsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$MedicalRecordsPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   encounters<T extends Prisma.Patient$encountersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Patient$encountersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DiagnosisPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   immunizations<T extends Prisma.Patient$immunizationsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Patient$immunizationsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ImmunizationPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
@@ -5622,8 +7839,11 @@ export interface Prisma__PatientClient<T, Null = never, ExtArgs extends runtime.
   developmentalChecks<T extends Prisma.Patient$developmentalChecksArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Patient$developmentalChecksArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DevelopmentalCheckPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   developmentalMilestones<T extends Prisma.Patient$developmentalMilestonesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Patient$developmentalMilestonesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$DevelopmentalMilestonePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   growthRecords<T extends Prisma.Patient$growthRecordsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Patient$growthRecordsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$GrowthRecordPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  growthAlerts<T extends Prisma.Patient$growthAlertsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Patient$growthAlertsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$GrowthAlertPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   payments<T extends Prisma.Patient$paymentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Patient$paymentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PaymentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   guardians<T extends Prisma.Patient$guardiansArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Patient$guardiansArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$GuardianPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  allergyRecords<T extends Prisma.Patient$allergyRecordsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Patient$allergyRecordsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PatientAllergyPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  conditionRecords<T extends Prisma.Patient$conditionRecordsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Patient$conditionRecordsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PatientConditionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -5661,7 +7881,12 @@ export interface PatientFieldRefs {
   readonly emergencyContactNumber: Prisma.FieldRef<"Patient", 'String'>
   readonly firstName: Prisma.FieldRef<"Patient", 'String'>
   readonly lastName: Prisma.FieldRef<"Patient", 'String'>
+  readonly medicalRecordNumber: Prisma.FieldRef<"Patient", 'String'>
   readonly dateOfBirth: Prisma.FieldRef<"Patient", 'DateTime'>
+  readonly gestationalAgeWeeks: Prisma.FieldRef<"Patient", 'Int'>
+  readonly gestationalAgeDays: Prisma.FieldRef<"Patient", 'Int'>
+  readonly fatherHeightCm: Prisma.FieldRef<"Patient", 'Float'>
+  readonly motherHeightCm: Prisma.FieldRef<"Patient", 'Float'>
   readonly ageMonths: Prisma.FieldRef<"Patient", 'Int'>
   readonly ageDays: Prisma.FieldRef<"Patient", 'Int'>
   readonly gender: Prisma.FieldRef<"Patient", 'Gender'>
@@ -6132,6 +8357,54 @@ export type Patient$appointmentsArgs<ExtArgs extends runtime.Types.Extensions.In
   distinct?: Prisma.AppointmentScalarFieldEnum | Prisma.AppointmentScalarFieldEnum[]
 }
 
+/**
+ * Patient.appointmentSeries
+ */
+export type Patient$appointmentSeriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppointmentSeries
+   */
+  select?: Prisma.AppointmentSeriesSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppointmentSeries
+   */
+  omit?: Prisma.AppointmentSeriesOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AppointmentSeriesInclude<ExtArgs> | null
+  where?: Prisma.AppointmentSeriesWhereInput
+  orderBy?: Prisma.AppointmentSeriesOrderByWithRelationInput | Prisma.AppointmentSeriesOrderByWithRelationInput[]
+  cursor?: Prisma.AppointmentSeriesWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.AppointmentSeriesScalarFieldEnum | Prisma.AppointmentSeriesScalarFieldEnum[]
+}
+
+/**
+ * Patient.waitlistEntries
+ */
+export type Patient$waitlistEntriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  where?: Prisma.WaitlistEntryWhereInput
+  orderBy?: Prisma.WaitlistEntryOrderByWithRelationInput | Prisma.WaitlistEntryOrderByWithRelationInput[]
+  cursor?: Prisma.WaitlistEntryWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.WaitlistEntryScalarFieldEnum | Prisma.WaitlistEntryScalarFieldEnum[]
+}
+
 /**
  * Patient.medicalRecords
  */
@@ -6372,6 +8645,30 @@ export type Patient$growthRecordsArgs<ExtArgs extends runtime.Types.Extensions.I
   distinct?: Prisma.GrowthRecordScalarFieldEnum | Prisma.GrowthRecordScalarFieldEnum[]
 }
 
+/**
+ * Patient.growthAlerts
+ */
+export type Patient$growthAlertsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the GrowthAlert
+   */
+  select?: Prisma.GrowthAlertSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the GrowthAlert
+   */
+  omit?: Prisma.GrowthAlertOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.GrowthAlertInclude<ExtArgs> | null
+  where?: Prisma.GrowthAlertWhereInput
+  orderBy?: Prisma.GrowthAlertOrderByWithRelationInput | Prisma.GrowthAlertOrderByWithRelationInput[]
+  cursor?: Prisma.GrowthAlertWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.GrowthAlertScalarFieldEnum | Prisma.GrowthAlertScalarFieldEnum[]
+}
+
 /**
  * Patient.payments
  */
@@ -6420,6 +8717,54 @@ export type Patient$guardiansArgs<ExtArgs extends runtime.Types.Extensions.Inter
   distinct?: Prisma.GuardianScalarFieldEnum | Prisma.GuardianScalarFieldEnum[]
 }
 
+/**
+ * Patient.allergyRecords
+ */
+export type Patient$allergyRecordsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientAllergy
+   */
+  select?: Prisma.PatientAllergySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientAllergy
+   */
+  omit?: Prisma.PatientAllergyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientAllergyInclude<ExtArgs> | null
+  where?: Prisma.PatientAllergyWhereInput
+  orderBy?: Prisma.PatientAllergyOrderByWithRelationInput | Prisma.PatientAllergyOrderByWithRelationInput[]
+  cursor?: Prisma.PatientAllergyWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PatientAllergyScalarFieldEnum | Prisma.PatientAllergyScalarFieldEnum[]
+}
+
+/**
+ * Patient.conditionRecords
+ */
+export type Patient$conditionRecordsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientCondition
+   */
+  select?: Prisma.PatientConditionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientCondition
+   */
+  omit?: Prisma.PatientConditionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientConditionInclude<ExtArgs> | null
+  where?: Prisma.PatientConditionWhereInput
+  orderBy?: Prisma.PatientConditionOrderByWithRelationInput | Prisma.PatientConditionOrderByWithRelationInput[]
+  cursor?: Prisma.PatientConditionWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.PatientConditionScalarFieldEnum | Prisma.PatientConditionScalarFieldEnum[]
+}
+
 /**
  * Patient without action
  */
@@ -0,0 +1,2280 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `PatientAllergy` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model PatientAllergy
+ * A recorded allergy. Entries migrated from the free-text `Patient.allergies`
+ * wait in the review queue (`needsReview`) until a clinician confirms or
+ * corrects them; they are checked at prescribing meanwhile.
+ */
+export type PatientAllergyModel = runtime.Types.Result.DefaultSelection<Prisma.$PatientAllergyPayload>
+
+export type AggregatePatientAllergy = {
+  _count: PatientAllergyCountAggregateOutputType | null
+  _min: PatientAllergyMinAggregateOutputType | null
+  _max: PatientAllergyMaxAggregateOutputType | null
+}
+
+export type PatientAllergyMinAggregateOutputType = {
+  id: string | null
+  clinicId: string | null
+  patientId: string | null
+  allergen: string | null
+  allergenType: $Enums.AllergenType | null
+  drugId: string | null
+  reaction: string | null
+  severity: $Enums.AllergySeverity | null
+  verificationStatus: $Enums.AllergyVerificationStatus | null
+  onsetDate: Date | null
+  notes: string | null
+  sourceText: string | null
+  needsReview: boolean | null
+  reviewedAt: Date | null
+  reviewedById: string | null
+  recordedById: string | null
+  isActive: boolean | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type PatientAllergyMaxAggregateOutputType = {
+  id: string | null
+  clinicId: string | null
+  patientId: string | null
+  allergen: string | null
+  allergenType: $Enums.AllergenType | null
+  drugId: string | null
+  reaction: string | null
+  severity: $Enums.AllergySeverity | null
+  verificationStatus: $Enums.AllergyVerificationStatus | null
+  onsetDate: Date | null
+  notes: string | null
+  sourceText: string | null
+  needsReview: boolean | null
+  reviewedAt: Date | null
+  reviewedById: string | null
+  recordedById: string | null
+  isActive: boolean | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type PatientAllergyCountAggregateOutputType = {
+  id: number
+  clinicId: number
+  patientId: number
+  allergen: number
+  allergenType: number
+  drugId: number
+  reaction: number
+  severity: number
+  verificationStatus: number
+  onsetDate: number
+  notes: number
+  sourceText: number
+  needsReview: number
+  reviewedAt: number
+  reviewedById: number
+  recordedById: number
+  isActive: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type PatientAllergyMinAggregateInputType = {
+  id?: true
+  clinicId?: true
+  patientId?: true
+  allergen?: true
+  allergenType?: true
+  drugId?: true
+  reaction?: true
+  severity?: true
+  verificationStatus?: true
+  onsetDate?: true
+  notes?: true
+  sourceText?: true
+  needsReview?: true
+  reviewedAt?: true
+  reviewedById?: true
+  recordedById?: true
+  isActive?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type PatientAllergyMaxAggregateInputType = {
+  id?: true
+  clinicId?: true
+  patientId?: true
+  allergen?: true
+  allergenType?: true
+  drugId?: true
+  reaction?: true
+  severity?: true
+  verificationStatus?: true
+  onsetDate?: true
+  notes?: true
+  sourceText?: true
+  needsReview?: true
+  reviewedAt?: true
+  reviewedById?: true
+  recordedById?: true
+  isActive?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type PatientAllergyCountAggregateInputType = {
+  id?: true
+  clinicId?: true
+  patientId?: true
+  allergen?: true
+  allergenType?: true
+  drugId?: true
+  reaction?: true
+  severity?: true
+  verificationStatus?: true
+  onsetDate?: true
+  notes?: true
+  sourceText?: true
+  needsReview?: true
+  reviewedAt?: true
+  reviewedById?: true
+  recordedById?: true
+  isActive?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type PatientAllergyAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PatientAllergy to aggregate.
+   */
+  where?: Prisma.PatientAllergyWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PatientAllergies to fetch.
+   */
+  orderBy?: Prisma.PatientAllergyOrderByWithRelationInput | Prisma.PatientAllergyOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.PatientAllergyWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PatientAllergies from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PatientAllergies.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned PatientAllergies
+  **/
+  _count?: true | PatientAllergyCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: PatientAllergyMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: PatientAllergyMaxAggregateInputType
+}
+
+export type GetPatientAllergyAggregateType<T extends PatientAllergyAggregateArgs> = {
+      [P in keyof T & keyof AggregatePatientAllergy]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregatePatientAllergy[P]>
+    : Prisma.GetScalarType<T[P], AggregatePatientAllergy[P]>
+}
+
+
+
+
+export type PatientAllergyGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PatientAllergyWhereInput
+  orderBy?: Prisma.PatientAllergyOrderByWithAggregationInput | Prisma.PatientAllergyOrderByWithAggregationInput[]
+  by: Prisma.PatientAllergyScalarFieldEnum[] | Prisma.PatientAllergyScalarFieldEnum
+  having?: Prisma.PatientAllergyScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: PatientAllergyCountAggregateInputType | true
+  _min?: PatientAllergyMinAggregateInputType
+  _max?: PatientAllergyMaxAggregateInputType
+}
+
+export type PatientAllergyGroupByOutputType = {
+  id: string
+  clinicId: string
+  patientId: string
+  allergen: string
+  allergenType: $Enums.AllergenType
+  drugId: string | null
+  reaction: string | null
+  severity: $Enums.AllergySeverity | null
+  verificationStatus: $Enums.AllergyVerificationStatus
+  onsetDate: Date | null
+  notes: string | null
+  sourceText: string | null
+  needsReview: boolean
+  reviewedAt: Date | null
+  reviewedById: string | null
+  recordedById: string | null
+  isActive: boolean
+  createdAt: Date
+  updatedAt: Date
+  _count: PatientAllergyCountAggregateOutputType | null
+  _min: PatientAllergyMinAggregateOutputType | null
+  _max: PatientAllergyMaxAggregateOutputType | null
+}
+
+type GetPatientAllergyGroupByPayload<T extends PatientAllergyGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<PatientAllergyGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof PatientAllergyGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], PatientAllergyGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], PatientAllergyGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type PatientAllergyWhereInput = {
+  AND?: Prisma.PatientAllergyWhereInput | Prisma.PatientAllergyWhereInput[]
+  OR?: Prisma.PatientAllergyWhereInput[]
+  NOT?: Prisma.PatientAllergyWhereInput | Prisma.PatientAllergyWhereInput[]
+  id?: Prisma.StringFilter<"PatientAllergy"> | string
+  clinicId?: Prisma.StringFilter<"PatientAllergy"> | string
+  patientId?: Prisma.StringFilter<"PatientAllergy"> | string
+  allergen?: Prisma.StringFilter<"PatientAllergy"> | string
+  allergenType?: Prisma.EnumAllergenTypeFilter<"PatientAllergy"> | $Enums.AllergenType
+  drugId?: Prisma.StringNullableFilter<"PatientAllergy"> | string | null
+  reaction?: Prisma.StringNullableFilter<"PatientAllergy"> | string | null
+  severity?: Prisma.EnumAllergySeverityNullableFilter<"PatientAllergy"> | $Enums.AllergySeverity | null
+  verificationStatus?: Prisma.EnumAllergyVerificationStatusFilter<"PatientAllergy"> | $Enums.AllergyVerificationStatus
+  onsetDate?: Prisma.DateTimeNullableFilter<"PatientAllergy"> | Date | string | null
+  notes?: Prisma.StringNullableFilter<"PatientAllergy"> | string | null
+  sourceText?: Prisma.StringNullableFilter<"PatientAllergy"> | string | null
+  needsReview?: Prisma.BoolFilter<"PatientAllergy"> | boolean
+  reviewedAt?: Prisma.DateTimeNullableFilter<"PatientAllergy"> | Date | string | null
+  reviewedById?: Prisma.StringNullableFilter<"PatientAllergy"> | string | null
+  recordedById?: Prisma.StringNullableFilter<"PatientAllergy"> | string | null
+  isActive?: Prisma.BoolFilter<"PatientAllergy"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"PatientAllergy"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"PatientAllergy"> | Date | string
+  clinic?: Prisma.XOR<Prisma.ClinicScalarRelationFilter, Prisma.ClinicWhereInput>
+  patient?: Prisma.XOR<Prisma.PatientScalarRelationFilter, Prisma.PatientWhereInput>
+  drug?: Prisma.XOR<Prisma.DrugNullableScalarRelationFilter, Prisma.DrugWhereInput> | null
+}
+
+export type PatientAllergyOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  patientId?: Prisma.SortOrder
+  allergen?: Prisma.SortOrder
+  allergenType?: Prisma.SortOrder
+  drugId?: Prisma.SortOrderInput | Prisma.SortOrder
+  reaction?: Prisma.SortOrderInput | Prisma.SortOrder
+  severity?: Prisma.SortOrderInput | Prisma.SortOrder
+  verificationStatus?: Prisma.SortOrder
+  onsetDate?: Prisma.SortOrderInput | Prisma.SortOrder
+  notes?: Prisma.SortOrderInput | Prisma.SortOrder
+  sourceText?: Prisma.SortOrderInput | Prisma.SortOrder
+  needsReview?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  recordedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  clinic?: Prisma.ClinicOrderByWithRelationInput
+  patient?: Prisma.PatientOrderByWithRelationInput
+  drug?: Prisma.DrugOrderByWithRelationInput
+}
+
+export type PatientAllergyWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.PatientAllergyWhereInput | Prisma.PatientAllergyWhereInput[]
+  OR?: Prisma.PatientAllergyWhereInput[]
+  NOT?: Prisma.PatientAllergyWhereInput | Prisma.PatientAllergyWhereInput[]
+  clinicId?: Prisma.StringFilter<"PatientAllergy"> | string
+  patientId?: Prisma.StringFilter<"PatientAllergy"> | string
+  allergen?: Prisma.StringFilter<"PatientAllergy"> | string
+  allergenType?: Prisma.EnumAllergenTypeFilter<"PatientAllergy"> | $Enums.AllergenType
+  drugId?: Prisma.StringNullableFilter<"PatientAllergy"> | string | null
+  reaction?: Prisma.StringNullableFilter<"PatientAllergy"> | string | null
+  severity?: Prisma.EnumAllergySeverityNullableFilter<"PatientAllergy"> | $Enums.AllergySeverity | null
+  verificationStatus?: Prisma.EnumAllergyVerificationStatusFilter<"PatientAllergy"> | $Enums.AllergyVerificationStatus
+  onsetDate?: Prisma.DateTimeNullableFilter<"PatientAllergy"> | Date | string | null
+  notes?: Prisma.StringNullableFilter<"PatientAllergy"> | string | null
+  sourceText?: Prisma.StringNullableFilter<"PatientAllergy"> | string | null
+  needsReview?: Prisma.BoolFilter<"PatientAllergy"> | boolean
+  reviewedAt?: Prisma.DateTimeNullableFilter<"PatientAllergy"> | Date | string | null
+  reviewedById?: Prisma.StringNullableFilter<"PatientAllergy"> | string | null
+  recordedById?: Prisma.StringNullableFilter<"PatientAllergy"> | string | null
+  isActive?: Prisma.BoolFilter<"PatientAllergy"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"PatientAllergy"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"PatientAllergy"> | Date | string
+  clinic?: Prisma.XOR<Prisma.ClinicScalarRelationFilter, Prisma.ClinicWhereInput>
+  patient?: Prisma.XOR<Prisma.PatientScalarRelationFilter, Prisma.PatientWhereInput>
+  drug?: Prisma.XOR<Prisma.DrugNullableScalarRelationFilter, Prisma.DrugWhereInput> | null
+}, "id">
+
+export type PatientAllergyOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  patientId?: Prisma.SortOrder
+  allergen?: Prisma.SortOrder
+  allergenType?: Prisma.SortOrder
+  drugId?: Prisma.SortOrderInput | Prisma.SortOrder
+  reaction?: Prisma.SortOrderInput | Prisma.SortOrder
+  severity?: Prisma.SortOrderInput | Prisma.SortOrder
+  verificationStatus?: Prisma.SortOrder
+  onsetDate?: Prisma.SortOrderInput | Prisma.SortOrder
+  notes?: Prisma.SortOrderInput | Prisma.SortOrder
+  sourceText?: Prisma.SortOrderInput | Prisma.SortOrder
+  needsReview?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  recordedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.PatientAllergyCountOrderByAggregateInput
+  _max?: Prisma.PatientAllergyMaxOrderByAggregateInput
+  _min?: Prisma.PatientAllergyMinOrderByAggregateInput
+}
+
+export type PatientAllergyScalarWhereWithAggregatesInput = {
+  AND?: Prisma.PatientAllergyScalarWhereWithAggregatesInput | Prisma.PatientAllergyScalarWhereWithAggregatesInput[]
+  OR?: Prisma.PatientAllergyScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.PatientAllergyScalarWhereWithAggregatesInput | Prisma.PatientAllergyScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"PatientAllergy"> | string
+  clinicId?: Prisma.StringWithAggregatesFilter<"PatientAllergy"> | string
+  patientId?: Prisma.StringWithAggregatesFilter<"PatientAllergy"> | string
+  allergen?: Prisma.StringWithAggregatesFilter<"PatientAllergy"> | string
+  allergenType?: Prisma.EnumAllergenTypeWithAggregatesFilter<"PatientAllergy"> | $Enums.AllergenType
+  drugId?: Prisma.StringNullableWithAggregatesFilter<"PatientAllergy"> | string | null
+  reaction?: Prisma.StringNullableWithAggregatesFilter<"PatientAllergy"> | string | null
+  severity?: Prisma.EnumAllergySeverityNullableWithAggregatesFilter<"PatientAllergy"> | $Enums.AllergySeverity | null
+  verificationStatus?: Prisma.EnumAllergyVerificationStatusWithAggregatesFilter<"PatientAllergy"> | $Enums.AllergyVerificationStatus
+  onsetDate?: Prisma.DateTimeNullableWithAggregatesFilter<"PatientAllergy"> | Date | string | null
+  notes?: Prisma.StringNullableWithAggregatesFilter<"PatientAllergy"> | string | null
+  sourceText?: Prisma.StringNullableWithAggregatesFilter<"PatientAllergy"> | string | null
+  needsReview?: Prisma.BoolWithAggregatesFilter<"PatientAllergy"> | boolean
+  reviewedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"PatientAllergy"> | Date | string | null
+  reviewedById?: Prisma.StringNullableWithAggregatesFilter<"PatientAllergy"> | string | null
+  recordedById?: Prisma.StringNullableWithAggregatesFilter<"PatientAllergy"> | string | null
+  isActive?: Prisma.BoolWithAggregatesFilter<"PatientAllergy"> | boolean
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"PatientAllergy"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"PatientAllergy"> | Date | string
+}
+
+export type PatientAllergyCreateInput = {
+  id?: string
+  allergen: string
+  allergenType?: $Enums.AllergenType
+  reaction?: string | null
+  severity?: $Enums.AllergySeverity | null
+  verificationStatus?: $Enums.AllergyVerificationStatus
+  onsetDate?: Date | string | null
+  notes?: string | null
+  sourceText?: string | null
+  needsReview?: boolean
+  reviewedAt?: Date | string | null
+  reviewedById?: string | null
+  recordedById?: string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  clinic: Prisma.ClinicCreateNestedOneWithoutPatientAllergiesInput
+  patient: Prisma.PatientCreateNestedOneWithoutAllergyRecordsInput
+  drug?: Prisma.DrugCreateNestedOneWithoutAllergiesInput
+}
+
+export type PatientAllergyUncheckedCreateInput = {
+  id?: string
+  clinicId: string
+  patientId: string
+  allergen: string
+  allergenType?: $Enums.AllergenType
+  drugId?: string | null
+  reaction?: string | null
+  severity?: $Enums.AllergySeverity | null
+  verificationStatus?: $Enums.AllergyVerificationStatus
+  onsetDate?: Date | string | null
+  notes?: string | null
+  sourceText?: string | null
+  needsReview?: boolean
+  reviewedAt?: Date | string | null
+  reviewedById?: string | null
+  recordedById?: string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PatientAllergyUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  allergen?: Prisma.StringFieldUpdateOperationsInput | string
+  allergenType?: Prisma.EnumAllergenTypeFieldUpdateOperationsInput | $Enums.AllergenType
+  reaction?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  severity?: Prisma.NullableEnumAllergySeverityFieldUpdateOperationsInput | $Enums.AllergySeverity | null
+  verificationStatus?: Prisma.EnumAllergyVerificationStatusFieldUpdateOperationsInput | $Enums.AllergyVerificationStatus
+  onsetDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  needsReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutPatientAllergiesNestedInput
+  patient?: Prisma.PatientUpdateOneRequiredWithoutAllergyRecordsNestedInput
+  drug?: Prisma.DrugUpdateOneWithoutAllergiesNestedInput
+}
+
+export type PatientAllergyUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  allergen?: Prisma.StringFieldUpdateOperationsInput | string
+  allergenType?: Prisma.EnumAllergenTypeFieldUpdateOperationsInput | $Enums.AllergenType
+  drugId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reaction?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  severity?: Prisma.NullableEnumAllergySeverityFieldUpdateOperationsInput | $Enums.AllergySeverity | null
+  verificationStatus?: Prisma.EnumAllergyVerificationStatusFieldUpdateOperationsInput | $Enums.AllergyVerificationStatus
+  onsetDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  needsReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PatientAllergyCreateManyInput = {
+  id?: string
+  clinicId: string
+  patientId: string
+  allergen: string
+  allergenType?: $Enums.AllergenType
+  drugId?: string | null
+  reaction?: string | null
+  severity?: $Enums.AllergySeverity | null
+  verificationStatus?: $Enums.AllergyVerificationStatus
+  onsetDate?: Date | string | null
+  notes?: string | null
+  sourceText?: string | null
+  needsReview?: boolean
+  reviewedAt?: Date | string | null
+  reviewedById?: string | null
+  recordedById?: string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PatientAllergyUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  allergen?: Prisma.StringFieldUpdateOperationsInput | string
+  allergenType?: Prisma.EnumAllergenTypeFieldUpdateOperationsInput | $Enums.AllergenType
+  reaction?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  severity?: Prisma.NullableEnumAllergySeverityFieldUpdateOperationsInput | $Enums.AllergySeverity | null
+  verificationStatus?: Prisma.EnumAllergyVerificationStatusFieldUpdateOperationsInput | $Enums.AllergyVerificationStatus
+  onsetDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  needsReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PatientAllergyUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  allergen?: Prisma.StringFieldUpdateOperationsInput | string
+  allergenType?: Prisma.EnumAllergenTypeFieldUpdateOperationsInput | $Enums.AllergenType
+  drugId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reaction?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  severity?: Prisma.NullableEnumAllergySeverityFieldUpdateOperationsInput | $Enums.AllergySeverity | null
+  verificationStatus?: Prisma.EnumAllergyVerificationStatusFieldUpdateOperationsInput | $Enums.AllergyVerificationStatus
+  onsetDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  needsReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PatientAllergyListRelationFilter = {
+  every?: Prisma.PatientAllergyWhereInput
+  some?: Prisma.PatientAllergyWhereInput
+  none?: Prisma.PatientAllergyWhereInput
+}
+
+export type PatientAllergyOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type PatientAllergyCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  patientId?: Prisma.SortOrder
+  allergen?: Prisma.SortOrder
+  allergenType?: Prisma.SortOrder
+  drugId?: Prisma.SortOrder
+  reaction?: Prisma.SortOrder
+  severity?: Prisma.SortOrder
+  verificationStatus?: Prisma.SortOrder
+  onsetDate?: Prisma.SortOrder
+  notes?: Prisma.SortOrder
+  sourceText?: Prisma.SortOrder
+  needsReview?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrder
+  reviewedById?: Prisma.SortOrder
+  recordedById?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PatientAllergyMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  patientId?: Prisma.SortOrder
+  allergen?: Prisma.SortOrder
+  allergenType?: Prisma.SortOrder
+  drugId?: Prisma.SortOrder
+  reaction?: Prisma.SortOrder
+  severity?: Prisma.SortOrder
+  verificationStatus?: Prisma.SortOrder
+  onsetDate?: Prisma.SortOrder
+  notes?: Prisma.SortOrder
+  sourceText?: Prisma.SortOrder
+  needsReview?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrder
+  reviewedById?: Prisma.SortOrder
+  recordedById?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PatientAllergyMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  patientId?: Prisma.SortOrder
+  allergen?: Prisma.SortOrder
+  allergenType?: Prisma.SortOrder
+  drugId?: Prisma.SortOrder
+  reaction?: Prisma.SortOrder
+  severity?: Prisma.SortOrder
+  verificationStatus?: Prisma.SortOrder
+  onsetDate?: Prisma.SortOrder
+  notes?: Prisma.SortOrder
+  sourceText?: Prisma.SortOrder
+  needsReview?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrder
+  reviewedById?: Prisma.SortOrder
+  recordedById?: Prisma.SortOrder
+  isActive?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PatientAllergyCreateNestedManyWithoutClinicInput = {
+  create?: Prisma.XOR<Prisma.PatientAllergyCreateWithoutClinicInput, Prisma.PatientAllergyUncheckedCreateWithoutClinicInput> | Prisma.PatientAllergyCreateWithoutClinicInput[] | Prisma.PatientAllergyUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.PatientAllergyCreateOrConnectWithoutClinicInput | Prisma.PatientAllergyCreateOrConnectWithoutClinicInput[]
+  createMany?: Prisma.PatientAllergyCreateManyClinicInputEnvelope
+  connect?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+}
+
+export type PatientAllergyUncheckedCreateNestedManyWithoutClinicInput = {
+  create?: Prisma.XOR<Prisma.PatientAllergyCreateWithoutClinicInput, Prisma.PatientAllergyUncheckedCreateWithoutClinicInput> | Prisma.PatientAllergyCreateWithoutClinicInput[] | Prisma.PatientAllergyUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.PatientAllergyCreateOrConnectWithoutClinicInput | Prisma.PatientAllergyCreateOrConnectWithoutClinicInput[]
+  createMany?: Prisma.PatientAllergyCreateManyClinicInputEnvelope
+  connect?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+}
+
+export type PatientAllergyUpdateManyWithoutClinicNestedInput = {
+  create?: Prisma.XOR<Prisma.PatientAllergyCreateWithoutClinicInput, Prisma.PatientAllergyUncheckedCreateWithoutClinicInput> | Prisma.PatientAllergyCreateWithoutClinicInput[] | Prisma.PatientAllergyUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.PatientAllergyCreateOrConnectWithoutClinicInput | Prisma.PatientAllergyCreateOrConnectWithoutClinicInput[]
+  upsert?: Prisma.PatientAllergyUpsertWithWhereUniqueWithoutClinicInput | Prisma.PatientAllergyUpsertWithWhereUniqueWithoutClinicInput[]
+  createMany?: Prisma.PatientAllergyCreateManyClinicInputEnvelope
+  set?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+  disconnect?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+  delete?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+  connect?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+  update?: Prisma.PatientAllergyUpdateWithWhereUniqueWithoutClinicInput | Prisma.PatientAllergyUpdateWithWhereUniqueWithoutClinicInput[]
+  updateMany?: Prisma.PatientAllergyUpdateManyWithWhereWithoutClinicInput | Prisma.PatientAllergyUpdateManyWithWhereWithoutClinicInput[]
+  deleteMany?: Prisma.PatientAllergyScalarWhereInput | Prisma.PatientAllergyScalarWhereInput[]
+}
+
+export type PatientAllergyUncheckedUpdateManyWithoutClinicNestedInput = {
+  create?: Prisma.XOR<Prisma.PatientAllergyCreateWithoutClinicInput, Prisma.PatientAllergyUncheckedCreateWithoutClinicInput> | Prisma.PatientAllergyCreateWithoutClinicInput[] | Prisma.PatientAllergyUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.PatientAllergyCreateOrConnectWithoutClinicInput | Prisma.PatientAllergyCreateOrConnectWithoutClinicInput[]
+  upsert?: Prisma.PatientAllergyUpsertWithWhereUniqueWithoutClinicInput | Prisma.PatientAllergyUpsertWithWhereUniqueWithoutClinicInput[]
+  createMany?: Prisma.PatientAllergyCreateManyClinicInputEnvelope
+  set?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+  disconnect?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+  delete?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+  connect?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+  update?: Prisma.PatientAllergyUpdateWithWhereUniqueWithoutClinicInput | Prisma.PatientAllergyUpdateWithWhereUniqueWithoutClinicInput[]
+  updateMany?: Prisma.PatientAllergyUpdateManyWithWhereWithoutClinicInput | Prisma.PatientAllergyUpdateManyWithWhereWithoutClinicInput[]
+  deleteMany?: Prisma.PatientAllergyScalarWhereInput | Prisma.PatientAllergyScalarWhereInput[]
+}
+
+export type PatientAllergyCreateNestedManyWithoutDrugInput = {
+  create?: Prisma.XOR<Prisma.PatientAllergyCreateWithoutDrugInput, Prisma.PatientAllergyUncheckedCreateWithoutDrugInput> | Prisma.PatientAllergyCreateWithoutDrugInput[] | Prisma.PatientAllergyUncheckedCreateWithoutDrugInput[]
+  connectOrCreate?: Prisma.PatientAllergyCreateOrConnectWithoutDrugInput | Prisma.PatientAllergyCreateOrConnectWithoutDrugInput[]
+  createMany?: Prisma.PatientAllergyCreateManyDrugInputEnvelope
+  connect?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+}
+
+export type PatientAllergyUncheckedCreateNestedManyWithoutDrugInput = {
+  create?: Prisma.XOR<Prisma.PatientAllergyCreateWithoutDrugInput, Prisma.PatientAllergyUncheckedCreateWithoutDrugInput> | Prisma.PatientAllergyCreateWithoutDrugInput[] | Prisma.PatientAllergyUncheckedCreateWithoutDrugInput[]
+  connectOrCreate?: Prisma.PatientAllergyCreateOrConnectWithoutDrugInput | Prisma.PatientAllergyCreateOrConnectWithoutDrugInput[]
+  createMany?: Prisma.PatientAllergyCreateManyDrugInputEnvelope
+  connect?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+}
+
+export type PatientAllergyUpdateManyWithoutDrugNestedInput = {
+  create?: Prisma.XOR<Prisma.PatientAllergyCreateWithoutDrugInput, Prisma.PatientAllergyUncheckedCreateWithoutDrugInput> | Prisma.PatientAllergyCreateWithoutDrugInput[] | Prisma.PatientAllergyUncheckedCreateWithoutDrugInput[]
+  connectOrCreate?: Prisma.PatientAllergyCreateOrConnectWithoutDrugInput | Prisma.PatientAllergyCreateOrConnectWithoutDrugInput[]
+  upsert?: Prisma.PatientAllergyUpsertWithWhereUniqueWithoutDrugInput | Prisma.PatientAllergyUpsertWithWhereUniqueWithoutDrugInput[]
+  createMany?: Prisma.PatientAllergyCreateManyDrugInputEnvelope
+  set?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+  disconnect?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+  delete?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+  connect?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+  update?: Prisma.PatientAllergyUpdateWithWhereUniqueWithoutDrugInput | Prisma.PatientAllergyUpdateWithWhereUniqueWithoutDrugInput[]
+  updateMany?: Prisma.PatientAllergyUpdateManyWithWhereWithoutDrugInput | Prisma.PatientAllergyUpdateManyWithWhereWithoutDrugInput[]
+  deleteMany?: Prisma.PatientAllergyScalarWhereInput | Prisma.PatientAllergyScalarWhereInput[]
+}
+
+export type PatientAllergyUncheckedUpdateManyWithoutDrugNestedInput = {
+  create?: Prisma.XOR<Prisma.PatientAllergyCreateWithoutDrugInput, Prisma.PatientAllergyUncheckedCreateWithoutDrugInput> | Prisma.PatientAllergyCreateWithoutDrugInput[] | Prisma.PatientAllergyUncheckedCreateWithoutDrugInput[]
+  connectOrCreate?: Prisma.PatientAllergyCreateOrConnectWithoutDrugInput | Prisma.PatientAllergyCreateOrConnectWithoutDrugInput[]
+  upsert?: Prisma.PatientAllergyUpsertWithWhereUniqueWithoutDrugInput | Prisma.PatientAllergyUpsertWithWhereUniqueWithoutDrugInput[]
+  createMany?: Prisma.PatientAllergyCreateManyDrugInputEnvelope
+  set?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+  disconnect?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+  delete?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+  connect?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+  update?: Prisma.PatientAllergyUpdateWithWhereUniqueWithoutDrugInput | Prisma.PatientAllergyUpdateWithWhereUniqueWithoutDrugInput[]
+  updateMany?: Prisma.PatientAllergyUpdateManyWithWhereWithoutDrugInput | Prisma.PatientAllergyUpdateManyWithWhereWithoutDrugInput[]
+  deleteMany?: Prisma.PatientAllergyScalarWhereInput | Prisma.PatientAllergyScalarWhereInput[]
+}
+
+export type PatientAllergyCreateNestedManyWithoutPatientInput = {
+  create?: Prisma.XOR<Prisma.PatientAllergyCreateWithoutPatientInput, Prisma.PatientAllergyUncheckedCreateWithoutPatientInput> | Prisma.PatientAllergyCreateWithoutPatientInput[] | Prisma.PatientAllergyUncheckedCreateWithoutPatientInput[]
+  connectOrCreate?: Prisma.PatientAllergyCreateOrConnectWithoutPatientInput | Prisma.PatientAllergyCreateOrConnectWithoutPatientInput[]
+  createMany?: Prisma.PatientAllergyCreateManyPatientInputEnvelope
+  connect?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+}
+
+export type PatientAllergyUncheckedCreateNestedManyWithoutPatientInput = {
+  create?: Prisma.XOR<Prisma.PatientAllergyCreateWithoutPatientInput, Prisma.PatientAllergyUncheckedCreateWithoutPatientInput> | Prisma.PatientAllergyCreateWithoutPatientInput[] | Prisma.PatientAllergyUncheckedCreateWithoutPatientInput[]
+  connectOrCreate?: Prisma.PatientAllergyCreateOrConnectWithoutPatientInput | Prisma.PatientAllergyCreateOrConnectWithoutPatientInput[]
+  createMany?: Prisma.PatientAllergyCreateManyPatientInputEnvelope
+  connect?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+}
+
+export type PatientAllergyUpdateManyWithoutPatientNestedInput = {
+  create?: Prisma.XOR<Prisma.PatientAllergyCreateWithoutPatientInput, Prisma.PatientAllergyUncheckedCreateWithoutPatientInput> | Prisma.PatientAllergyCreateWithoutPatientInput[] | Prisma.PatientAllergyUncheckedCreateWithoutPatientInput[]
+  connectOrCreate?: Prisma.PatientAllergyCreateOrConnectWithoutPatientInput | Prisma.PatientAllergyCreateOrConnectWithoutPatientInput[]
+  upsert?: Prisma.PatientAllergyUpsertWithWhereUniqueWithoutPatientInput | Prisma.PatientAllergyUpsertWithWhereUniqueWithoutPatientInput[]
+  createMany?: Prisma.PatientAllergyCreateManyPatientInputEnvelope
+  set?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+  disconnect?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+  delete?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+  connect?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+  update?: Prisma.PatientAllergyUpdateWithWhereUniqueWithoutPatientInput | Prisma.PatientAllergyUpdateWithWhereUniqueWithoutPatientInput[]
+  updateMany?: Prisma.PatientAllergyUpdateManyWithWhereWithoutPatientInput | Prisma.PatientAllergyUpdateManyWithWhereWithoutPatientInput[]
+  deleteMany?: Prisma.PatientAllergyScalarWhereInput | Prisma.PatientAllergyScalarWhereInput[]
+}
+
+export type PatientAllergyUncheckedUpdateManyWithoutPatientNestedInput = {
+  create?: Prisma.XOR<Prisma.PatientAllergyCreateWithoutPatientInput, Prisma.PatientAllergyUncheckedCreateWithoutPatientInput> | Prisma.PatientAllergyCreateWithoutPatientInput[] | Prisma.PatientAllergyUncheckedCreateWithoutPatientInput[]
+  connectOrCreate?: Prisma.PatientAllergyCreateOrConnectWithoutPatientInput | Prisma.PatientAllergyCreateOrConnectWithoutPatientInput[]
+  upsert?: Prisma.PatientAllergyUpsertWithWhereUniqueWithoutPatientInput | Prisma.PatientAllergyUpsertWithWhereUniqueWithoutPatientInput[]
+  createMany?: Prisma.PatientAllergyCreateManyPatientInputEnvelope
+  set?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+  disconnect?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+  delete?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+  connect?: Prisma.PatientAllergyWhereUniqueInput | Prisma.PatientAllergyWhereUniqueInput[]
+  update?: Prisma.PatientAllergyUpdateWithWhereUniqueWithoutPatientInput | Prisma.PatientAllergyUpdateWithWhereUniqueWithoutPatientInput[]
+  updateMany?: Prisma.PatientAllergyUpdateManyWithWhereWithoutPatientInput | Prisma.PatientAllergyUpdateManyWithWhereWithoutPatientInput[]
+  deleteMany?: Prisma.PatientAllergyScalarWhereInput | Prisma.PatientAllergyScalarWhereInput[]
+}
+
+export type EnumAllergenTypeFieldUpdateOperationsInput = {
+  set?: $Enums.AllergenType
+}
+
+export type NullableEnumAllergySeverityFieldUpdateOperationsInput = {
+  set?: $Enums.AllergySeverity | null
+}
+
+export type EnumAllergyVerificationStatusFieldUpdateOperationsInput = {
+  set?: $Enums.AllergyVerificationStatus
+}
+
+export type PatientAllergyCreateWithoutClinicInput = {
+  id?: string
+  allergen: string
+  allergenType?: $Enums.AllergenType
+  reaction?: string | null
+  severity?: $Enums.AllergySeverity | null
+  verificationStatus?: $Enums.AllergyVerificationStatus
+  onsetDate?: Date | string | null
+  notes?: string | null
+  sourceText?: string | null
+  needsReview?: boolean
+  reviewedAt?: Date | string | null
+  reviewedById?: string | null
+  recordedById?: string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  patient: Prisma.PatientCreateNestedOneWithoutAllergyRecordsInput
+  drug?: Prisma.DrugCreateNestedOneWithoutAllergiesInput
+}
+
+export type PatientAllergyUncheckedCreateWithoutClinicInput = {
+  id?: string
+  patientId: string
+  allergen: string
+  allergenType?: $Enums.AllergenType
+  drugId?: string | null
+  reaction?: string | null
+  severity?: $Enums.AllergySeverity | null
+  verificationStatus?: $Enums.AllergyVerificationStatus
+  onsetDate?: Date | string | null
+  notes?: string | null
+  sourceText?: string | null
+  needsReview?: boolean
+  reviewedAt?: Date | string | null
+  reviewedById?: string | null
+  recordedById?: string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PatientAllergyCreateOrConnectWithoutClinicInput = {
+  where: Prisma.PatientAllergyWhereUniqueInput
+  create: Prisma.XOR<Prisma.PatientAllergyCreateWithoutClinicInput, Prisma.PatientAllergyUncheckedCreateWithoutClinicInput>
+}
+
+export type PatientAllergyCreateManyClinicInputEnvelope = {
+  data: Prisma.PatientAllergyCreateManyClinicInput | Prisma.PatientAllergyCreateManyClinicInput[]
+  skipDuplicates?: boolean
+}
+
+export type PatientAllergyUpsertWithWhereUniqueWithoutClinicInput = {
+  where: Prisma.PatientAllergyWhereUniqueInput
+  update: Prisma.XOR<Prisma.PatientAllergyUpdateWithoutClinicInput, Prisma.PatientAllergyUncheckedUpdateWithoutClinicInput>
+  create: Prisma.XOR<Prisma.PatientAllergyCreateWithoutClinicInput, Prisma.PatientAllergyUncheckedCreateWithoutClinicInput>
+}
+
+export type PatientAllergyUpdateWithWhereUniqueWithoutClinicInput = {
+  where: Prisma.PatientAllergyWhereUniqueInput
+  data: Prisma.XOR<Prisma.PatientAllergyUpdateWithoutClinicInput, Prisma.PatientAllergyUncheckedUpdateWithoutClinicInput>
+}
+
+export type PatientAllergyUpdateManyWithWhereWithoutClinicInput = {
+  where: Prisma.PatientAllergyScalarWhereInput
+  data: Prisma.XOR<Prisma.PatientAllergyUpdateManyMutationInput, Prisma.PatientAllergyUncheckedUpdateManyWithoutClinicInput>
+}
+
+export type PatientAllergyScalarWhereInput = {
+  AND?: Prisma.PatientAllergyScalarWhereInput | Prisma.PatientAllergyScalarWhereInput[]
+  OR?: Prisma.PatientAllergyScalarWhereInput[]
+  NOT?: Prisma.PatientAllergyScalarWhereInput | Prisma.PatientAllergyScalarWhereInput[]
+  id?: Prisma.StringFilter<"PatientAllergy"> | string
+  clinicId?: Prisma.StringFilter<"PatientAllergy"> | string
+  patientId?: Prisma.StringFilter<"PatientAllergy"> | string
+  allergen?: Prisma.StringFilter<"PatientAllergy"> | string
+  allergenType?: Prisma.EnumAllergenTypeFilter<"PatientAllergy"> | $Enums.AllergenType
+  drugId?: Prisma.StringNullableFilter<"PatientAllergy"> | string | null
+  reaction?: Prisma.StringNullableFilter<"PatientAllergy"> | string | null
+  severity?: Prisma.EnumAllergySeverityNullableFilter<"PatientAllergy"> | $Enums.AllergySeverity | null
+  verificationStatus?: Prisma.EnumAllergyVerificationStatusFilter<"PatientAllergy"> | $Enums.AllergyVerificationStatus
+  onsetDate?: Prisma.DateTimeNullableFilter<"PatientAllergy"> | Date | string | null
+  notes?: Prisma.StringNullableFilter<"PatientAllergy"> | string | null
+  sourceText?: Prisma.StringNullableFilter<"PatientAllergy"> | string | null
+  needsReview?: Prisma.BoolFilter<"PatientAllergy"> | boolean
+  reviewedAt?: Prisma.DateTimeNullableFilter<"PatientAllergy"> | Date | string | null
+  reviewedById?: Prisma.StringNullableFilter<"PatientAllergy"> | string | null
+  recordedById?: Prisma.StringNullableFilter<"PatientAllergy"> | string | null
+  isActive?: Prisma.BoolFilter<"PatientAllergy"> | boolean
+  createdAt?: Prisma.DateTimeFilter<"PatientAllergy"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"PatientAllergy"> | Date | string
+}
+
+export type PatientAllergyCreateWithoutDrugInput = {
+  id?: string
+  allergen: string
+  allergenType?: $Enums.AllergenType
+  reaction?: string | null
+  severity?: $Enums.AllergySeverity | null
+  verificationStatus?: $Enums.AllergyVerificationStatus
+  onsetDate?: Date | string | null
+  notes?: string | null
+  sourceText?: string | null
+  needsReview?: boolean
+  reviewedAt?: Date | string | null
+  reviewedById?: string | null
+  recordedById?: string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  clinic: Prisma.ClinicCreateNestedOneWithoutPatientAllergiesInput
+  patient: Prisma.PatientCreateNestedOneWithoutAllergyRecordsInput
+}
+
+export type PatientAllergyUncheckedCreateWithoutDrugInput = {
+  id?: string
+  clinicId: string
+  patientId: string
+  allergen: string
+  allergenType?: $Enums.AllergenType
+  reaction?: string | null
+  severity?: $Enums.AllergySeverity | null
+  verificationStatus?: $Enums.AllergyVerificationStatus
+  onsetDate?: Date | string | null
+  notes?: string | null
+  sourceText?: string | null
+  needsReview?: boolean
+  reviewedAt?: Date | string | null
+  reviewedById?: string | null
+  recordedById?: string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PatientAllergyCreateOrConnectWithoutDrugInput = {
+  where: Prisma.PatientAllergyWhereUniqueInput
+  create: Prisma.XOR<Prisma.PatientAllergyCreateWithoutDrugInput, Prisma.PatientAllergyUncheckedCreateWithoutDrugInput>
+}
+
+export type PatientAllergyCreateManyDrugInputEnvelope = {
+  data: Prisma.PatientAllergyCreateManyDrugInput | Prisma.PatientAllergyCreateManyDrugInput[]
+  skipDuplicates?: boolean
+}
+
+export type PatientAllergyUpsertWithWhereUniqueWithoutDrugInput = {
+  where: Prisma.PatientAllergyWhereUniqueInput
+  update: Prisma.XOR<Prisma.PatientAllergyUpdateWithoutDrugInput, Prisma.PatientAllergyUncheckedUpdateWithoutDrugInput>
+  create: Prisma.XOR<Prisma.PatientAllergyCreateWithoutDrugInput, Prisma.PatientAllergyUncheckedCreateWithoutDrugInput>
+}
+
+export type PatientAllergyUpdateWithWhereUniqueWithoutDrugInput = {
+  where: Prisma.PatientAllergyWhereUniqueInput
+  data: Prisma.XOR<Prisma.PatientAllergyUpdateWithoutDrugInput, Prisma.PatientAllergyUncheckedUpdateWithoutDrugInput>
+}
+
+export type PatientAllergyUpdateManyWithWhereWithoutDrugInput = {
+  where: Prisma.PatientAllergyScalarWhereInput
+  data: Prisma.XOR<Prisma.PatientAllergyUpdateManyMutationInput, Prisma.PatientAllergyUncheckedUpdateManyWithoutDrugInput>
+}
+
+export type PatientAllergyCreateWithoutPatientInput = {
+  id?: string
+  allergen: string
+  allergenType?: $Enums.AllergenType
+  reaction?: string | null
+  severity?: $Enums.AllergySeverity | null
+  verificationStatus?: $Enums.AllergyVerificationStatus
+  onsetDate?: Date | string | null
+  notes?: string | null
+  sourceText?: string | null
+  needsReview?: boolean
+  reviewedAt?: Date | string | null
+  reviewedById?: string | null
+  recordedById?: string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  clinic: Prisma.ClinicCreateNestedOneWithoutPatientAllergiesInput
+  drug?: Prisma.DrugCreateNestedOneWithoutAllergiesInput
+}
+
+export type PatientAllergyUncheckedCreateWithoutPatientInput = {
+  id?: string
+  clinicId: string
+  allergen: string
+  allergenType?: $Enums.AllergenType
+  drugId?: string | null
+  reaction?: string | null
+  severity?: $Enums.AllergySeverity | null
+  verificationStatus?: $Enums.AllergyVerificationStatus
+  onsetDate?: Date | string | null
+  notes?: string | null
+  sourceText?: string | null
+  needsReview?: boolean
+  reviewedAt?: Date | string | null
+  reviewedById?: string | null
+  recordedById?: string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PatientAllergyCreateOrConnectWithoutPatientInput = {
+  where: Prisma.PatientAllergyWhereUniqueInput
+  create: Prisma.XOR<Prisma.PatientAllergyCreateWithoutPatientInput, Prisma.PatientAllergyUncheckedCreateWithoutPatientInput>
+}
+
+export type PatientAllergyCreateManyPatientInputEnvelope = {
+  data: Prisma.PatientAllergyCreateManyPatientInput | Prisma.PatientAllergyCreateManyPatientInput[]
+  skipDuplicates?: boolean
+}
+
+export type PatientAllergyUpsertWithWhereUniqueWithoutPatientInput = {
+  where: Prisma.PatientAllergyWhereUniqueInput
+  update: Prisma.XOR<Prisma.PatientAllergyUpdateWithoutPatientInput, Prisma.PatientAllergyUncheckedUpdateWithoutPatientInput>
+  create: Prisma.XOR<Prisma.PatientAllergyCreateWithoutPatientInput, Prisma.PatientAllergyUncheckedCreateWithoutPatientInput>
+}
+
+export type PatientAllergyUpdateWithWhereUniqueWithoutPatientInput = {
+  where: Prisma.PatientAllergyWhereUniqueInput
+  data: Prisma.XOR<Prisma.PatientAllergyUpdateWithoutPatientInput, Prisma.PatientAllergyUncheckedUpdateWithoutPatientInput>
+}
+
+export type PatientAllergyUpdateManyWithWhereWithoutPatientInput = {
+  where: Prisma.PatientAllergyScalarWhereInput
+  data: Prisma.XOR<Prisma.PatientAllergyUpdateManyMutationInput, Prisma.PatientAllergyUncheckedUpdateManyWithoutPatientInput>
+}
+
+export type PatientAllergyCreateManyClinicInput = {
+  id?: string
+  patientId: string
+  allergen: string
+  allergenType?: $Enums.AllergenType
+  drugId?: string | null
+  reaction?: string | null
+  severity?: $Enums.AllergySeverity | null
+  verificationStatus?: $Enums.AllergyVerificationStatus
+  onsetDate?: Date | string | null
+  notes?: string | null
+  sourceText?: string | null
+  needsReview?: boolean
+  reviewedAt?: Date | string | null
+  reviewedById?: string | null
+  recordedById?: string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PatientAllergyUpdateWithoutClinicInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  allergen?: Prisma.StringFieldUpdateOperationsInput | string
+  allergenType?: Prisma.EnumAllergenTypeFieldUpdateOperationsInput | $Enums.AllergenType
+  reaction?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  severity?: Prisma.NullableEnumAllergySeverityFieldUpdateOperationsInput | $Enums.AllergySeverity | null
+  verificationStatus?: Prisma.EnumAllergyVerificationStatusFieldUpdateOperationsInput | $Enums.AllergyVerificationStatus
+  onsetDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  needsReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  patient?: Prisma.PatientUpdateOneRequiredWithoutAllergyRecordsNestedInput
+  drug?: Prisma.DrugUpdateOneWithoutAllergiesNestedInput
+}
+
+export type PatientAllergyUncheckedUpdateWithoutClinicInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  allergen?: Prisma.StringFieldUpdateOperationsInput | string
+  allergenType?: Prisma.EnumAllergenTypeFieldUpdateOperationsInput | $Enums.AllergenType
+  drugId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reaction?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  severity?: Prisma.NullableEnumAllergySeverityFieldUpdateOperationsInput | $Enums.AllergySeverity | null
+  verificationStatus?: Prisma.EnumAllergyVerificationStatusFieldUpdateOperationsInput | $Enums.AllergyVerificationStatus
+  onsetDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  needsReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PatientAllergyUncheckedUpdateManyWithoutClinicInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  allergen?: Prisma.StringFieldUpdateOperationsInput | string
+  allergenType?: Prisma.EnumAllergenTypeFieldUpdateOperationsInput | $Enums.AllergenType
+  drugId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reaction?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  severity?: Prisma.NullableEnumAllergySeverityFieldUpdateOperationsInput | $Enums.AllergySeverity | null
+  verificationStatus?: Prisma.EnumAllergyVerificationStatusFieldUpdateOperationsInput | $Enums.AllergyVerificationStatus
+  onsetDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  needsReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PatientAllergyCreateManyDrugInput = {
+  id?: string
+  clinicId: string
+  patientId: string
+  allergen: string
+  allergenType?: $Enums.AllergenType
+  reaction?: string | null
+  severity?: $Enums.AllergySeverity | null
+  verificationStatus?: $Enums.AllergyVerificationStatus
+  onsetDate?: Date | string | null
+  notes?: string | null
+  sourceText?: string | null
+  needsReview?: boolean
+  reviewedAt?: Date | string | null
+  reviewedById?: string | null
+  recordedById?: string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PatientAllergyUpdateWithoutDrugInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  allergen?: Prisma.StringFieldUpdateOperationsInput | string
+  allergenType?: Prisma.EnumAllergenTypeFieldUpdateOperationsInput | $Enums.AllergenType
+  reaction?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  severity?: Prisma.NullableEnumAllergySeverityFieldUpdateOperationsInput | $Enums.AllergySeverity | null
+  verificationStatus?: Prisma.EnumAllergyVerificationStatusFieldUpdateOperationsInput | $Enums.AllergyVerificationStatus
+  onsetDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  needsReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutPatientAllergiesNestedInput
+  patient?: Prisma.PatientUpdateOneRequiredWithoutAllergyRecordsNestedInput
+}
+
+export type PatientAllergyUncheckedUpdateWithoutDrugInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  allergen?: Prisma.StringFieldUpdateOperationsInput | string
+  allergenType?: Prisma.EnumAllergenTypeFieldUpdateOperationsInput | $Enums.AllergenType
+  reaction?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  severity?: Prisma.NullableEnumAllergySeverityFieldUpdateOperationsInput | $Enums.AllergySeverity | null
+  verificationStatus?: Prisma.EnumAllergyVerificationStatusFieldUpdateOperationsInput | $Enums.AllergyVerificationStatus
+  onsetDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  needsReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PatientAllergyUncheckedUpdateManyWithoutDrugInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  allergen?: Prisma.StringFieldUpdateOperationsInput | string
+  allergenType?: Prisma.EnumAllergenTypeFieldUpdateOperationsInput | $Enums.AllergenType
+  reaction?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  severity?: Prisma.NullableEnumAllergySeverityFieldUpdateOperationsInput | $Enums.AllergySeverity | null
+  verificationStatus?: Prisma.EnumAllergyVerificationStatusFieldUpdateOperationsInput | $Enums.AllergyVerificationStatus
+  onsetDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  needsReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PatientAllergyCreateManyPatientInput = {
+  id?: string
+  clinicId: string
+  allergen: string
+  allergenType?: $Enums.AllergenType
+  drugId?: string | null
+  reaction?: string | null
+  severity?: $Enums.AllergySeverity | null
+  verificationStatus?: $Enums.AllergyVerificationStatus
+  onsetDate?: Date | string | null
+  notes?: string | null
+  sourceText?: string | null
+  needsReview?: boolean
+  reviewedAt?: Date | string | null
+  reviewedById?: string | null
+  recordedById?: string | null
+  isActive?: boolean
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PatientAllergyUpdateWithoutPatientInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  allergen?: Prisma.StringFieldUpdateOperationsInput | string
+  allergenType?: Prisma.EnumAllergenTypeFieldUpdateOperationsInput | $Enums.AllergenType
+  reaction?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  severity?: Prisma.NullableEnumAllergySeverityFieldUpdateOperationsInput | $Enums.AllergySeverity | null
+  verificationStatus?: Prisma.EnumAllergyVerificationStatusFieldUpdateOperationsInput | $Enums.AllergyVerificationStatus
+  onsetDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  needsReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutPatientAllergiesNestedInput
+  drug?: Prisma.DrugUpdateOneWithoutAllergiesNestedInput
+}
+
+export type PatientAllergyUncheckedUpdateWithoutPatientInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  allergen?: Prisma.StringFieldUpdateOperationsInput | string
+  allergenType?: Prisma.EnumAllergenTypeFieldUpdateOperationsInput | $Enums.AllergenType
+  drugId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reaction?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  severity?: Prisma.NullableEnumAllergySeverityFieldUpdateOperationsInput | $Enums.AllergySeverity | null
+  verificationStatus?: Prisma.EnumAllergyVerificationStatusFieldUpdateOperationsInput | $Enums.AllergyVerificationStatus
+  onsetDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  needsReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PatientAllergyUncheckedUpdateManyWithoutPatientInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  allergen?: Prisma.StringFieldUpdateOperationsInput | string
+  allergenType?: Prisma.EnumAllergenTypeFieldUpdateOperationsInput | $Enums.AllergenType
+  drugId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reaction?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  severity?: Prisma.NullableEnumAllergySeverityFieldUpdateOperationsInput | $Enums.AllergySeverity | null
+  verificationStatus?: Prisma.EnumAllergyVerificationStatusFieldUpdateOperationsInput | $Enums.AllergyVerificationStatus
+  onsetDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  needsReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isActive?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type PatientAllergySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  clinicId?: boolean
+  patientId?: boolean
+  allergen?: boolean
+  allergenType?: boolean
+  drugId?: boolean
+  reaction?: boolean
+  severity?: boolean
+  verificationStatus?: boolean
+  onsetDate?: boolean
+  notes?: boolean
+  sourceText?: boolean
+  needsReview?: boolean
+  reviewedAt?: boolean
+  reviewedById?: boolean
+  recordedById?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  drug?: boolean | Prisma.PatientAllergy$drugArgs<ExtArgs>
+}, ExtArgs["result"]["patientAllergy"]>
+
+export type PatientAllergySelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  clinicId?: boolean
+  patientId?: boolean
+  allergen?: boolean
+  allergenType?: boolean
+  drugId?: boolean
+  reaction?: boolean
+  severity?: boolean
+  verificationStatus?: boolean
+  onsetDate?: boolean
+  notes?: boolean
+  sourceText?: boolean
+  needsReview?: boolean
+  reviewedAt?: boolean
+  reviewedById?: boolean
+  recordedById?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  drug?: boolean | Prisma.PatientAllergy$drugArgs<ExtArgs>
+}, ExtArgs["result"]["patientAllergy"]>
+
+export type PatientAllergySelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  clinicId?: boolean
+  patientId?: boolean
+  allergen?: boolean
+  allergenType?: boolean
+  drugId?: boolean
+  reaction?: boolean
+  severity?: boolean
+  verificationStatus?: boolean
+  onsetDate?: boolean
+  notes?: boolean
+  sourceText?: boolean
+  needsReview?: boolean
+  reviewedAt?: boolean
+  reviewedById?: boolean
+  recordedById?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  drug?: boolean | Prisma.PatientAllergy$drugArgs<ExtArgs>
+}, ExtArgs["result"]["patientAllergy"]>
+
+export type PatientAllergySelectScalar = {
+  id?: boolean
+  clinicId?: boolean
+  patientId?: boolean
+  allergen?: boolean
+  allergenType?: boolean
+  drugId?: boolean
+  reaction?: boolean
+  severity?: boolean
+  verificationStatus?: boolean
+  onsetDate?: boolean
+  notes?: boolean
+  sourceText?: boolean
+  needsReview?: boolean
+  reviewedAt?: boolean
+  reviewedById?: boolean
+  recordedById?: boolean
+  isActive?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type PatientAllergyOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "clinicId" | "patientId" | "allergen" | "allergenType" | "drugId" | "reaction" | "severity" | "verificationStatus" | "onsetDate" | "notes" | "sourceText" | "needsReview" | "reviewedAt" | "reviewedById" | "recordedById" | "isActive" | "createdAt" | "updatedAt", ExtArgs["result"]["patientAllergy"]>
+export type PatientAllergyInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  drug?: boolean | Prisma.PatientAllergy$drugArgs<ExtArgs>
+}
+export type PatientAllergyIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  drug?: boolean | Prisma.PatientAllergy$drugArgs<ExtArgs>
+}
+export type PatientAllergyIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  drug?: boolean | Prisma.PatientAllergy$drugArgs<ExtArgs>
+}
+
+export type $PatientAllergyPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "PatientAllergy"
+  objects: {
+    clinic: Prisma.$ClinicPayload<ExtArgs>
+    patient: Prisma.$PatientPayload<ExtArgs>
+    drug: Prisma.$DrugPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    clinicId: string
+    patientId: string
+    allergen: string
+    allergenType: $Enums.AllergenType
+    drugId: string | null
+    reaction: string | null
+    severity: $Enums.AllergySeverity | null
+    verificationStatus: $Enums.AllergyVerificationStatus
+    onsetDate: Date | null
+    notes: string | null
+    sourceText: string | null
+    needsReview: boolean
+    reviewedAt: Date | null
+    reviewedById: string | null
+    recordedById: string | null
+    isActive: boolean
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["patientAllergy"]>
+  composites: {}
+}
+
+export type PatientAllergyGetPayload<S extends boolean | null | undefined | PatientAllergyDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$PatientAllergyPayload, S>
+
+export type PatientAllergyCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<PatientAllergyFindManyArgs, 'select' | 'include' | 'distinct' | 'omit' | 'relationLoadStrategy'> & {
+    select?: PatientAllergyCountAggregateInputType | true
+  }
+
+export interface PatientAllergyDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['PatientAllergy'], meta: { name: 'PatientAllergy' } }
+  /**
+   * Find zero or one PatientAllergy that matches the filter.
+   * @param {PatientAllergyFindUniqueArgs} args - Arguments to find a PatientAllergy
+   * @example
+   * // Get one PatientAllergy
+   * const patientAllergy = await prisma.patientAllergy.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends PatientAllergyFindUniqueArgs>(args: Prisma.SelectSubset<T, PatientAllergyFindUniqueArgs<ExtArgs>>): Prisma.Prisma__PatientAllergyClient<runtime.Types.Result.GetResult<Prisma.$PatientAllergyPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one PatientAllergy that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {PatientAllergyFindUniqueOrThrowArgs} args - Arguments to find a PatientAllergy
+   * @example
+   * // Get one PatientAllergy
+   * const patientAllergy = await prisma.patientAllergy.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends PatientAllergyFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, PatientAllergyFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__PatientAllergyClient<runtime.Types.Result.GetResult<Prisma.$PatientAllergyPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PatientAllergy that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PatientAllergyFindFirstArgs} args - Arguments to find a PatientAllergy
+   * @example
+   * // Get one PatientAllergy
+   * const patientAllergy = await prisma.patientAllergy.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends PatientAllergyFindFirstArgs>(args?: Prisma.SelectSubset<T, PatientAllergyFindFirstArgs<ExtArgs>>): Prisma.Prisma__PatientAllergyClient<runtime.Types.Result.GetResult<Prisma.$PatientAllergyPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PatientAllergy that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PatientAllergyFindFirstOrThrowArgs} args - Arguments to find a PatientAllergy
+   * @example
+   * // Get one PatientAllergy
+   * const patientAllergy = await prisma.patientAllergy.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends PatientAllergyFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, PatientAllergyFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__PatientAllergyClient<runtime.Types.Result.GetResult<Prisma.$PatientAllergyPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more PatientAllergies that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PatientAllergyFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all PatientAllergies
+   * const patientAllergies = await prisma.patientAllergy.findMany()
+   * 
+   * // Get first 10 PatientAllergies
+   * const patientAllergies = await prisma.patientAllergy.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const patientAllergyWithIdOnly = await prisma.patientAllergy.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends PatientAllergyFindManyArgs>(args?: Prisma.SelectSubset<T, PatientAllergyFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PatientAllergyPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a PatientAllergy.
+   * @param {PatientAllergyCreateArgs} args - Arguments to create a PatientAllergy.
+   * @example
+   * // Create one PatientAllergy
+   * const PatientAllergy = await prisma.patientAllergy.create({
+   *   data: {
+   *     // ... data to create a PatientAllergy
+   *   }
+   * })
+   * 
+   */
+  create<T extends PatientAllergyCreateArgs>(args: Prisma.SelectSubset<T, PatientAllergyCreateArgs<ExtArgs>>): Prisma.Prisma__PatientAllergyClient<runtime.Types.Result.GetResult<Prisma.$PatientAllergyPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many PatientAllergies.
+   * @param {PatientAllergyCreateManyArgs} args - Arguments to create many PatientAllergies.
+   * @example
+   * // Create many PatientAllergies
+   * const patientAllergy = await prisma.patientAllergy.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends PatientAllergyCreateManyArgs>(args?: Prisma.SelectSubset<T, PatientAllergyCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many PatientAllergies and returns the data saved in the database.
+   * @param {PatientAllergyCreateManyAndReturnArgs} args - Arguments to create many PatientAllergies.
+   * @example
+   * // Create many PatientAllergies
+   * const patientAllergy = await prisma.patientAllergy.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many PatientAllergies and only return the `id`
+   * const patientAllergyWithIdOnly = await prisma.patientAllergy.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends PatientAllergyCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, PatientAllergyCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PatientAllergyPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a PatientAllergy.
+   * @param {PatientAllergyDeleteArgs} args - Arguments to delete one PatientAllergy.
+   * @example
+   * // Delete one PatientAllergy
+   * const PatientAllergy = await prisma.patientAllergy.delete({
+   *   where: {
+   *     // ... filter to delete one PatientAllergy
+   *   }
+   * })
+   * 
+   */
+  delete<T extends PatientAllergyDeleteArgs>(args: Prisma.SelectSubset<T, PatientAllergyDeleteArgs<ExtArgs>>): Prisma.Prisma__PatientAllergyClient<runtime.Types.Result.GetResult<Prisma.$PatientAllergyPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one PatientAllergy.
+   * @param {PatientAllergyUpdateArgs} args - Arguments to update one PatientAllergy.
+   * @example
+   * // Update one PatientAllergy
+   * const patientAllergy = await prisma.patientAllergy.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends PatientAllergyUpdateArgs>(args: Prisma.SelectSubset<T, PatientAllergyUpdateArgs<ExtArgs>>): Prisma.Prisma__PatientAllergyClient<runtime.Types.Result.GetResult<Prisma.$PatientAllergyPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more PatientAllergies.
+   * @param {PatientAllergyDeleteManyArgs} args - Arguments to filter PatientAllergies to delete.
+   * @example
+   * // Delete a few PatientAllergies
+   * const { count } = await prisma.patientAllergy.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends PatientAllergyDeleteManyArgs>(args?: Prisma.SelectSubset<T, PatientAllergyDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PatientAllergies.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PatientAllergyUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many PatientAllergies
+   * const patientAllergy = await prisma.patientAllergy.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends PatientAllergyUpdateManyArgs>(args: Prisma.SelectSubset<T, PatientAllergyUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PatientAllergies and returns the data updated in the database.
+   * @param {PatientAllergyUpdateManyAndReturnArgs} args - Arguments to update many PatientAllergies.
+   * @example
+   * // Update many PatientAllergies
+   * const patientAllergy = await prisma.patientAllergy.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more PatientAllergies and only return the `id`
+   * const patientAllergyWithIdOnly = await prisma.patientAllergy.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends PatientAllergyUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, PatientAllergyUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PatientAllergyPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one PatientAllergy.
+   * @param {PatientAllergyUpsertArgs} args - Arguments to update or create a PatientAllergy.
+   * @example
+   * // Update or create a PatientAllergy
+   * const patientAllergy = await prisma.patientAllergy.upsert({
+   *   create: {
+   *     // ... data to create a PatientAllergy
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the PatientAllergy we want to update
+   *   }
+   * })
+   */
+  upsert<T extends PatientAllergyUpsertArgs>(args: Prisma.SelectSubset<T, PatientAllergyUpsertArgs<ExtArgs>>): Prisma.Prisma__PatientAllergyClient<runtime.Types.Result.GetResult<Prisma.$PatientAllergyPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of PatientAllergies.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PatientAllergyCountArgs} args - Arguments to filter PatientAllergies to count.
+   * @example
+   * // Count the number of PatientAllergies
+   * const count = await prisma.patientAllergy.count({
+   *   where: {
+   *     // ... the filter for the PatientAllergies we want to count
+   *   }
+   * })
+  **/
+  count<T extends PatientAllergyCountArgs>(
+    args?: Prisma.Subset<T, PatientAllergyCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], PatientAllergyCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a PatientAllergy.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PatientAllergyAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends PatientAllergyAggregateArgs>(args: Prisma.Subset<T, PatientAllergyAggregateArgs>): Prisma.PrismaPromise<GetPatientAllergyAggregateType<T>>
+
+  /**
+   * Group by PatientAllergy.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PatientAllergyGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends PatientAllergyGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: PatientAllergyGroupByArgs['orderBy'] }
+      : { orderBy?: PatientAllergyGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, PatientAllergyGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetPatientAllergyGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the PatientAllergy model
+ */
+readonly fields: PatientAllergyFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for PatientAllergy.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__PatientAllergyClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  clinic<T extends Prisma.ClinicDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ClinicDefaultArgs<ExtArgs>>): Prisma.Prisma__ClinicClient<runtime.Types.Result.GetResult<Prisma.$ClinicPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  patient<T extends Prisma.PatientDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PatientDefaultArgs<ExtArgs>>): Prisma.Prisma__PatientClient<runtime.Types.Result.GetResult<Prisma.$PatientPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  drug<T extends Prisma.PatientAllergy$drugArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PatientAllergy$drugArgs<ExtArgs>>): Prisma.Prisma__DrugClient<runtime.Types.Result.GetResult<Prisma.$DrugPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the PatientAllergy model
+ */
+export interface PatientAllergyFieldRefs {
+  readonly id: Prisma.FieldRef<"PatientAllergy", 'String'>
+  readonly clinicId: Prisma.FieldRef<"PatientAllergy", 'String'>
+  readonly patientId: Prisma.FieldRef<"PatientAllergy", 'String'>
+  readonly allergen: Prisma.FieldRef<"PatientAllergy", 'String'>
+  readonly allergenType: Prisma.FieldRef<"PatientAllergy", 'AllergenType'>
+  readonly drugId: Prisma.FieldRef<"PatientAllergy", 'String'>
+  readonly reaction: Prisma.FieldRef<"PatientAllergy", 'String'>
+  readonly severity: Prisma.FieldRef<"PatientAllergy", 'AllergySeverity'>
+  readonly verificationStatus: Prisma.FieldRef<"PatientAllergy", 'AllergyVerificationStatus'>
+  readonly onsetDate: Prisma.FieldRef<"PatientAllergy", 'DateTime'>
+  readonly notes: Prisma.FieldRef<"PatientAllergy", 'String'>
+  readonly sourceText: Prisma.FieldRef<"PatientAllergy", 'String'>
+  readonly needsReview: Prisma.FieldRef<"PatientAllergy", 'Boolean'>
+  readonly reviewedAt: Prisma.FieldRef<"PatientAllergy", 'DateTime'>
+  readonly reviewedById: Prisma.FieldRef<"PatientAllergy", 'String'>
+  readonly recordedById: Prisma.FieldRef<"PatientAllergy", 'String'>
+  readonly isActive: Prisma.FieldRef<"PatientAllergy", 'Boolean'>
+  readonly createdAt: Prisma.FieldRef<"PatientAllergy", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"PatientAllergy", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * PatientAllergy findUnique
+ */
+export type PatientAllergyFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientAllergy
+   */
+  select?: Prisma.PatientAllergySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientAllergy
+   */
+  omit?: Prisma.PatientAllergyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientAllergyInclude<ExtArgs> | null
+  /**
+   * Filter, which PatientAllergy to fetch.
+   */
+  where: Prisma.PatientAllergyWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * PatientAllergy findUniqueOrThrow
+ */
+export type PatientAllergyFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientAllergy
+   */
+  select?: Prisma.PatientAllergySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientAllergy
+   */
+  omit?: Prisma.PatientAllergyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientAllergyInclude<ExtArgs> | null
+  /**
+   * Filter, which PatientAllergy to fetch.
+   */
+  where: Prisma.PatientAllergyWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * PatientAllergy findFirst
+ */
+export type PatientAllergyFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientAllergy
+   */
+  select?: Prisma.PatientAllergySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientAllergy
+   */
+  omit?: Prisma.PatientAllergyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientAllergyInclude<ExtArgs> | null
+  /**
+   * Filter, which PatientAllergy to fetch.
+   */
+  where?: Prisma.PatientAllergyWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PatientAllergies to fetch.
+   */
+  orderBy?: Prisma.PatientAllergyOrderByWithRelationInput | Prisma.PatientAllergyOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PatientAllergies.
+   */
+  cursor?: Prisma.PatientAllergyWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PatientAllergies from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PatientAllergies.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PatientAllergies.
+   */
+  distinct?: Prisma.PatientAllergyScalarFieldEnum | Prisma.PatientAllergyScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * PatientAllergy findFirstOrThrow
+ */
+export type PatientAllergyFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientAllergy
+   */
+  select?: Prisma.PatientAllergySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientAllergy
+   */
+  omit?: Prisma.PatientAllergyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientAllergyInclude<ExtArgs> | null
+  /**
+   * Filter, which PatientAllergy to fetch.
+   */
+  where?: Prisma.PatientAllergyWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PatientAllergies to fetch.
+   */
+  orderBy?: Prisma.PatientAllergyOrderByWithRelationInput | Prisma.PatientAllergyOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PatientAllergies.
+   */
+  cursor?: Prisma.PatientAllergyWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PatientAllergies from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PatientAllergies.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PatientAllergies.
+   */
+  distinct?: Prisma.PatientAllergyScalarFieldEnum | Prisma.PatientAllergyScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * PatientAllergy findMany
+ */
+export type PatientAllergyFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientAllergy
+   */
+  select?: Prisma.PatientAllergySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientAllergy
+   */
+  omit?: Prisma.PatientAllergyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientAllergyInclude<ExtArgs> | null
+  /**
+   * Filter, which PatientAllergies to fetch.
+   */
+  where?: Prisma.PatientAllergyWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PatientAllergies to fetch.
+   */
+  orderBy?: Prisma.PatientAllergyOrderByWithRelationInput | Prisma.PatientAllergyOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing PatientAllergies.
+   */
+  cursor?: Prisma.PatientAllergyWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PatientAllergies from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PatientAllergies.
+   */
+  skip?: number
+  distinct?: Prisma.PatientAllergyScalarFieldEnum | Prisma.PatientAllergyScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * PatientAllergy create
+ */
+export type PatientAllergyCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientAllergy
+   */
+  select?: Prisma.PatientAllergySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientAllergy
+   */
+  omit?: Prisma.PatientAllergyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientAllergyInclude<ExtArgs> | null
+  /**
+   * The data needed to create a PatientAllergy.
+   */
+  data: Prisma.XOR<Prisma.PatientAllergyCreateInput, Prisma.PatientAllergyUncheckedCreateInput>
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * PatientAllergy createMany
+ */
+export type PatientAllergyCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many PatientAllergies.
+   */
+  data: Prisma.PatientAllergyCreateManyInput | Prisma.PatientAllergyCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * PatientAllergy createManyAndReturn
+ */
+export type PatientAllergyCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientAllergy
+   */
+  select?: Prisma.PatientAllergySelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientAllergy
+   */
+  omit?: Prisma.PatientAllergyOmit<ExtArgs> | null
+  /**
+   * The data used to create many PatientAllergies.
+   */
+  data: Prisma.PatientAllergyCreateManyInput | Prisma.PatientAllergyCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientAllergyIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * PatientAllergy update
+ */
+export type PatientAllergyUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientAllergy
+   */
+  select?: Prisma.PatientAllergySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientAllergy
+   */
+  omit?: Prisma.PatientAllergyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientAllergyInclude<ExtArgs> | null
+  /**
+   * The data needed to update a PatientAllergy.
+   */
+  data: Prisma.XOR<Prisma.PatientAllergyUpdateInput, Prisma.PatientAllergyUncheckedUpdateInput>
+  /**
+   * Choose, which PatientAllergy to update.
+   */
+  where: Prisma.PatientAllergyWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * PatientAllergy updateMany
+ */
+export type PatientAllergyUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update PatientAllergies.
+   */
+  data: Prisma.XOR<Prisma.PatientAllergyUpdateManyMutationInput, Prisma.PatientAllergyUncheckedUpdateManyInput>
+  /**
+   * Filter which PatientAllergies to update
+   */
+  where?: Prisma.PatientAllergyWhereInput
+  /**
+   * Limit how many PatientAllergies to update.
+   */
+  limit?: number
+}
+
+/**
+ * PatientAllergy updateManyAndReturn
+ */
+export type PatientAllergyUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientAllergy
+   */
+  select?: Prisma.PatientAllergySelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientAllergy
+   */
+  omit?: Prisma.PatientAllergyOmit<ExtArgs> | null
+  /**
+   * The data used to update PatientAllergies.
+   */
+  data: Prisma.XOR<Prisma.PatientAllergyUpdateManyMutationInput, Prisma.PatientAllergyUncheckedUpdateManyInput>
+  /**
+   * Filter which PatientAllergies to update
+   */
+  where?: Prisma.PatientAllergyWhereInput
+  /**
+   * Limit how many PatientAllergies to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientAllergyIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * PatientAllergy upsert
+ */
+export type PatientAllergyUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientAllergy
+   */
+  select?: Prisma.PatientAllergySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientAllergy
+   */
+  omit?: Prisma.PatientAllergyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientAllergyInclude<ExtArgs> | null
+  /**
+   * The filter to search for the PatientAllergy to update in case it exists.
+   */
+  where: Prisma.PatientAllergyWhereUniqueInput
+  /**
+   * In case the PatientAllergy found by the `where` argument doesn't exist, create a new PatientAllergy with this data.
+   */
+  create: Prisma.XOR<Prisma.PatientAllergyCreateInput, Prisma.PatientAllergyUncheckedCreateInput>
+  /**
+   * In case the PatientAllergy was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.PatientAllergyUpdateInput, Prisma.PatientAllergyUncheckedUpdateInput>
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * PatientAllergy delete
+ */
+export type PatientAllergyDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientAllergy
+   */
+  select?: Prisma.PatientAllergySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientAllergy
+   */
+  omit?: Prisma.PatientAllergyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientAllergyInclude<ExtArgs> | null
+  /**
+   * Filter which PatientAllergy to delete.
+   */
+  where: Prisma.PatientAllergyWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * PatientAllergy deleteMany
+ */
+export type PatientAllergyDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PatientAllergies to delete
+   */
+  where?: Prisma.PatientAllergyWhereInput
+  /**
+   * Limit how many PatientAllergies to delete.
+   */
+  limit?: number
+}
+
+/**
+ * PatientAllergy.drug
+ */
+export type PatientAllergy$drugArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Drug
+   */
+  select?: Prisma.DrugSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Drug
+   */
+  omit?: Prisma.DrugOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DrugInclude<ExtArgs> | null
+  where?: Prisma.DrugWhereInput
+}
+
+/**
+ * PatientAllergy without action
+ */
+export type PatientAllergyDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientAllergy
+   */
+  select?: Prisma.PatientAllergySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientAllergy
+   */
+  omit?: Prisma.PatientAllergyOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientAllergyInclude<ExtArgs> | null
+}
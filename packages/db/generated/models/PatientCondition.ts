@@ -0,0 +1,1971 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `PatientCondition` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model PatientCondition
+ * A coded condition on the patient's problem list. Only entries migrated
+ * from the free-text `Patient.medicalConditions` may lack a code, and they
+ * stay in the review queue until one is given.
+ */
+export type PatientConditionModel = runtime.Types.Result.DefaultSelection<Prisma.$PatientConditionPayload>
+
+export type AggregatePatientCondition = {
+  _count: PatientConditionCountAggregateOutputType | null
+  _min: PatientConditionMinAggregateOutputType | null
+  _max: PatientConditionMaxAggregateOutputType | null
+}
+
+export type PatientConditionMinAggregateOutputType = {
+  id: string | null
+  clinicId: string | null
+  patientId: string | null
+  display: string | null
+  code: string | null
+  codeSystem: $Enums.ConditionCodeSystem | null
+  status: $Enums.ConditionStatus | null
+  onsetDate: Date | null
+  resolvedDate: Date | null
+  notes: string | null
+  sourceText: string | null
+  needsReview: boolean | null
+  reviewedAt: Date | null
+  reviewedById: string | null
+  recordedById: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type PatientConditionMaxAggregateOutputType = {
+  id: string | null
+  clinicId: string | null
+  patientId: string | null
+  display: string | null
+  code: string | null
+  codeSystem: $Enums.ConditionCodeSystem | null
+  status: $Enums.ConditionStatus | null
+  onsetDate: Date | null
+  resolvedDate: Date | null
+  notes: string | null
+  sourceText: string | null
+  needsReview: boolean | null
+  reviewedAt: Date | null
+  reviewedById: string | null
+  recordedById: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type PatientConditionCountAggregateOutputType = {
+  id: number
+  clinicId: number
+  patientId: number
+  display: number
+  code: number
+  codeSystem: number
+  status: number
+  onsetDate: number
+  resolvedDate: number
+  notes: number
+  sourceText: number
+  needsReview: number
+  reviewedAt: number
+  reviewedById: number
+  recordedById: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type PatientConditionMinAggregateInputType = {
+  id?: true
+  clinicId?: true
+  patientId?: true
+  display?: true
+  code?: true
+  codeSystem?: true
+  status?: true
+  onsetDate?: true
+  resolvedDate?: true
+  notes?: true
+  sourceText?: true
+  needsReview?: true
+  reviewedAt?: true
+  reviewedById?: true
+  recordedById?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type PatientConditionMaxAggregateInputType = {
+  id?: true
+  clinicId?: true
+  patientId?: true
+  display?: true
+  code?: true
+  codeSystem?: true
+  status?: true
+  onsetDate?: true
+  resolvedDate?: true
+  notes?: true
+  sourceText?: true
+  needsReview?: true
+  reviewedAt?: true
+  reviewedById?: true
+  recordedById?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type PatientConditionCountAggregateInputType = {
+  id?: true
+  clinicId?: true
+  patientId?: true
+  display?: true
+  code?: true
+  codeSystem?: true
+  status?: true
+  onsetDate?: true
+  resolvedDate?: true
+  notes?: true
+  sourceText?: true
+  needsReview?: true
+  reviewedAt?: true
+  reviewedById?: true
+  recordedById?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type PatientConditionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PatientCondition to aggregate.
+   */
+  where?: Prisma.PatientConditionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PatientConditions to fetch.
+   */
+  orderBy?: Prisma.PatientConditionOrderByWithRelationInput | Prisma.PatientConditionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.PatientConditionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PatientConditions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PatientConditions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned PatientConditions
+  **/
+  _count?: true | PatientConditionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: PatientConditionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: PatientConditionMaxAggregateInputType
+}
+
+export type GetPatientConditionAggregateType<T extends PatientConditionAggregateArgs> = {
+      [P in keyof T & keyof AggregatePatientCondition]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregatePatientCondition[P]>
+    : Prisma.GetScalarType<T[P], AggregatePatientCondition[P]>
+}
+
+
+
+
+export type PatientConditionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.PatientConditionWhereInput
+  orderBy?: Prisma.PatientConditionOrderByWithAggregationInput | Prisma.PatientConditionOrderByWithAggregationInput[]
+  by: Prisma.PatientConditionScalarFieldEnum[] | Prisma.PatientConditionScalarFieldEnum
+  having?: Prisma.PatientConditionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: PatientConditionCountAggregateInputType | true
+  _min?: PatientConditionMinAggregateInputType
+  _max?: PatientConditionMaxAggregateInputType
+}
+
+export type PatientConditionGroupByOutputType = {
+  id: string
+  clinicId: string
+  patientId: string
+  display: string
+  code: string | null
+  codeSystem: $Enums.ConditionCodeSystem | null
+  status: $Enums.ConditionStatus
+  onsetDate: Date | null
+  resolvedDate: Date | null
+  notes: string | null
+  sourceText: string | null
+  needsReview: boolean
+  reviewedAt: Date | null
+  reviewedById: string | null
+  recordedById: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: PatientConditionCountAggregateOutputType | null
+  _min: PatientConditionMinAggregateOutputType | null
+  _max: PatientConditionMaxAggregateOutputType | null
+}
+
+type GetPatientConditionGroupByPayload<T extends PatientConditionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<PatientConditionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof PatientConditionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], PatientConditionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], PatientConditionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type PatientConditionWhereInput = {
+  AND?: Prisma.PatientConditionWhereInput | Prisma.PatientConditionWhereInput[]
+  OR?: Prisma.PatientConditionWhereInput[]
+  NOT?: Prisma.PatientConditionWhereInput | Prisma.PatientConditionWhereInput[]
+  id?: Prisma.StringFilter<"PatientCondition"> | string
+  clinicId?: Prisma.StringFilter<"PatientCondition"> | string
+  patientId?: Prisma.StringFilter<"PatientCondition"> | string
+  display?: Prisma.StringFilter<"PatientCondition"> | string
+  code?: Prisma.StringNullableFilter<"PatientCondition"> | string | null
+  codeSystem?: Prisma.EnumConditionCodeSystemNullableFilter<"PatientCondition"> | $Enums.ConditionCodeSystem | null
+  status?: Prisma.EnumConditionStatusFilter<"PatientCondition"> | $Enums.ConditionStatus
+  onsetDate?: Prisma.DateTimeNullableFilter<"PatientCondition"> | Date | string | null
+  resolvedDate?: Prisma.DateTimeNullableFilter<"PatientCondition"> | Date | string | null
+  notes?: Prisma.StringNullableFilter<"PatientCondition"> | string | null
+  sourceText?: Prisma.StringNullableFilter<"PatientCondition"> | string | null
+  needsReview?: Prisma.BoolFilter<"PatientCondition"> | boolean
+  reviewedAt?: Prisma.DateTimeNullableFilter<"PatientCondition"> | Date | string | null
+  reviewedById?: Prisma.StringNullableFilter<"PatientCondition"> | string | null
+  recordedById?: Prisma.StringNullableFilter<"PatientCondition"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"PatientCondition"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"PatientCondition"> | Date | string
+  clinic?: Prisma.XOR<Prisma.ClinicScalarRelationFilter, Prisma.ClinicWhereInput>
+  patient?: Prisma.XOR<Prisma.PatientScalarRelationFilter, Prisma.PatientWhereInput>
+}
+
+export type PatientConditionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  patientId?: Prisma.SortOrder
+  display?: Prisma.SortOrder
+  code?: Prisma.SortOrderInput | Prisma.SortOrder
+  codeSystem?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  onsetDate?: Prisma.SortOrderInput | Prisma.SortOrder
+  resolvedDate?: Prisma.SortOrderInput | Prisma.SortOrder
+  notes?: Prisma.SortOrderInput | Prisma.SortOrder
+  sourceText?: Prisma.SortOrderInput | Prisma.SortOrder
+  needsReview?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  recordedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  clinic?: Prisma.ClinicOrderByWithRelationInput
+  patient?: Prisma.PatientOrderByWithRelationInput
+}
+
+export type PatientConditionWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.PatientConditionWhereInput | Prisma.PatientConditionWhereInput[]
+  OR?: Prisma.PatientConditionWhereInput[]
+  NOT?: Prisma.PatientConditionWhereInput | Prisma.PatientConditionWhereInput[]
+  clinicId?: Prisma.StringFilter<"PatientCondition"> | string
+  patientId?: Prisma.StringFilter<"PatientCondition"> | string
+  display?: Prisma.StringFilter<"PatientCondition"> | string
+  code?: Prisma.StringNullableFilter<"PatientCondition"> | string | null
+  codeSystem?: Prisma.EnumConditionCodeSystemNullableFilter<"PatientCondition"> | $Enums.ConditionCodeSystem | null
+  status?: Prisma.EnumConditionStatusFilter<"PatientCondition"> | $Enums.ConditionStatus
+  onsetDate?: Prisma.DateTimeNullableFilter<"PatientCondition"> | Date | string | null
+  resolvedDate?: Prisma.DateTimeNullableFilter<"PatientCondition"> | Date | string | null
+  notes?: Prisma.StringNullableFilter<"PatientCondition"> | string | null
+  sourceText?: Prisma.StringNullableFilter<"PatientCondition"> | string | null
+  needsReview?: Prisma.BoolFilter<"PatientCondition"> | boolean
+  reviewedAt?: Prisma.DateTimeNullableFilter<"PatientCondition"> | Date | string | null
+  reviewedById?: Prisma.StringNullableFilter<"PatientCondition"> | string | null
+  recordedById?: Prisma.StringNullableFilter<"PatientCondition"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"PatientCondition"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"PatientCondition"> | Date | string
+  clinic?: Prisma.XOR<Prisma.ClinicScalarRelationFilter, Prisma.ClinicWhereInput>
+  patient?: Prisma.XOR<Prisma.PatientScalarRelationFilter, Prisma.PatientWhereInput>
+}, "id">
+
+export type PatientConditionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  patientId?: Prisma.SortOrder
+  display?: Prisma.SortOrder
+  code?: Prisma.SortOrderInput | Prisma.SortOrder
+  codeSystem?: Prisma.SortOrderInput | Prisma.SortOrder
+  status?: Prisma.SortOrder
+  onsetDate?: Prisma.SortOrderInput | Prisma.SortOrder
+  resolvedDate?: Prisma.SortOrderInput | Prisma.SortOrder
+  notes?: Prisma.SortOrderInput | Prisma.SortOrder
+  sourceText?: Prisma.SortOrderInput | Prisma.SortOrder
+  needsReview?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  reviewedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  recordedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.PatientConditionCountOrderByAggregateInput
+  _max?: Prisma.PatientConditionMaxOrderByAggregateInput
+  _min?: Prisma.PatientConditionMinOrderByAggregateInput
+}
+
+export type PatientConditionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.PatientConditionScalarWhereWithAggregatesInput | Prisma.PatientConditionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.PatientConditionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.PatientConditionScalarWhereWithAggregatesInput | Prisma.PatientConditionScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"PatientCondition"> | string
+  clinicId?: Prisma.StringWithAggregatesFilter<"PatientCondition"> | string
+  patientId?: Prisma.StringWithAggregatesFilter<"PatientCondition"> | string
+  display?: Prisma.StringWithAggregatesFilter<"PatientCondition"> | string
+  code?: Prisma.StringNullableWithAggregatesFilter<"PatientCondition"> | string | null
+  codeSystem?: Prisma.EnumConditionCodeSystemNullableWithAggregatesFilter<"PatientCondition"> | $Enums.ConditionCodeSystem | null
+  status?: Prisma.EnumConditionStatusWithAggregatesFilter<"PatientCondition"> | $Enums.ConditionStatus
+  onsetDate?: Prisma.DateTimeNullableWithAggregatesFilter<"PatientCondition"> | Date | string | null
+  resolvedDate?: Prisma.DateTimeNullableWithAggregatesFilter<"PatientCondition"> | Date | string | null
+  notes?: Prisma.StringNullableWithAggregatesFilter<"PatientCondition"> | string | null
+  sourceText?: Prisma.StringNullableWithAggregatesFilter<"PatientCondition"> | string | null
+  needsReview?: Prisma.BoolWithAggregatesFilter<"PatientCondition"> | boolean
+  reviewedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"PatientCondition"> | Date | string | null
+  reviewedById?: Prisma.StringNullableWithAggregatesFilter<"PatientCondition"> | string | null
+  recordedById?: Prisma.StringNullableWithAggregatesFilter<"PatientCondition"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"PatientCondition"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"PatientCondition"> | Date | string
+}
+
+export type PatientConditionCreateInput = {
+  id?: string
+  display: string
+  code?: string | null
+  codeSystem?: $Enums.ConditionCodeSystem | null
+  status?: $Enums.ConditionStatus
+  onsetDate?: Date | string | null
+  resolvedDate?: Date | string | null
+  notes?: string | null
+  sourceText?: string | null
+  needsReview?: boolean
+  reviewedAt?: Date | string | null
+  reviewedById?: string | null
+  recordedById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  clinic: Prisma.ClinicCreateNestedOneWithoutPatientConditionsInput
+  patient: Prisma.PatientCreateNestedOneWithoutConditionRecordsInput
+}
+
+export type PatientConditionUncheckedCreateInput = {
+  id?: string
+  clinicId: string
+  patientId: string
+  display: string
+  code?: string | null
+  codeSystem?: $Enums.ConditionCodeSystem | null
+  status?: $Enums.ConditionStatus
+  onsetDate?: Date | string | null
+  resolvedDate?: Date | string | null
+  notes?: string | null
+  sourceText?: string | null
+  needsReview?: boolean
+  reviewedAt?: Date | string | null
+  reviewedById?: string | null
+  recordedById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PatientConditionUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  display?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  codeSystem?: Prisma.NullableEnumConditionCodeSystemFieldUpdateOperationsInput | $Enums.ConditionCodeSystem | null
+  status?: Prisma.EnumConditionStatusFieldUpdateOperationsInput | $Enums.ConditionStatus
+  onsetDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resolvedDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  needsReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutPatientConditionsNestedInput
+  patient?: Prisma.PatientUpdateOneRequiredWithoutConditionRecordsNestedInput
+}
+
+export type PatientConditionUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  display?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  codeSystem?: Prisma.NullableEnumConditionCodeSystemFieldUpdateOperationsInput | $Enums.ConditionCodeSystem | null
+  status?: Prisma.EnumConditionStatusFieldUpdateOperationsInput | $Enums.ConditionStatus
+  onsetDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resolvedDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  needsReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PatientConditionCreateManyInput = {
+  id?: string
+  clinicId: string
+  patientId: string
+  display: string
+  code?: string | null
+  codeSystem?: $Enums.ConditionCodeSystem | null
+  status?: $Enums.ConditionStatus
+  onsetDate?: Date | string | null
+  resolvedDate?: Date | string | null
+  notes?: string | null
+  sourceText?: string | null
+  needsReview?: boolean
+  reviewedAt?: Date | string | null
+  reviewedById?: string | null
+  recordedById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PatientConditionUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  display?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  codeSystem?: Prisma.NullableEnumConditionCodeSystemFieldUpdateOperationsInput | $Enums.ConditionCodeSystem | null
+  status?: Prisma.EnumConditionStatusFieldUpdateOperationsInput | $Enums.ConditionStatus
+  onsetDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resolvedDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  needsReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PatientConditionUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  display?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  codeSystem?: Prisma.NullableEnumConditionCodeSystemFieldUpdateOperationsInput | $Enums.ConditionCodeSystem | null
+  status?: Prisma.EnumConditionStatusFieldUpdateOperationsInput | $Enums.ConditionStatus
+  onsetDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resolvedDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  needsReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PatientConditionListRelationFilter = {
+  every?: Prisma.PatientConditionWhereInput
+  some?: Prisma.PatientConditionWhereInput
+  none?: Prisma.PatientConditionWhereInput
+}
+
+export type PatientConditionOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type PatientConditionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  patientId?: Prisma.SortOrder
+  display?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  codeSystem?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  onsetDate?: Prisma.SortOrder
+  resolvedDate?: Prisma.SortOrder
+  notes?: Prisma.SortOrder
+  sourceText?: Prisma.SortOrder
+  needsReview?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrder
+  reviewedById?: Prisma.SortOrder
+  recordedById?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PatientConditionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  patientId?: Prisma.SortOrder
+  display?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  codeSystem?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  onsetDate?: Prisma.SortOrder
+  resolvedDate?: Prisma.SortOrder
+  notes?: Prisma.SortOrder
+  sourceText?: Prisma.SortOrder
+  needsReview?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrder
+  reviewedById?: Prisma.SortOrder
+  recordedById?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PatientConditionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  patientId?: Prisma.SortOrder
+  display?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  codeSystem?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  onsetDate?: Prisma.SortOrder
+  resolvedDate?: Prisma.SortOrder
+  notes?: Prisma.SortOrder
+  sourceText?: Prisma.SortOrder
+  needsReview?: Prisma.SortOrder
+  reviewedAt?: Prisma.SortOrder
+  reviewedById?: Prisma.SortOrder
+  recordedById?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type PatientConditionCreateNestedManyWithoutClinicInput = {
+  create?: Prisma.XOR<Prisma.PatientConditionCreateWithoutClinicInput, Prisma.PatientConditionUncheckedCreateWithoutClinicInput> | Prisma.PatientConditionCreateWithoutClinicInput[] | Prisma.PatientConditionUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.PatientConditionCreateOrConnectWithoutClinicInput | Prisma.PatientConditionCreateOrConnectWithoutClinicInput[]
+  createMany?: Prisma.PatientConditionCreateManyClinicInputEnvelope
+  connect?: Prisma.PatientConditionWhereUniqueInput | Prisma.PatientConditionWhereUniqueInput[]
+}
+
+export type PatientConditionUncheckedCreateNestedManyWithoutClinicInput = {
+  create?: Prisma.XOR<Prisma.PatientConditionCreateWithoutClinicInput, Prisma.PatientConditionUncheckedCreateWithoutClinicInput> | Prisma.PatientConditionCreateWithoutClinicInput[] | Prisma.PatientConditionUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.PatientConditionCreateOrConnectWithoutClinicInput | Prisma.PatientConditionCreateOrConnectWithoutClinicInput[]
+  createMany?: Prisma.PatientConditionCreateManyClinicInputEnvelope
+  connect?: Prisma.PatientConditionWhereUniqueInput | Prisma.PatientConditionWhereUniqueInput[]
+}
+
+export type PatientConditionUpdateManyWithoutClinicNestedInput = {
+  create?: Prisma.XOR<Prisma.PatientConditionCreateWithoutClinicInput, Prisma.PatientConditionUncheckedCreateWithoutClinicInput> | Prisma.PatientConditionCreateWithoutClinicInput[] | Prisma.PatientConditionUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.PatientConditionCreateOrConnectWithoutClinicInput | Prisma.PatientConditionCreateOrConnectWithoutClinicInput[]
+  upsert?: Prisma.PatientConditionUpsertWithWhereUniqueWithoutClinicInput | Prisma.PatientConditionUpsertWithWhereUniqueWithoutClinicInput[]
+  createMany?: Prisma.PatientConditionCreateManyClinicInputEnvelope
+  set?: Prisma.PatientConditionWhereUniqueInput | Prisma.PatientConditionWhereUniqueInput[]
+  disconnect?: Prisma.PatientConditionWhereUniqueInput | Prisma.PatientConditionWhereUniqueInput[]
+  delete?: Prisma.PatientConditionWhereUniqueInput | Prisma.PatientConditionWhereUniqueInput[]
+  connect?: Prisma.PatientConditionWhereUniqueInput | Prisma.PatientConditionWhereUniqueInput[]
+  update?: Prisma.PatientConditionUpdateWithWhereUniqueWithoutClinicInput | Prisma.PatientConditionUpdateWithWhereUniqueWithoutClinicInput[]
+  updateMany?: Prisma.PatientConditionUpdateManyWithWhereWithoutClinicInput | Prisma.PatientConditionUpdateManyWithWhereWithoutClinicInput[]
+  deleteMany?: Prisma.PatientConditionScalarWhereInput | Prisma.PatientConditionScalarWhereInput[]
+}
+
+export type PatientConditionUncheckedUpdateManyWithoutClinicNestedInput = {
+  create?: Prisma.XOR<Prisma.PatientConditionCreateWithoutClinicInput, Prisma.PatientConditionUncheckedCreateWithoutClinicInput> | Prisma.PatientConditionCreateWithoutClinicInput[] | Prisma.PatientConditionUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.PatientConditionCreateOrConnectWithoutClinicInput | Prisma.PatientConditionCreateOrConnectWithoutClinicInput[]
+  upsert?: Prisma.PatientConditionUpsertWithWhereUniqueWithoutClinicInput | Prisma.PatientConditionUpsertWithWhereUniqueWithoutClinicInput[]
+  createMany?: Prisma.PatientConditionCreateManyClinicInputEnvelope
+  set?: Prisma.PatientConditionWhereUniqueInput | Prisma.PatientConditionWhereUniqueInput[]
+  disconnect?: Prisma.PatientConditionWhereUniqueInput | Prisma.PatientConditionWhereUniqueInput[]
+  delete?: Prisma.PatientConditionWhereUniqueInput | Prisma.PatientConditionWhereUniqueInput[]
+  connect?: Prisma.PatientConditionWhereUniqueInput | Prisma.PatientConditionWhereUniqueInput[]
+  update?: Prisma.PatientConditionUpdateWithWhereUniqueWithoutClinicInput | Prisma.PatientConditionUpdateWithWhereUniqueWithoutClinicInput[]
+  updateMany?: Prisma.PatientConditionUpdateManyWithWhereWithoutClinicInput | Prisma.PatientConditionUpdateManyWithWhereWithoutClinicInput[]
+  deleteMany?: Prisma.PatientConditionScalarWhereInput | Prisma.PatientConditionScalarWhereInput[]
+}
+
+export type PatientConditionCreateNestedManyWithoutPatientInput = {
+  create?: Prisma.XOR<Prisma.PatientConditionCreateWithoutPatientInput, Prisma.PatientConditionUncheckedCreateWithoutPatientInput> | Prisma.PatientConditionCreateWithoutPatientInput[] | Prisma.PatientConditionUncheckedCreateWithoutPatientInput[]
+  connectOrCreate?: Prisma.PatientConditionCreateOrConnectWithoutPatientInput | Prisma.PatientConditionCreateOrConnectWithoutPatientInput[]
+  createMany?: Prisma.PatientConditionCreateManyPatientInputEnvelope
+  connect?: Prisma.PatientConditionWhereUniqueInput | Prisma.PatientConditionWhereUniqueInput[]
+}
+
+export type PatientConditionUncheckedCreateNestedManyWithoutPatientInput = {
+  create?: Prisma.XOR<Prisma.PatientConditionCreateWithoutPatientInput, Prisma.PatientConditionUncheckedCreateWithoutPatientInput> | Prisma.PatientConditionCreateWithoutPatientInput[] | Prisma.PatientConditionUncheckedCreateWithoutPatientInput[]
+  connectOrCreate?: Prisma.PatientConditionCreateOrConnectWithoutPatientInput | Prisma.PatientConditionCreateOrConnectWithoutPatientInput[]
+  createMany?: Prisma.PatientConditionCreateManyPatientInputEnvelope
+  connect?: Prisma.PatientConditionWhereUniqueInput | Prisma.PatientConditionWhereUniqueInput[]
+}
+
+export type PatientConditionUpdateManyWithoutPatientNestedInput = {
+  create?: Prisma.XOR<Prisma.PatientConditionCreateWithoutPatientInput, Prisma.PatientConditionUncheckedCreateWithoutPatientInput> | Prisma.PatientConditionCreateWithoutPatientInput[] | Prisma.PatientConditionUncheckedCreateWithoutPatientInput[]
+  connectOrCreate?: Prisma.PatientConditionCreateOrConnectWithoutPatientInput | Prisma.PatientConditionCreateOrConnectWithoutPatientInput[]
+  upsert?: Prisma.PatientConditionUpsertWithWhereUniqueWithoutPatientInput | Prisma.PatientConditionUpsertWithWhereUniqueWithoutPatientInput[]
+  createMany?: Prisma.PatientConditionCreateManyPatientInputEnvelope
+  set?: Prisma.PatientConditionWhereUniqueInput | Prisma.PatientConditionWhereUniqueInput[]
+  disconnect?: Prisma.PatientConditionWhereUniqueInput | Prisma.PatientConditionWhereUniqueInput[]
+  delete?: Prisma.PatientConditionWhereUniqueInput | Prisma.PatientConditionWhereUniqueInput[]
+  connect?: Prisma.PatientConditionWhereUniqueInput | Prisma.PatientConditionWhereUniqueInput[]
+  update?: Prisma.PatientConditionUpdateWithWhereUniqueWithoutPatientInput | Prisma.PatientConditionUpdateWithWhereUniqueWithoutPatientInput[]
+  updateMany?: Prisma.PatientConditionUpdateManyWithWhereWithoutPatientInput | Prisma.PatientConditionUpdateManyWithWhereWithoutPatientInput[]
+  deleteMany?: Prisma.PatientConditionScalarWhereInput | Prisma.PatientConditionScalarWhereInput[]
+}
+
+export type PatientConditionUncheckedUpdateManyWithoutPatientNestedInput = {
+  create?: Prisma.XOR<Prisma.PatientConditionCreateWithoutPatientInput, Prisma.PatientConditionUncheckedCreateWithoutPatientInput> | Prisma.PatientConditionCreateWithoutPatientInput[] | Prisma.PatientConditionUncheckedCreateWithoutPatientInput[]
+  connectOrCreate?: Prisma.PatientConditionCreateOrConnectWithoutPatientInput | Prisma.PatientConditionCreateOrConnectWithoutPatientInput[]
+  upsert?: Prisma.PatientConditionUpsertWithWhereUniqueWithoutPatientInput | Prisma.PatientConditionUpsertWithWhereUniqueWithoutPatientInput[]
+  createMany?: Prisma.PatientConditionCreateManyPatientInputEnvelope
+  set?: Prisma.PatientConditionWhereUniqueInput | Prisma.PatientConditionWhereUniqueInput[]
+  disconnect?: Prisma.PatientConditionWhereUniqueInput | Prisma.PatientConditionWhereUniqueInput[]
+  delete?: Prisma.PatientConditionWhereUniqueInput | Prisma.PatientConditionWhereUniqueInput[]
+  connect?: Prisma.PatientConditionWhereUniqueInput | Prisma.PatientConditionWhereUniqueInput[]
+  update?: Prisma.PatientConditionUpdateWithWhereUniqueWithoutPatientInput | Prisma.PatientConditionUpdateWithWhereUniqueWithoutPatientInput[]
+  updateMany?: Prisma.PatientConditionUpdateManyWithWhereWithoutPatientInput | Prisma.PatientConditionUpdateManyWithWhereWithoutPatientInput[]
+  deleteMany?: Prisma.PatientConditionScalarWhereInput | Prisma.PatientConditionScalarWhereInput[]
+}
+
+export type NullableEnumConditionCodeSystemFieldUpdateOperationsInput = {
+  set?: $Enums.ConditionCodeSystem | null
+}
+
+export type EnumConditionStatusFieldUpdateOperationsInput = {
+  set?: $Enums.ConditionStatus
+}
+
+export type PatientConditionCreateWithoutClinicInput = {
+  id?: string
+  display: string
+  code?: string | null
+  codeSystem?: $Enums.ConditionCodeSystem | null
+  status?: $Enums.ConditionStatus
+  onsetDate?: Date | string | null
+  resolvedDate?: Date | string | null
+  notes?: string | null
+  sourceText?: string | null
+  needsReview?: boolean
+  reviewedAt?: Date | string | null
+  reviewedById?: string | null
+  recordedById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  patient: Prisma.PatientCreateNestedOneWithoutConditionRecordsInput
+}
+
+export type PatientConditionUncheckedCreateWithoutClinicInput = {
+  id?: string
+  patientId: string
+  display: string
+  code?: string | null
+  codeSystem?: $Enums.ConditionCodeSystem | null
+  status?: $Enums.ConditionStatus
+  onsetDate?: Date | string | null
+  resolvedDate?: Date | string | null
+  notes?: string | null
+  sourceText?: string | null
+  needsReview?: boolean
+  reviewedAt?: Date | string | null
+  reviewedById?: string | null
+  recordedById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PatientConditionCreateOrConnectWithoutClinicInput = {
+  where: Prisma.PatientConditionWhereUniqueInput
+  create: Prisma.XOR<Prisma.PatientConditionCreateWithoutClinicInput, Prisma.PatientConditionUncheckedCreateWithoutClinicInput>
+}
+
+export type PatientConditionCreateManyClinicInputEnvelope = {
+  data: Prisma.PatientConditionCreateManyClinicInput | Prisma.PatientConditionCreateManyClinicInput[]
+  skipDuplicates?: boolean
+}
+
+export type PatientConditionUpsertWithWhereUniqueWithoutClinicInput = {
+  where: Prisma.PatientConditionWhereUniqueInput
+  update: Prisma.XOR<Prisma.PatientConditionUpdateWithoutClinicInput, Prisma.PatientConditionUncheckedUpdateWithoutClinicInput>
+  create: Prisma.XOR<Prisma.PatientConditionCreateWithoutClinicInput, Prisma.PatientConditionUncheckedCreateWithoutClinicInput>
+}
+
+export type PatientConditionUpdateWithWhereUniqueWithoutClinicInput = {
+  where: Prisma.PatientConditionWhereUniqueInput
+  data: Prisma.XOR<Prisma.PatientConditionUpdateWithoutClinicInput, Prisma.PatientConditionUncheckedUpdateWithoutClinicInput>
+}
+
+export type PatientConditionUpdateManyWithWhereWithoutClinicInput = {
+  where: Prisma.PatientConditionScalarWhereInput
+  data: Prisma.XOR<Prisma.PatientConditionUpdateManyMutationInput, Prisma.PatientConditionUncheckedUpdateManyWithoutClinicInput>
+}
+
+export type PatientConditionScalarWhereInput = {
+  AND?: Prisma.PatientConditionScalarWhereInput | Prisma.PatientConditionScalarWhereInput[]
+  OR?: Prisma.PatientConditionScalarWhereInput[]
+  NOT?: Prisma.PatientConditionScalarWhereInput | Prisma.PatientConditionScalarWhereInput[]
+  id?: Prisma.StringFilter<"PatientCondition"> | string
+  clinicId?: Prisma.StringFilter<"PatientCondition"> | string
+  patientId?: Prisma.StringFilter<"PatientCondition"> | string
+  display?: Prisma.StringFilter<"PatientCondition"> | string
+  code?: Prisma.StringNullableFilter<"PatientCondition"> | string | null
+  codeSystem?: Prisma.EnumConditionCodeSystemNullableFilter<"PatientCondition"> | $Enums.ConditionCodeSystem | null
+  status?: Prisma.EnumConditionStatusFilter<"PatientCondition"> | $Enums.ConditionStatus
+  onsetDate?: Prisma.DateTimeNullableFilter<"PatientCondition"> | Date | string | null
+  resolvedDate?: Prisma.DateTimeNullableFilter<"PatientCondition"> | Date | string | null
+  notes?: Prisma.StringNullableFilter<"PatientCondition"> | string | null
+  sourceText?: Prisma.StringNullableFilter<"PatientCondition"> | string | null
+  needsReview?: Prisma.BoolFilter<"PatientCondition"> | boolean
+  reviewedAt?: Prisma.DateTimeNullableFilter<"PatientCondition"> | Date | string | null
+  reviewedById?: Prisma.StringNullableFilter<"PatientCondition"> | string | null
+  recordedById?: Prisma.StringNullableFilter<"PatientCondition"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"PatientCondition"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"PatientCondition"> | Date | string
+}
+
+export type PatientConditionCreateWithoutPatientInput = {
+  id?: string
+  display: string
+  code?: string | null
+  codeSystem?: $Enums.ConditionCodeSystem | null
+  status?: $Enums.ConditionStatus
+  onsetDate?: Date | string | null
+  resolvedDate?: Date | string | null
+  notes?: string | null
+  sourceText?: string | null
+  needsReview?: boolean
+  reviewedAt?: Date | string | null
+  reviewedById?: string | null
+  recordedById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  clinic: Prisma.ClinicCreateNestedOneWithoutPatientConditionsInput
+}
+
+export type PatientConditionUncheckedCreateWithoutPatientInput = {
+  id?: string
+  clinicId: string
+  display: string
+  code?: string | null
+  codeSystem?: $Enums.ConditionCodeSystem | null
+  status?: $Enums.ConditionStatus
+  onsetDate?: Date | string | null
+  resolvedDate?: Date | string | null
+  notes?: string | null
+  sourceText?: string | null
+  needsReview?: boolean
+  reviewedAt?: Date | string | null
+  reviewedById?: string | null
+  recordedById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PatientConditionCreateOrConnectWithoutPatientInput = {
+  where: Prisma.PatientConditionWhereUniqueInput
+  create: Prisma.XOR<Prisma.PatientConditionCreateWithoutPatientInput, Prisma.PatientConditionUncheckedCreateWithoutPatientInput>
+}
+
+export type PatientConditionCreateManyPatientInputEnvelope = {
+  data: Prisma.PatientConditionCreateManyPatientInput | Prisma.PatientConditionCreateManyPatientInput[]
+  skipDuplicates?: boolean
+}
+
+export type PatientConditionUpsertWithWhereUniqueWithoutPatientInput = {
+  where: Prisma.PatientConditionWhereUniqueInput
+  update: Prisma.XOR<Prisma.PatientConditionUpdateWithoutPatientInput, Prisma.PatientConditionUncheckedUpdateWithoutPatientInput>
+  create: Prisma.XOR<Prisma.PatientConditionCreateWithoutPatientInput, Prisma.PatientConditionUncheckedCreateWithoutPatientInput>
+}
+
+export type PatientConditionUpdateWithWhereUniqueWithoutPatientInput = {
+  where: Prisma.PatientConditionWhereUniqueInput
+  data: Prisma.XOR<Prisma.PatientConditionUpdateWithoutPatientInput, Prisma.PatientConditionUncheckedUpdateWithoutPatientInput>
+}
+
+export type PatientConditionUpdateManyWithWhereWithoutPatientInput = {
+  where: Prisma.PatientConditionScalarWhereInput
+  data: Prisma.XOR<Prisma.PatientConditionUpdateManyMutationInput, Prisma.PatientConditionUncheckedUpdateManyWithoutPatientInput>
+}
+
+export type PatientConditionCreateManyClinicInput = {
+  id?: string
+  patientId: string
+  display: string
+  code?: string | null
+  codeSystem?: $Enums.ConditionCodeSystem | null
+  status?: $Enums.ConditionStatus
+  onsetDate?: Date | string | null
+  resolvedDate?: Date | string | null
+  notes?: string | null
+  sourceText?: string | null
+  needsReview?: boolean
+  reviewedAt?: Date | string | null
+  reviewedById?: string | null
+  recordedById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PatientConditionUpdateWithoutClinicInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  display?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  codeSystem?: Prisma.NullableEnumConditionCodeSystemFieldUpdateOperationsInput | $Enums.ConditionCodeSystem | null
+  status?: Prisma.EnumConditionStatusFieldUpdateOperationsInput | $Enums.ConditionStatus
+  onsetDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resolvedDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  needsReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  patient?: Prisma.PatientUpdateOneRequiredWithoutConditionRecordsNestedInput
+}
+
+export type PatientConditionUncheckedUpdateWithoutClinicInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  display?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  codeSystem?: Prisma.NullableEnumConditionCodeSystemFieldUpdateOperationsInput | $Enums.ConditionCodeSystem | null
+  status?: Prisma.EnumConditionStatusFieldUpdateOperationsInput | $Enums.ConditionStatus
+  onsetDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resolvedDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  needsReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PatientConditionUncheckedUpdateManyWithoutClinicInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  display?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  codeSystem?: Prisma.NullableEnumConditionCodeSystemFieldUpdateOperationsInput | $Enums.ConditionCodeSystem | null
+  status?: Prisma.EnumConditionStatusFieldUpdateOperationsInput | $Enums.ConditionStatus
+  onsetDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resolvedDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  needsReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PatientConditionCreateManyPatientInput = {
+  id?: string
+  clinicId: string
+  display: string
+  code?: string | null
+  codeSystem?: $Enums.ConditionCodeSystem | null
+  status?: $Enums.ConditionStatus
+  onsetDate?: Date | string | null
+  resolvedDate?: Date | string | null
+  notes?: string | null
+  sourceText?: string | null
+  needsReview?: boolean
+  reviewedAt?: Date | string | null
+  reviewedById?: string | null
+  recordedById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PatientConditionUpdateWithoutPatientInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  display?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  codeSystem?: Prisma.NullableEnumConditionCodeSystemFieldUpdateOperationsInput | $Enums.ConditionCodeSystem | null
+  status?: Prisma.EnumConditionStatusFieldUpdateOperationsInput | $Enums.ConditionStatus
+  onsetDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resolvedDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  needsReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutPatientConditionsNestedInput
+}
+
+export type PatientConditionUncheckedUpdateWithoutPatientInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  display?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  codeSystem?: Prisma.NullableEnumConditionCodeSystemFieldUpdateOperationsInput | $Enums.ConditionCodeSystem | null
+  status?: Prisma.EnumConditionStatusFieldUpdateOperationsInput | $Enums.ConditionStatus
+  onsetDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resolvedDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  needsReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PatientConditionUncheckedUpdateManyWithoutPatientInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  display?: Prisma.StringFieldUpdateOperationsInput | string
+  code?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  codeSystem?: Prisma.NullableEnumConditionCodeSystemFieldUpdateOperationsInput | $Enums.ConditionCodeSystem | null
+  status?: Prisma.EnumConditionStatusFieldUpdateOperationsInput | $Enums.ConditionStatus
+  onsetDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  resolvedDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  notes?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  sourceText?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  needsReview?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  reviewedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  reviewedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recordedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type PatientConditionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  clinicId?: boolean
+  patientId?: boolean
+  display?: boolean
+  code?: boolean
+  codeSystem?: boolean
+  status?: boolean
+  onsetDate?: boolean
+  resolvedDate?: boolean
+  notes?: boolean
+  sourceText?: boolean
+  needsReview?: boolean
+  reviewedAt?: boolean
+  reviewedById?: boolean
+  recordedById?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["patientCondition"]>
+
+export type PatientConditionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  clinicId?: boolean
+  patientId?: boolean
+  display?: boolean
+  code?: boolean
+  codeSystem?: boolean
+  status?: boolean
+  onsetDate?: boolean
+  resolvedDate?: boolean
+  notes?: boolean
+  sourceText?: boolean
+  needsReview?: boolean
+  reviewedAt?: boolean
+  reviewedById?: boolean
+  recordedById?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["patientCondition"]>
+
+export type PatientConditionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  clinicId?: boolean
+  patientId?: boolean
+  display?: boolean
+  code?: boolean
+  codeSystem?: boolean
+  status?: boolean
+  onsetDate?: boolean
+  resolvedDate?: boolean
+  notes?: boolean
+  sourceText?: boolean
+  needsReview?: boolean
+  reviewedAt?: boolean
+  reviewedById?: boolean
+  recordedById?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["patientCondition"]>
+
+export type PatientConditionSelectScalar = {
+  id?: boolean
+  clinicId?: boolean
+  patientId?: boolean
+  display?: boolean
+  code?: boolean
+  codeSystem?: boolean
+  status?: boolean
+  onsetDate?: boolean
+  resolvedDate?: boolean
+  notes?: boolean
+  sourceText?: boolean
+  needsReview?: boolean
+  reviewedAt?: boolean
+  reviewedById?: boolean
+  recordedById?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type PatientConditionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "clinicId" | "patientId" | "display" | "code" | "codeSystem" | "status" | "onsetDate" | "resolvedDate" | "notes" | "sourceText" | "needsReview" | "reviewedAt" | "reviewedById" | "recordedById" | "createdAt" | "updatedAt", ExtArgs["result"]["patientCondition"]>
+export type PatientConditionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+}
+export type PatientConditionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+}
+export type PatientConditionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+}
+
+export type $PatientConditionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "PatientCondition"
+  objects: {
+    clinic: Prisma.$ClinicPayload<ExtArgs>
+    patient: Prisma.$PatientPayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    clinicId: string
+    patientId: string
+    display: string
+    code: string | null
+    codeSystem: $Enums.ConditionCodeSystem | null
+    status: $Enums.ConditionStatus
+    onsetDate: Date | null
+    resolvedDate: Date | null
+    notes: string | null
+    sourceText: string | null
+    needsReview: boolean
+    reviewedAt: Date | null
+    reviewedById: string | null
+    recordedById: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["patientCondition"]>
+  composites: {}
+}
+
+export type PatientConditionGetPayload<S extends boolean | null | undefined | PatientConditionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$PatientConditionPayload, S>
+
+export type PatientConditionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<PatientConditionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit' | 'relationLoadStrategy'> & {
+    select?: PatientConditionCountAggregateInputType | true
+  }
+
+export interface PatientConditionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['PatientCondition'], meta: { name: 'PatientCondition' } }
+  /**
+   * Find zero or one PatientCondition that matches the filter.
+   * @param {PatientConditionFindUniqueArgs} args - Arguments to find a PatientCondition
+   * @example
+   * // Get one PatientCondition
+   * const patientCondition = await prisma.patientCondition.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends PatientConditionFindUniqueArgs>(args: Prisma.SelectSubset<T, PatientConditionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__PatientConditionClient<runtime.Types.Result.GetResult<Prisma.$PatientConditionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one PatientCondition that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {PatientConditionFindUniqueOrThrowArgs} args - Arguments to find a PatientCondition
+   * @example
+   * // Get one PatientCondition
+   * const patientCondition = await prisma.patientCondition.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends PatientConditionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, PatientConditionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__PatientConditionClient<runtime.Types.Result.GetResult<Prisma.$PatientConditionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PatientCondition that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PatientConditionFindFirstArgs} args - Arguments to find a PatientCondition
+   * @example
+   * // Get one PatientCondition
+   * const patientCondition = await prisma.patientCondition.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends PatientConditionFindFirstArgs>(args?: Prisma.SelectSubset<T, PatientConditionFindFirstArgs<ExtArgs>>): Prisma.Prisma__PatientConditionClient<runtime.Types.Result.GetResult<Prisma.$PatientConditionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first PatientCondition that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PatientConditionFindFirstOrThrowArgs} args - Arguments to find a PatientCondition
+   * @example
+   * // Get one PatientCondition
+   * const patientCondition = await prisma.patientCondition.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends PatientConditionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, PatientConditionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__PatientConditionClient<runtime.Types.Result.GetResult<Prisma.$PatientConditionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more PatientConditions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PatientConditionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all PatientConditions
+   * const patientConditions = await prisma.patientCondition.findMany()
+   * 
+   * // Get first 10 PatientConditions
+   * const patientConditions = await prisma.patientCondition.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const patientConditionWithIdOnly = await prisma.patientCondition.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends PatientConditionFindManyArgs>(args?: Prisma.SelectSubset<T, PatientConditionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PatientConditionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a PatientCondition.
+   * @param {PatientConditionCreateArgs} args - Arguments to create a PatientCondition.
+   * @example
+   * // Create one PatientCondition
+   * const PatientCondition = await prisma.patientCondition.create({
+   *   data: {
+   *     // ... data to create a PatientCondition
+   *   }
+   * })
+   * 
+   */
+  create<T extends PatientConditionCreateArgs>(args: Prisma.SelectSubset<T, PatientConditionCreateArgs<ExtArgs>>): Prisma.Prisma__PatientConditionClient<runtime.Types.Result.GetResult<Prisma.$PatientConditionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many PatientConditions.
+   * @param {PatientConditionCreateManyArgs} args - Arguments to create many PatientConditions.
+   * @example
+   * // Create many PatientConditions
+   * const patientCondition = await prisma.patientCondition.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends PatientConditionCreateManyArgs>(args?: Prisma.SelectSubset<T, PatientConditionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many PatientConditions and returns the data saved in the database.
+   * @param {PatientConditionCreateManyAndReturnArgs} args - Arguments to create many PatientConditions.
+   * @example
+   * // Create many PatientConditions
+   * const patientCondition = await prisma.patientCondition.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many PatientConditions and only return the `id`
+   * const patientConditionWithIdOnly = await prisma.patientCondition.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends PatientConditionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, PatientConditionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PatientConditionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a PatientCondition.
+   * @param {PatientConditionDeleteArgs} args - Arguments to delete one PatientCondition.
+   * @example
+   * // Delete one PatientCondition
+   * const PatientCondition = await prisma.patientCondition.delete({
+   *   where: {
+   *     // ... filter to delete one PatientCondition
+   *   }
+   * })
+   * 
+   */
+  delete<T extends PatientConditionDeleteArgs>(args: Prisma.SelectSubset<T, PatientConditionDeleteArgs<ExtArgs>>): Prisma.Prisma__PatientConditionClient<runtime.Types.Result.GetResult<Prisma.$PatientConditionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one PatientCondition.
+   * @param {PatientConditionUpdateArgs} args - Arguments to update one PatientCondition.
+   * @example
+   * // Update one PatientCondition
+   * const patientCondition = await prisma.patientCondition.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends PatientConditionUpdateArgs>(args: Prisma.SelectSubset<T, PatientConditionUpdateArgs<ExtArgs>>): Prisma.Prisma__PatientConditionClient<runtime.Types.Result.GetResult<Prisma.$PatientConditionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more PatientConditions.
+   * @param {PatientConditionDeleteManyArgs} args - Arguments to filter PatientConditions to delete.
+   * @example
+   * // Delete a few PatientConditions
+   * const { count } = await prisma.patientCondition.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends PatientConditionDeleteManyArgs>(args?: Prisma.SelectSubset<T, PatientConditionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PatientConditions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PatientConditionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many PatientConditions
+   * const patientCondition = await prisma.patientCondition.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends PatientConditionUpdateManyArgs>(args: Prisma.SelectSubset<T, PatientConditionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more PatientConditions and returns the data updated in the database.
+   * @param {PatientConditionUpdateManyAndReturnArgs} args - Arguments to update many PatientConditions.
+   * @example
+   * // Update many PatientConditions
+   * const patientCondition = await prisma.patientCondition.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more PatientConditions and only return the `id`
+   * const patientConditionWithIdOnly = await prisma.patientCondition.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends PatientConditionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, PatientConditionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PatientConditionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one PatientCondition.
+   * @param {PatientConditionUpsertArgs} args - Arguments to update or create a PatientCondition.
+   * @example
+   * // Update or create a PatientCondition
+   * const patientCondition = await prisma.patientCondition.upsert({
+   *   create: {
+   *     // ... data to create a PatientCondition
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the PatientCondition we want to update
+   *   }
+   * })
+   */
+  upsert<T extends PatientConditionUpsertArgs>(args: Prisma.SelectSubset<T, PatientConditionUpsertArgs<ExtArgs>>): Prisma.Prisma__PatientConditionClient<runtime.Types.Result.GetResult<Prisma.$PatientConditionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of PatientConditions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PatientConditionCountArgs} args - Arguments to filter PatientConditions to count.
+   * @example
+   * // Count the number of PatientConditions
+   * const count = await prisma.patientCondition.count({
+   *   where: {
+   *     // ... the filter for the PatientConditions we want to count
+   *   }
+   * })
+  **/
+  count<T extends PatientConditionCountArgs>(
+    args?: Prisma.Subset<T, PatientConditionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], PatientConditionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a PatientCondition.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PatientConditionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends PatientConditionAggregateArgs>(args: Prisma.Subset<T, PatientConditionAggregateArgs>): Prisma.PrismaPromise<GetPatientConditionAggregateType<T>>
+
+  /**
+   * Group by PatientCondition.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {PatientConditionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends PatientConditionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: PatientConditionGroupByArgs['orderBy'] }
+      : { orderBy?: PatientConditionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, PatientConditionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetPatientConditionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the PatientCondition model
+ */
+readonly fields: PatientConditionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for PatientCondition.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__PatientConditionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  clinic<T extends Prisma.ClinicDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ClinicDefaultArgs<ExtArgs>>): Prisma.Prisma__ClinicClient<runtime.Types.Result.GetResult<Prisma.$ClinicPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  patient<T extends Prisma.PatientDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PatientDefaultArgs<ExtArgs>>): Prisma.Prisma__PatientClient<runtime.Types.Result.GetResult<Prisma.$PatientPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the PatientCondition model
+ */
+export interface PatientConditionFieldRefs {
+  readonly id: Prisma.FieldRef<"PatientCondition", 'String'>
+  readonly clinicId: Prisma.FieldRef<"PatientCondition", 'String'>
+  readonly patientId: Prisma.FieldRef<"PatientCondition", 'String'>
+  readonly display: Prisma.FieldRef<"PatientCondition", 'String'>
+  readonly code: Prisma.FieldRef<"PatientCondition", 'String'>
+  readonly codeSystem: Prisma.FieldRef<"PatientCondition", 'ConditionCodeSystem'>
+  readonly status: Prisma.FieldRef<"PatientCondition", 'ConditionStatus'>
+  readonly onsetDate: Prisma.FieldRef<"PatientCondition", 'DateTime'>
+  readonly resolvedDate: Prisma.FieldRef<"PatientCondition", 'DateTime'>
+  readonly notes: Prisma.FieldRef<"PatientCondition", 'String'>
+  readonly sourceText: Prisma.FieldRef<"PatientCondition", 'String'>
+  readonly needsReview: Prisma.FieldRef<"PatientCondition", 'Boolean'>
+  readonly reviewedAt: Prisma.FieldRef<"PatientCondition", 'DateTime'>
+  readonly reviewedById: Prisma.FieldRef<"PatientCondition", 'String'>
+  readonly recordedById: Prisma.FieldRef<"PatientCondition", 'String'>
+  readonly createdAt: Prisma.FieldRef<"PatientCondition", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"PatientCondition", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * PatientCondition findUnique
+ */
+export type PatientConditionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientCondition
+   */
+  select?: Prisma.PatientConditionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientCondition
+   */
+  omit?: Prisma.PatientConditionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientConditionInclude<ExtArgs> | null
+  /**
+   * Filter, which PatientCondition to fetch.
+   */
+  where: Prisma.PatientConditionWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * PatientCondition findUniqueOrThrow
+ */
+export type PatientConditionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientCondition
+   */
+  select?: Prisma.PatientConditionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientCondition
+   */
+  omit?: Prisma.PatientConditionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientConditionInclude<ExtArgs> | null
+  /**
+   * Filter, which PatientCondition to fetch.
+   */
+  where: Prisma.PatientConditionWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * PatientCondition findFirst
+ */
+export type PatientConditionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientCondition
+   */
+  select?: Prisma.PatientConditionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientCondition
+   */
+  omit?: Prisma.PatientConditionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientConditionInclude<ExtArgs> | null
+  /**
+   * Filter, which PatientCondition to fetch.
+   */
+  where?: Prisma.PatientConditionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PatientConditions to fetch.
+   */
+  orderBy?: Prisma.PatientConditionOrderByWithRelationInput | Prisma.PatientConditionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PatientConditions.
+   */
+  cursor?: Prisma.PatientConditionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PatientConditions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PatientConditions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PatientConditions.
+   */
+  distinct?: Prisma.PatientConditionScalarFieldEnum | Prisma.PatientConditionScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * PatientCondition findFirstOrThrow
+ */
+export type PatientConditionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientCondition
+   */
+  select?: Prisma.PatientConditionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientCondition
+   */
+  omit?: Prisma.PatientConditionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientConditionInclude<ExtArgs> | null
+  /**
+   * Filter, which PatientCondition to fetch.
+   */
+  where?: Prisma.PatientConditionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PatientConditions to fetch.
+   */
+  orderBy?: Prisma.PatientConditionOrderByWithRelationInput | Prisma.PatientConditionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for PatientConditions.
+   */
+  cursor?: Prisma.PatientConditionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PatientConditions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PatientConditions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of PatientConditions.
+   */
+  distinct?: Prisma.PatientConditionScalarFieldEnum | Prisma.PatientConditionScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * PatientCondition findMany
+ */
+export type PatientConditionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientCondition
+   */
+  select?: Prisma.PatientConditionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientCondition
+   */
+  omit?: Prisma.PatientConditionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientConditionInclude<ExtArgs> | null
+  /**
+   * Filter, which PatientConditions to fetch.
+   */
+  where?: Prisma.PatientConditionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of PatientConditions to fetch.
+   */
+  orderBy?: Prisma.PatientConditionOrderByWithRelationInput | Prisma.PatientConditionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing PatientConditions.
+   */
+  cursor?: Prisma.PatientConditionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` PatientConditions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` PatientConditions.
+   */
+  skip?: number
+  distinct?: Prisma.PatientConditionScalarFieldEnum | Prisma.PatientConditionScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * PatientCondition create
+ */
+export type PatientConditionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientCondition
+   */
+  select?: Prisma.PatientConditionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientCondition
+   */
+  omit?: Prisma.PatientConditionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientConditionInclude<ExtArgs> | null
+  /**
+   * The data needed to create a PatientCondition.
+   */
+  data: Prisma.XOR<Prisma.PatientConditionCreateInput, Prisma.PatientConditionUncheckedCreateInput>
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * PatientCondition createMany
+ */
+export type PatientConditionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many PatientConditions.
+   */
+  data: Prisma.PatientConditionCreateManyInput | Prisma.PatientConditionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * PatientCondition createManyAndReturn
+ */
+export type PatientConditionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientCondition
+   */
+  select?: Prisma.PatientConditionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientCondition
+   */
+  omit?: Prisma.PatientConditionOmit<ExtArgs> | null
+  /**
+   * The data used to create many PatientConditions.
+   */
+  data: Prisma.PatientConditionCreateManyInput | Prisma.PatientConditionCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientConditionIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * PatientCondition update
+ */
+export type PatientConditionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientCondition
+   */
+  select?: Prisma.PatientConditionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientCondition
+   */
+  omit?: Prisma.PatientConditionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientConditionInclude<ExtArgs> | null
+  /**
+   * The data needed to update a PatientCondition.
+   */
+  data: Prisma.XOR<Prisma.PatientConditionUpdateInput, Prisma.PatientConditionUncheckedUpdateInput>
+  /**
+   * Choose, which PatientCondition to update.
+   */
+  where: Prisma.PatientConditionWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * PatientCondition updateMany
+ */
+export type PatientConditionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update PatientConditions.
+   */
+  data: Prisma.XOR<Prisma.PatientConditionUpdateManyMutationInput, Prisma.PatientConditionUncheckedUpdateManyInput>
+  /**
+   * Filter which PatientConditions to update
+   */
+  where?: Prisma.PatientConditionWhereInput
+  /**
+   * Limit how many PatientConditions to update.
+   */
+  limit?: number
+}
+
+/**
+ * PatientCondition updateManyAndReturn
+ */
+export type PatientConditionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientCondition
+   */
+  select?: Prisma.PatientConditionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientCondition
+   */
+  omit?: Prisma.PatientConditionOmit<ExtArgs> | null
+  /**
+   * The data used to update PatientConditions.
+   */
+  data: Prisma.XOR<Prisma.PatientConditionUpdateManyMutationInput, Prisma.PatientConditionUncheckedUpdateManyInput>
+  /**
+   * Filter which PatientConditions to update
+   */
+  where?: Prisma.PatientConditionWhereInput
+  /**
+   * Limit how many PatientConditions to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientConditionIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * PatientCondition upsert
+ */
+export type PatientConditionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientCondition
+   */
+  select?: Prisma.PatientConditionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientCondition
+   */
+  omit?: Prisma.PatientConditionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientConditionInclude<ExtArgs> | null
+  /**
+   * The filter to search for the PatientCondition to update in case it exists.
+   */
+  where: Prisma.PatientConditionWhereUniqueInput
+  /**
+   * In case the PatientCondition found by the `where` argument doesn't exist, create a new PatientCondition with this data.
+   */
+  create: Prisma.XOR<Prisma.PatientConditionCreateInput, Prisma.PatientConditionUncheckedCreateInput>
+  /**
+   * In case the PatientCondition was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.PatientConditionUpdateInput, Prisma.PatientConditionUncheckedUpdateInput>
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * PatientCondition delete
+ */
+export type PatientConditionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientCondition
+   */
+  select?: Prisma.PatientConditionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientCondition
+   */
+  omit?: Prisma.PatientConditionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientConditionInclude<ExtArgs> | null
+  /**
+   * Filter which PatientCondition to delete.
+   */
+  where: Prisma.PatientConditionWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * PatientCondition deleteMany
+ */
+export type PatientConditionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which PatientConditions to delete
+   */
+  where?: Prisma.PatientConditionWhereInput
+  /**
+   * Limit how many PatientConditions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * PatientCondition without action
+ */
+export type PatientConditionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the PatientCondition
+   */
+  select?: Prisma.PatientConditionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the PatientCondition
+   */
+  omit?: Prisma.PatientConditionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PatientConditionInclude<ExtArgs> | null
+}
@@ -28,10 +28,12 @@ export type AggregatePrescribedItem = {
 
 export type PrescribedItemAvgAggregateOutputType = {
   dosageValue: number | null
+  measuredQuantity: number | null
 }
 
 export type PrescribedItemSumAggregateOutputType = {
   dosageValue: number | null
+  measuredQuantity: number | null
 }
 
 export type PrescribedItemMinAggregateOutputType = {
@@ -44,6 +46,10 @@ export type PrescribedItemMinAggregateOutputType = {
   duration: string | null
   instructions: string | null
   drugRoute: $Enums.DrugRoute | null
+  indication: string | null
+  formulationId: string | null
+  measuredQuantity: number | null
+  measuredUnit: string | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -58,6 +64,10 @@ export type PrescribedItemMaxAggregateOutputType = {
   duration: string | null
   instructions: string | null
   drugRoute: $Enums.DrugRoute | null
+  indication: string | null
+  formulationId: string | null
+  measuredQuantity: number | null
+  measuredUnit: string | null
   createdAt: Date | null
   updatedAt: Date | null
 }
@@ -72,6 +82,10 @@ export type PrescribedItemCountAggregateOutputType = {
   duration: number
   instructions: number
   drugRoute: number
+  indication: number
+  formulationId: number
+  measuredQuantity: number
+  measuredUnit: number
   createdAt: number
   updatedAt: number
   _all: number
@@ -80,10 +94,12 @@ export type PrescribedItemCountAggregateOutputType = {
 
 export type PrescribedItemAvgAggregateInputType = {
   dosageValue?: true
+  measuredQuantity?: true
 }
 
 export type PrescribedItemSumAggregateInputType = {
   dosageValue?: true
+  measuredQuantity?: true
 }
 
 export type PrescribedItemMinAggregateInputType = {
@@ -96,6 +112,10 @@ export type PrescribedItemMinAggregateInputType = {
   duration?: true
   instructions?: true
   drugRoute?: true
+  indication?: true
+  formulationId?: true
+  measuredQuantity?: true
+  measuredUnit?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -110,6 +130,10 @@ export type PrescribedItemMaxAggregateInputType = {
   duration?: true
   instructions?: true
   drugRoute?: true
+  indication?: true
+  formulationId?: true
+  measuredQuantity?: true
+  measuredUnit?: true
   createdAt?: true
   updatedAt?: true
 }
@@ -124,6 +148,10 @@ export type PrescribedItemCountAggregateInputType = {
   duration?: true
   instructions?: true
   drugRoute?: true
+  indication?: true
+  formulationId?: true
+  measuredQuantity?: true
+  measuredUnit?: true
   createdAt?: true
   updatedAt?: true
   _all?: true
@@ -225,6 +253,10 @@ export type PrescribedItemGroupByOutputType = {
   duration: string
   instructions: string | null
   drugRoute: $Enums.DrugRoute | null
+  indication: string | null
+  formulationId: string | null
+  measuredQuantity: number | null
+  measuredUnit: string | null
   createdAt: Date
   updatedAt: Date
   _count: PrescribedItemCountAggregateOutputType | null
@@ -262,10 +294,15 @@ export type PrescribedItemWhereInput = {
   duration?: Prisma.StringFilter<"PrescribedItem"> | string
   instructions?: Prisma.StringNullableFilter<"PrescribedItem"> | string | null
   drugRoute?: Prisma.EnumDrugRouteNullableFilter<"PrescribedItem"> | $Enums.DrugRoute | null
+  indication?: Prisma.StringNullableFilter<"PrescribedItem"> | string | null
+  formulationId?: Prisma.StringNullableFilter<"PrescribedItem"> | string | null
+  measuredQuantity?: Prisma.FloatNullableFilter<"PrescribedItem"> | number | null
+  measuredUnit?: Prisma.StringNullableFilter<"PrescribedItem"> | string | null
   createdAt?: Prisma.DateTimeFilter<"PrescribedItem"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"PrescribedItem"> | Date | string
   prescription?: Prisma.XOR<Prisma.PrescriptionScalarRelationFilter, Prisma.PrescriptionWhereInput>
   drug?: Prisma.XOR<Prisma.DrugScalarRelationFilter, Prisma.DrugWhereInput>
+  formulation?: Prisma.XOR<Prisma.DrugFormulationNullableScalarRelationFilter, Prisma.DrugFormulationWhereInput> | null
 }
 
 export type PrescribedItemOrderByWithRelationInput = {
@@ -278,10 +315,15 @@ export type PrescribedItemOrderByWithRelationInput = {
   duration?: Prisma.SortOrder
   instructions?: Prisma.SortOrderInput | Prisma.SortOrder
   drugRoute?: Prisma.SortOrderInput | Prisma.SortOrder
+  indication?: Prisma.SortOrderInput | Prisma.SortOrder
+  formulationId?: Prisma.SortOrderInput | Prisma.SortOrder
+  measuredQuantity?: Prisma.SortOrderInput | Prisma.SortOrder
+  measuredUnit?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   prescription?: Prisma.PrescriptionOrderByWithRelationInput
   drug?: Prisma.DrugOrderByWithRelationInput
+  formulation?: Prisma.DrugFormulationOrderByWithRelationInput
 }
 
 export type PrescribedItemWhereUniqueInput = Prisma.AtLeast<{
@@ -297,10 +339,15 @@ export type PrescribedItemWhereUniqueInput = Prisma.AtLeast<{
   duration?: Prisma.StringFilter<"PrescribedItem"> | string
   instructions?: Prisma.StringNullableFilter<"PrescribedItem"> | string | null
   drugRoute?: Prisma.EnumDrugRouteNullableFilter<"PrescribedItem"> | $Enums.DrugRoute | null
+  indication?: Prisma.StringNullableFilter<"PrescribedItem"> | string | null
+  formulationId?: Prisma.StringNullableFilter<"PrescribedItem"> | string | null
+  measuredQuantity?: Prisma.FloatNullableFilter<"PrescribedItem"> | number | null
+  measuredUnit?: Prisma.StringNullableFilter<"PrescribedItem"> | string | null
   createdAt?: Prisma.DateTimeFilter<"PrescribedItem"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"PrescribedItem"> | Date | string
   prescription?: Prisma.XOR<Prisma.PrescriptionScalarRelationFilter, Prisma.PrescriptionWhereInput>
   drug?: Prisma.XOR<Prisma.DrugScalarRelationFilter, Prisma.DrugWhereInput>
+  formulation?: Prisma.XOR<Prisma.DrugFormulationNullableScalarRelationFilter, Prisma.DrugFormulationWhereInput> | null
 }, "id">
 
 export type PrescribedItemOrderByWithAggregationInput = {
@@ -313,6 +360,10 @@ export type PrescribedItemOrderByWithAggregationInput = {
   duration?: Prisma.SortOrder
   instructions?: Prisma.SortOrderInput | Prisma.SortOrder
   drugRoute?: Prisma.SortOrderInput | Prisma.SortOrder
+  indication?: Prisma.SortOrderInput | Prisma.SortOrder
+  formulationId?: Prisma.SortOrderInput | Prisma.SortOrder
+  measuredQuantity?: Prisma.SortOrderInput | Prisma.SortOrder
+  measuredUnit?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.PrescribedItemCountOrderByAggregateInput
@@ -335,6 +386,10 @@ export type PrescribedItemScalarWhereWithAggregatesInput = {
   duration?: Prisma.StringWithAggregatesFilter<"PrescribedItem"> | string
   instructions?: Prisma.StringNullableWithAggregatesFilter<"PrescribedItem"> | string | null
   drugRoute?: Prisma.EnumDrugRouteNullableWithAggregatesFilter<"PrescribedItem"> | $Enums.DrugRoute | null
+  indication?: Prisma.StringNullableWithAggregatesFilter<"PrescribedItem"> | string | null
+  formulationId?: Prisma.StringNullableWithAggregatesFilter<"PrescribedItem"> | string | null
+  measuredQuantity?: Prisma.FloatNullableWithAggregatesFilter<"PrescribedItem"> | number | null
+  measuredUnit?: Prisma.StringNullableWithAggregatesFilter<"PrescribedItem"> | string | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"PrescribedItem"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"PrescribedItem"> | Date | string
 }
@@ -347,10 +402,14 @@ export type PrescribedItemCreateInput = {
   duration: string
   instructions?: string | null
   drugRoute?: $Enums.DrugRoute | null
+  indication?: string | null
+  measuredQuantity?: number | null
+  measuredUnit?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   prescription: Prisma.PrescriptionCreateNestedOneWithoutPrescribedItemsInput
   drug: Prisma.DrugCreateNestedOneWithoutPrescribedItemsInput
+  formulation?: Prisma.DrugFormulationCreateNestedOneWithoutPrescribedItemsInput
 }
 
 export type PrescribedItemUncheckedCreateInput = {
@@ -363,6 +422,10 @@ export type PrescribedItemUncheckedCreateInput = {
   duration: string
   instructions?: string | null
   drugRoute?: $Enums.DrugRoute | null
+  indication?: string | null
+  formulationId?: string | null
+  measuredQuantity?: number | null
+  measuredUnit?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -375,10 +438,14 @@ export type PrescribedItemUpdateInput = {
   duration?: Prisma.StringFieldUpdateOperationsInput | string
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   drugRoute?: Prisma.NullableEnumDrugRouteFieldUpdateOperationsInput | $Enums.DrugRoute | null
+  indication?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  measuredQuantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  measuredUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   prescription?: Prisma.PrescriptionUpdateOneRequiredWithoutPrescribedItemsNestedInput
   drug?: Prisma.DrugUpdateOneRequiredWithoutPrescribedItemsNestedInput
+  formulation?: Prisma.DrugFormulationUpdateOneWithoutPrescribedItemsNestedInput
 }
 
 export type PrescribedItemUncheckedUpdateInput = {
@@ -391,6 +458,10 @@ export type PrescribedItemUncheckedUpdateInput = {
   duration?: Prisma.StringFieldUpdateOperationsInput | string
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   drugRoute?: Prisma.NullableEnumDrugRouteFieldUpdateOperationsInput | $Enums.DrugRoute | null
+  indication?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  formulationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  measuredQuantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  measuredUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -405,6 +476,10 @@ export type PrescribedItemCreateManyInput = {
   duration: string
   instructions?: string | null
   drugRoute?: $Enums.DrugRoute | null
+  indication?: string | null
+  formulationId?: string | null
+  measuredQuantity?: number | null
+  measuredUnit?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -417,6 +492,9 @@ export type PrescribedItemUpdateManyMutationInput = {
   duration?: Prisma.StringFieldUpdateOperationsInput | string
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   drugRoute?: Prisma.NullableEnumDrugRouteFieldUpdateOperationsInput | $Enums.DrugRoute | null
+  indication?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  measuredQuantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  measuredUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -431,6 +509,10 @@ export type PrescribedItemUncheckedUpdateManyInput = {
   duration?: Prisma.StringFieldUpdateOperationsInput | string
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   drugRoute?: Prisma.NullableEnumDrugRouteFieldUpdateOperationsInput | $Enums.DrugRoute | null
+  indication?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  formulationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  measuredQuantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  measuredUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -455,12 +537,17 @@ export type PrescribedItemCountOrderByAggregateInput = {
   duration?: Prisma.SortOrder
   instructions?: Prisma.SortOrder
   drugRoute?: Prisma.SortOrder
+  indication?: Prisma.SortOrder
+  formulationId?: Prisma.SortOrder
+  measuredQuantity?: Prisma.SortOrder
+  measuredUnit?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
 export type PrescribedItemAvgOrderByAggregateInput = {
   dosageValue?: Prisma.SortOrder
+  measuredQuantity?: Prisma.SortOrder
 }
 
 export type PrescribedItemMaxOrderByAggregateInput = {
@@ -473,6 +560,10 @@ export type PrescribedItemMaxOrderByAggregateInput = {
   duration?: Prisma.SortOrder
   instructions?: Prisma.SortOrder
   drugRoute?: Prisma.SortOrder
+  indication?: Prisma.SortOrder
+  formulationId?: Prisma.SortOrder
+  measuredQuantity?: Prisma.SortOrder
+  measuredUnit?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
@@ -487,12 +578,17 @@ export type PrescribedItemMinOrderByAggregateInput = {
   duration?: Prisma.SortOrder
   instructions?: Prisma.SortOrder
   drugRoute?: Prisma.SortOrder
+  indication?: Prisma.SortOrder
+  formulationId?: Prisma.SortOrder
+  measuredQuantity?: Prisma.SortOrder
+  measuredUnit?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
 export type PrescribedItemSumOrderByAggregateInput = {
   dosageValue?: Prisma.SortOrder
+  measuredQuantity?: Prisma.SortOrder
 }
 
 export type PrescribedItemCreateNestedManyWithoutPrescriptionInput = {
@@ -579,12 +675,46 @@ export type PrescribedItemUncheckedUpdateManyWithoutDrugNestedInput = {
   deleteMany?: Prisma.PrescribedItemScalarWhereInput | Prisma.PrescribedItemScalarWhereInput[]
 }
 
-export type FloatFieldUpdateOperationsInput = {
-  set?: number
-  increment?: number
-  decrement?: number
-  multiply?: number
-  divide?: number
+export type PrescribedItemCreateNestedManyWithoutFormulationInput = {
+  create?: Prisma.XOR<Prisma.PrescribedItemCreateWithoutFormulationInput, Prisma.PrescribedItemUncheckedCreateWithoutFormulationInput> | Prisma.PrescribedItemCreateWithoutFormulationInput[] | Prisma.PrescribedItemUncheckedCreateWithoutFormulationInput[]
+  connectOrCreate?: Prisma.PrescribedItemCreateOrConnectWithoutFormulationInput | Prisma.PrescribedItemCreateOrConnectWithoutFormulationInput[]
+  createMany?: Prisma.PrescribedItemCreateManyFormulationInputEnvelope
+  connect?: Prisma.PrescribedItemWhereUniqueInput | Prisma.PrescribedItemWhereUniqueInput[]
+}
+
+export type PrescribedItemUncheckedCreateNestedManyWithoutFormulationInput = {
+  create?: Prisma.XOR<Prisma.PrescribedItemCreateWithoutFormulationInput, Prisma.PrescribedItemUncheckedCreateWithoutFormulationInput> | Prisma.PrescribedItemCreateWithoutFormulationInput[] | Prisma.PrescribedItemUncheckedCreateWithoutFormulationInput[]
+  connectOrCreate?: Prisma.PrescribedItemCreateOrConnectWithoutFormulationInput | Prisma.PrescribedItemCreateOrConnectWithoutFormulationInput[]
+  createMany?: Prisma.PrescribedItemCreateManyFormulationInputEnvelope
+  connect?: Prisma.PrescribedItemWhereUniqueInput | Prisma.PrescribedItemWhereUniqueInput[]
+}
+
+export type PrescribedItemUpdateManyWithoutFormulationNestedInput = {
+  create?: Prisma.XOR<Prisma.PrescribedItemCreateWithoutFormulationInput, Prisma.PrescribedItemUncheckedCreateWithoutFormulationInput> | Prisma.PrescribedItemCreateWithoutFormulationInput[] | Prisma.PrescribedItemUncheckedCreateWithoutFormulationInput[]
+  connectOrCreate?: Prisma.PrescribedItemCreateOrConnectWithoutFormulationInput | Prisma.PrescribedItemCreateOrConnectWithoutFormulationInput[]
+  upsert?: Prisma.PrescribedItemUpsertWithWhereUniqueWithoutFormulationInput | Prisma.PrescribedItemUpsertWithWhereUniqueWithoutFormulationInput[]
+  createMany?: Prisma.PrescribedItemCreateManyFormulationInputEnvelope
+  set?: Prisma.PrescribedItemWhereUniqueInput | Prisma.PrescribedItemWhereUniqueInput[]
+  disconnect?: Prisma.PrescribedItemWhereUniqueInput | Prisma.PrescribedItemWhereUniqueInput[]
+  delete?: Prisma.PrescribedItemWhereUniqueInput | Prisma.PrescribedItemWhereUniqueInput[]
+  connect?: Prisma.PrescribedItemWhereUniqueInput | Prisma.PrescribedItemWhereUniqueInput[]
+  update?: Prisma.PrescribedItemUpdateWithWhereUniqueWithoutFormulationInput | Prisma.PrescribedItemUpdateWithWhereUniqueWithoutFormulationInput[]
+  updateMany?: Prisma.PrescribedItemUpdateManyWithWhereWithoutFormulationInput | Prisma.PrescribedItemUpdateManyWithWhereWithoutFormulationInput[]
+  deleteMany?: Prisma.PrescribedItemScalarWhereInput | Prisma.PrescribedItemScalarWhereInput[]
+}
+
+export type PrescribedItemUncheckedUpdateManyWithoutFormulationNestedInput = {
+  create?: Prisma.XOR<Prisma.PrescribedItemCreateWithoutFormulationInput, Prisma.PrescribedItemUncheckedCreateWithoutFormulationInput> | Prisma.PrescribedItemCreateWithoutFormulationInput[] | Prisma.PrescribedItemUncheckedCreateWithoutFormulationInput[]
+  connectOrCreate?: Prisma.PrescribedItemCreateOrConnectWithoutFormulationInput | Prisma.PrescribedItemCreateOrConnectWithoutFormulationInput[]
+  upsert?: Prisma.PrescribedItemUpsertWithWhereUniqueWithoutFormulationInput | Prisma.PrescribedItemUpsertWithWhereUniqueWithoutFormulationInput[]
+  createMany?: Prisma.PrescribedItemCreateManyFormulationInputEnvelope
+  set?: Prisma.PrescribedItemWhereUniqueInput | Prisma.PrescribedItemWhereUniqueInput[]
+  disconnect?: Prisma.PrescribedItemWhereUniqueInput | Prisma.PrescribedItemWhereUniqueInput[]
+  delete?: Prisma.PrescribedItemWhereUniqueInput | Prisma.PrescribedItemWhereUniqueInput[]
+  connect?: Prisma.PrescribedItemWhereUniqueInput | Prisma.PrescribedItemWhereUniqueInput[]
+  update?: Prisma.PrescribedItemUpdateWithWhereUniqueWithoutFormulationInput | Prisma.PrescribedItemUpdateWithWhereUniqueWithoutFormulationInput[]
+  updateMany?: Prisma.PrescribedItemUpdateManyWithWhereWithoutFormulationInput | Prisma.PrescribedItemUpdateManyWithWhereWithoutFormulationInput[]
+  deleteMany?: Prisma.PrescribedItemScalarWhereInput | Prisma.PrescribedItemScalarWhereInput[]
 }
 
 export type EnumDosageUnitFieldUpdateOperationsInput = {
@@ -603,9 +733,13 @@ export type PrescribedItemCreateWithoutPrescriptionInput = {
   duration: string
   instructions?: string | null
   drugRoute?: $Enums.DrugRoute | null
+  indication?: string | null
+  measuredQuantity?: number | null
+  measuredUnit?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   drug: Prisma.DrugCreateNestedOneWithoutPrescribedItemsInput
+  formulation?: Prisma.DrugFormulationCreateNestedOneWithoutPrescribedItemsInput
 }
 
 export type PrescribedItemUncheckedCreateWithoutPrescriptionInput = {
@@ -617,6 +751,10 @@ export type PrescribedItemUncheckedCreateWithoutPrescriptionInput = {
   duration: string
   instructions?: string | null
   drugRoute?: $Enums.DrugRoute | null
+  indication?: string | null
+  formulationId?: string | null
+  measuredQuantity?: number | null
+  measuredUnit?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -660,6 +798,10 @@ export type PrescribedItemScalarWhereInput = {
   duration?: Prisma.StringFilter<"PrescribedItem"> | string
   instructions?: Prisma.StringNullableFilter<"PrescribedItem"> | string | null
   drugRoute?: Prisma.EnumDrugRouteNullableFilter<"PrescribedItem"> | $Enums.DrugRoute | null
+  indication?: Prisma.StringNullableFilter<"PrescribedItem"> | string | null
+  formulationId?: Prisma.StringNullableFilter<"PrescribedItem"> | string | null
+  measuredQuantity?: Prisma.FloatNullableFilter<"PrescribedItem"> | number | null
+  measuredUnit?: Prisma.StringNullableFilter<"PrescribedItem"> | string | null
   createdAt?: Prisma.DateTimeFilter<"PrescribedItem"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"PrescribedItem"> | Date | string
 }
@@ -672,9 +814,13 @@ export type PrescribedItemCreateWithoutDrugInput = {
   duration: string
   instructions?: string | null
   drugRoute?: $Enums.DrugRoute | null
+  indication?: string | null
+  measuredQuantity?: number | null
+  measuredUnit?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   prescription: Prisma.PrescriptionCreateNestedOneWithoutPrescribedItemsInput
+  formulation?: Prisma.DrugFormulationCreateNestedOneWithoutPrescribedItemsInput
 }
 
 export type PrescribedItemUncheckedCreateWithoutDrugInput = {
@@ -686,6 +832,10 @@ export type PrescribedItemUncheckedCreateWithoutDrugInput = {
   duration: string
   instructions?: string | null
   drugRoute?: $Enums.DrugRoute | null
+  indication?: string | null
+  formulationId?: string | null
+  measuredQuantity?: number | null
+  measuredUnit?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -716,6 +866,66 @@ export type PrescribedItemUpdateManyWithWhereWithoutDrugInput = {
   data: Prisma.XOR<Prisma.PrescribedItemUpdateManyMutationInput, Prisma.PrescribedItemUncheckedUpdateManyWithoutDrugInput>
 }
 
+export type PrescribedItemCreateWithoutFormulationInput = {
+  id?: string
+  dosageValue: number
+  dosageUnit: $Enums.DosageUnit
+  frequency: string
+  duration: string
+  instructions?: string | null
+  drugRoute?: $Enums.DrugRoute | null
+  indication?: string | null
+  measuredQuantity?: number | null
+  measuredUnit?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  prescription: Prisma.PrescriptionCreateNestedOneWithoutPrescribedItemsInput
+  drug: Prisma.DrugCreateNestedOneWithoutPrescribedItemsInput
+}
+
+export type PrescribedItemUncheckedCreateWithoutFormulationInput = {
+  id?: string
+  prescriptionId: string
+  drugId: string
+  dosageValue: number
+  dosageUnit: $Enums.DosageUnit
+  frequency: string
+  duration: string
+  instructions?: string | null
+  drugRoute?: $Enums.DrugRoute | null
+  indication?: string | null
+  measuredQuantity?: number | null
+  measuredUnit?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PrescribedItemCreateOrConnectWithoutFormulationInput = {
+  where: Prisma.PrescribedItemWhereUniqueInput
+  create: Prisma.XOR<Prisma.PrescribedItemCreateWithoutFormulationInput, Prisma.PrescribedItemUncheckedCreateWithoutFormulationInput>
+}
+
+export type PrescribedItemCreateManyFormulationInputEnvelope = {
+  data: Prisma.PrescribedItemCreateManyFormulationInput | Prisma.PrescribedItemCreateManyFormulationInput[]
+  skipDuplicates?: boolean
+}
+
+export type PrescribedItemUpsertWithWhereUniqueWithoutFormulationInput = {
+  where: Prisma.PrescribedItemWhereUniqueInput
+  update: Prisma.XOR<Prisma.PrescribedItemUpdateWithoutFormulationInput, Prisma.PrescribedItemUncheckedUpdateWithoutFormulationInput>
+  create: Prisma.XOR<Prisma.PrescribedItemCreateWithoutFormulationInput, Prisma.PrescribedItemUncheckedCreateWithoutFormulationInput>
+}
+
+export type PrescribedItemUpdateWithWhereUniqueWithoutFormulationInput = {
+  where: Prisma.PrescribedItemWhereUniqueInput
+  data: Prisma.XOR<Prisma.PrescribedItemUpdateWithoutFormulationInput, Prisma.PrescribedItemUncheckedUpdateWithoutFormulationInput>
+}
+
+export type PrescribedItemUpdateManyWithWhereWithoutFormulationInput = {
+  where: Prisma.PrescribedItemScalarWhereInput
+  data: Prisma.XOR<Prisma.PrescribedItemUpdateManyMutationInput, Prisma.PrescribedItemUncheckedUpdateManyWithoutFormulationInput>
+}
+
 export type PrescribedItemCreateManyPrescriptionInput = {
   id?: string
   drugId: string
@@ -725,6 +935,10 @@ export type PrescribedItemCreateManyPrescriptionInput = {
   duration: string
   instructions?: string | null
   drugRoute?: $Enums.DrugRoute | null
+  indication?: string | null
+  formulationId?: string | null
+  measuredQuantity?: number | null
+  measuredUnit?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -737,9 +951,13 @@ export type PrescribedItemUpdateWithoutPrescriptionInput = {
   duration?: Prisma.StringFieldUpdateOperationsInput | string
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   drugRoute?: Prisma.NullableEnumDrugRouteFieldUpdateOperationsInput | $Enums.DrugRoute | null
+  indication?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  measuredQuantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  measuredUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   drug?: Prisma.DrugUpdateOneRequiredWithoutPrescribedItemsNestedInput
+  formulation?: Prisma.DrugFormulationUpdateOneWithoutPrescribedItemsNestedInput
 }
 
 export type PrescribedItemUncheckedUpdateWithoutPrescriptionInput = {
@@ -751,6 +969,10 @@ export type PrescribedItemUncheckedUpdateWithoutPrescriptionInput = {
   duration?: Prisma.StringFieldUpdateOperationsInput | string
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   drugRoute?: Prisma.NullableEnumDrugRouteFieldUpdateOperationsInput | $Enums.DrugRoute | null
+  indication?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  formulationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  measuredQuantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  measuredUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -764,6 +986,10 @@ export type PrescribedItemUncheckedUpdateManyWithoutPrescriptionInput = {
   duration?: Prisma.StringFieldUpdateOperationsInput | string
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   drugRoute?: Prisma.NullableEnumDrugRouteFieldUpdateOperationsInput | $Enums.DrugRoute | null
+  indication?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  formulationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  measuredQuantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  measuredUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -777,6 +1003,10 @@ export type PrescribedItemCreateManyDrugInput = {
   duration: string
   instructions?: string | null
   drugRoute?: $Enums.DrugRoute | null
+  indication?: string | null
+  formulationId?: string | null
+  measuredQuantity?: number | null
+  measuredUnit?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -789,9 +1019,13 @@ export type PrescribedItemUpdateWithoutDrugInput = {
   duration?: Prisma.StringFieldUpdateOperationsInput | string
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   drugRoute?: Prisma.NullableEnumDrugRouteFieldUpdateOperationsInput | $Enums.DrugRoute | null
+  indication?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  measuredQuantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  measuredUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   prescription?: Prisma.PrescriptionUpdateOneRequiredWithoutPrescribedItemsNestedInput
+  formulation?: Prisma.DrugFormulationUpdateOneWithoutPrescribedItemsNestedInput
 }
 
 export type PrescribedItemUncheckedUpdateWithoutDrugInput = {
@@ -803,6 +1037,10 @@ export type PrescribedItemUncheckedUpdateWithoutDrugInput = {
   duration?: Prisma.StringFieldUpdateOperationsInput | string
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   drugRoute?: Prisma.NullableEnumDrugRouteFieldUpdateOperationsInput | $Enums.DrugRoute | null
+  indication?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  formulationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  measuredQuantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  measuredUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -816,6 +1054,78 @@ export type PrescribedItemUncheckedUpdateManyWithoutDrugInput = {
   duration?: Prisma.StringFieldUpdateOperationsInput | string
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   drugRoute?: Prisma.NullableEnumDrugRouteFieldUpdateOperationsInput | $Enums.DrugRoute | null
+  indication?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  formulationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  measuredQuantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  measuredUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PrescribedItemCreateManyFormulationInput = {
+  id?: string
+  prescriptionId: string
+  drugId: string
+  dosageValue: number
+  dosageUnit: $Enums.DosageUnit
+  frequency: string
+  duration: string
+  instructions?: string | null
+  drugRoute?: $Enums.DrugRoute | null
+  indication?: string | null
+  measuredQuantity?: number | null
+  measuredUnit?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type PrescribedItemUpdateWithoutFormulationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  dosageValue?: Prisma.FloatFieldUpdateOperationsInput | number
+  dosageUnit?: Prisma.EnumDosageUnitFieldUpdateOperationsInput | $Enums.DosageUnit
+  frequency?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.StringFieldUpdateOperationsInput | string
+  instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  drugRoute?: Prisma.NullableEnumDrugRouteFieldUpdateOperationsInput | $Enums.DrugRoute | null
+  indication?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  measuredQuantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  measuredUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescription?: Prisma.PrescriptionUpdateOneRequiredWithoutPrescribedItemsNestedInput
+  drug?: Prisma.DrugUpdateOneRequiredWithoutPrescribedItemsNestedInput
+}
+
+export type PrescribedItemUncheckedUpdateWithoutFormulationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  prescriptionId?: Prisma.StringFieldUpdateOperationsInput | string
+  drugId?: Prisma.StringFieldUpdateOperationsInput | string
+  dosageValue?: Prisma.FloatFieldUpdateOperationsInput | number
+  dosageUnit?: Prisma.EnumDosageUnitFieldUpdateOperationsInput | $Enums.DosageUnit
+  frequency?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.StringFieldUpdateOperationsInput | string
+  instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  drugRoute?: Prisma.NullableEnumDrugRouteFieldUpdateOperationsInput | $Enums.DrugRoute | null
+  indication?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  measuredQuantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  measuredUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type PrescribedItemUncheckedUpdateManyWithoutFormulationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  prescriptionId?: Prisma.StringFieldUpdateOperationsInput | string
+  drugId?: Prisma.StringFieldUpdateOperationsInput | string
+  dosageValue?: Prisma.FloatFieldUpdateOperationsInput | number
+  dosageUnit?: Prisma.EnumDosageUnitFieldUpdateOperationsInput | $Enums.DosageUnit
+  frequency?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.StringFieldUpdateOperationsInput | string
+  instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  drugRoute?: Prisma.NullableEnumDrugRouteFieldUpdateOperationsInput | $Enums.DrugRoute | null
+  indication?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  measuredQuantity?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  measuredUnit?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -832,10 +1142,15 @@ export type PrescribedItemSelect<ExtArgs extends runtime.Types.Extensions.Intern
   duration?: boolean
   instructions?: boolean
   drugRoute?: boolean
+  indication?: boolean
+  formulationId?: boolean
+  measuredQuantity?: boolean
+  measuredUnit?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   prescription?: boolean | Prisma.PrescriptionDefaultArgs<ExtArgs>
   drug?: boolean | Prisma.DrugDefaultArgs<ExtArgs>
+  formulation?: boolean | Prisma.PrescribedItem$formulationArgs<ExtArgs>
 }, ExtArgs["result"]["prescribedItem"]>
 
 export type PrescribedItemSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -848,10 +1163,15 @@ export type PrescribedItemSelectCreateManyAndReturn<ExtArgs extends runtime.Type
   duration?: boolean
   instructions?: boolean
   drugRoute?: boolean
+  indication?: boolean
+  formulationId?: boolean
+  measuredQuantity?: boolean
+  measuredUnit?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   prescription?: boolean | Prisma.PrescriptionDefaultArgs<ExtArgs>
   drug?: boolean | Prisma.DrugDefaultArgs<ExtArgs>
+  formulation?: boolean | Prisma.PrescribedItem$formulationArgs<ExtArgs>
 }, ExtArgs["result"]["prescribedItem"]>
 
 export type PrescribedItemSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -864,10 +1184,15 @@ export type PrescribedItemSelectUpdateManyAndReturn<ExtArgs extends runtime.Type
   duration?: boolean
   instructions?: boolean
   drugRoute?: boolean
+  indication?: boolean
+  formulationId?: boolean
+  measuredQuantity?: boolean
+  measuredUnit?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   prescription?: boolean | Prisma.PrescriptionDefaultArgs<ExtArgs>
   drug?: boolean | Prisma.DrugDefaultArgs<ExtArgs>
+  formulation?: boolean | Prisma.PrescribedItem$formulationArgs<ExtArgs>
 }, ExtArgs["result"]["prescribedItem"]>
 
 export type PrescribedItemSelectScalar = {
@@ -880,22 +1205,29 @@ export type PrescribedItemSelectScalar = {
   duration?: boolean
   instructions?: boolean
   drugRoute?: boolean
+  indication?: boolean
+  formulationId?: boolean
+  measuredQuantity?: boolean
+  measuredUnit?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type PrescribedItemOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "prescriptionId" | "drugId" | "dosageValue" | "dosageUnit" | "frequency" | "duration" | "instructions" | "drugRoute" | "createdAt" | "updatedAt", ExtArgs["result"]["prescribedItem"]>
+export type PrescribedItemOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "prescriptionId" | "drugId" | "dosageValue" | "dosageUnit" | "frequency" | "duration" | "instructions" | "drugRoute" | "indication" | "formulationId" | "measuredQuantity" | "measuredUnit" | "createdAt" | "updatedAt", ExtArgs["result"]["prescribedItem"]>
 export type PrescribedItemInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   prescription?: boolean | Prisma.PrescriptionDefaultArgs<ExtArgs>
   drug?: boolean | Prisma.DrugDefaultArgs<ExtArgs>
+  formulation?: boolean | Prisma.PrescribedItem$formulationArgs<ExtArgs>
 }
 export type PrescribedItemIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   prescription?: boolean | Prisma.PrescriptionDefaultArgs<ExtArgs>
   drug?: boolean | Prisma.DrugDefaultArgs<ExtArgs>
+  formulation?: boolean | Prisma.PrescribedItem$formulationArgs<ExtArgs>
 }
 export type PrescribedItemIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   prescription?: boolean | Prisma.PrescriptionDefaultArgs<ExtArgs>
   drug?: boolean | Prisma.DrugDefaultArgs<ExtArgs>
+  formulation?: boolean | Prisma.PrescribedItem$formulationArgs<ExtArgs>
 }
 
 export type $PrescribedItemPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -903,6 +1235,7 @@ export type $PrescribedItemPayload<ExtArgs extends runtime.Types.Extensions.Inte
   objects: {
     prescription: Prisma.$PrescriptionPayload<ExtArgs>
     drug: Prisma.$DrugPayload<ExtArgs>
+    formulation: Prisma.$DrugFormulationPayload<ExtArgs> | null
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -914,6 +1247,16 @@ export type $PrescribedItemPayload<ExtArgs extends runtime.Types.Extensions.Inte
     duration: string
     instructions: string | null
     drugRoute: $Enums.DrugRoute | null
+    /**
+     * What the drug is given for; picks the dosing guideline the dose was checked against
+     */
+    indication: string | null
+    formulationId: string | null
+    /**
+     * The dose as measured out of the formulation, e.g. 2.4 mL or 0.5 tablet
+     */
+    measuredQuantity: number | null
+    measuredUnit: string | null
     createdAt: Date
     updatedAt: Date
   }, ExtArgs["result"]["prescribedItem"]>
@@ -1312,6 +1655,7 @@ export interface Prisma__PrescribedItemClient<T, Null = never, ExtArgs extends r
   readonly [Symbol.toStringTag]: "PrismaPromise"
   prescription<T extends Prisma.PrescriptionDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PrescriptionDefaultArgs<ExtArgs>>): Prisma.Prisma__PrescriptionClient<runtime.Types.Result.GetResult<Prisma.$PrescriptionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   drug<T extends Prisma.DrugDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.DrugDefaultArgs<ExtArgs>>): Prisma.Prisma__DrugClient<runtime.Types.Result.GetResult<Prisma.$DrugPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  formulation<T extends Prisma.PrescribedItem$formulationArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PrescribedItem$formulationArgs<ExtArgs>>): Prisma.Prisma__DrugFormulationClient<runtime.Types.Result.GetResult<Prisma.$DrugFormulationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1350,6 +1694,10 @@ export interface PrescribedItemFieldRefs {
   readonly duration: Prisma.FieldRef<"PrescribedItem", 'String'>
   readonly instructions: Prisma.FieldRef<"PrescribedItem", 'String'>
   readonly drugRoute: Prisma.FieldRef<"PrescribedItem", 'DrugRoute'>
+  readonly indication: Prisma.FieldRef<"PrescribedItem", 'String'>
+  readonly formulationId: Prisma.FieldRef<"PrescribedItem", 'String'>
+  readonly measuredQuantity: Prisma.FieldRef<"PrescribedItem", 'Float'>
+  readonly measuredUnit: Prisma.FieldRef<"PrescribedItem", 'String'>
   readonly createdAt: Prisma.FieldRef<"PrescribedItem", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"PrescribedItem", 'DateTime'>
 }
@@ -1756,6 +2104,25 @@ export type PrescribedItemDeleteManyArgs<ExtArgs extends runtime.Types.Extension
   limit?: number
 }
 
+/**
+ * PrescribedItem.formulation
+ */
+export type PrescribedItem$formulationArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the DrugFormulation
+   */
+  select?: Prisma.DrugFormulationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the DrugFormulation
+   */
+  omit?: Prisma.DrugFormulationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DrugFormulationInclude<ExtArgs> | null
+  where?: Prisma.DrugFormulationWhereInput
+}
+
 /**
  * PrescribedItem without action
  */
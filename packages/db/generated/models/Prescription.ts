@@ -20,10 +20,20 @@ export type PrescriptionModel = runtime.Types.Result.DefaultSelection<Prisma.$Pr
 
 export type AggregatePrescription = {
   _count: PrescriptionCountAggregateOutputType | null
+  _avg: PrescriptionAvgAggregateOutputType | null
+  _sum: PrescriptionSumAggregateOutputType | null
   _min: PrescriptionMinAggregateOutputType | null
   _max: PrescriptionMaxAggregateOutputType | null
 }
 
+export type PrescriptionAvgAggregateOutputType = {
+  weightKg: number | null
+}
+
+export type PrescriptionSumAggregateOutputType = {
+  weightKg: number | null
+}
+
 export type PrescriptionMinAggregateOutputType = {
   id: string | null
   medicalRecordId: string | null
@@ -34,7 +44,12 @@ export type PrescriptionMinAggregateOutputType = {
   instructions: string | null
   issuedDate: Date | null
   endDate: Date | null
-  status: string | null
+  status: $Enums.PrescriptionStatus | null
+  weightKg: number | null
+  discontinuedAt: Date | null
+  discontinuedReason: string | null
+  discontinuedById: string | null
+  renewedFromId: string | null
   clinicId: string | null
   createdAt: Date | null
   updatedAt: Date | null
@@ -50,7 +65,12 @@ export type PrescriptionMaxAggregateOutputType = {
   instructions: string | null
   issuedDate: Date | null
   endDate: Date | null
-  status: string | null
+  status: $Enums.PrescriptionStatus | null
+  weightKg: number | null
+  discontinuedAt: Date | null
+  discontinuedReason: string | null
+  discontinuedById: string | null
+  renewedFromId: string | null
   clinicId: string | null
   createdAt: Date | null
   updatedAt: Date | null
@@ -67,6 +87,11 @@ export type PrescriptionCountAggregateOutputType = {
   issuedDate: number
   endDate: number
   status: number
+  weightKg: number
+  discontinuedAt: number
+  discontinuedReason: number
+  discontinuedById: number
+  renewedFromId: number
   clinicId: number
   createdAt: number
   updatedAt: number
@@ -74,6 +99,14 @@ export type PrescriptionCountAggregateOutputType = {
 }
 
 
+export type PrescriptionAvgAggregateInputType = {
+  weightKg?: true
+}
+
+export type PrescriptionSumAggregateInputType = {
+  weightKg?: true
+}
+
 export type PrescriptionMinAggregateInputType = {
   id?: true
   medicalRecordId?: true
@@ -85,6 +118,11 @@ export type PrescriptionMinAggregateInputType = {
   issuedDate?: true
   endDate?: true
   status?: true
+  weightKg?: true
+  discontinuedAt?: true
+  discontinuedReason?: true
+  discontinuedById?: true
+  renewedFromId?: true
   clinicId?: true
   createdAt?: true
   updatedAt?: true
@@ -101,6 +139,11 @@ export type PrescriptionMaxAggregateInputType = {
   issuedDate?: true
   endDate?: true
   status?: true
+  weightKg?: true
+  discontinuedAt?: true
+  discontinuedReason?: true
+  discontinuedById?: true
+  renewedFromId?: true
   clinicId?: true
   createdAt?: true
   updatedAt?: true
@@ -117,6 +160,11 @@ export type PrescriptionCountAggregateInputType = {
   issuedDate?: true
   endDate?: true
   status?: true
+  weightKg?: true
+  discontinuedAt?: true
+  discontinuedReason?: true
+  discontinuedById?: true
+  renewedFromId?: true
   clinicId?: true
   createdAt?: true
   updatedAt?: true
@@ -158,6 +206,18 @@ export type PrescriptionAggregateArgs<ExtArgs extends runtime.Types.Extensions.I
    * Count returned Prescriptions
   **/
   _count?: true | PrescriptionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: PrescriptionAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: PrescriptionSumAggregateInputType
   /**
    * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
    * 
@@ -191,6 +251,8 @@ export type PrescriptionGroupByArgs<ExtArgs extends runtime.Types.Extensions.Int
   take?: number
   skip?: number
   _count?: PrescriptionCountAggregateInputType | true
+  _avg?: PrescriptionAvgAggregateInputType
+  _sum?: PrescriptionSumAggregateInputType
   _min?: PrescriptionMinAggregateInputType
   _max?: PrescriptionMaxAggregateInputType
 }
@@ -205,11 +267,18 @@ export type PrescriptionGroupByOutputType = {
   instructions: string | null
   issuedDate: Date
   endDate: Date | null
-  status: string
+  status: $Enums.PrescriptionStatus
+  weightKg: number | null
+  discontinuedAt: Date | null
+  discontinuedReason: string | null
+  discontinuedById: string | null
+  renewedFromId: string | null
   clinicId: string | null
   createdAt: Date
   updatedAt: Date
   _count: PrescriptionCountAggregateOutputType | null
+  _avg: PrescriptionAvgAggregateOutputType | null
+  _sum: PrescriptionSumAggregateOutputType | null
   _min: PrescriptionMinAggregateOutputType | null
   _max: PrescriptionMaxAggregateOutputType | null
 }
@@ -242,11 +311,18 @@ export type PrescriptionWhereInput = {
   instructions?: Prisma.StringNullableFilter<"Prescription"> | string | null
   issuedDate?: Prisma.DateTimeFilter<"Prescription"> | Date | string
   endDate?: Prisma.DateTimeNullableFilter<"Prescription"> | Date | string | null
-  status?: Prisma.StringFilter<"Prescription"> | string
+  status?: Prisma.EnumPrescriptionStatusFilter<"Prescription"> | $Enums.PrescriptionStatus
+  weightKg?: Prisma.FloatNullableFilter<"Prescription"> | number | null
+  discontinuedAt?: Prisma.DateTimeNullableFilter<"Prescription"> | Date | string | null
+  discontinuedReason?: Prisma.StringNullableFilter<"Prescription"> | string | null
+  discontinuedById?: Prisma.StringNullableFilter<"Prescription"> | string | null
+  renewedFromId?: Prisma.StringNullableFilter<"Prescription"> | string | null
   clinicId?: Prisma.StringNullableFilter<"Prescription"> | string | null
   createdAt?: Prisma.DateTimeFilter<"Prescription"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Prescription"> | Date | string
   encounter?: Prisma.XOR<Prisma.DiagnosisScalarRelationFilter, Prisma.DiagnosisWhereInput>
+  renewedFrom?: Prisma.XOR<Prisma.PrescriptionNullableScalarRelationFilter, Prisma.PrescriptionWhereInput> | null
+  renewal?: Prisma.XOR<Prisma.PrescriptionNullableScalarRelationFilter, Prisma.PrescriptionWhereInput> | null
   medicalRecord?: Prisma.XOR<Prisma.MedicalRecordsScalarRelationFilter, Prisma.MedicalRecordsWhereInput>
   doctor?: Prisma.XOR<Prisma.DoctorNullableScalarRelationFilter, Prisma.DoctorWhereInput> | null
   patient?: Prisma.XOR<Prisma.PatientScalarRelationFilter, Prisma.PatientWhereInput>
@@ -265,10 +341,17 @@ export type PrescriptionOrderByWithRelationInput = {
   issuedDate?: Prisma.SortOrder
   endDate?: Prisma.SortOrderInput | Prisma.SortOrder
   status?: Prisma.SortOrder
+  weightKg?: Prisma.SortOrderInput | Prisma.SortOrder
+  discontinuedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  discontinuedReason?: Prisma.SortOrderInput | Prisma.SortOrder
+  discontinuedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  renewedFromId?: Prisma.SortOrderInput | Prisma.SortOrder
   clinicId?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   encounter?: Prisma.DiagnosisOrderByWithRelationInput
+  renewedFrom?: Prisma.PrescriptionOrderByWithRelationInput
+  renewal?: Prisma.PrescriptionOrderByWithRelationInput
   medicalRecord?: Prisma.MedicalRecordsOrderByWithRelationInput
   doctor?: Prisma.DoctorOrderByWithRelationInput
   patient?: Prisma.PatientOrderByWithRelationInput
@@ -278,6 +361,7 @@ export type PrescriptionOrderByWithRelationInput = {
 
 export type PrescriptionWhereUniqueInput = Prisma.AtLeast<{
   id?: string
+  renewedFromId?: string
   AND?: Prisma.PrescriptionWhereInput | Prisma.PrescriptionWhereInput[]
   OR?: Prisma.PrescriptionWhereInput[]
   NOT?: Prisma.PrescriptionWhereInput | Prisma.PrescriptionWhereInput[]
@@ -289,17 +373,23 @@ export type PrescriptionWhereUniqueInput = Prisma.AtLeast<{
   instructions?: Prisma.StringNullableFilter<"Prescription"> | string | null
   issuedDate?: Prisma.DateTimeFilter<"Prescription"> | Date | string
   endDate?: Prisma.DateTimeNullableFilter<"Prescription"> | Date | string | null
-  status?: Prisma.StringFilter<"Prescription"> | string
+  status?: Prisma.EnumPrescriptionStatusFilter<"Prescription"> | $Enums.PrescriptionStatus
+  weightKg?: Prisma.FloatNullableFilter<"Prescription"> | number | null
+  discontinuedAt?: Prisma.DateTimeNullableFilter<"Prescription"> | Date | string | null
+  discontinuedReason?: Prisma.StringNullableFilter<"Prescription"> | string | null
+  discontinuedById?: Prisma.StringNullableFilter<"Prescription"> | string | null
   clinicId?: Prisma.StringNullableFilter<"Prescription"> | string | null
   createdAt?: Prisma.DateTimeFilter<"Prescription"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Prescription"> | Date | string
   encounter?: Prisma.XOR<Prisma.DiagnosisScalarRelationFilter, Prisma.DiagnosisWhereInput>
+  renewedFrom?: Prisma.XOR<Prisma.PrescriptionNullableScalarRelationFilter, Prisma.PrescriptionWhereInput> | null
+  renewal?: Prisma.XOR<Prisma.PrescriptionNullableScalarRelationFilter, Prisma.PrescriptionWhereInput> | null
   medicalRecord?: Prisma.XOR<Prisma.MedicalRecordsScalarRelationFilter, Prisma.MedicalRecordsWhereInput>
   doctor?: Prisma.XOR<Prisma.DoctorNullableScalarRelationFilter, Prisma.DoctorWhereInput> | null
   patient?: Prisma.XOR<Prisma.PatientScalarRelationFilter, Prisma.PatientWhereInput>
   clinic?: Prisma.XOR<Prisma.ClinicNullableScalarRelationFilter, Prisma.ClinicWhereInput> | null
   prescribedItems?: Prisma.PrescribedItemListRelationFilter
-}, "id">
+}, "id" | "renewedFromId">
 
 export type PrescriptionOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
@@ -312,12 +402,19 @@ export type PrescriptionOrderByWithAggregationInput = {
   issuedDate?: Prisma.SortOrder
   endDate?: Prisma.SortOrderInput | Prisma.SortOrder
   status?: Prisma.SortOrder
+  weightKg?: Prisma.SortOrderInput | Prisma.SortOrder
+  discontinuedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  discontinuedReason?: Prisma.SortOrderInput | Prisma.SortOrder
+  discontinuedById?: Prisma.SortOrderInput | Prisma.SortOrder
+  renewedFromId?: Prisma.SortOrderInput | Prisma.SortOrder
   clinicId?: Prisma.SortOrderInput | Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
   _count?: Prisma.PrescriptionCountOrderByAggregateInput
+  _avg?: Prisma.PrescriptionAvgOrderByAggregateInput
   _max?: Prisma.PrescriptionMaxOrderByAggregateInput
   _min?: Prisma.PrescriptionMinOrderByAggregateInput
+  _sum?: Prisma.PrescriptionSumOrderByAggregateInput
 }
 
 export type PrescriptionScalarWhereWithAggregatesInput = {
@@ -333,7 +430,12 @@ export type PrescriptionScalarWhereWithAggregatesInput = {
   instructions?: Prisma.StringNullableWithAggregatesFilter<"Prescription"> | string | null
   issuedDate?: Prisma.DateTimeWithAggregatesFilter<"Prescription"> | Date | string
   endDate?: Prisma.DateTimeNullableWithAggregatesFilter<"Prescription"> | Date | string | null
-  status?: Prisma.StringWithAggregatesFilter<"Prescription"> | string
+  status?: Prisma.EnumPrescriptionStatusWithAggregatesFilter<"Prescription"> | $Enums.PrescriptionStatus
+  weightKg?: Prisma.FloatNullableWithAggregatesFilter<"Prescription"> | number | null
+  discontinuedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Prescription"> | Date | string | null
+  discontinuedReason?: Prisma.StringNullableWithAggregatesFilter<"Prescription"> | string | null
+  discontinuedById?: Prisma.StringNullableWithAggregatesFilter<"Prescription"> | string | null
+  renewedFromId?: Prisma.StringNullableWithAggregatesFilter<"Prescription"> | string | null
   clinicId?: Prisma.StringNullableWithAggregatesFilter<"Prescription"> | string | null
   createdAt?: Prisma.DateTimeWithAggregatesFilter<"Prescription"> | Date | string
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Prescription"> | Date | string
@@ -345,10 +447,16 @@ export type PrescriptionCreateInput = {
   instructions?: string | null
   issuedDate?: Date | string
   endDate?: Date | string | null
-  status?: string
+  status?: $Enums.PrescriptionStatus
+  weightKg?: number | null
+  discontinuedAt?: Date | string | null
+  discontinuedReason?: string | null
+  discontinuedById?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   encounter: Prisma.DiagnosisCreateNestedOneWithoutPrescriptionsInput
+  renewedFrom?: Prisma.PrescriptionCreateNestedOneWithoutRenewalInput
+  renewal?: Prisma.PrescriptionCreateNestedOneWithoutRenewedFromInput
   medicalRecord: Prisma.MedicalRecordsCreateNestedOneWithoutPrescriptionsInput
   doctor?: Prisma.DoctorCreateNestedOneWithoutPrescriptionInput
   patient: Prisma.PatientCreateNestedOneWithoutPrescriptionsInput
@@ -366,10 +474,16 @@ export type PrescriptionUncheckedCreateInput = {
   instructions?: string | null
   issuedDate?: Date | string
   endDate?: Date | string | null
-  status?: string
+  status?: $Enums.PrescriptionStatus
+  weightKg?: number | null
+  discontinuedAt?: Date | string | null
+  discontinuedReason?: string | null
+  discontinuedById?: string | null
+  renewedFromId?: string | null
   clinicId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  renewal?: Prisma.PrescriptionUncheckedCreateNestedOneWithoutRenewedFromInput
   prescribedItems?: Prisma.PrescribedItemUncheckedCreateNestedManyWithoutPrescriptionInput
 }
 
@@ -379,10 +493,16 @@ export type PrescriptionUpdateInput = {
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   issuedDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  status?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  discontinuedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  discontinuedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discontinuedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   encounter?: Prisma.DiagnosisUpdateOneRequiredWithoutPrescriptionsNestedInput
+  renewedFrom?: Prisma.PrescriptionUpdateOneWithoutRenewalNestedInput
+  renewal?: Prisma.PrescriptionUpdateOneWithoutRenewedFromNestedInput
   medicalRecord?: Prisma.MedicalRecordsUpdateOneRequiredWithoutPrescriptionsNestedInput
   doctor?: Prisma.DoctorUpdateOneWithoutPrescriptionNestedInput
   patient?: Prisma.PatientUpdateOneRequiredWithoutPrescriptionsNestedInput
@@ -400,10 +520,16 @@ export type PrescriptionUncheckedUpdateInput = {
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   issuedDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  status?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  discontinuedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  discontinuedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discontinuedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  renewedFromId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   clinicId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  renewal?: Prisma.PrescriptionUncheckedUpdateOneWithoutRenewedFromNestedInput
   prescribedItems?: Prisma.PrescribedItemUncheckedUpdateManyWithoutPrescriptionNestedInput
 }
 
@@ -417,7 +543,12 @@ export type PrescriptionCreateManyInput = {
   instructions?: string | null
   issuedDate?: Date | string
   endDate?: Date | string | null
-  status?: string
+  status?: $Enums.PrescriptionStatus
+  weightKg?: number | null
+  discontinuedAt?: Date | string | null
+  discontinuedReason?: string | null
+  discontinuedById?: string | null
+  renewedFromId?: string | null
   clinicId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -429,7 +560,11 @@ export type PrescriptionUpdateManyMutationInput = {
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   issuedDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  status?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  discontinuedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  discontinuedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discontinuedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -444,7 +579,12 @@ export type PrescriptionUncheckedUpdateManyInput = {
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   issuedDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  status?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  discontinuedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  discontinuedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discontinuedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  renewedFromId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   clinicId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -460,6 +600,11 @@ export type PrescriptionOrderByRelationAggregateInput = {
   _count?: Prisma.SortOrder
 }
 
+export type PrescriptionNullableScalarRelationFilter = {
+  is?: Prisma.PrescriptionWhereInput | null
+  isNot?: Prisma.PrescriptionWhereInput | null
+}
+
 export type PrescriptionCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   medicalRecordId?: Prisma.SortOrder
@@ -471,11 +616,20 @@ export type PrescriptionCountOrderByAggregateInput = {
   issuedDate?: Prisma.SortOrder
   endDate?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  weightKg?: Prisma.SortOrder
+  discontinuedAt?: Prisma.SortOrder
+  discontinuedReason?: Prisma.SortOrder
+  discontinuedById?: Prisma.SortOrder
+  renewedFromId?: Prisma.SortOrder
   clinicId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
+export type PrescriptionAvgOrderByAggregateInput = {
+  weightKg?: Prisma.SortOrder
+}
+
 export type PrescriptionMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder
   medicalRecordId?: Prisma.SortOrder
@@ -487,6 +641,11 @@ export type PrescriptionMaxOrderByAggregateInput = {
   issuedDate?: Prisma.SortOrder
   endDate?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  weightKg?: Prisma.SortOrder
+  discontinuedAt?: Prisma.SortOrder
+  discontinuedReason?: Prisma.SortOrder
+  discontinuedById?: Prisma.SortOrder
+  renewedFromId?: Prisma.SortOrder
   clinicId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
@@ -503,11 +662,20 @@ export type PrescriptionMinOrderByAggregateInput = {
   issuedDate?: Prisma.SortOrder
   endDate?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  weightKg?: Prisma.SortOrder
+  discontinuedAt?: Prisma.SortOrder
+  discontinuedReason?: Prisma.SortOrder
+  discontinuedById?: Prisma.SortOrder
+  renewedFromId?: Prisma.SortOrder
   clinicId?: Prisma.SortOrder
   createdAt?: Prisma.SortOrder
   updatedAt?: Prisma.SortOrder
 }
 
+export type PrescriptionSumOrderByAggregateInput = {
+  weightKg?: Prisma.SortOrder
+}
+
 export type PrescriptionScalarRelationFilter = {
   is?: Prisma.PrescriptionWhereInput
   isNot?: Prisma.PrescriptionWhereInput
@@ -597,6 +765,58 @@ export type PrescriptionUncheckedUpdateManyWithoutDoctorNestedInput = {
   deleteMany?: Prisma.PrescriptionScalarWhereInput | Prisma.PrescriptionScalarWhereInput[]
 }
 
+export type PrescriptionCreateNestedOneWithoutRenewalInput = {
+  create?: Prisma.XOR<Prisma.PrescriptionCreateWithoutRenewalInput, Prisma.PrescriptionUncheckedCreateWithoutRenewalInput>
+  connectOrCreate?: Prisma.PrescriptionCreateOrConnectWithoutRenewalInput
+  connect?: Prisma.PrescriptionWhereUniqueInput
+}
+
+export type PrescriptionCreateNestedOneWithoutRenewedFromInput = {
+  create?: Prisma.XOR<Prisma.PrescriptionCreateWithoutRenewedFromInput, Prisma.PrescriptionUncheckedCreateWithoutRenewedFromInput>
+  connectOrCreate?: Prisma.PrescriptionCreateOrConnectWithoutRenewedFromInput
+  connect?: Prisma.PrescriptionWhereUniqueInput
+}
+
+export type PrescriptionUncheckedCreateNestedOneWithoutRenewedFromInput = {
+  create?: Prisma.XOR<Prisma.PrescriptionCreateWithoutRenewedFromInput, Prisma.PrescriptionUncheckedCreateWithoutRenewedFromInput>
+  connectOrCreate?: Prisma.PrescriptionCreateOrConnectWithoutRenewedFromInput
+  connect?: Prisma.PrescriptionWhereUniqueInput
+}
+
+export type EnumPrescriptionStatusFieldUpdateOperationsInput = {
+  set?: $Enums.PrescriptionStatus
+}
+
+export type PrescriptionUpdateOneWithoutRenewalNestedInput = {
+  create?: Prisma.XOR<Prisma.PrescriptionCreateWithoutRenewalInput, Prisma.PrescriptionUncheckedCreateWithoutRenewalInput>
+  connectOrCreate?: Prisma.PrescriptionCreateOrConnectWithoutRenewalInput
+  upsert?: Prisma.PrescriptionUpsertWithoutRenewalInput
+  disconnect?: Prisma.PrescriptionWhereInput | boolean
+  delete?: Prisma.PrescriptionWhereInput | boolean
+  connect?: Prisma.PrescriptionWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PrescriptionUpdateToOneWithWhereWithoutRenewalInput, Prisma.PrescriptionUpdateWithoutRenewalInput>, Prisma.PrescriptionUncheckedUpdateWithoutRenewalInput>
+}
+
+export type PrescriptionUpdateOneWithoutRenewedFromNestedInput = {
+  create?: Prisma.XOR<Prisma.PrescriptionCreateWithoutRenewedFromInput, Prisma.PrescriptionUncheckedCreateWithoutRenewedFromInput>
+  connectOrCreate?: Prisma.PrescriptionCreateOrConnectWithoutRenewedFromInput
+  upsert?: Prisma.PrescriptionUpsertWithoutRenewedFromInput
+  disconnect?: Prisma.PrescriptionWhereInput | boolean
+  delete?: Prisma.PrescriptionWhereInput | boolean
+  connect?: Prisma.PrescriptionWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PrescriptionUpdateToOneWithWhereWithoutRenewedFromInput, Prisma.PrescriptionUpdateWithoutRenewedFromInput>, Prisma.PrescriptionUncheckedUpdateWithoutRenewedFromInput>
+}
+
+export type PrescriptionUncheckedUpdateOneWithoutRenewedFromNestedInput = {
+  create?: Prisma.XOR<Prisma.PrescriptionCreateWithoutRenewedFromInput, Prisma.PrescriptionUncheckedCreateWithoutRenewedFromInput>
+  connectOrCreate?: Prisma.PrescriptionCreateOrConnectWithoutRenewedFromInput
+  upsert?: Prisma.PrescriptionUpsertWithoutRenewedFromInput
+  disconnect?: Prisma.PrescriptionWhereInput | boolean
+  delete?: Prisma.PrescriptionWhereInput | boolean
+  connect?: Prisma.PrescriptionWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.PrescriptionUpdateToOneWithWhereWithoutRenewedFromInput, Prisma.PrescriptionUpdateWithoutRenewedFromInput>, Prisma.PrescriptionUncheckedUpdateWithoutRenewedFromInput>
+}
+
 export type PrescriptionCreateNestedOneWithoutPrescribedItemsInput = {
   create?: Prisma.XOR<Prisma.PrescriptionCreateWithoutPrescribedItemsInput, Prisma.PrescriptionUncheckedCreateWithoutPrescribedItemsInput>
   connectOrCreate?: Prisma.PrescriptionCreateOrConnectWithoutPrescribedItemsInput
@@ -743,10 +963,16 @@ export type PrescriptionCreateWithoutClinicInput = {
   instructions?: string | null
   issuedDate?: Date | string
   endDate?: Date | string | null
-  status?: string
+  status?: $Enums.PrescriptionStatus
+  weightKg?: number | null
+  discontinuedAt?: Date | string | null
+  discontinuedReason?: string | null
+  discontinuedById?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   encounter: Prisma.DiagnosisCreateNestedOneWithoutPrescriptionsInput
+  renewedFrom?: Prisma.PrescriptionCreateNestedOneWithoutRenewalInput
+  renewal?: Prisma.PrescriptionCreateNestedOneWithoutRenewedFromInput
   medicalRecord: Prisma.MedicalRecordsCreateNestedOneWithoutPrescriptionsInput
   doctor?: Prisma.DoctorCreateNestedOneWithoutPrescriptionInput
   patient: Prisma.PatientCreateNestedOneWithoutPrescriptionsInput
@@ -763,9 +989,15 @@ export type PrescriptionUncheckedCreateWithoutClinicInput = {
   instructions?: string | null
   issuedDate?: Date | string
   endDate?: Date | string | null
-  status?: string
+  status?: $Enums.PrescriptionStatus
+  weightKg?: number | null
+  discontinuedAt?: Date | string | null
+  discontinuedReason?: string | null
+  discontinuedById?: string | null
+  renewedFromId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  renewal?: Prisma.PrescriptionUncheckedCreateNestedOneWithoutRenewedFromInput
   prescribedItems?: Prisma.PrescribedItemUncheckedCreateNestedManyWithoutPrescriptionInput
 }
 
@@ -808,7 +1040,12 @@ export type PrescriptionScalarWhereInput = {
   instructions?: Prisma.StringNullableFilter<"Prescription"> | string | null
   issuedDate?: Prisma.DateTimeFilter<"Prescription"> | Date | string
   endDate?: Prisma.DateTimeNullableFilter<"Prescription"> | Date | string | null
-  status?: Prisma.StringFilter<"Prescription"> | string
+  status?: Prisma.EnumPrescriptionStatusFilter<"Prescription"> | $Enums.PrescriptionStatus
+  weightKg?: Prisma.FloatNullableFilter<"Prescription"> | number | null
+  discontinuedAt?: Prisma.DateTimeNullableFilter<"Prescription"> | Date | string | null
+  discontinuedReason?: Prisma.StringNullableFilter<"Prescription"> | string | null
+  discontinuedById?: Prisma.StringNullableFilter<"Prescription"> | string | null
+  renewedFromId?: Prisma.StringNullableFilter<"Prescription"> | string | null
   clinicId?: Prisma.StringNullableFilter<"Prescription"> | string | null
   createdAt?: Prisma.DateTimeFilter<"Prescription"> | Date | string
   updatedAt?: Prisma.DateTimeFilter<"Prescription"> | Date | string
@@ -820,10 +1057,16 @@ export type PrescriptionCreateWithoutDoctorInput = {
   instructions?: string | null
   issuedDate?: Date | string
   endDate?: Date | string | null
-  status?: string
+  status?: $Enums.PrescriptionStatus
+  weightKg?: number | null
+  discontinuedAt?: Date | string | null
+  discontinuedReason?: string | null
+  discontinuedById?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   encounter: Prisma.DiagnosisCreateNestedOneWithoutPrescriptionsInput
+  renewedFrom?: Prisma.PrescriptionCreateNestedOneWithoutRenewalInput
+  renewal?: Prisma.PrescriptionCreateNestedOneWithoutRenewedFromInput
   medicalRecord: Prisma.MedicalRecordsCreateNestedOneWithoutPrescriptionsInput
   patient: Prisma.PatientCreateNestedOneWithoutPrescriptionsInput
   clinic?: Prisma.ClinicCreateNestedOneWithoutPrescriptionsInput
@@ -839,10 +1082,16 @@ export type PrescriptionUncheckedCreateWithoutDoctorInput = {
   instructions?: string | null
   issuedDate?: Date | string
   endDate?: Date | string | null
-  status?: string
+  status?: $Enums.PrescriptionStatus
+  weightKg?: number | null
+  discontinuedAt?: Date | string | null
+  discontinuedReason?: string | null
+  discontinuedById?: string | null
+  renewedFromId?: string | null
   clinicId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  renewal?: Prisma.PrescriptionUncheckedCreateNestedOneWithoutRenewedFromInput
   prescribedItems?: Prisma.PrescribedItemUncheckedCreateNestedManyWithoutPrescriptionInput
 }
 
@@ -872,16 +1121,230 @@ export type PrescriptionUpdateManyWithWhereWithoutDoctorInput = {
   data: Prisma.XOR<Prisma.PrescriptionUpdateManyMutationInput, Prisma.PrescriptionUncheckedUpdateManyWithoutDoctorInput>
 }
 
+export type PrescriptionCreateWithoutRenewalInput = {
+  id?: string
+  medicationName?: string | null
+  instructions?: string | null
+  issuedDate?: Date | string
+  endDate?: Date | string | null
+  status?: $Enums.PrescriptionStatus
+  weightKg?: number | null
+  discontinuedAt?: Date | string | null
+  discontinuedReason?: string | null
+  discontinuedById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  encounter: Prisma.DiagnosisCreateNestedOneWithoutPrescriptionsInput
+  renewedFrom?: Prisma.PrescriptionCreateNestedOneWithoutRenewalInput
+  medicalRecord: Prisma.MedicalRecordsCreateNestedOneWithoutPrescriptionsInput
+  doctor?: Prisma.DoctorCreateNestedOneWithoutPrescriptionInput
+  patient: Prisma.PatientCreateNestedOneWithoutPrescriptionsInput
+  clinic?: Prisma.ClinicCreateNestedOneWithoutPrescriptionsInput
+  prescribedItems?: Prisma.PrescribedItemCreateNestedManyWithoutPrescriptionInput
+}
+
+export type PrescriptionUncheckedCreateWithoutRenewalInput = {
+  id?: string
+  medicalRecordId: string
+  doctorId?: string | null
+  patientId: string
+  encounterId: string
+  medicationName?: string | null
+  instructions?: string | null
+  issuedDate?: Date | string
+  endDate?: Date | string | null
+  status?: $Enums.PrescriptionStatus
+  weightKg?: number | null
+  discontinuedAt?: Date | string | null
+  discontinuedReason?: string | null
+  discontinuedById?: string | null
+  renewedFromId?: string | null
+  clinicId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  prescribedItems?: Prisma.PrescribedItemUncheckedCreateNestedManyWithoutPrescriptionInput
+}
+
+export type PrescriptionCreateOrConnectWithoutRenewalInput = {
+  where: Prisma.PrescriptionWhereUniqueInput
+  create: Prisma.XOR<Prisma.PrescriptionCreateWithoutRenewalInput, Prisma.PrescriptionUncheckedCreateWithoutRenewalInput>
+}
+
+export type PrescriptionCreateWithoutRenewedFromInput = {
+  id?: string
+  medicationName?: string | null
+  instructions?: string | null
+  issuedDate?: Date | string
+  endDate?: Date | string | null
+  status?: $Enums.PrescriptionStatus
+  weightKg?: number | null
+  discontinuedAt?: Date | string | null
+  discontinuedReason?: string | null
+  discontinuedById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  encounter: Prisma.DiagnosisCreateNestedOneWithoutPrescriptionsInput
+  renewal?: Prisma.PrescriptionCreateNestedOneWithoutRenewedFromInput
+  medicalRecord: Prisma.MedicalRecordsCreateNestedOneWithoutPrescriptionsInput
+  doctor?: Prisma.DoctorCreateNestedOneWithoutPrescriptionInput
+  patient: Prisma.PatientCreateNestedOneWithoutPrescriptionsInput
+  clinic?: Prisma.ClinicCreateNestedOneWithoutPrescriptionsInput
+  prescribedItems?: Prisma.PrescribedItemCreateNestedManyWithoutPrescriptionInput
+}
+
+export type PrescriptionUncheckedCreateWithoutRenewedFromInput = {
+  id?: string
+  medicalRecordId: string
+  doctorId?: string | null
+  patientId: string
+  encounterId: string
+  medicationName?: string | null
+  instructions?: string | null
+  issuedDate?: Date | string
+  endDate?: Date | string | null
+  status?: $Enums.PrescriptionStatus
+  weightKg?: number | null
+  discontinuedAt?: Date | string | null
+  discontinuedReason?: string | null
+  discontinuedById?: string | null
+  clinicId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  renewal?: Prisma.PrescriptionUncheckedCreateNestedOneWithoutRenewedFromInput
+  prescribedItems?: Prisma.PrescribedItemUncheckedCreateNestedManyWithoutPrescriptionInput
+}
+
+export type PrescriptionCreateOrConnectWithoutRenewedFromInput = {
+  where: Prisma.PrescriptionWhereUniqueInput
+  create: Prisma.XOR<Prisma.PrescriptionCreateWithoutRenewedFromInput, Prisma.PrescriptionUncheckedCreateWithoutRenewedFromInput>
+}
+
+export type PrescriptionUpsertWithoutRenewalInput = {
+  update: Prisma.XOR<Prisma.PrescriptionUpdateWithoutRenewalInput, Prisma.PrescriptionUncheckedUpdateWithoutRenewalInput>
+  create: Prisma.XOR<Prisma.PrescriptionCreateWithoutRenewalInput, Prisma.PrescriptionUncheckedCreateWithoutRenewalInput>
+  where?: Prisma.PrescriptionWhereInput
+}
+
+export type PrescriptionUpdateToOneWithWhereWithoutRenewalInput = {
+  where?: Prisma.PrescriptionWhereInput
+  data: Prisma.XOR<Prisma.PrescriptionUpdateWithoutRenewalInput, Prisma.PrescriptionUncheckedUpdateWithoutRenewalInput>
+}
+
+export type PrescriptionUpdateWithoutRenewalInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  medicationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  issuedDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  discontinuedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  discontinuedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discontinuedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  encounter?: Prisma.DiagnosisUpdateOneRequiredWithoutPrescriptionsNestedInput
+  renewedFrom?: Prisma.PrescriptionUpdateOneWithoutRenewalNestedInput
+  medicalRecord?: Prisma.MedicalRecordsUpdateOneRequiredWithoutPrescriptionsNestedInput
+  doctor?: Prisma.DoctorUpdateOneWithoutPrescriptionNestedInput
+  patient?: Prisma.PatientUpdateOneRequiredWithoutPrescriptionsNestedInput
+  clinic?: Prisma.ClinicUpdateOneWithoutPrescriptionsNestedInput
+  prescribedItems?: Prisma.PrescribedItemUpdateManyWithoutPrescriptionNestedInput
+}
+
+export type PrescriptionUncheckedUpdateWithoutRenewalInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  encounterId?: Prisma.StringFieldUpdateOperationsInput | string
+  medicationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  issuedDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  discontinuedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  discontinuedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discontinuedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  renewedFromId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  clinicId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  prescribedItems?: Prisma.PrescribedItemUncheckedUpdateManyWithoutPrescriptionNestedInput
+}
+
+export type PrescriptionUpsertWithoutRenewedFromInput = {
+  update: Prisma.XOR<Prisma.PrescriptionUpdateWithoutRenewedFromInput, Prisma.PrescriptionUncheckedUpdateWithoutRenewedFromInput>
+  create: Prisma.XOR<Prisma.PrescriptionCreateWithoutRenewedFromInput, Prisma.PrescriptionUncheckedCreateWithoutRenewedFromInput>
+  where?: Prisma.PrescriptionWhereInput
+}
+
+export type PrescriptionUpdateToOneWithWhereWithoutRenewedFromInput = {
+  where?: Prisma.PrescriptionWhereInput
+  data: Prisma.XOR<Prisma.PrescriptionUpdateWithoutRenewedFromInput, Prisma.PrescriptionUncheckedUpdateWithoutRenewedFromInput>
+}
+
+export type PrescriptionUpdateWithoutRenewedFromInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  medicationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  issuedDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  discontinuedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  discontinuedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discontinuedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  encounter?: Prisma.DiagnosisUpdateOneRequiredWithoutPrescriptionsNestedInput
+  renewal?: Prisma.PrescriptionUpdateOneWithoutRenewedFromNestedInput
+  medicalRecord?: Prisma.MedicalRecordsUpdateOneRequiredWithoutPrescriptionsNestedInput
+  doctor?: Prisma.DoctorUpdateOneWithoutPrescriptionNestedInput
+  patient?: Prisma.PatientUpdateOneRequiredWithoutPrescriptionsNestedInput
+  clinic?: Prisma.ClinicUpdateOneWithoutPrescriptionsNestedInput
+  prescribedItems?: Prisma.PrescribedItemUpdateManyWithoutPrescriptionNestedInput
+}
+
+export type PrescriptionUncheckedUpdateWithoutRenewedFromInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  medicalRecordId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  encounterId?: Prisma.StringFieldUpdateOperationsInput | string
+  medicationName?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  issuedDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  endDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  discontinuedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  discontinuedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discontinuedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  clinicId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  renewal?: Prisma.PrescriptionUncheckedUpdateOneWithoutRenewedFromNestedInput
+  prescribedItems?: Prisma.PrescribedItemUncheckedUpdateManyWithoutPrescriptionNestedInput
+}
+
 export type PrescriptionCreateWithoutPrescribedItemsInput = {
   id?: string
   medicationName?: string | null
   instructions?: string | null
   issuedDate?: Date | string
   endDate?: Date | string | null
-  status?: string
+  status?: $Enums.PrescriptionStatus
+  weightKg?: number | null
+  discontinuedAt?: Date | string | null
+  discontinuedReason?: string | null
+  discontinuedById?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   encounter: Prisma.DiagnosisCreateNestedOneWithoutPrescriptionsInput
+  renewedFrom?: Prisma.PrescriptionCreateNestedOneWithoutRenewalInput
+  renewal?: Prisma.PrescriptionCreateNestedOneWithoutRenewedFromInput
   medicalRecord: Prisma.MedicalRecordsCreateNestedOneWithoutPrescriptionsInput
   doctor?: Prisma.DoctorCreateNestedOneWithoutPrescriptionInput
   patient: Prisma.PatientCreateNestedOneWithoutPrescriptionsInput
@@ -898,10 +1361,16 @@ export type PrescriptionUncheckedCreateWithoutPrescribedItemsInput = {
   instructions?: string | null
   issuedDate?: Date | string
   endDate?: Date | string | null
-  status?: string
+  status?: $Enums.PrescriptionStatus
+  weightKg?: number | null
+  discontinuedAt?: Date | string | null
+  discontinuedReason?: string | null
+  discontinuedById?: string | null
+  renewedFromId?: string | null
   clinicId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  renewal?: Prisma.PrescriptionUncheckedCreateNestedOneWithoutRenewedFromInput
 }
 
 export type PrescriptionCreateOrConnectWithoutPrescribedItemsInput = {
@@ -926,10 +1395,16 @@ export type PrescriptionUpdateWithoutPrescribedItemsInput = {
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   issuedDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  status?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  discontinuedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  discontinuedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discontinuedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   encounter?: Prisma.DiagnosisUpdateOneRequiredWithoutPrescriptionsNestedInput
+  renewedFrom?: Prisma.PrescriptionUpdateOneWithoutRenewalNestedInput
+  renewal?: Prisma.PrescriptionUpdateOneWithoutRenewedFromNestedInput
   medicalRecord?: Prisma.MedicalRecordsUpdateOneRequiredWithoutPrescriptionsNestedInput
   doctor?: Prisma.DoctorUpdateOneWithoutPrescriptionNestedInput
   patient?: Prisma.PatientUpdateOneRequiredWithoutPrescriptionsNestedInput
@@ -946,10 +1421,16 @@ export type PrescriptionUncheckedUpdateWithoutPrescribedItemsInput = {
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   issuedDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  status?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  discontinuedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  discontinuedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discontinuedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  renewedFromId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   clinicId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  renewal?: Prisma.PrescriptionUncheckedUpdateOneWithoutRenewedFromNestedInput
 }
 
 export type PrescriptionCreateWithoutPatientInput = {
@@ -958,10 +1439,16 @@ export type PrescriptionCreateWithoutPatientInput = {
   instructions?: string | null
   issuedDate?: Date | string
   endDate?: Date | string | null
-  status?: string
+  status?: $Enums.PrescriptionStatus
+  weightKg?: number | null
+  discontinuedAt?: Date | string | null
+  discontinuedReason?: string | null
+  discontinuedById?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   encounter: Prisma.DiagnosisCreateNestedOneWithoutPrescriptionsInput
+  renewedFrom?: Prisma.PrescriptionCreateNestedOneWithoutRenewalInput
+  renewal?: Prisma.PrescriptionCreateNestedOneWithoutRenewedFromInput
   medicalRecord: Prisma.MedicalRecordsCreateNestedOneWithoutPrescriptionsInput
   doctor?: Prisma.DoctorCreateNestedOneWithoutPrescriptionInput
   clinic?: Prisma.ClinicCreateNestedOneWithoutPrescriptionsInput
@@ -977,10 +1464,16 @@ export type PrescriptionUncheckedCreateWithoutPatientInput = {
   instructions?: string | null
   issuedDate?: Date | string
   endDate?: Date | string | null
-  status?: string
+  status?: $Enums.PrescriptionStatus
+  weightKg?: number | null
+  discontinuedAt?: Date | string | null
+  discontinuedReason?: string | null
+  discontinuedById?: string | null
+  renewedFromId?: string | null
   clinicId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  renewal?: Prisma.PrescriptionUncheckedCreateNestedOneWithoutRenewedFromInput
   prescribedItems?: Prisma.PrescribedItemUncheckedCreateNestedManyWithoutPrescriptionInput
 }
 
@@ -1016,10 +1509,16 @@ export type PrescriptionCreateWithoutMedicalRecordInput = {
   instructions?: string | null
   issuedDate?: Date | string
   endDate?: Date | string | null
-  status?: string
+  status?: $Enums.PrescriptionStatus
+  weightKg?: number | null
+  discontinuedAt?: Date | string | null
+  discontinuedReason?: string | null
+  discontinuedById?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
   encounter: Prisma.DiagnosisCreateNestedOneWithoutPrescriptionsInput
+  renewedFrom?: Prisma.PrescriptionCreateNestedOneWithoutRenewalInput
+  renewal?: Prisma.PrescriptionCreateNestedOneWithoutRenewedFromInput
   doctor?: Prisma.DoctorCreateNestedOneWithoutPrescriptionInput
   patient: Prisma.PatientCreateNestedOneWithoutPrescriptionsInput
   clinic?: Prisma.ClinicCreateNestedOneWithoutPrescriptionsInput
@@ -1035,10 +1534,16 @@ export type PrescriptionUncheckedCreateWithoutMedicalRecordInput = {
   instructions?: string | null
   issuedDate?: Date | string
   endDate?: Date | string | null
-  status?: string
+  status?: $Enums.PrescriptionStatus
+  weightKg?: number | null
+  discontinuedAt?: Date | string | null
+  discontinuedReason?: string | null
+  discontinuedById?: string | null
+  renewedFromId?: string | null
   clinicId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  renewal?: Prisma.PrescriptionUncheckedCreateNestedOneWithoutRenewedFromInput
   prescribedItems?: Prisma.PrescribedItemUncheckedCreateNestedManyWithoutPrescriptionInput
 }
 
@@ -1074,9 +1579,15 @@ export type PrescriptionCreateWithoutEncounterInput = {
   instructions?: string | null
   issuedDate?: Date | string
   endDate?: Date | string | null
-  status?: string
+  status?: $Enums.PrescriptionStatus
+  weightKg?: number | null
+  discontinuedAt?: Date | string | null
+  discontinuedReason?: string | null
+  discontinuedById?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  renewedFrom?: Prisma.PrescriptionCreateNestedOneWithoutRenewalInput
+  renewal?: Prisma.PrescriptionCreateNestedOneWithoutRenewedFromInput
   medicalRecord: Prisma.MedicalRecordsCreateNestedOneWithoutPrescriptionsInput
   doctor?: Prisma.DoctorCreateNestedOneWithoutPrescriptionInput
   patient: Prisma.PatientCreateNestedOneWithoutPrescriptionsInput
@@ -1093,10 +1604,16 @@ export type PrescriptionUncheckedCreateWithoutEncounterInput = {
   instructions?: string | null
   issuedDate?: Date | string
   endDate?: Date | string | null
-  status?: string
+  status?: $Enums.PrescriptionStatus
+  weightKg?: number | null
+  discontinuedAt?: Date | string | null
+  discontinuedReason?: string | null
+  discontinuedById?: string | null
+  renewedFromId?: string | null
   clinicId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
+  renewal?: Prisma.PrescriptionUncheckedCreateNestedOneWithoutRenewedFromInput
   prescribedItems?: Prisma.PrescribedItemUncheckedCreateNestedManyWithoutPrescriptionInput
 }
 
@@ -1136,7 +1653,12 @@ export type PrescriptionCreateManyClinicInput = {
   instructions?: string | null
   issuedDate?: Date | string
   endDate?: Date | string | null
-  status?: string
+  status?: $Enums.PrescriptionStatus
+  weightKg?: number | null
+  discontinuedAt?: Date | string | null
+  discontinuedReason?: string | null
+  discontinuedById?: string | null
+  renewedFromId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
 }
@@ -1147,10 +1669,16 @@ export type PrescriptionUpdateWithoutClinicInput = {
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   issuedDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  status?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  discontinuedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  discontinuedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discontinuedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   encounter?: Prisma.DiagnosisUpdateOneRequiredWithoutPrescriptionsNestedInput
+  renewedFrom?: Prisma.PrescriptionUpdateOneWithoutRenewalNestedInput
+  renewal?: Prisma.PrescriptionUpdateOneWithoutRenewedFromNestedInput
   medicalRecord?: Prisma.MedicalRecordsUpdateOneRequiredWithoutPrescriptionsNestedInput
   doctor?: Prisma.DoctorUpdateOneWithoutPrescriptionNestedInput
   patient?: Prisma.PatientUpdateOneRequiredWithoutPrescriptionsNestedInput
@@ -1167,9 +1695,15 @@ export type PrescriptionUncheckedUpdateWithoutClinicInput = {
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   issuedDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  status?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  discontinuedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  discontinuedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discontinuedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  renewedFromId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  renewal?: Prisma.PrescriptionUncheckedUpdateOneWithoutRenewedFromNestedInput
   prescribedItems?: Prisma.PrescribedItemUncheckedUpdateManyWithoutPrescriptionNestedInput
 }
 
@@ -1183,7 +1717,12 @@ export type PrescriptionUncheckedUpdateManyWithoutClinicInput = {
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   issuedDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  status?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  discontinuedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  discontinuedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discontinuedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  renewedFromId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
@@ -1197,7 +1736,12 @@ export type PrescriptionCreateManyDoctorInput = {
   instructions?: string | null
   issuedDate?: Date | string
   endDate?: Date | string | null
-  status?: string
+  status?: $Enums.PrescriptionStatus
+  weightKg?: number | null
+  discontinuedAt?: Date | string | null
+  discontinuedReason?: string | null
+  discontinuedById?: string | null
+  renewedFromId?: string | null
   clinicId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -1209,10 +1753,16 @@ export type PrescriptionUpdateWithoutDoctorInput = {
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   issuedDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  status?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  discontinuedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  discontinuedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discontinuedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   encounter?: Prisma.DiagnosisUpdateOneRequiredWithoutPrescriptionsNestedInput
+  renewedFrom?: Prisma.PrescriptionUpdateOneWithoutRenewalNestedInput
+  renewal?: Prisma.PrescriptionUpdateOneWithoutRenewedFromNestedInput
   medicalRecord?: Prisma.MedicalRecordsUpdateOneRequiredWithoutPrescriptionsNestedInput
   patient?: Prisma.PatientUpdateOneRequiredWithoutPrescriptionsNestedInput
   clinic?: Prisma.ClinicUpdateOneWithoutPrescriptionsNestedInput
@@ -1228,10 +1778,16 @@ export type PrescriptionUncheckedUpdateWithoutDoctorInput = {
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   issuedDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  status?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  discontinuedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  discontinuedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discontinuedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  renewedFromId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   clinicId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  renewal?: Prisma.PrescriptionUncheckedUpdateOneWithoutRenewedFromNestedInput
   prescribedItems?: Prisma.PrescribedItemUncheckedUpdateManyWithoutPrescriptionNestedInput
 }
 
@@ -1244,7 +1800,12 @@ export type PrescriptionUncheckedUpdateManyWithoutDoctorInput = {
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   issuedDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  status?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  discontinuedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  discontinuedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discontinuedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  renewedFromId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   clinicId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -1259,7 +1820,12 @@ export type PrescriptionCreateManyPatientInput = {
   instructions?: string | null
   issuedDate?: Date | string
   endDate?: Date | string | null
-  status?: string
+  status?: $Enums.PrescriptionStatus
+  weightKg?: number | null
+  discontinuedAt?: Date | string | null
+  discontinuedReason?: string | null
+  discontinuedById?: string | null
+  renewedFromId?: string | null
   clinicId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -1271,10 +1837,16 @@ export type PrescriptionUpdateWithoutPatientInput = {
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   issuedDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  status?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  discontinuedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  discontinuedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discontinuedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   encounter?: Prisma.DiagnosisUpdateOneRequiredWithoutPrescriptionsNestedInput
+  renewedFrom?: Prisma.PrescriptionUpdateOneWithoutRenewalNestedInput
+  renewal?: Prisma.PrescriptionUpdateOneWithoutRenewedFromNestedInput
   medicalRecord?: Prisma.MedicalRecordsUpdateOneRequiredWithoutPrescriptionsNestedInput
   doctor?: Prisma.DoctorUpdateOneWithoutPrescriptionNestedInput
   clinic?: Prisma.ClinicUpdateOneWithoutPrescriptionsNestedInput
@@ -1290,10 +1862,16 @@ export type PrescriptionUncheckedUpdateWithoutPatientInput = {
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   issuedDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  status?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  discontinuedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  discontinuedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discontinuedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  renewedFromId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   clinicId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  renewal?: Prisma.PrescriptionUncheckedUpdateOneWithoutRenewedFromNestedInput
   prescribedItems?: Prisma.PrescribedItemUncheckedUpdateManyWithoutPrescriptionNestedInput
 }
 
@@ -1306,7 +1884,12 @@ export type PrescriptionUncheckedUpdateManyWithoutPatientInput = {
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   issuedDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  status?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  discontinuedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  discontinuedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discontinuedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  renewedFromId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   clinicId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -1321,7 +1904,12 @@ export type PrescriptionCreateManyMedicalRecordInput = {
   instructions?: string | null
   issuedDate?: Date | string
   endDate?: Date | string | null
-  status?: string
+  status?: $Enums.PrescriptionStatus
+  weightKg?: number | null
+  discontinuedAt?: Date | string | null
+  discontinuedReason?: string | null
+  discontinuedById?: string | null
+  renewedFromId?: string | null
   clinicId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -1333,10 +1921,16 @@ export type PrescriptionUpdateWithoutMedicalRecordInput = {
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   issuedDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  status?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  discontinuedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  discontinuedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discontinuedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   encounter?: Prisma.DiagnosisUpdateOneRequiredWithoutPrescriptionsNestedInput
+  renewedFrom?: Prisma.PrescriptionUpdateOneWithoutRenewalNestedInput
+  renewal?: Prisma.PrescriptionUpdateOneWithoutRenewedFromNestedInput
   doctor?: Prisma.DoctorUpdateOneWithoutPrescriptionNestedInput
   patient?: Prisma.PatientUpdateOneRequiredWithoutPrescriptionsNestedInput
   clinic?: Prisma.ClinicUpdateOneWithoutPrescriptionsNestedInput
@@ -1352,10 +1946,16 @@ export type PrescriptionUncheckedUpdateWithoutMedicalRecordInput = {
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   issuedDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  status?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  discontinuedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  discontinuedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discontinuedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  renewedFromId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   clinicId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  renewal?: Prisma.PrescriptionUncheckedUpdateOneWithoutRenewedFromNestedInput
   prescribedItems?: Prisma.PrescribedItemUncheckedUpdateManyWithoutPrescriptionNestedInput
 }
 
@@ -1368,7 +1968,12 @@ export type PrescriptionUncheckedUpdateManyWithoutMedicalRecordInput = {
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   issuedDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  status?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  discontinuedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  discontinuedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discontinuedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  renewedFromId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   clinicId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -1383,7 +1988,12 @@ export type PrescriptionCreateManyEncounterInput = {
   instructions?: string | null
   issuedDate?: Date | string
   endDate?: Date | string | null
-  status?: string
+  status?: $Enums.PrescriptionStatus
+  weightKg?: number | null
+  discontinuedAt?: Date | string | null
+  discontinuedReason?: string | null
+  discontinuedById?: string | null
+  renewedFromId?: string | null
   clinicId?: string | null
   createdAt?: Date | string
   updatedAt?: Date | string
@@ -1395,9 +2005,15 @@ export type PrescriptionUpdateWithoutEncounterInput = {
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   issuedDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  status?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  discontinuedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  discontinuedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discontinuedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  renewedFrom?: Prisma.PrescriptionUpdateOneWithoutRenewalNestedInput
+  renewal?: Prisma.PrescriptionUpdateOneWithoutRenewedFromNestedInput
   medicalRecord?: Prisma.MedicalRecordsUpdateOneRequiredWithoutPrescriptionsNestedInput
   doctor?: Prisma.DoctorUpdateOneWithoutPrescriptionNestedInput
   patient?: Prisma.PatientUpdateOneRequiredWithoutPrescriptionsNestedInput
@@ -1414,10 +2030,16 @@ export type PrescriptionUncheckedUpdateWithoutEncounterInput = {
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   issuedDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  status?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  discontinuedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  discontinuedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discontinuedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  renewedFromId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   clinicId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  renewal?: Prisma.PrescriptionUncheckedUpdateOneWithoutRenewedFromNestedInput
   prescribedItems?: Prisma.PrescribedItemUncheckedUpdateManyWithoutPrescriptionNestedInput
 }
 
@@ -1430,7 +2052,12 @@ export type PrescriptionUncheckedUpdateManyWithoutEncounterInput = {
   instructions?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   issuedDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   endDate?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
-  status?: Prisma.StringFieldUpdateOperationsInput | string
+  status?: Prisma.EnumPrescriptionStatusFieldUpdateOperationsInput | $Enums.PrescriptionStatus
+  weightKg?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  discontinuedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  discontinuedReason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  discontinuedById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  renewedFromId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   clinicId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
@@ -1478,10 +2105,17 @@ export type PrescriptionSelect<ExtArgs extends runtime.Types.Extensions.Internal
   issuedDate?: boolean
   endDate?: boolean
   status?: boolean
+  weightKg?: boolean
+  discontinuedAt?: boolean
+  discontinuedReason?: boolean
+  discontinuedById?: boolean
+  renewedFromId?: boolean
   clinicId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   encounter?: boolean | Prisma.DiagnosisDefaultArgs<ExtArgs>
+  renewedFrom?: boolean | Prisma.Prescription$renewedFromArgs<ExtArgs>
+  renewal?: boolean | Prisma.Prescription$renewalArgs<ExtArgs>
   medicalRecord?: boolean | Prisma.MedicalRecordsDefaultArgs<ExtArgs>
   doctor?: boolean | Prisma.Prescription$doctorArgs<ExtArgs>
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
@@ -1501,10 +2135,16 @@ export type PrescriptionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.
   issuedDate?: boolean
   endDate?: boolean
   status?: boolean
+  weightKg?: boolean
+  discontinuedAt?: boolean
+  discontinuedReason?: boolean
+  discontinuedById?: boolean
+  renewedFromId?: boolean
   clinicId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   encounter?: boolean | Prisma.DiagnosisDefaultArgs<ExtArgs>
+  renewedFrom?: boolean | Prisma.Prescription$renewedFromArgs<ExtArgs>
   medicalRecord?: boolean | Prisma.MedicalRecordsDefaultArgs<ExtArgs>
   doctor?: boolean | Prisma.Prescription$doctorArgs<ExtArgs>
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
@@ -1522,10 +2162,16 @@ export type PrescriptionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.
   issuedDate?: boolean
   endDate?: boolean
   status?: boolean
+  weightKg?: boolean
+  discontinuedAt?: boolean
+  discontinuedReason?: boolean
+  discontinuedById?: boolean
+  renewedFromId?: boolean
   clinicId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
   encounter?: boolean | Prisma.DiagnosisDefaultArgs<ExtArgs>
+  renewedFrom?: boolean | Prisma.Prescription$renewedFromArgs<ExtArgs>
   medicalRecord?: boolean | Prisma.MedicalRecordsDefaultArgs<ExtArgs>
   doctor?: boolean | Prisma.Prescription$doctorArgs<ExtArgs>
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
@@ -1543,14 +2189,21 @@ export type PrescriptionSelectScalar = {
   issuedDate?: boolean
   endDate?: boolean
   status?: boolean
+  weightKg?: boolean
+  discontinuedAt?: boolean
+  discontinuedReason?: boolean
+  discontinuedById?: boolean
+  renewedFromId?: boolean
   clinicId?: boolean
   createdAt?: boolean
   updatedAt?: boolean
 }
 
-export type PrescriptionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "medicalRecordId" | "doctorId" | "patientId" | "encounterId" | "medicationName" | "instructions" | "issuedDate" | "endDate" | "status" | "clinicId" | "createdAt" | "updatedAt", ExtArgs["result"]["prescription"]>
+export type PrescriptionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "medicalRecordId" | "doctorId" | "patientId" | "encounterId" | "medicationName" | "instructions" | "issuedDate" | "endDate" | "status" | "weightKg" | "discontinuedAt" | "discontinuedReason" | "discontinuedById" | "renewedFromId" | "clinicId" | "createdAt" | "updatedAt", ExtArgs["result"]["prescription"]>
 export type PrescriptionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   encounter?: boolean | Prisma.DiagnosisDefaultArgs<ExtArgs>
+  renewedFrom?: boolean | Prisma.Prescription$renewedFromArgs<ExtArgs>
+  renewal?: boolean | Prisma.Prescription$renewalArgs<ExtArgs>
   medicalRecord?: boolean | Prisma.MedicalRecordsDefaultArgs<ExtArgs>
   doctor?: boolean | Prisma.Prescription$doctorArgs<ExtArgs>
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
@@ -1560,6 +2213,7 @@ export type PrescriptionInclude<ExtArgs extends runtime.Types.Extensions.Interna
 }
 export type PrescriptionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   encounter?: boolean | Prisma.DiagnosisDefaultArgs<ExtArgs>
+  renewedFrom?: boolean | Prisma.Prescription$renewedFromArgs<ExtArgs>
   medicalRecord?: boolean | Prisma.MedicalRecordsDefaultArgs<ExtArgs>
   doctor?: boolean | Prisma.Prescription$doctorArgs<ExtArgs>
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
@@ -1567,6 +2221,7 @@ export type PrescriptionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types
 }
 export type PrescriptionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   encounter?: boolean | Prisma.DiagnosisDefaultArgs<ExtArgs>
+  renewedFrom?: boolean | Prisma.Prescription$renewedFromArgs<ExtArgs>
   medicalRecord?: boolean | Prisma.MedicalRecordsDefaultArgs<ExtArgs>
   doctor?: boolean | Prisma.Prescription$doctorArgs<ExtArgs>
   patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
@@ -1577,6 +2232,8 @@ export type $PrescriptionPayload<ExtArgs extends runtime.Types.Extensions.Intern
   name: "Prescription"
   objects: {
     encounter: Prisma.$DiagnosisPayload<ExtArgs>
+    renewedFrom: Prisma.$PrescriptionPayload<ExtArgs> | null
+    renewal: Prisma.$PrescriptionPayload<ExtArgs> | null
     medicalRecord: Prisma.$MedicalRecordsPayload<ExtArgs>
     doctor: Prisma.$DoctorPayload<ExtArgs> | null
     patient: Prisma.$PatientPayload<ExtArgs>
@@ -1593,7 +2250,12 @@ export type $PrescriptionPayload<ExtArgs extends runtime.Types.Extensions.Intern
     instructions: string | null
     issuedDate: Date
     endDate: Date | null
-    status: string
+    status: $Enums.PrescriptionStatus
+    weightKg: number | null
+    discontinuedAt: Date | null
+    discontinuedReason: string | null
+    discontinuedById: string | null
+    renewedFromId: string | null
     clinicId: string | null
     createdAt: Date
     updatedAt: Date
@@ -1992,6 +2654,8 @@ readonly fields: PrescriptionFieldRefs;
 export interface Prisma__PrescriptionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
   encounter<T extends Prisma.DiagnosisDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.DiagnosisDefaultArgs<ExtArgs>>): Prisma.Prisma__DiagnosisClient<runtime.Types.Result.GetResult<Prisma.$DiagnosisPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  renewedFrom<T extends Prisma.Prescription$renewedFromArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Prescription$renewedFromArgs<ExtArgs>>): Prisma.Prisma__PrescriptionClient<runtime.Types.Result.GetResult<Prisma.$PrescriptionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  renewal<T extends Prisma.Prescription$renewalArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Prescription$renewalArgs<ExtArgs>>): Prisma.Prisma__PrescriptionClient<runtime.Types.Result.GetResult<Prisma.$PrescriptionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   medicalRecord<T extends Prisma.MedicalRecordsDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.MedicalRecordsDefaultArgs<ExtArgs>>): Prisma.Prisma__MedicalRecordsClient<runtime.Types.Result.GetResult<Prisma.$MedicalRecordsPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
   doctor<T extends Prisma.Prescription$doctorArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Prescription$doctorArgs<ExtArgs>>): Prisma.Prisma__DoctorClient<runtime.Types.Result.GetResult<Prisma.$DoctorPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   patient<T extends Prisma.PatientDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PatientDefaultArgs<ExtArgs>>): Prisma.Prisma__PatientClient<runtime.Types.Result.GetResult<Prisma.$PatientPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
@@ -2035,7 +2699,12 @@ export interface PrescriptionFieldRefs {
   readonly instructions: Prisma.FieldRef<"Prescription", 'String'>
   readonly issuedDate: Prisma.FieldRef<"Prescription", 'DateTime'>
   readonly endDate: Prisma.FieldRef<"Prescription", 'DateTime'>
-  readonly status: Prisma.FieldRef<"Prescription", 'String'>
+  readonly status: Prisma.FieldRef<"Prescription", 'PrescriptionStatus'>
+  readonly weightKg: Prisma.FieldRef<"Prescription", 'Float'>
+  readonly discontinuedAt: Prisma.FieldRef<"Prescription", 'DateTime'>
+  readonly discontinuedReason: Prisma.FieldRef<"Prescription", 'String'>
+  readonly discontinuedById: Prisma.FieldRef<"Prescription", 'String'>
+  readonly renewedFromId: Prisma.FieldRef<"Prescription", 'String'>
   readonly clinicId: Prisma.FieldRef<"Prescription", 'String'>
   readonly createdAt: Prisma.FieldRef<"Prescription", 'DateTime'>
   readonly updatedAt: Prisma.FieldRef<"Prescription", 'DateTime'>
@@ -2443,6 +3112,44 @@ export type PrescriptionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.
   limit?: number
 }
 
+/**
+ * Prescription.renewedFrom
+ */
+export type Prescription$renewedFromArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Prescription
+   */
+  select?: Prisma.PrescriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Prescription
+   */
+  omit?: Prisma.PrescriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PrescriptionInclude<ExtArgs> | null
+  where?: Prisma.PrescriptionWhereInput
+}
+
+/**
+ * Prescription.renewal
+ */
+export type Prescription$renewalArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Prescription
+   */
+  select?: Prisma.PrescriptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Prescription
+   */
+  omit?: Prisma.PrescriptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.PrescriptionInclude<ExtArgs> | null
+  where?: Prisma.PrescriptionWhereInput
+}
+
 /**
  * Prescription.doctor
  */
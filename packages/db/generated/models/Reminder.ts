@@ -20,58 +20,136 @@ export type ReminderModel = runtime.Types.Result.DefaultSelection<Prisma.$Remind
 
 export type AggregateReminder = {
   _count: ReminderCountAggregateOutputType | null
+  _avg: ReminderAvgAggregateOutputType | null
+  _sum: ReminderSumAggregateOutputType | null
   _min: ReminderMinAggregateOutputType | null
   _max: ReminderMaxAggregateOutputType | null
 }
 
+export type ReminderAvgAggregateOutputType = {
+  attempts: number | null
+}
+
+export type ReminderSumAggregateOutputType = {
+  attempts: number | null
+}
+
 export type ReminderMinAggregateOutputType = {
   id: string | null
   appointmentId: string | null
+  immunizationId: string | null
   method: $Enums.ReminderMethod | null
+  leadTime: string | null
+  recipient: string | null
+  scheduledFor: Date | null
   sentAt: Date | null
   status: $Enums.ReminderStatus | null
+  attempts: number | null
+  lastAttemptAt: Date | null
+  error: string | null
+  jobId: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
 }
 
 export type ReminderMaxAggregateOutputType = {
   id: string | null
   appointmentId: string | null
+  immunizationId: string | null
   method: $Enums.ReminderMethod | null
+  leadTime: string | null
+  recipient: string | null
+  scheduledFor: Date | null
   sentAt: Date | null
   status: $Enums.ReminderStatus | null
+  attempts: number | null
+  lastAttemptAt: Date | null
+  error: string | null
+  jobId: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
 }
 
 export type ReminderCountAggregateOutputType = {
   id: number
   appointmentId: number
+  immunizationId: number
   method: number
+  leadTime: number
+  recipient: number
+  scheduledFor: number
   sentAt: number
   status: number
+  attempts: number
+  lastAttemptAt: number
+  error: number
+  jobId: number
+  createdAt: number
+  updatedAt: number
   _all: number
 }
 
 
+export type ReminderAvgAggregateInputType = {
+  attempts?: true
+}
+
+export type ReminderSumAggregateInputType = {
+  attempts?: true
+}
+
 export type ReminderMinAggregateInputType = {
   id?: true
   appointmentId?: true
+  immunizationId?: true
   method?: true
+  leadTime?: true
+  recipient?: true
+  scheduledFor?: true
   sentAt?: true
   status?: true
+  attempts?: true
+  lastAttemptAt?: true
+  error?: true
+  jobId?: true
+  createdAt?: true
+  updatedAt?: true
 }
 
 export type ReminderMaxAggregateInputType = {
   id?: true
   appointmentId?: true
+  immunizationId?: true
   method?: true
+  leadTime?: true
+  recipient?: true
+  scheduledFor?: true
   sentAt?: true
   status?: true
+  attempts?: true
+  lastAttemptAt?: true
+  error?: true
+  jobId?: true
+  createdAt?: true
+  updatedAt?: true
 }
 
 export type ReminderCountAggregateInputType = {
   id?: true
   appointmentId?: true
+  immunizationId?: true
   method?: true
+  leadTime?: true
+  recipient?: true
+  scheduledFor?: true
   sentAt?: true
   status?: true
+  attempts?: true
+  lastAttemptAt?: true
+  error?: true
+  jobId?: true
+  createdAt?: true
+  updatedAt?: true
   _all?: true
 }
 
@@ -110,6 +188,18 @@ export type ReminderAggregateArgs<ExtArgs extends runtime.Types.Extensions.Inter
    * Count returned Reminders
   **/
   _count?: true | ReminderCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: ReminderAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: ReminderSumAggregateInputType
   /**
    * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
    * 
@@ -143,17 +233,31 @@ export type ReminderGroupByArgs<ExtArgs extends runtime.Types.Extensions.Interna
   take?: number
   skip?: number
   _count?: ReminderCountAggregateInputType | true
+  _avg?: ReminderAvgAggregateInputType
+  _sum?: ReminderSumAggregateInputType
   _min?: ReminderMinAggregateInputType
   _max?: ReminderMaxAggregateInputType
 }
 
 export type ReminderGroupByOutputType = {
   id: string
-  appointmentId: string
+  appointmentId: string | null
+  immunizationId: string | null
   method: $Enums.ReminderMethod
-  sentAt: Date
+  leadTime: string | null
+  recipient: string | null
+  scheduledFor: Date
+  sentAt: Date | null
   status: $Enums.ReminderStatus
+  attempts: number
+  lastAttemptAt: Date | null
+  error: string | null
+  jobId: string | null
+  createdAt: Date
+  updatedAt: Date
   _count: ReminderCountAggregateOutputType | null
+  _avg: ReminderAvgAggregateOutputType | null
+  _sum: ReminderSumAggregateOutputType | null
   _min: ReminderMinAggregateOutputType | null
   _max: ReminderMaxAggregateOutputType | null
 }
@@ -178,43 +282,88 @@ export type ReminderWhereInput = {
   OR?: Prisma.ReminderWhereInput[]
   NOT?: Prisma.ReminderWhereInput | Prisma.ReminderWhereInput[]
   id?: Prisma.StringFilter<"Reminder"> | string
-  appointmentId?: Prisma.StringFilter<"Reminder"> | string
+  appointmentId?: Prisma.StringNullableFilter<"Reminder"> | string | null
+  immunizationId?: Prisma.StringNullableFilter<"Reminder"> | string | null
   method?: Prisma.EnumReminderMethodFilter<"Reminder"> | $Enums.ReminderMethod
-  sentAt?: Prisma.DateTimeFilter<"Reminder"> | Date | string
+  leadTime?: Prisma.StringNullableFilter<"Reminder"> | string | null
+  recipient?: Prisma.StringNullableFilter<"Reminder"> | string | null
+  scheduledFor?: Prisma.DateTimeFilter<"Reminder"> | Date | string
+  sentAt?: Prisma.DateTimeNullableFilter<"Reminder"> | Date | string | null
   status?: Prisma.EnumReminderStatusFilter<"Reminder"> | $Enums.ReminderStatus
-  appointment?: Prisma.XOR<Prisma.AppointmentScalarRelationFilter, Prisma.AppointmentWhereInput>
+  attempts?: Prisma.IntFilter<"Reminder"> | number
+  lastAttemptAt?: Prisma.DateTimeNullableFilter<"Reminder"> | Date | string | null
+  error?: Prisma.StringNullableFilter<"Reminder"> | string | null
+  jobId?: Prisma.StringNullableFilter<"Reminder"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Reminder"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Reminder"> | Date | string
+  appointment?: Prisma.XOR<Prisma.AppointmentNullableScalarRelationFilter, Prisma.AppointmentWhereInput> | null
+  immunization?: Prisma.XOR<Prisma.ImmunizationNullableScalarRelationFilter, Prisma.ImmunizationWhereInput> | null
 }
 
 export type ReminderOrderByWithRelationInput = {
   id?: Prisma.SortOrder
-  appointmentId?: Prisma.SortOrder
+  appointmentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  immunizationId?: Prisma.SortOrderInput | Prisma.SortOrder
   method?: Prisma.SortOrder
-  sentAt?: Prisma.SortOrder
+  leadTime?: Prisma.SortOrderInput | Prisma.SortOrder
+  recipient?: Prisma.SortOrderInput | Prisma.SortOrder
+  scheduledFor?: Prisma.SortOrder
+  sentAt?: Prisma.SortOrderInput | Prisma.SortOrder
   status?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  lastAttemptAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  error?: Prisma.SortOrderInput | Prisma.SortOrder
+  jobId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
   appointment?: Prisma.AppointmentOrderByWithRelationInput
+  immunization?: Prisma.ImmunizationOrderByWithRelationInput
 }
 
 export type ReminderWhereUniqueInput = Prisma.AtLeast<{
   id?: string
-  appointmentId?: string
   AND?: Prisma.ReminderWhereInput | Prisma.ReminderWhereInput[]
   OR?: Prisma.ReminderWhereInput[]
   NOT?: Prisma.ReminderWhereInput | Prisma.ReminderWhereInput[]
+  appointmentId?: Prisma.StringNullableFilter<"Reminder"> | string | null
+  immunizationId?: Prisma.StringNullableFilter<"Reminder"> | string | null
   method?: Prisma.EnumReminderMethodFilter<"Reminder"> | $Enums.ReminderMethod
-  sentAt?: Prisma.DateTimeFilter<"Reminder"> | Date | string
+  leadTime?: Prisma.StringNullableFilter<"Reminder"> | string | null
+  recipient?: Prisma.StringNullableFilter<"Reminder"> | string | null
+  scheduledFor?: Prisma.DateTimeFilter<"Reminder"> | Date | string
+  sentAt?: Prisma.DateTimeNullableFilter<"Reminder"> | Date | string | null
   status?: Prisma.EnumReminderStatusFilter<"Reminder"> | $Enums.ReminderStatus
-  appointment?: Prisma.XOR<Prisma.AppointmentScalarRelationFilter, Prisma.AppointmentWhereInput>
-}, "id" | "appointmentId">
+  attempts?: Prisma.IntFilter<"Reminder"> | number
+  lastAttemptAt?: Prisma.DateTimeNullableFilter<"Reminder"> | Date | string | null
+  error?: Prisma.StringNullableFilter<"Reminder"> | string | null
+  jobId?: Prisma.StringNullableFilter<"Reminder"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Reminder"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Reminder"> | Date | string
+  appointment?: Prisma.XOR<Prisma.AppointmentNullableScalarRelationFilter, Prisma.AppointmentWhereInput> | null
+  immunization?: Prisma.XOR<Prisma.ImmunizationNullableScalarRelationFilter, Prisma.ImmunizationWhereInput> | null
+}, "id">
 
 export type ReminderOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
-  appointmentId?: Prisma.SortOrder
+  appointmentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  immunizationId?: Prisma.SortOrderInput | Prisma.SortOrder
   method?: Prisma.SortOrder
-  sentAt?: Prisma.SortOrder
+  leadTime?: Prisma.SortOrderInput | Prisma.SortOrder
+  recipient?: Prisma.SortOrderInput | Prisma.SortOrder
+  scheduledFor?: Prisma.SortOrder
+  sentAt?: Prisma.SortOrderInput | Prisma.SortOrder
   status?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  lastAttemptAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  error?: Prisma.SortOrderInput | Prisma.SortOrder
+  jobId?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
   _count?: Prisma.ReminderCountOrderByAggregateInput
+  _avg?: Prisma.ReminderAvgOrderByAggregateInput
   _max?: Prisma.ReminderMaxOrderByAggregateInput
   _min?: Prisma.ReminderMinOrderByAggregateInput
+  _sum?: Prisma.ReminderSumOrderByAggregateInput
 }
 
 export type ReminderScalarWhereWithAggregatesInput = {
@@ -222,89 +371,206 @@ export type ReminderScalarWhereWithAggregatesInput = {
   OR?: Prisma.ReminderScalarWhereWithAggregatesInput[]
   NOT?: Prisma.ReminderScalarWhereWithAggregatesInput | Prisma.ReminderScalarWhereWithAggregatesInput[]
   id?: Prisma.StringWithAggregatesFilter<"Reminder"> | string
-  appointmentId?: Prisma.StringWithAggregatesFilter<"Reminder"> | string
+  appointmentId?: Prisma.StringNullableWithAggregatesFilter<"Reminder"> | string | null
+  immunizationId?: Prisma.StringNullableWithAggregatesFilter<"Reminder"> | string | null
   method?: Prisma.EnumReminderMethodWithAggregatesFilter<"Reminder"> | $Enums.ReminderMethod
-  sentAt?: Prisma.DateTimeWithAggregatesFilter<"Reminder"> | Date | string
+  leadTime?: Prisma.StringNullableWithAggregatesFilter<"Reminder"> | string | null
+  recipient?: Prisma.StringNullableWithAggregatesFilter<"Reminder"> | string | null
+  scheduledFor?: Prisma.DateTimeWithAggregatesFilter<"Reminder"> | Date | string
+  sentAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Reminder"> | Date | string | null
   status?: Prisma.EnumReminderStatusWithAggregatesFilter<"Reminder"> | $Enums.ReminderStatus
+  attempts?: Prisma.IntWithAggregatesFilter<"Reminder"> | number
+  lastAttemptAt?: Prisma.DateTimeNullableWithAggregatesFilter<"Reminder"> | Date | string | null
+  error?: Prisma.StringNullableWithAggregatesFilter<"Reminder"> | string | null
+  jobId?: Prisma.StringNullableWithAggregatesFilter<"Reminder"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"Reminder"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"Reminder"> | Date | string
 }
 
 export type ReminderCreateInput = {
   id?: string
   method: $Enums.ReminderMethod
-  sentAt: Date | string
-  status: $Enums.ReminderStatus
-  appointment: Prisma.AppointmentCreateNestedOneWithoutRemindersInput
+  leadTime?: string | null
+  recipient?: string | null
+  scheduledFor: Date | string
+  sentAt?: Date | string | null
+  status?: $Enums.ReminderStatus
+  attempts?: number
+  lastAttemptAt?: Date | string | null
+  error?: string | null
+  jobId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  appointment?: Prisma.AppointmentCreateNestedOneWithoutRemindersInput
+  immunization?: Prisma.ImmunizationCreateNestedOneWithoutRemindersInput
 }
 
 export type ReminderUncheckedCreateInput = {
   id?: string
-  appointmentId: string
+  appointmentId?: string | null
+  immunizationId?: string | null
   method: $Enums.ReminderMethod
-  sentAt: Date | string
-  status: $Enums.ReminderStatus
+  leadTime?: string | null
+  recipient?: string | null
+  scheduledFor: Date | string
+  sentAt?: Date | string | null
+  status?: $Enums.ReminderStatus
+  attempts?: number
+  lastAttemptAt?: Date | string | null
+  error?: string | null
+  jobId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
 }
 
 export type ReminderUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   method?: Prisma.EnumReminderMethodFieldUpdateOperationsInput | $Enums.ReminderMethod
-  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  leadTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipient?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduledFor?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   status?: Prisma.EnumReminderStatusFieldUpdateOperationsInput | $Enums.ReminderStatus
-  appointment?: Prisma.AppointmentUpdateOneRequiredWithoutRemindersNestedInput
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastAttemptAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  jobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  appointment?: Prisma.AppointmentUpdateOneWithoutRemindersNestedInput
+  immunization?: Prisma.ImmunizationUpdateOneWithoutRemindersNestedInput
 }
 
 export type ReminderUncheckedUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
-  appointmentId?: Prisma.StringFieldUpdateOperationsInput | string
+  appointmentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  immunizationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   method?: Prisma.EnumReminderMethodFieldUpdateOperationsInput | $Enums.ReminderMethod
-  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  leadTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipient?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduledFor?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   status?: Prisma.EnumReminderStatusFieldUpdateOperationsInput | $Enums.ReminderStatus
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastAttemptAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  jobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 export type ReminderCreateManyInput = {
   id?: string
-  appointmentId: string
+  appointmentId?: string | null
+  immunizationId?: string | null
   method: $Enums.ReminderMethod
-  sentAt: Date | string
-  status: $Enums.ReminderStatus
+  leadTime?: string | null
+  recipient?: string | null
+  scheduledFor: Date | string
+  sentAt?: Date | string | null
+  status?: $Enums.ReminderStatus
+  attempts?: number
+  lastAttemptAt?: Date | string | null
+  error?: string | null
+  jobId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
 }
 
 export type ReminderUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   method?: Prisma.EnumReminderMethodFieldUpdateOperationsInput | $Enums.ReminderMethod
-  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  leadTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipient?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduledFor?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   status?: Prisma.EnumReminderStatusFieldUpdateOperationsInput | $Enums.ReminderStatus
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastAttemptAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  jobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 export type ReminderUncheckedUpdateManyInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
-  appointmentId?: Prisma.StringFieldUpdateOperationsInput | string
+  appointmentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  immunizationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   method?: Prisma.EnumReminderMethodFieldUpdateOperationsInput | $Enums.ReminderMethod
-  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  leadTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipient?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduledFor?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   status?: Prisma.EnumReminderStatusFieldUpdateOperationsInput | $Enums.ReminderStatus
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastAttemptAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  jobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 export type ReminderCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   appointmentId?: Prisma.SortOrder
+  immunizationId?: Prisma.SortOrder
   method?: Prisma.SortOrder
+  leadTime?: Prisma.SortOrder
+  recipient?: Prisma.SortOrder
+  scheduledFor?: Prisma.SortOrder
   sentAt?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  lastAttemptAt?: Prisma.SortOrder
+  error?: Prisma.SortOrder
+  jobId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ReminderAvgOrderByAggregateInput = {
+  attempts?: Prisma.SortOrder
 }
 
 export type ReminderMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder
   appointmentId?: Prisma.SortOrder
+  immunizationId?: Prisma.SortOrder
   method?: Prisma.SortOrder
+  leadTime?: Prisma.SortOrder
+  recipient?: Prisma.SortOrder
+  scheduledFor?: Prisma.SortOrder
   sentAt?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  lastAttemptAt?: Prisma.SortOrder
+  error?: Prisma.SortOrder
+  jobId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
 }
 
 export type ReminderMinOrderByAggregateInput = {
   id?: Prisma.SortOrder
   appointmentId?: Prisma.SortOrder
+  immunizationId?: Prisma.SortOrder
   method?: Prisma.SortOrder
+  leadTime?: Prisma.SortOrder
+  recipient?: Prisma.SortOrder
+  scheduledFor?: Prisma.SortOrder
   sentAt?: Prisma.SortOrder
   status?: Prisma.SortOrder
+  attempts?: Prisma.SortOrder
+  lastAttemptAt?: Prisma.SortOrder
+  error?: Prisma.SortOrder
+  jobId?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ReminderSumOrderByAggregateInput = {
+  attempts?: Prisma.SortOrder
 }
 
 export type ReminderListRelationFilter = {
@@ -367,18 +633,80 @@ export type ReminderUncheckedUpdateManyWithoutAppointmentNestedInput = {
   deleteMany?: Prisma.ReminderScalarWhereInput | Prisma.ReminderScalarWhereInput[]
 }
 
+export type ReminderCreateNestedManyWithoutImmunizationInput = {
+  create?: Prisma.XOR<Prisma.ReminderCreateWithoutImmunizationInput, Prisma.ReminderUncheckedCreateWithoutImmunizationInput> | Prisma.ReminderCreateWithoutImmunizationInput[] | Prisma.ReminderUncheckedCreateWithoutImmunizationInput[]
+  connectOrCreate?: Prisma.ReminderCreateOrConnectWithoutImmunizationInput | Prisma.ReminderCreateOrConnectWithoutImmunizationInput[]
+  createMany?: Prisma.ReminderCreateManyImmunizationInputEnvelope
+  connect?: Prisma.ReminderWhereUniqueInput | Prisma.ReminderWhereUniqueInput[]
+}
+
+export type ReminderUncheckedCreateNestedManyWithoutImmunizationInput = {
+  create?: Prisma.XOR<Prisma.ReminderCreateWithoutImmunizationInput, Prisma.ReminderUncheckedCreateWithoutImmunizationInput> | Prisma.ReminderCreateWithoutImmunizationInput[] | Prisma.ReminderUncheckedCreateWithoutImmunizationInput[]
+  connectOrCreate?: Prisma.ReminderCreateOrConnectWithoutImmunizationInput | Prisma.ReminderCreateOrConnectWithoutImmunizationInput[]
+  createMany?: Prisma.ReminderCreateManyImmunizationInputEnvelope
+  connect?: Prisma.ReminderWhereUniqueInput | Prisma.ReminderWhereUniqueInput[]
+}
+
+export type ReminderUpdateManyWithoutImmunizationNestedInput = {
+  create?: Prisma.XOR<Prisma.ReminderCreateWithoutImmunizationInput, Prisma.ReminderUncheckedCreateWithoutImmunizationInput> | Prisma.ReminderCreateWithoutImmunizationInput[] | Prisma.ReminderUncheckedCreateWithoutImmunizationInput[]
+  connectOrCreate?: Prisma.ReminderCreateOrConnectWithoutImmunizationInput | Prisma.ReminderCreateOrConnectWithoutImmunizationInput[]
+  upsert?: Prisma.ReminderUpsertWithWhereUniqueWithoutImmunizationInput | Prisma.ReminderUpsertWithWhereUniqueWithoutImmunizationInput[]
+  createMany?: Prisma.ReminderCreateManyImmunizationInputEnvelope
+  set?: Prisma.ReminderWhereUniqueInput | Prisma.ReminderWhereUniqueInput[]
+  disconnect?: Prisma.ReminderWhereUniqueInput | Prisma.ReminderWhereUniqueInput[]
+  delete?: Prisma.ReminderWhereUniqueInput | Prisma.ReminderWhereUniqueInput[]
+  connect?: Prisma.ReminderWhereUniqueInput | Prisma.ReminderWhereUniqueInput[]
+  update?: Prisma.ReminderUpdateWithWhereUniqueWithoutImmunizationInput | Prisma.ReminderUpdateWithWhereUniqueWithoutImmunizationInput[]
+  updateMany?: Prisma.ReminderUpdateManyWithWhereWithoutImmunizationInput | Prisma.ReminderUpdateManyWithWhereWithoutImmunizationInput[]
+  deleteMany?: Prisma.ReminderScalarWhereInput | Prisma.ReminderScalarWhereInput[]
+}
+
+export type ReminderUncheckedUpdateManyWithoutImmunizationNestedInput = {
+  create?: Prisma.XOR<Prisma.ReminderCreateWithoutImmunizationInput, Prisma.ReminderUncheckedCreateWithoutImmunizationInput> | Prisma.ReminderCreateWithoutImmunizationInput[] | Prisma.ReminderUncheckedCreateWithoutImmunizationInput[]
+  connectOrCreate?: Prisma.ReminderCreateOrConnectWithoutImmunizationInput | Prisma.ReminderCreateOrConnectWithoutImmunizationInput[]
+  upsert?: Prisma.ReminderUpsertWithWhereUniqueWithoutImmunizationInput | Prisma.ReminderUpsertWithWhereUniqueWithoutImmunizationInput[]
+  createMany?: Prisma.ReminderCreateManyImmunizationInputEnvelope
+  set?: Prisma.ReminderWhereUniqueInput | Prisma.ReminderWhereUniqueInput[]
+  disconnect?: Prisma.ReminderWhereUniqueInput | Prisma.ReminderWhereUniqueInput[]
+  delete?: Prisma.ReminderWhereUniqueInput | Prisma.ReminderWhereUniqueInput[]
+  connect?: Prisma.ReminderWhereUniqueInput | Prisma.ReminderWhereUniqueInput[]
+  update?: Prisma.ReminderUpdateWithWhereUniqueWithoutImmunizationInput | Prisma.ReminderUpdateWithWhereUniqueWithoutImmunizationInput[]
+  updateMany?: Prisma.ReminderUpdateManyWithWhereWithoutImmunizationInput | Prisma.ReminderUpdateManyWithWhereWithoutImmunizationInput[]
+  deleteMany?: Prisma.ReminderScalarWhereInput | Prisma.ReminderScalarWhereInput[]
+}
+
 export type ReminderCreateWithoutAppointmentInput = {
   id?: string
   method: $Enums.ReminderMethod
-  sentAt: Date | string
-  status: $Enums.ReminderStatus
+  leadTime?: string | null
+  recipient?: string | null
+  scheduledFor: Date | string
+  sentAt?: Date | string | null
+  status?: $Enums.ReminderStatus
+  attempts?: number
+  lastAttemptAt?: Date | string | null
+  error?: string | null
+  jobId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  immunization?: Prisma.ImmunizationCreateNestedOneWithoutRemindersInput
 }
 
 export type ReminderUncheckedCreateWithoutAppointmentInput = {
   id?: string
+  immunizationId?: string | null
   method: $Enums.ReminderMethod
-  sentAt: Date | string
-  status: $Enums.ReminderStatus
+  leadTime?: string | null
+  recipient?: string | null
+  scheduledFor: Date | string
+  sentAt?: Date | string | null
+  status?: $Enums.ReminderStatus
+  attempts?: number
+  lastAttemptAt?: Date | string | null
+  error?: string | null
+  jobId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
 }
 
 export type ReminderCreateOrConnectWithoutAppointmentInput = {
@@ -412,38 +740,216 @@ export type ReminderScalarWhereInput = {
   OR?: Prisma.ReminderScalarWhereInput[]
   NOT?: Prisma.ReminderScalarWhereInput | Prisma.ReminderScalarWhereInput[]
   id?: Prisma.StringFilter<"Reminder"> | string
-  appointmentId?: Prisma.StringFilter<"Reminder"> | string
+  appointmentId?: Prisma.StringNullableFilter<"Reminder"> | string | null
+  immunizationId?: Prisma.StringNullableFilter<"Reminder"> | string | null
   method?: Prisma.EnumReminderMethodFilter<"Reminder"> | $Enums.ReminderMethod
-  sentAt?: Prisma.DateTimeFilter<"Reminder"> | Date | string
+  leadTime?: Prisma.StringNullableFilter<"Reminder"> | string | null
+  recipient?: Prisma.StringNullableFilter<"Reminder"> | string | null
+  scheduledFor?: Prisma.DateTimeFilter<"Reminder"> | Date | string
+  sentAt?: Prisma.DateTimeNullableFilter<"Reminder"> | Date | string | null
   status?: Prisma.EnumReminderStatusFilter<"Reminder"> | $Enums.ReminderStatus
+  attempts?: Prisma.IntFilter<"Reminder"> | number
+  lastAttemptAt?: Prisma.DateTimeNullableFilter<"Reminder"> | Date | string | null
+  error?: Prisma.StringNullableFilter<"Reminder"> | string | null
+  jobId?: Prisma.StringNullableFilter<"Reminder"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"Reminder"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"Reminder"> | Date | string
+}
+
+export type ReminderCreateWithoutImmunizationInput = {
+  id?: string
+  method: $Enums.ReminderMethod
+  leadTime?: string | null
+  recipient?: string | null
+  scheduledFor: Date | string
+  sentAt?: Date | string | null
+  status?: $Enums.ReminderStatus
+  attempts?: number
+  lastAttemptAt?: Date | string | null
+  error?: string | null
+  jobId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  appointment?: Prisma.AppointmentCreateNestedOneWithoutRemindersInput
+}
+
+export type ReminderUncheckedCreateWithoutImmunizationInput = {
+  id?: string
+  appointmentId?: string | null
+  method: $Enums.ReminderMethod
+  leadTime?: string | null
+  recipient?: string | null
+  scheduledFor: Date | string
+  sentAt?: Date | string | null
+  status?: $Enums.ReminderStatus
+  attempts?: number
+  lastAttemptAt?: Date | string | null
+  error?: string | null
+  jobId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ReminderCreateOrConnectWithoutImmunizationInput = {
+  where: Prisma.ReminderWhereUniqueInput
+  create: Prisma.XOR<Prisma.ReminderCreateWithoutImmunizationInput, Prisma.ReminderUncheckedCreateWithoutImmunizationInput>
+}
+
+export type ReminderCreateManyImmunizationInputEnvelope = {
+  data: Prisma.ReminderCreateManyImmunizationInput | Prisma.ReminderCreateManyImmunizationInput[]
+  skipDuplicates?: boolean
+}
+
+export type ReminderUpsertWithWhereUniqueWithoutImmunizationInput = {
+  where: Prisma.ReminderWhereUniqueInput
+  update: Prisma.XOR<Prisma.ReminderUpdateWithoutImmunizationInput, Prisma.ReminderUncheckedUpdateWithoutImmunizationInput>
+  create: Prisma.XOR<Prisma.ReminderCreateWithoutImmunizationInput, Prisma.ReminderUncheckedCreateWithoutImmunizationInput>
+}
+
+export type ReminderUpdateWithWhereUniqueWithoutImmunizationInput = {
+  where: Prisma.ReminderWhereUniqueInput
+  data: Prisma.XOR<Prisma.ReminderUpdateWithoutImmunizationInput, Prisma.ReminderUncheckedUpdateWithoutImmunizationInput>
+}
+
+export type ReminderUpdateManyWithWhereWithoutImmunizationInput = {
+  where: Prisma.ReminderScalarWhereInput
+  data: Prisma.XOR<Prisma.ReminderUpdateManyMutationInput, Prisma.ReminderUncheckedUpdateManyWithoutImmunizationInput>
 }
 
 export type ReminderCreateManyAppointmentInput = {
   id?: string
+  immunizationId?: string | null
   method: $Enums.ReminderMethod
-  sentAt: Date | string
-  status: $Enums.ReminderStatus
+  leadTime?: string | null
+  recipient?: string | null
+  scheduledFor: Date | string
+  sentAt?: Date | string | null
+  status?: $Enums.ReminderStatus
+  attempts?: number
+  lastAttemptAt?: Date | string | null
+  error?: string | null
+  jobId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
 }
 
 export type ReminderUpdateWithoutAppointmentInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   method?: Prisma.EnumReminderMethodFieldUpdateOperationsInput | $Enums.ReminderMethod
-  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  leadTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipient?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduledFor?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   status?: Prisma.EnumReminderStatusFieldUpdateOperationsInput | $Enums.ReminderStatus
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastAttemptAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  jobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  immunization?: Prisma.ImmunizationUpdateOneWithoutRemindersNestedInput
 }
 
 export type ReminderUncheckedUpdateWithoutAppointmentInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
+  immunizationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   method?: Prisma.EnumReminderMethodFieldUpdateOperationsInput | $Enums.ReminderMethod
-  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  leadTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipient?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduledFor?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   status?: Prisma.EnumReminderStatusFieldUpdateOperationsInput | $Enums.ReminderStatus
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastAttemptAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  jobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 export type ReminderUncheckedUpdateManyWithoutAppointmentInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
+  immunizationId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
   method?: Prisma.EnumReminderMethodFieldUpdateOperationsInput | $Enums.ReminderMethod
-  sentAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  leadTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipient?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduledFor?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
   status?: Prisma.EnumReminderStatusFieldUpdateOperationsInput | $Enums.ReminderStatus
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastAttemptAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  jobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ReminderCreateManyImmunizationInput = {
+  id?: string
+  appointmentId?: string | null
+  method: $Enums.ReminderMethod
+  leadTime?: string | null
+  recipient?: string | null
+  scheduledFor: Date | string
+  sentAt?: Date | string | null
+  status?: $Enums.ReminderStatus
+  attempts?: number
+  lastAttemptAt?: Date | string | null
+  error?: string | null
+  jobId?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ReminderUpdateWithoutImmunizationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  method?: Prisma.EnumReminderMethodFieldUpdateOperationsInput | $Enums.ReminderMethod
+  leadTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipient?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduledFor?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumReminderStatusFieldUpdateOperationsInput | $Enums.ReminderStatus
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastAttemptAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  jobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  appointment?: Prisma.AppointmentUpdateOneWithoutRemindersNestedInput
+}
+
+export type ReminderUncheckedUpdateWithoutImmunizationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  appointmentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  method?: Prisma.EnumReminderMethodFieldUpdateOperationsInput | $Enums.ReminderMethod
+  leadTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipient?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduledFor?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumReminderStatusFieldUpdateOperationsInput | $Enums.ReminderStatus
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastAttemptAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  jobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ReminderUncheckedUpdateManyWithoutImmunizationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  appointmentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  method?: Prisma.EnumReminderMethodFieldUpdateOperationsInput | $Enums.ReminderMethod
+  leadTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  recipient?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  scheduledFor?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  sentAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  status?: Prisma.EnumReminderStatusFieldUpdateOperationsInput | $Enums.ReminderStatus
+  attempts?: Prisma.IntFieldUpdateOperationsInput | number
+  lastAttemptAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  error?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  jobId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
 }
 
 
@@ -451,60 +957,117 @@ export type ReminderUncheckedUpdateManyWithoutAppointmentInput = {
 export type ReminderSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   appointmentId?: boolean
+  immunizationId?: boolean
   method?: boolean
+  leadTime?: boolean
+  recipient?: boolean
+  scheduledFor?: boolean
   sentAt?: boolean
   status?: boolean
-  appointment?: boolean | Prisma.AppointmentDefaultArgs<ExtArgs>
+  attempts?: boolean
+  lastAttemptAt?: boolean
+  error?: boolean
+  jobId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  appointment?: boolean | Prisma.Reminder$appointmentArgs<ExtArgs>
+  immunization?: boolean | Prisma.Reminder$immunizationArgs<ExtArgs>
 }, ExtArgs["result"]["reminder"]>
 
 export type ReminderSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   appointmentId?: boolean
+  immunizationId?: boolean
   method?: boolean
+  leadTime?: boolean
+  recipient?: boolean
+  scheduledFor?: boolean
   sentAt?: boolean
   status?: boolean
-  appointment?: boolean | Prisma.AppointmentDefaultArgs<ExtArgs>
+  attempts?: boolean
+  lastAttemptAt?: boolean
+  error?: boolean
+  jobId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  appointment?: boolean | Prisma.Reminder$appointmentArgs<ExtArgs>
+  immunization?: boolean | Prisma.Reminder$immunizationArgs<ExtArgs>
 }, ExtArgs["result"]["reminder"]>
 
 export type ReminderSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
   appointmentId?: boolean
+  immunizationId?: boolean
   method?: boolean
+  leadTime?: boolean
+  recipient?: boolean
+  scheduledFor?: boolean
   sentAt?: boolean
   status?: boolean
-  appointment?: boolean | Prisma.AppointmentDefaultArgs<ExtArgs>
+  attempts?: boolean
+  lastAttemptAt?: boolean
+  error?: boolean
+  jobId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  appointment?: boolean | Prisma.Reminder$appointmentArgs<ExtArgs>
+  immunization?: boolean | Prisma.Reminder$immunizationArgs<ExtArgs>
 }, ExtArgs["result"]["reminder"]>
 
 export type ReminderSelectScalar = {
   id?: boolean
   appointmentId?: boolean
+  immunizationId?: boolean
   method?: boolean
+  leadTime?: boolean
+  recipient?: boolean
+  scheduledFor?: boolean
   sentAt?: boolean
   status?: boolean
+  attempts?: boolean
+  lastAttemptAt?: boolean
+  error?: boolean
+  jobId?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
 }
 
-export type ReminderOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "appointmentId" | "method" | "sentAt" | "status", ExtArgs["result"]["reminder"]>
+export type ReminderOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "appointmentId" | "immunizationId" | "method" | "leadTime" | "recipient" | "scheduledFor" | "sentAt" | "status" | "attempts" | "lastAttemptAt" | "error" | "jobId" | "createdAt" | "updatedAt", ExtArgs["result"]["reminder"]>
 export type ReminderInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
-  appointment?: boolean | Prisma.AppointmentDefaultArgs<ExtArgs>
+  appointment?: boolean | Prisma.Reminder$appointmentArgs<ExtArgs>
+  immunization?: boolean | Prisma.Reminder$immunizationArgs<ExtArgs>
 }
 export type ReminderIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
-  appointment?: boolean | Prisma.AppointmentDefaultArgs<ExtArgs>
+  appointment?: boolean | Prisma.Reminder$appointmentArgs<ExtArgs>
+  immunization?: boolean | Prisma.Reminder$immunizationArgs<ExtArgs>
 }
 export type ReminderIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
-  appointment?: boolean | Prisma.AppointmentDefaultArgs<ExtArgs>
+  appointment?: boolean | Prisma.Reminder$appointmentArgs<ExtArgs>
+  immunization?: boolean | Prisma.Reminder$immunizationArgs<ExtArgs>
 }
 
 export type $ReminderPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   name: "Reminder"
   objects: {
-    appointment: Prisma.$AppointmentPayload<ExtArgs>
+    appointment: Prisma.$AppointmentPayload<ExtArgs> | null
+    immunization: Prisma.$ImmunizationPayload<ExtArgs> | null
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
-    appointmentId: string
+    appointmentId: string | null
+    immunizationId: string | null
     method: $Enums.ReminderMethod
-    sentAt: Date
+    leadTime: string | null
+    recipient: string | null
+    scheduledFor: Date
+    sentAt: Date | null
     status: $Enums.ReminderStatus
+    attempts: number
+    lastAttemptAt: Date | null
+    error: string | null
+    jobId: string | null
+    createdAt: Date
+    updatedAt: Date
   }, ExtArgs["result"]["reminder"]>
   composites: {}
 }
@@ -899,7 +1462,8 @@ readonly fields: ReminderFieldRefs;
  */
 export interface Prisma__ReminderClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
-  appointment<T extends Prisma.AppointmentDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.AppointmentDefaultArgs<ExtArgs>>): Prisma.Prisma__AppointmentClient<runtime.Types.Result.GetResult<Prisma.$AppointmentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  appointment<T extends Prisma.Reminder$appointmentArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Reminder$appointmentArgs<ExtArgs>>): Prisma.Prisma__AppointmentClient<runtime.Types.Result.GetResult<Prisma.$AppointmentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  immunization<T extends Prisma.Reminder$immunizationArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Reminder$immunizationArgs<ExtArgs>>): Prisma.Prisma__ImmunizationClient<runtime.Types.Result.GetResult<Prisma.$ImmunizationPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -931,9 +1495,19 @@ export interface Prisma__ReminderClient<T, Null = never, ExtArgs extends runtime
 export interface ReminderFieldRefs {
   readonly id: Prisma.FieldRef<"Reminder", 'String'>
   readonly appointmentId: Prisma.FieldRef<"Reminder", 'String'>
+  readonly immunizationId: Prisma.FieldRef<"Reminder", 'String'>
   readonly method: Prisma.FieldRef<"Reminder", 'ReminderMethod'>
+  readonly leadTime: Prisma.FieldRef<"Reminder", 'String'>
+  readonly recipient: Prisma.FieldRef<"Reminder", 'String'>
+  readonly scheduledFor: Prisma.FieldRef<"Reminder", 'DateTime'>
   readonly sentAt: Prisma.FieldRef<"Reminder", 'DateTime'>
   readonly status: Prisma.FieldRef<"Reminder", 'ReminderStatus'>
+  readonly attempts: Prisma.FieldRef<"Reminder", 'Int'>
+  readonly lastAttemptAt: Prisma.FieldRef<"Reminder", 'DateTime'>
+  readonly error: Prisma.FieldRef<"Reminder", 'String'>
+  readonly jobId: Prisma.FieldRef<"Reminder", 'String'>
+  readonly createdAt: Prisma.FieldRef<"Reminder", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"Reminder", 'DateTime'>
 }
     
 
@@ -1338,6 +1912,44 @@ export type ReminderDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.Inte
   limit?: number
 }
 
+/**
+ * Reminder.appointment
+ */
+export type Reminder$appointmentArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Appointment
+   */
+  select?: Prisma.AppointmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Appointment
+   */
+  omit?: Prisma.AppointmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AppointmentInclude<ExtArgs> | null
+  where?: Prisma.AppointmentWhereInput
+}
+
+/**
+ * Reminder.immunization
+ */
+export type Reminder$immunizationArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Immunization
+   */
+  select?: Prisma.ImmunizationSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Immunization
+   */
+  omit?: Prisma.ImmunizationOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ImmunizationInclude<ExtArgs> | null
+  where?: Prisma.ImmunizationWhereInput
+}
+
 /**
  * Reminder without action
  */
@@ -0,0 +1,1697 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `ScheduleException` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model ScheduleException
+ * 
+ */
+export type ScheduleExceptionModel = runtime.Types.Result.DefaultSelection<Prisma.$ScheduleExceptionPayload>
+
+export type AggregateScheduleException = {
+  _count: ScheduleExceptionCountAggregateOutputType | null
+  _min: ScheduleExceptionMinAggregateOutputType | null
+  _max: ScheduleExceptionMaxAggregateOutputType | null
+}
+
+export type ScheduleExceptionMinAggregateOutputType = {
+  id: string | null
+  clinicId: string | null
+  doctorId: string | null
+  date: Date | null
+  type: $Enums.ScheduleExceptionType | null
+  startTime: string | null
+  endTime: string | null
+  reason: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ScheduleExceptionMaxAggregateOutputType = {
+  id: string | null
+  clinicId: string | null
+  doctorId: string | null
+  date: Date | null
+  type: $Enums.ScheduleExceptionType | null
+  startTime: string | null
+  endTime: string | null
+  reason: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type ScheduleExceptionCountAggregateOutputType = {
+  id: number
+  clinicId: number
+  doctorId: number
+  date: number
+  type: number
+  startTime: number
+  endTime: number
+  reason: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type ScheduleExceptionMinAggregateInputType = {
+  id?: true
+  clinicId?: true
+  doctorId?: true
+  date?: true
+  type?: true
+  startTime?: true
+  endTime?: true
+  reason?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ScheduleExceptionMaxAggregateInputType = {
+  id?: true
+  clinicId?: true
+  doctorId?: true
+  date?: true
+  type?: true
+  startTime?: true
+  endTime?: true
+  reason?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type ScheduleExceptionCountAggregateInputType = {
+  id?: true
+  clinicId?: true
+  doctorId?: true
+  date?: true
+  type?: true
+  startTime?: true
+  endTime?: true
+  reason?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type ScheduleExceptionAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ScheduleException to aggregate.
+   */
+  where?: Prisma.ScheduleExceptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ScheduleExceptions to fetch.
+   */
+  orderBy?: Prisma.ScheduleExceptionOrderByWithRelationInput | Prisma.ScheduleExceptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.ScheduleExceptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ScheduleExceptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ScheduleExceptions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned ScheduleExceptions
+  **/
+  _count?: true | ScheduleExceptionCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: ScheduleExceptionMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: ScheduleExceptionMaxAggregateInputType
+}
+
+export type GetScheduleExceptionAggregateType<T extends ScheduleExceptionAggregateArgs> = {
+      [P in keyof T & keyof AggregateScheduleException]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateScheduleException[P]>
+    : Prisma.GetScalarType<T[P], AggregateScheduleException[P]>
+}
+
+
+
+
+export type ScheduleExceptionGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ScheduleExceptionWhereInput
+  orderBy?: Prisma.ScheduleExceptionOrderByWithAggregationInput | Prisma.ScheduleExceptionOrderByWithAggregationInput[]
+  by: Prisma.ScheduleExceptionScalarFieldEnum[] | Prisma.ScheduleExceptionScalarFieldEnum
+  having?: Prisma.ScheduleExceptionScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: ScheduleExceptionCountAggregateInputType | true
+  _min?: ScheduleExceptionMinAggregateInputType
+  _max?: ScheduleExceptionMaxAggregateInputType
+}
+
+export type ScheduleExceptionGroupByOutputType = {
+  id: string
+  clinicId: string
+  doctorId: string | null
+  date: Date
+  type: $Enums.ScheduleExceptionType
+  startTime: string | null
+  endTime: string | null
+  reason: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: ScheduleExceptionCountAggregateOutputType | null
+  _min: ScheduleExceptionMinAggregateOutputType | null
+  _max: ScheduleExceptionMaxAggregateOutputType | null
+}
+
+type GetScheduleExceptionGroupByPayload<T extends ScheduleExceptionGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<ScheduleExceptionGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof ScheduleExceptionGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], ScheduleExceptionGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], ScheduleExceptionGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type ScheduleExceptionWhereInput = {
+  AND?: Prisma.ScheduleExceptionWhereInput | Prisma.ScheduleExceptionWhereInput[]
+  OR?: Prisma.ScheduleExceptionWhereInput[]
+  NOT?: Prisma.ScheduleExceptionWhereInput | Prisma.ScheduleExceptionWhereInput[]
+  id?: Prisma.StringFilter<"ScheduleException"> | string
+  clinicId?: Prisma.StringFilter<"ScheduleException"> | string
+  doctorId?: Prisma.StringNullableFilter<"ScheduleException"> | string | null
+  date?: Prisma.DateTimeFilter<"ScheduleException"> | Date | string
+  type?: Prisma.EnumScheduleExceptionTypeFilter<"ScheduleException"> | $Enums.ScheduleExceptionType
+  startTime?: Prisma.StringNullableFilter<"ScheduleException"> | string | null
+  endTime?: Prisma.StringNullableFilter<"ScheduleException"> | string | null
+  reason?: Prisma.StringNullableFilter<"ScheduleException"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ScheduleException"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ScheduleException"> | Date | string
+  clinic?: Prisma.XOR<Prisma.ClinicScalarRelationFilter, Prisma.ClinicWhereInput>
+  doctor?: Prisma.XOR<Prisma.DoctorNullableScalarRelationFilter, Prisma.DoctorWhereInput> | null
+}
+
+export type ScheduleExceptionOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  doctorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  date?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  startTime?: Prisma.SortOrderInput | Prisma.SortOrder
+  endTime?: Prisma.SortOrderInput | Prisma.SortOrder
+  reason?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  clinic?: Prisma.ClinicOrderByWithRelationInput
+  doctor?: Prisma.DoctorOrderByWithRelationInput
+}
+
+export type ScheduleExceptionWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.ScheduleExceptionWhereInput | Prisma.ScheduleExceptionWhereInput[]
+  OR?: Prisma.ScheduleExceptionWhereInput[]
+  NOT?: Prisma.ScheduleExceptionWhereInput | Prisma.ScheduleExceptionWhereInput[]
+  clinicId?: Prisma.StringFilter<"ScheduleException"> | string
+  doctorId?: Prisma.StringNullableFilter<"ScheduleException"> | string | null
+  date?: Prisma.DateTimeFilter<"ScheduleException"> | Date | string
+  type?: Prisma.EnumScheduleExceptionTypeFilter<"ScheduleException"> | $Enums.ScheduleExceptionType
+  startTime?: Prisma.StringNullableFilter<"ScheduleException"> | string | null
+  endTime?: Prisma.StringNullableFilter<"ScheduleException"> | string | null
+  reason?: Prisma.StringNullableFilter<"ScheduleException"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ScheduleException"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ScheduleException"> | Date | string
+  clinic?: Prisma.XOR<Prisma.ClinicScalarRelationFilter, Prisma.ClinicWhereInput>
+  doctor?: Prisma.XOR<Prisma.DoctorNullableScalarRelationFilter, Prisma.DoctorWhereInput> | null
+}, "id">
+
+export type ScheduleExceptionOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  doctorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  date?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  startTime?: Prisma.SortOrderInput | Prisma.SortOrder
+  endTime?: Prisma.SortOrderInput | Prisma.SortOrder
+  reason?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.ScheduleExceptionCountOrderByAggregateInput
+  _max?: Prisma.ScheduleExceptionMaxOrderByAggregateInput
+  _min?: Prisma.ScheduleExceptionMinOrderByAggregateInput
+}
+
+export type ScheduleExceptionScalarWhereWithAggregatesInput = {
+  AND?: Prisma.ScheduleExceptionScalarWhereWithAggregatesInput | Prisma.ScheduleExceptionScalarWhereWithAggregatesInput[]
+  OR?: Prisma.ScheduleExceptionScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.ScheduleExceptionScalarWhereWithAggregatesInput | Prisma.ScheduleExceptionScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"ScheduleException"> | string
+  clinicId?: Prisma.StringWithAggregatesFilter<"ScheduleException"> | string
+  doctorId?: Prisma.StringNullableWithAggregatesFilter<"ScheduleException"> | string | null
+  date?: Prisma.DateTimeWithAggregatesFilter<"ScheduleException"> | Date | string
+  type?: Prisma.EnumScheduleExceptionTypeWithAggregatesFilter<"ScheduleException"> | $Enums.ScheduleExceptionType
+  startTime?: Prisma.StringNullableWithAggregatesFilter<"ScheduleException"> | string | null
+  endTime?: Prisma.StringNullableWithAggregatesFilter<"ScheduleException"> | string | null
+  reason?: Prisma.StringNullableWithAggregatesFilter<"ScheduleException"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"ScheduleException"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"ScheduleException"> | Date | string
+}
+
+export type ScheduleExceptionCreateInput = {
+  id?: string
+  date: Date | string
+  type: $Enums.ScheduleExceptionType
+  startTime?: string | null
+  endTime?: string | null
+  reason?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  clinic: Prisma.ClinicCreateNestedOneWithoutScheduleExceptionsInput
+  doctor?: Prisma.DoctorCreateNestedOneWithoutScheduleExceptionsInput
+}
+
+export type ScheduleExceptionUncheckedCreateInput = {
+  id?: string
+  clinicId: string
+  doctorId?: string | null
+  date: Date | string
+  type: $Enums.ScheduleExceptionType
+  startTime?: string | null
+  endTime?: string | null
+  reason?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ScheduleExceptionUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  type?: Prisma.EnumScheduleExceptionTypeFieldUpdateOperationsInput | $Enums.ScheduleExceptionType
+  startTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutScheduleExceptionsNestedInput
+  doctor?: Prisma.DoctorUpdateOneWithoutScheduleExceptionsNestedInput
+}
+
+export type ScheduleExceptionUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  type?: Prisma.EnumScheduleExceptionTypeFieldUpdateOperationsInput | $Enums.ScheduleExceptionType
+  startTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ScheduleExceptionCreateManyInput = {
+  id?: string
+  clinicId: string
+  doctorId?: string | null
+  date: Date | string
+  type: $Enums.ScheduleExceptionType
+  startTime?: string | null
+  endTime?: string | null
+  reason?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ScheduleExceptionUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  type?: Prisma.EnumScheduleExceptionTypeFieldUpdateOperationsInput | $Enums.ScheduleExceptionType
+  startTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ScheduleExceptionUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  type?: Prisma.EnumScheduleExceptionTypeFieldUpdateOperationsInput | $Enums.ScheduleExceptionType
+  startTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ScheduleExceptionListRelationFilter = {
+  every?: Prisma.ScheduleExceptionWhereInput
+  some?: Prisma.ScheduleExceptionWhereInput
+  none?: Prisma.ScheduleExceptionWhereInput
+}
+
+export type ScheduleExceptionOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type ScheduleExceptionCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  doctorId?: Prisma.SortOrder
+  date?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  startTime?: Prisma.SortOrder
+  endTime?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ScheduleExceptionMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  doctorId?: Prisma.SortOrder
+  date?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  startTime?: Prisma.SortOrder
+  endTime?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ScheduleExceptionMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  doctorId?: Prisma.SortOrder
+  date?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  startTime?: Prisma.SortOrder
+  endTime?: Prisma.SortOrder
+  reason?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type ScheduleExceptionCreateNestedManyWithoutClinicInput = {
+  create?: Prisma.XOR<Prisma.ScheduleExceptionCreateWithoutClinicInput, Prisma.ScheduleExceptionUncheckedCreateWithoutClinicInput> | Prisma.ScheduleExceptionCreateWithoutClinicInput[] | Prisma.ScheduleExceptionUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.ScheduleExceptionCreateOrConnectWithoutClinicInput | Prisma.ScheduleExceptionCreateOrConnectWithoutClinicInput[]
+  createMany?: Prisma.ScheduleExceptionCreateManyClinicInputEnvelope
+  connect?: Prisma.ScheduleExceptionWhereUniqueInput | Prisma.ScheduleExceptionWhereUniqueInput[]
+}
+
+export type ScheduleExceptionUncheckedCreateNestedManyWithoutClinicInput = {
+  create?: Prisma.XOR<Prisma.ScheduleExceptionCreateWithoutClinicInput, Prisma.ScheduleExceptionUncheckedCreateWithoutClinicInput> | Prisma.ScheduleExceptionCreateWithoutClinicInput[] | Prisma.ScheduleExceptionUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.ScheduleExceptionCreateOrConnectWithoutClinicInput | Prisma.ScheduleExceptionCreateOrConnectWithoutClinicInput[]
+  createMany?: Prisma.ScheduleExceptionCreateManyClinicInputEnvelope
+  connect?: Prisma.ScheduleExceptionWhereUniqueInput | Prisma.ScheduleExceptionWhereUniqueInput[]
+}
+
+export type ScheduleExceptionUpdateManyWithoutClinicNestedInput = {
+  create?: Prisma.XOR<Prisma.ScheduleExceptionCreateWithoutClinicInput, Prisma.ScheduleExceptionUncheckedCreateWithoutClinicInput> | Prisma.ScheduleExceptionCreateWithoutClinicInput[] | Prisma.ScheduleExceptionUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.ScheduleExceptionCreateOrConnectWithoutClinicInput | Prisma.ScheduleExceptionCreateOrConnectWithoutClinicInput[]
+  upsert?: Prisma.ScheduleExceptionUpsertWithWhereUniqueWithoutClinicInput | Prisma.ScheduleExceptionUpsertWithWhereUniqueWithoutClinicInput[]
+  createMany?: Prisma.ScheduleExceptionCreateManyClinicInputEnvelope
+  set?: Prisma.ScheduleExceptionWhereUniqueInput | Prisma.ScheduleExceptionWhereUniqueInput[]
+  disconnect?: Prisma.ScheduleExceptionWhereUniqueInput | Prisma.ScheduleExceptionWhereUniqueInput[]
+  delete?: Prisma.ScheduleExceptionWhereUniqueInput | Prisma.ScheduleExceptionWhereUniqueInput[]
+  connect?: Prisma.ScheduleExceptionWhereUniqueInput | Prisma.ScheduleExceptionWhereUniqueInput[]
+  update?: Prisma.ScheduleExceptionUpdateWithWhereUniqueWithoutClinicInput | Prisma.ScheduleExceptionUpdateWithWhereUniqueWithoutClinicInput[]
+  updateMany?: Prisma.ScheduleExceptionUpdateManyWithWhereWithoutClinicInput | Prisma.ScheduleExceptionUpdateManyWithWhereWithoutClinicInput[]
+  deleteMany?: Prisma.ScheduleExceptionScalarWhereInput | Prisma.ScheduleExceptionScalarWhereInput[]
+}
+
+export type ScheduleExceptionUncheckedUpdateManyWithoutClinicNestedInput = {
+  create?: Prisma.XOR<Prisma.ScheduleExceptionCreateWithoutClinicInput, Prisma.ScheduleExceptionUncheckedCreateWithoutClinicInput> | Prisma.ScheduleExceptionCreateWithoutClinicInput[] | Prisma.ScheduleExceptionUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.ScheduleExceptionCreateOrConnectWithoutClinicInput | Prisma.ScheduleExceptionCreateOrConnectWithoutClinicInput[]
+  upsert?: Prisma.ScheduleExceptionUpsertWithWhereUniqueWithoutClinicInput | Prisma.ScheduleExceptionUpsertWithWhereUniqueWithoutClinicInput[]
+  createMany?: Prisma.ScheduleExceptionCreateManyClinicInputEnvelope
+  set?: Prisma.ScheduleExceptionWhereUniqueInput | Prisma.ScheduleExceptionWhereUniqueInput[]
+  disconnect?: Prisma.ScheduleExceptionWhereUniqueInput | Prisma.ScheduleExceptionWhereUniqueInput[]
+  delete?: Prisma.ScheduleExceptionWhereUniqueInput | Prisma.ScheduleExceptionWhereUniqueInput[]
+  connect?: Prisma.ScheduleExceptionWhereUniqueInput | Prisma.ScheduleExceptionWhereUniqueInput[]
+  update?: Prisma.ScheduleExceptionUpdateWithWhereUniqueWithoutClinicInput | Prisma.ScheduleExceptionUpdateWithWhereUniqueWithoutClinicInput[]
+  updateMany?: Prisma.ScheduleExceptionUpdateManyWithWhereWithoutClinicInput | Prisma.ScheduleExceptionUpdateManyWithWhereWithoutClinicInput[]
+  deleteMany?: Prisma.ScheduleExceptionScalarWhereInput | Prisma.ScheduleExceptionScalarWhereInput[]
+}
+
+export type ScheduleExceptionCreateNestedManyWithoutDoctorInput = {
+  create?: Prisma.XOR<Prisma.ScheduleExceptionCreateWithoutDoctorInput, Prisma.ScheduleExceptionUncheckedCreateWithoutDoctorInput> | Prisma.ScheduleExceptionCreateWithoutDoctorInput[] | Prisma.ScheduleExceptionUncheckedCreateWithoutDoctorInput[]
+  connectOrCreate?: Prisma.ScheduleExceptionCreateOrConnectWithoutDoctorInput | Prisma.ScheduleExceptionCreateOrConnectWithoutDoctorInput[]
+  createMany?: Prisma.ScheduleExceptionCreateManyDoctorInputEnvelope
+  connect?: Prisma.ScheduleExceptionWhereUniqueInput | Prisma.ScheduleExceptionWhereUniqueInput[]
+}
+
+export type ScheduleExceptionUncheckedCreateNestedManyWithoutDoctorInput = {
+  create?: Prisma.XOR<Prisma.ScheduleExceptionCreateWithoutDoctorInput, Prisma.ScheduleExceptionUncheckedCreateWithoutDoctorInput> | Prisma.ScheduleExceptionCreateWithoutDoctorInput[] | Prisma.ScheduleExceptionUncheckedCreateWithoutDoctorInput[]
+  connectOrCreate?: Prisma.ScheduleExceptionCreateOrConnectWithoutDoctorInput | Prisma.ScheduleExceptionCreateOrConnectWithoutDoctorInput[]
+  createMany?: Prisma.ScheduleExceptionCreateManyDoctorInputEnvelope
+  connect?: Prisma.ScheduleExceptionWhereUniqueInput | Prisma.ScheduleExceptionWhereUniqueInput[]
+}
+
+export type ScheduleExceptionUpdateManyWithoutDoctorNestedInput = {
+  create?: Prisma.XOR<Prisma.ScheduleExceptionCreateWithoutDoctorInput, Prisma.ScheduleExceptionUncheckedCreateWithoutDoctorInput> | Prisma.ScheduleExceptionCreateWithoutDoctorInput[] | Prisma.ScheduleExceptionUncheckedCreateWithoutDoctorInput[]
+  connectOrCreate?: Prisma.ScheduleExceptionCreateOrConnectWithoutDoctorInput | Prisma.ScheduleExceptionCreateOrConnectWithoutDoctorInput[]
+  upsert?: Prisma.ScheduleExceptionUpsertWithWhereUniqueWithoutDoctorInput | Prisma.ScheduleExceptionUpsertWithWhereUniqueWithoutDoctorInput[]
+  createMany?: Prisma.ScheduleExceptionCreateManyDoctorInputEnvelope
+  set?: Prisma.ScheduleExceptionWhereUniqueInput | Prisma.ScheduleExceptionWhereUniqueInput[]
+  disconnect?: Prisma.ScheduleExceptionWhereUniqueInput | Prisma.ScheduleExceptionWhereUniqueInput[]
+  delete?: Prisma.ScheduleExceptionWhereUniqueInput | Prisma.ScheduleExceptionWhereUniqueInput[]
+  connect?: Prisma.ScheduleExceptionWhereUniqueInput | Prisma.ScheduleExceptionWhereUniqueInput[]
+  update?: Prisma.ScheduleExceptionUpdateWithWhereUniqueWithoutDoctorInput | Prisma.ScheduleExceptionUpdateWithWhereUniqueWithoutDoctorInput[]
+  updateMany?: Prisma.ScheduleExceptionUpdateManyWithWhereWithoutDoctorInput | Prisma.ScheduleExceptionUpdateManyWithWhereWithoutDoctorInput[]
+  deleteMany?: Prisma.ScheduleExceptionScalarWhereInput | Prisma.ScheduleExceptionScalarWhereInput[]
+}
+
+export type ScheduleExceptionUncheckedUpdateManyWithoutDoctorNestedInput = {
+  create?: Prisma.XOR<Prisma.ScheduleExceptionCreateWithoutDoctorInput, Prisma.ScheduleExceptionUncheckedCreateWithoutDoctorInput> | Prisma.ScheduleExceptionCreateWithoutDoctorInput[] | Prisma.ScheduleExceptionUncheckedCreateWithoutDoctorInput[]
+  connectOrCreate?: Prisma.ScheduleExceptionCreateOrConnectWithoutDoctorInput | Prisma.ScheduleExceptionCreateOrConnectWithoutDoctorInput[]
+  upsert?: Prisma.ScheduleExceptionUpsertWithWhereUniqueWithoutDoctorInput | Prisma.ScheduleExceptionUpsertWithWhereUniqueWithoutDoctorInput[]
+  createMany?: Prisma.ScheduleExceptionCreateManyDoctorInputEnvelope
+  set?: Prisma.ScheduleExceptionWhereUniqueInput | Prisma.ScheduleExceptionWhereUniqueInput[]
+  disconnect?: Prisma.ScheduleExceptionWhereUniqueInput | Prisma.ScheduleExceptionWhereUniqueInput[]
+  delete?: Prisma.ScheduleExceptionWhereUniqueInput | Prisma.ScheduleExceptionWhereUniqueInput[]
+  connect?: Prisma.ScheduleExceptionWhereUniqueInput | Prisma.ScheduleExceptionWhereUniqueInput[]
+  update?: Prisma.ScheduleExceptionUpdateWithWhereUniqueWithoutDoctorInput | Prisma.ScheduleExceptionUpdateWithWhereUniqueWithoutDoctorInput[]
+  updateMany?: Prisma.ScheduleExceptionUpdateManyWithWhereWithoutDoctorInput | Prisma.ScheduleExceptionUpdateManyWithWhereWithoutDoctorInput[]
+  deleteMany?: Prisma.ScheduleExceptionScalarWhereInput | Prisma.ScheduleExceptionScalarWhereInput[]
+}
+
+export type EnumScheduleExceptionTypeFieldUpdateOperationsInput = {
+  set?: $Enums.ScheduleExceptionType
+}
+
+export type ScheduleExceptionCreateWithoutClinicInput = {
+  id?: string
+  date: Date | string
+  type: $Enums.ScheduleExceptionType
+  startTime?: string | null
+  endTime?: string | null
+  reason?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  doctor?: Prisma.DoctorCreateNestedOneWithoutScheduleExceptionsInput
+}
+
+export type ScheduleExceptionUncheckedCreateWithoutClinicInput = {
+  id?: string
+  doctorId?: string | null
+  date: Date | string
+  type: $Enums.ScheduleExceptionType
+  startTime?: string | null
+  endTime?: string | null
+  reason?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ScheduleExceptionCreateOrConnectWithoutClinicInput = {
+  where: Prisma.ScheduleExceptionWhereUniqueInput
+  create: Prisma.XOR<Prisma.ScheduleExceptionCreateWithoutClinicInput, Prisma.ScheduleExceptionUncheckedCreateWithoutClinicInput>
+}
+
+export type ScheduleExceptionCreateManyClinicInputEnvelope = {
+  data: Prisma.ScheduleExceptionCreateManyClinicInput | Prisma.ScheduleExceptionCreateManyClinicInput[]
+  skipDuplicates?: boolean
+}
+
+export type ScheduleExceptionUpsertWithWhereUniqueWithoutClinicInput = {
+  where: Prisma.ScheduleExceptionWhereUniqueInput
+  update: Prisma.XOR<Prisma.ScheduleExceptionUpdateWithoutClinicInput, Prisma.ScheduleExceptionUncheckedUpdateWithoutClinicInput>
+  create: Prisma.XOR<Prisma.ScheduleExceptionCreateWithoutClinicInput, Prisma.ScheduleExceptionUncheckedCreateWithoutClinicInput>
+}
+
+export type ScheduleExceptionUpdateWithWhereUniqueWithoutClinicInput = {
+  where: Prisma.ScheduleExceptionWhereUniqueInput
+  data: Prisma.XOR<Prisma.ScheduleExceptionUpdateWithoutClinicInput, Prisma.ScheduleExceptionUncheckedUpdateWithoutClinicInput>
+}
+
+export type ScheduleExceptionUpdateManyWithWhereWithoutClinicInput = {
+  where: Prisma.ScheduleExceptionScalarWhereInput
+  data: Prisma.XOR<Prisma.ScheduleExceptionUpdateManyMutationInput, Prisma.ScheduleExceptionUncheckedUpdateManyWithoutClinicInput>
+}
+
+export type ScheduleExceptionScalarWhereInput = {
+  AND?: Prisma.ScheduleExceptionScalarWhereInput | Prisma.ScheduleExceptionScalarWhereInput[]
+  OR?: Prisma.ScheduleExceptionScalarWhereInput[]
+  NOT?: Prisma.ScheduleExceptionScalarWhereInput | Prisma.ScheduleExceptionScalarWhereInput[]
+  id?: Prisma.StringFilter<"ScheduleException"> | string
+  clinicId?: Prisma.StringFilter<"ScheduleException"> | string
+  doctorId?: Prisma.StringNullableFilter<"ScheduleException"> | string | null
+  date?: Prisma.DateTimeFilter<"ScheduleException"> | Date | string
+  type?: Prisma.EnumScheduleExceptionTypeFilter<"ScheduleException"> | $Enums.ScheduleExceptionType
+  startTime?: Prisma.StringNullableFilter<"ScheduleException"> | string | null
+  endTime?: Prisma.StringNullableFilter<"ScheduleException"> | string | null
+  reason?: Prisma.StringNullableFilter<"ScheduleException"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"ScheduleException"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"ScheduleException"> | Date | string
+}
+
+export type ScheduleExceptionCreateWithoutDoctorInput = {
+  id?: string
+  date: Date | string
+  type: $Enums.ScheduleExceptionType
+  startTime?: string | null
+  endTime?: string | null
+  reason?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  clinic: Prisma.ClinicCreateNestedOneWithoutScheduleExceptionsInput
+}
+
+export type ScheduleExceptionUncheckedCreateWithoutDoctorInput = {
+  id?: string
+  clinicId: string
+  date: Date | string
+  type: $Enums.ScheduleExceptionType
+  startTime?: string | null
+  endTime?: string | null
+  reason?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ScheduleExceptionCreateOrConnectWithoutDoctorInput = {
+  where: Prisma.ScheduleExceptionWhereUniqueInput
+  create: Prisma.XOR<Prisma.ScheduleExceptionCreateWithoutDoctorInput, Prisma.ScheduleExceptionUncheckedCreateWithoutDoctorInput>
+}
+
+export type ScheduleExceptionCreateManyDoctorInputEnvelope = {
+  data: Prisma.ScheduleExceptionCreateManyDoctorInput | Prisma.ScheduleExceptionCreateManyDoctorInput[]
+  skipDuplicates?: boolean
+}
+
+export type ScheduleExceptionUpsertWithWhereUniqueWithoutDoctorInput = {
+  where: Prisma.ScheduleExceptionWhereUniqueInput
+  update: Prisma.XOR<Prisma.ScheduleExceptionUpdateWithoutDoctorInput, Prisma.ScheduleExceptionUncheckedUpdateWithoutDoctorInput>
+  create: Prisma.XOR<Prisma.ScheduleExceptionCreateWithoutDoctorInput, Prisma.ScheduleExceptionUncheckedCreateWithoutDoctorInput>
+}
+
+export type ScheduleExceptionUpdateWithWhereUniqueWithoutDoctorInput = {
+  where: Prisma.ScheduleExceptionWhereUniqueInput
+  data: Prisma.XOR<Prisma.ScheduleExceptionUpdateWithoutDoctorInput, Prisma.ScheduleExceptionUncheckedUpdateWithoutDoctorInput>
+}
+
+export type ScheduleExceptionUpdateManyWithWhereWithoutDoctorInput = {
+  where: Prisma.ScheduleExceptionScalarWhereInput
+  data: Prisma.XOR<Prisma.ScheduleExceptionUpdateManyMutationInput, Prisma.ScheduleExceptionUncheckedUpdateManyWithoutDoctorInput>
+}
+
+export type ScheduleExceptionCreateManyClinicInput = {
+  id?: string
+  doctorId?: string | null
+  date: Date | string
+  type: $Enums.ScheduleExceptionType
+  startTime?: string | null
+  endTime?: string | null
+  reason?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ScheduleExceptionUpdateWithoutClinicInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  type?: Prisma.EnumScheduleExceptionTypeFieldUpdateOperationsInput | $Enums.ScheduleExceptionType
+  startTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  doctor?: Prisma.DoctorUpdateOneWithoutScheduleExceptionsNestedInput
+}
+
+export type ScheduleExceptionUncheckedUpdateWithoutClinicInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  type?: Prisma.EnumScheduleExceptionTypeFieldUpdateOperationsInput | $Enums.ScheduleExceptionType
+  startTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ScheduleExceptionUncheckedUpdateManyWithoutClinicInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  type?: Prisma.EnumScheduleExceptionTypeFieldUpdateOperationsInput | $Enums.ScheduleExceptionType
+  startTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ScheduleExceptionCreateManyDoctorInput = {
+  id?: string
+  clinicId: string
+  date: Date | string
+  type: $Enums.ScheduleExceptionType
+  startTime?: string | null
+  endTime?: string | null
+  reason?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type ScheduleExceptionUpdateWithoutDoctorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  type?: Prisma.EnumScheduleExceptionTypeFieldUpdateOperationsInput | $Enums.ScheduleExceptionType
+  startTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutScheduleExceptionsNestedInput
+}
+
+export type ScheduleExceptionUncheckedUpdateWithoutDoctorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  type?: Prisma.EnumScheduleExceptionTypeFieldUpdateOperationsInput | $Enums.ScheduleExceptionType
+  startTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type ScheduleExceptionUncheckedUpdateManyWithoutDoctorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  date?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  type?: Prisma.EnumScheduleExceptionTypeFieldUpdateOperationsInput | $Enums.ScheduleExceptionType
+  startTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  endTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  reason?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type ScheduleExceptionSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  clinicId?: boolean
+  doctorId?: boolean
+  date?: boolean
+  type?: boolean
+  startTime?: boolean
+  endTime?: boolean
+  reason?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  doctor?: boolean | Prisma.ScheduleException$doctorArgs<ExtArgs>
+}, ExtArgs["result"]["scheduleException"]>
+
+export type ScheduleExceptionSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  clinicId?: boolean
+  doctorId?: boolean
+  date?: boolean
+  type?: boolean
+  startTime?: boolean
+  endTime?: boolean
+  reason?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  doctor?: boolean | Prisma.ScheduleException$doctorArgs<ExtArgs>
+}, ExtArgs["result"]["scheduleException"]>
+
+export type ScheduleExceptionSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  clinicId?: boolean
+  doctorId?: boolean
+  date?: boolean
+  type?: boolean
+  startTime?: boolean
+  endTime?: boolean
+  reason?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  doctor?: boolean | Prisma.ScheduleException$doctorArgs<ExtArgs>
+}, ExtArgs["result"]["scheduleException"]>
+
+export type ScheduleExceptionSelectScalar = {
+  id?: boolean
+  clinicId?: boolean
+  doctorId?: boolean
+  date?: boolean
+  type?: boolean
+  startTime?: boolean
+  endTime?: boolean
+  reason?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type ScheduleExceptionOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "clinicId" | "doctorId" | "date" | "type" | "startTime" | "endTime" | "reason" | "createdAt" | "updatedAt", ExtArgs["result"]["scheduleException"]>
+export type ScheduleExceptionInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  doctor?: boolean | Prisma.ScheduleException$doctorArgs<ExtArgs>
+}
+export type ScheduleExceptionIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  doctor?: boolean | Prisma.ScheduleException$doctorArgs<ExtArgs>
+}
+export type ScheduleExceptionIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  doctor?: boolean | Prisma.ScheduleException$doctorArgs<ExtArgs>
+}
+
+export type $ScheduleExceptionPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "ScheduleException"
+  objects: {
+    clinic: Prisma.$ClinicPayload<ExtArgs>
+    doctor: Prisma.$DoctorPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    clinicId: string
+    doctorId: string | null
+    date: Date
+    type: $Enums.ScheduleExceptionType
+    startTime: string | null
+    endTime: string | null
+    reason: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["scheduleException"]>
+  composites: {}
+}
+
+export type ScheduleExceptionGetPayload<S extends boolean | null | undefined | ScheduleExceptionDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$ScheduleExceptionPayload, S>
+
+export type ScheduleExceptionCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<ScheduleExceptionFindManyArgs, 'select' | 'include' | 'distinct' | 'omit' | 'relationLoadStrategy'> & {
+    select?: ScheduleExceptionCountAggregateInputType | true
+  }
+
+export interface ScheduleExceptionDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['ScheduleException'], meta: { name: 'ScheduleException' } }
+  /**
+   * Find zero or one ScheduleException that matches the filter.
+   * @param {ScheduleExceptionFindUniqueArgs} args - Arguments to find a ScheduleException
+   * @example
+   * // Get one ScheduleException
+   * const scheduleException = await prisma.scheduleException.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends ScheduleExceptionFindUniqueArgs>(args: Prisma.SelectSubset<T, ScheduleExceptionFindUniqueArgs<ExtArgs>>): Prisma.Prisma__ScheduleExceptionClient<runtime.Types.Result.GetResult<Prisma.$ScheduleExceptionPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one ScheduleException that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {ScheduleExceptionFindUniqueOrThrowArgs} args - Arguments to find a ScheduleException
+   * @example
+   * // Get one ScheduleException
+   * const scheduleException = await prisma.scheduleException.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends ScheduleExceptionFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, ScheduleExceptionFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__ScheduleExceptionClient<runtime.Types.Result.GetResult<Prisma.$ScheduleExceptionPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ScheduleException that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ScheduleExceptionFindFirstArgs} args - Arguments to find a ScheduleException
+   * @example
+   * // Get one ScheduleException
+   * const scheduleException = await prisma.scheduleException.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends ScheduleExceptionFindFirstArgs>(args?: Prisma.SelectSubset<T, ScheduleExceptionFindFirstArgs<ExtArgs>>): Prisma.Prisma__ScheduleExceptionClient<runtime.Types.Result.GetResult<Prisma.$ScheduleExceptionPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first ScheduleException that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ScheduleExceptionFindFirstOrThrowArgs} args - Arguments to find a ScheduleException
+   * @example
+   * // Get one ScheduleException
+   * const scheduleException = await prisma.scheduleException.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends ScheduleExceptionFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, ScheduleExceptionFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__ScheduleExceptionClient<runtime.Types.Result.GetResult<Prisma.$ScheduleExceptionPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more ScheduleExceptions that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ScheduleExceptionFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all ScheduleExceptions
+   * const scheduleExceptions = await prisma.scheduleException.findMany()
+   * 
+   * // Get first 10 ScheduleExceptions
+   * const scheduleExceptions = await prisma.scheduleException.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const scheduleExceptionWithIdOnly = await prisma.scheduleException.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends ScheduleExceptionFindManyArgs>(args?: Prisma.SelectSubset<T, ScheduleExceptionFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ScheduleExceptionPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a ScheduleException.
+   * @param {ScheduleExceptionCreateArgs} args - Arguments to create a ScheduleException.
+   * @example
+   * // Create one ScheduleException
+   * const ScheduleException = await prisma.scheduleException.create({
+   *   data: {
+   *     // ... data to create a ScheduleException
+   *   }
+   * })
+   * 
+   */
+  create<T extends ScheduleExceptionCreateArgs>(args: Prisma.SelectSubset<T, ScheduleExceptionCreateArgs<ExtArgs>>): Prisma.Prisma__ScheduleExceptionClient<runtime.Types.Result.GetResult<Prisma.$ScheduleExceptionPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many ScheduleExceptions.
+   * @param {ScheduleExceptionCreateManyArgs} args - Arguments to create many ScheduleExceptions.
+   * @example
+   * // Create many ScheduleExceptions
+   * const scheduleException = await prisma.scheduleException.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends ScheduleExceptionCreateManyArgs>(args?: Prisma.SelectSubset<T, ScheduleExceptionCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many ScheduleExceptions and returns the data saved in the database.
+   * @param {ScheduleExceptionCreateManyAndReturnArgs} args - Arguments to create many ScheduleExceptions.
+   * @example
+   * // Create many ScheduleExceptions
+   * const scheduleException = await prisma.scheduleException.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many ScheduleExceptions and only return the `id`
+   * const scheduleExceptionWithIdOnly = await prisma.scheduleException.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends ScheduleExceptionCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, ScheduleExceptionCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ScheduleExceptionPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a ScheduleException.
+   * @param {ScheduleExceptionDeleteArgs} args - Arguments to delete one ScheduleException.
+   * @example
+   * // Delete one ScheduleException
+   * const ScheduleException = await prisma.scheduleException.delete({
+   *   where: {
+   *     // ... filter to delete one ScheduleException
+   *   }
+   * })
+   * 
+   */
+  delete<T extends ScheduleExceptionDeleteArgs>(args: Prisma.SelectSubset<T, ScheduleExceptionDeleteArgs<ExtArgs>>): Prisma.Prisma__ScheduleExceptionClient<runtime.Types.Result.GetResult<Prisma.$ScheduleExceptionPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one ScheduleException.
+   * @param {ScheduleExceptionUpdateArgs} args - Arguments to update one ScheduleException.
+   * @example
+   * // Update one ScheduleException
+   * const scheduleException = await prisma.scheduleException.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends ScheduleExceptionUpdateArgs>(args: Prisma.SelectSubset<T, ScheduleExceptionUpdateArgs<ExtArgs>>): Prisma.Prisma__ScheduleExceptionClient<runtime.Types.Result.GetResult<Prisma.$ScheduleExceptionPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more ScheduleExceptions.
+   * @param {ScheduleExceptionDeleteManyArgs} args - Arguments to filter ScheduleExceptions to delete.
+   * @example
+   * // Delete a few ScheduleExceptions
+   * const { count } = await prisma.scheduleException.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends ScheduleExceptionDeleteManyArgs>(args?: Prisma.SelectSubset<T, ScheduleExceptionDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ScheduleExceptions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ScheduleExceptionUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many ScheduleExceptions
+   * const scheduleException = await prisma.scheduleException.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends ScheduleExceptionUpdateManyArgs>(args: Prisma.SelectSubset<T, ScheduleExceptionUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more ScheduleExceptions and returns the data updated in the database.
+   * @param {ScheduleExceptionUpdateManyAndReturnArgs} args - Arguments to update many ScheduleExceptions.
+   * @example
+   * // Update many ScheduleExceptions
+   * const scheduleException = await prisma.scheduleException.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more ScheduleExceptions and only return the `id`
+   * const scheduleExceptionWithIdOnly = await prisma.scheduleException.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends ScheduleExceptionUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, ScheduleExceptionUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ScheduleExceptionPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one ScheduleException.
+   * @param {ScheduleExceptionUpsertArgs} args - Arguments to update or create a ScheduleException.
+   * @example
+   * // Update or create a ScheduleException
+   * const scheduleException = await prisma.scheduleException.upsert({
+   *   create: {
+   *     // ... data to create a ScheduleException
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the ScheduleException we want to update
+   *   }
+   * })
+   */
+  upsert<T extends ScheduleExceptionUpsertArgs>(args: Prisma.SelectSubset<T, ScheduleExceptionUpsertArgs<ExtArgs>>): Prisma.Prisma__ScheduleExceptionClient<runtime.Types.Result.GetResult<Prisma.$ScheduleExceptionPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of ScheduleExceptions.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ScheduleExceptionCountArgs} args - Arguments to filter ScheduleExceptions to count.
+   * @example
+   * // Count the number of ScheduleExceptions
+   * const count = await prisma.scheduleException.count({
+   *   where: {
+   *     // ... the filter for the ScheduleExceptions we want to count
+   *   }
+   * })
+  **/
+  count<T extends ScheduleExceptionCountArgs>(
+    args?: Prisma.Subset<T, ScheduleExceptionCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], ScheduleExceptionCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a ScheduleException.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ScheduleExceptionAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends ScheduleExceptionAggregateArgs>(args: Prisma.Subset<T, ScheduleExceptionAggregateArgs>): Prisma.PrismaPromise<GetScheduleExceptionAggregateType<T>>
+
+  /**
+   * Group by ScheduleException.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {ScheduleExceptionGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends ScheduleExceptionGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: ScheduleExceptionGroupByArgs['orderBy'] }
+      : { orderBy?: ScheduleExceptionGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, ScheduleExceptionGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetScheduleExceptionGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the ScheduleException model
+ */
+readonly fields: ScheduleExceptionFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for ScheduleException.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__ScheduleExceptionClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  clinic<T extends Prisma.ClinicDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ClinicDefaultArgs<ExtArgs>>): Prisma.Prisma__ClinicClient<runtime.Types.Result.GetResult<Prisma.$ClinicPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  doctor<T extends Prisma.ScheduleException$doctorArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ScheduleException$doctorArgs<ExtArgs>>): Prisma.Prisma__DoctorClient<runtime.Types.Result.GetResult<Prisma.$DoctorPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the ScheduleException model
+ */
+export interface ScheduleExceptionFieldRefs {
+  readonly id: Prisma.FieldRef<"ScheduleException", 'String'>
+  readonly clinicId: Prisma.FieldRef<"ScheduleException", 'String'>
+  readonly doctorId: Prisma.FieldRef<"ScheduleException", 'String'>
+  readonly date: Prisma.FieldRef<"ScheduleException", 'DateTime'>
+  readonly type: Prisma.FieldRef<"ScheduleException", 'ScheduleExceptionType'>
+  readonly startTime: Prisma.FieldRef<"ScheduleException", 'String'>
+  readonly endTime: Prisma.FieldRef<"ScheduleException", 'String'>
+  readonly reason: Prisma.FieldRef<"ScheduleException", 'String'>
+  readonly createdAt: Prisma.FieldRef<"ScheduleException", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"ScheduleException", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * ScheduleException findUnique
+ */
+export type ScheduleExceptionFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleException
+   */
+  select?: Prisma.ScheduleExceptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleException
+   */
+  omit?: Prisma.ScheduleExceptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleExceptionInclude<ExtArgs> | null
+  /**
+   * Filter, which ScheduleException to fetch.
+   */
+  where: Prisma.ScheduleExceptionWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * ScheduleException findUniqueOrThrow
+ */
+export type ScheduleExceptionFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleException
+   */
+  select?: Prisma.ScheduleExceptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleException
+   */
+  omit?: Prisma.ScheduleExceptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleExceptionInclude<ExtArgs> | null
+  /**
+   * Filter, which ScheduleException to fetch.
+   */
+  where: Prisma.ScheduleExceptionWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * ScheduleException findFirst
+ */
+export type ScheduleExceptionFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleException
+   */
+  select?: Prisma.ScheduleExceptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleException
+   */
+  omit?: Prisma.ScheduleExceptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleExceptionInclude<ExtArgs> | null
+  /**
+   * Filter, which ScheduleException to fetch.
+   */
+  where?: Prisma.ScheduleExceptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ScheduleExceptions to fetch.
+   */
+  orderBy?: Prisma.ScheduleExceptionOrderByWithRelationInput | Prisma.ScheduleExceptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ScheduleExceptions.
+   */
+  cursor?: Prisma.ScheduleExceptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ScheduleExceptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ScheduleExceptions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ScheduleExceptions.
+   */
+  distinct?: Prisma.ScheduleExceptionScalarFieldEnum | Prisma.ScheduleExceptionScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * ScheduleException findFirstOrThrow
+ */
+export type ScheduleExceptionFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleException
+   */
+  select?: Prisma.ScheduleExceptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleException
+   */
+  omit?: Prisma.ScheduleExceptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleExceptionInclude<ExtArgs> | null
+  /**
+   * Filter, which ScheduleException to fetch.
+   */
+  where?: Prisma.ScheduleExceptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ScheduleExceptions to fetch.
+   */
+  orderBy?: Prisma.ScheduleExceptionOrderByWithRelationInput | Prisma.ScheduleExceptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for ScheduleExceptions.
+   */
+  cursor?: Prisma.ScheduleExceptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ScheduleExceptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ScheduleExceptions.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of ScheduleExceptions.
+   */
+  distinct?: Prisma.ScheduleExceptionScalarFieldEnum | Prisma.ScheduleExceptionScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * ScheduleException findMany
+ */
+export type ScheduleExceptionFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleException
+   */
+  select?: Prisma.ScheduleExceptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleException
+   */
+  omit?: Prisma.ScheduleExceptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleExceptionInclude<ExtArgs> | null
+  /**
+   * Filter, which ScheduleExceptions to fetch.
+   */
+  where?: Prisma.ScheduleExceptionWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of ScheduleExceptions to fetch.
+   */
+  orderBy?: Prisma.ScheduleExceptionOrderByWithRelationInput | Prisma.ScheduleExceptionOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing ScheduleExceptions.
+   */
+  cursor?: Prisma.ScheduleExceptionWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` ScheduleExceptions from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` ScheduleExceptions.
+   */
+  skip?: number
+  distinct?: Prisma.ScheduleExceptionScalarFieldEnum | Prisma.ScheduleExceptionScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * ScheduleException create
+ */
+export type ScheduleExceptionCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleException
+   */
+  select?: Prisma.ScheduleExceptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleException
+   */
+  omit?: Prisma.ScheduleExceptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleExceptionInclude<ExtArgs> | null
+  /**
+   * The data needed to create a ScheduleException.
+   */
+  data: Prisma.XOR<Prisma.ScheduleExceptionCreateInput, Prisma.ScheduleExceptionUncheckedCreateInput>
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * ScheduleException createMany
+ */
+export type ScheduleExceptionCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many ScheduleExceptions.
+   */
+  data: Prisma.ScheduleExceptionCreateManyInput | Prisma.ScheduleExceptionCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * ScheduleException createManyAndReturn
+ */
+export type ScheduleExceptionCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleException
+   */
+  select?: Prisma.ScheduleExceptionSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleException
+   */
+  omit?: Prisma.ScheduleExceptionOmit<ExtArgs> | null
+  /**
+   * The data used to create many ScheduleExceptions.
+   */
+  data: Prisma.ScheduleExceptionCreateManyInput | Prisma.ScheduleExceptionCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleExceptionIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ScheduleException update
+ */
+export type ScheduleExceptionUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleException
+   */
+  select?: Prisma.ScheduleExceptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleException
+   */
+  omit?: Prisma.ScheduleExceptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleExceptionInclude<ExtArgs> | null
+  /**
+   * The data needed to update a ScheduleException.
+   */
+  data: Prisma.XOR<Prisma.ScheduleExceptionUpdateInput, Prisma.ScheduleExceptionUncheckedUpdateInput>
+  /**
+   * Choose, which ScheduleException to update.
+   */
+  where: Prisma.ScheduleExceptionWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * ScheduleException updateMany
+ */
+export type ScheduleExceptionUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update ScheduleExceptions.
+   */
+  data: Prisma.XOR<Prisma.ScheduleExceptionUpdateManyMutationInput, Prisma.ScheduleExceptionUncheckedUpdateManyInput>
+  /**
+   * Filter which ScheduleExceptions to update
+   */
+  where?: Prisma.ScheduleExceptionWhereInput
+  /**
+   * Limit how many ScheduleExceptions to update.
+   */
+  limit?: number
+}
+
+/**
+ * ScheduleException updateManyAndReturn
+ */
+export type ScheduleExceptionUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleException
+   */
+  select?: Prisma.ScheduleExceptionSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleException
+   */
+  omit?: Prisma.ScheduleExceptionOmit<ExtArgs> | null
+  /**
+   * The data used to update ScheduleExceptions.
+   */
+  data: Prisma.XOR<Prisma.ScheduleExceptionUpdateManyMutationInput, Prisma.ScheduleExceptionUncheckedUpdateManyInput>
+  /**
+   * Filter which ScheduleExceptions to update
+   */
+  where?: Prisma.ScheduleExceptionWhereInput
+  /**
+   * Limit how many ScheduleExceptions to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleExceptionIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * ScheduleException upsert
+ */
+export type ScheduleExceptionUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleException
+   */
+  select?: Prisma.ScheduleExceptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleException
+   */
+  omit?: Prisma.ScheduleExceptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleExceptionInclude<ExtArgs> | null
+  /**
+   * The filter to search for the ScheduleException to update in case it exists.
+   */
+  where: Prisma.ScheduleExceptionWhereUniqueInput
+  /**
+   * In case the ScheduleException found by the `where` argument doesn't exist, create a new ScheduleException with this data.
+   */
+  create: Prisma.XOR<Prisma.ScheduleExceptionCreateInput, Prisma.ScheduleExceptionUncheckedCreateInput>
+  /**
+   * In case the ScheduleException was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.ScheduleExceptionUpdateInput, Prisma.ScheduleExceptionUncheckedUpdateInput>
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * ScheduleException delete
+ */
+export type ScheduleExceptionDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleException
+   */
+  select?: Prisma.ScheduleExceptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleException
+   */
+  omit?: Prisma.ScheduleExceptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleExceptionInclude<ExtArgs> | null
+  /**
+   * Filter which ScheduleException to delete.
+   */
+  where: Prisma.ScheduleExceptionWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * ScheduleException deleteMany
+ */
+export type ScheduleExceptionDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which ScheduleExceptions to delete
+   */
+  where?: Prisma.ScheduleExceptionWhereInput
+  /**
+   * Limit how many ScheduleExceptions to delete.
+   */
+  limit?: number
+}
+
+/**
+ * ScheduleException.doctor
+ */
+export type ScheduleException$doctorArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Doctor
+   */
+  select?: Prisma.DoctorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Doctor
+   */
+  omit?: Prisma.DoctorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DoctorInclude<ExtArgs> | null
+  where?: Prisma.DoctorWhereInput
+}
+
+/**
+ * ScheduleException without action
+ */
+export type ScheduleExceptionDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ScheduleException
+   */
+  select?: Prisma.ScheduleExceptionSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ScheduleException
+   */
+  omit?: Prisma.ScheduleExceptionOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ScheduleExceptionInclude<ExtArgs> | null
+}
@@ -304,6 +304,8 @@ export type ServiceWhereInput = {
   bills?: Prisma.PatientBillListRelationFilter
   clinic?: Prisma.XOR<Prisma.ClinicNullableScalarRelationFilter, Prisma.ClinicWhereInput> | null
   appointments?: Prisma.AppointmentListRelationFilter
+  appointmentSeries?: Prisma.AppointmentSeriesListRelationFilter
+  waitlistEntries?: Prisma.WaitlistEntryListRelationFilter
 }
 
 export type ServiceOrderByWithRelationInput = {
@@ -326,6 +328,8 @@ export type ServiceOrderByWithRelationInput = {
   bills?: Prisma.PatientBillOrderByRelationAggregateInput
   clinic?: Prisma.ClinicOrderByWithRelationInput
   appointments?: Prisma.AppointmentOrderByRelationAggregateInput
+  appointmentSeries?: Prisma.AppointmentSeriesOrderByRelationAggregateInput
+  waitlistEntries?: Prisma.WaitlistEntryOrderByRelationAggregateInput
 }
 
 export type ServiceWhereUniqueInput = Prisma.AtLeast<{
@@ -352,6 +356,8 @@ export type ServiceWhereUniqueInput = Prisma.AtLeast<{
   bills?: Prisma.PatientBillListRelationFilter
   clinic?: Prisma.XOR<Prisma.ClinicNullableScalarRelationFilter, Prisma.ClinicWhereInput> | null
   appointments?: Prisma.AppointmentListRelationFilter
+  appointmentSeries?: Prisma.AppointmentSeriesListRelationFilter
+  waitlistEntries?: Prisma.WaitlistEntryListRelationFilter
 }, "id" | "service_clinic">
 
 export type ServiceOrderByWithAggregationInput = {
@@ -417,6 +423,8 @@ export type ServiceCreateInput = {
   bills?: Prisma.PatientBillCreateNestedManyWithoutServiceInput
   clinic?: Prisma.ClinicCreateNestedOneWithoutServicesInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutServiceInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutServiceInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutServiceInput
 }
 
 export type ServiceUncheckedCreateInput = {
@@ -438,6 +446,8 @@ export type ServiceUncheckedCreateInput = {
   labtest?: Prisma.LabTestUncheckedCreateNestedManyWithoutServiceInput
   bills?: Prisma.PatientBillUncheckedCreateNestedManyWithoutServiceInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutServiceInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutServiceInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutServiceInput
 }
 
 export type ServiceUpdateInput = {
@@ -459,6 +469,8 @@ export type ServiceUpdateInput = {
   bills?: Prisma.PatientBillUpdateManyWithoutServiceNestedInput
   clinic?: Prisma.ClinicUpdateOneWithoutServicesNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutServiceNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutServiceNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutServiceNestedInput
 }
 
 export type ServiceUncheckedUpdateInput = {
@@ -480,6 +492,8 @@ export type ServiceUncheckedUpdateInput = {
   labtest?: Prisma.LabTestUncheckedUpdateManyWithoutServiceNestedInput
   bills?: Prisma.PatientBillUncheckedUpdateManyWithoutServiceNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutServiceNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutServiceNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutServiceNestedInput
 }
 
 export type ServiceCreateManyInput = {
@@ -700,6 +714,38 @@ export type ServiceUpdateOneWithoutAppointmentsNestedInput = {
   update?: Prisma.XOR<Prisma.XOR<Prisma.ServiceUpdateToOneWithWhereWithoutAppointmentsInput, Prisma.ServiceUpdateWithoutAppointmentsInput>, Prisma.ServiceUncheckedUpdateWithoutAppointmentsInput>
 }
 
+export type ServiceCreateNestedOneWithoutAppointmentSeriesInput = {
+  create?: Prisma.XOR<Prisma.ServiceCreateWithoutAppointmentSeriesInput, Prisma.ServiceUncheckedCreateWithoutAppointmentSeriesInput>
+  connectOrCreate?: Prisma.ServiceCreateOrConnectWithoutAppointmentSeriesInput
+  connect?: Prisma.ServiceWhereUniqueInput
+}
+
+export type ServiceUpdateOneWithoutAppointmentSeriesNestedInput = {
+  create?: Prisma.XOR<Prisma.ServiceCreateWithoutAppointmentSeriesInput, Prisma.ServiceUncheckedCreateWithoutAppointmentSeriesInput>
+  connectOrCreate?: Prisma.ServiceCreateOrConnectWithoutAppointmentSeriesInput
+  upsert?: Prisma.ServiceUpsertWithoutAppointmentSeriesInput
+  disconnect?: Prisma.ServiceWhereInput | boolean
+  delete?: Prisma.ServiceWhereInput | boolean
+  connect?: Prisma.ServiceWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ServiceUpdateToOneWithWhereWithoutAppointmentSeriesInput, Prisma.ServiceUpdateWithoutAppointmentSeriesInput>, Prisma.ServiceUncheckedUpdateWithoutAppointmentSeriesInput>
+}
+
+export type ServiceCreateNestedOneWithoutWaitlistEntriesInput = {
+  create?: Prisma.XOR<Prisma.ServiceCreateWithoutWaitlistEntriesInput, Prisma.ServiceUncheckedCreateWithoutWaitlistEntriesInput>
+  connectOrCreate?: Prisma.ServiceCreateOrConnectWithoutWaitlistEntriesInput
+  connect?: Prisma.ServiceWhereUniqueInput
+}
+
+export type ServiceUpdateOneWithoutWaitlistEntriesNestedInput = {
+  create?: Prisma.XOR<Prisma.ServiceCreateWithoutWaitlistEntriesInput, Prisma.ServiceUncheckedCreateWithoutWaitlistEntriesInput>
+  connectOrCreate?: Prisma.ServiceCreateOrConnectWithoutWaitlistEntriesInput
+  upsert?: Prisma.ServiceUpsertWithoutWaitlistEntriesInput
+  disconnect?: Prisma.ServiceWhereInput | boolean
+  delete?: Prisma.ServiceWhereInput | boolean
+  connect?: Prisma.ServiceWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.ServiceUpdateToOneWithWhereWithoutWaitlistEntriesInput, Prisma.ServiceUpdateWithoutWaitlistEntriesInput>, Prisma.ServiceUncheckedUpdateWithoutWaitlistEntriesInput>
+}
+
 export type ServiceCreateNestedOneWithoutLabtestInput = {
   create?: Prisma.XOR<Prisma.ServiceCreateWithoutLabtestInput, Prisma.ServiceUncheckedCreateWithoutLabtestInput>
   connectOrCreate?: Prisma.ServiceCreateOrConnectWithoutLabtestInput
@@ -732,6 +778,8 @@ export type ServiceCreateWithoutClinicInput = {
   labtest?: Prisma.LabTestCreateNestedManyWithoutServiceInput
   bills?: Prisma.PatientBillCreateNestedManyWithoutServiceInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutServiceInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutServiceInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutServiceInput
 }
 
 export type ServiceUncheckedCreateWithoutClinicInput = {
@@ -752,6 +800,8 @@ export type ServiceUncheckedCreateWithoutClinicInput = {
   labtest?: Prisma.LabTestUncheckedCreateNestedManyWithoutServiceInput
   bills?: Prisma.PatientBillUncheckedCreateNestedManyWithoutServiceInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutServiceInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutServiceInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutServiceInput
 }
 
 export type ServiceCreateOrConnectWithoutClinicInput = {
@@ -819,6 +869,8 @@ export type ServiceCreateWithoutBillsInput = {
   labtest?: Prisma.LabTestCreateNestedManyWithoutServiceInput
   clinic?: Prisma.ClinicCreateNestedOneWithoutServicesInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutServiceInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutServiceInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutServiceInput
 }
 
 export type ServiceUncheckedCreateWithoutBillsInput = {
@@ -839,6 +891,8 @@ export type ServiceUncheckedCreateWithoutBillsInput = {
   isDeleted?: boolean | null
   labtest?: Prisma.LabTestUncheckedCreateNestedManyWithoutServiceInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutServiceInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutServiceInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutServiceInput
 }
 
 export type ServiceCreateOrConnectWithoutBillsInput = {
@@ -875,6 +929,8 @@ export type ServiceUpdateWithoutBillsInput = {
   labtest?: Prisma.LabTestUpdateManyWithoutServiceNestedInput
   clinic?: Prisma.ClinicUpdateOneWithoutServicesNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutServiceNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutServiceNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutServiceNestedInput
 }
 
 export type ServiceUncheckedUpdateWithoutBillsInput = {
@@ -895,6 +951,8 @@ export type ServiceUncheckedUpdateWithoutBillsInput = {
   isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   labtest?: Prisma.LabTestUncheckedUpdateManyWithoutServiceNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutServiceNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutServiceNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutServiceNestedInput
 }
 
 export type ServiceCreateWithoutAppointmentsInput = {
@@ -915,6 +973,8 @@ export type ServiceCreateWithoutAppointmentsInput = {
   labtest?: Prisma.LabTestCreateNestedManyWithoutServiceInput
   bills?: Prisma.PatientBillCreateNestedManyWithoutServiceInput
   clinic?: Prisma.ClinicCreateNestedOneWithoutServicesInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutServiceInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutServiceInput
 }
 
 export type ServiceUncheckedCreateWithoutAppointmentsInput = {
@@ -935,6 +995,8 @@ export type ServiceUncheckedCreateWithoutAppointmentsInput = {
   isDeleted?: boolean | null
   labtest?: Prisma.LabTestUncheckedCreateNestedManyWithoutServiceInput
   bills?: Prisma.PatientBillUncheckedCreateNestedManyWithoutServiceInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutServiceInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutServiceInput
 }
 
 export type ServiceCreateOrConnectWithoutAppointmentsInput = {
@@ -971,6 +1033,8 @@ export type ServiceUpdateWithoutAppointmentsInput = {
   labtest?: Prisma.LabTestUpdateManyWithoutServiceNestedInput
   bills?: Prisma.PatientBillUpdateManyWithoutServiceNestedInput
   clinic?: Prisma.ClinicUpdateOneWithoutServicesNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutServiceNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutServiceNestedInput
 }
 
 export type ServiceUncheckedUpdateWithoutAppointmentsInput = {
@@ -991,6 +1055,216 @@ export type ServiceUncheckedUpdateWithoutAppointmentsInput = {
   isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   labtest?: Prisma.LabTestUncheckedUpdateManyWithoutServiceNestedInput
   bills?: Prisma.PatientBillUncheckedUpdateManyWithoutServiceNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutServiceNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutServiceNestedInput
+}
+
+export type ServiceCreateWithoutAppointmentSeriesInput = {
+  id?: string
+  serviceName: string
+  description: string
+  price: runtime.Decimal | runtime.DecimalJsLike | number | string
+  category?: $Enums.ServiceCategory | null
+  duration?: number | null
+  isAvailable?: boolean | null
+  status?: $Enums.Status | null
+  icon?: string | null
+  color?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  labtest?: Prisma.LabTestCreateNestedManyWithoutServiceInput
+  bills?: Prisma.PatientBillCreateNestedManyWithoutServiceInput
+  clinic?: Prisma.ClinicCreateNestedOneWithoutServicesInput
+  appointments?: Prisma.AppointmentCreateNestedManyWithoutServiceInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutServiceInput
+}
+
+export type ServiceUncheckedCreateWithoutAppointmentSeriesInput = {
+  id?: string
+  serviceName: string
+  description: string
+  price: runtime.Decimal | runtime.DecimalJsLike | number | string
+  category?: $Enums.ServiceCategory | null
+  duration?: number | null
+  isAvailable?: boolean | null
+  clinicId?: string | null
+  status?: $Enums.Status | null
+  icon?: string | null
+  color?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  labtest?: Prisma.LabTestUncheckedCreateNestedManyWithoutServiceInput
+  bills?: Prisma.PatientBillUncheckedCreateNestedManyWithoutServiceInput
+  appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutServiceInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutServiceInput
+}
+
+export type ServiceCreateOrConnectWithoutAppointmentSeriesInput = {
+  where: Prisma.ServiceWhereUniqueInput
+  create: Prisma.XOR<Prisma.ServiceCreateWithoutAppointmentSeriesInput, Prisma.ServiceUncheckedCreateWithoutAppointmentSeriesInput>
+}
+
+export type ServiceUpsertWithoutAppointmentSeriesInput = {
+  update: Prisma.XOR<Prisma.ServiceUpdateWithoutAppointmentSeriesInput, Prisma.ServiceUncheckedUpdateWithoutAppointmentSeriesInput>
+  create: Prisma.XOR<Prisma.ServiceCreateWithoutAppointmentSeriesInput, Prisma.ServiceUncheckedCreateWithoutAppointmentSeriesInput>
+  where?: Prisma.ServiceWhereInput
+}
+
+export type ServiceUpdateToOneWithWhereWithoutAppointmentSeriesInput = {
+  where?: Prisma.ServiceWhereInput
+  data: Prisma.XOR<Prisma.ServiceUpdateWithoutAppointmentSeriesInput, Prisma.ServiceUncheckedUpdateWithoutAppointmentSeriesInput>
+}
+
+export type ServiceUpdateWithoutAppointmentSeriesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  serviceName?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  category?: Prisma.NullableEnumServiceCategoryFieldUpdateOperationsInput | $Enums.ServiceCategory | null
+  duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isAvailable?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  status?: Prisma.NullableEnumStatusFieldUpdateOperationsInput | $Enums.Status | null
+  icon?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  color?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  labtest?: Prisma.LabTestUpdateManyWithoutServiceNestedInput
+  bills?: Prisma.PatientBillUpdateManyWithoutServiceNestedInput
+  clinic?: Prisma.ClinicUpdateOneWithoutServicesNestedInput
+  appointments?: Prisma.AppointmentUpdateManyWithoutServiceNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutServiceNestedInput
+}
+
+export type ServiceUncheckedUpdateWithoutAppointmentSeriesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  serviceName?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  category?: Prisma.NullableEnumServiceCategoryFieldUpdateOperationsInput | $Enums.ServiceCategory | null
+  duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isAvailable?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  clinicId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.NullableEnumStatusFieldUpdateOperationsInput | $Enums.Status | null
+  icon?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  color?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  labtest?: Prisma.LabTestUncheckedUpdateManyWithoutServiceNestedInput
+  bills?: Prisma.PatientBillUncheckedUpdateManyWithoutServiceNestedInput
+  appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutServiceNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutServiceNestedInput
+}
+
+export type ServiceCreateWithoutWaitlistEntriesInput = {
+  id?: string
+  serviceName: string
+  description: string
+  price: runtime.Decimal | runtime.DecimalJsLike | number | string
+  category?: $Enums.ServiceCategory | null
+  duration?: number | null
+  isAvailable?: boolean | null
+  status?: $Enums.Status | null
+  icon?: string | null
+  color?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  labtest?: Prisma.LabTestCreateNestedManyWithoutServiceInput
+  bills?: Prisma.PatientBillCreateNestedManyWithoutServiceInput
+  clinic?: Prisma.ClinicCreateNestedOneWithoutServicesInput
+  appointments?: Prisma.AppointmentCreateNestedManyWithoutServiceInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutServiceInput
+}
+
+export type ServiceUncheckedCreateWithoutWaitlistEntriesInput = {
+  id?: string
+  serviceName: string
+  description: string
+  price: runtime.Decimal | runtime.DecimalJsLike | number | string
+  category?: $Enums.ServiceCategory | null
+  duration?: number | null
+  isAvailable?: boolean | null
+  clinicId?: string | null
+  status?: $Enums.Status | null
+  icon?: string | null
+  color?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  deletedAt?: Date | string | null
+  isDeleted?: boolean | null
+  labtest?: Prisma.LabTestUncheckedCreateNestedManyWithoutServiceInput
+  bills?: Prisma.PatientBillUncheckedCreateNestedManyWithoutServiceInput
+  appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutServiceInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutServiceInput
+}
+
+export type ServiceCreateOrConnectWithoutWaitlistEntriesInput = {
+  where: Prisma.ServiceWhereUniqueInput
+  create: Prisma.XOR<Prisma.ServiceCreateWithoutWaitlistEntriesInput, Prisma.ServiceUncheckedCreateWithoutWaitlistEntriesInput>
+}
+
+export type ServiceUpsertWithoutWaitlistEntriesInput = {
+  update: Prisma.XOR<Prisma.ServiceUpdateWithoutWaitlistEntriesInput, Prisma.ServiceUncheckedUpdateWithoutWaitlistEntriesInput>
+  create: Prisma.XOR<Prisma.ServiceCreateWithoutWaitlistEntriesInput, Prisma.ServiceUncheckedCreateWithoutWaitlistEntriesInput>
+  where?: Prisma.ServiceWhereInput
+}
+
+export type ServiceUpdateToOneWithWhereWithoutWaitlistEntriesInput = {
+  where?: Prisma.ServiceWhereInput
+  data: Prisma.XOR<Prisma.ServiceUpdateWithoutWaitlistEntriesInput, Prisma.ServiceUncheckedUpdateWithoutWaitlistEntriesInput>
+}
+
+export type ServiceUpdateWithoutWaitlistEntriesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  serviceName?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  category?: Prisma.NullableEnumServiceCategoryFieldUpdateOperationsInput | $Enums.ServiceCategory | null
+  duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isAvailable?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  status?: Prisma.NullableEnumStatusFieldUpdateOperationsInput | $Enums.Status | null
+  icon?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  color?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  labtest?: Prisma.LabTestUpdateManyWithoutServiceNestedInput
+  bills?: Prisma.PatientBillUpdateManyWithoutServiceNestedInput
+  clinic?: Prisma.ClinicUpdateOneWithoutServicesNestedInput
+  appointments?: Prisma.AppointmentUpdateManyWithoutServiceNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutServiceNestedInput
+}
+
+export type ServiceUncheckedUpdateWithoutWaitlistEntriesInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  serviceName?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.StringFieldUpdateOperationsInput | string
+  price?: Prisma.DecimalFieldUpdateOperationsInput | runtime.Decimal | runtime.DecimalJsLike | number | string
+  category?: Prisma.NullableEnumServiceCategoryFieldUpdateOperationsInput | $Enums.ServiceCategory | null
+  duration?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isAvailable?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  clinicId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  status?: Prisma.NullableEnumStatusFieldUpdateOperationsInput | $Enums.Status | null
+  icon?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  color?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  deletedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
+  labtest?: Prisma.LabTestUncheckedUpdateManyWithoutServiceNestedInput
+  bills?: Prisma.PatientBillUncheckedUpdateManyWithoutServiceNestedInput
+  appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutServiceNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutServiceNestedInput
 }
 
 export type ServiceCreateWithoutLabtestInput = {
@@ -1011,6 +1285,8 @@ export type ServiceCreateWithoutLabtestInput = {
   bills?: Prisma.PatientBillCreateNestedManyWithoutServiceInput
   clinic?: Prisma.ClinicCreateNestedOneWithoutServicesInput
   appointments?: Prisma.AppointmentCreateNestedManyWithoutServiceInput
+  appointmentSeries?: Prisma.AppointmentSeriesCreateNestedManyWithoutServiceInput
+  waitlistEntries?: Prisma.WaitlistEntryCreateNestedManyWithoutServiceInput
 }
 
 export type ServiceUncheckedCreateWithoutLabtestInput = {
@@ -1031,6 +1307,8 @@ export type ServiceUncheckedCreateWithoutLabtestInput = {
   isDeleted?: boolean | null
   bills?: Prisma.PatientBillUncheckedCreateNestedManyWithoutServiceInput
   appointments?: Prisma.AppointmentUncheckedCreateNestedManyWithoutServiceInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedCreateNestedManyWithoutServiceInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedCreateNestedManyWithoutServiceInput
 }
 
 export type ServiceCreateOrConnectWithoutLabtestInput = {
@@ -1067,6 +1345,8 @@ export type ServiceUpdateWithoutLabtestInput = {
   bills?: Prisma.PatientBillUpdateManyWithoutServiceNestedInput
   clinic?: Prisma.ClinicUpdateOneWithoutServicesNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutServiceNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutServiceNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutServiceNestedInput
 }
 
 export type ServiceUncheckedUpdateWithoutLabtestInput = {
@@ -1087,6 +1367,8 @@ export type ServiceUncheckedUpdateWithoutLabtestInput = {
   isDeleted?: Prisma.NullableBoolFieldUpdateOperationsInput | boolean | null
   bills?: Prisma.PatientBillUncheckedUpdateManyWithoutServiceNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutServiceNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutServiceNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutServiceNestedInput
 }
 
 export type ServiceCreateManyClinicInput = {
@@ -1124,6 +1406,8 @@ export type ServiceUpdateWithoutClinicInput = {
   labtest?: Prisma.LabTestUpdateManyWithoutServiceNestedInput
   bills?: Prisma.PatientBillUpdateManyWithoutServiceNestedInput
   appointments?: Prisma.AppointmentUpdateManyWithoutServiceNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUpdateManyWithoutServiceNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUpdateManyWithoutServiceNestedInput
 }
 
 export type ServiceUncheckedUpdateWithoutClinicInput = {
@@ -1144,6 +1428,8 @@ export type ServiceUncheckedUpdateWithoutClinicInput = {
   labtest?: Prisma.LabTestUncheckedUpdateManyWithoutServiceNestedInput
   bills?: Prisma.PatientBillUncheckedUpdateManyWithoutServiceNestedInput
   appointments?: Prisma.AppointmentUncheckedUpdateManyWithoutServiceNestedInput
+  appointmentSeries?: Prisma.AppointmentSeriesUncheckedUpdateManyWithoutServiceNestedInput
+  waitlistEntries?: Prisma.WaitlistEntryUncheckedUpdateManyWithoutServiceNestedInput
 }
 
 export type ServiceUncheckedUpdateManyWithoutClinicInput = {
@@ -1172,12 +1458,16 @@ export type ServiceCountOutputType = {
   labtest: number
   bills: number
   appointments: number
+  appointmentSeries: number
+  waitlistEntries: number
 }
 
 export type ServiceCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   labtest?: boolean | ServiceCountOutputTypeCountLabtestArgs
   bills?: boolean | ServiceCountOutputTypeCountBillsArgs
   appointments?: boolean | ServiceCountOutputTypeCountAppointmentsArgs
+  appointmentSeries?: boolean | ServiceCountOutputTypeCountAppointmentSeriesArgs
+  waitlistEntries?: boolean | ServiceCountOutputTypeCountWaitlistEntriesArgs
 }
 
 /**
@@ -1211,6 +1501,20 @@ export type ServiceCountOutputTypeCountAppointmentsArgs<ExtArgs extends runtime.
   where?: Prisma.AppointmentWhereInput
 }
 
+/**
+ * ServiceCountOutputType without action
+ */
+export type ServiceCountOutputTypeCountAppointmentSeriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.AppointmentSeriesWhereInput
+}
+
+/**
+ * ServiceCountOutputType without action
+ */
+export type ServiceCountOutputTypeCountWaitlistEntriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WaitlistEntryWhereInput
+}
+
 
 export type ServiceSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
   id?: boolean
@@ -1232,6 +1536,8 @@ export type ServiceSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs
   bills?: boolean | Prisma.Service$billsArgs<ExtArgs>
   clinic?: boolean | Prisma.Service$clinicArgs<ExtArgs>
   appointments?: boolean | Prisma.Service$appointmentsArgs<ExtArgs>
+  appointmentSeries?: boolean | Prisma.Service$appointmentSeriesArgs<ExtArgs>
+  waitlistEntries?: boolean | Prisma.Service$waitlistEntriesArgs<ExtArgs>
   _count?: boolean | Prisma.ServiceCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["service"]>
 
@@ -1297,6 +1603,8 @@ export type ServiceInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs
   bills?: boolean | Prisma.Service$billsArgs<ExtArgs>
   clinic?: boolean | Prisma.Service$clinicArgs<ExtArgs>
   appointments?: boolean | Prisma.Service$appointmentsArgs<ExtArgs>
+  appointmentSeries?: boolean | Prisma.Service$appointmentSeriesArgs<ExtArgs>
+  waitlistEntries?: boolean | Prisma.Service$waitlistEntriesArgs<ExtArgs>
   _count?: boolean | Prisma.ServiceCountOutputTypeDefaultArgs<ExtArgs>
 }
 export type ServiceIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
@@ -1313,6 +1621,8 @@ export type $ServicePayload<ExtArgs extends runtime.Types.Extensions.InternalArg
     bills: Prisma.$PatientBillPayload<ExtArgs>[]
     clinic: Prisma.$ClinicPayload<ExtArgs> | null
     appointments: Prisma.$AppointmentPayload<ExtArgs>[]
+    appointmentSeries: Prisma.$AppointmentSeriesPayload<ExtArgs>[]
+    waitlistEntries: Prisma.$WaitlistEntryPayload<ExtArgs>[]
   }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
@@ -1728,6 +2038,8 @@ export interface Prisma__ServiceClient<T, Null = never, ExtArgs extends runtime.
   bills<T extends Prisma.Service$billsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Service$billsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$PatientBillPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   clinic<T extends Prisma.Service$clinicArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Service$clinicArgs<ExtArgs>>): Prisma.Prisma__ClinicClient<runtime.Types.Result.GetResult<Prisma.$ClinicPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
   appointments<T extends Prisma.Service$appointmentsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Service$appointmentsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AppointmentPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  appointmentSeries<T extends Prisma.Service$appointmentSeriesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Service$appointmentSeriesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$AppointmentSeriesPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  waitlistEntries<T extends Prisma.Service$waitlistEntriesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.Service$waitlistEntriesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -2267,6 +2579,54 @@ export type Service$appointmentsArgs<ExtArgs extends runtime.Types.Extensions.In
   distinct?: Prisma.AppointmentScalarFieldEnum | Prisma.AppointmentScalarFieldEnum[]
 }
 
+/**
+ * Service.appointmentSeries
+ */
+export type Service$appointmentSeriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the AppointmentSeries
+   */
+  select?: Prisma.AppointmentSeriesSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the AppointmentSeries
+   */
+  omit?: Prisma.AppointmentSeriesOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AppointmentSeriesInclude<ExtArgs> | null
+  where?: Prisma.AppointmentSeriesWhereInput
+  orderBy?: Prisma.AppointmentSeriesOrderByWithRelationInput | Prisma.AppointmentSeriesOrderByWithRelationInput[]
+  cursor?: Prisma.AppointmentSeriesWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.AppointmentSeriesScalarFieldEnum | Prisma.AppointmentSeriesScalarFieldEnum[]
+}
+
+/**
+ * Service.waitlistEntries
+ */
+export type Service$waitlistEntriesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  where?: Prisma.WaitlistEntryWhereInput
+  orderBy?: Prisma.WaitlistEntryOrderByWithRelationInput | Prisma.WaitlistEntryOrderByWithRelationInput[]
+  cursor?: Prisma.WaitlistEntryWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.WaitlistEntryScalarFieldEnum | Prisma.WaitlistEntryScalarFieldEnum[]
+}
+
 /**
  * Service without action
  */
@@ -32,6 +32,7 @@ export type VaccineScheduleAvgAggregateOutputType = {
   minimumInterval: number | null
   ageInDaysMin: number | null
   ageInDaysMax: number | null
+  scheduleSetId: number | null
 }
 
 export type VaccineScheduleSumAggregateOutputType = {
@@ -40,6 +41,7 @@ export type VaccineScheduleSumAggregateOutputType = {
   minimumInterval: number | null
   ageInDaysMin: number | null
   ageInDaysMax: number | null
+  scheduleSetId: number | null
 }
 
 export type VaccineScheduleMinAggregateOutputType = {
@@ -54,6 +56,7 @@ export type VaccineScheduleMinAggregateOutputType = {
   updatedAt: Date | null
   ageInDaysMin: number | null
   ageInDaysMax: number | null
+  scheduleSetId: number | null
 }
 
 export type VaccineScheduleMaxAggregateOutputType = {
@@ -68,6 +71,7 @@ export type VaccineScheduleMaxAggregateOutputType = {
   updatedAt: Date | null
   ageInDaysMin: number | null
   ageInDaysMax: number | null
+  scheduleSetId: number | null
 }
 
 export type VaccineScheduleCountAggregateOutputType = {
@@ -82,6 +86,7 @@ export type VaccineScheduleCountAggregateOutputType = {
   updatedAt: number
   ageInDaysMin: number
   ageInDaysMax: number
+  scheduleSetId: number
   _all: number
 }
 
@@ -92,6 +97,7 @@ export type VaccineScheduleAvgAggregateInputType = {
   minimumInterval?: true
   ageInDaysMin?: true
   ageInDaysMax?: true
+  scheduleSetId?: true
 }
 
 export type VaccineScheduleSumAggregateInputType = {
@@ -100,6 +106,7 @@ export type VaccineScheduleSumAggregateInputType = {
   minimumInterval?: true
   ageInDaysMin?: true
   ageInDaysMax?: true
+  scheduleSetId?: true
 }
 
 export type VaccineScheduleMinAggregateInputType = {
@@ -114,6 +121,7 @@ export type VaccineScheduleMinAggregateInputType = {
   updatedAt?: true
   ageInDaysMin?: true
   ageInDaysMax?: true
+  scheduleSetId?: true
 }
 
 export type VaccineScheduleMaxAggregateInputType = {
@@ -128,6 +136,7 @@ export type VaccineScheduleMaxAggregateInputType = {
   updatedAt?: true
   ageInDaysMin?: true
   ageInDaysMax?: true
+  scheduleSetId?: true
 }
 
 export type VaccineScheduleCountAggregateInputType = {
@@ -142,6 +151,7 @@ export type VaccineScheduleCountAggregateInputType = {
   updatedAt?: true
   ageInDaysMin?: true
   ageInDaysMax?: true
+  scheduleSetId?: true
   _all?: true
 }
 
@@ -243,6 +253,7 @@ export type VaccineScheduleGroupByOutputType = {
   updatedAt: Date
   ageInDaysMin: number | null
   ageInDaysMax: number | null
+  scheduleSetId: number
   _count: VaccineScheduleCountAggregateOutputType | null
   _avg: VaccineScheduleAvgAggregateOutputType | null
   _sum: VaccineScheduleSumAggregateOutputType | null
@@ -280,6 +291,9 @@ export type VaccineScheduleWhereInput = {
   updatedAt?: Prisma.DateTimeFilter<"VaccineSchedule"> | Date | string
   ageInDaysMin?: Prisma.IntNullableFilter<"VaccineSchedule"> | number | null
   ageInDaysMax?: Prisma.IntNullableFilter<"VaccineSchedule"> | number | null
+  scheduleSetId?: Prisma.IntFilter<"VaccineSchedule"> | number
+  scheduleSet?: Prisma.XOR<Prisma.VaccineScheduleSetScalarRelationFilter, Prisma.VaccineScheduleSetWhereInput>
+  doses?: Prisma.VaccineScheduleDoseListRelationFilter
 }
 
 export type VaccineScheduleOrderByWithRelationInput = {
@@ -294,11 +308,14 @@ export type VaccineScheduleOrderByWithRelationInput = {
   updatedAt?: Prisma.SortOrder
   ageInDaysMin?: Prisma.SortOrderInput | Prisma.SortOrder
   ageInDaysMax?: Prisma.SortOrderInput | Prisma.SortOrder
+  scheduleSetId?: Prisma.SortOrder
+  scheduleSet?: Prisma.VaccineScheduleSetOrderByWithRelationInput
+  doses?: Prisma.VaccineScheduleDoseOrderByRelationAggregateInput
 }
 
 export type VaccineScheduleWhereUniqueInput = Prisma.AtLeast<{
   id?: number
-  vaccineName_recommendedAge?: Prisma.VaccineScheduleVaccineNameRecommendedAgeCompoundUniqueInput
+  scheduleSetId_vaccineName_recommendedAge?: Prisma.VaccineScheduleScheduleSetIdVaccineNameRecommendedAgeCompoundUniqueInput
   AND?: Prisma.VaccineScheduleWhereInput | Prisma.VaccineScheduleWhereInput[]
   OR?: Prisma.VaccineScheduleWhereInput[]
   NOT?: Prisma.VaccineScheduleWhereInput | Prisma.VaccineScheduleWhereInput[]
@@ -312,7 +329,10 @@ export type VaccineScheduleWhereUniqueInput = Prisma.AtLeast<{
   updatedAt?: Prisma.DateTimeFilter<"VaccineSchedule"> | Date | string
   ageInDaysMin?: Prisma.IntNullableFilter<"VaccineSchedule"> | number | null
   ageInDaysMax?: Prisma.IntNullableFilter<"VaccineSchedule"> | number | null
-}, "id" | "vaccineName_recommendedAge">
+  scheduleSetId?: Prisma.IntFilter<"VaccineSchedule"> | number
+  scheduleSet?: Prisma.XOR<Prisma.VaccineScheduleSetScalarRelationFilter, Prisma.VaccineScheduleSetWhereInput>
+  doses?: Prisma.VaccineScheduleDoseListRelationFilter
+}, "id" | "scheduleSetId_vaccineName_recommendedAge">
 
 export type VaccineScheduleOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
@@ -326,6 +346,7 @@ export type VaccineScheduleOrderByWithAggregationInput = {
   updatedAt?: Prisma.SortOrder
   ageInDaysMin?: Prisma.SortOrderInput | Prisma.SortOrder
   ageInDaysMax?: Prisma.SortOrderInput | Prisma.SortOrder
+  scheduleSetId?: Prisma.SortOrder
   _count?: Prisma.VaccineScheduleCountOrderByAggregateInput
   _avg?: Prisma.VaccineScheduleAvgOrderByAggregateInput
   _max?: Prisma.VaccineScheduleMaxOrderByAggregateInput
@@ -348,6 +369,7 @@ export type VaccineScheduleScalarWhereWithAggregatesInput = {
   updatedAt?: Prisma.DateTimeWithAggregatesFilter<"VaccineSchedule"> | Date | string
   ageInDaysMin?: Prisma.IntNullableWithAggregatesFilter<"VaccineSchedule"> | number | null
   ageInDaysMax?: Prisma.IntNullableWithAggregatesFilter<"VaccineSchedule"> | number | null
+  scheduleSetId?: Prisma.IntWithAggregatesFilter<"VaccineSchedule"> | number
 }
 
 export type VaccineScheduleCreateInput = {
@@ -361,6 +383,8 @@ export type VaccineScheduleCreateInput = {
   updatedAt?: Date | string
   ageInDaysMin?: number | null
   ageInDaysMax?: number | null
+  scheduleSet: Prisma.VaccineScheduleSetCreateNestedOneWithoutVaccinesInput
+  doses?: Prisma.VaccineScheduleDoseCreateNestedManyWithoutScheduleInput
 }
 
 export type VaccineScheduleUncheckedCreateInput = {
@@ -375,6 +399,8 @@ export type VaccineScheduleUncheckedCreateInput = {
   updatedAt?: Date | string
   ageInDaysMin?: number | null
   ageInDaysMax?: number | null
+  scheduleSetId: number
+  doses?: Prisma.VaccineScheduleDoseUncheckedCreateNestedManyWithoutScheduleInput
 }
 
 export type VaccineScheduleUpdateInput = {
@@ -388,6 +414,8 @@ export type VaccineScheduleUpdateInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   ageInDaysMin?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageInDaysMax?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  scheduleSet?: Prisma.VaccineScheduleSetUpdateOneRequiredWithoutVaccinesNestedInput
+  doses?: Prisma.VaccineScheduleDoseUpdateManyWithoutScheduleNestedInput
 }
 
 export type VaccineScheduleUncheckedUpdateInput = {
@@ -402,6 +430,8 @@ export type VaccineScheduleUncheckedUpdateInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   ageInDaysMin?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageInDaysMax?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  scheduleSetId?: Prisma.IntFieldUpdateOperationsInput | number
+  doses?: Prisma.VaccineScheduleDoseUncheckedUpdateManyWithoutScheduleNestedInput
 }
 
 export type VaccineScheduleCreateManyInput = {
@@ -416,6 +446,7 @@ export type VaccineScheduleCreateManyInput = {
   updatedAt?: Date | string
   ageInDaysMin?: number | null
   ageInDaysMax?: number | null
+  scheduleSetId: number
 }
 
 export type VaccineScheduleUpdateManyMutationInput = {
@@ -443,9 +474,11 @@ export type VaccineScheduleUncheckedUpdateManyInput = {
   updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
   ageInDaysMin?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
   ageInDaysMax?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  scheduleSetId?: Prisma.IntFieldUpdateOperationsInput | number
 }
 
-export type VaccineScheduleVaccineNameRecommendedAgeCompoundUniqueInput = {
+export type VaccineScheduleScheduleSetIdVaccineNameRecommendedAgeCompoundUniqueInput = {
+  scheduleSetId: number
   vaccineName: string
   recommendedAge: string
 }
@@ -462,6 +495,7 @@ export type VaccineScheduleCountOrderByAggregateInput = {
   updatedAt?: Prisma.SortOrder
   ageInDaysMin?: Prisma.SortOrder
   ageInDaysMax?: Prisma.SortOrder
+  scheduleSetId?: Prisma.SortOrder
 }
 
 export type VaccineScheduleAvgOrderByAggregateInput = {
@@ -470,6 +504,7 @@ export type VaccineScheduleAvgOrderByAggregateInput = {
   minimumInterval?: Prisma.SortOrder
   ageInDaysMin?: Prisma.SortOrder
   ageInDaysMax?: Prisma.SortOrder
+  scheduleSetId?: Prisma.SortOrder
 }
 
 export type VaccineScheduleMaxOrderByAggregateInput = {
@@ -484,6 +519,7 @@ export type VaccineScheduleMaxOrderByAggregateInput = {
   updatedAt?: Prisma.SortOrder
   ageInDaysMin?: Prisma.SortOrder
   ageInDaysMax?: Prisma.SortOrder
+  scheduleSetId?: Prisma.SortOrder
 }
 
 export type VaccineScheduleMinOrderByAggregateInput = {
@@ -498,6 +534,7 @@ export type VaccineScheduleMinOrderByAggregateInput = {
   updatedAt?: Prisma.SortOrder
   ageInDaysMin?: Prisma.SortOrder
   ageInDaysMax?: Prisma.SortOrder
+  scheduleSetId?: Prisma.SortOrder
 }
 
 export type VaccineScheduleSumOrderByAggregateInput = {
@@ -506,8 +543,313 @@ export type VaccineScheduleSumOrderByAggregateInput = {
   minimumInterval?: Prisma.SortOrder
   ageInDaysMin?: Prisma.SortOrder
   ageInDaysMax?: Prisma.SortOrder
+  scheduleSetId?: Prisma.SortOrder
 }
 
+export type VaccineScheduleListRelationFilter = {
+  every?: Prisma.VaccineScheduleWhereInput
+  some?: Prisma.VaccineScheduleWhereInput
+  none?: Prisma.VaccineScheduleWhereInput
+}
+
+export type VaccineScheduleOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type VaccineScheduleScalarRelationFilter = {
+  is?: Prisma.VaccineScheduleWhereInput
+  isNot?: Prisma.VaccineScheduleWhereInput
+}
+
+export type VaccineScheduleCreateNestedManyWithoutScheduleSetInput = {
+  create?: Prisma.XOR<Prisma.VaccineScheduleCreateWithoutScheduleSetInput, Prisma.VaccineScheduleUncheckedCreateWithoutScheduleSetInput> | Prisma.VaccineScheduleCreateWithoutScheduleSetInput[] | Prisma.VaccineScheduleUncheckedCreateWithoutScheduleSetInput[]
+  connectOrCreate?: Prisma.VaccineScheduleCreateOrConnectWithoutScheduleSetInput | Prisma.VaccineScheduleCreateOrConnectWithoutScheduleSetInput[]
+  createMany?: Prisma.VaccineScheduleCreateManyScheduleSetInputEnvelope
+  connect?: Prisma.VaccineScheduleWhereUniqueInput | Prisma.VaccineScheduleWhereUniqueInput[]
+}
+
+export type VaccineScheduleUncheckedCreateNestedManyWithoutScheduleSetInput = {
+  create?: Prisma.XOR<Prisma.VaccineScheduleCreateWithoutScheduleSetInput, Prisma.VaccineScheduleUncheckedCreateWithoutScheduleSetInput> | Prisma.VaccineScheduleCreateWithoutScheduleSetInput[] | Prisma.VaccineScheduleUncheckedCreateWithoutScheduleSetInput[]
+  connectOrCreate?: Prisma.VaccineScheduleCreateOrConnectWithoutScheduleSetInput | Prisma.VaccineScheduleCreateOrConnectWithoutScheduleSetInput[]
+  createMany?: Prisma.VaccineScheduleCreateManyScheduleSetInputEnvelope
+  connect?: Prisma.VaccineScheduleWhereUniqueInput | Prisma.VaccineScheduleWhereUniqueInput[]
+}
+
+export type VaccineScheduleUpdateManyWithoutScheduleSetNestedInput = {
+  create?: Prisma.XOR<Prisma.VaccineScheduleCreateWithoutScheduleSetInput, Prisma.VaccineScheduleUncheckedCreateWithoutScheduleSetInput> | Prisma.VaccineScheduleCreateWithoutScheduleSetInput[] | Prisma.VaccineScheduleUncheckedCreateWithoutScheduleSetInput[]
+  connectOrCreate?: Prisma.VaccineScheduleCreateOrConnectWithoutScheduleSetInput | Prisma.VaccineScheduleCreateOrConnectWithoutScheduleSetInput[]
+  upsert?: Prisma.VaccineScheduleUpsertWithWhereUniqueWithoutScheduleSetInput | Prisma.VaccineScheduleUpsertWithWhereUniqueWithoutScheduleSetInput[]
+  createMany?: Prisma.VaccineScheduleCreateManyScheduleSetInputEnvelope
+  set?: Prisma.VaccineScheduleWhereUniqueInput | Prisma.VaccineScheduleWhereUniqueInput[]
+  disconnect?: Prisma.VaccineScheduleWhereUniqueInput | Prisma.VaccineScheduleWhereUniqueInput[]
+  delete?: Prisma.VaccineScheduleWhereUniqueInput | Prisma.VaccineScheduleWhereUniqueInput[]
+  connect?: Prisma.VaccineScheduleWhereUniqueInput | Prisma.VaccineScheduleWhereUniqueInput[]
+  update?: Prisma.VaccineScheduleUpdateWithWhereUniqueWithoutScheduleSetInput | Prisma.VaccineScheduleUpdateWithWhereUniqueWithoutScheduleSetInput[]
+  updateMany?: Prisma.VaccineScheduleUpdateManyWithWhereWithoutScheduleSetInput | Prisma.VaccineScheduleUpdateManyWithWhereWithoutScheduleSetInput[]
+  deleteMany?: Prisma.VaccineScheduleScalarWhereInput | Prisma.VaccineScheduleScalarWhereInput[]
+}
+
+export type VaccineScheduleUncheckedUpdateManyWithoutScheduleSetNestedInput = {
+  create?: Prisma.XOR<Prisma.VaccineScheduleCreateWithoutScheduleSetInput, Prisma.VaccineScheduleUncheckedCreateWithoutScheduleSetInput> | Prisma.VaccineScheduleCreateWithoutScheduleSetInput[] | Prisma.VaccineScheduleUncheckedCreateWithoutScheduleSetInput[]
+  connectOrCreate?: Prisma.VaccineScheduleCreateOrConnectWithoutScheduleSetInput | Prisma.VaccineScheduleCreateOrConnectWithoutScheduleSetInput[]
+  upsert?: Prisma.VaccineScheduleUpsertWithWhereUniqueWithoutScheduleSetInput | Prisma.VaccineScheduleUpsertWithWhereUniqueWithoutScheduleSetInput[]
+  createMany?: Prisma.VaccineScheduleCreateManyScheduleSetInputEnvelope
+  set?: Prisma.VaccineScheduleWhereUniqueInput | Prisma.VaccineScheduleWhereUniqueInput[]
+  disconnect?: Prisma.VaccineScheduleWhereUniqueInput | Prisma.VaccineScheduleWhereUniqueInput[]
+  delete?: Prisma.VaccineScheduleWhereUniqueInput | Prisma.VaccineScheduleWhereUniqueInput[]
+  connect?: Prisma.VaccineScheduleWhereUniqueInput | Prisma.VaccineScheduleWhereUniqueInput[]
+  update?: Prisma.VaccineScheduleUpdateWithWhereUniqueWithoutScheduleSetInput | Prisma.VaccineScheduleUpdateWithWhereUniqueWithoutScheduleSetInput[]
+  updateMany?: Prisma.VaccineScheduleUpdateManyWithWhereWithoutScheduleSetInput | Prisma.VaccineScheduleUpdateManyWithWhereWithoutScheduleSetInput[]
+  deleteMany?: Prisma.VaccineScheduleScalarWhereInput | Prisma.VaccineScheduleScalarWhereInput[]
+}
+
+export type VaccineScheduleCreateNestedOneWithoutDosesInput = {
+  create?: Prisma.XOR<Prisma.VaccineScheduleCreateWithoutDosesInput, Prisma.VaccineScheduleUncheckedCreateWithoutDosesInput>
+  connectOrCreate?: Prisma.VaccineScheduleCreateOrConnectWithoutDosesInput
+  connect?: Prisma.VaccineScheduleWhereUniqueInput
+}
+
+export type VaccineScheduleUpdateOneRequiredWithoutDosesNestedInput = {
+  create?: Prisma.XOR<Prisma.VaccineScheduleCreateWithoutDosesInput, Prisma.VaccineScheduleUncheckedCreateWithoutDosesInput>
+  connectOrCreate?: Prisma.VaccineScheduleCreateOrConnectWithoutDosesInput
+  upsert?: Prisma.VaccineScheduleUpsertWithoutDosesInput
+  connect?: Prisma.VaccineScheduleWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.VaccineScheduleUpdateToOneWithWhereWithoutDosesInput, Prisma.VaccineScheduleUpdateWithoutDosesInput>, Prisma.VaccineScheduleUncheckedUpdateWithoutDosesInput>
+}
+
+export type VaccineScheduleCreateWithoutScheduleSetInput = {
+  vaccineName: string
+  recommendedAge: string
+  dosesRequired: number
+  minimumInterval?: number | null
+  isMandatory?: boolean
+  description?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  ageInDaysMin?: number | null
+  ageInDaysMax?: number | null
+  doses?: Prisma.VaccineScheduleDoseCreateNestedManyWithoutScheduleInput
+}
+
+export type VaccineScheduleUncheckedCreateWithoutScheduleSetInput = {
+  id?: number
+  vaccineName: string
+  recommendedAge: string
+  dosesRequired: number
+  minimumInterval?: number | null
+  isMandatory?: boolean
+  description?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  ageInDaysMin?: number | null
+  ageInDaysMax?: number | null
+  doses?: Prisma.VaccineScheduleDoseUncheckedCreateNestedManyWithoutScheduleInput
+}
+
+export type VaccineScheduleCreateOrConnectWithoutScheduleSetInput = {
+  where: Prisma.VaccineScheduleWhereUniqueInput
+  create: Prisma.XOR<Prisma.VaccineScheduleCreateWithoutScheduleSetInput, Prisma.VaccineScheduleUncheckedCreateWithoutScheduleSetInput>
+}
+
+export type VaccineScheduleCreateManyScheduleSetInputEnvelope = {
+  data: Prisma.VaccineScheduleCreateManyScheduleSetInput | Prisma.VaccineScheduleCreateManyScheduleSetInput[]
+  skipDuplicates?: boolean
+}
+
+export type VaccineScheduleUpsertWithWhereUniqueWithoutScheduleSetInput = {
+  where: Prisma.VaccineScheduleWhereUniqueInput
+  update: Prisma.XOR<Prisma.VaccineScheduleUpdateWithoutScheduleSetInput, Prisma.VaccineScheduleUncheckedUpdateWithoutScheduleSetInput>
+  create: Prisma.XOR<Prisma.VaccineScheduleCreateWithoutScheduleSetInput, Prisma.VaccineScheduleUncheckedCreateWithoutScheduleSetInput>
+}
+
+export type VaccineScheduleUpdateWithWhereUniqueWithoutScheduleSetInput = {
+  where: Prisma.VaccineScheduleWhereUniqueInput
+  data: Prisma.XOR<Prisma.VaccineScheduleUpdateWithoutScheduleSetInput, Prisma.VaccineScheduleUncheckedUpdateWithoutScheduleSetInput>
+}
+
+export type VaccineScheduleUpdateManyWithWhereWithoutScheduleSetInput = {
+  where: Prisma.VaccineScheduleScalarWhereInput
+  data: Prisma.XOR<Prisma.VaccineScheduleUpdateManyMutationInput, Prisma.VaccineScheduleUncheckedUpdateManyWithoutScheduleSetInput>
+}
+
+export type VaccineScheduleScalarWhereInput = {
+  AND?: Prisma.VaccineScheduleScalarWhereInput | Prisma.VaccineScheduleScalarWhereInput[]
+  OR?: Prisma.VaccineScheduleScalarWhereInput[]
+  NOT?: Prisma.VaccineScheduleScalarWhereInput | Prisma.VaccineScheduleScalarWhereInput[]
+  id?: Prisma.IntFilter<"VaccineSchedule"> | number
+  vaccineName?: Prisma.StringFilter<"VaccineSchedule"> | string
+  recommendedAge?: Prisma.StringFilter<"VaccineSchedule"> | string
+  dosesRequired?: Prisma.IntFilter<"VaccineSchedule"> | number
+  minimumInterval?: Prisma.IntNullableFilter<"VaccineSchedule"> | number | null
+  isMandatory?: Prisma.BoolFilter<"VaccineSchedule"> | boolean
+  description?: Prisma.StringNullableFilter<"VaccineSchedule"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"VaccineSchedule"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"VaccineSchedule"> | Date | string
+  ageInDaysMin?: Prisma.IntNullableFilter<"VaccineSchedule"> | number | null
+  ageInDaysMax?: Prisma.IntNullableFilter<"VaccineSchedule"> | number | null
+  scheduleSetId?: Prisma.IntFilter<"VaccineSchedule"> | number
+}
+
+export type VaccineScheduleCreateWithoutDosesInput = {
+  vaccineName: string
+  recommendedAge: string
+  dosesRequired: number
+  minimumInterval?: number | null
+  isMandatory?: boolean
+  description?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  ageInDaysMin?: number | null
+  ageInDaysMax?: number | null
+  scheduleSet: Prisma.VaccineScheduleSetCreateNestedOneWithoutVaccinesInput
+}
+
+export type VaccineScheduleUncheckedCreateWithoutDosesInput = {
+  id?: number
+  vaccineName: string
+  recommendedAge: string
+  dosesRequired: number
+  minimumInterval?: number | null
+  isMandatory?: boolean
+  description?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  ageInDaysMin?: number | null
+  ageInDaysMax?: number | null
+  scheduleSetId: number
+}
+
+export type VaccineScheduleCreateOrConnectWithoutDosesInput = {
+  where: Prisma.VaccineScheduleWhereUniqueInput
+  create: Prisma.XOR<Prisma.VaccineScheduleCreateWithoutDosesInput, Prisma.VaccineScheduleUncheckedCreateWithoutDosesInput>
+}
+
+export type VaccineScheduleUpsertWithoutDosesInput = {
+  update: Prisma.XOR<Prisma.VaccineScheduleUpdateWithoutDosesInput, Prisma.VaccineScheduleUncheckedUpdateWithoutDosesInput>
+  create: Prisma.XOR<Prisma.VaccineScheduleCreateWithoutDosesInput, Prisma.VaccineScheduleUncheckedCreateWithoutDosesInput>
+  where?: Prisma.VaccineScheduleWhereInput
+}
+
+export type VaccineScheduleUpdateToOneWithWhereWithoutDosesInput = {
+  where?: Prisma.VaccineScheduleWhereInput
+  data: Prisma.XOR<Prisma.VaccineScheduleUpdateWithoutDosesInput, Prisma.VaccineScheduleUncheckedUpdateWithoutDosesInput>
+}
+
+export type VaccineScheduleUpdateWithoutDosesInput = {
+  vaccineName?: Prisma.StringFieldUpdateOperationsInput | string
+  recommendedAge?: Prisma.StringFieldUpdateOperationsInput | string
+  dosesRequired?: Prisma.IntFieldUpdateOperationsInput | number
+  minimumInterval?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isMandatory?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ageInDaysMin?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  ageInDaysMax?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  scheduleSet?: Prisma.VaccineScheduleSetUpdateOneRequiredWithoutVaccinesNestedInput
+}
+
+export type VaccineScheduleUncheckedUpdateWithoutDosesInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  vaccineName?: Prisma.StringFieldUpdateOperationsInput | string
+  recommendedAge?: Prisma.StringFieldUpdateOperationsInput | string
+  dosesRequired?: Prisma.IntFieldUpdateOperationsInput | number
+  minimumInterval?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isMandatory?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ageInDaysMin?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  ageInDaysMax?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  scheduleSetId?: Prisma.IntFieldUpdateOperationsInput | number
+}
+
+export type VaccineScheduleCreateManyScheduleSetInput = {
+  id?: number
+  vaccineName: string
+  recommendedAge: string
+  dosesRequired: number
+  minimumInterval?: number | null
+  isMandatory?: boolean
+  description?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  ageInDaysMin?: number | null
+  ageInDaysMax?: number | null
+}
+
+export type VaccineScheduleUpdateWithoutScheduleSetInput = {
+  vaccineName?: Prisma.StringFieldUpdateOperationsInput | string
+  recommendedAge?: Prisma.StringFieldUpdateOperationsInput | string
+  dosesRequired?: Prisma.IntFieldUpdateOperationsInput | number
+  minimumInterval?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isMandatory?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ageInDaysMin?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  ageInDaysMax?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  doses?: Prisma.VaccineScheduleDoseUpdateManyWithoutScheduleNestedInput
+}
+
+export type VaccineScheduleUncheckedUpdateWithoutScheduleSetInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  vaccineName?: Prisma.StringFieldUpdateOperationsInput | string
+  recommendedAge?: Prisma.StringFieldUpdateOperationsInput | string
+  dosesRequired?: Prisma.IntFieldUpdateOperationsInput | number
+  minimumInterval?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isMandatory?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ageInDaysMin?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  ageInDaysMax?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  doses?: Prisma.VaccineScheduleDoseUncheckedUpdateManyWithoutScheduleNestedInput
+}
+
+export type VaccineScheduleUncheckedUpdateManyWithoutScheduleSetInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  vaccineName?: Prisma.StringFieldUpdateOperationsInput | string
+  recommendedAge?: Prisma.StringFieldUpdateOperationsInput | string
+  dosesRequired?: Prisma.IntFieldUpdateOperationsInput | number
+  minimumInterval?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  isMandatory?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  ageInDaysMin?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  ageInDaysMax?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+}
+
+
+/**
+ * Count Type VaccineScheduleCountOutputType
+ */
+
+export type VaccineScheduleCountOutputType = {
+  doses: number
+}
+
+export type VaccineScheduleCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  doses?: boolean | VaccineScheduleCountOutputTypeCountDosesArgs
+}
+
+/**
+ * VaccineScheduleCountOutputType without action
+ */
+export type VaccineScheduleCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleCountOutputType
+   */
+  select?: Prisma.VaccineScheduleCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * VaccineScheduleCountOutputType without action
+ */
+export type VaccineScheduleCountOutputTypeCountDosesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.VaccineScheduleDoseWhereInput
+}
 
 
 export type VaccineScheduleSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -522,6 +864,10 @@ export type VaccineScheduleSelect<ExtArgs extends runtime.Types.Extensions.Inter
   updatedAt?: boolean
   ageInDaysMin?: boolean
   ageInDaysMax?: boolean
+  scheduleSetId?: boolean
+  scheduleSet?: boolean | Prisma.VaccineScheduleSetDefaultArgs<ExtArgs>
+  doses?: boolean | Prisma.VaccineSchedule$dosesArgs<ExtArgs>
+  _count?: boolean | Prisma.VaccineScheduleCountOutputTypeDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["vaccineSchedule"]>
 
 export type VaccineScheduleSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -536,6 +882,8 @@ export type VaccineScheduleSelectCreateManyAndReturn<ExtArgs extends runtime.Typ
   updatedAt?: boolean
   ageInDaysMin?: boolean
   ageInDaysMax?: boolean
+  scheduleSetId?: boolean
+  scheduleSet?: boolean | Prisma.VaccineScheduleSetDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["vaccineSchedule"]>
 
 export type VaccineScheduleSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
@@ -550,6 +898,8 @@ export type VaccineScheduleSelectUpdateManyAndReturn<ExtArgs extends runtime.Typ
   updatedAt?: boolean
   ageInDaysMin?: boolean
   ageInDaysMax?: boolean
+  scheduleSetId?: boolean
+  scheduleSet?: boolean | Prisma.VaccineScheduleSetDefaultArgs<ExtArgs>
 }, ExtArgs["result"]["vaccineSchedule"]>
 
 export type VaccineScheduleSelectScalar = {
@@ -564,13 +914,28 @@ export type VaccineScheduleSelectScalar = {
   updatedAt?: boolean
   ageInDaysMin?: boolean
   ageInDaysMax?: boolean
+  scheduleSetId?: boolean
 }
 
-export type VaccineScheduleOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "vaccineName" | "recommendedAge" | "dosesRequired" | "minimumInterval" | "isMandatory" | "description" | "createdAt" | "updatedAt" | "ageInDaysMin" | "ageInDaysMax", ExtArgs["result"]["vaccineSchedule"]>
+export type VaccineScheduleOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "vaccineName" | "recommendedAge" | "dosesRequired" | "minimumInterval" | "isMandatory" | "description" | "createdAt" | "updatedAt" | "ageInDaysMin" | "ageInDaysMax" | "scheduleSetId", ExtArgs["result"]["vaccineSchedule"]>
+export type VaccineScheduleInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  scheduleSet?: boolean | Prisma.VaccineScheduleSetDefaultArgs<ExtArgs>
+  doses?: boolean | Prisma.VaccineSchedule$dosesArgs<ExtArgs>
+  _count?: boolean | Prisma.VaccineScheduleCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type VaccineScheduleIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  scheduleSet?: boolean | Prisma.VaccineScheduleSetDefaultArgs<ExtArgs>
+}
+export type VaccineScheduleIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  scheduleSet?: boolean | Prisma.VaccineScheduleSetDefaultArgs<ExtArgs>
+}
 
 export type $VaccineSchedulePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   name: "VaccineSchedule"
-  objects: {}
+  objects: {
+    scheduleSet: Prisma.$VaccineScheduleSetPayload<ExtArgs>
+    doses: Prisma.$VaccineScheduleDosePayload<ExtArgs>[]
+  }
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: number
     vaccineName: string
@@ -583,6 +948,7 @@ export type $VaccineSchedulePayload<ExtArgs extends runtime.Types.Extensions.Int
     updatedAt: Date
     ageInDaysMin: number | null
     ageInDaysMax: number | null
+    scheduleSetId: number
   }, ExtArgs["result"]["vaccineSchedule"]>
   composites: {}
 }
@@ -977,6 +1343,8 @@ readonly fields: VaccineScheduleFieldRefs;
  */
 export interface Prisma__VaccineScheduleClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
   readonly [Symbol.toStringTag]: "PrismaPromise"
+  scheduleSet<T extends Prisma.VaccineScheduleSetDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.VaccineScheduleSetDefaultArgs<ExtArgs>>): Prisma.Prisma__VaccineScheduleSetClient<runtime.Types.Result.GetResult<Prisma.$VaccineScheduleSetPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  doses<T extends Prisma.VaccineSchedule$dosesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.VaccineSchedule$dosesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$VaccineScheduleDosePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
   /**
    * Attaches callbacks for the resolution and/or rejection of the Promise.
    * @param onfulfilled The callback to execute when the Promise is resolved.
@@ -1017,6 +1385,7 @@ export interface VaccineScheduleFieldRefs {
   readonly updatedAt: Prisma.FieldRef<"VaccineSchedule", 'DateTime'>
   readonly ageInDaysMin: Prisma.FieldRef<"VaccineSchedule", 'Int'>
   readonly ageInDaysMax: Prisma.FieldRef<"VaccineSchedule", 'Int'>
+  readonly scheduleSetId: Prisma.FieldRef<"VaccineSchedule", 'Int'>
 }
     
 
@@ -1033,6 +1402,10 @@ export type VaccineScheduleFindUniqueArgs<ExtArgs extends runtime.Types.Extensio
    * Omit specific fields from the VaccineSchedule
    */
   omit?: Prisma.VaccineScheduleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleInclude<ExtArgs> | null
   /**
    * Filter, which VaccineSchedule to fetch.
    */
@@ -1052,6 +1425,10 @@ export type VaccineScheduleFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.E
    * Omit specific fields from the VaccineSchedule
    */
   omit?: Prisma.VaccineScheduleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleInclude<ExtArgs> | null
   /**
    * Filter, which VaccineSchedule to fetch.
    */
@@ -1071,6 +1448,10 @@ export type VaccineScheduleFindFirstArgs<ExtArgs extends runtime.Types.Extension
    * Omit specific fields from the VaccineSchedule
    */
   omit?: Prisma.VaccineScheduleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleInclude<ExtArgs> | null
   /**
    * Filter, which VaccineSchedule to fetch.
    */
@@ -1120,6 +1501,10 @@ export type VaccineScheduleFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Ex
    * Omit specific fields from the VaccineSchedule
    */
   omit?: Prisma.VaccineScheduleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleInclude<ExtArgs> | null
   /**
    * Filter, which VaccineSchedule to fetch.
    */
@@ -1169,6 +1554,10 @@ export type VaccineScheduleFindManyArgs<ExtArgs extends runtime.Types.Extensions
    * Omit specific fields from the VaccineSchedule
    */
   omit?: Prisma.VaccineScheduleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleInclude<ExtArgs> | null
   /**
    * Filter, which VaccineSchedules to fetch.
    */
@@ -1213,6 +1602,10 @@ export type VaccineScheduleCreateArgs<ExtArgs extends runtime.Types.Extensions.I
    * Omit specific fields from the VaccineSchedule
    */
   omit?: Prisma.VaccineScheduleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleInclude<ExtArgs> | null
   /**
    * The data needed to create a VaccineSchedule.
    */
@@ -1248,6 +1641,10 @@ export type VaccineScheduleCreateManyAndReturnArgs<ExtArgs extends runtime.Types
    */
   data: Prisma.VaccineScheduleCreateManyInput | Prisma.VaccineScheduleCreateManyInput[]
   skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleIncludeCreateManyAndReturn<ExtArgs> | null
 }
 
 /**
@@ -1262,6 +1659,10 @@ export type VaccineScheduleUpdateArgs<ExtArgs extends runtime.Types.Extensions.I
    * Omit specific fields from the VaccineSchedule
    */
   omit?: Prisma.VaccineScheduleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleInclude<ExtArgs> | null
   /**
    * The data needed to update a VaccineSchedule.
    */
@@ -1315,6 +1716,10 @@ export type VaccineScheduleUpdateManyAndReturnArgs<ExtArgs extends runtime.Types
    * Limit how many VaccineSchedules to update.
    */
   limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleIncludeUpdateManyAndReturn<ExtArgs> | null
 }
 
 /**
@@ -1329,6 +1734,10 @@ export type VaccineScheduleUpsertArgs<ExtArgs extends runtime.Types.Extensions.I
    * Omit specific fields from the VaccineSchedule
    */
   omit?: Prisma.VaccineScheduleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleInclude<ExtArgs> | null
   /**
    * The filter to search for the VaccineSchedule to update in case it exists.
    */
@@ -1356,6 +1765,10 @@ export type VaccineScheduleDeleteArgs<ExtArgs extends runtime.Types.Extensions.I
    * Omit specific fields from the VaccineSchedule
    */
   omit?: Prisma.VaccineScheduleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleInclude<ExtArgs> | null
   /**
    * Filter which VaccineSchedule to delete.
    */
@@ -1377,6 +1790,30 @@ export type VaccineScheduleDeleteManyArgs<ExtArgs extends runtime.Types.Extensio
   limit?: number
 }
 
+/**
+ * VaccineSchedule.doses
+ */
+export type VaccineSchedule$dosesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleDose
+   */
+  select?: Prisma.VaccineScheduleDoseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VaccineScheduleDose
+   */
+  omit?: Prisma.VaccineScheduleDoseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleDoseInclude<ExtArgs> | null
+  where?: Prisma.VaccineScheduleDoseWhereInput
+  orderBy?: Prisma.VaccineScheduleDoseOrderByWithRelationInput | Prisma.VaccineScheduleDoseOrderByWithRelationInput[]
+  cursor?: Prisma.VaccineScheduleDoseWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.VaccineScheduleDoseScalarFieldEnum | Prisma.VaccineScheduleDoseScalarFieldEnum[]
+}
+
 /**
  * VaccineSchedule without action
  */
@@ -1389,4 +1826,8 @@ export type VaccineScheduleDefaultArgs<ExtArgs extends runtime.Types.Extensions.
    * Omit specific fields from the VaccineSchedule
    */
   omit?: Prisma.VaccineScheduleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleInclude<ExtArgs> | null
 }
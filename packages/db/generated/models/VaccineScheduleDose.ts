@@ -0,0 +1,1570 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `VaccineScheduleDose` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model VaccineScheduleDose
+ * 
+ */
+export type VaccineScheduleDoseModel = runtime.Types.Result.DefaultSelection<Prisma.$VaccineScheduleDosePayload>
+
+export type AggregateVaccineScheduleDose = {
+  _count: VaccineScheduleDoseCountAggregateOutputType | null
+  _avg: VaccineScheduleDoseAvgAggregateOutputType | null
+  _sum: VaccineScheduleDoseSumAggregateOutputType | null
+  _min: VaccineScheduleDoseMinAggregateOutputType | null
+  _max: VaccineScheduleDoseMaxAggregateOutputType | null
+}
+
+export type VaccineScheduleDoseAvgAggregateOutputType = {
+  id: number | null
+  scheduleId: number | null
+  doseNumber: number | null
+  minimumAgeDays: number | null
+  recommendedAgeDays: number | null
+  maximumAgeDays: number | null
+  minimumIntervalDays: number | null
+}
+
+export type VaccineScheduleDoseSumAggregateOutputType = {
+  id: number | null
+  scheduleId: number | null
+  doseNumber: number | null
+  minimumAgeDays: number | null
+  recommendedAgeDays: number | null
+  maximumAgeDays: number | null
+  minimumIntervalDays: number | null
+}
+
+export type VaccineScheduleDoseMinAggregateOutputType = {
+  id: number | null
+  scheduleId: number | null
+  doseNumber: number | null
+  minimumAgeDays: number | null
+  recommendedAgeDays: number | null
+  maximumAgeDays: number | null
+  minimumIntervalDays: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type VaccineScheduleDoseMaxAggregateOutputType = {
+  id: number | null
+  scheduleId: number | null
+  doseNumber: number | null
+  minimumAgeDays: number | null
+  recommendedAgeDays: number | null
+  maximumAgeDays: number | null
+  minimumIntervalDays: number | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type VaccineScheduleDoseCountAggregateOutputType = {
+  id: number
+  scheduleId: number
+  doseNumber: number
+  minimumAgeDays: number
+  recommendedAgeDays: number
+  maximumAgeDays: number
+  minimumIntervalDays: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type VaccineScheduleDoseAvgAggregateInputType = {
+  id?: true
+  scheduleId?: true
+  doseNumber?: true
+  minimumAgeDays?: true
+  recommendedAgeDays?: true
+  maximumAgeDays?: true
+  minimumIntervalDays?: true
+}
+
+export type VaccineScheduleDoseSumAggregateInputType = {
+  id?: true
+  scheduleId?: true
+  doseNumber?: true
+  minimumAgeDays?: true
+  recommendedAgeDays?: true
+  maximumAgeDays?: true
+  minimumIntervalDays?: true
+}
+
+export type VaccineScheduleDoseMinAggregateInputType = {
+  id?: true
+  scheduleId?: true
+  doseNumber?: true
+  minimumAgeDays?: true
+  recommendedAgeDays?: true
+  maximumAgeDays?: true
+  minimumIntervalDays?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type VaccineScheduleDoseMaxAggregateInputType = {
+  id?: true
+  scheduleId?: true
+  doseNumber?: true
+  minimumAgeDays?: true
+  recommendedAgeDays?: true
+  maximumAgeDays?: true
+  minimumIntervalDays?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type VaccineScheduleDoseCountAggregateInputType = {
+  id?: true
+  scheduleId?: true
+  doseNumber?: true
+  minimumAgeDays?: true
+  recommendedAgeDays?: true
+  maximumAgeDays?: true
+  minimumIntervalDays?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type VaccineScheduleDoseAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which VaccineScheduleDose to aggregate.
+   */
+  where?: Prisma.VaccineScheduleDoseWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of VaccineScheduleDoses to fetch.
+   */
+  orderBy?: Prisma.VaccineScheduleDoseOrderByWithRelationInput | Prisma.VaccineScheduleDoseOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.VaccineScheduleDoseWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` VaccineScheduleDoses from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` VaccineScheduleDoses.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned VaccineScheduleDoses
+  **/
+  _count?: true | VaccineScheduleDoseCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: VaccineScheduleDoseAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: VaccineScheduleDoseSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: VaccineScheduleDoseMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: VaccineScheduleDoseMaxAggregateInputType
+}
+
+export type GetVaccineScheduleDoseAggregateType<T extends VaccineScheduleDoseAggregateArgs> = {
+      [P in keyof T & keyof AggregateVaccineScheduleDose]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateVaccineScheduleDose[P]>
+    : Prisma.GetScalarType<T[P], AggregateVaccineScheduleDose[P]>
+}
+
+
+
+
+export type VaccineScheduleDoseGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.VaccineScheduleDoseWhereInput
+  orderBy?: Prisma.VaccineScheduleDoseOrderByWithAggregationInput | Prisma.VaccineScheduleDoseOrderByWithAggregationInput[]
+  by: Prisma.VaccineScheduleDoseScalarFieldEnum[] | Prisma.VaccineScheduleDoseScalarFieldEnum
+  having?: Prisma.VaccineScheduleDoseScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: VaccineScheduleDoseCountAggregateInputType | true
+  _avg?: VaccineScheduleDoseAvgAggregateInputType
+  _sum?: VaccineScheduleDoseSumAggregateInputType
+  _min?: VaccineScheduleDoseMinAggregateInputType
+  _max?: VaccineScheduleDoseMaxAggregateInputType
+}
+
+export type VaccineScheduleDoseGroupByOutputType = {
+  id: number
+  scheduleId: number
+  doseNumber: number
+  minimumAgeDays: number
+  recommendedAgeDays: number
+  maximumAgeDays: number | null
+  minimumIntervalDays: number | null
+  createdAt: Date
+  updatedAt: Date
+  _count: VaccineScheduleDoseCountAggregateOutputType | null
+  _avg: VaccineScheduleDoseAvgAggregateOutputType | null
+  _sum: VaccineScheduleDoseSumAggregateOutputType | null
+  _min: VaccineScheduleDoseMinAggregateOutputType | null
+  _max: VaccineScheduleDoseMaxAggregateOutputType | null
+}
+
+type GetVaccineScheduleDoseGroupByPayload<T extends VaccineScheduleDoseGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<VaccineScheduleDoseGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof VaccineScheduleDoseGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], VaccineScheduleDoseGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], VaccineScheduleDoseGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type VaccineScheduleDoseWhereInput = {
+  AND?: Prisma.VaccineScheduleDoseWhereInput | Prisma.VaccineScheduleDoseWhereInput[]
+  OR?: Prisma.VaccineScheduleDoseWhereInput[]
+  NOT?: Prisma.VaccineScheduleDoseWhereInput | Prisma.VaccineScheduleDoseWhereInput[]
+  id?: Prisma.IntFilter<"VaccineScheduleDose"> | number
+  scheduleId?: Prisma.IntFilter<"VaccineScheduleDose"> | number
+  doseNumber?: Prisma.IntFilter<"VaccineScheduleDose"> | number
+  minimumAgeDays?: Prisma.IntFilter<"VaccineScheduleDose"> | number
+  recommendedAgeDays?: Prisma.IntFilter<"VaccineScheduleDose"> | number
+  maximumAgeDays?: Prisma.IntNullableFilter<"VaccineScheduleDose"> | number | null
+  minimumIntervalDays?: Prisma.IntNullableFilter<"VaccineScheduleDose"> | number | null
+  createdAt?: Prisma.DateTimeFilter<"VaccineScheduleDose"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"VaccineScheduleDose"> | Date | string
+  schedule?: Prisma.XOR<Prisma.VaccineScheduleScalarRelationFilter, Prisma.VaccineScheduleWhereInput>
+}
+
+export type VaccineScheduleDoseOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  scheduleId?: Prisma.SortOrder
+  doseNumber?: Prisma.SortOrder
+  minimumAgeDays?: Prisma.SortOrder
+  recommendedAgeDays?: Prisma.SortOrder
+  maximumAgeDays?: Prisma.SortOrderInput | Prisma.SortOrder
+  minimumIntervalDays?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  schedule?: Prisma.VaccineScheduleOrderByWithRelationInput
+}
+
+export type VaccineScheduleDoseWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  scheduleId_doseNumber?: Prisma.VaccineScheduleDoseScheduleIdDoseNumberCompoundUniqueInput
+  AND?: Prisma.VaccineScheduleDoseWhereInput | Prisma.VaccineScheduleDoseWhereInput[]
+  OR?: Prisma.VaccineScheduleDoseWhereInput[]
+  NOT?: Prisma.VaccineScheduleDoseWhereInput | Prisma.VaccineScheduleDoseWhereInput[]
+  scheduleId?: Prisma.IntFilter<"VaccineScheduleDose"> | number
+  doseNumber?: Prisma.IntFilter<"VaccineScheduleDose"> | number
+  minimumAgeDays?: Prisma.IntFilter<"VaccineScheduleDose"> | number
+  recommendedAgeDays?: Prisma.IntFilter<"VaccineScheduleDose"> | number
+  maximumAgeDays?: Prisma.IntNullableFilter<"VaccineScheduleDose"> | number | null
+  minimumIntervalDays?: Prisma.IntNullableFilter<"VaccineScheduleDose"> | number | null
+  createdAt?: Prisma.DateTimeFilter<"VaccineScheduleDose"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"VaccineScheduleDose"> | Date | string
+  schedule?: Prisma.XOR<Prisma.VaccineScheduleScalarRelationFilter, Prisma.VaccineScheduleWhereInput>
+}, "id" | "scheduleId_doseNumber">
+
+export type VaccineScheduleDoseOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  scheduleId?: Prisma.SortOrder
+  doseNumber?: Prisma.SortOrder
+  minimumAgeDays?: Prisma.SortOrder
+  recommendedAgeDays?: Prisma.SortOrder
+  maximumAgeDays?: Prisma.SortOrderInput | Prisma.SortOrder
+  minimumIntervalDays?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.VaccineScheduleDoseCountOrderByAggregateInput
+  _avg?: Prisma.VaccineScheduleDoseAvgOrderByAggregateInput
+  _max?: Prisma.VaccineScheduleDoseMaxOrderByAggregateInput
+  _min?: Prisma.VaccineScheduleDoseMinOrderByAggregateInput
+  _sum?: Prisma.VaccineScheduleDoseSumOrderByAggregateInput
+}
+
+export type VaccineScheduleDoseScalarWhereWithAggregatesInput = {
+  AND?: Prisma.VaccineScheduleDoseScalarWhereWithAggregatesInput | Prisma.VaccineScheduleDoseScalarWhereWithAggregatesInput[]
+  OR?: Prisma.VaccineScheduleDoseScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.VaccineScheduleDoseScalarWhereWithAggregatesInput | Prisma.VaccineScheduleDoseScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"VaccineScheduleDose"> | number
+  scheduleId?: Prisma.IntWithAggregatesFilter<"VaccineScheduleDose"> | number
+  doseNumber?: Prisma.IntWithAggregatesFilter<"VaccineScheduleDose"> | number
+  minimumAgeDays?: Prisma.IntWithAggregatesFilter<"VaccineScheduleDose"> | number
+  recommendedAgeDays?: Prisma.IntWithAggregatesFilter<"VaccineScheduleDose"> | number
+  maximumAgeDays?: Prisma.IntNullableWithAggregatesFilter<"VaccineScheduleDose"> | number | null
+  minimumIntervalDays?: Prisma.IntNullableWithAggregatesFilter<"VaccineScheduleDose"> | number | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"VaccineScheduleDose"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"VaccineScheduleDose"> | Date | string
+}
+
+export type VaccineScheduleDoseCreateInput = {
+  doseNumber: number
+  minimumAgeDays: number
+  recommendedAgeDays: number
+  maximumAgeDays?: number | null
+  minimumIntervalDays?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  schedule: Prisma.VaccineScheduleCreateNestedOneWithoutDosesInput
+}
+
+export type VaccineScheduleDoseUncheckedCreateInput = {
+  id?: number
+  scheduleId: number
+  doseNumber: number
+  minimumAgeDays: number
+  recommendedAgeDays: number
+  maximumAgeDays?: number | null
+  minimumIntervalDays?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type VaccineScheduleDoseUpdateInput = {
+  doseNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  minimumAgeDays?: Prisma.IntFieldUpdateOperationsInput | number
+  recommendedAgeDays?: Prisma.IntFieldUpdateOperationsInput | number
+  maximumAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  minimumIntervalDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  schedule?: Prisma.VaccineScheduleUpdateOneRequiredWithoutDosesNestedInput
+}
+
+export type VaccineScheduleDoseUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  scheduleId?: Prisma.IntFieldUpdateOperationsInput | number
+  doseNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  minimumAgeDays?: Prisma.IntFieldUpdateOperationsInput | number
+  recommendedAgeDays?: Prisma.IntFieldUpdateOperationsInput | number
+  maximumAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  minimumIntervalDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type VaccineScheduleDoseCreateManyInput = {
+  id?: number
+  scheduleId: number
+  doseNumber: number
+  minimumAgeDays: number
+  recommendedAgeDays: number
+  maximumAgeDays?: number | null
+  minimumIntervalDays?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type VaccineScheduleDoseUpdateManyMutationInput = {
+  doseNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  minimumAgeDays?: Prisma.IntFieldUpdateOperationsInput | number
+  recommendedAgeDays?: Prisma.IntFieldUpdateOperationsInput | number
+  maximumAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  minimumIntervalDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type VaccineScheduleDoseUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  scheduleId?: Prisma.IntFieldUpdateOperationsInput | number
+  doseNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  minimumAgeDays?: Prisma.IntFieldUpdateOperationsInput | number
+  recommendedAgeDays?: Prisma.IntFieldUpdateOperationsInput | number
+  maximumAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  minimumIntervalDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type VaccineScheduleDoseListRelationFilter = {
+  every?: Prisma.VaccineScheduleDoseWhereInput
+  some?: Prisma.VaccineScheduleDoseWhereInput
+  none?: Prisma.VaccineScheduleDoseWhereInput
+}
+
+export type VaccineScheduleDoseOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type VaccineScheduleDoseScheduleIdDoseNumberCompoundUniqueInput = {
+  scheduleId: number
+  doseNumber: number
+}
+
+export type VaccineScheduleDoseCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  scheduleId?: Prisma.SortOrder
+  doseNumber?: Prisma.SortOrder
+  minimumAgeDays?: Prisma.SortOrder
+  recommendedAgeDays?: Prisma.SortOrder
+  maximumAgeDays?: Prisma.SortOrder
+  minimumIntervalDays?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type VaccineScheduleDoseAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  scheduleId?: Prisma.SortOrder
+  doseNumber?: Prisma.SortOrder
+  minimumAgeDays?: Prisma.SortOrder
+  recommendedAgeDays?: Prisma.SortOrder
+  maximumAgeDays?: Prisma.SortOrder
+  minimumIntervalDays?: Prisma.SortOrder
+}
+
+export type VaccineScheduleDoseMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  scheduleId?: Prisma.SortOrder
+  doseNumber?: Prisma.SortOrder
+  minimumAgeDays?: Prisma.SortOrder
+  recommendedAgeDays?: Prisma.SortOrder
+  maximumAgeDays?: Prisma.SortOrder
+  minimumIntervalDays?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type VaccineScheduleDoseMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  scheduleId?: Prisma.SortOrder
+  doseNumber?: Prisma.SortOrder
+  minimumAgeDays?: Prisma.SortOrder
+  recommendedAgeDays?: Prisma.SortOrder
+  maximumAgeDays?: Prisma.SortOrder
+  minimumIntervalDays?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type VaccineScheduleDoseSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  scheduleId?: Prisma.SortOrder
+  doseNumber?: Prisma.SortOrder
+  minimumAgeDays?: Prisma.SortOrder
+  recommendedAgeDays?: Prisma.SortOrder
+  maximumAgeDays?: Prisma.SortOrder
+  minimumIntervalDays?: Prisma.SortOrder
+}
+
+export type VaccineScheduleDoseCreateNestedManyWithoutScheduleInput = {
+  create?: Prisma.XOR<Prisma.VaccineScheduleDoseCreateWithoutScheduleInput, Prisma.VaccineScheduleDoseUncheckedCreateWithoutScheduleInput> | Prisma.VaccineScheduleDoseCreateWithoutScheduleInput[] | Prisma.VaccineScheduleDoseUncheckedCreateWithoutScheduleInput[]
+  connectOrCreate?: Prisma.VaccineScheduleDoseCreateOrConnectWithoutScheduleInput | Prisma.VaccineScheduleDoseCreateOrConnectWithoutScheduleInput[]
+  createMany?: Prisma.VaccineScheduleDoseCreateManyScheduleInputEnvelope
+  connect?: Prisma.VaccineScheduleDoseWhereUniqueInput | Prisma.VaccineScheduleDoseWhereUniqueInput[]
+}
+
+export type VaccineScheduleDoseUncheckedCreateNestedManyWithoutScheduleInput = {
+  create?: Prisma.XOR<Prisma.VaccineScheduleDoseCreateWithoutScheduleInput, Prisma.VaccineScheduleDoseUncheckedCreateWithoutScheduleInput> | Prisma.VaccineScheduleDoseCreateWithoutScheduleInput[] | Prisma.VaccineScheduleDoseUncheckedCreateWithoutScheduleInput[]
+  connectOrCreate?: Prisma.VaccineScheduleDoseCreateOrConnectWithoutScheduleInput | Prisma.VaccineScheduleDoseCreateOrConnectWithoutScheduleInput[]
+  createMany?: Prisma.VaccineScheduleDoseCreateManyScheduleInputEnvelope
+  connect?: Prisma.VaccineScheduleDoseWhereUniqueInput | Prisma.VaccineScheduleDoseWhereUniqueInput[]
+}
+
+export type VaccineScheduleDoseUpdateManyWithoutScheduleNestedInput = {
+  create?: Prisma.XOR<Prisma.VaccineScheduleDoseCreateWithoutScheduleInput, Prisma.VaccineScheduleDoseUncheckedCreateWithoutScheduleInput> | Prisma.VaccineScheduleDoseCreateWithoutScheduleInput[] | Prisma.VaccineScheduleDoseUncheckedCreateWithoutScheduleInput[]
+  connectOrCreate?: Prisma.VaccineScheduleDoseCreateOrConnectWithoutScheduleInput | Prisma.VaccineScheduleDoseCreateOrConnectWithoutScheduleInput[]
+  upsert?: Prisma.VaccineScheduleDoseUpsertWithWhereUniqueWithoutScheduleInput | Prisma.VaccineScheduleDoseUpsertWithWhereUniqueWithoutScheduleInput[]
+  createMany?: Prisma.VaccineScheduleDoseCreateManyScheduleInputEnvelope
+  set?: Prisma.VaccineScheduleDoseWhereUniqueInput | Prisma.VaccineScheduleDoseWhereUniqueInput[]
+  disconnect?: Prisma.VaccineScheduleDoseWhereUniqueInput | Prisma.VaccineScheduleDoseWhereUniqueInput[]
+  delete?: Prisma.VaccineScheduleDoseWhereUniqueInput | Prisma.VaccineScheduleDoseWhereUniqueInput[]
+  connect?: Prisma.VaccineScheduleDoseWhereUniqueInput | Prisma.VaccineScheduleDoseWhereUniqueInput[]
+  update?: Prisma.VaccineScheduleDoseUpdateWithWhereUniqueWithoutScheduleInput | Prisma.VaccineScheduleDoseUpdateWithWhereUniqueWithoutScheduleInput[]
+  updateMany?: Prisma.VaccineScheduleDoseUpdateManyWithWhereWithoutScheduleInput | Prisma.VaccineScheduleDoseUpdateManyWithWhereWithoutScheduleInput[]
+  deleteMany?: Prisma.VaccineScheduleDoseScalarWhereInput | Prisma.VaccineScheduleDoseScalarWhereInput[]
+}
+
+export type VaccineScheduleDoseUncheckedUpdateManyWithoutScheduleNestedInput = {
+  create?: Prisma.XOR<Prisma.VaccineScheduleDoseCreateWithoutScheduleInput, Prisma.VaccineScheduleDoseUncheckedCreateWithoutScheduleInput> | Prisma.VaccineScheduleDoseCreateWithoutScheduleInput[] | Prisma.VaccineScheduleDoseUncheckedCreateWithoutScheduleInput[]
+  connectOrCreate?: Prisma.VaccineScheduleDoseCreateOrConnectWithoutScheduleInput | Prisma.VaccineScheduleDoseCreateOrConnectWithoutScheduleInput[]
+  upsert?: Prisma.VaccineScheduleDoseUpsertWithWhereUniqueWithoutScheduleInput | Prisma.VaccineScheduleDoseUpsertWithWhereUniqueWithoutScheduleInput[]
+  createMany?: Prisma.VaccineScheduleDoseCreateManyScheduleInputEnvelope
+  set?: Prisma.VaccineScheduleDoseWhereUniqueInput | Prisma.VaccineScheduleDoseWhereUniqueInput[]
+  disconnect?: Prisma.VaccineScheduleDoseWhereUniqueInput | Prisma.VaccineScheduleDoseWhereUniqueInput[]
+  delete?: Prisma.VaccineScheduleDoseWhereUniqueInput | Prisma.VaccineScheduleDoseWhereUniqueInput[]
+  connect?: Prisma.VaccineScheduleDoseWhereUniqueInput | Prisma.VaccineScheduleDoseWhereUniqueInput[]
+  update?: Prisma.VaccineScheduleDoseUpdateWithWhereUniqueWithoutScheduleInput | Prisma.VaccineScheduleDoseUpdateWithWhereUniqueWithoutScheduleInput[]
+  updateMany?: Prisma.VaccineScheduleDoseUpdateManyWithWhereWithoutScheduleInput | Prisma.VaccineScheduleDoseUpdateManyWithWhereWithoutScheduleInput[]
+  deleteMany?: Prisma.VaccineScheduleDoseScalarWhereInput | Prisma.VaccineScheduleDoseScalarWhereInput[]
+}
+
+export type VaccineScheduleDoseCreateWithoutScheduleInput = {
+  doseNumber: number
+  minimumAgeDays: number
+  recommendedAgeDays: number
+  maximumAgeDays?: number | null
+  minimumIntervalDays?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type VaccineScheduleDoseUncheckedCreateWithoutScheduleInput = {
+  id?: number
+  doseNumber: number
+  minimumAgeDays: number
+  recommendedAgeDays: number
+  maximumAgeDays?: number | null
+  minimumIntervalDays?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type VaccineScheduleDoseCreateOrConnectWithoutScheduleInput = {
+  where: Prisma.VaccineScheduleDoseWhereUniqueInput
+  create: Prisma.XOR<Prisma.VaccineScheduleDoseCreateWithoutScheduleInput, Prisma.VaccineScheduleDoseUncheckedCreateWithoutScheduleInput>
+}
+
+export type VaccineScheduleDoseCreateManyScheduleInputEnvelope = {
+  data: Prisma.VaccineScheduleDoseCreateManyScheduleInput | Prisma.VaccineScheduleDoseCreateManyScheduleInput[]
+  skipDuplicates?: boolean
+}
+
+export type VaccineScheduleDoseUpsertWithWhereUniqueWithoutScheduleInput = {
+  where: Prisma.VaccineScheduleDoseWhereUniqueInput
+  update: Prisma.XOR<Prisma.VaccineScheduleDoseUpdateWithoutScheduleInput, Prisma.VaccineScheduleDoseUncheckedUpdateWithoutScheduleInput>
+  create: Prisma.XOR<Prisma.VaccineScheduleDoseCreateWithoutScheduleInput, Prisma.VaccineScheduleDoseUncheckedCreateWithoutScheduleInput>
+}
+
+export type VaccineScheduleDoseUpdateWithWhereUniqueWithoutScheduleInput = {
+  where: Prisma.VaccineScheduleDoseWhereUniqueInput
+  data: Prisma.XOR<Prisma.VaccineScheduleDoseUpdateWithoutScheduleInput, Prisma.VaccineScheduleDoseUncheckedUpdateWithoutScheduleInput>
+}
+
+export type VaccineScheduleDoseUpdateManyWithWhereWithoutScheduleInput = {
+  where: Prisma.VaccineScheduleDoseScalarWhereInput
+  data: Prisma.XOR<Prisma.VaccineScheduleDoseUpdateManyMutationInput, Prisma.VaccineScheduleDoseUncheckedUpdateManyWithoutScheduleInput>
+}
+
+export type VaccineScheduleDoseScalarWhereInput = {
+  AND?: Prisma.VaccineScheduleDoseScalarWhereInput | Prisma.VaccineScheduleDoseScalarWhereInput[]
+  OR?: Prisma.VaccineScheduleDoseScalarWhereInput[]
+  NOT?: Prisma.VaccineScheduleDoseScalarWhereInput | Prisma.VaccineScheduleDoseScalarWhereInput[]
+  id?: Prisma.IntFilter<"VaccineScheduleDose"> | number
+  scheduleId?: Prisma.IntFilter<"VaccineScheduleDose"> | number
+  doseNumber?: Prisma.IntFilter<"VaccineScheduleDose"> | number
+  minimumAgeDays?: Prisma.IntFilter<"VaccineScheduleDose"> | number
+  recommendedAgeDays?: Prisma.IntFilter<"VaccineScheduleDose"> | number
+  maximumAgeDays?: Prisma.IntNullableFilter<"VaccineScheduleDose"> | number | null
+  minimumIntervalDays?: Prisma.IntNullableFilter<"VaccineScheduleDose"> | number | null
+  createdAt?: Prisma.DateTimeFilter<"VaccineScheduleDose"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"VaccineScheduleDose"> | Date | string
+}
+
+export type VaccineScheduleDoseCreateManyScheduleInput = {
+  id?: number
+  doseNumber: number
+  minimumAgeDays: number
+  recommendedAgeDays: number
+  maximumAgeDays?: number | null
+  minimumIntervalDays?: number | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type VaccineScheduleDoseUpdateWithoutScheduleInput = {
+  doseNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  minimumAgeDays?: Prisma.IntFieldUpdateOperationsInput | number
+  recommendedAgeDays?: Prisma.IntFieldUpdateOperationsInput | number
+  maximumAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  minimumIntervalDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type VaccineScheduleDoseUncheckedUpdateWithoutScheduleInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  doseNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  minimumAgeDays?: Prisma.IntFieldUpdateOperationsInput | number
+  recommendedAgeDays?: Prisma.IntFieldUpdateOperationsInput | number
+  maximumAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  minimumIntervalDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type VaccineScheduleDoseUncheckedUpdateManyWithoutScheduleInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  doseNumber?: Prisma.IntFieldUpdateOperationsInput | number
+  minimumAgeDays?: Prisma.IntFieldUpdateOperationsInput | number
+  recommendedAgeDays?: Prisma.IntFieldUpdateOperationsInput | number
+  maximumAgeDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  minimumIntervalDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type VaccineScheduleDoseSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  scheduleId?: boolean
+  doseNumber?: boolean
+  minimumAgeDays?: boolean
+  recommendedAgeDays?: boolean
+  maximumAgeDays?: boolean
+  minimumIntervalDays?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  schedule?: boolean | Prisma.VaccineScheduleDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["vaccineScheduleDose"]>
+
+export type VaccineScheduleDoseSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  scheduleId?: boolean
+  doseNumber?: boolean
+  minimumAgeDays?: boolean
+  recommendedAgeDays?: boolean
+  maximumAgeDays?: boolean
+  minimumIntervalDays?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  schedule?: boolean | Prisma.VaccineScheduleDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["vaccineScheduleDose"]>
+
+export type VaccineScheduleDoseSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  scheduleId?: boolean
+  doseNumber?: boolean
+  minimumAgeDays?: boolean
+  recommendedAgeDays?: boolean
+  maximumAgeDays?: boolean
+  minimumIntervalDays?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  schedule?: boolean | Prisma.VaccineScheduleDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["vaccineScheduleDose"]>
+
+export type VaccineScheduleDoseSelectScalar = {
+  id?: boolean
+  scheduleId?: boolean
+  doseNumber?: boolean
+  minimumAgeDays?: boolean
+  recommendedAgeDays?: boolean
+  maximumAgeDays?: boolean
+  minimumIntervalDays?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type VaccineScheduleDoseOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "scheduleId" | "doseNumber" | "minimumAgeDays" | "recommendedAgeDays" | "maximumAgeDays" | "minimumIntervalDays" | "createdAt" | "updatedAt", ExtArgs["result"]["vaccineScheduleDose"]>
+export type VaccineScheduleDoseInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  schedule?: boolean | Prisma.VaccineScheduleDefaultArgs<ExtArgs>
+}
+export type VaccineScheduleDoseIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  schedule?: boolean | Prisma.VaccineScheduleDefaultArgs<ExtArgs>
+}
+export type VaccineScheduleDoseIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  schedule?: boolean | Prisma.VaccineScheduleDefaultArgs<ExtArgs>
+}
+
+export type $VaccineScheduleDosePayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "VaccineScheduleDose"
+  objects: {
+    schedule: Prisma.$VaccineSchedulePayload<ExtArgs>
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    scheduleId: number
+    doseNumber: number
+    minimumAgeDays: number
+    recommendedAgeDays: number
+    maximumAgeDays: number | null
+    minimumIntervalDays: number | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["vaccineScheduleDose"]>
+  composites: {}
+}
+
+export type VaccineScheduleDoseGetPayload<S extends boolean | null | undefined | VaccineScheduleDoseDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$VaccineScheduleDosePayload, S>
+
+export type VaccineScheduleDoseCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<VaccineScheduleDoseFindManyArgs, 'select' | 'include' | 'distinct' | 'omit' | 'relationLoadStrategy'> & {
+    select?: VaccineScheduleDoseCountAggregateInputType | true
+  }
+
+export interface VaccineScheduleDoseDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['VaccineScheduleDose'], meta: { name: 'VaccineScheduleDose' } }
+  /**
+   * Find zero or one VaccineScheduleDose that matches the filter.
+   * @param {VaccineScheduleDoseFindUniqueArgs} args - Arguments to find a VaccineScheduleDose
+   * @example
+   * // Get one VaccineScheduleDose
+   * const vaccineScheduleDose = await prisma.vaccineScheduleDose.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends VaccineScheduleDoseFindUniqueArgs>(args: Prisma.SelectSubset<T, VaccineScheduleDoseFindUniqueArgs<ExtArgs>>): Prisma.Prisma__VaccineScheduleDoseClient<runtime.Types.Result.GetResult<Prisma.$VaccineScheduleDosePayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one VaccineScheduleDose that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {VaccineScheduleDoseFindUniqueOrThrowArgs} args - Arguments to find a VaccineScheduleDose
+   * @example
+   * // Get one VaccineScheduleDose
+   * const vaccineScheduleDose = await prisma.vaccineScheduleDose.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends VaccineScheduleDoseFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, VaccineScheduleDoseFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__VaccineScheduleDoseClient<runtime.Types.Result.GetResult<Prisma.$VaccineScheduleDosePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first VaccineScheduleDose that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VaccineScheduleDoseFindFirstArgs} args - Arguments to find a VaccineScheduleDose
+   * @example
+   * // Get one VaccineScheduleDose
+   * const vaccineScheduleDose = await prisma.vaccineScheduleDose.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends VaccineScheduleDoseFindFirstArgs>(args?: Prisma.SelectSubset<T, VaccineScheduleDoseFindFirstArgs<ExtArgs>>): Prisma.Prisma__VaccineScheduleDoseClient<runtime.Types.Result.GetResult<Prisma.$VaccineScheduleDosePayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first VaccineScheduleDose that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VaccineScheduleDoseFindFirstOrThrowArgs} args - Arguments to find a VaccineScheduleDose
+   * @example
+   * // Get one VaccineScheduleDose
+   * const vaccineScheduleDose = await prisma.vaccineScheduleDose.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends VaccineScheduleDoseFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, VaccineScheduleDoseFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__VaccineScheduleDoseClient<runtime.Types.Result.GetResult<Prisma.$VaccineScheduleDosePayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more VaccineScheduleDoses that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VaccineScheduleDoseFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all VaccineScheduleDoses
+   * const vaccineScheduleDoses = await prisma.vaccineScheduleDose.findMany()
+   * 
+   * // Get first 10 VaccineScheduleDoses
+   * const vaccineScheduleDoses = await prisma.vaccineScheduleDose.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const vaccineScheduleDoseWithIdOnly = await prisma.vaccineScheduleDose.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends VaccineScheduleDoseFindManyArgs>(args?: Prisma.SelectSubset<T, VaccineScheduleDoseFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$VaccineScheduleDosePayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a VaccineScheduleDose.
+   * @param {VaccineScheduleDoseCreateArgs} args - Arguments to create a VaccineScheduleDose.
+   * @example
+   * // Create one VaccineScheduleDose
+   * const VaccineScheduleDose = await prisma.vaccineScheduleDose.create({
+   *   data: {
+   *     // ... data to create a VaccineScheduleDose
+   *   }
+   * })
+   * 
+   */
+  create<T extends VaccineScheduleDoseCreateArgs>(args: Prisma.SelectSubset<T, VaccineScheduleDoseCreateArgs<ExtArgs>>): Prisma.Prisma__VaccineScheduleDoseClient<runtime.Types.Result.GetResult<Prisma.$VaccineScheduleDosePayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many VaccineScheduleDoses.
+   * @param {VaccineScheduleDoseCreateManyArgs} args - Arguments to create many VaccineScheduleDoses.
+   * @example
+   * // Create many VaccineScheduleDoses
+   * const vaccineScheduleDose = await prisma.vaccineScheduleDose.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends VaccineScheduleDoseCreateManyArgs>(args?: Prisma.SelectSubset<T, VaccineScheduleDoseCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many VaccineScheduleDoses and returns the data saved in the database.
+   * @param {VaccineScheduleDoseCreateManyAndReturnArgs} args - Arguments to create many VaccineScheduleDoses.
+   * @example
+   * // Create many VaccineScheduleDoses
+   * const vaccineScheduleDose = await prisma.vaccineScheduleDose.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many VaccineScheduleDoses and only return the `id`
+   * const vaccineScheduleDoseWithIdOnly = await prisma.vaccineScheduleDose.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends VaccineScheduleDoseCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, VaccineScheduleDoseCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$VaccineScheduleDosePayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a VaccineScheduleDose.
+   * @param {VaccineScheduleDoseDeleteArgs} args - Arguments to delete one VaccineScheduleDose.
+   * @example
+   * // Delete one VaccineScheduleDose
+   * const VaccineScheduleDose = await prisma.vaccineScheduleDose.delete({
+   *   where: {
+   *     // ... filter to delete one VaccineScheduleDose
+   *   }
+   * })
+   * 
+   */
+  delete<T extends VaccineScheduleDoseDeleteArgs>(args: Prisma.SelectSubset<T, VaccineScheduleDoseDeleteArgs<ExtArgs>>): Prisma.Prisma__VaccineScheduleDoseClient<runtime.Types.Result.GetResult<Prisma.$VaccineScheduleDosePayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one VaccineScheduleDose.
+   * @param {VaccineScheduleDoseUpdateArgs} args - Arguments to update one VaccineScheduleDose.
+   * @example
+   * // Update one VaccineScheduleDose
+   * const vaccineScheduleDose = await prisma.vaccineScheduleDose.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends VaccineScheduleDoseUpdateArgs>(args: Prisma.SelectSubset<T, VaccineScheduleDoseUpdateArgs<ExtArgs>>): Prisma.Prisma__VaccineScheduleDoseClient<runtime.Types.Result.GetResult<Prisma.$VaccineScheduleDosePayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more VaccineScheduleDoses.
+   * @param {VaccineScheduleDoseDeleteManyArgs} args - Arguments to filter VaccineScheduleDoses to delete.
+   * @example
+   * // Delete a few VaccineScheduleDoses
+   * const { count } = await prisma.vaccineScheduleDose.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends VaccineScheduleDoseDeleteManyArgs>(args?: Prisma.SelectSubset<T, VaccineScheduleDoseDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more VaccineScheduleDoses.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VaccineScheduleDoseUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many VaccineScheduleDoses
+   * const vaccineScheduleDose = await prisma.vaccineScheduleDose.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends VaccineScheduleDoseUpdateManyArgs>(args: Prisma.SelectSubset<T, VaccineScheduleDoseUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more VaccineScheduleDoses and returns the data updated in the database.
+   * @param {VaccineScheduleDoseUpdateManyAndReturnArgs} args - Arguments to update many VaccineScheduleDoses.
+   * @example
+   * // Update many VaccineScheduleDoses
+   * const vaccineScheduleDose = await prisma.vaccineScheduleDose.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more VaccineScheduleDoses and only return the `id`
+   * const vaccineScheduleDoseWithIdOnly = await prisma.vaccineScheduleDose.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends VaccineScheduleDoseUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, VaccineScheduleDoseUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$VaccineScheduleDosePayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one VaccineScheduleDose.
+   * @param {VaccineScheduleDoseUpsertArgs} args - Arguments to update or create a VaccineScheduleDose.
+   * @example
+   * // Update or create a VaccineScheduleDose
+   * const vaccineScheduleDose = await prisma.vaccineScheduleDose.upsert({
+   *   create: {
+   *     // ... data to create a VaccineScheduleDose
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the VaccineScheduleDose we want to update
+   *   }
+   * })
+   */
+  upsert<T extends VaccineScheduleDoseUpsertArgs>(args: Prisma.SelectSubset<T, VaccineScheduleDoseUpsertArgs<ExtArgs>>): Prisma.Prisma__VaccineScheduleDoseClient<runtime.Types.Result.GetResult<Prisma.$VaccineScheduleDosePayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of VaccineScheduleDoses.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VaccineScheduleDoseCountArgs} args - Arguments to filter VaccineScheduleDoses to count.
+   * @example
+   * // Count the number of VaccineScheduleDoses
+   * const count = await prisma.vaccineScheduleDose.count({
+   *   where: {
+   *     // ... the filter for the VaccineScheduleDoses we want to count
+   *   }
+   * })
+  **/
+  count<T extends VaccineScheduleDoseCountArgs>(
+    args?: Prisma.Subset<T, VaccineScheduleDoseCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], VaccineScheduleDoseCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a VaccineScheduleDose.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VaccineScheduleDoseAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends VaccineScheduleDoseAggregateArgs>(args: Prisma.Subset<T, VaccineScheduleDoseAggregateArgs>): Prisma.PrismaPromise<GetVaccineScheduleDoseAggregateType<T>>
+
+  /**
+   * Group by VaccineScheduleDose.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VaccineScheduleDoseGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends VaccineScheduleDoseGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: VaccineScheduleDoseGroupByArgs['orderBy'] }
+      : { orderBy?: VaccineScheduleDoseGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, VaccineScheduleDoseGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetVaccineScheduleDoseGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the VaccineScheduleDose model
+ */
+readonly fields: VaccineScheduleDoseFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for VaccineScheduleDose.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__VaccineScheduleDoseClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  schedule<T extends Prisma.VaccineScheduleDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.VaccineScheduleDefaultArgs<ExtArgs>>): Prisma.Prisma__VaccineScheduleClient<runtime.Types.Result.GetResult<Prisma.$VaccineSchedulePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the VaccineScheduleDose model
+ */
+export interface VaccineScheduleDoseFieldRefs {
+  readonly id: Prisma.FieldRef<"VaccineScheduleDose", 'Int'>
+  readonly scheduleId: Prisma.FieldRef<"VaccineScheduleDose", 'Int'>
+  readonly doseNumber: Prisma.FieldRef<"VaccineScheduleDose", 'Int'>
+  readonly minimumAgeDays: Prisma.FieldRef<"VaccineScheduleDose", 'Int'>
+  readonly recommendedAgeDays: Prisma.FieldRef<"VaccineScheduleDose", 'Int'>
+  readonly maximumAgeDays: Prisma.FieldRef<"VaccineScheduleDose", 'Int'>
+  readonly minimumIntervalDays: Prisma.FieldRef<"VaccineScheduleDose", 'Int'>
+  readonly createdAt: Prisma.FieldRef<"VaccineScheduleDose", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"VaccineScheduleDose", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * VaccineScheduleDose findUnique
+ */
+export type VaccineScheduleDoseFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleDose
+   */
+  select?: Prisma.VaccineScheduleDoseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VaccineScheduleDose
+   */
+  omit?: Prisma.VaccineScheduleDoseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleDoseInclude<ExtArgs> | null
+  /**
+   * Filter, which VaccineScheduleDose to fetch.
+   */
+  where: Prisma.VaccineScheduleDoseWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * VaccineScheduleDose findUniqueOrThrow
+ */
+export type VaccineScheduleDoseFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleDose
+   */
+  select?: Prisma.VaccineScheduleDoseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VaccineScheduleDose
+   */
+  omit?: Prisma.VaccineScheduleDoseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleDoseInclude<ExtArgs> | null
+  /**
+   * Filter, which VaccineScheduleDose to fetch.
+   */
+  where: Prisma.VaccineScheduleDoseWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * VaccineScheduleDose findFirst
+ */
+export type VaccineScheduleDoseFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleDose
+   */
+  select?: Prisma.VaccineScheduleDoseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VaccineScheduleDose
+   */
+  omit?: Prisma.VaccineScheduleDoseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleDoseInclude<ExtArgs> | null
+  /**
+   * Filter, which VaccineScheduleDose to fetch.
+   */
+  where?: Prisma.VaccineScheduleDoseWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of VaccineScheduleDoses to fetch.
+   */
+  orderBy?: Prisma.VaccineScheduleDoseOrderByWithRelationInput | Prisma.VaccineScheduleDoseOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for VaccineScheduleDoses.
+   */
+  cursor?: Prisma.VaccineScheduleDoseWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` VaccineScheduleDoses from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` VaccineScheduleDoses.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of VaccineScheduleDoses.
+   */
+  distinct?: Prisma.VaccineScheduleDoseScalarFieldEnum | Prisma.VaccineScheduleDoseScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * VaccineScheduleDose findFirstOrThrow
+ */
+export type VaccineScheduleDoseFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleDose
+   */
+  select?: Prisma.VaccineScheduleDoseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VaccineScheduleDose
+   */
+  omit?: Prisma.VaccineScheduleDoseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleDoseInclude<ExtArgs> | null
+  /**
+   * Filter, which VaccineScheduleDose to fetch.
+   */
+  where?: Prisma.VaccineScheduleDoseWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of VaccineScheduleDoses to fetch.
+   */
+  orderBy?: Prisma.VaccineScheduleDoseOrderByWithRelationInput | Prisma.VaccineScheduleDoseOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for VaccineScheduleDoses.
+   */
+  cursor?: Prisma.VaccineScheduleDoseWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` VaccineScheduleDoses from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` VaccineScheduleDoses.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of VaccineScheduleDoses.
+   */
+  distinct?: Prisma.VaccineScheduleDoseScalarFieldEnum | Prisma.VaccineScheduleDoseScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * VaccineScheduleDose findMany
+ */
+export type VaccineScheduleDoseFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleDose
+   */
+  select?: Prisma.VaccineScheduleDoseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VaccineScheduleDose
+   */
+  omit?: Prisma.VaccineScheduleDoseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleDoseInclude<ExtArgs> | null
+  /**
+   * Filter, which VaccineScheduleDoses to fetch.
+   */
+  where?: Prisma.VaccineScheduleDoseWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of VaccineScheduleDoses to fetch.
+   */
+  orderBy?: Prisma.VaccineScheduleDoseOrderByWithRelationInput | Prisma.VaccineScheduleDoseOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing VaccineScheduleDoses.
+   */
+  cursor?: Prisma.VaccineScheduleDoseWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` VaccineScheduleDoses from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` VaccineScheduleDoses.
+   */
+  skip?: number
+  distinct?: Prisma.VaccineScheduleDoseScalarFieldEnum | Prisma.VaccineScheduleDoseScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * VaccineScheduleDose create
+ */
+export type VaccineScheduleDoseCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleDose
+   */
+  select?: Prisma.VaccineScheduleDoseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VaccineScheduleDose
+   */
+  omit?: Prisma.VaccineScheduleDoseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleDoseInclude<ExtArgs> | null
+  /**
+   * The data needed to create a VaccineScheduleDose.
+   */
+  data: Prisma.XOR<Prisma.VaccineScheduleDoseCreateInput, Prisma.VaccineScheduleDoseUncheckedCreateInput>
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * VaccineScheduleDose createMany
+ */
+export type VaccineScheduleDoseCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many VaccineScheduleDoses.
+   */
+  data: Prisma.VaccineScheduleDoseCreateManyInput | Prisma.VaccineScheduleDoseCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * VaccineScheduleDose createManyAndReturn
+ */
+export type VaccineScheduleDoseCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleDose
+   */
+  select?: Prisma.VaccineScheduleDoseSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the VaccineScheduleDose
+   */
+  omit?: Prisma.VaccineScheduleDoseOmit<ExtArgs> | null
+  /**
+   * The data used to create many VaccineScheduleDoses.
+   */
+  data: Prisma.VaccineScheduleDoseCreateManyInput | Prisma.VaccineScheduleDoseCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleDoseIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * VaccineScheduleDose update
+ */
+export type VaccineScheduleDoseUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleDose
+   */
+  select?: Prisma.VaccineScheduleDoseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VaccineScheduleDose
+   */
+  omit?: Prisma.VaccineScheduleDoseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleDoseInclude<ExtArgs> | null
+  /**
+   * The data needed to update a VaccineScheduleDose.
+   */
+  data: Prisma.XOR<Prisma.VaccineScheduleDoseUpdateInput, Prisma.VaccineScheduleDoseUncheckedUpdateInput>
+  /**
+   * Choose, which VaccineScheduleDose to update.
+   */
+  where: Prisma.VaccineScheduleDoseWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * VaccineScheduleDose updateMany
+ */
+export type VaccineScheduleDoseUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update VaccineScheduleDoses.
+   */
+  data: Prisma.XOR<Prisma.VaccineScheduleDoseUpdateManyMutationInput, Prisma.VaccineScheduleDoseUncheckedUpdateManyInput>
+  /**
+   * Filter which VaccineScheduleDoses to update
+   */
+  where?: Prisma.VaccineScheduleDoseWhereInput
+  /**
+   * Limit how many VaccineScheduleDoses to update.
+   */
+  limit?: number
+}
+
+/**
+ * VaccineScheduleDose updateManyAndReturn
+ */
+export type VaccineScheduleDoseUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleDose
+   */
+  select?: Prisma.VaccineScheduleDoseSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the VaccineScheduleDose
+   */
+  omit?: Prisma.VaccineScheduleDoseOmit<ExtArgs> | null
+  /**
+   * The data used to update VaccineScheduleDoses.
+   */
+  data: Prisma.XOR<Prisma.VaccineScheduleDoseUpdateManyMutationInput, Prisma.VaccineScheduleDoseUncheckedUpdateManyInput>
+  /**
+   * Filter which VaccineScheduleDoses to update
+   */
+  where?: Prisma.VaccineScheduleDoseWhereInput
+  /**
+   * Limit how many VaccineScheduleDoses to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleDoseIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * VaccineScheduleDose upsert
+ */
+export type VaccineScheduleDoseUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleDose
+   */
+  select?: Prisma.VaccineScheduleDoseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VaccineScheduleDose
+   */
+  omit?: Prisma.VaccineScheduleDoseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleDoseInclude<ExtArgs> | null
+  /**
+   * The filter to search for the VaccineScheduleDose to update in case it exists.
+   */
+  where: Prisma.VaccineScheduleDoseWhereUniqueInput
+  /**
+   * In case the VaccineScheduleDose found by the `where` argument doesn't exist, create a new VaccineScheduleDose with this data.
+   */
+  create: Prisma.XOR<Prisma.VaccineScheduleDoseCreateInput, Prisma.VaccineScheduleDoseUncheckedCreateInput>
+  /**
+   * In case the VaccineScheduleDose was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.VaccineScheduleDoseUpdateInput, Prisma.VaccineScheduleDoseUncheckedUpdateInput>
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * VaccineScheduleDose delete
+ */
+export type VaccineScheduleDoseDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleDose
+   */
+  select?: Prisma.VaccineScheduleDoseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VaccineScheduleDose
+   */
+  omit?: Prisma.VaccineScheduleDoseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleDoseInclude<ExtArgs> | null
+  /**
+   * Filter which VaccineScheduleDose to delete.
+   */
+  where: Prisma.VaccineScheduleDoseWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * VaccineScheduleDose deleteMany
+ */
+export type VaccineScheduleDoseDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which VaccineScheduleDoses to delete
+   */
+  where?: Prisma.VaccineScheduleDoseWhereInput
+  /**
+   * Limit how many VaccineScheduleDoses to delete.
+   */
+  limit?: number
+}
+
+/**
+ * VaccineScheduleDose without action
+ */
+export type VaccineScheduleDoseDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleDose
+   */
+  select?: Prisma.VaccineScheduleDoseSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VaccineScheduleDose
+   */
+  omit?: Prisma.VaccineScheduleDoseOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleDoseInclude<ExtArgs> | null
+}
@@ -0,0 +1,1675 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `VaccineScheduleSet` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model VaccineScheduleSet
+ * 
+ */
+export type VaccineScheduleSetModel = runtime.Types.Result.DefaultSelection<Prisma.$VaccineScheduleSetPayload>
+
+export type AggregateVaccineScheduleSet = {
+  _count: VaccineScheduleSetCountAggregateOutputType | null
+  _avg: VaccineScheduleSetAvgAggregateOutputType | null
+  _sum: VaccineScheduleSetSumAggregateOutputType | null
+  _min: VaccineScheduleSetMinAggregateOutputType | null
+  _max: VaccineScheduleSetMaxAggregateOutputType | null
+}
+
+export type VaccineScheduleSetAvgAggregateOutputType = {
+  id: number | null
+}
+
+export type VaccineScheduleSetSumAggregateOutputType = {
+  id: number | null
+}
+
+export type VaccineScheduleSetMinAggregateOutputType = {
+  id: number | null
+  code: string | null
+  name: string | null
+  country: string | null
+  version: string | null
+  description: string | null
+  isDefault: boolean | null
+  effectiveFrom: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type VaccineScheduleSetMaxAggregateOutputType = {
+  id: number | null
+  code: string | null
+  name: string | null
+  country: string | null
+  version: string | null
+  description: string | null
+  isDefault: boolean | null
+  effectiveFrom: Date | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type VaccineScheduleSetCountAggregateOutputType = {
+  id: number
+  code: number
+  name: number
+  country: number
+  version: number
+  description: number
+  isDefault: number
+  effectiveFrom: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type VaccineScheduleSetAvgAggregateInputType = {
+  id?: true
+}
+
+export type VaccineScheduleSetSumAggregateInputType = {
+  id?: true
+}
+
+export type VaccineScheduleSetMinAggregateInputType = {
+  id?: true
+  code?: true
+  name?: true
+  country?: true
+  version?: true
+  description?: true
+  isDefault?: true
+  effectiveFrom?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type VaccineScheduleSetMaxAggregateInputType = {
+  id?: true
+  code?: true
+  name?: true
+  country?: true
+  version?: true
+  description?: true
+  isDefault?: true
+  effectiveFrom?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type VaccineScheduleSetCountAggregateInputType = {
+  id?: true
+  code?: true
+  name?: true
+  country?: true
+  version?: true
+  description?: true
+  isDefault?: true
+  effectiveFrom?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type VaccineScheduleSetAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which VaccineScheduleSet to aggregate.
+   */
+  where?: Prisma.VaccineScheduleSetWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of VaccineScheduleSets to fetch.
+   */
+  orderBy?: Prisma.VaccineScheduleSetOrderByWithRelationInput | Prisma.VaccineScheduleSetOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.VaccineScheduleSetWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` VaccineScheduleSets from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` VaccineScheduleSets.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned VaccineScheduleSets
+  **/
+  _count?: true | VaccineScheduleSetCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: VaccineScheduleSetAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: VaccineScheduleSetSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: VaccineScheduleSetMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: VaccineScheduleSetMaxAggregateInputType
+}
+
+export type GetVaccineScheduleSetAggregateType<T extends VaccineScheduleSetAggregateArgs> = {
+      [P in keyof T & keyof AggregateVaccineScheduleSet]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateVaccineScheduleSet[P]>
+    : Prisma.GetScalarType<T[P], AggregateVaccineScheduleSet[P]>
+}
+
+
+
+
+export type VaccineScheduleSetGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.VaccineScheduleSetWhereInput
+  orderBy?: Prisma.VaccineScheduleSetOrderByWithAggregationInput | Prisma.VaccineScheduleSetOrderByWithAggregationInput[]
+  by: Prisma.VaccineScheduleSetScalarFieldEnum[] | Prisma.VaccineScheduleSetScalarFieldEnum
+  having?: Prisma.VaccineScheduleSetScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: VaccineScheduleSetCountAggregateInputType | true
+  _avg?: VaccineScheduleSetAvgAggregateInputType
+  _sum?: VaccineScheduleSetSumAggregateInputType
+  _min?: VaccineScheduleSetMinAggregateInputType
+  _max?: VaccineScheduleSetMaxAggregateInputType
+}
+
+export type VaccineScheduleSetGroupByOutputType = {
+  id: number
+  code: string
+  name: string
+  country: string | null
+  version: string
+  description: string | null
+  isDefault: boolean
+  effectiveFrom: Date | null
+  createdAt: Date
+  updatedAt: Date
+  _count: VaccineScheduleSetCountAggregateOutputType | null
+  _avg: VaccineScheduleSetAvgAggregateOutputType | null
+  _sum: VaccineScheduleSetSumAggregateOutputType | null
+  _min: VaccineScheduleSetMinAggregateOutputType | null
+  _max: VaccineScheduleSetMaxAggregateOutputType | null
+}
+
+type GetVaccineScheduleSetGroupByPayload<T extends VaccineScheduleSetGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<VaccineScheduleSetGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof VaccineScheduleSetGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], VaccineScheduleSetGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], VaccineScheduleSetGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type VaccineScheduleSetWhereInput = {
+  AND?: Prisma.VaccineScheduleSetWhereInput | Prisma.VaccineScheduleSetWhereInput[]
+  OR?: Prisma.VaccineScheduleSetWhereInput[]
+  NOT?: Prisma.VaccineScheduleSetWhereInput | Prisma.VaccineScheduleSetWhereInput[]
+  id?: Prisma.IntFilter<"VaccineScheduleSet"> | number
+  code?: Prisma.StringFilter<"VaccineScheduleSet"> | string
+  name?: Prisma.StringFilter<"VaccineScheduleSet"> | string
+  country?: Prisma.StringNullableFilter<"VaccineScheduleSet"> | string | null
+  version?: Prisma.StringFilter<"VaccineScheduleSet"> | string
+  description?: Prisma.StringNullableFilter<"VaccineScheduleSet"> | string | null
+  isDefault?: Prisma.BoolFilter<"VaccineScheduleSet"> | boolean
+  effectiveFrom?: Prisma.DateTimeNullableFilter<"VaccineScheduleSet"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"VaccineScheduleSet"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"VaccineScheduleSet"> | Date | string
+  vaccines?: Prisma.VaccineScheduleListRelationFilter
+  clinicSettings?: Prisma.ClinicSettingListRelationFilter
+}
+
+export type VaccineScheduleSetOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  country?: Prisma.SortOrderInput | Prisma.SortOrder
+  version?: Prisma.SortOrder
+  description?: Prisma.SortOrderInput | Prisma.SortOrder
+  isDefault?: Prisma.SortOrder
+  effectiveFrom?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  vaccines?: Prisma.VaccineScheduleOrderByRelationAggregateInput
+  clinicSettings?: Prisma.ClinicSettingOrderByRelationAggregateInput
+}
+
+export type VaccineScheduleSetWhereUniqueInput = Prisma.AtLeast<{
+  id?: number
+  code_version?: Prisma.VaccineScheduleSetCodeVersionCompoundUniqueInput
+  AND?: Prisma.VaccineScheduleSetWhereInput | Prisma.VaccineScheduleSetWhereInput[]
+  OR?: Prisma.VaccineScheduleSetWhereInput[]
+  NOT?: Prisma.VaccineScheduleSetWhereInput | Prisma.VaccineScheduleSetWhereInput[]
+  code?: Prisma.StringFilter<"VaccineScheduleSet"> | string
+  name?: Prisma.StringFilter<"VaccineScheduleSet"> | string
+  country?: Prisma.StringNullableFilter<"VaccineScheduleSet"> | string | null
+  version?: Prisma.StringFilter<"VaccineScheduleSet"> | string
+  description?: Prisma.StringNullableFilter<"VaccineScheduleSet"> | string | null
+  isDefault?: Prisma.BoolFilter<"VaccineScheduleSet"> | boolean
+  effectiveFrom?: Prisma.DateTimeNullableFilter<"VaccineScheduleSet"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"VaccineScheduleSet"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"VaccineScheduleSet"> | Date | string
+  vaccines?: Prisma.VaccineScheduleListRelationFilter
+  clinicSettings?: Prisma.ClinicSettingListRelationFilter
+}, "id" | "code_version">
+
+export type VaccineScheduleSetOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  country?: Prisma.SortOrderInput | Prisma.SortOrder
+  version?: Prisma.SortOrder
+  description?: Prisma.SortOrderInput | Prisma.SortOrder
+  isDefault?: Prisma.SortOrder
+  effectiveFrom?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.VaccineScheduleSetCountOrderByAggregateInput
+  _avg?: Prisma.VaccineScheduleSetAvgOrderByAggregateInput
+  _max?: Prisma.VaccineScheduleSetMaxOrderByAggregateInput
+  _min?: Prisma.VaccineScheduleSetMinOrderByAggregateInput
+  _sum?: Prisma.VaccineScheduleSetSumOrderByAggregateInput
+}
+
+export type VaccineScheduleSetScalarWhereWithAggregatesInput = {
+  AND?: Prisma.VaccineScheduleSetScalarWhereWithAggregatesInput | Prisma.VaccineScheduleSetScalarWhereWithAggregatesInput[]
+  OR?: Prisma.VaccineScheduleSetScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.VaccineScheduleSetScalarWhereWithAggregatesInput | Prisma.VaccineScheduleSetScalarWhereWithAggregatesInput[]
+  id?: Prisma.IntWithAggregatesFilter<"VaccineScheduleSet"> | number
+  code?: Prisma.StringWithAggregatesFilter<"VaccineScheduleSet"> | string
+  name?: Prisma.StringWithAggregatesFilter<"VaccineScheduleSet"> | string
+  country?: Prisma.StringNullableWithAggregatesFilter<"VaccineScheduleSet"> | string | null
+  version?: Prisma.StringWithAggregatesFilter<"VaccineScheduleSet"> | string
+  description?: Prisma.StringNullableWithAggregatesFilter<"VaccineScheduleSet"> | string | null
+  isDefault?: Prisma.BoolWithAggregatesFilter<"VaccineScheduleSet"> | boolean
+  effectiveFrom?: Prisma.DateTimeNullableWithAggregatesFilter<"VaccineScheduleSet"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"VaccineScheduleSet"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"VaccineScheduleSet"> | Date | string
+}
+
+export type VaccineScheduleSetCreateInput = {
+  code: string
+  name: string
+  country?: string | null
+  version: string
+  description?: string | null
+  isDefault?: boolean
+  effectiveFrom?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  vaccines?: Prisma.VaccineScheduleCreateNestedManyWithoutScheduleSetInput
+  clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutVaccineScheduleSetInput
+}
+
+export type VaccineScheduleSetUncheckedCreateInput = {
+  id?: number
+  code: string
+  name: string
+  country?: string | null
+  version: string
+  description?: string | null
+  isDefault?: boolean
+  effectiveFrom?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  vaccines?: Prisma.VaccineScheduleUncheckedCreateNestedManyWithoutScheduleSetInput
+  clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutVaccineScheduleSetInput
+}
+
+export type VaccineScheduleSetUpdateInput = {
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  country?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  version?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isDefault?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  effectiveFrom?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  vaccines?: Prisma.VaccineScheduleUpdateManyWithoutScheduleSetNestedInput
+  clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutVaccineScheduleSetNestedInput
+}
+
+export type VaccineScheduleSetUncheckedUpdateInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  country?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  version?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isDefault?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  effectiveFrom?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  vaccines?: Prisma.VaccineScheduleUncheckedUpdateManyWithoutScheduleSetNestedInput
+  clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutVaccineScheduleSetNestedInput
+}
+
+export type VaccineScheduleSetCreateManyInput = {
+  id?: number
+  code: string
+  name: string
+  country?: string | null
+  version: string
+  description?: string | null
+  isDefault?: boolean
+  effectiveFrom?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type VaccineScheduleSetUpdateManyMutationInput = {
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  country?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  version?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isDefault?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  effectiveFrom?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type VaccineScheduleSetUncheckedUpdateManyInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  country?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  version?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isDefault?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  effectiveFrom?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type VaccineScheduleSetNullableScalarRelationFilter = {
+  is?: Prisma.VaccineScheduleSetWhereInput | null
+  isNot?: Prisma.VaccineScheduleSetWhereInput | null
+}
+
+export type VaccineScheduleSetScalarRelationFilter = {
+  is?: Prisma.VaccineScheduleSetWhereInput
+  isNot?: Prisma.VaccineScheduleSetWhereInput
+}
+
+export type VaccineScheduleSetCodeVersionCompoundUniqueInput = {
+  code: string
+  version: string
+}
+
+export type VaccineScheduleSetCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  country?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  isDefault?: Prisma.SortOrder
+  effectiveFrom?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type VaccineScheduleSetAvgOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+}
+
+export type VaccineScheduleSetMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  country?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  isDefault?: Prisma.SortOrder
+  effectiveFrom?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type VaccineScheduleSetMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  code?: Prisma.SortOrder
+  name?: Prisma.SortOrder
+  country?: Prisma.SortOrder
+  version?: Prisma.SortOrder
+  description?: Prisma.SortOrder
+  isDefault?: Prisma.SortOrder
+  effectiveFrom?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type VaccineScheduleSetSumOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+}
+
+export type VaccineScheduleSetCreateNestedOneWithoutClinicSettingsInput = {
+  create?: Prisma.XOR<Prisma.VaccineScheduleSetCreateWithoutClinicSettingsInput, Prisma.VaccineScheduleSetUncheckedCreateWithoutClinicSettingsInput>
+  connectOrCreate?: Prisma.VaccineScheduleSetCreateOrConnectWithoutClinicSettingsInput
+  connect?: Prisma.VaccineScheduleSetWhereUniqueInput
+}
+
+export type VaccineScheduleSetUpdateOneWithoutClinicSettingsNestedInput = {
+  create?: Prisma.XOR<Prisma.VaccineScheduleSetCreateWithoutClinicSettingsInput, Prisma.VaccineScheduleSetUncheckedCreateWithoutClinicSettingsInput>
+  connectOrCreate?: Prisma.VaccineScheduleSetCreateOrConnectWithoutClinicSettingsInput
+  upsert?: Prisma.VaccineScheduleSetUpsertWithoutClinicSettingsInput
+  disconnect?: Prisma.VaccineScheduleSetWhereInput | boolean
+  delete?: Prisma.VaccineScheduleSetWhereInput | boolean
+  connect?: Prisma.VaccineScheduleSetWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.VaccineScheduleSetUpdateToOneWithWhereWithoutClinicSettingsInput, Prisma.VaccineScheduleSetUpdateWithoutClinicSettingsInput>, Prisma.VaccineScheduleSetUncheckedUpdateWithoutClinicSettingsInput>
+}
+
+export type VaccineScheduleSetCreateNestedOneWithoutVaccinesInput = {
+  create?: Prisma.XOR<Prisma.VaccineScheduleSetCreateWithoutVaccinesInput, Prisma.VaccineScheduleSetUncheckedCreateWithoutVaccinesInput>
+  connectOrCreate?: Prisma.VaccineScheduleSetCreateOrConnectWithoutVaccinesInput
+  connect?: Prisma.VaccineScheduleSetWhereUniqueInput
+}
+
+export type VaccineScheduleSetUpdateOneRequiredWithoutVaccinesNestedInput = {
+  create?: Prisma.XOR<Prisma.VaccineScheduleSetCreateWithoutVaccinesInput, Prisma.VaccineScheduleSetUncheckedCreateWithoutVaccinesInput>
+  connectOrCreate?: Prisma.VaccineScheduleSetCreateOrConnectWithoutVaccinesInput
+  upsert?: Prisma.VaccineScheduleSetUpsertWithoutVaccinesInput
+  connect?: Prisma.VaccineScheduleSetWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.VaccineScheduleSetUpdateToOneWithWhereWithoutVaccinesInput, Prisma.VaccineScheduleSetUpdateWithoutVaccinesInput>, Prisma.VaccineScheduleSetUncheckedUpdateWithoutVaccinesInput>
+}
+
+export type VaccineScheduleSetCreateWithoutClinicSettingsInput = {
+  code: string
+  name: string
+  country?: string | null
+  version: string
+  description?: string | null
+  isDefault?: boolean
+  effectiveFrom?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  vaccines?: Prisma.VaccineScheduleCreateNestedManyWithoutScheduleSetInput
+}
+
+export type VaccineScheduleSetUncheckedCreateWithoutClinicSettingsInput = {
+  id?: number
+  code: string
+  name: string
+  country?: string | null
+  version: string
+  description?: string | null
+  isDefault?: boolean
+  effectiveFrom?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  vaccines?: Prisma.VaccineScheduleUncheckedCreateNestedManyWithoutScheduleSetInput
+}
+
+export type VaccineScheduleSetCreateOrConnectWithoutClinicSettingsInput = {
+  where: Prisma.VaccineScheduleSetWhereUniqueInput
+  create: Prisma.XOR<Prisma.VaccineScheduleSetCreateWithoutClinicSettingsInput, Prisma.VaccineScheduleSetUncheckedCreateWithoutClinicSettingsInput>
+}
+
+export type VaccineScheduleSetUpsertWithoutClinicSettingsInput = {
+  update: Prisma.XOR<Prisma.VaccineScheduleSetUpdateWithoutClinicSettingsInput, Prisma.VaccineScheduleSetUncheckedUpdateWithoutClinicSettingsInput>
+  create: Prisma.XOR<Prisma.VaccineScheduleSetCreateWithoutClinicSettingsInput, Prisma.VaccineScheduleSetUncheckedCreateWithoutClinicSettingsInput>
+  where?: Prisma.VaccineScheduleSetWhereInput
+}
+
+export type VaccineScheduleSetUpdateToOneWithWhereWithoutClinicSettingsInput = {
+  where?: Prisma.VaccineScheduleSetWhereInput
+  data: Prisma.XOR<Prisma.VaccineScheduleSetUpdateWithoutClinicSettingsInput, Prisma.VaccineScheduleSetUncheckedUpdateWithoutClinicSettingsInput>
+}
+
+export type VaccineScheduleSetUpdateWithoutClinicSettingsInput = {
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  country?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  version?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isDefault?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  effectiveFrom?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  vaccines?: Prisma.VaccineScheduleUpdateManyWithoutScheduleSetNestedInput
+}
+
+export type VaccineScheduleSetUncheckedUpdateWithoutClinicSettingsInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  country?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  version?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isDefault?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  effectiveFrom?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  vaccines?: Prisma.VaccineScheduleUncheckedUpdateManyWithoutScheduleSetNestedInput
+}
+
+export type VaccineScheduleSetCreateWithoutVaccinesInput = {
+  code: string
+  name: string
+  country?: string | null
+  version: string
+  description?: string | null
+  isDefault?: boolean
+  effectiveFrom?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  clinicSettings?: Prisma.ClinicSettingCreateNestedManyWithoutVaccineScheduleSetInput
+}
+
+export type VaccineScheduleSetUncheckedCreateWithoutVaccinesInput = {
+  id?: number
+  code: string
+  name: string
+  country?: string | null
+  version: string
+  description?: string | null
+  isDefault?: boolean
+  effectiveFrom?: Date | string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  clinicSettings?: Prisma.ClinicSettingUncheckedCreateNestedManyWithoutVaccineScheduleSetInput
+}
+
+export type VaccineScheduleSetCreateOrConnectWithoutVaccinesInput = {
+  where: Prisma.VaccineScheduleSetWhereUniqueInput
+  create: Prisma.XOR<Prisma.VaccineScheduleSetCreateWithoutVaccinesInput, Prisma.VaccineScheduleSetUncheckedCreateWithoutVaccinesInput>
+}
+
+export type VaccineScheduleSetUpsertWithoutVaccinesInput = {
+  update: Prisma.XOR<Prisma.VaccineScheduleSetUpdateWithoutVaccinesInput, Prisma.VaccineScheduleSetUncheckedUpdateWithoutVaccinesInput>
+  create: Prisma.XOR<Prisma.VaccineScheduleSetCreateWithoutVaccinesInput, Prisma.VaccineScheduleSetUncheckedCreateWithoutVaccinesInput>
+  where?: Prisma.VaccineScheduleSetWhereInput
+}
+
+export type VaccineScheduleSetUpdateToOneWithWhereWithoutVaccinesInput = {
+  where?: Prisma.VaccineScheduleSetWhereInput
+  data: Prisma.XOR<Prisma.VaccineScheduleSetUpdateWithoutVaccinesInput, Prisma.VaccineScheduleSetUncheckedUpdateWithoutVaccinesInput>
+}
+
+export type VaccineScheduleSetUpdateWithoutVaccinesInput = {
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  country?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  version?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isDefault?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  effectiveFrom?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinicSettings?: Prisma.ClinicSettingUpdateManyWithoutVaccineScheduleSetNestedInput
+}
+
+export type VaccineScheduleSetUncheckedUpdateWithoutVaccinesInput = {
+  id?: Prisma.IntFieldUpdateOperationsInput | number
+  code?: Prisma.StringFieldUpdateOperationsInput | string
+  name?: Prisma.StringFieldUpdateOperationsInput | string
+  country?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  version?: Prisma.StringFieldUpdateOperationsInput | string
+  description?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  isDefault?: Prisma.BoolFieldUpdateOperationsInput | boolean
+  effectiveFrom?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinicSettings?: Prisma.ClinicSettingUncheckedUpdateManyWithoutVaccineScheduleSetNestedInput
+}
+
+
+/**
+ * Count Type VaccineScheduleSetCountOutputType
+ */
+
+export type VaccineScheduleSetCountOutputType = {
+  vaccines: number
+  clinicSettings: number
+}
+
+export type VaccineScheduleSetCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  vaccines?: boolean | VaccineScheduleSetCountOutputTypeCountVaccinesArgs
+  clinicSettings?: boolean | VaccineScheduleSetCountOutputTypeCountClinicSettingsArgs
+}
+
+/**
+ * VaccineScheduleSetCountOutputType without action
+ */
+export type VaccineScheduleSetCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleSetCountOutputType
+   */
+  select?: Prisma.VaccineScheduleSetCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * VaccineScheduleSetCountOutputType without action
+ */
+export type VaccineScheduleSetCountOutputTypeCountVaccinesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.VaccineScheduleWhereInput
+}
+
+/**
+ * VaccineScheduleSetCountOutputType without action
+ */
+export type VaccineScheduleSetCountOutputTypeCountClinicSettingsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.ClinicSettingWhereInput
+}
+
+
+export type VaccineScheduleSetSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  code?: boolean
+  name?: boolean
+  country?: boolean
+  version?: boolean
+  description?: boolean
+  isDefault?: boolean
+  effectiveFrom?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  vaccines?: boolean | Prisma.VaccineScheduleSet$vaccinesArgs<ExtArgs>
+  clinicSettings?: boolean | Prisma.VaccineScheduleSet$clinicSettingsArgs<ExtArgs>
+  _count?: boolean | Prisma.VaccineScheduleSetCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["vaccineScheduleSet"]>
+
+export type VaccineScheduleSetSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  code?: boolean
+  name?: boolean
+  country?: boolean
+  version?: boolean
+  description?: boolean
+  isDefault?: boolean
+  effectiveFrom?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["vaccineScheduleSet"]>
+
+export type VaccineScheduleSetSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  code?: boolean
+  name?: boolean
+  country?: boolean
+  version?: boolean
+  description?: boolean
+  isDefault?: boolean
+  effectiveFrom?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}, ExtArgs["result"]["vaccineScheduleSet"]>
+
+export type VaccineScheduleSetSelectScalar = {
+  id?: boolean
+  code?: boolean
+  name?: boolean
+  country?: boolean
+  version?: boolean
+  description?: boolean
+  isDefault?: boolean
+  effectiveFrom?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type VaccineScheduleSetOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "code" | "name" | "country" | "version" | "description" | "isDefault" | "effectiveFrom" | "createdAt" | "updatedAt", ExtArgs["result"]["vaccineScheduleSet"]>
+export type VaccineScheduleSetInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  vaccines?: boolean | Prisma.VaccineScheduleSet$vaccinesArgs<ExtArgs>
+  clinicSettings?: boolean | Prisma.VaccineScheduleSet$clinicSettingsArgs<ExtArgs>
+  _count?: boolean | Prisma.VaccineScheduleSetCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type VaccineScheduleSetIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+export type VaccineScheduleSetIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {}
+
+export type $VaccineScheduleSetPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "VaccineScheduleSet"
+  objects: {
+    vaccines: Prisma.$VaccineSchedulePayload<ExtArgs>[]
+    clinicSettings: Prisma.$ClinicSettingPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: number
+    code: string
+    name: string
+    country: string | null
+    version: string
+    description: string | null
+    isDefault: boolean
+    effectiveFrom: Date | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["vaccineScheduleSet"]>
+  composites: {}
+}
+
+export type VaccineScheduleSetGetPayload<S extends boolean | null | undefined | VaccineScheduleSetDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$VaccineScheduleSetPayload, S>
+
+export type VaccineScheduleSetCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<VaccineScheduleSetFindManyArgs, 'select' | 'include' | 'distinct' | 'omit' | 'relationLoadStrategy'> & {
+    select?: VaccineScheduleSetCountAggregateInputType | true
+  }
+
+export interface VaccineScheduleSetDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['VaccineScheduleSet'], meta: { name: 'VaccineScheduleSet' } }
+  /**
+   * Find zero or one VaccineScheduleSet that matches the filter.
+   * @param {VaccineScheduleSetFindUniqueArgs} args - Arguments to find a VaccineScheduleSet
+   * @example
+   * // Get one VaccineScheduleSet
+   * const vaccineScheduleSet = await prisma.vaccineScheduleSet.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends VaccineScheduleSetFindUniqueArgs>(args: Prisma.SelectSubset<T, VaccineScheduleSetFindUniqueArgs<ExtArgs>>): Prisma.Prisma__VaccineScheduleSetClient<runtime.Types.Result.GetResult<Prisma.$VaccineScheduleSetPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one VaccineScheduleSet that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {VaccineScheduleSetFindUniqueOrThrowArgs} args - Arguments to find a VaccineScheduleSet
+   * @example
+   * // Get one VaccineScheduleSet
+   * const vaccineScheduleSet = await prisma.vaccineScheduleSet.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends VaccineScheduleSetFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, VaccineScheduleSetFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__VaccineScheduleSetClient<runtime.Types.Result.GetResult<Prisma.$VaccineScheduleSetPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first VaccineScheduleSet that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VaccineScheduleSetFindFirstArgs} args - Arguments to find a VaccineScheduleSet
+   * @example
+   * // Get one VaccineScheduleSet
+   * const vaccineScheduleSet = await prisma.vaccineScheduleSet.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends VaccineScheduleSetFindFirstArgs>(args?: Prisma.SelectSubset<T, VaccineScheduleSetFindFirstArgs<ExtArgs>>): Prisma.Prisma__VaccineScheduleSetClient<runtime.Types.Result.GetResult<Prisma.$VaccineScheduleSetPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first VaccineScheduleSet that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VaccineScheduleSetFindFirstOrThrowArgs} args - Arguments to find a VaccineScheduleSet
+   * @example
+   * // Get one VaccineScheduleSet
+   * const vaccineScheduleSet = await prisma.vaccineScheduleSet.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends VaccineScheduleSetFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, VaccineScheduleSetFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__VaccineScheduleSetClient<runtime.Types.Result.GetResult<Prisma.$VaccineScheduleSetPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more VaccineScheduleSets that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VaccineScheduleSetFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all VaccineScheduleSets
+   * const vaccineScheduleSets = await prisma.vaccineScheduleSet.findMany()
+   * 
+   * // Get first 10 VaccineScheduleSets
+   * const vaccineScheduleSets = await prisma.vaccineScheduleSet.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const vaccineScheduleSetWithIdOnly = await prisma.vaccineScheduleSet.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends VaccineScheduleSetFindManyArgs>(args?: Prisma.SelectSubset<T, VaccineScheduleSetFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$VaccineScheduleSetPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a VaccineScheduleSet.
+   * @param {VaccineScheduleSetCreateArgs} args - Arguments to create a VaccineScheduleSet.
+   * @example
+   * // Create one VaccineScheduleSet
+   * const VaccineScheduleSet = await prisma.vaccineScheduleSet.create({
+   *   data: {
+   *     // ... data to create a VaccineScheduleSet
+   *   }
+   * })
+   * 
+   */
+  create<T extends VaccineScheduleSetCreateArgs>(args: Prisma.SelectSubset<T, VaccineScheduleSetCreateArgs<ExtArgs>>): Prisma.Prisma__VaccineScheduleSetClient<runtime.Types.Result.GetResult<Prisma.$VaccineScheduleSetPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many VaccineScheduleSets.
+   * @param {VaccineScheduleSetCreateManyArgs} args - Arguments to create many VaccineScheduleSets.
+   * @example
+   * // Create many VaccineScheduleSets
+   * const vaccineScheduleSet = await prisma.vaccineScheduleSet.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends VaccineScheduleSetCreateManyArgs>(args?: Prisma.SelectSubset<T, VaccineScheduleSetCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many VaccineScheduleSets and returns the data saved in the database.
+   * @param {VaccineScheduleSetCreateManyAndReturnArgs} args - Arguments to create many VaccineScheduleSets.
+   * @example
+   * // Create many VaccineScheduleSets
+   * const vaccineScheduleSet = await prisma.vaccineScheduleSet.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many VaccineScheduleSets and only return the `id`
+   * const vaccineScheduleSetWithIdOnly = await prisma.vaccineScheduleSet.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends VaccineScheduleSetCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, VaccineScheduleSetCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$VaccineScheduleSetPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a VaccineScheduleSet.
+   * @param {VaccineScheduleSetDeleteArgs} args - Arguments to delete one VaccineScheduleSet.
+   * @example
+   * // Delete one VaccineScheduleSet
+   * const VaccineScheduleSet = await prisma.vaccineScheduleSet.delete({
+   *   where: {
+   *     // ... filter to delete one VaccineScheduleSet
+   *   }
+   * })
+   * 
+   */
+  delete<T extends VaccineScheduleSetDeleteArgs>(args: Prisma.SelectSubset<T, VaccineScheduleSetDeleteArgs<ExtArgs>>): Prisma.Prisma__VaccineScheduleSetClient<runtime.Types.Result.GetResult<Prisma.$VaccineScheduleSetPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one VaccineScheduleSet.
+   * @param {VaccineScheduleSetUpdateArgs} args - Arguments to update one VaccineScheduleSet.
+   * @example
+   * // Update one VaccineScheduleSet
+   * const vaccineScheduleSet = await prisma.vaccineScheduleSet.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends VaccineScheduleSetUpdateArgs>(args: Prisma.SelectSubset<T, VaccineScheduleSetUpdateArgs<ExtArgs>>): Prisma.Prisma__VaccineScheduleSetClient<runtime.Types.Result.GetResult<Prisma.$VaccineScheduleSetPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more VaccineScheduleSets.
+   * @param {VaccineScheduleSetDeleteManyArgs} args - Arguments to filter VaccineScheduleSets to delete.
+   * @example
+   * // Delete a few VaccineScheduleSets
+   * const { count } = await prisma.vaccineScheduleSet.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends VaccineScheduleSetDeleteManyArgs>(args?: Prisma.SelectSubset<T, VaccineScheduleSetDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more VaccineScheduleSets.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VaccineScheduleSetUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many VaccineScheduleSets
+   * const vaccineScheduleSet = await prisma.vaccineScheduleSet.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends VaccineScheduleSetUpdateManyArgs>(args: Prisma.SelectSubset<T, VaccineScheduleSetUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more VaccineScheduleSets and returns the data updated in the database.
+   * @param {VaccineScheduleSetUpdateManyAndReturnArgs} args - Arguments to update many VaccineScheduleSets.
+   * @example
+   * // Update many VaccineScheduleSets
+   * const vaccineScheduleSet = await prisma.vaccineScheduleSet.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more VaccineScheduleSets and only return the `id`
+   * const vaccineScheduleSetWithIdOnly = await prisma.vaccineScheduleSet.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends VaccineScheduleSetUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, VaccineScheduleSetUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$VaccineScheduleSetPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one VaccineScheduleSet.
+   * @param {VaccineScheduleSetUpsertArgs} args - Arguments to update or create a VaccineScheduleSet.
+   * @example
+   * // Update or create a VaccineScheduleSet
+   * const vaccineScheduleSet = await prisma.vaccineScheduleSet.upsert({
+   *   create: {
+   *     // ... data to create a VaccineScheduleSet
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the VaccineScheduleSet we want to update
+   *   }
+   * })
+   */
+  upsert<T extends VaccineScheduleSetUpsertArgs>(args: Prisma.SelectSubset<T, VaccineScheduleSetUpsertArgs<ExtArgs>>): Prisma.Prisma__VaccineScheduleSetClient<runtime.Types.Result.GetResult<Prisma.$VaccineScheduleSetPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of VaccineScheduleSets.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VaccineScheduleSetCountArgs} args - Arguments to filter VaccineScheduleSets to count.
+   * @example
+   * // Count the number of VaccineScheduleSets
+   * const count = await prisma.vaccineScheduleSet.count({
+   *   where: {
+   *     // ... the filter for the VaccineScheduleSets we want to count
+   *   }
+   * })
+  **/
+  count<T extends VaccineScheduleSetCountArgs>(
+    args?: Prisma.Subset<T, VaccineScheduleSetCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], VaccineScheduleSetCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a VaccineScheduleSet.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VaccineScheduleSetAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends VaccineScheduleSetAggregateArgs>(args: Prisma.Subset<T, VaccineScheduleSetAggregateArgs>): Prisma.PrismaPromise<GetVaccineScheduleSetAggregateType<T>>
+
+  /**
+   * Group by VaccineScheduleSet.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {VaccineScheduleSetGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends VaccineScheduleSetGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: VaccineScheduleSetGroupByArgs['orderBy'] }
+      : { orderBy?: VaccineScheduleSetGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, VaccineScheduleSetGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetVaccineScheduleSetGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the VaccineScheduleSet model
+ */
+readonly fields: VaccineScheduleSetFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for VaccineScheduleSet.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__VaccineScheduleSetClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  vaccines<T extends Prisma.VaccineScheduleSet$vaccinesArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.VaccineScheduleSet$vaccinesArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$VaccineSchedulePayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  clinicSettings<T extends Prisma.VaccineScheduleSet$clinicSettingsArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.VaccineScheduleSet$clinicSettingsArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$ClinicSettingPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the VaccineScheduleSet model
+ */
+export interface VaccineScheduleSetFieldRefs {
+  readonly id: Prisma.FieldRef<"VaccineScheduleSet", 'Int'>
+  readonly code: Prisma.FieldRef<"VaccineScheduleSet", 'String'>
+  readonly name: Prisma.FieldRef<"VaccineScheduleSet", 'String'>
+  readonly country: Prisma.FieldRef<"VaccineScheduleSet", 'String'>
+  readonly version: Prisma.FieldRef<"VaccineScheduleSet", 'String'>
+  readonly description: Prisma.FieldRef<"VaccineScheduleSet", 'String'>
+  readonly isDefault: Prisma.FieldRef<"VaccineScheduleSet", 'Boolean'>
+  readonly effectiveFrom: Prisma.FieldRef<"VaccineScheduleSet", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"VaccineScheduleSet", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"VaccineScheduleSet", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * VaccineScheduleSet findUnique
+ */
+export type VaccineScheduleSetFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleSet
+   */
+  select?: Prisma.VaccineScheduleSetSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VaccineScheduleSet
+   */
+  omit?: Prisma.VaccineScheduleSetOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleSetInclude<ExtArgs> | null
+  /**
+   * Filter, which VaccineScheduleSet to fetch.
+   */
+  where: Prisma.VaccineScheduleSetWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * VaccineScheduleSet findUniqueOrThrow
+ */
+export type VaccineScheduleSetFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleSet
+   */
+  select?: Prisma.VaccineScheduleSetSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VaccineScheduleSet
+   */
+  omit?: Prisma.VaccineScheduleSetOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleSetInclude<ExtArgs> | null
+  /**
+   * Filter, which VaccineScheduleSet to fetch.
+   */
+  where: Prisma.VaccineScheduleSetWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * VaccineScheduleSet findFirst
+ */
+export type VaccineScheduleSetFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleSet
+   */
+  select?: Prisma.VaccineScheduleSetSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VaccineScheduleSet
+   */
+  omit?: Prisma.VaccineScheduleSetOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleSetInclude<ExtArgs> | null
+  /**
+   * Filter, which VaccineScheduleSet to fetch.
+   */
+  where?: Prisma.VaccineScheduleSetWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of VaccineScheduleSets to fetch.
+   */
+  orderBy?: Prisma.VaccineScheduleSetOrderByWithRelationInput | Prisma.VaccineScheduleSetOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for VaccineScheduleSets.
+   */
+  cursor?: Prisma.VaccineScheduleSetWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` VaccineScheduleSets from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` VaccineScheduleSets.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of VaccineScheduleSets.
+   */
+  distinct?: Prisma.VaccineScheduleSetScalarFieldEnum | Prisma.VaccineScheduleSetScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * VaccineScheduleSet findFirstOrThrow
+ */
+export type VaccineScheduleSetFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleSet
+   */
+  select?: Prisma.VaccineScheduleSetSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VaccineScheduleSet
+   */
+  omit?: Prisma.VaccineScheduleSetOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleSetInclude<ExtArgs> | null
+  /**
+   * Filter, which VaccineScheduleSet to fetch.
+   */
+  where?: Prisma.VaccineScheduleSetWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of VaccineScheduleSets to fetch.
+   */
+  orderBy?: Prisma.VaccineScheduleSetOrderByWithRelationInput | Prisma.VaccineScheduleSetOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for VaccineScheduleSets.
+   */
+  cursor?: Prisma.VaccineScheduleSetWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` VaccineScheduleSets from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` VaccineScheduleSets.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of VaccineScheduleSets.
+   */
+  distinct?: Prisma.VaccineScheduleSetScalarFieldEnum | Prisma.VaccineScheduleSetScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * VaccineScheduleSet findMany
+ */
+export type VaccineScheduleSetFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleSet
+   */
+  select?: Prisma.VaccineScheduleSetSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VaccineScheduleSet
+   */
+  omit?: Prisma.VaccineScheduleSetOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleSetInclude<ExtArgs> | null
+  /**
+   * Filter, which VaccineScheduleSets to fetch.
+   */
+  where?: Prisma.VaccineScheduleSetWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of VaccineScheduleSets to fetch.
+   */
+  orderBy?: Prisma.VaccineScheduleSetOrderByWithRelationInput | Prisma.VaccineScheduleSetOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing VaccineScheduleSets.
+   */
+  cursor?: Prisma.VaccineScheduleSetWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` VaccineScheduleSets from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` VaccineScheduleSets.
+   */
+  skip?: number
+  distinct?: Prisma.VaccineScheduleSetScalarFieldEnum | Prisma.VaccineScheduleSetScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * VaccineScheduleSet create
+ */
+export type VaccineScheduleSetCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleSet
+   */
+  select?: Prisma.VaccineScheduleSetSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VaccineScheduleSet
+   */
+  omit?: Prisma.VaccineScheduleSetOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleSetInclude<ExtArgs> | null
+  /**
+   * The data needed to create a VaccineScheduleSet.
+   */
+  data: Prisma.XOR<Prisma.VaccineScheduleSetCreateInput, Prisma.VaccineScheduleSetUncheckedCreateInput>
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * VaccineScheduleSet createMany
+ */
+export type VaccineScheduleSetCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many VaccineScheduleSets.
+   */
+  data: Prisma.VaccineScheduleSetCreateManyInput | Prisma.VaccineScheduleSetCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * VaccineScheduleSet createManyAndReturn
+ */
+export type VaccineScheduleSetCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleSet
+   */
+  select?: Prisma.VaccineScheduleSetSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the VaccineScheduleSet
+   */
+  omit?: Prisma.VaccineScheduleSetOmit<ExtArgs> | null
+  /**
+   * The data used to create many VaccineScheduleSets.
+   */
+  data: Prisma.VaccineScheduleSetCreateManyInput | Prisma.VaccineScheduleSetCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * VaccineScheduleSet update
+ */
+export type VaccineScheduleSetUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleSet
+   */
+  select?: Prisma.VaccineScheduleSetSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VaccineScheduleSet
+   */
+  omit?: Prisma.VaccineScheduleSetOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleSetInclude<ExtArgs> | null
+  /**
+   * The data needed to update a VaccineScheduleSet.
+   */
+  data: Prisma.XOR<Prisma.VaccineScheduleSetUpdateInput, Prisma.VaccineScheduleSetUncheckedUpdateInput>
+  /**
+   * Choose, which VaccineScheduleSet to update.
+   */
+  where: Prisma.VaccineScheduleSetWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * VaccineScheduleSet updateMany
+ */
+export type VaccineScheduleSetUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update VaccineScheduleSets.
+   */
+  data: Prisma.XOR<Prisma.VaccineScheduleSetUpdateManyMutationInput, Prisma.VaccineScheduleSetUncheckedUpdateManyInput>
+  /**
+   * Filter which VaccineScheduleSets to update
+   */
+  where?: Prisma.VaccineScheduleSetWhereInput
+  /**
+   * Limit how many VaccineScheduleSets to update.
+   */
+  limit?: number
+}
+
+/**
+ * VaccineScheduleSet updateManyAndReturn
+ */
+export type VaccineScheduleSetUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleSet
+   */
+  select?: Prisma.VaccineScheduleSetSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the VaccineScheduleSet
+   */
+  omit?: Prisma.VaccineScheduleSetOmit<ExtArgs> | null
+  /**
+   * The data used to update VaccineScheduleSets.
+   */
+  data: Prisma.XOR<Prisma.VaccineScheduleSetUpdateManyMutationInput, Prisma.VaccineScheduleSetUncheckedUpdateManyInput>
+  /**
+   * Filter which VaccineScheduleSets to update
+   */
+  where?: Prisma.VaccineScheduleSetWhereInput
+  /**
+   * Limit how many VaccineScheduleSets to update.
+   */
+  limit?: number
+}
+
+/**
+ * VaccineScheduleSet upsert
+ */
+export type VaccineScheduleSetUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleSet
+   */
+  select?: Prisma.VaccineScheduleSetSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VaccineScheduleSet
+   */
+  omit?: Prisma.VaccineScheduleSetOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleSetInclude<ExtArgs> | null
+  /**
+   * The filter to search for the VaccineScheduleSet to update in case it exists.
+   */
+  where: Prisma.VaccineScheduleSetWhereUniqueInput
+  /**
+   * In case the VaccineScheduleSet found by the `where` argument doesn't exist, create a new VaccineScheduleSet with this data.
+   */
+  create: Prisma.XOR<Prisma.VaccineScheduleSetCreateInput, Prisma.VaccineScheduleSetUncheckedCreateInput>
+  /**
+   * In case the VaccineScheduleSet was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.VaccineScheduleSetUpdateInput, Prisma.VaccineScheduleSetUncheckedUpdateInput>
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * VaccineScheduleSet delete
+ */
+export type VaccineScheduleSetDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleSet
+   */
+  select?: Prisma.VaccineScheduleSetSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VaccineScheduleSet
+   */
+  omit?: Prisma.VaccineScheduleSetOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleSetInclude<ExtArgs> | null
+  /**
+   * Filter which VaccineScheduleSet to delete.
+   */
+  where: Prisma.VaccineScheduleSetWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * VaccineScheduleSet deleteMany
+ */
+export type VaccineScheduleSetDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which VaccineScheduleSets to delete
+   */
+  where?: Prisma.VaccineScheduleSetWhereInput
+  /**
+   * Limit how many VaccineScheduleSets to delete.
+   */
+  limit?: number
+}
+
+/**
+ * VaccineScheduleSet.vaccines
+ */
+export type VaccineScheduleSet$vaccinesArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineSchedule
+   */
+  select?: Prisma.VaccineScheduleSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VaccineSchedule
+   */
+  omit?: Prisma.VaccineScheduleOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleInclude<ExtArgs> | null
+  where?: Prisma.VaccineScheduleWhereInput
+  orderBy?: Prisma.VaccineScheduleOrderByWithRelationInput | Prisma.VaccineScheduleOrderByWithRelationInput[]
+  cursor?: Prisma.VaccineScheduleWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.VaccineScheduleScalarFieldEnum | Prisma.VaccineScheduleScalarFieldEnum[]
+}
+
+/**
+ * VaccineScheduleSet.clinicSettings
+ */
+export type VaccineScheduleSet$clinicSettingsArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the ClinicSetting
+   */
+  select?: Prisma.ClinicSettingSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the ClinicSetting
+   */
+  omit?: Prisma.ClinicSettingOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ClinicSettingInclude<ExtArgs> | null
+  where?: Prisma.ClinicSettingWhereInput
+  orderBy?: Prisma.ClinicSettingOrderByWithRelationInput | Prisma.ClinicSettingOrderByWithRelationInput[]
+  cursor?: Prisma.ClinicSettingWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.ClinicSettingScalarFieldEnum | Prisma.ClinicSettingScalarFieldEnum[]
+}
+
+/**
+ * VaccineScheduleSet without action
+ */
+export type VaccineScheduleSetDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the VaccineScheduleSet
+   */
+  select?: Prisma.VaccineScheduleSetSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the VaccineScheduleSet
+   */
+  omit?: Prisma.VaccineScheduleSetOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.VaccineScheduleSetInclude<ExtArgs> | null
+}
@@ -29,6 +29,7 @@ export type AggregateWHOGrowthStandard = {
 export type WHOGrowthStandardAvgAggregateOutputType = {
   ageInMonths: number | null
   ageDays: number | null
+  lengthCm: number | null
   lValue: number | null
   mValue: number | null
   sValue: number | null
@@ -46,6 +47,7 @@ export type WHOGrowthStandardAvgAggregateOutputType = {
 export type WHOGrowthStandardSumAggregateOutputType = {
   ageInMonths: number | null
   ageDays: number | null
+  lengthCm: number | null
   lValue: number | null
   mValue: number | null
   sValue: number | null
@@ -64,6 +66,8 @@ export type WHOGrowthStandardMinAggregateOutputType = {
   id: string | null
   ageInMonths: number | null
   ageDays: number | null
+  lengthCm: number | null
+  source: $Enums.GrowthReferenceSource | null
   gender: $Enums.Gender | null
   chartType: $Enums.ChartType | null
   measurementType: $Enums.MeasurementType | null
@@ -87,6 +91,8 @@ export type WHOGrowthStandardMaxAggregateOutputType = {
   id: string | null
   ageInMonths: number | null
   ageDays: number | null
+  lengthCm: number | null
+  source: $Enums.GrowthReferenceSource | null
   gender: $Enums.Gender | null
   chartType: $Enums.ChartType | null
   measurementType: $Enums.MeasurementType | null
@@ -110,6 +116,8 @@ export type WHOGrowthStandardCountAggregateOutputType = {
   id: number
   ageInMonths: number
   ageDays: number
+  lengthCm: number
+  source: number
   gender: number
   chartType: number
   measurementType: number
@@ -134,6 +142,7 @@ export type WHOGrowthStandardCountAggregateOutputType = {
 export type WHOGrowthStandardAvgAggregateInputType = {
   ageInMonths?: true
   ageDays?: true
+  lengthCm?: true
   lValue?: true
   mValue?: true
   sValue?: true
@@ -151,6 +160,7 @@ export type WHOGrowthStandardAvgAggregateInputType = {
 export type WHOGrowthStandardSumAggregateInputType = {
   ageInMonths?: true
   ageDays?: true
+  lengthCm?: true
   lValue?: true
   mValue?: true
   sValue?: true
@@ -169,6 +179,8 @@ export type WHOGrowthStandardMinAggregateInputType = {
   id?: true
   ageInMonths?: true
   ageDays?: true
+  lengthCm?: true
+  source?: true
   gender?: true
   chartType?: true
   measurementType?: true
@@ -192,6 +204,8 @@ export type WHOGrowthStandardMaxAggregateInputType = {
   id?: true
   ageInMonths?: true
   ageDays?: true
+  lengthCm?: true
+  source?: true
   gender?: true
   chartType?: true
   measurementType?: true
@@ -215,6 +229,8 @@ export type WHOGrowthStandardCountAggregateInputType = {
   id?: true
   ageInMonths?: true
   ageDays?: true
+  lengthCm?: true
+  source?: true
   gender?: true
   chartType?: true
   measurementType?: true
@@ -324,7 +340,9 @@ export type WHOGrowthStandardGroupByArgs<ExtArgs extends runtime.Types.Extension
 export type WHOGrowthStandardGroupByOutputType = {
   id: string
   ageInMonths: number | null
-  ageDays: number
+  ageDays: number | null
+  lengthCm: number | null
+  source: $Enums.GrowthReferenceSource
   gender: $Enums.Gender
   chartType: $Enums.ChartType | null
   measurementType: $Enums.MeasurementType | null
@@ -370,7 +388,9 @@ export type WHOGrowthStandardWhereInput = {
   NOT?: Prisma.WHOGrowthStandardWhereInput | Prisma.WHOGrowthStandardWhereInput[]
   id?: Prisma.StringFilter<"WHOGrowthStandard"> | string
   ageInMonths?: Prisma.IntNullableFilter<"WHOGrowthStandard"> | number | null
-  ageDays?: Prisma.IntFilter<"WHOGrowthStandard"> | number
+  ageDays?: Prisma.IntNullableFilter<"WHOGrowthStandard"> | number | null
+  lengthCm?: Prisma.FloatNullableFilter<"WHOGrowthStandard"> | number | null
+  source?: Prisma.EnumGrowthReferenceSourceFilter<"WHOGrowthStandard"> | $Enums.GrowthReferenceSource
   gender?: Prisma.EnumGenderFilter<"WHOGrowthStandard"> | $Enums.Gender
   chartType?: Prisma.EnumChartTypeNullableFilter<"WHOGrowthStandard"> | $Enums.ChartType | null
   measurementType?: Prisma.EnumMeasurementTypeNullableFilter<"WHOGrowthStandard"> | $Enums.MeasurementType | null
@@ -393,7 +413,9 @@ export type WHOGrowthStandardWhereInput = {
 export type WHOGrowthStandardOrderByWithRelationInput = {
   id?: Prisma.SortOrder
   ageInMonths?: Prisma.SortOrderInput | Prisma.SortOrder
-  ageDays?: Prisma.SortOrder
+  ageDays?: Prisma.SortOrderInput | Prisma.SortOrder
+  lengthCm?: Prisma.SortOrderInput | Prisma.SortOrder
+  source?: Prisma.SortOrder
   gender?: Prisma.SortOrder
   chartType?: Prisma.SortOrderInput | Prisma.SortOrder
   measurementType?: Prisma.SortOrderInput | Prisma.SortOrder
@@ -419,7 +441,9 @@ export type WHOGrowthStandardWhereUniqueInput = Prisma.AtLeast<{
   OR?: Prisma.WHOGrowthStandardWhereInput[]
   NOT?: Prisma.WHOGrowthStandardWhereInput | Prisma.WHOGrowthStandardWhereInput[]
   ageInMonths?: Prisma.IntNullableFilter<"WHOGrowthStandard"> | number | null
-  ageDays?: Prisma.IntFilter<"WHOGrowthStandard"> | number
+  ageDays?: Prisma.IntNullableFilter<"WHOGrowthStandard"> | number | null
+  lengthCm?: Prisma.FloatNullableFilter<"WHOGrowthStandard"> | number | null
+  source?: Prisma.EnumGrowthReferenceSourceFilter<"WHOGrowthStandard"> | $Enums.GrowthReferenceSource
   gender?: Prisma.EnumGenderFilter<"WHOGrowthStandard"> | $Enums.Gender
   chartType?: Prisma.EnumChartTypeNullableFilter<"WHOGrowthStandard"> | $Enums.ChartType | null
   measurementType?: Prisma.EnumMeasurementTypeNullableFilter<"WHOGrowthStandard"> | $Enums.MeasurementType | null
@@ -442,7 +466,9 @@ export type WHOGrowthStandardWhereUniqueInput = Prisma.AtLeast<{
 export type WHOGrowthStandardOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
   ageInMonths?: Prisma.SortOrderInput | Prisma.SortOrder
-  ageDays?: Prisma.SortOrder
+  ageDays?: Prisma.SortOrderInput | Prisma.SortOrder
+  lengthCm?: Prisma.SortOrderInput | Prisma.SortOrder
+  source?: Prisma.SortOrder
   gender?: Prisma.SortOrder
   chartType?: Prisma.SortOrderInput | Prisma.SortOrder
   measurementType?: Prisma.SortOrderInput | Prisma.SortOrder
@@ -473,7 +499,9 @@ export type WHOGrowthStandardScalarWhereWithAggregatesInput = {
   NOT?: Prisma.WHOGrowthStandardScalarWhereWithAggregatesInput | Prisma.WHOGrowthStandardScalarWhereWithAggregatesInput[]
   id?: Prisma.StringWithAggregatesFilter<"WHOGrowthStandard"> | string
   ageInMonths?: Prisma.IntNullableWithAggregatesFilter<"WHOGrowthStandard"> | number | null
-  ageDays?: Prisma.IntWithAggregatesFilter<"WHOGrowthStandard"> | number
+  ageDays?: Prisma.IntNullableWithAggregatesFilter<"WHOGrowthStandard"> | number | null
+  lengthCm?: Prisma.FloatNullableWithAggregatesFilter<"WHOGrowthStandard"> | number | null
+  source?: Prisma.EnumGrowthReferenceSourceWithAggregatesFilter<"WHOGrowthStandard"> | $Enums.GrowthReferenceSource
   gender?: Prisma.EnumGenderWithAggregatesFilter<"WHOGrowthStandard"> | $Enums.Gender
   chartType?: Prisma.EnumChartTypeNullableWithAggregatesFilter<"WHOGrowthStandard"> | $Enums.ChartType | null
   measurementType?: Prisma.EnumMeasurementTypeNullableWithAggregatesFilter<"WHOGrowthStandard"> | $Enums.MeasurementType | null
@@ -496,7 +524,9 @@ export type WHOGrowthStandardScalarWhereWithAggregatesInput = {
 export type WHOGrowthStandardCreateInput = {
   id?: string
   ageInMonths?: number | null
-  ageDays: number
+  ageDays?: number | null
+  lengthCm?: number | null
+  source?: $Enums.GrowthReferenceSource
   gender: $Enums.Gender
   chartType?: $Enums.ChartType | null
   measurementType?: $Enums.MeasurementType | null
@@ -519,7 +549,9 @@ export type WHOGrowthStandardCreateInput = {
 export type WHOGrowthStandardUncheckedCreateInput = {
   id?: string
   ageInMonths?: number | null
-  ageDays: number
+  ageDays?: number | null
+  lengthCm?: number | null
+  source?: $Enums.GrowthReferenceSource
   gender: $Enums.Gender
   chartType?: $Enums.ChartType | null
   measurementType?: $Enums.MeasurementType | null
@@ -542,7 +574,9 @@ export type WHOGrowthStandardUncheckedCreateInput = {
 export type WHOGrowthStandardUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   ageInMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
-  ageDays?: Prisma.IntFieldUpdateOperationsInput | number
+  ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lengthCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  source?: Prisma.EnumGrowthReferenceSourceFieldUpdateOperationsInput | $Enums.GrowthReferenceSource
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
   chartType?: Prisma.NullableEnumChartTypeFieldUpdateOperationsInput | $Enums.ChartType | null
   measurementType?: Prisma.NullableEnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType | null
@@ -565,7 +599,9 @@ export type WHOGrowthStandardUpdateInput = {
 export type WHOGrowthStandardUncheckedUpdateInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   ageInMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
-  ageDays?: Prisma.IntFieldUpdateOperationsInput | number
+  ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lengthCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  source?: Prisma.EnumGrowthReferenceSourceFieldUpdateOperationsInput | $Enums.GrowthReferenceSource
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
   chartType?: Prisma.NullableEnumChartTypeFieldUpdateOperationsInput | $Enums.ChartType | null
   measurementType?: Prisma.NullableEnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType | null
@@ -588,7 +624,9 @@ export type WHOGrowthStandardUncheckedUpdateInput = {
 export type WHOGrowthStandardCreateManyInput = {
   id?: string
   ageInMonths?: number | null
-  ageDays: number
+  ageDays?: number | null
+  lengthCm?: number | null
+  source?: $Enums.GrowthReferenceSource
   gender: $Enums.Gender
   chartType?: $Enums.ChartType | null
   measurementType?: $Enums.MeasurementType | null
@@ -611,7 +649,9 @@ export type WHOGrowthStandardCreateManyInput = {
 export type WHOGrowthStandardUpdateManyMutationInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   ageInMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
-  ageDays?: Prisma.IntFieldUpdateOperationsInput | number
+  ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lengthCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  source?: Prisma.EnumGrowthReferenceSourceFieldUpdateOperationsInput | $Enums.GrowthReferenceSource
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
   chartType?: Prisma.NullableEnumChartTypeFieldUpdateOperationsInput | $Enums.ChartType | null
   measurementType?: Prisma.NullableEnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType | null
@@ -634,7 +674,9 @@ export type WHOGrowthStandardUpdateManyMutationInput = {
 export type WHOGrowthStandardUncheckedUpdateManyInput = {
   id?: Prisma.StringFieldUpdateOperationsInput | string
   ageInMonths?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
-  ageDays?: Prisma.IntFieldUpdateOperationsInput | number
+  ageDays?: Prisma.NullableIntFieldUpdateOperationsInput | number | null
+  lengthCm?: Prisma.NullableFloatFieldUpdateOperationsInput | number | null
+  source?: Prisma.EnumGrowthReferenceSourceFieldUpdateOperationsInput | $Enums.GrowthReferenceSource
   gender?: Prisma.EnumGenderFieldUpdateOperationsInput | $Enums.Gender
   chartType?: Prisma.NullableEnumChartTypeFieldUpdateOperationsInput | $Enums.ChartType | null
   measurementType?: Prisma.NullableEnumMeasurementTypeFieldUpdateOperationsInput | $Enums.MeasurementType | null
@@ -658,6 +700,8 @@ export type WHOGrowthStandardCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   ageInMonths?: Prisma.SortOrder
   ageDays?: Prisma.SortOrder
+  lengthCm?: Prisma.SortOrder
+  source?: Prisma.SortOrder
   gender?: Prisma.SortOrder
   chartType?: Prisma.SortOrder
   measurementType?: Prisma.SortOrder
@@ -680,6 +724,7 @@ export type WHOGrowthStandardCountOrderByAggregateInput = {
 export type WHOGrowthStandardAvgOrderByAggregateInput = {
   ageInMonths?: Prisma.SortOrder
   ageDays?: Prisma.SortOrder
+  lengthCm?: Prisma.SortOrder
   lValue?: Prisma.SortOrder
   mValue?: Prisma.SortOrder
   sValue?: Prisma.SortOrder
@@ -698,6 +743,8 @@ export type WHOGrowthStandardMaxOrderByAggregateInput = {
   id?: Prisma.SortOrder
   ageInMonths?: Prisma.SortOrder
   ageDays?: Prisma.SortOrder
+  lengthCm?: Prisma.SortOrder
+  source?: Prisma.SortOrder
   gender?: Prisma.SortOrder
   chartType?: Prisma.SortOrder
   measurementType?: Prisma.SortOrder
@@ -721,6 +768,8 @@ export type WHOGrowthStandardMinOrderByAggregateInput = {
   id?: Prisma.SortOrder
   ageInMonths?: Prisma.SortOrder
   ageDays?: Prisma.SortOrder
+  lengthCm?: Prisma.SortOrder
+  source?: Prisma.SortOrder
   gender?: Prisma.SortOrder
   chartType?: Prisma.SortOrder
   measurementType?: Prisma.SortOrder
@@ -743,6 +792,7 @@ export type WHOGrowthStandardMinOrderByAggregateInput = {
 export type WHOGrowthStandardSumOrderByAggregateInput = {
   ageInMonths?: Prisma.SortOrder
   ageDays?: Prisma.SortOrder
+  lengthCm?: Prisma.SortOrder
   lValue?: Prisma.SortOrder
   mValue?: Prisma.SortOrder
   sValue?: Prisma.SortOrder
@@ -757,6 +807,10 @@ export type WHOGrowthStandardSumOrderByAggregateInput = {
   sd4pos?: Prisma.SortOrder
 }
 
+export type EnumGrowthReferenceSourceFieldUpdateOperationsInput = {
+  set?: $Enums.GrowthReferenceSource
+}
+
 export type EnumGenderFieldUpdateOperationsInput = {
   set?: $Enums.Gender
 }
@@ -775,6 +829,8 @@ export type WHOGrowthStandardSelect<ExtArgs extends runtime.Types.Extensions.Int
   id?: boolean
   ageInMonths?: boolean
   ageDays?: boolean
+  lengthCm?: boolean
+  source?: boolean
   gender?: boolean
   chartType?: boolean
   measurementType?: boolean
@@ -798,6 +854,8 @@ export type WHOGrowthStandardSelectCreateManyAndReturn<ExtArgs extends runtime.T
   id?: boolean
   ageInMonths?: boolean
   ageDays?: boolean
+  lengthCm?: boolean
+  source?: boolean
   gender?: boolean
   chartType?: boolean
   measurementType?: boolean
@@ -821,6 +879,8 @@ export type WHOGrowthStandardSelectUpdateManyAndReturn<ExtArgs extends runtime.T
   id?: boolean
   ageInMonths?: boolean
   ageDays?: boolean
+  lengthCm?: boolean
+  source?: boolean
   gender?: boolean
   chartType?: boolean
   measurementType?: boolean
@@ -844,6 +904,8 @@ export type WHOGrowthStandardSelectScalar = {
   id?: boolean
   ageInMonths?: boolean
   ageDays?: boolean
+  lengthCm?: boolean
+  source?: boolean
   gender?: boolean
   chartType?: boolean
   measurementType?: boolean
@@ -863,7 +925,7 @@ export type WHOGrowthStandardSelectScalar = {
   updatedAt?: boolean
 }
 
-export type WHOGrowthStandardOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "ageInMonths" | "ageDays" | "gender" | "chartType" | "measurementType" | "lValue" | "mValue" | "sValue" | "sd0" | "sd1neg" | "sd1pos" | "sd2neg" | "sd2pos" | "sd3neg" | "sd3pos" | "sd4neg" | "sd4pos" | "createdAt" | "updatedAt", ExtArgs["result"]["wHOGrowthStandard"]>
+export type WHOGrowthStandardOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "ageInMonths" | "ageDays" | "lengthCm" | "source" | "gender" | "chartType" | "measurementType" | "lValue" | "mValue" | "sValue" | "sd0" | "sd1neg" | "sd1pos" | "sd2neg" | "sd2pos" | "sd3neg" | "sd3pos" | "sd4neg" | "sd4pos" | "createdAt" | "updatedAt", ExtArgs["result"]["wHOGrowthStandard"]>
 
 export type $WHOGrowthStandardPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
   name: "WHOGrowthStandard"
@@ -871,7 +933,9 @@ export type $WHOGrowthStandardPayload<ExtArgs extends runtime.Types.Extensions.I
   scalars: runtime.Types.Extensions.GetPayloadResult<{
     id: string
     ageInMonths: number | null
-    ageDays: number
+    ageDays: number | null
+    lengthCm: number | null
+    source: $Enums.GrowthReferenceSource
     gender: $Enums.Gender
     chartType: $Enums.ChartType | null
     measurementType: $Enums.MeasurementType | null
@@ -1315,6 +1379,8 @@ export interface WHOGrowthStandardFieldRefs {
   readonly id: Prisma.FieldRef<"WHOGrowthStandard", 'String'>
   readonly ageInMonths: Prisma.FieldRef<"WHOGrowthStandard", 'Int'>
   readonly ageDays: Prisma.FieldRef<"WHOGrowthStandard", 'Int'>
+  readonly lengthCm: Prisma.FieldRef<"WHOGrowthStandard", 'Float'>
+  readonly source: Prisma.FieldRef<"WHOGrowthStandard", 'GrowthReferenceSource'>
   readonly gender: Prisma.FieldRef<"WHOGrowthStandard", 'Gender'>
   readonly chartType: Prisma.FieldRef<"WHOGrowthStandard", 'ChartType'>
   readonly measurementType: Prisma.FieldRef<"WHOGrowthStandard", 'MeasurementType'>
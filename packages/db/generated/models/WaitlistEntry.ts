@@ -0,0 +1,2702 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `WaitlistEntry` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model WaitlistEntry
+ * 
+ */
+export type WaitlistEntryModel = runtime.Types.Result.DefaultSelection<Prisma.$WaitlistEntryPayload>
+
+export type AggregateWaitlistEntry = {
+  _count: WaitlistEntryCountAggregateOutputType | null
+  _avg: WaitlistEntryAvgAggregateOutputType | null
+  _sum: WaitlistEntrySumAggregateOutputType | null
+  _min: WaitlistEntryMinAggregateOutputType | null
+  _max: WaitlistEntryMaxAggregateOutputType | null
+}
+
+export type WaitlistEntryAvgAggregateOutputType = {
+  preferredWeekdays: number | null
+  priority: number | null
+}
+
+export type WaitlistEntrySumAggregateOutputType = {
+  preferredWeekdays: number[]
+  priority: number | null
+}
+
+export type WaitlistEntryMinAggregateOutputType = {
+  id: string | null
+  clinicId: string | null
+  patientId: string | null
+  doctorId: string | null
+  specialty: string | null
+  serviceId: string | null
+  type: $Enums.AppointmentType | null
+  earliestDate: Date | null
+  latestDate: Date | null
+  preferredFromTime: string | null
+  preferredToTime: string | null
+  priority: number | null
+  status: $Enums.WaitlistEntryStatus | null
+  note: string | null
+  createdById: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type WaitlistEntryMaxAggregateOutputType = {
+  id: string | null
+  clinicId: string | null
+  patientId: string | null
+  doctorId: string | null
+  specialty: string | null
+  serviceId: string | null
+  type: $Enums.AppointmentType | null
+  earliestDate: Date | null
+  latestDate: Date | null
+  preferredFromTime: string | null
+  preferredToTime: string | null
+  priority: number | null
+  status: $Enums.WaitlistEntryStatus | null
+  note: string | null
+  createdById: string | null
+  createdAt: Date | null
+  updatedAt: Date | null
+}
+
+export type WaitlistEntryCountAggregateOutputType = {
+  id: number
+  clinicId: number
+  patientId: number
+  doctorId: number
+  specialty: number
+  serviceId: number
+  type: number
+  earliestDate: number
+  latestDate: number
+  preferredFromTime: number
+  preferredToTime: number
+  preferredWeekdays: number
+  priority: number
+  status: number
+  note: number
+  createdById: number
+  createdAt: number
+  updatedAt: number
+  _all: number
+}
+
+
+export type WaitlistEntryAvgAggregateInputType = {
+  preferredWeekdays?: true
+  priority?: true
+}
+
+export type WaitlistEntrySumAggregateInputType = {
+  preferredWeekdays?: true
+  priority?: true
+}
+
+export type WaitlistEntryMinAggregateInputType = {
+  id?: true
+  clinicId?: true
+  patientId?: true
+  doctorId?: true
+  specialty?: true
+  serviceId?: true
+  type?: true
+  earliestDate?: true
+  latestDate?: true
+  preferredFromTime?: true
+  preferredToTime?: true
+  priority?: true
+  status?: true
+  note?: true
+  createdById?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type WaitlistEntryMaxAggregateInputType = {
+  id?: true
+  clinicId?: true
+  patientId?: true
+  doctorId?: true
+  specialty?: true
+  serviceId?: true
+  type?: true
+  earliestDate?: true
+  latestDate?: true
+  preferredFromTime?: true
+  preferredToTime?: true
+  priority?: true
+  status?: true
+  note?: true
+  createdById?: true
+  createdAt?: true
+  updatedAt?: true
+}
+
+export type WaitlistEntryCountAggregateInputType = {
+  id?: true
+  clinicId?: true
+  patientId?: true
+  doctorId?: true
+  specialty?: true
+  serviceId?: true
+  type?: true
+  earliestDate?: true
+  latestDate?: true
+  preferredFromTime?: true
+  preferredToTime?: true
+  preferredWeekdays?: true
+  priority?: true
+  status?: true
+  note?: true
+  createdById?: true
+  createdAt?: true
+  updatedAt?: true
+  _all?: true
+}
+
+export type WaitlistEntryAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which WaitlistEntry to aggregate.
+   */
+  where?: Prisma.WaitlistEntryWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WaitlistEntries to fetch.
+   */
+  orderBy?: Prisma.WaitlistEntryOrderByWithRelationInput | Prisma.WaitlistEntryOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.WaitlistEntryWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WaitlistEntries from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WaitlistEntries.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned WaitlistEntries
+  **/
+  _count?: true | WaitlistEntryCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: WaitlistEntryAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: WaitlistEntrySumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: WaitlistEntryMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: WaitlistEntryMaxAggregateInputType
+}
+
+export type GetWaitlistEntryAggregateType<T extends WaitlistEntryAggregateArgs> = {
+      [P in keyof T & keyof AggregateWaitlistEntry]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateWaitlistEntry[P]>
+    : Prisma.GetScalarType<T[P], AggregateWaitlistEntry[P]>
+}
+
+
+
+
+export type WaitlistEntryGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WaitlistEntryWhereInput
+  orderBy?: Prisma.WaitlistEntryOrderByWithAggregationInput | Prisma.WaitlistEntryOrderByWithAggregationInput[]
+  by: Prisma.WaitlistEntryScalarFieldEnum[] | Prisma.WaitlistEntryScalarFieldEnum
+  having?: Prisma.WaitlistEntryScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: WaitlistEntryCountAggregateInputType | true
+  _avg?: WaitlistEntryAvgAggregateInputType
+  _sum?: WaitlistEntrySumAggregateInputType
+  _min?: WaitlistEntryMinAggregateInputType
+  _max?: WaitlistEntryMaxAggregateInputType
+}
+
+export type WaitlistEntryGroupByOutputType = {
+  id: string
+  clinicId: string
+  patientId: string
+  doctorId: string | null
+  specialty: string | null
+  serviceId: string | null
+  type: $Enums.AppointmentType
+  earliestDate: Date
+  latestDate: Date
+  preferredFromTime: string | null
+  preferredToTime: string | null
+  preferredWeekdays: number[]
+  priority: number
+  status: $Enums.WaitlistEntryStatus
+  note: string | null
+  createdById: string | null
+  createdAt: Date
+  updatedAt: Date
+  _count: WaitlistEntryCountAggregateOutputType | null
+  _avg: WaitlistEntryAvgAggregateOutputType | null
+  _sum: WaitlistEntrySumAggregateOutputType | null
+  _min: WaitlistEntryMinAggregateOutputType | null
+  _max: WaitlistEntryMaxAggregateOutputType | null
+}
+
+type GetWaitlistEntryGroupByPayload<T extends WaitlistEntryGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<WaitlistEntryGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof WaitlistEntryGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], WaitlistEntryGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], WaitlistEntryGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type WaitlistEntryWhereInput = {
+  AND?: Prisma.WaitlistEntryWhereInput | Prisma.WaitlistEntryWhereInput[]
+  OR?: Prisma.WaitlistEntryWhereInput[]
+  NOT?: Prisma.WaitlistEntryWhereInput | Prisma.WaitlistEntryWhereInput[]
+  id?: Prisma.StringFilter<"WaitlistEntry"> | string
+  clinicId?: Prisma.StringFilter<"WaitlistEntry"> | string
+  patientId?: Prisma.StringFilter<"WaitlistEntry"> | string
+  doctorId?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  specialty?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  serviceId?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  type?: Prisma.EnumAppointmentTypeFilter<"WaitlistEntry"> | $Enums.AppointmentType
+  earliestDate?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+  latestDate?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+  preferredFromTime?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  preferredToTime?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  preferredWeekdays?: Prisma.IntNullableListFilter<"WaitlistEntry">
+  priority?: Prisma.IntFilter<"WaitlistEntry"> | number
+  status?: Prisma.EnumWaitlistEntryStatusFilter<"WaitlistEntry"> | $Enums.WaitlistEntryStatus
+  note?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  createdById?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+  clinic?: Prisma.XOR<Prisma.ClinicScalarRelationFilter, Prisma.ClinicWhereInput>
+  patient?: Prisma.XOR<Prisma.PatientScalarRelationFilter, Prisma.PatientWhereInput>
+  doctor?: Prisma.XOR<Prisma.DoctorNullableScalarRelationFilter, Prisma.DoctorWhereInput> | null
+  service?: Prisma.XOR<Prisma.ServiceNullableScalarRelationFilter, Prisma.ServiceWhereInput> | null
+  offers?: Prisma.WaitlistOfferListRelationFilter
+}
+
+export type WaitlistEntryOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  patientId?: Prisma.SortOrder
+  doctorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  specialty?: Prisma.SortOrderInput | Prisma.SortOrder
+  serviceId?: Prisma.SortOrderInput | Prisma.SortOrder
+  type?: Prisma.SortOrder
+  earliestDate?: Prisma.SortOrder
+  latestDate?: Prisma.SortOrder
+  preferredFromTime?: Prisma.SortOrderInput | Prisma.SortOrder
+  preferredToTime?: Prisma.SortOrderInput | Prisma.SortOrder
+  preferredWeekdays?: Prisma.SortOrder
+  priority?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  note?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdById?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  clinic?: Prisma.ClinicOrderByWithRelationInput
+  patient?: Prisma.PatientOrderByWithRelationInput
+  doctor?: Prisma.DoctorOrderByWithRelationInput
+  service?: Prisma.ServiceOrderByWithRelationInput
+  offers?: Prisma.WaitlistOfferOrderByRelationAggregateInput
+}
+
+export type WaitlistEntryWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  AND?: Prisma.WaitlistEntryWhereInput | Prisma.WaitlistEntryWhereInput[]
+  OR?: Prisma.WaitlistEntryWhereInput[]
+  NOT?: Prisma.WaitlistEntryWhereInput | Prisma.WaitlistEntryWhereInput[]
+  clinicId?: Prisma.StringFilter<"WaitlistEntry"> | string
+  patientId?: Prisma.StringFilter<"WaitlistEntry"> | string
+  doctorId?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  specialty?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  serviceId?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  type?: Prisma.EnumAppointmentTypeFilter<"WaitlistEntry"> | $Enums.AppointmentType
+  earliestDate?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+  latestDate?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+  preferredFromTime?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  preferredToTime?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  preferredWeekdays?: Prisma.IntNullableListFilter<"WaitlistEntry">
+  priority?: Prisma.IntFilter<"WaitlistEntry"> | number
+  status?: Prisma.EnumWaitlistEntryStatusFilter<"WaitlistEntry"> | $Enums.WaitlistEntryStatus
+  note?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  createdById?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+  clinic?: Prisma.XOR<Prisma.ClinicScalarRelationFilter, Prisma.ClinicWhereInput>
+  patient?: Prisma.XOR<Prisma.PatientScalarRelationFilter, Prisma.PatientWhereInput>
+  doctor?: Prisma.XOR<Prisma.DoctorNullableScalarRelationFilter, Prisma.DoctorWhereInput> | null
+  service?: Prisma.XOR<Prisma.ServiceNullableScalarRelationFilter, Prisma.ServiceWhereInput> | null
+  offers?: Prisma.WaitlistOfferListRelationFilter
+}, "id">
+
+export type WaitlistEntryOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  patientId?: Prisma.SortOrder
+  doctorId?: Prisma.SortOrderInput | Prisma.SortOrder
+  specialty?: Prisma.SortOrderInput | Prisma.SortOrder
+  serviceId?: Prisma.SortOrderInput | Prisma.SortOrder
+  type?: Prisma.SortOrder
+  earliestDate?: Prisma.SortOrder
+  latestDate?: Prisma.SortOrder
+  preferredFromTime?: Prisma.SortOrderInput | Prisma.SortOrder
+  preferredToTime?: Prisma.SortOrderInput | Prisma.SortOrder
+  preferredWeekdays?: Prisma.SortOrder
+  priority?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  note?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdById?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+  _count?: Prisma.WaitlistEntryCountOrderByAggregateInput
+  _avg?: Prisma.WaitlistEntryAvgOrderByAggregateInput
+  _max?: Prisma.WaitlistEntryMaxOrderByAggregateInput
+  _min?: Prisma.WaitlistEntryMinOrderByAggregateInput
+  _sum?: Prisma.WaitlistEntrySumOrderByAggregateInput
+}
+
+export type WaitlistEntryScalarWhereWithAggregatesInput = {
+  AND?: Prisma.WaitlistEntryScalarWhereWithAggregatesInput | Prisma.WaitlistEntryScalarWhereWithAggregatesInput[]
+  OR?: Prisma.WaitlistEntryScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.WaitlistEntryScalarWhereWithAggregatesInput | Prisma.WaitlistEntryScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"WaitlistEntry"> | string
+  clinicId?: Prisma.StringWithAggregatesFilter<"WaitlistEntry"> | string
+  patientId?: Prisma.StringWithAggregatesFilter<"WaitlistEntry"> | string
+  doctorId?: Prisma.StringNullableWithAggregatesFilter<"WaitlistEntry"> | string | null
+  specialty?: Prisma.StringNullableWithAggregatesFilter<"WaitlistEntry"> | string | null
+  serviceId?: Prisma.StringNullableWithAggregatesFilter<"WaitlistEntry"> | string | null
+  type?: Prisma.EnumAppointmentTypeWithAggregatesFilter<"WaitlistEntry"> | $Enums.AppointmentType
+  earliestDate?: Prisma.DateTimeWithAggregatesFilter<"WaitlistEntry"> | Date | string
+  latestDate?: Prisma.DateTimeWithAggregatesFilter<"WaitlistEntry"> | Date | string
+  preferredFromTime?: Prisma.StringNullableWithAggregatesFilter<"WaitlistEntry"> | string | null
+  preferredToTime?: Prisma.StringNullableWithAggregatesFilter<"WaitlistEntry"> | string | null
+  preferredWeekdays?: Prisma.IntNullableListFilter<"WaitlistEntry">
+  priority?: Prisma.IntWithAggregatesFilter<"WaitlistEntry"> | number
+  status?: Prisma.EnumWaitlistEntryStatusWithAggregatesFilter<"WaitlistEntry"> | $Enums.WaitlistEntryStatus
+  note?: Prisma.StringNullableWithAggregatesFilter<"WaitlistEntry"> | string | null
+  createdById?: Prisma.StringNullableWithAggregatesFilter<"WaitlistEntry"> | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"WaitlistEntry"> | Date | string
+  updatedAt?: Prisma.DateTimeWithAggregatesFilter<"WaitlistEntry"> | Date | string
+}
+
+export type WaitlistEntryCreateInput = {
+  id?: string
+  specialty?: string | null
+  type?: $Enums.AppointmentType
+  earliestDate: Date | string
+  latestDate: Date | string
+  preferredFromTime?: string | null
+  preferredToTime?: string | null
+  preferredWeekdays?: Prisma.WaitlistEntryCreatepreferredWeekdaysInput | number[]
+  priority?: number
+  status?: $Enums.WaitlistEntryStatus
+  note?: string | null
+  createdById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  clinic: Prisma.ClinicCreateNestedOneWithoutWaitlistEntriesInput
+  patient: Prisma.PatientCreateNestedOneWithoutWaitlistEntriesInput
+  doctor?: Prisma.DoctorCreateNestedOneWithoutWaitlistEntriesInput
+  service?: Prisma.ServiceCreateNestedOneWithoutWaitlistEntriesInput
+  offers?: Prisma.WaitlistOfferCreateNestedManyWithoutEntryInput
+}
+
+export type WaitlistEntryUncheckedCreateInput = {
+  id?: string
+  clinicId: string
+  patientId: string
+  doctorId?: string | null
+  specialty?: string | null
+  serviceId?: string | null
+  type?: $Enums.AppointmentType
+  earliestDate: Date | string
+  latestDate: Date | string
+  preferredFromTime?: string | null
+  preferredToTime?: string | null
+  preferredWeekdays?: Prisma.WaitlistEntryCreatepreferredWeekdaysInput | number[]
+  priority?: number
+  status?: $Enums.WaitlistEntryStatus
+  note?: string | null
+  createdById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  offers?: Prisma.WaitlistOfferUncheckedCreateNestedManyWithoutEntryInput
+}
+
+export type WaitlistEntryUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  specialty?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  earliestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  latestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  preferredFromTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredToTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredWeekdays?: Prisma.WaitlistEntryUpdatepreferredWeekdaysInput | number[]
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistEntryStatusFieldUpdateOperationsInput | $Enums.WaitlistEntryStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutWaitlistEntriesNestedInput
+  patient?: Prisma.PatientUpdateOneRequiredWithoutWaitlistEntriesNestedInput
+  doctor?: Prisma.DoctorUpdateOneWithoutWaitlistEntriesNestedInput
+  service?: Prisma.ServiceUpdateOneWithoutWaitlistEntriesNestedInput
+  offers?: Prisma.WaitlistOfferUpdateManyWithoutEntryNestedInput
+}
+
+export type WaitlistEntryUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  specialty?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  serviceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  earliestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  latestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  preferredFromTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredToTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredWeekdays?: Prisma.WaitlistEntryUpdatepreferredWeekdaysInput | number[]
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistEntryStatusFieldUpdateOperationsInput | $Enums.WaitlistEntryStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  offers?: Prisma.WaitlistOfferUncheckedUpdateManyWithoutEntryNestedInput
+}
+
+export type WaitlistEntryCreateManyInput = {
+  id?: string
+  clinicId: string
+  patientId: string
+  doctorId?: string | null
+  specialty?: string | null
+  serviceId?: string | null
+  type?: $Enums.AppointmentType
+  earliestDate: Date | string
+  latestDate: Date | string
+  preferredFromTime?: string | null
+  preferredToTime?: string | null
+  preferredWeekdays?: Prisma.WaitlistEntryCreatepreferredWeekdaysInput | number[]
+  priority?: number
+  status?: $Enums.WaitlistEntryStatus
+  note?: string | null
+  createdById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WaitlistEntryUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  specialty?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  earliestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  latestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  preferredFromTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredToTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredWeekdays?: Prisma.WaitlistEntryUpdatepreferredWeekdaysInput | number[]
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistEntryStatusFieldUpdateOperationsInput | $Enums.WaitlistEntryStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistEntryUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  specialty?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  serviceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  earliestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  latestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  preferredFromTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredToTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredWeekdays?: Prisma.WaitlistEntryUpdatepreferredWeekdaysInput | number[]
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistEntryStatusFieldUpdateOperationsInput | $Enums.WaitlistEntryStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistEntryListRelationFilter = {
+  every?: Prisma.WaitlistEntryWhereInput
+  some?: Prisma.WaitlistEntryWhereInput
+  none?: Prisma.WaitlistEntryWhereInput
+}
+
+export type WaitlistEntryOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type IntNullableListFilter<$PrismaModel = never> = {
+  equals?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel> | null
+  has?: number | Prisma.IntFieldRefInput<$PrismaModel> | null
+  hasEvery?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  hasSome?: number[] | Prisma.ListIntFieldRefInput<$PrismaModel>
+  isEmpty?: boolean
+}
+
+export type WaitlistEntryCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  patientId?: Prisma.SortOrder
+  doctorId?: Prisma.SortOrder
+  specialty?: Prisma.SortOrder
+  serviceId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  earliestDate?: Prisma.SortOrder
+  latestDate?: Prisma.SortOrder
+  preferredFromTime?: Prisma.SortOrder
+  preferredToTime?: Prisma.SortOrder
+  preferredWeekdays?: Prisma.SortOrder
+  priority?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  note?: Prisma.SortOrder
+  createdById?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type WaitlistEntryAvgOrderByAggregateInput = {
+  preferredWeekdays?: Prisma.SortOrder
+  priority?: Prisma.SortOrder
+}
+
+export type WaitlistEntryMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  patientId?: Prisma.SortOrder
+  doctorId?: Prisma.SortOrder
+  specialty?: Prisma.SortOrder
+  serviceId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  earliestDate?: Prisma.SortOrder
+  latestDate?: Prisma.SortOrder
+  preferredFromTime?: Prisma.SortOrder
+  preferredToTime?: Prisma.SortOrder
+  priority?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  note?: Prisma.SortOrder
+  createdById?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type WaitlistEntryMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  patientId?: Prisma.SortOrder
+  doctorId?: Prisma.SortOrder
+  specialty?: Prisma.SortOrder
+  serviceId?: Prisma.SortOrder
+  type?: Prisma.SortOrder
+  earliestDate?: Prisma.SortOrder
+  latestDate?: Prisma.SortOrder
+  preferredFromTime?: Prisma.SortOrder
+  preferredToTime?: Prisma.SortOrder
+  priority?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  note?: Prisma.SortOrder
+  createdById?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  updatedAt?: Prisma.SortOrder
+}
+
+export type WaitlistEntrySumOrderByAggregateInput = {
+  preferredWeekdays?: Prisma.SortOrder
+  priority?: Prisma.SortOrder
+}
+
+export type WaitlistEntryScalarRelationFilter = {
+  is?: Prisma.WaitlistEntryWhereInput
+  isNot?: Prisma.WaitlistEntryWhereInput
+}
+
+export type WaitlistEntryCreateNestedManyWithoutClinicInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutClinicInput, Prisma.WaitlistEntryUncheckedCreateWithoutClinicInput> | Prisma.WaitlistEntryCreateWithoutClinicInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutClinicInput | Prisma.WaitlistEntryCreateOrConnectWithoutClinicInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyClinicInputEnvelope
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+}
+
+export type WaitlistEntryUncheckedCreateNestedManyWithoutClinicInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutClinicInput, Prisma.WaitlistEntryUncheckedCreateWithoutClinicInput> | Prisma.WaitlistEntryCreateWithoutClinicInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutClinicInput | Prisma.WaitlistEntryCreateOrConnectWithoutClinicInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyClinicInputEnvelope
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+}
+
+export type WaitlistEntryUpdateManyWithoutClinicNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutClinicInput, Prisma.WaitlistEntryUncheckedCreateWithoutClinicInput> | Prisma.WaitlistEntryCreateWithoutClinicInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutClinicInput | Prisma.WaitlistEntryCreateOrConnectWithoutClinicInput[]
+  upsert?: Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutClinicInput | Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutClinicInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyClinicInputEnvelope
+  set?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  disconnect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  delete?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  update?: Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutClinicInput | Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutClinicInput[]
+  updateMany?: Prisma.WaitlistEntryUpdateManyWithWhereWithoutClinicInput | Prisma.WaitlistEntryUpdateManyWithWhereWithoutClinicInput[]
+  deleteMany?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+}
+
+export type WaitlistEntryUncheckedUpdateManyWithoutClinicNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutClinicInput, Prisma.WaitlistEntryUncheckedCreateWithoutClinicInput> | Prisma.WaitlistEntryCreateWithoutClinicInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutClinicInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutClinicInput | Prisma.WaitlistEntryCreateOrConnectWithoutClinicInput[]
+  upsert?: Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutClinicInput | Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutClinicInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyClinicInputEnvelope
+  set?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  disconnect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  delete?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  update?: Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutClinicInput | Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutClinicInput[]
+  updateMany?: Prisma.WaitlistEntryUpdateManyWithWhereWithoutClinicInput | Prisma.WaitlistEntryUpdateManyWithWhereWithoutClinicInput[]
+  deleteMany?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+}
+
+export type WaitlistEntryCreateNestedManyWithoutDoctorInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutDoctorInput, Prisma.WaitlistEntryUncheckedCreateWithoutDoctorInput> | Prisma.WaitlistEntryCreateWithoutDoctorInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutDoctorInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutDoctorInput | Prisma.WaitlistEntryCreateOrConnectWithoutDoctorInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyDoctorInputEnvelope
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+}
+
+export type WaitlistEntryUncheckedCreateNestedManyWithoutDoctorInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutDoctorInput, Prisma.WaitlistEntryUncheckedCreateWithoutDoctorInput> | Prisma.WaitlistEntryCreateWithoutDoctorInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutDoctorInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutDoctorInput | Prisma.WaitlistEntryCreateOrConnectWithoutDoctorInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyDoctorInputEnvelope
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+}
+
+export type WaitlistEntryUpdateManyWithoutDoctorNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutDoctorInput, Prisma.WaitlistEntryUncheckedCreateWithoutDoctorInput> | Prisma.WaitlistEntryCreateWithoutDoctorInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutDoctorInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutDoctorInput | Prisma.WaitlistEntryCreateOrConnectWithoutDoctorInput[]
+  upsert?: Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutDoctorInput | Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutDoctorInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyDoctorInputEnvelope
+  set?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  disconnect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  delete?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  update?: Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutDoctorInput | Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutDoctorInput[]
+  updateMany?: Prisma.WaitlistEntryUpdateManyWithWhereWithoutDoctorInput | Prisma.WaitlistEntryUpdateManyWithWhereWithoutDoctorInput[]
+  deleteMany?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+}
+
+export type WaitlistEntryUncheckedUpdateManyWithoutDoctorNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutDoctorInput, Prisma.WaitlistEntryUncheckedCreateWithoutDoctorInput> | Prisma.WaitlistEntryCreateWithoutDoctorInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutDoctorInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutDoctorInput | Prisma.WaitlistEntryCreateOrConnectWithoutDoctorInput[]
+  upsert?: Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutDoctorInput | Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutDoctorInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyDoctorInputEnvelope
+  set?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  disconnect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  delete?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  update?: Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutDoctorInput | Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutDoctorInput[]
+  updateMany?: Prisma.WaitlistEntryUpdateManyWithWhereWithoutDoctorInput | Prisma.WaitlistEntryUpdateManyWithWhereWithoutDoctorInput[]
+  deleteMany?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+}
+
+export type WaitlistEntryCreateNestedManyWithoutServiceInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutServiceInput, Prisma.WaitlistEntryUncheckedCreateWithoutServiceInput> | Prisma.WaitlistEntryCreateWithoutServiceInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutServiceInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutServiceInput | Prisma.WaitlistEntryCreateOrConnectWithoutServiceInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyServiceInputEnvelope
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+}
+
+export type WaitlistEntryUncheckedCreateNestedManyWithoutServiceInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutServiceInput, Prisma.WaitlistEntryUncheckedCreateWithoutServiceInput> | Prisma.WaitlistEntryCreateWithoutServiceInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutServiceInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutServiceInput | Prisma.WaitlistEntryCreateOrConnectWithoutServiceInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyServiceInputEnvelope
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+}
+
+export type WaitlistEntryUpdateManyWithoutServiceNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutServiceInput, Prisma.WaitlistEntryUncheckedCreateWithoutServiceInput> | Prisma.WaitlistEntryCreateWithoutServiceInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutServiceInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutServiceInput | Prisma.WaitlistEntryCreateOrConnectWithoutServiceInput[]
+  upsert?: Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutServiceInput | Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutServiceInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyServiceInputEnvelope
+  set?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  disconnect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  delete?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  update?: Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutServiceInput | Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutServiceInput[]
+  updateMany?: Prisma.WaitlistEntryUpdateManyWithWhereWithoutServiceInput | Prisma.WaitlistEntryUpdateManyWithWhereWithoutServiceInput[]
+  deleteMany?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+}
+
+export type WaitlistEntryUncheckedUpdateManyWithoutServiceNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutServiceInput, Prisma.WaitlistEntryUncheckedCreateWithoutServiceInput> | Prisma.WaitlistEntryCreateWithoutServiceInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutServiceInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutServiceInput | Prisma.WaitlistEntryCreateOrConnectWithoutServiceInput[]
+  upsert?: Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutServiceInput | Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutServiceInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyServiceInputEnvelope
+  set?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  disconnect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  delete?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  update?: Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutServiceInput | Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutServiceInput[]
+  updateMany?: Prisma.WaitlistEntryUpdateManyWithWhereWithoutServiceInput | Prisma.WaitlistEntryUpdateManyWithWhereWithoutServiceInput[]
+  deleteMany?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+}
+
+export type WaitlistEntryCreateNestedManyWithoutPatientInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutPatientInput, Prisma.WaitlistEntryUncheckedCreateWithoutPatientInput> | Prisma.WaitlistEntryCreateWithoutPatientInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutPatientInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutPatientInput | Prisma.WaitlistEntryCreateOrConnectWithoutPatientInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyPatientInputEnvelope
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+}
+
+export type WaitlistEntryUncheckedCreateNestedManyWithoutPatientInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutPatientInput, Prisma.WaitlistEntryUncheckedCreateWithoutPatientInput> | Prisma.WaitlistEntryCreateWithoutPatientInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutPatientInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutPatientInput | Prisma.WaitlistEntryCreateOrConnectWithoutPatientInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyPatientInputEnvelope
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+}
+
+export type WaitlistEntryUpdateManyWithoutPatientNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutPatientInput, Prisma.WaitlistEntryUncheckedCreateWithoutPatientInput> | Prisma.WaitlistEntryCreateWithoutPatientInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutPatientInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutPatientInput | Prisma.WaitlistEntryCreateOrConnectWithoutPatientInput[]
+  upsert?: Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutPatientInput | Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutPatientInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyPatientInputEnvelope
+  set?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  disconnect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  delete?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  update?: Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutPatientInput | Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutPatientInput[]
+  updateMany?: Prisma.WaitlistEntryUpdateManyWithWhereWithoutPatientInput | Prisma.WaitlistEntryUpdateManyWithWhereWithoutPatientInput[]
+  deleteMany?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+}
+
+export type WaitlistEntryUncheckedUpdateManyWithoutPatientNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutPatientInput, Prisma.WaitlistEntryUncheckedCreateWithoutPatientInput> | Prisma.WaitlistEntryCreateWithoutPatientInput[] | Prisma.WaitlistEntryUncheckedCreateWithoutPatientInput[]
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutPatientInput | Prisma.WaitlistEntryCreateOrConnectWithoutPatientInput[]
+  upsert?: Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutPatientInput | Prisma.WaitlistEntryUpsertWithWhereUniqueWithoutPatientInput[]
+  createMany?: Prisma.WaitlistEntryCreateManyPatientInputEnvelope
+  set?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  disconnect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  delete?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  connect?: Prisma.WaitlistEntryWhereUniqueInput | Prisma.WaitlistEntryWhereUniqueInput[]
+  update?: Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutPatientInput | Prisma.WaitlistEntryUpdateWithWhereUniqueWithoutPatientInput[]
+  updateMany?: Prisma.WaitlistEntryUpdateManyWithWhereWithoutPatientInput | Prisma.WaitlistEntryUpdateManyWithWhereWithoutPatientInput[]
+  deleteMany?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+}
+
+export type WaitlistEntryCreatepreferredWeekdaysInput = {
+  set: number[]
+}
+
+export type WaitlistEntryUpdatepreferredWeekdaysInput = {
+  set?: number[]
+  push?: number | number[]
+}
+
+export type EnumWaitlistEntryStatusFieldUpdateOperationsInput = {
+  set?: $Enums.WaitlistEntryStatus
+}
+
+export type WaitlistEntryCreateNestedOneWithoutOffersInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutOffersInput, Prisma.WaitlistEntryUncheckedCreateWithoutOffersInput>
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutOffersInput
+  connect?: Prisma.WaitlistEntryWhereUniqueInput
+}
+
+export type WaitlistEntryUpdateOneRequiredWithoutOffersNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutOffersInput, Prisma.WaitlistEntryUncheckedCreateWithoutOffersInput>
+  connectOrCreate?: Prisma.WaitlistEntryCreateOrConnectWithoutOffersInput
+  upsert?: Prisma.WaitlistEntryUpsertWithoutOffersInput
+  connect?: Prisma.WaitlistEntryWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.WaitlistEntryUpdateToOneWithWhereWithoutOffersInput, Prisma.WaitlistEntryUpdateWithoutOffersInput>, Prisma.WaitlistEntryUncheckedUpdateWithoutOffersInput>
+}
+
+export type WaitlistEntryCreateWithoutClinicInput = {
+  id?: string
+  specialty?: string | null
+  type?: $Enums.AppointmentType
+  earliestDate: Date | string
+  latestDate: Date | string
+  preferredFromTime?: string | null
+  preferredToTime?: string | null
+  preferredWeekdays?: Prisma.WaitlistEntryCreatepreferredWeekdaysInput | number[]
+  priority?: number
+  status?: $Enums.WaitlistEntryStatus
+  note?: string | null
+  createdById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  patient: Prisma.PatientCreateNestedOneWithoutWaitlistEntriesInput
+  doctor?: Prisma.DoctorCreateNestedOneWithoutWaitlistEntriesInput
+  service?: Prisma.ServiceCreateNestedOneWithoutWaitlistEntriesInput
+  offers?: Prisma.WaitlistOfferCreateNestedManyWithoutEntryInput
+}
+
+export type WaitlistEntryUncheckedCreateWithoutClinicInput = {
+  id?: string
+  patientId: string
+  doctorId?: string | null
+  specialty?: string | null
+  serviceId?: string | null
+  type?: $Enums.AppointmentType
+  earliestDate: Date | string
+  latestDate: Date | string
+  preferredFromTime?: string | null
+  preferredToTime?: string | null
+  preferredWeekdays?: Prisma.WaitlistEntryCreatepreferredWeekdaysInput | number[]
+  priority?: number
+  status?: $Enums.WaitlistEntryStatus
+  note?: string | null
+  createdById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  offers?: Prisma.WaitlistOfferUncheckedCreateNestedManyWithoutEntryInput
+}
+
+export type WaitlistEntryCreateOrConnectWithoutClinicInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutClinicInput, Prisma.WaitlistEntryUncheckedCreateWithoutClinicInput>
+}
+
+export type WaitlistEntryCreateManyClinicInputEnvelope = {
+  data: Prisma.WaitlistEntryCreateManyClinicInput | Prisma.WaitlistEntryCreateManyClinicInput[]
+  skipDuplicates?: boolean
+}
+
+export type WaitlistEntryUpsertWithWhereUniqueWithoutClinicInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  update: Prisma.XOR<Prisma.WaitlistEntryUpdateWithoutClinicInput, Prisma.WaitlistEntryUncheckedUpdateWithoutClinicInput>
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutClinicInput, Prisma.WaitlistEntryUncheckedCreateWithoutClinicInput>
+}
+
+export type WaitlistEntryUpdateWithWhereUniqueWithoutClinicInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateWithoutClinicInput, Prisma.WaitlistEntryUncheckedUpdateWithoutClinicInput>
+}
+
+export type WaitlistEntryUpdateManyWithWhereWithoutClinicInput = {
+  where: Prisma.WaitlistEntryScalarWhereInput
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateManyMutationInput, Prisma.WaitlistEntryUncheckedUpdateManyWithoutClinicInput>
+}
+
+export type WaitlistEntryScalarWhereInput = {
+  AND?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+  OR?: Prisma.WaitlistEntryScalarWhereInput[]
+  NOT?: Prisma.WaitlistEntryScalarWhereInput | Prisma.WaitlistEntryScalarWhereInput[]
+  id?: Prisma.StringFilter<"WaitlistEntry"> | string
+  clinicId?: Prisma.StringFilter<"WaitlistEntry"> | string
+  patientId?: Prisma.StringFilter<"WaitlistEntry"> | string
+  doctorId?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  specialty?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  serviceId?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  type?: Prisma.EnumAppointmentTypeFilter<"WaitlistEntry"> | $Enums.AppointmentType
+  earliestDate?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+  latestDate?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+  preferredFromTime?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  preferredToTime?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  preferredWeekdays?: Prisma.IntNullableListFilter<"WaitlistEntry">
+  priority?: Prisma.IntFilter<"WaitlistEntry"> | number
+  status?: Prisma.EnumWaitlistEntryStatusFilter<"WaitlistEntry"> | $Enums.WaitlistEntryStatus
+  note?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  createdById?: Prisma.StringNullableFilter<"WaitlistEntry"> | string | null
+  createdAt?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+  updatedAt?: Prisma.DateTimeFilter<"WaitlistEntry"> | Date | string
+}
+
+export type WaitlistEntryCreateWithoutDoctorInput = {
+  id?: string
+  specialty?: string | null
+  type?: $Enums.AppointmentType
+  earliestDate: Date | string
+  latestDate: Date | string
+  preferredFromTime?: string | null
+  preferredToTime?: string | null
+  preferredWeekdays?: Prisma.WaitlistEntryCreatepreferredWeekdaysInput | number[]
+  priority?: number
+  status?: $Enums.WaitlistEntryStatus
+  note?: string | null
+  createdById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  clinic: Prisma.ClinicCreateNestedOneWithoutWaitlistEntriesInput
+  patient: Prisma.PatientCreateNestedOneWithoutWaitlistEntriesInput
+  service?: Prisma.ServiceCreateNestedOneWithoutWaitlistEntriesInput
+  offers?: Prisma.WaitlistOfferCreateNestedManyWithoutEntryInput
+}
+
+export type WaitlistEntryUncheckedCreateWithoutDoctorInput = {
+  id?: string
+  clinicId: string
+  patientId: string
+  specialty?: string | null
+  serviceId?: string | null
+  type?: $Enums.AppointmentType
+  earliestDate: Date | string
+  latestDate: Date | string
+  preferredFromTime?: string | null
+  preferredToTime?: string | null
+  preferredWeekdays?: Prisma.WaitlistEntryCreatepreferredWeekdaysInput | number[]
+  priority?: number
+  status?: $Enums.WaitlistEntryStatus
+  note?: string | null
+  createdById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  offers?: Prisma.WaitlistOfferUncheckedCreateNestedManyWithoutEntryInput
+}
+
+export type WaitlistEntryCreateOrConnectWithoutDoctorInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutDoctorInput, Prisma.WaitlistEntryUncheckedCreateWithoutDoctorInput>
+}
+
+export type WaitlistEntryCreateManyDoctorInputEnvelope = {
+  data: Prisma.WaitlistEntryCreateManyDoctorInput | Prisma.WaitlistEntryCreateManyDoctorInput[]
+  skipDuplicates?: boolean
+}
+
+export type WaitlistEntryUpsertWithWhereUniqueWithoutDoctorInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  update: Prisma.XOR<Prisma.WaitlistEntryUpdateWithoutDoctorInput, Prisma.WaitlistEntryUncheckedUpdateWithoutDoctorInput>
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutDoctorInput, Prisma.WaitlistEntryUncheckedCreateWithoutDoctorInput>
+}
+
+export type WaitlistEntryUpdateWithWhereUniqueWithoutDoctorInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateWithoutDoctorInput, Prisma.WaitlistEntryUncheckedUpdateWithoutDoctorInput>
+}
+
+export type WaitlistEntryUpdateManyWithWhereWithoutDoctorInput = {
+  where: Prisma.WaitlistEntryScalarWhereInput
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateManyMutationInput, Prisma.WaitlistEntryUncheckedUpdateManyWithoutDoctorInput>
+}
+
+export type WaitlistEntryCreateWithoutServiceInput = {
+  id?: string
+  specialty?: string | null
+  type?: $Enums.AppointmentType
+  earliestDate: Date | string
+  latestDate: Date | string
+  preferredFromTime?: string | null
+  preferredToTime?: string | null
+  preferredWeekdays?: Prisma.WaitlistEntryCreatepreferredWeekdaysInput | number[]
+  priority?: number
+  status?: $Enums.WaitlistEntryStatus
+  note?: string | null
+  createdById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  clinic: Prisma.ClinicCreateNestedOneWithoutWaitlistEntriesInput
+  patient: Prisma.PatientCreateNestedOneWithoutWaitlistEntriesInput
+  doctor?: Prisma.DoctorCreateNestedOneWithoutWaitlistEntriesInput
+  offers?: Prisma.WaitlistOfferCreateNestedManyWithoutEntryInput
+}
+
+export type WaitlistEntryUncheckedCreateWithoutServiceInput = {
+  id?: string
+  clinicId: string
+  patientId: string
+  doctorId?: string | null
+  specialty?: string | null
+  type?: $Enums.AppointmentType
+  earliestDate: Date | string
+  latestDate: Date | string
+  preferredFromTime?: string | null
+  preferredToTime?: string | null
+  preferredWeekdays?: Prisma.WaitlistEntryCreatepreferredWeekdaysInput | number[]
+  priority?: number
+  status?: $Enums.WaitlistEntryStatus
+  note?: string | null
+  createdById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  offers?: Prisma.WaitlistOfferUncheckedCreateNestedManyWithoutEntryInput
+}
+
+export type WaitlistEntryCreateOrConnectWithoutServiceInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutServiceInput, Prisma.WaitlistEntryUncheckedCreateWithoutServiceInput>
+}
+
+export type WaitlistEntryCreateManyServiceInputEnvelope = {
+  data: Prisma.WaitlistEntryCreateManyServiceInput | Prisma.WaitlistEntryCreateManyServiceInput[]
+  skipDuplicates?: boolean
+}
+
+export type WaitlistEntryUpsertWithWhereUniqueWithoutServiceInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  update: Prisma.XOR<Prisma.WaitlistEntryUpdateWithoutServiceInput, Prisma.WaitlistEntryUncheckedUpdateWithoutServiceInput>
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutServiceInput, Prisma.WaitlistEntryUncheckedCreateWithoutServiceInput>
+}
+
+export type WaitlistEntryUpdateWithWhereUniqueWithoutServiceInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateWithoutServiceInput, Prisma.WaitlistEntryUncheckedUpdateWithoutServiceInput>
+}
+
+export type WaitlistEntryUpdateManyWithWhereWithoutServiceInput = {
+  where: Prisma.WaitlistEntryScalarWhereInput
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateManyMutationInput, Prisma.WaitlistEntryUncheckedUpdateManyWithoutServiceInput>
+}
+
+export type WaitlistEntryCreateWithoutPatientInput = {
+  id?: string
+  specialty?: string | null
+  type?: $Enums.AppointmentType
+  earliestDate: Date | string
+  latestDate: Date | string
+  preferredFromTime?: string | null
+  preferredToTime?: string | null
+  preferredWeekdays?: Prisma.WaitlistEntryCreatepreferredWeekdaysInput | number[]
+  priority?: number
+  status?: $Enums.WaitlistEntryStatus
+  note?: string | null
+  createdById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  clinic: Prisma.ClinicCreateNestedOneWithoutWaitlistEntriesInput
+  doctor?: Prisma.DoctorCreateNestedOneWithoutWaitlistEntriesInput
+  service?: Prisma.ServiceCreateNestedOneWithoutWaitlistEntriesInput
+  offers?: Prisma.WaitlistOfferCreateNestedManyWithoutEntryInput
+}
+
+export type WaitlistEntryUncheckedCreateWithoutPatientInput = {
+  id?: string
+  clinicId: string
+  doctorId?: string | null
+  specialty?: string | null
+  serviceId?: string | null
+  type?: $Enums.AppointmentType
+  earliestDate: Date | string
+  latestDate: Date | string
+  preferredFromTime?: string | null
+  preferredToTime?: string | null
+  preferredWeekdays?: Prisma.WaitlistEntryCreatepreferredWeekdaysInput | number[]
+  priority?: number
+  status?: $Enums.WaitlistEntryStatus
+  note?: string | null
+  createdById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  offers?: Prisma.WaitlistOfferUncheckedCreateNestedManyWithoutEntryInput
+}
+
+export type WaitlistEntryCreateOrConnectWithoutPatientInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutPatientInput, Prisma.WaitlistEntryUncheckedCreateWithoutPatientInput>
+}
+
+export type WaitlistEntryCreateManyPatientInputEnvelope = {
+  data: Prisma.WaitlistEntryCreateManyPatientInput | Prisma.WaitlistEntryCreateManyPatientInput[]
+  skipDuplicates?: boolean
+}
+
+export type WaitlistEntryUpsertWithWhereUniqueWithoutPatientInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  update: Prisma.XOR<Prisma.WaitlistEntryUpdateWithoutPatientInput, Prisma.WaitlistEntryUncheckedUpdateWithoutPatientInput>
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutPatientInput, Prisma.WaitlistEntryUncheckedCreateWithoutPatientInput>
+}
+
+export type WaitlistEntryUpdateWithWhereUniqueWithoutPatientInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateWithoutPatientInput, Prisma.WaitlistEntryUncheckedUpdateWithoutPatientInput>
+}
+
+export type WaitlistEntryUpdateManyWithWhereWithoutPatientInput = {
+  where: Prisma.WaitlistEntryScalarWhereInput
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateManyMutationInput, Prisma.WaitlistEntryUncheckedUpdateManyWithoutPatientInput>
+}
+
+export type WaitlistEntryCreateWithoutOffersInput = {
+  id?: string
+  specialty?: string | null
+  type?: $Enums.AppointmentType
+  earliestDate: Date | string
+  latestDate: Date | string
+  preferredFromTime?: string | null
+  preferredToTime?: string | null
+  preferredWeekdays?: Prisma.WaitlistEntryCreatepreferredWeekdaysInput | number[]
+  priority?: number
+  status?: $Enums.WaitlistEntryStatus
+  note?: string | null
+  createdById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+  clinic: Prisma.ClinicCreateNestedOneWithoutWaitlistEntriesInput
+  patient: Prisma.PatientCreateNestedOneWithoutWaitlistEntriesInput
+  doctor?: Prisma.DoctorCreateNestedOneWithoutWaitlistEntriesInput
+  service?: Prisma.ServiceCreateNestedOneWithoutWaitlistEntriesInput
+}
+
+export type WaitlistEntryUncheckedCreateWithoutOffersInput = {
+  id?: string
+  clinicId: string
+  patientId: string
+  doctorId?: string | null
+  specialty?: string | null
+  serviceId?: string | null
+  type?: $Enums.AppointmentType
+  earliestDate: Date | string
+  latestDate: Date | string
+  preferredFromTime?: string | null
+  preferredToTime?: string | null
+  preferredWeekdays?: Prisma.WaitlistEntryCreatepreferredWeekdaysInput | number[]
+  priority?: number
+  status?: $Enums.WaitlistEntryStatus
+  note?: string | null
+  createdById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WaitlistEntryCreateOrConnectWithoutOffersInput = {
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutOffersInput, Prisma.WaitlistEntryUncheckedCreateWithoutOffersInput>
+}
+
+export type WaitlistEntryUpsertWithoutOffersInput = {
+  update: Prisma.XOR<Prisma.WaitlistEntryUpdateWithoutOffersInput, Prisma.WaitlistEntryUncheckedUpdateWithoutOffersInput>
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateWithoutOffersInput, Prisma.WaitlistEntryUncheckedCreateWithoutOffersInput>
+  where?: Prisma.WaitlistEntryWhereInput
+}
+
+export type WaitlistEntryUpdateToOneWithWhereWithoutOffersInput = {
+  where?: Prisma.WaitlistEntryWhereInput
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateWithoutOffersInput, Prisma.WaitlistEntryUncheckedUpdateWithoutOffersInput>
+}
+
+export type WaitlistEntryUpdateWithoutOffersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  specialty?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  earliestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  latestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  preferredFromTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredToTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredWeekdays?: Prisma.WaitlistEntryUpdatepreferredWeekdaysInput | number[]
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistEntryStatusFieldUpdateOperationsInput | $Enums.WaitlistEntryStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutWaitlistEntriesNestedInput
+  patient?: Prisma.PatientUpdateOneRequiredWithoutWaitlistEntriesNestedInput
+  doctor?: Prisma.DoctorUpdateOneWithoutWaitlistEntriesNestedInput
+  service?: Prisma.ServiceUpdateOneWithoutWaitlistEntriesNestedInput
+}
+
+export type WaitlistEntryUncheckedUpdateWithoutOffersInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  specialty?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  serviceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  earliestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  latestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  preferredFromTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredToTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredWeekdays?: Prisma.WaitlistEntryUpdatepreferredWeekdaysInput | number[]
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistEntryStatusFieldUpdateOperationsInput | $Enums.WaitlistEntryStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistEntryCreateManyClinicInput = {
+  id?: string
+  patientId: string
+  doctorId?: string | null
+  specialty?: string | null
+  serviceId?: string | null
+  type?: $Enums.AppointmentType
+  earliestDate: Date | string
+  latestDate: Date | string
+  preferredFromTime?: string | null
+  preferredToTime?: string | null
+  preferredWeekdays?: Prisma.WaitlistEntryCreatepreferredWeekdaysInput | number[]
+  priority?: number
+  status?: $Enums.WaitlistEntryStatus
+  note?: string | null
+  createdById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WaitlistEntryUpdateWithoutClinicInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  specialty?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  earliestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  latestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  preferredFromTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredToTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredWeekdays?: Prisma.WaitlistEntryUpdatepreferredWeekdaysInput | number[]
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistEntryStatusFieldUpdateOperationsInput | $Enums.WaitlistEntryStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  patient?: Prisma.PatientUpdateOneRequiredWithoutWaitlistEntriesNestedInput
+  doctor?: Prisma.DoctorUpdateOneWithoutWaitlistEntriesNestedInput
+  service?: Prisma.ServiceUpdateOneWithoutWaitlistEntriesNestedInput
+  offers?: Prisma.WaitlistOfferUpdateManyWithoutEntryNestedInput
+}
+
+export type WaitlistEntryUncheckedUpdateWithoutClinicInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  specialty?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  serviceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  earliestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  latestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  preferredFromTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredToTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredWeekdays?: Prisma.WaitlistEntryUpdatepreferredWeekdaysInput | number[]
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistEntryStatusFieldUpdateOperationsInput | $Enums.WaitlistEntryStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  offers?: Prisma.WaitlistOfferUncheckedUpdateManyWithoutEntryNestedInput
+}
+
+export type WaitlistEntryUncheckedUpdateManyWithoutClinicInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  specialty?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  serviceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  earliestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  latestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  preferredFromTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredToTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredWeekdays?: Prisma.WaitlistEntryUpdatepreferredWeekdaysInput | number[]
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistEntryStatusFieldUpdateOperationsInput | $Enums.WaitlistEntryStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistEntryCreateManyDoctorInput = {
+  id?: string
+  clinicId: string
+  patientId: string
+  specialty?: string | null
+  serviceId?: string | null
+  type?: $Enums.AppointmentType
+  earliestDate: Date | string
+  latestDate: Date | string
+  preferredFromTime?: string | null
+  preferredToTime?: string | null
+  preferredWeekdays?: Prisma.WaitlistEntryCreatepreferredWeekdaysInput | number[]
+  priority?: number
+  status?: $Enums.WaitlistEntryStatus
+  note?: string | null
+  createdById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WaitlistEntryUpdateWithoutDoctorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  specialty?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  earliestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  latestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  preferredFromTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredToTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredWeekdays?: Prisma.WaitlistEntryUpdatepreferredWeekdaysInput | number[]
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistEntryStatusFieldUpdateOperationsInput | $Enums.WaitlistEntryStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutWaitlistEntriesNestedInput
+  patient?: Prisma.PatientUpdateOneRequiredWithoutWaitlistEntriesNestedInput
+  service?: Prisma.ServiceUpdateOneWithoutWaitlistEntriesNestedInput
+  offers?: Prisma.WaitlistOfferUpdateManyWithoutEntryNestedInput
+}
+
+export type WaitlistEntryUncheckedUpdateWithoutDoctorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  specialty?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  serviceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  earliestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  latestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  preferredFromTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredToTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredWeekdays?: Prisma.WaitlistEntryUpdatepreferredWeekdaysInput | number[]
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistEntryStatusFieldUpdateOperationsInput | $Enums.WaitlistEntryStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  offers?: Prisma.WaitlistOfferUncheckedUpdateManyWithoutEntryNestedInput
+}
+
+export type WaitlistEntryUncheckedUpdateManyWithoutDoctorInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  specialty?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  serviceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  earliestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  latestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  preferredFromTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredToTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredWeekdays?: Prisma.WaitlistEntryUpdatepreferredWeekdaysInput | number[]
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistEntryStatusFieldUpdateOperationsInput | $Enums.WaitlistEntryStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistEntryCreateManyServiceInput = {
+  id?: string
+  clinicId: string
+  patientId: string
+  doctorId?: string | null
+  specialty?: string | null
+  type?: $Enums.AppointmentType
+  earliestDate: Date | string
+  latestDate: Date | string
+  preferredFromTime?: string | null
+  preferredToTime?: string | null
+  preferredWeekdays?: Prisma.WaitlistEntryCreatepreferredWeekdaysInput | number[]
+  priority?: number
+  status?: $Enums.WaitlistEntryStatus
+  note?: string | null
+  createdById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WaitlistEntryUpdateWithoutServiceInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  specialty?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  earliestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  latestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  preferredFromTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredToTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredWeekdays?: Prisma.WaitlistEntryUpdatepreferredWeekdaysInput | number[]
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistEntryStatusFieldUpdateOperationsInput | $Enums.WaitlistEntryStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutWaitlistEntriesNestedInput
+  patient?: Prisma.PatientUpdateOneRequiredWithoutWaitlistEntriesNestedInput
+  doctor?: Prisma.DoctorUpdateOneWithoutWaitlistEntriesNestedInput
+  offers?: Prisma.WaitlistOfferUpdateManyWithoutEntryNestedInput
+}
+
+export type WaitlistEntryUncheckedUpdateWithoutServiceInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  specialty?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  earliestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  latestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  preferredFromTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredToTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredWeekdays?: Prisma.WaitlistEntryUpdatepreferredWeekdaysInput | number[]
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistEntryStatusFieldUpdateOperationsInput | $Enums.WaitlistEntryStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  offers?: Prisma.WaitlistOfferUncheckedUpdateManyWithoutEntryNestedInput
+}
+
+export type WaitlistEntryUncheckedUpdateManyWithoutServiceInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  patientId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  specialty?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  earliestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  latestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  preferredFromTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredToTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredWeekdays?: Prisma.WaitlistEntryUpdatepreferredWeekdaysInput | number[]
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistEntryStatusFieldUpdateOperationsInput | $Enums.WaitlistEntryStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistEntryCreateManyPatientInput = {
+  id?: string
+  clinicId: string
+  doctorId?: string | null
+  specialty?: string | null
+  serviceId?: string | null
+  type?: $Enums.AppointmentType
+  earliestDate: Date | string
+  latestDate: Date | string
+  preferredFromTime?: string | null
+  preferredToTime?: string | null
+  preferredWeekdays?: Prisma.WaitlistEntryCreatepreferredWeekdaysInput | number[]
+  priority?: number
+  status?: $Enums.WaitlistEntryStatus
+  note?: string | null
+  createdById?: string | null
+  createdAt?: Date | string
+  updatedAt?: Date | string
+}
+
+export type WaitlistEntryUpdateWithoutPatientInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  specialty?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  earliestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  latestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  preferredFromTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredToTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredWeekdays?: Prisma.WaitlistEntryUpdatepreferredWeekdaysInput | number[]
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistEntryStatusFieldUpdateOperationsInput | $Enums.WaitlistEntryStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  clinic?: Prisma.ClinicUpdateOneRequiredWithoutWaitlistEntriesNestedInput
+  doctor?: Prisma.DoctorUpdateOneWithoutWaitlistEntriesNestedInput
+  service?: Prisma.ServiceUpdateOneWithoutWaitlistEntriesNestedInput
+  offers?: Prisma.WaitlistOfferUpdateManyWithoutEntryNestedInput
+}
+
+export type WaitlistEntryUncheckedUpdateWithoutPatientInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  specialty?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  serviceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  earliestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  latestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  preferredFromTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredToTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredWeekdays?: Prisma.WaitlistEntryUpdatepreferredWeekdaysInput | number[]
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistEntryStatusFieldUpdateOperationsInput | $Enums.WaitlistEntryStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  offers?: Prisma.WaitlistOfferUncheckedUpdateManyWithoutEntryNestedInput
+}
+
+export type WaitlistEntryUncheckedUpdateManyWithoutPatientInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  specialty?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  serviceId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  type?: Prisma.EnumAppointmentTypeFieldUpdateOperationsInput | $Enums.AppointmentType
+  earliestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  latestDate?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  preferredFromTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredToTime?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  preferredWeekdays?: Prisma.WaitlistEntryUpdatepreferredWeekdaysInput | number[]
+  priority?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistEntryStatusFieldUpdateOperationsInput | $Enums.WaitlistEntryStatus
+  note?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdById?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  updatedAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+/**
+ * Count Type WaitlistEntryCountOutputType
+ */
+
+export type WaitlistEntryCountOutputType = {
+  offers: number
+}
+
+export type WaitlistEntryCountOutputTypeSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  offers?: boolean | WaitlistEntryCountOutputTypeCountOffersArgs
+}
+
+/**
+ * WaitlistEntryCountOutputType without action
+ */
+export type WaitlistEntryCountOutputTypeDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntryCountOutputType
+   */
+  select?: Prisma.WaitlistEntryCountOutputTypeSelect<ExtArgs> | null
+}
+
+/**
+ * WaitlistEntryCountOutputType without action
+ */
+export type WaitlistEntryCountOutputTypeCountOffersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WaitlistOfferWhereInput
+}
+
+
+export type WaitlistEntrySelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  clinicId?: boolean
+  patientId?: boolean
+  doctorId?: boolean
+  specialty?: boolean
+  serviceId?: boolean
+  type?: boolean
+  earliestDate?: boolean
+  latestDate?: boolean
+  preferredFromTime?: boolean
+  preferredToTime?: boolean
+  preferredWeekdays?: boolean
+  priority?: boolean
+  status?: boolean
+  note?: boolean
+  createdById?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  doctor?: boolean | Prisma.WaitlistEntry$doctorArgs<ExtArgs>
+  service?: boolean | Prisma.WaitlistEntry$serviceArgs<ExtArgs>
+  offers?: boolean | Prisma.WaitlistEntry$offersArgs<ExtArgs>
+  _count?: boolean | Prisma.WaitlistEntryCountOutputTypeDefaultArgs<ExtArgs>
+}, ExtArgs["result"]["waitlistEntry"]>
+
+export type WaitlistEntrySelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  clinicId?: boolean
+  patientId?: boolean
+  doctorId?: boolean
+  specialty?: boolean
+  serviceId?: boolean
+  type?: boolean
+  earliestDate?: boolean
+  latestDate?: boolean
+  preferredFromTime?: boolean
+  preferredToTime?: boolean
+  preferredWeekdays?: boolean
+  priority?: boolean
+  status?: boolean
+  note?: boolean
+  createdById?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  doctor?: boolean | Prisma.WaitlistEntry$doctorArgs<ExtArgs>
+  service?: boolean | Prisma.WaitlistEntry$serviceArgs<ExtArgs>
+}, ExtArgs["result"]["waitlistEntry"]>
+
+export type WaitlistEntrySelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  clinicId?: boolean
+  patientId?: boolean
+  doctorId?: boolean
+  specialty?: boolean
+  serviceId?: boolean
+  type?: boolean
+  earliestDate?: boolean
+  latestDate?: boolean
+  preferredFromTime?: boolean
+  preferredToTime?: boolean
+  preferredWeekdays?: boolean
+  priority?: boolean
+  status?: boolean
+  note?: boolean
+  createdById?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  doctor?: boolean | Prisma.WaitlistEntry$doctorArgs<ExtArgs>
+  service?: boolean | Prisma.WaitlistEntry$serviceArgs<ExtArgs>
+}, ExtArgs["result"]["waitlistEntry"]>
+
+export type WaitlistEntrySelectScalar = {
+  id?: boolean
+  clinicId?: boolean
+  patientId?: boolean
+  doctorId?: boolean
+  specialty?: boolean
+  serviceId?: boolean
+  type?: boolean
+  earliestDate?: boolean
+  latestDate?: boolean
+  preferredFromTime?: boolean
+  preferredToTime?: boolean
+  preferredWeekdays?: boolean
+  priority?: boolean
+  status?: boolean
+  note?: boolean
+  createdById?: boolean
+  createdAt?: boolean
+  updatedAt?: boolean
+}
+
+export type WaitlistEntryOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "clinicId" | "patientId" | "doctorId" | "specialty" | "serviceId" | "type" | "earliestDate" | "latestDate" | "preferredFromTime" | "preferredToTime" | "preferredWeekdays" | "priority" | "status" | "note" | "createdById" | "createdAt" | "updatedAt", ExtArgs["result"]["waitlistEntry"]>
+export type WaitlistEntryInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  doctor?: boolean | Prisma.WaitlistEntry$doctorArgs<ExtArgs>
+  service?: boolean | Prisma.WaitlistEntry$serviceArgs<ExtArgs>
+  offers?: boolean | Prisma.WaitlistEntry$offersArgs<ExtArgs>
+  _count?: boolean | Prisma.WaitlistEntryCountOutputTypeDefaultArgs<ExtArgs>
+}
+export type WaitlistEntryIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  doctor?: boolean | Prisma.WaitlistEntry$doctorArgs<ExtArgs>
+  service?: boolean | Prisma.WaitlistEntry$serviceArgs<ExtArgs>
+}
+export type WaitlistEntryIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  clinic?: boolean | Prisma.ClinicDefaultArgs<ExtArgs>
+  patient?: boolean | Prisma.PatientDefaultArgs<ExtArgs>
+  doctor?: boolean | Prisma.WaitlistEntry$doctorArgs<ExtArgs>
+  service?: boolean | Prisma.WaitlistEntry$serviceArgs<ExtArgs>
+}
+
+export type $WaitlistEntryPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "WaitlistEntry"
+  objects: {
+    clinic: Prisma.$ClinicPayload<ExtArgs>
+    patient: Prisma.$PatientPayload<ExtArgs>
+    doctor: Prisma.$DoctorPayload<ExtArgs> | null
+    service: Prisma.$ServicePayload<ExtArgs> | null
+    offers: Prisma.$WaitlistOfferPayload<ExtArgs>[]
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    clinicId: string
+    patientId: string
+    doctorId: string | null
+    specialty: string | null
+    serviceId: string | null
+    type: $Enums.AppointmentType
+    earliestDate: Date
+    latestDate: Date
+    preferredFromTime: string | null
+    preferredToTime: string | null
+    preferredWeekdays: number[]
+    priority: number
+    status: $Enums.WaitlistEntryStatus
+    note: string | null
+    createdById: string | null
+    createdAt: Date
+    updatedAt: Date
+  }, ExtArgs["result"]["waitlistEntry"]>
+  composites: {}
+}
+
+export type WaitlistEntryGetPayload<S extends boolean | null | undefined | WaitlistEntryDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload, S>
+
+export type WaitlistEntryCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<WaitlistEntryFindManyArgs, 'select' | 'include' | 'distinct' | 'omit' | 'relationLoadStrategy'> & {
+    select?: WaitlistEntryCountAggregateInputType | true
+  }
+
+export interface WaitlistEntryDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['WaitlistEntry'], meta: { name: 'WaitlistEntry' } }
+  /**
+   * Find zero or one WaitlistEntry that matches the filter.
+   * @param {WaitlistEntryFindUniqueArgs} args - Arguments to find a WaitlistEntry
+   * @example
+   * // Get one WaitlistEntry
+   * const waitlistEntry = await prisma.waitlistEntry.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends WaitlistEntryFindUniqueArgs>(args: Prisma.SelectSubset<T, WaitlistEntryFindUniqueArgs<ExtArgs>>): Prisma.Prisma__WaitlistEntryClient<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one WaitlistEntry that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {WaitlistEntryFindUniqueOrThrowArgs} args - Arguments to find a WaitlistEntry
+   * @example
+   * // Get one WaitlistEntry
+   * const waitlistEntry = await prisma.waitlistEntry.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends WaitlistEntryFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, WaitlistEntryFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__WaitlistEntryClient<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first WaitlistEntry that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistEntryFindFirstArgs} args - Arguments to find a WaitlistEntry
+   * @example
+   * // Get one WaitlistEntry
+   * const waitlistEntry = await prisma.waitlistEntry.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends WaitlistEntryFindFirstArgs>(args?: Prisma.SelectSubset<T, WaitlistEntryFindFirstArgs<ExtArgs>>): Prisma.Prisma__WaitlistEntryClient<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first WaitlistEntry that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistEntryFindFirstOrThrowArgs} args - Arguments to find a WaitlistEntry
+   * @example
+   * // Get one WaitlistEntry
+   * const waitlistEntry = await prisma.waitlistEntry.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends WaitlistEntryFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, WaitlistEntryFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__WaitlistEntryClient<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more WaitlistEntries that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistEntryFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all WaitlistEntries
+   * const waitlistEntries = await prisma.waitlistEntry.findMany()
+   * 
+   * // Get first 10 WaitlistEntries
+   * const waitlistEntries = await prisma.waitlistEntry.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const waitlistEntryWithIdOnly = await prisma.waitlistEntry.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends WaitlistEntryFindManyArgs>(args?: Prisma.SelectSubset<T, WaitlistEntryFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a WaitlistEntry.
+   * @param {WaitlistEntryCreateArgs} args - Arguments to create a WaitlistEntry.
+   * @example
+   * // Create one WaitlistEntry
+   * const WaitlistEntry = await prisma.waitlistEntry.create({
+   *   data: {
+   *     // ... data to create a WaitlistEntry
+   *   }
+   * })
+   * 
+   */
+  create<T extends WaitlistEntryCreateArgs>(args: Prisma.SelectSubset<T, WaitlistEntryCreateArgs<ExtArgs>>): Prisma.Prisma__WaitlistEntryClient<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many WaitlistEntries.
+   * @param {WaitlistEntryCreateManyArgs} args - Arguments to create many WaitlistEntries.
+   * @example
+   * // Create many WaitlistEntries
+   * const waitlistEntry = await prisma.waitlistEntry.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends WaitlistEntryCreateManyArgs>(args?: Prisma.SelectSubset<T, WaitlistEntryCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many WaitlistEntries and returns the data saved in the database.
+   * @param {WaitlistEntryCreateManyAndReturnArgs} args - Arguments to create many WaitlistEntries.
+   * @example
+   * // Create many WaitlistEntries
+   * const waitlistEntry = await prisma.waitlistEntry.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many WaitlistEntries and only return the `id`
+   * const waitlistEntryWithIdOnly = await prisma.waitlistEntry.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends WaitlistEntryCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, WaitlistEntryCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a WaitlistEntry.
+   * @param {WaitlistEntryDeleteArgs} args - Arguments to delete one WaitlistEntry.
+   * @example
+   * // Delete one WaitlistEntry
+   * const WaitlistEntry = await prisma.waitlistEntry.delete({
+   *   where: {
+   *     // ... filter to delete one WaitlistEntry
+   *   }
+   * })
+   * 
+   */
+  delete<T extends WaitlistEntryDeleteArgs>(args: Prisma.SelectSubset<T, WaitlistEntryDeleteArgs<ExtArgs>>): Prisma.Prisma__WaitlistEntryClient<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one WaitlistEntry.
+   * @param {WaitlistEntryUpdateArgs} args - Arguments to update one WaitlistEntry.
+   * @example
+   * // Update one WaitlistEntry
+   * const waitlistEntry = await prisma.waitlistEntry.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends WaitlistEntryUpdateArgs>(args: Prisma.SelectSubset<T, WaitlistEntryUpdateArgs<ExtArgs>>): Prisma.Prisma__WaitlistEntryClient<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more WaitlistEntries.
+   * @param {WaitlistEntryDeleteManyArgs} args - Arguments to filter WaitlistEntries to delete.
+   * @example
+   * // Delete a few WaitlistEntries
+   * const { count } = await prisma.waitlistEntry.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends WaitlistEntryDeleteManyArgs>(args?: Prisma.SelectSubset<T, WaitlistEntryDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more WaitlistEntries.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistEntryUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many WaitlistEntries
+   * const waitlistEntry = await prisma.waitlistEntry.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends WaitlistEntryUpdateManyArgs>(args: Prisma.SelectSubset<T, WaitlistEntryUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more WaitlistEntries and returns the data updated in the database.
+   * @param {WaitlistEntryUpdateManyAndReturnArgs} args - Arguments to update many WaitlistEntries.
+   * @example
+   * // Update many WaitlistEntries
+   * const waitlistEntry = await prisma.waitlistEntry.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more WaitlistEntries and only return the `id`
+   * const waitlistEntryWithIdOnly = await prisma.waitlistEntry.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends WaitlistEntryUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, WaitlistEntryUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one WaitlistEntry.
+   * @param {WaitlistEntryUpsertArgs} args - Arguments to update or create a WaitlistEntry.
+   * @example
+   * // Update or create a WaitlistEntry
+   * const waitlistEntry = await prisma.waitlistEntry.upsert({
+   *   create: {
+   *     // ... data to create a WaitlistEntry
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the WaitlistEntry we want to update
+   *   }
+   * })
+   */
+  upsert<T extends WaitlistEntryUpsertArgs>(args: Prisma.SelectSubset<T, WaitlistEntryUpsertArgs<ExtArgs>>): Prisma.Prisma__WaitlistEntryClient<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of WaitlistEntries.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistEntryCountArgs} args - Arguments to filter WaitlistEntries to count.
+   * @example
+   * // Count the number of WaitlistEntries
+   * const count = await prisma.waitlistEntry.count({
+   *   where: {
+   *     // ... the filter for the WaitlistEntries we want to count
+   *   }
+   * })
+  **/
+  count<T extends WaitlistEntryCountArgs>(
+    args?: Prisma.Subset<T, WaitlistEntryCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], WaitlistEntryCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a WaitlistEntry.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistEntryAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends WaitlistEntryAggregateArgs>(args: Prisma.Subset<T, WaitlistEntryAggregateArgs>): Prisma.PrismaPromise<GetWaitlistEntryAggregateType<T>>
+
+  /**
+   * Group by WaitlistEntry.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistEntryGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends WaitlistEntryGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: WaitlistEntryGroupByArgs['orderBy'] }
+      : { orderBy?: WaitlistEntryGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, WaitlistEntryGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetWaitlistEntryGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the WaitlistEntry model
+ */
+readonly fields: WaitlistEntryFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for WaitlistEntry.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__WaitlistEntryClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  clinic<T extends Prisma.ClinicDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.ClinicDefaultArgs<ExtArgs>>): Prisma.Prisma__ClinicClient<runtime.Types.Result.GetResult<Prisma.$ClinicPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  patient<T extends Prisma.PatientDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.PatientDefaultArgs<ExtArgs>>): Prisma.Prisma__PatientClient<runtime.Types.Result.GetResult<Prisma.$PatientPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  doctor<T extends Prisma.WaitlistEntry$doctorArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.WaitlistEntry$doctorArgs<ExtArgs>>): Prisma.Prisma__DoctorClient<runtime.Types.Result.GetResult<Prisma.$DoctorPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  service<T extends Prisma.WaitlistEntry$serviceArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.WaitlistEntry$serviceArgs<ExtArgs>>): Prisma.Prisma__ServiceClient<runtime.Types.Result.GetResult<Prisma.$ServicePayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  offers<T extends Prisma.WaitlistEntry$offersArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.WaitlistEntry$offersArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WaitlistOfferPayload<ExtArgs>, T, "findMany", GlobalOmitOptions> | Null>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the WaitlistEntry model
+ */
+export interface WaitlistEntryFieldRefs {
+  readonly id: Prisma.FieldRef<"WaitlistEntry", 'String'>
+  readonly clinicId: Prisma.FieldRef<"WaitlistEntry", 'String'>
+  readonly patientId: Prisma.FieldRef<"WaitlistEntry", 'String'>
+  readonly doctorId: Prisma.FieldRef<"WaitlistEntry", 'String'>
+  readonly specialty: Prisma.FieldRef<"WaitlistEntry", 'String'>
+  readonly serviceId: Prisma.FieldRef<"WaitlistEntry", 'String'>
+  readonly type: Prisma.FieldRef<"WaitlistEntry", 'AppointmentType'>
+  readonly earliestDate: Prisma.FieldRef<"WaitlistEntry", 'DateTime'>
+  readonly latestDate: Prisma.FieldRef<"WaitlistEntry", 'DateTime'>
+  readonly preferredFromTime: Prisma.FieldRef<"WaitlistEntry", 'String'>
+  readonly preferredToTime: Prisma.FieldRef<"WaitlistEntry", 'String'>
+  readonly preferredWeekdays: Prisma.FieldRef<"WaitlistEntry", 'Int[]'>
+  readonly priority: Prisma.FieldRef<"WaitlistEntry", 'Int'>
+  readonly status: Prisma.FieldRef<"WaitlistEntry", 'WaitlistEntryStatus'>
+  readonly note: Prisma.FieldRef<"WaitlistEntry", 'String'>
+  readonly createdById: Prisma.FieldRef<"WaitlistEntry", 'String'>
+  readonly createdAt: Prisma.FieldRef<"WaitlistEntry", 'DateTime'>
+  readonly updatedAt: Prisma.FieldRef<"WaitlistEntry", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * WaitlistEntry findUnique
+ */
+export type WaitlistEntryFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  /**
+   * Filter, which WaitlistEntry to fetch.
+   */
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * WaitlistEntry findUniqueOrThrow
+ */
+export type WaitlistEntryFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  /**
+   * Filter, which WaitlistEntry to fetch.
+   */
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * WaitlistEntry findFirst
+ */
+export type WaitlistEntryFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  /**
+   * Filter, which WaitlistEntry to fetch.
+   */
+  where?: Prisma.WaitlistEntryWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WaitlistEntries to fetch.
+   */
+  orderBy?: Prisma.WaitlistEntryOrderByWithRelationInput | Prisma.WaitlistEntryOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for WaitlistEntries.
+   */
+  cursor?: Prisma.WaitlistEntryWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WaitlistEntries from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WaitlistEntries.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of WaitlistEntries.
+   */
+  distinct?: Prisma.WaitlistEntryScalarFieldEnum | Prisma.WaitlistEntryScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * WaitlistEntry findFirstOrThrow
+ */
+export type WaitlistEntryFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  /**
+   * Filter, which WaitlistEntry to fetch.
+   */
+  where?: Prisma.WaitlistEntryWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WaitlistEntries to fetch.
+   */
+  orderBy?: Prisma.WaitlistEntryOrderByWithRelationInput | Prisma.WaitlistEntryOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for WaitlistEntries.
+   */
+  cursor?: Prisma.WaitlistEntryWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WaitlistEntries from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WaitlistEntries.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of WaitlistEntries.
+   */
+  distinct?: Prisma.WaitlistEntryScalarFieldEnum | Prisma.WaitlistEntryScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * WaitlistEntry findMany
+ */
+export type WaitlistEntryFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  /**
+   * Filter, which WaitlistEntries to fetch.
+   */
+  where?: Prisma.WaitlistEntryWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WaitlistEntries to fetch.
+   */
+  orderBy?: Prisma.WaitlistEntryOrderByWithRelationInput | Prisma.WaitlistEntryOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing WaitlistEntries.
+   */
+  cursor?: Prisma.WaitlistEntryWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WaitlistEntries from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WaitlistEntries.
+   */
+  skip?: number
+  distinct?: Prisma.WaitlistEntryScalarFieldEnum | Prisma.WaitlistEntryScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * WaitlistEntry create
+ */
+export type WaitlistEntryCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  /**
+   * The data needed to create a WaitlistEntry.
+   */
+  data: Prisma.XOR<Prisma.WaitlistEntryCreateInput, Prisma.WaitlistEntryUncheckedCreateInput>
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * WaitlistEntry createMany
+ */
+export type WaitlistEntryCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many WaitlistEntries.
+   */
+  data: Prisma.WaitlistEntryCreateManyInput | Prisma.WaitlistEntryCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * WaitlistEntry createManyAndReturn
+ */
+export type WaitlistEntryCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * The data used to create many WaitlistEntries.
+   */
+  data: Prisma.WaitlistEntryCreateManyInput | Prisma.WaitlistEntryCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * WaitlistEntry update
+ */
+export type WaitlistEntryUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  /**
+   * The data needed to update a WaitlistEntry.
+   */
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateInput, Prisma.WaitlistEntryUncheckedUpdateInput>
+  /**
+   * Choose, which WaitlistEntry to update.
+   */
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * WaitlistEntry updateMany
+ */
+export type WaitlistEntryUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update WaitlistEntries.
+   */
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateManyMutationInput, Prisma.WaitlistEntryUncheckedUpdateManyInput>
+  /**
+   * Filter which WaitlistEntries to update
+   */
+  where?: Prisma.WaitlistEntryWhereInput
+  /**
+   * Limit how many WaitlistEntries to update.
+   */
+  limit?: number
+}
+
+/**
+ * WaitlistEntry updateManyAndReturn
+ */
+export type WaitlistEntryUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * The data used to update WaitlistEntries.
+   */
+  data: Prisma.XOR<Prisma.WaitlistEntryUpdateManyMutationInput, Prisma.WaitlistEntryUncheckedUpdateManyInput>
+  /**
+   * Filter which WaitlistEntries to update
+   */
+  where?: Prisma.WaitlistEntryWhereInput
+  /**
+   * Limit how many WaitlistEntries to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * WaitlistEntry upsert
+ */
+export type WaitlistEntryUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  /**
+   * The filter to search for the WaitlistEntry to update in case it exists.
+   */
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  /**
+   * In case the WaitlistEntry found by the `where` argument doesn't exist, create a new WaitlistEntry with this data.
+   */
+  create: Prisma.XOR<Prisma.WaitlistEntryCreateInput, Prisma.WaitlistEntryUncheckedCreateInput>
+  /**
+   * In case the WaitlistEntry was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.WaitlistEntryUpdateInput, Prisma.WaitlistEntryUncheckedUpdateInput>
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * WaitlistEntry delete
+ */
+export type WaitlistEntryDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+  /**
+   * Filter which WaitlistEntry to delete.
+   */
+  where: Prisma.WaitlistEntryWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * WaitlistEntry deleteMany
+ */
+export type WaitlistEntryDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which WaitlistEntries to delete
+   */
+  where?: Prisma.WaitlistEntryWhereInput
+  /**
+   * Limit how many WaitlistEntries to delete.
+   */
+  limit?: number
+}
+
+/**
+ * WaitlistEntry.doctor
+ */
+export type WaitlistEntry$doctorArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Doctor
+   */
+  select?: Prisma.DoctorSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Doctor
+   */
+  omit?: Prisma.DoctorOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.DoctorInclude<ExtArgs> | null
+  where?: Prisma.DoctorWhereInput
+}
+
+/**
+ * WaitlistEntry.service
+ */
+export type WaitlistEntry$serviceArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Service
+   */
+  select?: Prisma.ServiceSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Service
+   */
+  omit?: Prisma.ServiceOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.ServiceInclude<ExtArgs> | null
+  where?: Prisma.ServiceWhereInput
+}
+
+/**
+ * WaitlistEntry.offers
+ */
+export type WaitlistEntry$offersArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistOffer
+   */
+  select?: Prisma.WaitlistOfferSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistOffer
+   */
+  omit?: Prisma.WaitlistOfferOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistOfferInclude<ExtArgs> | null
+  where?: Prisma.WaitlistOfferWhereInput
+  orderBy?: Prisma.WaitlistOfferOrderByWithRelationInput | Prisma.WaitlistOfferOrderByWithRelationInput[]
+  cursor?: Prisma.WaitlistOfferWhereUniqueInput
+  take?: number
+  skip?: number
+  distinct?: Prisma.WaitlistOfferScalarFieldEnum | Prisma.WaitlistOfferScalarFieldEnum[]
+}
+
+/**
+ * WaitlistEntry without action
+ */
+export type WaitlistEntryDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistEntry
+   */
+  select?: Prisma.WaitlistEntrySelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistEntry
+   */
+  omit?: Prisma.WaitlistEntryOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistEntryInclude<ExtArgs> | null
+}
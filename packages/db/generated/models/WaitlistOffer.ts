@@ -0,0 +1,1780 @@
+
+/* !!! This is code generated by Prisma. Do not edit directly. !!! */
+/* eslint-disable */
+// biome-ignore-all lint: generated file
+// @ts-nocheck 
+/*
+ * This file exports the `WaitlistOffer` model and its related types.
+ *
+ * 🟢 You can import this file directly.
+ */
+import type * as runtime from "@prisma/client/runtime/client"
+import type * as $Enums from "../enums"
+import type * as Prisma from "../internal/prismaNamespace"
+
+/**
+ * Model WaitlistOffer
+ * 
+ */
+export type WaitlistOfferModel = runtime.Types.Result.DefaultSelection<Prisma.$WaitlistOfferPayload>
+
+export type AggregateWaitlistOffer = {
+  _count: WaitlistOfferCountAggregateOutputType | null
+  _avg: WaitlistOfferAvgAggregateOutputType | null
+  _sum: WaitlistOfferSumAggregateOutputType | null
+  _min: WaitlistOfferMinAggregateOutputType | null
+  _max: WaitlistOfferMaxAggregateOutputType | null
+}
+
+export type WaitlistOfferAvgAggregateOutputType = {
+  duration: number | null
+}
+
+export type WaitlistOfferSumAggregateOutputType = {
+  duration: number | null
+}
+
+export type WaitlistOfferMinAggregateOutputType = {
+  id: string | null
+  entryId: string | null
+  clinicId: string | null
+  doctorId: string | null
+  appointmentId: string | null
+  slotStart: Date | null
+  time: string | null
+  duration: number | null
+  status: $Enums.WaitlistOfferStatus | null
+  expiresAt: Date | null
+  respondedAt: Date | null
+  createdAt: Date | null
+}
+
+export type WaitlistOfferMaxAggregateOutputType = {
+  id: string | null
+  entryId: string | null
+  clinicId: string | null
+  doctorId: string | null
+  appointmentId: string | null
+  slotStart: Date | null
+  time: string | null
+  duration: number | null
+  status: $Enums.WaitlistOfferStatus | null
+  expiresAt: Date | null
+  respondedAt: Date | null
+  createdAt: Date | null
+}
+
+export type WaitlistOfferCountAggregateOutputType = {
+  id: number
+  entryId: number
+  clinicId: number
+  doctorId: number
+  appointmentId: number
+  slotStart: number
+  time: number
+  duration: number
+  status: number
+  expiresAt: number
+  respondedAt: number
+  createdAt: number
+  _all: number
+}
+
+
+export type WaitlistOfferAvgAggregateInputType = {
+  duration?: true
+}
+
+export type WaitlistOfferSumAggregateInputType = {
+  duration?: true
+}
+
+export type WaitlistOfferMinAggregateInputType = {
+  id?: true
+  entryId?: true
+  clinicId?: true
+  doctorId?: true
+  appointmentId?: true
+  slotStart?: true
+  time?: true
+  duration?: true
+  status?: true
+  expiresAt?: true
+  respondedAt?: true
+  createdAt?: true
+}
+
+export type WaitlistOfferMaxAggregateInputType = {
+  id?: true
+  entryId?: true
+  clinicId?: true
+  doctorId?: true
+  appointmentId?: true
+  slotStart?: true
+  time?: true
+  duration?: true
+  status?: true
+  expiresAt?: true
+  respondedAt?: true
+  createdAt?: true
+}
+
+export type WaitlistOfferCountAggregateInputType = {
+  id?: true
+  entryId?: true
+  clinicId?: true
+  doctorId?: true
+  appointmentId?: true
+  slotStart?: true
+  time?: true
+  duration?: true
+  status?: true
+  expiresAt?: true
+  respondedAt?: true
+  createdAt?: true
+  _all?: true
+}
+
+export type WaitlistOfferAggregateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which WaitlistOffer to aggregate.
+   */
+  where?: Prisma.WaitlistOfferWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WaitlistOffers to fetch.
+   */
+  orderBy?: Prisma.WaitlistOfferOrderByWithRelationInput | Prisma.WaitlistOfferOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the start position
+   */
+  cursor?: Prisma.WaitlistOfferWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WaitlistOffers from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WaitlistOffers.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Count returned WaitlistOffers
+  **/
+  _count?: true | WaitlistOfferCountAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to average
+  **/
+  _avg?: WaitlistOfferAvgAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to sum
+  **/
+  _sum?: WaitlistOfferSumAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the minimum value
+  **/
+  _min?: WaitlistOfferMinAggregateInputType
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/aggregations Aggregation Docs}
+   * 
+   * Select which fields to find the maximum value
+  **/
+  _max?: WaitlistOfferMaxAggregateInputType
+}
+
+export type GetWaitlistOfferAggregateType<T extends WaitlistOfferAggregateArgs> = {
+      [P in keyof T & keyof AggregateWaitlistOffer]: P extends '_count' | 'count'
+    ? T[P] extends true
+      ? number
+      : Prisma.GetScalarType<T[P], AggregateWaitlistOffer[P]>
+    : Prisma.GetScalarType<T[P], AggregateWaitlistOffer[P]>
+}
+
+
+
+
+export type WaitlistOfferGroupByArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  where?: Prisma.WaitlistOfferWhereInput
+  orderBy?: Prisma.WaitlistOfferOrderByWithAggregationInput | Prisma.WaitlistOfferOrderByWithAggregationInput[]
+  by: Prisma.WaitlistOfferScalarFieldEnum[] | Prisma.WaitlistOfferScalarFieldEnum
+  having?: Prisma.WaitlistOfferScalarWhereWithAggregatesInput
+  take?: number
+  skip?: number
+  _count?: WaitlistOfferCountAggregateInputType | true
+  _avg?: WaitlistOfferAvgAggregateInputType
+  _sum?: WaitlistOfferSumAggregateInputType
+  _min?: WaitlistOfferMinAggregateInputType
+  _max?: WaitlistOfferMaxAggregateInputType
+}
+
+export type WaitlistOfferGroupByOutputType = {
+  id: string
+  entryId: string
+  clinicId: string
+  doctorId: string
+  appointmentId: string | null
+  slotStart: Date
+  time: string
+  duration: number
+  status: $Enums.WaitlistOfferStatus
+  expiresAt: Date
+  respondedAt: Date | null
+  createdAt: Date
+  _count: WaitlistOfferCountAggregateOutputType | null
+  _avg: WaitlistOfferAvgAggregateOutputType | null
+  _sum: WaitlistOfferSumAggregateOutputType | null
+  _min: WaitlistOfferMinAggregateOutputType | null
+  _max: WaitlistOfferMaxAggregateOutputType | null
+}
+
+type GetWaitlistOfferGroupByPayload<T extends WaitlistOfferGroupByArgs> = Prisma.PrismaPromise<
+  Array<
+    Prisma.PickEnumerable<WaitlistOfferGroupByOutputType, T['by']> &
+      {
+        [P in ((keyof T) & (keyof WaitlistOfferGroupByOutputType))]: P extends '_count'
+          ? T[P] extends boolean
+            ? number
+            : Prisma.GetScalarType<T[P], WaitlistOfferGroupByOutputType[P]>
+          : Prisma.GetScalarType<T[P], WaitlistOfferGroupByOutputType[P]>
+      }
+    >
+  >
+
+
+
+export type WaitlistOfferWhereInput = {
+  AND?: Prisma.WaitlistOfferWhereInput | Prisma.WaitlistOfferWhereInput[]
+  OR?: Prisma.WaitlistOfferWhereInput[]
+  NOT?: Prisma.WaitlistOfferWhereInput | Prisma.WaitlistOfferWhereInput[]
+  id?: Prisma.StringFilter<"WaitlistOffer"> | string
+  entryId?: Prisma.StringFilter<"WaitlistOffer"> | string
+  clinicId?: Prisma.StringFilter<"WaitlistOffer"> | string
+  doctorId?: Prisma.StringFilter<"WaitlistOffer"> | string
+  appointmentId?: Prisma.StringNullableFilter<"WaitlistOffer"> | string | null
+  slotStart?: Prisma.DateTimeFilter<"WaitlistOffer"> | Date | string
+  time?: Prisma.StringFilter<"WaitlistOffer"> | string
+  duration?: Prisma.IntFilter<"WaitlistOffer"> | number
+  status?: Prisma.EnumWaitlistOfferStatusFilter<"WaitlistOffer"> | $Enums.WaitlistOfferStatus
+  expiresAt?: Prisma.DateTimeFilter<"WaitlistOffer"> | Date | string
+  respondedAt?: Prisma.DateTimeNullableFilter<"WaitlistOffer"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"WaitlistOffer"> | Date | string
+  entry?: Prisma.XOR<Prisma.WaitlistEntryScalarRelationFilter, Prisma.WaitlistEntryWhereInput>
+  appointment?: Prisma.XOR<Prisma.AppointmentNullableScalarRelationFilter, Prisma.AppointmentWhereInput> | null
+}
+
+export type WaitlistOfferOrderByWithRelationInput = {
+  id?: Prisma.SortOrder
+  entryId?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  doctorId?: Prisma.SortOrder
+  appointmentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  slotStart?: Prisma.SortOrder
+  time?: Prisma.SortOrder
+  duration?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  respondedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  entry?: Prisma.WaitlistEntryOrderByWithRelationInput
+  appointment?: Prisma.AppointmentOrderByWithRelationInput
+}
+
+export type WaitlistOfferWhereUniqueInput = Prisma.AtLeast<{
+  id?: string
+  appointmentId?: string
+  AND?: Prisma.WaitlistOfferWhereInput | Prisma.WaitlistOfferWhereInput[]
+  OR?: Prisma.WaitlistOfferWhereInput[]
+  NOT?: Prisma.WaitlistOfferWhereInput | Prisma.WaitlistOfferWhereInput[]
+  entryId?: Prisma.StringFilter<"WaitlistOffer"> | string
+  clinicId?: Prisma.StringFilter<"WaitlistOffer"> | string
+  doctorId?: Prisma.StringFilter<"WaitlistOffer"> | string
+  slotStart?: Prisma.DateTimeFilter<"WaitlistOffer"> | Date | string
+  time?: Prisma.StringFilter<"WaitlistOffer"> | string
+  duration?: Prisma.IntFilter<"WaitlistOffer"> | number
+  status?: Prisma.EnumWaitlistOfferStatusFilter<"WaitlistOffer"> | $Enums.WaitlistOfferStatus
+  expiresAt?: Prisma.DateTimeFilter<"WaitlistOffer"> | Date | string
+  respondedAt?: Prisma.DateTimeNullableFilter<"WaitlistOffer"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"WaitlistOffer"> | Date | string
+  entry?: Prisma.XOR<Prisma.WaitlistEntryScalarRelationFilter, Prisma.WaitlistEntryWhereInput>
+  appointment?: Prisma.XOR<Prisma.AppointmentNullableScalarRelationFilter, Prisma.AppointmentWhereInput> | null
+}, "id" | "appointmentId">
+
+export type WaitlistOfferOrderByWithAggregationInput = {
+  id?: Prisma.SortOrder
+  entryId?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  doctorId?: Prisma.SortOrder
+  appointmentId?: Prisma.SortOrderInput | Prisma.SortOrder
+  slotStart?: Prisma.SortOrder
+  time?: Prisma.SortOrder
+  duration?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  respondedAt?: Prisma.SortOrderInput | Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+  _count?: Prisma.WaitlistOfferCountOrderByAggregateInput
+  _avg?: Prisma.WaitlistOfferAvgOrderByAggregateInput
+  _max?: Prisma.WaitlistOfferMaxOrderByAggregateInput
+  _min?: Prisma.WaitlistOfferMinOrderByAggregateInput
+  _sum?: Prisma.WaitlistOfferSumOrderByAggregateInput
+}
+
+export type WaitlistOfferScalarWhereWithAggregatesInput = {
+  AND?: Prisma.WaitlistOfferScalarWhereWithAggregatesInput | Prisma.WaitlistOfferScalarWhereWithAggregatesInput[]
+  OR?: Prisma.WaitlistOfferScalarWhereWithAggregatesInput[]
+  NOT?: Prisma.WaitlistOfferScalarWhereWithAggregatesInput | Prisma.WaitlistOfferScalarWhereWithAggregatesInput[]
+  id?: Prisma.StringWithAggregatesFilter<"WaitlistOffer"> | string
+  entryId?: Prisma.StringWithAggregatesFilter<"WaitlistOffer"> | string
+  clinicId?: Prisma.StringWithAggregatesFilter<"WaitlistOffer"> | string
+  doctorId?: Prisma.StringWithAggregatesFilter<"WaitlistOffer"> | string
+  appointmentId?: Prisma.StringNullableWithAggregatesFilter<"WaitlistOffer"> | string | null
+  slotStart?: Prisma.DateTimeWithAggregatesFilter<"WaitlistOffer"> | Date | string
+  time?: Prisma.StringWithAggregatesFilter<"WaitlistOffer"> | string
+  duration?: Prisma.IntWithAggregatesFilter<"WaitlistOffer"> | number
+  status?: Prisma.EnumWaitlistOfferStatusWithAggregatesFilter<"WaitlistOffer"> | $Enums.WaitlistOfferStatus
+  expiresAt?: Prisma.DateTimeWithAggregatesFilter<"WaitlistOffer"> | Date | string
+  respondedAt?: Prisma.DateTimeNullableWithAggregatesFilter<"WaitlistOffer"> | Date | string | null
+  createdAt?: Prisma.DateTimeWithAggregatesFilter<"WaitlistOffer"> | Date | string
+}
+
+export type WaitlistOfferCreateInput = {
+  id?: string
+  clinicId: string
+  doctorId: string
+  slotStart: Date | string
+  time: string
+  duration: number
+  status?: $Enums.WaitlistOfferStatus
+  expiresAt: Date | string
+  respondedAt?: Date | string | null
+  createdAt?: Date | string
+  entry: Prisma.WaitlistEntryCreateNestedOneWithoutOffersInput
+  appointment?: Prisma.AppointmentCreateNestedOneWithoutWaitlistOfferInput
+}
+
+export type WaitlistOfferUncheckedCreateInput = {
+  id?: string
+  entryId: string
+  clinicId: string
+  doctorId: string
+  appointmentId?: string | null
+  slotStart: Date | string
+  time: string
+  duration: number
+  status?: $Enums.WaitlistOfferStatus
+  expiresAt: Date | string
+  respondedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type WaitlistOfferUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.StringFieldUpdateOperationsInput | string
+  slotStart?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  time?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistOfferStatusFieldUpdateOperationsInput | $Enums.WaitlistOfferStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  respondedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  entry?: Prisma.WaitlistEntryUpdateOneRequiredWithoutOffersNestedInput
+  appointment?: Prisma.AppointmentUpdateOneWithoutWaitlistOfferNestedInput
+}
+
+export type WaitlistOfferUncheckedUpdateInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  entryId?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.StringFieldUpdateOperationsInput | string
+  appointmentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  slotStart?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  time?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistOfferStatusFieldUpdateOperationsInput | $Enums.WaitlistOfferStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  respondedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistOfferCreateManyInput = {
+  id?: string
+  entryId: string
+  clinicId: string
+  doctorId: string
+  appointmentId?: string | null
+  slotStart: Date | string
+  time: string
+  duration: number
+  status?: $Enums.WaitlistOfferStatus
+  expiresAt: Date | string
+  respondedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type WaitlistOfferUpdateManyMutationInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.StringFieldUpdateOperationsInput | string
+  slotStart?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  time?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistOfferStatusFieldUpdateOperationsInput | $Enums.WaitlistOfferStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  respondedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistOfferUncheckedUpdateManyInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  entryId?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.StringFieldUpdateOperationsInput | string
+  appointmentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  slotStart?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  time?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistOfferStatusFieldUpdateOperationsInput | $Enums.WaitlistOfferStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  respondedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistOfferNullableScalarRelationFilter = {
+  is?: Prisma.WaitlistOfferWhereInput | null
+  isNot?: Prisma.WaitlistOfferWhereInput | null
+}
+
+export type WaitlistOfferListRelationFilter = {
+  every?: Prisma.WaitlistOfferWhereInput
+  some?: Prisma.WaitlistOfferWhereInput
+  none?: Prisma.WaitlistOfferWhereInput
+}
+
+export type WaitlistOfferOrderByRelationAggregateInput = {
+  _count?: Prisma.SortOrder
+}
+
+export type WaitlistOfferCountOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  entryId?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  doctorId?: Prisma.SortOrder
+  appointmentId?: Prisma.SortOrder
+  slotStart?: Prisma.SortOrder
+  time?: Prisma.SortOrder
+  duration?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  respondedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type WaitlistOfferAvgOrderByAggregateInput = {
+  duration?: Prisma.SortOrder
+}
+
+export type WaitlistOfferMaxOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  entryId?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  doctorId?: Prisma.SortOrder
+  appointmentId?: Prisma.SortOrder
+  slotStart?: Prisma.SortOrder
+  time?: Prisma.SortOrder
+  duration?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  respondedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type WaitlistOfferMinOrderByAggregateInput = {
+  id?: Prisma.SortOrder
+  entryId?: Prisma.SortOrder
+  clinicId?: Prisma.SortOrder
+  doctorId?: Prisma.SortOrder
+  appointmentId?: Prisma.SortOrder
+  slotStart?: Prisma.SortOrder
+  time?: Prisma.SortOrder
+  duration?: Prisma.SortOrder
+  status?: Prisma.SortOrder
+  expiresAt?: Prisma.SortOrder
+  respondedAt?: Prisma.SortOrder
+  createdAt?: Prisma.SortOrder
+}
+
+export type WaitlistOfferSumOrderByAggregateInput = {
+  duration?: Prisma.SortOrder
+}
+
+export type WaitlistOfferCreateNestedOneWithoutAppointmentInput = {
+  create?: Prisma.XOR<Prisma.WaitlistOfferCreateWithoutAppointmentInput, Prisma.WaitlistOfferUncheckedCreateWithoutAppointmentInput>
+  connectOrCreate?: Prisma.WaitlistOfferCreateOrConnectWithoutAppointmentInput
+  connect?: Prisma.WaitlistOfferWhereUniqueInput
+}
+
+export type WaitlistOfferUncheckedCreateNestedOneWithoutAppointmentInput = {
+  create?: Prisma.XOR<Prisma.WaitlistOfferCreateWithoutAppointmentInput, Prisma.WaitlistOfferUncheckedCreateWithoutAppointmentInput>
+  connectOrCreate?: Prisma.WaitlistOfferCreateOrConnectWithoutAppointmentInput
+  connect?: Prisma.WaitlistOfferWhereUniqueInput
+}
+
+export type WaitlistOfferUpdateOneWithoutAppointmentNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistOfferCreateWithoutAppointmentInput, Prisma.WaitlistOfferUncheckedCreateWithoutAppointmentInput>
+  connectOrCreate?: Prisma.WaitlistOfferCreateOrConnectWithoutAppointmentInput
+  upsert?: Prisma.WaitlistOfferUpsertWithoutAppointmentInput
+  disconnect?: Prisma.WaitlistOfferWhereInput | boolean
+  delete?: Prisma.WaitlistOfferWhereInput | boolean
+  connect?: Prisma.WaitlistOfferWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.WaitlistOfferUpdateToOneWithWhereWithoutAppointmentInput, Prisma.WaitlistOfferUpdateWithoutAppointmentInput>, Prisma.WaitlistOfferUncheckedUpdateWithoutAppointmentInput>
+}
+
+export type WaitlistOfferUncheckedUpdateOneWithoutAppointmentNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistOfferCreateWithoutAppointmentInput, Prisma.WaitlistOfferUncheckedCreateWithoutAppointmentInput>
+  connectOrCreate?: Prisma.WaitlistOfferCreateOrConnectWithoutAppointmentInput
+  upsert?: Prisma.WaitlistOfferUpsertWithoutAppointmentInput
+  disconnect?: Prisma.WaitlistOfferWhereInput | boolean
+  delete?: Prisma.WaitlistOfferWhereInput | boolean
+  connect?: Prisma.WaitlistOfferWhereUniqueInput
+  update?: Prisma.XOR<Prisma.XOR<Prisma.WaitlistOfferUpdateToOneWithWhereWithoutAppointmentInput, Prisma.WaitlistOfferUpdateWithoutAppointmentInput>, Prisma.WaitlistOfferUncheckedUpdateWithoutAppointmentInput>
+}
+
+export type WaitlistOfferCreateNestedManyWithoutEntryInput = {
+  create?: Prisma.XOR<Prisma.WaitlistOfferCreateWithoutEntryInput, Prisma.WaitlistOfferUncheckedCreateWithoutEntryInput> | Prisma.WaitlistOfferCreateWithoutEntryInput[] | Prisma.WaitlistOfferUncheckedCreateWithoutEntryInput[]
+  connectOrCreate?: Prisma.WaitlistOfferCreateOrConnectWithoutEntryInput | Prisma.WaitlistOfferCreateOrConnectWithoutEntryInput[]
+  createMany?: Prisma.WaitlistOfferCreateManyEntryInputEnvelope
+  connect?: Prisma.WaitlistOfferWhereUniqueInput | Prisma.WaitlistOfferWhereUniqueInput[]
+}
+
+export type WaitlistOfferUncheckedCreateNestedManyWithoutEntryInput = {
+  create?: Prisma.XOR<Prisma.WaitlistOfferCreateWithoutEntryInput, Prisma.WaitlistOfferUncheckedCreateWithoutEntryInput> | Prisma.WaitlistOfferCreateWithoutEntryInput[] | Prisma.WaitlistOfferUncheckedCreateWithoutEntryInput[]
+  connectOrCreate?: Prisma.WaitlistOfferCreateOrConnectWithoutEntryInput | Prisma.WaitlistOfferCreateOrConnectWithoutEntryInput[]
+  createMany?: Prisma.WaitlistOfferCreateManyEntryInputEnvelope
+  connect?: Prisma.WaitlistOfferWhereUniqueInput | Prisma.WaitlistOfferWhereUniqueInput[]
+}
+
+export type WaitlistOfferUpdateManyWithoutEntryNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistOfferCreateWithoutEntryInput, Prisma.WaitlistOfferUncheckedCreateWithoutEntryInput> | Prisma.WaitlistOfferCreateWithoutEntryInput[] | Prisma.WaitlistOfferUncheckedCreateWithoutEntryInput[]
+  connectOrCreate?: Prisma.WaitlistOfferCreateOrConnectWithoutEntryInput | Prisma.WaitlistOfferCreateOrConnectWithoutEntryInput[]
+  upsert?: Prisma.WaitlistOfferUpsertWithWhereUniqueWithoutEntryInput | Prisma.WaitlistOfferUpsertWithWhereUniqueWithoutEntryInput[]
+  createMany?: Prisma.WaitlistOfferCreateManyEntryInputEnvelope
+  set?: Prisma.WaitlistOfferWhereUniqueInput | Prisma.WaitlistOfferWhereUniqueInput[]
+  disconnect?: Prisma.WaitlistOfferWhereUniqueInput | Prisma.WaitlistOfferWhereUniqueInput[]
+  delete?: Prisma.WaitlistOfferWhereUniqueInput | Prisma.WaitlistOfferWhereUniqueInput[]
+  connect?: Prisma.WaitlistOfferWhereUniqueInput | Prisma.WaitlistOfferWhereUniqueInput[]
+  update?: Prisma.WaitlistOfferUpdateWithWhereUniqueWithoutEntryInput | Prisma.WaitlistOfferUpdateWithWhereUniqueWithoutEntryInput[]
+  updateMany?: Prisma.WaitlistOfferUpdateManyWithWhereWithoutEntryInput | Prisma.WaitlistOfferUpdateManyWithWhereWithoutEntryInput[]
+  deleteMany?: Prisma.WaitlistOfferScalarWhereInput | Prisma.WaitlistOfferScalarWhereInput[]
+}
+
+export type WaitlistOfferUncheckedUpdateManyWithoutEntryNestedInput = {
+  create?: Prisma.XOR<Prisma.WaitlistOfferCreateWithoutEntryInput, Prisma.WaitlistOfferUncheckedCreateWithoutEntryInput> | Prisma.WaitlistOfferCreateWithoutEntryInput[] | Prisma.WaitlistOfferUncheckedCreateWithoutEntryInput[]
+  connectOrCreate?: Prisma.WaitlistOfferCreateOrConnectWithoutEntryInput | Prisma.WaitlistOfferCreateOrConnectWithoutEntryInput[]
+  upsert?: Prisma.WaitlistOfferUpsertWithWhereUniqueWithoutEntryInput | Prisma.WaitlistOfferUpsertWithWhereUniqueWithoutEntryInput[]
+  createMany?: Prisma.WaitlistOfferCreateManyEntryInputEnvelope
+  set?: Prisma.WaitlistOfferWhereUniqueInput | Prisma.WaitlistOfferWhereUniqueInput[]
+  disconnect?: Prisma.WaitlistOfferWhereUniqueInput | Prisma.WaitlistOfferWhereUniqueInput[]
+  delete?: Prisma.WaitlistOfferWhereUniqueInput | Prisma.WaitlistOfferWhereUniqueInput[]
+  connect?: Prisma.WaitlistOfferWhereUniqueInput | Prisma.WaitlistOfferWhereUniqueInput[]
+  update?: Prisma.WaitlistOfferUpdateWithWhereUniqueWithoutEntryInput | Prisma.WaitlistOfferUpdateWithWhereUniqueWithoutEntryInput[]
+  updateMany?: Prisma.WaitlistOfferUpdateManyWithWhereWithoutEntryInput | Prisma.WaitlistOfferUpdateManyWithWhereWithoutEntryInput[]
+  deleteMany?: Prisma.WaitlistOfferScalarWhereInput | Prisma.WaitlistOfferScalarWhereInput[]
+}
+
+export type EnumWaitlistOfferStatusFieldUpdateOperationsInput = {
+  set?: $Enums.WaitlistOfferStatus
+}
+
+export type WaitlistOfferCreateWithoutAppointmentInput = {
+  id?: string
+  clinicId: string
+  doctorId: string
+  slotStart: Date | string
+  time: string
+  duration: number
+  status?: $Enums.WaitlistOfferStatus
+  expiresAt: Date | string
+  respondedAt?: Date | string | null
+  createdAt?: Date | string
+  entry: Prisma.WaitlistEntryCreateNestedOneWithoutOffersInput
+}
+
+export type WaitlistOfferUncheckedCreateWithoutAppointmentInput = {
+  id?: string
+  entryId: string
+  clinicId: string
+  doctorId: string
+  slotStart: Date | string
+  time: string
+  duration: number
+  status?: $Enums.WaitlistOfferStatus
+  expiresAt: Date | string
+  respondedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type WaitlistOfferCreateOrConnectWithoutAppointmentInput = {
+  where: Prisma.WaitlistOfferWhereUniqueInput
+  create: Prisma.XOR<Prisma.WaitlistOfferCreateWithoutAppointmentInput, Prisma.WaitlistOfferUncheckedCreateWithoutAppointmentInput>
+}
+
+export type WaitlistOfferUpsertWithoutAppointmentInput = {
+  update: Prisma.XOR<Prisma.WaitlistOfferUpdateWithoutAppointmentInput, Prisma.WaitlistOfferUncheckedUpdateWithoutAppointmentInput>
+  create: Prisma.XOR<Prisma.WaitlistOfferCreateWithoutAppointmentInput, Prisma.WaitlistOfferUncheckedCreateWithoutAppointmentInput>
+  where?: Prisma.WaitlistOfferWhereInput
+}
+
+export type WaitlistOfferUpdateToOneWithWhereWithoutAppointmentInput = {
+  where?: Prisma.WaitlistOfferWhereInput
+  data: Prisma.XOR<Prisma.WaitlistOfferUpdateWithoutAppointmentInput, Prisma.WaitlistOfferUncheckedUpdateWithoutAppointmentInput>
+}
+
+export type WaitlistOfferUpdateWithoutAppointmentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.StringFieldUpdateOperationsInput | string
+  slotStart?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  time?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistOfferStatusFieldUpdateOperationsInput | $Enums.WaitlistOfferStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  respondedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  entry?: Prisma.WaitlistEntryUpdateOneRequiredWithoutOffersNestedInput
+}
+
+export type WaitlistOfferUncheckedUpdateWithoutAppointmentInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  entryId?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.StringFieldUpdateOperationsInput | string
+  slotStart?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  time?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistOfferStatusFieldUpdateOperationsInput | $Enums.WaitlistOfferStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  respondedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistOfferCreateWithoutEntryInput = {
+  id?: string
+  clinicId: string
+  doctorId: string
+  slotStart: Date | string
+  time: string
+  duration: number
+  status?: $Enums.WaitlistOfferStatus
+  expiresAt: Date | string
+  respondedAt?: Date | string | null
+  createdAt?: Date | string
+  appointment?: Prisma.AppointmentCreateNestedOneWithoutWaitlistOfferInput
+}
+
+export type WaitlistOfferUncheckedCreateWithoutEntryInput = {
+  id?: string
+  clinicId: string
+  doctorId: string
+  appointmentId?: string | null
+  slotStart: Date | string
+  time: string
+  duration: number
+  status?: $Enums.WaitlistOfferStatus
+  expiresAt: Date | string
+  respondedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type WaitlistOfferCreateOrConnectWithoutEntryInput = {
+  where: Prisma.WaitlistOfferWhereUniqueInput
+  create: Prisma.XOR<Prisma.WaitlistOfferCreateWithoutEntryInput, Prisma.WaitlistOfferUncheckedCreateWithoutEntryInput>
+}
+
+export type WaitlistOfferCreateManyEntryInputEnvelope = {
+  data: Prisma.WaitlistOfferCreateManyEntryInput | Prisma.WaitlistOfferCreateManyEntryInput[]
+  skipDuplicates?: boolean
+}
+
+export type WaitlistOfferUpsertWithWhereUniqueWithoutEntryInput = {
+  where: Prisma.WaitlistOfferWhereUniqueInput
+  update: Prisma.XOR<Prisma.WaitlistOfferUpdateWithoutEntryInput, Prisma.WaitlistOfferUncheckedUpdateWithoutEntryInput>
+  create: Prisma.XOR<Prisma.WaitlistOfferCreateWithoutEntryInput, Prisma.WaitlistOfferUncheckedCreateWithoutEntryInput>
+}
+
+export type WaitlistOfferUpdateWithWhereUniqueWithoutEntryInput = {
+  where: Prisma.WaitlistOfferWhereUniqueInput
+  data: Prisma.XOR<Prisma.WaitlistOfferUpdateWithoutEntryInput, Prisma.WaitlistOfferUncheckedUpdateWithoutEntryInput>
+}
+
+export type WaitlistOfferUpdateManyWithWhereWithoutEntryInput = {
+  where: Prisma.WaitlistOfferScalarWhereInput
+  data: Prisma.XOR<Prisma.WaitlistOfferUpdateManyMutationInput, Prisma.WaitlistOfferUncheckedUpdateManyWithoutEntryInput>
+}
+
+export type WaitlistOfferScalarWhereInput = {
+  AND?: Prisma.WaitlistOfferScalarWhereInput | Prisma.WaitlistOfferScalarWhereInput[]
+  OR?: Prisma.WaitlistOfferScalarWhereInput[]
+  NOT?: Prisma.WaitlistOfferScalarWhereInput | Prisma.WaitlistOfferScalarWhereInput[]
+  id?: Prisma.StringFilter<"WaitlistOffer"> | string
+  entryId?: Prisma.StringFilter<"WaitlistOffer"> | string
+  clinicId?: Prisma.StringFilter<"WaitlistOffer"> | string
+  doctorId?: Prisma.StringFilter<"WaitlistOffer"> | string
+  appointmentId?: Prisma.StringNullableFilter<"WaitlistOffer"> | string | null
+  slotStart?: Prisma.DateTimeFilter<"WaitlistOffer"> | Date | string
+  time?: Prisma.StringFilter<"WaitlistOffer"> | string
+  duration?: Prisma.IntFilter<"WaitlistOffer"> | number
+  status?: Prisma.EnumWaitlistOfferStatusFilter<"WaitlistOffer"> | $Enums.WaitlistOfferStatus
+  expiresAt?: Prisma.DateTimeFilter<"WaitlistOffer"> | Date | string
+  respondedAt?: Prisma.DateTimeNullableFilter<"WaitlistOffer"> | Date | string | null
+  createdAt?: Prisma.DateTimeFilter<"WaitlistOffer"> | Date | string
+}
+
+export type WaitlistOfferCreateManyEntryInput = {
+  id?: string
+  clinicId: string
+  doctorId: string
+  appointmentId?: string | null
+  slotStart: Date | string
+  time: string
+  duration: number
+  status?: $Enums.WaitlistOfferStatus
+  expiresAt: Date | string
+  respondedAt?: Date | string | null
+  createdAt?: Date | string
+}
+
+export type WaitlistOfferUpdateWithoutEntryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.StringFieldUpdateOperationsInput | string
+  slotStart?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  time?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistOfferStatusFieldUpdateOperationsInput | $Enums.WaitlistOfferStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  respondedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  appointment?: Prisma.AppointmentUpdateOneWithoutWaitlistOfferNestedInput
+}
+
+export type WaitlistOfferUncheckedUpdateWithoutEntryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.StringFieldUpdateOperationsInput | string
+  appointmentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  slotStart?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  time?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistOfferStatusFieldUpdateOperationsInput | $Enums.WaitlistOfferStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  respondedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+export type WaitlistOfferUncheckedUpdateManyWithoutEntryInput = {
+  id?: Prisma.StringFieldUpdateOperationsInput | string
+  clinicId?: Prisma.StringFieldUpdateOperationsInput | string
+  doctorId?: Prisma.StringFieldUpdateOperationsInput | string
+  appointmentId?: Prisma.NullableStringFieldUpdateOperationsInput | string | null
+  slotStart?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  time?: Prisma.StringFieldUpdateOperationsInput | string
+  duration?: Prisma.IntFieldUpdateOperationsInput | number
+  status?: Prisma.EnumWaitlistOfferStatusFieldUpdateOperationsInput | $Enums.WaitlistOfferStatus
+  expiresAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+  respondedAt?: Prisma.NullableDateTimeFieldUpdateOperationsInput | Date | string | null
+  createdAt?: Prisma.DateTimeFieldUpdateOperationsInput | Date | string
+}
+
+
+
+export type WaitlistOfferSelect<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  entryId?: boolean
+  clinicId?: boolean
+  doctorId?: boolean
+  appointmentId?: boolean
+  slotStart?: boolean
+  time?: boolean
+  duration?: boolean
+  status?: boolean
+  expiresAt?: boolean
+  respondedAt?: boolean
+  createdAt?: boolean
+  entry?: boolean | Prisma.WaitlistEntryDefaultArgs<ExtArgs>
+  appointment?: boolean | Prisma.WaitlistOffer$appointmentArgs<ExtArgs>
+}, ExtArgs["result"]["waitlistOffer"]>
+
+export type WaitlistOfferSelectCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  entryId?: boolean
+  clinicId?: boolean
+  doctorId?: boolean
+  appointmentId?: boolean
+  slotStart?: boolean
+  time?: boolean
+  duration?: boolean
+  status?: boolean
+  expiresAt?: boolean
+  respondedAt?: boolean
+  createdAt?: boolean
+  entry?: boolean | Prisma.WaitlistEntryDefaultArgs<ExtArgs>
+  appointment?: boolean | Prisma.WaitlistOffer$appointmentArgs<ExtArgs>
+}, ExtArgs["result"]["waitlistOffer"]>
+
+export type WaitlistOfferSelectUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetSelect<{
+  id?: boolean
+  entryId?: boolean
+  clinicId?: boolean
+  doctorId?: boolean
+  appointmentId?: boolean
+  slotStart?: boolean
+  time?: boolean
+  duration?: boolean
+  status?: boolean
+  expiresAt?: boolean
+  respondedAt?: boolean
+  createdAt?: boolean
+  entry?: boolean | Prisma.WaitlistEntryDefaultArgs<ExtArgs>
+  appointment?: boolean | Prisma.WaitlistOffer$appointmentArgs<ExtArgs>
+}, ExtArgs["result"]["waitlistOffer"]>
+
+export type WaitlistOfferSelectScalar = {
+  id?: boolean
+  entryId?: boolean
+  clinicId?: boolean
+  doctorId?: boolean
+  appointmentId?: boolean
+  slotStart?: boolean
+  time?: boolean
+  duration?: boolean
+  status?: boolean
+  expiresAt?: boolean
+  respondedAt?: boolean
+  createdAt?: boolean
+}
+
+export type WaitlistOfferOmit<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = runtime.Types.Extensions.GetOmit<"id" | "entryId" | "clinicId" | "doctorId" | "appointmentId" | "slotStart" | "time" | "duration" | "status" | "expiresAt" | "respondedAt" | "createdAt", ExtArgs["result"]["waitlistOffer"]>
+export type WaitlistOfferInclude<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  entry?: boolean | Prisma.WaitlistEntryDefaultArgs<ExtArgs>
+  appointment?: boolean | Prisma.WaitlistOffer$appointmentArgs<ExtArgs>
+}
+export type WaitlistOfferIncludeCreateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  entry?: boolean | Prisma.WaitlistEntryDefaultArgs<ExtArgs>
+  appointment?: boolean | Prisma.WaitlistOffer$appointmentArgs<ExtArgs>
+}
+export type WaitlistOfferIncludeUpdateManyAndReturn<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  entry?: boolean | Prisma.WaitlistEntryDefaultArgs<ExtArgs>
+  appointment?: boolean | Prisma.WaitlistOffer$appointmentArgs<ExtArgs>
+}
+
+export type $WaitlistOfferPayload<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  name: "WaitlistOffer"
+  objects: {
+    entry: Prisma.$WaitlistEntryPayload<ExtArgs>
+    appointment: Prisma.$AppointmentPayload<ExtArgs> | null
+  }
+  scalars: runtime.Types.Extensions.GetPayloadResult<{
+    id: string
+    entryId: string
+    clinicId: string
+    doctorId: string
+    appointmentId: string | null
+    slotStart: Date
+    time: string
+    duration: number
+    status: $Enums.WaitlistOfferStatus
+    expiresAt: Date
+    respondedAt: Date | null
+    createdAt: Date
+  }, ExtArgs["result"]["waitlistOffer"]>
+  composites: {}
+}
+
+export type WaitlistOfferGetPayload<S extends boolean | null | undefined | WaitlistOfferDefaultArgs> = runtime.Types.Result.GetResult<Prisma.$WaitlistOfferPayload, S>
+
+export type WaitlistOfferCountArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> =
+  Omit<WaitlistOfferFindManyArgs, 'select' | 'include' | 'distinct' | 'omit' | 'relationLoadStrategy'> & {
+    select?: WaitlistOfferCountAggregateInputType | true
+  }
+
+export interface WaitlistOfferDelegate<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> {
+  [K: symbol]: { types: Prisma.TypeMap<ExtArgs>['model']['WaitlistOffer'], meta: { name: 'WaitlistOffer' } }
+  /**
+   * Find zero or one WaitlistOffer that matches the filter.
+   * @param {WaitlistOfferFindUniqueArgs} args - Arguments to find a WaitlistOffer
+   * @example
+   * // Get one WaitlistOffer
+   * const waitlistOffer = await prisma.waitlistOffer.findUnique({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUnique<T extends WaitlistOfferFindUniqueArgs>(args: Prisma.SelectSubset<T, WaitlistOfferFindUniqueArgs<ExtArgs>>): Prisma.Prisma__WaitlistOfferClient<runtime.Types.Result.GetResult<Prisma.$WaitlistOfferPayload<ExtArgs>, T, "findUnique", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find one WaitlistOffer that matches the filter or throw an error with `error.code='P2025'`
+   * if no matches were found.
+   * @param {WaitlistOfferFindUniqueOrThrowArgs} args - Arguments to find a WaitlistOffer
+   * @example
+   * // Get one WaitlistOffer
+   * const waitlistOffer = await prisma.waitlistOffer.findUniqueOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findUniqueOrThrow<T extends WaitlistOfferFindUniqueOrThrowArgs>(args: Prisma.SelectSubset<T, WaitlistOfferFindUniqueOrThrowArgs<ExtArgs>>): Prisma.Prisma__WaitlistOfferClient<runtime.Types.Result.GetResult<Prisma.$WaitlistOfferPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first WaitlistOffer that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistOfferFindFirstArgs} args - Arguments to find a WaitlistOffer
+   * @example
+   * // Get one WaitlistOffer
+   * const waitlistOffer = await prisma.waitlistOffer.findFirst({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirst<T extends WaitlistOfferFindFirstArgs>(args?: Prisma.SelectSubset<T, WaitlistOfferFindFirstArgs<ExtArgs>>): Prisma.Prisma__WaitlistOfferClient<runtime.Types.Result.GetResult<Prisma.$WaitlistOfferPayload<ExtArgs>, T, "findFirst", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find the first WaitlistOffer that matches the filter or
+   * throw `PrismaKnownClientError` with `P2025` code if no matches were found.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistOfferFindFirstOrThrowArgs} args - Arguments to find a WaitlistOffer
+   * @example
+   * // Get one WaitlistOffer
+   * const waitlistOffer = await prisma.waitlistOffer.findFirstOrThrow({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   */
+  findFirstOrThrow<T extends WaitlistOfferFindFirstOrThrowArgs>(args?: Prisma.SelectSubset<T, WaitlistOfferFindFirstOrThrowArgs<ExtArgs>>): Prisma.Prisma__WaitlistOfferClient<runtime.Types.Result.GetResult<Prisma.$WaitlistOfferPayload<ExtArgs>, T, "findFirstOrThrow", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Find zero or more WaitlistOffers that matches the filter.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistOfferFindManyArgs} args - Arguments to filter and select certain fields only.
+   * @example
+   * // Get all WaitlistOffers
+   * const waitlistOffers = await prisma.waitlistOffer.findMany()
+   * 
+   * // Get first 10 WaitlistOffers
+   * const waitlistOffers = await prisma.waitlistOffer.findMany({ take: 10 })
+   * 
+   * // Only select the `id`
+   * const waitlistOfferWithIdOnly = await prisma.waitlistOffer.findMany({ select: { id: true } })
+   * 
+   */
+  findMany<T extends WaitlistOfferFindManyArgs>(args?: Prisma.SelectSubset<T, WaitlistOfferFindManyArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WaitlistOfferPayload<ExtArgs>, T, "findMany", GlobalOmitOptions>>
+
+  /**
+   * Create a WaitlistOffer.
+   * @param {WaitlistOfferCreateArgs} args - Arguments to create a WaitlistOffer.
+   * @example
+   * // Create one WaitlistOffer
+   * const WaitlistOffer = await prisma.waitlistOffer.create({
+   *   data: {
+   *     // ... data to create a WaitlistOffer
+   *   }
+   * })
+   * 
+   */
+  create<T extends WaitlistOfferCreateArgs>(args: Prisma.SelectSubset<T, WaitlistOfferCreateArgs<ExtArgs>>): Prisma.Prisma__WaitlistOfferClient<runtime.Types.Result.GetResult<Prisma.$WaitlistOfferPayload<ExtArgs>, T, "create", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Create many WaitlistOffers.
+   * @param {WaitlistOfferCreateManyArgs} args - Arguments to create many WaitlistOffers.
+   * @example
+   * // Create many WaitlistOffers
+   * const waitlistOffer = await prisma.waitlistOffer.createMany({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   *     
+   */
+  createMany<T extends WaitlistOfferCreateManyArgs>(args?: Prisma.SelectSubset<T, WaitlistOfferCreateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Create many WaitlistOffers and returns the data saved in the database.
+   * @param {WaitlistOfferCreateManyAndReturnArgs} args - Arguments to create many WaitlistOffers.
+   * @example
+   * // Create many WaitlistOffers
+   * const waitlistOffer = await prisma.waitlistOffer.createManyAndReturn({
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Create many WaitlistOffers and only return the `id`
+   * const waitlistOfferWithIdOnly = await prisma.waitlistOffer.createManyAndReturn({
+   *   select: { id: true },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  createManyAndReturn<T extends WaitlistOfferCreateManyAndReturnArgs>(args?: Prisma.SelectSubset<T, WaitlistOfferCreateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WaitlistOfferPayload<ExtArgs>, T, "createManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Delete a WaitlistOffer.
+   * @param {WaitlistOfferDeleteArgs} args - Arguments to delete one WaitlistOffer.
+   * @example
+   * // Delete one WaitlistOffer
+   * const WaitlistOffer = await prisma.waitlistOffer.delete({
+   *   where: {
+   *     // ... filter to delete one WaitlistOffer
+   *   }
+   * })
+   * 
+   */
+  delete<T extends WaitlistOfferDeleteArgs>(args: Prisma.SelectSubset<T, WaitlistOfferDeleteArgs<ExtArgs>>): Prisma.Prisma__WaitlistOfferClient<runtime.Types.Result.GetResult<Prisma.$WaitlistOfferPayload<ExtArgs>, T, "delete", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Update one WaitlistOffer.
+   * @param {WaitlistOfferUpdateArgs} args - Arguments to update one WaitlistOffer.
+   * @example
+   * // Update one WaitlistOffer
+   * const waitlistOffer = await prisma.waitlistOffer.update({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  update<T extends WaitlistOfferUpdateArgs>(args: Prisma.SelectSubset<T, WaitlistOfferUpdateArgs<ExtArgs>>): Prisma.Prisma__WaitlistOfferClient<runtime.Types.Result.GetResult<Prisma.$WaitlistOfferPayload<ExtArgs>, T, "update", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+  /**
+   * Delete zero or more WaitlistOffers.
+   * @param {WaitlistOfferDeleteManyArgs} args - Arguments to filter WaitlistOffers to delete.
+   * @example
+   * // Delete a few WaitlistOffers
+   * const { count } = await prisma.waitlistOffer.deleteMany({
+   *   where: {
+   *     // ... provide filter here
+   *   }
+   * })
+   * 
+   */
+  deleteMany<T extends WaitlistOfferDeleteManyArgs>(args?: Prisma.SelectSubset<T, WaitlistOfferDeleteManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more WaitlistOffers.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistOfferUpdateManyArgs} args - Arguments to update one or more rows.
+   * @example
+   * // Update many WaitlistOffers
+   * const waitlistOffer = await prisma.waitlistOffer.updateMany({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: {
+   *     // ... provide data here
+   *   }
+   * })
+   * 
+   */
+  updateMany<T extends WaitlistOfferUpdateManyArgs>(args: Prisma.SelectSubset<T, WaitlistOfferUpdateManyArgs<ExtArgs>>): Prisma.PrismaPromise<Prisma.BatchPayload>
+
+  /**
+   * Update zero or more WaitlistOffers and returns the data updated in the database.
+   * @param {WaitlistOfferUpdateManyAndReturnArgs} args - Arguments to update many WaitlistOffers.
+   * @example
+   * // Update many WaitlistOffers
+   * const waitlistOffer = await prisma.waitlistOffer.updateManyAndReturn({
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * 
+   * // Update zero or more WaitlistOffers and only return the `id`
+   * const waitlistOfferWithIdOnly = await prisma.waitlistOffer.updateManyAndReturn({
+   *   select: { id: true },
+   *   where: {
+   *     // ... provide filter here
+   *   },
+   *   data: [
+   *     // ... provide data here
+   *   ]
+   * })
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * 
+   */
+  updateManyAndReturn<T extends WaitlistOfferUpdateManyAndReturnArgs>(args: Prisma.SelectSubset<T, WaitlistOfferUpdateManyAndReturnArgs<ExtArgs>>): Prisma.PrismaPromise<runtime.Types.Result.GetResult<Prisma.$WaitlistOfferPayload<ExtArgs>, T, "updateManyAndReturn", GlobalOmitOptions>>
+
+  /**
+   * Create or update one WaitlistOffer.
+   * @param {WaitlistOfferUpsertArgs} args - Arguments to update or create a WaitlistOffer.
+   * @example
+   * // Update or create a WaitlistOffer
+   * const waitlistOffer = await prisma.waitlistOffer.upsert({
+   *   create: {
+   *     // ... data to create a WaitlistOffer
+   *   },
+   *   update: {
+   *     // ... in case it already exists, update
+   *   },
+   *   where: {
+   *     // ... the filter for the WaitlistOffer we want to update
+   *   }
+   * })
+   */
+  upsert<T extends WaitlistOfferUpsertArgs>(args: Prisma.SelectSubset<T, WaitlistOfferUpsertArgs<ExtArgs>>): Prisma.Prisma__WaitlistOfferClient<runtime.Types.Result.GetResult<Prisma.$WaitlistOfferPayload<ExtArgs>, T, "upsert", GlobalOmitOptions>, never, ExtArgs, GlobalOmitOptions>
+
+
+  /**
+   * Count the number of WaitlistOffers.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistOfferCountArgs} args - Arguments to filter WaitlistOffers to count.
+   * @example
+   * // Count the number of WaitlistOffers
+   * const count = await prisma.waitlistOffer.count({
+   *   where: {
+   *     // ... the filter for the WaitlistOffers we want to count
+   *   }
+   * })
+  **/
+  count<T extends WaitlistOfferCountArgs>(
+    args?: Prisma.Subset<T, WaitlistOfferCountArgs>,
+  ): Prisma.PrismaPromise<
+    T extends runtime.Types.Utils.Record<'select', any>
+      ? T['select'] extends true
+        ? number
+        : Prisma.GetScalarType<T['select'], WaitlistOfferCountAggregateOutputType>
+      : number
+  >
+
+  /**
+   * Allows you to perform aggregations operations on a WaitlistOffer.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistOfferAggregateArgs} args - Select which aggregations you would like to apply and on what fields.
+   * @example
+   * // Ordered by age ascending
+   * // Where email contains prisma.io
+   * // Limited to the 10 users
+   * const aggregations = await prisma.user.aggregate({
+   *   _avg: {
+   *     age: true,
+   *   },
+   *   where: {
+   *     email: {
+   *       contains: "prisma.io",
+   *     },
+   *   },
+   *   orderBy: {
+   *     age: "asc",
+   *   },
+   *   take: 10,
+   * })
+  **/
+  aggregate<T extends WaitlistOfferAggregateArgs>(args: Prisma.Subset<T, WaitlistOfferAggregateArgs>): Prisma.PrismaPromise<GetWaitlistOfferAggregateType<T>>
+
+  /**
+   * Group by WaitlistOffer.
+   * Note, that providing `undefined` is treated as the value not being there.
+   * Read more here: https://pris.ly/d/null-undefined
+   * @param {WaitlistOfferGroupByArgs} args - Group by arguments.
+   * @example
+   * // Group by city, order by createdAt, get count
+   * const result = await prisma.user.groupBy({
+   *   by: ['city', 'createdAt'],
+   *   orderBy: {
+   *     createdAt: true
+   *   },
+   *   _count: {
+   *     _all: true
+   *   },
+   * })
+   * 
+  **/
+  groupBy<
+    T extends WaitlistOfferGroupByArgs,
+    HasSelectOrTake extends Prisma.Or<
+      Prisma.Extends<'skip', Prisma.Keys<T>>,
+      Prisma.Extends<'take', Prisma.Keys<T>>
+    >,
+    OrderByArg extends Prisma.True extends HasSelectOrTake
+      ? { orderBy: WaitlistOfferGroupByArgs['orderBy'] }
+      : { orderBy?: WaitlistOfferGroupByArgs['orderBy'] },
+    OrderFields extends Prisma.ExcludeUnderscoreKeys<Prisma.Keys<Prisma.MaybeTupleToUnion<T['orderBy']>>>,
+    ByFields extends Prisma.MaybeTupleToUnion<T['by']>,
+    ByValid extends Prisma.Has<ByFields, OrderFields>,
+    HavingFields extends Prisma.GetHavingFields<T['having']>,
+    HavingValid extends Prisma.Has<ByFields, HavingFields>,
+    ByEmpty extends T['by'] extends never[] ? Prisma.True : Prisma.False,
+    InputErrors extends ByEmpty extends Prisma.True
+    ? `Error: "by" must not be empty.`
+    : HavingValid extends Prisma.False
+    ? {
+        [P in HavingFields]: P extends ByFields
+          ? never
+          : P extends string
+          ? `Error: Field "${P}" used in "having" needs to be provided in "by".`
+          : [
+              Error,
+              'Field ',
+              P,
+              ` in "having" needs to be provided in "by"`,
+            ]
+      }[HavingFields]
+    : 'take' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "take", you also need to provide "orderBy"'
+    : 'skip' extends Prisma.Keys<T>
+    ? 'orderBy' extends Prisma.Keys<T>
+      ? ByValid extends Prisma.True
+        ? {}
+        : {
+            [P in OrderFields]: P extends ByFields
+              ? never
+              : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+          }[OrderFields]
+      : 'Error: If you provide "skip", you also need to provide "orderBy"'
+    : ByValid extends Prisma.True
+    ? {}
+    : {
+        [P in OrderFields]: P extends ByFields
+          ? never
+          : `Error: Field "${P}" in "orderBy" needs to be provided in "by"`
+      }[OrderFields]
+  >(args: Prisma.SubsetIntersection<T, WaitlistOfferGroupByArgs, OrderByArg> & InputErrors): {} extends InputErrors ? GetWaitlistOfferGroupByPayload<T> : Prisma.PrismaPromise<InputErrors>
+/**
+ * Fields of the WaitlistOffer model
+ */
+readonly fields: WaitlistOfferFieldRefs;
+}
+
+/**
+ * The delegate class that acts as a "Promise-like" for WaitlistOffer.
+ * Why is this prefixed with `Prisma__`?
+ * Because we want to prevent naming conflicts as mentioned in
+ * https://github.com/prisma/prisma-client-js/issues/707
+ */
+export interface Prisma__WaitlistOfferClient<T, Null = never, ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs, GlobalOmitOptions = {}> extends Prisma.PrismaPromise<T> {
+  readonly [Symbol.toStringTag]: "PrismaPromise"
+  entry<T extends Prisma.WaitlistEntryDefaultArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.WaitlistEntryDefaultArgs<ExtArgs>>): Prisma.Prisma__WaitlistEntryClient<runtime.Types.Result.GetResult<Prisma.$WaitlistEntryPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | Null, Null, ExtArgs, GlobalOmitOptions>
+  appointment<T extends Prisma.WaitlistOffer$appointmentArgs<ExtArgs> = {}>(args?: Prisma.Subset<T, Prisma.WaitlistOffer$appointmentArgs<ExtArgs>>): Prisma.Prisma__AppointmentClient<runtime.Types.Result.GetResult<Prisma.$AppointmentPayload<ExtArgs>, T, "findUniqueOrThrow", GlobalOmitOptions> | null, null, ExtArgs, GlobalOmitOptions>
+  /**
+   * Attaches callbacks for the resolution and/or rejection of the Promise.
+   * @param onfulfilled The callback to execute when the Promise is resolved.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of which ever callback is executed.
+   */
+  then<TResult1 = T, TResult2 = never>(onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | undefined | null, onrejected?: ((reason: any) => TResult2 | PromiseLike<TResult2>) | undefined | null): runtime.Types.Utils.JsPromise<TResult1 | TResult2>
+  /**
+   * Attaches a callback for only the rejection of the Promise.
+   * @param onrejected The callback to execute when the Promise is rejected.
+   * @returns A Promise for the completion of the callback.
+   */
+  catch<TResult = never>(onrejected?: ((reason: any) => TResult | PromiseLike<TResult>) | undefined | null): runtime.Types.Utils.JsPromise<T | TResult>
+  /**
+   * Attaches a callback that is invoked when the Promise is settled (fulfilled or rejected). The
+   * resolved value cannot be modified from the callback.
+   * @param onfinally The callback to execute when the Promise is settled (fulfilled or rejected).
+   * @returns A Promise for the completion of the callback.
+   */
+  finally(onfinally?: (() => void) | undefined | null): runtime.Types.Utils.JsPromise<T>
+}
+
+
+
+
+/**
+ * Fields of the WaitlistOffer model
+ */
+export interface WaitlistOfferFieldRefs {
+  readonly id: Prisma.FieldRef<"WaitlistOffer", 'String'>
+  readonly entryId: Prisma.FieldRef<"WaitlistOffer", 'String'>
+  readonly clinicId: Prisma.FieldRef<"WaitlistOffer", 'String'>
+  readonly doctorId: Prisma.FieldRef<"WaitlistOffer", 'String'>
+  readonly appointmentId: Prisma.FieldRef<"WaitlistOffer", 'String'>
+  readonly slotStart: Prisma.FieldRef<"WaitlistOffer", 'DateTime'>
+  readonly time: Prisma.FieldRef<"WaitlistOffer", 'String'>
+  readonly duration: Prisma.FieldRef<"WaitlistOffer", 'Int'>
+  readonly status: Prisma.FieldRef<"WaitlistOffer", 'WaitlistOfferStatus'>
+  readonly expiresAt: Prisma.FieldRef<"WaitlistOffer", 'DateTime'>
+  readonly respondedAt: Prisma.FieldRef<"WaitlistOffer", 'DateTime'>
+  readonly createdAt: Prisma.FieldRef<"WaitlistOffer", 'DateTime'>
+}
+    
+
+// Custom InputTypes
+/**
+ * WaitlistOffer findUnique
+ */
+export type WaitlistOfferFindUniqueArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistOffer
+   */
+  select?: Prisma.WaitlistOfferSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistOffer
+   */
+  omit?: Prisma.WaitlistOfferOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistOfferInclude<ExtArgs> | null
+  /**
+   * Filter, which WaitlistOffer to fetch.
+   */
+  where: Prisma.WaitlistOfferWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * WaitlistOffer findUniqueOrThrow
+ */
+export type WaitlistOfferFindUniqueOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistOffer
+   */
+  select?: Prisma.WaitlistOfferSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistOffer
+   */
+  omit?: Prisma.WaitlistOfferOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistOfferInclude<ExtArgs> | null
+  /**
+   * Filter, which WaitlistOffer to fetch.
+   */
+  where: Prisma.WaitlistOfferWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * WaitlistOffer findFirst
+ */
+export type WaitlistOfferFindFirstArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistOffer
+   */
+  select?: Prisma.WaitlistOfferSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistOffer
+   */
+  omit?: Prisma.WaitlistOfferOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistOfferInclude<ExtArgs> | null
+  /**
+   * Filter, which WaitlistOffer to fetch.
+   */
+  where?: Prisma.WaitlistOfferWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WaitlistOffers to fetch.
+   */
+  orderBy?: Prisma.WaitlistOfferOrderByWithRelationInput | Prisma.WaitlistOfferOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for WaitlistOffers.
+   */
+  cursor?: Prisma.WaitlistOfferWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WaitlistOffers from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WaitlistOffers.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of WaitlistOffers.
+   */
+  distinct?: Prisma.WaitlistOfferScalarFieldEnum | Prisma.WaitlistOfferScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * WaitlistOffer findFirstOrThrow
+ */
+export type WaitlistOfferFindFirstOrThrowArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistOffer
+   */
+  select?: Prisma.WaitlistOfferSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistOffer
+   */
+  omit?: Prisma.WaitlistOfferOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistOfferInclude<ExtArgs> | null
+  /**
+   * Filter, which WaitlistOffer to fetch.
+   */
+  where?: Prisma.WaitlistOfferWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WaitlistOffers to fetch.
+   */
+  orderBy?: Prisma.WaitlistOfferOrderByWithRelationInput | Prisma.WaitlistOfferOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for searching for WaitlistOffers.
+   */
+  cursor?: Prisma.WaitlistOfferWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WaitlistOffers from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WaitlistOffers.
+   */
+  skip?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/distinct Distinct Docs}
+   * 
+   * Filter by unique combinations of WaitlistOffers.
+   */
+  distinct?: Prisma.WaitlistOfferScalarFieldEnum | Prisma.WaitlistOfferScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * WaitlistOffer findMany
+ */
+export type WaitlistOfferFindManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistOffer
+   */
+  select?: Prisma.WaitlistOfferSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistOffer
+   */
+  omit?: Prisma.WaitlistOfferOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistOfferInclude<ExtArgs> | null
+  /**
+   * Filter, which WaitlistOffers to fetch.
+   */
+  where?: Prisma.WaitlistOfferWhereInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/sorting Sorting Docs}
+   * 
+   * Determine the order of WaitlistOffers to fetch.
+   */
+  orderBy?: Prisma.WaitlistOfferOrderByWithRelationInput | Prisma.WaitlistOfferOrderByWithRelationInput[]
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination#cursor-based-pagination Cursor Docs}
+   * 
+   * Sets the position for listing WaitlistOffers.
+   */
+  cursor?: Prisma.WaitlistOfferWhereUniqueInput
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Take `±n` WaitlistOffers from the position of the cursor.
+   */
+  take?: number
+  /**
+   * {@link https://www.prisma.io/docs/concepts/components/prisma-client/pagination Pagination Docs}
+   * 
+   * Skip the first `n` WaitlistOffers.
+   */
+  skip?: number
+  distinct?: Prisma.WaitlistOfferScalarFieldEnum | Prisma.WaitlistOfferScalarFieldEnum[]
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * WaitlistOffer create
+ */
+export type WaitlistOfferCreateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistOffer
+   */
+  select?: Prisma.WaitlistOfferSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistOffer
+   */
+  omit?: Prisma.WaitlistOfferOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistOfferInclude<ExtArgs> | null
+  /**
+   * The data needed to create a WaitlistOffer.
+   */
+  data: Prisma.XOR<Prisma.WaitlistOfferCreateInput, Prisma.WaitlistOfferUncheckedCreateInput>
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * WaitlistOffer createMany
+ */
+export type WaitlistOfferCreateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to create many WaitlistOffers.
+   */
+  data: Prisma.WaitlistOfferCreateManyInput | Prisma.WaitlistOfferCreateManyInput[]
+  skipDuplicates?: boolean
+}
+
+/**
+ * WaitlistOffer createManyAndReturn
+ */
+export type WaitlistOfferCreateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistOffer
+   */
+  select?: Prisma.WaitlistOfferSelectCreateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistOffer
+   */
+  omit?: Prisma.WaitlistOfferOmit<ExtArgs> | null
+  /**
+   * The data used to create many WaitlistOffers.
+   */
+  data: Prisma.WaitlistOfferCreateManyInput | Prisma.WaitlistOfferCreateManyInput[]
+  skipDuplicates?: boolean
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistOfferIncludeCreateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * WaitlistOffer update
+ */
+export type WaitlistOfferUpdateArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistOffer
+   */
+  select?: Prisma.WaitlistOfferSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistOffer
+   */
+  omit?: Prisma.WaitlistOfferOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistOfferInclude<ExtArgs> | null
+  /**
+   * The data needed to update a WaitlistOffer.
+   */
+  data: Prisma.XOR<Prisma.WaitlistOfferUpdateInput, Prisma.WaitlistOfferUncheckedUpdateInput>
+  /**
+   * Choose, which WaitlistOffer to update.
+   */
+  where: Prisma.WaitlistOfferWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * WaitlistOffer updateMany
+ */
+export type WaitlistOfferUpdateManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * The data used to update WaitlistOffers.
+   */
+  data: Prisma.XOR<Prisma.WaitlistOfferUpdateManyMutationInput, Prisma.WaitlistOfferUncheckedUpdateManyInput>
+  /**
+   * Filter which WaitlistOffers to update
+   */
+  where?: Prisma.WaitlistOfferWhereInput
+  /**
+   * Limit how many WaitlistOffers to update.
+   */
+  limit?: number
+}
+
+/**
+ * WaitlistOffer updateManyAndReturn
+ */
+export type WaitlistOfferUpdateManyAndReturnArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistOffer
+   */
+  select?: Prisma.WaitlistOfferSelectUpdateManyAndReturn<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistOffer
+   */
+  omit?: Prisma.WaitlistOfferOmit<ExtArgs> | null
+  /**
+   * The data used to update WaitlistOffers.
+   */
+  data: Prisma.XOR<Prisma.WaitlistOfferUpdateManyMutationInput, Prisma.WaitlistOfferUncheckedUpdateManyInput>
+  /**
+   * Filter which WaitlistOffers to update
+   */
+  where?: Prisma.WaitlistOfferWhereInput
+  /**
+   * Limit how many WaitlistOffers to update.
+   */
+  limit?: number
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistOfferIncludeUpdateManyAndReturn<ExtArgs> | null
+}
+
+/**
+ * WaitlistOffer upsert
+ */
+export type WaitlistOfferUpsertArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistOffer
+   */
+  select?: Prisma.WaitlistOfferSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistOffer
+   */
+  omit?: Prisma.WaitlistOfferOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistOfferInclude<ExtArgs> | null
+  /**
+   * The filter to search for the WaitlistOffer to update in case it exists.
+   */
+  where: Prisma.WaitlistOfferWhereUniqueInput
+  /**
+   * In case the WaitlistOffer found by the `where` argument doesn't exist, create a new WaitlistOffer with this data.
+   */
+  create: Prisma.XOR<Prisma.WaitlistOfferCreateInput, Prisma.WaitlistOfferUncheckedCreateInput>
+  /**
+   * In case the WaitlistOffer was found with the provided `where` argument, update it with this data.
+   */
+  update: Prisma.XOR<Prisma.WaitlistOfferUpdateInput, Prisma.WaitlistOfferUncheckedUpdateInput>
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * WaitlistOffer delete
+ */
+export type WaitlistOfferDeleteArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistOffer
+   */
+  select?: Prisma.WaitlistOfferSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistOffer
+   */
+  omit?: Prisma.WaitlistOfferOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistOfferInclude<ExtArgs> | null
+  /**
+   * Filter which WaitlistOffer to delete.
+   */
+  where: Prisma.WaitlistOfferWhereUniqueInput
+  relationLoadStrategy?: Prisma.RelationLoadStrategy
+}
+
+/**
+ * WaitlistOffer deleteMany
+ */
+export type WaitlistOfferDeleteManyArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Filter which WaitlistOffers to delete
+   */
+  where?: Prisma.WaitlistOfferWhereInput
+  /**
+   * Limit how many WaitlistOffers to delete.
+   */
+  limit?: number
+}
+
+/**
+ * WaitlistOffer.appointment
+ */
+export type WaitlistOffer$appointmentArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the Appointment
+   */
+  select?: Prisma.AppointmentSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the Appointment
+   */
+  omit?: Prisma.AppointmentOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.AppointmentInclude<ExtArgs> | null
+  where?: Prisma.AppointmentWhereInput
+}
+
+/**
+ * WaitlistOffer without action
+ */
+export type WaitlistOfferDefaultArgs<ExtArgs extends runtime.Types.Extensions.InternalArgs = runtime.Types.Extensions.DefaultArgs> = {
+  /**
+   * Select specific fields to fetch from the WaitlistOffer
+   */
+  select?: Prisma.WaitlistOfferSelect<ExtArgs> | null
+  /**
+   * Omit specific fields from the WaitlistOffer
+   */
+  omit?: Prisma.WaitlistOfferOmit<ExtArgs> | null
+  /**
+   * Choose, which related nodes to fetch as well
+   */
+  include?: Prisma.WaitlistOfferInclude<ExtArgs> | null
+}
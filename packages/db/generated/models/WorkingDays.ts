@@ -259,7 +259,6 @@ export type WorkingDaysOrderByWithRelationInput = {
 
 export type WorkingDaysWhereUniqueInput = Prisma.AtLeast<{
   id?: number
-  doctorId_day?: Prisma.WorkingDaysDoctorIdDayCompoundUniqueInput
   AND?: Prisma.WorkingDaysWhereInput | Prisma.WorkingDaysWhereInput[]
   OR?: Prisma.WorkingDaysWhereInput[]
   NOT?: Prisma.WorkingDaysWhereInput | Prisma.WorkingDaysWhereInput[]
@@ -272,7 +271,7 @@ export type WorkingDaysWhereUniqueInput = Prisma.AtLeast<{
   updatedAt?: Prisma.DateTimeFilter<"WorkingDays"> | Date | string
   doctor?: Prisma.XOR<Prisma.DoctorScalarRelationFilter, Prisma.DoctorWhereInput>
   clinic?: Prisma.XOR<Prisma.ClinicScalarRelationFilter, Prisma.ClinicWhereInput>
-}, "id" | "doctorId_day">
+}, "id">
 
 export type WorkingDaysOrderByWithAggregationInput = {
   id?: Prisma.SortOrder
@@ -386,11 +385,6 @@ export type WorkingDaysOrderByRelationAggregateInput = {
   _count?: Prisma.SortOrder
 }
 
-export type WorkingDaysDoctorIdDayCompoundUniqueInput = {
-  doctorId: string
-  day: string
-}
-
 export type WorkingDaysCountOrderByAggregateInput = {
   id?: Prisma.SortOrder
   doctorId?: Prisma.SortOrder
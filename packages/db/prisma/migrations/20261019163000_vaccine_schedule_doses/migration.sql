@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "vaccine_schedule_doses" (
+    "id" SERIAL NOT NULL,
+    "schedule_id" INTEGER NOT NULL,
+    "dose_number" INTEGER NOT NULL,
+    "minimum_age_days" INTEGER NOT NULL,
+    "recommended_age_days" INTEGER NOT NULL,
+    "maximum_age_days" INTEGER,
+    "minimum_interval_days" INTEGER,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vaccine_schedule_doses_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vaccine_schedule_doses_schedule_id_dose_number_key" ON "vaccine_schedule_doses"("schedule_id", "dose_number");
+
+-- AddForeignKey
+ALTER TABLE "vaccine_schedule_doses" ADD CONSTRAINT "vaccine_schedule_doses_schedule_id_fkey" FOREIGN KEY ("schedule_id") REFERENCES "vaccine_schedule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "DoseValidity" AS ENUM ('VALID', 'GRACE_PERIOD', 'INVALID');
+
+-- AlterTable
+ALTER TABLE "Immunization" ADD COLUMN     "doseNumber" INTEGER,
+ADD COLUMN     "validity" "DoseValidity",
+ADD COLUMN     "validityReasons" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,44 @@
+-- DropIndex
+DROP INDEX "vaccine_schedule_vaccine_name_recommendedAge_key";
+
+-- CreateTable
+CREATE TABLE "vaccine_schedule_sets" (
+    "id" SERIAL NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "country" TEXT,
+    "version" TEXT NOT NULL,
+    "description" TEXT,
+    "is_default" BOOLEAN NOT NULL DEFAULT false,
+    "effective_from" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "vaccine_schedule_sets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vaccine_schedule_sets_code_version_key" ON "vaccine_schedule_sets"("code", "version");
+
+-- Existing schedule rows become the default set
+INSERT INTO "vaccine_schedule_sets" ("code", "name", "version", "description", "is_default", "updated_at")
+VALUES ('DEFAULT', 'Default schedule', '1', 'Schedule in use before per-clinic schedule sets', true, CURRENT_TIMESTAMP);
+
+-- AlterTable
+ALTER TABLE "vaccine_schedule" ADD COLUMN     "schedule_set_id" INTEGER;
+
+UPDATE "vaccine_schedule" SET "schedule_set_id" = (SELECT "id" FROM "vaccine_schedule_sets" WHERE "code" = 'DEFAULT');
+
+ALTER TABLE "vaccine_schedule" ALTER COLUMN "schedule_set_id" SET NOT NULL;
+
+-- AlterTable
+ALTER TABLE "clinic_settings" ADD COLUMN     "vaccineScheduleSetId" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "vaccine_schedule_schedule_set_id_vaccine_name_recommendedAge_key" ON "vaccine_schedule"("schedule_set_id", "vaccine_name", "recommendedAge");
+
+-- AddForeignKey
+ALTER TABLE "clinic_settings" ADD CONSTRAINT "clinic_settings_vaccineScheduleSetId_fkey" FOREIGN KEY ("vaccineScheduleSetId") REFERENCES "vaccine_schedule_sets"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "vaccine_schedule" ADD CONSTRAINT "vaccine_schedule_schedule_set_id_fkey" FOREIGN KEY ("schedule_set_id") REFERENCES "vaccine_schedule_sets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
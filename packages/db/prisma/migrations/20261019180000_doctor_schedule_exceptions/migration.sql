@@ -0,0 +1,60 @@
+-- CreateEnum
+CREATE TYPE "ScheduleExceptionType" AS ENUM ('LEAVE', 'HOLIDAY', 'CLOSURE', 'EXTRA_SESSION');
+
+-- DropIndex
+DROP INDEX "WorkingDays_doctorId_day_key";
+
+-- CreateTable
+CREATE TABLE "doctor_breaks" (
+    "id" SERIAL NOT NULL,
+    "doctor_id" TEXT NOT NULL,
+    "clinic_id" TEXT NOT NULL,
+    "day" TEXT NOT NULL,
+    "start_time" TEXT NOT NULL,
+    "end_time" TEXT NOT NULL,
+    "label" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "doctor_breaks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "schedule_exceptions" (
+    "id" TEXT NOT NULL,
+    "clinic_id" TEXT NOT NULL,
+    "doctor_id" TEXT,
+    "date" DATE NOT NULL,
+    "type" "ScheduleExceptionType" NOT NULL,
+    "start_time" TEXT,
+    "end_time" TEXT,
+    "reason" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "schedule_exceptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WorkingDays_doctorId_day_idx" ON "WorkingDays"("doctorId", "day");
+
+-- CreateIndex
+CREATE INDEX "doctor_breaks_doctor_id_day_idx" ON "doctor_breaks"("doctor_id", "day");
+
+-- CreateIndex
+CREATE INDEX "schedule_exceptions_clinic_id_date_idx" ON "schedule_exceptions"("clinic_id", "date");
+
+-- CreateIndex
+CREATE INDEX "schedule_exceptions_doctor_id_date_idx" ON "schedule_exceptions"("doctor_id", "date");
+
+-- AddForeignKey
+ALTER TABLE "doctor_breaks" ADD CONSTRAINT "doctor_breaks_doctor_id_fkey" FOREIGN KEY ("doctor_id") REFERENCES "doctors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "doctor_breaks" ADD CONSTRAINT "doctor_breaks_clinic_id_fkey" FOREIGN KEY ("clinic_id") REFERENCES "clinics"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "schedule_exceptions" ADD CONSTRAINT "schedule_exceptions_clinic_id_fkey" FOREIGN KEY ("clinic_id") REFERENCES "clinics"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "schedule_exceptions" ADD CONSTRAINT "schedule_exceptions_doctor_id_fkey" FOREIGN KEY ("doctor_id") REFERENCES "doctors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,60 @@
+-- CreateEnum
+CREATE TYPE "RecurrenceFrequency" AS ENUM ('DAILY', 'WEEKLY', 'MONTHLY');
+
+-- CreateEnum
+CREATE TYPE "AppointmentSeriesStatus" AS ENUM ('ACTIVE', 'CANCELLED');
+
+-- AlterTable
+ALTER TABLE "Appointment" ADD COLUMN     "occurrence" INTEGER,
+ADD COLUMN     "seriesId" TEXT;
+
+-- CreateTable
+CREATE TABLE "appointment_series" (
+    "id" TEXT NOT NULL,
+    "clinic_id" TEXT NOT NULL,
+    "patient_id" TEXT NOT NULL,
+    "doctor_id" TEXT NOT NULL,
+    "service_id" TEXT,
+    "type" "AppointmentType" NOT NULL,
+    "frequency" "RecurrenceFrequency" NOT NULL,
+    "interval" INTEGER NOT NULL DEFAULT 1,
+    "start_date" DATE NOT NULL,
+    "until" DATE,
+    "count" INTEGER,
+    "time" TEXT NOT NULL,
+    "duration" INTEGER,
+    "appointment_price" DECIMAL(10,2),
+    "note" TEXT,
+    "status" "AppointmentSeriesStatus" NOT NULL DEFAULT 'ACTIVE',
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "appointment_series_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Appointment_seriesId_appointmentDate_idx" ON "Appointment"("seriesId", "appointmentDate");
+
+-- CreateIndex
+CREATE INDEX "appointment_series_clinic_id_status_idx" ON "appointment_series"("clinic_id", "status");
+
+-- CreateIndex
+CREATE INDEX "appointment_series_patient_id_idx" ON "appointment_series"("patient_id");
+
+-- CreateIndex
+CREATE INDEX "appointment_series_doctor_id_idx" ON "appointment_series"("doctor_id");
+
+-- AddForeignKey
+ALTER TABLE "Appointment" ADD CONSTRAINT "Appointment_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "appointment_series"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_series" ADD CONSTRAINT "appointment_series_clinic_id_fkey" FOREIGN KEY ("clinic_id") REFERENCES "clinics"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_series" ADD CONSTRAINT "appointment_series_patient_id_fkey" FOREIGN KEY ("patient_id") REFERENCES "patients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_series" ADD CONSTRAINT "appointment_series_doctor_id_fkey" FOREIGN KEY ("doctor_id") REFERENCES "doctors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "appointment_series" ADD CONSTRAINT "appointment_series_service_id_fkey" FOREIGN KEY ("service_id") REFERENCES "Service"("id") ON DELETE SET NULL ON UPDATE CASCADE;
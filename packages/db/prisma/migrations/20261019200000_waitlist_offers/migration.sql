@@ -0,0 +1,89 @@
+-- CreateEnum
+CREATE TYPE "WaitlistEntryStatus" AS ENUM ('WAITING', 'OFFERED', 'BOOKED', 'CANCELLED', 'EXPIRED');
+
+-- CreateEnum
+CREATE TYPE "WaitlistOfferStatus" AS ENUM ('PENDING', 'ACCEPTED', 'DECLINED', 'EXPIRED');
+
+-- AlterTable
+ALTER TABLE "clinic_settings" ADD COLUMN     "waitlistOfferHoldMinutes" INTEGER NOT NULL DEFAULT 120;
+
+-- CreateTable
+CREATE TABLE "waitlist_entries" (
+    "id" TEXT NOT NULL,
+    "clinic_id" TEXT NOT NULL,
+    "patient_id" TEXT NOT NULL,
+    "doctor_id" TEXT,
+    "specialty" TEXT,
+    "service_id" TEXT,
+    "type" "AppointmentType" NOT NULL DEFAULT 'CONSULTATION',
+    "earliest_date" DATE NOT NULL,
+    "latest_date" DATE NOT NULL,
+    "preferred_from_time" TEXT,
+    "preferred_to_time" TEXT,
+    "preferred_weekdays" INTEGER[],
+    "priority" INTEGER NOT NULL DEFAULT 0,
+    "status" "WaitlistEntryStatus" NOT NULL DEFAULT 'WAITING',
+    "note" TEXT,
+    "created_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "waitlist_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "waitlist_offers" (
+    "id" TEXT NOT NULL,
+    "entry_id" TEXT NOT NULL,
+    "clinic_id" TEXT NOT NULL,
+    "doctor_id" TEXT NOT NULL,
+    "appointment_id" TEXT,
+    "slot_start" TIMESTAMP(3) NOT NULL,
+    "time" TEXT NOT NULL,
+    "duration" INTEGER NOT NULL,
+    "status" "WaitlistOfferStatus" NOT NULL DEFAULT 'PENDING',
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "responded_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "waitlist_offers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "waitlist_entries_clinic_id_status_priority_idx" ON "waitlist_entries"("clinic_id", "status", "priority");
+
+-- CreateIndex
+CREATE INDEX "waitlist_entries_doctor_id_status_idx" ON "waitlist_entries"("doctor_id", "status");
+
+-- CreateIndex
+CREATE INDEX "waitlist_entries_patient_id_idx" ON "waitlist_entries"("patient_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "waitlist_offers_appointment_id_key" ON "waitlist_offers"("appointment_id");
+
+-- CreateIndex
+CREATE INDEX "waitlist_offers_status_expires_at_idx" ON "waitlist_offers"("status", "expires_at");
+
+-- CreateIndex
+CREATE INDEX "waitlist_offers_doctor_id_slot_start_idx" ON "waitlist_offers"("doctor_id", "slot_start");
+
+-- CreateIndex
+CREATE INDEX "waitlist_offers_entry_id_idx" ON "waitlist_offers"("entry_id");
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_clinic_id_fkey" FOREIGN KEY ("clinic_id") REFERENCES "clinics"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_patient_id_fkey" FOREIGN KEY ("patient_id") REFERENCES "patients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_doctor_id_fkey" FOREIGN KEY ("doctor_id") REFERENCES "doctors"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_entries" ADD CONSTRAINT "waitlist_entries_service_id_fkey" FOREIGN KEY ("service_id") REFERENCES "Service"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_offers" ADD CONSTRAINT "waitlist_offers_entry_id_fkey" FOREIGN KEY ("entry_id") REFERENCES "waitlist_entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "waitlist_offers" ADD CONSTRAINT "waitlist_offers_appointment_id_fkey" FOREIGN KEY ("appointment_id") REFERENCES "Appointment"("id") ON DELETE SET NULL ON UPDATE CASCADE;
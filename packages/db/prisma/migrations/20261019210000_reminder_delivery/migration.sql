@@ -0,0 +1,38 @@
+-- AlterEnum
+ALTER TYPE "ReminderStatus" ADD VALUE 'RETRYING';
+ALTER TYPE "ReminderStatus" ADD VALUE 'CANCELLED';
+
+-- DropIndex
+DROP INDEX "Reminder_appointmentId_key";
+
+-- AlterTable
+ALTER TABLE "Reminder" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "error" TEXT,
+ADD COLUMN     "immunizationId" TEXT,
+ADD COLUMN     "jobId" TEXT,
+ADD COLUMN     "lastAttemptAt" TIMESTAMP(3),
+ADD COLUMN     "leadTime" TEXT,
+ADD COLUMN     "recipient" TEXT,
+ADD COLUMN     "scheduledFor" TIMESTAMP(3),
+ADD COLUMN     "updatedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ALTER COLUMN "appointmentId" DROP NOT NULL,
+ALTER COLUMN "sentAt" DROP NOT NULL,
+ALTER COLUMN "status" SET DEFAULT 'PENDING';
+
+-- Existing rows were written at send time
+UPDATE "Reminder" SET "scheduledFor" = "sentAt", "attempts" = 1, "lastAttemptAt" = "sentAt";
+ALTER TABLE "Reminder" ALTER COLUMN "scheduledFor" SET NOT NULL;
+ALTER TABLE "Reminder" ALTER COLUMN "updatedAt" DROP DEFAULT;
+
+-- CreateIndex
+CREATE INDEX "Reminder_appointmentId_status_idx" ON "Reminder"("appointmentId", "status");
+
+-- CreateIndex
+CREATE INDEX "Reminder_immunizationId_idx" ON "Reminder"("immunizationId");
+
+-- CreateIndex
+CREATE INDEX "Reminder_status_scheduledFor_idx" ON "Reminder"("status", "scheduledFor");
+
+-- AddForeignKey
+ALTER TABLE "Reminder" ADD CONSTRAINT "Reminder_immunizationId_fkey" FOREIGN KEY ("immunizationId") REFERENCES "Immunization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
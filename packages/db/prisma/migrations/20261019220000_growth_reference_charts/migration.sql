@@ -0,0 +1,17 @@
+-- AlterEnum
+ALTER TYPE "ChartType" ADD VALUE 'BFA';
+ALTER TYPE "ChartType" ADD VALUE 'WFL';
+ALTER TYPE "ChartType" ADD VALUE 'WFH';
+
+-- AlterEnum
+ALTER TYPE "MeasurementType" ADD VALUE 'BMI';
+
+-- AlterTable
+ALTER TABLE "who_growth_standards" ADD COLUMN     "length_cm" DOUBLE PRECISION,
+ALTER COLUMN "ageDays" DROP NOT NULL;
+
+-- Weight-for-age rows seeded before chart types were set
+UPDATE "who_growth_standards" SET "chart_type" = 'WFA' WHERE "chart_type" IS NULL AND "measuement_type" = 'Weight';
+
+-- CreateIndex
+CREATE INDEX "who_growth_standards_chart_type_gender_idx" ON "who_growth_standards"("chart_type", "gender");
@@ -0,0 +1,15 @@
+-- CreateEnum
+CREATE TYPE "GrowthReferenceSource" AS ENUM ('WHO', 'FENTON_2013', 'INTERGROWTH_21ST');
+
+-- AlterTable
+ALTER TABLE "patients" ADD COLUMN     "gestationalAgeDays" INTEGER,
+ADD COLUMN     "gestationalAgeWeeks" INTEGER;
+
+-- AlterTable
+ALTER TABLE "who_growth_standards" ADD COLUMN     "source" "GrowthReferenceSource" NOT NULL DEFAULT 'WHO';
+
+-- DropIndex
+DROP INDEX "who_growth_standards_chart_type_gender_idx";
+
+-- CreateIndex
+CREATE INDEX "who_growth_standards_source_chart_type_gender_idx" ON "who_growth_standards"("source", "chart_type", "gender");
@@ -0,0 +1,40 @@
+-- CreateEnum
+CREATE TYPE "GrowthAlertType" AS ENUM ('PERCENTILE_CROSSING_DOWN', 'WEIGHT_FOR_LENGTH_DECLINE', 'HEAD_CIRCUMFERENCE_CROSSING_UP', 'LOW_HEIGHT_VELOCITY', 'RAPID_WEIGHT_GAIN');
+
+-- CreateEnum
+CREATE TYPE "GrowthAlertSeverity" AS ENUM ('WARNING', 'CRITICAL');
+
+-- CreateTable
+CREATE TABLE "growth_alerts" (
+    "id" TEXT NOT NULL,
+    "clinic_id" TEXT NOT NULL,
+    "patient_id" TEXT NOT NULL,
+    "growth_record_id" TEXT NOT NULL,
+    "type" "GrowthAlertType" NOT NULL,
+    "severity" "GrowthAlertSeverity" NOT NULL,
+    "message" TEXT NOT NULL,
+    "details" JSONB,
+    "acknowledged_at" TIMESTAMP(3),
+    "acknowledged_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "growth_alerts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "growth_alerts_clinic_id_acknowledged_at_idx" ON "growth_alerts"("clinic_id", "acknowledged_at");
+
+-- CreateIndex
+CREATE INDEX "growth_alerts_patient_id_type_acknowledged_at_idx" ON "growth_alerts"("patient_id", "type", "acknowledged_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "growth_alerts_growth_record_id_type_key" ON "growth_alerts"("growth_record_id", "type");
+
+-- AddForeignKey
+ALTER TABLE "growth_alerts" ADD CONSTRAINT "growth_alerts_clinic_id_fkey" FOREIGN KEY ("clinic_id") REFERENCES "clinics"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "growth_alerts" ADD CONSTRAINT "growth_alerts_patient_id_fkey" FOREIGN KEY ("patient_id") REFERENCES "patients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "growth_alerts" ADD CONSTRAINT "growth_alerts_growth_record_id_fkey" FOREIGN KEY ("growth_record_id") REFERENCES "GrowthRecord"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "Guardian" ADD COLUMN     "height_cm" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "patients" ADD COLUMN     "fatherHeightCm" DOUBLE PRECISION,
+ADD COLUMN     "motherHeightCm" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "growth_velocity_standards" (
+    "id" TEXT NOT NULL,
+    "gender" "Gender" NOT NULL,
+    "measurement_type" "MeasurementType" NOT NULL,
+    "interval_months" INTEGER NOT NULL,
+    "start_month" INTEGER NOT NULL,
+    "end_month" INTEGER NOT NULL,
+    "delta" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "l_value" DOUBLE PRECISION NOT NULL,
+    "m_value" DOUBLE PRECISION NOT NULL,
+    "s_value" DOUBLE PRECISION NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "growth_velocity_standards_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "growth_velocity_standards_gender_measurement_type_interval__key" ON "growth_velocity_standards"("gender", "measurement_type", "interval_months", "start_month");
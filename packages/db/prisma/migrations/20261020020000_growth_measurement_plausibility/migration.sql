@@ -0,0 +1,11 @@
+-- CreateEnum
+CREATE TYPE "MeasurementPlausibility" AS ENUM ('PLAUSIBLE', 'FLAGGED', 'CONFIRMED');
+
+-- AlterTable
+ALTER TABLE "GrowthRecord" ADD COLUMN     "plausibility" "MeasurementPlausibility" NOT NULL DEFAULT 'PLAUSIBLE',
+ADD COLUMN     "plausibilityFlags" JSONB,
+ADD COLUMN     "confirmedAt" TIMESTAMP(3),
+ADD COLUMN     "confirmedById" TEXT;
+
+-- CreateIndex
+CREATE INDEX "GrowthRecord_clinicId_plausibility_idx" ON "GrowthRecord"("clinicId", "plausibility");
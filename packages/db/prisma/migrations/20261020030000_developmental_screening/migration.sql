@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "DevelopmentalDomain" AS ENUM ('GROSS_MOTOR', 'FINE_MOTOR', 'LANGUAGE', 'SOCIAL', 'COGNITIVE');
+
+-- CreateEnum
+CREATE TYPE "MilestoneStatus" AS ENUM ('ACHIEVED', 'NOT_YET');
+
+-- AlterTable
+ALTER TABLE "DevelopmentalMilestone" ADD COLUMN     "checkId" INTEGER,
+ADD COLUMN     "milestoneCode" TEXT,
+ADD COLUMN     "domain" "DevelopmentalDomain",
+ADD COLUMN     "status" "MilestoneStatus" NOT NULL DEFAULT 'ACHIEVED',
+ALTER COLUMN "ageAchieved" DROP NOT NULL;
+
+-- AlterTable
+ALTER TABLE "developmental_check" ADD COLUMN     "grossMotorSkills" "DevelopmentStatus",
+ADD COLUMN     "fineMotorSkills" "DevelopmentStatus",
+ADD COLUMN     "assessedAgeMonths" INTEGER,
+ADD COLUMN     "instrument" TEXT,
+ADD COLUMN     "overdueMilestones" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "performedById" TEXT;
+
+-- CreateIndex
+CREATE INDEX "DevelopmentalMilestone_patientId_milestoneCode_dateRecorded_idx" ON "DevelopmentalMilestone"("patientId", "milestoneCode", "dateRecorded");
+
+-- CreateIndex
+CREATE INDEX "DevelopmentalMilestone_checkId_idx" ON "DevelopmentalMilestone"("checkId");
+
+-- AddForeignKey
+ALTER TABLE "DevelopmentalMilestone" ADD CONSTRAINT "DevelopmentalMilestone_checkId_fkey" FOREIGN KEY ("checkId") REFERENCES "developmental_check"("id") ON DELETE CASCADE ON UPDATE CASCADE;
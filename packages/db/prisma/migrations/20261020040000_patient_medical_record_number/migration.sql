@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "patients" ADD COLUMN     "medicalRecordNumber" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "patients_clinicId_medicalRecordNumber_key" ON "patients"("clinicId", "medicalRecordNumber");
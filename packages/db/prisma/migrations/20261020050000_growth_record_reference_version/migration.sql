@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "GrowthRecord" ADD COLUMN "referenceVersion" TEXT;
+
+-- CreateIndex
+CREATE INDEX "GrowthRecord_referenceVersion_idx" ON "GrowthRecord"("referenceVersion");
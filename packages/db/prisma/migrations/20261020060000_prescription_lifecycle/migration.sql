@@ -0,0 +1,29 @@
+-- CreateEnum
+CREATE TYPE "PrescriptionStatus" AS ENUM ('ACTIVE', 'COMPLETED', 'CANCELLED');
+
+-- AlterTable: free-text statuses become the enum; anything unrecognised stays active
+ALTER TABLE "prescriptions" ALTER COLUMN "status" DROP DEFAULT;
+ALTER TABLE "prescriptions" ALTER COLUMN "status" TYPE "PrescriptionStatus" USING (
+  CASE lower(trim("status"))
+    WHEN 'completed' THEN 'COMPLETED'
+    WHEN 'cancelled' THEN 'CANCELLED'
+    WHEN 'canceled' THEN 'CANCELLED'
+    ELSE 'ACTIVE'
+  END
+)::"PrescriptionStatus";
+ALTER TABLE "prescriptions" ALTER COLUMN "status" SET DEFAULT 'ACTIVE';
+
+ALTER TABLE "prescriptions" ADD COLUMN "weight_kg" DOUBLE PRECISION,
+ADD COLUMN "discontinued_at" TIMESTAMP(3),
+ADD COLUMN "discontinued_reason" TEXT,
+ADD COLUMN "discontinued_by_id" TEXT,
+ADD COLUMN "renewed_from_id" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "prescriptions_renewed_from_id_key" ON "prescriptions"("renewed_from_id");
+
+-- CreateIndex
+CREATE INDEX "prescriptions_patientId_status_idx" ON "prescriptions"("patientId", "status");
+
+-- AddForeignKey
+ALTER TABLE "prescriptions" ADD CONSTRAINT "prescriptions_renewed_from_id_fkey" FOREIGN KEY ("renewed_from_id") REFERENCES "prescriptions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "InteractionSeverity" AS ENUM ('MILD', 'MODERATE', 'SEVERE', 'CONTRAINDICATED');
+
+-- AlterTable
+ALTER TABLE "Drug" ADD COLUMN "drugClasses" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "drug_interactions" (
+    "id" TEXT NOT NULL,
+    "subject_a" TEXT NOT NULL,
+    "subject_b" TEXT NOT NULL,
+    "severity" "InteractionSeverity" NOT NULL,
+    "mechanism" TEXT NOT NULL,
+    "management" TEXT NOT NULL,
+    "source" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "drug_interactions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "drug_interactions_subject_a_subject_b_key" ON "drug_interactions"("subject_a", "subject_b");
+
+-- CreateIndex
+CREATE INDEX "drug_interactions_subject_b_idx" ON "drug_interactions"("subject_b");
@@ -0,0 +1,125 @@
+-- CreateEnum
+CREATE TYPE "AllergenType" AS ENUM ('DRUG', 'DRUG_CLASS', 'FOOD', 'ENVIRONMENTAL', 'OTHER');
+
+-- CreateEnum
+CREATE TYPE "AllergySeverity" AS ENUM ('MILD', 'MODERATE', 'SEVERE', 'ANAPHYLAXIS');
+
+-- CreateEnum
+CREATE TYPE "AllergyVerificationStatus" AS ENUM ('UNVERIFIED', 'VERIFIED', 'REFUTED');
+
+-- CreateEnum
+CREATE TYPE "ConditionCodeSystem" AS ENUM ('ICD10', 'SNOMED_CT');
+
+-- CreateEnum
+CREATE TYPE "ConditionStatus" AS ENUM ('ACTIVE', 'RESOLVED');
+
+-- AlterTable
+ALTER TABLE "Drug" ADD COLUMN "ingredients" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+-- CreateTable
+CREATE TABLE "patient_allergies" (
+    "id" TEXT NOT NULL,
+    "clinic_id" TEXT NOT NULL,
+    "patient_id" TEXT NOT NULL,
+    "allergen" TEXT NOT NULL,
+    "allergen_type" "AllergenType" NOT NULL DEFAULT 'OTHER',
+    "drug_id" TEXT,
+    "reaction" TEXT,
+    "severity" "AllergySeverity",
+    "verification_status" "AllergyVerificationStatus" NOT NULL DEFAULT 'UNVERIFIED',
+    "onset_date" TIMESTAMP(3),
+    "notes" TEXT,
+    "source_text" TEXT,
+    "needs_review" BOOLEAN NOT NULL DEFAULT false,
+    "reviewed_at" TIMESTAMP(3),
+    "reviewed_by_id" TEXT,
+    "recorded_by_id" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "patient_allergies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "patient_conditions" (
+    "id" TEXT NOT NULL,
+    "clinic_id" TEXT NOT NULL,
+    "patient_id" TEXT NOT NULL,
+    "display" TEXT NOT NULL,
+    "code" TEXT,
+    "code_system" "ConditionCodeSystem",
+    "status" "ConditionStatus" NOT NULL DEFAULT 'ACTIVE',
+    "onset_date" TIMESTAMP(3),
+    "resolved_date" TIMESTAMP(3),
+    "notes" TEXT,
+    "source_text" TEXT,
+    "needs_review" BOOLEAN NOT NULL DEFAULT false,
+    "reviewed_at" TIMESTAMP(3),
+    "reviewed_by_id" TEXT,
+    "recorded_by_id" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "patient_conditions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "patient_allergies_patient_id_is_active_idx" ON "patient_allergies"("patient_id", "is_active");
+
+-- CreateIndex
+CREATE INDEX "patient_allergies_clinic_id_needs_review_idx" ON "patient_allergies"("clinic_id", "needs_review");
+
+-- CreateIndex
+CREATE INDEX "patient_conditions_patient_id_status_idx" ON "patient_conditions"("patient_id", "status");
+
+-- CreateIndex
+CREATE INDEX "patient_conditions_clinic_id_needs_review_idx" ON "patient_conditions"("clinic_id", "needs_review");
+
+-- AddForeignKey
+ALTER TABLE "patient_allergies" ADD CONSTRAINT "patient_allergies_clinic_id_fkey" FOREIGN KEY ("clinic_id") REFERENCES "clinics"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "patient_allergies" ADD CONSTRAINT "patient_allergies_patient_id_fkey" FOREIGN KEY ("patient_id") REFERENCES "patients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "patient_allergies" ADD CONSTRAINT "patient_allergies_drug_id_fkey" FOREIGN KEY ("drug_id") REFERENCES "Drug"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "patient_conditions" ADD CONSTRAINT "patient_conditions_clinic_id_fkey" FOREIGN KEY ("clinic_id") REFERENCES "clinics"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "patient_conditions" ADD CONSTRAINT "patient_conditions_patient_id_fkey" FOREIGN KEY ("patient_id") REFERENCES "patients"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Migrate free-text allergies: one unverified entry per listed item, queued for review.
+-- Entries that say there is no allergy are dropped.
+INSERT INTO "patient_allergies" ("id", "clinic_id", "patient_id", "allergen", "source_text", "needs_review", "updated_at")
+SELECT gen_random_uuid()::TEXT, p."clinicId", p."id", btrim(item), p."allergies", true, CURRENT_TIMESTAMP
+FROM "patients" p
+CROSS JOIN LATERAL regexp_split_to_table(p."allergies", '[,;\n]+') AS item
+WHERE p."allergies" IS NOT NULL
+  AND btrim(item) <> ''
+  AND lower(btrim(item)) NOT IN ('none', 'nil', 'n/a', 'na', 'nka', 'nkda', 'no', 'no known allergies', 'no known drug allergies');
+
+-- Suggest a type where the allergen names a formulary drug or a drug class
+UPDATE "patient_allergies" a
+SET "allergen_type" = 'DRUG', "drug_id" = d."id"
+FROM "Drug" d
+WHERE a."needs_review" AND lower(a."allergen") = lower(d."name");
+
+UPDATE "patient_allergies" a
+SET "allergen_type" = 'DRUG_CLASS'
+WHERE a."needs_review" AND a."allergen_type" = 'OTHER'
+  AND EXISTS (
+    SELECT 1 FROM "Drug" d, unnest(d."drugClasses") AS c
+    WHERE lower(a."allergen") IN (c, c || 's')
+  );
+
+-- Migrate free-text conditions the same way; they need a code before they leave the queue
+INSERT INTO "patient_conditions" ("id", "clinic_id", "patient_id", "display", "source_text", "needs_review", "updated_at")
+SELECT gen_random_uuid()::TEXT, p."clinicId", p."id", btrim(item), p."medicalConditions", true, CURRENT_TIMESTAMP
+FROM "patients" p
+CROSS JOIN LATERAL regexp_split_to_table(p."medicalConditions", '[,;\n]+') AS item
+WHERE p."medicalConditions" IS NOT NULL
+  AND btrim(item) <> ''
+  AND lower(btrim(item)) NOT IN ('none', 'nil', 'n/a', 'na', 'no');
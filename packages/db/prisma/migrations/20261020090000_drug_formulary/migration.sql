@@ -0,0 +1,55 @@
+-- CreateEnum
+CREATE TYPE "DrugForm" AS ENUM ('TABLET', 'DISPERSIBLE_TABLET', 'CAPSULE', 'SYRUP', 'SUSPENSION', 'SOLUTION', 'DROPS', 'INJECTION', 'SUPPOSITORY');
+
+-- CreateEnum
+CREATE TYPE "PregnancyCategory" AS ENUM ('A', 'B', 'C', 'D', 'X', 'N');
+
+-- CreateEnum
+CREATE TYPE "ControlledSchedule" AS ENUM ('I', 'II', 'III', 'IV', 'V');
+
+-- AlterTable
+ALTER TABLE "Drug" ADD COLUMN "genericName" TEXT,
+ADD COLUMN "brandNames" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "manufacturer" TEXT,
+ADD COLUMN "description" TEXT,
+ADD COLUMN "indications" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "contraindications" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "sideEffects" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "warnings" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN "pregnancyCategory" "PregnancyCategory",
+ADD COLUMN "isControlled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "controlledSchedule" "ControlledSchedule",
+ADD COLUMN "requiresPriorAuth" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "isActive" BOOLEAN NOT NULL DEFAULT true;
+
+-- AlterTable
+ALTER TABLE "prescribed_items" ADD COLUMN "formulationId" TEXT,
+ADD COLUMN "measuredQuantity" DOUBLE PRECISION,
+ADD COLUMN "measuredUnit" TEXT;
+
+-- CreateTable
+CREATE TABLE "drug_formulations" (
+    "id" TEXT NOT NULL,
+    "drug_id" TEXT NOT NULL,
+    "form" "DrugForm" NOT NULL,
+    "route" "DrugRoute" NOT NULL,
+    "strength" DOUBLE PRECISION NOT NULL,
+    "strength_unit" TEXT NOT NULL DEFAULT 'mg',
+    "per_volume_ml" DOUBLE PRECISION,
+    "divisions" INTEGER NOT NULL DEFAULT 1,
+    "label" TEXT,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "drug_formulations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "drug_formulations_drug_id_is_active_idx" ON "drug_formulations"("drug_id", "is_active");
+
+-- AddForeignKey
+ALTER TABLE "drug_formulations" ADD CONSTRAINT "drug_formulations_drug_id_fkey" FOREIGN KEY ("drug_id") REFERENCES "Drug"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "prescribed_items" ADD CONSTRAINT "prescribed_items_formulationId_fkey" FOREIGN KEY ("formulationId") REFERENCES "drug_formulations"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "prescribed_items" ADD COLUMN "indication" TEXT;
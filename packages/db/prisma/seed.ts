@@ -2,8 +2,12 @@ import 'dotenv/config';
 
 import { prisma } from '../src/client';
 import baseSeed from './seed/seed';
+import drugFormularySeed from './seed/seed-drug-formulary';
+import drugIngredientSeed from './seed/seed-drug-ingredients';
+import drugInteractionSeed from './seed/seed-drug-interactions';
 import drugSeed from './seed/seed-drugs';
-import wfaSeed from './seed/seed-wfa';
+import growthReferenceSeed from './seed/seed-growth-references';
+import growthVelocitySeed from './seed/seed-growth-velocity';
 
 export type PrismaSeedClient = typeof prisma;
 
@@ -21,8 +25,24 @@ async function runAllSeeds(prisma: PrismaSeedClient): Promise<void> {
   console.log('✅ NICU Drug Database Seeded');
   console.log('--------------------------------------------------');
 
-  await wfaSeed(prisma);
-  console.log('✅ WHO WFA (JSON) Seeded');
+  await drugInteractionSeed(prisma);
+  console.log('✅ Drug Interactions Seeded');
+  console.log('--------------------------------------------------');
+
+  await drugIngredientSeed(prisma);
+  console.log('✅ Drug Ingredients Seeded');
+  console.log('--------------------------------------------------');
+
+  await drugFormularySeed(prisma);
+  console.log('✅ Drug Formulary Seeded');
+  console.log('--------------------------------------------------');
+
+  await growthReferenceSeed(prisma);
+  console.log('✅ WHO Growth References (JSON) Seeded');
+  console.log('--------------------------------------------------');
+
+  await growthVelocitySeed(prisma);
+  console.log('✅ WHO Growth Velocity Standards Seeded');
   console.log('--------------------------------------------------');
 
   console.log('🎉 All seeds completed successfully!');
@@ -0,0 +1,25 @@
+import { readFileSync } from 'node:fs';
+import * as path from 'node:path';
+
+import { FormularyService } from '../../src/services/formulary.service';
+import { FormularyImportSchema } from '../../src/zodSchemas/prescription.schema';
+import type { PrismaSeedClient } from '../seed';
+
+const DATA_FILE = path.join(import.meta.dirname, '..', 'data', 'drug_formulary.json');
+
+/**
+ * Generic and brand names, controlled schedules and the stocked formulations
+ * of the NICU formulary, `{ drugs }`. Runs after the drug seed so the listed
+ * drugs are updated rather than added.
+ */
+export default async function drugFormularySeed(prisma: PrismaSeedClient) {
+  console.log('--- Starting Drug Formulary Seeding ---');
+
+  const dataset = FormularyImportSchema.parse(JSON.parse(readFileSync(DATA_FILE, 'utf-8')));
+  const result = await new FormularyService(prisma).importFormulary(dataset);
+
+  if (result.created) {
+    console.warn(`⚠️ ${result.created} formulary drugs had no dose guidelines and were added`);
+  }
+  console.log(`🎉 Seeded ${result.formulations} formulations for ${result.updated + result.created} drugs.`);
+}
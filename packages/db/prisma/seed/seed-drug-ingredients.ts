@@ -0,0 +1,28 @@
+import { readFileSync } from 'node:fs';
+import * as path from 'node:path';
+
+import type { PrismaSeedClient } from '../seed';
+
+const DATA_FILE = path.join(import.meta.dirname, '..', 'data', 'drug_ingredients.json');
+
+/**
+ * Active ingredients of formulary drugs whose name is not their single
+ * ingredient, `{ [drugName]: ingredients }`. Allergies are matched on them.
+ */
+export default async function drugIngredientSeed(prisma: PrismaSeedClient) {
+  console.log('--- Starting Drug Ingredient Seeding ---');
+
+  const ingredientsByDrug = JSON.parse(readFileSync(DATA_FILE, 'utf-8')) as Record<string, string[]>;
+
+  let updated = 0;
+  for (const [name, ingredients] of Object.entries(ingredientsByDrug)) {
+    const { count } = await prisma.drug.updateMany({
+      where: { name },
+      data: { ingredients: ingredients.map(ingredient => ingredient.trim().toLowerCase()) }
+    });
+    if (!count) console.warn(`⚠️ Ingredients listed for a drug not in the formulary: ${name}`);
+    updated += count;
+  }
+
+  console.log(`🎉 Seeded ingredients for ${updated} drugs.`);
+}
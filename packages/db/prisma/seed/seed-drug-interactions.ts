@@ -0,0 +1,24 @@
+import { readFileSync } from 'node:fs';
+import * as path from 'node:path';
+
+import { DrugInteractionService } from '../../src/services/drug-interaction.service';
+import { DrugInteractionDatasetSchema } from '../../src/zodSchemas/prescription.schema';
+import type { PrismaSeedClient } from '../seed';
+
+const DATA_FILE = path.join(import.meta.dirname, '..', 'data', 'drug_interactions.json');
+
+/**
+ * Drug–drug interactions for the NICU formulary, `{ classes, interactions }`.
+ * Runs after the drug seed so the listed drugs can be given their classes.
+ */
+export default async function drugInteractionSeed(prisma: PrismaSeedClient) {
+  console.log('--- Starting Drug Interaction Seeding ---');
+
+  const dataset = DrugInteractionDatasetSchema.parse(JSON.parse(readFileSync(DATA_FILE, 'utf-8')));
+  const result = await new DrugInteractionService(prisma).importDataset(dataset);
+
+  if (result.unknownDrugs.length) {
+    console.warn(`⚠️ Classes listed for drugs not in the formulary: ${result.unknownDrugs.join(', ')}`);
+  }
+  console.log(`🎉 Seeded ${result.interactions} interactions; ${result.classifiedDrugs} drugs classified.`);
+}
@@ -0,0 +1,372 @@
+import { existsSync } from 'node:fs';
+import * as path from 'node:path';
+
+import { ChartType, Gender, GrowthReferenceSource, MeasurementType } from '@generated/browser';
+
+import type { PrismaSeedClient } from '../seed';
+
+const DATA_DIR = path.join(import.meta.dirname, '..', 'data');
+
+/**
+ * Column of the table that places a row on its chart. Preterm tables are
+ * indexed by completed weeks of postmenstrual age.
+ */
+type IndexColumn = 'Day' | 'Week' | 'Month' | 'Length' | 'Height';
+
+interface ReferenceFile {
+  chartType: ChartType;
+  /** File under prisma/data */
+  file: string;
+  index: IndexColumn;
+  /** Top-level key holding `{ boys, girls }` */
+  key: string;
+  measurementType: MeasurementType;
+  /** Defaults to WHO */
+  source?: GrowthReferenceSource;
+}
+
+/**
+ * WHO reference tables, in the layout of the published z-score tables (one
+ * row per day, month or length with L, M, S and SD columns). Tables published
+ * in two age bands are joined into one file; where they overlap the first
+ * band's row is kept.
+ *
+ * - WHO Child Growth Standards (2006), 0-5 years:
+ *   https://www.who.int/tools/child-growth-standards/standards
+ * - WHO Growth Reference (2007), 5-19 years:
+ *   https://www.who.int/tools/growth-reference-data-for-5to19-years
+ *
+ * Preterm references use the same layout, one row per week of postmenstrual age:
+ *
+ * - Fenton 2013 preterm growth chart, 22-50 weeks:
+ *   https://ucalgary.ca/resource/preterm-growth-chart
+ * - INTERGROWTH-21st postnatal growth of preterm infants, 27-64 weeks:
+ *   https://intergrowth21.com/tools-resources/preterm-postnatal-growth
+ *
+ * Every table is required, preterm ones included: the seed stops before
+ * clearing anything when one is missing, rather than leaving a chart (or a
+ * preterm baby's scores) without a reference.
+ */
+const REFERENCE_FILES: ReferenceFile[] = [
+  // WHO 2006, 0-5 years
+  {
+    chartType: ChartType.WFA,
+    measurementType: MeasurementType.Weight,
+    file: 'zscore-wfa.json',
+    key: 'wfa',
+    index: 'Day'
+  },
+  {
+    chartType: ChartType.HFA,
+    measurementType: MeasurementType.Height,
+    file: 'zscore-lhfa.json',
+    key: 'lhfa',
+    index: 'Month'
+  },
+  {
+    chartType: ChartType.HcFA,
+    measurementType: MeasurementType.HeadCircumference,
+    file: 'zscore-hcfa.json',
+    key: 'hcfa',
+    index: 'Day'
+  },
+  {
+    chartType: ChartType.BFA,
+    measurementType: MeasurementType.BMI,
+    file: 'zscore-bfa.json',
+    key: 'bfa',
+    index: 'Month'
+  },
+  {
+    chartType: ChartType.WFL,
+    measurementType: MeasurementType.Weight,
+    file: 'zscore-wfl.json',
+    key: 'wfl',
+    index: 'Length'
+  },
+  {
+    chartType: ChartType.WFH,
+    measurementType: MeasurementType.Weight,
+    file: 'zscore-wfh.json',
+    key: 'wfh',
+    index: 'Height'
+  },
+  // WHO 2007, 5-19 years (weight-for-age stops at 10 years)
+  {
+    chartType: ChartType.WFA,
+    measurementType: MeasurementType.Weight,
+    file: 'zscore-wfa-5-10y.json',
+    key: 'wfa',
+    index: 'Month'
+  },
+  {
+    chartType: ChartType.HFA,
+    measurementType: MeasurementType.Height,
+    file: 'zscore-hfa-5-19y.json',
+    key: 'hfa',
+    index: 'Month'
+  },
+  {
+    chartType: ChartType.BFA,
+    measurementType: MeasurementType.BMI,
+    file: 'zscore-bfa-5-19y.json',
+    key: 'bfa',
+    index: 'Month'
+  },
+  // Preterm references, by postmenstrual age
+  ...(
+    [
+      [GrowthReferenceSource.FENTON_2013, 'fenton'],
+      [GrowthReferenceSource.INTERGROWTH_21ST, 'intergrowth']
+    ] as const
+  ).flatMap(([source, prefix]) => [
+    {
+      source,
+      chartType: ChartType.WFA,
+      measurementType: MeasurementType.Weight,
+      file: `${prefix}-wfa.json`,
+      key: 'wfa',
+      index: 'Week' as const
+    },
+    {
+      source,
+      chartType: ChartType.HFA,
+      measurementType: MeasurementType.Height,
+      file: `${prefix}-lfa.json`,
+      key: 'lfa',
+      index: 'Week' as const
+    },
+    {
+      source,
+      chartType: ChartType.HcFA,
+      measurementType: MeasurementType.HeadCircumference,
+      file: `${prefix}-hcfa.json`,
+      key: 'hcfa',
+      index: 'Week' as const
+    }
+  ])
+];
+
+type ZScoreDataPoint = Partial<Record<IndexColumn, string>> & {
+  L: string;
+  M: string;
+  S: string;
+  SD0: string;
+  SD1: string;
+  SD1neg: string;
+  SD2: string;
+  SD2neg: string;
+  SD3: string;
+  SD3neg: string;
+  SD4?: string;
+  SD4neg?: string;
+};
+
+interface GenderData {
+  boys: ZScoreDataPoint[];
+  girls: ZScoreDataPoint[];
+}
+
+interface ValidatedGrowthRecord {
+  ageDays: number | null;
+  ageInMonths: number | null;
+  chartType: ChartType;
+  gender: Gender;
+  lengthCm: number | null;
+  lValue: number;
+  measurementType: MeasurementType;
+  mValue: number;
+  sd0: number;
+  sd1neg: number;
+  sd1pos: number;
+  sd2neg: number;
+  sd2pos: number;
+  sd3neg: number;
+  sd3pos: number;
+  sd4neg: number | null;
+  sd4pos: number | null;
+  source: GrowthReferenceSource;
+  sValue: number;
+}
+
+function parseNumericValue(value: string | undefined): number | null {
+  if (value === undefined || value.trim() === '') {
+    return null;
+  }
+  const parsed = Number.parseFloat(value);
+  return Number.isNaN(parsed) ? null : parsed;
+}
+
+const DAYS_PER_MONTH = 30.4375;
+
+/**
+ * Age (or length) columns of a row, depending on how its table is indexed
+ */
+function mapIndex(
+  dataPoint: ZScoreDataPoint,
+  index: IndexColumn
+): Pick<ValidatedGrowthRecord, 'ageDays' | 'ageInMonths' | 'lengthCm'> {
+  const raw = parseNumericValue(dataPoint[index]);
+  if (raw === null) {
+    throw new Error(`Invalid '${index}' value: ${dataPoint[index]}`);
+  }
+
+  switch (index) {
+    case 'Day':
+      return { ageDays: Math.round(raw), ageInMonths: Math.floor(raw / DAYS_PER_MONTH), lengthCm: null };
+    case 'Week':
+      return { ageDays: Math.round(raw * 7), ageInMonths: null, lengthCm: null };
+    case 'Month':
+      return { ageDays: Math.round(raw * DAYS_PER_MONTH), ageInMonths: Math.round(raw), lengthCm: null };
+    default:
+      return { ageDays: null, ageInMonths: null, lengthCm: Math.round(raw * 10) / 10 };
+  }
+}
+
+function mapDataPoint(dataPoint: ZScoreDataPoint, reference: ReferenceFile, gender: Gender): ValidatedGrowthRecord {
+  const requiredFields = {
+    lValue: parseNumericValue(dataPoint.L),
+    mValue: parseNumericValue(dataPoint.M),
+    sValue: parseNumericValue(dataPoint.S),
+    sd0: parseNumericValue(dataPoint.SD0),
+    sd1neg: parseNumericValue(dataPoint.SD1neg),
+    sd1pos: parseNumericValue(dataPoint.SD1),
+    sd2neg: parseNumericValue(dataPoint.SD2neg),
+    sd2pos: parseNumericValue(dataPoint.SD2),
+    sd3neg: parseNumericValue(dataPoint.SD3neg),
+    sd3pos: parseNumericValue(dataPoint.SD3)
+  };
+
+  for (const [key, value] of Object.entries(requiredFields)) {
+    if (value === null) {
+      throw new Error(`Missing or invalid required numeric field: ${key}`);
+    }
+  }
+
+  const validatedFields = requiredFields as Record<keyof typeof requiredFields, number>;
+
+  return {
+    ...mapIndex(dataPoint, reference.index),
+    ...validatedFields,
+    chartType: reference.chartType,
+    measurementType: reference.measurementType,
+    source: reference.source ?? GrowthReferenceSource.WHO,
+    gender,
+    sd4neg: parseNumericValue(dataPoint.SD4neg),
+    sd4pos: parseNumericValue(dataPoint.SD4)
+  };
+}
+
+async function readReferenceFile(reference: ReferenceFile): Promise<GenderData> {
+  const filePath = path.join(DATA_DIR, reference.file);
+  const json = (await import(filePath)).default as Record<string, GenderData | undefined>;
+  const data = json[reference.key];
+  if (!data) {
+    throw new Error(`${reference.file} is missing required '${reference.key}' data.`);
+  }
+  return data;
+}
+
+export default async function growthReferenceSeed(prisma: PrismaSeedClient) {
+  console.log('--- Starting WHO Growth Reference Seeding ---');
+
+  const missing = REFERENCE_FILES.filter(reference => !existsSync(path.join(DATA_DIR, reference.file)));
+  if (missing.length > 0) {
+    throw new Error(
+      `Growth reference tables missing from prisma/data: ${missing
+        .map(reference => `${reference.file} (${reference.source ?? GrowthReferenceSource.WHO} ${reference.chartType})`)
+        .join(', ')}. Add them in the layout described in seed-growth-references.ts from the sources listed there.`
+    );
+  }
+
+  // Index key -> record; the first table to cover a point wins
+  const uniqueRecordsMap = new Map<string, ValidatedGrowthRecord>();
+  let recordsSkipped = 0;
+  let duplicates = 0;
+
+  for (const reference of REFERENCE_FILES) {
+    const data = await readReferenceFile(reference);
+
+    console.log(`Processing ${reference.file} (${reference.chartType})...`);
+
+    for (const [gender, rows] of [
+      [Gender.MALE, data.boys],
+      [Gender.FEMALE, data.girls]
+    ] as const) {
+      if (!Array.isArray(rows)) continue;
+
+      let processed = 0;
+      for (const dataPoint of rows) {
+        try {
+          const record = mapDataPoint(dataPoint, reference, gender);
+          const key = `${record.source}:${record.gender}:${record.chartType}:${record.ageDays ?? `L${record.lengthCm}`}`;
+          if (uniqueRecordsMap.has(key)) {
+            duplicates += 1;
+            continue;
+          }
+          uniqueRecordsMap.set(key, record);
+          processed += 1;
+        } catch (error) {
+          recordsSkipped += 1;
+          console.warn(`Skipping ${gender} ${reference.chartType} record ${dataPoint[reference.index]}: ${error}`);
+        }
+      }
+      console.log(`  ✅ ${gender}: ${processed} of ${rows.length} records`);
+    }
+  }
+
+  const dataToInsert = Array.from(uniqueRecordsMap.values());
+
+  console.log(`\nUnique records ready for insertion: ${dataToInsert.length}`);
+  if (recordsSkipped > 0) {
+    console.log(`Records skipped due to errors: ${recordsSkipped}`);
+  }
+  if (duplicates > 0) {
+    console.log(`Overlapping records removed: ${duplicates}`);
+  }
+
+  if (dataToInsert.length === 0) {
+    console.log('⚠️ No valid WHO Growth Standard data was mapped for insertion.');
+    return;
+  }
+
+  // Clear existing data
+  console.log('\nClearing existing WHO growth standard data...');
+  try {
+    await prisma.wHOGrowthStandard.deleteMany({});
+    console.log('✅ Existing data cleared.');
+  } catch (error) {
+    console.error('❌ Could not clear existing data:', error);
+    return;
+  }
+
+  // Perform Bulk Insertion
+  try {
+    const batchSize = 1000;
+    let totalInserted = 0;
+
+    for (let i = 0; i < dataToInsert.length; i += batchSize) {
+      const batch = dataToInsert.slice(i, i + batchSize);
+      const result = await prisma.wHOGrowthStandard.createMany({
+        data: batch,
+        skipDuplicates: false
+      });
+      totalInserted += result.count;
+    }
+
+    console.log(`\n🎉 SUCCESS! Inserted ${totalInserted} total WHO Growth Standard records.`);
+
+    const byChart = new Map<string, number>();
+    for (const record of dataToInsert) {
+      const chart = `${record.source} ${record.chartType}`;
+      byChart.set(chart, (byChart.get(chart) ?? 0) + 1);
+    }
+
+    console.log('\n📊 Seeding Summary:');
+    for (const [chartType, count] of byChart) {
+      console.log(`  ${chartType}: ${count}`);
+    }
+  } catch (error) {
+    console.error('❌ Failed to insert WHO Growth Standard records:', error);
+  }
+}
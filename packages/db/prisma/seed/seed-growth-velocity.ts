@@ -0,0 +1,104 @@
+import { existsSync } from 'node:fs';
+import * as path from 'node:path';
+
+import { Gender, MeasurementType } from '@generated/browser';
+
+import type { PrismaSeedClient } from '../seed';
+
+const DATA_DIR = path.join(import.meta.dirname, '..', 'data');
+
+/**
+ * WHO Child Growth Standards: growth velocity based on weight, length and
+ * head circumference (2009), birth to 24 months:
+ * https://www.who.int/tools/child-growth-standards/standards
+ *
+ * One file per measurement, `{ boys, girls }`, each row one interval of the
+ * published increment tables. All three are required; the seed stops before
+ * clearing anything when one is missing.
+ */
+const VELOCITY_FILES: Array<{ file: string; measurementType: MeasurementType }> = [
+  { file: 'velocity-weight.json', measurementType: MeasurementType.Weight },
+  { file: 'velocity-length.json', measurementType: MeasurementType.Height },
+  { file: 'velocity-hc.json', measurementType: MeasurementType.HeadCircumference }
+];
+
+/** Months at the start and end of the interval; weight increments in grams */
+interface VelocityRow {
+  Delta?: string;
+  End: string;
+  L: string;
+  M: string;
+  S: string;
+  Start: string;
+}
+
+function parseRequired(value: string | undefined, field: string): number {
+  const parsed = value === undefined ? Number.NaN : Number.parseFloat(value);
+  if (Number.isNaN(parsed)) {
+    throw new Error(`Missing or invalid required numeric field: ${field}`);
+  }
+  return parsed;
+}
+
+export default async function growthVelocitySeed(prisma: PrismaSeedClient) {
+  console.log('--- Starting WHO Growth Velocity Seeding ---');
+
+  const missing = VELOCITY_FILES.filter(({ file }) => !existsSync(path.join(DATA_DIR, file)));
+  if (missing.length > 0) {
+    throw new Error(
+      `Growth velocity tables missing from prisma/data: ${missing
+        .map(({ file, measurementType }) => `${file} (${measurementType})`)
+        .join(', ')}. Add the WHO increment tables in the layout described in seed-growth-velocity.ts.`
+    );
+  }
+
+  const data: Array<{
+    gender: Gender;
+    measurementType: MeasurementType;
+    intervalMonths: number;
+    startMonth: number;
+    endMonth: number;
+    delta: number;
+    lValue: number;
+    mValue: number;
+    sValue: number;
+  }> = [];
+
+  for (const { file, measurementType } of VELOCITY_FILES) {
+    const filePath = path.join(DATA_DIR, file);
+    const json = (await import(filePath)).default as { boys?: VelocityRow[]; girls?: VelocityRow[] };
+    for (const [gender, rows] of [
+      [Gender.MALE, json.boys],
+      [Gender.FEMALE, json.girls]
+    ] as const) {
+      for (const row of rows ?? []) {
+        try {
+          const startMonth = parseRequired(row.Start, 'Start');
+          const endMonth = parseRequired(row.End, 'End');
+          data.push({
+            gender,
+            measurementType,
+            intervalMonths: endMonth - startMonth,
+            startMonth,
+            endMonth,
+            delta: row.Delta ? parseRequired(row.Delta, 'Delta') : 0,
+            lValue: parseRequired(row.L, 'L'),
+            mValue: parseRequired(row.M, 'M'),
+            sValue: parseRequired(row.S, 'S')
+          });
+        } catch (error) {
+          console.warn(`Skipping ${gender} ${measurementType} interval ${row.Start}-${row.End}: ${error}`);
+        }
+      }
+    }
+  }
+
+  if (data.length === 0) {
+    console.log('⚠️ No WHO growth velocity data was mapped for insertion.');
+    return;
+  }
+
+  await prisma.growthVelocityStandard.deleteMany({});
+  const result = await prisma.growthVelocityStandard.createMany({ data, skipDuplicates: true });
+  console.log(`🎉 Inserted ${result.count} WHO growth velocity records.`);
+}
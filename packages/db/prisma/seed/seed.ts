@@ -144,6 +144,8 @@ const clearAllData = async (prisma: PrismaSeedClient) => {
     () => prisma.auditLog.deleteMany({}), // Has nullable relation to User
     () => prisma.clinicMember.deleteMany({}), // Bridge table, user/clinic
     () => prisma.doseGuideline.deleteMany({}),
+    () => prisma.drugFormulation.deleteMany({}),
+    () => prisma.drugInteraction.deleteMany({}),
     () => prisma.expense.deleteMany({}),
     () => prisma.feedingLog.deleteMany({}),
     () => prisma.file.deleteMany({}), // Depends on User, Folder
@@ -153,7 +155,9 @@ const clearAllData = async (prisma: PrismaSeedClient) => {
     () => prisma.labTest.deleteMany({}),
     () => prisma.medicalRecordAccess.deleteMany({}), // Depends on MedicalRecords, User
     () => prisma.notification.deleteMany({}),
+    () => prisma.patientAllergy.deleteMany({}),
     () => prisma.patientBill.deleteMany({}),
+    () => prisma.patientCondition.deleteMany({}),
     () => prisma.payment.deleteMany({}),
     () => prisma.prescribedItem.deleteMany({}),
     () => prisma.prescription.deleteMany({}),
@@ -165,6 +169,8 @@ const clearAllData = async (prisma: PrismaSeedClient) => {
     () => prisma.userQuota.deleteMany({}), // Depends on User
     () => prisma.vitalSigns.deleteMany({}),
     () => prisma.workingDays.deleteMany({}),
+    () => prisma.doctorBreak.deleteMany({}),
+    () => prisma.scheduleException.deleteMany({}),
     () => prisma.diagnosis.deleteMany({}),
     () => prisma.growthRecord.deleteMany({}),
     () => prisma.developmentalMilestone.deleteMany({}),
@@ -192,6 +198,7 @@ const clearAllData = async (prisma: PrismaSeedClient) => {
     () => prisma.settings.deleteMany({}),
     () => prisma.wHOGrowthStandard.deleteMany({}),
     () => prisma.vaccineSchedule.deleteMany({}),
+    () => prisma.vaccineScheduleSet.deleteMany({}),
     () => prisma.configStore.deleteMany({})
   ];
 
@@ -438,6 +445,17 @@ async function createDoctors(prisma: PrismaSeedClient, users: User[], clinics: C
           endTime: faker.helpers.arrayElement(['16:00', '17:00', '18:00'])
         }
       });
+
+      await prisma.doctorBreak.create({
+        data: {
+          doctorId: doctor.id,
+          clinicId: clinic.id,
+          day,
+          startTime: '13:00',
+          endTime: '14:00',
+          label: 'Lunch'
+        }
+      });
     }
   }
 
@@ -759,12 +777,16 @@ async function createAppointments(
 // Create reminder for appointment
 const createReminder = async (prisma: PrismaSeedClient, appointment: Appointment) => {
   if (faker.datatype.boolean(0.6)) {
+    const sentAt = faker.date.recent();
     await prisma.reminder.create({
       data: {
         id: faker.string.uuid(),
         appointmentId: appointment.id,
         method: getRandomEnumValue(ReminderMethod),
-        sentAt: faker.date.recent(),
+        leadTime: '24h',
+        scheduledFor: sentAt,
+        sentAt,
+        attempts: 1,
         status: weightedRandom([
           { item: ReminderStatus.SENT, weight: 0.8 },
           { item: ReminderStatus.FAILED, weight: 0.1 },
@@ -1115,7 +1137,7 @@ const createDrugsAndPrescriptions = async (
         instructions: faker.datatype.boolean(0.7) ? faker.lorem.sentence() : null,
         issuedDate: medicalRecord.createdAt,
         endDate: faker.date.future({ years: 0.5 }),
-        status: faker.helpers.arrayElement(['active', 'completed', 'cancelled']),
+        status: faker.helpers.arrayElement(['ACTIVE', 'COMPLETED', 'CANCELLED'] as const),
         clinicId: medicalRecord.clinicId,
         createdAt: medicalRecord.createdAt
       }
@@ -1605,83 +1627,148 @@ const createVaccineSchedules = async (prisma: PrismaSeedClient) => {
   console.log('📋 Creating vaccine schedules...');
   const schedules = [];
 
-  const vaccineData = [
+  // [minimumAgeDays, recommendedAgeDays, maximumAgeDays, minimumIntervalDays] per dose
+  type DoseRow = [number, number, number | null, number | null];
+  const dtapDoses: DoseRow[] = [
+    [42, 60, null, null],
+    [70, 120, null, 28],
+    [98, 180, null, 28],
+    [365, 450, null, 180],
+    [1460, 1460, null, 180]
+  ];
+  const conjugateDoses: DoseRow[] = [
+    [42, 60, null, null],
+    [70, 120, null, 28],
+    [98, 180, null, 28],
+    [365, 365, 1825, 56]
+  ];
+
+  const vaccineData: Array<{
+    name: string;
+    recommendedAge: string;
+    dosesRequired: number;
+    ageInDaysMin: number;
+    ageInDaysMax: number;
+    doses: DoseRow[];
+  }> = [
     {
       name: 'Hepatitis B',
       recommendedAge: 'Birth',
       dosesRequired: 3,
       ageInDaysMin: 0,
-      ageInDaysMax: 365
+      ageInDaysMax: 365,
+      doses: [
+        [0, 0, null, null],
+        [28, 30, null, 28],
+        [168, 180, null, 56]
+      ]
     },
     {
       name: 'Rotavirus',
       recommendedAge: '2 months',
       dosesRequired: 3,
       ageInDaysMin: 60,
-      ageInDaysMax: 240
+      ageInDaysMax: 240,
+      doses: [
+        [42, 60, 104, null],
+        [70, 120, 240, 28],
+        [98, 180, 240, 28]
+      ]
     },
     {
       name: 'Diphtheria',
       recommendedAge: '2 months',
       dosesRequired: 5,
       ageInDaysMin: 60,
-      ageInDaysMax: 1825
+      ageInDaysMax: 1825,
+      doses: dtapDoses
     },
     {
       name: 'Tetanus',
       recommendedAge: '2 months',
       dosesRequired: 5,
       ageInDaysMin: 60,
-      ageInDaysMax: 1825
+      ageInDaysMax: 1825,
+      doses: dtapDoses
     },
     {
       name: 'Pertussis',
       recommendedAge: '2 months',
       dosesRequired: 5,
       ageInDaysMin: 60,
-      ageInDaysMax: 1825
+      ageInDaysMax: 1825,
+      doses: dtapDoses
     },
     {
       name: 'Haemophilus influenzae',
       recommendedAge: '2 months',
       dosesRequired: 4,
       ageInDaysMin: 60,
-      ageInDaysMax: 540
+      ageInDaysMax: 540,
+      doses: conjugateDoses
     },
     {
       name: 'Pneumococcal',
       recommendedAge: '2 months',
       dosesRequired: 4,
       ageInDaysMin: 60,
-      ageInDaysMax: 540
+      ageInDaysMax: 540,
+      doses: conjugateDoses
     },
     {
       name: 'Polio',
       recommendedAge: '2 months',
       dosesRequired: 4,
       ageInDaysMin: 60,
-      ageInDaysMax: 1825
+      ageInDaysMax: 1825,
+      doses: [
+        [42, 60, null, null],
+        [70, 120, null, 28],
+        [98, 180, null, 28],
+        [1460, 1460, null, 180]
+      ]
     },
     {
       name: 'Influenza',
       recommendedAge: '6 months',
       dosesRequired: 2,
       ageInDaysMin: 180,
-      ageInDaysMax: 3650
+      ageInDaysMax: 3650,
+      doses: [
+        [180, 180, null, null],
+        [208, 210, null, 28]
+      ]
     },
     {
       name: 'Measles',
       recommendedAge: '12 months',
       dosesRequired: 2,
       ageInDaysMin: 365,
-      ageInDaysMax: 1825
+      ageInDaysMax: 1825,
+      doses: [
+        [365, 365, null, null],
+        [393, 1460, null, 28]
+      ]
     }
   ];
 
+  const scheduleSet = await prisma.vaccineScheduleSet.upsert({
+    where: { code_version: { code: 'US-CDC', version: '2025' } },
+    update: {},
+    create: {
+      code: 'US-CDC',
+      name: 'CDC Child and Adolescent Immunization Schedule',
+      country: 'US',
+      version: '2025',
+      isDefault: true
+    }
+  });
+
   for (const vaccine of vaccineData) {
     const schedule = await prisma.vaccineSchedule.upsert({
       where: {
-        vaccineName_recommendedAge: {
+        scheduleSetId_vaccineName_recommendedAge: {
+          scheduleSetId: scheduleSet.id,
           vaccineName: vaccine.name,
           recommendedAge: vaccine.recommendedAge
         }
@@ -1690,14 +1777,24 @@ const createVaccineSchedules = async (prisma: PrismaSeedClient) => {
         // optional: update fields if you want reseeding to refresh data
       },
       create: {
+        scheduleSetId: scheduleSet.id,
         dosesRequired: vaccine.dosesRequired,
         vaccineName: vaccine.name,
         recommendedAge: vaccine.recommendedAge,
-        minimumInterval: faker.number.int({ min: 30, max: 180 }),
+        minimumInterval: vaccine.doses[1]?.[3] ?? null,
         isMandatory: faker.datatype.boolean(0.8),
         ageInDaysMin: vaccine.ageInDaysMin,
         ageInDaysMax: vaccine.ageInDaysMax,
-        createdAt: faker.date.past({ years: 2 })
+        createdAt: faker.date.past({ years: 2 }),
+        doses: {
+          create: vaccine.doses.map(([minimumAgeDays, recommendedAgeDays, maximumAgeDays, minimumIntervalDays], i) => ({
+            doseNumber: i + 1,
+            minimumAgeDays,
+            recommendedAgeDays,
+            maximumAgeDays,
+            minimumIntervalDays
+          }))
+        }
       }
     });
     schedules.push(schedule);
@@ -13,15 +13,61 @@ export * as medicalRecordRepo from './repositories/medical-record.repo';
 export * as prescriptionRepo from './repositories/prescription.repo';
 export * as validationRepo from './repositories/validation.repo';
 export * as vitalSignsRepo from './repositories/vital-signs.repo';
+export { allergyService } from './services/allergy/allergy.service';
+export type { AllergyAlert } from './services/allergy/allergy-check';
+export { allergyMatcher } from './services/allergy/allergy-check';
 export type { TimeSlot } from './services/appointment/availability';
 export { appointmentAvailability } from './services/appointment/availability';
+export type { DaySchedule, ScheduleWindow } from './services/appointment/schedule';
+export { doctorSchedule } from './services/appointment/schedule';
+export type { FreedSlot } from './services/appointment/waitlist';
+export { waitlistService } from './services/appointment/waitlist';
+export { developmentService } from './services/development/development.service';
 // Services
+export type { DomainAssessment, OverdueMilestone, ScreeningResult } from './services/development/screening';
+export { milestoneScreener } from './services/development/screening';
+export type { DrugInteractionMatch } from './services/drug-interaction.service';
+export { drugInteractionService } from './services/drug-interaction.service';
+export { feedingService } from './services/feeding/feeding.service';
+export type { FeedingFlag, FeedingSummary } from './services/feeding/intake';
+export { formularyService } from './services/formulary.service';
+export { growthAlertService } from './services/growth/alert.service';
 export { growthCalculator } from './services/growth/calculator';
+export type {
+  GrowthChartBatchStatus,
+  GrowthChartFormat,
+  GrowthChartMode,
+  GrowthChartOptions
+} from './services/growth/chart-renderer';
+export { growthChartRenderer } from './services/growth/chart-renderer';
+export type { GrowthImportReport, GrowthImportRow, GrowthImportStatus } from './services/growth/import';
+export { growthImportService } from './services/growth/import';
+export { growthProjector } from './services/growth/projection';
+export type {
+  GrowthClassificationChange,
+  GrowthRecomputeReport,
+  GrowthRecomputeStatus
+} from './services/growth/recompute';
+export { growthRecomputeService } from './services/growth/recompute';
+export { growthVelocity } from './services/growth/velocity';
+export type { CertificateVerification, ImmunizationCertificate } from './services/immunization/certificate';
+export { immunizationCertificateService } from './services/immunization/certificate';
 export { immunizationService } from './services/immunization/due-calculator';
+export type { SeriesForecast, SeriesStatus } from './services/immunization/series-engine';
+export { vaccineSeriesEngine } from './services/immunization/series-engine';
 // Export services (preferred way to interact with data)
 export { MedicalService, medicalService } from './services/medical.service';
+export { registerProcessors } from './services/queue-processors';
+export type { ReminderChannel, ReminderDelivery, ReminderMessage } from './services/reminder/channels';
+export { reminderChannels } from './services/reminder/channels';
+export { reminderService } from './services/reminder/reminder.service';
 // Types
 // Utilities
 export { ageCalculator } from './utils/date/age';
+export { zonedCalendar } from './utils/date/timezone';
 export { decimalUtils } from './utils/number/decimal';
 export { doseValidator } from './utils/validation/dose';
+export type { DosePreparation } from './utils/validation/dose-guideline';
+export { doseGuidelineMatcher } from './utils/validation/dose-guideline';
+export type { FormulationMeasure } from './utils/validation/formulation';
+export { formulationCalculator } from './utils/validation/formulation';
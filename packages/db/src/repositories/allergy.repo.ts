@@ -0,0 +1,209 @@
+// packages/db/src/repositories/allergy.repo.ts
+
+import type { Prisma, PrismaClient } from '../../generated/client';
+
+/**
+ * 🔵 PURE QUERY LAYER
+ * - NO business logic
+ * - NO cache directives
+ * - NO validation
+ * - RAW Prisma only
+ * - All functions accept PrismaClient as first parameter
+ */
+
+const allergyDrugSelect = {
+  id: true,
+  name: true,
+  genericName: true,
+  brandNames: true,
+  ingredients: true,
+  drugClasses: true
+} as const;
+
+const reviewPatientSelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  medicalRecordNumber: true
+} as const;
+
+export async function findAllergyPatient(db: PrismaClient, patientId: string, clinicId: string) {
+  return db.patient.findFirst({
+    where: { id: patientId, clinicId, isDeleted: false },
+    select: { id: true, clinicId: true }
+  });
+}
+
+// ==================== ALLERGIES ====================
+
+export async function findAllergiesByPatient(db: PrismaClient, patientId: string, includeInactive = false) {
+  return db.patientAllergy.findMany({
+    where: { patientId, ...(includeInactive ? {} : { isActive: true }) },
+    include: { drug: { select: allergyDrugSelect } },
+    orderBy: [{ isActive: 'desc' }, { createdAt: 'desc' }]
+  });
+}
+
+/**
+ * Allergies prescribing is checked against: active and not refuted
+ */
+export async function findCheckedAllergies(db: PrismaClient, patientId: string) {
+  return db.patientAllergy.findMany({
+    where: { patientId, isActive: true, verificationStatus: { not: 'REFUTED' } },
+    select: {
+      id: true,
+      allergen: true,
+      reaction: true,
+      severity: true,
+      verificationStatus: true,
+      needsReview: true,
+      drug: { select: allergyDrugSelect }
+    }
+  });
+}
+
+/**
+ * An allergy, scoped to the clinic
+ */
+export async function findAllergyById(db: PrismaClient, id: string, clinicId: string) {
+  return db.patientAllergy.findFirst({
+    where: { id, clinicId },
+    include: { drug: { select: allergyDrugSelect } }
+  });
+}
+
+export async function createAllergy(db: PrismaClient, data: Prisma.PatientAllergyUncheckedCreateInput) {
+  return db.patientAllergy.create({
+    data,
+    include: { drug: { select: allergyDrugSelect } }
+  });
+}
+
+export async function createAllergies(db: PrismaClient, data: Prisma.PatientAllergyCreateManyInput[]) {
+  return db.patientAllergy.createMany({ data });
+}
+
+export async function updateAllergy(db: PrismaClient, id: string, data: Prisma.PatientAllergyUncheckedUpdateInput) {
+  return db.patientAllergy.update({
+    where: { id },
+    data,
+    include: { drug: { select: allergyDrugSelect } }
+  });
+}
+
+export async function deleteAllergy(db: PrismaClient, id: string) {
+  return db.patientAllergy.delete({
+    where: { id }
+  });
+}
+
+export async function findAllergiesForReview(
+  db: PrismaClient,
+  clinicId: string,
+  options: { patientId?: string; limit?: number; offset?: number } = {}
+) {
+  return db.patientAllergy.findMany({
+    where: { clinicId, needsReview: true, patientId: options.patientId },
+    include: { patient: { select: reviewPatientSelect }, drug: { select: allergyDrugSelect } },
+    orderBy: [{ patientId: 'asc' }, { createdAt: 'asc' }],
+    take: options.limit,
+    skip: options.offset
+  });
+}
+
+export async function countAllergiesForReview(db: PrismaClient, clinicId: string, patientId?: string) {
+  return db.patientAllergy.count({
+    where: { clinicId, needsReview: true, patientId }
+  });
+}
+
+// ==================== CONDITIONS ====================
+
+export async function findConditionsByPatient(db: PrismaClient, patientId: string, includeResolved = false) {
+  return db.patientCondition.findMany({
+    where: { patientId, ...(includeResolved ? {} : { status: 'ACTIVE' }) },
+    orderBy: [{ status: 'asc' }, { onsetDate: 'desc' }, { createdAt: 'desc' }]
+  });
+}
+
+/**
+ * A condition, scoped to the clinic
+ */
+export async function findConditionById(db: PrismaClient, id: string, clinicId: string) {
+  return db.patientCondition.findFirst({
+    where: { id, clinicId }
+  });
+}
+
+export async function createCondition(db: PrismaClient, data: Prisma.PatientConditionUncheckedCreateInput) {
+  return db.patientCondition.create({ data });
+}
+
+export async function createConditions(db: PrismaClient, data: Prisma.PatientConditionCreateManyInput[]) {
+  return db.patientCondition.createMany({ data });
+}
+
+export async function updateCondition(db: PrismaClient, id: string, data: Prisma.PatientConditionUncheckedUpdateInput) {
+  return db.patientCondition.update({
+    where: { id },
+    data
+  });
+}
+
+export async function deleteCondition(db: PrismaClient, id: string) {
+  return db.patientCondition.delete({
+    where: { id }
+  });
+}
+
+export async function findConditionsForReview(
+  db: PrismaClient,
+  clinicId: string,
+  options: { patientId?: string; limit?: number; offset?: number } = {}
+) {
+  return db.patientCondition.findMany({
+    where: { clinicId, needsReview: true, patientId: options.patientId },
+    include: { patient: { select: reviewPatientSelect } },
+    orderBy: [{ patientId: 'asc' }, { createdAt: 'asc' }],
+    take: options.limit,
+    skip: options.offset
+  });
+}
+
+export async function countConditionsForReview(db: PrismaClient, clinicId: string, patientId?: string) {
+  return db.patientCondition.count({
+    where: { clinicId, needsReview: true, patientId }
+  });
+}
+
+// ==================== DRUGS ====================
+
+export async function findAllergyCheckDrugs(db: PrismaClient, drugIds: string[]) {
+  return db.drug.findMany({
+    where: { id: { in: drugIds } },
+    select: allergyDrugSelect
+  });
+}
+
+/**
+ * Formulary drugs named by allergen text, by name, generic or brand name or
+ * ingredient, ignoring case
+ */
+export async function findDrugsNamed(db: PrismaClient, names: string[]) {
+  const keys = names.map(name => name.trim().toLowerCase());
+  const rows = await db.$queryRaw<Array<{ id: string }>>`
+    SELECT d.id
+    FROM "Drug" d
+    WHERE EXISTS (
+      SELECT 1
+      FROM unnest(d."brandNames" || d.ingredients || ARRAY[d.name, d."genericName"]) AS candidate
+      WHERE lower(candidate) = ANY(${keys})
+    )
+  `;
+  if (!rows.length) return [];
+
+  return db.drug.findMany({
+    where: { id: { in: rows.map(row => row.id) } },
+    select: allergyDrugSelect
+  });
+}
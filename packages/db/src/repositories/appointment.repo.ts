@@ -1,9 +1,10 @@
 // packages/db/src/Appointments.query.ts
 
-import { endOfDay, startOfDay, subDays, subMonths } from 'date-fns';
+import { subDays, subMonths } from 'date-fns';
 
 import type { AppointmentStatus, AppointmentType, Prisma, PrismaClient } from '../../generated/client';
 import { toNumber } from '../utils';
+import type { ZonedDayRange } from '../utils/date/timezone';
 
 /**
  * 🔵 PURE QUERY LAYER
@@ -14,29 +15,34 @@ import { toNumber } from '../utils';
  * - All functions accept PrismaClient as first parameter
  */
 
-export async function findRecentAppointments(db: PrismaClient, clinicId: string, limit: number, offset: number) {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+/**
+ * Appointments from the start of the clinic-local day onwards
+ */
+export async function findRecentAppointments(
+  db: PrismaClient,
+  clinicId: string,
+  dayStart: Date,
+  limit: number,
+  offset: number
+) {
   return db.appointment.findMany({
-    where: { clinicId, isDeleted: false, appointmentDate: { gte: today } },
+    where: { clinicId, isDeleted: false, appointmentDate: { gte: dayStart } },
     orderBy: { appointmentDate: 'desc' },
     take: limit,
     skip: offset
   });
 }
 // ==================== SINGLE APPOINTMENT ====================
-export async function findTodaySchedule(db: PrismaClient, clinicId: string, date: Date) {
-  const startOfDay = new Date(date);
-  startOfDay.setHours(0, 0, 0, 0);
-  const endOfDay = new Date(date);
-  endOfDay.setHours(23, 59, 59, 999);
-
+/**
+ * Appointments between two instants; callers pass the clinic-local day bounds
+ */
+export async function findTodaySchedule(db: PrismaClient, clinicId: string, dayStart: Date, dayEnd: Date) {
   return db.appointment.findMany({
     where: {
       clinicId,
       appointmentDate: {
-        gte: startOfDay,
-        lte: endOfDay
+        gte: dayStart,
+        lte: dayEnd
       },
       isDeleted: false
     },
@@ -154,7 +160,7 @@ export async function findAppointmentByIdWithMedical(db: PrismaClient, id: strin
           prescriptions: true
         }
       },
-      reminders: true
+      reminders: { orderBy: [{ scheduledFor: 'asc' }, { method: 'asc' }] }
     }
   });
 }
@@ -351,22 +357,18 @@ export async function findAppointmentsByDoctor(db: PrismaClient, params: FindApp
 export async function findTodayAppointments(
   db: PrismaClient,
   clinicId: string,
+  dayStart: Date,
+  dayEnd: Date,
   options?: {
     doctorId?: string;
     status?: AppointmentStatus[];
   }
 ) {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-
-  const tomorrow = new Date(today);
-  tomorrow.setDate(tomorrow.getDate() + 1);
-
   const where: Prisma.AppointmentWhereInput = {
     clinicId,
     appointmentDate: {
-      gte: today,
-      lt: tomorrow
+      gte: dayStart,
+      lte: dayEnd
     },
     isDeleted: false,
     ...(options?.doctorId && { doctorId: options.doctorId }),
@@ -656,97 +658,190 @@ export async function deleteAllForClinic(db: PrismaClient, clinicId: string) {
   return result.count;
 }
 
-// ==================== CONFLICT CHECK ====================
+// ==================== BOOKINGS ====================
 
-export async function findConflictingAppointments(
-  db: PrismaClient,
+/**
+ * Active bookings for a doctor between two instants, with what is needed to
+ * work out how long each one lasts
+ */
+export async function findDoctorBookings(
+  db: PrismaClient | Prisma.TransactionClient,
   doctorId: string,
-  clinicId: string,
-  appointmentDate: Date,
-  time: string,
-  duration: number,
+  from: Date,
+  to: Date,
   excludeId?: string
 ) {
-  // Parse the time string (format: "HH:mm")
-  const [hours, minutes] = time.split(':').map(Number);
-
-  const appointmentDateTime = new Date(appointmentDate);
-  appointmentDateTime.setHours(hours ?? 0, minutes ?? 0, 0, 0);
-
-  const startTime = new Date(appointmentDateTime);
-  startTime.setMinutes(startTime.getMinutes() - 30); // 30 min buffer
-
-  const endTime = new Date(appointmentDateTime);
-  endTime.setMinutes(endTime.getMinutes() + duration + 30); // appointment + buffer
-
   return db.appointment.findMany({
     where: {
       doctorId,
-      clinicId,
       appointmentDate: {
-        gte: startTime,
-        lte: endTime
+        gte: from,
+        lte: to
       },
       status: { notIn: ['CANCELLED', 'NO_SHOW'] },
       isDeleted: false,
       NOT: excludeId ? { id: excludeId } : undefined
     },
+    orderBy: { appointmentDate: 'asc' },
     select: {
       id: true,
       appointmentDate: true,
       time: true,
-      patient: {
+      duration: true,
+      service: {
         select: {
-          firstName: true,
-          lastName: true
+          duration: true
         }
       }
     }
   });
 }
 
-export async function checkAppointmentOverlap(
-  db: PrismaClient,
-  doctorId: string,
-  clinicId: string,
-  appointmentDate: Date,
-  time: string,
-  duration: number,
-  excludeId?: string
-): Promise<boolean> {
-  const conflicts = await findConflictingAppointments(
-    db,
-    doctorId,
-    clinicId,
-    appointmentDate,
-    time,
-    duration,
-    excludeId
-  );
-  return conflicts.length > 0;
+/**
+ * Take a row lock on the doctor for the rest of the transaction, so concurrent
+ * bookings for the same doctor are checked and written one at a time
+ */
+export async function lockDoctorSchedule(db: PrismaClient | Prisma.TransactionClient, doctorId: string) {
+  await db.$queryRaw`SELECT id FROM "doctors" WHERE id = ${doctorId} FOR UPDATE`;
 }
 
-// ==================== BOOKED TIMES ====================
+export async function findServiceDuration(db: PrismaClient | Prisma.TransactionClient, serviceId: string) {
+  return db.service.findUnique({
+    where: { id: serviceId },
+    select: { duration: true }
+  });
+}
 
-export async function findBookedTimes(db: PrismaClient | Prisma.TransactionClient, doctorId: string, date: Date) {
-  const startOfDay = new Date(date);
-  startOfDay.setHours(0, 0, 0, 0);
+/**
+ * The doctor's clinic, its timezone and its default appointment length
+ */
+export async function findDoctorBookingSettings(db: PrismaClient | Prisma.TransactionClient, doctorId: string) {
+  return db.doctor.findUnique({
+    where: { id: doctorId },
+    select: {
+      clinicId: true,
+      clinic: {
+        select: {
+          timezone: true,
+          clinicSettings: {
+            select: { defaultAppointmentDuration: true },
+            take: 1
+          }
+        }
+      }
+    }
+  });
+}
+
+// ==================== RECURRING SERIES ====================
+
+export async function createAppointmentSeries(
+  db: PrismaClient | Prisma.TransactionClient,
+  data: Prisma.AppointmentSeriesUncheckedCreateInput
+) {
+  return db.appointmentSeries.create({ data });
+}
+
+/**
+ * Insert all occurrences of a series in one statement
+ */
+export async function createSeriesAppointments(
+  db: PrismaClient | Prisma.TransactionClient,
+  data: Prisma.AppointmentCreateManyInput[]
+) {
+  return db.appointment.createManyAndReturn({
+    data,
+    select: {
+      id: true,
+      occurrence: true,
+      appointmentDate: true,
+      time: true,
+      duration: true
+    }
+  });
+}
 
-  const endOfDay = new Date(date);
-  endOfDay.setHours(23, 59, 59, 999);
+export async function findAppointmentSeriesById(
+  db: PrismaClient | Prisma.TransactionClient,
+  id: string,
+  clinicId: string
+) {
+  return db.appointmentSeries.findFirst({
+    where: { id, clinicId },
+    include: {
+      patient: { select: { id: true, firstName: true, lastName: true } },
+      doctor: { select: { id: true, name: true } },
+      service: { select: { id: true, serviceName: true } },
+      appointments: {
+        where: { isDeleted: false },
+        orderBy: { appointmentDate: 'asc' },
+        select: {
+          id: true,
+          occurrence: true,
+          appointmentDate: true,
+          time: true,
+          duration: true,
+          status: true,
+          doctorId: true
+        }
+      }
+    }
+  });
+}
 
+/**
+ * Occurrences of a series that can still change (pending or scheduled),
+ * starting at `from`
+ */
+export async function findOpenSeriesOccurrences(
+  db: PrismaClient | Prisma.TransactionClient,
+  seriesId: string,
+  from: Date
+) {
   return db.appointment.findMany({
     where: {
-      doctorId,
-      appointmentDate: {
-        gte: startOfDay,
-        lte: endOfDay
-      },
-      status: { notIn: ['CANCELLED'] },
+      seriesId,
+      appointmentDate: { gte: from },
+      status: { in: ['PENDING', 'SCHEDULED'] },
       isDeleted: false
     },
+    orderBy: { appointmentDate: 'asc' },
     select: {
-      time: true
+      id: true,
+      occurrence: true,
+      appointmentDate: true,
+      time: true,
+      duration: true,
+      doctorId: true,
+      serviceId: true,
+      patientId: true
+    }
+  });
+}
+
+export async function updateAppointmentSeries(
+  db: PrismaClient | Prisma.TransactionClient,
+  id: string,
+  data: Prisma.AppointmentSeriesUncheckedUpdateInput
+) {
+  return db.appointmentSeries.update({
+    where: { id },
+    data
+  });
+}
+
+export async function cancelAppointmentsByIds(
+  db: PrismaClient | Prisma.TransactionClient,
+  ids: string[],
+  clinicId: string,
+  reason?: string
+) {
+  return db.appointment.updateMany({
+    where: { id: { in: ids }, clinicId },
+    data: {
+      status: 'CANCELLED',
+      reason,
+      updatedAt: new Date()
     }
   });
 }
@@ -831,21 +926,23 @@ export interface AppointmentStats {
 export async function getAppointmentStats(
   db: PrismaClient,
   clinicId: string,
-  options?: {
+  options: {
     fromDate?: Date;
     toDate?: Date;
     period?: 'day' | 'week' | 'month' | 'year';
+    /** The clinic-local day "today" counts and the 'day' period cover */
+    today: ZonedDayRange;
   }
 ): Promise<AppointmentStats> {
   const now = new Date();
-  let fromDate = options?.fromDate;
-  let toDate = options?.toDate;
+  let fromDate = options.fromDate;
+  let toDate = options.toDate;
 
-  if (options?.period && !fromDate && !toDate) {
+  if (options.period && !fromDate && !toDate) {
     switch (options.period) {
       case 'day':
-        fromDate = startOfDay(now);
-        toDate = endOfDay(now);
+        fromDate = options.today.start;
+        toDate = options.today.end;
         break;
       case 'week':
         fromDate = subDays(now, 7);
@@ -878,11 +975,6 @@ export async function getAppointmentStats(
       : {})
   };
 
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const tomorrow = new Date(today);
-  tomorrow.setDate(tomorrow.getDate() + 1);
-
   const [total, byStatus, upcoming, todayCount, revenue] = await Promise.all([
     db.appointment.count({ where }),
 
@@ -906,8 +998,8 @@ export async function getAppointmentStats(
       where: {
         ...where,
         appointmentDate: {
-          gte: today,
-          lt: tomorrow
+          gte: options.today.start,
+          lte: options.today.end
         }
       }
     }),
@@ -1045,12 +1137,17 @@ export const appointmentQueries = {
   deleteAllForClinic,
 
   // Availability
-  findBookedTimes,
+  findBookings: findDoctorBookings,
+  lockDoctorSchedule,
   findDoctorSchedule,
-  findConflicting: findConflictingAppointments,
-  checkOverlap: checkAppointmentOverlap,
   validateDoctorAvailability,
 
+  // Series
+  createSeries: createAppointmentSeries,
+  findSeriesById: findAppointmentSeriesById,
+  findOpenOccurrences: findOpenSeriesOccurrences,
+  updateSeries: updateAppointmentSeries,
+
   // Stats
   getStats: getAppointmentStats,
   count: countAppointments,
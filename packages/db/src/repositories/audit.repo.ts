@@ -0,0 +1,16 @@
+// packages/db/src/repositories/audit.repo.ts
+
+import type { Prisma, PrismaClient } from '../../generated/client';
+
+/**
+ * 🔵 PURE QUERY LAYER
+ * - NO business logic
+ * - NO cache directives
+ * - NO validation
+ * - RAW Prisma only
+ * - All functions accept PrismaClient as first parameter
+ */
+
+export async function createAuditLog(db: PrismaClient, data: Prisma.AuditLogUncheckedCreateInput) {
+  return db.auditLog.create({ data });
+}
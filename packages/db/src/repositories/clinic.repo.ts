@@ -1,10 +1,8 @@
-import { addDays, endOfDay, endOfMonth, startOfDay, startOfMonth, subDays, subMonths } from 'date-fns';
-import { toZonedTime } from 'date-fns-tz';
+import { addDays, endOfMonth, startOfMonth, subMonths } from 'date-fns';
 
-import type { PrismaClient } from '../../generated/client';
+import type { Prisma, PrismaClient } from '../../generated/client';
 import type { UserRole } from '../types';
-
-const TIMEZONE = 'Africa/Cairo';
+import { zonedCalendar } from '../utils/date/timezone';
 
 /**
  * 🔵 PURE QUERY LAYER
@@ -46,6 +44,13 @@ export async function findClinicWithUserAccess(db: PrismaClient, clinicId: strin
   });
 }
 
+export async function findClinicTimezone(db: PrismaClient | Prisma.TransactionClient, clinicId: string) {
+  return db.clinic.findUnique({
+    where: { id: clinicId },
+    select: { timezone: true }
+  });
+}
+
 export async function findClinicHoursById(db: PrismaClient, clinicId: string) {
   return db.workingDays.findMany({
     where: { clinicId },
@@ -232,17 +237,20 @@ export async function createRating(
 export interface AdminDashboardStatsParams {
   clinicId: string;
   from: Date;
+  /** Clinic IANA timezone that "today" and the chart days are taken in */
+  timeZone: string;
   to: Date;
 }
 
 export async function getAdminDashboardStats(db: PrismaClient, params: AdminDashboardStatsParams) {
-  const { clinicId, from, to } = params;
-  const now = new Date();
-  const chartStartDate = startOfDay(subDays(now, 10));
-  const chartEndDate = endOfDay(addDays(now, 10));
-
-  const todayStart = toZonedTime(startOfDay(now), TIMEZONE);
-  const todayEnd = toZonedTime(endOfDay(now), TIMEZONE);
+  const { clinicId, from, to, timeZone } = params;
+  const todayKey = zonedCalendar.today(timeZone);
+  const { start: chartStartDate, end: chartEndDate } = zonedCalendar.daysRange(
+    zonedCalendar.addDays(todayKey, -10),
+    zonedCalendar.addDays(todayKey, 10),
+    timeZone
+  );
+  const { start: todayStart, end: todayEnd } = zonedCalendar.dayRange(todayKey, timeZone);
 
   return db.$transaction([
     // 1. Total revenue for period
@@ -0,0 +1,95 @@
+// packages/db/src/repositories/development.repo.ts
+
+import type { Prisma, PrismaClient } from '../../generated/client';
+
+/**
+ * 🔵 PURE QUERY LAYER
+ * - NO business logic
+ * - NO cache directives
+ * - NO validation
+ * - RAW Prisma only
+ * - All functions accept PrismaClient as first parameter
+ */
+
+const checkInclude = {
+  milestones: {
+    orderBy: [{ domain: 'asc' }, { id: 'asc' }]
+  }
+} satisfies Prisma.DevelopmentalCheckInclude;
+
+/**
+ * Patient fields a developmental screen needs: birth date and gestation for
+ * corrected age
+ */
+export async function findScreeningPatient(db: PrismaClient, patientId: string, clinicId: string) {
+  return db.patient.findFirst({
+    where: { id: patientId, clinicId, isDeleted: false },
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      dateOfBirth: true,
+      gestationalAgeWeeks: true,
+      gestationalAgeDays: true
+    }
+  });
+}
+
+/**
+ * Catalogue milestones recorded for a patient, oldest first, up to and
+ * including `until`
+ */
+export async function findCodedMilestones(
+  db: PrismaClient | Prisma.TransactionClient,
+  patientId: string,
+  until?: Date
+) {
+  return db.developmentalMilestone.findMany({
+    where: {
+      patientId,
+      milestoneCode: { not: null },
+      ...(until ? { dateRecorded: { lte: until } } : {})
+    },
+    orderBy: [{ dateRecorded: 'asc' }, { id: 'asc' }],
+    select: {
+      milestoneCode: true,
+      status: true,
+      dateRecorded: true
+    }
+  });
+}
+
+export async function createDevelopmentalCheck(
+  db: PrismaClient | Prisma.TransactionClient,
+  data: Prisma.DevelopmentalCheckUncheckedCreateInput
+) {
+  return db.developmentalCheck.create({
+    data,
+    include: checkInclude
+  });
+}
+
+export async function findChecksByPatient(
+  db: PrismaClient,
+  patientId: string,
+  options?: { limit?: number; offset?: number }
+) {
+  return db.developmentalCheck.findMany({
+    where: { patientId },
+    orderBy: { checkDate: 'desc' },
+    take: options?.limit ?? 20,
+    skip: options?.offset ?? 0,
+    include: checkInclude
+  });
+}
+
+export async function countChecksByPatient(db: PrismaClient, patientId: string): Promise<number> {
+  return db.developmentalCheck.count({ where: { patientId } });
+}
+
+export async function findCheckById(db: PrismaClient, id: number, clinicId: string) {
+  return db.developmentalCheck.findFirst({
+    where: { id, patient: { clinicId } },
+    include: checkInclude
+  });
+}
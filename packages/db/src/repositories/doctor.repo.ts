@@ -1,4 +1,4 @@
-import type { Prisma, PrismaClient } from '../../generated/client';
+import type { Prisma, PrismaClient, ScheduleExceptionType } from '../../generated/client';
 
 /**
  * 🔷 DOCTOR REPOSITORY
@@ -14,6 +14,20 @@ export interface WorkingDayInput {
   startTime: string;
 }
 
+export interface DoctorBreakInput extends WorkingDayInput {
+  label?: string | null;
+}
+
+export interface ScheduleExceptionCreateInput {
+  clinicId: string;
+  date: Date;
+  doctorId?: string | null;
+  endTime?: string | null;
+  reason?: string | null;
+  startTime?: string | null;
+  type: ScheduleExceptionType;
+}
+
 // ==================== READ OPERATIONS ====================
 export async function countActiveDoctors(db: PrismaClient, clinicId: string): Promise<number> {
   return db.doctor.count({
@@ -296,17 +310,6 @@ export async function countAvailableDoctors(db: PrismaClient, clinicId: string,
     }
   });
 }
-export async function findDoctorWithSchedule(db: PrismaClient | Prisma.TransactionClient, id: string) {
-  return db.doctor.findUnique({
-    where: { id },
-    select: {
-      // Assuming 'workingDays' is a related model in your schema.prisma
-      workingDays: true,
-      availableFromTime: true,
-      availableToTime: true
-    }
-  });
-}
 
 // ==================== CREATE OPERATIONS ====================
 
@@ -351,6 +354,7 @@ export async function deleteDoctor(db: PrismaClient, id: string, clinicId: strin
 export async function findDoctorWorkingDays(db: PrismaClient, doctorId: string) {
   return db.workingDays.findMany({
     where: { doctorId },
+    orderBy: [{ day: 'asc' }, { startTime: 'asc' }],
     select: {
       day: true,
       startTime: true,
@@ -358,3 +362,113 @@ export async function findDoctorWorkingDays(db: PrismaClient, doctorId: string)
     }
   });
 }
+
+export async function findDoctorScheduleTemplate(db: PrismaClient | Prisma.TransactionClient, doctorId: string) {
+  return db.doctor.findUnique({
+    where: { id: doctorId },
+    select: {
+      id: true,
+      clinicId: true,
+      clinic: { select: { timezone: true } },
+      availableFromWeekDay: true,
+      availableToWeekDay: true,
+      availableFromTime: true,
+      availableToTime: true,
+      workingDays: {
+        select: { day: true, startTime: true, endTime: true }
+      },
+      breaks: {
+        select: { day: true, startTime: true, endTime: true, label: true }
+      }
+    }
+  });
+}
+
+// ==================== BREAKS ====================
+
+export async function findDoctorBreaks(db: PrismaClient, doctorId: string) {
+  return db.doctorBreak.findMany({
+    where: { doctorId },
+    orderBy: [{ day: 'asc' }, { startTime: 'asc' }],
+    select: {
+      day: true,
+      startTime: true,
+      endTime: true,
+      label: true
+    }
+  });
+}
+
+export async function createDoctorBreaks(
+  db: PrismaClient,
+  data: Array<DoctorBreakInput & { clinicId: string; doctorId: string }>
+) {
+  return db.doctorBreak.createMany({
+    data
+  });
+}
+
+export async function deleteDoctorBreaks(db: PrismaClient, doctorId: string) {
+  return db.doctorBreak.deleteMany({
+    where: { doctorId }
+  });
+}
+
+// ==================== SCHEDULE EXCEPTIONS ====================
+
+/**
+ * Exceptions touching a doctor between two dates, including clinic-wide ones
+ */
+export async function findScheduleExceptionsForDoctor(
+  db: PrismaClient | Prisma.TransactionClient,
+  doctorId: string,
+  clinicId: string,
+  from: Date,
+  to: Date
+) {
+  return db.scheduleException.findMany({
+    where: {
+      clinicId,
+      date: { gte: from, lte: to },
+      OR: [{ doctorId }, { doctorId: null }]
+    },
+    orderBy: [{ date: 'asc' }, { startTime: 'asc' }]
+  });
+}
+
+export async function findScheduleExceptionsByClinic(
+  db: PrismaClient,
+  clinicId: string,
+  params: { doctorId?: string; from?: Date; to?: Date }
+) {
+  return db.scheduleException.findMany({
+    where: {
+      clinicId,
+      ...(params.doctorId && { OR: [{ doctorId: params.doctorId }, { doctorId: null }] }),
+      ...((params.from || params.to) && {
+        date: {
+          ...(params.from && { gte: params.from }),
+          ...(params.to && { lte: params.to })
+        }
+      })
+    },
+    include: {
+      doctor: {
+        select: { id: true, name: true }
+      }
+    },
+    orderBy: [{ date: 'asc' }, { startTime: 'asc' }]
+  });
+}
+
+export async function createScheduleException(db: PrismaClient, data: ScheduleExceptionCreateInput) {
+  return db.scheduleException.create({
+    data
+  });
+}
+
+export async function deleteScheduleException(db: PrismaClient, id: string, clinicId: string) {
+  return db.scheduleException.deleteMany({
+    where: { id, clinicId }
+  });
+}
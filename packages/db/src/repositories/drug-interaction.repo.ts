@@ -0,0 +1,96 @@
+// packages/db/src/repositories/drug-interaction.repo.ts
+
+import type { InteractionSeverity, PrismaClient } from '../../generated/client';
+
+/**
+ * 🔵 PURE QUERY LAYER
+ * - NO business logic
+ * - NO cache directives
+ * - NO validation
+ * - RAW Prisma only
+ * - All functions accept PrismaClient as first parameter
+ */
+
+const interactionDrugSelect = {
+  id: true,
+  name: true,
+  genericName: true,
+  brandNames: true,
+  ingredients: true,
+  drugClasses: true
+} as const;
+
+/**
+ * Interactions where both sides are among `subjects` (drug names and classes)
+ */
+export async function findInteractionsBetween(db: PrismaClient, subjects: string[]) {
+  return db.drugInteraction.findMany({
+    where: {
+      subjectA: { in: subjects },
+      subjectB: { in: subjects }
+    }
+  });
+}
+
+export async function findInteractionDrugs(db: PrismaClient, drugIds: string[]) {
+  return db.drug.findMany({
+    where: { id: { in: drugIds } },
+    select: interactionDrugSelect
+  });
+}
+
+/**
+ * Drugs on the patient's active prescriptions, with the prescription each is on
+ */
+export async function findActivePrescriptionDrugs(
+  db: PrismaClient,
+  patientId: string,
+  options: { clinicId?: string; excludePrescriptionId?: string } = {}
+) {
+  const { clinicId, excludePrescriptionId } = options;
+  return db.prescribedItem.findMany({
+    where: {
+      prescription: {
+        patientId,
+        status: 'ACTIVE',
+        ...(clinicId ? { patient: { clinicId } } : {}),
+        ...(excludePrescriptionId ? { id: { not: excludePrescriptionId } } : {})
+      }
+    },
+    select: {
+      prescriptionId: true,
+      drug: { select: interactionDrugSelect }
+    }
+  });
+}
+
+// ==================== WRITE OPERATIONS ====================
+
+export async function upsertInteraction(
+  db: PrismaClient,
+  data: {
+    subjectA: string;
+    subjectB: string;
+    severity: InteractionSeverity;
+    mechanism: string;
+    management: string;
+    source?: string | null;
+  }
+) {
+  const { subjectA, subjectB, ...fields } = data;
+  return db.drugInteraction.upsert({
+    where: { subjectA_subjectB: { subjectA, subjectB } },
+    update: fields,
+    create: data
+  });
+}
+
+/**
+ * Replace the classes of the drug with this name, matched case-insensitively
+ */
+export async function updateDrugClasses(db: PrismaClient, name: string, drugClasses: string[]) {
+  return db.drug.updateMany({
+    where: { name: { equals: name, mode: 'insensitive' } },
+    data: { drugClasses }
+  });
+}
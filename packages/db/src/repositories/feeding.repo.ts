@@ -0,0 +1,120 @@
+// packages/db/src/repositories/feeding.repo.ts
+
+import type { Prisma, PrismaClient } from '../../generated/client';
+
+/**
+ * 🔵 PURE QUERY LAYER
+ * - NO business logic
+ * - NO cache directives
+ * - NO validation
+ * - RAW Prisma only
+ * - All functions accept PrismaClient as first parameter
+ */
+
+/**
+ * Patient fields feeding analytics need: birth date and gestation for the
+ * age expected intake is judged at
+ */
+export async function findFeedingPatient(db: PrismaClient, patientId: string, clinicId: string) {
+  return db.patient.findFirst({
+    where: { id: patientId, clinicId, isDeleted: false },
+    select: {
+      id: true,
+      clinicId: true,
+      dateOfBirth: true,
+      gestationalAgeWeeks: true,
+      gestationalAgeDays: true
+    }
+  });
+}
+
+export async function findFeedingLogsByPatient(
+  db: PrismaClient,
+  patientId: string,
+  options?: { from?: Date; to?: Date; limit?: number; offset?: number }
+) {
+  return db.feedingLog.findMany({
+    where: {
+      patientId,
+      date: { gte: options?.from, lte: options?.to }
+    },
+    orderBy: { date: 'desc' },
+    take: options?.limit,
+    skip: options?.offset
+  });
+}
+
+export async function countFeedingLogsByPatient(
+  db: PrismaClient,
+  patientId: string,
+  range?: { from?: Date; to?: Date }
+) {
+  return db.feedingLog.count({
+    where: {
+      patientId,
+      date: { gte: range?.from, lte: range?.to }
+    }
+  });
+}
+
+/**
+ * A feeding log, scoped to the clinic through its patient
+ */
+export async function findFeedingLogById(db: PrismaClient, id: string, clinicId: string) {
+  return db.feedingLog.findFirst({
+    where: { id, patient: { clinicId, isDeleted: false } }
+  });
+}
+
+export async function createFeedingLog(db: PrismaClient, data: Prisma.FeedingLogUncheckedCreateInput) {
+  return db.feedingLog.create({ data });
+}
+
+export async function updateFeedingLog(db: PrismaClient, id: string, data: Prisma.FeedingLogUncheckedUpdateInput) {
+  return db.feedingLog.update({
+    where: { id },
+    data
+  });
+}
+
+export async function deleteFeedingLog(db: PrismaClient, id: string) {
+  return db.feedingLog.delete({
+    where: { id }
+  });
+}
+
+/**
+ * Weights intake and weight gain are judged against, oldest first. Flagged
+ * measurements stay out until confirmed.
+ */
+export async function findPlausibleWeights(db: PrismaClient, patientId: string, from: Date) {
+  return db.growthRecord.findMany({
+    where: {
+      patientId,
+      deletedAt: null,
+      plausibility: { not: 'FLAGGED' },
+      weight: { not: null },
+      date: { gte: from }
+    },
+    orderBy: { date: 'asc' },
+    select: { date: true, weight: true }
+  });
+}
+
+/**
+ * Latest plausible weight on or before a date, for when none was taken in the
+ * analysis window
+ */
+export async function findLatestPlausibleWeight(db: PrismaClient, patientId: string, before: Date) {
+  return db.growthRecord.findFirst({
+    where: {
+      patientId,
+      deletedAt: null,
+      plausibility: { not: 'FLAGGED' },
+      weight: { not: null },
+      date: { lt: before }
+    },
+    orderBy: { date: 'desc' },
+    select: { date: true, weight: true }
+  });
+}
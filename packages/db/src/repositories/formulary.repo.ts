@@ -0,0 +1,117 @@
+// packages/db/src/repositories/formulary.repo.ts
+
+import type { Prisma, PrismaClient } from '../../generated/client';
+
+/**
+ * 🔵 PURE QUERY LAYER
+ * - NO business logic
+ * - NO cache directives
+ * - NO validation
+ * - RAW Prisma only
+ * - All functions accept PrismaClient as first parameter
+ */
+
+const formulationOrder = [{ isActive: 'desc' as const }, { form: 'asc' as const }, { strength: 'asc' as const }];
+
+const drugListSelect = {
+  id: true,
+  name: true,
+  genericName: true,
+  brandNames: true,
+  drugClasses: true,
+  isControlled: true,
+  controlledSchedule: true,
+  requiresPriorAuth: true,
+  isActive: true,
+  formulations: { where: { isActive: true }, orderBy: formulationOrder }
+} as const;
+
+// ==================== DRUGS ====================
+
+export async function findDrugById(db: PrismaClient, id: string) {
+  return db.drug.findUnique({
+    where: { id },
+    include: { formulations: { orderBy: formulationOrder } }
+  });
+}
+
+export async function findDrugByName(db: PrismaClient, name: string) {
+  return db.drug.findFirst({
+    where: { name: { equals: name, mode: 'insensitive' } },
+    select: { id: true, name: true }
+  });
+}
+
+export async function findDrugs(
+  db: PrismaClient,
+  where: Prisma.DrugWhereInput,
+  options: { limit: number; offset: number }
+) {
+  return db.drug.findMany({
+    where,
+    select: drugListSelect,
+    orderBy: { name: 'asc' },
+    take: options.limit,
+    skip: options.offset
+  });
+}
+
+export async function countDrugs(db: PrismaClient, where: Prisma.DrugWhereInput) {
+  return db.drug.count({ where });
+}
+
+export async function createDrug(db: PrismaClient, data: Prisma.DrugCreateInput) {
+  return db.drug.create({
+    data,
+    include: { formulations: { orderBy: formulationOrder } }
+  });
+}
+
+export async function updateDrug(db: PrismaClient, id: string, data: Prisma.DrugUpdateInput) {
+  return db.drug.update({
+    where: { id },
+    data,
+    include: { formulations: { orderBy: formulationOrder } }
+  });
+}
+
+// ==================== FORMULATIONS ====================
+
+export async function findFormulationById(db: PrismaClient, id: string) {
+  return db.drugFormulation.findUnique({
+    where: { id },
+    include: { drug: { select: { id: true, name: true } } }
+  });
+}
+
+export async function findFormulationsByDrug(db: PrismaClient, drugId: string) {
+  return db.drugFormulation.findMany({
+    where: { drugId },
+    orderBy: formulationOrder
+  });
+}
+
+export async function createFormulation(db: PrismaClient, data: Prisma.DrugFormulationUncheckedCreateInput) {
+  return db.drugFormulation.create({ data });
+}
+
+export async function updateFormulation(
+  db: PrismaClient,
+  id: string,
+  data: Prisma.DrugFormulationUncheckedUpdateInput
+) {
+  return db.drugFormulation.update({
+    where: { id },
+    data
+  });
+}
+
+/**
+ * Take a drug's formulations out of use, except those listed
+ */
+export async function deactivateFormulations(db: PrismaClient, drugId: string, keepIds: string[]) {
+  return db.drugFormulation.updateMany({
+    where: { drugId, id: { notIn: keepIds }, isActive: true },
+    data: { isActive: false }
+  });
+}
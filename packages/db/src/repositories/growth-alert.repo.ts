@@ -0,0 +1,126 @@
+// packages/db/src/repositories/growth-alert.repo.ts
+
+import type { GrowthAlertType, Prisma, PrismaClient } from '../../generated/client';
+
+/**
+ * 🔵 PURE QUERY LAYER
+ * - NO business logic
+ * - NO cache directives
+ * - NO validation
+ * - RAW Prisma only
+ * - All functions accept PrismaClient as first parameter
+ */
+
+const patientSummarySelect = {
+  id: true,
+  firstName: true,
+  lastName: true,
+  dateOfBirth: true,
+  gender: true
+} as const;
+
+/**
+ * A patient's measurements from `since` up to and including `until`, oldest
+ * first, leaving out those awaiting plausibility confirmation
+ */
+export async function findGrowthSeries(
+  db: PrismaClient | Prisma.TransactionClient,
+  patientId: string,
+  range: { since: Date; until: Date }
+) {
+  return db.growthRecord.findMany({
+    where: {
+      patientId,
+      deletedAt: null,
+      plausibility: { not: 'FLAGGED' },
+      date: { gte: range.since, lte: range.until }
+    },
+    orderBy: { date: 'asc' },
+    select: {
+      id: true,
+      date: true,
+      weight: true,
+      height: true,
+      headCircumference: true
+    }
+  });
+}
+
+/**
+ * Alert types the patient already has open, so they are not raised twice
+ */
+export async function findOpenAlertTypes(db: PrismaClient | Prisma.TransactionClient, patientId: string) {
+  const alerts = await db.growthAlert.findMany({
+    where: { patientId, acknowledgedAt: null },
+    select: { type: true },
+    distinct: ['type']
+  });
+  return alerts.map(a => a.type);
+}
+
+export async function createGrowthAlerts(
+  db: PrismaClient | Prisma.TransactionClient,
+  data: Prisma.GrowthAlertCreateManyInput[]
+) {
+  return db.growthAlert.createManyAndReturn({ data, skipDuplicates: true });
+}
+
+export async function findGrowthAlertById(db: PrismaClient | Prisma.TransactionClient, id: string, clinicId: string) {
+  return db.growthAlert.findFirst({ where: { id, clinicId } });
+}
+
+export async function findPatientGrowthAlerts(
+  db: PrismaClient | Prisma.TransactionClient,
+  patientId: string,
+  clinicId: string,
+  options: { includeAcknowledged?: boolean; type?: GrowthAlertType } = {}
+) {
+  return db.growthAlert.findMany({
+    where: {
+      patientId,
+      clinicId,
+      type: options.type,
+      acknowledgedAt: options.includeAcknowledged ? undefined : null
+    },
+    orderBy: { createdAt: 'desc' },
+    include: {
+      growthRecord: { select: { id: true, date: true, weight: true, height: true, headCircumference: true } }
+    }
+  });
+}
+
+export async function findClinicGrowthAlerts(
+  db: PrismaClient | Prisma.TransactionClient,
+  clinicId: string,
+  options: { includeAcknowledged?: boolean; limit?: number; offset?: number } = {}
+) {
+  return db.growthAlert.findMany({
+    where: {
+      clinicId,
+      acknowledgedAt: options.includeAcknowledged ? undefined : null
+    },
+    orderBy: [{ severity: 'desc' }, { createdAt: 'desc' }],
+    take: options.limit,
+    skip: options.offset,
+    include: {
+      patient: { select: patientSummarySelect },
+      growthRecord: { select: { id: true, date: true } }
+    }
+  });
+}
+
+export async function countOpenGrowthAlerts(db: PrismaClient | Prisma.TransactionClient, clinicId: string) {
+  return db.growthAlert.count({ where: { clinicId, acknowledgedAt: null } });
+}
+
+export async function acknowledgeGrowthAlerts(
+  db: PrismaClient | Prisma.TransactionClient,
+  where: { clinicId: string; id?: string; patientId?: string },
+  acknowledgedById: string
+) {
+  const result = await db.growthAlert.updateMany({
+    where: { ...where, acknowledgedAt: null },
+    data: { acknowledgedAt: new Date(), acknowledgedById }
+  });
+  return result.count;
+}
@@ -1,4 +1,12 @@
-import type { Gender, GrowthStatus, MeasurementType, Prisma, PrismaClient } from '../../generated/client';
+import type {
+  ChartType,
+  Gender,
+  GrowthStatus,
+  MeasurementPlausibility,
+  MeasurementType,
+  Prisma,
+  PrismaClient
+} from '../../generated/client';
 
 /**
  * 🔷 GROWTH REPOSITORY
@@ -11,6 +19,9 @@ import type { Gender, GrowthStatus, MeasurementType, Prisma, PrismaClient } from
 export interface MeasurementCreateInput {
   ageDays: number;
   ageMonths: number;
+  classification?: string | null;
+  confirmedAt?: Date | null;
+  confirmedById?: string | null;
   date: Date;
   growthStatus?: GrowthStatus | null;
   headCircumference?: number;
@@ -18,8 +29,11 @@ export interface MeasurementCreateInput {
   heightForAgeZ?: number | null;
   notes?: string | null;
   patientId: string;
+  plausibility?: MeasurementPlausibility;
+  plausibilityFlags?: Prisma.InputJsonValue;
   recordedAt?: Date;
   recordedById?: string;
+  referenceVersion?: string | null;
   weight: number;
   weightForAgeZ?: number | null;
 }
@@ -27,8 +41,9 @@ export interface MeasurementCreateInput {
 export interface WHOStandardFindParams {
   ageMonthsMax?: number;
   ageMonthsMin?: number;
+  chartType?: ChartType;
   gender: Gender;
-  measurementType: MeasurementType;
+  measurementType?: MeasurementType;
 }
 
 export interface ClosestWHOStandardParams {
@@ -56,6 +71,8 @@ export async function findMeasurementById(db: PrismaClient, id: string) {
           lastName: true,
           dateOfBirth: true,
           gender: true,
+          gestationalAgeWeeks: true,
+          gestationalAgeDays: true,
           clinicId: true
         }
       }
@@ -92,6 +109,57 @@ export async function findLatestMeasurementByPatient(db: PrismaClient, patientId
   });
 }
 
+/**
+ * Latest weight that is not awaiting confirmation, for weight-based dosing
+ */
+export async function findLatestPlausibleWeight(db: PrismaClient, patientId: string) {
+  return db.growthRecord.findFirst({
+    where: {
+      patientId,
+      deletedAt: null,
+      plausibility: { not: 'FLAGGED' },
+      weight: { gt: 0 }
+    },
+    orderBy: { date: 'desc' },
+    select: { date: true, weight: true }
+  });
+}
+
+/**
+ * The measurement a new one is compared with: the latest earlier one that is
+ * not awaiting confirmation
+ */
+export async function findPreviousPlausibleMeasurement(db: PrismaClient, patientId: string, before: Date) {
+  return db.growthRecord.findFirst({
+    where: {
+      patientId,
+      deletedAt: null,
+      plausibility: { not: 'FLAGGED' },
+      date: { lt: before }
+    },
+    orderBy: { date: 'desc' },
+    select: { id: true, date: true, weight: true, height: true, headCircumference: true }
+  });
+}
+
+export async function findFlaggedMeasurementsByClinic(
+  db: PrismaClient,
+  clinicId: string,
+  options?: { limit?: number; offset?: number }
+) {
+  return db.growthRecord.findMany({
+    where: { plausibility: 'FLAGGED', deletedAt: null, patient: { clinicId } },
+    orderBy: { date: 'desc' },
+    take: options?.limit || 50,
+    skip: options?.offset || 0,
+    include: {
+      patient: {
+        select: { id: true, firstName: true, lastName: true, dateOfBirth: true, gender: true }
+      }
+    }
+  });
+}
+
 export async function countMeasurementsByPatient(db: PrismaClient, patientId: string) {
   return db.growthRecord.count({
     where: { patientId }
@@ -111,6 +179,8 @@ export async function findGrowthRecordById(db: PrismaClient, id: string) {
           lastName: true,
           dateOfBirth: true,
           gender: true,
+          gestationalAgeWeeks: true,
+          gestationalAgeDays: true,
           clinicId: true
         }
       },
@@ -203,11 +273,12 @@ export async function findGrowthRecordsByDateRange(db: PrismaClient, patientId:
 // ==================== WHO STANDARDS QUERIES ====================
 
 export async function findWHOStandards(db: PrismaClient, params: WHOStandardFindParams) {
-  const { gender, measurementType, ageMonthsMin, ageMonthsMax } = params;
+  const { gender, measurementType, chartType, ageMonthsMin, ageMonthsMax } = params;
 
   const where: Prisma.WHOGrowthStandardWhereInput = {
     gender,
-    measurementType
+    measurementType,
+    chartType
   };
 
   if (ageMonthsMin !== undefined || ageMonthsMax !== undefined) {
@@ -219,7 +290,7 @@ export async function findWHOStandards(db: PrismaClient, params: WHOStandardFind
 
   return db.wHOGrowthStandard.findMany({
     where,
-    orderBy: [{ ageInMonths: 'asc' }, { ageDays: 'asc' }]
+    orderBy: [{ ageInMonths: 'asc' }, { ageDays: 'asc' }, { lengthCm: 'asc' }]
   });
 }
 
@@ -280,6 +351,12 @@ export async function createMeasurement(db: PrismaClient, data: MeasurementCreat
       weightForAgeZ: data.weightForAgeZ ?? null,
       heightForAgeZ: data.heightForAgeZ ?? null,
       growthStatus: data.growthStatus ?? null,
+      classification: data.classification ?? null,
+      referenceVersion: data.referenceVersion ?? null,
+      plausibility: data.plausibility,
+      plausibilityFlags: data.plausibilityFlags,
+      confirmedAt: data.confirmedAt ?? null,
+      confirmedById: data.confirmedById ?? null,
       recordedAt: data.recordedAt || new Date()
     }
   });
@@ -322,6 +399,11 @@ export async function updateGrowthRecord(
     weightForAgeZ: number;
     heightForAgeZ: number;
     growthStatus: GrowthStatus;
+    plausibility: MeasurementPlausibility;
+    plausibilityFlags: Prisma.InputJsonValue | Prisma.NullableJsonNullValueInput;
+    confirmedAt: Date | null;
+    confirmedById: string | null;
+    referenceVersion: string | null;
     updatedAt: Date;
   }>
 ) {
@@ -342,6 +424,13 @@ export async function updateGrowthRecord(
   });
 }
 
+export async function confirmMeasurement(db: PrismaClient, id: string, confirmedById: string) {
+  return db.growthRecord.update({
+    where: { id },
+    data: { plausibility: 'CONFIRMED', confirmedAt: new Date(), confirmedById }
+  });
+}
+
 // ==================== DELETE OPERATIONS ====================
 
 export async function deleteGrowthRecord(db: PrismaClient, id: string) {
@@ -495,3 +584,94 @@ export async function checkDuplicateMeasurement(db: PrismaClient, patientId: str
     }
   });
 }
+
+/**
+ * Dates already measured for a set of patients, for finding duplicates in an
+ * import without a query per row
+ */
+export async function findMeasurementDatesByPatients(db: PrismaClient, patientIds: string[]) {
+  return db.growthRecord.findMany({
+    where: {
+      patientId: { in: patientIds },
+      deletedAt: null
+    },
+    select: { patientId: true, date: true }
+  });
+}
+
+/**
+ * Records whose derived fields were computed from other reference data than
+ * `referenceVersion`, in id order from `after` so a run can pick up where it
+ * stopped
+ */
+export async function findOutdatedGrowthRecords(
+  db: PrismaClient,
+  referenceVersion: string,
+  options: { clinicId?: string; after?: string; take: number }
+) {
+  return db.growthRecord.findMany({
+    where: {
+      deletedAt: null,
+      OR: [{ referenceVersion: null }, { referenceVersion: { not: referenceVersion } }],
+      patient: { clinicId: options.clinicId, isDeleted: false },
+      id: options.after ? { gt: options.after } : undefined
+    },
+    orderBy: { id: 'asc' },
+    take: options.take,
+    select: {
+      id: true,
+      date: true,
+      weight: true,
+      height: true,
+      headCircumference: true,
+      notes: true,
+      classification: true,
+      growthStatus: true,
+      patient: {
+        select: {
+          id: true,
+          clinicId: true,
+          firstName: true,
+          lastName: true,
+          dateOfBirth: true,
+          gender: true,
+          gestationalAgeWeeks: true,
+          gestationalAgeDays: true
+        }
+      }
+    }
+  });
+}
+
+export async function countOutdatedGrowthRecords(db: PrismaClient, referenceVersion: string, clinicId?: string) {
+  return db.growthRecord.count({
+    where: {
+      deletedAt: null,
+      OR: [{ referenceVersion: null }, { referenceVersion: { not: referenceVersion } }],
+      patient: { clinicId, isDeleted: false }
+    }
+  });
+}
+
+export async function updateGrowthRecordScores(
+  db: PrismaClient,
+  id: string,
+  data: Pick<
+    Prisma.GrowthRecordUncheckedUpdateInput,
+    | 'bmiForAgeZ'
+    | 'classification'
+    | 'growthStatus'
+    | 'hcForAgeZ'
+    | 'heightForAgeZ'
+    | 'percentile'
+    | 'referenceVersion'
+    | 'weightForAgeZ'
+    | 'zScore'
+  >
+) {
+  return db.growthRecord.update({
+    where: { id },
+    data,
+    select: { id: true }
+  });
+}
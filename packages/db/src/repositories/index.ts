@@ -1,18 +1,26 @@
+export * as allergyRepo from './allergy.repo';
 export * from './appointment.repo';
+export * as auditRepo from './audit.repo';
 export * from './clinic.repo';
 export * from './dashboard.repo';
+export * as developmentRepo from './development.repo';
 export * from './diagnosis.repo';
 export * from './doctor.repo';
 export * as doctorQueries from './doctor.repo';
+export * as drugInteractionRepo from './drug-interaction.repo';
+export * as feedingRepo from './feeding.repo';
 export * from './growth.repo';
+export * as growthAlertRepo from './growth-alert.repo';
 export * as labTestRepo from './lab-test.repo';
 export * as medicalRecordRepo from './medical-record.repo';
 export * from './patient.repo';
 export * from './payment.repo';
 export * as prescriptionRepo from './prescription.repo';
+export * as reminderRepo from './reminder.repo';
 export * from './service.repo';
 export * from './system.repo';
 export * from './vac.repository';
 export * as validationRepo from './validation.repo';
 export * from './visit.repo';
 export * as vitalSignsRepo from './vital-signs.repo';
+export * from './waitlist.repo';
@@ -1,4 +1,11 @@
-import type { AppointmentStatus, Gender, Prisma, PrismaClient, Status } from '../../generated/client';
+import type {
+  AppointmentStatus,
+  Gender,
+  PrescriptionStatus,
+  Prisma,
+  PrismaClient,
+  Status
+} from '../../generated/client';
 
 /**
  * 🔵 PURE QUERY LAYER
@@ -500,6 +507,8 @@ export async function findPatientDashboardStats(db: PrismaClient, patientId: str
         lastName: true,
         gender: true,
         dateOfBirth: true,
+        gestationalAgeWeeks: true,
+        gestationalAgeDays: true,
         image: true,
         colorCode: true,
         bloodGroup: true,
@@ -538,7 +547,7 @@ export async function findPatientDashboardStats(db: PrismaClient, patientId: str
       where: {
         patientId,
         clinicId,
-        status: 'active'
+        status: 'ACTIVE'
       }
     }),
     db.medicalRecords.count({
@@ -661,7 +670,7 @@ export async function findPatientPrescriptions(
   options?: {
     limit?: number;
     offset?: number;
-    status?: 'active' | 'completed' | 'cancelled';
+    status?: PrescriptionStatus;
   }
 ) {
   const { limit = 20, offset = 0, status } = options || {};
@@ -878,6 +887,23 @@ export async function findPatientByPhone(
   });
 }
 
+/**
+ * Record numbers are unique per clinic, deleted patients included
+ */
+export async function findPatientByMedicalRecordNumber(
+  db: PrismaClient,
+  medicalRecordNumber: string,
+  clinicId: string
+): Promise<{ id: string } | null> {
+  return db.patient.findFirst({
+    where: {
+      medicalRecordNumber,
+      clinicId
+    },
+    select: { id: true }
+  });
+}
+
 export async function checkPatientExists(db: PrismaClient, patientId: string, clinicId?: string) {
   const where: Prisma.PatientWhereUniqueInput = { id: patientId, clinicId };
 
@@ -887,7 +913,77 @@ export async function checkPatientExists(db: PrismaClient, patientId: string, cl
       id: true,
       clinicId: true,
       dateOfBirth: true,
-      gender: true
+      gender: true,
+      gestationalAgeWeeks: true,
+      gestationalAgeDays: true
+    }
+  });
+}
+
+/**
+ * Parents' heights recorded on the patient, plus guardians with a height
+ */
+export async function findParentHeights(db: PrismaClient, patientId: string) {
+  return db.patient.findUnique({
+    where: { id: patientId },
+    select: {
+      fatherHeightCm: true,
+      motherHeightCm: true,
+      guardians: {
+        where: { heightCm: { not: null } },
+        select: { relation: true, heightCm: true }
+      }
+    }
+  });
+}
+
+/**
+ * Demographics printed on a growth chart
+ */
+export async function findGrowthChartDemographics(db: PrismaClient, patientId: string, clinicId: string) {
+  return db.patient.findFirst({
+    where: { id: patientId, clinicId, isDeleted: false },
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      dateOfBirth: true,
+      gender: true,
+      gestationalAgeWeeks: true,
+      gestationalAgeDays: true
+    }
+  });
+}
+
+/**
+ * Patients an imported growth history may belong to: those with one of the
+ * record numbers, or born within the file's range of birth dates
+ */
+export async function findGrowthImportCandidates(
+  db: PrismaClient,
+  clinicId: string,
+  criteria: { medicalRecordNumbers: string[]; bornBetween: { from: Date; to: Date } | null }
+) {
+  return db.patient.findMany({
+    where: {
+      clinicId,
+      isDeleted: false,
+      OR: [
+        { medicalRecordNumber: { in: criteria.medicalRecordNumbers } },
+        ...(criteria.bornBetween
+          ? [{ dateOfBirth: { gte: criteria.bornBetween.from, lt: criteria.bornBetween.to } }]
+          : [])
+      ]
+    },
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      medicalRecordNumber: true,
+      dateOfBirth: true,
+      gender: true,
+      gestationalAgeWeeks: true,
+      gestationalAgeDays: true
     }
   });
 }
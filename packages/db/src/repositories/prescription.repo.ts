@@ -1,4 +1,4 @@
-import type { PrismaClient } from '../../generated/client';
+import type { Prisma, PrismaClient } from '../../generated/client';
 
 /**
  * 🔷 PRESCRIPTION REPOSITORY
@@ -53,7 +53,7 @@ export async function findActivePrescriptionsByPatient(db: PrismaClient, patient
   return db.prescription.findMany({
     where: {
       patientId,
-      status: 'active',
+      status: 'ACTIVE',
       endDate: { gte: currentDate }
     },
     include: {
@@ -72,3 +72,107 @@ export async function findActivePrescriptionsByPatient(db: PrismaClient, patient
     orderBy: { issuedDate: 'desc' }
   });
 }
+
+/**
+ * A prescription with its items, scoped to the clinic through its patient
+ */
+export async function findPrescriptionById(db: PrismaClient, id: string, clinicId: string) {
+  return db.prescription.findFirst({
+    where: { id, patient: { clinicId } },
+    include: {
+      doctor: {
+        select: {
+          id: true,
+          name: true
+        }
+      },
+      prescribedItems: {
+        include: {
+          drug: {
+            select: {
+              id: true,
+              name: true
+            }
+          }
+        }
+      },
+      renewal: {
+        select: {
+          id: true,
+          status: true
+        }
+      }
+    }
+  });
+}
+
+/**
+ * The diagnosis encounter a prescription is written against, with the patient
+ * fields dosing needs
+ */
+export async function findPrescribingEncounter(db: PrismaClient, encounterId: string, clinicId: string) {
+  return db.diagnosis.findFirst({
+    where: {
+      id: encounterId,
+      isDeleted: { not: true },
+      patient: { clinicId, isDeleted: { not: true } }
+    },
+    select: {
+      id: true,
+      patientId: true,
+      doctorId: true,
+      medicalId: true,
+      status: true,
+      patient: {
+        select: {
+          id: true,
+          clinicId: true,
+          dateOfBirth: true,
+          gestationalAgeWeeks: true,
+          gestationalAgeDays: true
+        }
+      }
+    }
+  });
+}
+
+export async function findDrugsWithGuidelines(db: PrismaClient, drugIds: string[]) {
+  return db.drug.findMany({
+    where: { id: { in: drugIds } },
+    include: { guidelines: true }
+  });
+}
+
+export async function findFormulations(db: PrismaClient, ids: string[]) {
+  return db.drugFormulation.findMany({
+    where: { id: { in: ids } },
+    include: { drug: { select: { id: true, name: true } } }
+  });
+}
+
+// ==================== WRITE OPERATIONS ====================
+
+export async function createPrescription(db: PrismaClient, data: Prisma.PrescriptionUncheckedCreateInput) {
+  return db.prescription.create({
+    data,
+    include: {
+      prescribedItems: {
+        include: {
+          drug: {
+            select: {
+              id: true,
+              name: true
+            }
+          }
+        }
+      }
+    }
+  });
+}
+
+export async function updatePrescription(db: PrismaClient, id: string, data: Prisma.PrescriptionUncheckedUpdateInput) {
+  return db.prescription.update({
+    where: { id },
+    data
+  });
+}
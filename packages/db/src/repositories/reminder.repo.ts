@@ -0,0 +1,106 @@
+// packages/db/src/repositories/reminder.repo.ts
+
+import type { Prisma, PrismaClient } from '../../generated/client';
+
+/**
+ * 🔵 PURE QUERY LAYER
+ * - NO business logic
+ * - NO cache directives
+ * - NO validation
+ * - RAW Prisma only
+ * - All functions accept PrismaClient as first parameter
+ */
+
+const OPEN_STATUSES = ['PENDING', 'RETRYING'] as const;
+
+/**
+ * The appointment as a reminder needs it: whether it still stands, when it is
+ * and who to tell
+ */
+export async function findAppointmentForReminder(db: PrismaClient | Prisma.TransactionClient, appointmentId: string) {
+  return db.appointment.findUnique({
+    where: { id: appointmentId },
+    select: {
+      id: true,
+      clinicId: true,
+      doctorId: true,
+      patientId: true,
+      appointmentDate: true,
+      time: true,
+      status: true,
+      isDeleted: true,
+      patient: { select: { firstName: true, lastName: true, email: true, phone: true } },
+      doctor: { select: { name: true } },
+      clinic: { select: { name: true, timezone: true } }
+    }
+  });
+}
+
+export async function createReminders(
+  db: PrismaClient | Prisma.TransactionClient,
+  data: Prisma.ReminderCreateManyInput[]
+) {
+  return db.reminder.createManyAndReturn({ data });
+}
+
+export async function createReminder(
+  db: PrismaClient | Prisma.TransactionClient,
+  data: Prisma.ReminderUncheckedCreateInput
+) {
+  return db.reminder.create({ data });
+}
+
+/**
+ * Reminders that have not gone out yet, optionally only those of one job
+ */
+export async function findOpenReminders(
+  db: PrismaClient | Prisma.TransactionClient,
+  where: { appointmentId?: string; immunizationId?: string; jobId?: string }
+) {
+  return db.reminder.findMany({
+    where: { ...where, status: { in: [...OPEN_STATUSES] } },
+    orderBy: { scheduledFor: 'asc' }
+  });
+}
+
+export async function findRemindersForAppointment(db: PrismaClient | Prisma.TransactionClient, appointmentId: string) {
+  return db.reminder.findMany({
+    where: { appointmentId },
+    orderBy: [{ scheduledFor: 'asc' }, { method: 'asc' }]
+  });
+}
+
+export async function findReminderByJob(
+  db: PrismaClient | Prisma.TransactionClient,
+  where: { immunizationId: string; jobId: string }
+) {
+  return db.reminder.findFirst({ where });
+}
+
+export async function updateReminder(
+  db: PrismaClient | Prisma.TransactionClient,
+  id: string,
+  data: Prisma.ReminderUncheckedUpdateInput
+) {
+  return db.reminder.update({ where: { id }, data });
+}
+
+export async function updateReminders(
+  db: PrismaClient | Prisma.TransactionClient,
+  ids: string[],
+  data: Prisma.ReminderUncheckedUpdateManyInput
+) {
+  const result = await db.reminder.updateMany({ where: { id: { in: ids } }, data });
+  return result.count;
+}
+
+/**
+ * Cancel every reminder of an appointment that has not gone out yet
+ */
+export async function cancelOpenReminders(db: PrismaClient | Prisma.TransactionClient, appointmentId: string) {
+  const result = await db.reminder.updateMany({
+    where: { appointmentId, status: { in: [...OPEN_STATUSES] } },
+    data: { status: 'CANCELLED' }
+  });
+  return result.count;
+}
@@ -11,6 +11,11 @@ import type { PrismaClient } from '../../generated/client';
  
  */
 
+const activeFormulations = {
+  where: { isActive: true },
+  orderBy: [{ form: 'asc' as const }, { strength: 'asc' as const }]
+};
+
 // ==================== WHO GROWTH STANDARDS QUERIES ====================
 
 /**
@@ -123,29 +128,61 @@ export async function getDrugById(db: PrismaClient, id: string) {
   return await db.drug.findUnique({
     where: { id },
     include: {
-      guidelines: true
+      guidelines: true,
+      formulations: activeFormulations
     }
   });
 }
 /**
- * Search drugs
+ * Ids of active drugs whose name, generic name or a brand name contains the
+ * query; exact names first, then names that start with it
+ */
+export async function searchDrugIds(db: PrismaClient, query: string, limit = 20) {
+  const term = query.trim().toLowerCase();
+  const escaped = term.replace(/[\\%_]/g, match => `\\${match}`);
+  const contains = `%${escaped}%`;
+  const prefix = `${escaped}%`;
+
+  const rows = await db.$queryRaw<Array<{ id: string }>>`
+    SELECT d.id
+    FROM "Drug" d
+    CROSS JOIN LATERAL (
+      SELECT array_agg(lower(candidate)) AS names
+      FROM unnest(d."brandNames" || ARRAY[d.name, d."genericName"]) AS candidate
+      WHERE candidate IS NOT NULL
+    ) n
+    WHERE d."isActive" = true
+      AND EXISTS (SELECT 1 FROM unnest(n.names) AS candidate WHERE candidate LIKE ${contains})
+    ORDER BY
+      CASE
+        WHEN ${term} = ANY(n.names) THEN 0
+        WHEN EXISTS (SELECT 1 FROM unnest(n.names) AS candidate WHERE candidate LIKE ${prefix}) THEN 1
+        ELSE 2
+      END,
+      d.name
+    LIMIT ${limit}
+  `;
+  return rows.map(row => row.id);
+}
+
+/**
+ * Search drugs by name, generic name and brand name, in the order
+ * `searchDrugIds` ranks them
  */
 export async function searchDrugs(db: PrismaClient, query: string, limit = 20) {
-  return await db.drug.findMany({
-    where: {
-      name: {
-        contains: query,
-        mode: 'insensitive'
-      }
-    },
-    take: limit as number,
-    orderBy: { name: 'asc' },
+  const ids = await searchDrugIds(db, query, limit);
+  if (!ids.length) return [];
+
+  const drugs = await db.drug.findMany({
+    where: { id: { in: ids } },
     include: {
       guidelines: {
         take: 1
-      }
+      },
+      formulations: activeFormulations
     }
   });
+  return drugs.sort((a, b) => ids.indexOf(a.id) - ids.indexOf(b.id));
 }
 
 // ==================== DOSE GUIDELINES QUERIES ====================
@@ -189,6 +226,7 @@ export const systemQueries = {
   getAllDrugs,
   getDrugByName,
   getDrugById,
+  searchDrugIds,
   searchDrugs,
   getDoseGuidelines,
   getVaccineSchedule,
@@ -1,4 +1,4 @@
-import type { ImmunizationStatus, Prisma, PrismaClient } from '../../generated/client';
+import type { DoseValidity, ImmunizationStatus, Prisma, PrismaClient } from '../../generated/client';
 
 /**
  * 🔷 VACCINATION REPOSITORY
@@ -28,9 +28,37 @@ export interface VaccineScheduleFindParams {
   ageMonths?: number;
   isMandatory?: boolean;
   limit?: number;
+  scheduleSetId?: number;
   vaccineName?: string;
 }
 
+export interface VaccineScheduleSetCreateInput {
+  code: string;
+  country?: string | null;
+  description?: string | null;
+  effectiveFrom?: Date | null;
+  isDefault?: boolean;
+  name: string;
+  vaccines: Array<{
+    ageInDaysMax?: number | null;
+    ageInDaysMin?: number | null;
+    description?: string | null;
+    doses?: Array<{
+      doseNumber: number;
+      maximumAgeDays?: number | null;
+      minimumAgeDays: number;
+      minimumIntervalDays?: number | null;
+      recommendedAgeDays: number;
+    }>;
+    dosesRequired: number;
+    isMandatory?: boolean;
+    minimumInterval?: number | null;
+    recommendedAge: string;
+    vaccineName: string;
+  }>;
+  version: string;
+}
+
 // ==================== IMMUNIZATION QUERIES ====================
 
 export async function findImmunizationById(db: PrismaClient, id: string) {
@@ -232,7 +260,9 @@ export async function findImmunizationsByDateRange(
           firstName: true,
           lastName: true,
           dateOfBirth: true,
-          ageMonths: true
+          ageMonths: true,
+          phone: true,
+          email: true
         }
       }
     }
@@ -313,6 +343,71 @@ export async function findOverdueImmunizations(
   });
 }
 
+// Doses that were actually given (completed, or historical rows recorded without a status)
+// and were not flagged invalid, so they count towards the series
+const ADMINISTERED_DOSE_WHERE: Prisma.ImmunizationWhereInput = {
+  isDeleted: false,
+  AND: [
+    { OR: [{ status: 'COMPLETED' }, { status: null }] },
+    { OR: [{ validity: null }, { validity: { not: 'INVALID' } }] }
+  ]
+};
+
+export async function findAdministeredDosesByPatient(db: PrismaClient, patientId: string, vaccine?: string) {
+  return db.immunization.findMany({
+    where: {
+      ...ADMINISTERED_DOSE_WHERE,
+      patientId,
+      ...(vaccine && { vaccine: { equals: vaccine, mode: 'insensitive' } })
+    },
+    orderBy: { date: 'asc' },
+    select: {
+      id: true,
+      vaccine: true,
+      date: true,
+      dose: true
+    }
+  });
+}
+
+export async function findAdministeredDosesByClinic(db: PrismaClient, clinicId: string) {
+  return db.immunization.findMany({
+    where: {
+      ...ADMINISTERED_DOSE_WHERE,
+      patient: { clinicId, isDeleted: false }
+    },
+    orderBy: { date: 'asc' },
+    select: {
+      patientId: true,
+      vaccine: true,
+      date: true
+    }
+  });
+}
+
+export async function findCertificateDoses(db: PrismaClient, patientId: string) {
+  return db.immunization.findMany({
+    where: {
+      ...ADMINISTERED_DOSE_WHERE,
+      patientId
+    },
+    orderBy: [{ date: 'asc' }, { vaccine: 'asc' }],
+    select: {
+      id: true,
+      vaccine: true,
+      date: true,
+      dose: true,
+      doseNumber: true,
+      lotNumber: true,
+      administeredBy: {
+        select: {
+          name: true
+        }
+      }
+    }
+  });
+}
+
 // ==================== PATIENT VERIFICATION ====================
 
 export async function getPatientDateOfBirth(db: PrismaClient, patientId: string) {
@@ -348,6 +443,19 @@ export async function checkPatientExistsInClinic(db: PrismaClient, patientId: st
   });
 }
 
+export async function findPatientBirthDatesInClinic(db: PrismaClient, clinicId: string) {
+  return db.patient.findMany({
+    where: {
+      clinicId,
+      isDeleted: false
+    },
+    select: {
+      id: true,
+      dateOfBirth: true
+    }
+  });
+}
+
 export async function countActivePatientsInClinic(db: PrismaClient, clinicId: string) {
   return db.patient.count({
     where: {
@@ -423,6 +531,10 @@ export async function countImmunizationsByStatus(db: PrismaClient, clinicId: str
 export async function findVaccineSchedule(db: PrismaClient, options?: VaccineScheduleFindParams) {
   const where: Prisma.VaccineScheduleWhereInput = {};
 
+  if (options?.scheduleSetId !== undefined) {
+    where.scheduleSetId = options.scheduleSetId;
+  }
+
   if (options?.ageMonths !== undefined) {
     const ageDays = options.ageMonths * 30;
     where.ageInDaysMin = { lte: ageDays };
@@ -447,6 +559,33 @@ export async function findVaccineSchedule(db: PrismaClient, options?: VaccineSch
   });
 }
 
+export async function findVaccineScheduleWithDoses(db: PrismaClient, scheduleSetId: number) {
+  return db.vaccineSchedule.findMany({
+    where: { scheduleSetId },
+    orderBy: [{ ageInDaysMin: 'asc' }, { vaccineName: 'asc' }],
+    include: {
+      doses: {
+        orderBy: { doseNumber: 'asc' }
+      }
+    }
+  });
+}
+
+export async function findVaccineSeriesByName(db: PrismaClient, scheduleSetId: number, vaccineName: string) {
+  return db.vaccineSchedule.findFirst({
+    where: {
+      scheduleSetId,
+      vaccineName: { equals: vaccineName, mode: 'insensitive' }
+    },
+    orderBy: { ageInDaysMin: 'asc' },
+    include: {
+      doses: {
+        orderBy: { doseNumber: 'asc' }
+      }
+    }
+  });
+}
+
 export async function findVaccineScheduleById(db: PrismaClient, id: number) {
   return db.vaccineSchedule.findUnique({
     where: { id }
@@ -473,6 +612,80 @@ export async function findVaccineScheduleByAgeRange(db: PrismaClient, minAgeDays
   });
 }
 
+// ==================== SCHEDULE SETS ====================
+
+export async function findScheduleSets(db: PrismaClient) {
+  return db.vaccineScheduleSet.findMany({
+    orderBy: [{ code: 'asc' }, { createdAt: 'desc' }],
+    include: {
+      _count: {
+        select: { vaccines: true, clinicSettings: true }
+      }
+    }
+  });
+}
+
+export async function findScheduleSetById(db: PrismaClient, id: number) {
+  return db.vaccineScheduleSet.findUnique({
+    where: { id }
+  });
+}
+
+export async function findScheduleSetByCodeVersion(db: PrismaClient, code: string, version: string) {
+  return db.vaccineScheduleSet.findUnique({
+    where: { code_version: { code, version } }
+  });
+}
+
+export async function findDefaultScheduleSet(db: PrismaClient) {
+  return db.vaccineScheduleSet.findFirst({
+    where: { isDefault: true },
+    orderBy: { createdAt: 'desc' }
+  });
+}
+
+export async function findClinicScheduleSetId(db: PrismaClient, clinicId: string) {
+  return db.clinicSetting.findUnique({
+    where: { clinicId },
+    select: { id: true, vaccineScheduleSetId: true }
+  });
+}
+
+export async function createScheduleSet(db: PrismaClient, data: VaccineScheduleSetCreateInput) {
+  const { vaccines, ...set } = data;
+
+  return db.vaccineScheduleSet.create({
+    data: {
+      ...set,
+      vaccines: {
+        create: vaccines.map(({ doses, ...vaccine }) => ({
+          ...vaccine,
+          ...(doses?.length && { doses: { create: doses } })
+        }))
+      }
+    },
+    include: {
+      _count: {
+        select: { vaccines: true }
+      }
+    }
+  });
+}
+
+export async function clearDefaultScheduleSet(db: PrismaClient) {
+  return db.vaccineScheduleSet.updateMany({
+    where: { isDefault: true },
+    data: { isDefault: false }
+  });
+}
+
+export async function updateClinicScheduleSet(db: PrismaClient, clinicId: string, scheduleSetId: number) {
+  return db.clinicSetting.update({
+    where: { clinicId },
+    data: { vaccineScheduleSetId: scheduleSetId }
+  });
+}
+
 // ==================== STAFF VERIFICATION ====================
 
 export async function checkStaffExistsInClinic(db: PrismaClient, staffId: string, clinicId: string) {
@@ -498,9 +711,11 @@ export interface ImmunizationCreateInput {
   date: Date;
   daysOverDue?: number;
   dose?: string | null;
+  doseNumber?: number | null;
   expirationDate?: Date | null;
   id?: string;
   isOverDue?: boolean;
+  lotNumber?: string | null;
   manufacturer?: string | null;
   medicalRecordId?: string | null;
   nextDoseDate?: Date | null;
@@ -511,6 +726,8 @@ export interface ImmunizationCreateInput {
   status?: ImmunizationStatus;
   updatedAt?: Date;
   vaccine: string;
+  validity?: DoseValidity | null;
+  validityReasons?: string[];
 }
 
 export async function createImmunization(db: PrismaClient, data: ImmunizationCreateInput) {
@@ -615,6 +832,37 @@ export async function updateImmunizationStatus(
   });
 }
 
+export async function findPendingImmunizationsByClinic(db: PrismaClient, clinicId: string) {
+  return db.immunization.findMany({
+    where: {
+      isDeleted: false,
+      status: { in: ['PENDING', 'OVERDUE', 'DELAYED'] },
+      patient: { clinicId, isDeleted: false }
+    },
+    select: {
+      id: true,
+      patientId: true,
+      vaccine: true,
+      isOverDue: true,
+      daysOverDue: true
+    }
+  });
+}
+
+export async function updateImmunizationOverdue(
+  db: PrismaClient,
+  id: string,
+  data: { isOverDue: boolean; daysOverDue: number }
+) {
+  return db.immunization.update({
+    where: { id },
+    data: {
+      ...data,
+      updatedAt: new Date()
+    }
+  });
+}
+
 export async function updateBulkImmunizationStatus(db: PrismaClient, ids: string[], status: ImmunizationStatus) {
   return db.immunization.updateMany({
     where: { id: { in: ids } },
@@ -684,6 +932,37 @@ export async function checkDuplicateVaccination(
   });
 }
 
+export async function checkDuplicateLotOnDate(
+  db: PrismaClient,
+  patientId: string,
+  lotNumber: string,
+  date: Date,
+  excludeId?: string
+) {
+  const startOfDay = new Date(date);
+  startOfDay.setHours(0, 0, 0, 0);
+
+  const endOfDay = new Date(date);
+  endOfDay.setHours(23, 59, 59, 999);
+
+  return db.immunization.findFirst({
+    where: {
+      patientId,
+      lotNumber,
+      isDeleted: false,
+      date: {
+        gte: startOfDay,
+        lte: endOfDay
+      },
+      ...(excludeId && { id: { not: excludeId } })
+    },
+    select: {
+      id: true,
+      vaccine: true
+    }
+  });
+}
+
 export async function checkImmunizationExists(db: PrismaClient, id: string) {
   const where: Prisma.ImmunizationWhereUniqueInput = { id };
 
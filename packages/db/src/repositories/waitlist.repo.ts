@@ -0,0 +1,243 @@
+// packages/db/src/repositories/waitlist.repo.ts
+
+import type { Prisma, PrismaClient, WaitlistEntryStatus } from '../../generated/client';
+
+/**
+ * 🔵 PURE QUERY LAYER
+ * - NO business logic
+ * - NO cache directives
+ * - NO validation
+ * - RAW Prisma only
+ * - All functions accept PrismaClient as first parameter
+ */
+
+const patientContactSelect = {
+  id: true,
+  userId: true,
+  firstName: true,
+  lastName: true,
+  phone: true
+} as const;
+
+// ==================== ENTRIES ====================
+
+export async function createWaitlistEntry(
+  db: PrismaClient | Prisma.TransactionClient,
+  data: Prisma.WaitlistEntryUncheckedCreateInput
+) {
+  return db.waitlistEntry.create({ data });
+}
+
+export async function findWaitlistEntryById(db: PrismaClient | Prisma.TransactionClient, id: string, clinicId: string) {
+  return db.waitlistEntry.findFirst({
+    where: { id, clinicId },
+    include: {
+      patient: { select: patientContactSelect },
+      doctor: { select: { id: true, name: true, specialty: true } },
+      offers: { orderBy: { createdAt: 'desc' } }
+    }
+  });
+}
+
+export async function findWaitlistEntries(
+  db: PrismaClient | Prisma.TransactionClient,
+  clinicId: string,
+  filter: { status?: WaitlistEntryStatus; doctorId?: string; patientId?: string } = {}
+) {
+  return db.waitlistEntry.findMany({
+    where: {
+      clinicId,
+      status: filter.status ?? { in: ['WAITING', 'OFFERED'] },
+      doctorId: filter.doctorId,
+      patientId: filter.patientId
+    },
+    orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    include: {
+      patient: { select: patientContactSelect },
+      doctor: { select: { id: true, name: true, specialty: true } },
+      offers: {
+        where: { status: 'PENDING' },
+        select: { id: true, slotStart: true, time: true, duration: true, expiresAt: true, appointmentId: true }
+      }
+    }
+  });
+}
+
+/**
+ * An open entry for the same patient and doctor or specialty, used to reject duplicates
+ */
+export async function findOpenWaitlistEntry(
+  db: PrismaClient | Prisma.TransactionClient,
+  params: { clinicId: string; patientId: string; doctorId?: string; specialty?: string }
+) {
+  return db.waitlistEntry.findFirst({
+    where: {
+      clinicId: params.clinicId,
+      patientId: params.patientId,
+      status: { in: ['WAITING', 'OFFERED'] },
+      ...(params.doctorId
+        ? { doctorId: params.doctorId }
+        : { doctorId: null, specialty: { equals: params.specialty, mode: 'insensitive' } })
+    },
+    select: { id: true }
+  });
+}
+
+/**
+ * Waiting entries that could take a slot with this doctor on this date, best
+ * first. Entries already offered this exact slot are left out, so a declined or
+ * lapsed offer moves on to someone else.
+ */
+export async function findWaitlistCandidates(
+  db: PrismaClient | Prisma.TransactionClient,
+  params: {
+    clinicId: string;
+    doctorId: string;
+    specialty: string;
+    date: Date;
+    slotStart: Date;
+    excludePatientId?: string;
+  }
+) {
+  return db.waitlistEntry.findMany({
+    where: {
+      clinicId: params.clinicId,
+      status: 'WAITING',
+      earliestDate: { lte: params.date },
+      latestDate: { gte: params.date },
+      OR: [
+        { doctorId: params.doctorId },
+        { doctorId: null, specialty: { equals: params.specialty, mode: 'insensitive' } }
+      ],
+      NOT: params.excludePatientId ? { patientId: params.excludePatientId } : undefined,
+      offers: { none: { doctorId: params.doctorId, slotStart: params.slotStart } }
+    },
+    orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    include: {
+      patient: { select: patientContactSelect }
+    }
+  });
+}
+
+export async function updateWaitlistEntry(
+  db: PrismaClient | Prisma.TransactionClient,
+  id: string,
+  data: Prisma.WaitlistEntryUncheckedUpdateInput
+) {
+  return db.waitlistEntry.update({ where: { id }, data });
+}
+
+/**
+ * Close waiting entries whose date range has passed
+ */
+export async function expirePastWaitlistEntries(
+  db: PrismaClient | Prisma.TransactionClient,
+  clinicId: string,
+  today: Date
+) {
+  const result = await db.waitlistEntry.updateMany({
+    where: { clinicId, status: 'WAITING', latestDate: { lt: today } },
+    data: { status: 'EXPIRED' }
+  });
+  return result.count;
+}
+
+// ==================== OFFERS ====================
+
+export async function createWaitlistOffer(
+  db: PrismaClient | Prisma.TransactionClient,
+  data: Prisma.WaitlistOfferUncheckedCreateInput
+) {
+  return db.waitlistOffer.create({ data });
+}
+
+export async function findWaitlistOfferById(db: PrismaClient | Prisma.TransactionClient, id: string, clinicId: string) {
+  return db.waitlistOffer.findFirst({
+    where: { id, clinicId },
+    include: {
+      entry: { select: { id: true, patientId: true, status: true } }
+    }
+  });
+}
+
+export async function findPendingOfferByAppointment(
+  db: PrismaClient | Prisma.TransactionClient,
+  appointmentId: string
+) {
+  return db.waitlistOffer.findFirst({
+    where: { appointmentId, status: 'PENDING' }
+  });
+}
+
+/**
+ * Pending offers whose hold has run out
+ */
+export async function findLapsedWaitlistOffers(
+  db: PrismaClient | Prisma.TransactionClient,
+  now: Date,
+  clinicId?: string
+) {
+  return db.waitlistOffer.findMany({
+    where: { status: 'PENDING', expiresAt: { lte: now }, clinicId },
+    orderBy: { expiresAt: 'asc' }
+  });
+}
+
+/**
+ * Move a pending offer to its outcome. Returns 0 when it had already been
+ * resolved, so a response and the expiry sweep cannot both act on it.
+ */
+export async function resolveWaitlistOffer(
+  db: PrismaClient | Prisma.TransactionClient,
+  id: string,
+  data: Pick<Prisma.WaitlistOfferUncheckedUpdateInput, 'status' | 'respondedAt'>
+) {
+  const result = await db.waitlistOffer.updateMany({
+    where: { id, status: 'PENDING' },
+    data
+  });
+  return result.count;
+}
+
+// ==================== SLOT HOLDS ====================
+
+/**
+ * The doctor's specialty and the clinic settings an offer needs
+ */
+export async function findWaitlistSlotContext(db: PrismaClient | Prisma.TransactionClient, doctorId: string) {
+  return db.doctor.findUnique({
+    where: { id: doctorId },
+    select: {
+      id: true,
+      name: true,
+      specialty: true,
+      clinicId: true,
+      clinic: {
+        select: {
+          name: true,
+          timezone: true,
+          clinicSettings: {
+            select: { defaultAppointmentDuration: true, waitlistOfferHoldMinutes: true },
+            take: 1
+          }
+        }
+      }
+    }
+  });
+}
+
+export async function confirmHeldAppointment(db: PrismaClient | Prisma.TransactionClient, appointmentId: string) {
+  return db.appointment.update({
+    where: { id: appointmentId },
+    data: { status: 'SCHEDULED' }
+  });
+}
+
+/**
+ * Remove a hold that was never confirmed; it is not kept as a cancelled booking
+ */
+export async function deleteHeldAppointment(db: PrismaClient | Prisma.TransactionClient, appointmentId: string) {
+  await db.appointment.deleteMany({
+    where: { id: appointmentId, status: 'PENDING' }
+  });
+}
@@ -12,7 +12,7 @@ import { randomUUID } from 'node:crypto';
 
 import { logger } from '@naroto/logger';
 import { CACHE_KEYS, CACHE_TTL } from '@naroto/redis/cache-keys';
-import { addDays, endOfDay, endOfMonth, startOfDay, startOfMonth, subDays } from 'date-fns';
+import { endOfDay, endOfMonth, startOfDay, startOfMonth, subDays } from 'date-fns';
 import { z } from 'zod';
 
 import type { AppointmentStatus, PrismaClient } from '../../generated/client';
@@ -21,6 +21,7 @@ import { ValidationError } from '..';
 import { prisma } from '../client';
 import { AppError, ConflictError, NotFoundError } from '../error';
 import * as appointmentRepo from '../repositories/appointment.repo';
+import * as clinicRepo from '../repositories/clinic.repo';
 import * as dashboardRepo from '../repositories/dashboard.repo';
 import * as doctorRepo from '../repositories/doctor.repo';
 import * as growthRepo from '../repositories/growth.repo';
@@ -30,6 +31,7 @@ import * as serviceRepo from '../repositories/service.repo';
 import * as staffRepo from '../repositories/staff.repo';
 import * as vaccinationRepo from '../repositories/vac.repository';
 import { toNumber } from '../utils';
+import { zonedCalendar } from '../utils/date/timezone';
 import {
   CreateNewDoctorInputSchema,
   type CreateStaffInput,
@@ -178,14 +180,18 @@ export class AdminService {
 
       // Date calculations (business logic in service)
       const now = new Date();
-      const today = startOfDay(now);
-      const tomorrow = startOfDay(addDays(now, 1));
+      // "Today" is the clinic's local day, not the server's
+      const timeZone = await this.clinicTimeZone(validatedClinicId);
+      const todayKey = zonedCalendar.today(timeZone, now);
+      const todayRange = zonedCalendar.dayRange(todayKey, timeZone);
+      const today = todayRange.start;
+      const tomorrow = new Date(todayRange.end.getTime() + 1);
       const thirtyDaysAgo = subDays(now, 30);
 
       const startOfCurrentMonth = startOfMonth(now);
       const endOfCurrentMonth = endOfMonth(now);
 
-      const todayDayName = this.DAYS_OF_WEEK[now.getDay()] as string;
+      const todayDayName = this.DAYS_OF_WEEK[zonedCalendar.weekday(todayKey)] as string;
 
       // Parallel repository calls for performance
       const [
@@ -226,7 +232,7 @@ export class AdminService {
         patientRepo.countNewPatientsInRange(this.db, validatedClinicId, startOfCurrentMonth, endOfCurrentMonth),
         patientRepo.countActivePatients(this.db, validatedClinicId),
         // supply offset parameter as required by the repo signature
-        appointmentRepo.findRecentAppointments(this.db, validatedClinicId, 10, 0),
+        appointmentRepo.findRecentAppointments(this.db, validatedClinicId, today, 10, 0),
         doctorRepo.findDoctorsWorkingOnDay(this.db, validatedClinicId, todayDayName, 5),
         serviceRepo.findRecentServices?.(this.db, validatedClinicId, 10, 0) ?? Promise.resolve([]),
         vaccinationRepo.findOverdueImmunizations(this.db, validatedClinicId, now, { limit: 20 }),
@@ -1480,6 +1486,14 @@ export class AdminService {
       .slice(0, 10);
   }
 
+  /**
+   * The clinic's IANA timezone, UTC when unset
+   */
+  private async clinicTimeZone(clinicId: string): Promise<string> {
+    const clinic = await clinicRepo.findClinicTimezone(this.db, clinicId);
+    return zonedCalendar.resolve(clinic?.timezone);
+  }
+
   private unwrapPromise<T>(promiseResult: PromiseSettledResult<T>, defaultValue: T): T {
     return promiseResult.status === 'fulfilled' ? promiseResult.value : defaultValue;
   }
@@ -0,0 +1,228 @@
+// src/services/allergy/allergy-check.ts
+import type { AllergySeverity, AllergyVerificationStatus } from '../../../generated/client';
+
+/**
+ * Classes whose members can cross-react. An allergy to a drug in one class is
+ * a warning, not a contraindication, for drugs in the others.
+ */
+const CROSS_SENSITIVITY_GROUPS = [
+  {
+    classes: ['penicillin', 'cephalosporin', 'carbapenem', 'monobactam'],
+    note: 'beta-lactams share a ring structure; cross-reactions are uncommon but can be severe'
+  },
+  {
+    classes: ['barbiturate', 'hydantoin', 'dibenzazepine'],
+    note: 'aromatic anticonvulsants commonly cross-react in hypersensitivity syndromes'
+  }
+] as const;
+
+/** Free-text entries that record the absence of an allergy or condition */
+const NONE_RECORDED = new Set([
+  'none',
+  'nil',
+  'n/a',
+  'na',
+  'nka',
+  'nkda',
+  'no',
+  'no known allergies',
+  'no known drug allergies'
+]);
+
+export interface AllergyCheckDrug {
+  brandNames: string[];
+  drugClasses: string[];
+  genericName: string | null;
+  id: string;
+  ingredients: string[];
+  name: string;
+}
+
+export interface CheckedAllergy {
+  allergen: string;
+  /** Formulary drug the allergen is */
+  drug: AllergyCheckDrug | null;
+  id: string;
+  needsReview: boolean;
+  reaction: string | null;
+  severity: AllergySeverity | null;
+  verificationStatus: AllergyVerificationStatus;
+}
+
+/**
+ * `drug`: the allergen is the drug or one of its ingredients; `class`: they
+ * share a class; `cross-sensitivity`: their classes can cross-react
+ */
+export type AllergyMatchKind = 'drug' | 'class' | 'cross-sensitivity';
+
+export interface AllergyAlert {
+  /** `block` stops prescribing; `warn` needs a reason to go ahead */
+  action: 'block' | 'warn';
+  allergen: string;
+  allergyId: string;
+  drug: { id: string; name: string };
+  kind: AllergyMatchKind;
+  /** The ingredient or class the match was made on */
+  matchedOn: string;
+  message: string;
+  needsReview: boolean;
+  severity: AllergySeverity | null;
+  verificationStatus: AllergyVerificationStatus;
+}
+
+/**
+ * Compares drugs with a patient's recorded allergies by ingredient, by class
+ * and by cross-sensitivity group. An allergy recorded as text alone is read
+ * through the formulary drugs it names, so "amoxicillin" counts as an
+ * allergy to penicillins.
+ */
+export class AllergyMatcher {
+  /**
+   * Alerts for one drug, contraindications first. `formulary` holds the
+   * drugs text-only allergens may name; refuted allergies are expected to be
+   * left out by the caller.
+   */
+  check(drug: AllergyCheckDrug, allergies: CheckedAllergy[], formulary: AllergyCheckDrug[] = []): AllergyAlert[] {
+    const ingredients = this.ingredientsOf(drug);
+    const classes = drug.drugClasses.map(drugClass => this.key(drugClass));
+
+    const alerts: AllergyAlert[] = [];
+    for (const allergy of allergies) {
+      const allergen = this.profile(allergy, formulary);
+
+      const ingredient = ingredients.find(i => allergen.ingredients.has(i));
+      if (ingredient) {
+        alerts.push(this.alert(allergy, drug, 'drug', ingredient, `${drug.name} contains ${ingredient}`));
+        continue;
+      }
+
+      const sharedClass = classes.find(c => allergen.classes.has(c));
+      if (sharedClass) {
+        alerts.push(this.alert(allergy, drug, 'class', sharedClass, `${drug.name} is a ${sharedClass}`));
+        continue;
+      }
+
+      const cross = this.crossSensitivity(allergen.classes, classes);
+      if (cross) {
+        alerts.push(
+          this.alert(
+            allergy,
+            drug,
+            'cross-sensitivity',
+            cross.drugClass,
+            `${drug.name} is a ${cross.drugClass}; ${cross.note}`
+          )
+        );
+      }
+    }
+
+    return alerts.sort((a, b) => Number(b.action === 'block') - Number(a.action === 'block'));
+  }
+
+  /**
+   * Items of a free-text list, split on commas, semicolons and new lines;
+   * entries that record no allergy are dropped
+   */
+  splitFreeText(text: string | null | undefined): string[] {
+    if (!text) return [];
+    return text
+      .split(/[,;\n]+/)
+      .map(item => item.trim())
+      .filter(item => item && !NONE_RECORDED.has(item.toLowerCase()));
+  }
+
+  /**
+   * Lower-cased allergen or drug names looked up against the formulary
+   */
+  key(value: string): string {
+    return value.trim().toLowerCase();
+  }
+
+  /**
+   * Names an allergen may be recorded under: "penicillins" is written as
+   * often as "penicillin"
+   */
+  names(allergen: string): string[] {
+    const key = this.key(allergen);
+    return key.endsWith('s') ? [key, key.slice(0, -1)] : [key];
+  }
+
+  /**
+   * Whether an allergen names the drug itself: by its name, generic name or
+   * one of its brand names ("Augmentin")
+   */
+  isNamedBy(drug: AllergyCheckDrug, allergen: string): boolean {
+    const names = this.names(allergen);
+    return this.namesOf(drug).some(name => names.includes(name));
+  }
+
+  // ==================== HELPERS ====================
+
+  /**
+   * Ingredients and classes an allergy covers. The allergen text may itself
+   * name a class ("penicillins"). Drugs it names lend it their classes, and
+   * their ingredients when named in full (by name, generic or brand name), so
+   * an allergy to amoxicillin is not taken for one to the clavulanic acid it
+   * is combined with, while one to Augmentin is.
+   */
+  private profile(allergy: CheckedAllergy, formulary: AllergyCheckDrug[]) {
+    const names = this.names(allergy.allergen);
+    const ingredients = new Set(names);
+    const classes = new Set(names);
+
+    for (const drug of allergy.drug ? [allergy.drug] : formulary) {
+      const named = allergy.drug !== null || this.isNamedBy(drug, allergy.allergen);
+      if (!(named || this.ingredientsOf(drug).some(ingredient => names.includes(ingredient)))) continue;
+
+      if (named) {
+        for (const ingredient of this.ingredientsOf(drug)) ingredients.add(ingredient);
+      }
+      for (const drugClass of drug.drugClasses) classes.add(this.key(drugClass));
+    }
+    return { ingredients, classes };
+  }
+
+  private namesOf(drug: AllergyCheckDrug): string[] {
+    return [drug.name, drug.genericName, ...drug.brandNames]
+      .filter((name): name is string => !!name)
+      .map(name => this.key(name));
+  }
+
+  private ingredientsOf(drug: AllergyCheckDrug): string[] {
+    return drug.ingredients.length ? drug.ingredients.map(i => this.key(i)) : [this.key(drug.name)];
+  }
+
+  private crossSensitivity(allergenClasses: Set<string>, drugClasses: string[]) {
+    for (const group of CROSS_SENSITIVITY_GROUPS) {
+      const groupClasses: readonly string[] = group.classes;
+      const drugClass = drugClasses.find(c => groupClasses.includes(c));
+      if (drugClass && [...allergenClasses].some(c => c !== drugClass && groupClasses.includes(c))) {
+        return { drugClass, note: group.note };
+      }
+    }
+    return null;
+  }
+
+  private alert(
+    allergy: CheckedAllergy,
+    drug: AllergyCheckDrug,
+    kind: AllergyMatchKind,
+    matchedOn: string,
+    detail: string
+  ): AllergyAlert {
+    return {
+      allergyId: allergy.id,
+      allergen: allergy.allergen,
+      drug: { id: drug.id, name: drug.name },
+      kind,
+      matchedOn,
+      action: kind === 'cross-sensitivity' ? 'warn' : 'block',
+      severity: allergy.severity,
+      verificationStatus: allergy.verificationStatus,
+      needsReview: allergy.needsReview,
+      message: `Allergy to ${allergy.allergen}${allergy.reaction ? ` (${allergy.reaction})` : ''}: ${detail}`
+    };
+  }
+}
+
+export const allergyMatcher = new AllergyMatcher();
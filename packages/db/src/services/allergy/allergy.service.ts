@@ -0,0 +1,361 @@
+// src/services/allergy/allergy.service.ts
+import { logger } from '@naroto/logger';
+
+import type { PrismaClient } from '../../../generated/client';
+import { prisma } from '../../client';
+import { NotFoundError, ValidationError } from '../../error';
+import * as allergyRepo from '../../repositories/allergy.repo';
+import * as auditRepo from '../../repositories/audit.repo';
+import type {
+  AllergyCheckInput,
+  CreateAllergyInput,
+  CreateConditionInput,
+  PatientAllergyListInput,
+  PatientConditionListInput,
+  ReviewAllergyInput,
+  ReviewConditionInput,
+  ReviewQueueInput,
+  UpdateAllergyInput,
+  UpdateConditionInput
+} from '../../zodSchemas/allergy.schema';
+import { cacheService } from '../cache.service';
+import { type AllergyAlert, allergyMatcher } from './allergy-check';
+
+/**
+ * Structured allergies and coded conditions, the review queue for entries
+ * taken from free text, and the allergy check run at prescribing.
+ */
+export class AllergyService {
+  constructor(private readonly db: typeof prisma = prisma) {}
+
+  // ==================== ALLERGIES ====================
+
+  async getAllergies(input: PatientAllergyListInput) {
+    const patient = await this.getPatient(input.patientId, input.clinicId);
+    return allergyRepo.findAllergiesByPatient(this.db, patient.id, input.includeInactive);
+  }
+
+  async createAllergy(input: CreateAllergyInput, userId: string) {
+    const { clinicId, patientId, ...data } = input;
+    const patient = await this.getPatient(patientId, clinicId);
+
+    const allergy = await allergyRepo.createAllergy(this.db, {
+      ...data,
+      ...(data.drugId ? { allergenType: 'DRUG' } : {}),
+      clinicId,
+      patientId: patient.id,
+      recordedById: userId
+    });
+
+    await cacheService.invalidatePatientCaches(patient.id, clinicId);
+    return allergy;
+  }
+
+  async updateAllergy(input: UpdateAllergyInput) {
+    const { id, clinicId, ...data } = input;
+    const existing = await this.getAllergy(id, clinicId);
+
+    const allergy = await allergyRepo.updateAllergy(this.db, existing.id, {
+      ...data,
+      ...(data.drugId ? { allergenType: 'DRUG' } : {})
+    });
+
+    await cacheService.invalidatePatientCaches(existing.patientId, clinicId);
+    return allergy;
+  }
+
+  /**
+   * For entries recorded in error; an allergy that no longer applies is
+   * deactivated or refuted instead, so its history is kept
+   */
+  async deleteAllergy(id: string, clinicId: string) {
+    const existing = await this.getAllergy(id, clinicId);
+    await allergyRepo.deleteAllergy(this.db, existing.id);
+    await cacheService.invalidatePatientCaches(existing.patientId, clinicId);
+    return { id };
+  }
+
+  // ==================== CONDITIONS ====================
+
+  async getConditions(input: PatientConditionListInput) {
+    const patient = await this.getPatient(input.patientId, input.clinicId);
+    return allergyRepo.findConditionsByPatient(this.db, patient.id, input.includeResolved);
+  }
+
+  async createCondition(input: CreateConditionInput, userId: string) {
+    const { clinicId, patientId, ...data } = input;
+    const patient = await this.getPatient(patientId, clinicId);
+
+    const condition = await allergyRepo.createCondition(this.db, {
+      ...data,
+      resolvedDate: this.resolvedDate(data.status, data.resolvedDate),
+      clinicId,
+      patientId: patient.id,
+      recordedById: userId
+    });
+
+    await cacheService.invalidatePatientCaches(patient.id, clinicId);
+    return condition;
+  }
+
+  async updateCondition(input: UpdateConditionInput) {
+    const { id, clinicId, ...data } = input;
+    const existing = await this.getCondition(id, clinicId);
+    this.assertConditionDates(data.onsetDate ?? existing.onsetDate, data.resolvedDate ?? existing.resolvedDate);
+
+    const condition = await allergyRepo.updateCondition(this.db, existing.id, {
+      ...data,
+      ...(data.status
+        ? { resolvedDate: this.resolvedDate(data.status, data.resolvedDate ?? existing.resolvedDate) }
+        : {})
+    });
+
+    await cacheService.invalidatePatientCaches(existing.patientId, clinicId);
+    return condition;
+  }
+
+  async deleteCondition(id: string, clinicId: string) {
+    const existing = await this.getCondition(id, clinicId);
+    await allergyRepo.deleteCondition(this.db, existing.id);
+    await cacheService.invalidatePatientCaches(existing.patientId, clinicId);
+    return { id };
+  }
+
+  // ==================== REVIEW QUEUE ====================
+
+  /**
+   * Entries taken from free text that a clinician has yet to confirm,
+   * grouped by patient
+   */
+  async getReviewQueue(input: ReviewQueueInput) {
+    const options = { patientId: input.patientId, limit: input.limit, offset: input.offset };
+    const [allergies, conditions, allergyCount, conditionCount] = await Promise.all([
+      allergyRepo.findAllergiesForReview(this.db, input.clinicId, options),
+      allergyRepo.findConditionsForReview(this.db, input.clinicId, options),
+      allergyRepo.countAllergiesForReview(this.db, input.clinicId, input.patientId),
+      allergyRepo.countConditionsForReview(this.db, input.clinicId, input.patientId)
+    ]);
+
+    return { allergies, conditions, total: { allergies: allergyCount, conditions: conditionCount } };
+  }
+
+  /**
+   * Save the reviewer's corrections and take the allergy out of the queue.
+   * It stays unverified unless the reviewer verifies or refutes it.
+   */
+  async reviewAllergy(input: ReviewAllergyInput, userId: string) {
+    const { id, clinicId, ...data } = input;
+    const existing = await this.getAllergy(id, clinicId);
+    if (!existing.needsReview) {
+      throw new ValidationError('Allergy is not awaiting review', { id });
+    }
+
+    const allergy = await allergyRepo.updateAllergy(this.db, existing.id, {
+      ...data,
+      ...(data.drugId ? { allergenType: 'DRUG' } : {}),
+      needsReview: false,
+      reviewedAt: new Date(),
+      reviewedById: userId
+    });
+
+    await cacheService.invalidatePatientCaches(existing.patientId, clinicId);
+    return allergy;
+  }
+
+  async reviewCondition(input: ReviewConditionInput, userId: string) {
+    const { id, clinicId, ...data } = input;
+    const existing = await this.getCondition(id, clinicId);
+    if (!existing.needsReview) {
+      throw new ValidationError('Condition is not awaiting review', { id });
+    }
+    if (!(data.code ?? existing.code)) {
+      throw new ValidationError('Give the condition a code to complete its review', { id });
+    }
+    this.assertConditionDates(data.onsetDate ?? existing.onsetDate, data.resolvedDate ?? existing.resolvedDate);
+
+    const status = data.status ?? existing.status;
+    const condition = await allergyRepo.updateCondition(this.db, existing.id, {
+      ...data,
+      codeSystem: data.codeSystem ?? existing.codeSystem ?? 'ICD10',
+      resolvedDate: this.resolvedDate(status, data.resolvedDate ?? existing.resolvedDate),
+      needsReview: false,
+      reviewedAt: new Date(),
+      reviewedById: userId
+    });
+
+    await cacheService.invalidatePatientCaches(existing.patientId, clinicId);
+    return condition;
+  }
+
+  /**
+   * Queue free-text allergies and conditions for review, one entry per listed
+   * item, as the migration did for existing patients. Items already on the
+   * patient's record are skipped; allergens naming a formulary drug are
+   * linked to it.
+   */
+  async queueFreeText(
+    db: PrismaClient,
+    patient: { id: string; clinicId: string },
+    text: { allergies?: string | null; medicalConditions?: string | null }
+  ) {
+    const allergens = allergyMatcher.splitFreeText(text.allergies);
+    const conditions = allergyMatcher.splitFreeText(text.medicalConditions);
+    if (!(allergens.length || conditions.length)) return { allergies: 0, conditions: 0 };
+
+    const [recordedAllergies, recordedConditions, drugs] = await Promise.all([
+      allergyRepo.findAllergiesByPatient(db, patient.id, true),
+      allergyRepo.findConditionsByPatient(db, patient.id, true),
+      allergens.length
+        ? allergyRepo.findDrugsNamed(
+            db,
+            allergens.map(a => allergyMatcher.key(a))
+          )
+        : []
+    ]);
+    const knownAllergens = new Set(recordedAllergies.map(a => allergyMatcher.key(a.allergen)));
+    const knownConditions = new Set(recordedConditions.map(c => allergyMatcher.key(c.display)));
+
+    const newAllergens = allergens.filter(a => !knownAllergens.has(allergyMatcher.key(a)));
+    const newConditions = conditions.filter(c => !knownConditions.has(allergyMatcher.key(c)));
+
+    await allergyRepo.createAllergies(
+      db,
+      newAllergens.map(allergen => {
+        const drug = drugs.find(d => allergyMatcher.isNamedBy(d, allergen));
+        return {
+          clinicId: patient.clinicId,
+          patientId: patient.id,
+          allergen,
+          allergenType: drug ? 'DRUG' : 'OTHER',
+          drugId: drug?.id,
+          sourceText: text.allergies,
+          needsReview: true
+        };
+      })
+    );
+    await allergyRepo.createConditions(
+      db,
+      newConditions.map(display => ({
+        clinicId: patient.clinicId,
+        patientId: patient.id,
+        display,
+        sourceText: text.medicalConditions,
+        needsReview: true
+      }))
+    );
+
+    if (newAllergens.length || newConditions.length) {
+      logger.info('Free-text history queued for review', {
+        patientId: patient.id,
+        allergies: newAllergens.length,
+        conditions: newConditions.length
+      });
+    }
+
+    return { allergies: newAllergens.length, conditions: newConditions.length };
+  }
+
+  // ==================== PRESCRIBING CHECK ====================
+
+  /**
+   * Alerts for the drugs against the patient's allergies. Unverified entries,
+   * including those awaiting review, are checked like verified ones.
+   */
+  async check(patientId: string, drugIds: string[]): Promise<AllergyAlert[]> {
+    const allergies = await allergyRepo.findCheckedAllergies(this.db, patientId);
+    if (!allergies.length) return [];
+
+    const textOnly = allergies
+      .filter(allergy => !allergy.drug)
+      .flatMap(allergy => allergyMatcher.names(allergy.allergen));
+    const [drugs, formulary] = await Promise.all([
+      allergyRepo.findAllergyCheckDrugs(this.db, [...new Set(drugIds)]),
+      textOnly.length ? allergyRepo.findDrugsNamed(this.db, [...new Set(textOnly)]) : []
+    ]);
+
+    return drugs.flatMap(drug => allergyMatcher.check(drug, allergies, formulary));
+  }
+
+  async checkForPatient(input: AllergyCheckInput): Promise<AllergyAlert[]> {
+    const patient = await this.getPatient(input.patientId, input.clinicId);
+    return this.check(patient.id, input.drugIds);
+  }
+
+  /**
+   * A drug the patient is allergic to, or one of its class, is not prescribed
+   */
+  isBlocked(alerts: AllergyAlert[]): boolean {
+    return alerts.some(alert => alert.action === 'block');
+  }
+
+  /**
+   * Cross-sensitivities may be prescribed through, with a reason
+   */
+  requiresOverride(alerts: AllergyAlert[]): boolean {
+    return alerts.some(alert => alert.action === 'warn');
+  }
+
+  async recordOverride(
+    db: PrismaClient,
+    override: { alerts: AllergyAlert[]; clinicId: string; prescriptionId: string; reason: string; userId: string }
+  ) {
+    return auditRepo.createAuditLog(db, {
+      userId: override.userId,
+      clinicId: override.clinicId,
+      action: 'ALLERGY_OVERRIDE',
+      level: 'warn',
+      model: 'Prescription',
+      resource: 'prescription',
+      resourceId: override.prescriptionId,
+      recordId: override.prescriptionId,
+      message: `Prescribed despite ${override.alerts.length} allergy cross-sensitivity warning(s)`,
+      details: override.reason,
+      metadata: override.alerts.map(alert => ({
+        allergyId: alert.allergyId,
+        allergen: alert.allergen,
+        drug: alert.drug.name,
+        matchedOn: alert.matchedOn
+      }))
+    });
+  }
+
+  // ==================== HELPERS ====================
+
+  private async getPatient(patientId: string, clinicId: string) {
+    const patient = await allergyRepo.findAllergyPatient(this.db, patientId, clinicId);
+    if (!patient) {
+      throw new NotFoundError('Patient', patientId);
+    }
+    return patient;
+  }
+
+  private async getAllergy(id: string, clinicId: string) {
+    const allergy = await allergyRepo.findAllergyById(this.db, id, clinicId);
+    if (!allergy) {
+      throw new NotFoundError('Allergy', id);
+    }
+    return allergy;
+  }
+
+  private async getCondition(id: string, clinicId: string) {
+    const condition = await allergyRepo.findConditionById(this.db, id, clinicId);
+    if (!condition) {
+      throw new NotFoundError('Condition', id);
+    }
+    return condition;
+  }
+
+  /** A resolved condition without a resolution date is taken to have resolved today */
+  private resolvedDate(status: string | undefined, resolvedDate: Date | null | undefined) {
+    if (status === 'ACTIVE') return null;
+    return status === 'RESOLVED' ? (resolvedDate ?? new Date()) : resolvedDate;
+  }
+
+  private assertConditionDates(onsetDate: Date | null | undefined, resolvedDate: Date | null | undefined) {
+    if (onsetDate && resolvedDate && onsetDate > resolvedDate) {
+      throw new ValidationError('Resolved date must be after onset date');
+    }
+  }
+}
+
+export const allergyService = new AllergyService();
@@ -13,21 +13,27 @@ import { randomUUID } from 'node:crypto';
 import { logger } from '@naroto/logger';
 import redis from '@naroto/redis';
 import { CACHE_KEYS, CACHE_TTL } from '@naroto/redis/cache-keys';
-import { isBefore, setHours, setMinutes, setSeconds } from 'date-fns';
-import { toZonedTime } from 'date-fns-tz';
+import { isBefore } from 'date-fns';
 import { z } from 'zod';
 
 import type { AppointmentStatus, Prisma, PrismaClient } from '../../generated/client';
 import { prisma } from '../client';
 import { AppError, ConflictError, NotFoundError, ValidationError } from '../error';
 import * as appointmentRepo from '../repositories/appointment.repo';
+import * as clinicRepo from '../repositories/clinic.repo';
 import * as doctorRepo from '../repositories/doctor.repo';
 import * as patientRepo from '../repositories/patient.repo';
-import { generateTimeSlots } from '../utils/time';
+import { type DateKey, zonedCalendar } from '../utils/date/timezone';
 import {
   AppointmentCreateSchema,
   type AppointmentFilter,
   AppointmentFilterSchema,
+  type AppointmentSeriesCancelInput,
+  AppointmentSeriesCancelSchema,
+  type AppointmentSeriesCreateInput,
+  AppointmentSeriesCreateSchema,
+  type AppointmentSeriesUpdateInput,
+  AppointmentSeriesUpdateSchema,
   AppointmentUpdateSchema,
   AppointmentUpdateStatusSchema,
   type CreateAppointmentInput,
@@ -35,9 +41,14 @@ import {
   type UpdateAppointmentInput,
   type UpdateAppointmentStatusInput
 } from '../zodSchemas/appointment.schema';
+import { expandOccurrences, toRRule } from './appointment/recurrence';
+import { doctorSchedule, timeToMinutes } from './appointment/schedule';
+import { waitlistService } from './appointment/waitlist';
 import { cacheService } from './cache.service';
+import { reminderService } from './reminder/reminder.service';
 
-const TIMEZONE = 'Africa/Cairo';
+// Used when the clinic has no settings row
+const DEFAULT_APPOINTMENT_DURATION = 30;
 
 // ==================== TYPE DEFINITIONS ====================
 
@@ -55,11 +66,55 @@ export interface DoctorSchedule {
   workingDays?: Array<{ day: string; startTime: string; endTime: string }>;
 }
 
+export interface SlotOptions {
+  /** Minutes; defaults to the service length, then the clinic's default appointment duration */
+  duration?: number;
+  /** Ignore this booking when checking overlaps, e.g. when rescheduling it */
+  excludeAppointmentId?: string;
+  serviceId?: string;
+}
+
+interface BookedInterval {
+  end: number;
+  id: string;
+  start: number;
+}
+
+interface BookingContext {
+  /** Requested length in minutes */
+  duration: number;
+  /** Slot grid step in minutes, also the fallback length of older bookings */
+  step: number;
+  timeZone: string;
+}
+
+export type BookingProblem = 'PAST' | 'OUTSIDE_HOURS' | 'OVERLAP';
+
+/**
+ * A booking (usually one occurrence of a series) that cannot be made as requested
+ */
+export interface OccurrenceConflict {
+  /** Set when an existing occurrence was being moved */
+  appointmentId?: string;
+  conflictingAppointmentIds: string[];
+  date: DateKey;
+  occurrence: number;
+  problem: BookingProblem;
+  time: string;
+}
+
+interface OccurrenceCandidate {
+  appointmentId?: string;
+  date: DateKey;
+  duration: number;
+  occurrence: number;
+  time: string;
+}
+
 // ==================== SERVICE CLASS ====================
 
 export class AppointmentService {
   private readonly CACHE_ENABLED = process.env.CACHE_ENABLED === 'true';
-  private readonly DAYS_OF_WEEK = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
 
   constructor(private readonly db: typeof prisma = prisma) {}
 
@@ -149,12 +204,10 @@ export class AppointmentService {
         const cached = await cacheService.get(cacheKey);
         if (cached) return cached;
       }
-      const today = new Date();
-      today.setHours(0, 0, 0, 0);
-      const tomorrow = new Date(today);
-      tomorrow.setDate(today.getDate() + 1);
+      const timeZone = await this.clinicTimeZone(validatedClinicId);
+      const today = zonedCalendar.dayRange(zonedCalendar.today(timeZone), timeZone);
 
-      const appointments = await appointmentRepo.findTodaySchedule(this.db, validatedClinicId, today);
+      const appointments = await appointmentRepo.findTodaySchedule(this.db, validatedClinicId, today.start, today.end);
 
       if (this.CACHE_ENABLED) {
         await cacheService.set(cacheKey, appointments, CACHE_TTL.APPOINTMENT);
@@ -186,11 +239,13 @@ export class AppointmentService {
         if (cached) return cached;
       }
 
-      const startDate = new Date(validatedYear, validatedMonth, 1);
-      const endDate = new Date(validatedYear, validatedMonth + 1, 0);
-      endDate.setHours(23, 59, 59, 999);
+      // First and last day of the month in the clinic's timezone
+      const timeZone = await this.clinicTimeZone(validatedClinicId);
+      const firstDay = zonedCalendar.fromDateOnly(new Date(Date.UTC(validatedYear, validatedMonth, 1)));
+      const lastDay = zonedCalendar.fromDateOnly(new Date(Date.UTC(validatedYear, validatedMonth + 1, 0)));
+      const month = zonedCalendar.daysRange(firstDay, lastDay, timeZone);
 
-      const appointments = await appointmentRepo.findForMonth(this.db, validatedClinicId, startDate, endDate);
+      const appointments = await appointmentRepo.findForMonth(this.db, validatedClinicId, month.start, month.end);
 
       if (this.CACHE_ENABLED) {
         await cacheService.set(cacheKey, appointments, CACHE_TTL.APPOINTMENT);
@@ -253,16 +308,14 @@ export class AppointmentService {
 
       if (date) {
         const validatedDate = z.date().parse(date);
-        const startOfDay = new Date(validatedDate);
-        startOfDay.setHours(0, 0, 0, 0);
-        const endOfDay = new Date(validatedDate);
-        endOfDay.setHours(23, 59, 59, 999);
+        const timeZone = await this.clinicTimeZone(clinicId);
+        const day = zonedCalendar.dayRange(zonedCalendar.dateKey(validatedDate, timeZone), timeZone);
 
         return await appointmentRepo.findAppointmentsByDoctor(this.db, {
           doctorId: validatedDoctorId,
           clinicId,
-          fromDate: startOfDay,
-          toDate: endOfDay
+          fromDate: day.start,
+          toDate: day.end
         });
       }
 
@@ -297,9 +350,11 @@ export class AppointmentService {
         if (cached) return cached as AppointmentStats;
       }
 
+      const timeZone = await this.clinicTimeZone(validatedClinicId);
       const statsData = await appointmentRepo.getAppointmentStats(this.db, validatedClinicId, {
         fromDate,
-        toDate
+        toDate,
+        today: zonedCalendar.dayRange(zonedCalendar.today(timeZone), timeZone)
       });
 
       const byStatus = statsData.byStatus.reduce(
@@ -335,60 +390,53 @@ export class AppointmentService {
   // ==================== AVAILABLE TIMES BUSINESS LOGIC ====================
 
   /**
-   * Get available time slots for a doctor on a specific date
+   * Get available time slots for a doctor on a specific date. Slots sit on the
+   * clinic's default-duration grid; a slot is free when the requested length fits
+   * inside a working window and overlaps no existing booking.
    */
-  async getAvailableTimes(doctorId: string, date: Date): Promise<TimeSlot[]> {
+  async getAvailableTimes(doctorId: string, date: Date, options: SlotOptions = {}): Promise<TimeSlot[]> {
     const validatedDoctorId = z.uuid().parse(doctorId);
     const validatedDate = z.date().parse(date);
 
     try {
-      // 1. Get doctor schedule
-      const doctor = await doctorRepo.findDoctorWithSchedule(this.db, validatedDoctorId);
+      // 1. Resolve the doctor's working windows (weekly template, breaks, exceptions)
+      const schedule = await doctorSchedule.getDaySchedule(validatedDoctorId, validatedDate);
 
-      if (!doctor) {
-        throw new NotFoundError('Doctor', validatedDoctorId);
-      }
-
-      // 2. Check if doctor is available on this day
-      const dayOfWeek = validatedDate.getDay();
-      const dayName = this.DAYS_OF_WEEK[dayOfWeek];
-
-      const isWorkingDay = doctor.workingDays?.some(wd => wd.day.toLowerCase() === dayName) ?? false;
-
-      if (!isWorkingDay) {
+      // 2. Not working on this date (day off, leave, holiday)
+      if (!schedule.windows.length) {
         return [];
       }
 
-      // 3. Get working hours for this day
-      const workingDay = doctor.workingDays?.find(wd => wd.day.toLowerCase() === dayName);
-      const fromTime = workingDay?.startTime || doctor.availableFromTime || '09:00';
-      const toTime = workingDay?.endTime || doctor.availableToTime || '17:00';
-
-      // 4. Get already booked times
-      const bookedAppointments = await appointmentRepo.findBookedTimes(this.db, validatedDoctorId, validatedDate);
-      const bookedTimes = new Set(bookedAppointments.map(a => a.time).filter((time): time is string => time !== null));
+      // 3. Requested length: explicit, else the service length, else the clinic default
+      const { duration, step, timeZone } = await this.resolveBookingContext(
+        this.db,
+        validatedDoctorId,
+        options.serviceId,
+        options.duration
+      );
 
-      // 5. Generate all time slots
-      const allSlots = generateTimeSlots();
+      // 4. Existing bookings as minute intervals
+      const booked = await this.findBookedIntervals(
+        this.db,
+        validatedDoctorId,
+        schedule.date,
+        timeZone,
+        step,
+        options.excludeAppointmentId
+      );
 
-      // 6. Filter slots within working hours
-      const validSlots = allSlots.filter(time => time >= fromTime && time <= toTime);
+      // 5. Slots whose whole duration fits inside the working windows
+      const validSlots = doctorSchedule.slotStarts(schedule.windows, step, duration);
 
-      // 7. Check availability and add real-time constraints
+      // 6. Check availability and drop slots that have already started
       const now = new Date();
-      const isToday = validatedDate.toDateString() === now.toDateString();
 
       return validSlots.map(time => {
-        let available = !bookedTimes.has(time);
-
-        if (isToday && available) {
-          const [hours, minutes] = time.split(':').map(Number);
-          const slotTime = new Date(validatedDate);
-          slotTime.setHours(hours ?? 0, minutes, 0, 0);
+        const start = timeToMinutes(time);
+        let available = !this.overlapping(booked, start, start + duration).length;
 
-          if (isBefore(slotTime, now)) {
-            available = false;
-          }
+        if (available && isBefore(doctorSchedule.slotInstant(schedule, time), now)) {
+          available = false;
         }
 
         return {
@@ -419,7 +467,10 @@ export class AppointmentService {
     return this.db
       .$transaction(async (tx: Prisma.TransactionClient) => {
         try {
-          // 1. Verify patient exists
+          // 1. Serialize bookings for this doctor until the transaction ends
+          await appointmentRepo.lockDoctorSchedule(tx, validated.doctorId);
+
+          // 2. Verify patient exists
           const patient = await patientRepo.getPatientById(
             tx as unknown as PrismaClient,
             validated.patientId,
@@ -429,37 +480,25 @@ export class AppointmentService {
             throw new NotFoundError('Patient', validated.patientId);
           }
 
-          // 2. Verify doctor exists
+          // 3. Verify doctor exists
           const doctor = await doctorRepo.findDoctorById(tx as unknown as PrismaClient, validated.doctorId, clinicId);
           if (!doctor) {
             throw new NotFoundError('Doctor', validated.doctorId);
           }
 
-          // 3. Check if time is available
-          const availableTimes = await this.getAvailableTimes(validated.doctorId, validated.appointmentDate);
-
-          const isSlotAvailable = availableTimes.some(slot => slot.value === validated.time && slot.available);
-
-          if (!isSlotAvailable) {
-            throw new ValidationError('Selected time is not available');
-          }
-
-          // 4. Check for overlapping appointments
-          const appointmentDateTime = this.buildAppointmentDateTime(validated.appointmentDate, validated.time || '');
-
-          const isOverlapping = await appointmentRepo.checkAppointmentOverlap(
-            tx as unknown as PrismaClient,
+          // 4. Check working hours and overlap with existing bookings, in the clinic's timezone
+          const { duration, step, timeZone } = await this.resolveBookingContext(
+            tx,
             validated.doctorId,
-            validated.clinicId,
-            validated.appointmentDate,
-            validated.time ?? '00:00',
+            validated.serviceId,
             validated.duration
           );
-          if (isOverlapping) {
-            throw new ConflictError('This time slot overlaps with another appointment');
-          }
+          const day = zonedCalendar.dateKey(validated.appointmentDate, timeZone);
+          const time = validated.time ?? zonedCalendar.timeOf(validated.appointmentDate, timeZone);
+          await this.assertBookable(tx, validated.doctorId, day, time, timeZone, duration, step);
 
-          // 5. Create appointment
+          // 5. Create appointment, stored as the UTC instant of the local start
+          const appointmentDateTime = zonedCalendar.at(day, time, timeZone);
           const now = new Date();
           const appointment = await appointmentRepo.createAppointment(tx as unknown as PrismaClient, {
             id: randomUUID(),
@@ -468,7 +507,8 @@ export class AppointmentService {
             doctorId: validated.doctorId,
             serviceId: validated.serviceId,
             appointmentDate: appointmentDateTime,
-            time: validated.time,
+            time,
+            duration,
             type: validated.type,
             status: 'SCHEDULED',
             appointmentPrice: validated.appointmentPrice,
@@ -496,6 +536,10 @@ export class AppointmentService {
           appointmentDate: validated.appointmentDate
         });
 
+        if (validated.createReminder !== false) {
+          await reminderService.syncAppointmentReminders(appointment.id);
+        }
+
         return appointment;
       });
   }
@@ -521,41 +565,49 @@ export class AppointmentService {
             throw new NotFoundError('Appointment', validated.id);
           }
 
-          // If changing doctor or time, check availability
-          if (validated.doctorId || validated.appointmentDate || validated.time) {
+          // If changing doctor, time or length, re-check working hours and overlaps
+          let duration = validated.duration;
+          let appointmentDateTime: Date | undefined;
+          if (
+            validated.doctorId ||
+            validated.appointmentDate ||
+            validated.time ||
+            validated.duration ||
+            validated.serviceId
+          ) {
             const doctorId = validated.doctorId || existing.doctorId;
-            const appointmentDate = validated.appointmentDate || existing.appointmentDate;
-            const time = validated.time || existing.time;
 
-            if (time) {
-              const availableTimes = await this.getAvailableTimes(doctorId, appointmentDate);
+            await appointmentRepo.lockDoctorSchedule(tx, doctorId);
 
-              const isSlotAvailable = availableTimes.some(slot => slot.value === time && slot.available);
-
-              if (!isSlotAvailable && doctorId === existing.doctorId) {
-                throw new ValidationError('Selected time is not available');
-              }
-            }
-
-            // Check for overlaps if date/time changed
-            if (validated.appointmentDate || validated.time || validated.doctorId) {
-              // appointmentDateTime is not needed here (overlap check uses discrete fields)
-              // determine numeric duration using validated value or existing record (default 0)
-              const durationToCheck = validated.duration ?? existing.duration ?? 0;
-
-              const isOverlapping = await appointmentRepo.checkAppointmentOverlap(
-                tx as unknown as PrismaClient,
-                doctorId,
-                clinicId,
-                validated.appointmentDate || existing.appointmentDate,
-                validated.time || existing.time || '',
-                durationToCheck
-              );
-
-              if (isOverlapping) {
-                throw new ConflictError('This time slot overlaps with another appointment');
-              }
-            }
+            // A new service brings its own length unless one is given explicitly
+            const resolved = await this.resolveBookingContext(
+              tx,
+              doctorId,
+              validated.serviceId ?? existing.serviceId ?? undefined,
+              validated.duration ?? (validated.serviceId ? undefined : (existing.duration ?? undefined))
+            );
+            duration = resolved.duration;
+
+            const day = validated.appointmentDate
+              ? zonedCalendar.dateKey(validated.appointmentDate, resolved.timeZone)
+              : zonedCalendar.dateKey(existing.appointmentDate, resolved.timeZone);
+            const time =
+              validated.time ||
+              (validated.appointmentDate
+                ? zonedCalendar.timeOf(validated.appointmentDate, resolved.timeZone)
+                : existing.time || zonedCalendar.timeOf(existing.appointmentDate, resolved.timeZone));
+
+            await this.assertBookable(
+              tx,
+              doctorId,
+              day,
+              time,
+              resolved.timeZone,
+              duration,
+              resolved.step,
+              validated.id
+            );
+            appointmentDateTime = zonedCalendar.at(day, time, resolved.timeZone);
           }
 
           const now = new Date();
@@ -565,6 +617,8 @@ export class AppointmentService {
             clinicId,
             {
               ...validated,
+              ...(appointmentDateTime && { appointmentDate: appointmentDateTime }),
+              duration,
               updatedAt: now
             }
           );
@@ -588,6 +642,9 @@ export class AppointmentService {
           });
         }
 
+        // Reminders follow the booking to its new time, or stop if it was cancelled
+        await reminderService.syncAppointmentReminders(validated.id);
+
         return updated;
       });
   }
@@ -644,6 +701,8 @@ export class AppointmentService {
           });
         }
 
+        await reminderService.syncAppointmentReminders(validated.id);
+
         return { success: true, data: updated, error: null };
       });
   }
@@ -813,6 +872,20 @@ export class AppointmentService {
       }
 
       logger.info('Appointment cancelled', { appointmentId: id, userId, reason });
+
+      await reminderService.cancelAppointmentReminders(id);
+
+      // Hand the freed time to the waitlist
+      await waitlistService.offerFreedSlot({
+        appointmentId: id,
+        doctorId: existing.doctorId,
+        patientId: existing.patientId,
+        serviceId: existing.serviceId,
+        appointmentDate: existing.appointmentDate,
+        time: existing.time,
+        duration: existing.duration
+      });
+
       return appointment;
     } catch (error) {
       if (error instanceof NotFoundError) throw error;
@@ -899,6 +972,402 @@ export class AppointmentService {
       });
     }
   }
+
+  // ==================== RECURRING SERIES ====================
+
+  /**
+   * Get a series with its occurrences
+   */
+  async getSeries(seriesId: string, clinicId: string) {
+    const validatedId = z.uuid().parse(seriesId);
+
+    const series = await appointmentRepo.findAppointmentSeriesById(this.db, validatedId, clinicId);
+    if (!series) {
+      throw new NotFoundError('Appointment series', validatedId);
+    }
+
+    return {
+      ...series,
+      rrule: toRRule({
+        frequency: series.frequency,
+        interval: series.interval,
+        count: series.count,
+        until: series.until ? zonedCalendar.fromDateOnly(series.until) : undefined
+      })
+    };
+  }
+
+  /**
+   * Expand a recurrence rule and report, per occurrence, whether it can be booked
+   */
+  async previewSeries(input: AppointmentSeriesCreateInput, clinicId: string) {
+    const validated = AppointmentSeriesCreateSchema.parse(input);
+
+    const doctor = await doctorRepo.findDoctorById(this.db, validated.doctorId, clinicId);
+    if (!doctor) {
+      throw new NotFoundError('Doctor', validated.doctorId);
+    }
+
+    const context = await this.resolveBookingContext(
+      this.db,
+      validated.doctorId,
+      validated.serviceId,
+      validated.duration
+    );
+    const candidates = this.seriesCandidates(validated, context);
+    const conflicts = await this.findOccurrenceConflicts(this.db, validated.doctorId, candidates, context);
+
+    return candidates.map(candidate => {
+      const conflict = conflicts.find(c => c.occurrence === candidate.occurrence);
+      return {
+        ...candidate,
+        startsAt: zonedCalendar.at(candidate.date, candidate.time, context.timeZone),
+        available: !conflict,
+        conflict
+      };
+    });
+  }
+
+  /**
+   * Book a recurring series. Every occurrence is checked against the doctor's
+   * availability; unless `skipConflicts` is set, any conflict rejects the whole
+   * series with the per-occurrence conflicts in the error details.
+   */
+  async createSeries(input: AppointmentSeriesCreateInput, clinicId: string) {
+    const validated = AppointmentSeriesCreateSchema.parse(input);
+
+    return this.db
+      .$transaction(async (tx: Prisma.TransactionClient) => {
+        try {
+          await appointmentRepo.lockDoctorSchedule(tx, validated.doctorId);
+
+          const patient = await patientRepo.getPatientById(
+            tx as unknown as PrismaClient,
+            validated.patientId,
+            clinicId
+          );
+          if (!patient) {
+            throw new NotFoundError('Patient', validated.patientId);
+          }
+
+          const doctor = await doctorRepo.findDoctorById(tx as unknown as PrismaClient, validated.doctorId, clinicId);
+          if (!doctor) {
+            throw new NotFoundError('Doctor', validated.doctorId);
+          }
+
+          const context = await this.resolveBookingContext(
+            tx,
+            validated.doctorId,
+            validated.serviceId,
+            validated.duration
+          );
+          const candidates = this.seriesCandidates(validated, context);
+          if (!candidates.length) {
+            throw new ValidationError('The recurrence rule produces no occurrences');
+          }
+
+          const conflicts = await this.findOccurrenceConflicts(tx, validated.doctorId, candidates, context);
+          if (conflicts.length && (!validated.skipConflicts || conflicts.length === candidates.length)) {
+            throw new ConflictError('Some occurrences of the series cannot be booked', { conflicts });
+          }
+
+          const startDate = candidates[0]?.date ?? zonedCalendar.dateKey(validated.startDate, context.timeZone);
+          const series = await appointmentRepo.createAppointmentSeries(tx, {
+            clinicId: patient.clinicId,
+            patientId: validated.patientId,
+            doctorId: validated.doctorId,
+            serviceId: validated.serviceId,
+            type: validated.type,
+            frequency: validated.frequency,
+            interval: validated.interval,
+            startDate: zonedCalendar.keyToUtc(startDate),
+            until: validated.until
+              ? zonedCalendar.keyToUtc(zonedCalendar.dateKey(validated.until, context.timeZone))
+              : undefined,
+            count: validated.count,
+            time: validated.time,
+            duration: context.duration,
+            appointmentPrice: validated.appointmentPrice,
+            note: validated.note
+          });
+
+          const now = new Date();
+          const skipped = conflicts.map(c => c.occurrence);
+          const appointments = await appointmentRepo.createSeriesAppointments(
+            tx,
+            candidates
+              .filter(c => !skipped.includes(c.occurrence))
+              .map(c => ({
+                id: randomUUID(),
+                clinicId: patient.clinicId,
+                patientId: validated.patientId,
+                doctorId: validated.doctorId,
+                serviceId: validated.serviceId,
+                seriesId: series.id,
+                occurrence: c.occurrence,
+                appointmentDate: zonedCalendar.at(c.date, c.time, context.timeZone),
+                time: c.time,
+                duration: c.duration,
+                type: validated.type,
+                status: 'SCHEDULED',
+                appointmentPrice: validated.appointmentPrice,
+                note: validated.note,
+                createdAt: now,
+                updatedAt: now
+              }))
+          );
+
+          logger.info('Appointment series created', {
+            seriesId: series.id,
+            patientId: validated.patientId,
+            doctorId: validated.doctorId,
+            occurrences: appointments.length,
+            skipped: conflicts.length
+          });
+
+          return { series, appointments, skipped: conflicts };
+        } catch (error) {
+          logger.error('Failed to create appointment series', { error, input: validated });
+          throw error;
+        }
+      })
+      .then(async result => {
+        await this.invalidateAppointmentCaches(clinicId, {
+          patientId: validated.patientId,
+          doctorId: validated.doctorId,
+          appointmentDate: validated.startDate
+        });
+
+        for (const appointment of result.appointments) {
+          await reminderService.syncAppointmentReminders(appointment.id);
+        }
+
+        return result;
+      });
+  }
+
+  /**
+   * Edit one occurrence, it and every later one, or every open occurrence of
+   * its series. Changing "this and following" splits the series so earlier
+   * occurrences keep the original rule. All moved occurrences are checked
+   * together; any conflict rejects the edit.
+   */
+  async updateSeries(input: AppointmentSeriesUpdateInput, clinicId: string) {
+    const validated = AppointmentSeriesUpdateSchema.parse(input);
+
+    const existing = await appointmentRepo.findAppointmentById(this.db, validated.appointmentId, clinicId);
+    if (!existing) {
+      throw new NotFoundError('Appointment', validated.appointmentId);
+    }
+
+    if (validated.scope === 'OCCURRENCE' || !existing.seriesId) {
+      return this.updateAppointment(
+        {
+          id: existing.id,
+          type: existing.type,
+          doctorId: validated.doctorId,
+          serviceId: validated.serviceId,
+          appointmentDate: validated.appointmentDate,
+          time: validated.time,
+          duration: validated.duration,
+          appointmentPrice: validated.appointmentPrice,
+          note: validated.note
+        },
+        clinicId
+      );
+    }
+
+    if (validated.appointmentDate) {
+      throw new ValidationError('Only a single occurrence can be moved to another date');
+    }
+
+    const seriesId = existing.seriesId;
+
+    const result = await this.db.$transaction(async (tx: Prisma.TransactionClient) => {
+      const series = await appointmentRepo.findAppointmentSeriesById(tx, seriesId, clinicId);
+      if (!series) {
+        throw new NotFoundError('Appointment series', seriesId);
+      }
+
+      const doctorId = validated.doctorId ?? series.doctorId;
+      const serviceId = validated.serviceId ?? series.serviceId ?? undefined;
+      await appointmentRepo.lockDoctorSchedule(tx, doctorId);
+
+      // A new service brings its own length unless one is given explicitly
+      const lengthChanged = validated.duration !== undefined || validated.serviceId !== undefined;
+      const context = await this.resolveBookingContext(
+        tx,
+        doctorId,
+        serviceId,
+        validated.duration ?? (validated.serviceId ? undefined : (series.duration ?? undefined))
+      );
+
+      const from = validated.scope === 'FOLLOWING' ? existing.appointmentDate : new Date();
+      const targets = await appointmentRepo.findOpenSeriesOccurrences(tx, seriesId, from);
+
+      const candidates = targets.map<OccurrenceCandidate>((t, i) => ({
+        appointmentId: t.id,
+        date: zonedCalendar.dateKey(t.appointmentDate, context.timeZone),
+        time: validated.time ?? t.time ?? zonedCalendar.timeOf(t.appointmentDate, context.timeZone),
+        duration: lengthChanged ? context.duration : (t.duration ?? context.duration),
+        occurrence: t.occurrence ?? i + 1
+      }));
+
+      const conflicts = await this.findOccurrenceConflicts(
+        tx,
+        doctorId,
+        candidates,
+        context,
+        targets.map(t => t.id)
+      );
+      if (conflicts.length) {
+        throw new ConflictError('Some occurrences of the series cannot be moved', { conflicts });
+      }
+
+      const template = {
+        doctorId,
+        serviceId,
+        time: validated.time ?? series.time,
+        duration: lengthChanged ? context.duration : series.duration,
+        appointmentPrice: validated.appointmentPrice ?? series.appointmentPrice,
+        note: validated.note ?? series.note
+      };
+
+      // "This and following" from a later occurrence: end the original series
+      // the day before and carry on with a new one from this occurrence
+      let targetSeriesId = seriesId;
+      const first = candidates[0];
+      const splitAt = existing.occurrence ?? 1;
+      const hasEarlier = series.appointments.some(a => a.appointmentDate < existing.appointmentDate);
+      if (validated.scope === 'FOLLOWING' && first && hasEarlier) {
+        await appointmentRepo.updateAppointmentSeries(tx, seriesId, {
+          until: zonedCalendar.keyToUtc(zonedCalendar.addDays(first.date, -1)),
+          count: series.count ? splitAt - 1 : null
+        });
+        const next = await appointmentRepo.createAppointmentSeries(tx, {
+          clinicId: series.clinicId,
+          patientId: series.patientId,
+          type: series.type,
+          frequency: series.frequency,
+          interval: series.interval,
+          startDate: zonedCalendar.keyToUtc(first.date),
+          until: series.until,
+          count: series.count ? series.count - (splitAt - 1) : null,
+          ...template
+        });
+        targetSeriesId = next.id;
+      } else {
+        await appointmentRepo.updateAppointmentSeries(tx, seriesId, template);
+      }
+
+      const now = new Date();
+      for (const [i, candidate] of candidates.entries()) {
+        await appointmentRepo.updateAppointment(
+          tx as unknown as PrismaClient,
+          candidate.appointmentId ?? '',
+          clinicId,
+          {
+            doctorId,
+            serviceId: serviceId ?? null,
+            appointmentDate: zonedCalendar.at(candidate.date, candidate.time, context.timeZone),
+            time: candidate.time,
+            duration: candidate.duration,
+            ...(validated.appointmentPrice !== undefined && { appointmentPrice: validated.appointmentPrice }),
+            ...(validated.note !== undefined && { note: validated.note }),
+            ...(targetSeriesId !== seriesId && { seriesId: targetSeriesId, occurrence: i + 1 }),
+            updatedAt: now
+          }
+        );
+      }
+
+      logger.info('Appointment series updated', {
+        seriesId: targetSeriesId,
+        scope: validated.scope,
+        occurrences: candidates.length
+      });
+
+      return { seriesId: targetSeriesId, updated: candidates.length, movedIds: targets.map(t => t.id) };
+    });
+
+    await this.invalidateAppointmentCaches(clinicId, {
+      patientId: existing.patientId,
+      doctorId: existing.doctorId,
+      appointmentDate: existing.appointmentDate
+    });
+
+    for (const appointmentId of result.movedIds) {
+      await reminderService.syncAppointmentReminders(appointmentId);
+    }
+
+    return { seriesId: result.seriesId, updated: result.updated };
+  }
+
+  /**
+   * Cancel one occurrence, it and every later one (ending the series there),
+   * or every open occurrence of its series. Past and completed occurrences are
+   * left as they are.
+   */
+  async cancelSeries(input: AppointmentSeriesCancelInput, userId: string, clinicId: string) {
+    const validated = AppointmentSeriesCancelSchema.parse(input);
+
+    const existing = await appointmentRepo.findAppointmentById(this.db, validated.appointmentId, clinicId);
+    if (!existing) {
+      throw new NotFoundError('Appointment', validated.appointmentId);
+    }
+
+    if (validated.scope === 'OCCURRENCE' || !existing.seriesId) {
+      await this.cancelAppointment(existing.id, userId, clinicId, validated.reason);
+      return { seriesId: existing.seriesId, cancelled: 1 };
+    }
+
+    const seriesId = existing.seriesId;
+
+    const result = await this.db.$transaction(async (tx: Prisma.TransactionClient) => {
+      const series = await appointmentRepo.findAppointmentSeriesById(tx, seriesId, clinicId);
+      if (!series) {
+        throw new NotFoundError('Appointment series', seriesId);
+      }
+
+      const from = validated.scope === 'FOLLOWING' ? existing.appointmentDate : new Date();
+      const targets = await appointmentRepo.findOpenSeriesOccurrences(tx, seriesId, from);
+      const { count } = await appointmentRepo.cancelAppointmentsByIds(
+        tx,
+        targets.map(t => t.id),
+        clinicId,
+        validated.reason
+      );
+
+      // Cancelling from the first occurrence onwards leaves nothing of the series
+      const hasEarlier = series.appointments.some(a => a.appointmentDate < existing.appointmentDate);
+      if (validated.scope === 'SERIES' || !hasEarlier) {
+        await appointmentRepo.updateAppointmentSeries(tx, seriesId, { status: 'CANCELLED' });
+      } else {
+        const timeZone = await this.clinicTimeZone(clinicId);
+        const lastDay = zonedCalendar.addDays(zonedCalendar.dateKey(existing.appointmentDate, timeZone), -1);
+        await appointmentRepo.updateAppointmentSeries(tx, seriesId, {
+          until: zonedCalendar.keyToUtc(lastDay),
+          count: series.count && existing.occurrence ? existing.occurrence - 1 : series.count
+        });
+      }
+
+      logger.info('Appointment series cancelled', { seriesId, scope: validated.scope, cancelled: count, userId });
+
+      return { seriesId, cancelled: count, cancelledIds: targets.map(t => t.id) };
+    });
+
+    await this.invalidateAppointmentCaches(clinicId, {
+      patientId: existing.patientId,
+      doctorId: existing.doctorId,
+      appointmentDate: existing.appointmentDate
+    });
+
+    for (const appointmentId of result.cancelledIds) {
+      await reminderService.cancelAppointmentReminders(appointmentId);
+    }
+
+    return { seriesId: result.seriesId, cancelled: result.cancelled };
+  }
+
   private async invalidateAppointmentCaches(
     clinicId: string,
     options?: {
@@ -947,12 +1416,182 @@ export class AppointmentService {
   // ==================== UTILITIES ====================
 
   /**
-   * Build appointment date time from date and time string
+   * Occurrence dates and times of a new series, in the clinic's timezone
+   */
+  private seriesCandidates(
+    input: Pick<
+      z.infer<typeof AppointmentSeriesCreateSchema>,
+      'count' | 'frequency' | 'interval' | 'startDate' | 'time' | 'until'
+    >,
+    context: BookingContext
+  ): OccurrenceCandidate[] {
+    return expandOccurrences({
+      frequency: input.frequency,
+      interval: input.interval,
+      count: input.count,
+      startDate: zonedCalendar.dateKey(input.startDate, context.timeZone),
+      until: input.until ? zonedCalendar.dateKey(input.until, context.timeZone) : undefined
+    }).map(o => ({ date: o.date, occurrence: o.index, time: input.time, duration: context.duration }));
+  }
+
+  /**
+   * The clinic's IANA timezone, UTC when unset
+   */
+  private async clinicTimeZone(clinicId: string): Promise<string> {
+    const clinic = await clinicRepo.findClinicTimezone(this.db, clinicId);
+    return zonedCalendar.resolve(clinic?.timezone);
+  }
+
+  /**
+   * Length of a booking and the slot grid step, both in minutes, and the
+   * clinic timezone the booking's wall-clock times are read in
+   */
+  private async resolveBookingContext(
+    db: PrismaClient | Prisma.TransactionClient,
+    doctorId: string,
+    serviceId?: string,
+    duration?: number
+  ): Promise<BookingContext> {
+    const settings = await appointmentRepo.findDoctorBookingSettings(db, doctorId);
+    if (!settings) {
+      throw new NotFoundError('Doctor', doctorId);
+    }
+
+    const step = settings.clinic?.clinicSettings[0]?.defaultAppointmentDuration ?? DEFAULT_APPOINTMENT_DURATION;
+    const timeZone = zonedCalendar.resolve(settings.clinic?.timezone);
+    if (duration) return { duration, step, timeZone };
+
+    const service = serviceId ? await appointmentRepo.findServiceDuration(db, serviceId) : null;
+    return { duration: service?.duration ?? step, step, timeZone };
+  }
+
+  /**
+   * A doctor's bookings on a clinic-local date as [start, end) minute intervals.
+   * Bookings without their own duration fall back to the service length, then the default.
+   */
+  private async findBookedIntervals(
+    db: PrismaClient | Prisma.TransactionClient,
+    doctorId: string,
+    date: DateKey,
+    timeZone: string,
+    defaultDuration: number,
+    excludeId?: string
+  ): Promise<BookedInterval[]> {
+    const day = zonedCalendar.dayRange(date, timeZone);
+    const bookings = await appointmentRepo.findDoctorBookings(db, doctorId, day.start, day.end, excludeId);
+
+    return bookings.map(b => this.toInterval(b, { step: defaultDuration, timeZone }));
+  }
+
+  private toInterval(
+    booking: Awaited<ReturnType<typeof appointmentRepo.findDoctorBookings>>[number],
+    context: Pick<BookingContext, 'step' | 'timeZone'>
+  ): BookedInterval {
+    const start = booking.time
+      ? timeToMinutes(booking.time)
+      : zonedCalendar.minutesOfDay(booking.appointmentDate, context.timeZone);
+    return {
+      id: booking.id,
+      start,
+      end: start + (booking.duration ?? booking.service?.duration ?? context.step)
+    };
+  }
+
+  private overlapping(intervals: BookedInterval[], start: number, end: number): BookedInterval[] {
+    return intervals.filter(i => i.start < end && start < i.end);
+  }
+
+  /**
+   * Reject a booking that is in the past, falls outside the doctor's working
+   * windows or overlaps another booking. Call inside the booking transaction,
+   * after `lockDoctorSchedule`.
    */
-  private buildAppointmentDateTime(date: Date, time: string): Date {
-    const [hours, minutes] = time.split(':').map(Number);
-    const zonedDate = toZonedTime(date, TIMEZONE);
-    return setSeconds(setMinutes(setHours(zonedDate, hours ?? 0), minutes ?? 0), 0);
+  private async assertBookable(
+    db: PrismaClient | Prisma.TransactionClient,
+    doctorId: string,
+    date: DateKey,
+    time: string,
+    timeZone: string,
+    duration: number,
+    defaultDuration: number,
+    excludeId?: string
+  ) {
+    const [conflict] = await this.findOccurrenceConflicts(
+      db,
+      doctorId,
+      [{ date, time, duration, occurrence: 1 }],
+      { duration, step: defaultDuration, timeZone },
+      excludeId ? [excludeId] : []
+    );
+
+    if (!conflict) return;
+
+    switch (conflict.problem) {
+      case 'PAST':
+        throw new ValidationError('Selected time is in the past');
+      case 'OUTSIDE_HOURS':
+        throw new ValidationError('Selected time is not available', { time, duration });
+      default:
+        throw new ConflictError('This time slot overlaps with another appointment', {
+          conflictingAppointmentIds: conflict.conflictingAppointmentIds
+        });
+    }
+  }
+
+  /**
+   * Check many bookings for one doctor at once, loading working windows and
+   * existing bookings for the whole date range in one pass. Bookings listed in
+   * `excludeIds` are ignored, so occurrences being moved do not block themselves.
+   */
+  private async findOccurrenceConflicts(
+    db: PrismaClient | Prisma.TransactionClient,
+    doctorId: string,
+    candidates: OccurrenceCandidate[],
+    context: BookingContext,
+    excludeIds: string[] = []
+  ): Promise<OccurrenceConflict[]> {
+    const dates = candidates.map(c => c.date).sort();
+    const first = dates[0];
+    const last = dates.at(-1);
+    if (!(first && last)) return [];
+
+    const schedules = await doctorSchedule.getSchedules(doctorId, first, last);
+    const windowsByDate = new Map(schedules.map(s => [s.date, s.windows]));
+
+    const range = zonedCalendar.daysRange(first, last, context.timeZone);
+    const bookings = await appointmentRepo.findDoctorBookings(db, doctorId, range.start, range.end);
+    const bookedByDate = new Map<DateKey, BookedInterval[]>();
+    for (const booking of bookings) {
+      if (excludeIds.includes(booking.id)) continue;
+      const date = zonedCalendar.dateKey(booking.appointmentDate, context.timeZone);
+      bookedByDate.set(date, [...(bookedByDate.get(date) ?? []), this.toInterval(booking, context)]);
+    }
+
+    const now = new Date();
+
+    return candidates.flatMap<OccurrenceConflict>(candidate => {
+      const start = timeToMinutes(candidate.time);
+      const end = start + candidate.duration;
+      const base = {
+        appointmentId: candidate.appointmentId,
+        date: candidate.date,
+        occurrence: candidate.occurrence,
+        time: candidate.time,
+        conflictingAppointmentIds: []
+      };
+
+      if (isBefore(zonedCalendar.at(candidate.date, candidate.time, context.timeZone), now)) {
+        return [{ ...base, problem: 'PAST' }];
+      }
+      if (!doctorSchedule.covers(windowsByDate.get(candidate.date) ?? [], start, end)) {
+        return [{ ...base, problem: 'OUTSIDE_HOURS' }];
+      }
+
+      const overlaps = this.overlapping(bookedByDate.get(candidate.date) ?? [], start, end);
+      return overlaps.length
+        ? [{ ...base, problem: 'OVERLAP', conflictingAppointmentIds: overlaps.map(o => o.id) }]
+        : [];
+    });
   }
 }
 
@@ -1,10 +1,11 @@
 // src/services/appointment/availability.ts
 
-import { addDays, endOfDay, format, isBefore, parseISO, setHours, setMinutes, setSeconds, startOfDay } from 'date-fns';
+import { addDays, isBefore } from 'date-fns';
 
 import { prisma } from '../../client';
-
-// const DEFAULT_TIMEZONE = 'Africa/Cairo';
+import { NotFoundError } from '../../error';
+import { zonedCalendar } from '../../utils/date/timezone';
+import { type DaySchedule, doctorSchedule } from './schedule';
 
 export interface TimeSlot {
   available: boolean;
@@ -13,20 +14,6 @@ export interface TimeSlot {
 }
 
 export class AppointmentAvailabilityService {
-  /**
-   * Generate time slots
-   */
-  private generateTimeSlots(startHour = 5, endHour = 23, intervalMinutes = 30): string[] {
-    const slots: string[] = [];
-    for (let hour = startHour; hour <= endHour; hour++) {
-      for (let minute = 0; minute < 60; minute += intervalMinutes) {
-        if (hour === endHour && minute > 0) break;
-        slots.push(`${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}:00`);
-      }
-    }
-    return slots;
-  }
-
   /**
    * Format time for display
    */
@@ -41,58 +28,43 @@ export class AppointmentAvailabilityService {
    * Get available time slots for a doctor
    */
   async getAvailableSlots(doctorId: string, dateStr: string): Promise<TimeSlot[]> {
-    // 1. Fetch only necessary doctor fields
-    const doctor = await prisma.doctor.findUnique({
-      where: { id: doctorId },
-      select: {
-        availableFromWeekDay: true,
-        availableToWeekDay: true,
-        availableFromTime: true,
-        availableToTime: true
-      }
-    });
-
-    if (!doctor) throw new Error('Doctor not found');
+    // A "yyyy-MM-dd" string is a calendar date in the clinic's timezone
+    const selectedDate = dateStr.slice(0, 10);
 
-    const selectedDate = parseISO(dateStr);
-    const dayOfWeek = selectedDate.getDay();
+    // 1. Resolve working windows (weekly template, breaks, exceptions)
+    const schedule = await doctorSchedule.getDaySchedule(doctorId, selectedDate);
 
     // 2. Fast-exit for non-working days
-    if (dayOfWeek < (doctor.availableFromWeekDay ?? 0) || dayOfWeek > (doctor.availableToWeekDay ?? 6)) {
+    if (!schedule.windows.length) {
       return [];
     }
 
-    // 3. Get existing appointments (Optimized range)
+    // 3. Get existing appointments within the clinic-local day
+    const day = zonedCalendar.dayRange(schedule.date, schedule.timeZone);
     const appointments = await prisma.appointment.findMany({
       where: {
         doctorId,
         appointmentDate: {
-          gte: startOfDay(selectedDate),
-          lte: endOfDay(selectedDate)
+          gte: day.start,
+          lte: day.end
         },
         status: { notIn: ['CANCELLED', 'NO_SHOW'] }
       },
       select: { appointmentDate: true }
     });
 
-    // Store as "HH:mm" for easy lookup
-    const bookedSlots = new Set(appointments.map(a => a.appointmentDate.toISOString().substring(11, 16)));
+    // Store as clinic-local "HH:mm" for easy lookup
+    const bookedSlots = new Set(appointments.map(a => zonedCalendar.timeOf(a.appointmentDate, schedule.timeZone)));
 
-    // 4. Parse availability
-    const [fromHour] = (doctor.availableFromTime || '09:00').split(':').map(Number);
-    const [toHour] = (doctor.availableToTime || '17:00').split(':').map(Number);
-
-    const slots = this.generateTimeSlots(fromHour, toHour);
-    const now = new Date(); // Use system time or zoned time as needed
+    // 4. Slots that fit inside the working windows
+    const slots = doctorSchedule.slotStarts(schedule.windows);
+    const now = new Date();
 
     return slots.map(time => {
-      const [hour, minute] = time.split(':').map(Number);
-
-      // Create slot time without mutating selectedDate
-      const slotDateTime = setSeconds(setMinutes(setHours(startOfDay(selectedDate), hour ?? 0), minute ?? 0), 0);
+      const slotDateTime = doctorSchedule.slotInstant(schedule, time);
 
       // 5. Availability Logic: Not booked AND (is in the future if today)
-      const isBooked = bookedSlots.has(time);
+      const isBooked = bookedSlots.has(time.slice(0, 5));
       const isPast = isBefore(slotDateTime, now);
 
       return {
@@ -110,53 +82,49 @@ export class AppointmentAvailabilityService {
     const maxDaysAhead = 30;
     const today = new Date();
 
-    // 1. Fetch doctor availability and existing appointments in a single batch
-    const doctor = await prisma.doctor.findUnique({
-      where: { id: doctorId },
-      include: {
-        appointments: {
-          where: {
-            appointmentDate: {
-              gte: startOfDay(today),
-              lte: addDays(startOfDay(today), maxDaysAhead)
-            },
-            status: { notIn: ['CANCELLED', 'NO_SHOW'] }
-          },
-          select: { appointmentDate: true }
-        }
-      }
-    });
+    // 1. Resolve working windows for the whole range, then existing appointments in one query
+    let schedules: DaySchedule[];
+    try {
+      schedules = await doctorSchedule.getSchedules(doctorId, today, addDays(today, maxDaysAhead - 1));
+    } catch (error) {
+      if (error instanceof NotFoundError) return null;
+      throw error;
+    }
 
-    if (!doctor) return null;
+    const first = schedules[0];
+    const last = schedules.at(-1);
+    if (!(first && last)) return null;
+
+    const range = zonedCalendar.daysRange(first.date, last.date, first.timeZone);
+    const appointments = await prisma.appointment.findMany({
+      where: {
+        doctorId,
+        appointmentDate: {
+          gte: range.start,
+          lte: range.end
+        },
+        status: { notIn: ['CANCELLED', 'NO_SHOW'] }
+      },
+      select: { appointmentDate: true }
+    });
 
     // 2. Map appointments to a searchable set for O(1) lookup
-    // Format: "YYYY-MM-DD HH:mm"
-    const bookedSlots = new Set(doctor.appointments.map(a => format(a.appointmentDate, 'yyyy-MM-dd HH:mm')));
+    // Format: "YYYY-MM-DD HH:mm", clinic-local
+    const bookedSlots = new Set(
+      appointments.map(
+        a =>
+          `${zonedCalendar.dateKey(a.appointmentDate, first.timeZone)} ${zonedCalendar.timeOf(a.appointmentDate, first.timeZone)}`
+      )
+    );
 
     // 3. Iterate through days (No DB calls inside this loop!)
-    for (let i = 0; i < maxDaysAhead; i++) {
-      const checkDate = addDays(today, i);
-      const dayOfWeek = checkDate.getDay();
-
-      // Check if doctor works this weekday
-      if (dayOfWeek < (doctor.availableFromWeekDay ?? 0) || dayOfWeek > (doctor.availableToWeekDay ?? 6)) {
-        continue;
-      }
-
-      const [fromHour] = (doctor.availableFromTime || '09:00').split(':').map(Number);
-      const [toHour] = (doctor.availableToTime || '17:00').split(':').map(Number);
-
-      // Reuse your existing logic to get potential time strings (e.g., ["09:00", "09:30"...])
-      const timeStrings = this.generateTimeSlots(fromHour, toHour);
-      const dateStr = format(checkDate, 'yyyy-MM-dd');
-
-      for (const time of timeStrings) {
-        const [hour, minute] = time.split(':').map(Number);
-        const slotDate = setMinutes(setHours(startOfDay(checkDate), hour ?? 0), minute ?? 0);
+    for (const schedule of schedules) {
+      for (const time of doctorSchedule.slotStarts(schedule.windows)) {
+        const slotDate = doctorSchedule.slotInstant(schedule, time);
 
         // Check if slot is in the future AND not booked
         const isFuture = slotDate > today;
-        const isBooked = bookedSlots.has(`${dateStr} ${time}`);
+        const isBooked = bookedSlots.has(`${schedule.date} ${time.slice(0, 5)}`);
 
         if (isFuture && !isBooked) {
           return slotDate;
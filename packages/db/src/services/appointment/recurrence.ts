@@ -0,0 +1,69 @@
+// src/services/appointment/recurrence.ts
+import type { RecurrenceFrequency } from '../../../generated/client';
+import { type DateKey, zonedCalendar } from '../../utils/date/timezone';
+
+/**
+ * Hard cap on occurrences per series, whatever the rule asks for
+ */
+export const MAX_SERIES_OCCURRENCES = 104;
+
+/**
+ * RRULE-style recurrence: FREQ, INTERVAL and either UNTIL or COUNT
+ */
+export interface RecurrenceRule {
+  count?: number | null;
+  frequency: RecurrenceFrequency;
+  interval: number;
+  startDate: DateKey;
+  until?: DateKey | null;
+}
+
+export interface Occurrence {
+  date: DateKey;
+  /** 1-based position in the series */
+  index: number;
+}
+
+/**
+ * The n-th date of a rule (0-based). Each date is computed from the start
+ * rather than the previous occurrence, so month-end clamping does not drift
+ * (Jan 31 → Feb 28 → Mar 31).
+ */
+export function occurrenceDate(rule: Pick<RecurrenceRule, 'frequency' | 'interval' | 'startDate'>, n: number): DateKey {
+  const step = Math.max(1, rule.interval) * n;
+  switch (rule.frequency) {
+    case 'DAILY':
+      return zonedCalendar.addDays(rule.startDate, step);
+    case 'WEEKLY':
+      return zonedCalendar.addDays(rule.startDate, step * 7);
+    default:
+      return zonedCalendar.addMonths(rule.startDate, step);
+  }
+}
+
+/**
+ * Expand a rule into its occurrence dates, ending at `until`, after `count`
+ * occurrences or at MAX_SERIES_OCCURRENCES, whichever comes first
+ */
+export function expandOccurrences(rule: RecurrenceRule): Occurrence[] {
+  const limit = Math.min(rule.count ?? MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+  const occurrences: Occurrence[] = [];
+
+  for (let n = 0; n < limit; n++) {
+    const date = occurrenceDate(rule, n);
+    if (rule.until && date > rule.until) break;
+    occurrences.push({ date, index: n + 1 });
+  }
+
+  return occurrences;
+}
+
+/**
+ * RFC 5545 RRULE text for a rule, e.g. "FREQ=WEEKLY;INTERVAL=2;COUNT=6"
+ */
+export function toRRule(rule: Omit<RecurrenceRule, 'startDate'>): string {
+  const parts = [`FREQ=${rule.frequency}`, `INTERVAL=${Math.max(1, rule.interval)}`];
+  if (rule.until) parts.push(`UNTIL=${rule.until.replaceAll('-', '')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(';');
+}
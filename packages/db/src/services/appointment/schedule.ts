@@ -0,0 +1,249 @@
+// src/services/appointment/schedule.ts
+import type { ScheduleExceptionType } from '../../../generated/client';
+import { prisma } from '../../client';
+import { NotFoundError } from '../../error';
+import * as doctorRepo from '../../repositories/doctor.repo';
+import { type DateKey, zonedCalendar } from '../../utils/date/timezone';
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+
+const DEFAULT_FROM_TIME = '09:00';
+const DEFAULT_TO_TIME = '17:00';
+
+/**
+ * Exception types that take time away from the weekly template
+ */
+const BLOCKING_EXCEPTIONS: ScheduleExceptionType[] = ['LEAVE', 'HOLIDAY', 'CLOSURE'];
+
+/**
+ * A bookable window within a day, in "HH:mm"
+ */
+export interface ScheduleWindow {
+  end: string;
+  start: string;
+}
+
+export interface DaySchedule {
+  /** Clinic-local calendar date, "yyyy-MM-dd" */
+  date: DateKey;
+  exceptions: { reason: string | null; type: ScheduleExceptionType }[];
+  /** IANA zone the windows are expressed in */
+  timeZone: string;
+  windows: ScheduleWindow[];
+}
+
+/**
+ * A clinic-local date, or an instant read in the clinic's timezone
+ */
+export type ScheduleDay = DateKey | Date;
+
+type ScheduleTemplate = NonNullable<Awaited<ReturnType<typeof doctorRepo.findDoctorScheduleTemplate>>>;
+type ScheduleException = Awaited<ReturnType<typeof doctorRepo.findScheduleExceptionsForDoctor>>[number];
+
+interface MinuteRange {
+  end: number;
+  start: number;
+}
+
+/**
+ * Resolve a stored day name ("Monday", "mon", "MONDAY") to its JS weekday index
+ */
+export function weekdayIndex(day: string): number | null {
+  const prefix = day.trim().toLowerCase().slice(0, 3);
+  const index = WEEKDAYS.findIndex(d => d.startsWith(prefix));
+  return prefix.length === 3 && index >= 0 ? index : null;
+}
+
+/**
+ * Parse "HH:mm" or "HH:mm:ss" into minutes since midnight
+ */
+export function timeToMinutes(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours ?? 0) * 60 + (minutes ?? 0);
+}
+
+export function minutesToTime(minutes: number): string {
+  return `${Math.floor(minutes / 60)
+    .toString()
+    .padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+}
+
+export class DoctorScheduleService {
+  constructor(private readonly db: typeof prisma = prisma) {}
+
+  /**
+   * Working windows for one doctor on one date, read in the clinic's timezone
+   */
+  async getDaySchedule(doctorId: string, date: ScheduleDay): Promise<DaySchedule> {
+    const [schedule] = await this.getSchedules(doctorId, date, date);
+    if (!schedule) {
+      throw new NotFoundError('Doctor', doctorId);
+    }
+    return schedule;
+  }
+
+  /**
+   * Working windows for every clinic-local date in a range, loading the template
+   * and exceptions once
+   */
+  async getSchedules(doctorId: string, from: ScheduleDay, to: ScheduleDay): Promise<DaySchedule[]> {
+    const template = await doctorRepo.findDoctorScheduleTemplate(this.db, doctorId);
+    if (!template) {
+      throw new NotFoundError('Doctor', doctorId);
+    }
+
+    const timeZone = zonedCalendar.resolve(template.clinic?.timezone);
+    const dayOf = (day: ScheduleDay) => (typeof day === 'string' ? day : zonedCalendar.dateKey(day, timeZone));
+    const firstDay = dayOf(from);
+    const days = Math.max(0, zonedCalendar.daysBetween(firstDay, dayOf(to))) + 1;
+
+    // Exception dates are stored as DATE columns, which come back as UTC midnight
+    const exceptions = template.clinicId
+      ? await doctorRepo.findScheduleExceptionsForDoctor(
+          this.db,
+          doctorId,
+          template.clinicId,
+          zonedCalendar.keyToUtc(firstDay),
+          zonedCalendar.keyToUtc(zonedCalendar.addDays(firstDay, days - 1))
+        )
+      : [];
+
+    return Array.from({ length: days }, (_, i) => {
+      const key = zonedCalendar.addDays(firstDay, i);
+      return this.resolveDay(
+        template,
+        exceptions.filter(e => zonedCalendar.fromDateOnly(e.date) === key),
+        key,
+        timeZone
+      );
+    });
+  }
+
+  /**
+   * UTC instant at which a "HH:mm" slot on a schedule's date starts
+   */
+  slotInstant(schedule: DaySchedule, time: string): Date {
+    return zonedCalendar.at(schedule.date, time, schedule.timeZone);
+  }
+
+  /**
+   * Slot start times ("HH:mm:00") on a `stepMinutes` grid whose whole duration
+   * fits inside a window
+   */
+  slotStarts(windows: ScheduleWindow[], stepMinutes = 30, durationMinutes = stepMinutes): string[] {
+    const starts: string[] = [];
+    for (const window of windows) {
+      const end = timeToMinutes(window.end);
+      for (let start = timeToMinutes(window.start); start + durationMinutes <= end; start += stepMinutes) {
+        starts.push(`${minutesToTime(start)}:00`);
+      }
+    }
+    return starts;
+  }
+
+  /**
+   * Whether [startMinutes, endMinutes) lies entirely inside one window
+   */
+  covers(windows: ScheduleWindow[], startMinutes: number, endMinutes: number): boolean {
+    return windows.some(w => timeToMinutes(w.start) <= startMinutes && endMinutes <= timeToMinutes(w.end));
+  }
+
+  /**
+   * Apply the weekly template, breaks and date-specific exceptions to one date.
+   * Blocking exceptions are applied before extra sessions, so an explicit extra
+   * session still opens time on a holiday.
+   */
+  private resolveDay(
+    template: ScheduleTemplate,
+    exceptions: ScheduleException[],
+    date: DateKey,
+    timeZone: string
+  ): DaySchedule {
+    const weekday = zonedCalendar.weekday(date);
+
+    let windows = this.templateWindows(template, weekday);
+
+    for (const rest of template.breaks) {
+      if (weekdayIndex(rest.day) !== weekday) continue;
+      windows = this.subtract(windows, this.toRange(rest.startTime, rest.endTime));
+    }
+
+    for (const exception of exceptions) {
+      if (!BLOCKING_EXCEPTIONS.includes(exception.type)) continue;
+      windows =
+        exception.startTime && exception.endTime
+          ? this.subtract(windows, this.toRange(exception.startTime, exception.endTime))
+          : [];
+    }
+
+    for (const exception of exceptions) {
+      if (exception.type !== 'EXTRA_SESSION' || !(exception.startTime && exception.endTime)) continue;
+      windows = this.merge([...windows, this.toRange(exception.startTime, exception.endTime)]);
+    }
+
+    return {
+      date,
+      timeZone,
+      windows: windows.map(w => ({ start: minutesToTime(w.start), end: minutesToTime(w.end) })),
+      exceptions: exceptions.map(e => ({ type: e.type, reason: e.reason }))
+    };
+  }
+
+  /**
+   * Weekly template for a weekday: the doctor's WorkingDays rows, or the legacy
+   * weekday/time range on the doctor when no rows have been configured
+   */
+  private templateWindows(template: ScheduleTemplate, weekday: number): MinuteRange[] {
+    if (template.workingDays.length) {
+      return this.merge(
+        template.workingDays
+          .filter(wd => weekdayIndex(wd.day) === weekday)
+          .map(wd => this.toRange(wd.startTime, wd.endTime))
+      );
+    }
+
+    const fromDay = template.availableFromWeekDay ?? 0;
+    const toDay = template.availableToWeekDay ?? 6;
+    // A range such as Saturday (6) to Thursday (4) wraps around the week
+    const worksToday =
+      fromDay <= toDay ? weekday >= fromDay && weekday <= toDay : weekday >= fromDay || weekday <= toDay;
+    if (!worksToday) return [];
+
+    return this.merge([
+      this.toRange(template.availableFromTime || DEFAULT_FROM_TIME, template.availableToTime || DEFAULT_TO_TIME)
+    ]);
+  }
+
+  private toRange(start: string, end: string): MinuteRange {
+    return { start: timeToMinutes(start), end: timeToMinutes(end) };
+  }
+
+  private merge(ranges: MinuteRange[]): MinuteRange[] {
+    const sorted = ranges.filter(r => r.end > r.start).sort((a, b) => a.start - b.start);
+    const merged: MinuteRange[] = [];
+
+    for (const range of sorted) {
+      const last = merged.at(-1);
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+    }
+
+    return merged;
+  }
+
+  private subtract(ranges: MinuteRange[], cut: MinuteRange): MinuteRange[] {
+    return ranges.flatMap(range => {
+      if (cut.end <= range.start || cut.start >= range.end) return [range];
+
+      const pieces: MinuteRange[] = [];
+      if (cut.start > range.start) pieces.push({ start: range.start, end: cut.start });
+      if (cut.end < range.end) pieces.push({ start: cut.end, end: range.end });
+      return pieces;
+    });
+  }
+}
+
+export const doctorSchedule = new DoctorScheduleService();
@@ -0,0 +1,516 @@
+// src/services/appointment/waitlist.ts
+import { randomUUID } from 'node:crypto';
+
+import { logger } from '@naroto/logger';
+import { CACHE_KEYS } from '@naroto/redis/cache-keys';
+import { addJob, queueManager } from '@naroto/redis/queue';
+import { addMinutes } from 'date-fns';
+
+import type { Prisma, PrismaClient, WaitlistOfferStatus } from '../../../generated/client';
+import { prisma } from '../../client';
+import { ConflictError, NotFoundError } from '../../error';
+import * as appointmentRepo from '../../repositories/appointment.repo';
+import * as clinicRepo from '../../repositories/clinic.repo';
+import * as doctorRepo from '../../repositories/doctor.repo';
+import * as patientRepo from '../../repositories/patient.repo';
+import * as waitlistRepo from '../../repositories/waitlist.repo';
+import { type DateKey, zonedCalendar } from '../../utils/date/timezone';
+import {
+  type WaitlistEntryCreateInput,
+  WaitlistEntryCreateSchema,
+  type WaitlistFilter,
+  WaitlistFilterSchema,
+  type WaitlistOfferResponseInput,
+  WaitlistOfferResponseSchema
+} from '../../zodSchemas/appointment.schema';
+import { cacheService } from '../cache.service';
+import { reminderService } from '../reminder/reminder.service';
+import { timeToMinutes } from './schedule';
+
+// Used when the clinic has no settings row
+const DEFAULT_APPOINTMENT_DURATION = 30;
+const DEFAULT_OFFER_HOLD_MINUTES = 120;
+
+/**
+ * A booking that has just been cancelled, described well enough to offer its
+ * time to someone else
+ */
+export interface FreedSlot {
+  appointmentDate: Date;
+  appointmentId: string;
+  doctorId: string;
+  duration?: number | null;
+  /** The patient who gave the slot up; never offered it back */
+  patientId?: string;
+  serviceId?: string | null;
+  time?: string | null;
+}
+
+type Candidate = Awaited<ReturnType<typeof waitlistRepo.findWaitlistCandidates>>[number];
+type Offer = Awaited<ReturnType<typeof waitlistRepo.createWaitlistOffer>>;
+type SlotContext = NonNullable<Awaited<ReturnType<typeof waitlistRepo.findWaitlistSlotContext>>>;
+
+interface MadeOffer {
+  candidate: Candidate;
+  context: SlotContext;
+  date: DateKey;
+  offer: Offer;
+  timeZone: string;
+}
+
+export class WaitlistService {
+  constructor(private readonly db: typeof prisma = prisma) {}
+
+  // ==================== ENTRIES ====================
+
+  /**
+   * Put a patient on the waitlist for a doctor or for any doctor of a specialty
+   */
+  async addEntry(input: WaitlistEntryCreateInput, clinicId: string, userId?: string) {
+    const validated = WaitlistEntryCreateSchema.parse(input);
+
+    const patient = await patientRepo.getPatientById(this.db, validated.patientId, clinicId);
+    if (!patient) {
+      throw new NotFoundError('Patient', validated.patientId);
+    }
+
+    if (validated.doctorId) {
+      const doctor = await doctorRepo.findDoctorById(this.db, validated.doctorId, clinicId);
+      if (!doctor) {
+        throw new NotFoundError('Doctor', validated.doctorId);
+      }
+    }
+
+    const duplicate = await waitlistRepo.findOpenWaitlistEntry(this.db, {
+      clinicId,
+      patientId: validated.patientId,
+      doctorId: validated.doctorId,
+      specialty: validated.specialty
+    });
+    if (duplicate) {
+      throw new ConflictError('Patient is already on the waitlist for this doctor or specialty', {
+        entryId: duplicate.id
+      });
+    }
+
+    const timeZone = await this.clinicTimeZone(clinicId);
+    const entry = await waitlistRepo.createWaitlistEntry(this.db, {
+      clinicId,
+      patientId: validated.patientId,
+      doctorId: validated.doctorId,
+      specialty: validated.doctorId ? undefined : validated.specialty,
+      serviceId: validated.serviceId,
+      type: validated.type,
+      earliestDate: zonedCalendar.keyToUtc(zonedCalendar.dateKey(validated.earliestDate, timeZone)),
+      latestDate: zonedCalendar.keyToUtc(zonedCalendar.dateKey(validated.latestDate, timeZone)),
+      preferredFromTime: validated.preferredFromTime,
+      preferredToTime: validated.preferredToTime,
+      preferredWeekdays: validated.preferredWeekdays,
+      priority: validated.priority,
+      note: validated.note,
+      createdById: userId
+    });
+
+    logger.info('Waitlist entry created', { entryId: entry.id, patientId: validated.patientId, clinicId });
+    return entry;
+  }
+
+  /**
+   * Open entries (or entries in one status), best first. Lapsed offers and
+   * entries whose dates have passed are closed before listing.
+   */
+  async getEntries(clinicId: string, filter: WaitlistFilter = {}) {
+    const validated = WaitlistFilterSchema.parse(filter);
+
+    await this.processExpiredOffers(clinicId);
+    const timeZone = await this.clinicTimeZone(clinicId);
+    await waitlistRepo.expirePastWaitlistEntries(
+      this.db,
+      clinicId,
+      zonedCalendar.keyToUtc(zonedCalendar.today(timeZone))
+    );
+
+    return waitlistRepo.findWaitlistEntries(this.db, clinicId, validated);
+  }
+
+  async getEntryById(id: string, clinicId: string) {
+    const entry = await waitlistRepo.findWaitlistEntryById(this.db, id, clinicId);
+    if (!entry) {
+      throw new NotFoundError('Waitlist entry', id);
+    }
+    return entry;
+  }
+
+  /**
+   * Take a patient off the waitlist. A slot currently held for them is
+   * released and offered to the next candidate.
+   */
+  async cancelEntry(id: string, clinicId: string) {
+    const entry = await this.getEntryById(id, clinicId);
+    if (entry.status !== 'WAITING' && entry.status !== 'OFFERED') {
+      throw new ConflictError(`Waitlist entry is already ${entry.status.toLowerCase()}`);
+    }
+
+    const pending = entry.offers.find(o => o.status === 'PENDING');
+
+    const released = await this.db.$transaction(async (tx: Prisma.TransactionClient) => {
+      const offer = pending ? await this.releaseOffer(tx, pending, 'DECLINED') : null;
+      await waitlistRepo.updateWaitlistEntry(tx, id, { status: 'CANCELLED' });
+      return offer;
+    });
+
+    logger.info('Waitlist entry cancelled', { entryId: id, clinicId });
+
+    if (released) {
+      await this.invalidateSlotCaches(clinicId, entry.patientId, released.appointmentId);
+      await this.offerFreedSlot(this.toFreedSlot(released));
+    }
+
+    return { id, status: 'CANCELLED' as const };
+  }
+
+  // ==================== OFFERS ====================
+
+  /**
+   * Offer a freed slot to the best waiting candidate: hold it for them as a
+   * PENDING booking for the clinic's hold time and notify them. Returns null
+   * when the slot is in the past, has been taken again or nobody matches.
+   * Never throws, so a failure here does not undo the cancellation that freed
+   * the slot.
+   */
+  async offerFreedSlot(slot: FreedSlot): Promise<Offer | null> {
+    try {
+      const made = await this.db.$transaction(async (tx: Prisma.TransactionClient) => {
+        await appointmentRepo.lockDoctorSchedule(tx, slot.doctorId);
+
+        // A cancelled hold ends its offer; the slot then moves on like any other
+        const heldFor = await waitlistRepo.findPendingOfferByAppointment(tx, slot.appointmentId);
+        if (heldFor) {
+          await this.releaseOffer(tx, heldFor, 'DECLINED');
+        }
+
+        return this.holdForNextCandidate(tx, slot, heldFor?.entryId);
+      });
+
+      if (!made) return null;
+
+      await this.invalidateSlotCaches(made.context.clinicId ?? '', made.candidate.patientId, made.offer.appointmentId);
+      await this.scheduleExpiry(made.offer);
+      await this.notifyOffer(made);
+      return made.offer;
+    } catch (error) {
+      logger.error('Failed to offer freed slot to the waitlist', {
+        error,
+        appointmentId: slot.appointmentId,
+        doctorId: slot.doctorId
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Accept or decline an offer. Accepting confirms the held booking; declining
+   * releases it and offers the slot to the next candidate.
+   */
+  async respondToOffer(input: WaitlistOfferResponseInput, clinicId: string) {
+    const validated = WaitlistOfferResponseSchema.parse(input);
+
+    // An offer whose hold has run out can no longer be accepted
+    await this.processExpiredOffers(clinicId);
+
+    const offer = await waitlistRepo.findWaitlistOfferById(this.db, validated.offerId, clinicId);
+    if (!offer) {
+      throw new NotFoundError('Waitlist offer', validated.offerId);
+    }
+    if (offer.status !== 'PENDING') {
+      throw new ConflictError(`This offer has already been ${offer.status.toLowerCase()}`, {
+        offerId: offer.id,
+        status: offer.status
+      });
+    }
+
+    if (validated.accept) {
+      await this.db.$transaction(async (tx: Prisma.TransactionClient) => {
+        const resolved = await waitlistRepo.resolveWaitlistOffer(tx, offer.id, {
+          status: 'ACCEPTED',
+          respondedAt: new Date()
+        });
+        if (!resolved) {
+          throw new ConflictError('This offer is no longer pending', { offerId: offer.id });
+        }
+        if (offer.appointmentId) {
+          await waitlistRepo.confirmHeldAppointment(tx, offer.appointmentId);
+        }
+        await waitlistRepo.updateWaitlistEntry(tx, offer.entryId, { status: 'BOOKED' });
+      });
+
+      logger.info('Waitlist offer accepted', { offerId: offer.id, appointmentId: offer.appointmentId ?? undefined });
+      await this.invalidateSlotCaches(clinicId, offer.entry.patientId, offer.appointmentId);
+      if (offer.appointmentId) {
+        await reminderService.syncAppointmentReminders(offer.appointmentId);
+      }
+      return { offerId: offer.id, status: 'ACCEPTED' as const, appointmentId: offer.appointmentId };
+    }
+
+    const released = await this.db.$transaction(async (tx: Prisma.TransactionClient) =>
+      this.releaseOffer(tx, offer, 'DECLINED')
+    );
+
+    logger.info('Waitlist offer declined', { offerId: offer.id });
+
+    if (released) {
+      await this.invalidateSlotCaches(clinicId, offer.entry.patientId, offer.appointmentId);
+      await this.offerFreedSlot(this.toFreedSlot(released));
+    }
+
+    return { offerId: offer.id, status: 'DECLINED' as const, appointmentId: null };
+  }
+
+  /**
+   * Expire offers whose hold has run out and pass each slot on to the next
+   * candidate. Each offer queues a delayed job that runs this when its hold
+   * ends; it also runs before waitlist reads and responses.
+   */
+  async processExpiredOffers(clinicId?: string, now: Date = new Date()): Promise<number> {
+    const lapsed = await waitlistRepo.findLapsedWaitlistOffers(this.db, now, clinicId);
+
+    let expired = 0;
+    for (const offer of lapsed) {
+      const released = await this.db.$transaction(async (tx: Prisma.TransactionClient) =>
+        this.releaseOffer(tx, offer, 'EXPIRED')
+      );
+      if (!released) continue;
+
+      expired++;
+      logger.info('Waitlist offer expired', { offerId: offer.id, entryId: offer.entryId });
+      await this.offerFreedSlot(this.toFreedSlot(released));
+    }
+
+    return expired;
+  }
+
+  /**
+   * Hook the expiry processor into the waitlist queue
+   */
+  registerQueueProcessors(): void {
+    queueManager.setProcessor('expire-waitlist-offer', async data => ({
+      expired: await this.processExpiredOffers(data.clinicId)
+    }));
+  }
+
+  // ==================== HELPERS ====================
+
+  /**
+   * Inside the slot's transaction (after `lockDoctorSchedule`): check the slot
+   * is still free, pick the best matching entry and hold the slot for it
+   */
+  private async holdForNextCandidate(
+    tx: Prisma.TransactionClient,
+    slot: FreedSlot,
+    skipEntryId?: string
+  ): Promise<MadeOffer | null> {
+    const context = await waitlistRepo.findWaitlistSlotContext(tx, slot.doctorId);
+    if (!context?.clinicId) return null;
+
+    const settings = context.clinic?.clinicSettings[0];
+    const timeZone = zonedCalendar.resolve(context.clinic?.timezone);
+    const date = zonedCalendar.dateKey(slot.appointmentDate, timeZone);
+    const time = slot.time?.slice(0, 5) || zonedCalendar.timeOf(slot.appointmentDate, timeZone);
+    const slotStart = zonedCalendar.at(date, time, timeZone);
+    const step = settings?.defaultAppointmentDuration ?? DEFAULT_APPOINTMENT_DURATION;
+    const service = slot.serviceId ? await appointmentRepo.findServiceDuration(tx, slot.serviceId) : null;
+    const duration = slot.duration ?? service?.duration ?? step;
+
+    const now = new Date();
+    if (slotStart <= now) return null;
+
+    if (await this.isTaken(tx, slot.doctorId, slotStart, duration, step)) return null;
+
+    const candidates = await waitlistRepo.findWaitlistCandidates(tx, {
+      clinicId: context.clinicId,
+      doctorId: slot.doctorId,
+      specialty: context.specialty,
+      date: zonedCalendar.keyToUtc(date),
+      slotStart,
+      excludePatientId: slot.patientId
+    });
+    const candidate = candidates.find(c => c.id !== skipEntryId && this.fitsPreferences(c, date, time, duration));
+    if (!candidate) return null;
+
+    const hold = await appointmentRepo.createAppointment(tx as unknown as PrismaClient, {
+      id: randomUUID(),
+      clinicId: context.clinicId,
+      patientId: candidate.patientId,
+      doctorId: slot.doctorId,
+      serviceId: candidate.serviceId ?? slot.serviceId ?? undefined,
+      doctorSpecialty: context.specialty,
+      appointmentDate: slotStart,
+      time,
+      duration,
+      type: candidate.type,
+      status: 'PENDING',
+      note: candidate.note,
+      createdAt: now,
+      updatedAt: now
+    });
+
+    const offer = await waitlistRepo.createWaitlistOffer(tx, {
+      entryId: candidate.id,
+      clinicId: context.clinicId,
+      doctorId: slot.doctorId,
+      appointmentId: hold.id,
+      slotStart,
+      time,
+      duration,
+      expiresAt: addMinutes(now, settings?.waitlistOfferHoldMinutes ?? DEFAULT_OFFER_HOLD_MINUTES)
+    });
+    await waitlistRepo.updateWaitlistEntry(tx, candidate.id, { status: 'OFFERED' });
+
+    logger.info('Waitlist offer made', {
+      offerId: offer.id,
+      entryId: candidate.id,
+      appointmentId: hold.id,
+      expiresAt: offer.expiresAt.toISOString()
+    });
+
+    return { candidate, context, date, offer, timeZone };
+  }
+
+  /**
+   * End a pending offer: record the outcome, put the entry back in the queue and
+   * drop the held booking. Returns null when the offer had already been resolved.
+   */
+  private async releaseOffer(
+    tx: Prisma.TransactionClient,
+    offer: Offer,
+    status: Extract<WaitlistOfferStatus, 'DECLINED' | 'EXPIRED'>
+  ): Promise<Offer | null> {
+    const resolved = await waitlistRepo.resolveWaitlistOffer(tx, offer.id, {
+      status,
+      respondedAt: status === 'DECLINED' ? new Date() : undefined
+    });
+    if (!resolved) return null;
+
+    await waitlistRepo.updateWaitlistEntry(tx, offer.entryId, { status: 'WAITING' });
+    if (offer.appointmentId) {
+      await waitlistRepo.deleteHeldAppointment(tx, offer.appointmentId);
+    }
+    return offer;
+  }
+
+  /**
+   * Whether another active booking overlaps [slotStart, slotStart + duration)
+   */
+  private async isTaken(
+    tx: Prisma.TransactionClient,
+    doctorId: string,
+    slotStart: Date,
+    duration: number,
+    defaultDuration: number
+  ): Promise<boolean> {
+    const slotEnd = addMinutes(slotStart, duration);
+    // Bookings are at most a day long, so any overlap starts within a day before the slot
+    const bookings = await appointmentRepo.findDoctorBookings(
+      tx,
+      doctorId,
+      addMinutes(slotStart, -24 * 60),
+      new Date(slotEnd.getTime() - 1)
+    );
+
+    return bookings.some(
+      b =>
+        b.appointmentDate < slotEnd &&
+        slotStart < addMinutes(b.appointmentDate, b.duration ?? b.service?.duration ?? defaultDuration)
+    );
+  }
+
+  private fitsPreferences(candidate: Candidate, date: DateKey, time: string, duration: number): boolean {
+    if (candidate.preferredWeekdays.length && !candidate.preferredWeekdays.includes(zonedCalendar.weekday(date))) {
+      return false;
+    }
+
+    const start = timeToMinutes(time);
+    if (candidate.preferredFromTime && start < timeToMinutes(candidate.preferredFromTime)) return false;
+    if (candidate.preferredToTime && start + duration > timeToMinutes(candidate.preferredToTime)) return false;
+    return true;
+  }
+
+  private toFreedSlot(offer: Offer): FreedSlot {
+    return {
+      appointmentId: offer.appointmentId ?? offer.id,
+      doctorId: offer.doctorId,
+      appointmentDate: offer.slotStart,
+      time: offer.time,
+      duration: offer.duration
+    };
+  }
+
+  /**
+   * Queue the offer's expiry for when its hold ends. Without the job the hold
+   * is still released by the next waitlist read or response.
+   */
+  private async scheduleExpiry(offer: Offer) {
+    try {
+      await addJob(
+        'expire-waitlist-offer',
+        { clinicId: offer.clinicId, offerId: offer.id },
+        { delay: Math.max(0, offer.expiresAt.getTime() - Date.now()), jobId: `waitlist-offer-expiry-${offer.id}` }
+      );
+    } catch (error) {
+      logger.warn('Failed to queue waitlist offer expiry', { error, offerId: offer.id });
+    }
+  }
+
+  /**
+   * Tell the patient through the notification and SMS queues. Queue problems are
+   * logged only: the hold stands and the offer is still visible on the waitlist.
+   */
+  private async notifyOffer({ candidate, context, date, offer, timeZone }: MadeOffer) {
+    const expires = `${zonedCalendar.dateKey(offer.expiresAt, timeZone)} ${zonedCalendar.timeOf(offer.expiresAt, timeZone)}`;
+    const message =
+      `A ${offer.duration}-minute appointment with ${context.name} at ${context.clinic?.name ?? 'the clinic'} ` +
+      `on ${date} at ${offer.time} is available for ${candidate.patient.firstName}. ` +
+      `It is held until ${expires}; contact the clinic to confirm.`;
+
+    try {
+      await addJob('send-notification', {
+        clinicId: context.clinicId ?? undefined,
+        patientId: candidate.patientId,
+        userId: candidate.patient.userId,
+        type: 'in-app',
+        title: 'Appointment slot available',
+        body: message,
+        data: {
+          offerId: offer.id,
+          appointmentId: offer.appointmentId,
+          expiresAt: offer.expiresAt.toISOString()
+        }
+      });
+
+      if (candidate.patient.phone) {
+        await addJob('send-sms', {
+          clinicId: context.clinicId ?? undefined,
+          patientId: candidate.patientId,
+          to: candidate.patient.phone,
+          message,
+          priority: 'high'
+        });
+      }
+    } catch (error) {
+      logger.warn('Failed to queue waitlist offer notification', { error, offerId: offer.id });
+    }
+  }
+
+  private async invalidateSlotCaches(clinicId: string, patientId: string, appointmentId?: string | null) {
+    const keys = [CACHE_KEYS.APPOINTMENT_TODAY(clinicId), CACHE_KEYS.PATIENT_APPOINTMENTS(patientId)];
+    if (appointmentId) keys.push(CACHE_KEYS.APPOINTMENT(appointmentId));
+    await cacheService.invalidate(...keys);
+  }
+
+  private async clinicTimeZone(clinicId: string): Promise<string> {
+    const clinic = await clinicRepo.findClinicTimezone(this.db, clinicId);
+    return zonedCalendar.resolve(clinic?.timezone);
+  }
+}
+
+export const waitlistService = new WaitlistService();
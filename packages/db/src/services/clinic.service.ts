@@ -22,6 +22,7 @@ import * as doctorRepo from '../repositories/doctor.repo';
 import * as patientRepo from '../repositories/patient.repo';
 import type { MedicalRecords } from '../types';
 import { toNumber } from '../utils';
+import { zonedCalendar } from '../utils/date/timezone';
 import {
   type ClinicCreateInput,
   type ClinicStatsInput,
@@ -30,6 +31,7 @@ import {
   clinicCreateSchema,
   RatingCreateSchema
 } from '../zodSchemas';
+import { weekdayIndex } from './appointment/schedule';
 import { cacheService } from './cache.service';
 
 // ==================== TYPE DEFINITIONS ====================
@@ -546,7 +548,8 @@ export class DashboardService {
       const params = {
         clinicId: validatedClinicId,
         from: validated.from ?? new Date(0),
-        to: validated.to ?? new Date()
+        to: validated.to ?? new Date(),
+        timeZone: await this.clinicTimeZone(validatedClinicId)
       };
 
       const [
@@ -787,9 +790,11 @@ export class DashboardService {
         if (cached) return cached;
       }
 
+      const timeZone = await this.clinicTimeZone(validatedClinicId);
       const appointments = await appointmentRepo.findRecentAppointments(
         this.db,
         validatedClinicId,
+        zonedCalendar.dayRange(zonedCalendar.today(timeZone), timeZone).start,
         validatedLimit,
         validatedOffset
       );
@@ -822,8 +827,16 @@ export class DashboardService {
         if (cached) return cached;
       }
 
-      const doctors = await appointmentRepo.findTodayAppointments(this.db, validatedClinicId);
-      const today = new Date().toLocaleString('en-US', { weekday: 'long' });
+      // "Today" and its weekday are the clinic's, not the server's
+      const timeZone = await this.clinicTimeZone(validatedClinicId);
+      const today = zonedCalendar.today(timeZone);
+      const weekday = zonedCalendar.weekday(today);
+      const day = zonedCalendar.dayRange(today, timeZone);
+
+      const [doctors, appointments] = await Promise.all([
+        doctorRepo.findDoctorList(this.db, validatedClinicId),
+        appointmentRepo.findTodayAppointments(this.db, validatedClinicId, day.start, day.end)
+      ]);
 
       const schedule = doctors.map(d => ({
         id: d.id,
@@ -831,21 +844,20 @@ export class DashboardService {
         specialty: d.specialty,
         img: d.img,
         colorCode: d.colorCode,
-        isAvailable: d.workingDays?.some(w => w.day === today) ?? false,
-        appointments:
-          d.appointments?.map(apt => ({
+        isAvailable: d.workingDays.some(w => weekdayIndex(w.day) === weekday),
+        appointments: appointments
+          .filter(apt => apt.doctorId === d.id)
+          .map(apt => ({
             id: apt.id,
             time: apt.appointmentDate,
-            patient: apt.patient
-              ? {
-                  firstName: apt.patient.firstName,
-                  lastName: apt.patient.lastName,
-                  image: apt.patient.image,
-                  colorCode: apt.patient.colorCode
-                }
-              : null,
+            patient: {
+              firstName: apt.patient.firstName,
+              lastName: apt.patient.lastName,
+              image: apt.patient.image,
+              colorCode: apt.patient.colorCode
+            },
             status: apt.status
-          })) ?? []
+          }))
       }));
 
       if (this.CACHE_ENABLED) {
@@ -932,6 +944,13 @@ export class DashboardService {
       });
     }
   }
+  /**
+   * The clinic's IANA timezone, UTC when unset
+   */
+  private async clinicTimeZone(clinicId: string): Promise<string> {
+    const clinic = await clinicRepo.findClinicTimezone(this.db, clinicId);
+    return zonedCalendar.resolve(clinic?.timezone);
+  }
 }
 
 // Export singleton instances
@@ -0,0 +1,235 @@
+// src/services/development/development.service.ts
+import { logger } from '@naroto/logger';
+
+import type { MilestoneStatus } from '../../../generated/client';
+import { prisma } from '../../client';
+import { NotFoundError, ValidationError } from '../../error';
+import * as developmentRepo from '../../repositories/development.repo';
+import type { DevelopmentalHistoryInput, RecordDevelopmentalCheckInput } from '../../zodSchemas/development.schema';
+import { gestationalAgeInDays, resolveGrowthAge } from '../growth/corrected-age';
+import {
+  checkpointForAge,
+  MILESTONE_CHECKPOINTS,
+  MILESTONE_INSTRUMENT,
+  MILESTONES,
+  type MilestoneDefinition
+} from './milestones';
+import { type MilestoneObservation, milestoneScreener } from './screening';
+
+const DAYS_PER_MONTH = 30.4375;
+
+type ScreeningPatient = NonNullable<Awaited<ReturnType<typeof developmentRepo.findScreeningPatient>>>;
+
+export interface ScreeningFormItem extends MilestoneDefinition {
+  /** Latest recorded status; null when never assessed */
+  status: MilestoneStatus | null;
+}
+
+export class DevelopmentService {
+  constructor(private readonly db: typeof prisma = prisma) {}
+
+  /**
+   * The milestone catalogue, or the milestones of the checkpoint an age falls in
+   */
+  getCatalogue(ageMonths?: number) {
+    const checkpoint = ageMonths === undefined ? null : checkpointForAge(ageMonths);
+    const milestones = [...MILESTONES.values()].filter(m => ageMonths === undefined || m.expectedMonths === checkpoint);
+
+    return { instrument: MILESTONE_INSTRUMENT, checkpoints: MILESTONE_CHECKPOINTS, checkpoint, milestones };
+  }
+
+  /**
+   * Milestones to ask about today: the checkpoints either side of the child's
+   * (corrected) age, plus earlier ones still not achieved
+   */
+  async getScreeningForm(patientId: string, clinicId: string) {
+    const patient = await this.getPatient(patientId, clinicId);
+    const age = this.screeningAge(patient, new Date());
+    const history = await developmentRepo.findCodedMilestones(this.db, patientId);
+    const observations = this.observe(history);
+
+    const index = MILESTONE_CHECKPOINTS.findLastIndex(c => c <= age.assessedMonths);
+    const window = new Set(MILESTONE_CHECKPOINTS.slice(Math.max(index - 1, 0), index + 2));
+
+    const items: ScreeningFormItem[] = [...MILESTONES.values()]
+      .filter(m => window.has(m.expectedMonths) || observations.get(m.code)?.achieved === false)
+      .map(m => {
+        const observation = observations.get(m.code);
+        return { ...m, status: observation ? (observation.achieved ? 'ACHIEVED' : 'NOT_YET') : null };
+      });
+
+    return { ...age, instrument: MILESTONE_INSTRUMENT, checkpoint: checkpointForAge(age.assessedMonths), items };
+  }
+
+  /**
+   * Record a screen from structured milestone entries and derive each
+   * domain's status. Milestones from earlier checks carry forward, so only
+   * what was observed today needs entering.
+   */
+  async recordCheck(input: RecordDevelopmentalCheckInput, userId: string) {
+    const patient = await this.getPatient(input.patientId, input.clinicId);
+    const checkDate = input.checkDate ?? new Date();
+
+    if (checkDate > new Date()) {
+      throw new ValidationError('Check date cannot be in the future');
+    }
+    if (checkDate < patient.dateOfBirth) {
+      throw new ValidationError('Check date cannot be before the date of birth');
+    }
+
+    const unknown = input.milestones.filter(m => !MILESTONES.has(m.code)).map(m => m.code);
+    if (unknown.length) {
+      throw new ValidationError('Unknown milestones', { codes: unknown });
+    }
+    const codes = input.milestones.map(m => m.code);
+    if (new Set(codes).size !== codes.length) {
+      throw new ValidationError('Each milestone can only be recorded once per check');
+    }
+
+    const age = this.screeningAge(patient, checkDate);
+    const history = await developmentRepo.findCodedMilestones(this.db, patient.id, checkDate);
+    const screening = milestoneScreener.assess(age.assessedMonths, this.observe(history, input.milestones));
+    const { domains } = screening;
+
+    const describe = (achieved: boolean) =>
+      input.milestones
+        .filter(m => m.achieved === achieved)
+        .map(m => MILESTONES.get(m.code)?.description)
+        .join('; ') || null;
+
+    const check = await developmentRepo.createDevelopmentalCheck(this.db, {
+      patientId: patient.id,
+      checkDate,
+      ageMonths: age.chronologicalMonths,
+      assessedAgeMonths: age.assessedMonths,
+      instrument: MILESTONE_INSTRUMENT,
+      grossMotorSkills: domains.GROSS_MOTOR.status,
+      fineMotorSkills: domains.FINE_MOTOR.status,
+      motorSkills: milestoneScreener.worse(domains.GROSS_MOTOR.status, domains.FINE_MOTOR.status),
+      languageSkills: domains.LANGUAGE.status,
+      socialSkills: domains.SOCIAL.status,
+      cognitiveSkills: domains.COGNITIVE.status,
+      overdueMilestones: screening.overdue.map(m => m.code),
+      milestonesMet: describe(true),
+      milestonesPending: describe(false),
+      concerns: input.concerns,
+      recommendations: input.recommendations,
+      performedById: userId,
+      milestones: {
+        createMany: {
+          data: input.milestones.map(entry => {
+            const milestone = MILESTONES.get(entry.code) as MilestoneDefinition;
+            return {
+              patientId: patient.id,
+              milestone: milestone.description,
+              milestoneCode: milestone.code,
+              domain: milestone.domain,
+              status: entry.achieved ? 'ACHIEVED' : 'NOT_YET',
+              ageAchieved:
+                entry.achieved && entry.ageAchievedMonths !== undefined ? `${entry.ageAchievedMonths} months` : null,
+              dateRecorded: checkDate,
+              notes: entry.notes,
+              createdBy: userId
+            };
+          })
+        }
+      }
+    });
+
+    logger.info('Developmental check recorded', {
+      checkId: check.id,
+      patientId: patient.id,
+      ageMonths: age.assessedMonths,
+      overdue: screening.overdue.length,
+      regressed: screening.regressed.length
+    });
+
+    return { check, screening };
+  }
+
+  /**
+   * Checks newest first, with today's status from every milestone recorded so far
+   */
+  async getHistory(input: DevelopmentalHistoryInput) {
+    const patient = await this.getPatient(input.patientId, input.clinicId);
+
+    const [checks, total, history] = await Promise.all([
+      developmentRepo.findChecksByPatient(this.db, patient.id, input),
+      developmentRepo.countChecksByPatient(this.db, patient.id),
+      developmentRepo.findCodedMilestones(this.db, patient.id)
+    ]);
+    const age = this.screeningAge(patient, new Date());
+
+    return {
+      checks,
+      total,
+      age,
+      current: milestoneScreener.assess(age.assessedMonths, this.observe(history))
+    };
+  }
+
+  async getCheckById(id: number, clinicId: string) {
+    const check = await developmentRepo.findCheckById(this.db, id, clinicId);
+    if (!check) {
+      throw new NotFoundError('Developmental check', String(id));
+    }
+    return check;
+  }
+
+  // ==================== HELPERS ====================
+
+  private async getPatient(patientId: string, clinicId: string): Promise<ScreeningPatient> {
+    const patient = await developmentRepo.findScreeningPatient(this.db, patientId, clinicId);
+    if (!patient) {
+      throw new NotFoundError('Patient', patientId);
+    }
+    return patient;
+  }
+
+  /**
+   * Milestones are judged at corrected age while it applies; before
+   * term-equivalent age that is zero
+   */
+  private screeningAge(patient: ScreeningPatient, at: Date) {
+    const age = resolveGrowthAge(
+      patient.dateOfBirth,
+      at,
+      gestationalAgeInDays(patient.gestationalAgeWeeks, patient.gestationalAgeDays)
+    );
+
+    return {
+      chronologicalMonths: Math.floor(age.chronologicalAgeDays / DAYS_PER_MONTH),
+      assessedMonths: Math.max(0, Math.floor(age.assessmentAgeDays / DAYS_PER_MONTH)),
+      corrected: age.correctedAgeDays !== null
+    };
+  }
+
+  /**
+   * Fold recorded milestones, oldest first, and today's entries into the
+   * latest status of each
+   */
+  private observe(
+    history: { milestoneCode: string | null; status: MilestoneStatus }[],
+    entries: { achieved: boolean; code: string }[] = []
+  ): Map<string, MilestoneObservation> {
+    const observations = new Map<string, MilestoneObservation>();
+    const record = (code: string, achieved: boolean) => {
+      const previous = observations.get(code);
+      observations.set(code, {
+        achieved,
+        previouslyAchieved: Boolean(previous && (previous.achieved || previous.previouslyAchieved))
+      });
+    };
+
+    for (const row of history) {
+      if (row.milestoneCode) record(row.milestoneCode, row.status === 'ACHIEVED');
+    }
+    for (const entry of entries) {
+      record(entry.code, entry.achieved);
+    }
+
+    return observations;
+  }
+}
+
+export const developmentService = new DevelopmentService();
@@ -0,0 +1,291 @@
+// src/services/development/milestones.ts
+import type { DevelopmentalDomain } from '../../../generated/client';
+
+export const MILESTONE_INSTRUMENT = 'CDC_LTSAE_2022';
+
+export interface MilestoneDefinition {
+  code: string;
+  description: string;
+  domain: DevelopmentalDomain;
+  /** Checkpoint the milestone is listed at: most children (75%) reach it by then */
+  expectedMonths: number;
+  /** Not yet achieved by the next checkpoint */
+  overdueMonths: number;
+}
+
+interface MilestoneBand {
+  ageMonths: number;
+  milestones: [DevelopmentalDomain, string, string][];
+  overdueMonths: number;
+}
+
+/**
+ * CDC "Learn the Signs. Act Early." milestone checklists (2022 revision), with
+ * movement split into gross and fine motor as on the Denver II:
+ * https://www.cdc.gov/act-early/milestones
+ */
+const MILESTONE_BANDS: MilestoneBand[] = [
+  {
+    ageMonths: 2,
+    overdueMonths: 4,
+    milestones: [
+      ['SOCIAL', 'calms-when-held', 'Calms down when spoken to or picked up'],
+      ['SOCIAL', 'looks-at-face', 'Looks at your face'],
+      ['SOCIAL', 'happy-to-see-parent', 'Seems happy to see you when you walk up'],
+      ['SOCIAL', 'social-smile', 'Smiles when you talk to or smile at them'],
+      ['LANGUAGE', 'makes-sounds', 'Makes sounds other than crying'],
+      ['LANGUAGE', 'reacts-to-loud-sounds', 'Reacts to loud sounds'],
+      ['COGNITIVE', 'tracks-movement', 'Watches you as you move'],
+      ['COGNITIVE', 'looks-at-toy', 'Looks at a toy for several seconds'],
+      ['GROSS_MOTOR', 'head-up-on-tummy', 'Holds head up when on tummy'],
+      ['GROSS_MOTOR', 'moves-arms-and-legs', 'Moves both arms and both legs'],
+      ['FINE_MOTOR', 'opens-hands', 'Opens hands briefly']
+    ]
+  },
+  {
+    ageMonths: 4,
+    overdueMonths: 6,
+    milestones: [
+      ['SOCIAL', 'smiles-for-attention', 'Smiles on their own to get your attention'],
+      ['SOCIAL', 'chuckles', 'Chuckles when you try to make them laugh'],
+      ['SOCIAL', 'seeks-attention', 'Looks at you, moves, or makes sounds to get or keep your attention'],
+      ['LANGUAGE', 'coos', 'Makes sounds like "oooo" and "aahh" (cooing)'],
+      ['LANGUAGE', 'sounds-back', 'Makes sounds back when you talk to them'],
+      ['LANGUAGE', 'turns-to-voice', 'Turns head towards the sound of your voice'],
+      ['COGNITIVE', 'opens-mouth-for-feed', 'If hungry, opens mouth when they see breast or bottle'],
+      ['COGNITIVE', 'looks-at-hands', 'Looks at their hands with interest'],
+      ['GROSS_MOTOR', 'head-steady', 'Holds head steady without support when held'],
+      ['GROSS_MOTOR', 'pushes-up-on-elbows', 'Pushes up onto elbows or forearms when on tummy'],
+      ['FINE_MOTOR', 'holds-toy', 'Holds a toy when you put it in their hand'],
+      ['FINE_MOTOR', 'swings-at-toys', 'Uses an arm to swing at toys'],
+      ['FINE_MOTOR', 'hands-to-mouth', 'Brings hands to mouth']
+    ]
+  },
+  {
+    ageMonths: 6,
+    overdueMonths: 9,
+    milestones: [
+      ['SOCIAL', 'knows-familiar-people', 'Knows familiar people'],
+      ['SOCIAL', 'likes-mirror', 'Likes to look at themselves in a mirror'],
+      ['SOCIAL', 'laughs', 'Laughs'],
+      ['LANGUAGE', 'takes-turns-sounds', 'Takes turns making sounds with you'],
+      ['LANGUAGE', 'blows-raspberries', 'Blows "raspberries" (sticks tongue out and blows)'],
+      ['LANGUAGE', 'squeals', 'Makes squealing noises'],
+      ['COGNITIVE', 'mouths-objects', 'Puts things in their mouth to explore them'],
+      ['COGNITIVE', 'reaches-for-toy', 'Reaches to grab a toy they want'],
+      ['COGNITIVE', 'closes-lips-when-full', "Closes lips to show they don't want more food"],
+      ['GROSS_MOTOR', 'rolls-tummy-to-back', 'Rolls from tummy to back'],
+      ['GROSS_MOTOR', 'pushes-up-straight-arms', 'Pushes up with straight arms when on tummy'],
+      ['GROSS_MOTOR', 'leans-on-hands-sitting', 'Leans on hands to support themselves when sitting']
+    ]
+  },
+  {
+    ageMonths: 9,
+    overdueMonths: 12,
+    milestones: [
+      ['SOCIAL', 'stranger-wary', 'Is shy, clingy, or fearful around strangers'],
+      ['SOCIAL', 'facial-expressions', 'Shows several facial expressions, like happy, sad, angry, and surprised'],
+      ['SOCIAL', 'responds-to-name', 'Looks when you call their name'],
+      ['SOCIAL', 'reacts-when-parent-leaves', 'Reacts when you leave (looks, reaches for you, or cries)'],
+      ['SOCIAL', 'plays-peekaboo', 'Smiles or laughs when you play peek-a-boo'],
+      ['LANGUAGE', 'babbles', 'Makes a lot of different sounds like "mamamama" and "babababa"'],
+      ['LANGUAGE', 'lifts-arms-to-be-picked-up', 'Lifts arms up to be picked up'],
+      ['COGNITIVE', 'looks-for-dropped-objects', 'Looks for objects when dropped out of sight'],
+      ['COGNITIVE', 'bangs-objects', 'Bangs two things together'],
+      ['GROSS_MOTOR', 'gets-to-sitting', 'Gets to a sitting position by themselves'],
+      ['GROSS_MOTOR', 'sits-without-support', 'Sits without support'],
+      ['FINE_MOTOR', 'transfers-objects', 'Moves things from one hand to the other'],
+      ['FINE_MOTOR', 'rakes-food', 'Uses fingers to "rake" food towards themselves']
+    ]
+  },
+  {
+    ageMonths: 12,
+    overdueMonths: 15,
+    milestones: [
+      ['SOCIAL', 'plays-pat-a-cake', 'Plays games with you, like pat-a-cake'],
+      ['LANGUAGE', 'waves-bye', 'Waves "bye-bye"'],
+      ['LANGUAGE', 'says-mama-dada', 'Calls a parent "mama", "dada", or another special name'],
+      ['LANGUAGE', 'understands-no', 'Understands "no" (pauses briefly or stops when you say it)'],
+      ['COGNITIVE', 'puts-in-container', 'Puts something in a container, like a block in a cup'],
+      ['COGNITIVE', 'finds-hidden-objects', 'Looks for things they see you hide'],
+      ['GROSS_MOTOR', 'pulls-to-stand', 'Pulls up to stand'],
+      ['GROSS_MOTOR', 'cruises', 'Walks, holding on to furniture'],
+      ['FINE_MOTOR', 'drinks-from-held-cup', 'Drinks from a cup without a lid, as you hold it'],
+      ['FINE_MOTOR', 'pincer-grasp', 'Picks things up between thumb and pointer finger']
+    ]
+  },
+  {
+    ageMonths: 15,
+    overdueMonths: 18,
+    milestones: [
+      ['SOCIAL', 'copies-children', 'Copies other children while playing'],
+      ['SOCIAL', 'shows-objects', 'Shows you an object they like'],
+      ['SOCIAL', 'claps-when-excited', 'Claps when excited'],
+      ['SOCIAL', 'hugs-toy', 'Hugs a stuffed doll or other toy'],
+      ['SOCIAL', 'shows-affection', 'Shows you affection (hugs, cuddles, or kisses you)'],
+      ['LANGUAGE', 'says-one-or-two-words', 'Tries to say one or two words besides "mama" or "dada"'],
+      ['LANGUAGE', 'looks-at-named-object', 'Looks at a familiar object when you name it'],
+      ['LANGUAGE', 'follows-gestured-directions', 'Follows directions given with both a gesture and words'],
+      ['LANGUAGE', 'points-to-ask', 'Points to ask for something or to get help'],
+      ['COGNITIVE', 'uses-objects-correctly', 'Tries to use things the right way, like a phone, cup, or book'],
+      ['COGNITIVE', 'stacks-two-objects', 'Stacks at least two small objects, like blocks'],
+      ['GROSS_MOTOR', 'takes-steps', 'Takes a few steps on their own'],
+      ['FINE_MOTOR', 'finger-feeds', 'Uses fingers to feed themselves some food']
+    ]
+  },
+  {
+    ageMonths: 18,
+    overdueMonths: 24,
+    milestones: [
+      ['SOCIAL', 'checks-parent-nearby', 'Moves away from you, but looks to make sure you are close by'],
+      ['SOCIAL', 'points-to-show', 'Points to show you something interesting'],
+      ['SOCIAL', 'holds-out-hands-to-wash', 'Puts hands out for you to wash them'],
+      ['SOCIAL', 'looks-at-book', 'Looks at a few pages in a book with you'],
+      ['SOCIAL', 'helps-dress', 'Helps you dress them by pushing an arm through a sleeve or lifting a foot'],
+      ['LANGUAGE', 'says-three-words', 'Tries to say three or more words besides "mama" or "dada"'],
+      ['LANGUAGE', 'follows-one-step-directions', 'Follows one-step directions without any gestures'],
+      ['COGNITIVE', 'copies-chores', 'Copies you doing chores, like sweeping with a broom'],
+      ['COGNITIVE', 'plays-simply-with-toys', 'Plays with toys in a simple way, like pushing a toy car'],
+      ['GROSS_MOTOR', 'walks-alone', 'Walks without holding on to anyone or anything'],
+      ['GROSS_MOTOR', 'climbs-on-furniture', 'Climbs on and off a couch or chair without help'],
+      ['FINE_MOTOR', 'scribbles', 'Scribbles'],
+      ['FINE_MOTOR', 'drinks-from-open-cup', 'Drinks from a cup without a lid and may spill sometimes'],
+      ['FINE_MOTOR', 'tries-spoon', 'Tries to use a spoon']
+    ]
+  },
+  {
+    ageMonths: 24,
+    overdueMonths: 30,
+    milestones: [
+      ['SOCIAL', 'notices-others-upset', 'Notices when others are hurt or upset'],
+      ['SOCIAL', 'social-referencing', 'Looks at your face to see how to react in a new situation'],
+      ['LANGUAGE', 'points-in-book', 'Points to things in a book when you ask'],
+      ['LANGUAGE', 'two-word-phrases', 'Says at least two words together, like "More milk"'],
+      ['LANGUAGE', 'points-to-body-parts', 'Points to at least two body parts when you ask'],
+      ['LANGUAGE', 'uses-gestures', 'Uses more gestures than just waving and pointing'],
+      ['COGNITIVE', 'uses-both-hands', 'Holds something in one hand while using the other hand'],
+      ['COGNITIVE', 'uses-switches-and-buttons', 'Tries to use switches, knobs, or buttons on a toy'],
+      ['COGNITIVE', 'plays-with-several-toys', 'Plays with more than one toy at the same time'],
+      ['GROSS_MOTOR', 'kicks-ball', 'Kicks a ball'],
+      ['GROSS_MOTOR', 'runs', 'Runs'],
+      ['GROSS_MOTOR', 'walks-up-stairs', 'Walks (not climbs) up a few stairs with or without help'],
+      ['FINE_MOTOR', 'eats-with-spoon', 'Eats with a spoon']
+    ]
+  },
+  {
+    ageMonths: 30,
+    overdueMonths: 36,
+    milestones: [
+      ['SOCIAL', 'plays-alongside-children', 'Plays next to other children and sometimes plays with them'],
+      ['SOCIAL', 'shows-what-they-can-do', 'Shows you what they can do by saying "Look at me!"'],
+      ['SOCIAL', 'follows-routines', 'Follows simple routines when told, like helping to pick up toys'],
+      ['LANGUAGE', 'says-50-words', 'Says about 50 words'],
+      ['LANGUAGE', 'phrases-with-action-word', 'Says two or more words together, with one action word'],
+      ['LANGUAGE', 'names-things-in-book', 'Names things in a book when you point and ask "What is this?"'],
+      ['LANGUAGE', 'uses-pronouns', 'Says words like "I", "me", or "we"'],
+      ['COGNITIVE', 'pretend-play', 'Uses things to pretend, like feeding a block to a doll'],
+      ['COGNITIVE', 'problem-solving', 'Shows simple problem-solving skills, like standing on a stool to reach'],
+      ['COGNITIVE', 'two-step-instructions', 'Follows two-step instructions'],
+      ['COGNITIVE', 'knows-a-colour', 'Shows they know at least one colour'],
+      ['GROSS_MOTOR', 'jumps-with-both-feet', 'Jumps off the ground with both feet'],
+      ['FINE_MOTOR', 'twists-with-hands', 'Uses hands to twist things, like turning doorknobs or unscrewing lids'],
+      ['FINE_MOTOR', 'takes-clothes-off', 'Takes some clothes off by themselves, like loose pants or an open jacket'],
+      ['FINE_MOTOR', 'turns-pages', 'Turns book pages, one at a time, when you read to them']
+    ]
+  },
+  {
+    ageMonths: 36,
+    overdueMonths: 48,
+    milestones: [
+      ['SOCIAL', 'calms-after-separation', 'Calms down within 10 minutes after you leave them'],
+      ['SOCIAL', 'joins-other-children', 'Notices other children and joins them to play'],
+      ['LANGUAGE', 'converses', 'Talks with you in conversation using at least two back-and-forth exchanges'],
+      ['LANGUAGE', 'asks-questions', 'Asks "who", "what", "where", or "why" questions'],
+      ['LANGUAGE', 'describes-picture-action', 'Says what action is happening in a picture or book'],
+      ['LANGUAGE', 'says-first-name', 'Says their first name when asked'],
+      ['LANGUAGE', 'intelligible-speech', 'Talks well enough for others to understand most of the time'],
+      ['COGNITIVE', 'draws-circle', 'Draws a circle when you show them how'],
+      ['COGNITIVE', 'avoids-hot-objects', 'Avoids touching hot objects when you warn them'],
+      ['FINE_MOTOR', 'strings-beads', 'Strings items together, like large beads or macaroni'],
+      ['FINE_MOTOR', 'puts-on-clothes', 'Puts on some clothes by themselves, like loose pants or a jacket'],
+      ['FINE_MOTOR', 'uses-fork', 'Uses a fork']
+    ]
+  },
+  {
+    ageMonths: 48,
+    overdueMonths: 60,
+    milestones: [
+      ['SOCIAL', 'pretends-roles', 'Pretends to be something else during play (teacher, superhero, dog)'],
+      ['SOCIAL', 'asks-to-play', 'Asks to go play with children if none are around'],
+      ['SOCIAL', 'comforts-others', 'Comforts others who are hurt or sad'],
+      ['SOCIAL', 'avoids-danger', 'Avoids danger, like not jumping from tall heights at the playground'],
+      ['SOCIAL', 'likes-to-help', 'Likes to be a "helper"'],
+      [
+        'SOCIAL',
+        'adapts-behaviour',
+        'Changes behaviour based on where they are (place of worship, library, playground)'
+      ],
+      ['LANGUAGE', 'four-word-sentences', 'Says sentences with four or more words'],
+      ['LANGUAGE', 'recites-song-or-story', 'Says some words from a song, story, or nursery rhyme'],
+      ['LANGUAGE', 'talks-about-day', 'Talks about at least one thing that happened during their day'],
+      ['LANGUAGE', 'answers-simple-questions', 'Answers simple questions like "What is a coat for?"'],
+      ['COGNITIVE', 'names-colours', 'Names a few colours of items'],
+      ['COGNITIVE', 'tells-what-comes-next', 'Tells what comes next in a well-known story'],
+      ['COGNITIVE', 'draws-person', 'Draws a person with three or more body parts'],
+      ['GROSS_MOTOR', 'catches-ball', 'Catches a large ball most of the time'],
+      ['FINE_MOTOR', 'serves-food', 'Serves themselves food or pours water, with adult supervision'],
+      ['FINE_MOTOR', 'unbuttons', 'Unbuttons some buttons'],
+      ['FINE_MOTOR', 'tripod-grasp', 'Holds a crayon or pencil between fingers and thumb (not a fist)']
+    ]
+  },
+  {
+    ageMonths: 60,
+    overdueMonths: 72,
+    milestones: [
+      ['SOCIAL', 'follows-game-rules', 'Follows rules or takes turns when playing games with other children'],
+      ['SOCIAL', 'performs', 'Sings, dances, or acts for you'],
+      ['SOCIAL', 'does-chores', 'Does simple chores at home, like matching socks or clearing the table'],
+      ['LANGUAGE', 'tells-story', 'Tells a story they heard or made up with at least two events'],
+      ['LANGUAGE', 'answers-story-questions', 'Answers simple questions about a book or story after you read it'],
+      ['LANGUAGE', 'sustains-conversation', 'Keeps a conversation going with more than three back-and-forth exchanges'],
+      ['LANGUAGE', 'rhymes', 'Uses or recognises simple rhymes (bat-cat, ball-tall)'],
+      ['COGNITIVE', 'counts-to-ten', 'Counts to 10'],
+      ['COGNITIVE', 'names-numbers', 'Names some numbers between 1 and 5 when you point to them'],
+      ['COGNITIVE', 'uses-time-words', 'Uses words about time, like "yesterday", "tomorrow", "morning", or "night"'],
+      ['COGNITIVE', 'attends-5-10-minutes', 'Pays attention for 5 to 10 minutes during activities'],
+      ['COGNITIVE', 'writes-name-letters', 'Writes some letters in their name'],
+      ['COGNITIVE', 'names-letters', 'Names some letters when you point to them'],
+      ['GROSS_MOTOR', 'hops-on-one-foot', 'Hops on one foot'],
+      ['FINE_MOTOR', 'buttons', 'Buttons some buttons']
+    ]
+  }
+];
+
+export const DEVELOPMENTAL_DOMAINS: DevelopmentalDomain[] = [
+  'GROSS_MOTOR',
+  'FINE_MOTOR',
+  'LANGUAGE',
+  'SOCIAL',
+  'COGNITIVE'
+];
+
+export const MILESTONE_CHECKPOINTS = MILESTONE_BANDS.map(band => band.ageMonths);
+
+/**
+ * Every catalogue milestone, keyed `<checkpoint>m-<slug>`, e.g. `9m-sits-without-support`
+ */
+export const MILESTONES: ReadonlyMap<string, MilestoneDefinition> = new Map(
+  MILESTONE_BANDS.flatMap(band =>
+    band.milestones.map(([domain, slug, description]): [string, MilestoneDefinition] => {
+      const code = `${band.ageMonths}m-${slug}`;
+      return [code, { code, domain, description, expectedMonths: band.ageMonths, overdueMonths: band.overdueMonths }];
+    })
+  )
+);
+
+/**
+ * Checkpoint a child of this age is screened at: the latest one reached
+ */
+export function checkpointForAge(ageMonths: number): number | null {
+  return MILESTONE_CHECKPOINTS.filter(checkpoint => checkpoint <= ageMonths).at(-1) ?? null;
+}
@@ -0,0 +1,121 @@
+// src/services/development/screening.ts
+import type { DevelopmentalDomain, DevelopmentStatus } from '../../../generated/client';
+import { checkpointForAge, DEVELOPMENTAL_DOMAINS, MILESTONES, type MilestoneDefinition } from './milestones';
+
+export interface DomainAssessment {
+  /** Achieved milestones listed at a later checkpoint than the child's age */
+  ahead: string[];
+  /** Milestones expected by this age that were assessed */
+  assessed: number;
+  domain: DevelopmentalDomain;
+  /** Not yet achieved past the next checkpoint */
+  overdue: string[];
+  /** Not yet achieved, but still within the window most children reach them in */
+  pending: string[];
+  /** Achieved at an earlier check, now recorded as not achieved */
+  regressed: string[];
+  status: DevelopmentStatus;
+}
+
+export interface OverdueMilestone extends MilestoneDefinition {
+  monthsOverdue: number;
+}
+
+export interface ScreeningResult {
+  ageMonths: number;
+  checkpoint: number | null;
+  domains: Record<DevelopmentalDomain, DomainAssessment>;
+  overdue: OverdueMilestone[];
+  regressed: MilestoneDefinition[];
+}
+
+/**
+ * Latest status of each milestone, and whether it was ever achieved before
+ */
+export interface MilestoneObservation {
+  achieved: boolean;
+  previouslyAchieved: boolean;
+}
+
+/** Achieved milestones from later checkpoints before a domain counts as advanced */
+const ADVANCED_MIN_AHEAD = 2;
+/** Overdue milestones in one domain before it is a concern rather than a delay */
+const CONCERNING_MIN_OVERDUE = 2;
+
+/**
+ * Judges each developmental domain against the milestone catalogue's
+ * age-expected norms
+ */
+export class MilestoneScreener {
+  /**
+   * Per-domain status at an age. A milestone counts once assessed; anything
+   * lost since an earlier check is a concern on its own, as loss of skills is
+   * a red flag at any age.
+   */
+  assess(ageMonths: number, observations: ReadonlyMap<string, MilestoneObservation>): ScreeningResult {
+    const domains = Object.fromEntries(
+      DEVELOPMENTAL_DOMAINS.map(domain => [
+        domain,
+        { domain, status: 'NORMAL', assessed: 0, ahead: [], overdue: [], pending: [], regressed: [] }
+      ])
+    ) as unknown as Record<DevelopmentalDomain, DomainAssessment>;
+    const overdue: OverdueMilestone[] = [];
+    const regressed: MilestoneDefinition[] = [];
+
+    for (const [code, observation] of observations) {
+      const milestone = MILESTONES.get(code);
+      if (!milestone) continue;
+      const domain = domains[milestone.domain];
+
+      if (observation.achieved) {
+        if (milestone.expectedMonths <= ageMonths) domain.assessed++;
+        else domain.ahead.push(code);
+        continue;
+      }
+
+      if (observation.previouslyAchieved) {
+        domain.regressed.push(code);
+        regressed.push(milestone);
+      }
+      if (milestone.expectedMonths > ageMonths) continue;
+
+      domain.assessed++;
+      if (ageMonths >= milestone.overdueMonths) {
+        domain.overdue.push(code);
+        overdue.push({ ...milestone, monthsOverdue: ageMonths - milestone.overdueMonths });
+      } else {
+        domain.pending.push(code);
+      }
+    }
+
+    for (const domain of Object.values(domains)) {
+      domain.status = this.domainStatus(domain);
+    }
+
+    return {
+      ageMonths,
+      checkpoint: checkpointForAge(ageMonths),
+      domains,
+      overdue: overdue.sort((a, b) => b.monthsOverdue - a.monthsOverdue),
+      regressed
+    };
+  }
+
+  /**
+   * The less reassuring of two statuses; used to fold gross and fine motor
+   * into the single motor status
+   */
+  worse(a: DevelopmentStatus, b: DevelopmentStatus): DevelopmentStatus {
+    const rank: Record<DevelopmentStatus, number> = { ADVANCED: 0, NORMAL: 1, DELAYED: 2, CONCERNING: 3 };
+    return rank[a] >= rank[b] ? a : b;
+  }
+
+  private domainStatus(domain: DomainAssessment): DevelopmentStatus {
+    if (domain.regressed.length || domain.overdue.length >= CONCERNING_MIN_OVERDUE) return 'CONCERNING';
+    if (domain.overdue.length) return 'DELAYED';
+    if (domain.ahead.length >= ADVANCED_MIN_AHEAD && !domain.pending.length) return 'ADVANCED';
+    return 'NORMAL';
+  }
+}
+
+export const milestoneScreener = new MilestoneScreener();
@@ -12,22 +12,32 @@ import { randomUUID } from 'node:crypto';
 
 import { logger } from '@naroto/logger';
 import { CACHE_KEYS, CACHE_TTL } from '@naroto/redis/cache-keys';
-import { isBefore, isSameDay, isValid, parseISO, set, startOfDay } from 'date-fns';
-import { format as formatTz, toZonedTime } from 'date-fns-tz';
+import { differenceInCalendarDays, isBefore, isValid, startOfDay } from 'date-fns';
 import { z } from 'zod';
 
 import { Prisma, type PrismaClient } from '../../generated/client';
-import { db, prisma } from '../client';
-import { ApiError, AppError, NotFoundError, ValidationError } from '../error';
+import { prisma } from '../client';
+import { AppError, NotFoundError, ValidationError } from '../error';
+import * as appointmentRepo from '../repositories/appointment.repo';
+import * as clinicRepo from '../repositories/clinic.repo';
 import * as doctorRepo from '../repositories/doctor.repo';
 import type { Doctor } from '../types';
-import { generateTimeSlots, toNumber } from '../utils';
+import { toNumber } from '../utils';
+import { zonedCalendar } from '../utils/date/timezone';
 import { processAppointments } from '../utils/helper';
-import { type CreateDoctorInput, WorkingDaySchema } from '../zodSchemas';
+import {
+  type CreateDoctorInput,
+  type DoctorBreakInput,
+  DoctorBreakSchema,
+  type ScheduleExceptionFilter,
+  ScheduleExceptionFilterSchema,
+  type ScheduleExceptionInput,
+  ScheduleExceptionSchema,
+  WorkingDaySchema
+} from '../zodSchemas';
+import { doctorSchedule, timeToMinutes, weekdayIndex } from './appointment/schedule';
 import { cacheService } from './cache.service';
 
-// const DEFAULT_TIMEZONE = 'Africa/Cairo';
-
 // ==================== TYPE DEFINITIONS ====================
 
 export type UpdateDoctorInput = Partial<CreateDoctorInput> & { id: string };
@@ -75,6 +85,7 @@ export interface DoctorWithAppointmentsResult {
 
 export class DoctorService {
   private readonly CACHE_ENABLED = process.env.CACHE_ENABLED === 'true';
+  private readonly MAX_SCHEDULE_RANGE_DAYS = 62;
   private readonly DAYS_OF_WEEK = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
 
   constructor(private readonly db: typeof prisma = prisma) {}
@@ -198,21 +209,22 @@ export class DoctorService {
         if (cached) return cached;
       }
 
-      const today = new Date();
-      const dayName = this.DAYS_OF_WEEK[today.getDay()];
+      // "Today" and its weekday are the clinic's, not the server's
+      const timeZone = await this.clinicTimeZone(validatedClinicId);
+      const today = zonedCalendar.today(timeZone);
+      const dayName = this.DAYS_OF_WEEK[zonedCalendar.weekday(today)];
+      const day = zonedCalendar.dayRange(today, timeZone);
 
-      const doctors = await doctorRepo.findDoctorsWorkingOnDay(this.db, validatedClinicId, dayName ?? 'monday', 50);
+      const [doctors, appointments] = await Promise.all([
+        doctorRepo.findDoctorsWorkingOnDay(this.db, validatedClinicId, dayName ?? 'monday', 50),
+        appointmentRepo.findTodayAppointments(this.db, validatedClinicId, day.start, day.end)
+      ]);
 
       // Enhance with appointments
-      const schedule = await Promise.all(
-        doctors.map(async doctor => {
-          const appointments = await this.getDoctorAppointmentsForDate(doctor.id, validatedClinicId, today);
-          return {
-            ...doctor,
-            appointments
-          };
-        })
-      );
+      const schedule = doctors.map(doctor => ({
+        ...doctor,
+        appointments: appointments.filter(apt => apt.doctorId === doctor.id)
+      }));
 
       // Cache result (short TTL for schedule)
       if (this.CACHE_ENABLED) {
@@ -248,7 +260,8 @@ export class DoctorService {
         if (cached) return cached;
       }
 
-      const dayName = this.DAYS_OF_WEEK[targetDate.getDay()];
+      const timeZone = await this.clinicTimeZone(validatedClinicId);
+      const dayName = this.DAYS_OF_WEEK[zonedCalendar.weekday(zonedCalendar.dateKey(targetDate, timeZone))];
 
       const doctors = await doctorRepo.findDoctorsWorkingOnDay(this.db, validatedClinicId, dayName ?? 'monday', 100);
 
@@ -637,10 +650,11 @@ export class DoctorService {
     const validatedId = z.uuid().parse(doctorId);
     const validatedClinicId = z.uuid().parse(clinicId);
 
-    // Validate working days
+    // Validate working days; several rows for the same day describe a split shift
     for (const day of workingDays) {
       WorkingDaySchema.parse(day);
     }
+    this.assertValidScheduleWindows(workingDays);
 
     return this.db
       .$transaction(async (tx: Prisma.TransactionClient) => {
@@ -687,118 +701,191 @@ export class DoctorService {
       });
   }
 
-  // ==================== PRIVATE HELPER METHODS ====================
-
   /**
-   * Validate that a doctor belongs to a clinic
+   * Get doctor recurring breaks
    */
-  private async validateDoctorBelongsToClinic(doctorId: string, clinicId: string) {
-    const doctor = await doctorRepo.findDoctorById(this.db, doctorId, clinicId);
-    if (!doctor) {
-      throw new NotFoundError('Doctor', doctorId);
-    }
-    return doctor;
+  async getDoctorBreaks(doctorId: string, clinicId: string) {
+    const validatedId = z.uuid().parse(doctorId);
+    const validatedClinicId = z.uuid().parse(clinicId);
+
+    await this.validateDoctorBelongsToClinic(validatedId, validatedClinicId);
+
+    return doctorRepo.findDoctorBreaks(this.db, validatedId);
   }
 
   /**
-   * Get doctor appointments for a specific date
+   * Replace doctor recurring breaks (e.g. lunch) carved out of the working days
    */
-  private async getDoctorAppointmentsForDate(_doctorId: string, _clinicId: string, date: Date) {
-    const startDate = new Date(date);
-    startDate.setHours(0, 0, 0, 0);
+  async updateBreaks(doctorId: string, clinicId: string, breaks: DoctorBreakInput[]) {
+    const validatedId = z.uuid().parse(doctorId);
+    const validatedClinicId = z.uuid().parse(clinicId);
+    const validatedBreaks = z.array(DoctorBreakSchema).parse(breaks);
 
-    const endDate = new Date(date);
-    endDate.setHours(23, 59, 59, 999);
+    this.assertValidScheduleWindows(validatedBreaks);
 
-    // This would need to be implemented in appointment repo
-    // For now, return empty array
-    return [];
-  }
-}
+    return this.db
+      .$transaction(async (tx: Prisma.TransactionClient) => {
+        const doctor = await doctorRepo.findDoctorById(tx as unknown as PrismaClient, validatedId, validatedClinicId);
+        if (!doctor) {
+          throw new NotFoundError('Doctor', validatedId);
+        }
 
-const TIMEZONE = 'Africa/Cairo';
+        await doctorRepo.deleteDoctorBreaks(tx as unknown as PrismaClient, validatedId);
 
-// Export singleton instance
-export const doctorService = new DoctorService();
+        const created = await doctorRepo.createDoctorBreaks(
+          tx as unknown as PrismaClient,
+          validatedBreaks.map(b => ({
+            doctorId: validatedId,
+            clinicId: validatedClinicId,
+            day: b.day,
+            startTime: b.startTime,
+            endTime: b.endTime,
+            label: b.label ?? null
+          }))
+        );
 
-export async function getDoctorAvailableTimes(doctorId: string, date: string) {
-  const doctor = await db.doctor.findFirst({ where: { id: doctorId } });
+        logger.info('Doctor breaks updated', { doctorId: validatedId, count: created.count });
 
-  if (!doctor) {
-    throw new ApiError(404, 'Doctor not found', 'DOCTOR_NOT_FOUND');
+        return created;
+      })
+      .then(async result => {
+        if (this.CACHE_ENABLED) {
+          await cacheService.invalidate(CACHE_KEYS.DOCTOR(validatedId, validatedClinicId));
+        }
+
+        return result;
+      });
   }
 
-  const selectedDate = parseISO(date);
-  const selectedDayOfWeek = selectedDate.getDay(); // 0 = Sunday ... 6 = Saturday
+  /**
+   * Resolved working windows for each date in a range (template, breaks and exceptions applied)
+   */
+  async getDoctorSchedule(doctorId: string, clinicId: string, from: Date, to: Date) {
+    const validatedId = z.uuid().parse(doctorId);
+    const validatedClinicId = z.uuid().parse(clinicId);
+
+    if (isBefore(to, from)) {
+      throw new ValidationError('Schedule range end must not be before its start');
+    }
+    if (differenceInCalendarDays(to, from) > this.MAX_SCHEDULE_RANGE_DAYS) {
+      throw new ValidationError(`Schedule range cannot exceed ${this.MAX_SCHEDULE_RANGE_DAYS} days`);
+    }
+
+    await this.validateDoctorBelongsToClinic(validatedId, validatedClinicId);
 
-  // Ensure availableFromWeekDay and availableToWeekDay are not null before comparison
-  if (doctor.availableToWeekDay === null || doctor.availableToWeekDay === null) {
-    return [];
+    return doctorSchedule.getSchedules(validatedId, from, to);
   }
-  const doctorIsAvailable =
-    selectedDayOfWeek >= doctor.availableToWeekDay && selectedDayOfWeek <= doctor.availableToWeekDay; // This line is now safe
-  if (!doctorIsAvailable) {
-    return [];
+
+  /**
+   * List schedule exceptions (leave, holidays, closures, extra sessions)
+   */
+  async getScheduleExceptions(clinicId: string, filter: ScheduleExceptionFilter = {}) {
+    const validatedClinicId = z.uuid().parse(clinicId);
+    const validated = ScheduleExceptionFilterSchema.parse(filter);
+
+    return doctorRepo.findScheduleExceptionsByClinic(this.db, validatedClinicId, {
+      doctorId: validated.doctorId,
+      from: validated.from ? this.toCalendarDate(validated.from) : undefined,
+      to: validated.to ? this.toCalendarDate(validated.to) : undefined
+    });
   }
 
-  const appointments = await db.appointment.findMany({ where: { doctorId } });
+  /**
+   * Add a date-specific exception for one doctor, or for the whole clinic when no doctor is given
+   */
+  async addScheduleException(clinicId: string, input: ScheduleExceptionInput) {
+    const validatedClinicId = z.uuid().parse(clinicId);
+    const validated = ScheduleExceptionSchema.parse(input);
 
-  // Filter appointments on the selected date
-  const appointmentsOnDate = appointments
-    .filter((a: { appointmentDate: Date }) => isSameDay(a.appointmentDate, selectedDate))
-    .map((a: { appointmentDate: Date }) =>
-      formatTz(toZonedTime(a.appointmentDate, TIMEZONE), 'HH:mm:ss', {
-        timeZone: TIMEZONE
-      })
-    );
+    if (validated.doctorId) {
+      await this.validateDoctorBelongsToClinic(validated.doctorId, validatedClinicId);
+    }
 
-  const slots = generateTimeSlots();
-
-  const doctorFrom = set(new Date(), {
-    hours: Number(doctor.availableFromTime?.split(':')[0]),
-    minutes: Number(doctor.availableFromTime?.split(':')[1]),
-    seconds: 0,
-    milliseconds: 0
-  });
-
-  const doctorTo = set(new Date(), {
-    hours: Number(doctor.availableToTime?.split(':')[0]),
-    minutes: Number(doctor.availableToTime?.split(':')[1]),
-    seconds: 0,
-    milliseconds: 0
-  });
-
-  const validSlots = slots.filter(time => {
-    const slot = set(new Date(), {
-      hours: Number(time.split(':')[0]),
-      minutes: Number(time.split(':')[1]),
-      seconds: 0,
-      milliseconds: 0
+    const exception = await doctorRepo.createScheduleException(this.db, {
+      clinicId: validatedClinicId,
+      doctorId: validated.doctorId ?? null,
+      date: this.toCalendarDate(validated.date),
+      type: validated.type,
+      startTime: validated.startTime ?? null,
+      endTime: validated.endTime ?? null,
+      reason: validated.reason ?? null
     });
-    return slot >= doctorFrom && slot <= doctorTo;
-  });
-
-  const today = formatTz(toZonedTime(new Date(), TIMEZONE), 'yyyy-MM-dd', {
-    timeZone: TIMEZONE
-  });
-  const now = toZonedTime(new Date(), TIMEZONE);
-
-  return validSlots.map(time => {
-    let available = !appointmentsOnDate.includes(time);
-
-    if (date === today) {
-      const slotTime = set(now, {
-        hours: Number(time.split(':')[0]),
-        minutes: Number(time.split(':')[1]),
-        seconds: 0,
-        milliseconds: 0
-      });
-      if (isBefore(slotTime, now)) {
-        available = false;
+
+    logger.info('Schedule exception added', {
+      exceptionId: exception.id,
+      clinicId: validatedClinicId,
+      doctorId: validated.doctorId ?? undefined,
+      exceptionType: validated.type
+    });
+
+    return exception;
+  }
+
+  /**
+   * Remove a schedule exception
+   */
+  async removeScheduleException(id: string, clinicId: string) {
+    const validatedId = z.uuid().parse(id);
+    const validatedClinicId = z.uuid().parse(clinicId);
+
+    const result = await doctorRepo.deleteScheduleException(this.db, validatedId, validatedClinicId);
+    if (!result.count) {
+      throw new NotFoundError('Schedule exception', validatedId);
+    }
+
+    logger.info('Schedule exception removed', { exceptionId: validatedId, clinicId: validatedClinicId });
+
+    return { success: true };
+  }
+
+  // ==================== PRIVATE HELPER METHODS ====================
+
+  /**
+   * Reject unknown day names and empty or inverted time windows
+   */
+  private assertValidScheduleWindows(windows: doctorRepo.WorkingDayInput[]) {
+    for (const window of windows) {
+      if (weekdayIndex(window.day) === null) {
+        throw new ValidationError(`Unknown day: ${window.day}`);
+      }
+      if (timeToMinutes(window.startTime) >= timeToMinutes(window.endTime)) {
+        throw new ValidationError(`${window.day}: start time must be before end time`, {
+          startTime: window.startTime,
+          endTime: window.endTime
+        });
       }
     }
+  }
+
+  /**
+   * Store "yyyy-MM-dd" calendar dates as UTC midnight, matching the DATE column
+   */
+  private toCalendarDate(date: string): Date {
+    return new Date(`${date}T00:00:00.000Z`);
+  }
+
+  /**
+   * Validate that a doctor belongs to a clinic
+   */
+  private async validateDoctorBelongsToClinic(doctorId: string, clinicId: string) {
+    const doctor = await doctorRepo.findDoctorById(this.db, doctorId, clinicId);
+    if (!doctor) {
+      throw new NotFoundError('Doctor', doctorId);
+    }
+    return doctor;
+  }
+
+  /**
+   * The clinic's IANA timezone, UTC when unset
+   */
+  private async clinicTimeZone(clinicId: string): Promise<string> {
+    const clinic = await clinicRepo.findClinicTimezone(this.db, clinicId);
+    return zonedCalendar.resolve(clinic?.timezone);
+  }
+}
+
+// Export singleton instance
+export const doctorService = new DoctorService();
 
-    return { value: time, available, label: time.slice(0, 5) };
-  });
-} // Export service class for testing
+// Export service class for testing
 export default DoctorService;
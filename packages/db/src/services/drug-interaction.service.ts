@@ -0,0 +1,219 @@
+// src/services/drug-interaction.service.ts
+import { logger } from '@naroto/logger';
+
+import type { InteractionSeverity, PrismaClient } from '../../generated/client';
+import { prisma } from '../client';
+import * as auditRepo from '../repositories/audit.repo';
+import * as drugInteractionRepo from '../repositories/drug-interaction.repo';
+import type { DrugInteractionDataset } from '../zodSchemas/prescription.schema';
+
+const SEVERITY_RANK: Record<InteractionSeverity, number> = {
+  MILD: 1,
+  MODERATE: 2,
+  SEVERE: 3,
+  CONTRAINDICATED: 4
+};
+
+export interface InteractionDrug {
+  brandNames: string[];
+  drugClasses: string[];
+  genericName: string | null;
+  id: string;
+  /** Lower case; a combination product interacts as each of them */
+  ingredients: string[];
+  name: string;
+}
+
+export interface DrugInteractionMatch {
+  /** Set when the second drug comes from one of the patient's active prescriptions */
+  activePrescriptionId: string | null;
+  drugs: [{ id: string; name: string }, { id: string; name: string }];
+  interactionId: string;
+  management: string;
+  /** Dataset entries that matched, e.g. "aminoglycoside" for a class-level entry */
+  matchedOn: [string, string];
+  mechanism: string;
+  severity: InteractionSeverity;
+}
+
+/**
+ * Checks drugs against the local interaction table. Entries name a drug or a
+ * drug class on each side, so a drug is matched by its name and by every
+ * class it belongs to; a pair matching several entries takes the most severe.
+ */
+export class DrugInteractionService {
+  constructor(private readonly db: typeof prisma = prisma) {}
+
+  /**
+   * Interactions among the drugs, and with the patient's active
+   * prescriptions when a patient is given; most severe first
+   */
+  async check(
+    drugIds: string[],
+    options: { clinicId?: string; excludePrescriptionId?: string; patientId?: string } = {}
+  ): Promise<DrugInteractionMatch[]> {
+    const { patientId, ...activeOptions } = options;
+    const [drugs, active] = await Promise.all([
+      drugInteractionRepo.findInteractionDrugs(this.db, [...new Set(drugIds)]),
+      patientId ? drugInteractionRepo.findActivePrescriptionDrugs(this.db, patientId, activeOptions) : []
+    ]);
+
+    return this.findInteractions(
+      drugIds.map(id => drugs.find(drug => drug.id === id)).filter((drug): drug is InteractionDrug => !!drug),
+      active.map(item => ({ drug: item.drug, prescriptionId: item.prescriptionId }))
+    );
+  }
+
+  /**
+   * Below moderate, interactions are shown but do not stop prescribing
+   */
+  requiresOverride(interactions: DrugInteractionMatch[]): boolean {
+    return interactions.some(interaction => SEVERITY_RANK[interaction.severity] >= SEVERITY_RANK.MODERATE);
+  }
+
+  /**
+   * Keep a record of who prescribed through interaction warnings, and why
+   */
+  async recordOverride(
+    db: PrismaClient,
+    override: {
+      clinicId: string;
+      interactions: DrugInteractionMatch[];
+      prescriptionId: string;
+      reason: string;
+      userId: string;
+    }
+  ) {
+    return auditRepo.createAuditLog(db, {
+      userId: override.userId,
+      clinicId: override.clinicId,
+      action: 'INTERACTION_OVERRIDE',
+      level: 'warn',
+      model: 'Prescription',
+      resource: 'prescription',
+      resourceId: override.prescriptionId,
+      recordId: override.prescriptionId,
+      message: `Prescribed despite ${override.interactions.length} drug interaction(s)`,
+      details: override.reason,
+      metadata: override.interactions.map(interaction => ({
+        interactionId: interaction.interactionId,
+        severity: interaction.severity,
+        drugs: interaction.drugs.map(drug => drug.name),
+        activePrescriptionId: interaction.activePrescriptionId
+      }))
+    });
+  }
+
+  /**
+   * Load an interaction dataset. Entries are updated in place by their pair
+   * of subjects, and the classes of each listed drug are replaced.
+   */
+  async importDataset(dataset: DrugInteractionDataset) {
+    const classesByDrug = new Map<string, string[]>();
+    for (const [drugClass, members] of Object.entries(dataset.classes)) {
+      for (const name of members) {
+        const key = name.trim();
+        classesByDrug.set(key, [...(classesByDrug.get(key) ?? []), this.subject(drugClass)]);
+      }
+    }
+
+    const unknownDrugs: string[] = [];
+    for (const [name, drugClasses] of classesByDrug) {
+      const { count } = await drugInteractionRepo.updateDrugClasses(this.db, name, drugClasses);
+      if (!count) unknownDrugs.push(name);
+    }
+
+    for (const entry of dataset.interactions) {
+      const [subjectA, subjectB] = [this.subject(entry.a), this.subject(entry.b)].sort() as [string, string];
+      await drugInteractionRepo.upsertInteraction(this.db, {
+        subjectA,
+        subjectB,
+        severity: entry.severity,
+        mechanism: entry.mechanism,
+        management: entry.management,
+        source: entry.source ?? null
+      });
+    }
+
+    logger.info('Drug interaction dataset imported', {
+      interactions: dataset.interactions.length,
+      classifiedDrugs: classesByDrug.size - unknownDrugs.length,
+      unknownDrugs: unknownDrugs.length
+    });
+
+    return {
+      interactions: dataset.interactions.length,
+      classifiedDrugs: classesByDrug.size - unknownDrugs.length,
+      unknownDrugs
+    };
+  }
+
+  // ==================== HELPERS ====================
+
+  private async findInteractions(
+    drugs: InteractionDrug[],
+    active: Array<{ drug: InteractionDrug; prescriptionId: string }>
+  ): Promise<DrugInteractionMatch[]> {
+    const pairs: Array<{ first: InteractionDrug; second: InteractionDrug; prescriptionId: string | null }> = [];
+    drugs.forEach((first, i) => {
+      for (const second of drugs.slice(i + 1)) {
+        if (second.id !== first.id) pairs.push({ first, second, prescriptionId: null });
+      }
+      for (const item of active) {
+        if (item.drug.id !== first.id) pairs.push({ first, second: item.drug, prescriptionId: item.prescriptionId });
+      }
+    });
+    if (!pairs.length) return [];
+
+    const subjects = [...new Set([...drugs, ...active.map(item => item.drug)].flatMap(drug => this.subjectsOf(drug)))];
+    const entries = await drugInteractionRepo.findInteractionsBetween(this.db, subjects);
+
+    const matches: DrugInteractionMatch[] = [];
+    for (const { first, second, prescriptionId } of pairs) {
+      const firstSubjects = this.subjectsOf(first);
+      const secondSubjects = this.subjectsOf(second);
+
+      const entry = entries
+        .filter(
+          e =>
+            (firstSubjects.includes(e.subjectA) && secondSubjects.includes(e.subjectB)) ||
+            (firstSubjects.includes(e.subjectB) && secondSubjects.includes(e.subjectA))
+        )
+        .sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity])[0];
+      if (!entry) continue;
+
+      const firstIsA = firstSubjects.includes(entry.subjectA) && secondSubjects.includes(entry.subjectB);
+      matches.push({
+        interactionId: entry.id,
+        drugs: [
+          { id: first.id, name: first.name },
+          { id: second.id, name: second.name }
+        ],
+        matchedOn: firstIsA ? [entry.subjectA, entry.subjectB] : [entry.subjectB, entry.subjectA],
+        severity: entry.severity,
+        mechanism: entry.mechanism,
+        management: entry.management,
+        activePrescriptionId: prescriptionId
+      });
+    }
+
+    return matches.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+  }
+
+  /**
+   * Names the dataset may list a drug under: its name, generic and brand
+   * names and ingredients, and its classes
+   */
+  private subjectsOf(drug: InteractionDrug): string[] {
+    const names = [drug.name, drug.genericName, ...drug.brandNames, ...drug.ingredients].filter(
+      (name): name is string => !!name
+    );
+    return [...new Set([...names.map(name => this.subject(name)), ...drug.drugClasses])];
+  }
+
+  private subject(value: string): string {
+    return value.trim().toLowerCase();
+  }
+}
+
+export const drugInteractionService = new DrugInteractionService();
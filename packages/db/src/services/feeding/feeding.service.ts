@@ -0,0 +1,190 @@
+// src/services/feeding/feeding.service.ts
+import { logger } from '@naroto/logger';
+import { CACHE_KEYS } from '@naroto/redis/cache-keys';
+
+import { prisma } from '../../client';
+import { NotFoundError, ValidationError } from '../../error';
+import * as clinicRepo from '../../repositories/clinic.repo';
+import * as feedingRepo from '../../repositories/feeding.repo';
+import { zonedCalendar } from '../../utils/date/timezone';
+import type {
+  CreateFeedingLogInput,
+  FeedingLogListInput,
+  UpdateFeedingLogInput
+} from '../../zodSchemas/feeding.schema';
+import { cacheService } from '../cache.service';
+import { gestationalAgeInDays, resolveGrowthAge } from '../growth/corrected-age';
+import { type FeedingSummary, feedingAnalyzer } from './intake';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+/** Weights further back than this are not used to judge current weight gain */
+const WEIGHT_LOOKBACK_DAYS = 28;
+
+export type FeedingPatient = NonNullable<Awaited<ReturnType<typeof feedingRepo.findFeedingPatient>>>;
+
+export class FeedingService {
+  constructor(private readonly db: typeof prisma = prisma) {}
+
+  // ==================== READ OPERATIONS ====================
+
+  async getLogs(input: FeedingLogListInput) {
+    const patient = await this.getPatient(input.patientId, input.clinicId);
+
+    const [logs, total] = await Promise.all([
+      feedingRepo.findFeedingLogsByPatient(this.db, patient.id, input),
+      feedingRepo.countFeedingLogsByPatient(this.db, patient.id, input)
+    ]);
+
+    return { logs, total };
+  }
+
+  async getLogById(id: string, clinicId: string) {
+    const log = await feedingRepo.findFeedingLogById(this.db, id, clinicId);
+    if (!log) {
+      throw new NotFoundError('Feeding log', id);
+    }
+    return log;
+  }
+
+  /**
+   * Intake, feed frequency, breast balance and weight gain over the last
+   * `days`, flagged against what is expected for age and weight
+   */
+  async getSummary(patientId: string, clinicId: string, days = 7): Promise<FeedingSummary> {
+    const patient = await this.getPatient(patientId, clinicId);
+    return this.summarize(patient, days);
+  }
+
+  /**
+   * Summary for a patient already loaded; the patient dashboard and full
+   * record use this to avoid a second lookup
+   */
+  async summarize(patient: FeedingPatient, days = 7): Promise<FeedingSummary> {
+    const to = new Date();
+    // Feeds are grouped by the clinic's calendar day
+    const clinic = await clinicRepo.findClinicTimezone(this.db, patient.clinicId);
+    const timeZone = zonedCalendar.resolve(clinic?.timezone);
+    // Whole days, so the first day of the window is not read as a short one
+    const from = zonedCalendar.dayRange(
+      zonedCalendar.addDays(zonedCalendar.today(timeZone, to), -days),
+      timeZone
+    ).start;
+    const weightsFrom = new Date(to.getTime() - Math.max(days, WEIGHT_LOOKBACK_DAYS) * MS_PER_DAY);
+
+    const [logs, weights, earlier] = await Promise.all([
+      feedingRepo.findFeedingLogsByPatient(this.db, patient.id, { from, to }),
+      feedingRepo.findPlausibleWeights(this.db, patient.id, weightsFrom),
+      feedingRepo.findLatestPlausibleWeight(this.db, patient.id, weightsFrom)
+    ]);
+
+    // Intake per kg still needs a weight when none was taken recently
+    const series = weights.length || !earlier ? weights : [earlier];
+    const age = resolveGrowthAge(
+      patient.dateOfBirth,
+      to,
+      gestationalAgeInDays(patient.gestationalAgeWeeks, patient.gestationalAgeDays)
+    );
+
+    return feedingAnalyzer.summarize(logs, series, age, { from, to, timeZone });
+  }
+
+  // ==================== WRITE OPERATIONS ====================
+
+  async createLog(input: CreateFeedingLogInput) {
+    const patient = await this.getPatient(input.patientId, input.clinicId);
+    const date = input.date ?? new Date();
+    this.validateEntry({ ...input, date }, patient);
+
+    const log = await feedingRepo.createFeedingLog(this.db, {
+      patientId: patient.id,
+      date,
+      type: input.type,
+      duration: input.duration,
+      amount: input.amount,
+      breast: input.breast,
+      notes: input.notes
+    });
+
+    logger.info('Feeding log recorded', { feedingLogId: log.id, patientId: patient.id, feedingType: log.type });
+    await this.invalidatePatient(patient.id);
+
+    return log;
+  }
+
+  async updateLog(input: UpdateFeedingLogInput) {
+    const existing = await this.getLogById(input.id, input.clinicId);
+    const patient = await this.getPatient(existing.patientId, input.clinicId);
+    const { id, clinicId: _clinicId, ...changes } = input;
+
+    this.validateEntry(
+      {
+        date: changes.date ?? existing.date,
+        type: changes.type ?? existing.type,
+        duration: changes.duration ?? existing.duration ?? undefined,
+        amount: changes.amount ?? existing.amount ?? undefined,
+        breast: changes.breast ?? existing.breast
+      },
+      patient
+    );
+
+    const log = await feedingRepo.updateFeedingLog(this.db, id, changes);
+    await this.invalidatePatient(patient.id);
+
+    return log;
+  }
+
+  async deleteLog(id: string, clinicId: string) {
+    const log = await this.getLogById(id, clinicId);
+    await feedingRepo.deleteFeedingLog(this.db, log.id);
+
+    logger.info('Feeding log deleted', { feedingLogId: log.id, patientId: log.patientId });
+    await this.invalidatePatient(log.patientId);
+
+    return { success: true };
+  }
+
+  // ==================== HELPERS ====================
+
+  private async getPatient(patientId: string, clinicId: string): Promise<FeedingPatient> {
+    const patient = await feedingRepo.findFeedingPatient(this.db, patientId, clinicId);
+    if (!patient) {
+      throw new NotFoundError('Patient', patientId);
+    }
+    return patient;
+  }
+
+  /**
+   * A feed must say how much was taken: a volume for a bottle, time or volume
+   * at the breast. Sides only apply to breastfeeds.
+   */
+  private validateEntry(
+    entry: Pick<CreateFeedingLogInput, 'amount' | 'duration' | 'type'> & { breast?: string | null; date: Date },
+    patient: FeedingPatient
+  ) {
+    if (entry.date > new Date()) {
+      throw new ValidationError('Feeding date cannot be in the future');
+    }
+    if (entry.date < patient.dateOfBirth) {
+      throw new ValidationError('Feeding date cannot be before the date of birth');
+    }
+    if (entry.type === 'FORMULA') {
+      if (entry.amount === undefined) {
+        throw new ValidationError('Formula feeds need the volume taken');
+      }
+      if (entry.breast) {
+        throw new ValidationError('Formula feeds cannot record a breast side');
+      }
+    } else if (entry.duration === undefined && entry.amount === undefined) {
+      throw new ValidationError('Breastfeeds need a duration or the volume taken');
+    }
+  }
+
+  /**
+   * Feeding analytics are part of the cached patient record and dashboard
+   */
+  private async invalidatePatient(patientId: string) {
+    await cacheService.invalidate(CACHE_KEYS.PATIENT_FULL(patientId), CACHE_KEYS.PATIENT_DASHBOARD(patientId));
+  }
+}
+
+export const feedingService = new FeedingService();
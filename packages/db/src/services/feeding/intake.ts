@@ -0,0 +1,317 @@
+// src/services/feeding/intake.ts
+import type { FeedingType } from '../../../generated/client';
+import { zonedCalendar } from '../../utils/date/timezone';
+import type { BreastSide } from '../../zodSchemas/feeding.schema';
+import type { GrowthAge } from '../growth/types';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+export type FeedingFlagCode = 'LOW_INTAKE' | 'LOW_FEED_FREQUENCY' | 'POOR_WEIGHT_GAIN' | 'BREAST_IMBALANCE';
+
+export interface FeedingFlag {
+  code: FeedingFlagCode;
+  message: string;
+}
+
+export interface FeedingEntry {
+  amount: number | null;
+  breast: string | null;
+  date: Date;
+  duration: number | null;
+  type: FeedingType;
+}
+
+export interface WeightPoint {
+  date: Date;
+  /** kg */
+  weight: number | null;
+}
+
+export interface DailyFeedingTotal {
+  breastFeeds: number;
+  breastMinutes: number;
+  /** yyyy-MM-dd in the clinic's timezone */
+  date: string;
+  feeds: number;
+  mlPerKg: number | null;
+  volumeMl: number;
+}
+
+export interface BreastBalance {
+  both: number;
+  left: number;
+  leftMinutes: number;
+  /** Share of one-sided feeding on the left, by minutes where recorded and by feeds otherwise */
+  leftShare: number | null;
+  right: number;
+  rightMinutes: number;
+}
+
+export interface ExpectedFeeding {
+  /** Fewest feeds a day a baby this age should be taking */
+  minFeedsPerDay: number | null;
+  /** Milk intake below `min` is under-feeding; null once solids make milk volume alone uninformative */
+  mlPerKgPerDay: { min: number; target: number } | null;
+  /** Slowest acceptable gain; g/kg/day before term-equivalent age, g/day after */
+  weightGain: { min: number; unit: 'g/day' | 'g/kg/day' } | null;
+}
+
+export interface FeedingSummary {
+  averages: {
+    /** Complete days with at least one feed logged */
+    days: number;
+    feedsPerDay: number | null;
+    mlPerDay: number | null;
+    mlPerKgPerDay: number | null;
+  };
+  breastBalance: BreastBalance;
+  daily: DailyFeedingTotal[];
+  expected: ExpectedFeeding;
+  flags: FeedingFlag[];
+  period: { from: Date; to: Date };
+  totalFeeds: number;
+  /** Low measured intake, or poor weight gain on infrequent feeds */
+  underFeeding: boolean;
+  /** Share of feeds with a measured volume; breastfeeds are rarely measured */
+  volumeCoverage: number | null;
+  weight: {
+    /** Gain between the latest weight and one at least a week before it */
+    gain: number | null;
+    gainUnit: 'g/day' | 'g/kg/day';
+    latestKg: number | null;
+    measuredAt: Date | null;
+  };
+}
+
+/** Feeds that must carry a volume before intake per kg is judged */
+const MIN_VOLUME_COVERAGE = 0.8;
+/** Shortest gap between weights a gain is calculated over */
+const MIN_GAIN_INTERVAL_DAYS = 7;
+/** One-sided feeds logged before side balance is judged */
+const MIN_SIDED_FEEDS = 6;
+/** Share of one-sided feeding on one breast beyond which it is imbalanced */
+const BREAST_IMBALANCE_SHARE = 0.7;
+
+/**
+ * Summarises logged feeds against the intake, frequency and weight gain
+ * expected for an infant's age and weight
+ */
+export class FeedingAnalyzer {
+  /**
+   * Expected intake for an age. The first week ramps up from birth by
+   * chronological age; after that term babies are judged at corrected age.
+   * Milk intake is only judged to 6 months, when solids start.
+   */
+  expectedFor(age: GrowthAge): ExpectedFeeding {
+    const days = age.assessmentAgeDays;
+
+    if (age.beforeTermEquivalent) {
+      return {
+        minFeedsPerDay: 8,
+        mlPerKgPerDay: { min: 135, target: 160 },
+        weightGain: { min: 15, unit: 'g/kg/day' }
+      };
+    }
+
+    const minFeedsPerDay = days < 30 ? 8 : days < 91 ? 6 : days < 183 ? 5 : null;
+    // Weight is lost for the first days and regained by about two weeks
+    const minGain = age.chronologicalAgeDays < 14 ? null : days < 91 ? 20 : days < 183 ? 12 : days < 365 ? 6 : null;
+    const weightGain = minGain === null ? null : { min: minGain, unit: 'g/day' as const };
+
+    let mlPerKgPerDay: ExpectedFeeding['mlPerKgPerDay'] = null;
+    if (age.chronologicalAgeDays < 3) mlPerKgPerDay = { min: 60, target: 90 };
+    else if (age.chronologicalAgeDays < 7) mlPerKgPerDay = { min: 100, target: 150 };
+    else if (days < 91) mlPerKgPerDay = { min: 120, target: 150 };
+    else if (days < 183) mlPerKgPerDay = { min: 100, target: 120 };
+
+    return { minFeedsPerDay, mlPerKgPerDay, weightGain };
+  }
+
+  /**
+   * Daily totals, averages and flags for the feeds logged in a period.
+   * Averages cover complete days only, so a day still being logged does not
+   * read as under-feeding; `weights` are plausible weights, oldest first.
+   * Days are the clinic's calendar days in `period.timeZone`.
+   */
+  summarize(
+    logs: FeedingEntry[],
+    weights: WeightPoint[],
+    age: GrowthAge,
+    period: { from: Date; to: Date; timeZone: string }
+  ): FeedingSummary {
+    const expected = this.expectedFor(age);
+    const weighed = weights.filter((w): w is { date: Date; weight: number } => w.weight !== null && w.weight > 0);
+    const latest = weighed.at(-1) ?? null;
+    const weightKg = latest?.weight ?? null;
+
+    const byDay = new Map<string, DailyFeedingTotal>();
+    for (const log of logs) {
+      const date = zonedCalendar.dateKey(log.date, period.timeZone);
+      const day = byDay.get(date) ?? {
+        date,
+        feeds: 0,
+        volumeMl: 0,
+        breastFeeds: 0,
+        breastMinutes: 0,
+        mlPerKg: null
+      };
+      day.feeds++;
+      day.volumeMl += log.amount ?? 0;
+      if (log.type !== 'FORMULA') {
+        day.breastFeeds++;
+        day.breastMinutes += log.duration ?? 0;
+      }
+      byDay.set(date, day);
+    }
+
+    const daily = [...byDay.values()]
+      .sort((a, b) => a.date.localeCompare(b.date))
+      .map(day => ({ ...day, mlPerKg: weightKg ? this.round(day.volumeMl / weightKg) : null }));
+
+    const today = zonedCalendar.dateKey(period.to, period.timeZone);
+    const complete = daily.filter(d => d.date !== today);
+    const averaged = complete.length ? complete : daily;
+    const mean = (values: number[]) =>
+      values.length ? this.round(values.reduce((sum, v) => sum + v, 0) / values.length) : null;
+
+    const measured = logs.filter(l => l.amount !== null && l.amount > 0).length;
+    const volumeCoverage = logs.length ? this.round(measured / logs.length, 2) : null;
+    const mlPerDay = mean(averaged.map(d => d.volumeMl));
+    const averages = {
+      days: averaged.length,
+      feedsPerDay: mean(averaged.map(d => d.feeds)),
+      mlPerDay,
+      mlPerKgPerDay: mlPerDay !== null && weightKg ? this.round(mlPerDay / weightKg) : null
+    };
+
+    const gain = this.weightGain(weighed, expected.weightGain?.unit ?? 'g/day');
+    const breastBalance = this.breastBalance(logs);
+
+    const flags: FeedingFlag[] = [];
+    const intakeMeasured = volumeCoverage !== null && volumeCoverage >= MIN_VOLUME_COVERAGE;
+
+    if (
+      expected.mlPerKgPerDay &&
+      intakeMeasured &&
+      averages.mlPerKgPerDay !== null &&
+      averages.mlPerKgPerDay < expected.mlPerKgPerDay.min
+    ) {
+      flags.push({
+        code: 'LOW_INTAKE',
+        message: `Intake of ${averages.mlPerKgPerDay} ml/kg/day is below the ${expected.mlPerKgPerDay.min} ml/kg/day expected for age`
+      });
+    }
+    if (expected.minFeedsPerDay && averages.feedsPerDay !== null && averages.feedsPerDay < expected.minFeedsPerDay) {
+      flags.push({
+        code: 'LOW_FEED_FREQUENCY',
+        message: `${averages.feedsPerDay} feeds a day; at least ${expected.minFeedsPerDay} are expected at this age`
+      });
+    }
+    if (expected.weightGain && gain !== null && gain < expected.weightGain.min) {
+      flags.push({
+        code: 'POOR_WEIGHT_GAIN',
+        message: `Gaining ${gain} ${expected.weightGain.unit}; at least ${expected.weightGain.min} ${expected.weightGain.unit} is expected`
+      });
+    }
+    if (breastBalance.leftShare !== null) {
+      const share = Math.max(breastBalance.leftShare, 1 - breastBalance.leftShare);
+      if (share > BREAST_IMBALANCE_SHARE) {
+        const side = breastBalance.leftShare > 0.5 ? 'left' : 'right';
+        flags.push({
+          code: 'BREAST_IMBALANCE',
+          message: `${Math.round(share * 100)}% of one-sided breastfeeding is on the ${side}`
+        });
+      }
+    }
+
+    const has = (code: FeedingFlagCode) => flags.some(f => f.code === code);
+    // Low measured intake is enough on its own; infrequent feeds only count
+    // once weight gain confirms it
+    const underFeeding = has('LOW_INTAKE') || (has('POOR_WEIGHT_GAIN') && has('LOW_FEED_FREQUENCY'));
+
+    return {
+      period,
+      totalFeeds: logs.length,
+      daily,
+      averages,
+      volumeCoverage,
+      breastBalance,
+      expected,
+      weight: {
+        latestKg: weightKg,
+        measuredAt: latest?.date ?? null,
+        gain,
+        gainUnit: expected.weightGain?.unit ?? 'g/day'
+      },
+      flags,
+      underFeeding
+    };
+  }
+
+  // ==================== HELPERS ====================
+
+  /**
+   * Gain from the earliest weight at least a week before the latest one
+   */
+  private weightGain(weights: { date: Date; weight: number }[], unit: 'g/day' | 'g/kg/day'): number | null {
+    const latest = weights.at(-1);
+    if (!latest) return null;
+
+    const baseline = weights.find(
+      w => (latest.date.getTime() - w.date.getTime()) / MS_PER_DAY >= MIN_GAIN_INTERVAL_DAYS
+    );
+    if (!baseline) return null;
+
+    const days = (latest.date.getTime() - baseline.date.getTime()) / MS_PER_DAY;
+    const gramsPerDay = ((latest.weight - baseline.weight) * 1000) / days;
+    if (unit === 'g/day') return this.round(gramsPerDay);
+
+    // Preterm gain is judged against the mean weight over the interval
+    return this.round(gramsPerDay / ((latest.weight + baseline.weight) / 2));
+  }
+
+  private breastBalance(logs: FeedingEntry[]): BreastBalance {
+    const balance: BreastBalance = { left: 0, right: 0, both: 0, leftMinutes: 0, rightMinutes: 0, leftShare: null };
+
+    for (const log of logs) {
+      const side = this.side(log.breast);
+      if (side === 'Left') {
+        balance.left++;
+        balance.leftMinutes += log.duration ?? 0;
+      } else if (side === 'Right') {
+        balance.right++;
+        balance.rightMinutes += log.duration ?? 0;
+      } else if (side === 'Both') {
+        balance.both++;
+      }
+    }
+
+    if (balance.left + balance.right >= MIN_SIDED_FEEDS) {
+      const minutes = balance.leftMinutes + balance.rightMinutes;
+      balance.leftShare = this.round(
+        minutes > 0 ? balance.leftMinutes / minutes : balance.left / (balance.left + balance.right),
+        2
+      );
+    }
+
+    return balance;
+  }
+
+  /**
+   * Side as logged; older entries were free text
+   */
+  private side(breast: string | null): BreastSide | null {
+    const value = breast?.trim().toLowerCase();
+    if (value === 'left' || value === 'l') return 'Left';
+    if (value === 'right' || value === 'r') return 'Right';
+    if (value === 'both' || value === 'b') return 'Both';
+    return null;
+  }
+
+  private round(value: number, digits = 1): number {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+  }
+}
+
+export const feedingAnalyzer = new FeedingAnalyzer();
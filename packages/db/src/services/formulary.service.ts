@@ -0,0 +1,229 @@
+// src/services/formulary.service.ts
+import { logger } from '@naroto/logger';
+import { CACHE_KEYS } from '@naroto/redis/cache-keys';
+
+import type { DrugFormulation, Prisma } from '../../generated/client';
+import { prisma } from '../client';
+import { BusinessRuleError, ConflictError, NotFoundError, ValidationError } from '../error';
+import * as formularyRepo from '../repositories/formulary.repo';
+import { formulationCalculator } from '../utils/validation/formulation';
+import type {
+  DoseMeasureInput,
+  DrugCreateInput,
+  DrugFilterInput,
+  DrugFormulationCreateInput,
+  DrugFormulationUpdateInput,
+  DrugUpdateInput,
+  FormularyImportInput
+} from '../zodSchemas/prescription.schema';
+import { cacheService } from './cache.service';
+
+type FormulationFields = Omit<DrugFormulationCreateInput, 'drugId'>;
+
+/**
+ * The drug formulary: drugs with their generic and brand names, and the
+ * products each is given as, which prescribed doses are measured out of.
+ */
+export class FormularyService {
+  constructor(private readonly db: typeof prisma = prisma) {}
+
+  // ==================== DRUGS ====================
+
+  async listDrugs(filter: DrugFilterInput) {
+    const where: Prisma.DrugWhereInput = {
+      isActive: filter.isActive ?? true,
+      isControlled: filter.isControlled,
+      requiresPriorAuth: filter.requiresPriorAuth,
+      ...(filter.drugClass ? { drugClasses: { has: filter.drugClass.trim().toLowerCase() } } : {}),
+      ...(filter.search
+        ? {
+            OR: [
+              { name: { contains: filter.search, mode: 'insensitive' } },
+              { genericName: { contains: filter.search, mode: 'insensitive' } },
+              // Brand names can only be matched whole here; searchDrugsWithDetails matches parts of them
+              { brandNames: { has: filter.search.trim() } }
+            ]
+          }
+        : {})
+    };
+
+    const [drugs, total] = await Promise.all([
+      formularyRepo.findDrugs(this.db, where, { limit: filter.limit, offset: (filter.page - 1) * filter.limit }),
+      formularyRepo.countDrugs(this.db, where)
+    ]);
+    return { drugs, total, page: filter.page, limit: filter.limit };
+  }
+
+  async getDrug(id: string) {
+    const drug = await formularyRepo.findDrugById(this.db, id);
+    if (!drug) {
+      throw new NotFoundError('Drug', id);
+    }
+    return drug;
+  }
+
+  async createDrug(input: DrugCreateInput) {
+    this.assertSchedule(input.isControlled, input.controlledSchedule);
+    await this.assertNameFree(input.name);
+
+    const drug = await formularyRepo.createDrug(this.db, input);
+    logger.info('Formulary drug added', { drugId: drug.id, name: drug.name });
+    return drug;
+  }
+
+  async updateDrug(input: DrugUpdateInput) {
+    const { id, ...data } = input;
+    const existing = await this.getDrug(id);
+    this.assertSchedule(
+      data.isControlled ?? existing.isControlled,
+      data.controlledSchedule === undefined ? existing.controlledSchedule : data.controlledSchedule
+    );
+    if (data.name && data.name.toLowerCase() !== existing.name.toLowerCase()) {
+      await this.assertNameFree(data.name);
+    }
+
+    const drug = await formularyRepo.updateDrug(this.db, existing.id, data);
+    await cacheService.invalidate(CACHE_KEYS.DRUG(drug.id));
+    return drug;
+  }
+
+  // ==================== FORMULATIONS ====================
+
+  async addFormulation(input: DrugFormulationCreateInput) {
+    const drug = await this.getDrug(input.drugId);
+    this.assertVolume(input);
+
+    const formulation = await formularyRepo.createFormulation(this.db, input);
+    await cacheService.invalidate(CACHE_KEYS.DRUG(drug.id));
+    return formulation;
+  }
+
+  /**
+   * Formulations prescriptions were measured from are deactivated rather
+   * than deleted, so `isActive: false` takes one out of use
+   */
+  async updateFormulation(input: DrugFormulationUpdateInput) {
+    const { id, ...data } = input;
+    const existing = await this.getFormulation(id);
+    this.assertVolume({
+      form: data.form ?? existing.form,
+      perVolumeMl: data.perVolumeMl === undefined ? existing.perVolumeMl : data.perVolumeMl
+    });
+
+    const formulation = await formularyRepo.updateFormulation(this.db, existing.id, data);
+    await cacheService.invalidate(CACHE_KEYS.DRUG(existing.drugId));
+    return formulation;
+  }
+
+  /**
+   * The amount of a formulation that gives a dose, rounded to what can be
+   * measured
+   */
+  async measureDose(input: DoseMeasureInput) {
+    const formulation = await this.getFormulation(input.formulationId);
+    return {
+      drug: formulation.drug,
+      ...formulationCalculator.measure(input.dosageValue, input.dosageUnit, formulation)
+    };
+  }
+
+  // ==================== IMPORT ====================
+
+  /**
+   * Load a formulary dataset. Drugs are matched on name and updated in place,
+   * or added; a listed drug's formulations are matched on form, route and
+   * strength, and those the dataset no longer lists are deactivated.
+   */
+  async importFormulary(dataset: FormularyImportInput) {
+    // Checked up front so a bad entry does not leave the import half done
+    for (const entry of dataset.drugs) {
+      this.assertSchedule(entry.isControlled, entry.controlledSchedule);
+      for (const product of entry.formulations) this.assertVolume(product);
+    }
+
+    let created = 0;
+    let updated = 0;
+    let formulations = 0;
+
+    for (const { formulations: products, ...data } of dataset.drugs) {
+      const existing = await formularyRepo.findDrugByName(this.db, data.name);
+      const drug = existing
+        ? await formularyRepo.updateDrug(this.db, existing.id, { ...data, name: existing.name })
+        : await formularyRepo.createDrug(this.db, data);
+      if (existing) updated++;
+      else created++;
+
+      const keepIds: string[] = [];
+      for (const product of products) {
+        const match = drug.formulations.find(formulation => this.sameProduct(formulation, product));
+        const saved = match
+          ? await formularyRepo.updateFormulation(this.db, match.id, product)
+          : await formularyRepo.createFormulation(this.db, { ...product, drugId: drug.id });
+        keepIds.push(saved.id);
+      }
+      await formularyRepo.deactivateFormulations(this.db, drug.id, keepIds);
+      formulations += products.length;
+    }
+
+    logger.info('Formulary imported', { created, updated, formulations });
+    return { created, updated, formulations };
+  }
+
+  // ==================== HELPERS ====================
+
+  private async getFormulation(id: string) {
+    const formulation = await formularyRepo.findFormulationById(this.db, id);
+    if (!formulation) {
+      throw new NotFoundError('Formulation', id);
+    }
+    return formulation;
+  }
+
+  private async assertNameFree(name: string) {
+    const existing = await formularyRepo.findDrugByName(this.db, name);
+    if (existing) {
+      throw new ConflictError(`${existing.name} is already in the formulary`, { drugId: existing.id });
+    }
+  }
+
+  private assertSchedule(isControlled: boolean, controlledSchedule: string | null | undefined) {
+    if (controlledSchedule && !isControlled) {
+      throw new BusinessRuleError('Only controlled drugs have a schedule', 'CONTROLLED_SCHEDULE', {
+        controlledSchedule
+      });
+    }
+  }
+
+  /**
+   * Liquids need the volume their strength is given in; solids are counted
+   * in units and have none
+   */
+  private assertVolume(formulation: Pick<FormulationFields, 'form' | 'perVolumeMl'>) {
+    const liquid = formulationCalculator.isLiquid(formulation);
+    if (liquid && !formulation.perVolumeMl) {
+      throw new ValidationError('A liquid formulation needs the volume its strength is given in', {
+        form: formulation.form
+      });
+    }
+    if (!liquid && formulation.perVolumeMl) {
+      throw new ValidationError('Tablets, capsules and suppositories are not measured by volume', {
+        form: formulation.form
+      });
+    }
+  }
+
+  private sameProduct(
+    saved: Pick<DrugFormulation, 'form' | 'route' | 'strength' | 'strengthUnit' | 'perVolumeMl'>,
+    listed: FormulationFields
+  ): boolean {
+    return (
+      saved.form === listed.form &&
+      saved.route === listed.route &&
+      saved.strength === listed.strength &&
+      saved.strengthUnit === listed.strengthUnit &&
+      saved.perVolumeMl === (listed.perVolumeMl ?? null)
+    );
+  }
+}
+
+export const formularyService = new FormularyService();
@@ -13,13 +13,15 @@
  */
 
 import { prisma } from '@naroto/db';
-import type { Gender, MeasurementType } from '@naroto/db/types';
-import { calculateZScore, getAgeInDays } from '@naroto/db/utils';
+import type { ChartType, Gender, GrowthReferenceSource, MeasurementType } from '@naroto/db/types';
+import { getAgeInDays } from '@naroto/db/utils';
 import { CACHE_KEYS } from '@naroto/redis/cache-keys';
-import { differenceInMonths } from 'date-fns';
+import { addMonths, differenceInMonths, subYears } from 'date-fns';
 
-import { AppError, NotFoundError, ValidationError } from '../error';
+import { Prisma } from '../../generated/client';
+import { AppError, ConflictError, NotFoundError, ValidationError } from '../error';
 import * as growthQueries from '../repositories/growth.repo';
+import * as growthAlertQueries from '../repositories/growth-alert.repo';
 import * as patientQueries from '../repositories/patient.repo';
 import { validateClinicAccess } from '../repositories/validation.repo';
 import type {
@@ -31,41 +33,110 @@ import type {
   UpdateGrowthRecordInput,
   VelocityCalculationInput
 } from '../zodSchemas';
-import type { LMSDataPoint } from './growth/types';
+import { growthAlertService } from './growth/alert.service';
+import { growthCalculator } from './growth/calculator';
+import { gestationalAgeInDays, resolveGrowthAge } from './growth/corrected-age';
+import { growthPlausibilityChecker } from './growth/plausibility';
+import { growthProjector } from './growth/projection';
+import type { GrowthReferencePoint, MeasurementZScores, PretermReferenceSource, TargetHeight } from './growth/types';
+import { growthVelocity } from './growth/velocity';
+import {
+  getReferenceCurve,
+  getReferenceDataVersion,
+  LENGTH_INDEXED_CHARTS,
+  PRETERM_CHART_TYPES,
+  referenceIndex
+} from './growth/who-data';
 
 // ==================== TYPE DEFINITIONS ====================
 
 export interface ZScoreChartData {
+  /**
+   * Null for weight-for-length/height charts, which are indexed by length.
+   * Postmenstrual ages on preterm references.
+   */
   ageRange: {
     minAgeDays: number;
     maxAgeDays: number;
     minAgeMonths: number;
     maxAgeMonths: number;
-  };
+  } | null;
+  chartType: ChartType;
   gender: 'MALE' | 'FEMALE';
-  measurementType: 'Weight' | 'Height' | 'HeadCircumference';
+  /** Set for weight-for-length/height charts */
+  lengthRange: {
+    minLengthCm: number;
+    maxLengthCm: number;
+  } | null;
+  measurementType: MeasurementType;
   metadata: {
     totalPoints: number;
-    dataSource: 'WHO';
+    dataSource: GrowthReferenceSource;
     lastUpdated: Date;
   };
-  points: LMSDataPoint[];
+  points: GrowthReferencePoint[];
 }
 
+/**
+ * Chart drawn for a measurement type when the caller does not pick one
+ */
+const DEFAULT_CHART_TYPES: Record<MeasurementType, ChartType> = {
+  Weight: 'WFA',
+  Height: 'HFA',
+  HeadCircumference: 'HcFA',
+  BMI: 'BFA'
+};
+
+/**
+ * Measurement plotted on each chart
+ */
+const CHART_MEASUREMENT_TYPES: Record<ChartType, MeasurementType> = {
+  WFA: 'Weight',
+  HFA: 'Height',
+  HcFA: 'HeadCircumference',
+  BFA: 'BMI',
+  WFL: 'Weight',
+  WFH: 'Weight'
+};
+
+/**
+ * Indicator of a chart in `MeasurementZScores`
+ */
+const CHART_INDICATORS: Record<ChartType, keyof MeasurementZScores> = {
+  WFA: 'weightForAge',
+  HFA: 'heightForAge',
+  HcFA: 'headCircumferenceForAge',
+  BFA: 'bmiForAge',
+  WFL: 'weightForLength',
+  WFH: 'weightForLength'
+};
+
 export interface PatientZScoreData {
+  /** Chronological age */
   ageDays: number;
   ageMonths: number;
+  bmi?: number | null;
   classification: string;
+  /** Set while age is corrected for prematurity */
+  correctedAgeDays: number | null;
+  correctedAgeMonths: number | null;
   date: Date;
+  headCircumference?: number | null;
   height?: number | null;
   heightForAgeZ?: number | null;
+  indicators: MeasurementZScores;
   percentile?: number | null;
+  postmenstrualAgeDays: number | null;
+  /** Reference the measurement was scored against */
+  reference: GrowthReferenceSource;
   weight?: number | null;
   weightForAgeZ?: number | null;
   zScore?: number | null;
 }
 
 export interface ClinicGrowthOverview {
+  /** Unacknowledged growth alerts, critical and newest first */
+  alerts: Awaited<ReturnType<typeof growthAlertService.getClinicAlerts>>['alerts'];
   recentMeasurements: Array<{
     id: string;
     date: Date;
@@ -86,6 +157,7 @@ export interface ClinicGrowthOverview {
     totalMeasurements: number;
     patientsMeasured: number;
     classifications: Array<{ classification: string | null; _count: { _all: number } }>;
+    openAlerts: number;
   };
 }
 
@@ -155,7 +227,7 @@ class GrowthService {
   }
 
   async getClinicGrowthOverview(clinicId: string): Promise<ClinicGrowthOverview> {
-    const [recentMeasurements, patientsWithData, stats] = await Promise.all([
+    const [recentMeasurements, patientsWithData, stats, alerts] = await Promise.all([
       growthQueries.findGrowthRecordsByClinic(prisma, clinicId, { limit: 50 }),
       prisma.patient.count({
         where: {
@@ -163,15 +235,18 @@ class GrowthService {
           growthRecords: { some: {} }
         }
       }),
-      growthQueries.getGrowthStatsByClinic(prisma, clinicId)
+      growthQueries.getGrowthStatsByClinic(prisma, clinicId),
+      growthAlertService.getClinicAlerts(clinicId, { limit: 20 })
     ]);
 
     return {
       stats: {
         totalMeasurements: stats[0],
         patientsMeasured: patientsWithData,
-        classifications: stats[2] as ClinicGrowthOverview['stats']['classifications']
+        classifications: stats[2] as ClinicGrowthOverview['stats']['classifications'],
+        openAlerts: alerts.openCount
       },
+      alerts: alerts.alerts,
       recentMeasurements: recentMeasurements.slice(0, 10) as ClinicGrowthOverview['recentMeasurements']
     };
   }
@@ -179,11 +254,12 @@ class GrowthService {
   // ==================== WHO STANDARDS METHODS ====================
 
   async getWHOStandards(input: GrowthStandardsInput) {
-    const { gender, measurementType, ageMonthsMin, ageMonthsMax } = input;
+    const { gender, measurementType, chartType, ageMonthsMin, ageMonthsMax } = input;
 
     return growthQueries.findWHOStandards(prisma, {
       gender,
       measurementType,
+      chartType: chartType ?? DEFAULT_CHART_TYPES[measurementType],
       ageMonthsMin,
       ageMonthsMax
     });
@@ -192,12 +268,12 @@ class GrowthService {
   async getWHOStandardsMap() {
     const [maleWeight, femaleWeight, maleHeight, femaleHeight, maleHeadCircumference, femaleHeadCircumference] =
       await Promise.all([
-        growthQueries.findWHOStandards(prisma, { gender: 'MALE', measurementType: 'Weight' }),
-        growthQueries.findWHOStandards(prisma, { gender: 'FEMALE', measurementType: 'Weight' }),
-        growthQueries.findWHOStandards(prisma, { gender: 'MALE', measurementType: 'Height' }),
-        growthQueries.findWHOStandards(prisma, { gender: 'FEMALE', measurementType: 'Height' }),
-        growthQueries.findWHOStandards(prisma, { gender: 'MALE', measurementType: 'HeadCircumference' }),
-        growthQueries.findWHOStandards(prisma, { gender: 'FEMALE', measurementType: 'HeadCircumference' })
+        growthQueries.findWHOStandards(prisma, { gender: 'MALE', chartType: 'WFA' }),
+        growthQueries.findWHOStandards(prisma, { gender: 'FEMALE', chartType: 'WFA' }),
+        growthQueries.findWHOStandards(prisma, { gender: 'MALE', chartType: 'HFA' }),
+        growthQueries.findWHOStandards(prisma, { gender: 'FEMALE', chartType: 'HFA' }),
+        growthQueries.findWHOStandards(prisma, { gender: 'MALE', chartType: 'HcFA' }),
+        growthQueries.findWHOStandards(prisma, { gender: 'FEMALE', chartType: 'HcFA' })
       ]);
 
     const map = new Map();
@@ -221,31 +297,21 @@ class GrowthService {
       throw new NotFoundError('Patient', patientId);
     }
 
-    let measurementType: MeasurementType;
-    switch (measurement.type) {
-      case 'Weight':
-        measurementType = 'Weight';
-        break;
-      case 'Height':
-        measurementType = 'Height';
-        break;
-      case 'HeadCircumference':
-        measurementType = 'HeadCircumference';
-        break;
-      default:
-        throw new ValidationError('Invalid measurement type');
+    const chartType = DEFAULT_CHART_TYPES[measurement.type];
+    if (!chartType) {
+      throw new ValidationError('Invalid measurement type');
     }
 
-    const ageDays = measurement.ageMonths * 30.44;
+    const ageDays = Math.round(measurement.ageMonths * 30.44);
 
-    const standard = await growthQueries.findClosestWHOStandard(prisma, {
-      gender: patient.gender as Gender,
-      measurementType,
+    const result = await growthCalculator.calculateIndicator(
+      chartType,
+      patient.gender as 'MALE' | 'FEMALE',
       ageDays,
-      ageMonths: measurement.ageMonths
-    });
+      measurement.value
+    );
 
-    if (!standard) {
+    if (result?.zScore == null) {
       return {
         zScore: null,
         percentile: null,
@@ -254,29 +320,21 @@ class GrowthService {
       };
     }
 
-    const zScore = this.calculateLMSZScore(
-      measurement.value,
-      Number(standard.lValue),
-      Number(standard.mValue),
-      Number(standard.sValue)
-    );
-
-    const percentile = this.zScoreToPercentile(zScore);
-    const classification = this.getGrowthInterpretation(zScore);
+    const { referenceValues } = result;
 
     return {
-      zScore: Number(zScore.toFixed(3)),
-      percentile,
-      classification,
-      standardAgeMonths: standard.ageInMonths || Math.floor((standard.ageDays || 0) / 30.44),
+      zScore: Number(result.zScore.toFixed(3)),
+      percentile: result.percentile,
+      classification: result.classification,
+      standardAgeMonths: measurement.ageMonths,
       standardValues: {
-        median: standard.mValue,
-        sd3neg: standard.sd3neg,
-        sd2neg: standard.sd2neg,
-        sd1neg: standard.sd1neg,
-        sd1pos: standard.sd1pos,
-        sd2pos: standard.sd2pos,
-        sd3pos: standard.sd3pos
+        median: referenceValues.median,
+        sd3neg: referenceValues.sd3neg,
+        sd2neg: referenceValues.sd2neg,
+        sd1neg: referenceValues.sd1neg,
+        sd1pos: referenceValues.sd1pos,
+        sd2pos: referenceValues.sd2pos,
+        sd3pos: referenceValues.sd3pos
       }
     };
   }
@@ -290,6 +348,8 @@ class GrowthService {
 
     const trends = records
       .filter(record => {
+        // Flagged measurements stay out of trends until confirmed
+        if (record.plausibility === 'FLAGGED') return false;
         if (timeRange) {
           if (timeRange.startDate && record.date < timeRange.startDate) return false;
           if (timeRange.endDate && record.date > timeRange.endDate) return false;
@@ -362,7 +422,7 @@ class GrowthService {
   async calculateVelocity(input: VelocityCalculationInput) {
     const { patientId, clinicId, measurementType, startDate, endDate } = input;
 
-    await this.verifyPatientAccess(patientId, clinicId);
+    const patient = await this.verifyPatientAccess(patientId, clinicId);
 
     const records = await growthQueries.findGrowthRecordsByPatient(prisma, patientId);
 
@@ -383,7 +443,13 @@ class GrowthService {
             break;
         }
 
-        return r.date >= startDate && r.date <= endDate && value !== null && value !== undefined;
+        return (
+          r.plausibility !== 'FLAGGED' &&
+          r.date >= startDate &&
+          r.date <= endDate &&
+          value !== null &&
+          value !== undefined
+        );
       })
       .sort((a, b) => a.date.getTime() - b.date.getTime());
 
@@ -410,6 +476,17 @@ class GrowthService {
     const lastValue = Number(getVal(last) ?? 0);
     const valueDiff = lastValue - firstValue;
 
+    // Percentile of the increment on the WHO velocity standard for the measured interval
+    const gestationalAgeDays = gestationalAgeInDays(patient.gestationalAgeWeeks, patient.gestationalAgeDays);
+    const velocityPercentile = await growthVelocity.scoreIncrement({
+      gender: patient.gender as Gender,
+      measurementType,
+      startAgeDays: resolveGrowthAge(patient.dateOfBirth, first.date, gestationalAgeDays).assessmentAgeDays,
+      endAgeDays: resolveGrowthAge(patient.dateOfBirth, last.date, gestationalAgeDays).assessmentAgeDays,
+      startValue: firstValue,
+      endValue: lastValue
+    });
+
     return {
       perDay: Number((valueDiff / daysDiff).toFixed(4)),
       perWeek: Number(((valueDiff / daysDiff) * 7).toFixed(4)),
@@ -417,7 +494,8 @@ class GrowthService {
       perYear: Number(((valueDiff / daysDiff) * 365.25).toFixed(4)),
       totalChange: Number(valueDiff.toFixed(4)),
       daysBetween: Math.round(daysDiff),
-      ageChangeMonths: (last.ageMonths ?? 0) - (first.ageMonths ?? 0)
+      ageChangeMonths: (last.ageMonths ?? 0) - (first.ageMonths ?? 0),
+      velocityPercentile
     };
   }
 
@@ -518,7 +596,10 @@ class GrowthService {
         }
 
         let status = 'normal';
-        if (measurementType === 'Weight') {
+        if (velocity.velocityPercentile) {
+          if (velocity.velocityPercentile.percentile < 5) status = 'slow';
+          else if (velocity.velocityPercentile.percentile > 95) status = 'fast';
+        } else if (measurementType === 'Weight') {
           if (velocity.perMonth < 0.1) status = 'slow';
           else if (velocity.perMonth > 0.5) status = 'fast';
         } else if (measurementType === 'Height') {
@@ -533,7 +614,9 @@ class GrowthService {
             perMonth: velocity.perMonth,
             perYear: velocity.perYear,
             totalChange: velocity.totalChange,
-            daysBetween: velocity.daysBetween
+            daysBetween: velocity.daysBetween,
+            percentile: velocity.velocityPercentile?.percentile ?? null,
+            zScore: velocity.velocityPercentile?.zScore ?? null
           }
         };
       }
@@ -547,51 +630,41 @@ class GrowthService {
     }
   }
 
-  async calculateZScores(ageDays: number, weight: number, gender: 'MALE' | 'FEMALE') {
-    const growthDataMap = await getCachedWHOStandardsMap();
-
-    // Map WHOStandardRow to LMSDataPoint to satisfy calculateZScore type requirements
-    const mappedMap = new Map<string, LMSDataPoint[]>();
-    for (const [key, rows] of growthDataMap) {
-      mappedMap.set(
-        key,
-        rows.map(r => ({
-          ageDays: r.ageDays,
-          lValue: r.lValue ?? 0,
-          mValue: r.mValue ?? 0,
-          sValue: r.sValue ?? 0,
-          gender: r.gender,
-          sd3neg: r.sd3neg ?? 0,
-          sd2neg: r.sd2neg ?? 0,
-          sd1neg: r.sd1neg ?? 0,
-          sd0: r.sd0 ?? 0,
-          sd1pos: r.sd1pos ?? 0,
-          sd2pos: r.sd2pos ?? 0,
-          sd3pos: r.sd3pos ?? 0,
-          sd4neg: r.sd4neg ?? 0,
-          sd4pos: r.sd4pos ?? 0,
-          ageMonths: r.ageInMonths ?? 0
-        })) as LMSDataPoint[]
-      );
-    }
-
-    const result = calculateZScore(mappedMap, gender, ageDays, weight);
+  /**
+   * Z-scores for one measurement. The top-level fields describe weight-for-age;
+   * `indicators` carries every indicator the supplied measurements support.
+   */
+  async calculateZScores(
+    ageDays: number,
+    weight: number,
+    gender: 'MALE' | 'FEMALE',
+    extra: { height?: number; headCircumference?: number } = {}
+  ) {
+    const indicators = await growthCalculator.calculateAllZScores({
+      ageDays,
+      gender,
+      weight,
+      height: extra.height,
+      headCircumference: extra.headCircumference
+    });
+    const weightForAge = indicators.weightForAge;
 
     return {
-      zScore: result.zScore,
-      percentile: result.percentile,
-      classification: result.whoClassification,
+      zScore: weightForAge?.zScore ?? null,
+      percentile: weightForAge?.percentile ?? null,
+      classification: weightForAge?.classification ?? 'No reference data available',
       ageDays,
       ageMonths: Math.floor(ageDays / 30.44),
       weight,
       gender,
       expectedWeight: {
-        median: result.referenceValues?.median,
+        median: weightForAge?.referenceValues.median,
         range: {
-          min: result.referenceValues?.sd2neg,
-          max: result.referenceValues?.sd2pos
+          min: weightForAge?.referenceValues.sd2neg,
+          max: weightForAge?.referenceValues.sd2pos
         }
-      }
+      },
+      indicators
     };
   }
 
@@ -600,9 +673,18 @@ class GrowthService {
       ageDays: number;
       weight: number;
       gender: 'MALE' | 'FEMALE';
+      height?: number;
+      headCircumference?: number;
     }>
   ) {
-    const results = await Promise.all(measurements.map(m => this.calculateZScores(m.ageDays, m.weight, m.gender)));
+    const results = await Promise.all(
+      measurements.map(m =>
+        this.calculateZScores(m.ageDays, m.weight, m.gender, {
+          height: m.height,
+          headCircumference: m.headCircumference
+        })
+      )
+    );
 
     const validResults = results.filter(r => r.zScore !== null);
 
@@ -630,61 +712,95 @@ class GrowthService {
     };
   }
 
+  /**
+   * Projects a measurement along the child's current z-score channel on the
+   * WHO curves, with a 95% band that widens with the horizon. Height
+   * projections carry the mid-parental target height when it is known.
+   */
   async getGrowthProjection(patientId: string, clinicId: string, measurementType: string, projectionMonths = 12) {
-    await this.verifyPatientAccess(patientId, clinicId);
+    const patient = await this.verifyPatientAccess(patientId, clinicId);
 
-    const trends = await this.getGrowthTrends({
-      patientId,
-      clinicId,
-      measurementType: measurementType as 'Weight' | 'Height' | 'HeadCircumference',
-      timeRange: {
-        startDate: new Date(Date.now() - 365 * 24 * 60 * 60 * 1000),
-        endDate: new Date()
-      }
-    });
+    const type = measurementType as MeasurementType;
+    const chart = DEFAULT_CHART_TYPES[type];
+    const gender = patient.gender as 'MALE' | 'FEMALE';
+    const gestationalAgeDays = gestationalAgeInDays(patient.gestationalAgeWeeks, patient.gestationalAgeDays);
+    const targetHeight = type === 'Height' ? await this.getTargetHeight(patientId, gender) : null;
+
+    const now = new Date();
+    const rows = await growthAlertQueries.findGrowthSeries(prisma, patientId, { since: subYears(now, 1), until: now });
+    const series = await Promise.all(
+      rows.map(async row => {
+        const headCircumference = row.headCircumference?.toNumber() ?? null;
+        const scored = await growthCalculator.calculateAgeAdjustedZScores({
+          age: resolveGrowthAge(patient.dateOfBirth, row.date, gestationalAgeDays),
+          gender,
+          weight: row.weight,
+          height: row.height,
+          headCircumference
+        });
+        const indicator = scored.indicators[CHART_INDICATORS[chart]];
+        const value = {
+          Weight: row.weight,
+          Height: row.height,
+          HeadCircumference: headCircumference,
+          BMI: indicator?.value ?? null
+        }[type];
+
+        return { date: row.date, age: scored.age, reference: scored.reference, indicator, value };
+      })
+    );
 
-    if (trends.trends.length < 2) {
+    // Channels are followed on the WHO curves only, from term-equivalent age
+    const channel = series.filter(p => p.reference === 'WHO' && p.indicator?.zScore != null && p.value !== null);
+    const latest = channel.at(-1);
+    if (latest?.indicator?.zScore == null) {
       return {
         projections: [],
         confidence: 'low',
-        message: 'Insufficient data for projection'
+        message: series.at(-1)?.age.beforeTermEquivalent
+          ? 'Projections start at term-equivalent age'
+          : 'Insufficient data for projection',
+        targetHeight
       };
     }
 
-    const recent = trends.trends.slice(0, 3);
-    const averageGrowth =
-      recent.reduce((acc, curr, idx, arr) => {
-        if (idx === 0) return 0;
-        const currValue = curr.value ?? 0;
-        const prevValue = arr[idx - 1]?.value ?? 0;
-        const currAge = curr.ageMonths ?? 0;
-        const prevAge = arr[idx - 1]?.ageMonths ?? 0;
-        const ageDiff = currAge - prevAge;
-
-        if (ageDiff === 0) return acc;
-        return acc + (currValue - prevValue) / ageDiff;
-      }, 0) / Math.max(recent.length - 1, 1);
-
-    const lastMeasurement = recent[0];
-    const projections = [];
-
-    for (let i = 1; i <= projectionMonths; i += 3) {
-      const projectedAgeMonths = (lastMeasurement?.ageMonths || 0) + i;
-      const projectedValue = (lastMeasurement?.value || 0) + averageGrowth * i;
-
-      projections.push({
-        ageMonths: projectedAgeMonths,
-        projectedValue,
-        confidence: Math.max(0.7 - i * 0.05, 0.3)
-      });
-    }
+    const zScore = latest.indicator.zScore;
+    const horizons = Array.from({ length: Math.floor(projectionMonths / 3) }, (_, i) => (i + 1) * 3);
+    if (projectionMonths % 3 !== 0) horizons.push(projectionMonths);
+
+    const points = await growthProjector.projectChannel({
+      chartType: chart,
+      gender,
+      measurementType: type,
+      startAgeDays: latest.age.assessmentAgeDays,
+      zScore,
+      horizons
+    });
+
+    // A channel held across the last year makes the projection more trustworthy
+    const zScores = channel.map(p => p.indicator?.zScore ?? zScore);
+    const spread = Math.max(...zScores) - Math.min(...zScores);
+    const confidence =
+      channel.length >= 3 && spread <= 0.67 ? 'high' : channel.length >= 2 && spread <= 1.34 ? 'moderate' : 'low';
 
     return {
-      projections,
-      confidence: averageGrowth > 0 ? 'moderate' : 'low',
-      currentAgeMonths: lastMeasurement?.ageMonths || 0,
-      currentValue: lastMeasurement?.value || 0,
-      averageMonthlyGrowth: averageGrowth
+      projections: points.map(point => {
+        const chronologicalAgeDays = latest.age.chronologicalAgeDays + (point.ageDays - latest.age.assessmentAgeDays);
+        return {
+          ...point,
+          date: addMonths(latest.date, point.horizonMonths),
+          ageMonths: Math.floor(chronologicalAgeDays / 30.44)
+        };
+      }),
+      confidence,
+      method: 'z-score-channel',
+      chartType: chart,
+      currentAgeMonths: Math.floor(latest.age.chronologicalAgeDays / 30.44),
+      correctedAgeMonths: latest.age.correctedAgeDays === null ? null : Math.floor(latest.age.correctedAgeDays / 30.44),
+      currentValue: latest.value,
+      currentZScore: zScore,
+      currentPercentile: latest.indicator.percentile,
+      targetHeight
     };
   }
 
@@ -692,59 +808,59 @@ class GrowthService {
 
   async getZScoreChartData(
     gender: 'MALE' | 'FEMALE',
-    measurementType: 'Weight' | 'Height' | 'HeadCircumference' = 'Weight'
+    measurementType: MeasurementType = 'Weight',
+    chartType?: ChartType,
+    source: GrowthReferenceSource = 'WHO'
   ): Promise<ZScoreChartData> {
-    const whoRecords = await growthQueries.findWHOStandards(prisma, {
-      gender,
-      measurementType
-    });
+    const chart = chartType ?? DEFAULT_CHART_TYPES[measurementType];
+    const points = await getReferenceCurve(chart, gender, source);
 
-    if (!whoRecords.length) {
-      throw new NotFoundError(`No WHO growth data found for ${gender} ${measurementType}`);
+    if (!points.length) {
+      throw new NotFoundError(`No ${source} growth data found for ${gender} ${chart}`);
     }
 
-    const points: LMSDataPoint[] = whoRecords.map(record => ({
-      ageDays: record.ageDays,
-      ageMonths: record.ageInMonths ?? 0,
-      gender: record.gender,
-      lValue: record.lValue ?? 0,
-      mValue: record.mValue ?? 0,
-      sValue: record.sValue ?? 0,
-      sd0: record.sd0 ?? 0,
-      sd4neg: record.sd4neg ?? 0,
-      sd3neg: record.sd3neg ?? 0,
-      sd2neg: record.sd2neg ?? 0,
-      sd1neg: record.sd1neg ?? 0,
-      sd1pos: record.sd1pos ?? 0,
-      sd2pos: record.sd2pos ?? 0,
-      sd3pos: record.sd3pos ?? 0,
-      sd4pos: record.sd4pos ?? 0
-    }));
-
-    const ageRange = {
-      minAgeDays: Math.min(...points.map(p => p.ageDays)),
-      maxAgeDays: Math.max(...points.map(p => p.ageDays)),
-      minAgeMonths: Math.min(...points.map(p => p.ageMonths ?? 0)),
-      maxAgeMonths: Math.max(...points.map(p => p.ageMonths ?? 0))
-    };
+    const lengthIndexed = LENGTH_INDEXED_CHARTS.has(chart);
+    const ages = points.map(p => p.ageDays).filter((d): d is number => d !== null);
+    const months = points.map(p => p.ageMonths ?? 0);
+    const lengths = points.map(p => p.lengthCm).filter((l): l is number => l !== null);
 
     return {
       gender,
-      measurementType,
+      measurementType: CHART_MEASUREMENT_TYPES[chart],
+      chartType: chart,
       points,
-      ageRange,
+      ageRange:
+        lengthIndexed || !ages.length
+          ? null
+          : {
+              minAgeDays: Math.min(...ages),
+              maxAgeDays: Math.max(...ages),
+              minAgeMonths: Math.min(...months),
+              maxAgeMonths: Math.max(...months)
+            },
+      lengthRange:
+        lengthIndexed && lengths.length
+          ? { minLengthCm: Math.min(...lengths), maxLengthCm: Math.max(...lengths) }
+          : null,
       metadata: {
         totalPoints: points.length,
-        dataSource: 'WHO',
+        dataSource: source,
         lastUpdated: new Date()
       }
     };
   }
 
+  /**
+   * A patient's measurements over the reference chart. Preterm babies are
+   * plotted at corrected age on the WHO chart and, before term-equivalent age,
+   * at postmenstrual age on `pretermChartData`.
+   */
   async getPatientZScoreChart(
     patientId: string,
     clinicId: string,
-    measurementType: 'Weight' | 'Height' | 'HeadCircumference' = 'Weight'
+    measurementType: MeasurementType = 'Weight',
+    chartType?: ChartType,
+    pretermReference?: PretermReferenceSource
   ) {
     await this.verifyPatientAccess(patientId, clinicId);
 
@@ -753,52 +869,99 @@ class GrowthService {
       throw new NotFoundError('Patient', patientId);
     }
 
+    const chart = chartType ?? DEFAULT_CHART_TYPES[measurementType];
+    const gender = patient.gender as 'MALE' | 'FEMALE';
+    const gestationalAgeDays = gestationalAgeInDays(patient.gestationalAgeWeeks, patient.gestationalAgeDays);
+
     const [chartData, measurements] = await Promise.all([
-      this.getZScoreChartData(patient.gender as 'MALE' | 'FEMALE', measurementType),
+      this.getZScoreChartData(gender, measurementType, chart),
       growthQueries.findMeasurementsByPatient(prisma, patientId)
     ]);
 
-    const patientData: PatientZScoreData[] = measurements.map(m => {
-      let zScore: number | null = 0;
-      if (measurementType === 'Weight') zScore = m.weightForAgeZ?.toNumber() ?? null;
-      else if (measurementType === 'Height') zScore = m.heightForAgeZ?.toNumber() ?? 0;
-      else if (measurementType === 'HeadCircumference') zScore = m.hcForAgeZ?.toNumber() ?? 0;
+    // Score every indicator from the raw measurements rather than trusting stored columns
+    const patientData: PatientZScoreData[] = await Promise.all(
+      measurements.map(async m => {
+        const headCircumference = m.headCircumference?.toNumber() ?? null;
+        const { age, indicators, reference } = await growthCalculator.calculateAgeAdjustedZScores({
+          age: resolveGrowthAge(patient.dateOfBirth, m.date, gestationalAgeDays),
+          gender,
+          weight: m.weight,
+          height: m.height,
+          headCircumference,
+          pretermReference
+        });
+        const indicator = indicators[CHART_INDICATORS[chart]];
 
-      return {
-        ageDays: m.ageDays ?? 0,
-        ageMonths: Math.floor((m.ageDays ?? 0) / 30.44),
-        weight: m.weight,
-        height: m.height,
-        zScore,
-        percentile: zScore !== null ? this.zScoreToPercentile(zScore) : null,
-        classification: m.classification ?? 'Unknown',
-        date: m.date
-      };
-    });
+        return {
+          ageDays: age.chronologicalAgeDays,
+          ageMonths: Math.floor(age.chronologicalAgeDays / 30.44),
+          correctedAgeDays: age.correctedAgeDays,
+          correctedAgeMonths: age.correctedAgeDays === null ? null : Math.floor(age.correctedAgeDays / 30.44),
+          postmenstrualAgeDays: age.postmenstrualAgeDays,
+          reference,
+          weight: m.weight,
+          height: m.height,
+          headCircumference,
+          bmi: m.bmi?.toNumber() ?? null,
+          weightForAgeZ: indicators.weightForAge?.zScore ?? null,
+          heightForAgeZ: indicators.heightForAge?.zScore ?? null,
+          zScore: indicator?.zScore ?? null,
+          percentile: indicator?.percentile ?? null,
+          classification: indicator?.classification ?? m.classification ?? 'Unknown',
+          date: m.date,
+          indicators
+        };
+      })
+    );
 
+    const lengthIndexed = LENGTH_INDEXED_CHARTS.has(chart);
+    const whoData = patientData.filter(p => p.reference === 'WHO');
     const combined = chartData.points.map(chartPoint => {
-      const patientPoint = patientData.find(p => Math.abs(p.ageDays - chartPoint.ageDays) < 15);
+      const x = referenceIndex(chartPoint) ?? 0;
+      const patientPoint = whoData.find(p =>
+        lengthIndexed
+          ? p.height != null && Math.abs(p.height - x) < 0.5
+          : Math.abs((p.correctedAgeDays ?? p.ageDays) - x) < 15
+      );
 
       return {
         ageDays: chartPoint.ageDays,
         ageMonths: chartPoint.ageMonths,
+        lengthCm: chartPoint.lengthCm,
         patient: patientPoint,
         chart: chartPoint
       };
     });
 
+    // Measurements taken before term-equivalent age, on the preterm chart they were scored against
+    const pretermData = patientData.filter(p => p.reference !== 'WHO');
+    const pretermSource = pretermData[0]?.reference;
+    const pretermChartData =
+      pretermSource && PRETERM_CHART_TYPES.has(chart)
+        ? await this.getZScoreChartData(gender, measurementType, chart, pretermSource)
+        : null;
+    const pretermCombined =
+      pretermChartData?.points.map(chartPoint => ({
+        postmenstrualAgeDays: chartPoint.ageDays,
+        patient: pretermData.find(
+          p => p.postmenstrualAgeDays !== null && Math.abs(p.postmenstrualAgeDays - (chartPoint.ageDays ?? 0)) < 4
+        ),
+        chart: chartPoint
+      })) ?? null;
+
     return {
+      age: resolveGrowthAge(patient.dateOfBirth, new Date(), gestationalAgeDays),
       chartData,
       patientData,
-      combined
+      combined,
+      pretermChartData,
+      pretermCombined,
+      targetHeight: chart === 'HFA' ? await this.getTargetHeight(patientId, gender) : null
     };
   }
 
-  async getZScoreAreas(
-    gender: 'MALE' | 'FEMALE',
-    measurementType: 'Weight' | 'Height' | 'HeadCircumference' = 'Weight'
-  ) {
-    const chartData = await this.getZScoreChartData(gender, measurementType);
+  async getZScoreAreas(gender: 'MALE' | 'FEMALE', measurementType: MeasurementType = 'Weight', chartType?: ChartType) {
+    const chartData = await this.getZScoreChartData(gender, measurementType, chartType);
 
     const sdAreaDefinitions = [
       { sdLevel: -3, name: 'Severe Underweight', color: '#ff4444' },
@@ -852,6 +1015,7 @@ class GrowthService {
         return {
           ageDays: point.ageDays,
           ageMonths: point.ageMonths,
+          lengthCm: point.lengthCm,
           lower,
           upper
         };
@@ -868,6 +1032,7 @@ class GrowthService {
     const median = chartData.points.map(point => ({
       ageDays: point.ageDays,
       ageMonths: point.ageMonths,
+      lengthCm: point.lengthCm,
       value: point.sd0
     }));
 
@@ -876,7 +1041,13 @@ class GrowthService {
 
   // ==================== MUTATION METHODS ====================
 
-  async createGrowthRecord(input: CreateGrowthRecordInput) {
+  /**
+   * Records a measurement after checking it is plausible. A flagged
+   * measurement is saved but left out of trends, velocities and alerts until
+   * it is confirmed, here via `confirmImplausible` or later with
+   * `confirmGrowthRecord`.
+   */
+  async createGrowthRecord(input: CreateGrowthRecordInput, userId?: string) {
     // Verify clinic access
     // await validateClinicAccess(input.clinicId, userId); // clinicId not in input
 
@@ -894,38 +1065,34 @@ class GrowthService {
 
     const ageMonths = differenceInMonths(input.date, patient.dateOfBirth);
 
-    // Calculate Z-scores
-    const growthDataMap = await getCachedWHOStandardsMap();
-    const gender = patient.gender as 'MALE' | 'FEMALE';
-
-    // Map WHOStandardRow to LMSDataPoint to satisfy calculateZScore type requirements
-    const mappedMap = new Map<string, LMSDataPoint[]>();
-    for (const [key, rows] of growthDataMap) {
-      mappedMap.set(
-        key,
-        rows.map(r => ({
-          ageDays: r.ageDays,
-          lValue: r.lValue ?? 0,
-          mValue: r.mValue ?? 0,
-          sValue: r.sValue ?? 0,
-          gender: r.gender,
-          sd3neg: r.sd3neg ?? 0,
-          sd2neg: r.sd2neg ?? 0,
-          sd1neg: r.sd1neg ?? 0,
-          sd0: r.sd0 ?? 0,
-          sd1pos: r.sd1pos ?? 0,
-          sd2pos: r.sd2pos ?? 0,
-          sd3pos: r.sd3pos ?? 0,
-          sd4neg: r.sd4neg ?? 0,
-          sd4pos: r.sd4pos ?? 0,
-          ageMonths: r.ageInMonths ?? 0
-        })) as LMSDataPoint[]
-      );
-    }
-
-    const weightZScore = input.weight ? calculateZScore(mappedMap, gender, ageDays, input.weight) : null;
+    // Calculate Z-scores for every indicator the measurement supports, at corrected age for preterm babies
+    const referenceVersion = await getReferenceDataVersion();
+    const age = resolveGrowthAge(
+      patient.dateOfBirth,
+      input.date,
+      gestationalAgeInDays(patient.gestationalAgeWeeks, patient.gestationalAgeDays)
+    );
+    const { indicators } = await growthCalculator.calculateAgeAdjustedZScores({
+      age,
+      gender: patient.gender as 'MALE' | 'FEMALE',
+      weight: input.weight,
+      height: input.height,
+      headCircumference: input.headCircumference
+    });
 
-    const heightZScore = input.height ? calculateZScore(mappedMap, gender, ageDays, input.height) : null;
+    const previous = await growthQueries.findPreviousPlausibleMeasurement(prisma, input.patientId, input.date);
+    const { flags, plausibility } = await growthPlausibilityChecker.assess(
+      {
+        age,
+        date: input.date,
+        gender: patient.gender as 'MALE' | 'FEMALE',
+        weight: input.weight,
+        height: input.height,
+        headCircumference: input.headCircumference,
+        previous: previous && { ...previous, headCircumference: previous.headCircumference?.toNumber() ?? null }
+      },
+      input.confirmImplausible
+    );
 
     // Calculate BMI
     let bmi = null;
@@ -939,12 +1106,15 @@ class GrowthService {
       recordedAt: new Date(),
       weight: input.weight ?? 0,
       height: input.height ?? 0,
+      headCircumference: input.headCircumference ?? null,
       bmi,
       ageDays,
       ageMonths,
       gender: patient.gender as Gender,
-      weightForAgeZ: weightZScore?.zScore ?? null,
-      heightForAgeZ: heightZScore?.zScore ?? null,
+      weightForAgeZ: indicators.weightForAge?.zScore ?? null,
+      heightForAgeZ: indicators.heightForAge?.zScore ?? null,
+      bmiForAgeZ: indicators.bmiForAge?.zScore ?? null,
+      hcForAgeZ: indicators.headCircumferenceForAge?.zScore ?? null,
       patient: {
         connect: { id: input.patientId }
       },
@@ -955,9 +1125,19 @@ class GrowthService {
         connect: { id: input.medicalId }
       },
       notes: input.notes,
-      classification: weightZScore?.whoClassification ?? null
+      classification: indicators.weightForAge?.classification ?? null,
+      referenceVersion,
+      plausibility,
+      plausibilityFlags: flags.length ? (flags as unknown as Prisma.InputJsonValue) : undefined,
+      confirmedAt: plausibility === 'CONFIRMED' ? new Date() : null,
+      confirmedById: plausibility === 'CONFIRMED' ? (userId ?? null) : null
     });
 
+    // Compare the new measurement with the patient's recent series
+    if (plausibility !== 'FLAGGED') {
+      await growthAlertService.evaluateMeasurement(growthRecord.id);
+    }
+
     // Cache invalidation
     CACHE_KEYS.PATIENT_VISITS(input.patientId);
     CACHE_KEYS.PATIENT_MEDICAL_RECORDS(input.patientId);
@@ -974,8 +1154,37 @@ class GrowthService {
 
     await validateClinicAccess(prisma, existing.patient.clinicId, userId);
 
+    // Corrected values are checked again; an edit never carries over an earlier confirmation
+    let plausibilityUpdate = {};
+    if (input.weight !== undefined || input.height !== undefined || input.headCircumference !== undefined) {
+      const { patient } = existing;
+      const previous = await growthQueries.findPreviousPlausibleMeasurement(prisma, existing.patientId, existing.date);
+      const { flags, plausibility } = await growthPlausibilityChecker.assess({
+        age: resolveGrowthAge(
+          patient.dateOfBirth,
+          existing.date,
+          gestationalAgeInDays(patient.gestationalAgeWeeks, patient.gestationalAgeDays)
+        ),
+        date: existing.date,
+        gender: patient.gender as 'MALE' | 'FEMALE',
+        weight: input.weight ?? existing.weight,
+        height: input.height ?? existing.height,
+        headCircumference: input.headCircumference ?? existing.headCircumference?.toNumber() ?? null,
+        previous: previous && { ...previous, headCircumference: previous.headCircumference?.toNumber() ?? null }
+      });
+      plausibilityUpdate = {
+        plausibility,
+        plausibilityFlags: flags.length ? (flags as unknown as Prisma.InputJsonValue) : Prisma.DbNull,
+        confirmedAt: null,
+        confirmedById: null,
+        // Stored scores no longer match the measurement; the nightly recompute rescores it
+        referenceVersion: null
+      };
+    }
+
     const updated = await growthQueries.updateGrowthRecord(prisma, id, {
       ...input,
+      ...plausibilityUpdate,
       notes: input.notes ?? undefined,
       headCircumference: input.headCircumference ?? undefined
     });
@@ -1002,6 +1211,35 @@ class GrowthService {
     CACHE_KEYS.PATIENT(existing.patientId);
   }
 
+  /**
+   * Confirm a flagged measurement as correct, bringing it into trends,
+   * velocities and alerts
+   */
+  async confirmGrowthRecord(id: string, clinicId: string, userId: string) {
+    const existing = await growthQueries.findGrowthRecordById(prisma, id);
+    if (!existing || existing.patient.clinicId !== clinicId) {
+      throw new NotFoundError('Growth record', id);
+    }
+    if (existing.plausibility !== 'FLAGGED') {
+      throw new ConflictError('Growth record is not awaiting confirmation');
+    }
+
+    const confirmed = await growthQueries.confirmMeasurement(prisma, id, userId);
+    await growthAlertService.evaluateMeasurement(id);
+
+    CACHE_KEYS.PATIENT_MEDICAL_RECORDS(existing.patientId);
+    CACHE_KEYS.ADMIN_DASHBOARD(clinicId);
+
+    return confirmed;
+  }
+
+  /**
+   * Measurements awaiting confirmation across the clinic, newest first
+   */
+  async getFlaggedGrowthRecords(clinicId: string, options?: { limit?: number; offset?: number }) {
+    return growthQueries.findFlaggedMeasurementsByClinic(prisma, clinicId, options);
+  }
+
   async invalidatePatientGrowthCache(patientId: string) {
     CACHE_KEYS.PATIENT_MEDICAL_RECORDS(patientId);
     // cacheHelpers.growth.invalidatePatientGrowth(patientId, clinicId);
@@ -1021,11 +1259,25 @@ class GrowthService {
     return patient;
   }
 
-  private calculateLMSZScore(value: number, L: number, M: number, S: number): number {
-    if (L !== 0) {
-      return ((value / M) ** L - 1) / (L * S);
+  /**
+   * Mid-parental target height from the parents' heights on the patient,
+   * falling back to the father's and mother's guardian records
+   */
+  private async getTargetHeight(patientId: string, gender: 'MALE' | 'FEMALE'): Promise<TargetHeight | null> {
+    const parents = await patientQueries.findParentHeights(prisma, patientId);
+    if (!parents) return null;
+
+    if (parents.fatherHeightCm && parents.motherHeightCm) {
+      return growthProjector.targetHeight(gender, parents.fatherHeightCm, parents.motherHeightCm, 'patient');
     }
-    return Math.log(value / M) / S;
+
+    const guardianHeight = (relation: string) =>
+      parents.guardians.find(g => g.relation.trim().toLowerCase() === relation)?.heightCm ?? null;
+    const father = parents.fatherHeightCm ?? guardianHeight('father');
+    const mother = parents.motherHeightCm ?? guardianHeight('mother');
+    if (!(father && mother)) return null;
+
+    return growthProjector.targetHeight(gender, father, mother, 'guardians');
   }
 
   private zScoreToPercentile(zScore: number): number {
@@ -1041,16 +1293,6 @@ class GrowthService {
     return Math.round(p * 100 * 10) / 10;
   }
 
-  private getGrowthInterpretation(zScore: number): string {
-    if (zScore < -3) return 'Severely underweight';
-    if (zScore < -2) return 'Underweight';
-    if (zScore < -1) return 'Risk of underweight';
-    if (zScore <= 1) return 'Normal';
-    if (zScore <= 2) return 'Risk of overweight';
-    if (zScore <= 3) return 'Overweight';
-    return 'Severely overweight';
-  }
-
   private calculateAverage(
     measurements: Array<{ weight: number | null; height?: number | null }>,
     field: 'weight' | 'height'
@@ -1065,39 +1307,3 @@ class GrowthService {
 }
 
 export const growthService = new GrowthService();
-// helper cache used by several service methods
-type WHOStandardRow = Awaited<ReturnType<typeof growthQueries.findWHOStandards>>[0];
-type WHOStandardsMap = Map<string, WHOStandardRow[]>;
-
-let whoStandardsCache: WHOStandardsMap | null = null;
-let whoStandardsPromise: Promise<WHOStandardsMap> | null = null;
-
-/**
- * Load WHO growth standards once and keep them in memory.  The shape
- * of the map is the same as what `GrowthService.getWHOStandardsMap`
- * returns – keys are `${gender}_${measurementType}` strings and values
- * are the arrays returned by the repository call.
- *
- * Calling code (eg. `GrowthService.calculateZScores`) can rely on this
- * being cheap after the first invocation.  A simple in‑flight promise
- * guard prevents multiple parallel queries.
- */
-async function getCachedWHOStandardsMap(): Promise<WHOStandardsMap> {
-  if (whoStandardsCache) {
-    return whoStandardsCache;
-  }
-
-  if (whoStandardsPromise) {
-    return whoStandardsPromise;
-  }
-
-  whoStandardsPromise = (async () => {
-    // reuse the service method so we don’t duplicate the query logic
-    const map = await growthService.getWHOStandardsMap();
-    whoStandardsCache = map as WHOStandardsMap;
-    whoStandardsPromise = null;
-    return whoStandardsCache;
-  })();
-
-  return whoStandardsPromise;
-}
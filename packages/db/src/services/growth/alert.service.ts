@@ -0,0 +1,155 @@
+// src/services/growth/alert.service.ts
+import { logger } from '@naroto/logger';
+import { subDays } from 'date-fns';
+
+import type { GrowthAlert, GrowthAlertType } from '../../../generated/client';
+import { prisma } from '../../client';
+import { NotFoundError } from '../../error';
+import * as growthRepo from '../../repositories/growth.repo';
+import * as growthAlertRepo from '../../repositories/growth-alert.repo';
+import * as patientRepo from '../../repositories/patient.repo';
+import { toNumber } from '../../utils';
+import { cacheService } from '../cache.service';
+import { ALERT_LOOKBACK_DAYS, growthAlertEngine } from './alerts';
+import { growthCalculator } from './calculator';
+import { gestationalAgeInDays, resolveGrowthAge } from './corrected-age';
+import type { GrowthSeriesPoint } from './types';
+
+export class GrowthAlertService {
+  constructor(private readonly db: typeof prisma = prisma) {}
+
+  /**
+   * Evaluate a patient's series up to a new measurement and store any alerts
+   * it raises. An alert type the patient already has open is not raised
+   * again until it is acknowledged, and a measurement awaiting plausibility
+   * confirmation raises none. Failures are logged, never thrown: the
+   * measurement itself has already been saved.
+   */
+  async evaluateMeasurement(growthRecordId: string): Promise<GrowthAlert[]> {
+    try {
+      const record = await growthRepo.findMeasurementById(this.db, growthRecordId);
+      if (!record || record.deletedAt || record.plausibility === 'FLAGGED') return [];
+
+      const { patient } = record;
+      const gestationalAgeDays = gestationalAgeInDays(patient.gestationalAgeWeeks, patient.gestationalAgeDays);
+      const rows = await growthAlertRepo.findGrowthSeries(this.db, patient.id, {
+        since: subDays(record.date, ALERT_LOOKBACK_DAYS),
+        until: record.date
+      });
+
+      const series: GrowthSeriesPoint[] = await Promise.all(
+        rows.map(async row => {
+          const headCircumference = row.headCircumference === null ? null : toNumber(row.headCircumference);
+          const scored = await growthCalculator.calculateAgeAdjustedZScores({
+            age: resolveGrowthAge(patient.dateOfBirth, row.date, gestationalAgeDays),
+            gender: patient.gender,
+            weight: row.weight,
+            height: row.height,
+            headCircumference
+          });
+          return {
+            ...scored,
+            recordId: row.id,
+            date: row.date,
+            weight: row.weight,
+            height: row.height,
+            headCircumference
+          };
+        })
+      );
+
+      // The evaluated measurement is the latest point even if another shares its date
+      const latest = series.find(p => p.recordId === growthRecordId);
+      const ordered = latest ? [...series.filter(p => p !== latest), latest] : series;
+
+      const open = new Set<GrowthAlertType>(await growthAlertRepo.findOpenAlertTypes(this.db, patient.id));
+      const findings = growthAlertEngine.evaluate(ordered).filter(f => !open.has(f.type));
+      if (!findings.length) return [];
+
+      const alerts = await growthAlertRepo.createGrowthAlerts(
+        this.db,
+        findings.map(f => ({
+          clinicId: patient.clinicId,
+          patientId: patient.id,
+          growthRecordId,
+          type: f.type,
+          severity: f.severity,
+          message: f.message,
+          details: f.details
+        }))
+      );
+
+      logger.info('Growth alerts raised', {
+        patientId: patient.id,
+        growthRecordId,
+        types: alerts.map(a => a.type)
+      });
+      await cacheService.invalidatePatientCaches(patient.id, patient.clinicId);
+
+      return alerts;
+    } catch (error) {
+      logger.error('Failed to evaluate growth alerts', { error, growthRecordId });
+      return [];
+    }
+  }
+
+  async getPatientAlerts(
+    patientId: string,
+    clinicId: string,
+    options: { includeAcknowledged?: boolean; type?: GrowthAlertType } = {}
+  ) {
+    const patient = await patientRepo.checkPatientExists(this.db, patientId, clinicId);
+    if (!patient) {
+      throw new NotFoundError('Patient', patientId);
+    }
+
+    return growthAlertRepo.findPatientGrowthAlerts(this.db, patientId, clinicId, options);
+  }
+
+  /**
+   * Alerts across the clinic, critical and newest first
+   */
+  async getClinicAlerts(
+    clinicId: string,
+    options: { includeAcknowledged?: boolean; limit?: number; offset?: number } = {}
+  ) {
+    const [alerts, openCount] = await Promise.all([
+      growthAlertRepo.findClinicGrowthAlerts(this.db, clinicId, options),
+      growthAlertRepo.countOpenGrowthAlerts(this.db, clinicId)
+    ]);
+
+    return { alerts, openCount };
+  }
+
+  async acknowledgeAlert(id: string, clinicId: string, userId: string) {
+    const alert = await growthAlertRepo.findGrowthAlertById(this.db, id, clinicId);
+    if (!alert) {
+      throw new NotFoundError('Growth alert', id);
+    }
+
+    await growthAlertRepo.acknowledgeGrowthAlerts(this.db, { id, clinicId }, userId);
+    await cacheService.invalidatePatientCaches(alert.patientId, clinicId);
+
+    return growthAlertRepo.findGrowthAlertById(this.db, id, clinicId);
+  }
+
+  /**
+   * Acknowledge every open alert of a patient, e.g. after the growth review
+   * at a visit
+   */
+  async acknowledgePatientAlerts(patientId: string, clinicId: string, userId: string) {
+    const patient = await patientRepo.checkPatientExists(this.db, patientId, clinicId);
+    if (!patient) {
+      throw new NotFoundError('Patient', patientId);
+    }
+
+    const acknowledged = await growthAlertRepo.acknowledgeGrowthAlerts(this.db, { patientId, clinicId }, userId);
+    if (acknowledged > 0) {
+      await cacheService.invalidatePatientCaches(patientId, clinicId);
+    }
+
+    return { acknowledged };
+  }
+}
+
+export const growthAlertService = new GrowthAlertService();
@@ -0,0 +1,242 @@
+// src/services/growth/alerts.ts
+import { differenceInDays, format } from 'date-fns';
+
+import type { GrowthAlertFinding, GrowthSeriesPoint, IndicatorZScore, MeasurementZScores } from './types';
+
+/** Earlier measurements a new one is compared with */
+export const ALERT_LOOKBACK_DAYS = 365;
+/** Weights from the first two weeks reflect physiological newborn weight loss, not a baseline */
+const NEWBORN_WEIGHT_LOSS_DAYS = 14;
+/** Major percentile lines (0.4th to 99.6th) sit two thirds of a z-score apart */
+const MAJOR_PERCENTILE_LINES = [-4, -3, -2, -1, 0, 1, 2, 3, 4].map(k => (k * 2) / 3);
+/** Lines a measurement must cross before the change is flagged */
+const PERCENTILE_LINES_CROSSED = 2;
+const WEIGHT_FOR_LENGTH_DECLINE_SD = 1;
+/** Ong et al.: a weight-for-age gain above 0.67 SD in infancy predicts later obesity */
+const RAPID_WEIGHT_GAIN_SD = 0.67;
+const RAPID_WEIGHT_GAIN_MAX_AGE_DAYS = 731;
+/** Height increments over shorter intervals are dominated by measurement error */
+const HEIGHT_VELOCITY_MIN_INTERVAL_DAYS = 180;
+/** Correlation of length/height z-scores measured 6-12 months apart */
+const HEIGHT_Z_CORRELATION = 0.9;
+/** 3rd percentile */
+const LOW_VELOCITY_Z = -1.88;
+
+type ZScoreIndicator = keyof MeasurementZScores;
+
+const INDICATOR_LABELS: Record<ZScoreIndicator, string> = {
+  weightForAge: 'Weight-for-age',
+  heightForAge: 'Length/height-for-age',
+  bmiForAge: 'BMI-for-age',
+  headCircumferenceForAge: 'Head circumference-for-age',
+  weightForLength: 'Weight-for-length/height'
+};
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Finds growth patterns that a single z-score cannot show: percentile
+ * crossing, wasting, head circumference acceleration, slow linear growth and
+ * rapid infant weight gain. Each rule compares the latest measurement of a
+ * series with earlier ones scored against the same reference.
+ */
+export class GrowthAlertEngine {
+  evaluate(series: GrowthSeriesPoint[]): GrowthAlertFinding[] {
+    const sorted = [...series].sort((a, b) => a.date.getTime() - b.date.getTime());
+    const latest = sorted.at(-1);
+    if (!latest) return [];
+
+    const earlier = sorted.filter(
+      p =>
+        p !== latest && p.reference === latest.reference && differenceInDays(latest.date, p.date) <= ALERT_LOOKBACK_DAYS
+    );
+    if (!earlier.length) return [];
+
+    const findings = [
+      this.percentileCrossingDown(latest, earlier),
+      this.weightForLengthDecline(latest, earlier),
+      this.headCircumferenceCrossingUp(latest, earlier),
+      this.lowHeightVelocity(latest, earlier),
+      this.rapidWeightGain(latest, earlier)
+    ];
+
+    return findings.filter((f): f is GrowthAlertFinding => f !== null);
+  }
+
+  /**
+   * Weight or length falling across two or more major percentile lines
+   */
+  private percentileCrossingDown(latest: GrowthSeriesPoint, earlier: GrowthSeriesPoint[]): GrowthAlertFinding | null {
+    const crossings = (['weightForAge', 'heightForAge'] as const)
+      .map(indicator => this.largestCrossing(indicator, latest, earlier, 'down'))
+      .filter(c => c !== null && c.lines >= PERCENTILE_LINES_CROSSED)
+      .sort((a, b) => (b?.lines ?? 0) - (a?.lines ?? 0));
+
+    const worst = crossings[0];
+    if (!worst) return null;
+
+    return {
+      type: 'PERCENTILE_CROSSING_DOWN',
+      severity: worst.lines > PERCENTILE_LINES_CROSSED || worst.to < -2 ? 'CRITICAL' : 'WARNING',
+      message: `${INDICATOR_LABELS[worst.indicator]} fell across ${worst.lines} major percentile lines since ${format(worst.since, 'yyyy-MM-dd')} (z ${worst.from} to ${worst.to})`,
+      details: {
+        indicator: worst.indicator,
+        linesCrossed: worst.lines,
+        fromZ: worst.from,
+        toZ: worst.to,
+        since: worst.since.toISOString()
+      }
+    };
+  }
+
+  /**
+   * Weight-for-length/height dropping by more than 1 SD from its recent peak
+   */
+  private weightForLengthDecline(latest: GrowthSeriesPoint, earlier: GrowthSeriesPoint[]): GrowthAlertFinding | null {
+    const current = this.zScore(latest.indicators.weightForLength);
+    if (current === null) return null;
+
+    const peak = this.extreme(earlier, 'weightForLength', 'max');
+    if (!peak || peak.z - current <= WEIGHT_FOR_LENGTH_DECLINE_SD) return null;
+
+    const decline = round(peak.z - current);
+    return {
+      type: 'WEIGHT_FOR_LENGTH_DECLINE',
+      severity: current < -2 ? 'CRITICAL' : 'WARNING',
+      message: `Weight-for-length/height fell by ${decline} SD since ${format(peak.point.date, 'yyyy-MM-dd')} (z ${peak.z} to ${current})`,
+      details: { decline, fromZ: peak.z, toZ: current, since: peak.point.date.toISOString() }
+    };
+  }
+
+  /**
+   * Head circumference rising across percentile lines, which can signal
+   * hydrocephalus
+   */
+  private headCircumferenceCrossingUp(
+    latest: GrowthSeriesPoint,
+    earlier: GrowthSeriesPoint[]
+  ): GrowthAlertFinding | null {
+    const crossing = this.largestCrossing('headCircumferenceForAge', latest, earlier, 'up');
+    if (!crossing || crossing.lines < PERCENTILE_LINES_CROSSED) return null;
+
+    return {
+      type: 'HEAD_CIRCUMFERENCE_CROSSING_UP',
+      severity: crossing.to > 2 ? 'CRITICAL' : 'WARNING',
+      message: `Head circumference rose across ${crossing.lines} major percentile lines since ${format(crossing.since, 'yyyy-MM-dd')} (z ${crossing.from} to ${crossing.to}); assess for hydrocephalus`,
+      details: {
+        linesCrossed: crossing.lines,
+        fromZ: crossing.from,
+        toZ: crossing.to,
+        since: crossing.since.toISOString()
+      }
+    };
+  }
+
+  /**
+   * Height gain below the 3rd percentile, measured as the conditional change
+   * in height-for-age z: how far the latest z-score falls below the one
+   * expected from the earlier measurement, given regression to the mean
+   */
+  private lowHeightVelocity(latest: GrowthSeriesPoint, earlier: GrowthSeriesPoint[]): GrowthAlertFinding | null {
+    const current = this.zScore(latest.indicators.heightForAge);
+    if (current === null || latest.height === null) return null;
+
+    // The most recent measurement far enough back for a meaningful increment
+    const baseline = [...earlier]
+      .reverse()
+      .find(
+        p =>
+          p.height !== null &&
+          this.zScore(p.indicators.heightForAge) !== null &&
+          differenceInDays(latest.date, p.date) >= HEIGHT_VELOCITY_MIN_INTERVAL_DAYS
+      );
+    const baselineZ = baseline ? this.zScore(baseline.indicators.heightForAge) : null;
+    if (!baseline || baseline.height === null || baselineZ === null) return null;
+
+    const conditionalZ = round((current - HEIGHT_Z_CORRELATION * baselineZ) / Math.sqrt(1 - HEIGHT_Z_CORRELATION ** 2));
+    if (conditionalZ >= LOW_VELOCITY_Z) return null;
+
+    const days = differenceInDays(latest.date, baseline.date);
+    const velocity = round(((latest.height - baseline.height) / days) * 365.25, 1);
+    return {
+      type: 'LOW_HEIGHT_VELOCITY',
+      severity: 'WARNING',
+      message: `Height velocity ${velocity} cm/year since ${format(baseline.date, 'yyyy-MM-dd')} is below the 3rd percentile`,
+      details: {
+        velocityCmPerYear: velocity,
+        conditionalZ,
+        fromZ: baselineZ,
+        toZ: current,
+        since: baseline.date.toISOString()
+      }
+    };
+  }
+
+  /**
+   * Weight-for-age rising by more than 0.67 SD during infancy
+   */
+  private rapidWeightGain(latest: GrowthSeriesPoint, earlier: GrowthSeriesPoint[]): GrowthAlertFinding | null {
+    const current = this.zScore(latest.indicators.weightForAge);
+    if (current === null || latest.age.assessmentAgeDays > RAPID_WEIGHT_GAIN_MAX_AGE_DAYS) return null;
+
+    const lowest = this.extreme(this.weightBaselines(earlier), 'weightForAge', 'min');
+    if (!lowest || current - lowest.z <= RAPID_WEIGHT_GAIN_SD) return null;
+
+    const gain = round(current - lowest.z);
+    return {
+      type: 'RAPID_WEIGHT_GAIN',
+      severity: 'WARNING',
+      message: `Weight-for-age rose by ${gain} SD since ${format(lowest.point.date, 'yyyy-MM-dd')} (z ${lowest.z} to ${current})`,
+      details: { gain, fromZ: lowest.z, toZ: current, since: lowest.point.date.toISOString() }
+    };
+  }
+
+  // ==================== HELPERS ====================
+
+  private zScore(indicator: IndicatorZScore | null): number | null {
+    return indicator?.zScore ?? null;
+  }
+
+  private weightBaselines(points: GrowthSeriesPoint[]): GrowthSeriesPoint[] {
+    return points.filter(p => p.age.chronologicalAgeDays >= NEWBORN_WEIGHT_LOSS_DAYS);
+  }
+
+  private extreme(
+    points: GrowthSeriesPoint[],
+    indicator: ZScoreIndicator,
+    which: 'min' | 'max'
+  ): { point: GrowthSeriesPoint; z: number } | null {
+    let best: { point: GrowthSeriesPoint; z: number } | null = null;
+    for (const point of points) {
+      const z = this.zScore(point.indicators[indicator]);
+      if (z === null) continue;
+      if (!best || (which === 'max' ? z > best.z : z < best.z)) best = { point, z };
+    }
+    return best;
+  }
+
+  /**
+   * The most major percentile lines crossed between any earlier measurement
+   * and the latest one, in one direction
+   */
+  private largestCrossing(
+    indicator: ZScoreIndicator,
+    latest: GrowthSeriesPoint,
+    earlier: GrowthSeriesPoint[],
+    direction: 'up' | 'down'
+  ): { from: number; indicator: ZScoreIndicator; lines: number; since: Date; to: number } | null {
+    const to = this.zScore(latest.indicators[indicator]);
+    if (to === null) return null;
+
+    const baselines = indicator === 'weightForAge' ? this.weightBaselines(earlier) : earlier;
+    const reference = this.extreme(baselines, indicator, direction === 'down' ? 'max' : 'min');
+    if (!reference) return null;
+
+    const [low, high] = direction === 'down' ? [to, reference.z] : [reference.z, to];
+    const lines = MAJOR_PERCENTILE_LINES.filter(line => low < line && line < high).length;
+
+    return { indicator, from: reference.z, to, lines, since: reference.point.date };
+  }
+}
+
+export const growthAlertEngine = new GrowthAlertEngine();
@@ -1,7 +1,23 @@
 // src/services/growth/calculator.ts
+import type { ChartType, GrowthReferenceSource } from '../../../generated/client';
 import { prisma } from '../../client';
-import type { GrowthAlert, GrowthMeasurement, ZScoreResult } from './types';
-import { getCachedGrowthData } from './who-data';
+import { gestationalAgeInDays, resolveGrowthAge } from './corrected-age';
+import type {
+  AgeAdjustedIndicatorInput,
+  AgeAdjustedZScores,
+  GrowthMeasurement,
+  GrowthReferencePoint,
+  IndicatorInput,
+  IndicatorZScore,
+  MeasurementZScores,
+  ZScoreResult
+} from './types';
+import { getReferenceCurve, referenceIndex, resolvePretermReference } from './who-data';
+
+/** Weight-for-length applies below 2 years, weight-for-height from 2 years */
+const WEIGHT_FOR_LENGTH_MAX_AGE_DAYS = 731;
+/** Last day covered by the WHO 0-5 year standards */
+const WHO_STANDARDS_MAX_AGE_DAYS = 1856;
 
 export async function calculateLMSZScore(value: number, l: number, m: number, s: number): Promise<number> {
   if (m <= 0 || s <= 0) {
@@ -31,7 +47,7 @@ export class GrowthCalculator {
   /**
    * Convert Z-score to percentile
    */
-  private zScoreToPercentile(zScore: number): number {
+  zScoreToPercentile(zScore: number): number {
     if (zScore < -6) return 0.01;
     if (zScore > 6) return 99.99;
 
@@ -115,19 +131,435 @@ export class GrowthCalculator {
   }
 
   /**
-   * Calculate Z-score for a measurement
+   * Classify an indicator's z-score using the WHO cut-offs for that indicator
+   */
+  private classifyIndicator(
+    chartType: ChartType,
+    zScore: number,
+    ageDays: number
+  ): {
+    classification: string;
+    severity: 'normal' | 'mild' | 'moderate' | 'severe';
+    recommendation: string;
+  } {
+    switch (chartType) {
+      case 'WFA':
+        return this.classifyWFA(zScore);
+      case 'HFA':
+        if (zScore < -3) {
+          return {
+            classification: 'Severely Stunted',
+            severity: 'severe',
+            recommendation: 'Assess for chronic undernutrition or underlying disease. Consider specialist referral.'
+          };
+        }
+        if (zScore < -2) {
+          return {
+            classification: 'Stunted',
+            severity: 'moderate',
+            recommendation: 'Review diet and illness history. Recheck length/height in 3 months.'
+          };
+        }
+        if (zScore > 3) {
+          return {
+            classification: 'Very Tall',
+            severity: 'mild',
+            recommendation: 'Rarely a problem. Consider endocrine assessment if disproportionate to parental height.'
+          };
+        }
+        return {
+          classification: 'Normal Height',
+          severity: 'normal',
+          recommendation: 'Regular growth monitoring recommended.'
+        };
+      case 'HcFA':
+        if (zScore < -2) {
+          return {
+            classification: 'Microcephaly',
+            severity: zScore < -3 ? 'severe' : 'moderate',
+            recommendation: 'Assess development and neurological status. Consider neurology referral.'
+          };
+        }
+        if (zScore > 2) {
+          return {
+            classification: 'Macrocephaly',
+            severity: zScore > 3 ? 'severe' : 'moderate',
+            recommendation: 'Check for signs of raised intracranial pressure and compare with parental head size.'
+          };
+        }
+        return {
+          classification: 'Normal Head Circumference',
+          severity: 'normal',
+          recommendation: 'Regular growth monitoring recommended.'
+        };
+      case 'BFA':
+        if (ageDays > WHO_STANDARDS_MAX_AGE_DAYS) {
+          // WHO 2007 reference cut-offs for 5-19 years
+          if (zScore < -3) {
+            return {
+              classification: 'Severe Thinness',
+              severity: 'severe',
+              recommendation: 'Urgent nutritional assessment. Screen for eating disorders and chronic disease.'
+            };
+          }
+          if (zScore < -2) {
+            return {
+              classification: 'Thinness',
+              severity: 'moderate',
+              recommendation: 'Nutritional assessment and dietary counseling. Follow up in 1 month.'
+            };
+          }
+          if (zScore > 2) {
+            return {
+              classification: 'Obesity',
+              severity: 'moderate',
+              recommendation: 'Assess for comorbidities. Family-based lifestyle intervention recommended.'
+            };
+          }
+          if (zScore > 1) {
+            return {
+              classification: 'Overweight',
+              severity: 'mild',
+              recommendation: 'Encourage balanced diet and physical activity. Monitor BMI trend.'
+            };
+          }
+          return {
+            classification: 'Normal BMI',
+            severity: 'normal',
+            recommendation: 'Regular growth monitoring recommended.'
+          };
+        }
+        return this.classifyWeightForLength(zScore);
+      case 'WFL':
+      case 'WFH':
+        return this.classifyWeightForLength(zScore);
+      default:
+        return this.classifyWFA(zScore);
+    }
+  }
+
+  /**
+   * Wasting and overweight cut-offs of the WHO 0-5 year standards, shared by
+   * weight-for-length/height and BMI-for-age
    */
-  async calculateZScore(patientId: string, measurement: GrowthMeasurement): Promise<ZScoreResult> {
+  private classifyWeightForLength(zScore: number): {
+    classification: string;
+    severity: 'normal' | 'mild' | 'moderate' | 'severe';
+    recommendation: string;
+  } {
+    if (zScore < -3) {
+      return {
+        classification: 'Severely Wasted',
+        severity: 'severe',
+        recommendation: 'Urgent assessment for severe acute malnutrition. Consider therapeutic feeding referral.'
+      };
+    }
+    if (zScore < -2) {
+      return {
+        classification: 'Wasted',
+        severity: 'moderate',
+        recommendation: 'Assess for moderate acute malnutrition. Nutritional support and close follow-up needed.'
+      };
+    }
+    if (zScore > 3) {
+      return {
+        classification: 'Obese',
+        severity: 'severe',
+        recommendation: 'Nutritional counseling required. Assess feeding practices and family history.'
+      };
+    }
+    if (zScore > 2) {
+      return {
+        classification: 'Overweight',
+        severity: 'moderate',
+        recommendation: 'Review feeding practices and encourage active play. Monitor growth closely.'
+      };
+    }
+    if (zScore > 1) {
+      return {
+        classification: 'Possible Risk of Overweight',
+        severity: 'mild',
+        recommendation: 'Monitor growth pattern. Provide feeding guidance.'
+      };
+    }
+    return {
+      classification: 'Normal',
+      severity: 'normal',
+      recommendation: 'Continue current feeding practices. Regular growth monitoring recommended.'
+    };
+  }
+
+  /**
+   * Z-score of a value against one reference point. Beyond +/-3 SD, WHO
+   * weight and BMI curves use the WHO restricted LMS method: the distance past
+   * SD3 is measured in units of the SD2-SD3 gap, so the skewed upper tail does
+   * not compress extreme values. Length/height-for-age is normally distributed
+   * and, like the preterm references, uses the plain formula.
+   */
+  private indicatorZScore(chartType: ChartType, value: number, point: GrowthReferencePoint): number {
+    const { lValue: l, mValue: m, sValue: s } = point;
+    const zScore = this.calculateLMSZScore(value, l, m, s);
+    if (point.source !== 'WHO' || chartType === 'HFA' || Math.abs(zScore) <= 3) return zScore;
+
+    const sdLine = (z: number) => (l === 0 ? m * Math.exp(s * z) : m * (1 + l * s * z) ** (1 / l));
+    if (zScore > 3) {
+      const sd3 = sdLine(3);
+      return 3 + (value - sd3) / (sd3 - sdLine(2));
+    }
+    const sd3neg = sdLine(-3);
+    return -3 + (value - sd3neg) / (sdLine(-2) - sd3neg);
+  }
+
+  /**
+   * Measurement at a z-score on one reference point; the inverse of
+   * `indicatorZScore`, including the restricted tails of WHO weight and BMI
+   * curves
+   */
+  private valueAtPoint(chartType: ChartType, zScore: number, point: GrowthReferencePoint): number {
+    const { lValue: l, mValue: m, sValue: s } = point;
+    const sdLine = (z: number) => (l === 0 ? m * Math.exp(s * z) : m * (1 + l * s * z) ** (1 / l));
+    if (point.source !== 'WHO' || chartType === 'HFA' || Math.abs(zScore) <= 3) return sdLine(zScore);
+
+    if (zScore > 3) {
+      const sd3 = sdLine(3);
+      return sd3 + (zScore - 3) * (sd3 - sdLine(2));
+    }
+    const sd3neg = sdLine(-3);
+    return sd3neg + (zScore + 3) * (sdLine(-2) - sd3neg);
+  }
+
+  /**
+   * Reference point at `x` (age in days, or length in cm), interpolated
+   * linearly between neighbours. Values outside the curve are not
+   * extrapolated.
+   */
+  private referenceAt(
+    curve: GrowthReferencePoint[],
+    x: number
+  ): { point: GrowthReferencePoint; interpolated: boolean } | null {
+    const indexOf = (p: GrowthReferencePoint) => referenceIndex(p) ?? 0;
+    const first = curve[0];
+    const last = curve.at(-1);
+    if (!(first && last) || x < indexOf(first) || x > indexOf(last)) return null;
+
+    let low = 0;
+    let high = curve.length - 1;
+    while (high - low > 1) {
+      const mid = Math.floor((low + high) / 2);
+      if (indexOf(curve[mid] as GrowthReferencePoint) <= x) low = mid;
+      else high = mid;
+    }
+
+    const lower = curve[low] as GrowthReferencePoint;
+    const upper = curve[high] as GrowthReferencePoint;
+    if (indexOf(lower) === x) return { point: lower, interpolated: false };
+    if (indexOf(upper) === x) return { point: upper, interpolated: false };
+
+    const t = (x - indexOf(lower)) / (indexOf(upper) - indexOf(lower));
+    const lerp = (a: number, b: number) => a + (b - a) * t;
+    const lerpNullable = (a: number | null, b: number | null) => (a === null || b === null ? null : lerp(a, b));
+
+    return {
+      interpolated: true,
+      point: {
+        ...lower,
+        ageDays: lower.ageDays === null || upper.ageDays === null ? null : lerp(lower.ageDays, upper.ageDays),
+        lengthCm: lower.lengthCm === null || upper.lengthCm === null ? null : lerp(lower.lengthCm, upper.lengthCm),
+        lValue: lerp(lower.lValue, upper.lValue),
+        mValue: lerp(lower.mValue, upper.mValue),
+        sValue: lerp(lower.sValue, upper.sValue),
+        sd0: lerp(lower.sd0, upper.sd0),
+        sd1neg: lerp(lower.sd1neg, upper.sd1neg),
+        sd1pos: lerp(lower.sd1pos, upper.sd1pos),
+        sd2neg: lerp(lower.sd2neg, upper.sd2neg),
+        sd2pos: lerp(lower.sd2pos, upper.sd2pos),
+        sd3neg: lerp(lower.sd3neg, upper.sd3neg),
+        sd3pos: lerp(lower.sd3pos, upper.sd3pos),
+        sd4neg: lerpNullable(lower.sd4neg, upper.sd4neg),
+        sd4pos: lerpNullable(lower.sd4pos, upper.sd4pos)
+      }
+    };
+  }
+
+  /**
+   * Score one value on one chart. `x` is the age in days (postmenstrual age on
+   * preterm references), or the length/height in cm for weight-for-length/height.
+   * Returns null when the chart has not been seeded or does not cover `x`.
+   */
+  async calculateIndicator(
+    chartType: ChartType,
+    gender: 'MALE' | 'FEMALE',
+    x: number,
+    value: number,
+    ageDays: number = x,
+    source: GrowthReferenceSource = 'WHO'
+  ): Promise<IndicatorZScore | null> {
+    if (!(value > 0)) return null;
+
+    const curve = await getReferenceCurve(chartType, gender, source);
+    const reference = this.referenceAt(curve, x);
+    if (!reference) return null;
+
+    const { point, interpolated } = reference;
+    const referenceValues = {
+      median: point.mValue,
+      sd1neg: point.sd1neg,
+      sd1pos: point.sd1pos,
+      sd2neg: point.sd2neg,
+      sd2pos: point.sd2pos,
+      sd3neg: point.sd3neg,
+      sd3pos: point.sd3pos
+    };
+
+    let zScore: number;
+    try {
+      zScore = this.indicatorZScore(chartType, value, point);
+    } catch {
+      return {
+        chartType,
+        source,
+        value,
+        zScore: null,
+        percentile: null,
+        classification: 'Calculation error',
+        severity: 'normal',
+        recommendation: 'Unable to calculate growth metrics',
+        interpolated,
+        referenceValues
+      };
+    }
+
+    const classification = this.classifyIndicator(chartType, zScore, ageDays);
+
+    return {
+      chartType,
+      source,
+      value,
+      zScore: Math.round(zScore * 100) / 100,
+      percentile: Math.round(this.zScoreToPercentile(zScore) * 100) / 100,
+      classification: classification.classification,
+      severity: classification.severity,
+      recommendation: classification.recommendation,
+      interpolated,
+      referenceValues
+    };
+  }
+
+  /**
+   * Value a child at `zScore` would measure at `x` on a chart; null when the
+   * chart has not been seeded or does not cover `x`
+   */
+  async valueAtZScore(
+    chartType: ChartType,
+    gender: 'MALE' | 'FEMALE',
+    x: number,
+    zScore: number,
+    source: GrowthReferenceSource = 'WHO'
+  ): Promise<number | null> {
+    const curve = await getReferenceCurve(chartType, gender, source);
+    const reference = this.referenceAt(curve, x);
+    return reference ? this.valueAtPoint(chartType, zScore, reference.point) : null;
+  }
+
+  /**
+   * Every indicator a measurement supports: weight-, length/height-, BMI- and
+   * head circumference-for-age, plus weight-for-length (under 2 years) or
+   * weight-for-height (2-5 years)
+   */
+  async calculateAllZScores(input: IndicatorInput): Promise<MeasurementZScores> {
+    const { ageDays, gender, weight, height, headCircumference } = input;
+    const bmi = weight && height ? weight / (height / 100) ** 2 : null;
+    const lengthChart: ChartType = ageDays < WEIGHT_FOR_LENGTH_MAX_AGE_DAYS ? 'WFL' : 'WFH';
+
+    const [weightForAge, heightForAge, bmiForAge, headCircumferenceForAge, weightForLength] = await Promise.all([
+      weight ? this.calculateIndicator('WFA', gender, ageDays, weight) : null,
+      height ? this.calculateIndicator('HFA', gender, ageDays, height) : null,
+      bmi ? this.calculateIndicator('BFA', gender, ageDays, bmi) : null,
+      headCircumference ? this.calculateIndicator('HcFA', gender, ageDays, headCircumference) : null,
+      weight && height && ageDays <= WHO_STANDARDS_MAX_AGE_DAYS
+        ? this.calculateIndicator(lengthChart, gender, height, weight, ageDays)
+        : null
+    ]);
+
+    return { weightForAge, heightForAge, bmiForAge, headCircumferenceForAge, weightForLength };
+  }
+
+  /**
+   * Score a measurement against the reference that fits the child's age.
+   * Before term-equivalent age a preterm baby is scored on the Fenton or
+   * INTERGROWTH-21st charts at postmenstrual age; only weight, length and
+   * head circumference are covered there. Otherwise the WHO indicators are
+   * read at the corrected age.
+   */
+  async calculateAgeAdjustedZScores(input: AgeAdjustedIndicatorInput): Promise<AgeAdjustedZScores> {
+    const { age, gender, weight, height, headCircumference, pretermReference } = input;
+
+    if (!(age.beforeTermEquivalent && age.postmenstrualAgeDays !== null)) {
+      const indicators = await this.calculateAllZScores({
+        ageDays: age.assessmentAgeDays,
+        gender,
+        weight,
+        height,
+        headCircumference
+      });
+      return { age, indicators, reference: 'WHO' };
+    }
+
+    const pma = age.postmenstrualAgeDays;
+    const reference =
+      (await resolvePretermReference('WFA', gender, pretermReference)) ?? pretermReference ?? 'FENTON_2013';
+    const [weightForAge, heightForAge, headCircumferenceForAge] = await Promise.all([
+      weight ? this.calculateIndicator('WFA', gender, pma, weight, pma, reference) : null,
+      height ? this.calculateIndicator('HFA', gender, pma, height, pma, reference) : null,
+      headCircumference ? this.calculateIndicator('HcFA', gender, pma, headCircumference, pma, reference) : null
+    ]);
+
+    return {
+      age,
+      indicators: { weightForAge, heightForAge, headCircumferenceForAge, bmiForAge: null, weightForLength: null },
+      reference
+    };
+  }
+
+  /**
+   * Calculate Z-scores for a measurement. The top-level fields describe
+   * weight-for-age; `indicators` carries every indicator the measurement supports.
+   */
+  async calculateZScore(patientId: string, measurement: GrowthMeasurement): Promise<ZScoreResult & AgeAdjustedZScores> {
     // Get patient details
     const patient = await prisma.patient.findUnique({
       where: { id: patientId },
-      select: { dateOfBirth: true, gender: true }
+      select: { dateOfBirth: true, gender: true, gestationalAgeWeeks: true, gestationalAgeDays: true }
     });
 
     if (!patient) {
       throw new Error('Patient not found');
     }
 
+    const age = resolveGrowthAge(
+      patient.dateOfBirth,
+      measurement.date,
+      gestationalAgeInDays(patient.gestationalAgeWeeks, patient.gestationalAgeDays)
+    );
+
+    const { indicators, reference } = await this.calculateAgeAdjustedZScores({
+      age,
+      gender: patient.gender,
+      weight: measurement.weight,
+      height: measurement.height,
+      headCircumference: measurement.headCircumference
+    });
+
+    const emptyReference = {
+      median: 0,
+      sd1neg: 0,
+      sd1pos: 0,
+      sd2neg: 0,
+      sd2pos: 0,
+      sd3neg: 0,
+      sd3pos: 0
+    };
+
     if (!measurement.weight) {
       return {
         zScore: null,
@@ -138,26 +570,15 @@ export class GrowthCalculator {
         interpolated: false,
         exactMatch: false,
         whoClassification: 'No weight data',
-        referenceValues: {
-          median: 0,
-          sd1neg: 0,
-          sd1pos: 0,
-          sd2neg: 0,
-          sd2pos: 0,
-          sd3neg: 0,
-          sd3pos: 0
-        }
+        referenceValues: emptyReference,
+        age,
+        indicators,
+        reference
       };
     }
 
-    // Calculate age in days
-    const ageDays = Math.floor((measurement.date.getTime() - patient.dateOfBirth.getTime()) / (1000 * 60 * 60 * 24));
-
-    // Get WHO reference data
-    const growthData = await getCachedGrowthData();
-    const reference = growthData.get(patient.gender)?.find((point: { ageDays: number }) => point.ageDays === ageDays);
-
-    if (!reference) {
+    const weightForAge = indicators.weightForAge;
+    if (!weightForAge) {
       return {
         zScore: null,
         percentile: null,
@@ -167,103 +588,27 @@ export class GrowthCalculator {
         interpolated: false,
         exactMatch: false,
         whoClassification: 'No reference data',
-        referenceValues: {
-          median: 0,
-          sd1neg: 0,
-          sd1pos: 0,
-          sd2neg: 0,
-          sd2pos: 0,
-          sd3neg: 0,
-          sd3pos: 0
-        }
+        referenceValues: emptyReference,
+        age,
+        indicators,
+        reference
       };
     }
 
-    try {
-      const zScore = this.calculateLMSZScore(measurement.weight, reference.lValue, reference.mValue, reference.sValue);
-
-      const classification = this.classifyWFA(zScore);
-
-      return {
-        zScore: Math.round(zScore * 100) / 100,
-        percentile: Math.round(this.zScoreToPercentile(zScore) * 100) / 100,
-        classification: classification.classification,
-        severity: classification.severity,
-        recommendation: classification.recommendation,
-        interpolated: false,
-        exactMatch: true,
-        whoClassification: classification.classification,
-        referenceValues: {
-          median: reference.mValue,
-          sd1neg: reference.sd1neg,
-          sd1pos: reference.sd1pos,
-          sd2neg: reference.sd2neg,
-          sd2pos: reference.sd2pos,
-          sd3neg: reference.sd3neg,
-          sd3pos: reference.sd3pos
-        }
-      };
-    } catch (error) {
-      console.error('Error calculating Z-score:', error);
-      return {
-        zScore: null,
-        percentile: null,
-        classification: 'Calculation error',
-        severity: 'normal',
-        recommendation: 'Unable to calculate growth metrics',
-        interpolated: false,
-        exactMatch: false,
-        whoClassification: 'Calculation error',
-        referenceValues: {
-          median: 0,
-          sd1neg: 0,
-          sd1pos: 0,
-          sd2neg: 0,
-          sd2pos: 0,
-          sd3neg: 0,
-          sd3pos: 0
-        }
-      };
-    }
-  }
-
-  /**
-   * Check for growth alerts
-   */
-  async checkAlerts(patientId: string, zScore: number): Promise<GrowthAlert[]> {
-    const alerts: GrowthAlert[] = [];
-
-    if (zScore < -3) {
-      alerts.push({
-        patientId,
-        type: 'SEVERE_UNDERWEIGHT',
-        severity: 'critical',
-        message: 'Severe underweight detected - immediate intervention required',
-        zScore,
-        date: new Date()
-      });
-    } else if (zScore > 3) {
-      alerts.push({
-        patientId,
-        type: 'OBESE',
-        severity: 'warning',
-        message: 'Severe obesity detected - nutritional counseling needed',
-        zScore,
-        date: new Date()
-      });
-    }
-
-    // Store alerts in database
-    if (alerts.length > 0) {
-      await prisma.growthRecord.createMany({
-        data: alerts.map(alert => ({
-          ...alert,
-          patientId
-        }))
-      });
-    }
-
-    return alerts;
+    return {
+      zScore: weightForAge.zScore,
+      percentile: weightForAge.percentile,
+      classification: weightForAge.classification,
+      severity: weightForAge.severity,
+      recommendation: weightForAge.recommendation,
+      interpolated: weightForAge.interpolated,
+      exactMatch: !weightForAge.interpolated,
+      whoClassification: weightForAge.classification,
+      referenceValues: weightForAge.referenceValues,
+      age,
+      indicators,
+      reference
+    };
   }
 }
 
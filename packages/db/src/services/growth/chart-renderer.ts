@@ -0,0 +1,888 @@
+// src/services/growth/chart-renderer.ts
+import { logger } from '@naroto/logger';
+import { redis } from '@naroto/redis';
+import { CACHE_KEYS } from '@naroto/redis/cache-keys';
+import type { GenerateGrowthChartJobData, Job } from '@naroto/redis/queue';
+import { addJob, getJob, queueManager } from '@naroto/redis/queue';
+import { format } from 'date-fns';
+import { degrees, PDFDocument, type PDFFont, type PDFImage, type PDFPage, rgb, StandardFonts } from 'pdf-lib';
+
+import type { ChartType, GrowthReferenceSource, MeasurementType } from '../../../generated/client';
+import { prisma } from '../../client';
+import { NotFoundError, ValidationError } from '../../error';
+import * as clinicRepo from '../../repositories/clinic.repo';
+import * as patientRepo from '../../repositories/patient.repo';
+import {
+  MARGIN,
+  PAGE_HEIGHT,
+  PAGE_WIDTH,
+  type PdfClinicHeader,
+  type PdfFonts,
+  pdfLayout
+} from '../../utils/pdf/layout';
+import { growthService, type PatientZScoreData } from '../growth.service';
+import type { GrowthReferencePoint } from './types';
+import { LENGTH_INDEXED_CHARTS } from './who-data';
+
+const DAYS_PER_MONTH = 30.4375;
+/** Age spans a chart is cut to, in months: the WHO chart layouts */
+const AGE_WINDOWS_MONTHS = [6, 12, 24, 60, 120, 228];
+/** Batch PDFs are kept for download for a day */
+const BATCH_OUTPUT_TTL = 24 * 60 * 60;
+const MAX_BATCH_PATIENTS = 200;
+
+const ROW_HEIGHT = 18;
+const CHART_HEIGHT_PDF = 300;
+/** Room for tick labels left of and below the plot, and curve labels right of it */
+const PLOT_INSET = { left: 44, right: 34, bottom: 34, top: 8 };
+
+const SVG_WIDTH = 760;
+const SVG_CHART_HEIGHT = 420;
+
+type RgbColor = [number, number, number];
+type Gender = 'MALE' | 'FEMALE';
+
+export type GrowthChartMode = 'percentile' | 'zscore';
+export type GrowthChartFormat = 'pdf' | 'svg';
+
+export interface GrowthChartOptions {
+  chartType?: ChartType;
+  measurementType?: MeasurementType;
+  mode?: GrowthChartMode;
+}
+
+export interface RenderedGrowthChart {
+  fileName: string;
+  pdf: Uint8Array;
+}
+
+export interface RenderedGrowthChartSvg {
+  fileName: string;
+  svg: string;
+}
+
+export interface GrowthChartBatch extends RenderedGrowthChart {
+  failed: { error: string; patientId: string }[];
+  rendered: string[];
+}
+
+export type GrowthChartBatchStatus =
+  | { status: 'pending'; state: string }
+  | { status: 'failed'; error: string }
+  | ({ status: 'completed' } & RenderedGrowthChart);
+
+interface StoredBatch {
+  clinicId: string;
+  fileName: string;
+  pdf: string;
+}
+
+/**
+ * A curve is either an LMS centile or one of the tabulated z-score lines
+ */
+interface CurveDefinition {
+  color: RgbColor;
+  column?: 'sd0' | 'sd1neg' | 'sd1pos' | 'sd2neg' | 'sd2pos' | 'sd3neg' | 'sd3pos';
+  label: string;
+  width: number;
+  zScore: number;
+}
+
+const RED: RgbColor = [0.8, 0.15, 0.15];
+const ORANGE: RgbColor = [0.9, 0.55, 0.1];
+const GREEN: RgbColor = [0.1, 0.55, 0.25];
+const BLACK: RgbColor = [0.15, 0.15, 0.15];
+const GRID: RgbColor = [0.88, 0.88, 0.88];
+const AXIS_TEXT: RgbColor = [0.35, 0.35, 0.35];
+const SEX_COLORS: Record<Gender, RgbColor> = { MALE: [0.12, 0.37, 0.66], FEMALE: [0.76, 0.09, 0.36] };
+
+/** 3rd, 15th, 50th, 85th and 97th centiles, as on the WHO percentile charts */
+const PERCENTILE_CURVES: CurveDefinition[] = [
+  { label: '97th', zScore: 1.881, color: RED, width: 1 },
+  { label: '85th', zScore: 1.036, color: ORANGE, width: 1 },
+  { label: '50th', zScore: 0, color: GREEN, width: 1.6 },
+  { label: '15th', zScore: -1.036, color: ORANGE, width: 1 },
+  { label: '3rd', zScore: -1.881, color: RED, width: 1 }
+];
+
+const ZSCORE_CURVES: CurveDefinition[] = [
+  { label: '3', zScore: 3, column: 'sd3pos', color: BLACK, width: 1 },
+  { label: '2', zScore: 2, column: 'sd2pos', color: RED, width: 1 },
+  { label: '1', zScore: 1, column: 'sd1pos', color: ORANGE, width: 0.8 },
+  { label: '0', zScore: 0, column: 'sd0', color: GREEN, width: 1.6 },
+  { label: '-1', zScore: -1, column: 'sd1neg', color: ORANGE, width: 0.8 },
+  { label: '-2', zScore: -2, column: 'sd2neg', color: RED, width: 1 },
+  { label: '-3', zScore: -3, column: 'sd3neg', color: BLACK, width: 1 }
+];
+
+const CHART_TITLES: Record<ChartType, string> = {
+  WFA: 'Weight-for-age',
+  HFA: 'Length/height-for-age',
+  HcFA: 'Head circumference-for-age',
+  BFA: 'BMI-for-age',
+  WFL: 'Weight-for-length',
+  WFH: 'Weight-for-height'
+};
+
+const VALUE_LABELS: Record<ChartType, string> = {
+  WFA: 'Weight (kg)',
+  HFA: 'Length/height (cm)',
+  HcFA: 'Head circumference (cm)',
+  BFA: 'BMI (kg/m²)',
+  WFL: 'Weight (kg)',
+  WFH: 'Weight (kg)'
+};
+
+const REFERENCE_NAMES: Record<GrowthReferenceSource, string> = {
+  WHO: 'WHO Child Growth Standards',
+  FENTON_2013: 'Fenton preterm growth chart',
+  INTERGROWTH_21ST: 'INTERGROWTH-21st preterm postnatal growth standards'
+};
+
+const TABLE_COLUMNS = [
+  { header: 'Date', width: 70 },
+  { header: 'Age', width: 96 },
+  { header: 'Weight (kg)', width: 62 },
+  { header: 'Length/height (cm)', width: 90 },
+  { header: 'HC (cm)', width: 55 },
+  { header: 'z-score', width: 58 },
+  { header: 'Percentile', width: 68 }
+] as const;
+
+type PatientChart = Awaited<ReturnType<typeof growthService.getPatientZScoreChart>>;
+type ChartDemographics = NonNullable<Awaited<ReturnType<typeof patientRepo.findGrowthChartDemographics>>>;
+
+/**
+ * Chart drawn in plot-area coordinates (origin top left, y down), so the same
+ * paths serve the SVG and, through `drawSvgPath`, the PDF
+ */
+interface ChartGeometry {
+  curves: { color: RgbColor; label: string; labelY: number; path: string; width: number }[];
+  height: number;
+  points: { x: number; y: number }[];
+  width: number;
+  xLabel: string;
+  xTicks: { label: string; position: number }[];
+  yLabel: string;
+  yTicks: { label: string; position: number }[];
+}
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Renders a patient's growth chart on the server: reference centile or
+ * z-score curves with the patient's measurements, clinic header, demographics
+ * and a measurement table, as PDF or SVG
+ */
+export class GrowthChartRenderer {
+  constructor(private readonly db: typeof prisma = prisma) {}
+
+  async renderPdf(patientId: string, clinicId: string, options: GrowthChartOptions = {}): Promise<RenderedGrowthChart> {
+    const batch = await this.renderBatch([patientId], clinicId, options, true);
+    return { pdf: batch.pdf, fileName: batch.fileName };
+  }
+
+  async renderSvg(
+    patientId: string,
+    clinicId: string,
+    options: GrowthChartOptions = {}
+  ): Promise<RenderedGrowthChartSvg> {
+    const [clinic, patient] = await Promise.all([
+      clinicRepo.findClinicById(this.db, clinicId),
+      patientRepo.findGrowthChartDemographics(this.db, patientId, clinicId)
+    ]);
+    if (!clinic) throw new NotFoundError('Clinic', clinicId);
+    if (!patient) throw new NotFoundError('Patient', patientId);
+
+    const chart = await growthService.getPatientZScoreChart(
+      patientId,
+      clinicId,
+      options.measurementType,
+      options.chartType
+    );
+    const mode = options.mode ?? 'percentile';
+
+    return {
+      svg: this.buildSvg(clinic, patient, chart, mode),
+      fileName: this.fileName(patient, chart.chartData.chartType, 'svg')
+    };
+  }
+
+  /**
+   * One PDF with a chart per patient, for printing. Patients that cannot be
+   * charted are reported and skipped unless `strict` is set.
+   */
+  async renderBatch(
+    patientIds: string[],
+    clinicId: string,
+    options: GrowthChartOptions = {},
+    strict = false
+  ): Promise<GrowthChartBatch> {
+    const clinic = await clinicRepo.findClinicById(this.db, clinicId);
+    if (!clinic) throw new NotFoundError('Clinic', clinicId);
+
+    const mode = options.mode ?? 'percentile';
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.setProducer(clinic.name);
+    pdfDoc.setCreationDate(new Date());
+
+    const [regular, bold, logo] = await Promise.all([
+      pdfDoc.embedFont(StandardFonts.Helvetica),
+      pdfDoc.embedFont(StandardFonts.HelveticaBold),
+      pdfLayout.embedLogo(pdfDoc, clinic.logo)
+    ]);
+    const fonts = { regular, bold };
+
+    const rendered: string[] = [];
+    const failed: GrowthChartBatch['failed'] = [];
+    let fileName = '';
+
+    for (const patientId of patientIds) {
+      try {
+        const patient = await patientRepo.findGrowthChartDemographics(this.db, patientId, clinicId);
+        if (!patient) throw new NotFoundError('Patient', patientId);
+
+        const chart = await growthService.getPatientZScoreChart(
+          patientId,
+          clinicId,
+          options.measurementType,
+          options.chartType
+        );
+        this.drawPatientPages(pdfDoc, fonts, clinic, logo, patient, chart, mode);
+
+        rendered.push(patientId);
+        fileName = this.fileName(patient, chart.chartData.chartType, 'pdf');
+      } catch (error) {
+        if (strict) throw error;
+        logger.warn('Growth chart could not be rendered', { patientId, clinicId, error });
+        failed.push({ patientId, error: error instanceof Error ? error.message : String(error) });
+      }
+    }
+
+    if (rendered.length !== 1) {
+      pdfDoc.setTitle(`Growth charts - ${clinic.name}`);
+      fileName = pdfLayout.fileName('growth-charts', `${format(new Date(), 'yyyyMMdd')}.pdf`);
+    }
+
+    return { pdf: await pdfDoc.save(), fileName, rendered, failed };
+  }
+
+  // ==================== BATCH JOBS ====================
+
+  /**
+   * Queue a batch of charts for printing; the PDF is collected with
+   * `getBatch` once the job completes
+   */
+  async queueBatch(clinicId: string, patientIds: string[], options: GrowthChartOptions = {}, userId?: string) {
+    const ids = [...new Set(patientIds)];
+    if (!ids.length) {
+      throw new ValidationError('Select at least one patient');
+    }
+    if (ids.length > MAX_BATCH_PATIENTS) {
+      throw new ValidationError(`A batch can include at most ${MAX_BATCH_PATIENTS} patients`);
+    }
+
+    const job = await addJob('generate-growth-chart', {
+      clinicId,
+      userId,
+      patientIds: ids,
+      chartType: options.chartType,
+      measurementType: options.measurementType,
+      mode: options.mode
+    });
+
+    return { jobId: job.id as string, patients: ids.length };
+  }
+
+  async getBatch(jobId: string, clinicId: string): Promise<GrowthChartBatchStatus> {
+    const job = await getJob('generate-growth-chart', jobId);
+    if (!job || job.data.clinicId !== clinicId) {
+      throw new NotFoundError('Growth chart batch', jobId);
+    }
+
+    const state = await job.getState();
+    if (state === 'failed') {
+      return { status: 'failed', error: job.failedReason ?? 'Growth chart batch failed' };
+    }
+    if (state !== 'completed') {
+      return { status: 'pending', state };
+    }
+
+    const stored = await redis.get(CACHE_KEYS.GROWTH_CHART_BATCH(jobId));
+    if (!stored) {
+      throw new NotFoundError('Growth chart batch output', jobId);
+    }
+
+    const output = JSON.parse(stored) as StoredBatch;
+    return { status: 'completed', fileName: output.fileName, pdf: Buffer.from(output.pdf, 'base64') };
+  }
+
+  async processBatchJob(data: GenerateGrowthChartJobData, job: Job) {
+    const batch = await this.renderBatch(data.patientIds, data.clinicId, {
+      chartType: data.chartType,
+      measurementType: data.measurementType,
+      mode: data.mode
+    });
+    if (!batch.rendered.length) {
+      throw new Error(`None of the ${data.patientIds.length} growth charts could be rendered`);
+    }
+
+    const stored: StoredBatch = {
+      clinicId: data.clinicId,
+      fileName: batch.fileName,
+      pdf: Buffer.from(batch.pdf).toString('base64')
+    };
+    await redis.setex(CACHE_KEYS.GROWTH_CHART_BATCH(job.id as string), BATCH_OUTPUT_TTL, JSON.stringify(stored));
+
+    logger.info('Growth chart batch rendered', {
+      jobId: job.id,
+      clinicId: data.clinicId,
+      rendered: batch.rendered.length,
+      failed: batch.failed.length
+    });
+
+    return {
+      fileName: batch.fileName,
+      rendered: batch.rendered.length,
+      failed: batch.failed,
+      expiresAt: new Date(Date.now() + BATCH_OUTPUT_TTL * 1000).toISOString()
+    };
+  }
+
+  registerQueueProcessors(): void {
+    queueManager.setProcessor('generate-growth-chart', (data, job) => this.processBatchJob(data, job));
+  }
+
+  // ==================== PDF ====================
+
+  private drawPatientPages(
+    pdfDoc: PDFDocument,
+    fonts: PdfFonts,
+    clinic: PdfClinicHeader,
+    logo: PDFImage | null,
+    patient: ChartDemographics,
+    chart: PatientChart,
+    mode: GrowthChartMode
+  ): void {
+    const { chartType } = chart.chartData;
+    let page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    let y = pdfLayout.drawHeader(page, fonts, clinic, logo);
+
+    page.drawText(this.title(chartType, chart.chartData.gender, mode), { x: MARGIN, y, size: 15, font: fonts.bold });
+    y -= 22;
+
+    for (const [label, value] of this.demographics(patient, chart)) {
+      page.drawText(`${label}:`, { x: MARGIN, y, size: 9, font: fonts.bold });
+      page.drawText(pdfLayout.fitText(value, fonts.regular, 9, PAGE_WIDTH - 2 * MARGIN - 110), {
+        x: MARGIN + 110,
+        y,
+        size: 9,
+        font: fonts.regular
+      });
+      y -= 13;
+    }
+    y -= 8;
+
+    const geometry = this.buildGeometry(
+      chart,
+      mode,
+      PAGE_WIDTH - 2 * MARGIN - PLOT_INSET.left - PLOT_INSET.right,
+      CHART_HEIGHT_PDF - PLOT_INSET.top - PLOT_INSET.bottom
+    );
+    this.drawPdfChart(page, fonts, geometry, chart.chartData.gender, MARGIN + PLOT_INSET.left, y - PLOT_INSET.top);
+    y -= CHART_HEIGHT_PDF + 10;
+
+    const note = this.referenceNote(chart);
+    page.drawText(pdfLayout.fitText(note, fonts.regular, 8, PAGE_WIDTH - 2 * MARGIN), {
+      x: MARGIN,
+      y,
+      size: 8,
+      font: fonts.regular,
+      color: rgb(...AXIS_TEXT)
+    });
+    y -= 24;
+
+    y = this.drawTableHeader(page, fonts.bold, y);
+    const rows = this.tableRows(chart);
+    if (!rows.length) {
+      page.drawText('No measurements on record.', { x: MARGIN, y, size: 9, font: fonts.regular });
+    }
+
+    for (const cells of rows) {
+      if (y < MARGIN) {
+        page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+        y = this.drawTableHeader(page, fonts.bold, PAGE_HEIGHT - MARGIN);
+      }
+
+      let x = MARGIN;
+      cells.forEach((cell, i) => {
+        const column = TABLE_COLUMNS[i];
+        if (!column) return;
+        page.drawText(pdfLayout.fitText(cell, fonts.regular, 8.5, column.width - 6), {
+          x: x + 3,
+          y,
+          size: 8.5,
+          font: fonts.regular
+        });
+        x += column.width;
+      });
+      y -= ROW_HEIGHT;
+    }
+  }
+
+  /**
+   * Draw the plot with its top-left corner at (left, top) in page coordinates
+   */
+  private drawPdfChart(
+    page: PDFPage,
+    fonts: PdfFonts,
+    geometry: ChartGeometry,
+    gender: Gender,
+    left: number,
+    top: number
+  ): void {
+    const bottom = top - geometry.height;
+
+    for (const tick of geometry.yTicks) {
+      const y = top - tick.position;
+      page.drawLine({
+        start: { x: left, y },
+        end: { x: left + geometry.width, y },
+        thickness: 0.4,
+        color: rgb(...GRID)
+      });
+      const width = fonts.regular.widthOfTextAtSize(tick.label, 7);
+      page.drawText(tick.label, { x: left - width - 4, y: y - 2.5, size: 7, font: fonts.regular });
+    }
+    for (const tick of geometry.xTicks) {
+      const x = left + tick.position;
+      page.drawLine({ start: { x, y: top }, end: { x, y: bottom }, thickness: 0.4, color: rgb(...GRID) });
+      const width = fonts.regular.widthOfTextAtSize(tick.label, 7);
+      page.drawText(tick.label, { x: x - width / 2, y: bottom - 10, size: 7, font: fonts.regular });
+    }
+    page.drawRectangle({
+      x: left,
+      y: bottom,
+      width: geometry.width,
+      height: geometry.height,
+      borderColor: rgb(...AXIS_TEXT),
+      borderWidth: 0.6
+    });
+
+    for (const curve of geometry.curves) {
+      page.drawSvgPath(curve.path, { x: left, y: top, borderColor: rgb(...curve.color), borderWidth: curve.width });
+      page.drawText(curve.label, {
+        x: left + geometry.width + 3,
+        y: top - curve.labelY - 2.5,
+        size: 7,
+        font: fonts.regular,
+        color: rgb(...curve.color)
+      });
+    }
+
+    const color = rgb(...SEX_COLORS[gender]);
+    if (geometry.points.length > 1) {
+      page.drawSvgPath(this.path(geometry.points.map(p => [p.x, p.y])), {
+        x: left,
+        y: top,
+        borderColor: color,
+        borderWidth: 0.8
+      });
+    }
+    for (const point of geometry.points) {
+      page.drawCircle({ x: left + point.x, y: top - point.y, size: 2.2, color });
+    }
+
+    const xLabelWidth = fonts.regular.widthOfTextAtSize(geometry.xLabel, 8);
+    page.drawText(geometry.xLabel, {
+      x: left + (geometry.width - xLabelWidth) / 2,
+      y: bottom - 24,
+      size: 8,
+      font: fonts.regular
+    });
+    const yLabel = pdfLayout.toPdfText(geometry.yLabel);
+    const yLabelWidth = fonts.regular.widthOfTextAtSize(yLabel, 8);
+    page.drawText(yLabel, {
+      x: left - 32,
+      y: bottom + (geometry.height - yLabelWidth) / 2,
+      size: 8,
+      font: fonts.regular,
+      rotate: degrees(90)
+    });
+  }
+
+  private drawTableHeader(page: PDFPage, bold: PDFFont, y: number): number {
+    page.drawRectangle({
+      x: MARGIN,
+      y: y - 5,
+      width: PAGE_WIDTH - 2 * MARGIN,
+      height: ROW_HEIGHT,
+      color: rgb(0.93, 0.95, 0.98)
+    });
+
+    let x = MARGIN;
+    for (const column of TABLE_COLUMNS) {
+      page.drawText(column.header, { x: x + 3, y, size: 8.5, font: bold });
+      x += column.width;
+    }
+
+    return y - ROW_HEIGHT;
+  }
+
+  // ==================== SVG ====================
+
+  private buildSvg(
+    clinic: PdfClinicHeader,
+    patient: ChartDemographics,
+    chart: PatientChart,
+    mode: GrowthChartMode
+  ): string {
+    const { chartType, gender } = chart.chartData;
+    const plotLeft = 24 + PLOT_INSET.left;
+    const geometry = this.buildGeometry(
+      chart,
+      mode,
+      SVG_WIDTH - plotLeft - 24 - PLOT_INSET.right,
+      SVG_CHART_HEIGHT - PLOT_INSET.top - PLOT_INSET.bottom
+    );
+    const demographics = this.demographics(patient, chart);
+    const rows = this.tableRows(chart);
+
+    const contact = [clinic.address, clinic.phone].filter(Boolean).join(' | ');
+    const plotTop = 118 + demographics.length * 16;
+    const plotBottom = plotTop + geometry.height;
+    const tableTop = plotTop + SVG_CHART_HEIGHT + 12;
+    const height = tableTop + (rows.length + 2) * 20 + 12;
+    const sexColor = this.svgColor(SEX_COLORS[gender]);
+    const out: string[] = [];
+
+    out.push(
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${SVG_WIDTH}" height="${height}" viewBox="0 0 ${SVG_WIDTH} ${height}" font-family="Helvetica, Arial, sans-serif">`,
+      `<rect width="100%" height="100%" fill="#ffffff"/>`,
+      `<text x="24" y="36" font-size="20" font-weight="bold">${this.escape(clinic.name)}</text>`
+    );
+    if (contact) out.push(`<text x="24" y="56" font-size="11" fill="#555">${this.escape(contact)}</text>`);
+    out.push(
+      `<line x1="24" y1="70" x2="${SVG_WIDTH - 24}" y2="70" stroke="#ccc"/>`,
+      `<text x="24" y="98" font-size="17" font-weight="bold" fill="${sexColor}">${this.escape(this.title(chartType, gender, mode))}</text>`
+    );
+    demographics.forEach(([label, value], i) => {
+      out.push(
+        `<text x="24" y="${120 + i * 16}" font-size="12"><tspan font-weight="bold">${this.escape(label)}:</tspan> ${this.escape(value)}</text>`
+      );
+    });
+
+    out.push(`<g transform="translate(${plotLeft} ${plotTop})" font-size="10" fill="#555">`);
+    for (const tick of geometry.yTicks) {
+      out.push(
+        `<line x1="0" y1="${tick.position}" x2="${geometry.width}" y2="${tick.position}" stroke="#e0e0e0"/>`,
+        `<text x="-6" y="${tick.position + 3.5}" text-anchor="end">${tick.label}</text>`
+      );
+    }
+    for (const tick of geometry.xTicks) {
+      out.push(
+        `<line x1="${tick.position}" y1="0" x2="${tick.position}" y2="${geometry.height}" stroke="#e0e0e0"/>`,
+        `<text x="${tick.position}" y="${geometry.height + 14}" text-anchor="middle">${tick.label}</text>`
+      );
+    }
+    out.push(`<rect width="${geometry.width}" height="${geometry.height}" fill="none" stroke="#595959"/>`);
+    for (const curve of geometry.curves) {
+      const color = this.svgColor(curve.color);
+      out.push(
+        `<path d="${curve.path}" fill="none" stroke="${color}" stroke-width="${curve.width * 1.4}"/>`,
+        `<text x="${geometry.width + 4}" y="${curve.labelY + 3.5}" fill="${color}">${this.escape(curve.label)}</text>`
+      );
+    }
+    if (geometry.points.length > 1) {
+      out.push(
+        `<path d="${this.path(geometry.points.map(p => [p.x, p.y]))}" fill="none" stroke="${sexColor}" stroke-width="1.2"/>`
+      );
+    }
+    for (const point of geometry.points) {
+      out.push(`<circle cx="${round(point.x, 1)}" cy="${round(point.y, 1)}" r="3.5" fill="${sexColor}"/>`);
+    }
+    out.push(
+      `<text x="${geometry.width / 2}" y="${geometry.height + 30}" text-anchor="middle" font-size="11">${this.escape(geometry.xLabel)}</text>`,
+      `<text transform="translate(-36 ${geometry.height / 2}) rotate(-90)" text-anchor="middle" font-size="11">${this.escape(geometry.yLabel)}</text>`,
+      '</g>'
+    );
+
+    out.push(
+      `<text x="24" y="${plotBottom + PLOT_INSET.bottom + 20}" font-size="10" fill="#555">${this.escape(this.referenceNote(chart))}</text>`
+    );
+
+    const columnScale = (SVG_WIDTH - 48) / TABLE_COLUMNS.reduce((sum, c) => sum + c.width, 0);
+    const tableRow = (cells: readonly string[], y: number, bold = false) => {
+      let x = 24;
+      return cells
+        .map((cell, i) => {
+          const text = `<text x="${round(x + 4, 1)}" y="${y}" font-size="11"${bold ? ' font-weight="bold"' : ''}>${this.escape(cell)}</text>`;
+          x += (TABLE_COLUMNS[i]?.width ?? 0) * columnScale;
+          return text;
+        })
+        .join('');
+    };
+
+    out.push(
+      `<rect x="24" y="${tableTop + 6}" width="${SVG_WIDTH - 48}" height="20" fill="#edf2fa"/>`,
+      tableRow(
+        TABLE_COLUMNS.map(c => c.header),
+        tableTop + 20,
+        true
+      )
+    );
+    rows.forEach((cells, i) => {
+      out.push(tableRow(cells, tableTop + 40 + i * 20));
+    });
+    if (!rows.length) {
+      out.push(`<text x="28" y="${tableTop + 40}" font-size="11">No measurements on record.</text>`);
+    }
+
+    out.push('</svg>');
+    return out.join('\n');
+  }
+
+  private svgColor([r, g, b]: RgbColor): string {
+    return `rgb(${Math.round(r * 255)},${Math.round(g * 255)},${Math.round(b * 255)})`;
+  }
+
+  private escape(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+  }
+
+  // ==================== CHART GEOMETRY ====================
+
+  /**
+   * Reference curves and the patient's WHO-scored measurements, scaled to a
+   * plot of the given size. Age charts are cut to the WHO layout that covers
+   * the child's measurements.
+   */
+  private buildGeometry(chart: PatientChart, mode: GrowthChartMode, width: number, height: number): ChartGeometry {
+    const { chartType, points: reference } = chart.chartData;
+    const lengthIndexed = LENGTH_INDEXED_CHARTS.has(chartType);
+    const xOf = (p: GrowthReferencePoint) =>
+      lengthIndexed ? p.lengthCm : p.ageDays === null ? null : p.ageDays / DAYS_PER_MONTH;
+
+    const referenceXs = reference.map(xOf).filter((x): x is number => x !== null);
+    const patientPoints = this.patientPoints(chart);
+
+    let xMin = Math.min(...referenceXs);
+    let xMax = Math.max(...referenceXs);
+    if (!lengthIndexed) {
+      const latest = Math.max(chart.age.assessmentAgeDays / DAYS_PER_MONTH, ...patientPoints.map(p => p.x));
+      const window = AGE_WINDOWS_MONTHS.find(w => w >= latest) ?? xMax;
+      xMax = Math.min(window, xMax);
+      if (window > 60 && patientPoints.every(p => p.x >= 60)) xMin = Math.max(60, xMin);
+    }
+
+    const definitions = mode === 'zscore' ? ZSCORE_CURVES : PERCENTILE_CURVES;
+    const visible = reference
+      .map(p => ({ point: p, x: xOf(p) }))
+      .filter((r): r is { point: GrowthReferencePoint; x: number } => r.x !== null && r.x >= xMin && r.x <= xMax)
+      .sort((a, b) => a.x - b.x);
+    const curveValues = definitions.map(definition => ({
+      definition,
+      values: visible.map(r => [r.x, this.curveValue(r.point, definition)] as [number, number])
+    }));
+    const plotted = patientPoints.filter(p => p.x >= xMin && p.x <= xMax);
+
+    const ys = [...curveValues.flatMap(c => c.values.map(([, v]) => v)), ...plotted.map(p => p.y)];
+    const yStep = this.niceStep((Math.max(...ys) - Math.min(...ys)) / 8);
+    const yMin = Math.floor(Math.min(...ys) / yStep) * yStep;
+    const yMax = Math.ceil(Math.max(...ys) / yStep) * yStep;
+
+    const sx = (x: number) => round(((x - xMin) / (xMax - xMin || 1)) * width, 1);
+    const sy = (y: number) => round(height - ((y - yMin) / (yMax - yMin || 1)) * height, 1);
+
+    const xTicks = this.xTicks(lengthIndexed, xMin, xMax).map(({ label, value }) => ({ label, position: sx(value) }));
+    const yTicks: ChartGeometry['yTicks'] = [];
+    for (let value = yMin; value <= yMax + yStep / 2; value += yStep) {
+      yTicks.push({ label: String(round(value, 1)), position: sy(value) });
+    }
+
+    const corrected = chart.patientData.some(p => p.correctedAgeDays !== null);
+    const xLabel = lengthIndexed
+      ? `${chartType === 'WFL' ? 'Length' : 'Height'} (cm)`
+      : `Age (completed ${xMax - xMin > 60 ? 'years' : 'months'}${corrected ? ', corrected for prematurity' : ''})`;
+
+    return {
+      width,
+      height,
+      xLabel,
+      yLabel: VALUE_LABELS[chartType],
+      xTicks,
+      yTicks,
+      curves: curveValues.map(({ definition, values }) => ({
+        label: definition.label,
+        color: definition.color,
+        width: definition.width,
+        path: this.path(values.map(([x, y]) => [sx(x), sy(y)])),
+        labelY: sy(values.at(-1)?.[1] ?? yMin)
+      })),
+      points: plotted.map(p => ({ x: sx(p.x), y: sy(p.y) }))
+    };
+  }
+
+  /**
+   * Measurements on the WHO chart, by corrected age or by length; those taken
+   * before term-equivalent age belong to the preterm chart and are only listed
+   */
+  private patientPoints(chart: PatientChart): { x: number; y: number }[] {
+    const { chartType } = chart.chartData;
+    const lengthIndexed = LENGTH_INDEXED_CHARTS.has(chartType);
+
+    return chart.patientData
+      .filter(p => p.reference === 'WHO')
+      .sort((a, b) => a.date.getTime() - b.date.getTime())
+      .flatMap(p => {
+        const x = lengthIndexed ? p.height : (p.correctedAgeDays ?? p.ageDays) / DAYS_PER_MONTH;
+        const y = this.plottedValue(chartType, p);
+        return x == null || y == null ? [] : [{ x, y }];
+      });
+  }
+
+  private plottedValue(chartType: ChartType, point: PatientZScoreData): number | null {
+    switch (chartType) {
+      case 'HFA':
+        return point.height ?? null;
+      case 'HcFA':
+        return point.headCircumference ?? null;
+      case 'BFA':
+        if (point.bmi) return point.bmi;
+        return point.weight && point.height ? point.weight / (point.height / 100) ** 2 : null;
+      default:
+        return point.weight ?? null;
+    }
+  }
+
+  /**
+   * Value of a curve at a reference point: the tabulated SD lines in z-score
+   * mode, the LMS centile otherwise
+   */
+  private curveValue(point: GrowthReferencePoint, definition: CurveDefinition): number {
+    if (definition.column) return point[definition.column];
+
+    const { lValue: l, mValue: m, sValue: s } = point;
+    if (l === 0) return m * Math.exp(s * definition.zScore);
+    return m * (1 + l * s * definition.zScore) ** (1 / l);
+  }
+
+  private xTicks(lengthIndexed: boolean, min: number, max: number): { label: string; value: number }[] {
+    const ticks: { label: string; value: number }[] = [];
+    const span = max - min;
+
+    if (lengthIndexed) {
+      for (let value = Math.ceil(min / 5) * 5; value <= max; value += 5) ticks.push({ label: String(value), value });
+      return ticks;
+    }
+
+    if (span > 60) {
+      for (let value = Math.ceil(min / 12) * 12; value <= max + 0.01; value += 12) {
+        ticks.push({ label: String(value / 12), value });
+      }
+      return ticks;
+    }
+
+    const step = span <= 12 ? 1 : span <= 24 ? 2 : 6;
+    for (let value = Math.ceil(min / step) * step; value <= max + 0.01; value += step) {
+      ticks.push({ label: String(value), value });
+    }
+    return ticks;
+  }
+
+  /**
+   * 1, 2 or 5 times a power of ten, at least `rough`
+   */
+  private niceStep(rough: number): number {
+    if (!(rough > 0)) return 1;
+    const power = 10 ** Math.floor(Math.log10(rough));
+    const step = [1, 2, 5, 10].find(f => f * power >= rough) ?? 10;
+    return step * power;
+  }
+
+  private path(points: [number, number][]): string {
+    return points.map(([x, y], i) => `${i ? 'L' : 'M'}${round(x, 1)} ${round(y, 1)}`).join(' ');
+  }
+
+  // ==================== CONTENT ====================
+
+  private title(chartType: ChartType, gender: Gender, mode: GrowthChartMode): string {
+    return `${CHART_TITLES[chartType]} ${gender === 'MALE' ? 'boys' : 'girls'} (${mode === 'zscore' ? 'z-scores' : 'percentiles'})`;
+  }
+
+  private demographics(patient: ChartDemographics, chart: PatientChart): [string, string][] {
+    const rows: [string, string][] = [
+      ['Patient', `${patient.firstName} ${patient.lastName}`],
+      ['Date of birth', format(patient.dateOfBirth, 'dd MMM yyyy')],
+      ['Sex', patient.gender === 'MALE' ? 'Male' : 'Female'],
+      ['Age', this.formatAge(chart.age.chronologicalAgeDays)]
+    ];
+
+    if (chart.age.gestationalAgeAtBirthDays !== null) {
+      const weeks = Math.floor(chart.age.gestationalAgeAtBirthDays / 7);
+      rows.push(['Gestation at birth', `${weeks}+${chart.age.gestationalAgeAtBirthDays % 7} weeks`]);
+      if (chart.age.correctedAgeDays !== null) {
+        rows.push(['Corrected age', this.formatAge(chart.age.correctedAgeDays)]);
+      }
+    }
+
+    rows.push(['Printed', format(new Date(), 'dd MMM yyyy HH:mm')]);
+    return rows;
+  }
+
+  private referenceNote(chart: PatientChart): string {
+    const preterm = chart.patientData.filter(p => p.reference !== 'WHO');
+    const note = `Curves: ${REFERENCE_NAMES.WHO}.`;
+    if (!preterm.length) return note;
+
+    const source = preterm[0]?.reference ?? 'WHO';
+    return `${note} ${preterm.length} measurement${preterm.length === 1 ? '' : 's'} before term, scored on the ${REFERENCE_NAMES[source]}, ${preterm.length === 1 ? 'is' : 'are'} not plotted.`;
+  }
+
+  /**
+   * Newest first, with the z-score and percentile of the chart's indicator
+   */
+  private tableRows(chart: PatientChart): string[][] {
+    const value = (v: number | null | undefined, digits: number) => (v == null ? '-' : v.toFixed(digits));
+
+    return [...chart.patientData]
+      .sort((a, b) => b.date.getTime() - a.date.getTime())
+      .map(p => [
+        format(p.date, 'dd MMM yyyy'),
+        this.measurementAge(p),
+        value(p.weight, 2),
+        value(p.height, 1),
+        value(p.headCircumference, 1),
+        value(p.zScore, 2),
+        value(p.percentile, 1)
+      ]);
+  }
+
+  private measurementAge(point: PatientZScoreData): string {
+    if (point.reference !== 'WHO' && point.postmenstrualAgeDays !== null) {
+      return `${Math.floor(point.postmenstrualAgeDays / 7)}+${point.postmenstrualAgeDays % 7} wk PMA`;
+    }
+    if (point.correctedAgeDays !== null) return `${this.formatAge(point.correctedAgeDays)} (corr.)`;
+    return this.formatAge(point.ageDays);
+  }
+
+  private formatAge(days: number): string {
+    if (days < 0) return `${Math.abs(days)} d before term`;
+    if (days < 61) return `${days} d`;
+
+    const months = Math.floor(days / DAYS_PER_MONTH);
+    if (months < 24) return `${months} mo`;
+    return months % 12 ? `${Math.floor(months / 12)} y ${months % 12} mo` : `${months / 12} y`;
+  }
+
+  private fileName(patient: ChartDemographics, chartType: ChartType, extension: GrowthChartFormat): string {
+    return pdfLayout.fileName(
+      'growth-chart',
+      patient.lastName,
+      chartType,
+      `${format(new Date(), 'yyyyMMdd')}.${extension}`
+    );
+  }
+}
+
+export const growthChartRenderer = new GrowthChartRenderer();
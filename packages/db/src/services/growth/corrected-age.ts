@@ -0,0 +1,48 @@
+// src/services/growth/corrected-age.ts
+import type { GrowthAge } from './types';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/** 40+0 weeks: term-equivalent age, where preterm references hand over to WHO */
+export const TERM_GESTATION_DAYS = 280;
+/** Born before 37+0 weeks */
+const PRETERM_GESTATION_DAYS = 259;
+/** Age is corrected for prematurity until 24 months chronological age */
+const CORRECTION_MAX_AGE_DAYS = 731;
+
+/**
+ * Gestational age at birth in days, from completed weeks plus extra days
+ */
+export function gestationalAgeInDays(weeks: number | null | undefined, days?: number | null): number | null {
+  if (weeks === null || weeks === undefined) return null;
+  return weeks * 7 + (days ?? 0);
+}
+
+/**
+ * Ages a measurement is read at. For a preterm baby the postmenstrual age
+ * places measurements on the preterm references until term-equivalent age;
+ * after that WHO standards are read at the corrected age until 24 months.
+ */
+export function resolveGrowthAge(
+  dateOfBirth: Date | string,
+  measuredAt: Date | string,
+  gestationalAgeDays: number | null
+): GrowthAge {
+  const chronologicalAgeDays = Math.floor(
+    (new Date(measuredAt).getTime() - new Date(dateOfBirth).getTime()) / MS_PER_DAY
+  );
+
+  const preterm = gestationalAgeDays !== null && gestationalAgeDays < PRETERM_GESTATION_DAYS;
+  const postmenstrualAgeDays = preterm ? gestationalAgeDays + chronologicalAgeDays : null;
+  const corrected = preterm && chronologicalAgeDays <= CORRECTION_MAX_AGE_DAYS;
+  const correctedAgeDays = corrected ? chronologicalAgeDays - (TERM_GESTATION_DAYS - gestationalAgeDays) : null;
+
+  return {
+    chronologicalAgeDays,
+    correctedAgeDays,
+    gestationalAgeAtBirthDays: gestationalAgeDays,
+    postmenstrualAgeDays,
+    assessmentAgeDays: correctedAgeDays ?? chronologicalAgeDays,
+    beforeTermEquivalent: postmenstrualAgeDays !== null && postmenstrualAgeDays < TERM_GESTATION_DAYS
+  };
+}
@@ -1,3 +1,4 @@
+/// <reference path="../../types/jstat.d.ts" />
 /**
  * 🔵 GROWTH SERVICE
  * - Business logic coordination
@@ -12,17 +13,33 @@ import { logger } from '@naroto/logger';
 import { CACHE_KEYS, CACHE_TTL } from '@naroto/redis/cache-keys';
 import { jStat } from 'jstat';
 
-import type { Gender, GrowthRecord, GrowthStatus, Prisma, PrismaClient } from '../../../generated/client';
+import {
+  type Gender,
+  type GrowthRecord,
+  type GrowthReferenceSource,
+  type GrowthStatus,
+  Prisma,
+  type PrismaClient
+} from '../../../generated/client';
 import { db } from '../../client';
 import { AppError, ConflictError, NotFoundError, ValidationError } from '../../error';
 import * as growthRepo from '../../repositories/growth.repo';
 import * as patientRepo from '../../repositories/patient.repo';
 import { toNumber } from '../../utils';
 import { cacheService } from '../cache.service';
+import { growthAlertService } from './alert.service';
+import { growthCalculator } from './calculator';
+import { gestationalAgeInDays, resolveGrowthAge } from './corrected-age';
+import { growthPlausibilityChecker } from './plausibility';
+import type { GrowthAge, PretermReferenceSource } from './types';
+import { growthVelocity } from './velocity';
+import { getReferenceDataVersion } from './who-data';
 
 // ==================== INTERFACES & TYPES ====================
 
 export interface MeasurementInput {
+  /** Save a measurement that fails the plausibility checks as confirmed */
+  confirmImplausible?: boolean;
   date: Date;
   headCircumference?: number | null;
   height?: number | null;
@@ -32,6 +49,8 @@ export interface MeasurementInput {
 }
 
 export interface GrowthAssessment {
+  /** Chronological, corrected and postmenstrual age at the latest measurement */
+  age: GrowthAge;
   bmi?: {
     value: number;
     zScore: number;
@@ -43,6 +62,8 @@ export interface GrowthAssessment {
     percentile: number;
     status: GrowthStatus;
   } | null;
+  /** Reference the latest measurement was scored against */
+  reference: GrowthReferenceSource;
   velocity?: GrowthVelocity;
   weightForAge: {
     zScore: number;
@@ -76,17 +97,17 @@ export interface PreparedGrowthData {
   ageMonths: number;
   bmi: number | null;
   bmiZ: number | null;
+  /** Weight-for-age classification */
+  classification: string | null;
   growthStatus: GrowthStatus;
+  hcForAgeZ: number | null;
   heightForAgeZ: number | null;
+  /** Version of the reference data the scores were computed from */
+  referenceVersion: string;
+  weightForAgePercentile: number | null;
   weightForAgeZ: number | null;
 }
 
-export interface LMS {
-  L: number;
-  M: number;
-  S: number;
-}
-
 export interface GrowthTrend {
   height: {
     gain: number;
@@ -107,8 +128,6 @@ export interface GrowthTrend {
 
 export class GrowthService {
   private readonly db: PrismaClient;
-  private readonly WHO_LMS_CACHE = new Map<string, LMS>();
-  private readonly CACHE_TTL_MS = 5 * 60 * 1000; // 5 minutes
 
   constructor(prismaClient?: PrismaClient) {
     this.db = prismaClient || db;
@@ -188,8 +207,9 @@ export class GrowthService {
 
       const total = await growthRepo.countMeasurementsByPatient(this.db, patientId);
 
-      // Calculate growth trend
-      const growthTrend = measurements.length >= 2 ? this.calculateGrowthTrend(measurements) : null;
+      // Calculate growth trend, leaving out measurements awaiting confirmation
+      const plausible = measurements.filter(m => m.plausibility !== 'FLAGGED');
+      const growthTrend = plausible.length >= 2 ? this.calculateGrowthTrend(plausible) : null;
 
       const result = {
         measurements,
@@ -247,6 +267,12 @@ export class GrowthService {
 
           // Prepare growth data (centralized calculation)
           const growthData = await this.prepareGrowthData(input, patient);
+          const plausibility = await this.checkPlausibility(
+            tx as unknown as PrismaClient,
+            input,
+            patient,
+            recordedById
+          );
 
           // Create measurement
           const measurement = await growthRepo.createMeasurement(tx as unknown as PrismaClient, {
@@ -260,6 +286,9 @@ export class GrowthService {
             weightForAgeZ: growthData.weightForAgeZ,
             heightForAgeZ: growthData.heightForAgeZ,
             growthStatus: growthData.growthStatus,
+            classification: growthData.classification,
+            referenceVersion: growthData.referenceVersion,
+            ...plausibility,
             recordedById: recordedById || '',
             recordedAt: new Date()
           });
@@ -267,7 +296,8 @@ export class GrowthService {
           logger.info('Growth measurement recorded', {
             measurementId: measurement.id,
             patientId: input.patientId,
-            growthStatus: growthData.growthStatus
+            growthStatus: growthData.growthStatus,
+            plausibility: measurement.plausibility
           });
 
           return measurement;
@@ -277,9 +307,10 @@ export class GrowthService {
         }
       })
       .then(async measurement => {
-        // AFTER transaction succeeds, invalidate caches
+        // AFTER transaction succeeds, invalidate caches and check the series for alerts
         await cacheService.invalidatePatientCaches(input.patientId, clinicId);
         await cacheService.invalidateClinicCaches(clinicId);
+        await growthAlertService.evaluateMeasurement(measurement.id);
         return measurement;
       });
   }
@@ -294,7 +325,9 @@ export class GrowthService {
         const results = [];
         const errors = [];
 
-        for (const input of measurements) {
+        // In date order, so each measurement is checked against the one before it
+        const ordered = [...measurements].sort((a, b) => a.date.getTime() - b.date.getTime());
+        for (const input of ordered) {
           try {
             // Verify patient
             const patient = await patientRepo.getPatientById(tx as unknown as PrismaClient, input.patientId, clinicId);
@@ -310,6 +343,12 @@ export class GrowthService {
 
             // Prepare growth data
             const growthData = await this.prepareGrowthData(input, patient);
+            const plausibility = await this.checkPlausibility(
+              tx as unknown as PrismaClient,
+              input,
+              patient,
+              recordedById
+            );
 
             // Create measurement
             const measurement = await growthRepo.createMeasurement(tx as unknown as PrismaClient, {
@@ -324,6 +363,9 @@ export class GrowthService {
               weightForAgeZ: growthData.weightForAgeZ,
               heightForAgeZ: growthData.heightForAgeZ,
               growthStatus: growthData.growthStatus,
+              classification: growthData.classification,
+              referenceVersion: growthData.referenceVersion,
+              ...plausibility,
               recordedById: recordedById || '',
               recordedAt: new Date()
             });
@@ -353,6 +395,12 @@ export class GrowthService {
             cacheService.invalidateClinicCaches(clinicId)
           ]);
         }
+
+        // In date order, so each measurement is compared with the ones before it
+        const recorded = [...result.results].sort((a, b) => a.date.getTime() - b.date.getTime());
+        for (const measurement of recorded) {
+          await growthAlertService.evaluateMeasurement(measurement.id);
+        }
         return result;
       });
   }
@@ -403,8 +451,16 @@ export class GrowthService {
           updateData.bmi = growthData.bmi;
           updateData.bmiZ = growthData.bmiZ;
           updateData.growthStatus = growthData.growthStatus;
+          updateData.classification = growthData.classification;
+          updateData.referenceVersion = growthData.referenceVersion;
           updateData.ageDays = growthData.ageDays;
           updateData.ageMonths = growthData.ageMonths;
+
+          // Corrected values are checked again; an edit never carries over an earlier confirmation
+          const plausibility = await this.checkPlausibility(tx as unknown as PrismaClient, input, patient);
+          Object.assign(updateData, plausibility, {
+            plausibilityFlags: plausibility.plausibilityFlags ?? Prisma.DbNull
+          });
         }
 
         const updated = await growthRepo.updateGrowthRecord(tx as unknown as PrismaClient, id, updateData);
@@ -454,9 +510,15 @@ export class GrowthService {
   }
 
   /**
-   * Assess patient growth based on latest measurement
+   * Assess patient growth based on latest measurement, scored at corrected
+   * age (or on the preterm references before term-equivalent age) when the
+   * patient was born preterm
    */
-  async assessPatientGrowth(patientId: string, clinicId: string): Promise<GrowthAssessment | null> {
+  async assessPatientGrowth(
+    patientId: string,
+    clinicId: string,
+    pretermReference?: PretermReferenceSource
+  ): Promise<GrowthAssessment | null> {
     try {
       // Get patient and latest measurement
       const [patient, latestMeasurement, measurementHistory] = await Promise.all([
@@ -475,27 +537,47 @@ export class GrowthService {
         return null; // No measurements yet
       }
 
+      // Score the latest measurement against the reference that fits the child's age
+      const { age, indicators, reference } = await growthCalculator.calculateAgeAdjustedZScores({
+        age: resolveGrowthAge(
+          patient.dateOfBirth,
+          latestMeasurement.date,
+          gestationalAgeInDays(patient.gestationalAgeWeeks, patient.gestationalAgeDays)
+        ),
+        gender: patient.gender,
+        weight: latestMeasurement.weight,
+        height: latestMeasurement.height,
+        headCircumference: toNumber(latestMeasurement.headCircumference),
+        pretermReference
+      });
+
+      const weightForAgeZ = indicators.weightForAge?.zScore ?? null;
+      const heightForAgeZ = indicators.heightForAge?.zScore ?? null;
+      const status = this.determineGrowthStatus(weightForAgeZ, heightForAgeZ, indicators.bmiForAge?.zScore ?? null);
+
       // Build assessment
       const assessment: GrowthAssessment = {
-        weightForAge: latestMeasurement.weightForAgeZ
-          ? {
-              zScore: toNumber(latestMeasurement.weightForAgeZ),
-              percentile: this.zScoreToPercentile(toNumber(latestMeasurement.weightForAgeZ)),
-              status: latestMeasurement.growthStatus || 'NORMAL'
-            }
-          : null,
-        heightForAge: latestMeasurement.heightForAgeZ
-          ? {
-              zScore: toNumber(latestMeasurement.heightForAgeZ),
-              percentile: this.zScoreToPercentile(toNumber(latestMeasurement.heightForAgeZ)),
-              status: latestMeasurement.growthStatus || 'NORMAL'
-            }
-          : null
+        age,
+        reference,
+        weightForAge:
+          weightForAgeZ === null
+            ? null
+            : { zScore: weightForAgeZ, percentile: this.zScoreToPercentile(weightForAgeZ), status },
+        heightForAge:
+          heightForAgeZ === null
+            ? null
+            : { zScore: heightForAgeZ, percentile: this.zScoreToPercentile(heightForAgeZ), status }
       };
 
       // Add velocity if enough history
       if (measurementHistory.length >= 2) {
-        const velocity = this.calculateGrowthVelocity(measurementHistory);
+        // Flagged measurements stay out of velocities until confirmed
+        const plausibleHistory = measurementHistory.filter(m => m.plausibility !== 'FLAGGED');
+        const velocity = await this.calculateGrowthVelocity(plausibleHistory, {
+          dateOfBirth: patient.dateOfBirth,
+          gender: patient.gender,
+          gestationalAgeDays: gestationalAgeInDays(patient.gestationalAgeWeeks, patient.gestationalAgeDays)
+        });
         if (velocity) {
           assessment.velocity = velocity;
         }
@@ -550,48 +632,59 @@ export class GrowthService {
     }
   }
 
+  /**
+   * Z-scores and growth status a measurement would be stored with, without
+   * storing it; import previews show these before anything is written
+   */
+  async scoreMeasurement(
+    input: MeasurementInput,
+    patient: {
+      dateOfBirth: Date | string;
+      gender: Gender;
+      gestationalAgeWeeks?: number | null;
+      gestationalAgeDays?: number | null;
+    }
+  ): Promise<PreparedGrowthData> {
+    return this.prepareGrowthData(input, patient);
+  }
+
   // ==================== PRIVATE HELPER METHODS ====================
 
   /**
    * Centralized growth data preparation
-   * Used by recordMeasurement, updateMeasurement, and bulk operations
+   * Used by recordMeasurement, updateMeasurement, and bulk operations.
+   * Ages are stored chronologically; z-scores use corrected age for preterm babies.
    */
   private async prepareGrowthData(
     input: MeasurementInput,
     patient: {
       dateOfBirth: Date | string;
       gender: Gender;
+      gestationalAgeWeeks?: number | null;
+      gestationalAgeDays?: number | null;
     }
   ): Promise<PreparedGrowthData> {
-    // Calculate age
-    const dob = patient.dateOfBirth instanceof Date ? patient.dateOfBirth : new Date(patient.dateOfBirth);
-    const ageDays = Math.floor((input.date.getTime() - dob.getTime()) / (1000 * 60 * 60 * 24));
+    // Read before scoring, so a reload in between leaves the record marked outdated
+    const referenceVersion = await getReferenceDataVersion();
+    const { age, indicators } = await growthCalculator.calculateAgeAdjustedZScores({
+      age: resolveGrowthAge(
+        patient.dateOfBirth,
+        input.date,
+        gestationalAgeInDays(patient.gestationalAgeWeeks, patient.gestationalAgeDays)
+      ),
+      gender: patient.gender,
+      weight: input.weight,
+      height: input.height,
+      headCircumference: input.headCircumference
+    });
+
+    const ageDays = age.chronologicalAgeDays;
     const ageMonths = ageDays / 30.44; // Use float for precision
 
-    // Get WHO LMS parameters
-    const [weightLMS, heightLMS] = await Promise.all([
-      this.getLmsParameters(ageMonths, patient.gender as Gender, 'weight'),
-      input.height ? this.getLmsParameters(ageMonths, patient.gender as Gender, 'height') : null
-    ]);
-
-    // Calculate Z-scores
-    const weightForAgeZ = weightLMS ? this.calculateZScore(input.weight, weightLMS) : null;
-
-    const heightForAgeZ = input.height && heightLMS ? this.calculateZScore(input.height, heightLMS) : null;
-
-    // Calculate BMI and BMI Z-score
-    let bmi: number | null = null;
-    let bmiZ: number | null = null;
-
-    if (input.weight && input.height && input.height > 0) {
-      bmi = input.weight / (input.height / 100) ** 2;
-
-      // Get BMI LMS parameters
-      const bmiLMS = await this.getLmsParameters(ageMonths, patient.gender as Gender, 'bmi');
-      if (bmiLMS) {
-        bmiZ = this.calculateZScore(bmi, bmiLMS);
-      }
-    }
+    const weightForAgeZ = indicators.weightForAge?.zScore ?? null;
+    const heightForAgeZ = indicators.heightForAge?.zScore ?? null;
+    const bmi = input.weight && input.height && input.height > 0 ? input.weight / (input.height / 100) ** 2 : null;
+    const bmiZ = indicators.bmiForAge?.zScore ?? null;
 
     // Determine growth status
     const growthStatus = this.determineGrowthStatus(weightForAgeZ, heightForAgeZ, bmiZ);
@@ -600,80 +693,63 @@ export class GrowthService {
       ageDays,
       ageMonths,
       weightForAgeZ,
+      weightForAgePercentile: indicators.weightForAge?.percentile ?? null,
       heightForAgeZ,
+      hcForAgeZ: indicators.headCircumferenceForAge?.zScore ?? null,
       bmi,
       bmiZ,
-      growthStatus
+      classification: indicators.weightForAge?.classification ?? null,
+      growthStatus,
+      referenceVersion
     };
   }
 
   /**
-   * Get LMS parameters from WHO standards
+   * Plausibility columns of a new measurement, checked against the patient's
+   * previous plausible one
    */
-  private async getLmsParameters(
-    ageMonths: number,
-    gender: Gender,
-    measurement: 'weight' | 'height' | 'bmi'
-  ): Promise<LMS | null> {
-    const cacheKey = `lms:${gender}:${measurement}:${Math.floor(ageMonths)}`;
-
-    // Check memory cache first
-    const cached = this.WHO_LMS_CACHE.get(cacheKey);
-    if (cached) return cached;
-
-    try {
-      // Map measurement type to database enum
-      let measurementType: 'Weight' | 'Height' | 'HeadCircumference';
-      if (measurement === 'weight') measurementType = 'Weight';
-      else if (measurement === 'height') measurementType = 'Height';
-      else measurementType = 'HeadCircumference';
-
-      // Get from database
-      const standard = await growthRepo.findWHOStandardByExactAge(this.db, {
-        gender,
-        measurementType,
-        ageInMonths: Math.round(ageMonths)
-      });
-
-      if (standard && standard.lValue !== null && standard.mValue !== null && standard.sValue !== null) {
-        const params: LMS = {
-          L: standard.lValue,
-          M: standard.mValue,
-          S: standard.sValue
-        };
-
-        // Cache in memory (short-lived)
-        this.WHO_LMS_CACHE.set(cacheKey, params);
-        setTimeout(() => this.WHO_LMS_CACHE.delete(cacheKey), this.CACHE_TTL_MS);
-
-        return params;
-      }
-
-      return null;
-    } catch (error) {
-      logger.warn('Failed to get LMS parameters', {
-        error,
-        ageMonths,
-        gender,
-        measurement
-      });
-      return null;
-    }
-  }
-
-  /**
-   * Calculate Z-score using LMS method
-   */
-  private calculateZScore(value: number, lms: LMS): number {
-    const { L, M, S } = lms;
+  private async checkPlausibility(
+    db: PrismaClient,
+    input: MeasurementInput,
+    patient: {
+      dateOfBirth: Date | string;
+      gender: Gender;
+      gestationalAgeWeeks?: number | null;
+      gestationalAgeDays?: number | null;
+    },
+    recordedById?: string
+  ) {
+    const previous = await growthRepo.findPreviousPlausibleMeasurement(db, input.patientId, input.date);
+    const { flags, plausibility } = await growthPlausibilityChecker.assess(
+      {
+        age: resolveGrowthAge(
+          patient.dateOfBirth,
+          input.date,
+          gestationalAgeInDays(patient.gestationalAgeWeeks, patient.gestationalAgeDays)
+        ),
+        date: input.date,
+        gender: patient.gender,
+        weight: input.weight,
+        height: input.height,
+        headCircumference: input.headCircumference,
+        previous: previous && {
+          ...previous,
+          headCircumference: previous.headCircumference === null ? null : toNumber(previous.headCircumference)
+        }
+      },
+      input.confirmImplausible
+    );
 
-    // Handle L ≈ 0 (Box-Cox transformation)
-    if (Math.abs(L) < 0.001) {
-      return Math.log(value / M) / S;
+    if (plausibility === 'FLAGGED') {
+      logger.warn('Implausible growth measurement flagged', { patientId: input.patientId, flags });
     }
 
-    // Standard LMS formula
-    return ((value / M) ** L - 1) / (L * S);
+    return {
+      plausibility,
+      plausibilityFlags: flags.length ? (flags as unknown as Prisma.InputJsonValue) : undefined,
+      confirmedAt: plausibility === 'CONFIRMED' ? new Date() : null,
+      confirmedById: plausibility === 'CONFIRMED' ? recordedById || null : null
+    };
   }
 
   /**
@@ -748,7 +824,15 @@ export class GrowthService {
   /**
    * Calculate growth velocity between measurements
    */
-  private calculateGrowthVelocity(measurements: GrowthRecord[]): GrowthVelocity | null {
+  /**
+   * Velocity between the two latest measurements. Weight and length gains
+   * are placed on the WHO velocity standards at corrected age when the
+   * interval matches one; fixed thresholds are used otherwise.
+   */
+  private async calculateGrowthVelocity(
+    measurements: GrowthRecord[],
+    patient: { dateOfBirth: Date; gender: Gender; gestationalAgeDays: number | null }
+  ): Promise<GrowthVelocity | null> {
     if (measurements.length < 2) return null;
 
     const sorted = [...measurements].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
@@ -762,17 +846,38 @@ export class GrowthService {
 
     if (daysDiff < 7) return null; // Need at least a week for meaningful velocity
 
+    const startAgeDays = resolveGrowthAge(
+      patient.dateOfBirth,
+      previous.date,
+      patient.gestationalAgeDays
+    ).assessmentAgeDays;
+    const endAgeDays = resolveGrowthAge(patient.dateOfBirth, latest.date, patient.gestationalAgeDays).assessmentAgeDays;
+    const percentileStatus = (percentile: number): 'normal' | 'slow' | 'rapid' =>
+      percentile < 5 ? 'slow' : percentile > 95 ? 'rapid' : 'normal';
+
     const weightVelocity = ((latest.weight ?? 0) - (previous.weight ?? 0)) / (daysDiff / 30.44); // kg/month
+    const weightStandard =
+      latest.weight && previous.weight
+        ? await growthVelocity.scoreIncrement({
+            gender: patient.gender,
+            measurementType: 'Weight',
+            startAgeDays,
+            endAgeDays,
+            startValue: previous.weight,
+            endValue: latest.weight
+          })
+        : null;
 
-    // Determine weight velocity status (simplified - would use reference data)
     let weightStatus: 'normal' | 'slow' | 'rapid' = 'normal';
-    if (weightVelocity < 0.1) weightStatus = 'slow';
-    if (weightVelocity > 0.5) weightStatus = 'rapid';
+    if (weightStandard) weightStatus = percentileStatus(weightStandard.percentile);
+    else if (weightVelocity < 0.1) weightStatus = 'slow';
+    else if (weightVelocity > 0.5) weightStatus = 'rapid';
 
     const result: GrowthVelocity = {
       weight: {
         value: weightVelocity,
         unit: 'kg/month',
+        percentile: weightStandard?.percentile,
         status: weightStatus
       },
       period: {
@@ -785,14 +890,24 @@ export class GrowthService {
     // Add height velocity if available
     if (latest.height && previous.height) {
       const heightVelocity = (latest.height - previous.height) / (daysDiff / 30.44); // cm/month
+      const heightStandard = await growthVelocity.scoreIncrement({
+        gender: patient.gender,
+        measurementType: 'Height',
+        startAgeDays,
+        endAgeDays,
+        startValue: previous.height,
+        endValue: latest.height
+      });
 
       let heightStatus: 'normal' | 'slow' | 'rapid' = 'normal';
-      if (heightVelocity < 0.3) heightStatus = 'slow';
-      if (heightVelocity > 1.5) heightStatus = 'rapid';
+      if (heightStandard) heightStatus = percentileStatus(heightStandard.percentile);
+      else if (heightVelocity < 0.3) heightStatus = 'slow';
+      else if (heightVelocity > 1.5) heightStatus = 'rapid';
 
       result.height = {
         value: heightVelocity,
         unit: 'cm/month',
+        percentile: heightStandard?.percentile,
         status: heightStatus
       };
     }
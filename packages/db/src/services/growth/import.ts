@@ -0,0 +1,786 @@
+// src/services/growth/import.ts
+import { randomUUID } from 'node:crypto';
+
+import { logger } from '@naroto/logger';
+import { redis } from '@naroto/redis';
+import { CACHE_KEYS } from '@naroto/redis/cache-keys';
+import type { ImportRecordsJobData, Job } from '@naroto/redis/queue';
+import { addJob, getJob, queueManager } from '@naroto/redis/queue';
+
+import type { GrowthStatus } from '../../../generated/client';
+import { prisma } from '../../client';
+import { NotFoundError, ValidationError } from '../../error';
+import * as growthRepo from '../../repositories/growth.repo';
+import * as patientRepo from '../../repositories/patient.repo';
+import { type SpreadsheetTable, spreadsheetReader } from '../../utils/import/spreadsheet';
+import type { GrowthImportField, GrowthImportInput, GrowthImportUnits } from '../../zodSchemas/growth.schema';
+import { growthService, type MeasurementInput } from './growth.service';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+/** Data rows one file may hold */
+const MAX_IMPORT_ROWS = 20_000;
+/** Rows scored on a dry run; the import itself scores every row */
+const PREVIEW_SCORED_ROWS = 100;
+/** Measurements written per transaction */
+const IMPORT_CHUNK_SIZE = 50;
+/** How long a staged file waits for its job, in seconds */
+const STAGED_IMPORT_TTL = 60 * 60 * 24;
+/** Excel's day zero; XLSX dates are days since it */
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+/** Header names each field is recognised by, after units are stripped */
+const FIELD_HEADERS: Record<GrowthImportField, string[]> = {
+  medicalRecordNumber: [
+    'mrn',
+    'medical record number',
+    'record number',
+    'record no',
+    'patient id',
+    'hospital number',
+    'file number',
+    'file no',
+    'chart number'
+  ],
+  firstName: ['first name', 'firstname', 'given name', 'forename', 'first'],
+  lastName: ['last name', 'lastname', 'surname', 'family name', 'last'],
+  fullName: ['name', 'patient name', 'full name', 'patient', 'child name', 'child'],
+  dateOfBirth: ['dob', 'date of birth', 'birth date', 'birthdate', 'birthday', 'born'],
+  date: [
+    'date',
+    'measurement date',
+    'date measured',
+    'date of measurement',
+    'visit date',
+    'exam date',
+    'encounter date',
+    'measured on'
+  ],
+  weight: ['weight', 'wt', 'body weight', 'mass'],
+  height: ['height', 'length', 'ht', 'stature', 'length height', 'height length', 'recumbent length'],
+  headCircumference: ['head circumference', 'hc', 'ofc', 'head circ', 'head', 'occipitofrontal circumference'],
+  notes: ['notes', 'note', 'comment', 'comments', 'remarks']
+};
+
+type MeasuredField = 'weight' | 'height' | 'headCircumference';
+
+/** Conversion of each unit to kg or cm */
+const UNIT_FACTORS = {
+  weight: { kg: 1, g: 0.001, lb: 0.453_592_37 },
+  height: { cm: 1, mm: 0.1, m: 100, in: 2.54 },
+  headCircumference: { cm: 1, in: 2.54 }
+} as const;
+
+/** Unit words as they appear in headers and cells */
+const UNIT_WORDS: Record<string, string> = {
+  kg: 'kg',
+  kgs: 'kg',
+  kilogram: 'kg',
+  kilograms: 'kg',
+  g: 'g',
+  gm: 'g',
+  gms: 'g',
+  gram: 'g',
+  grams: 'g',
+  lb: 'lb',
+  lbs: 'lb',
+  pound: 'lb',
+  pounds: 'lb',
+  cm: 'cm',
+  mm: 'mm',
+  m: 'm',
+  metre: 'm',
+  metres: 'm',
+  meter: 'm',
+  meters: 'm',
+  in: 'in',
+  inch: 'in',
+  inches: 'in'
+};
+
+/** Values outside these (kg and cm) are rejected as unit or entry errors */
+const PLAUSIBLE_RANGES: Record<MeasuredField, { min: number; max: number; unit: string }> = {
+  weight: { min: 0.2, max: 200, unit: 'kg' },
+  height: { min: 20, max: 220, unit: 'cm' },
+  headCircumference: { min: 15, max: 70, unit: 'cm' }
+};
+
+const FIELD_LABELS: Record<MeasuredField, string> = {
+  weight: 'Weight',
+  height: 'Height',
+  headCircumference: 'Head circumference'
+};
+
+export type GrowthImportRowStatus = 'ready' | 'imported' | 'duplicate' | 'error';
+
+export interface GrowthImportRow {
+  date: Date | null;
+  errors: string[];
+  headCircumference: number | null;
+  height: number | null;
+  patientId: string | null;
+  patientName: string | null;
+  /** Line or row number in the file */
+  row: number;
+  /** Z-scores and status the row is stored with; only the first rows are scored on a dry run */
+  scores?: { growthStatus: GrowthStatus | null; heightForAgeZ: number | null; weightForAgeZ: number | null };
+  status: GrowthImportRowStatus;
+  weight: number | null;
+}
+
+export interface GrowthImportReport {
+  dateFormat: 'DMY' | 'MDY';
+  dryRun: boolean;
+  fileName: string;
+  /** Column header read for each field */
+  mapping: Partial<Record<GrowthImportField, string>>;
+  rows: GrowthImportRow[];
+  totals: Record<GrowthImportRowStatus, number> & { rows: number };
+  units: Required<GrowthImportUnits>;
+  warnings: string[];
+}
+
+export type GrowthImportStatus =
+  | { status: 'pending'; state: string; progress: number }
+  | { status: 'failed'; error: string }
+  | { status: 'completed'; report: GrowthImportReport };
+
+type ImportPatient = Awaited<ReturnType<typeof patientRepo.findGrowthImportCandidates>>[number];
+
+interface StagedImport extends GrowthImportInput {
+  userId?: string;
+}
+
+interface ImportPlan {
+  /** Ready rows and the measurement each becomes */
+  measurements: Map<GrowthImportRow, { input: MeasurementInput; patient: ImportPatient }>;
+  report: GrowthImportReport;
+}
+
+/**
+ * Imports growth histories from CSV and XLSX exports: maps columns, detects
+ * units, matches rows to patients and validates them, then records each row
+ * through the bulk measurement path so z-scores, growth status and
+ * plausibility are worked out exactly as for a measurement entered by hand
+ */
+export class GrowthImportService {
+  constructor(private readonly db: typeof prisma = prisma) {}
+
+  /**
+   * Dry run: what an import would do with the file, row by row, writing
+   * nothing
+   */
+  async preview(input: GrowthImportInput): Promise<GrowthImportReport> {
+    const { report, measurements } = await this.plan(input);
+
+    let scored = 0;
+    for (const [row, { input: measurement, patient }] of measurements) {
+      if (scored++ >= PREVIEW_SCORED_ROWS) break;
+      const prepared = await growthService.scoreMeasurement(measurement, patient);
+      row.scores = {
+        weightForAgeZ: prepared.weightForAgeZ,
+        heightForAgeZ: prepared.heightForAgeZ,
+        growthStatus: prepared.growthStatus
+      };
+    }
+
+    return report;
+  }
+
+  /**
+   * Stage a file and queue its import; the report is collected with
+   * `getImport` once the job completes. Column mapping problems are reported
+   * straight away.
+   */
+  async queueImport(input: GrowthImportInput, userId?: string) {
+    const table = this.readTable(input);
+    this.resolveColumns(table.headers, input.mapping);
+
+    const importId = randomUUID();
+    const staged: StagedImport = { ...input, userId };
+    await redis.setex(CACHE_KEYS.GROWTH_IMPORT(importId), STAGED_IMPORT_TTL, JSON.stringify(staged));
+
+    const job = await addJob('import-records', { clinicId: input.clinicId, userId, importId });
+
+    return { jobId: job.id as string, rows: table.rows.length };
+  }
+
+  async getImport(jobId: string, clinicId: string): Promise<GrowthImportStatus> {
+    const job = await getJob('import-records', jobId);
+    if (!job || job.data.clinicId !== clinicId) {
+      throw new NotFoundError('Growth import', jobId);
+    }
+
+    const state = await job.getState();
+    if (state === 'failed') {
+      return { status: 'failed', error: job.failedReason ?? 'Growth import failed' };
+    }
+    if (state !== 'completed') {
+      return { status: 'pending', state, progress: typeof job.progress === 'number' ? job.progress : 0 };
+    }
+
+    return { status: 'completed', report: job.returnvalue as GrowthImportReport };
+  }
+
+  async processImportJob(data: ImportRecordsJobData, job: Job): Promise<GrowthImportReport> {
+    const stored = await redis.get(CACHE_KEYS.GROWTH_IMPORT(data.importId));
+    if (!stored) {
+      throw new Error(`Staged growth import ${data.importId} has expired`);
+    }
+
+    const staged = JSON.parse(stored) as StagedImport;
+    const { report, measurements } = await this.plan(staged);
+    report.dryRun = false;
+
+    // By patient, so each transaction checks plausibility against that
+    // patient's rows in date order
+    const byPatient = new Map<string, GrowthImportRow[]>();
+    for (const row of measurements.keys()) {
+      const rows = byPatient.get(row.patientId as string) ?? [];
+      rows.push(row);
+      byPatient.set(row.patientId as string, rows);
+    }
+
+    let done = 0;
+    for (const rows of byPatient.values()) {
+      for (let i = 0; i < rows.length; i += IMPORT_CHUNK_SIZE) {
+        const chunk = rows.slice(i, i + IMPORT_CHUNK_SIZE);
+        await this.importChunk(chunk, measurements, staged);
+        done += chunk.length;
+        await job.updateProgress(Math.round((done / measurements.size) * 100));
+      }
+    }
+
+    report.totals = this.countStatuses(report.rows);
+    await redis.del(CACHE_KEYS.GROWTH_IMPORT(data.importId));
+
+    logger.info('Growth import completed', {
+      jobId: job.id,
+      clinicId: staged.clinicId,
+      fileName: staged.fileName,
+      imported: report.totals.imported,
+      duplicates: report.totals.duplicate,
+      errors: report.totals.error
+    });
+
+    return report;
+  }
+
+  registerQueueProcessors(): void {
+    queueManager.setProcessor('import-records', (data, job) => this.processImportJob(data, job));
+  }
+
+  // ==================== PLANNING ====================
+
+  /**
+   * Read, map, match and validate every row of a file
+   */
+  private async plan(input: GrowthImportInput): Promise<ImportPlan> {
+    const table = this.readTable(input);
+    const columns = this.resolveColumns(table.headers, input.mapping);
+    const warnings: string[] = [];
+
+    const cell = (values: string[], field: GrowthImportField) => {
+      const column = columns.get(field);
+      return column === undefined ? '' : (values[column] ?? '');
+    };
+    const columnValues = (field: GrowthImportField) => table.rows.map(values => cell(values, field)).filter(Boolean);
+
+    const dateFormat = this.resolveDateFormat(
+      [...columnValues('date'), ...columnValues('dateOfBirth')],
+      input.dateFormat,
+      warnings
+    );
+    const units = {
+      weight: this.resolveUnit('weight', table.headers, columns, columnValues('weight'), input.units, warnings),
+      height: this.resolveUnit('height', table.headers, columns, columnValues('height'), input.units, warnings),
+      headCircumference: this.resolveUnit(
+        'headCircumference',
+        table.headers,
+        columns,
+        columnValues('headCircumference'),
+        input.units,
+        warnings
+      )
+    } as Required<GrowthImportUnits>;
+
+    const candidates = await this.findCandidates(input.clinicId, table, columns, dateFormat);
+    const patientIds = [...new Set(candidates.map(p => p.id))];
+    const measured = new Set(
+      (patientIds.length ? await growthRepo.findMeasurementDatesByPatients(this.db, patientIds) : []).map(
+        m => `${m.patientId}:${this.dayKey(m.date)}`
+      )
+    );
+
+    const rows: GrowthImportRow[] = [];
+    const measurements: ImportPlan['measurements'] = new Map();
+    const seen = new Set<string>();
+    const today = this.dayKey(new Date());
+
+    table.rows.forEach((values, index) => {
+      const row: GrowthImportRow = {
+        row: table.sourceRows[index] ?? index + 2,
+        status: 'error',
+        patientId: null,
+        patientName: null,
+        date: null,
+        weight: null,
+        height: null,
+        headCircumference: null,
+        errors: []
+      };
+      rows.push(row);
+
+      const patient = this.matchPatient(values, cell, candidates, dateFormat, row.errors);
+      if (patient) {
+        row.patientId = patient.id;
+        row.patientName = `${patient.firstName} ${patient.lastName}`;
+      }
+
+      const rawDate = cell(values, 'date');
+      row.date = this.parseDate(rawDate, dateFormat);
+      if (!rawDate) row.errors.push('Measurement date is missing');
+      else if (!row.date) row.errors.push(`Unreadable measurement date "${rawDate}"`);
+
+      for (const field of ['weight', 'height', 'headCircumference'] as const) {
+        row[field] = this.readMeasurement(field, cell(values, field), units[field], row.errors);
+      }
+      if (row.weight === null && !row.errors.some(e => e.startsWith('Weight'))) {
+        row.errors.push('Weight is required');
+      }
+
+      if (row.date && patient) {
+        const day = this.dayKey(row.date);
+        if (day > today) row.errors.push('Measurement date is in the future');
+        if (day < this.dayKey(patient.dateOfBirth)) row.errors.push('Measurement date is before the date of birth');
+      }
+      if (row.errors.length || !(patient && row.date) || row.weight === null) return;
+
+      const key = `${patient.id}:${this.dayKey(row.date)}`;
+      if (measured.has(key) || seen.has(key)) {
+        row.status = 'duplicate';
+        row.errors.push(
+          measured.has(key) ? 'A measurement is already recorded on this date' : 'Repeats an earlier row for this date'
+        );
+        return;
+      }
+      seen.add(key);
+
+      row.status = 'ready';
+      measurements.set(row, {
+        patient,
+        input: {
+          patientId: patient.id,
+          date: row.date,
+          weight: row.weight,
+          height: row.height,
+          headCircumference: row.headCircumference,
+          notes: cell(values, 'notes') || null
+        }
+      });
+    });
+
+    const mapping = Object.fromEntries(
+      [...columns].map(([field, column]) => [field, table.headers[column] as string])
+    ) as GrowthImportReport['mapping'];
+
+    return {
+      measurements,
+      report: {
+        fileName: input.fileName,
+        dryRun: true,
+        mapping,
+        units,
+        dateFormat,
+        totals: this.countStatuses(rows),
+        warnings,
+        rows
+      }
+    };
+  }
+
+  private readTable(input: GrowthImportInput): SpreadsheetTable {
+    let table: SpreadsheetTable;
+    try {
+      table = spreadsheetReader.read(Buffer.from(input.content, 'base64'), input.fileName);
+    } catch (error) {
+      throw new ValidationError('The file could not be read as CSV or XLSX', {
+        reason: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    if (!table.rows.length) {
+      throw new ValidationError('The file has no rows below its header');
+    }
+    if (table.rows.length > MAX_IMPORT_ROWS) {
+      throw new ValidationError(`A file can hold at most ${MAX_IMPORT_ROWS} rows; split it and import each part`);
+    }
+    return table;
+  }
+
+  /**
+   * Column of each field: from the mapping given, otherwise recognised from
+   * the header. Rows need a date, a weight and a way to find the patient.
+   */
+  private resolveColumns(headers: string[], mapping: GrowthImportInput['mapping']): Map<GrowthImportField, number> {
+    const columns = new Map<GrowthImportField, number>();
+    const normalized = headers.map(h => this.normalizeHeader(h));
+
+    for (const field of Object.keys(FIELD_HEADERS) as GrowthImportField[]) {
+      const header = mapping?.[field];
+      if (header) {
+        const column = headers.findIndex(h => h.trim().toLowerCase() === header.trim().toLowerCase());
+        if (column === -1) {
+          throw new ValidationError(`Column "${header}" mapped to ${field} is not in the file`, { headers });
+        }
+        columns.set(field, column);
+        continue;
+      }
+
+      const column = normalized.findIndex(
+        (h, index) => FIELD_HEADERS[field].includes(h) && ![...columns.values()].includes(index)
+      );
+      if (column !== -1) columns.set(field, column);
+    }
+
+    const missing: string[] = [];
+    if (!columns.has('date')) missing.push('measurement date');
+    if (!columns.has('weight')) missing.push('weight');
+    const byName =
+      columns.has('dateOfBirth') && (columns.has('fullName') || (columns.has('firstName') && columns.has('lastName')));
+    if (!(columns.has('medicalRecordNumber') || byName)) {
+      missing.push('record number, or name and date of birth');
+    }
+    if (missing.length) {
+      throw new ValidationError(`Could not find columns for: ${missing.join('; ')}. Map them to the file's headers.`, {
+        headers
+      });
+    }
+
+    return columns;
+  }
+
+  /**
+   * Header in lower case with punctuation and unit words dropped, so
+   * "Weight (kg)" and "weight_kg" both read as "weight"
+   */
+  private normalizeHeader(header: string): string {
+    return header
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, ' ')
+      .split(' ')
+      .filter(word => word && !UNIT_WORDS[word])
+      .join(' ');
+  }
+
+  // ==================== UNITS ====================
+
+  /**
+   * Unit of a measurement column: as given, else from its header, else from
+   * the size of its values. Pounds and inches are never guessed from values.
+   */
+  private resolveUnit(
+    field: MeasuredField,
+    headers: string[],
+    columns: Map<GrowthImportField, number>,
+    values: string[],
+    given: GrowthImportUnits | undefined,
+    warnings: string[]
+  ): string {
+    const factors = UNIT_FACTORS[field];
+    if (given?.[field]) return given[field];
+
+    const column = columns.get(field);
+    const headerUnit = (column === undefined ? '' : (headers[column] ?? ''))
+      .toLowerCase()
+      .split(/[^a-z]+/)
+      .map(word => UNIT_WORDS[word])
+      .find(unit => unit && unit in factors);
+    if (headerUnit) return headerUnit;
+
+    const numbers = values
+      .map(v => this.parseNumber(v)?.value)
+      .filter((v): v is number => v !== undefined)
+      .sort((a, b) => a - b);
+    const median = numbers[Math.floor(numbers.length / 2)];
+    if (median === undefined) return field === 'weight' ? 'kg' : 'cm';
+
+    if (field === 'weight' && median > 250) {
+      warnings.push('Weights were read as grams from their size');
+      return 'g';
+    }
+    if (field === 'height' && median < 3) {
+      warnings.push('Heights were read as metres from their size');
+      return 'm';
+    }
+    if (field === 'height' && median > 300) {
+      warnings.push('Heights were read as millimetres from their size');
+      return 'mm';
+    }
+    return field === 'weight' ? 'kg' : 'cm';
+  }
+
+  /**
+   * A measurement converted to kg or cm. A unit written in the cell
+   * ("3.4 kg") overrides the column's.
+   */
+  private readMeasurement(field: MeasuredField, raw: string, unit: string, errors: string[]): number | null {
+    if (!raw) return null;
+
+    const parsed = this.parseNumber(raw);
+    const factors = UNIT_FACTORS[field] as Record<string, number>;
+    const cellUnit = parsed?.unit && factors[parsed.unit] !== undefined ? parsed.unit : unit;
+    if (!parsed || parsed.value <= 0) {
+      errors.push(`${FIELD_LABELS[field]}: unreadable value "${raw}"`);
+      return null;
+    }
+
+    const value = parsed.value * (factors[cellUnit] ?? 1);
+    const range = PLAUSIBLE_RANGES[field];
+    if (value < range.min || value > range.max) {
+      errors.push(
+        `${FIELD_LABELS[field]} of ${this.round(value, 2)} ${range.unit} is outside ${range.min}–${range.max} ${range.unit}; check the unit`
+      );
+      return null;
+    }
+    return this.round(value, field === 'weight' ? 3 : 1);
+  }
+
+  /**
+   * "3.45", "3,45", "3.45 kg"; a comma is a decimal point when there is no
+   * other
+   */
+  private parseNumber(raw: string): { unit?: string; value: number } | null {
+    const match = /^(-?\d+(?:[.,]\d+)?)\s*([a-z]*)\.?$/i.exec(raw.trim());
+    if (!match?.[1]) return null;
+
+    const value = Number(match[1].replace(',', '.'));
+    if (!Number.isFinite(value)) return null;
+    const unit = match[2] ? UNIT_WORDS[match[2].toLowerCase()] : undefined;
+    if (match[2] && !unit) return null;
+    return { value, unit };
+  }
+
+  // ==================== DATES ====================
+
+  /**
+   * Whether dates like 03/04/2020 are day or month first. A day over 12 in
+   * either position settles it; otherwise day first is assumed and said so.
+   */
+  private resolveDateFormat(values: string[], given: GrowthImportInput['dateFormat'], warnings: string[]) {
+    if (given !== 'auto') return given;
+
+    let dayFirst = false;
+    let monthFirst = false;
+    for (const value of values) {
+      const match = /^(\d{1,2})[-/.](\d{1,2})[-/.]\d{2,4}/.exec(value.trim());
+      if (!match) continue;
+      if (Number(match[1]) > 12) dayFirst = true;
+      if (Number(match[2]) > 12) monthFirst = true;
+    }
+
+    if (monthFirst && !dayFirst) return 'MDY';
+    if (monthFirst && dayFirst) {
+      warnings.push('Dates mix day-first and month-first forms; they were read as day/month/year');
+    } else if (!dayFirst && values.some(v => /^\d{1,2}[-/.]\d{1,2}[-/.]\d{2,4}/.test(v.trim()))) {
+      warnings.push(
+        'Dates such as 03/04/2020 were read as day/month/year; choose the date format if they are month first'
+      );
+    }
+    return 'DMY';
+  }
+
+  /**
+   * ISO dates, day or month first dates, Excel serial numbers and dates
+   * with month names, as UTC midnight
+   */
+  private parseDate(raw: string, format: 'DMY' | 'MDY'): Date | null {
+    const value = raw.trim();
+    if (!value) return null;
+
+    const build = (year: number, month: number, day: number) => {
+      const fullYear = year < 100 ? year + (year <= new Date().getFullYear() % 100 ? 2000 : 1900) : year;
+      const date = new Date(Date.UTC(fullYear, month - 1, day));
+      return date.getUTCMonth() === month - 1 && date.getUTCDate() === day ? date : null;
+    };
+
+    const iso = /^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/.exec(value);
+    if (iso) return build(Number(iso[1]), Number(iso[2]), Number(iso[3]));
+
+    const local = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})(?:\s.*)?$/.exec(value);
+    if (local) {
+      const [first, second] = [Number(local[1]), Number(local[2])];
+      return format === 'DMY' ? build(Number(local[3]), second, first) : build(Number(local[3]), first, second);
+    }
+
+    if (/^\d+(\.\d+)?$/.test(value)) {
+      const serial = Math.floor(Number(value));
+      return serial > 0 && serial < 100_000 ? new Date(EXCEL_EPOCH + serial * MS_PER_DAY) : null;
+    }
+
+    if (/[a-z]/i.test(value)) {
+      const parsed = new Date(value);
+      return Number.isNaN(parsed.getTime())
+        ? null
+        : new Date(Date.UTC(parsed.getFullYear(), parsed.getMonth(), parsed.getDate()));
+    }
+    return null;
+  }
+
+  private dayKey(date: Date | string): string {
+    return new Date(date).toISOString().slice(0, 10);
+  }
+
+  // ==================== PATIENT MATCHING ====================
+
+  /**
+   * Patients the file's rows could belong to, in one query
+   */
+  private async findCandidates(
+    clinicId: string,
+    table: SpreadsheetTable,
+    columns: Map<GrowthImportField, number>,
+    dateFormat: 'DMY' | 'MDY'
+  ) {
+    const read = (values: string[], field: GrowthImportField) => {
+      const column = columns.get(field);
+      return column === undefined ? '' : (values[column] ?? '').trim();
+    };
+
+    const medicalRecordNumbers = [...new Set(table.rows.map(v => read(v, 'medicalRecordNumber')).filter(Boolean))];
+    const births = table.rows
+      .map(v => this.parseDate(read(v, 'dateOfBirth'), dateFormat)?.getTime())
+      .filter((t): t is number => t !== undefined);
+
+    return patientRepo.findGrowthImportCandidates(this.db, clinicId, {
+      medicalRecordNumbers,
+      bornBetween: births.length
+        ? { from: new Date(Math.min(...births)), to: new Date(Math.max(...births) + MS_PER_DAY) }
+        : null
+    });
+  }
+
+  /**
+   * The patient a row belongs to: by record number when the row has one,
+   * otherwise by name and date of birth. A record number whose patient has a
+   * different date of birth is refused rather than trusted.
+   */
+  private matchPatient(
+    values: string[],
+    cell: (values: string[], field: GrowthImportField) => string,
+    candidates: ImportPatient[],
+    dateFormat: 'DMY' | 'MDY',
+    errors: string[]
+  ): ImportPatient | null {
+    const mrn = cell(values, 'medicalRecordNumber').trim();
+    const rawBirth = cell(values, 'dateOfBirth');
+    const birth = this.parseDate(rawBirth, dateFormat);
+    if (rawBirth && !birth) {
+      errors.push(`Unreadable date of birth "${rawBirth}"`);
+      return null;
+    }
+
+    if (mrn) {
+      const patient = candidates.find(p => p.medicalRecordNumber === mrn);
+      if (!patient) {
+        errors.push(`No patient has record number ${mrn}`);
+        return null;
+      }
+      if (birth && this.dayKey(birth) !== this.dayKey(patient.dateOfBirth)) {
+        errors.push(`Record number ${mrn} belongs to a patient with a different date of birth`);
+        return null;
+      }
+      return patient;
+    }
+
+    const fullName = cell(values, 'fullName');
+    const names = fullName.includes(',')
+      ? [fullName.split(',').reverse().join(' ')]
+      : [fullName || `${cell(values, 'firstName')} ${cell(values, 'lastName')}`];
+    const name = this.normalizeName(names[0] ?? '');
+    if (!(name && birth)) {
+      errors.push('A record number, or a name and date of birth, is needed to find the patient');
+      return null;
+    }
+
+    const matches = candidates.filter(p => {
+      if (this.dayKey(p.dateOfBirth) !== this.dayKey(birth)) return false;
+      const first = this.normalizeName(p.firstName);
+      const last = this.normalizeName(p.lastName);
+      return name === `${first} ${last}` || name === `${last} ${first}`;
+    });
+
+    if (matches.length === 1) return matches[0] as ImportPatient;
+    errors.push(
+      matches.length
+        ? `${matches.length} patients are named ${names[0]?.trim()} and born ${this.dayKey(birth)}; add record numbers to tell them apart`
+        : `No patient named ${names[0]?.trim()} born ${this.dayKey(birth)}`
+    );
+    return null;
+  }
+
+  /**
+   * Lower case without accents or punctuation
+   */
+  private normalizeName(name: string): string {
+    return name
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/[^a-z]+/g, ' ')
+      .trim();
+  }
+
+  // ==================== IMPORT ====================
+
+  /**
+   * Record one patient's rows in a transaction. Rows the bulk path rejects
+   * keep its reason; a failed transaction fails the whole chunk.
+   */
+  private async importChunk(rows: GrowthImportRow[], measurements: ImportPlan['measurements'], staged: StagedImport) {
+    const inputs = rows.map(row => measurements.get(row)?.input as MeasurementInput);
+
+    try {
+      const { results, errors } = await growthService.recordBulkMeasurements(inputs, staged.clinicId, staged.userId);
+
+      const failed = new Map(errors.map(e => [e.input, e.error]));
+      const recorded = new Map(results.map(r => [`${r.patientId}:${r.date.getTime()}`, r]));
+
+      rows.forEach((row, index) => {
+        const input = inputs[index] as MeasurementInput;
+        const error = failed.get(input);
+        if (error) {
+          row.status = 'error';
+          row.errors.push(error);
+          return;
+        }
+
+        const record = recorded.get(`${input.patientId}:${input.date.getTime()}`);
+        row.status = 'imported';
+        row.scores = record && {
+          weightForAgeZ: record.weightForAgeZ === null ? null : Number(record.weightForAgeZ),
+          heightForAgeZ: record.heightForAgeZ === null ? null : Number(record.heightForAgeZ),
+          growthStatus: record.growthStatus
+        };
+      });
+    } catch (error) {
+      logger.error('Growth import chunk failed', { error, patientId: rows[0]?.patientId ?? undefined });
+      for (const row of rows) {
+        row.status = 'error';
+        row.errors.push(error instanceof Error ? error.message : 'Could not be saved');
+      }
+    }
+  }
+
+  private countStatuses(rows: GrowthImportRow[]): GrowthImportReport['totals'] {
+    const totals = { rows: rows.length, ready: 0, imported: 0, duplicate: 0, error: 0 };
+    for (const row of rows) totals[row.status]++;
+    return totals;
+  }
+
+  private round(value: number, digits: number): number {
+    const factor = 10 ** digits;
+    return Math.round(value * factor) / factor;
+  }
+}
+
+export const growthImportService = new GrowthImportService();
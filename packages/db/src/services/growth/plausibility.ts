@@ -0,0 +1,249 @@
+// src/services/growth/plausibility.ts
+import { differenceInDays, format } from 'date-fns';
+
+import type { MeasurementPlausibility } from '../../../generated/client';
+import { growthCalculator } from './calculator';
+import type { MeasurementZScores, PlausibilityFlag, PlausibilityInput } from './types';
+
+type Field = PlausibilityFlag['field'];
+type ZScoreIndicator = keyof MeasurementZScores;
+
+/** WHO Anthro flags for biologically implausible values */
+const BIV_LIMITS: Record<ZScoreIndicator, [number, number]> = {
+  weightForAge: [-6, 5],
+  heightForAge: [-6, 6],
+  headCircumferenceForAge: [-5, 5],
+  weightForLength: [-5, 5],
+  bmiForAge: [-5, 5]
+};
+/** A corrected value is only suggested when it lands well inside the reference */
+const SUGGESTION_MAX_Z = 3;
+/** Length measurements vary by about a centimetre between observers */
+const MAX_HEIGHT_DECREASE_CM = 1.5;
+const MAX_HEAD_CIRCUMFERENCE_DECREASE_CM = 1;
+/** Relative weight change allowed between two measurements: 5% plus 1% a day, for up to 30 days */
+const WEIGHT_CHANGE_BASE = 0.05;
+const WEIGHT_CHANGE_PER_DAY = 0.01;
+const WEIGHT_CHANGE_MAX_DAYS = 30;
+
+const FIELD_LABELS: Record<Field, string> = {
+  weight: 'Weight',
+  height: 'Length/height',
+  headCircumference: 'Head circumference'
+};
+
+const INDICATOR_LABELS: Record<ZScoreIndicator, string> = {
+  weightForAge: 'Weight-for-age',
+  heightForAge: 'Length/height-for-age',
+  headCircumferenceForAge: 'Head circumference-for-age',
+  weightForLength: 'Weight-for-length/height',
+  bmiForAge: 'BMI-for-age'
+};
+
+const PRIMARY_INDICATORS: [ZScoreIndicator, Field][] = [
+  ['weightForAge', 'weight'],
+  ['heightForAge', 'height'],
+  ['headCircumferenceForAge', 'headCircumference']
+];
+
+/**
+ * Unit slips seen at data entry, as the factor that recovers the intended
+ * value in kg or cm
+ */
+const UNIT_SLIPS: Record<Field, Array<{ factor: number; label: string }>> = {
+  weight: [
+    { factor: 1 / 2.204_62, label: 'was entered in pounds' },
+    { factor: 0.1, label: 'has a misplaced decimal point' },
+    { factor: 10, label: 'has a misplaced decimal point' }
+  ],
+  height: [
+    { factor: 2.54, label: 'was entered in inches' },
+    { factor: 0.1, label: 'was entered in millimetres' },
+    { factor: 10, label: 'has a misplaced decimal point' }
+  ],
+  headCircumference: [
+    { factor: 2.54, label: 'was entered in inches' },
+    { factor: 0.1, label: 'was entered in millimetres' }
+  ]
+};
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Flags measurements that are unlikely to be real before they reach the
+ * growth series: z-scores beyond the WHO plausibility cut-offs, impossible
+ * changes since the previous measurement, and likely unit mix-ups
+ */
+export class GrowthPlausibilityChecker {
+  /**
+   * Status a measurement is stored with. A flagged one waits for confirmation
+   * unless the user confirmed it while entering it.
+   */
+  async assess(
+    input: PlausibilityInput,
+    confirmed = false
+  ): Promise<{ flags: PlausibilityFlag[]; plausibility: MeasurementPlausibility }> {
+    const flags = await this.check(input);
+    if (!flags.length) return { flags, plausibility: 'PLAUSIBLE' };
+    return { flags, plausibility: confirmed ? 'CONFIRMED' : 'FLAGGED' };
+  }
+
+  async check(input: PlausibilityInput): Promise<PlausibilityFlag[]> {
+    const flags = await this.checkZScores(input);
+    const flagged = new Set(flags.map(f => f.field));
+
+    for (const flag of this.checkChanges(input)) {
+      if (!flagged.has(flag.field)) flags.push(flag);
+    }
+
+    return flags;
+  }
+
+  /**
+   * Z-scores outside the WHO cut-offs, reported as a unit mix-up when
+   * converting the value brings it well inside the reference
+   */
+  private async checkZScores(input: PlausibilityInput): Promise<PlausibilityFlag[]> {
+    const { indicators } = await this.score(input);
+    const flags: PlausibilityFlag[] = [];
+
+    for (const [indicator, field] of PRIMARY_INDICATORS) {
+      const zScore = indicators[indicator]?.zScore ?? null;
+      const value = input[field];
+      if (zScore === null || !value || this.withinLimits(indicator, zScore)) continue;
+
+      const slip = await this.findUnitSlip(input, field, indicator, value);
+      flags.push(slip ?? this.implausibleZScore(indicator, field, zScore));
+    }
+
+    // Weight against length only tells which measurement is wrong when neither is flagged alone
+    if (!flags.length) {
+      for (const indicator of ['weightForLength', 'bmiForAge'] as const) {
+        const zScore = indicators[indicator]?.zScore ?? null;
+        if (zScore !== null && !this.withinLimits(indicator, zScore)) {
+          flags.push(this.implausibleZScore(indicator, 'weight', zScore));
+          break;
+        }
+      }
+    }
+
+    return flags;
+  }
+
+  /**
+   * Changes since the previous measurement that growth cannot explain
+   */
+  private checkChanges(input: PlausibilityInput): PlausibilityFlag[] {
+    const { previous } = input;
+    if (!previous) return [];
+
+    const flags: PlausibilityFlag[] = [];
+    const since = format(previous.date, 'yyyy-MM-dd');
+
+    if (input.height && previous.height && previous.height - input.height > MAX_HEIGHT_DECREASE_CM) {
+      flags.push({
+        code: 'HEIGHT_DECREASE',
+        field: 'height',
+        message: `Length/height ${input.height} cm is ${round(previous.height - input.height, 1)} cm less than on ${since}`
+      });
+    }
+
+    if (
+      input.headCircumference &&
+      previous.headCircumference &&
+      previous.headCircumference - input.headCircumference > MAX_HEAD_CIRCUMFERENCE_DECREASE_CM
+    ) {
+      flags.push({
+        code: 'HEAD_CIRCUMFERENCE_DECREASE',
+        field: 'headCircumference',
+        message: `Head circumference ${input.headCircumference} cm is ${round(previous.headCircumference - input.headCircumference, 1)} cm less than on ${since}`
+      });
+    }
+
+    const days = Math.max(differenceInDays(input.date, previous.date), 1);
+    if (input.weight && previous.weight && days <= WEIGHT_CHANGE_MAX_DAYS) {
+      const allowed = WEIGHT_CHANGE_BASE + WEIGHT_CHANGE_PER_DAY * days;
+      const change = (input.weight - previous.weight) / previous.weight;
+
+      if (Math.abs(change) > allowed) {
+        const previousWeight = previous.weight;
+        const slip = UNIT_SLIPS.weight.find(
+          s => Math.abs((input.weight as number) * s.factor - previousWeight) / previousWeight <= allowed
+        );
+
+        flags.push(
+          slip
+            ? this.unitMixUp('weight', input.weight, round(input.weight * slip.factor), slip.label)
+            : {
+                code: 'WEIGHT_JUMP',
+                field: 'weight',
+                message: `Weight changed by ${round(change * 100, 0)}% in ${days} day${days === 1 ? '' : 's'} since ${since}`
+              }
+        );
+      }
+    }
+
+    return flags;
+  }
+
+  /**
+   * The conversion that brings an implausible value closest to the median,
+   * if any brings it within ±3 SD
+   */
+  private async findUnitSlip(
+    input: PlausibilityInput,
+    field: Field,
+    indicator: ZScoreIndicator,
+    value: number
+  ): Promise<PlausibilityFlag | null> {
+    let best: { label: string; suggested: number; zScore: number } | null = null;
+
+    for (const slip of UNIT_SLIPS[field]) {
+      const suggested = round(value * slip.factor);
+      const { indicators } = await this.score({ ...input, [field]: suggested });
+      const zScore = indicators[indicator]?.zScore ?? null;
+      if (zScore === null || Math.abs(zScore) > SUGGESTION_MAX_Z) continue;
+      if (!best || Math.abs(zScore) < Math.abs(best.zScore)) best = { label: slip.label, suggested, zScore };
+    }
+
+    if (!best) return null;
+    return { ...this.unitMixUp(field, value, best.suggested, best.label), zScore: round(best.zScore) };
+  }
+
+  private score(input: PlausibilityInput) {
+    return growthCalculator.calculateAgeAdjustedZScores({
+      age: input.age,
+      gender: input.gender,
+      weight: input.weight,
+      height: input.height,
+      headCircumference: input.headCircumference
+    });
+  }
+
+  private withinLimits(indicator: ZScoreIndicator, zScore: number): boolean {
+    const [low, high] = BIV_LIMITS[indicator];
+    return zScore >= low && zScore <= high;
+  }
+
+  private implausibleZScore(indicator: ZScoreIndicator, field: Field, zScore: number): PlausibilityFlag {
+    const [low, high] = BIV_LIMITS[indicator];
+    return {
+      code: 'IMPLAUSIBLE_Z_SCORE',
+      field,
+      zScore,
+      message: `${INDICATOR_LABELS[indicator]} z-score ${zScore} is outside the plausible range (${low} to ${high})`
+    };
+  }
+
+  private unitMixUp(field: Field, value: number, suggestedValue: number, label: string): PlausibilityFlag {
+    const unit = field === 'weight' ? 'kg' : 'cm';
+    return {
+      code: 'UNIT_MIX_UP',
+      field,
+      suggestedValue,
+      message: `${FIELD_LABELS[field]} ${value} looks like it ${label}; did you mean ${suggestedValue} ${unit}?`
+    };
+  }
+}
+
+export const growthPlausibilityChecker = new GrowthPlausibilityChecker();
@@ -0,0 +1,120 @@
+// src/services/growth/projection.ts
+import type { ChartType, MeasurementType } from '../../../generated/client';
+import { growthCalculator } from './calculator';
+import type { TargetHeight } from './types';
+
+const DAYS_PER_MONTH = 30.4375;
+/** 95% band */
+const BAND_Z = 1.96;
+/**
+ * Year-on-year correlation of a child's z-scores. Children regress towards
+ * the median, so the band around the projected channel widens with horizon.
+ */
+const ANNUAL_Z_CORRELATION: Record<MeasurementType, number> = {
+  Weight: 0.85,
+  Height: 0.9,
+  HeadCircumference: 0.88,
+  BMI: 0.8
+};
+/** Tanner: half the 13 cm mean adult sex difference */
+const SEX_HEIGHT_DIFFERENCE_CM = 13;
+/** Tanner target range: about two SD of adult height around the target */
+const TARGET_RANGE_CM = 8.5;
+/** 19 years, the end of the WHO height-for-age reference */
+const ADULT_AGE_DAYS = 6940;
+
+export interface ProjectionPoint {
+  /** Age the projection is read at: corrected while correction applies */
+  ageDays: number;
+  horizonMonths: number;
+  lower: number;
+  lowerZScore: number;
+  projectedValue: number;
+  upper: number;
+  upperZScore: number;
+  zScore: number;
+}
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Projects growth along a child's current z-score channel on the LMS curves
+ */
+export class GrowthProjector {
+  /**
+   * Values the child would reach by keeping its current z-score, with a band
+   * from the conditional distribution of the future z-score. Stops where the
+   * reference curve ends.
+   */
+  async projectChannel(params: {
+    chartType: ChartType;
+    gender: 'MALE' | 'FEMALE';
+    horizons: number[];
+    measurementType: MeasurementType;
+    startAgeDays: number;
+    zScore: number;
+  }): Promise<ProjectionPoint[]> {
+    const { chartType, gender, horizons, measurementType, startAgeDays, zScore } = params;
+    const points: ProjectionPoint[] = [];
+
+    for (const horizonMonths of horizons) {
+      const ageDays = Math.round(startAgeDays + horizonMonths * DAYS_PER_MONTH);
+      const halfWidth = this.bandHalfWidth(measurementType, horizonMonths);
+
+      const [projectedValue, lower, upper] = await Promise.all([
+        growthCalculator.valueAtZScore(chartType, gender, ageDays, zScore),
+        growthCalculator.valueAtZScore(chartType, gender, ageDays, zScore - halfWidth),
+        growthCalculator.valueAtZScore(chartType, gender, ageDays, zScore + halfWidth)
+      ]);
+      if (projectedValue === null || lower === null || upper === null) break;
+
+      points.push({
+        horizonMonths,
+        ageDays,
+        zScore: round(zScore),
+        lowerZScore: round(zScore - halfWidth),
+        upperZScore: round(zScore + halfWidth),
+        projectedValue: round(projectedValue),
+        lower: round(lower),
+        upper: round(upper)
+      });
+    }
+
+    return points;
+  }
+
+  /**
+   * Mid-parental target height (Tanner) and where it sits on the adult end of
+   * the height-for-age reference
+   */
+  async targetHeight(
+    gender: 'MALE' | 'FEMALE',
+    fatherHeightCm: number,
+    motherHeightCm: number,
+    source: TargetHeight['source']
+  ): Promise<TargetHeight> {
+    const adjustment = gender === 'MALE' ? SEX_HEIGHT_DIFFERENCE_CM : -SEX_HEIGHT_DIFFERENCE_CM;
+    const heightCm = round((fatherHeightCm + motherHeightCm + adjustment) / 2, 1);
+    const adult = await growthCalculator.calculateIndicator('HFA', gender, ADULT_AGE_DAYS, heightCm);
+
+    return {
+      heightCm,
+      lowerCm: round(heightCm - TARGET_RANGE_CM, 1),
+      upperCm: round(heightCm + TARGET_RANGE_CM, 1),
+      zScore: adult?.zScore ?? null,
+      percentile: adult?.percentile ?? null,
+      source
+    };
+  }
+
+  /**
+   * Half-width of the band in z-score units: the SD of the future z-score
+   * given today's is sqrt(1 - r²), with r decaying over the horizon
+   */
+  private bandHalfWidth(measurementType: MeasurementType, horizonMonths: number): number {
+    const r = ANNUAL_Z_CORRELATION[measurementType] ** (horizonMonths / 12);
+    return BAND_Z * Math.sqrt(1 - r ** 2);
+  }
+}
+
+export const growthProjector = new GrowthProjector();
@@ -0,0 +1,283 @@
+// src/services/growth/recompute.ts
+import { logger } from '@naroto/logger';
+import { redis } from '@naroto/redis';
+import { CACHE_KEYS } from '@naroto/redis/cache-keys';
+import type { GrowthCalculationJobData, Job } from '@naroto/redis/queue';
+import { addJob, getJob, queueManager } from '@naroto/redis/queue';
+
+import type { GrowthStatus } from '../../../generated/client';
+import { prisma } from '../../client';
+import * as growthRepo from '../../repositories/growth.repo';
+import { cacheService } from '../cache.service';
+import { growthService } from './growth.service';
+import { clearGrowthDataCache, getReferenceDataVersion } from './who-data';
+
+const RECOMPUTE_BATCH_SIZE = 200;
+/** 02:00 every night, server time */
+const NIGHTLY_PATTERN = '0 2 * * *';
+const NIGHTLY_JOB_ID = 'growth-recompute-nightly';
+const REPORT_TTL = 60 * 60 * 24 * 14;
+/** Changes listed per clinic report; the rest are only counted */
+const MAX_REPORTED_CHANGES = 500;
+
+type OutdatedRecord = Awaited<ReturnType<typeof growthRepo.findOutdatedGrowthRecords>>[number];
+
+export interface GrowthClassificationChange {
+  /** Only set when the record had a classification that changed */
+  classification: { from: string; to: string | null } | null;
+  /** Measurement date, as an ISO string */
+  date: string;
+  growthRecordId: string;
+  growthStatus: { from: GrowthStatus; to: GrowthStatus } | null;
+  patientId: string;
+  patientName: string;
+}
+
+/**
+ * A clinic's share of the latest recompute run
+ */
+export interface GrowthRecomputeReport {
+  changes: GrowthClassificationChange[];
+  failed: number;
+  jobId: string;
+  recomputed: number;
+  referenceVersion: string;
+  startedAt: string;
+  trigger: GrowthCalculationJobData['trigger'];
+  /** Changes left out of `changes` once it is full */
+  unlistedChanges: number;
+  updatedAt: string;
+}
+
+export type GrowthRecomputeStatus = GrowthRecomputeReport & {
+  progress: number;
+  state: string;
+};
+
+interface BatchOutcome {
+  changes: GrowthClassificationChange[];
+  failed: number;
+  patientIds: Set<string>;
+  recomputed: number;
+}
+
+/**
+ * Keeps stored z-scores, percentiles and classifications in step with the
+ * growth reference data. Records carry the version of the data they were
+ * scored against; when the tables are corrected or extended the version
+ * changes and the nightly run rescores every outdated record.
+ */
+export class GrowthRecomputeService {
+  constructor(private readonly db: typeof prisma = prisma) {}
+
+  /**
+   * Queue a run for one clinic, e.g. straight after reference data was
+   * corrected. Nothing is queued when every record is current.
+   */
+  async startRecompute(clinicId: string, userId?: string) {
+    clearGrowthDataCache();
+    const referenceVersion = await getReferenceDataVersion();
+    const outdated = await growthRepo.countOutdatedGrowthRecords(this.db, referenceVersion, clinicId);
+    if (!outdated) {
+      return { jobId: null, outdated, referenceVersion };
+    }
+
+    const job = await addJob('calculate-growth-percentiles', { clinicId, userId, trigger: 'manual' });
+    return { jobId: job.id as string, outdated, referenceVersion };
+  }
+
+  /**
+   * Register the nightly run across all clinics. Repeatable jobs are keyed by
+   * their id and pattern, so calling this on every start is safe.
+   */
+  async scheduleNightly(): Promise<void> {
+    try {
+      await addJob(
+        'calculate-growth-percentiles',
+        { trigger: 'nightly' },
+        { jobId: NIGHTLY_JOB_ID, repeat: { pattern: NIGHTLY_PATTERN } }
+      );
+    } catch (error) {
+      logger.warn('Nightly growth recompute not scheduled', { error });
+    }
+  }
+
+  /**
+   * The clinic's report from the latest run, with the run's state; null when
+   * no run has touched the clinic's records
+   */
+  async getStatus(clinicId: string): Promise<GrowthRecomputeStatus | null> {
+    const report = await this.readReport(clinicId);
+    if (!report) return null;
+
+    const job = await getJob('calculate-growth-percentiles', report.jobId);
+    const state = job ? await job.getState() : 'completed';
+    const progress = typeof job?.progress === 'number' ? job.progress : state === 'completed' ? 100 : 0;
+
+    return { ...report, state, progress };
+  }
+
+  /**
+   * Rescore outdated records in batches. The cursor and totals are saved on
+   * the job after each batch, so a retry continues where the failed attempt
+   * stopped instead of starting over.
+   */
+  async processRecomputeJob(data: GrowthCalculationJobData, job: Job): Promise<{ processed: number; total: number }> {
+    // Other processes may hold the tables from before a correction; this run reads them afresh
+    if (!data.cursor) clearGrowthDataCache();
+    const referenceVersion = await getReferenceDataVersion();
+    const startedAt = new Date(job.timestamp).toISOString();
+
+    let { cursor, processed = 0 } = data;
+    const total = data.total ?? (await growthRepo.countOutdatedGrowthRecords(this.db, referenceVersion, data.clinicId));
+
+    let records: OutdatedRecord[];
+    do {
+      records = await growthRepo.findOutdatedGrowthRecords(this.db, referenceVersion, {
+        clinicId: data.clinicId,
+        after: cursor,
+        take: RECOMPUTE_BATCH_SIZE
+      });
+      if (!records.length) break;
+
+      const byClinic = new Map<string, BatchOutcome>();
+      for (const record of records) {
+        const clinicId = record.patient.clinicId;
+        const outcome = byClinic.get(clinicId) ?? { changes: [], failed: 0, patientIds: new Set(), recomputed: 0 };
+        byClinic.set(clinicId, outcome);
+
+        try {
+          const change = await this.recomputeRecord(record);
+          outcome.recomputed++;
+          outcome.patientIds.add(record.patient.id);
+          if (change) outcome.changes.push(change);
+        } catch (error) {
+          // Left outdated, so the next run tries it again
+          outcome.failed++;
+          logger.error('Growth record recompute failed', { error, growthRecordId: record.id });
+        }
+      }
+
+      for (const [clinicId, outcome] of byClinic) {
+        await this.mergeReport(clinicId, outcome, {
+          jobId: job.id as string,
+          referenceVersion,
+          startedAt,
+          trigger: data.trigger
+        });
+        await this.invalidateCaches(clinicId, outcome);
+      }
+
+      cursor = records.at(-1)?.id;
+      processed += records.length;
+      await job.updateData({ ...data, cursor, processed, total });
+      await job.updateProgress(Math.min(100, Math.round((processed / Math.max(total, 1)) * 100)));
+    } while (records.length === RECOMPUTE_BATCH_SIZE);
+
+    logger.info('Growth recompute completed', {
+      jobId: job.id,
+      clinicId: data.clinicId,
+      trigger: data.trigger,
+      referenceVersion,
+      processed,
+      total
+    });
+
+    return { processed, total };
+  }
+
+  registerQueueProcessors(): void {
+    queueManager.setProcessor('calculate-growth-percentiles', (data, job) => this.processRecomputeJob(data, job));
+  }
+
+  // ==================== HELPERS ====================
+
+  /**
+   * Rescore one record and stamp it with the current version. Returns the
+   * change when a classification the record already had is now different.
+   */
+  private async recomputeRecord(record: OutdatedRecord): Promise<GrowthClassificationChange | null> {
+    const scores = await growthService.scoreMeasurement(
+      {
+        patientId: record.patient.id,
+        date: record.date,
+        weight: record.weight ?? 0,
+        height: record.height,
+        headCircumference: record.headCircumference?.toNumber() ?? null
+      },
+      record.patient
+    );
+
+    await growthRepo.updateGrowthRecordScores(this.db, record.id, {
+      weightForAgeZ: scores.weightForAgeZ,
+      heightForAgeZ: scores.heightForAgeZ,
+      bmiForAgeZ: scores.bmiZ,
+      hcForAgeZ: scores.hcForAgeZ,
+      // Weight-for-age, the indicator the classification is taken from
+      zScore: scores.weightForAgeZ,
+      // The column holds a fraction: 0.5 is the 50th centile
+      percentile: scores.weightForAgePercentile === null ? null : scores.weightForAgePercentile / 100,
+      classification: scores.classification,
+      growthStatus: scores.growthStatus,
+      referenceVersion: scores.referenceVersion
+    });
+
+    const classificationChanged = record.classification !== null && record.classification !== scores.classification;
+    const statusChanged = record.growthStatus !== null && record.growthStatus !== scores.growthStatus;
+    if (!(classificationChanged || statusChanged)) return null;
+
+    return {
+      date: record.date.toISOString(),
+      growthRecordId: record.id,
+      patientId: record.patient.id,
+      patientName: `${record.patient.firstName} ${record.patient.lastName}`.trim(),
+      classification: classificationChanged
+        ? { from: record.classification as string, to: scores.classification }
+        : null,
+      growthStatus: statusChanged ? { from: record.growthStatus as GrowthStatus, to: scores.growthStatus } : null
+    };
+  }
+
+  private async readReport(clinicId: string): Promise<GrowthRecomputeReport | null> {
+    const stored = await redis.get(CACHE_KEYS.GROWTH_RECOMPUTE(clinicId));
+    return stored ? (JSON.parse(stored) as GrowthRecomputeReport) : null;
+  }
+
+  /**
+   * Add a batch to the clinic's report, replacing one left by an earlier run
+   */
+  private async mergeReport(
+    clinicId: string,
+    outcome: BatchOutcome,
+    run: Pick<GrowthRecomputeReport, 'jobId' | 'referenceVersion' | 'startedAt' | 'trigger'>
+  ): Promise<void> {
+    const stored = await this.readReport(clinicId);
+    const report: GrowthRecomputeReport =
+      stored?.jobId === run.jobId
+        ? stored
+        : { ...run, changes: [], failed: 0, recomputed: 0, unlistedChanges: 0, updatedAt: run.startedAt };
+
+    const room = Math.max(0, MAX_REPORTED_CHANGES - report.changes.length);
+    report.changes.push(...outcome.changes.slice(0, room));
+    report.unlistedChanges += Math.max(0, outcome.changes.length - room);
+    report.recomputed += outcome.recomputed;
+    report.failed += outcome.failed;
+    report.updatedAt = new Date().toISOString();
+
+    await redis.setex(CACHE_KEYS.GROWTH_RECOMPUTE(clinicId), REPORT_TTL, JSON.stringify(report));
+  }
+
+  /**
+   * Charts, dashboards and summaries of the patients rescored
+   */
+  private async invalidateCaches(clinicId: string, outcome: BatchOutcome): Promise<void> {
+    if (!outcome.recomputed) return;
+
+    await Promise.all([
+      ...[...outcome.patientIds].map(patientId => cacheService.invalidatePatientCaches(patientId, clinicId)),
+      cacheService.invalidateClinicCaches(clinicId)
+    ]);
+  }
+}
+
+export const growthRecomputeService = new GrowthRecomputeService();
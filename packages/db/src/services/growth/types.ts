@@ -1,4 +1,13 @@
 // src/services/growth/types.ts
+import type {
+  ChartType,
+  Gender,
+  GrowthAlertSeverity,
+  GrowthAlertType,
+  GrowthReferenceSource,
+  MeasurementType
+} from '../../../generated/client';
+
 export interface GrowthMeasurement {
   bmi?: number;
   date: Date;
@@ -17,15 +26,6 @@ export interface ZScoreResult {
   zScore: number | null;
 }
 
-export interface GrowthAlert {
-  date: Date;
-  message: string;
-  patientId: string;
-  severity: 'warning' | 'critical';
-  type: 'SEVERE_UNDERWEIGHT' | 'SEVERE_STUNTING' | 'OBESE' | 'RAPID_WEIGHT_LOSS';
-  zScore: number;
-}
-
 export type GrowthStatus = 'NORMAL' | 'UNDERWEIGHT' | 'STUNTED' | 'WASTED' | 'OVERWEIGHT' | 'OBESE';
 
 export interface LMSDataPoint {
@@ -48,6 +48,101 @@ export interface LMSDataPoint {
 
 export type GrowthDataMap = Map<string, LMSDataPoint[]>;
 
+/**
+ * A row of a growth reference curve. Age-indexed charts carry `ageDays`
+ * (postmenstrual age for preterm references); weight-for-length/height rows
+ * are indexed by `lengthCm` instead.
+ */
+export interface GrowthReferencePoint extends Omit<LMSDataPoint, 'ageDays'> {
+  ageDays: number | null;
+  chartType: ChartType;
+  lengthCm: number | null;
+  source: GrowthReferenceSource;
+}
+
+export type PretermReferenceSource = Exclude<GrowthReferenceSource, 'WHO'>;
+
+/**
+ * Reference curves keyed by `growthReferenceKey(chartType, gender, source)`
+ */
+export type GrowthReferenceMap = Map<string, GrowthReferencePoint[]>;
+
+export interface ReferenceValues {
+  median: number;
+  sd1neg: number;
+  sd1pos: number;
+  sd2neg: number;
+  sd2pos: number;
+  sd3neg: number;
+  sd3pos: number;
+}
+
+export interface IndicatorZScore {
+  chartType: ChartType;
+  classification: string;
+  interpolated: boolean;
+  percentile: number | null;
+  recommendation: string;
+  referenceValues: ReferenceValues;
+  severity: 'normal' | 'mild' | 'moderate' | 'severe';
+  source: GrowthReferenceSource;
+  value: number;
+  zScore: number | null;
+}
+
+/**
+ * Every indicator a single measurement supports; null when the measurement
+ * lacks the inputs or the child is outside the reference range
+ */
+export interface MeasurementZScores {
+  bmiForAge: IndicatorZScore | null;
+  headCircumferenceForAge: IndicatorZScore | null;
+  heightForAge: IndicatorZScore | null;
+  weightForAge: IndicatorZScore | null;
+  weightForLength: IndicatorZScore | null;
+}
+
+export interface IndicatorInput {
+  ageDays: number;
+  gender: 'MALE' | 'FEMALE';
+  headCircumference?: number | null;
+  /** Recumbent length under 2 years, standing height after */
+  height?: number | null;
+  weight?: number | null;
+}
+
+/**
+ * Ages of one measurement. Corrected and postmenstrual ages are null unless
+ * the baby was born preterm; corrected age is negative before term-equivalent
+ * age and stops being applied after 24 months.
+ */
+export interface GrowthAge {
+  /** Age the WHO standards are read at: corrected age while it applies */
+  assessmentAgeDays: number;
+  /** Preterm references apply until 40 weeks postmenstrual age */
+  beforeTermEquivalent: boolean;
+  chronologicalAgeDays: number;
+  correctedAgeDays: number | null;
+  gestationalAgeAtBirthDays: number | null;
+  postmenstrualAgeDays: number | null;
+}
+
+export interface AgeAdjustedIndicatorInput extends Omit<IndicatorInput, 'ageDays'> {
+  age: GrowthAge;
+  /** Preferred preterm chart; the other one is used when it has not been seeded */
+  pretermReference?: PretermReferenceSource;
+}
+
+/**
+ * Indicators of a measurement scored against the reference that fits the
+ * child's age: a preterm chart before term-equivalent age, WHO after
+ */
+export interface AgeAdjustedZScores {
+  age: GrowthAge;
+  indicators: MeasurementZScores;
+  reference: GrowthReferenceSource;
+}
+
 export interface ZScoreResult {
   exactMatch: boolean;
   interpolated: boolean;
@@ -73,3 +168,96 @@ export interface GrowthAssessment {
   severity: 'normal' | 'mild' | 'moderate' | 'severe';
   zScore: number | null;
 }
+
+/**
+ * One scored measurement of a child's series, as the alert engine reads it
+ */
+export interface GrowthSeriesPoint extends AgeAdjustedZScores {
+  date: Date;
+  headCircumference: number | null;
+  height: number | null;
+  recordId: string;
+  weight: number | null;
+}
+
+/**
+ * A pattern the alert engine found in a growth series, before it is stored
+ */
+export interface GrowthAlertFinding {
+  details: Record<string, number | string | null>;
+  message: string;
+  severity: GrowthAlertSeverity;
+  type: GrowthAlertType;
+}
+
+export interface VelocityIncrementInput {
+  endAgeDays: number;
+  endValue: number;
+  gender: Gender;
+  measurementType: MeasurementType;
+  startAgeDays: number;
+  startValue: number;
+}
+
+/**
+ * An increment scored against the WHO velocity standard for the interval it
+ * was measured over
+ */
+export interface VelocityPercentile {
+  adjustedIncrement: number;
+  increment: number;
+  interval: { endMonth: number; months: number; startMonth: number };
+  measurementType: MeasurementType;
+  medianIncrement: number;
+  observedDays: number;
+  percentile: number;
+  unit: 'g' | 'cm';
+  zScore: number;
+}
+
+/**
+ * Tanner mid-parental target height with its ±8.5 cm target range
+ */
+export interface TargetHeight {
+  heightCm: number;
+  lowerCm: number;
+  percentile: number | null;
+  source: 'patient' | 'guardians';
+  upperCm: number;
+  zScore: number | null;
+}
+
+export type PlausibilityFlagCode =
+  | 'IMPLAUSIBLE_Z_SCORE'
+  | 'UNIT_MIX_UP'
+  | 'HEIGHT_DECREASE'
+  | 'HEAD_CIRCUMFERENCE_DECREASE'
+  | 'WEIGHT_JUMP';
+
+/**
+ * A check a measurement failed. `suggestedValue` is the value it most likely
+ * was meant to be, e.g. after converting pounds to kilograms.
+ */
+export interface PlausibilityFlag {
+  code: PlausibilityFlagCode;
+  field: 'weight' | 'height' | 'headCircumference';
+  message: string;
+  suggestedValue?: number;
+  zScore?: number;
+}
+
+export interface PlausibilityInput {
+  age: GrowthAge;
+  date: Date;
+  gender: 'MALE' | 'FEMALE';
+  headCircumference?: number | null;
+  height?: number | null;
+  /** Latest earlier measurement that is not itself flagged */
+  previous: {
+    date: Date;
+    headCircumference: number | null;
+    height: number | null;
+    weight: number | null;
+  } | null;
+  weight?: number | null;
+}
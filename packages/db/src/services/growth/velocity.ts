@@ -0,0 +1,122 @@
+// src/services/growth/velocity.ts
+import type { Gender, GrowthVelocityStandard, MeasurementType } from '../../../generated/client';
+import { prisma } from '../../client';
+import { growthCalculator } from './calculator';
+import type { VelocityIncrementInput, VelocityPercentile } from './types';
+
+const DAYS_PER_MONTH = 30.4375;
+/** An observed interval may differ from a standard one by a quarter of its length */
+const INTERVAL_TOLERANCE = 0.25;
+const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+
+let velocityCache: Map<string, GrowthVelocityStandard[]> | null = null;
+let lastCacheUpdate: Date | null = null;
+
+function velocityKey(gender: Gender, measurementType: MeasurementType): string {
+  return `${measurementType}:${gender}`;
+}
+
+/**
+ * WHO velocity standards for one measurement and sex; empty when they have
+ * not been seeded
+ */
+export async function getVelocityStandards(
+  gender: Gender,
+  measurementType: MeasurementType
+): Promise<GrowthVelocityStandard[]> {
+  const now = new Date();
+  if (!(velocityCache && lastCacheUpdate) || now.getTime() - lastCacheUpdate.getTime() > CACHE_TTL) {
+    const rows = await prisma.growthVelocityStandard.findMany({
+      orderBy: [{ intervalMonths: 'asc' }, { startMonth: 'asc' }]
+    });
+
+    velocityCache = new Map();
+    for (const row of rows) {
+      const key = velocityKey(row.gender, row.measurementType);
+      velocityCache.set(key, [...(velocityCache.get(key) ?? []), row]);
+    }
+    lastCacheUpdate = now;
+  }
+
+  return velocityCache.get(velocityKey(gender, measurementType)) ?? [];
+}
+
+export function clearVelocityStandardsCache(): void {
+  velocityCache = null;
+  lastCacheUpdate = null;
+}
+
+/**
+ * Scores growth increments against the WHO growth velocity standards
+ * (weight, length and head circumference, birth to 24 months)
+ */
+export class GrowthVelocityCalculator {
+  /**
+   * Percentile of the increment between two measurements. The standard whose
+   * interval and starting age best match the measured ones is used, and the
+   * increment is scaled to that interval's exact length. Returns null when no
+   * standard fits, e.g. after 24 months or for intervals the WHO tables do not
+   * cover.
+   */
+  async scoreIncrement(input: VelocityIncrementInput): Promise<VelocityPercentile | null> {
+    const { gender, measurementType, startAgeDays, endAgeDays, startValue, endValue } = input;
+    const observedMonths = (endAgeDays - startAgeDays) / DAYS_PER_MONTH;
+    if (observedMonths <= 0) return null;
+
+    const standards = await getVelocityStandards(gender, measurementType);
+    const standard = this.matchStandard(standards, startAgeDays / DAYS_PER_MONTH, observedMonths);
+    if (!standard) return null;
+
+    // Weight increments are tabulated in grams
+    const scale = measurementType === 'Weight' ? 1000 : 1;
+    const increment = (endValue - startValue) * scale;
+    const adjustedIncrement = increment * (standard.intervalMonths / observedMonths);
+
+    const shifted = adjustedIncrement + standard.delta;
+    if (shifted <= 0) return null;
+
+    const { lValue: l, mValue: m, sValue: s } = standard;
+    const zScore = l === 0 ? Math.log(shifted / m) / s : ((shifted / m) ** l - 1) / (l * s);
+
+    return {
+      measurementType,
+      interval: {
+        startMonth: standard.startMonth,
+        endMonth: standard.endMonth,
+        months: standard.intervalMonths
+      },
+      observedDays: Math.round(endAgeDays - startAgeDays),
+      increment: Math.round(increment * 10) / 10,
+      adjustedIncrement: Math.round(adjustedIncrement * 10) / 10,
+      unit: measurementType === 'Weight' ? 'g' : 'cm',
+      medianIncrement: Math.round((m - standard.delta) * 10) / 10,
+      zScore: Math.round(zScore * 100) / 100,
+      percentile: Math.round(growthCalculator.zScoreToPercentile(zScore) * 10) / 10
+    };
+  }
+
+  /**
+   * Closest interval length within tolerance, then the closest starting age
+   * within half an interval
+   */
+  private matchStandard(
+    standards: GrowthVelocityStandard[],
+    startMonth: number,
+    observedMonths: number
+  ): GrowthVelocityStandard | null {
+    let best: { standard: GrowthVelocityStandard; score: number } | null = null;
+
+    for (const standard of standards) {
+      const intervalError = Math.abs(standard.intervalMonths - observedMonths) / standard.intervalMonths;
+      const startError = Math.abs(standard.startMonth - startMonth) / standard.intervalMonths;
+      if (intervalError > INTERVAL_TOLERANCE || startError > 0.5) continue;
+
+      const score = intervalError + startError;
+      if (!best || score < best.score) best = { standard, score };
+    }
+
+    return best?.standard ?? null;
+  }
+}
+
+export const growthVelocity = new GrowthVelocityCalculator();
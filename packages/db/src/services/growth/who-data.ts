@@ -1,34 +1,67 @@
 // src/services/growth/who-data.ts
+import { createHash } from 'node:crypto';
+
+import type { ChartType, Gender, GrowthReferenceSource } from '../../../generated/client';
 import { prisma } from '../../client';
-import type { GrowthDataMap, LMSDataPoint } from './types';
+import type { GrowthReferenceMap, GrowthReferencePoint, PretermReferenceSource } from './types';
 
-let growthDataCache: GrowthDataMap | null = null;
+let growthDataCache: GrowthReferenceMap | null = null;
+let referenceVersion: string | null = null;
 let lastCacheUpdate: Date | null = null;
 const CACHE_TTL = 24 * 60 * 60 * 1000; // 24 hours
 
 /**
- * Load WHO growth data from database
+ * Charts indexed by length/height in cm rather than by age
+ */
+export const LENGTH_INDEXED_CHARTS: ReadonlySet<ChartType> = new Set<ChartType>(['WFL', 'WFH']);
+
+/**
+ * Charts the preterm references publish: weight, length and head
+ * circumference for postmenstrual age
+ */
+export const PRETERM_CHART_TYPES: ReadonlySet<ChartType> = new Set<ChartType>(['WFA', 'HFA', 'HcFA']);
+
+export function growthReferenceKey(
+  chartType: ChartType,
+  gender: Gender,
+  source: GrowthReferenceSource = 'WHO'
+): string {
+  return `${source}:${chartType}:${gender}`;
+}
+
+/**
+ * Position of a point on its chart's x axis: length in cm for
+ * weight-for-length/height, age in days otherwise
  */
-export async function loadWHOData(): Promise<GrowthDataMap> {
+export function referenceIndex(point: Pick<GrowthReferencePoint, 'ageDays' | 'chartType' | 'lengthCm'>): number | null {
+  return LENGTH_INDEXED_CHARTS.has(point.chartType) ? point.lengthCm : point.ageDays;
+}
+
+/**
+ * Load growth reference data from database, every source and chart type for
+ * both sexes
+ */
+export async function loadWHOData(): Promise<GrowthReferenceMap> {
   const records = await prisma.wHOGrowthStandard.findMany({
     where: {
-      chartType: 'WFA'
+      chartType: { not: null }
     },
-    orderBy: {
-      ageDays: 'asc'
-    }
+    orderBy: [{ ageDays: 'asc' }, { lengthCm: 'asc' }]
   });
 
-  const dataMap: GrowthDataMap = new Map();
+  const dataMap: GrowthReferenceMap = new Map();
 
   for (const record of records) {
-    if (record.lValue === null || record.mValue === null || record.sValue === null) {
+    if (record.chartType === null || record.lValue === null || record.mValue === null || record.sValue === null) {
       continue;
     }
 
-    const key = record.gender;
-    const point: LMSDataPoint = {
+    const point: GrowthReferencePoint = {
+      chartType: record.chartType,
       ageDays: record.ageDays,
+      ageMonths: record.ageInMonths ?? undefined,
+      lengthCm: record.lengthCm,
+      source: record.source,
       lValue: record.lValue,
       mValue: record.mValue,
       sValue: record.sValue,
@@ -44,14 +77,18 @@ export async function loadWHOData(): Promise<GrowthDataMap> {
       gender: record.gender
     };
 
+    // A row without its index cannot be placed on the chart
+    if (referenceIndex(point) === null) continue;
+
+    const key = growthReferenceKey(record.chartType, record.gender, record.source);
     const arr = dataMap.get(key) || [];
     arr.push(point);
     dataMap.set(key, arr);
   }
 
-  // Sort by age
+  // Sort along each chart's x axis
   for (const [key, arr] of dataMap) {
-    arr.sort((a, b) => a.ageDays - b.ageDays);
+    arr.sort((a, b) => (referenceIndex(a) ?? 0) - (referenceIndex(b) ?? 0));
     dataMap.set(key, arr);
   }
 
@@ -61,21 +98,74 @@ export async function loadWHOData(): Promise<GrowthDataMap> {
 /**
  * Get cached growth data
  */
-export async function getCachedGrowthData(): Promise<GrowthDataMap> {
+export async function getCachedGrowthData(): Promise<GrowthReferenceMap> {
   const now = new Date();
 
   if (!(growthDataCache && lastCacheUpdate) || now.getTime() - lastCacheUpdate.getTime() > CACHE_TTL) {
     growthDataCache = await loadWHOData();
+    referenceVersion = computeReferenceVersion(growthDataCache);
     lastCacheUpdate = now;
   }
 
   return growthDataCache;
 }
 
+/**
+ * Version of the reference data scores are currently computed from. It is a
+ * hash of the curves' contents, so any correction or extension of a table
+ * gives a new version while reseeding identical data does not.
+ */
+export async function getReferenceDataVersion(): Promise<string> {
+  await getCachedGrowthData();
+  return referenceVersion as string;
+}
+
+function computeReferenceVersion(data: GrowthReferenceMap): string {
+  const hash = createHash('sha256');
+  for (const key of [...data.keys()].sort()) {
+    hash.update(key);
+    for (const point of data.get(key) ?? []) {
+      hash.update(`|${referenceIndex(point)}:${point.lValue}:${point.mValue}:${point.sValue}`);
+    }
+  }
+  return hash.digest('hex').slice(0, 16);
+}
+
+/**
+ * One reference curve, sorted along its x axis; empty when it has not been seeded
+ */
+export async function getReferenceCurve(
+  chartType: ChartType,
+  gender: Gender,
+  source: GrowthReferenceSource = 'WHO'
+): Promise<GrowthReferencePoint[]> {
+  const data = await getCachedGrowthData();
+  return data.get(growthReferenceKey(chartType, gender, source)) ?? [];
+}
+
+/**
+ * Preterm reference to read a chart from: the preferred one when it has been
+ * seeded, otherwise the other; null when neither has
+ */
+export async function resolvePretermReference(
+  chartType: ChartType,
+  gender: Gender,
+  preferred: PretermReferenceSource = 'FENTON_2013'
+): Promise<PretermReferenceSource | null> {
+  if (!PRETERM_CHART_TYPES.has(chartType)) return null;
+
+  const fallback: PretermReferenceSource = preferred === 'FENTON_2013' ? 'INTERGROWTH_21ST' : 'FENTON_2013';
+  for (const source of [preferred, fallback]) {
+    if ((await getReferenceCurve(chartType, gender, source)).length) return source;
+  }
+  return null;
+}
+
 /**
  * Clear growth data cache
  */
 export function clearGrowthDataCache(): void {
   growthDataCache = null;
+  referenceVersion = null;
   lastCacheUpdate = null;
 }
@@ -0,0 +1,284 @@
+// src/services/immunization/certificate.ts
+import { createHash, createHmac, randomUUID, timingSafeEqual } from 'node:crypto';
+
+import { env } from '@naroto/env/server';
+import { logger } from '@naroto/logger';
+import { format } from 'date-fns';
+import { PDFDocument, type PDFFont, type PDFPage, rgb, StandardFonts } from 'pdf-lib';
+import QRCode from 'qrcode';
+
+import { prisma } from '../../client';
+import { NotFoundError } from '../../error';
+import * as clinicRepo from '../../repositories/clinic.repo';
+import * as vaccinationRepo from '../../repositories/vac.repository';
+import { MARGIN, PAGE_HEIGHT, PAGE_WIDTH, pdfLayout } from '../../utils/pdf/layout';
+
+const CERTIFICATE_VERSION = 1;
+const VERIFY_PATH = '/api/certificates/verify';
+
+const ROW_HEIGHT = 20;
+const QR_SIZE = 110;
+
+const TABLE_COLUMNS = [
+  { header: 'Vaccine', width: 150 },
+  { header: 'Dose', width: 55 },
+  { header: 'Date', width: 80 },
+  { header: 'Lot number', width: 90 },
+  { header: 'Administered by', width: 124 }
+] as const;
+
+/**
+ * Signed content of the certificate QR code. Kept short so the code stays scannable;
+ * `h` pins the dose list so a certificate is flagged once the record changes.
+ */
+interface CertificatePayload {
+  cid: string;
+  clinicId: string;
+  h: string;
+  iat: number;
+  pid: string;
+  v: number;
+}
+
+type CertificateDose = Awaited<ReturnType<typeof vaccinationRepo.findCertificateDoses>>[number];
+
+export interface ImmunizationCertificate {
+  certificateId: string;
+  fileName: string;
+  issuedAt: Date;
+  pdf: Uint8Array;
+  verificationUrl: string;
+}
+
+export type CertificateVerificationStatus = 'VALID' | 'OUTDATED' | 'REVOKED' | 'INVALID_SIGNATURE' | 'MALFORMED';
+
+export interface CertificateVerification {
+  certificate?: {
+    certificateId: string;
+    clinicName: string;
+    dateOfBirth: Date;
+    doses: { date: Date; dose: string; vaccine: string }[];
+    issuedAt: Date;
+    patientName: string;
+  };
+  status: CertificateVerificationStatus;
+}
+
+export class ImmunizationCertificateService {
+  constructor(private readonly db: typeof prisma = prisma) {}
+
+  /**
+   * Render a patient's immunization history as a PDF certificate with a signed QR code
+   */
+  async generateCertificate(patientId: string, clinicId: string): Promise<ImmunizationCertificate> {
+    const patient = await vaccinationRepo.checkPatientExistsInClinic(this.db, patientId, clinicId);
+    if (!patient) {
+      throw new NotFoundError('Patient', patientId);
+    }
+
+    const [clinic, doses] = await Promise.all([
+      clinicRepo.findClinicById(this.db, clinicId),
+      vaccinationRepo.findCertificateDoses(this.db, patientId)
+    ]);
+    if (!clinic) {
+      throw new NotFoundError('Clinic', clinicId);
+    }
+
+    const issuedAt = new Date();
+    const certificateId = randomUUID();
+    const token = this.sign({
+      v: CERTIFICATE_VERSION,
+      cid: certificateId,
+      pid: patientId,
+      clinicId,
+      iat: Math.floor(issuedAt.getTime() / 1000),
+      h: this.hashDoses(doses)
+    });
+    const verificationUrl = `${env.BETTER_AUTH_URL.replace(/\/$/, '')}${VERIFY_PATH}?token=${token}`;
+
+    const pdfDoc = await PDFDocument.create();
+    pdfDoc.setTitle(`Immunization certificate - ${patient.firstName} ${patient.lastName}`);
+    pdfDoc.setSubject(`Certificate ${certificateId}`);
+    pdfDoc.setProducer(clinic.name);
+    pdfDoc.setCreationDate(issuedAt);
+
+    const [regular, bold, logo, qr] = await Promise.all([
+      pdfDoc.embedFont(StandardFonts.Helvetica),
+      pdfDoc.embedFont(StandardFonts.HelveticaBold),
+      pdfLayout.embedLogo(pdfDoc, clinic.logo),
+      QRCode.toBuffer(verificationUrl, { type: 'png', errorCorrectionLevel: 'M', margin: 1, width: 330 }).then(png =>
+        pdfDoc.embedPng(png)
+      )
+    ]);
+
+    let page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+    let y = pdfLayout.drawHeader(page, { bold, regular }, clinic, logo);
+
+    page.drawText('Immunization Certificate', { x: MARGIN, y, size: 18, font: bold });
+    y -= 28;
+
+    const details: [string, string][] = [
+      ['Patient', `${patient.firstName} ${patient.lastName}`],
+      ['Date of birth', format(patient.dateOfBirth, 'dd MMM yyyy')],
+      ['Certificate ID', certificateId],
+      ['Issued', format(issuedAt, 'dd MMM yyyy HH:mm')]
+    ];
+    for (const [label, value] of details) {
+      page.drawText(`${label}:`, { x: MARGIN, y, size: 10, font: bold });
+      page.drawText(pdfLayout.toPdfText(value), { x: MARGIN + 90, y, size: 10, font: regular });
+      y -= 15;
+    }
+    y -= 12;
+
+    y = this.drawTableHeader(page, bold, y);
+    if (!doses.length) {
+      page.drawText('No immunizations on record.', { x: MARGIN, y, size: 10, font: regular });
+      y -= ROW_HEIGHT;
+    }
+
+    for (const dose of doses) {
+      // Leave room for the QR block on whichever page ends up last
+      if (y < MARGIN + QR_SIZE + ROW_HEIGHT) {
+        page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+        y = this.drawTableHeader(page, bold, PAGE_HEIGHT - MARGIN);
+      }
+
+      const cells = [
+        dose.vaccine,
+        this.doseLabel(dose),
+        format(dose.date, 'dd MMM yyyy'),
+        dose.lotNumber ?? '-',
+        dose.administeredBy?.name ?? '-'
+      ];
+
+      let x = MARGIN;
+      cells.forEach((cell, i) => {
+        const column = TABLE_COLUMNS[i];
+        if (!column) return;
+        page.drawText(pdfLayout.fitText(cell, regular, 9, column.width - 6), { x: x + 3, y, size: 9, font: regular });
+        x += column.width;
+      });
+      y -= ROW_HEIGHT;
+    }
+
+    const qrY = MARGIN;
+    page.drawImage(qr, { x: PAGE_WIDTH - MARGIN - QR_SIZE, y: qrY, width: QR_SIZE, height: QR_SIZE });
+    page.drawText('Scan the QR code to verify this certificate.', { x: MARGIN, y: qrY + 60, size: 9, font: regular });
+    page.drawText(
+      pdfLayout.fitText(`${clinic.name} - ${certificateId}`, regular, 8, PAGE_WIDTH - 3 * MARGIN - QR_SIZE),
+      {
+        x: MARGIN,
+        y: qrY + 46,
+        size: 8,
+        font: regular,
+        color: rgb(0.4, 0.4, 0.4)
+      }
+    );
+
+    const pdf = await pdfDoc.save();
+
+    logger.info('Immunization certificate generated', {
+      certificateId,
+      patientId,
+      clinicId,
+      doses: doses.length
+    });
+
+    return {
+      pdf,
+      certificateId,
+      issuedAt,
+      verificationUrl,
+      fileName: pdfLayout.fileName('immunization-certificate', patient.lastName, `${format(issuedAt, 'yyyyMMdd')}.pdf`)
+    };
+  }
+
+  /**
+   * Validate a certificate token from its QR code. Public: only returns what is
+   * printed on the certificate, with the patient's surname reduced to an initial.
+   */
+  async verifyCertificate(token: string): Promise<CertificateVerification> {
+    const [encoded, signature] = token.split('.');
+    if (!(encoded && signature)) return { status: 'MALFORMED' };
+
+    const expected = createHmac('sha256', this.signingSecret()).update(encoded).digest();
+    const provided = Buffer.from(signature, 'base64url');
+    if (provided.length !== expected.length || !timingSafeEqual(provided, expected)) {
+      logger.warn('Immunization certificate signature mismatch');
+      return { status: 'INVALID_SIGNATURE' };
+    }
+
+    let payload: CertificatePayload;
+    try {
+      payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as CertificatePayload;
+    } catch {
+      return { status: 'MALFORMED' };
+    }
+    if (payload.v !== CERTIFICATE_VERSION || !payload.pid || !payload.clinicId) {
+      return { status: 'MALFORMED' };
+    }
+
+    const [patient, clinic] = await Promise.all([
+      vaccinationRepo.checkPatientExistsInClinic(this.db, payload.pid, payload.clinicId),
+      clinicRepo.findClinicById(this.db, payload.clinicId)
+    ]);
+    if (!(patient && clinic)) return { status: 'REVOKED' };
+
+    const doses = await vaccinationRepo.findCertificateDoses(this.db, payload.pid);
+
+    return {
+      status: this.hashDoses(doses) === payload.h ? 'VALID' : 'OUTDATED',
+      certificate: {
+        certificateId: payload.cid,
+        clinicName: clinic.name,
+        patientName: `${patient.firstName} ${patient.lastName.charAt(0)}.`,
+        dateOfBirth: patient.dateOfBirth,
+        issuedAt: new Date(payload.iat * 1000),
+        doses: doses.map(d => ({ vaccine: d.vaccine, dose: this.doseLabel(d), date: d.date }))
+      }
+    };
+  }
+
+  private sign(payload: CertificatePayload): string {
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    const signature = createHmac('sha256', this.signingSecret()).update(encoded).digest('base64url');
+    return `${encoded}.${signature}`;
+  }
+
+  private signingSecret(): string {
+    return env.CERTIFICATE_SIGNING_SECRET ?? env.BETTER_AUTH_SECRET;
+  }
+
+  private hashDoses(doses: CertificateDose[]): string {
+    const canonical = doses
+      .map(d => [d.id, d.vaccine, d.date.toISOString(), d.doseNumber ?? d.dose ?? '', d.lotNumber ?? ''].join('|'))
+      .sort()
+      .join('\n');
+    return createHash('sha256').update(canonical).digest('base64url').slice(0, 22);
+  }
+
+  private doseLabel(dose: Pick<CertificateDose, 'dose' | 'doseNumber'>): string {
+    if (dose.doseNumber) return `Dose ${dose.doseNumber}`;
+    return dose.dose ?? '-';
+  }
+
+  private drawTableHeader(page: PDFPage, bold: PDFFont, y: number): number {
+    page.drawRectangle({
+      x: MARGIN,
+      y: y - 6,
+      width: PAGE_WIDTH - 2 * MARGIN,
+      height: ROW_HEIGHT,
+      color: rgb(0.93, 0.95, 0.98)
+    });
+
+    let x = MARGIN;
+    for (const column of TABLE_COLUMNS) {
+      page.drawText(column.header, { x: x + 3, y, size: 9, font: bold });
+      x += column.width;
+    }
+
+    return y - ROW_HEIGHT;
+  }
+}
+
+export const immunizationCertificateService = new ImmunizationCertificateService();
@@ -1,92 +1,171 @@
 // src/services/immunization/due-calculator.ts
+import { differenceInCalendarDays } from 'date-fns';
+
 import { prisma } from '../../client';
+import { NotFoundError } from '../../error';
+import * as vaccinationRepo from '../../repositories/vac.repository';
+import { type AdministeredDose, type SeriesForecast, vaccineSeriesEngine } from './series-engine';
 
 interface VaccineDue {
   ageInDays: number;
+  daysOverdue: number;
+  doseNumber: number;
+  dosesRequired: number;
   dueDate: Date;
+  earliestDate: Date;
+  isCatchUp: boolean;
+  latestDate: Date | null;
   patientId: string;
   priority: 'high' | 'medium' | 'low';
   vaccineName: string;
 }
 
 export class ImmunizationService {
+  constructor(private readonly db: typeof prisma = prisma) {}
+
   /**
-   * Calculate immunizations due for a patient
+   * Forecast every vaccine series for a patient
    */
-  async calculateDueVaccines(patientId: string): Promise<VaccineDue[]> {
-    const patient = await prisma.patient.findUnique({
-      where: { id: patientId },
-      select: { dateOfBirth: true }
-    });
-
-    if (!patient) {
-      throw new Error('Patient not found');
-    }
+  async forecastPatient(patientId: string, referenceDate: Date = new Date()): Promise<SeriesForecast[]> {
+    const { forecasts } = await this.loadForecasts(patientId, referenceDate);
+    return forecasts;
+  }
 
-    const ageDays = Math.floor((Date.now() - patient.dateOfBirth.getTime()) / (1000 * 60 * 60 * 24));
+  /**
+   * Calculate immunizations due for a patient
+   */
+  async calculateDueVaccines(patientId: string, referenceDate: Date = new Date()): Promise<VaccineDue[]> {
+    const { dateOfBirth, forecasts } = await this.loadForecasts(patientId, referenceDate);
 
-    // Get vaccine schedule
-    const schedule = await prisma.vaccineSchedule.findMany({
-      orderBy: { ageInDaysMin: 'asc' }
-    });
+    return forecasts.flatMap<VaccineDue>(f => {
+      if (!(vaccineSeriesEngine.isActionable(f) && f.nextDose)) return [];
 
-    // Get already administered vaccines
-    const givenVaccines = await prisma.immunization.findMany({
-      where: { patientId },
-      select: { vaccine: true }
+      return [
+        {
+          patientId,
+          vaccineName: f.vaccineName,
+          doseNumber: f.nextDose.doseNumber,
+          dosesRequired: f.dosesRequired,
+          dueDate: f.nextDose.recommendedDate,
+          earliestDate: f.nextDose.earliestDate,
+          latestDate: f.nextDose.latestDate,
+          ageInDays: differenceInCalendarDays(f.nextDose.recommendedDate, dateOfBirth),
+          isCatchUp: f.isCatchUp,
+          daysOverdue: f.daysOverdue,
+          priority: f.daysOverdue > 30 ? 'high' : f.status === 'OVERDUE' ? 'medium' : 'low'
+        }
+      ];
     });
+  }
 
-    const givenSet = new Set(givenVaccines.map(v => v.vaccine));
+  /**
+   * Get clinic-wide due count: number of vaccine doses that are due or
+   * overdue right now across all active patients
+   */
+  async getClinicDueCount(clinicId: string, referenceDate: Date = new Date()): Promise<number> {
+    const forecastsByPatient = await this.forecastClinic(clinicId, referenceDate);
 
-    const dueVaccines: VaccineDue[] = [];
+    let dueCount = 0;
+    for (const forecasts of forecastsByPatient.values()) {
+      dueCount += forecasts.filter(f => vaccineSeriesEngine.isActionable(f)).length;
+    }
 
-    for (const vaccine of schedule) {
-      if (givenSet.has(vaccine.vaccineName)) continue;
+    return dueCount;
+  }
 
-      const ageMin = vaccine.ageInDaysMin || 0;
-      const ageMax = vaccine.ageInDaysMax || Number.POSITIVE_INFINITY;
+  /**
+   * Resolve the schedule set a clinic follows: its own active set, else the default set
+   */
+  async resolveScheduleSetId(clinicId: string): Promise<number> {
+    const settings = await vaccinationRepo.findClinicScheduleSetId(this.db, clinicId);
+    if (settings?.vaccineScheduleSetId) return settings.vaccineScheduleSetId;
 
-      if (ageDays >= ageMin && ageDays <= ageMax) {
-        dueVaccines.push({
-          patientId,
-          vaccineName: vaccine.vaccineName,
-          dueDate: new Date(patient.dateOfBirth.getTime() + ageMin * 24 * 60 * 60 * 1000),
-          ageInDays: ageMin,
-          priority: ageDays - ageMin > 30 ? 'high' : 'medium'
-        });
-      }
+    const defaultSet = await vaccinationRepo.findDefaultScheduleSet(this.db);
+    if (!defaultSet) {
+      throw new NotFoundError('Vaccine schedule set');
     }
 
-    return dueVaccines;
+    return defaultSet.id;
   }
 
   /**
-   * Get clinic-wide due count
+   * Re-evaluate the overdue flags of a clinic's scheduled (not yet given)
+   * immunizations against its current schedule set
    */
-  async getClinicDueCount(clinicId: string): Promise<number> {
-    const patients = await prisma.patient.findMany({
-      where: {
-        clinicId,
-        isDeleted: false
-      },
-      select: { id: true, dateOfBirth: true }
-    });
+  async recomputeClinicDueStatus(clinicId: string, referenceDate: Date = new Date()) {
+    const [forecastsByPatient, pending] = await Promise.all([
+      this.forecastClinic(clinicId, referenceDate),
+      vaccinationRepo.findPendingImmunizationsByClinic(this.db, clinicId)
+    ]);
 
-    const schedule = await prisma.vaccineSchedule.findMany();
-    let dueCount = 0;
+    let updated = 0;
+
+    for (const immunization of pending) {
+      const vaccine = vaccineSeriesEngine.normalizeName(immunization.vaccine);
+      const forecast = forecastsByPatient
+        .get(immunization.patientId)
+        ?.find(f => vaccineSeriesEngine.normalizeName(f.vaccineName) === vaccine);
+
+      const isOverDue = forecast?.status === 'OVERDUE';
+      const daysOverDue = isOverDue ? forecast.daysOverdue : 0;
+
+      if (immunization.isOverDue === isOverDue && (immunization.daysOverDue ?? 0) === daysOverDue) continue;
+
+      await vaccinationRepo.updateImmunizationOverdue(this.db, immunization.id, { isOverDue, daysOverDue });
+      updated++;
+    }
 
+    return { patients: forecastsByPatient.size, updated };
+  }
+
+  private async forecastClinic(clinicId: string, referenceDate: Date) {
+    const scheduleSetId = await this.resolveScheduleSetId(clinicId);
+    const [patients, schedule, administered] = await Promise.all([
+      vaccinationRepo.findPatientBirthDatesInClinic(this.db, clinicId),
+      vaccinationRepo.findVaccineScheduleWithDoses(this.db, scheduleSetId),
+      vaccinationRepo.findAdministeredDosesByClinic(this.db, clinicId)
+    ]);
+
+    const dosesByPatient = new Map<string, AdministeredDose[]>();
+    for (const dose of administered) {
+      const doses = dosesByPatient.get(dose.patientId) ?? [];
+      doses.push(dose);
+      dosesByPatient.set(dose.patientId, doses);
+    }
+
+    const forecastsByPatient = new Map<string, SeriesForecast[]>();
     for (const patient of patients) {
-      // const _ageDays = Math.floor((Date.now() - patient.dateOfBirth.getTime()) / (1000 * 60 * 60 * 24));
+      forecastsByPatient.set(
+        patient.id,
+        vaccineSeriesEngine.forecastPatient(
+          schedule,
+          patient.dateOfBirth,
+          dosesByPatient.get(patient.id) ?? [],
+          referenceDate
+        )
+      );
+    }
 
-      const givenVaccines = await prisma.immunization.count({
-        where: { patientId: patient.id }
-      });
+    return forecastsByPatient;
+  }
+
+  private async loadForecasts(patientId: string, referenceDate: Date) {
+    const patient = await vaccinationRepo.getPatientDateOfBirth(this.db, patientId);
 
-      // Simplified logic - in production you'd check each vaccine
-      dueCount += Math.max(0, schedule.length - givenVaccines);
+    if (!patient) {
+      throw new NotFoundError('Patient', patientId);
     }
 
-    return dueCount;
+    const scheduleSetId = await this.resolveScheduleSetId(patient.clinicId);
+    const [schedule, administered] = await Promise.all([
+      vaccinationRepo.findVaccineScheduleWithDoses(this.db, scheduleSetId),
+      vaccinationRepo.findAdministeredDosesByPatient(this.db, patientId)
+    ]);
+
+    return {
+      dateOfBirth: patient.dateOfBirth,
+      forecasts: vaccineSeriesEngine.forecastPatient(schedule, patient.dateOfBirth, administered, referenceDate)
+    };
   }
 }
 
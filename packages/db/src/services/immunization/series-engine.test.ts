@@ -0,0 +1,139 @@
+import { addDays } from 'date-fns';
+import { describe, expect, it } from 'vitest';
+
+import { type VaccineSeriesDefinition, vaccineSeriesEngine } from './series-engine';
+
+const DOB = new Date(2026, 0, 1);
+
+const DTAP: VaccineSeriesDefinition = {
+  id: 1,
+  vaccineName: 'DTaP',
+  dosesRequired: 3,
+  isMandatory: true,
+  ageInDaysMin: 42,
+  ageInDaysMax: null,
+  minimumInterval: 28,
+  doses: [
+    { doseNumber: 1, minimumAgeDays: 42, recommendedAgeDays: 60, maximumAgeDays: null, minimumIntervalDays: null },
+    { doseNumber: 2, minimumAgeDays: 70, recommendedAgeDays: 120, maximumAgeDays: null, minimumIntervalDays: 28 },
+    { doseNumber: 3, minimumAgeDays: 98, recommendedAgeDays: 180, maximumAgeDays: null, minimumIntervalDays: 28 }
+  ]
+};
+
+function day(ageDays: number): Date {
+  return addDays(DOB, ageDays);
+}
+
+/**
+ * Records doses the way the vaccination service does: each is assessed
+ * against the valid doses before it, and invalid ones are left out of the
+ * history the series is forecast from
+ */
+function recordDoses(series: VaccineSeriesDefinition, ages: number[]) {
+  const valid: Date[] = [];
+  const assessments = ages.map(age => {
+    const assessment = vaccineSeriesEngine.assessDose(series, DOB, valid, day(age));
+    if (assessment.validity !== 'INVALID') valid.push(day(age));
+    return assessment;
+  });
+  return { assessments, valid };
+}
+
+describe('VaccineSeriesEngine', () => {
+  describe('assessDose', () => {
+    it('accepts a first dose on its minimum age', () => {
+      expect(vaccineSeriesEngine.assessDose(DTAP, DOB, [], day(42))).toEqual({
+        doseNumber: 1,
+        validity: 'VALID',
+        reasons: []
+      });
+    });
+
+    it('counts a dose up to 4 days under the minimum age within the grace period', () => {
+      const assessment = vaccineSeriesEngine.assessDose(DTAP, DOB, [], day(38));
+      expect(assessment.validity).toBe('GRACE_PERIOD');
+      expect(assessment.reasons).toEqual([
+        'Patient too young for dose 1: minimum age is 42 days (within 4-day grace period)'
+      ]);
+    });
+
+    it('rejects a dose 5 days under the minimum age', () => {
+      const assessment = vaccineSeriesEngine.assessDose(DTAP, DOB, [], day(37));
+      expect(assessment.validity).toBe('INVALID');
+      expect(assessment.reasons).toEqual(['Patient too young for dose 1: minimum age is 42 days']);
+    });
+
+    it('applies the same grace period to the minimum interval', () => {
+      // Dose 1 at 60 days, so dose 2 is due no sooner than 88 days
+      expect(vaccineSeriesEngine.assessDose(DTAP, DOB, [day(60)], day(88)).validity).toBe('VALID');
+      expect(vaccineSeriesEngine.assessDose(DTAP, DOB, [day(60)], day(84)).validity).toBe('GRACE_PERIOD');
+
+      const tooSoon = vaccineSeriesEngine.assessDose(DTAP, DOB, [day(60)], day(83));
+      expect(tooSoon).toEqual({
+        doseNumber: 2,
+        validity: 'INVALID',
+        reasons: ['Dose 2 given too soon: minimum interval is 28 days']
+      });
+    });
+
+    it('judges a back-dated dose against the doses given before it', () => {
+      const assessment = vaccineSeriesEngine.assessDose(DTAP, DOB, [day(60), day(120)], day(100));
+      expect(assessment.doseNumber).toBe(2);
+      expect(assessment.validity).toBe('VALID');
+    });
+
+    it('rejects a dose past the maximum age', () => {
+      const capped: VaccineSeriesDefinition = {
+        ...DTAP,
+        doses: DTAP.doses?.map(d => (d.doseNumber === 1 ? { ...d, maximumAgeDays: 365 } : d))
+      };
+      expect(vaccineSeriesEngine.assessDose(capped, DOB, [], day(366)).validity).toBe('INVALID');
+    });
+
+    it('rejects a dose once the series is complete', () => {
+      const assessment = vaccineSeriesEngine.assessDose(DTAP, DOB, [day(60), day(120), day(180)], day(240));
+      expect(assessment).toEqual({
+        doseNumber: 4,
+        validity: 'INVALID',
+        reasons: ['DTaP series already complete (3 doses)']
+      });
+    });
+  });
+
+  describe('forecastSeries', () => {
+    it('does not count an invalid dose in the middle of a series', () => {
+      // Dose 2 first given 10 days after dose 1, then repeated on time
+      const { assessments, valid } = recordDoses(DTAP, [60, 70, 120]);
+      expect(assessments.map(a => [a.doseNumber, a.validity])).toEqual([
+        [1, 'VALID'],
+        [2, 'INVALID'],
+        [2, 'VALID']
+      ]);
+
+      const forecast = vaccineSeriesEngine.forecastSeries(DTAP, DOB, valid, day(130));
+      expect(forecast.dosesGiven).toBe(2);
+      expect(forecast.status).toBe('NOT_YET_DUE');
+      expect(forecast.nextDose).toEqual({
+        doseNumber: 3,
+        // 28 days after the repeated dose 2, not the invalid one
+        earliestDate: day(148),
+        recommendedDate: day(180),
+        latestDate: null
+      });
+    });
+
+    it('is complete once every dose is valid', () => {
+      const { valid } = recordDoses(DTAP, [60, 120, 180]);
+      const forecast = vaccineSeriesEngine.forecastSeries(DTAP, DOB, valid, day(200));
+      expect(forecast.status).toBe('COMPLETE');
+      expect(forecast.nextDose).toBeNull();
+    });
+
+    it('plans a child far behind on minimum ages and intervals from today', () => {
+      const forecast = vaccineSeriesEngine.forecastSeries(DTAP, DOB, [], day(200));
+      expect(forecast.status).toBe('OVERDUE');
+      expect(forecast.isCatchUp).toBe(true);
+      expect(forecast.remainingDoses.map(d => d.recommendedDate)).toEqual([day(200), day(228), day(256)]);
+    });
+  });
+});
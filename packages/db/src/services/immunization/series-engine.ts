@@ -0,0 +1,333 @@
+// src/services/immunization/series-engine.ts
+import { addDays, differenceInCalendarDays, max as maxDate, startOfDay } from 'date-fns';
+
+import type { DoseValidity } from '../../types';
+
+/**
+ * Minimum spacing between doses when a schedule row does not define one (4 weeks)
+ */
+export const DEFAULT_MINIMUM_INTERVAL_DAYS = 28;
+
+/**
+ * How far past the routine date a dose can slip before the rest of the
+ * series is re-planned on the accelerated catch-up schedule
+ */
+export const CATCH_UP_THRESHOLD_DAYS = 28;
+
+export interface SeriesDoseRule {
+  doseNumber: number;
+  maximumAgeDays: number | null;
+  minimumAgeDays: number;
+  minimumIntervalDays: number | null;
+  recommendedAgeDays: number;
+}
+
+/**
+ * A vaccine series as stored in `VaccineSchedule`, optionally with its per-dose rules
+ */
+export interface VaccineSeriesDefinition {
+  ageInDaysMax: number | null;
+  ageInDaysMin: number | null;
+  doses?: SeriesDoseRule[];
+  dosesRequired: number;
+  id: number;
+  isMandatory: boolean;
+  minimumInterval: number | null;
+  vaccineName: string;
+}
+
+/**
+ * ACIP grace period: doses given up to 4 days before a minimum age or
+ * interval still count as valid
+ */
+export const DOSE_GRACE_PERIOD_DAYS = 4;
+
+export interface DoseAssessment {
+  doseNumber: number;
+  reasons: string[];
+  validity: DoseValidity;
+}
+
+export interface AdministeredDose {
+  date: Date;
+  vaccine: string;
+}
+
+export type SeriesStatus = 'COMPLETE' | 'NOT_YET_DUE' | 'DUE' | 'OVERDUE' | 'AGED_OUT';
+
+export interface PlannedDose {
+  doseNumber: number;
+  earliestDate: Date;
+  latestDate: Date | null;
+  recommendedDate: Date;
+}
+
+export interface SeriesForecast {
+  daysOverdue: number;
+  daysUntilDue: number;
+  dosesGiven: number;
+  dosesRequired: number;
+  isCatchUp: boolean;
+  isMandatory: boolean;
+  nextDose: PlannedDose | null;
+  /** Remaining doses, starting with `nextDose`, spaced by minimum intervals when catching up */
+  remainingDoses: PlannedDose[];
+  scheduleId: number;
+  status: SeriesStatus;
+  vaccineName: string;
+}
+
+export class VaccineSeriesEngine {
+  /**
+   * Normalize a vaccine name so schedule rows and immunization records match
+   */
+  normalizeName(name: string): string {
+    return name.trim().toLowerCase();
+  }
+
+  /**
+   * Resolve the rule for a dose, falling back to the series-level columns
+   * when the schedule has no per-dose rows
+   */
+  resolveDoseRule(series: VaccineSeriesDefinition, doseNumber: number): SeriesDoseRule {
+    const explicit = series.doses?.find(d => d.doseNumber === doseNumber);
+    if (explicit) return explicit;
+
+    const firstDoseAge = series.ageInDaysMin ?? 0;
+    const interval = series.minimumInterval ?? DEFAULT_MINIMUM_INTERVAL_DAYS;
+
+    return {
+      doseNumber,
+      minimumAgeDays: firstDoseAge,
+      recommendedAgeDays: firstDoseAge + (doseNumber - 1) * interval,
+      maximumAgeDays: series.doses?.length ? null : series.ageInDaysMax,
+      minimumIntervalDays: doseNumber > 1 ? interval : null
+    };
+  }
+
+  /**
+   * Forecast one series for a patient from the doses already given
+   */
+  forecastSeries(
+    series: VaccineSeriesDefinition,
+    dateOfBirth: Date,
+    administeredDates: Date[],
+    referenceDate: Date = new Date()
+  ): SeriesForecast {
+    const today = startOfDay(referenceDate);
+    const dob = startOfDay(dateOfBirth);
+    const given = administeredDates.map(d => startOfDay(d)).sort((a, b) => a.getTime() - b.getTime());
+    const dosesGiven = Math.min(given.length, series.dosesRequired);
+
+    const base = {
+      scheduleId: series.id,
+      vaccineName: series.vaccineName,
+      isMandatory: series.isMandatory,
+      dosesRequired: series.dosesRequired,
+      dosesGiven
+    };
+
+    if (dosesGiven >= series.dosesRequired) {
+      return {
+        ...base,
+        status: 'COMPLETE',
+        nextDose: null,
+        remainingDoses: [],
+        isCatchUp: false,
+        daysUntilDue: 0,
+        daysOverdue: 0
+      };
+    }
+
+    const nextRule = this.resolveDoseRule(series, dosesGiven + 1);
+    const lastGiven = given.at(-1) ?? null;
+    const nextEarliest = this.earliestDate(nextRule, dob, lastGiven);
+    const routineDate = maxDate([addDays(dob, nextRule.recommendedAgeDays), nextEarliest]);
+    const isLate = today > routineDate;
+    const isCatchUp = differenceInCalendarDays(today, routineDate) > CATCH_UP_THRESHOLD_DAYS;
+
+    const remainingDoses = this.planRemainingDoses(series, dob, lastGiven, dosesGiven + 1, today, isCatchUp);
+    const nextDose = remainingDoses[0] ?? {
+      doseNumber: dosesGiven + 1,
+      earliestDate: nextEarliest,
+      recommendedDate: routineDate,
+      latestDate: this.latestDate(nextRule, dob)
+    };
+
+    let status: SeriesStatus;
+    if (!remainingDoses.length || (nextDose.latestDate && today > nextDose.latestDate)) {
+      status = 'AGED_OUT';
+    } else if (today < nextDose.earliestDate) {
+      status = 'NOT_YET_DUE';
+    } else if (isLate) {
+      status = 'OVERDUE';
+    } else {
+      status = 'DUE';
+    }
+
+    return {
+      ...base,
+      status,
+      nextDose,
+      remainingDoses,
+      isCatchUp: isCatchUp && status === 'OVERDUE',
+      daysUntilDue: Math.max(0, differenceInCalendarDays(nextDose.recommendedDate, today)),
+      daysOverdue: status === 'OVERDUE' ? differenceInCalendarDays(today, routineDate) : 0
+    };
+  }
+
+  /**
+   * Forecast every series in a schedule for one patient
+   */
+  forecastPatient(
+    schedule: VaccineSeriesDefinition[],
+    dateOfBirth: Date,
+    administered: AdministeredDose[],
+    referenceDate: Date = new Date()
+  ): SeriesForecast[] {
+    const byVaccine = new Map<string, Date[]>();
+    for (const dose of administered) {
+      const key = this.normalizeName(dose.vaccine);
+      const dates = byVaccine.get(key) ?? [];
+      dates.push(dose.date);
+      byVaccine.set(key, dates);
+    }
+
+    return schedule
+      .map(series =>
+        this.forecastSeries(
+          series,
+          dateOfBirth,
+          byVaccine.get(this.normalizeName(series.vaccineName)) ?? [],
+          referenceDate
+        )
+      )
+      .sort((a, b) => {
+        const aDate = a.nextDose?.recommendedDate.getTime() ?? Number.POSITIVE_INFINITY;
+        const bDate = b.nextDose?.recommendedDate.getTime() ?? Number.POSITIVE_INFINITY;
+        return aDate - bDate;
+      });
+  }
+
+  /**
+   * Classify a dose against the series rules, given the valid doses already on record.
+   * Doses recorded after `doseDate` are ignored so back-dated entries are judged
+   * against the history as it stood on that day.
+   */
+  assessDose(
+    series: VaccineSeriesDefinition,
+    dateOfBirth: Date,
+    previousValidDates: Date[],
+    doseDate: Date
+  ): DoseAssessment {
+    const dob = startOfDay(dateOfBirth);
+    const given = startOfDay(doseDate);
+    const prior = previousValidDates
+      .map(d => startOfDay(d))
+      .filter(d => d < given)
+      .sort((a, b) => a.getTime() - b.getTime());
+    const doseNumber = prior.length + 1;
+
+    if (doseNumber > series.dosesRequired) {
+      return {
+        doseNumber,
+        validity: 'INVALID',
+        reasons: [`${series.vaccineName} series already complete (${series.dosesRequired} doses)`]
+      };
+    }
+
+    const rule = this.resolveDoseRule(series, doseNumber);
+    const reasons: string[] = [];
+    let validity: DoseValidity = 'VALID';
+
+    const classifyEarly = (daysEarly: number, reason: string) => {
+      if (daysEarly <= 0) return;
+      if (daysEarly > DOSE_GRACE_PERIOD_DAYS) {
+        validity = 'INVALID';
+        reasons.push(reason);
+      } else {
+        if (validity === 'VALID') validity = 'GRACE_PERIOD';
+        reasons.push(`${reason} (within ${DOSE_GRACE_PERIOD_DAYS}-day grace period)`);
+      }
+    };
+
+    classifyEarly(
+      differenceInCalendarDays(addDays(dob, rule.minimumAgeDays), given),
+      `Patient too young for dose ${doseNumber}: minimum age is ${rule.minimumAgeDays} days`
+    );
+
+    const lastGiven = prior.at(-1);
+    if (lastGiven && rule.minimumIntervalDays) {
+      classifyEarly(
+        differenceInCalendarDays(addDays(lastGiven, rule.minimumIntervalDays), given),
+        `Dose ${doseNumber} given too soon: minimum interval is ${rule.minimumIntervalDays} days`
+      );
+    }
+
+    const latestDate = this.latestDate(rule, dob);
+    if (latestDate && given > latestDate) {
+      validity = 'INVALID';
+      reasons.push(`Patient past maximum age for dose ${doseNumber}: ${rule.maximumAgeDays} days`);
+    }
+
+    return { doseNumber, validity, reasons };
+  }
+
+  /**
+   * Whether the next dose of a series can and should be given now
+   */
+  isActionable(forecast: SeriesForecast): boolean {
+    return forecast.status === 'DUE' || forecast.status === 'OVERDUE';
+  }
+
+  /**
+   * Project the remaining doses of a series. Later doses are never planned
+   * before `today`; on a catch-up schedule the child is far behind, so doses
+   * follow minimum ages and intervals starting today instead of the routine ages.
+   */
+  private planRemainingDoses(
+    series: VaccineSeriesDefinition,
+    dob: Date,
+    lastGiven: Date | null,
+    fromDose: number,
+    today: Date,
+    isCatchUp: boolean
+  ): PlannedDose[] {
+    const planned: PlannedDose[] = [];
+    let previous = lastGiven;
+
+    for (let doseNumber = fromDose; doseNumber <= series.dosesRequired; doseNumber++) {
+      const rule = this.resolveDoseRule(series, doseNumber);
+      const earliestDate = this.earliestDate(rule, dob, previous);
+      const latestDate = this.latestDate(rule, dob);
+
+      let recommendedDate: Date;
+      if (isCatchUp) {
+        recommendedDate = doseNumber === fromDose ? maxDate([earliestDate, today]) : earliestDate;
+      } else {
+        recommendedDate = maxDate([addDays(dob, rule.recommendedAgeDays), earliestDate]);
+      }
+
+      // The series cannot be finished once a dose falls past its latest age
+      if (latestDate && earliestDate > latestDate) break;
+
+      planned.push({ doseNumber, earliestDate, recommendedDate, latestDate });
+      // An overdue dose is given today at the soonest, so space the next one from there
+      previous = maxDate([recommendedDate, today]);
+    }
+
+    return planned;
+  }
+
+  private earliestDate(rule: SeriesDoseRule, dob: Date, previousDose: Date | null): Date {
+    const byAge = addDays(dob, rule.minimumAgeDays);
+    if (!(previousDose && rule.minimumIntervalDays)) return byAge;
+    return maxDate([byAge, addDays(previousDose, rule.minimumIntervalDays)]);
+  }
+
+  private latestDate(rule: SeriesDoseRule, dob: Date): Date | null {
+    return rule.maximumAgeDays === null ? null : addDays(dob, rule.maximumAgeDays);
+  }
+}
+
+export const vaccineSeriesEngine = new VaccineSeriesEngine();
@@ -18,6 +18,7 @@ import type {
   AppointmentStatus,
   Gender,
   Patient as PatientModel,
+  PrescriptionStatus,
   Prisma,
   PrismaClient,
   Status
@@ -41,7 +42,10 @@ import {
   type UpsertPatientInput,
   UpsertPatientSchema
 } from '../zodSchemas/patient.schema';
+import { allergyService } from './allergy/allergy.service';
 import { cacheService } from './cache.service';
+import { feedingService } from './feeding/feeding.service';
+import type { FeedingSummary } from './feeding/intake';
 
 // ==================== TYPE DEFINITIONS ====================
 
@@ -49,6 +53,8 @@ export interface PatientDashboardStats {
   activePrescriptions: number;
   appointmentCounts: Record<string, number>;
   data: Partial<PatientModel>;
+  /** Last week's feeding analytics; null when they could not be worked out */
+  feeding: FeedingSummary | null;
   last5Records: Awaited<ReturnType<typeof patientRepo.findPatientDashboardStats>>[1];
   monthlyData: Array<{
     name: string;
@@ -78,6 +84,8 @@ export interface PatientFullData {
   colorCode: string | null;
   dateOfBirth: Date;
   email: string | null;
+  /** Last week's feeding analytics; null when they could not be worked out */
+  feeding: FeedingSummary | null;
   firstName: string;
   gender: Gender;
   id: string;
@@ -183,7 +191,8 @@ export class PatientService {
       const result: PatientFullData = {
         ...patient,
         totalAppointments: patient._count?.appointments || 0,
-        lastVisit: patient.appointments?.[0]?.appointmentDate || null
+        lastVisit: patient.appointments?.[0]?.appointmentDate || null,
+        feeding: await this.getFeedingSummary(patient)
       };
 
       // Cache result
@@ -274,6 +283,7 @@ export class PatientService {
 
       const stats: PatientDashboardStats = {
         data: patient,
+        feeding: await this.getFeedingSummary({ ...patient, clinicId: validatedClinicId }),
         appointmentCounts,
         last5Records,
         totalAppointments: appointments.length,
@@ -604,7 +614,11 @@ export class PatientService {
   /**
    * Get patient prescriptions
    */
-  async getPatientPrescriptions(patientId: string, clinicId: string, options?: { limit?: number; status?: string }) {
+  async getPatientPrescriptions(
+    patientId: string,
+    clinicId: string,
+    options?: { limit?: number; status?: PrescriptionStatus }
+  ) {
     // Validate inputs
     const validatedId = z.uuid().parse(patientId);
     const validatedClinicId = z.uuid().parse(clinicId);
@@ -616,10 +630,7 @@ export class PatientService {
         throw new NotFoundError('Patient', validatedId);
       }
 
-      return await patientRepo.findPatientPrescriptions(this.db, validatedId, validatedClinicId, {
-        ...options,
-        status: options?.status as 'active' | 'completed' | 'cancelled'
-      });
+      return await patientRepo.findPatientPrescriptions(this.db, validatedId, validatedClinicId, options);
     } catch (error) {
       if (error instanceof NotFoundError) throw error;
       logger.error('Failed to get patient prescriptions', { error, patientId: validatedId });
@@ -672,6 +683,16 @@ export class PatientService {
               throw new ConflictError('Patient with this phone number already exists');
             }
           }
+          if (validated.medicalRecordNumber) {
+            const existing = await patientRepo.findPatientByMedicalRecordNumber(
+              tx as unknown as PrismaClient,
+              validated.medicalRecordNumber,
+              validated.clinicId
+            );
+            if (existing) {
+              throw new ConflictError('Patient with this record number already exists');
+            }
+          }
 
           // 4. Create patient
           const now = new Date();
@@ -681,6 +702,7 @@ export class PatientService {
             createdById: userId,
             firstName: validated.firstName,
             lastName: validated.lastName,
+            medicalRecordNumber: validated.medicalRecordNumber ?? null,
             dateOfBirth: validated.dateOfBirth,
             gender: validated.gender as Gender,
             phone: validated.phone || '',
@@ -690,6 +712,10 @@ export class PatientService {
             emergencyContactNumber: validated.emergencyContactNumber || null,
             relation: validated.relation || null,
             bloodGroup: validated.bloodGroup || null,
+            gestationalAgeWeeks: validated.gestationalAgeWeeks ?? null,
+            gestationalAgeDays: validated.gestationalAgeDays ?? null,
+            fatherHeightCm: validated.fatherHeightCm ?? null,
+            motherHeightCm: validated.motherHeightCm ?? null,
             allergies: validated.allergies || null,
             medicalConditions: validated.medicalConditions || null,
             colorCode: validated.colorCode || '#4ECDC4',
@@ -697,6 +723,10 @@ export class PatientService {
             updatedAt: now,
             userId: ''
           });
+          await allergyService.queueFreeText(tx as unknown as PrismaClient, patient, {
+            allergies: patient.allergies,
+            medicalConditions: patient.medicalConditions
+          });
 
           logger.info('Patient created', {
             patientId: patient.id,
@@ -781,6 +811,12 @@ export class PatientService {
               updatedAt: now
             }
           );
+          // Free text is still accepted; new items join the review queue
+          await allergyService.queueFreeText(tx as unknown as PrismaClient, patient, {
+            allergies: validatedData.allergies === existing.allergies ? null : validatedData.allergies,
+            medicalConditions:
+              validatedData.medicalConditions === existing.medicalConditions ? null : validatedData.medicalConditions
+          });
 
           logger.info('Patient updated', { patientId: validatedId });
 
@@ -1008,6 +1044,21 @@ export class PatientService {
       });
     }
   }
+
+  // ==================== HELPERS ====================
+
+  /**
+   * Feeding analytics for the patient record; a failure here should not
+   * take the record down with it
+   */
+  private async getFeedingSummary(patient: Parameters<typeof feedingService.summarize>[0]) {
+    try {
+      return await feedingService.summarize(patient);
+    } catch (error) {
+      logger.warn('Failed to summarise feeding', { error, patientId: patient.id });
+      return null;
+    }
+  }
 }
 
 // Export singleton instance
@@ -1,9 +1,48 @@
 import logger from '@naroto/logger';
 
+import type { PrescriptionStatus, PrismaClient } from '../../generated/client';
 import { diagnosisRepo } from '..';
 import prisma from '../client';
+import { BusinessRuleError, ConflictError, InvalidStateError, NotFoundError, ValidationError } from '../error';
 import { labTestRepo, medicalRecordRepo, prescriptionRepo, validationRepo, vitalSignsRepo } from '../repositories';
+import * as growthRepo from '../repositories/growth.repo';
+import type { DoseGuideline } from '../types/dose';
 import { calculateAge } from '../utils';
+import { validateDoseAgainstGuidelines } from '../utils/validation/dose';
+import { doseGuidelineMatcher, MG_PER_UNIT } from '../utils/validation/dose-guideline';
+import { formulationCalculator } from '../utils/validation/formulation';
+import type {
+  PrescribedItemCreateInput,
+  PrescriptionByIdInput,
+  PrescriptionCreateInput,
+  PrescriptionDiscontinueInput,
+  PrescriptionRenewInput
+} from '../zodSchemas/prescription.schema';
+import { allergyService } from './allergy/allergy.service';
+import type { AllergyAlert } from './allergy/allergy-check';
+import { cacheService } from './cache.service';
+import { type DrugInteractionMatch, drugInteractionService } from './drug-interaction.service';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+const DURATION_DAYS: Record<string, number> = { day: 1, week: 7, month: 30 };
+
+/**
+ * Statuses a prescription may move to from each status
+ */
+const PRESCRIPTION_TRANSITIONS: Record<PrescriptionStatus, readonly PrescriptionStatus[]> = {
+  ACTIVE: ['COMPLETED', 'CANCELLED'],
+  COMPLETED: [],
+  CANCELLED: []
+};
+
+type PrescribingEncounter = NonNullable<Awaited<ReturnType<typeof prescriptionRepo.findPrescribingEncounter>>>;
+/** An item with the amount to give of its formulation */
+type MeasuredItem = PrescribedItemCreateInput & {
+  /** mg a dose in mL or tablets gives of its formulation */
+  doseMg?: number;
+  measuredQuantity?: number;
+  measuredUnit?: string;
+};
 
 export class PrescriptionService {
   constructor(private readonly db: typeof prisma = prisma) {}
@@ -48,6 +87,172 @@ export class PrescriptionService {
     }
   }
 
+  async getPrescriptionById(id: string, clinicId: string) {
+    const prescription = await prescriptionRepo.findPrescriptionById(this.db, id, clinicId);
+    if (!prescription) {
+      throw new NotFoundError('Prescription', id);
+    }
+    return prescription;
+  }
+
+  // ==================== PRESCRIBING ====================
+
+  /**
+   * Write a prescription against a diagnosis encounter. Every item's dose is
+   * checked against the drug's guidelines at the patient's latest weight and
+   * measured out of its formulation when one is chosen, then checked
+   * against the patient's allergies, and against each other and the
+   * patient's active prescriptions for interactions; nothing is saved when a
+   * check fails.
+   */
+  async createPrescription(input: PrescriptionCreateInput, userId: string) {
+    const encounter = await this.getEncounter(input.encounterId, input.clinicId);
+    const measuredItems = await this.measureDoses(input.prescribedItems);
+    const weightKg = await this.checkDoses(encounter.patient, measuredItems);
+    const allergyAlerts = await this.checkAllergies(
+      encounter.patientId,
+      input.prescribedItems,
+      input.allergyOverrideReason
+    );
+    const interactions = await this.checkInteractions(
+      encounter.patientId,
+      input.prescribedItems,
+      input.interactionOverrideReason
+    );
+    const issuedDate = input.issuedDate ?? new Date();
+
+    const prescription = await this.db.$transaction(async tx => {
+      const db = tx as unknown as PrismaClient;
+      const created = await prescriptionRepo.createPrescription(db, {
+        ...this.encounterFields(encounter, input.clinicId),
+        instructions: input.instructions,
+        issuedDate,
+        endDate: input.endDate ?? this.defaultEndDate(issuedDate, input.prescribedItems),
+        status: 'ACTIVE',
+        weightKg,
+        prescribedItems: { create: measuredItems.map(item => this.itemData(item)) }
+      });
+      await this.recordAllergyOverride(db, created.id, allergyAlerts, input, userId);
+      await this.recordInteractionOverride(db, created.id, interactions, input, userId);
+      return created;
+    });
+
+    logger.info('Prescription issued', {
+      prescriptionId: prescription.id,
+      patientId: encounter.patientId,
+      items: prescription.prescribedItems.length,
+      userId
+    });
+    await cacheService.invalidatePatientCaches(encounter.patientId, input.clinicId);
+
+    return { ...prescription, allergyAlerts, interactions };
+  }
+
+  /**
+   * Issue the same items again as a new prescription, rechecked at the
+   * current weight. An active original is completed by its renewal.
+   */
+  async renewPrescription(input: PrescriptionRenewInput, userId: string) {
+    const original = await this.getPrescriptionById(input.id, input.clinicId);
+    if (original.status === 'CANCELLED') {
+      throw new InvalidStateError('Prescription', original.status, 'renewed');
+    }
+    if (original.renewal) {
+      throw new ConflictError('Prescription has already been renewed', { renewalId: original.renewal.id });
+    }
+
+    const encounter = await this.getEncounter(input.encounterId ?? original.encounterId, input.clinicId);
+    if (encounter.patientId !== original.patientId) {
+      throw new ValidationError('The encounter is for a different patient');
+    }
+
+    const items = original.prescribedItems.map(item => ({
+      drugId: item.drugId,
+      dosageValue: item.dosageValue,
+      dosageUnit: item.dosageUnit,
+      frequency: item.frequency,
+      duration: item.duration,
+      instructions: item.instructions ?? undefined,
+      drugRoute: item.drugRoute ?? undefined,
+      indication: item.indication ?? undefined,
+      formulationId: item.formulationId ?? undefined
+    }));
+    const measuredItems = await this.measureDoses(items);
+    const weightKg = await this.checkDoses(encounter.patient, measuredItems);
+    const allergyAlerts = await this.checkAllergies(encounter.patientId, items, input.allergyOverrideReason);
+    // The original is completed by its renewal, so it is not checked against
+    const interactions = await this.checkInteractions(
+      encounter.patientId,
+      items,
+      input.interactionOverrideReason,
+      original.id
+    );
+    const issuedDate = new Date();
+
+    const renewal = await this.db.$transaction(async tx => {
+      const db = tx as unknown as PrismaClient;
+      if (original.status === 'ACTIVE') {
+        this.assertTransition(original.status, 'COMPLETED');
+        await prescriptionRepo.updatePrescription(db, original.id, { status: 'COMPLETED' });
+      }
+
+      const created = await prescriptionRepo.createPrescription(db, {
+        ...this.encounterFields(encounter, input.clinicId),
+        medicationName: original.medicationName,
+        instructions: input.instructions ?? original.instructions,
+        issuedDate,
+        endDate: input.endDate ?? this.defaultEndDate(issuedDate, items),
+        status: 'ACTIVE',
+        weightKg,
+        renewedFromId: original.id,
+        prescribedItems: { create: measuredItems.map(item => this.itemData(item)) }
+      });
+      await this.recordAllergyOverride(db, created.id, allergyAlerts, input, userId);
+      await this.recordInteractionOverride(db, created.id, interactions, input, userId);
+      return created;
+    });
+
+    logger.info('Prescription renewed', { prescriptionId: renewal.id, renewedFromId: original.id, userId });
+    await cacheService.invalidatePatientCaches(original.patientId, input.clinicId);
+
+    return { ...renewal, allergyAlerts, interactions };
+  }
+
+  /**
+   * Stop an active prescription early; the reason is kept with it
+   */
+  async discontinuePrescription(input: PrescriptionDiscontinueInput, userId: string) {
+    const prescription = await this.getPrescriptionById(input.id, input.clinicId);
+    this.assertTransition(prescription.status, 'CANCELLED');
+
+    const updated = await prescriptionRepo.updatePrescription(this.db, prescription.id, {
+      status: 'CANCELLED',
+      discontinuedAt: new Date(),
+      discontinuedReason: input.reason,
+      discontinuedById: userId
+    });
+
+    logger.info('Prescription discontinued', { prescriptionId: prescription.id, userId });
+    await cacheService.invalidatePatientCaches(prescription.patientId, input.clinicId);
+
+    return updated;
+  }
+
+  /**
+   * Mark an active prescription as finished
+   */
+  async completePrescription(input: PrescriptionByIdInput, userId: string) {
+    const prescription = await this.getPrescriptionById(input.id, input.clinicId);
+    this.assertTransition(prescription.status, 'COMPLETED');
+
+    const updated = await prescriptionRepo.updatePrescription(this.db, prescription.id, { status: 'COMPLETED' });
+
+    logger.info('Prescription completed', { prescriptionId: prescription.id, userId });
+    await cacheService.invalidatePatientCaches(prescription.patientId, input.clinicId);
+
+    return updated;
+  }
+
   // ==================== COMPREHENSIVE PATIENT MEDICAL DATA ====================
 
   async getPatientMedicalSummary(patientId: string, clinicId: string) {
@@ -92,6 +297,351 @@ export class PrescriptionService {
       throw new Error('Failed to retrieve medical summary');
     }
   }
+
+  // ==================== HELPERS ====================
+
+  private async getEncounter(encounterId: string, clinicId: string): Promise<PrescribingEncounter> {
+    const encounter = await prescriptionRepo.findPrescribingEncounter(this.db, encounterId, clinicId);
+    if (!encounter) {
+      throw new NotFoundError('Encounter', encounterId);
+    }
+    if (encounter.status === 'CANCELLED') {
+      throw new ValidationError('Cannot prescribe against a cancelled encounter');
+    }
+    return encounter;
+  }
+
+  private encounterFields(encounter: PrescribingEncounter, clinicId: string) {
+    return {
+      encounterId: encounter.id,
+      medicalRecordId: encounter.medicalId,
+      patientId: encounter.patientId,
+      doctorId: encounter.doctorId,
+      clinicId
+    };
+  }
+
+  private itemData(item: MeasuredItem) {
+    return {
+      drugId: item.drugId,
+      dosageValue: item.dosageValue,
+      dosageUnit: item.dosageUnit,
+      frequency: item.frequency,
+      duration: item.duration,
+      instructions: item.instructions,
+      drugRoute: item.drugRoute,
+      indication: item.indication,
+      formulationId: item.formulationId,
+      measuredQuantity: item.measuredQuantity,
+      measuredUnit: item.measuredUnit
+    };
+  }
+
+  private assertTransition(from: PrescriptionStatus, to: PrescriptionStatus) {
+    if (!PRESCRIPTION_TRANSITIONS[from].includes(to)) {
+      throw new InvalidStateError('Prescription', from, to);
+    }
+  }
+
+  /**
+   * Check every item through `validateDoseAgainstGuidelines` at the latest
+   * plausible weight, which is returned to be stored with the prescription.
+   * Doses in g, mcg, or mL and tablets of a formulation are checked as the mg
+   * they give. A drug with guidelines none of which fit the item is refused,
+   * and a drug dosed per kg cannot be prescribed without a weight. The day's
+   * total of a drug at the prescribed frequencies, added up over all its
+   * items, must stay within the lowest 24-hour maximum among them.
+   */
+  private async checkDoses(patient: PrescribingEncounter['patient'], items: MeasuredItem[]): Promise<number | null> {
+    const drugIds = [...new Set(items.map(item => item.drugId))];
+    const [drugs, latestWeight] = await Promise.all([
+      prescriptionRepo.findDrugsWithGuidelines(this.db, drugIds),
+      growthRepo.findLatestPlausibleWeight(this.db, patient.id)
+    ]);
+    const weightKg = latestWeight?.weight ?? null;
+    // Per drug and checked unit, so two items of one drug cannot each pass and together exceed it
+    const dailyTotals = new Map<
+      string,
+      { drugId: string; drugName: string; unit: string; dosePerKg: number; max: number | null; frequencies: string[] }
+    >();
+
+    for (const item of items) {
+      const drug = drugs.find(d => d.id === item.drugId);
+      if (!drug) {
+        throw new NotFoundError('Drug', item.drugId);
+      }
+
+      const doseMg = this.doseInMg(item);
+      const dose = doseMg === null ? { value: item.dosageValue, unit: item.dosageUnit } : { value: doseMg, unit: 'MG' };
+
+      const { applicable, range } = doseGuidelineMatcher.doseRange(
+        drug.guidelines,
+        item,
+        doseMg !== null,
+        doseGuidelineMatcher.dosingAge(patient)
+      );
+      const guidelines: DoseGuideline[] = range
+        ? [{ doseUnit: dose.unit, minDosePerKg: range.minDosePerKg, maxDosePerKg: range.maxDosePerKg }]
+        : [];
+      const maxDosePer24h = range?.maxDosePer24h ?? null;
+      if (drug.guidelines.length && !applicable) {
+        throw new ValidationError(this.unguidedDoseMessage(drug.name, item), {
+          drugId: drug.id,
+          dosageUnit: item.dosageUnit,
+          drugRoute: item.drugRoute,
+          formulationId: item.formulationId
+        });
+      }
+      if (guidelines.length && weightKg === null) {
+        throw new ValidationError(`${drug.name} is dosed by weight; record the patient's weight before prescribing it`);
+      }
+
+      try {
+        await validateDoseAgainstGuidelines(
+          { drugId: item.drugId, dosageValue: dose.value, dosageUnit: dose.unit },
+          guidelines,
+          patient.id,
+          weightKg
+        );
+      } catch (error) {
+        throw new ValidationError(`${drug.name}: ${error instanceof Error ? error.message : String(error)}`, {
+          drugId: drug.id,
+          dosageValue: item.dosageValue,
+          dosageUnit: item.dosageUnit,
+          doseMg,
+          weightKg
+        });
+      }
+
+      const dailyDosePerKg =
+        weightKg === null ? null : doseGuidelineMatcher.dailyDosePerKg(dose.value / weightKg, null, item.frequency);
+      if (dailyDosePerKg === null) continue;
+
+      const key = `${drug.id}:${dose.unit}`;
+      const total = dailyTotals.get(key) ?? {
+        drugId: drug.id,
+        drugName: drug.name,
+        unit: `${dose.unit.toLowerCase()}/kg`,
+        dosePerKg: 0,
+        max: null,
+        frequencies: []
+      };
+      total.dosePerKg += dailyDosePerKg;
+      total.frequencies.push(item.frequency);
+      if (maxDosePer24h !== null) total.max = total.max === null ? maxDosePer24h : Math.min(total.max, maxDosePer24h);
+      dailyTotals.set(key, total);
+    }
+
+    for (const total of dailyTotals.values()) {
+      if (total.max !== null && total.dosePerKg > total.max) {
+        throw new ValidationError(
+          `${total.drugName}: ${total.dosePerKg.toFixed(2)}${total.unit} over 24 hours exceeds the maximum of ${total.max}${total.unit}`,
+          {
+            drugId: total.drugId,
+            dailyDosePerKg: total.dosePerKg,
+            maxDosePer24h: total.max,
+            frequencies: total.frequencies
+          }
+        );
+      }
+    }
+
+    return weightKg;
+  }
+
+  /**
+   * Items given from a formulation, with the volume or tablets to measure
+   * out. The formulation must be an active product of the item's drug, given
+   * by the item's route, and the dose must round to a measurable amount
+   * within 10% of it.
+   */
+  private async measureDoses(items: PrescribedItemCreateInput[]): Promise<MeasuredItem[]> {
+    const formulationIds = [...new Set(items.flatMap(item => (item.formulationId ? [item.formulationId] : [])))];
+    if (!formulationIds.length) return items;
+    const formulations = await prescriptionRepo.findFormulations(this.db, formulationIds);
+
+    return items.map(item => {
+      if (!item.formulationId) return item;
+
+      const formulation = formulations.find(f => f.id === item.formulationId);
+      if (!formulation) {
+        throw new NotFoundError('Formulation', item.formulationId);
+      }
+      const label = `${formulation.drug.name} ${formulationCalculator.describe(formulation)}`;
+      if (formulation.drugId !== item.drugId) {
+        throw new ValidationError(`${label} is not a formulation of the prescribed drug`, {
+          drugId: item.drugId,
+          formulationId: formulation.id
+        });
+      }
+      if (!formulation.isActive) {
+        throw new ValidationError(`${label} is no longer in the formulary`, { formulationId: formulation.id });
+      }
+      if (item.drugRoute && item.drugRoute !== formulation.route) {
+        throw new ValidationError(`${label} is given ${formulation.route}, not ${item.drugRoute}`, {
+          formulationId: formulation.id,
+          drugRoute: item.drugRoute
+        });
+      }
+
+      const measure = formulationCalculator.measure(item.dosageValue, item.dosageUnit, formulation);
+      if (!(measure.measurable && measure.quantity !== null)) {
+        throw new ValidationError(`${formulation.drug.name}: ${measure.reason}`, {
+          drugId: item.drugId,
+          formulationId: formulation.id,
+          dosageValue: item.dosageValue,
+          dosageUnit: item.dosageUnit,
+          quantity: measure.quantity,
+          deviationPercent: measure.deviationPercent
+        });
+      }
+
+      return {
+        ...item,
+        drugRoute: formulation.route,
+        measuredQuantity: measure.quantity,
+        measuredUnit: measure.unit,
+        doseMg: formulationCalculator.massOf(item.dosageValue, item.dosageUnit, formulation) ?? undefined
+      };
+    });
+  }
+
+  /**
+   * The items against the patient's allergies. A drug the patient is allergic
+   * to, directly or through its class, is refused; a cross-sensitivity needs
+   * a reason to go ahead.
+   */
+  private async checkAllergies(
+    patientId: string,
+    items: Pick<PrescribedItemCreateInput, 'drugId'>[],
+    overrideReason: string | undefined
+  ): Promise<AllergyAlert[]> {
+    const allergyAlerts = await allergyService.check(
+      patientId,
+      items.map(item => item.drugId)
+    );
+
+    if (allergyService.isBlocked(allergyAlerts)) {
+      const blocked = allergyAlerts.filter(alert => alert.action === 'block');
+      throw new BusinessRuleError(
+        `Contraindicated by the patient's allergies: ${blocked.map(alert => alert.message).join('; ')}`,
+        'ALLERGY_CONTRAINDICATION',
+        { allergyAlerts: blocked }
+      );
+    }
+    if (allergyService.requiresOverride(allergyAlerts) && !overrideReason) {
+      throw new BusinessRuleError(
+        `Allergy cross-sensitivity: ${allergyAlerts.map(alert => alert.message).join('; ')}; give a reason to prescribe anyway`,
+        'ALLERGY_OVERRIDE_REQUIRED',
+        { allergyAlerts }
+      );
+    }
+
+    return allergyAlerts;
+  }
+
+  private async recordAllergyOverride(
+    db: PrismaClient,
+    prescriptionId: string,
+    allergyAlerts: AllergyAlert[],
+    input: { clinicId: string; allergyOverrideReason?: string },
+    userId: string
+  ) {
+    if (!(input.allergyOverrideReason && allergyService.requiresOverride(allergyAlerts))) return;
+
+    await allergyService.recordOverride(db, {
+      alerts: allergyAlerts,
+      clinicId: input.clinicId,
+      prescriptionId,
+      reason: input.allergyOverrideReason,
+      userId
+    });
+    logger.warn('Allergy cross-sensitivity overridden', { prescriptionId, alerts: allergyAlerts.length, userId });
+  }
+
+  /**
+   * Interactions of the items with each other and with the patient's active
+   * prescriptions. From moderate severity up they stop the prescription
+   * unless the prescriber gives a reason to override them.
+   */
+  private async checkInteractions(
+    patientId: string,
+    items: Pick<PrescribedItemCreateInput, 'drugId'>[],
+    overrideReason: string | undefined,
+    excludePrescriptionId?: string
+  ): Promise<DrugInteractionMatch[]> {
+    const interactions = await drugInteractionService.check(
+      items.map(item => item.drugId),
+      { patientId, excludePrescriptionId }
+    );
+
+    if (drugInteractionService.requiresOverride(interactions) && !overrideReason) {
+      const pairs = interactions.map(interaction => interaction.drugs.map(drug => drug.name).join(' + '));
+      throw new BusinessRuleError(
+        `Drug interactions found (${pairs.join(', ')}); give a reason to prescribe anyway`,
+        'DRUG_INTERACTION_OVERRIDE_REQUIRED',
+        { interactions }
+      );
+    }
+
+    return interactions;
+  }
+
+  private async recordInteractionOverride(
+    db: PrismaClient,
+    prescriptionId: string,
+    interactions: DrugInteractionMatch[],
+    input: { clinicId: string; interactionOverrideReason?: string },
+    userId: string
+  ) {
+    if (!(input.interactionOverrideReason && drugInteractionService.requiresOverride(interactions))) return;
+
+    await drugInteractionService.recordOverride(db, {
+      clinicId: input.clinicId,
+      interactions,
+      prescriptionId,
+      reason: input.interactionOverrideReason,
+      userId
+    });
+    logger.warn('Drug interaction overridden', { prescriptionId, interactions: interactions.length, userId });
+  }
+
+  /**
+   * The item's dose in mg: mass units converted, mL or tablets through the
+   * formulation they are measured from; null for any other dose
+   */
+  private doseInMg(item: MeasuredItem): number | null {
+    const mgPerUnit = MG_PER_UNIT[item.dosageUnit.toLowerCase()];
+    if (mgPerUnit) return item.dosageValue * mgPerUnit;
+    return item.doseMg ?? null;
+  }
+
+  /**
+   * Why an item for a drug with dosing guidelines could not be checked
+   * against any of them
+   */
+  private unguidedDoseMessage(drugName: string, item: MeasuredItem): string {
+    const unit = item.dosageUnit.toLowerCase();
+    if ((item.dosageUnit === 'ML' || item.dosageUnit === 'TABLET') && !item.formulationId) {
+      return `${drugName}: a dose in ${unit} cannot be checked against its dosing guidelines; choose the formulation it is measured from`;
+    }
+    const route = item.drugRoute ? ` given ${item.drugRoute.toLowerCase()}` : '';
+    const indication = item.indication ? ` for ${item.indication}` : '';
+    return `${drugName}: none of its dosing guidelines apply to a dose in ${unit}${route}${indication} at this patient's age`;
+  }
+
+  /**
+   * End of the longest item's course, e.g. "2 weeks" from the issue date
+   */
+  private defaultEndDate(issuedDate: Date, items: Pick<PrescribedItemCreateInput, 'duration'>[]): Date {
+    const days = Math.max(
+      ...items.map(item => {
+        const match = /^(\d+) (day|week|month)s?$/.exec(item.duration);
+        return match ? Number(match[1]) * (DURATION_DAYS[match[2] as string] ?? 1) : 0;
+      })
+    );
+    return new Date(issuedDate.getTime() + days * MS_PER_DAY);
+  }
 }
 
 export const prescriptionService = new PrescriptionService();
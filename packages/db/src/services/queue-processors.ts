@@ -0,0 +1,20 @@
+// src/services/queue-processors.ts
+import { waitlistService } from './appointment/waitlist';
+import { growthChartRenderer } from './growth/chart-renderer';
+import { growthImportService } from './growth/import';
+import { growthRecomputeService } from './growth/recompute';
+import { reminderService } from './reminder/reminder.service';
+
+/**
+ * Plug in every job processor the database layer provides. Call once at
+ * startup, before the queues are initialized: workers start for every job
+ * type, and jobs left delayed or queued from before a restart fail with
+ * "No processor registered" when their processor is missing.
+ */
+export function registerProcessors(): void {
+  reminderService.registerQueueProcessors();
+  waitlistService.registerQueueProcessors();
+  growthRecomputeService.registerQueueProcessors();
+  growthImportService.registerQueueProcessors();
+  growthChartRenderer.registerQueueProcessors();
+}
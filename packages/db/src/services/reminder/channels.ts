@@ -0,0 +1,128 @@
+// src/services/reminder/channels.ts
+import { appendFile, mkdir } from 'node:fs/promises';
+import path from 'node:path';
+
+import { env } from '@naroto/env/server';
+import { logger } from '@naroto/logger';
+import { addJob } from '@naroto/redis/queue';
+
+import type { ReminderMethod } from '../../../generated/client';
+
+export interface ReminderMessage {
+  body: string;
+  /** Free-form context for the channel (appointment id, template data, ...) */
+  data?: Record<string, unknown>;
+  /** Email address or phone number */
+  recipient: string;
+  /** Used as the email subject; SMS channels ignore it */
+  subject: string;
+}
+
+export interface ReminderDelivery {
+  /** Provider or job id, when the channel has one */
+  reference?: string;
+}
+
+/**
+ * A way of delivering reminders. `send` resolves once the message has been
+ * handed off and throws when it could not be; the caller records the attempt
+ * and retries.
+ */
+export interface ReminderChannel {
+  readonly name: string;
+  send(message: ReminderMessage): Promise<ReminderDelivery>;
+}
+
+/**
+ * Development channel: logs each reminder and, when an outbox directory is
+ * configured, appends it to `<dir>/<method>.jsonl`
+ */
+export class LocalReminderChannel implements ReminderChannel {
+  readonly name: string;
+
+  constructor(
+    private readonly method: ReminderMethod,
+    private readonly outboxDir = env.REMINDER_OUTBOX_DIR
+  ) {
+    this.name = `local-${method.toLowerCase()}`;
+  }
+
+  async send(message: ReminderMessage): Promise<ReminderDelivery> {
+    logger.info('Reminder delivered locally', {
+      method: this.method,
+      recipient: message.recipient,
+      subject: message.subject,
+      body: message.body
+    });
+
+    if (this.outboxDir) {
+      await mkdir(this.outboxDir, { recursive: true });
+      const line = JSON.stringify({ ...message, method: this.method, sentAt: new Date().toISOString() });
+      await appendFile(path.join(this.outboxDir, `${this.method.toLowerCase()}.jsonl`), `${line}\n`);
+    }
+
+    return {};
+  }
+}
+
+/**
+ * Hands email reminders to the `send-email` job
+ */
+export class QueueEmailChannel implements ReminderChannel {
+  readonly name = 'queue-email';
+
+  async send(message: ReminderMessage): Promise<ReminderDelivery> {
+    const job = await addJob('send-email', {
+      to: message.recipient,
+      subject: message.subject,
+      template: 'reminder',
+      data: { body: message.body, ...message.data }
+    });
+    return { reference: job.id };
+  }
+}
+
+/**
+ * Hands SMS reminders to the `send-sms` job
+ */
+export class QueueSmsChannel implements ReminderChannel {
+  readonly name = 'queue-sms';
+
+  async send(message: ReminderMessage): Promise<ReminderDelivery> {
+    const job = await addJob('send-sms', {
+      to: message.recipient,
+      message: message.body,
+      priority: 'high'
+    });
+    return { reference: job.id };
+  }
+}
+
+/**
+ * Channel per reminder method. Defaults follow REMINDER_CHANNEL (local outside
+ * production); `register` swaps in another provider.
+ */
+export class ReminderChannelRegistry {
+  private readonly channels = new Map<ReminderMethod, ReminderChannel>();
+
+  register(method: ReminderMethod, channel: ReminderChannel): void {
+    this.channels.set(method, channel);
+  }
+
+  get(method: ReminderMethod): ReminderChannel {
+    let channel = this.channels.get(method);
+    if (!channel) {
+      channel = this.createDefault(method);
+      this.channels.set(method, channel);
+    }
+    return channel;
+  }
+
+  private createDefault(method: ReminderMethod): ReminderChannel {
+    const mode = env.REMINDER_CHANNEL ?? (env.NODE_ENV === 'production' ? 'queue' : 'local');
+    if (mode === 'local') return new LocalReminderChannel(method);
+    return method === 'EMAIL' ? new QueueEmailChannel() : new QueueSmsChannel();
+  }
+}
+
+export const reminderChannels = new ReminderChannelRegistry();
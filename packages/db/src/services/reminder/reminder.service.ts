@@ -0,0 +1,351 @@
+// src/services/reminder/reminder.service.ts
+import { logger } from '@naroto/logger';
+import type { AppointmentReminderJobData, ImmunizationReminderJobData, Job } from '@naroto/redis/queue';
+import { addJob, queueManager, removeJob } from '@naroto/redis/queue';
+import { subMinutes } from 'date-fns';
+
+import type { ReminderMethod } from '../../../generated/client';
+import { prisma } from '../../client';
+import * as clinicRepo from '../../repositories/clinic.repo';
+import * as reminderRepo from '../../repositories/reminder.repo';
+import { zonedCalendar } from '../../utils/date/timezone';
+import { vaccinationService } from '../vaccination.service';
+import { type ReminderMessage, reminderChannels } from './channels';
+
+export type ReminderLeadTime = AppointmentReminderJobData['reminderType'];
+
+const LEAD_TIME_MINUTES: Record<ReminderLeadTime, number> = {
+  '24h': 24 * 60,
+  '2h': 2 * 60,
+  '30m': 30
+};
+
+/**
+ * Reminders sent before every appointment
+ */
+export const APPOINTMENT_REMINDER_LEAD_TIMES: ReminderLeadTime[] = ['24h', '2h'];
+
+// Delivery attempts per reminder job before it is marked FAILED
+const REMINDER_ATTEMPTS = 3;
+
+/**
+ * Appointment statuses a reminder still goes out for
+ */
+const REMINDABLE_STATUSES = ['PENDING', 'SCHEDULED'];
+
+type ReminderAppointment = NonNullable<Awaited<ReturnType<typeof reminderRepo.findAppointmentForReminder>>>;
+type ReminderRow = Awaited<ReturnType<typeof reminderRepo.createReminder>>;
+
+export interface ReminderRunResult {
+  failed: number;
+  sent: number;
+  skipped?: string;
+}
+
+export class ReminderService {
+  constructor(private readonly db: typeof prisma = prisma) {}
+
+  // ==================== SCHEDULING ====================
+
+  /**
+   * Replace an appointment's pending reminders with fresh ones for its current
+   * time: one Reminder row per lead time and channel, and one delayed job per
+   * lead time. Call after creating or rescheduling. Never throws; a booking
+   * must not fail because its reminders could not be queued.
+   */
+  async syncAppointmentReminders(appointmentId: string): Promise<ReminderRow[]> {
+    try {
+      await this.cancelAppointmentReminders(appointmentId);
+
+      const appointment = await reminderRepo.findAppointmentForReminder(this.db, appointmentId);
+      if (!(appointment && this.isRemindable(appointment))) return [];
+
+      const recipients = this.recipientsFor(appointment.patient);
+      if (!recipients.length) {
+        logger.info('No contact details for appointment reminders', { appointmentId });
+        return [];
+      }
+
+      const now = new Date();
+      const startTime = appointment.appointmentDate;
+      const due = APPOINTMENT_REMINDER_LEAD_TIMES.map(leadTime => ({
+        leadTime,
+        scheduledFor: subMinutes(startTime, LEAD_TIME_MINUTES[leadTime]),
+        // The start time is part of the id, so a rescheduled reminder never collides
+        // with a completed job from the old time still kept by the queue
+        jobId: `appointment-reminder-${appointmentId}-${leadTime}-${startTime.getTime()}`
+      })).filter(d => d.scheduledFor > now);
+      if (!due.length) return [];
+
+      const rows = await reminderRepo.createReminders(
+        this.db,
+        due.flatMap(d =>
+          recipients.map(r => ({
+            appointmentId,
+            method: r.method,
+            recipient: r.recipient,
+            leadTime: d.leadTime,
+            scheduledFor: d.scheduledFor,
+            jobId: d.jobId,
+            status: 'PENDING' as const
+          }))
+        )
+      );
+
+      for (const d of due) {
+        try {
+          await addJob(
+            'process-appointment-reminder',
+            {
+              appointmentId,
+              clinicId: appointment.clinicId,
+              doctorId: appointment.doctorId,
+              patientId: appointment.patientId,
+              reminderType: d.leadTime,
+              startTime
+            },
+            { delay: d.scheduledFor.getTime() - now.getTime(), jobId: d.jobId, attempts: REMINDER_ATTEMPTS }
+          );
+        } catch (error) {
+          logger.warn('Failed to queue appointment reminder', { error, appointmentId, leadTime: d.leadTime });
+          await reminderRepo.updateReminders(
+            this.db,
+            rows.filter(r => r.jobId === d.jobId).map(r => r.id),
+            { status: 'FAILED', error: `Could not queue reminder: ${this.errorMessage(error)}` }
+          );
+        }
+      }
+
+      logger.info('Appointment reminders scheduled', { appointmentId, count: rows.length });
+      return rows;
+    } catch (error) {
+      logger.error('Failed to schedule appointment reminders', { error, appointmentId });
+      return [];
+    }
+  }
+
+  /**
+   * Cancel reminders that have not gone out and drop their queued jobs. Call when
+   * an appointment is cancelled; rescheduling goes through `syncAppointmentReminders`.
+   */
+  async cancelAppointmentReminders(appointmentId: string): Promise<number> {
+    try {
+      const open = await reminderRepo.findOpenReminders(this.db, { appointmentId });
+      if (!open.length) return 0;
+
+      const cancelled = await reminderRepo.cancelOpenReminders(this.db, appointmentId);
+      const jobIds = [...new Set(open.map(r => r.jobId).filter((id): id is string => !!id))];
+      for (const jobId of jobIds) {
+        await removeJob('process-appointment-reminder', jobId).catch(error =>
+          logger.warn('Failed to remove reminder job', { error, jobId })
+        );
+      }
+
+      logger.info('Appointment reminders cancelled', { appointmentId, count: cancelled });
+      return cancelled;
+    } catch (error) {
+      logger.error('Failed to cancel appointment reminders', { error, appointmentId });
+      return 0;
+    }
+  }
+
+  /**
+   * Every reminder for an appointment, sent or not
+   */
+  async getAppointmentReminders(appointmentId: string) {
+    return reminderRepo.findRemindersForAppointment(this.db, appointmentId);
+  }
+
+  /**
+   * Queue reminders for immunizations coming due (and, optionally, overdue) in
+   * a clinic, to the contact on each patient record
+   */
+  async queueImmunizationReminders(
+    clinicId: string,
+    options?: { daysAhead?: number; includeOverdue?: boolean; limit?: number }
+  ): Promise<{ queued: number; skipped: number }> {
+    const due = await vaccinationService.generateReminders(clinicId, options);
+    const clinic = await clinicRepo.findClinicTimezone(this.db, clinicId);
+    const today = zonedCalendar.today(zonedCalendar.resolve(clinic?.timezone));
+
+    let queued = 0;
+    for (const reminder of due) {
+      if (!reminder.parentContact) continue;
+      try {
+        await addJob(
+          'process-immunization-reminder',
+          {
+            clinicId,
+            patientId: reminder.patientId,
+            immunizationId: reminder.immunizationId,
+            childName: reminder.patientName,
+            dueDate: reminder.dueDate,
+            parentContact: reminder.parentContact
+          },
+          // At most one reminder per immunization per day
+          { jobId: `immunization-reminder-${reminder.immunizationId}-${today}`, attempts: REMINDER_ATTEMPTS }
+        );
+        queued++;
+      } catch (error) {
+        logger.warn('Failed to queue immunization reminder', { error, immunizationId: reminder.immunizationId });
+      }
+    }
+
+    return { queued, skipped: due.length - queued };
+  }
+
+  // ==================== DELIVERY (QUEUE PROCESSORS) ====================
+
+  /**
+   * Deliver the reminders of one lead time. Rows already sent are left alone, so
+   * a retry only resends the channels that failed; the job is failed (and
+   * retried by the queue) while any channel is still failing.
+   */
+  async processAppointmentReminder(data: AppointmentReminderJobData, job: Job): Promise<ReminderRunResult> {
+    const rows = await reminderRepo.findOpenReminders(this.db, {
+      appointmentId: data.appointmentId,
+      jobId: job.id
+    });
+    if (!rows.length) return { sent: 0, failed: 0, skipped: 'no open reminders' };
+
+    const appointment = await reminderRepo.findAppointmentForReminder(this.db, data.appointmentId);
+    const stale =
+      !(appointment && this.isRemindable(appointment)) ||
+      appointment.appointmentDate.getTime() !== new Date(data.startTime).getTime();
+    if (stale) {
+      await reminderRepo.updateReminders(
+        this.db,
+        rows.map(r => r.id),
+        { status: 'CANCELLED' }
+      );
+      return { sent: 0, failed: 0, skipped: 'appointment cancelled or moved' };
+    }
+
+    return this.deliver(rows, job, row => this.appointmentMessage(appointment, row));
+  }
+
+  /**
+   * Deliver one immunization reminder, recording it against the immunization.
+   * The contact decides the channel: an email address or a phone number.
+   */
+  async processImmunizationReminder(data: ImmunizationReminderJobData, job: Job): Promise<ReminderRunResult> {
+    const jobId = job.id ?? `immunization-reminder-${data.immunizationId}`;
+    const existing = await reminderRepo.findReminderByJob(this.db, { immunizationId: data.immunizationId, jobId });
+    if (existing && existing.status !== 'PENDING' && existing.status !== 'RETRYING') {
+      return { sent: 0, failed: 0, skipped: `already ${existing.status.toLowerCase()}` };
+    }
+
+    const row =
+      existing ??
+      (await reminderRepo.createReminder(this.db, {
+        immunizationId: data.immunizationId,
+        method: data.parentContact.includes('@') ? 'EMAIL' : 'SMS',
+        recipient: data.parentContact,
+        scheduledFor: new Date(),
+        jobId,
+        status: 'PENDING'
+      }));
+
+    // Job data arrives as JSON, so the due date is an ISO string by now
+    const dueDate = new Date(data.dueDate).toISOString().slice(0, 10);
+    return this.deliver([row], job, () => ({
+      recipient: data.parentContact,
+      subject: `Vaccination reminder for ${data.childName}`,
+      body: `${data.childName} has a vaccination due on ${dueDate}. Please book a visit with the clinic.`,
+      data: { immunizationId: data.immunizationId, patientId: data.patientId }
+    }));
+  }
+
+  /**
+   * Hook the processors into the reminder queues
+   */
+  registerQueueProcessors(): void {
+    queueManager.setProcessor('process-appointment-reminder', (data, job) =>
+      this.processAppointmentReminder(data, job)
+    );
+    queueManager.setProcessor('process-immunization-reminder', (data, job) =>
+      this.processImmunizationReminder(data, job)
+    );
+  }
+
+  // ==================== HELPERS ====================
+
+  /**
+   * Send each row through its channel and record the attempt. The last allowed
+   * attempt turns a failure into FAILED; earlier ones leave it RETRYING.
+   */
+  private async deliver(
+    rows: ReminderRow[],
+    job: Job,
+    compose: (row: ReminderRow) => ReminderMessage
+  ): Promise<ReminderRunResult> {
+    const isLastAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+    const errors: string[] = [];
+    let sent = 0;
+
+    for (const row of rows) {
+      const now = new Date();
+      try {
+        await reminderChannels.get(row.method).send(compose(row));
+        await reminderRepo.updateReminder(this.db, row.id, {
+          status: 'SENT',
+          sentAt: now,
+          attempts: { increment: 1 },
+          lastAttemptAt: now,
+          error: null
+        });
+        sent++;
+      } catch (error) {
+        const message = this.errorMessage(error);
+        errors.push(`${row.method}: ${message}`);
+        await reminderRepo.updateReminder(this.db, row.id, {
+          status: isLastAttempt ? 'FAILED' : 'RETRYING',
+          attempts: { increment: 1 },
+          lastAttemptAt: now,
+          error: message
+        });
+      }
+    }
+
+    if (errors.length) {
+      throw new Error(`Reminder delivery failed (${errors.join('; ')})`);
+    }
+    return { sent, failed: 0 };
+  }
+
+  private appointmentMessage(appointment: ReminderAppointment, row: ReminderRow): ReminderMessage {
+    const timeZone = zonedCalendar.resolve(appointment.clinic.timezone);
+    const date = zonedCalendar.dateKey(appointment.appointmentDate, timeZone);
+    const time = appointment.time?.slice(0, 5) || zonedCalendar.timeOf(appointment.appointmentDate, timeZone);
+
+    return {
+      recipient: row.recipient ?? '',
+      subject: `Appointment reminder: ${date} at ${time}`,
+      body:
+        `Reminder: ${appointment.patient.firstName} has an appointment with ${appointment.doctor.name} ` +
+        `at ${appointment.clinic.name} on ${date} at ${time}.`,
+      data: { appointmentId: appointment.id, leadTime: row.leadTime }
+    };
+  }
+
+  private recipientsFor(patient: ReminderAppointment['patient']): { method: ReminderMethod; recipient: string }[] {
+    const recipients: { method: ReminderMethod; recipient: string }[] = [];
+    if (patient.email) recipients.push({ method: 'EMAIL', recipient: patient.email });
+    if (patient.phone) recipients.push({ method: 'SMS', recipient: patient.phone });
+    return recipients;
+  }
+
+  private isRemindable(appointment: ReminderAppointment): boolean {
+    return (
+      !appointment.isDeleted &&
+      REMINDABLE_STATUSES.includes(appointment.status ?? 'PENDING') &&
+      appointment.appointmentDate > new Date()
+    );
+  }
+
+  private errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+export const reminderService = new ReminderService();
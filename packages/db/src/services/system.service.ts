@@ -12,12 +12,17 @@
 import { logger } from '@naroto/logger';
 import { CACHE_KEYS, CACHE_TTL } from '@naroto/redis/cache-keys';
 
+import type { DoseGuideline, Drug } from '../../generated/client';
 import { ValidationError } from '..';
 import { prisma } from '../client';
 import { AppError, NotFoundError } from '../error';
 import * as systemRepo from '../repositories/system.repo';
 import type { ChartType, Gender, MeasurementType } from '../types';
+import { type DosePreparation, doseGuidelineMatcher } from '../utils/validation/dose-guideline';
+import { type FormulationMeasure, formulationCalculator } from '../utils/validation/formulation';
+import { allergyService } from './allergy/allergy.service';
 import { cacheService } from './cache.service';
+import { drugInteractionService } from './drug-interaction.service';
 
 // ==================== INTERFACES & TYPES ====================
 
@@ -49,13 +54,18 @@ export interface DrugDosageCalculation {
     ageBased: boolean;
     bsaBased: boolean;
   };
+  /** Indication of the guideline the dose was taken from */
+  clinicalIndication?: string;
   contraindications?: string[];
   dosage: number;
   drugId: string;
   drugName: string;
   duration?: string;
+  /** The dose measured out of each product given by the guideline's route */
+  formulations?: FormulationMeasure[];
   frequency: string;
   maxDailyDose?: number;
+  preparation?: DosePreparation | null;
   route?: string;
   unit: string;
   warnings?: string[];
@@ -75,7 +85,8 @@ export interface VaccineDue {
 }
 
 export interface GrowthStandard {
-  ageDays: number;
+  /** Null on weight-for-length/height rows, which are indexed by `lengthCm` */
+  ageDays: number | null;
   ageInMonths?: number | null;
   /**
    * some repository queries return this property name, others used
@@ -85,6 +96,7 @@ export interface GrowthStandard {
   chartType: ChartType | null;
   gender: Gender;
   id: string;
+  lengthCm?: number | null;
   lms?: {
     lambda: number;
     mu: number;
@@ -105,43 +117,6 @@ export interface GrowthStandard {
   standardDeviation?: number | null;
 }
 
-export interface Drug {
-  breastfeedingWarning?: boolean | null;
-  category?: string | null;
-  form?: string | null;
-  genericName?: string | null;
-  guidelines: DoseGuideline[];
-  id: string;
-  maxDailyDose?: number | null;
-  minAgeDays?: number | null;
-  minWeightKg?: number | null;
-  name: string;
-  pregnancyCategory?: string | null;
-  strengths?: string | null;
-}
-
-export interface DoseGuideline {
-  ageBased?: boolean | null;
-  bsaBased?: boolean | null;
-  clinicalIndication?: string | null;
-  dosePerKg?: number | null;
-  dosePerM2?: number | null;
-  drugId: string;
-  duration?: string | null;
-  fixedDose?: number | null;
-  frequency?: string | null;
-  id: string;
-  maxAgeDays?: number | null;
-  maxDailyDose?: number | null;
-  maxWeightKg?: number | null;
-  minAgeDays?: number | null;
-  minWeightKg?: number | null;
-  notes?: string | null;
-  route?: string | null;
-  unit?: string | null;
-  weightBased?: boolean | null;
-}
-
 export interface VaccineSchedule {
   ageInDaysMax?: number | null;
   ageInDaysMin?: number | null;
@@ -372,14 +347,22 @@ export class SystemService {
   // ==================== DRUG DOSAGE SERVICES ====================
 
   /**
-   * Calculate drug dosage based on patient parameters
+   * Calculate drug dosage based on patient parameters. The guideline is
+   * chosen by route, indication, gestation and postnatal age; the result
+   * includes the 24-hour maximum and how to prepare the dose. Given a patient,
+   * it also lists the allergies that speak against the drug.
    */
   async calculateDrugDosage(
     drugId: string,
     patientParams: {
+      /** Checks the drug against the patient's recorded allergies */
+      patientId?: string;
       weightKg?: number;
       ageDays?: number;
       ageYears?: number;
+      /** Completed weeks of gestation at birth, for neonatal guidelines */
+      gestationalAgeWeeks?: number;
+      route?: string;
       bsa?: number; // Body Surface Area
       renalFunction?: number; // eGFR
       hepaticFunction?: 'normal' | 'mild' | 'moderate' | 'severe';
@@ -388,18 +371,8 @@ export class SystemService {
     },
     clinicalIndication?: string
   ): Promise<DrugDosageCalculation> {
-    const cacheKey = CACHE_KEYS.DRUG_DOSAGE(drugId);
-
+    // Not cached here: the result depends on the patient, not only the drug
     try {
-      // Check cache
-      if (this.CACHE_ENABLED) {
-        const cached = await cacheService.get(cacheKey);
-        if (cached) {
-          logger.debug('Drug dosage cache hit', { drugId });
-          return cached as DrugDosageCalculation;
-        }
-      }
-
       // Get drug information
       const drug = await systemRepo.getDrugById(this.db, drugId);
       if (!drug) {
@@ -417,38 +390,45 @@ export class SystemService {
       }
 
       // Calculate dosage
-      const calculation = await this.performDosageCalculation(drug, guideline, patientParams);
+      const calculation = this.performDosageCalculation(guideline, patientParams);
 
       // Generate warnings
       const warnings = this.generateDosageWarnings(calculation, patientParams, drug);
 
-      const result: DrugDosageCalculation = {
+      const amountUnit = doseGuidelineMatcher.amountUnit(guideline.doseUnit) ?? 'mg';
+      const isRate = doseGuidelineMatcher.basis(guideline.doseUnit) === 'rate';
+
+      return {
         drugId: drug.id,
         drugName: drug.name,
         dosage: calculation.perDose,
-        unit: guideline.unit || 'mg',
-        route: guideline.route || undefined,
-        frequency: guideline.frequency || 'As directed',
-        duration: guideline.duration || undefined,
-        maxDailyDose: guideline.maxDailyDose || undefined,
+        unit: isRate ? `${amountUnit}/${guideline.doseUnit?.split('/').at(-1)}` : amountUnit,
+        route: guideline.route,
+        frequency: guideline.frequencyDays || 'As directed',
+        maxDailyDose: calculation.maxDaily ?? undefined,
+        clinicalIndication: guideline.clinicalIndication,
+        preparation: doseGuidelineMatcher.prepare(calculation.perDose, amountUnit, guideline),
+        formulations: isRate
+          ? []
+          : drug.formulations
+              .filter(formulation => formulation.route === guideline.route)
+              .map(formulation => formulationCalculator.measure(calculation.perDose, amountUnit, formulation)),
         warnings,
-        contraindications: this.checkContraindications(drug, patientParams),
+        contraindications: await this.checkContraindications(drug, patientParams.patientId),
         calculations: {
           perKg: calculation.perKg,
           totalDaily: calculation.totalDaily,
           perDose: calculation.perDose,
-          weightBased: !!guideline.weightBased,
-          ageBased: !!guideline.ageBased,
-          bsaBased: !!guideline.bsaBased
+          weightBased: !!guideline.doseUnit?.includes('/kg'),
+          ageBased: [
+            guideline.gestationalAgeWeeksMin,
+            guideline.gestationalAgeWeeksMax,
+            guideline.postNatalAgeDaysMin,
+            guideline.postNatalAgeDaysMax
+          ].some(bound => bound !== null),
+          bsaBased: false
         }
       };
-
-      // Cache result
-      if (this.CACHE_ENABLED) {
-        await cacheService.set(cacheKey, result, CACHE_TTL.DRUG_DOSAGE);
-      }
-
-      return result;
     } catch (error) {
       if (error instanceof AppError) throw error;
       logger.error('Failed to calculate drug dosage', { error, drugId });
@@ -495,52 +475,26 @@ export class SystemService {
   }
 
   /**
-   * Check drug interactions
+   * Check drug interactions against the local interaction table
    */
-  async checkDrugInteractions(drugIds: string[]) {
+  async checkDrugInteractions(drugIds: string[], patientId?: string) {
     try {
-      if (drugIds.length < 2) {
+      if (drugIds.length < 2 && !patientId) {
         return { interactions: [], severity: 'none' };
       }
 
-      const drugs = await Promise.all(drugIds.map(id => systemRepo.getDrugById(this.db, id)));
-
-      const interactions: Array<{
-        drug1: string;
-        drug2: string;
-        severity: 'mild' | 'moderate' | 'severe' | 'contraindicated';
-        description: string;
-        management?: string;
-      }> = [];
-
-      // Check each drug pair
-      for (let i = 0; i < drugs.length; i++) {
-        for (let j = i + 1; j < drugs.length; j++) {
-          const drug1 = drugs[i];
-          const drug2 = drugs[j];
-
-          if (drug1 && drug2) {
-            // In real implementation, check against interaction database
-            // This is a placeholder
-            const interaction = await this.checkPairInteraction(drug1, drug2);
-            if (interaction) {
-              interactions.push(interaction);
-            }
-          }
-        }
-      }
+      const matches = await drugInteractionService.check(drugIds, { patientId });
+      const interactions = matches.map(match => ({
+        drug1: match.drugs[0].name,
+        drug2: match.drugs[1].name,
+        severity: match.severity.toLowerCase() as 'mild' | 'moderate' | 'severe' | 'contraindicated',
+        description: match.mechanism,
+        management: match.management,
+        activePrescriptionId: match.activePrescriptionId
+      }));
 
-      const severity = interactions.some(i => i.severity === 'contraindicated')
-        ? 'contraindicated'
-        : interactions.some(i => i.severity === 'severe')
-          ? 'severe'
-          : interactions.some(i => i.severity === 'moderate')
-            ? 'moderate'
-            : interactions.length > 0
-              ? 'mild'
-              : 'none';
-
-      return { interactions, severity };
+      // Matches come most severe first
+      return { interactions, severity: interactions[0]?.severity ?? 'none' };
     } catch (error) {
       logger.error('Failed to check drug interactions', { error, drugIds });
       throw new AppError('Failed to check drug interactions', {
@@ -724,9 +678,10 @@ export class SystemService {
       ]);
 
       // Cache growth standards
-      const growthPromises = growthStandards.map(standard => {
+      const growthPromises = growthStandards.flatMap(standard => {
+        if (standard.ageDays === null) return [];
         const key = CACHE_KEYS.GROWTH_STANDARD(standard.gender, standard.chartType as string, standard.ageDays);
-        return cacheService.set(key, standard, CACHE_TTL.GROWTH_STANDARD);
+        return [cacheService.set(key, standard, CACHE_TTL.GROWTH_STANDARD)];
       });
 
       // Cache drugs
@@ -735,9 +690,6 @@ export class SystemService {
         return cacheService.set(key, drug, CACHE_TTL.DRUG);
       });
 
-      // Cache vaccine schedule
-      await cacheService.set(CACHE_KEYS.VACCINE_SCHEDULE('all', 'all'), vaccineSchedule, CACHE_TTL.VACCINE_SCHEDULE);
-
       await Promise.all([...growthPromises, ...drugPromises]);
 
       logger.info('System caches warmed successfully', {
@@ -819,7 +771,7 @@ export class SystemService {
         totalCleared++;
       }
 
-      await cacheService.invalidate(CACHE_KEYS.VACCINE_SCHEDULE('*', '*'));
+      await cacheService.invalidatePattern(CACHE_KEYS.VACCINE_SCHEDULE('*', '*', '*'));
 
       logger.info('System caches cleared', { count: totalCleared + 1 });
       return { success: true, clearedCount: totalCleared + 1 };
@@ -839,13 +791,23 @@ export class SystemService {
     try {
       const drugs = await systemRepo.searchDrugs(this.db, query, limit);
 
-      return drugs.map((drug: Drug) => ({
+      const term = query.trim().toLowerCase();
+
+      return drugs.map(drug => ({
         id: drug.id,
         name: drug.name,
         genericName: drug.genericName,
-        category: drug.category,
-        form: drug.form,
-        strengths: drug.strengths,
+        brandNames: drug.brandNames,
+        drugClasses: drug.drugClasses,
+        isControlled: drug.isControlled,
+        controlledSchedule: drug.controlledSchedule,
+        matchedOn: this.searchMatch(drug, term),
+        formulations: drug.formulations.map(formulation => ({
+          id: formulation.id,
+          form: formulation.form,
+          route: formulation.route,
+          label: formulationCalculator.describe(formulation)
+        })),
         hasGuidelines: drug.guidelines.length > 0,
         commonIndications: this.extractCommonIndications(drug.guidelines)
       }));
@@ -993,7 +955,12 @@ export class SystemService {
       };
     }
 
-    if (lower.ageDays === targetAge || lower.ageDays === upper.ageDays) {
+    if (
+      lower.ageDays === null ||
+      upper.ageDays === null ||
+      lower.ageDays === targetAge ||
+      lower.ageDays === upper.ageDays
+    ) {
       return {
         mean: lower.lms?.mu || lower.mean || 0,
         sd: lower.lms?.sigma || lower.standardDeviation || 1,
@@ -1193,94 +1160,85 @@ export class SystemService {
   private findMatchingGuideline(
     guidelines: DoseGuideline[],
     params: {
-      weightKg?: number;
       ageDays?: number;
-      bsa?: number;
+      ageYears?: number;
+      gestationalAgeWeeks?: number;
+      route?: string;
     },
     indication?: string
   ): DoseGuideline | undefined {
-    return guidelines.find(g => {
-      // Match indication if provided
-      if (
-        indication &&
-        g.clinicalIndication &&
-        !g.clinicalIndication.toLowerCase().includes(indication.toLowerCase())
-      ) {
-        return false;
-      }
-
-      // Match age range
-      if (params.ageDays !== undefined) {
-        if (g.minAgeDays && params.ageDays < g.minAgeDays) return false;
-        if (g.maxAgeDays && params.ageDays > g.maxAgeDays) return false;
-      }
-
-      // Match weight range
-      if (params.weightKg !== undefined) {
-        if (g.minWeightKg && params.weightKg < g.minWeightKg) return false;
-        if (g.maxWeightKg && params.weightKg > g.maxWeightKg) return false;
-      }
-
-      // Match calculation type availability
-      if (g.bsaBased && params.bsa === undefined) return false;
-      if (g.weightBased && params.weightKg === undefined) return false;
-
-      return true;
-    });
+    const postnatalAgeDays =
+      params.ageDays ?? (params.ageYears === undefined ? null : Math.floor(params.ageYears * 365.25));
+    const postmenstrualAgeWeeks =
+      params.gestationalAgeWeeks === undefined || postnatalAgeDays === null
+        ? null
+        : Math.floor(params.gestationalAgeWeeks + postnatalAgeDays / 7);
+
+    const [guideline] = doseGuidelineMatcher.match(
+      guidelines,
+      { route: params.route, indication },
+      { postnatalAgeDays, postmenstrualAgeWeeks }
+    );
+    return guideline;
   }
 
-  private async performDosageCalculation(
-    _drug: Drug,
-    guideline: DoseGuideline,
-    params: { weightKg?: number; bsa?: number }
-  ) {
-    let perDose = 0;
-    let totalDaily = 0;
-    let perKg = 0;
-
-    if (guideline.fixedDose) {
-      perDose = guideline.fixedDose;
-    } else if (guideline.weightBased && guideline.dosePerKg && params.weightKg) {
-      perKg = guideline.dosePerKg;
-      perDose = guideline.dosePerKg * params.weightKg;
-    } else if (guideline.bsaBased && guideline.dosePerM2 && params.bsa) {
-      perDose = guideline.dosePerM2 * params.bsa;
+  /**
+   * Doses start at the bottom of the guideline's per-kg range. A per-day
+   * range is split across the guideline's doses per day; a rate is given
+   * as is, per minute or hour.
+   */
+  private performDosageCalculation(guideline: DoseGuideline, params: { weightKg?: number }) {
+    const perKg = guideline.minDosePerKg ?? guideline.maxDosePerKg ?? 0;
+    const weightKg = params.weightKg;
+    if (guideline.doseUnit?.includes('/kg') && !weightKg) {
+      throw new ValidationError('Valid weight is required for weight-based dosage');
     }
 
-    // Apply frequency logic (simplified)
-    const freqMap: Record<string, number> = { QD: 1, BID: 2, TID: 3, QID: 4 };
-    const multiplier = guideline.frequency ? freqMap[guideline.frequency] || 1 : 1;
-    totalDaily = perDose * multiplier;
+    const weight = weightKg ?? 1;
+    const dailyPerKg = doseGuidelineMatcher.dailyDosePerKg(perKg, guideline.doseUnit, guideline.frequencyDays);
+    const dosesPerDay = doseGuidelineMatcher.dosesPer24h(guideline.frequencyDays);
 
-    return { perDose, totalDaily, perKg };
+    const perDose =
+      doseGuidelineMatcher.basis(guideline.doseUnit) === 'day' ? (perKg * weight) / (dosesPerDay ?? 1) : perKg * weight;
+    const totalDaily = (dailyPerKg ?? perKg) * weight;
+    const maxDaily = guideline.maxDosePer24h === null ? null : guideline.maxDosePer24h * weight;
+
+    return { perDose, totalDaily, perKg, maxDaily };
   }
 
   private generateDosageWarnings(
-    _calc: { perDose: number; totalDaily: number; perKg: number },
+    calc: { perDose: number; totalDaily: number; perKg: number; maxDaily: number | null },
     params: { pregnancy?: boolean; breastfeeding?: boolean },
-    drug: Drug
+    drug: Pick<Drug, 'pregnancyCategory' | 'warnings'>
   ): string[] {
     const warnings: string[] = [];
+    if (calc.maxDaily !== null && calc.totalDaily > calc.maxDaily) {
+      warnings.push(`Daily total exceeds the 24-hour maximum of ${calc.maxDaily}`);
+    }
     if (drug.pregnancyCategory === 'X' && params.pregnancy) warnings.push('Contraindicated in pregnancy');
-    if (drug.breastfeedingWarning && params.breastfeeding) warnings.push('Use with caution while breastfeeding');
+    if (params.breastfeeding && drug.warnings.some(warning => /breast ?feeding|lactation/i.test(warning))) {
+      warnings.push('Use with caution while breastfeeding');
+    }
     return warnings;
   }
 
-  private checkContraindications(_drug: Drug, _params: Record<string, unknown>): string[] {
-    return [];
+  private async checkContraindications(drug: Pick<Drug, 'id'>, patientId?: string): Promise<string[]> {
+    if (!patientId) return [];
+    const alerts = await allergyService.check(patientId, [drug.id]);
+    return alerts.map(alert => alert.message);
   }
 
-  private checkPairInteraction(
-    _d1: Drug,
-    _d2: Drug
-  ): {
-    drug1: string;
-    drug2: string;
-    severity: 'mild' | 'moderate' | 'severe' | 'contraindicated';
-    description: string;
-    management?: string;
-  } | null {
-    return null;
+  /**
+   * Which of a drug's names a search term was found in
+   */
+  private searchMatch(
+    drug: Pick<Drug, 'name' | 'genericName' | 'brandNames'>,
+    term: string
+  ): { field: 'name' | 'genericName' | 'brandName'; value: string } {
+    if (drug.name.toLowerCase().includes(term)) return { field: 'name', value: drug.name };
+    if (drug.genericName?.toLowerCase().includes(term)) return { field: 'genericName', value: drug.genericName };
+    const brand = drug.brandNames.find(name => name.toLowerCase().includes(term));
+    return brand ? { field: 'brandName', value: brand } : { field: 'name', value: drug.name };
   }
 
   private formatAgeRange(min?: number | null, max?: number | null): string {
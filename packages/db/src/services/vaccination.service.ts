@@ -13,6 +13,7 @@ import { randomUUID } from 'node:crypto';
 
 import { logger } from '@naroto/logger';
 import { CACHE_KEYS, CACHE_TTL } from '@naroto/redis/cache-keys';
+import { differenceInCalendarDays } from 'date-fns';
 import z from 'zod';
 
 import type { Prisma } from '../../generated/browser';
@@ -22,8 +23,11 @@ import { AppError, ConflictError, NotFoundError } from '../error';
 import * as patientRepo from '../repositories/patient.repo';
 import * as staffRepo from '../repositories/staff.repo';
 import * as vaccinationRepo from '../repositories/vac.repository';
-import type { ImmunizationStatus } from '../types';
+import type { DoseValidity, ImmunizationStatus } from '../types';
+import type { VaccineScheduleSetImportInput } from '../zodSchemas/vac.schema';
 import { cacheService } from './cache.service';
+import { immunizationService } from './immunization/due-calculator';
+import { vaccineSeriesEngine } from './immunization/series-engine';
 // ==================== INTERFACES & TYPES ====================
 
 export interface ImmunizationInput {
@@ -32,6 +36,7 @@ export interface ImmunizationInput {
   date: Date;
   dose?: string | null;
   expirationDate?: Date | null;
+  lotNumber?: string | null;
   manufacturer?: string | null;
   medicalRecordId?: string | null;
   nextDoseDate?: Date | null;
@@ -42,6 +47,12 @@ export interface ImmunizationInput {
   vaccine: string;
 }
 
+export interface DoseValidityResult {
+  doseNumber: number | null;
+  validity: DoseValidity | null;
+  validityReasons: string[];
+}
+
 export interface ImmunizationReminder {
   daysOverdue: number;
   daysUntilDue: number;
@@ -60,9 +71,14 @@ export interface DueVaccineResult {
   ageInDaysMin: number;
   daysUntilDue: number;
   doseNumber?: number | null;
+  dosesGiven: number;
+  dosesRequired: number;
   dueDate: Date;
+  earliestDate: Date;
+  isCatchUp: boolean;
   isMandatory: boolean | null;
   isOverdue: boolean;
+  latestDate: Date | null;
   notes?: string | null;
   vaccineName: string;
 }
@@ -229,8 +245,9 @@ export class VaccinationService {
 
       const total = await vaccinationRepo.countImmunizationsByPatient(this.db, validatedPatientId);
 
-      // Calculate coverage percentage
-      const completed = immunizations.filter(i => i.status === 'COMPLETED').length;
+      // Invalid doses must be repeated, so they do not count towards coverage
+      const invalidDoses = immunizations.filter(i => i.validity === 'INVALID');
+      const completed = immunizations.filter(i => i.status === 'COMPLETED' && i.validity !== 'INVALID').length;
       const coverage = total > 0 ? Math.round((completed / total) * 100) : 0;
 
       // Get upcoming due dates
@@ -242,7 +259,9 @@ export class VaccinationService {
         immunizations,
         total,
         completed,
-        pending: total - completed,
+        pending: total - completed - invalidDoses.length,
+        invalid: invalidDoses.length,
+        invalidDoses,
         coverage,
         nextDue: upcoming[0] || null,
         upcomingCount: upcoming.length
@@ -488,7 +507,7 @@ export class VaccinationService {
 
       const allImmunizations = [...upcoming, ...overdue];
 
-      // Get patient contact info (in a real app, you'd fetch this from patient records)
+      // Reminders go to the contact details on the patient record
       const reminders: ImmunizationReminder[] = await Promise.all(
         allImmunizations.map(async imm => {
           const dueDate = new Date(imm.date);
@@ -509,8 +528,7 @@ export class VaccinationService {
             daysUntilDue: Math.abs(daysUntilDue),
             isOverdue,
             daysOverdue: isOverdue ? Math.abs(daysUntilDue) : 0,
-            // This would come from patient records in a real app
-            parentContact: null
+            parentContact: imm.patient.phone ?? imm.patient.email
           };
         })
       );
@@ -529,15 +547,22 @@ export class VaccinationService {
   // ==================== VACCINE SCHEDULE SERVICES ====================
 
   /**
-   * Get vaccine schedule
+   * Get the vaccine schedule from the clinic's active schedule set
    */
-  async getVaccineSchedule(options?: {
-    ageMonths?: number;
-    isMandatory?: boolean;
-    vaccineName?: string;
-    limit?: number;
-  }) {
+  async getVaccineSchedule(
+    clinicId: string,
+    options?: {
+      ageMonths?: number;
+      isMandatory?: boolean;
+      vaccineName?: string;
+      limit?: number;
+    }
+  ) {
+    const validatedClinicId = z.uuid().parse(clinicId);
+    const scheduleSetId = await immunizationService.resolveScheduleSetId(validatedClinicId);
+
     const cacheKey = CACHE_KEYS.VACCINE_SCHEDULE(
+      scheduleSetId,
       options?.ageMonths?.toString() || 'all',
       options?.vaccineName || 'all'
     );
@@ -549,7 +574,7 @@ export class VaccinationService {
         if (cached) return cached;
       }
 
-      const schedule = await vaccinationRepo.findVaccineSchedule(this.db, options);
+      const schedule = await vaccinationRepo.findVaccineSchedule(this.db, { ...options, scheduleSetId });
 
       // Cache result
       if (this.CACHE_ENABLED) {
@@ -566,6 +591,92 @@ export class VaccinationService {
     }
   }
 
+  /**
+   * List the available schedule sets
+   */
+  async getScheduleSets() {
+    return vaccinationRepo.findScheduleSets(this.db);
+  }
+
+  /**
+   * Get the schedule set a clinic currently follows
+   */
+  async getClinicScheduleSet(clinicId: string) {
+    const validatedClinicId = z.uuid().parse(clinicId);
+    const scheduleSetId = await immunizationService.resolveScheduleSetId(validatedClinicId);
+
+    return vaccinationRepo.findScheduleSetById(this.db, scheduleSetId);
+  }
+
+  /**
+   * Import a named, versioned schedule set. Published versions are immutable,
+   * so a changed programme is imported under a new version.
+   */
+  async importScheduleSet(input: VaccineScheduleSetImportInput) {
+    const existing = await vaccinationRepo.findScheduleSetByCodeVersion(this.db, input.code, input.version);
+    if (existing) {
+      throw new ConflictError(`Schedule set ${input.code} version ${input.version} already exists`);
+    }
+
+    const scheduleSet = await this.db.$transaction(async (tx: Prisma.TransactionClient) => {
+      if (input.isDefault) {
+        await vaccinationRepo.clearDefaultScheduleSet(tx as unknown as PrismaClient);
+      }
+
+      return vaccinationRepo.createScheduleSet(tx as unknown as PrismaClient, input);
+    });
+
+    logger.info('Vaccine schedule set imported', {
+      scheduleSetId: scheduleSet.id,
+      code: scheduleSet.code,
+      version: scheduleSet.version,
+      vaccines: scheduleSet._count.vaccines
+    });
+
+    return scheduleSet;
+  }
+
+  /**
+   * Switch a clinic to another schedule set and recompute due/overdue status
+   * for its patients against the new schedule
+   */
+  async activateScheduleSet(clinicId: string, scheduleSetId: number) {
+    const validatedClinicId = z.uuid().parse(clinicId);
+
+    const scheduleSet = await vaccinationRepo.findScheduleSetById(this.db, scheduleSetId);
+    if (!scheduleSet) {
+      throw new NotFoundError('Vaccine schedule set', String(scheduleSetId));
+    }
+
+    const settings = await vaccinationRepo.findClinicScheduleSetId(this.db, validatedClinicId);
+    if (!settings) {
+      throw new NotFoundError('Clinic settings', validatedClinicId);
+    }
+
+    await vaccinationRepo.updateClinicScheduleSet(this.db, validatedClinicId, scheduleSet.id);
+    const recomputed = await immunizationService.recomputeClinicDueStatus(validatedClinicId);
+
+    if (this.CACHE_ENABLED) {
+      await cacheService.invalidate(
+        CACHE_KEYS.OVERDUE_IMMUNIZATIONS(validatedClinicId),
+        CACHE_KEYS.UPCOMING_IMMUNIZATIONS(validatedClinicId),
+        CACHE_KEYS.CLINIC_VACCINATION_STATS(validatedClinicId),
+        CACHE_KEYS.CLINIC_IMMUNIZATIONS(validatedClinicId)
+      );
+      await cacheService.invalidatePattern(CACHE_KEYS.PATIENT_DUE_VACCINES('*'));
+      await cacheService.invalidateClinicCaches(validatedClinicId);
+    }
+
+    logger.info('Clinic vaccine schedule set changed', {
+      clinicId: validatedClinicId,
+      previousScheduleSetId: settings.vaccineScheduleSetId,
+      scheduleSetId: scheduleSet.id,
+      ...recomputed
+    });
+
+    return { scheduleSet, ...recomputed };
+  }
+
   /**
    * Get due vaccines for a patient
    */
@@ -593,48 +704,37 @@ export class VaccinationService {
       const today = new Date();
       const ageInDays = Math.floor((today.getTime() - patient.dateOfBirth.getTime()) / (1000 * 60 * 60 * 24));
 
-      // Get all vaccines from schedule
-      const allVaccines = await vaccinationRepo.findVaccineSchedule(this.db);
-
-      // Get already administered vaccines
-      const administered = await vaccinationRepo.findImmunizationsByPatient(this.db, validatedPatientId, {
-        includeCompleted: true
-      });
-
-      const administeredSet = new Set(
-        administered.filter(i => i.status === 'COMPLETED').map(i => `${i.vaccine}-${i.dose || 1}`)
-      );
-
-      // Determine due vaccines
-      const dueVaccines = allVaccines.filter(vaccine => {
-        // Check if patient is old enough for this vaccine
-        if (ageInDays < (vaccine.ageInDaysMin || 0)) return false;
-
-        // Check if already administered
-        const key = `${vaccine.vaccineName}-${vaccine.dosesRequired || 1}`;
-        if (administeredSet.has(key)) return false;
-
-        // Check if not too old (if max age exists)
-        if (vaccine.ageInDaysMax && ageInDays > vaccine.ageInDaysMax) return false;
-
-        return true;
-      });
-
-      // Calculate due dates
-      const withDueDates: DueVaccineResult[] = dueVaccines.map(vaccine => {
-        const dueDate = new Date(patient.dateOfBirth);
-        dueDate.setDate(dueDate.getDate() + (vaccine.ageInDaysMin || 0));
-
-        return {
-          vaccineName: vaccine.vaccineName,
-          doseNumber: vaccine.dosesRequired,
-          ageInDaysMin: vaccine.ageInDaysMin || 0,
-          ageInDaysMax: vaccine.ageInDaysMax,
-          dueDate,
-          isOverdue: dueDate < today,
-          daysUntilDue: Math.ceil((dueDate.getTime() - today.getTime()) / (1000 * 60 * 60 * 24)),
-          isMandatory: vaccine.isMandatory
-        };
+      // Forecast every series from the doses already given
+      const scheduleSetId = await immunizationService.resolveScheduleSetId(validatedClinicId);
+      const [schedule, administered] = await Promise.all([
+        vaccinationRepo.findVaccineScheduleWithDoses(this.db, scheduleSetId),
+        vaccinationRepo.findAdministeredDosesByPatient(this.db, validatedPatientId)
+      ]);
+      const forecasts = vaccineSeriesEngine.forecastPatient(schedule, patient.dateOfBirth, administered, today);
+
+      const withDueDates: DueVaccineResult[] = forecasts.flatMap(forecast => {
+        const { nextDose } = forecast;
+        if (!(vaccineSeriesEngine.isActionable(forecast) && nextDose)) return [];
+
+        return [
+          {
+            vaccineName: forecast.vaccineName,
+            doseNumber: nextDose.doseNumber,
+            dosesGiven: forecast.dosesGiven,
+            dosesRequired: forecast.dosesRequired,
+            ageInDaysMin: differenceInCalendarDays(nextDose.earliestDate, patient.dateOfBirth),
+            ageInDaysMax: nextDose.latestDate
+              ? differenceInCalendarDays(nextDose.latestDate, patient.dateOfBirth)
+              : null,
+            dueDate: nextDose.recommendedDate,
+            earliestDate: nextDose.earliestDate,
+            latestDate: nextDose.latestDate,
+            isOverdue: forecast.status === 'OVERDUE',
+            isCatchUp: forecast.isCatchUp,
+            daysUntilDue: forecast.status === 'OVERDUE' ? -forecast.daysOverdue : forecast.daysUntilDue,
+            isMandatory: forecast.isMandatory
+          }
+        ];
       });
 
       const result: PatientDueVaccinesResponse = {
@@ -773,6 +873,22 @@ export class VaccinationService {
             throw new ConflictError('A vaccination with this vaccine already exists on this date');
           }
 
+          // Check the dose against the schedule; invalid doses are still recorded so they can be repeated
+          const validity = await this.assessDoseValidity(
+            tx as unknown as PrismaClient,
+            validatedClinicId,
+            patient.dateOfBirth,
+            validatedInput
+          );
+
+          if (validity.validity === 'INVALID') {
+            logger.warn('Invalid immunization dose recorded', {
+              patientId: validatedInput.patientId,
+              vaccine: validatedInput.vaccine,
+              reasons: validity.validityReasons
+            });
+          }
+
           // Calculate overdue status
           const today = new Date();
           const isOverDue = validatedInput.date < today;
@@ -784,6 +900,7 @@ export class VaccinationService {
           const immunization = await vaccinationRepo.createImmunization(tx as unknown as PrismaClient, {
             id: randomUUID(),
             ...validatedInput,
+            ...validity,
             administeredById: adminId || null,
             status: 'PENDING' as ImmunizationStatus,
             isOverDue,
@@ -843,6 +960,13 @@ export class VaccinationService {
               continue;
             }
 
+            const validity = await this.assessDoseValidity(
+              tx as unknown as PrismaClient,
+              validatedClinicId,
+              patient.dateOfBirth,
+              input
+            );
+
             const now = new Date();
             const today = new Date();
             const isOverDue = input.date < today;
@@ -853,6 +977,7 @@ export class VaccinationService {
             const immunization = await vaccinationRepo.createImmunization(tx as unknown as PrismaClient, {
               id: randomUUID(),
               ...input,
+              ...validity,
               status: 'PENDING' as ImmunizationStatus,
               isOverDue,
               daysOverDue,
@@ -1081,7 +1206,13 @@ export class VaccinationService {
   /**
    * Validate an immunization record
    */
-  async validateImmunizationRecord(patientId: string, vaccine: string, date: Date, clinicId: string) {
+  async validateImmunizationRecord(
+    patientId: string,
+    vaccine: string,
+    date: Date,
+    clinicId: string,
+    lotNumber?: string | null
+  ) {
     // Validate inputs
     const validatedPatientId = z.uuid().parse(patientId);
     const validatedVaccine = z.string().min(1).max(100).parse(vaccine);
@@ -1097,6 +1228,7 @@ export class VaccinationService {
 
       // Check if vaccine exists in schedule
       const vaccineSchedule = await vaccinationRepo.findVaccineSchedule(this.db, {
+        scheduleSetId: await immunizationService.resolveScheduleSetId(validatedClinicId),
         vaccineName: validatedVaccine
       });
 
@@ -1116,31 +1248,19 @@ export class VaccinationService {
         return { valid: false, error: 'Duplicate vaccination record exists' };
       }
 
-      // Validate age appropriateness
-      if (patient.dateOfBirth) {
-        const ageInDays = Math.floor((validatedDate.getTime() - patient.dateOfBirth.getTime()) / (1000 * 60 * 60 * 24));
-
-        const schedule = vaccineSchedule[0];
-        if (ageInDays < (schedule?.ageInDaysMin || 0)) {
-          return {
-            valid: false,
-            error: `Patient is too young for this vaccine. Minimum age: ${Math.floor(
-              (schedule?.ageInDaysMin || 0) / 30
-            )} months`
-          };
-        }
+      // Validate age, interval and series completion against the schedule
+      const doseValidity = await this.assessDoseValidity(this.db, validatedClinicId, patient.dateOfBirth, {
+        patientId: validatedPatientId,
+        vaccine: validatedVaccine,
+        date: validatedDate,
+        lotNumber
+      });
 
-        if (schedule?.ageInDaysMax && ageInDays > schedule?.ageInDaysMax) {
-          return {
-            valid: false,
-            error: `Patient is past the recommended age for this vaccine. Maximum age: ${Math.floor(
-              schedule.ageInDaysMax / 30
-            )} months`
-          };
-        }
+      if (doseValidity.validity === 'INVALID') {
+        return { valid: false, error: doseValidity.validityReasons.join('; '), ...doseValidity };
       }
 
-      return { valid: true, schedule: vaccineSchedule[0] };
+      return { valid: true, schedule: vaccineSchedule[0], ...doseValidity };
     } catch (error) {
       logger.error('Failed to validate immunization', { error, patientId, vaccine });
       return { valid: false, error: 'Validation failed' };
@@ -1167,6 +1287,7 @@ export class VaccinationService {
       manufacturer: input.manufacturer || null,
       batchNumber: input.batchNumber || null,
       expirationDate: input.expirationDate || null,
+      lotNumber: input.lotNumber || null,
       notes: input.notes || null,
       administeredById: input.administeredById || null,
       medicalRecordId: input.medicalRecordId || null,
@@ -1189,6 +1310,7 @@ export class VaccinationService {
     if (input.manufacturer !== undefined) validated.manufacturer = input.manufacturer;
     if (input.batchNumber !== undefined) validated.batchNumber = input.batchNumber;
     if (input.expirationDate !== undefined) validated.expirationDate = input.expirationDate;
+    if (input.lotNumber !== undefined) validated.lotNumber = input.lotNumber;
     if (input.notes !== undefined) validated.notes = input.notes;
     if (input.administeredById !== undefined) validated.administeredById = input.administeredById;
     if (input.medicalRecordId !== undefined) validated.medicalRecordId = input.medicalRecordId;
@@ -1197,6 +1319,45 @@ export class VaccinationService {
     return validated;
   }
 
+  /**
+   * Classify a dose against the patient's series: too young, too soon after the
+   * previous valid dose, series already complete, or a lot already used that day
+   */
+  private async assessDoseValidity(
+    db: PrismaClient,
+    clinicId: string,
+    dateOfBirth: Date,
+    input: Pick<ImmunizationInput, 'date' | 'lotNumber' | 'patientId' | 'vaccine'>
+  ): Promise<DoseValidityResult> {
+    const scheduleSetId = await immunizationService.resolveScheduleSetId(clinicId);
+    const series = await vaccinationRepo.findVaccineSeriesByName(db, scheduleSetId, input.vaccine);
+    if (!series) {
+      return { doseNumber: null, validity: null, validityReasons: [] };
+    }
+
+    const previous = await vaccinationRepo.findAdministeredDosesByPatient(db, input.patientId, series.vaccineName);
+    const assessment = vaccineSeriesEngine.assessDose(
+      series,
+      dateOfBirth,
+      previous.map(d => d.date),
+      input.date
+    );
+
+    if (input.lotNumber) {
+      const sameLot = await vaccinationRepo.checkDuplicateLotOnDate(db, input.patientId, input.lotNumber, input.date);
+      if (sameLot) {
+        assessment.validity = 'INVALID';
+        assessment.reasons.push(`Lot ${input.lotNumber} already recorded for ${sameLot.vaccine} on this date`);
+      }
+    }
+
+    return {
+      doseNumber: assessment.doseNumber,
+      validity: assessment.validity,
+      validityReasons: assessment.reasons
+    };
+  }
+
   /**
    * Calculate overdue severity
    */
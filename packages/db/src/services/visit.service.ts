@@ -17,19 +17,23 @@ import { z } from 'zod';
 import type { AppointmentStatus, Prisma, PrismaClient } from '../../generated/client';
 import { prisma } from '../client';
 import { AppError, ConflictError, NotFoundError, ValidationError } from '../error';
+import * as clinicRepo from '../repositories/clinic.repo';
 import * as doctorRepo from '../repositories/doctor.repo';
 import * as patientRepo from '../repositories/patient.repo';
 import * as serviceRepo from '../repositories/service.repo';
 import * as visitRepo from '../repositories/visit.repo';
 import type { Doctor, WorkingDays } from '../types';
 import { toNumber } from '../utils';
+import { zonedCalendar } from '../utils/date/timezone';
 import {
   type VisitCreateInput,
   VisitCreateSchema,
   type VisitUpdateInput,
   VisitUpdateSchema
 } from '../zodSchemas/visit.schema';
+import { waitlistService } from './appointment/waitlist';
 import { cacheService } from './cache.service';
+import { reminderService } from './reminder/reminder.service';
 
 // ==================== TYPE DEFINITIONS ====================
 
@@ -297,11 +301,12 @@ export class VisitService {
         if (cached) return cached;
       }
 
-      const today = new Date();
-      const startOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-      const endOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate(), 23, 59, 59, 999);
+      // "Today" is the clinic's local day, not the server's
+      const clinic = await clinicRepo.findClinicTimezone(this.db, validatedClinicId);
+      const timeZone = zonedCalendar.resolve(clinic?.timezone);
+      const today = zonedCalendar.dayRange(zonedCalendar.today(timeZone), timeZone);
 
-      const visits = await visitRepo.findVisitsByDateRange(this.db, validatedClinicId, startOfDay, endOfDay);
+      const visits = await visitRepo.findVisitsByDateRange(this.db, validatedClinicId, today.start, today.end);
 
       // Cache result (short TTL for today's visits)
       if (this.CACHE_ENABLED) {
@@ -367,13 +372,13 @@ export class VisitService {
         if (cached) return cached as number;
       }
 
-      const today = new Date();
-      const startOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-      const endOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate(), 23, 59, 59, 999);
+      const clinic = await clinicRepo.findClinicTimezone(this.db, validatedClinicId);
+      const timeZone = zonedCalendar.resolve(clinic?.timezone);
+      const today = zonedCalendar.dayRange(zonedCalendar.today(timeZone), timeZone);
 
       const count = await visitRepo.countVisits(this.db, validatedClinicId, {
-        startDate: startOfDay,
-        endDate: endOfDay
+        startDate: today.start,
+        endDate: today.end
       });
 
       // Cache result
@@ -824,6 +829,21 @@ export class VisitService {
           }
         }
 
+        await reminderService.syncAppointmentReminders(visit.id);
+
+        // Hand the freed time to the waitlist
+        if (validatedStatus === 'CANCELLED') {
+          await waitlistService.offerFreedSlot({
+            appointmentId: visit.id,
+            doctorId: visit.doctorId,
+            patientId: visit.patientId,
+            serviceId: visit.serviceId,
+            appointmentDate: visit.appointmentDate,
+            time: visit.time,
+            duration: visit.duration
+          });
+        }
+
         return visit;
       });
   }
@@ -1,5 +1,66 @@
 // This file was auto-generated by prisma-generator-typescript-interfaces
 
+export type PrescriptionStatus = 'ACTIVE' | 'COMPLETED' | 'CANCELLED';
+
+export const PrescriptionStatus = {
+  ACTIVE: 'ACTIVE',
+  COMPLETED: 'COMPLETED',
+  CANCELLED: 'CANCELLED'
+} satisfies Record<string, PrescriptionStatus>;
+
+export type DrugForm =
+  | 'TABLET'
+  | 'DISPERSIBLE_TABLET'
+  | 'CAPSULE'
+  | 'SYRUP'
+  | 'SUSPENSION'
+  | 'SOLUTION'
+  | 'DROPS'
+  | 'INJECTION'
+  | 'SUPPOSITORY';
+
+export const DrugForm = {
+  TABLET: 'TABLET',
+  DISPERSIBLE_TABLET: 'DISPERSIBLE_TABLET',
+  CAPSULE: 'CAPSULE',
+  SYRUP: 'SYRUP',
+  SUSPENSION: 'SUSPENSION',
+  SOLUTION: 'SOLUTION',
+  DROPS: 'DROPS',
+  INJECTION: 'INJECTION',
+  SUPPOSITORY: 'SUPPOSITORY'
+} satisfies Record<string, DrugForm>;
+
+export type PregnancyCategory = 'A' | 'B' | 'C' | 'D' | 'X' | 'N';
+
+export const PregnancyCategory = {
+  A: 'A',
+  B: 'B',
+  C: 'C',
+  D: 'D',
+  X: 'X',
+  N: 'N'
+} satisfies Record<string, PregnancyCategory>;
+
+export type ControlledSchedule = 'I' | 'II' | 'III' | 'IV' | 'V';
+
+export const ControlledSchedule = {
+  I: 'I',
+  II: 'II',
+  III: 'III',
+  IV: 'IV',
+  V: 'V'
+} satisfies Record<string, ControlledSchedule>;
+
+export type InteractionSeverity = 'MILD' | 'MODERATE' | 'SEVERE' | 'CONTRAINDICATED';
+
+export const InteractionSeverity = {
+  MILD: 'MILD',
+  MODERATE: 'MODERATE',
+  SEVERE: 'SEVERE',
+  CONTRAINDICATED: 'CONTRAINDICATED'
+} satisfies Record<string, InteractionSeverity>;
+
 export type UserRole = 'ADMIN' | 'STAFF' | 'DOCTOR' | 'PATIENT';
 
 export const UserRole = {
@@ -145,22 +206,56 @@ export const ServiceCategory = {
   OTHER: 'OTHER'
 } satisfies Record<string, ServiceCategory>;
 
-export type MeasurementType = 'Weight' | 'Height' | 'HeadCircumference';
+export type MeasurementType = 'Weight' | 'Height' | 'HeadCircumference' | 'BMI';
 
 export const MeasurementType = {
   Weight: 'Weight',
   Height: 'Height',
-  HeadCircumference: 'HeadCircumference'
+  HeadCircumference: 'HeadCircumference',
+  BMI: 'BMI'
 } satisfies Record<string, MeasurementType>;
 
-export type ChartType = 'WFA' | 'HFA' | 'HcFA';
+export type ChartType = 'WFA' | 'HFA' | 'HcFA' | 'BFA' | 'WFL' | 'WFH';
 
 export const ChartType = {
   WFA: 'WFA',
   HFA: 'HFA',
-  HcFA: 'HcFA'
+  HcFA: 'HcFA',
+  BFA: 'BFA',
+  WFL: 'WFL',
+  WFH: 'WFH'
 } satisfies Record<string, ChartType>;
 
+export type GrowthReferenceSource = 'WHO' | 'FENTON_2013' | 'INTERGROWTH_21ST';
+
+export const GrowthReferenceSource = {
+  WHO: 'WHO',
+  FENTON_2013: 'FENTON_2013',
+  INTERGROWTH_21ST: 'INTERGROWTH_21ST'
+} satisfies Record<string, GrowthReferenceSource>;
+
+export type GrowthAlertType =
+  | 'PERCENTILE_CROSSING_DOWN'
+  | 'WEIGHT_FOR_LENGTH_DECLINE'
+  | 'HEAD_CIRCUMFERENCE_CROSSING_UP'
+  | 'LOW_HEIGHT_VELOCITY'
+  | 'RAPID_WEIGHT_GAIN';
+
+export const GrowthAlertType = {
+  PERCENTILE_CROSSING_DOWN: 'PERCENTILE_CROSSING_DOWN',
+  WEIGHT_FOR_LENGTH_DECLINE: 'WEIGHT_FOR_LENGTH_DECLINE',
+  HEAD_CIRCUMFERENCE_CROSSING_UP: 'HEAD_CIRCUMFERENCE_CROSSING_UP',
+  LOW_HEIGHT_VELOCITY: 'LOW_HEIGHT_VELOCITY',
+  RAPID_WEIGHT_GAIN: 'RAPID_WEIGHT_GAIN'
+} satisfies Record<string, GrowthAlertType>;
+
+export type GrowthAlertSeverity = 'WARNING' | 'CRITICAL';
+
+export const GrowthAlertSeverity = {
+  WARNING: 'WARNING',
+  CRITICAL: 'CRITICAL'
+} satisfies Record<string, GrowthAlertSeverity>;
+
 export type ReminderMethod = 'EMAIL' | 'SMS';
 
 export const ReminderMethod = {
@@ -168,12 +263,14 @@ export const ReminderMethod = {
   SMS: 'SMS'
 } satisfies Record<string, ReminderMethod>;
 
-export type ReminderStatus = 'SENT' | 'FAILED' | 'PENDING';
+export type ReminderStatus = 'SENT' | 'FAILED' | 'PENDING' | 'RETRYING' | 'CANCELLED';
 
 export const ReminderStatus = {
   SENT: 'SENT',
   FAILED: 'FAILED',
-  PENDING: 'PENDING'
+  PENDING: 'PENDING',
+  RETRYING: 'RETRYING',
+  CANCELLED: 'CANCELLED'
 } satisfies Record<string, ReminderStatus>;
 
 export type NotificationType = 'APPOINTMENT_REMINDER' | 'BILLING' | 'GENERAL' | 'SECURITY';
@@ -202,6 +299,23 @@ export const DevelopmentStatus = {
   CONCERNING: 'CONCERNING'
 } satisfies Record<string, DevelopmentStatus>;
 
+export type DevelopmentalDomain = 'GROSS_MOTOR' | 'FINE_MOTOR' | 'LANGUAGE' | 'SOCIAL' | 'COGNITIVE';
+
+export const DevelopmentalDomain = {
+  GROSS_MOTOR: 'GROSS_MOTOR',
+  FINE_MOTOR: 'FINE_MOTOR',
+  LANGUAGE: 'LANGUAGE',
+  SOCIAL: 'SOCIAL',
+  COGNITIVE: 'COGNITIVE'
+} satisfies Record<string, DevelopmentalDomain>;
+
+export type MilestoneStatus = 'ACHIEVED' | 'NOT_YET';
+
+export const MilestoneStatus = {
+  ACHIEVED: 'ACHIEVED',
+  NOT_YET: 'NOT_YET'
+} satisfies Record<string, MilestoneStatus>;
+
 export type ImmunizationStatus = 'COMPLETED' | 'PENDING' | 'OVERDUE' | 'DELAYED' | 'EXEMPTED';
 
 export const ImmunizationStatus = {
@@ -212,6 +326,57 @@ export const ImmunizationStatus = {
   EXEMPTED: 'EXEMPTED'
 } satisfies Record<string, ImmunizationStatus>;
 
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export const RecurrenceFrequency = {
+  DAILY: 'DAILY',
+  WEEKLY: 'WEEKLY',
+  MONTHLY: 'MONTHLY'
+} satisfies Record<string, RecurrenceFrequency>;
+
+export type AppointmentSeriesStatus = 'ACTIVE' | 'CANCELLED';
+
+export const AppointmentSeriesStatus = {
+  ACTIVE: 'ACTIVE',
+  CANCELLED: 'CANCELLED'
+} satisfies Record<string, AppointmentSeriesStatus>;
+
+export type WaitlistEntryStatus = 'WAITING' | 'OFFERED' | 'BOOKED' | 'CANCELLED' | 'EXPIRED';
+
+export const WaitlistEntryStatus = {
+  WAITING: 'WAITING',
+  OFFERED: 'OFFERED',
+  BOOKED: 'BOOKED',
+  CANCELLED: 'CANCELLED',
+  EXPIRED: 'EXPIRED'
+} satisfies Record<string, WaitlistEntryStatus>;
+
+export type WaitlistOfferStatus = 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'EXPIRED';
+
+export const WaitlistOfferStatus = {
+  PENDING: 'PENDING',
+  ACCEPTED: 'ACCEPTED',
+  DECLINED: 'DECLINED',
+  EXPIRED: 'EXPIRED'
+} satisfies Record<string, WaitlistOfferStatus>;
+
+export type ScheduleExceptionType = 'LEAVE' | 'HOLIDAY' | 'CLOSURE' | 'EXTRA_SESSION';
+
+export const ScheduleExceptionType = {
+  LEAVE: 'LEAVE',
+  HOLIDAY: 'HOLIDAY',
+  CLOSURE: 'CLOSURE',
+  EXTRA_SESSION: 'EXTRA_SESSION'
+} satisfies Record<string, ScheduleExceptionType>;
+
+export type DoseValidity = 'VALID' | 'GRACE_PERIOD' | 'INVALID';
+
+export const DoseValidity = {
+  VALID: 'VALID',
+  GRACE_PERIOD: 'GRACE_PERIOD',
+  INVALID: 'INVALID'
+} satisfies Record<string, DoseValidity>;
+
 export type DosageUnit = 'MG' | 'ML' | 'TABLET' | 'MCG' | 'G' | 'IU' | 'DROP' | 'SPRAY' | 'PUFF' | 'UNIT';
 
 export const DosageUnit = {
@@ -261,6 +426,47 @@ export const LabStatus = {
   CANCELLED: 'CANCELLED'
 } satisfies Record<string, LabStatus>;
 
+export type AllergenType = 'DRUG' | 'DRUG_CLASS' | 'FOOD' | 'ENVIRONMENTAL' | 'OTHER';
+
+export const AllergenType = {
+  DRUG: 'DRUG',
+  DRUG_CLASS: 'DRUG_CLASS',
+  FOOD: 'FOOD',
+  ENVIRONMENTAL: 'ENVIRONMENTAL',
+  OTHER: 'OTHER'
+} satisfies Record<string, AllergenType>;
+
+export type AllergySeverity = 'MILD' | 'MODERATE' | 'SEVERE' | 'ANAPHYLAXIS';
+
+export const AllergySeverity = {
+  MILD: 'MILD',
+  MODERATE: 'MODERATE',
+  SEVERE: 'SEVERE',
+  ANAPHYLAXIS: 'ANAPHYLAXIS'
+} satisfies Record<string, AllergySeverity>;
+
+export type AllergyVerificationStatus = 'UNVERIFIED' | 'VERIFIED' | 'REFUTED';
+
+export const AllergyVerificationStatus = {
+  UNVERIFIED: 'UNVERIFIED',
+  VERIFIED: 'VERIFIED',
+  REFUTED: 'REFUTED'
+} satisfies Record<string, AllergyVerificationStatus>;
+
+export type ConditionCodeSystem = 'ICD10' | 'SNOMED_CT';
+
+export const ConditionCodeSystem = {
+  ICD10: 'ICD10',
+  SNOMED_CT: 'SNOMED_CT'
+} satisfies Record<string, ConditionCodeSystem>;
+
+export type ConditionStatus = 'ACTIVE' | 'RESOLVED';
+
+export const ConditionStatus = {
+  ACTIVE: 'ACTIVE',
+  RESOLVED: 'RESOLVED'
+} satisfies Record<string, ConditionStatus>;
+
 export type AccessLevel = 'STANDARD' | 'SENSITIVE' | 'RESTRICTED';
 
 export const AccessLevel = {
@@ -278,6 +484,14 @@ export const AccessType = {
   EXPORT: 'EXPORT'
 } satisfies Record<string, AccessType>;
 
+export type MeasurementPlausibility = 'PLAUSIBLE' | 'FLAGGED' | 'CONFIRMED';
+
+export const MeasurementPlausibility = {
+  PLAUSIBLE: 'PLAUSIBLE',
+  FLAGGED: 'FLAGGED',
+  CONFIRMED: 'CONFIRMED'
+} satisfies Record<string, MeasurementPlausibility>;
+
 export type SavedFilterType = 'medical_records' | 'patients' | 'appointments' | 'lab_tests';
 
 export const SavedFilterType = {
@@ -505,6 +719,8 @@ export type Clinic = {
   doctors?: Doctor[];
   patients?: Patient[];
   appointments?: Appointment[];
+  appointmentSeries?: AppointmentSeries[];
+  waitlistEntries?: WaitlistEntry[];
   medicalRecords?: MedicalRecords[];
   clinicSettings?: ClinicSetting[];
   prescriptions?: Prescription[];
@@ -515,16 +731,23 @@ export type Clinic = {
   staffs?: Staff[];
   expenses?: Expense[];
   workingDays?: WorkingDays[];
+  doctorBreaks?: DoctorBreak[];
+  scheduleExceptions?: ScheduleException[];
   features?: Feature[];
   systemSettings?: SystemSettings[];
   users?: User[];
   clinicMembers?: ClinicMember[];
   ratings?: Rating[];
   growthRecords?: GrowthRecord[];
+  growthAlerts?: GrowthAlert[];
+  patientAllergies?: PatientAllergy[];
+  patientConditions?: PatientCondition[];
   _count?: {
     doctors?: number;
     patients?: number;
     appointments?: number;
+    appointmentSeries?: number;
+    waitlistEntries?: number;
     medicalRecords?: number;
     clinicSettings?: number;
     prescriptions?: number;
@@ -535,12 +758,17 @@ export type Clinic = {
     staffs?: number;
     expenses?: number;
     workingDays?: number;
+    doctorBreaks?: number;
+    scheduleExceptions?: number;
     features?: number;
     systemSettings?: number;
     users?: number;
     clinicMembers?: number;
     ratings?: number;
     growthRecords?: number;
+    growthAlerts?: number;
+    patientAllergies?: number;
+    patientConditions?: number;
   };
 };
 
@@ -584,14 +812,22 @@ export type Doctor = {
   user?: User | null;
   clinic?: Clinic | null;
   workingDays?: WorkingDays[];
+  breaks?: DoctorBreak[];
+  scheduleExceptions?: ScheduleException[];
   appointments?: Appointment[];
+  appointmentSeries?: AppointmentSeries[];
+  waitlistEntries?: WaitlistEntry[];
   encounter?: Diagnosis[];
   Prescription?: Prescription[];
   medicalRecords?: MedicalRecords[];
   ratings?: Rating[];
   _count?: {
     workingDays?: number;
+    breaks?: number;
+    scheduleExceptions?: number;
     appointments?: number;
+    appointmentSeries?: number;
+    waitlistEntries?: number;
     encounter?: number;
     Prescription?: number;
     medicalRecords?: number;
@@ -612,6 +848,35 @@ export type WorkingDays = {
   updatedAt: Date;
 };
 
+export type DoctorBreak = {
+  id?: number;
+  doctorId: string;
+  clinicId: string;
+  day: string;
+  startTime: string;
+  endTime: string;
+  label?: string | null;
+  createdAt?: Date;
+  updatedAt: Date;
+  doctor?: Doctor;
+  clinic?: Clinic;
+};
+
+export type ScheduleException = {
+  id?: string;
+  clinicId: string;
+  doctorId?: string | null;
+  date: Date;
+  type: ScheduleExceptionType;
+  startTime?: string | null;
+  endTime?: string | null;
+  reason?: string | null;
+  createdAt?: Date;
+  updatedAt: Date;
+  clinic?: Clinic;
+  doctor?: Doctor | null;
+};
+
 export type Staff = {
   id?: string;
   email?: string | null;
@@ -678,11 +943,22 @@ export type Payment = {
 
 export type Reminder = {
   id?: string;
-  appointmentId: string;
-  appointment?: Appointment;
+  appointmentId?: string | null;
+  appointment?: Appointment | null;
+  immunizationId?: string | null;
+  immunization?: Immunization | null;
   method: ReminderMethod;
-  sentAt: Date;
-  status: ReminderStatus;
+  leadTime?: string | null;
+  recipient?: string | null;
+  scheduledFor: Date;
+  sentAt?: Date | null;
+  status?: ReminderStatus;
+  attempts?: number;
+  lastAttemptAt?: Date | null;
+  error?: string | null;
+  jobId?: string | null;
+  createdAt?: Date;
+  updatedAt: Date;
 };
 
 export type PatientBill = {
@@ -715,6 +991,8 @@ export type Service = {
   icon?: string | null;
   color?: string | null;
   appointments?: Appointment[];
+  appointmentSeries?: AppointmentSeries[];
+  waitlistEntries?: WaitlistEntry[];
   createdAt?: Date;
   updatedAt: Date;
   deletedAt?: Date | null;
@@ -723,6 +1001,8 @@ export type Service = {
     labtest?: number;
     bills?: number;
     appointments?: number;
+    appointmentSeries?: number;
+    waitlistEntries?: number;
   };
 };
 
@@ -735,6 +1015,9 @@ export type ClinicSetting = {
   workingDays: string[];
   defaultAppointmentDuration?: number;
   requireEmergencyContact?: boolean;
+  waitlistOfferHoldMinutes?: number;
+  vaccineScheduleSetId?: number | null;
+  vaccineScheduleSet?: VaccineScheduleSet | null;
   createdAt?: Date;
   updatedAt: Date;
 };
@@ -742,7 +1025,9 @@ export type ClinicSetting = {
 export type WHOGrowthStandard = {
   id?: string;
   ageInMonths?: number | null;
-  ageDays: number;
+  ageDays?: number | null;
+  lengthCm?: number | null;
+  source?: GrowthReferenceSource;
   gender: Gender;
   chartType?: ChartType | null;
   measurementType?: MeasurementType | null;
@@ -762,6 +1047,20 @@ export type WHOGrowthStandard = {
   updatedAt: Date;
 };
 
+export type GrowthVelocityStandard = {
+  id?: string;
+  gender: Gender;
+  measurementType: MeasurementType;
+  intervalMonths: number;
+  startMonth: number;
+  endMonth: number;
+  delta?: number;
+  lValue: number;
+  mValue: number;
+  sValue: number;
+  createdAt?: Date;
+};
+
 export type Rating = {
   id?: number;
   clinicId?: string | null;
@@ -787,7 +1086,14 @@ export type Prescription = {
   instructions?: string | null;
   issuedDate?: Date;
   endDate?: Date | null;
-  status?: string;
+  status?: PrescriptionStatus;
+  weightKg?: number | null;
+  discontinuedAt?: Date | null;
+  discontinuedReason?: string | null;
+  discontinuedById?: string | null;
+  renewedFromId?: string | null;
+  renewedFrom?: Prescription | null;
+  renewal?: Prescription | null;
   medicalRecord?: MedicalRecords;
   doctor?: Doctor | null;
   patient?: Patient;
@@ -804,16 +1110,91 @@ export type Prescription = {
 export type Drug = {
   id?: string;
   name: string;
+  /**
+   * Classes interactions can be listed under, lower case, e.g. "aminoglycoside"
+   */
+  drugClasses?: string[];
+  /**
+   * Active ingredients, lower case; a drug with none listed is its own ingredient
+   */
+  ingredients?: string[];
+  genericName?: string | null;
+  brandNames?: string[];
+  manufacturer?: string | null;
+  description?: string | null;
+  indications?: string[];
+  contraindications?: string[];
+  sideEffects?: string[];
+  warnings?: string[];
+  pregnancyCategory?: PregnancyCategory | null;
+  isControlled?: boolean;
+  controlledSchedule?: ControlledSchedule | null;
+  requiresPriorAuth?: boolean;
+  /**
+   * Inactive drugs stay on existing prescriptions but are not offered for new ones
+   */
+  isActive?: boolean;
   guidelines?: DoseGuideline[];
+  formulations?: DrugFormulation[];
   createdAt?: Date;
   updatedAt: Date;
   prescribedItems?: PrescribedItem[];
+  allergies?: PatientAllergy[];
   _count?: {
     guidelines?: number;
+    formulations?: number;
+    prescribedItems?: number;
+    allergies?: number;
+  };
+};
+
+/**
+ * A product a drug is given as, e.g. a 125 mg/5 mL syrup or a scored 500 mg
+ * tablet. Liquids hold `strength` per `perVolumeMl`; solids hold it per unit.
+ */
+export type DrugFormulation = {
+  id?: string;
+  drugId: string;
+  form: DrugForm;
+  route: DrugRoute;
+  strength: number;
+  strengthUnit?: string;
+  /**
+   * Volume the strength is given in, for liquids; null for tablets and capsules
+   */
+  perVolumeMl?: number | null;
+  /**
+   * Equal parts a unit can be split into: 2 for a half-scored tablet, 1 for a capsule
+   */
+  divisions?: number;
+  label?: string | null;
+  isActive?: boolean;
+  createdAt?: Date;
+  updatedAt: Date;
+  drug?: Drug;
+  prescribedItems?: PrescribedItem[];
+  _count?: {
     prescribedItems?: number;
   };
 };
 
+/**
+ * An interacting pair from the interaction dataset. Each side is a drug name
+ * or a drug class, in lower case; the sides are stored in alphabetical order
+ * so a pair is listed once.
+ */
+export type DrugInteraction = {
+  id?: string;
+  subjectA: string;
+  subjectB: string;
+  severity: InteractionSeverity;
+  mechanism: string;
+  management: string;
+  source?: string | null;
+  createdAt?: Date;
+  updatedAt: Date;
+};
+
 export type DoseGuideline = {
   id?: string;
   drugId: string;
@@ -847,8 +1228,19 @@ export type PrescribedItem = {
   duration: string;
   instructions?: string | null;
   drugRoute?: DrugRoute | null;
+  /**
+   * What the drug is given for; picks the dosing guideline the dose was checked against
+   */
+  indication?: string | null;
+  formulationId?: string | null;
+  /**
+   * The dose as measured out of the formulation, e.g. 2.4 mL or 0.5 tablet
+   */
+  measuredQuantity?: number | null;
+  measuredUnit?: string | null;
   prescription?: Prescription;
   drug?: Drug;
+  formulation?: DrugFormulation | null;
   createdAt?: Date;
   updatedAt: Date;
 };
@@ -859,6 +1251,7 @@ export type Guardian = {
   userId: string;
   relation: string;
   isPrimary?: boolean;
+  heightCm?: number | null;
   phone?: string | null;
   email?: string | null;
   patient?: Patient;
@@ -874,7 +1267,12 @@ export type Patient = {
   emergencyContactNumber?: string | null;
   firstName: string;
   lastName: string;
+  medicalRecordNumber?: string | null;
   dateOfBirth: Date;
+  gestationalAgeWeeks?: number | null;
+  gestationalAgeDays?: number | null;
+  fatherHeightCm?: number | null;
+  motherHeightCm?: number | null;
   ageMonths?: number | null;
   ageDays?: number | null;
   gender?: Gender;
@@ -902,6 +1300,8 @@ export type Patient = {
   user?: User;
   createdBy?: User | null;
   appointments?: Appointment[];
+  appointmentSeries?: AppointmentSeries[];
+  waitlistEntries?: WaitlistEntry[];
   medicalRecords?: MedicalRecords[];
   encounters?: Diagnosis[];
   immunizations?: Immunization[];
@@ -912,10 +1312,15 @@ export type Patient = {
   developmentalChecks?: DevelopmentalCheck[];
   developmentalMilestones?: DevelopmentalMilestone[];
   growthRecords?: GrowthRecord[];
+  growthAlerts?: GrowthAlert[];
   payments?: Payment[];
   guardians?: Guardian[];
+  allergyRecords?: PatientAllergy[];
+  conditionRecords?: PatientCondition[];
   _count?: {
     appointments?: number;
+    appointmentSeries?: number;
+    waitlistEntries?: number;
     medicalRecords?: number;
     encounters?: number;
     immunizations?: number;
@@ -926,11 +1331,71 @@ export type Patient = {
     developmentalChecks?: number;
     developmentalMilestones?: number;
     growthRecords?: number;
+    growthAlerts?: number;
     payments?: number;
     guardians?: number;
+    allergyRecords?: number;
+    conditionRecords?: number;
   };
 };
 
+/**
+ * A recorded allergy. Entries migrated from the free-text `Patient.allergies`
+ * wait in the review queue (`needsReview`) until a clinician confirms or
+ * corrects them; they are checked at prescribing meanwhile.
+ */
+export type PatientAllergy = {
+  id?: string;
+  clinicId: string;
+  patientId: string;
+  allergen: string;
+  allergenType?: AllergenType;
+  drugId?: string | null;
+  reaction?: string | null;
+  severity?: AllergySeverity | null;
+  verificationStatus?: AllergyVerificationStatus;
+  onsetDate?: Date | null;
+  notes?: string | null;
+  sourceText?: string | null;
+  needsReview?: boolean;
+  reviewedAt?: Date | null;
+  reviewedById?: string | null;
+  recordedById?: string | null;
+  isActive?: boolean;
+  createdAt?: Date;
+  updatedAt: Date;
+  clinic?: Clinic;
+  patient?: Patient;
+  drug?: Drug | null;
+};
+
+/**
+ * A coded condition on the patient's problem list. Only entries migrated
+ * from the free-text `Patient.medicalConditions` may lack a code, and they
+ * stay in the review queue until one is given.
+ */
+export type PatientCondition = {
+  id?: string;
+  clinicId: string;
+  patientId: string;
+  display: string;
+  code?: string | null;
+  codeSystem?: ConditionCodeSystem | null;
+  status?: ConditionStatus;
+  onsetDate?: Date | null;
+  resolvedDate?: Date | null;
+  notes?: string | null;
+  sourceText?: string | null;
+  needsReview?: boolean;
+  reviewedAt?: Date | null;
+  reviewedById?: string | null;
+  recordedById?: string | null;
+  createdAt?: Date;
+  updatedAt: Date;
+  clinic?: Clinic;
+  patient?: Patient;
+};
+
 export type Appointment = {
   id?: string;
   patientId: string;
@@ -950,6 +1415,9 @@ export type Appointment = {
   createdAt?: Date;
   updatedAt: Date;
   duration?: number | null;
+  seriesId?: string | null;
+  occurrence?: number | null;
+  series?: AppointmentSeries | null;
   patient?: Patient;
   doctor?: Doctor;
   clinic?: Clinic;
@@ -958,6 +1426,7 @@ export type Appointment = {
   medical?: MedicalRecords[];
   reminders?: Reminder[];
   encounters?: Diagnosis[];
+  waitlistOffer?: WaitlistOffer | null;
   _count?: {
     bills?: number;
     medical?: number;
@@ -966,6 +1435,81 @@ export type Appointment = {
   };
 };
 
+export type AppointmentSeries = {
+  id?: string;
+  clinicId: string;
+  patientId: string;
+  doctorId: string;
+  serviceId?: string | null;
+  type: AppointmentType;
+  frequency: RecurrenceFrequency;
+  interval?: number;
+  startDate: Date;
+  until?: Date | null;
+  count?: number | null;
+  time: string;
+  duration?: number | null;
+  appointmentPrice?: Decimal | null;
+  note?: string | null;
+  status?: AppointmentSeriesStatus;
+  createdAt?: Date;
+  updatedAt: Date;
+  clinic?: Clinic;
+  patient?: Patient;
+  doctor?: Doctor;
+  service?: Service | null;
+  appointments?: Appointment[];
+  _count?: {
+    appointments?: number;
+  };
+};
+
+export type WaitlistEntry = {
+  id?: string;
+  clinicId: string;
+  patientId: string;
+  doctorId?: string | null;
+  specialty?: string | null;
+  serviceId?: string | null;
+  type?: AppointmentType;
+  earliestDate: Date;
+  latestDate: Date;
+  preferredFromTime?: string | null;
+  preferredToTime?: string | null;
+  preferredWeekdays: number[];
+  priority?: number;
+  status?: WaitlistEntryStatus;
+  note?: string | null;
+  createdById?: string | null;
+  createdAt?: Date;
+  updatedAt: Date;
+  clinic?: Clinic;
+  patient?: Patient;
+  doctor?: Doctor | null;
+  service?: Service | null;
+  offers?: WaitlistOffer[];
+  _count?: {
+    offers?: number;
+  };
+};
+
+export type WaitlistOffer = {
+  id?: string;
+  entryId: string;
+  clinicId: string;
+  doctorId: string;
+  appointmentId?: string | null;
+  slotStart: Date;
+  time: string;
+  duration: number;
+  status?: WaitlistOfferStatus;
+  expiresAt: Date;
+  respondedAt?: Date | null;
+  createdAt?: Date;
+  entry?: WaitlistEntry;
+  appointment?: Appointment | null;
+};
+
 export type MedicalRecords = {
   id?: string;
   patientId: string;
@@ -1122,6 +1666,32 @@ export type GrowthRecord = {
   medical?: MedicalRecords | null;
   recordedById?: string | null;
   recordedBy?: Staff | null;
+  alerts?: GrowthAlert[];
+  plausibility?: MeasurementPlausibility;
+  plausibilityFlags?: Record<string, unknown> | null;
+  confirmedAt?: Date | null;
+  confirmedById?: string | null;
+  referenceVersion?: string | null;
+  _count?: {
+    alerts?: number;
+  };
+};
+
+export type GrowthAlert = {
+  id?: string;
+  clinicId: string;
+  patientId: string;
+  growthRecordId: string;
+  type: GrowthAlertType;
+  severity: GrowthAlertSeverity;
+  message: string;
+  details?: Record<string, unknown> | null;
+  acknowledgedAt?: Date | null;
+  acknowledgedById?: string | null;
+  createdAt?: Date;
+  clinic?: Clinic;
+  patient?: Patient;
+  growthRecord?: GrowthRecord;
 };
 
 export type Immunization = {
@@ -1140,11 +1710,16 @@ export type Immunization = {
   updatedAt: Date;
   isOverDue?: boolean | null;
   daysOverDue?: number | null;
+  doseNumber?: number | null;
+  validity?: DoseValidity | null;
+  validityReasons?: string[];
   patient?: Patient;
   administeredBy?: Staff | null;
   medicalRecords?: MedicalRecords[];
+  reminders?: Reminder[];
   _count?: {
     medicalRecords?: number;
+    reminders?: number;
   };
 };
 
@@ -1194,13 +1769,21 @@ export type FeedingLog = {
 export type DevelopmentalMilestone = {
   id?: number;
   patientId: string;
+  checkId?: number | null;
   milestone: string;
-  ageAchieved: string;
+  /**
+   * Catalogue code; null for free-text milestones recorded before the catalogue
+   */
+  milestoneCode?: string | null;
+  domain?: DevelopmentalDomain | null;
+  status?: MilestoneStatus;
+  ageAchieved?: string | null;
   dateRecorded: Date;
   notes?: string | null;
   createdBy?: string | null;
   updatedBy?: string | null;
   patient?: Patient;
+  check?: DevelopmentalCheck | null;
   createdAt?: Date;
   updatedAt: Date;
 };
@@ -1214,13 +1797,32 @@ export type DevelopmentalCheck = {
   languageSkills: DevelopmentStatus;
   socialSkills: DevelopmentStatus;
   cognitiveSkills: DevelopmentStatus;
+  /**
+   * Motor skills split as screened; `motorSkills` holds the worse of the two
+   */
+  grossMotorSkills?: DevelopmentStatus | null;
+  fineMotorSkills?: DevelopmentStatus | null;
+  /**
+   * Age the milestones were judged against: corrected for prematurity under 24 months
+   */
+  assessedAgeMonths?: number | null;
+  instrument?: string | null;
+  /**
+   * Catalogue codes not yet achieved past the age most children reach them
+   */
+  overdueMilestones?: string[];
+  performedById?: string | null;
   milestonesMet?: string | null;
   milestonesPending?: string | null;
   concerns?: string | null;
   recommendations?: string | null;
   patient?: Patient;
+  milestones?: DevelopmentalMilestone[];
   createdAt?: Date;
   updatedAt: Date;
+  _count?: {
+    milestones?: number;
+  };
 };
 
 export type VaccineSchedule = {
@@ -1235,6 +1837,44 @@ export type VaccineSchedule = {
   updatedAt: Date;
   ageInDaysMin?: number | null;
   ageInDaysMax?: number | null;
+  scheduleSetId: number;
+  scheduleSet?: VaccineScheduleSet;
+  doses?: VaccineScheduleDose[];
+  _count?: {
+    doses?: number;
+  };
+};
+
+export type VaccineScheduleSet = {
+  id?: number;
+  code: string;
+  name: string;
+  country?: string | null;
+  version: string;
+  description?: string | null;
+  isDefault?: boolean;
+  effectiveFrom?: Date | null;
+  createdAt?: Date;
+  updatedAt: Date;
+  vaccines?: VaccineSchedule[];
+  clinicSettings?: ClinicSetting[];
+  _count?: {
+    vaccines?: number;
+    clinicSettings?: number;
+  };
+};
+
+export type VaccineScheduleDose = {
+  id?: number;
+  scheduleId: number;
+  doseNumber: number;
+  minimumAgeDays: number;
+  recommendedAgeDays: number;
+  maximumAgeDays?: number | null;
+  minimumIntervalDays?: number | null;
+  createdAt?: Date;
+  updatedAt: Date;
+  schedule?: VaccineSchedule;
 };
 
 export type Expense = {
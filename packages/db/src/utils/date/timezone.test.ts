@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+
+import { zonedCalendar } from './timezone';
+
+// Egypt's 2024 DST: clocks went from 00:00 to 01:00 on 26 April (UTC+2 to
+// UTC+3) and from 24:00 back to 23:00 on 31 October
+const CAIRO = 'Africa/Cairo';
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('ZonedCalendar across Africa/Cairo DST', () => {
+  describe('at', () => {
+    it('reads wall-clock times on either side of the spring-forward jump', () => {
+      expect(zonedCalendar.at('2024-04-25', '23:30', CAIRO).toISOString()).toBe('2024-04-25T21:30:00.000Z');
+      expect(zonedCalendar.at('2024-04-26', '12:00', CAIRO).toISOString()).toBe('2024-04-26T09:00:00.000Z');
+    });
+
+    it('moves times skipped by the jump forward by an hour', () => {
+      expect(zonedCalendar.at('2024-04-26', '00:00', CAIRO).toISOString()).toBe('2024-04-25T22:00:00.000Z');
+      expect(zonedCalendar.at('2024-04-26', '00:30', CAIRO).toISOString()).toBe('2024-04-25T22:30:00.000Z');
+    });
+
+    it('reads wall-clock times on either side of the fall-back', () => {
+      expect(zonedCalendar.at('2024-10-31', '12:00', CAIRO).toISOString()).toBe('2024-10-31T09:00:00.000Z');
+      expect(zonedCalendar.at('2024-11-01', '12:00', CAIRO).toISOString()).toBe('2024-11-01T10:00:00.000Z');
+    });
+  });
+
+  describe('dayRange', () => {
+    it('gives the spring-forward day 23 hours', () => {
+      const { start, end } = zonedCalendar.dayRange('2024-04-26', CAIRO);
+      expect(start.toISOString()).toBe('2024-04-25T22:00:00.000Z');
+      expect(end.toISOString()).toBe('2024-04-26T20:59:59.999Z');
+      expect(end.getTime() + 1 - start.getTime()).toBe(23 * HOUR_MS);
+    });
+
+    it('gives the fall-back day 25 hours', () => {
+      const { start, end } = zonedCalendar.dayRange('2024-10-31', CAIRO);
+      expect(start.toISOString()).toBe('2024-10-30T21:00:00.000Z');
+      expect(end.toISOString()).toBe('2024-10-31T21:59:59.999Z');
+      expect(end.getTime() + 1 - start.getTime()).toBe(25 * HOUR_MS);
+    });
+
+    it('leaves no gap between consecutive days', () => {
+      const day = zonedCalendar.dayRange('2024-10-31', CAIRO);
+      const next = zonedCalendar.dayRange('2024-11-01', CAIRO);
+      expect(next.start.getTime()).toBe(day.end.getTime() + 1);
+    });
+  });
+
+  describe('dateKey', () => {
+    it('places instants on the local day', () => {
+      // 01:00 local, the first minute after the jump
+      expect(zonedCalendar.dateKey(new Date('2024-04-25T22:00:00.000Z'), CAIRO)).toBe('2024-04-26');
+      expect(zonedCalendar.dateKey(new Date('2024-04-25T21:59:00.000Z'), CAIRO)).toBe('2024-04-25');
+      // 23:30 local in the repeated hour, still 31 October
+      expect(zonedCalendar.dateKey(new Date('2024-10-31T21:30:00.000Z'), CAIRO)).toBe('2024-10-31');
+      expect(zonedCalendar.dateKey(new Date('2024-10-31T22:00:00.000Z'), CAIRO)).toBe('2024-11-01');
+    });
+
+    it('reads an instant at UTC midnight as one', () => {
+      expect(zonedCalendar.dateKey(new Date('2024-04-26T00:00:00.000Z'), CAIRO)).toBe('2024-04-26');
+    });
+
+    it('agrees with dayRange at the edges of a DST day', () => {
+      const { start, end } = zonedCalendar.dayRange('2024-10-31', CAIRO);
+      expect(zonedCalendar.dateKey(new Date(start.getTime() + 1), CAIRO)).toBe('2024-10-31');
+      expect(zonedCalendar.dateKey(end, CAIRO)).toBe('2024-10-31');
+    });
+  });
+
+  describe('fromDateOnly', () => {
+    it('keeps a date-only value on its own calendar day', () => {
+      expect(zonedCalendar.fromDateOnly(new Date('2024-04-26T00:00:00.000Z'))).toBe('2024-04-26');
+      expect(zonedCalendar.fromDateOnly(zonedCalendar.keyToUtc('2024-10-31'))).toBe('2024-10-31');
+    });
+  });
+});
+
+// US Eastern's 2026 DST, behind UTC: clocks went from 02:00 to 03:00 on 8 March
+// (UTC-5 to UTC-4) and from 02:00 back to 01:00 on 1 November
+const NEW_YORK = 'America/New_York';
+
+describe('ZonedCalendar across America/New_York DST', () => {
+  it('moves times skipped by the spring-forward jump forward by an hour', () => {
+    expect(zonedCalendar.at('2026-03-08', '01:30', NEW_YORK).toISOString()).toBe('2026-03-08T06:30:00.000Z');
+    expect(zonedCalendar.at('2026-03-08', '02:30', NEW_YORK).toISOString()).toBe('2026-03-08T07:30:00.000Z');
+    expect(zonedCalendar.at('2026-03-08', '12:00', NEW_YORK).toISOString()).toBe('2026-03-08T16:00:00.000Z');
+  });
+
+  it('gives the spring-forward day 23 hours and the fall-back day 25', () => {
+    const spring = zonedCalendar.dayRange('2026-03-08', NEW_YORK);
+    expect(spring.start.toISOString()).toBe('2026-03-08T05:00:00.000Z');
+    expect(spring.end.getTime() + 1 - spring.start.getTime()).toBe(23 * HOUR_MS);
+
+    const fall = zonedCalendar.dayRange('2026-11-01', NEW_YORK);
+    expect(fall.start.toISOString()).toBe('2026-11-01T04:00:00.000Z');
+    expect(fall.end.toISOString()).toBe('2026-11-02T04:59:59.999Z');
+    expect(fall.end.getTime() + 1 - fall.start.getTime()).toBe(25 * HOUR_MS);
+  });
+
+  it('places an instant at UTC midnight on the previous local evening', () => {
+    // 20:00 on 9 March in New York
+    expect(zonedCalendar.dateKey(new Date('2026-03-10T00:00:00.000Z'), NEW_YORK)).toBe('2026-03-09');
+    expect(zonedCalendar.fromDateOnly(new Date('2026-03-10T00:00:00.000Z'))).toBe('2026-03-10');
+  });
+
+  it('keeps the repeated hour of the fall-back on the same day', () => {
+    // 01:30 EDT and 01:30 EST, an hour apart
+    expect(zonedCalendar.dateKey(new Date('2026-11-01T05:30:00.000Z'), NEW_YORK)).toBe('2026-11-01');
+    expect(zonedCalendar.dateKey(new Date('2026-11-01T06:30:00.000Z'), NEW_YORK)).toBe('2026-11-01');
+    expect(zonedCalendar.timeOf(new Date('2026-11-01T06:30:00.000Z'), NEW_YORK)).toBe('01:30');
+  });
+});
@@ -0,0 +1,173 @@
+// src/utils/date/timezone.ts
+import { formatInTimeZone, fromZonedTime, getTimezoneOffset } from 'date-fns-tz';
+
+/**
+ * Matches the `Clinic.timezone` column default
+ */
+export const DEFAULT_TIMEZONE = 'UTC';
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * DST gaps are at most a couple of hours, so this reaches safely back before one
+ */
+const GAP_LOOKBACK_MS = 6 * 60 * MINUTE_MS;
+
+/**
+ * A clinic-local calendar date, "yyyy-MM-dd"
+ */
+export type DateKey = string;
+
+export interface ZonedDayRange {
+  /** Last millisecond of the local day, as a UTC instant */
+  end: Date;
+  /** Local midnight, as a UTC instant */
+  start: Date;
+}
+
+/**
+ * Calendar arithmetic in a clinic's IANA timezone. Everything is stored as UTC
+ * instants; these helpers translate between those instants and the clinic's
+ * wall clock so that "today", day ranges and slot times do not depend on the
+ * server's own timezone or on DST.
+ */
+export class ZonedCalendar {
+  /**
+   * Whether `timeZone` is an IANA zone the runtime understands
+   */
+  isValid(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * The clinic's zone, or UTC when it is missing or unknown
+   */
+  resolve(timeZone?: string | null): string {
+    return timeZone && this.isValid(timeZone) ? timeZone : DEFAULT_TIMEZONE;
+  }
+
+  /**
+   * Local calendar date of an instant
+   */
+  dateKey(date: Date, timeZone: string): DateKey {
+    return formatInTimeZone(date, timeZone, 'yyyy-MM-dd');
+  }
+
+  /**
+   * Calendar date of a date-only value: a DATE column, or a date built at UTC
+   * midnight to stand for one. These carry no zone, so they keep their own day
+   * instead of being read as an instant.
+   */
+  fromDateOnly(date: Date): DateKey {
+    return date.toISOString().slice(0, 10);
+  }
+
+  /**
+   * Local wall-clock time of an instant, "HH:mm"
+   */
+  timeOf(date: Date, timeZone: string): string {
+    return formatInTimeZone(date, timeZone, 'HH:mm');
+  }
+
+  /**
+   * Minutes since local midnight for an instant
+   */
+  minutesOfDay(date: Date, timeZone: string): number {
+    const [hours, minutes] = this.timeOf(date, timeZone).split(':').map(Number);
+    return (hours ?? 0) * 60 + (minutes ?? 0);
+  }
+
+  /**
+   * UTC instant of a local date and "HH:mm" time in the zone. Times skipped by a
+   * DST jump resolve forward by the length of the jump (00:30 in a one-hour gap
+   * at midnight becomes 01:30).
+   */
+  at(key: DateKey, time: string, timeZone: string): Date {
+    const [hours, minutes] = time.split(':').map(Number);
+    const wallClock = `${key}T${this.pad(hours)}:${this.pad(minutes)}:00`;
+    const instant = fromZonedTime(wallClock, timeZone);
+    if (formatInTimeZone(instant, timeZone, "yyyy-MM-dd'T'HH:mm:ss") === wallClock) {
+      return instant;
+    }
+
+    // Inside a spring-forward gap: read the wall clock with the offset in force
+    // before the jump, which lands the same distance past the transition
+    const offsetBefore = getTimezoneOffset(timeZone, new Date(instant.getTime() - GAP_LOOKBACK_MS));
+    return new Date(new Date(`${wallClock}.000Z`).getTime() - offsetBefore);
+  }
+
+  /**
+   * First and last instant of a local day. DST days are 23 or 25 hours long,
+   * so the end is taken from the next local midnight rather than start + 24h.
+   */
+  dayRange(key: DateKey, timeZone: string): ZonedDayRange {
+    const start = this.at(key, '00:00', timeZone);
+    const next = this.at(this.addDays(key, 1), '00:00', timeZone);
+    return { start, end: new Date(next.getTime() - 1) };
+  }
+
+  /**
+   * Range covering the local days `from` to `to`, inclusive
+   */
+  daysRange(from: DateKey, to: DateKey, timeZone: string): ZonedDayRange {
+    return { start: this.dayRange(from, timeZone).start, end: this.dayRange(to, timeZone).end };
+  }
+
+  /**
+   * Today's local date in the zone
+   */
+  today(timeZone: string, now: Date = new Date()): DateKey {
+    return formatInTimeZone(now, timeZone, 'yyyy-MM-dd');
+  }
+
+  /**
+   * Weekday of a local date, 0 (Sunday) to 6 (Saturday)
+   */
+  weekday(key: DateKey): number {
+    return this.keyToUtc(key).getUTCDay();
+  }
+
+  addDays(key: DateKey, days: number): DateKey {
+    const date = this.keyToUtc(key);
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().slice(0, 10);
+  }
+
+  /**
+   * Same day of the month `months` later, clamped to the end of shorter months
+   * (Jan 31 + 1 month is Feb 28 or 29)
+   */
+  addMonths(key: DateKey, months: number): DateKey {
+    const date = this.keyToUtc(key);
+    const day = date.getUTCDate();
+    const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+    const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+    target.setUTCDate(Math.min(day, lastDay));
+    return target.toISOString().slice(0, 10);
+  }
+
+  /**
+   * Number of calendar days from `from` to `to`
+   */
+  daysBetween(from: DateKey, to: DateKey): number {
+    return Math.round((this.keyToUtc(to).getTime() - this.keyToUtc(from).getTime()) / (24 * 60 * MINUTE_MS));
+  }
+
+  /**
+   * The local date as a UTC-midnight value, the form DATE columns use
+   */
+  keyToUtc(key: DateKey): Date {
+    return new Date(`${key}T00:00:00.000Z`);
+  }
+
+  private pad(value: number | undefined): string {
+    return (value ?? 0).toString().padStart(2, '0');
+  }
+}
+
+export const zonedCalendar = new ZonedCalendar();
@@ -11,7 +11,8 @@ export async function getGrowthDataMap(): Promise<GrowthDataMap> {
   try {
     const records = await db.wHOGrowthStandard.findMany({
       where: {
-        chartType: 'WFA'
+        chartType: 'WFA',
+        ageDays: { not: null }
       },
       orderBy: {
         ageDays: 'asc'
@@ -48,7 +49,7 @@ export async function getGrowthDataMap(): Promise<GrowthDataMap> {
       )
       .map(
         (record: {
-          ageDays: number;
+          ageDays: number | null;
           lValue: number | null;
           mValue: number | null;
           sValue: number | null;
@@ -63,7 +64,7 @@ export async function getGrowthDataMap(): Promise<GrowthDataMap> {
           sd4pos: number | null;
           gender: 'MALE' | 'FEMALE';
         }) => ({
-          ageDays: record.ageDays,
+          ageDays: record.ageDays ?? 0,
           lValue: record.lValue as number,
           mValue: record.mValue as number,
           sValue: record.sValue as number,
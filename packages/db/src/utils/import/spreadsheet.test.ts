@@ -0,0 +1,133 @@
+import { deflateRawSync } from 'node:zlib';
+
+import { describe, expect, it } from 'vitest';
+
+import { spreadsheetReader } from './spreadsheet';
+
+/**
+ * A minimal zip archive: deflated entries, no CRCs (the reader does not check them)
+ */
+function zip(files: Record<string, string | Buffer>): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, content] of Object.entries(files)) {
+    const raw = Buffer.isBuffer(content) ? content : Buffer.from(content, 'utf8');
+    const data = deflateRawSync(raw);
+    const fileName = Buffer.from(name, 'utf8');
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04_03_4b_50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(raw.length, 22);
+    local.writeUInt16LE(fileName.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02_01_4b_50, 0);
+    central.writeUInt16LE(20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(raw.length, 24);
+    central.writeUInt16LE(fileName.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, fileName, data);
+    centrals.push(central, fileName);
+    offset += local.length + fileName.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06_05_4b_50, 0);
+  end.writeUInt16LE(Object.keys(files).length, 8);
+  end.writeUInt16LE(Object.keys(files).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return Buffer.concat([...locals, directory, end]);
+}
+
+function workbook(sheetData: string, sharedStrings: string[] = []): Buffer {
+  return zip({
+    'xl/workbook.xml': '<workbook><sheets><sheet name="Growth" sheetId="1" r:id="rId1"/></sheets></workbook>',
+    'xl/_rels/workbook.xml.rels':
+      '<Relationships><Relationship Id="rId1" Type="worksheet" Target="worksheets/sheet1.xml"/></Relationships>',
+    'xl/sharedStrings.xml': `<sst>${sharedStrings.map(s => `<si><t>${s}</t></si>`).join('')}</sst>`,
+    'xl/worksheets/sheet1.xml': `<worksheet><sheetData>${sheetData}</sheetData></worksheet>`
+  });
+}
+
+describe('SpreadsheetReader', () => {
+  describe('CSV', () => {
+    it('reads quoted cells with embedded newlines, delimiters and quotes', () => {
+      const csv = '\uFEFFname;note\r\n"Ali";"line 1\nline 2"\r\n"Sara ""S""";"a;b"\r\nOmar\r\n';
+
+      expect(spreadsheetReader.read(Buffer.from(csv), 'growth.csv')).toEqual({
+        headers: ['name', 'note'],
+        rows: [
+          ['Ali', 'line 1\nline 2'],
+          ['Sara "S"', 'a;b'],
+          ['Omar', '']
+        ],
+        sourceRows: [2, 3, 4]
+      });
+    });
+
+    it('takes the delimiter from the first line', () => {
+      expect(spreadsheetReader.parseCsv('a,b;c\n1,2;3')).toEqual([
+        ['a', 'b;c'],
+        ['1', '2;3']
+      ]);
+      expect(spreadsheetReader.parseCsv('a\tb\n1\t2')).toEqual([
+        ['a', 'b'],
+        ['1', '2']
+      ]);
+    });
+  });
+
+  describe('XLSX', () => {
+    it('places sparse cells and rows by their references', () => {
+      const content = workbook(
+        '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="C1" t="inlineStr"><is><t>weight</t></is></c></row>' +
+          '<row r="3"><c r="A3" t="s"><v>1</v></c><c r="C3"><v>7.5</v></c></row>' +
+          '<row r="4"/>',
+        ['name', 'Ali &amp; Sara']
+      );
+
+      expect(spreadsheetReader.readXlsx(content)).toEqual([['name', '', 'weight'], [], ['Ali & Sara', '', '7.5'], []]);
+      expect(spreadsheetReader.read(content, 'growth.xlsx')).toEqual({
+        headers: ['name', '', 'weight'],
+        rows: [['Ali & Sara', '', '7.5']],
+        sourceRows: [3]
+      });
+    });
+
+    it('recognises a zip by its signature whatever the file is called', () => {
+      const content = workbook('<row r="1"><c r="A1" t="inlineStr"><is><t>name</t></is></c></row>');
+      expect(spreadsheetReader.read(content, 'upload').headers).toEqual(['name']);
+    });
+
+    it('rejects a truncated archive', () => {
+      const content = workbook('<row r="1"><c r="A1"><v>1</v></c></row>');
+      expect(() => spreadsheetReader.read(content.subarray(0, content.length - 10), 'growth.xlsx')).toThrow(
+        'Not a valid XLSX file'
+      );
+    });
+
+    it('rejects a central directory that points past the end of the file', () => {
+      const content = workbook('<row r="1"><c r="A1"><v>1</v></c></row>');
+      content.writeUInt32LE(content.length + 100, content.length - 6);
+      expect(() => spreadsheetReader.read(content, 'growth.xlsx')).toThrow('Not a valid XLSX file');
+    });
+
+    it('refuses an archive that unpacks past the size cap', () => {
+      const bomb = zip({ 'xl/worksheets/sheet1.xml': Buffer.alloc(65 * 1024 * 1024) });
+      expect(bomb.length).toBeLessThan(1024 * 1024);
+      expect(() => spreadsheetReader.read(bomb, 'growth.xlsx')).toThrow('The XLSX file unpacks to more than 64 MB');
+    });
+  });
+});
@@ -0,0 +1,259 @@
+// src/utils/import/spreadsheet.ts
+import { inflateRawSync } from 'node:zlib';
+
+export interface SpreadsheetTable {
+  headers: string[];
+  /** Data rows below the header, each padded to the header's width */
+  rows: string[][];
+  /** 1-based line or row number of each data row in the source file */
+  sourceRows: number[];
+}
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+/** Most an XLSX may unpack to, all files together; guards against zip bombs */
+const MAX_INFLATED_BYTES = 64 * 1024 * 1024;
+const CENTRAL_HEADER_BYTES = 46;
+const LOCAL_HEADER_BYTES = 30;
+const END_RECORD_BYTES = 22;
+
+/**
+ * Reads the first table of a CSV or XLSX file into rows of text. XLSX is
+ * read directly from the zip, so cells come back as stored: numbers as
+ * written and dates as Excel serial numbers.
+ */
+export class SpreadsheetReader {
+  read(content: Buffer, fileName: string): SpreadsheetTable {
+    const rows = this.isXlsx(content, fileName) ? this.readXlsx(content) : this.parseCsv(content.toString('utf8'));
+    const numbered = rows
+      .map((cells, index) => ({ cells: cells.map(c => c.trim()), line: index + 1 }))
+      .filter(row => row.cells.some(Boolean));
+
+    const header = numbered.shift();
+    if (!header) {
+      return { headers: [], rows: [], sourceRows: [] };
+    }
+
+    const width = header.cells.length;
+    return {
+      headers: header.cells,
+      rows: numbered.map(row => Array.from({ length: width }, (_, i) => row.cells[i] ?? '')),
+      sourceRows: numbered.map(row => row.line)
+    };
+  }
+
+  /**
+   * RFC 4180 CSV, with the delimiter (comma, semicolon or tab) taken from the
+   * first line; spreadsheet exports in comma-decimal locales use semicolons
+   */
+  parseCsv(text: string): string[][] {
+    const source = text.replace(/^\uFEFF/, '');
+    const firstLine = source.split('\n', 1)[0] ?? '';
+    const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+      firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+    );
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+
+    for (let i = 0; i < source.length; i++) {
+      const char = source[i];
+
+      if (quoted) {
+        if (char === '"' && source[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          cell += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        quoted = true;
+      } else if (char === delimiter) {
+        row.push(cell);
+        cell = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && source[i + 1] === '\n') i++;
+        row.push(cell);
+        rows.push(row);
+        row = [];
+        cell = '';
+      } else {
+        cell += char;
+      }
+    }
+
+    if (cell || row.length) {
+      row.push(cell);
+      rows.push(row);
+    }
+    return rows;
+  }
+
+  /**
+   * Cells of the workbook's first sheet
+   */
+  readXlsx(content: Buffer): string[][] {
+    const entries = this.unzip(content);
+    const text = (name: string) => entries.get(name)?.toString('utf8');
+
+    const sharedStrings = [...(text('xl/sharedStrings.xml') ?? '').matchAll(/<si>([\s\S]*?)<\/si>/g)].map(match =>
+      this.innerText(match[1] ?? '')
+    );
+
+    const sheet = text(this.firstSheetPath(text('xl/workbook.xml'), text('xl/_rels/workbook.xml.rels')));
+    if (!sheet) {
+      throw new Error('The workbook has no worksheets');
+    }
+
+    const rows: string[][] = [];
+    for (const rowMatch of sheet.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+      const rowNumber = Number(/\br="(\d+)"/.exec(rowMatch[1] ?? '')?.[1] ?? rows.length + 1);
+      const cells: string[] = [];
+
+      for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+        const attributes = cellMatch[1] ?? '';
+        const body = cellMatch[2] ?? '';
+        const reference = /\br="([A-Z]+)\d+"/.exec(attributes)?.[1];
+        const column = reference ? this.columnIndex(reference) : cells.length;
+        const type = /\bt="(\w+)"/.exec(attributes)?.[1];
+        const value = this.decode(/<v>([\s\S]*?)<\/v>/.exec(body)?.[1] ?? '');
+
+        if (type === 's') cells[column] = sharedStrings[Number(value)] ?? '';
+        else if (type === 'inlineStr') cells[column] = this.innerText(body);
+        else cells[column] = value;
+      }
+
+      // Blank rows are left out of the sheet; keep row numbers in step
+      while (rows.length < rowNumber - 1) rows.push([]);
+      rows.push(Array.from(cells, cell => cell ?? ''));
+    }
+
+    return rows;
+  }
+
+  // ==================== HELPERS ====================
+
+  private isXlsx(content: Buffer, fileName: string): boolean {
+    // Zip local file header
+    return (
+      fileName.toLowerCase().endsWith('.xlsx') || (content.length >= 4 && content.readUInt32LE(0) === 0x04_03_4b_50)
+    );
+  }
+
+  /**
+   * Files of a zip archive, from its central directory. Every offset is
+   * checked against the buffer and the inflated total is capped, so a
+   * malformed or hostile archive fails instead of reading out of range or
+   * exhausting memory.
+   */
+  private unzip(content: Buffer): Map<string, Buffer> {
+    const entries = new Map<string, Buffer>();
+    const invalid = () => new Error('Not a valid XLSX file');
+    const within = (start: number, length: number) => {
+      if (start < 0 || start + length > content.length) throw invalid();
+    };
+
+    let end = content.length - END_RECORD_BYTES;
+    while (end >= 0 && content.readUInt32LE(end) !== 0x06_05_4b_50) end--;
+    if (end < 0) {
+      throw invalid();
+    }
+
+    const count = content.readUInt16LE(end + 10);
+    let offset = content.readUInt32LE(end + 16);
+    let inflated = 0;
+
+    for (let i = 0; i < count; i++) {
+      within(offset, CENTRAL_HEADER_BYTES);
+      if (content.readUInt32LE(offset) !== 0x02_01_4b_50) break;
+
+      const method = content.readUInt16LE(offset + 10);
+      const compressedSize = content.readUInt32LE(offset + 20);
+      const nameLength = content.readUInt16LE(offset + 28);
+      const extraLength = content.readUInt16LE(offset + 30);
+      const commentLength = content.readUInt16LE(offset + 32);
+      const localOffset = content.readUInt32LE(offset + 42);
+      within(offset + CENTRAL_HEADER_BYTES, nameLength);
+      const name = content.toString('utf8', offset + CENTRAL_HEADER_BYTES, offset + CENTRAL_HEADER_BYTES + nameLength);
+
+      within(localOffset, LOCAL_HEADER_BYTES);
+      const dataStart =
+        localOffset +
+        LOCAL_HEADER_BYTES +
+        content.readUInt16LE(localOffset + 26) +
+        content.readUInt16LE(localOffset + 28);
+      within(dataStart, compressedSize);
+      const data = content.subarray(dataStart, dataStart + compressedSize);
+
+      const file = method === 0 ? data : method === 8 ? this.inflate(data, MAX_INFLATED_BYTES - inflated) : null;
+      if (file) {
+        inflated += file.length;
+        if (inflated > MAX_INFLATED_BYTES) throw this.tooLarge();
+        entries.set(name, file);
+      }
+
+      offset += CENTRAL_HEADER_BYTES + nameLength + extraLength + commentLength;
+    }
+
+    return entries;
+  }
+
+  /**
+   * Deflated file data, refused once it unpacks past `limit` bytes
+   */
+  private inflate(data: Buffer, limit: number): Buffer {
+    if (limit <= 0) throw this.tooLarge();
+    try {
+      return inflateRawSync(data, { maxOutputLength: limit });
+    } catch (error) {
+      if (error instanceof RangeError) throw this.tooLarge();
+      throw error;
+    }
+  }
+
+  private tooLarge(): Error {
+    return new Error(`The XLSX file unpacks to more than ${MAX_INFLATED_BYTES / (1024 * 1024)} MB`);
+  }
+
+  private firstSheetPath(workbook: string | undefined, relationships: string | undefined): string {
+    const relationId = /<sheet\b[^>]*\br:id="([^"]+)"/.exec(workbook ?? '')?.[1];
+    const target = relationId
+      ? (new RegExp(`<Relationship\\b[^>]*\\bId="${relationId}"[^>]*\\bTarget="([^"]+)"`).exec(
+          relationships ?? ''
+        )?.[1] ??
+        new RegExp(`<Relationship\\b[^>]*\\bTarget="([^"]+)"[^>]*\\bId="${relationId}"`).exec(relationships ?? '')?.[1])
+      : undefined;
+
+    if (!target) return 'xl/worksheets/sheet1.xml';
+    return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+  }
+
+  /** "A" → 0, "AB" → 27 */
+  private columnIndex(letters: string): number {
+    return [...letters].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+  }
+
+  /**
+   * Text of every <t> run in a shared or inline string
+   */
+  private innerText(xml: string): string {
+    return [...xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)].map(match => this.decode(match[1] ?? '')).join('');
+  }
+
+  private decode(value: string): string {
+    return value.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (entity, code: string) => {
+      if (code.startsWith('#x') || code.startsWith('#X'))
+        return String.fromCodePoint(Number.parseInt(code.slice(2), 16));
+      if (code.startsWith('#')) return String.fromCodePoint(Number(code.slice(1)));
+      return XML_ENTITIES[code] ?? entity;
+    });
+  }
+}
+
+export const spreadsheetReader = new SpreadsheetReader();
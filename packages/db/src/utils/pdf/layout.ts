@@ -0,0 +1,114 @@
+// src/utils/pdf/layout.ts
+import { logger } from '@naroto/logger';
+import { type PDFDocument, type PDFFont, type PDFImage, type PDFPage, rgb } from 'pdf-lib';
+
+// A4 in PDF points
+export const PAGE_WIDTH = 595.28;
+export const PAGE_HEIGHT = 841.89;
+export const MARGIN = 48;
+
+export interface PdfFonts {
+  bold: PDFFont;
+  regular: PDFFont;
+}
+
+export interface PdfClinicHeader {
+  address: string | null;
+  name: string;
+  phone: string | null;
+}
+
+/**
+ * Page furniture shared by the clinic's printed documents
+ */
+export class PdfLayout {
+  /**
+   * Fetch and embed the clinic logo. Best effort: a missing or unsupported
+   * logo must not block the document.
+   */
+  async embedLogo(pdfDoc: PDFDocument, logoUrl: string | null): Promise<PDFImage | null> {
+    if (!logoUrl) return null;
+
+    try {
+      const response = await fetch(logoUrl, { signal: AbortSignal.timeout(5000) });
+      if (!response.ok) return null;
+
+      const bytes = new Uint8Array(await response.arrayBuffer());
+      // PNG signature starts with 0x89 'P'; JPEG with 0xFF 0xD8
+      if (bytes[0] === 0x89 && bytes[1] === 0x50) return await pdfDoc.embedPng(bytes);
+      if (bytes[0] === 0xff && bytes[1] === 0xd8) return await pdfDoc.embedJpg(bytes);
+      return null;
+    } catch (error) {
+      logger.warn('Clinic logo could not be embedded in PDF', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Clinic name, contact line and logo across the top of the page; returns
+   * the y position to continue from
+   */
+  drawHeader(page: PDFPage, fonts: PdfFonts, clinic: PdfClinicHeader, logo: PDFImage | null): number {
+    const top = PAGE_HEIGHT - MARGIN;
+    let textX = MARGIN;
+
+    if (logo) {
+      const scaled = logo.scaleToFit(64, 64);
+      page.drawImage(logo, { x: MARGIN, y: top - scaled.height, width: scaled.width, height: scaled.height });
+      textX += scaled.width + 12;
+    }
+
+    page.drawText(this.toPdfText(clinic.name), { x: textX, y: top - 16, size: 16, font: fonts.bold });
+    const contact = [clinic.address, clinic.phone].filter(Boolean).join(' | ');
+    if (contact) {
+      page.drawText(this.fitText(contact, fonts.regular, 9, PAGE_WIDTH - MARGIN - textX), {
+        x: textX,
+        y: top - 32,
+        size: 9,
+        font: fonts.regular
+      });
+    }
+
+    const ruleY = top - 76;
+    page.drawLine({
+      start: { x: MARGIN, y: ruleY },
+      end: { x: PAGE_WIDTH - MARGIN, y: ruleY },
+      thickness: 1,
+      color: rgb(0.8, 0.8, 0.8)
+    });
+
+    return ruleY - 30;
+  }
+
+  fitText(text: string, font: PDFFont, size: number, maxWidth: number): string {
+    let value = this.toPdfText(text);
+    if (font.widthOfTextAtSize(value, size) <= maxWidth) return value;
+
+    while (value.length > 1 && font.widthOfTextAtSize(`${value}...`, size) > maxWidth) {
+      value = value.slice(0, -1);
+    }
+    return `${value}...`;
+  }
+
+  /**
+   * The standard PDF fonts only cover WinAnsi; replace anything else so
+   * non-Latin names do not abort rendering
+   */
+  toPdfText(text: string): string {
+    return text.replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+  }
+
+  /**
+   * Lower-case file name safe for Content-Disposition headers
+   */
+  fileName(...parts: string[]): string {
+    return parts
+      .join('-')
+      .toLowerCase()
+      .replace(/[^a-z0-9.-]+/g, '-');
+  }
+}
+
+export const pdfLayout = new PdfLayout();
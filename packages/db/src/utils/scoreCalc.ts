@@ -27,19 +27,6 @@ export function classifyGrowthStatus(
   return 'NORMAL';
 }
 
-export async function checkGrowthAlerts(
-  vitalId: string,
-  data: {
-    weightForAgeZ?: number | null;
-    heightForAgeZ?: number | null;
-  }
-) {
-  if ((data.weightForAgeZ && data.weightForAgeZ < -3) || (data.heightForAgeZ && data.heightForAgeZ < -3)) {
-    // Future: notify doctor / add alert table
-    console.warn(`🚨 Severe growth deviation for vital ${vitalId}`);
-  }
-}
-
 // --- WHO Percentiles Calculation ---
 export async function calculateWHOPercentiles(
   weight: number | undefined,
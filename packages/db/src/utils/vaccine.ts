@@ -1,31 +1,10 @@
 import { prisma } from '../client';
+import { immunizationService } from '../services/immunization/due-calculator';
 import { toNumber } from './decimal';
 
 // Helper functions
 export async function calculateImmunizationsDue(clinicId: string): Promise<number> {
-  const patients = await prisma.patient.findMany({
-    where: { clinicId, isDeleted: false },
-    select: { id: true, dateOfBirth: true }
-  });
-
-  const schedule = await prisma.vaccineSchedule.findMany();
-  let dueCount = 0;
-
-  for (const patient of patients) {
-    const ageDays = Math.floor((Date.now() - new Date(patient.dateOfBirth).getTime()) / (1000 * 60 * 60 * 24));
-
-    // const _immunizations = await prisma.immunization.count({
-    //   where: { patientId: patient.id }
-    // });
-
-    for (const vaccine of schedule) {
-      if (vaccine.ageInDaysMin && ageDays >= vaccine.ageInDaysMin) {
-        dueCount++;
-      }
-    }
-  }
-
-  return dueCount;
+  return immunizationService.getClinicDueCount(clinicId);
 }
 
 export async function calculateImmunizationsCompleted(
@@ -0,0 +1,194 @@
+import { describe, expect, it } from 'vitest';
+
+import type { DoseGuideline } from '../../../generated/client';
+import { type DosingAge, doseGuidelineMatcher } from './dose-guideline';
+
+let nextId = 0;
+
+function guideline(overrides: Partial<DoseGuideline>): DoseGuideline {
+  nextId += 1;
+  return {
+    id: `guideline-${nextId}`,
+    drugId: 'drug-1',
+    route: 'IV',
+    clinicalIndication: 'General dosing',
+    minDosePerKg: null,
+    maxDosePerKg: null,
+    doseUnit: 'mg/kg/dose',
+    frequencyDays: null,
+    gestationalAgeWeeksMin: null,
+    gestationalAgeWeeksMax: null,
+    postNatalAgeDaysMin: null,
+    postNatalAgeDaysMax: null,
+    maxDosePer24h: null,
+    stockConcentrationMgMl: null,
+    finalConcentrationMgMl: null,
+    minInfusionTimeMin: null,
+    compatibilityDiluent: null,
+    createdAt: new Date('2026-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2026-01-01T00:00:00.000Z'),
+    ...overrides
+  };
+}
+
+const BORN = new Date('2026-01-01T00:00:00.000Z');
+const TERM_INFANT: DosingAge = { postmenstrualAgeWeeks: null, postnatalAgeDays: 60 };
+
+function daysOld(days: number): Date {
+  return new Date(BORN.getTime() + days * 24 * 60 * 60 * 1000);
+}
+
+describe('DoseGuidelineMatcher', () => {
+  describe('dosingAge', () => {
+    it('adds postnatal days to the gestation at birth', () => {
+      const age = doseGuidelineMatcher.dosingAge(
+        { dateOfBirth: BORN, gestationalAgeWeeks: 29, gestationalAgeDays: 6 },
+        daysOld(1)
+      );
+      expect(age).toEqual({ postnatalAgeDays: 1, postmenstrualAgeWeeks: 30 });
+    });
+
+    it('leaves postmenstrual age unknown without a gestation', () => {
+      expect(doseGuidelineMatcher.dosingAge({ dateOfBirth: BORN }, daysOld(10))).toEqual({
+        postnatalAgeDays: 10,
+        postmenstrualAgeWeeks: null
+      });
+    });
+  });
+
+  describe('match', () => {
+    const band = guideline({ gestationalAgeWeeksMin: 30, gestationalAgeWeeksMax: 34 });
+    const pmaAt = (weeks: number, days: number, postnatalDays: number) =>
+      doseGuidelineMatcher.dosingAge(
+        { dateOfBirth: BORN, gestationalAgeWeeks: weeks, gestationalAgeDays: days },
+        daysOld(postnatalDays)
+      );
+
+    it('starts a gestational band at its first completed week of postmenstrual age', () => {
+      expect(doseGuidelineMatcher.match([band], {}, pmaAt(29, 6, 0))).toEqual([]);
+      expect(doseGuidelineMatcher.match([band], {}, pmaAt(29, 6, 1))).toEqual([band]);
+    });
+
+    it('keeps a gestational band through the whole of its last week', () => {
+      expect(doseGuidelineMatcher.match([band], {}, pmaAt(34, 0, 6))).toEqual([band]);
+      expect(doseGuidelineMatcher.match([band], {}, pmaAt(34, 0, 7))).toEqual([]);
+    });
+
+    it('does not place a gestational band without a gestation', () => {
+      expect(doseGuidelineMatcher.match([band], {}, TERM_INFANT)).toEqual([]);
+    });
+
+    it('prefers the later of two postnatal bands that meet', () => {
+      const early = guideline({ postNatalAgeDaysMin: 0, postNatalAgeDaysMax: 14 });
+      const late = guideline({ postNatalAgeDaysMin: 14 });
+      const age = { postmenstrualAgeWeeks: null, postnatalAgeDays: 14 };
+      expect(doseGuidelineMatcher.match([early, late], {}, age)).toEqual([late, early]);
+    });
+
+    it('filters on route, unit and indication', () => {
+      const oral = guideline({ route: 'PO' });
+      const mcg = guideline({ doseUnit: 'mcg/kg/dose' });
+      const meningitis = guideline({ clinicalIndication: 'Meningitis' });
+
+      expect(doseGuidelineMatcher.match([oral, mcg, meningitis], { route: 'po' }, TERM_INFANT)).toEqual([oral]);
+      expect(doseGuidelineMatcher.match([oral, mcg, meningitis], { unit: 'MCG' }, TERM_INFANT)).toEqual([mcg]);
+      expect(doseGuidelineMatcher.match([oral, mcg, meningitis], { indication: 'mening' }, TERM_INFANT)).toEqual([
+        meningitis
+      ]);
+    });
+
+    it('puts general dosing first when no indication is given', () => {
+      const specific = guideline({ clinicalIndication: 'Meningitis' });
+      const general = guideline({ clinicalIndication: 'General dosing' });
+      expect(doseGuidelineMatcher.match([specific, general], {}, TERM_INFANT)).toEqual([general, specific]);
+    });
+  });
+
+  describe('dosesPer24h', () => {
+    it('reads guideline and prescription frequencies', () => {
+      expect(doseGuidelineMatcher.dosesPer24h('Q8-12H')).toBe(3);
+      expect(doseGuidelineMatcher.dosesPer24h('Q36H')).toBeCloseTo(2 / 3);
+      expect(doseGuidelineMatcher.dosesPer24h('every 6 hours')).toBe(4);
+      expect(doseGuidelineMatcher.dosesPer24h('twice daily')).toBe(2);
+      expect(doseGuidelineMatcher.dosesPer24h('3 times daily')).toBe(3);
+      expect(doseGuidelineMatcher.dosesPer24h('Single dose')).toBe(1);
+    });
+
+    it('cannot count continuous or as-needed dosing', () => {
+      expect(doseGuidelineMatcher.dosesPer24h('Continuous')).toBeNull();
+      expect(doseGuidelineMatcher.dosesPer24h('Q3-5min PRN')).toBeNull();
+      expect(doseGuidelineMatcher.dosesPer24h('with meals')).toBeNull();
+    });
+  });
+
+  describe('doseRange', () => {
+    const item = { dosageUnit: 'MG', drugRoute: 'IV', frequency: 'every 8 hours' };
+
+    it('converts mass guidelines to mg/kg for a dose in mg', () => {
+      const mcg = guideline({ doseUnit: 'mcg/kg/dose', minDosePerKg: 10, maxDosePerKg: 20, maxDosePer24h: 60 });
+      expect(doseGuidelineMatcher.doseRange([mcg], item, true, TERM_INFANT)).toEqual({
+        applicable: 1,
+        range: { minDosePerKg: 0.01, maxDosePerKg: 0.02, maxDosePer24h: 0.06 }
+      });
+
+      const grams = guideline({ doseUnit: 'g/kg/dose', minDosePerKg: 0.5, maxDosePerKg: 1 });
+      expect(doseGuidelineMatcher.doseRange([grams], item, true, TERM_INFANT).range).toMatchObject({
+        minDosePerKg: 500,
+        maxDosePerKg: 1000
+      });
+    });
+
+    it('divides a per-day range by the doses per day', () => {
+      const daily = guideline({ doseUnit: 'mg/kg/day', minDosePerKg: 30, maxDosePerKg: 60, maxDosePer24h: 60 });
+      expect(doseGuidelineMatcher.doseRange([daily], item, true, TERM_INFANT).range).toEqual({
+        minDosePerKg: 10,
+        maxDosePerKg: 20,
+        maxDosePer24h: 60
+      });
+    });
+
+    it('checks against the narrowest range when no indication is given', () => {
+      const general = guideline({ clinicalIndication: 'General dosing', minDosePerKg: 10, maxDosePerKg: 40 });
+      const meningitis = guideline({ clinicalIndication: 'Meningitis', minDosePerKg: 15, maxDosePerKg: 20 });
+      const unbounded = guideline({ clinicalIndication: 'Sepsis', minDosePerKg: 5 });
+
+      expect(doseGuidelineMatcher.doseRange([general, meningitis, unbounded], item, true, TERM_INFANT).range).toEqual({
+        minDosePerKg: 15,
+        maxDosePerKg: 20,
+        maxDosePer24h: null
+      });
+    });
+
+    it("checks against the indication's own guideline when one is given", () => {
+      const general = guideline({ clinicalIndication: 'General dosing', minDosePerKg: 15, maxDosePerKg: 20 });
+      const meningitis = guideline({ clinicalIndication: 'Meningitis', minDosePerKg: 10, maxDosePerKg: 40 });
+
+      expect(
+        doseGuidelineMatcher.doseRange([general, meningitis], { ...item, indication: 'meningitis' }, true, TERM_INFANT)
+          .range
+      ).toMatchObject({ minDosePerKg: 10, maxDosePerKg: 40 });
+    });
+
+    it('finds no guideline to check a dose against when none apply', () => {
+      const oral = guideline({ route: 'PO', minDosePerKg: 10, maxDosePerKg: 20 });
+      const units = guideline({ doseUnit: 'units/kg/dose', minDosePerKg: 50, maxDosePerKg: 100 });
+
+      expect(doseGuidelineMatcher.doseRange([oral, units], item, true, TERM_INFANT)).toEqual({
+        applicable: 0,
+        range: null
+      });
+      // A volume that cannot be converted only meets guidelines in mL
+      expect(
+        doseGuidelineMatcher.doseRange([oral], { ...item, dosageUnit: 'ML', drugRoute: 'PO' }, false, TERM_INFANT)
+      ).toEqual({ applicable: 0, range: null });
+      // Nor can a guideline banded by gestation place a baby of unknown gestation
+      const preterm = guideline({ gestationalAgeWeeksMax: 36, minDosePerKg: 10, maxDosePerKg: 20 });
+      expect(doseGuidelineMatcher.doseRange([preterm], item, true, TERM_INFANT).applicable).toBe(0);
+    });
+
+    it('counts infusion rates as applicable without checking a single dose against them', () => {
+      const rate = guideline({ doseUnit: 'mcg/kg/min', minDosePerKg: 0.05, maxDosePerKg: 0.5 });
+      expect(doseGuidelineMatcher.doseRange([rate], item, true, TERM_INFANT)).toEqual({ applicable: 1, range: null });
+    });
+  });
+});
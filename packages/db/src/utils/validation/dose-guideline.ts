@@ -0,0 +1,292 @@
+// src/utils/validation/dose-guideline.ts
+import type { DoseGuideline } from '../../../generated/client';
+
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+/** Conversions to mg, the unit stock concentrations are given in */
+export const MG_PER_UNIT: Record<string, number> = { g: 1000, mg: 1, mcg: 0.001 };
+const WORD_COUNTS: Record<string, number> = { once: 1, twice: 2 };
+
+/**
+ * What a guideline's per-kg range is measured against: a single dose, the
+ * total over a day, or the rate of a continuous infusion
+ */
+export type DoseBasis = 'dose' | 'day' | 'rate';
+
+export interface DosingPatient {
+  dateOfBirth: Date | string;
+  gestationalAgeDays?: number | null;
+  /** Completed weeks of gestation at birth */
+  gestationalAgeWeeks?: number | null;
+}
+
+export interface GuidelineCriteria {
+  indication?: string | null;
+  route?: string | null;
+  /** Amount unit of the dose, e.g. "MG", compared with the start of "mg/kg/dose" */
+  unit?: string | null;
+}
+
+export interface DosingAge {
+  /** Gestation at birth plus postnatal age, in completed weeks; null when gestation is unknown */
+  postmenstrualAgeWeeks: number | null;
+  postnatalAgeDays: number | null;
+}
+
+/**
+ * The parts of a prescribed item that choose its guideline
+ */
+export interface DoseRangeItem {
+  dosageUnit: string;
+  drugRoute?: string | null;
+  frequency: string;
+  indication?: string | null;
+}
+
+/**
+ * Per-kg bounds for a single dose, in mg or the item's own unit
+ */
+export interface DoseRange {
+  maxDosePer24h: number | null;
+  maxDosePerKg: number | null;
+  minDosePerKg: number | null;
+}
+
+export interface DosePreparation {
+  diluent: string | null;
+  /** Diluent to add to the drawn stock; 0 when the stock is given as it is */
+  diluentVolumeMl: number;
+  finalConcentrationMgMl: number;
+  /** Volume to give once diluted */
+  finalVolumeMl: number;
+  minInfusionTimeMin: number | null;
+  stockConcentrationMgMl: number;
+  /** Stock solution to draw up */
+  stockVolumeMl: number;
+}
+
+/**
+ * Picks the dose guideline that fits a patient and works out the numbers
+ * around it: doses per day from a frequency, the 24-hour total and how to
+ * draw up and dilute a dose. Neonatal guidelines are banded by route,
+ * indication, gestation and postnatal age.
+ */
+export class DoseGuidelineMatcher {
+  /**
+   * Guidelines that apply, best first. Age bands include both ends, so where
+   * adjoining bands meet (PNA 0–14 and 14+) the later band is preferred. With
+   * no indication given, general dosing comes before specific indications.
+   */
+  match<T extends DoseGuideline>(guidelines: T[], criteria: GuidelineCriteria, age: DosingAge): T[] {
+    const route = criteria.route?.toUpperCase();
+    const unit = criteria.unit?.toLowerCase();
+    const indication = criteria.indication?.toLowerCase();
+
+    const applicable = guidelines.filter(g => {
+      if (route && g.route.toUpperCase() !== route) return false;
+      if (unit && this.amountUnit(g.doseUnit) !== unit) return false;
+      if (indication && !g.clinicalIndication.toLowerCase().includes(indication)) return false;
+
+      // Gestational bands in neonatal tables are read at postmenstrual age
+      if (!this.withinBand(age.postmenstrualAgeWeeks, g.gestationalAgeWeeksMin, g.gestationalAgeWeeksMax)) return false;
+      return this.withinBand(age.postnatalAgeDays, g.postNatalAgeDaysMin, g.postNatalAgeDaysMax);
+    });
+
+    return applicable.sort(
+      (a, b) =>
+        (indication ? 0 : Number(this.isGeneral(b)) - Number(this.isGeneral(a))) ||
+        this.bandStart(b) - this.bandStart(a) ||
+        this.bandCount(b) - this.bandCount(a)
+    );
+  }
+
+  /**
+   * The range a single dose of an item is checked against, from the
+   * guidelines for its route and indication at the patient's age. A dose in
+   * mg takes every mass guideline, converted to mg/kg; any other dose only
+   * those in its own unit. Per-day ranges are divided by the doses per day at
+   * the item's frequency, and infusion rates do not apply to a single dose.
+   * With an indication the best match is used; without one, the narrowest
+   * range of those that fit, so no indication's dosing is exceeded.
+   * `applicable` counts the guidelines that fit, rates included; none means
+   * the item cannot be checked against the drug's guidelines.
+   */
+  doseRange<T extends DoseGuideline>(
+    guidelines: T[],
+    item: DoseRangeItem,
+    inMg: boolean,
+    age: DosingAge
+  ): { applicable: number; range: DoseRange | null } {
+    const dosesPerDay = this.dosesPer24h(item.frequency);
+    const mgPerUnit = (g: T) => MG_PER_UNIT[this.amountUnit(g.doseUnit) ?? ''];
+    const matched = this.match(
+      guidelines,
+      { route: item.drugRoute, indication: item.indication, unit: inMg ? null : item.dosageUnit },
+      age
+    ).filter(g => !inMg || mgPerUnit(g) !== undefined);
+
+    const ranges = matched.flatMap((g): DoseRange[] => {
+      const basis = this.basis(g.doseUnit);
+      if (basis === 'rate' || (basis === 'day' && !dosesPerDay)) return [];
+
+      const scale = inMg ? (mgPerUnit(g) as number) : 1;
+      const divisor = basis === 'day' ? (dosesPerDay as number) : 1;
+      return [
+        {
+          minDosePerKg: g.minDosePerKg === null ? null : (g.minDosePerKg * scale) / divisor,
+          maxDosePerKg: g.maxDosePerKg === null ? null : (g.maxDosePerKg * scale) / divisor,
+          maxDosePer24h: g.maxDosePer24h === null ? null : g.maxDosePer24h * scale
+        }
+      ];
+    });
+
+    const width = (range: DoseRange) =>
+      range.maxDosePerKg === null ? Number.POSITIVE_INFINITY : range.maxDosePerKg - (range.minDosePerKg ?? 0);
+    // Matches come best first; a stable sort keeps that order between equal widths
+    const [range] = item.indication ? ranges : [...ranges].sort((a, b) => width(a) - width(b));
+    return { applicable: matched.length, range: range ?? null };
+  }
+
+  /**
+   * Ages guidelines are banded by, from the date of birth and gestation
+   */
+  dosingAge(patient: DosingPatient, at: Date = new Date()): DosingAge {
+    const postnatalAgeDays = Math.max(
+      0,
+      Math.floor((at.getTime() - new Date(patient.dateOfBirth).getTime()) / MS_PER_DAY)
+    );
+    const gestationDays =
+      patient.gestationalAgeWeeks === null || patient.gestationalAgeWeeks === undefined
+        ? null
+        : patient.gestationalAgeWeeks * 7 + (patient.gestationalAgeDays ?? 0);
+
+    return {
+      postnatalAgeDays,
+      postmenstrualAgeWeeks: gestationDays === null ? null : Math.floor((gestationDays + postnatalAgeDays) / 7)
+    };
+  }
+
+  /**
+   * "mg/kg/dose" → dose, "mg/kg/day" → day, "mcg/kg/min" → rate
+   */
+  basis(doseUnit: string | null | undefined): DoseBasis {
+    const per = doseUnit?.toLowerCase().split('/').at(-1);
+    if (per === 'day') return 'day';
+    if (per === 'min' || per === 'hr' || per === 'h') return 'rate';
+    return 'dose';
+  }
+
+  /**
+   * Doses given over 24 hours; null when that cannot be known in advance
+   * (continuous, as needed). Guideline frequencies ("Q8-12H", "Q48H",
+   * "Single dose") and prescription ones ("twice daily", "every 6 hours")
+   * are both read; a range is counted at its shortest interval.
+   */
+  dosesPer24h(frequency: string | null | undefined): number | null {
+    const text = frequency?.trim().toLowerCase();
+    if (!text) return null;
+
+    const capped = /max (\d+) doses/.exec(text);
+    if (capped) return Number(capped[1]);
+    if (text.includes('single dose')) return 1;
+    if (text.includes('prn') || text.includes('continuous')) return null;
+
+    const interval = /^q(\d+(?:\.\d+)?)(?:-\d+(?:\.\d+)?)?h/.exec(text) ?? /every (\d+(?:\.\d+)?) hours?/.exec(text);
+    if (interval) return 24 / Number(interval[1]);
+
+    const count = /^(once|twice|\d+ times?) (daily|weekly|monthly)/.exec(text);
+    if (count) {
+      const [, times = '', period] = count;
+      const perPeriod = WORD_COUNTS[times] ?? Number.parseInt(times, 10);
+      return perPeriod / (period === 'weekly' ? 7 : period === 'monthly' ? 30 : 1);
+    }
+
+    return null;
+  }
+
+  /**
+   * Total per kg over 24 hours for a dose per kg measured on `doseUnit`'s
+   * basis; null when a per-dose amount is given at an unknown frequency
+   */
+  dailyDosePerKg(
+    dosePerKg: number,
+    doseUnit: string | null | undefined,
+    frequency: string | null | undefined
+  ): number | null {
+    const basis = this.basis(doseUnit);
+    if (basis === 'day') return dosePerKg;
+    if (basis === 'rate') return dosePerKg * (doseUnit?.toLowerCase().endsWith('/min') ? 24 * 60 : 24);
+
+    const doses = this.dosesPer24h(frequency);
+    return doses === null ? null : dosePerKg * doses;
+  }
+
+  /**
+   * How to draw up a single dose from the guideline's stock and dilute it to
+   * the final concentration. Null for infusion rates, units that do not
+   * convert to mg, and guidelines without a stock concentration.
+   */
+  prepare(dose: number, unit: string, guideline: DoseGuideline): DosePreparation | null {
+    const mgPerUnit = MG_PER_UNIT[unit.toLowerCase()];
+    const stock = guideline.stockConcentrationMgMl;
+    if (!(mgPerUnit && stock) || this.basis(guideline.doseUnit) === 'rate') return null;
+
+    const doseMg = dose * mgPerUnit;
+    const stockVolumeMl = doseMg / stock;
+    // A final concentration at or above the stock means no dilution
+    const final =
+      guideline.finalConcentrationMgMl && guideline.finalConcentrationMgMl < stock
+        ? guideline.finalConcentrationMgMl
+        : stock;
+    const finalVolumeMl = doseMg / final;
+
+    return {
+      stockConcentrationMgMl: stock,
+      stockVolumeMl: this.round(stockVolumeMl),
+      finalConcentrationMgMl: final,
+      finalVolumeMl: this.round(finalVolumeMl),
+      diluentVolumeMl: this.round(finalVolumeMl - stockVolumeMl),
+      diluent: final < stock ? guideline.compatibilityDiluent : null,
+      minInfusionTimeMin: guideline.minInfusionTimeMin
+    };
+  }
+
+  /**
+   * "mg" from "mg/kg/dose"
+   */
+  amountUnit(doseUnit: string | null | undefined): string | null {
+    return doseUnit?.toLowerCase().split('/')[0] ?? null;
+  }
+
+  // ==================== HELPERS ====================
+
+  private withinBand(value: number | null, min: number | null, max: number | null): boolean {
+    if (min === null && max === null) return true;
+    // A banded guideline cannot be placed without the age it is banded by
+    if (value === null) return false;
+    return (min === null || value >= min) && (max === null || value <= max);
+  }
+
+  private isGeneral(guideline: DoseGuideline): boolean {
+    return guideline.clinicalIndication.toLowerCase().startsWith('general');
+  }
+
+  private bandCount(guideline: DoseGuideline): number {
+    return [
+      guideline.gestationalAgeWeeksMin,
+      guideline.gestationalAgeWeeksMax,
+      guideline.postNatalAgeDaysMin,
+      guideline.postNatalAgeDaysMax
+    ].filter(bound => bound !== null).length;
+  }
+
+  private bandStart(guideline: DoseGuideline): number {
+    return (guideline.gestationalAgeWeeksMin ?? 0) * 7 + (guideline.postNatalAgeDaysMin ?? 0);
+  }
+
+  /** Volumes to 0.01 mL */
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+export const doseGuidelineMatcher = new DoseGuidelineMatcher();
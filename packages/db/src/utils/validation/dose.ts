@@ -1,22 +1,46 @@
 // src/utils/validation/dose.ts
 import { db, prisma } from '../../client';
 import type { DoseGuideline, PrescriptionItem } from '../../types/dose';
+import { type DosePreparation, doseGuidelineMatcher } from './dose-guideline';
 
 export interface DoseValidationResult {
+  /** Per kg over 24 hours, when weight and frequency are known */
+  dailyDosePerKg?: number | null;
   errors: string[];
+  /** The guideline the dose was checked against */
+  guideline?: {
+    clinicalIndication: string;
+    doseUnit: string | null;
+    frequency: string | null;
+    id: string;
+    maxDosePer24h: number | null;
+    route: string;
+  };
+  preparation?: DosePreparation | null;
   valid: boolean;
   warnings: string[];
 }
 
+export interface DoseContext {
+  /** As prescribed, e.g. "every 12 hours"; the guideline's own frequency otherwise */
+  frequency?: string;
+  indication?: string;
+  route?: string;
+}
+
 export class DoseValidator {
   /**
-   * Validate medication dose for pediatric patient
+   * Validate medication dose for pediatric patient. The guideline is chosen
+   * by route, indication, gestation and postnatal age; the dose per kg is
+   * checked against its range and the daily total against its 24-hour
+   * maximum, and the result says how to draw up and dilute the dose.
    */
   async validateDose(
     patientId: string,
     drugId: string,
     doseValue: number,
-    doseUnit: string
+    doseUnit: string,
+    context: DoseContext = {}
   ): Promise<DoseValidationResult> {
     const result: DoseValidationResult = {
       valid: true,
@@ -24,63 +48,81 @@ export class DoseValidator {
       warnings: []
     };
 
-    // Get patient's latest weight
-    const vitalSign = await prisma.vitalSigns.findFirst({
-      where: { patientId },
-      orderBy: { recordedAt: 'desc' },
-      include: { growthRecords: true }
-    });
-
-    const weightKg = vitalSign?.growthRecords[0]?.weight;
+    const [patient, weightKg, guidelines] = await Promise.all([
+      prisma.patient.findUnique({
+        where: { id: patientId },
+        select: { dateOfBirth: true, gestationalAgeWeeks: true, gestationalAgeDays: true }
+      }),
+      latestVitalsWeight(patientId),
+      prisma.doseGuideline.findMany({ where: { drugId } })
+    ]);
+
+    if (!patient) {
+      result.errors.push('Patient not found');
+      result.valid = false;
+      return result;
+    }
 
     if (!weightKg) {
       result.warnings.push('Patient weight not found. Unable to validate weight-based dose.');
     }
 
-    // Get drug guidelines
-    const guidelines = await prisma.doseGuideline.findMany({
-      where: { drugId }
-    });
-
     if (guidelines.length === 0) {
       result.warnings.push('No dosing guidelines found for this medication');
       return result;
     }
 
-    // Find matching guideline
-    const guideline = guidelines.find(g => g.doseUnit === doseUnit);
+    const [guideline] = doseGuidelineMatcher.match(
+      guidelines,
+      { route: context.route, indication: context.indication, unit: doseUnit },
+      doseGuidelineMatcher.dosingAge(patient)
+    );
 
     if (!guideline) {
-      result.warnings.push(`No guidelines found for unit: ${doseUnit}. Please verify dosage.`);
-      return result;
-    }
-
-    // Check fixed dose limits
-    if (guideline.minDosePerKg !== null && doseValue < guideline.minDosePerKg) {
-      result.errors.push(
-        `Dose (${doseValue}${doseUnit}) is below minimum recommended dose (${guideline.minDosePerKg}${doseUnit})`
+      result.warnings.push(
+        `No guidelines found for ${doseUnit}${context.route ? ` ${context.route}` : ''} at this patient's age. Please verify dosage.`
       );
+      return result;
     }
 
-    if (guideline.maxDosePerKg !== null && doseValue > guideline.maxDosePerKg) {
-      result.errors.push(
-        `Dose (${doseValue}${doseUnit}) exceeds maximum recommended dose (${guideline.maxDosePerKg}${doseUnit})`
-      );
-    }
+    const frequency = context.frequency ?? guideline.frequencyDays;
+    result.guideline = {
+      id: guideline.id,
+      clinicalIndication: guideline.clinicalIndication,
+      route: guideline.route,
+      doseUnit: guideline.doseUnit,
+      frequency: guideline.frequencyDays,
+      maxDosePer24h: guideline.maxDosePer24h
+    };
+    result.preparation = doseGuidelineMatcher.prepare(doseValue, doseUnit, guideline);
 
-    // Check weight-based dose if weight available
-    if (weightKg && guideline.minDosePerKg !== null) {
+    if (weightKg) {
       const dosePerKg = doseValue / weightKg;
-
-      if (guideline.minDosePerKg !== null && dosePerKg < guideline.minDosePerKg) {
-        result.errors.push(
-          `Dose per kg (${dosePerKg.toFixed(2)}${doseUnit}/kg) is below minimum (${guideline.minDosePerKg}${doseUnit}/kg)`
-        );
+      const dailyDosePerKg = doseGuidelineMatcher.dailyDosePerKg(dosePerKg, guideline.doseUnit, frequency);
+      result.dailyDosePerKg = dailyDosePerKg;
+
+      // A per-day range is compared with the day's total, others with the dose or rate itself
+      const checked = doseGuidelineMatcher.basis(guideline.doseUnit) === 'day' ? dailyDosePerKg : dosePerKg;
+      const unit = guideline.doseUnit ?? `${doseUnit}/kg`;
+
+      if (checked === null) {
+        result.warnings.push(`Frequency "${frequency ?? ''}" not recognised. Unable to check the daily dose.`);
+      } else {
+        if (guideline.minDosePerKg !== null && checked < guideline.minDosePerKg) {
+          result.errors.push(
+            `Dose (${checked.toFixed(2)} ${unit}) is below minimum (${guideline.minDosePerKg} ${unit})`
+          );
+        }
+        if (guideline.maxDosePerKg !== null && checked > guideline.maxDosePerKg) {
+          result.errors.push(
+            `Dose (${checked.toFixed(2)} ${unit}) exceeds maximum (${guideline.maxDosePerKg} ${unit})`
+          );
+        }
       }
 
-      if (guideline.maxDosePerKg !== null && dosePerKg > guideline.maxDosePerKg) {
+      if (guideline.maxDosePer24h !== null && dailyDosePerKg !== null && dailyDosePerKg > guideline.maxDosePer24h) {
         result.errors.push(
-          `Dose per kg (${dosePerKg.toFixed(2)}${doseUnit}/kg) exceeds maximum (${guideline.maxDosePerKg}${doseUnit}/kg)`
+          `Daily dose (${dailyDosePerKg.toFixed(2)} ${doseUnit.toLowerCase()}/kg/24h) exceeds the 24-hour maximum (${guideline.maxDosePer24h} ${doseUnit.toLowerCase()}/kg/24h)`
         );
       }
     }
@@ -90,10 +132,16 @@ export class DoseValidator {
   }
 }
 
+/**
+ * Throws when a dose falls outside the guideline for its unit. The weight is
+ * looked up from the latest vitals unless the caller already knows it; pass
+ * null when the patient has no weight on record.
+ */
 export async function validateDoseAgainstGuidelines(
   item: PrescriptionItem,
   guidelines: DoseGuideline[],
-  patientId: string
+  patientId: string,
+  knownWeightKg?: number | null
 ) {
   if (!guidelines.length) {
     return;
@@ -104,21 +152,7 @@ export async function validateDoseAgainstGuidelines(
     return;
   }
 
-  // Load patient weight (latest)
-  const vitals = await db.vitalSigns.findFirst({
-    where: { patientId, growthRecords: { some: { weight: { not: null } } } },
-    orderBy: { recordedAt: 'desc' },
-    include: {
-      growthRecords: {
-        select: {
-          weight: true,
-          height: true
-        }
-      }
-    }
-  });
-
-  const weightKg = vitals?.growthRecords[0]?.weight ?? null;
+  const weightKg = knownWeightKg === undefined ? await latestVitalsWeight(patientId) : knownWeightKg;
 
   // --- Fixed dose validation ---
   if (
@@ -141,4 +175,22 @@ export async function validateDoseAgainstGuidelines(
   }
 }
 
+async function latestVitalsWeight(patientId: string): Promise<number | null> {
+  // Load patient weight (latest)
+  const vitals = await db.vitalSigns.findFirst({
+    where: { patientId, growthRecords: { some: { weight: { not: null } } } },
+    orderBy: { recordedAt: 'desc' },
+    include: {
+      growthRecords: {
+        select: {
+          weight: true,
+          height: true
+        }
+      }
+    }
+  });
+
+  return vitals?.growthRecords[0]?.weight ?? null;
+}
+
 export const doseValidator = new DoseValidator();
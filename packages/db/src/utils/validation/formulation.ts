@@ -0,0 +1,205 @@
+// src/utils/validation/formulation.ts
+import type { DrugForm } from '../../../generated/client';
+import { MG_PER_UNIT } from './dose-guideline';
+
+/** How far the measured amount may fall from the prescribed dose */
+const TOLERANCE_PERCENT = 10;
+/** Graduations of the syringe or cup a volume is drawn up in, smallest first */
+const VOLUME_STEPS = [
+  { upToMl: 1, stepMl: 0.01 },
+  { upToMl: 5, stepMl: 0.1 },
+  { upToMl: 10, stepMl: 0.2 }
+] as const;
+/** Graduation of larger syringes and medicine cups */
+const LARGE_VOLUME_STEP_ML = 0.5;
+const FRACTIONS: Record<string, string> = { '1/2': '½', '1/3': '⅓', '2/3': '⅔', '1/4': '¼', '3/4': '¾' };
+const SOLID_UNITS: Partial<Record<DrugForm, MeasuredUnit>> = {
+  TABLET: 'tablet',
+  DISPERSIBLE_TABLET: 'tablet',
+  CAPSULE: 'capsule',
+  SUPPOSITORY: 'suppository'
+};
+
+export type MeasuredUnit = 'mL' | 'tablet' | 'capsule' | 'suppository';
+
+export interface MeasurableFormulation {
+  divisions: number;
+  form: DrugForm;
+  id: string;
+  label: string | null;
+  perVolumeMl: number | null;
+  strength: number;
+  strengthUnit: string;
+}
+
+export interface FormulationMeasure {
+  /** Measured dose against the prescribed one, e.g. -4.2 */
+  deviationPercent: number | null;
+  /** "2.4 mL", "½ tablet" */
+  display: string | null;
+  /** Dose the measured amount gives, in the prescribed unit */
+  doseGiven: number | null;
+  form: DrugForm;
+  formulationId: string;
+  /** "120 mg/5 mL suspension" */
+  label: string;
+  measurable: boolean;
+  quantity: number | null;
+  reason?: string;
+  unit: MeasuredUnit;
+}
+
+/**
+ * Turns a calculated dose into an amount that can be given from a product:
+ * a volume rounded to what the syringe it is drawn up in can measure, or a
+ * tablet rounded to the parts it can be split into. A dose is measurable when
+ * the rounded amount stays within 10% of it.
+ */
+export class FormulationCalculator {
+  /**
+   * `unit` is the prescribed dose unit; mass units are converted through the
+   * formulation's strength, and doses already in mL or tablets are rounded
+   * as they are
+   */
+  measure(dose: number, unit: string, formulation: MeasurableFormulation): FormulationMeasure {
+    const measuredUnit = this.unitOf(formulation);
+    const doseUnit = unit.toLowerCase();
+    const base = {
+      formulationId: formulation.id,
+      form: formulation.form,
+      label: this.describe(formulation),
+      unit: measuredUnit
+    };
+    const unmeasurable = (reason: string): FormulationMeasure => ({
+      ...base,
+      quantity: null,
+      display: null,
+      doseGiven: null,
+      deviationPercent: null,
+      measurable: false,
+      reason
+    });
+
+    const exact = this.exactAmount(dose, unit, formulation);
+    if (exact === null) {
+      return unmeasurable(`A dose in ${doseUnit} cannot be measured from ${base.label}`);
+    }
+
+    const quantity = this.roundAmount(exact, formulation);
+    if (quantity === 0) {
+      return unmeasurable(`${dose} ${doseUnit} is less than the smallest amount of ${base.label} that can be measured`);
+    }
+
+    const doseGiven = this.round((quantity / exact) * dose, 4);
+    const deviationPercent = this.round(((doseGiven - dose) / dose) * 100, 1);
+    const measurable = Math.abs(deviationPercent) <= TOLERANCE_PERCENT;
+
+    return {
+      ...base,
+      quantity,
+      display: this.display(quantity, measuredUnit, formulation.divisions),
+      doseGiven,
+      deviationPercent,
+      measurable,
+      ...(measurable
+        ? {}
+        : {
+            reason: `${this.display(quantity, measuredUnit, formulation.divisions)} of ${base.label} gives ${doseGiven} ${doseUnit}, ${deviationPercent}% from the ${dose} ${doseUnit} prescribed`
+          })
+    };
+  }
+
+  /**
+   * "120 mg/5 mL suspension", "100 mg/mL drops", "500 mg tablet"; the
+   * formulation's own label when it has one
+   */
+  describe(formulation: MeasurableFormulation): string {
+    if (formulation.label) return formulation.label;
+
+    const form = formulation.form.toLowerCase().replace(/_/g, ' ');
+    const strength = `${formulation.strength} ${formulation.strengthUnit}`;
+    if (formulation.perVolumeMl === null) return `${strength} ${form}`;
+    const volume = formulation.perVolumeMl === 1 ? 'mL' : `${formulation.perVolumeMl} mL`;
+    return `${strength}/${volume} ${form}`;
+  }
+
+  /**
+   * The mg an amount in mL or tablets gives of the formulation, for checking
+   * it against mg-based guidelines; null when the unit does not fit the
+   * formulation or its strength is not a mass
+   */
+  massOf(amount: number, unit: string, formulation: MeasurableFormulation): number | null {
+    const key = unit.toLowerCase();
+    const strengthMgPerUnit = MG_PER_UNIT[formulation.strengthUnit.toLowerCase()];
+    if (!strengthMgPerUnit) return null;
+
+    const strengthMg = formulation.strength * strengthMgPerUnit;
+    if (this.isLiquid(formulation)) {
+      return key === 'ml' && formulation.perVolumeMl ? (amount / formulation.perVolumeMl) * strengthMg : null;
+    }
+    return key === 'tablet' ? amount * strengthMg : null;
+  }
+
+  /**
+   * Liquids are measured in mL and need the volume their strength is given in
+   */
+  isLiquid(formulation: Pick<MeasurableFormulation, 'form'>): boolean {
+    return !SOLID_UNITS[formulation.form];
+  }
+
+  // ==================== HELPERS ====================
+
+  private unitOf(formulation: MeasurableFormulation): MeasuredUnit {
+    return SOLID_UNITS[formulation.form] ?? 'mL';
+  }
+
+  /**
+   * Unrounded mL or units for the dose; null when the dose unit does not
+   * fit the formulation
+   */
+  private exactAmount(dose: number, unit: string, formulation: MeasurableFormulation): number | null {
+    const key = unit.toLowerCase();
+    const liquid = this.isLiquid(formulation);
+    if (liquid && !formulation.perVolumeMl) return null;
+    if (key === 'ml') return liquid ? dose : null;
+    if (key === 'tablet') return liquid ? null : dose;
+
+    const doseMgPerUnit = MG_PER_UNIT[key];
+    const strengthMgPerUnit = MG_PER_UNIT[formulation.strengthUnit.toLowerCase()];
+    if (!(doseMgPerUnit && strengthMgPerUnit)) return null;
+
+    const units = (dose * doseMgPerUnit) / (formulation.strength * strengthMgPerUnit);
+    return liquid ? units * (formulation.perVolumeMl ?? 0) : units;
+  }
+
+  private roundAmount(exact: number, formulation: MeasurableFormulation): number {
+    if (!this.isLiquid(formulation)) {
+      const divisions = Math.max(1, formulation.divisions);
+      return Math.round(exact * divisions) / divisions;
+    }
+    const stepMl = VOLUME_STEPS.find(step => exact <= step.upToMl)?.stepMl ?? LARGE_VOLUME_STEP_ML;
+    return this.round(Math.round(exact / stepMl) * stepMl, 2);
+  }
+
+  private display(quantity: number, unit: MeasuredUnit, divisions: number): string {
+    if (unit === 'mL') return `${quantity} mL`;
+
+    const parts = Math.round(quantity * divisions);
+    const whole = Math.floor(parts / divisions);
+    const remainder = parts % divisions;
+    const divisor = this.gcd(remainder, divisions);
+    const fraction = remainder ? FRACTIONS[`${remainder / divisor}/${divisions / divisor}`] : '';
+    return `${whole || ''}${fraction} ${unit}${quantity > 1 ? 's' : ''}`;
+  }
+
+  private gcd(a: number, b: number): number {
+    return b === 0 ? a : this.gcd(b, a % b);
+  }
+
+  private round(value: number, places: number): number {
+    const factor = 10 ** places;
+    return Math.round(value * factor) / factor;
+  }
+}
+
+export const formulationCalculator = new FormulationCalculator();
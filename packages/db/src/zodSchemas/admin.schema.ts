@@ -177,7 +177,9 @@ export const paymentStatusLabels: Record<PaymentStatus, string> = {
 export const reminderStatusLabels: Record<ReminderStatus, string> = {
   PENDING: 'Pending',
   SENT: 'Sent',
-  FAILED: 'Failed'
+  FAILED: 'Failed',
+  RETRYING: 'Retrying',
+  CANCELLED: 'Cancelled'
 };
 
 export const staffStatusLabels: Record<string, string> = {
@@ -0,0 +1,123 @@
+import { z } from 'zod';
+
+import {
+  allergenTypeSchema,
+  allergySeveritySchema,
+  allergyVerificationStatusSchema,
+  clinicIdSchema,
+  conditionCodeSystemSchema,
+  conditionStatusSchema,
+  dateSchema,
+  idSchema,
+  patientIdSchema
+} from './helpers/enums';
+
+// ==================== ALLERGY SCHEMAS ====================
+
+export const AllergyBaseSchema = z.object({
+  allergen: z.string().trim().min(1, 'Allergen is required').max(200, 'Allergen must be less than 200 characters'),
+  allergenType: allergenTypeSchema,
+  // Formulary drug, for DRUG allergens; setting it makes the allergy a DRUG allergy
+  drugId: idSchema.optional().nullable(),
+  reaction: z.string().max(500, 'Reaction must be less than 500 characters').optional().nullable(),
+  severity: allergySeveritySchema.optional().nullable(),
+  verificationStatus: allergyVerificationStatusSchema,
+  onsetDate: dateSchema.optional().nullable(),
+  notes: z.string().max(1000).optional().nullable()
+});
+
+// Defaults are set on create only, so a partial update leaves fields as they are
+export const CreateAllergySchema = AllergyBaseSchema.extend({
+  patientId: patientIdSchema,
+  clinicId: clinicIdSchema,
+  allergenType: allergenTypeSchema.default('OTHER'),
+  verificationStatus: allergyVerificationStatusSchema.default('UNVERIFIED')
+});
+
+export const UpdateAllergySchema = AllergyBaseSchema.partial().extend({
+  id: idSchema,
+  clinicId: clinicIdSchema,
+  isActive: z.boolean().optional()
+});
+
+export const AllergyByIdSchema = z.object({
+  id: idSchema,
+  clinicId: clinicIdSchema
+});
+
+export const PatientAllergyListSchema = z.object({
+  patientId: patientIdSchema,
+  clinicId: clinicIdSchema,
+  includeInactive: z.boolean().default(false)
+});
+
+export const AllergyCheckSchema = z.object({
+  patientId: patientIdSchema,
+  clinicId: clinicIdSchema,
+  drugIds: z.array(idSchema).min(1, 'At least one drug is required for an allergy check')
+});
+
+// ==================== CONDITION SCHEMAS ====================
+
+export const ConditionBaseSchema = z.object({
+  display: z.string().trim().min(1, 'Condition is required').max(200),
+  code: z.string().trim().min(1, 'Code is required').max(20, 'Code must be less than 20 characters'),
+  codeSystem: conditionCodeSystemSchema,
+  status: conditionStatusSchema,
+  onsetDate: dateSchema.optional().nullable(),
+  resolvedDate: dateSchema.optional().nullable(),
+  notes: z.string().max(1000).optional().nullable()
+});
+
+export const CreateConditionSchema = ConditionBaseSchema.extend({
+  patientId: patientIdSchema,
+  clinicId: clinicIdSchema,
+  codeSystem: conditionCodeSystemSchema.default('ICD10'),
+  status: conditionStatusSchema.default('ACTIVE')
+}).refine(data => !(data.onsetDate && data.resolvedDate) || data.onsetDate <= data.resolvedDate, {
+  message: 'Resolved date must be after onset date',
+  path: ['resolvedDate']
+});
+
+export const UpdateConditionSchema = ConditionBaseSchema.partial().extend({
+  id: idSchema,
+  clinicId: clinicIdSchema
+});
+
+export const ConditionByIdSchema = z.object({
+  id: idSchema,
+  clinicId: clinicIdSchema
+});
+
+export const PatientConditionListSchema = z.object({
+  patientId: patientIdSchema,
+  clinicId: clinicIdSchema,
+  includeResolved: z.boolean().default(false)
+});
+
+// ==================== REVIEW QUEUE SCHEMAS ====================
+
+export const ReviewQueueSchema = z.object({
+  clinicId: clinicIdSchema,
+  patientId: patientIdSchema.optional(),
+  limit: z.number().int().min(1).max(100).default(50),
+  offset: z.number().int().min(0).default(0)
+});
+
+// Corrections made while reviewing; the entry leaves the queue once saved
+export const ReviewAllergySchema = UpdateAllergySchema;
+
+// A condition leaves the queue only once it has a code
+export const ReviewConditionSchema = UpdateConditionSchema;
+
+// ==================== TYPE INFERENCES ====================
+export type CreateAllergyInput = z.infer<typeof CreateAllergySchema>;
+export type UpdateAllergyInput = z.infer<typeof UpdateAllergySchema>;
+export type PatientAllergyListInput = z.infer<typeof PatientAllergyListSchema>;
+export type AllergyCheckInput = z.infer<typeof AllergyCheckSchema>;
+export type CreateConditionInput = z.infer<typeof CreateConditionSchema>;
+export type UpdateConditionInput = z.infer<typeof UpdateConditionSchema>;
+export type PatientConditionListInput = z.infer<typeof PatientConditionListSchema>;
+export type ReviewQueueInput = z.infer<typeof ReviewQueueSchema>;
+export type ReviewAllergyInput = z.infer<typeof ReviewAllergySchema>;
+export type ReviewConditionInput = z.infer<typeof ReviewConditionSchema>;
@@ -14,7 +14,10 @@ import {
   clinicIdSchema,
   dateSchema,
   idSchema,
-  paymentMethodSchema
+  paymentMethodSchema,
+  recurrenceFrequencySchema,
+  timeSchema,
+  waitlistEntryStatusSchema
 } from './helpers/enums';
 
 // Base schemas
@@ -85,8 +88,8 @@ export const AppointmentCreateSchema = z.object({
   serviceId: z.string().optional(),
   type: appointmentTypeSchema,
   appointmentDate: z.date(),
-  // duration is required for scheduling and overlap checks
-  duration: z.number().min(5, 'Duration must be at least 5 minutes'),
+  // minutes; defaults to the service length, then the clinic's default appointment duration
+  duration: z.number().min(5, 'Duration must be at least 5 minutes').optional(),
   time: z.string().optional(),
   status: appointmentStatusSchema.optional(),
   appointmentPrice: z.number().optional(),
@@ -168,7 +171,9 @@ export const AllAppointmentsInputSchema = z.object({
 export const AvailableTimesInputSchema = z.object({
   doctorId: idSchema,
   clinicId: clinicIdSchema,
-  appointmentDate: dateSchema
+  appointmentDate: dateSchema,
+  serviceId: z.string().optional(),
+  duration: z.number().min(5).optional()
 });
 
 export const AppointmentStatsInputSchema = z.object({
@@ -177,6 +182,102 @@ export const AppointmentStatsInputSchema = z.object({
   toDate: dateSchema.optional()
 });
 
+// ==================== RECURRING SERIES ====================
+
+/**
+ * Which occurrences an edit or cancellation applies to
+ */
+export const SeriesScopeSchema = z.enum(['OCCURRENCE', 'FOLLOWING', 'SERIES']);
+
+export const AppointmentSeriesCreateSchema = z
+  .object({
+    patientId: idSchema,
+    doctorId: idSchema,
+    serviceId: idSchema.optional(),
+    type: appointmentTypeSchema,
+    startDate: dateSchema,
+    time: timeSchema,
+    duration: z.number().min(5, 'Duration must be at least 5 minutes').optional(),
+    appointmentPrice: z.number().optional(),
+    note: z.string().optional(),
+    frequency: recurrenceFrequencySchema,
+    interval: z.number().int().min(1).max(52).default(1),
+    count: z.number().int().min(1).max(104).optional(),
+    until: dateSchema.optional(),
+    // Book the free occurrences and report the rest instead of rejecting the series
+    skipConflicts: z.boolean().default(false)
+  })
+  .refine(data => data.count !== undefined || data.until !== undefined, {
+    message: 'A series needs an end date or an occurrence count',
+    path: ['count']
+  })
+  .refine(data => !data.until || data.until >= data.startDate, {
+    message: 'End date must be on or after the start date',
+    path: ['until']
+  });
+
+export const AppointmentSeriesUpdateSchema = z.object({
+  appointmentId: idSchema,
+  scope: SeriesScopeSchema,
+  // Moving to another date is only meaningful for a single occurrence
+  appointmentDate: dateSchema.optional(),
+  doctorId: idSchema.optional(),
+  serviceId: idSchema.optional(),
+  time: timeSchema.optional(),
+  duration: z.number().min(5, 'Duration must be at least 5 minutes').optional(),
+  appointmentPrice: z.number().optional(),
+  note: z.string().optional()
+});
+
+export const AppointmentSeriesCancelSchema = z.object({
+  appointmentId: idSchema,
+  scope: SeriesScopeSchema,
+  reason: z.string().optional()
+});
+
+// ==================== WAITLIST ====================
+
+export const WaitlistEntryCreateSchema = z
+  .object({
+    patientId: idSchema,
+    doctorId: idSchema.optional(),
+    // Any doctor with this specialty, when no doctor is named
+    specialty: z.string().trim().min(1).optional(),
+    serviceId: idSchema.optional(),
+    type: appointmentTypeSchema.default('CONSULTATION'),
+    earliestDate: dateSchema,
+    latestDate: dateSchema,
+    preferredFromTime: timeSchema.optional(),
+    preferredToTime: timeSchema.optional(),
+    // 0 = Sunday; empty means any day
+    preferredWeekdays: z.array(z.number().int().min(0).max(6)).default([]),
+    priority: z.number().int().min(0).max(10).default(0),
+    note: z.string().optional()
+  })
+  .refine(data => data.doctorId !== undefined || data.specialty !== undefined, {
+    message: 'Choose a doctor or a specialty',
+    path: ['doctorId']
+  })
+  .refine(data => data.latestDate >= data.earliestDate, {
+    message: 'Latest date must be on or after the earliest date',
+    path: ['latestDate']
+  })
+  .refine(data => !(data.preferredFromTime && data.preferredToTime) || data.preferredFromTime < data.preferredToTime, {
+    message: 'Preferred end time must be after the start time',
+    path: ['preferredToTime']
+  });
+
+export const WaitlistFilterSchema = z.object({
+  status: waitlistEntryStatusSchema.optional(),
+  doctorId: idSchema.optional(),
+  patientId: idSchema.optional()
+});
+
+export const WaitlistOfferResponseSchema = z.object({
+  offerId: idSchema,
+  accept: z.boolean()
+});
+
 export type CreateAppointmentInput = z.infer<typeof AppointmentCreateSchema>;
 export type UpdateAppointmentInput = z.infer<typeof AppointmentUpdateSchema>;
 export type AppointmentByIdInput = z.infer<typeof AppointmentByIdSchema>;
@@ -214,6 +315,13 @@ export type AppointmentStatsInput = z.infer<typeof AppointmentStatsInputSchema>;
 export type AppointmentListInput = z.infer<typeof AppointmentListSchema>;
 export type AppointmentCreateInput = z.infer<typeof AppointmentCreateSchema>;
 export type AppointmentUpdateInput = z.infer<typeof AppointmentUpdateSchema>;
+export type SeriesScope = z.infer<typeof SeriesScopeSchema>;
+export type AppointmentSeriesCreateInput = z.infer<typeof AppointmentSeriesCreateSchema>;
+export type AppointmentSeriesUpdateInput = z.infer<typeof AppointmentSeriesUpdateSchema>;
+export type AppointmentSeriesCancelInput = z.infer<typeof AppointmentSeriesCancelSchema>;
+export type WaitlistEntryCreateInput = z.infer<typeof WaitlistEntryCreateSchema>;
+export type WaitlistFilter = z.infer<typeof WaitlistFilterSchema>;
+export type WaitlistOfferResponseInput = z.infer<typeof WaitlistOfferResponseSchema>;
 
 export interface AppointmentStats {
   byStatus: Record<string, number>;
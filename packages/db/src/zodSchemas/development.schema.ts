@@ -0,0 +1,57 @@
+import { z } from 'zod';
+
+import { DevelopmentalDomain } from '../../generated/browser';
+import { clinicIdSchema, dateSchema, patientIdSchema } from './helpers/enums';
+
+export const developmentalDomainSchema = z.enum(DevelopmentalDomain);
+
+// ==================== CATALOGUE SCHEMAS ====================
+
+export const MilestoneCatalogueSchema = z.object({
+  // Only the checkpoint this age falls in; the whole catalogue when omitted
+  ageMonths: z.number().int().min(0).max(72).optional()
+});
+
+export const ScreeningFormSchema = z.object({
+  patientId: patientIdSchema,
+  clinicId: clinicIdSchema
+});
+
+// ==================== CHECK SCHEMAS ====================
+
+export const MilestoneEntrySchema = z.object({
+  // Catalogue code, e.g. "9m-sits-without-support"
+  code: z.string().min(1).max(80),
+  achieved: z.boolean(),
+  ageAchievedMonths: z.number().int().min(0).max(72).optional(),
+  notes: z.string().max(500).optional()
+});
+
+export const RecordDevelopmentalCheckSchema = z.object({
+  patientId: patientIdSchema,
+  clinicId: clinicIdSchema,
+  checkDate: dateSchema.optional(),
+  milestones: z.array(MilestoneEntrySchema).min(1, 'Record at least one milestone').max(200),
+  concerns: z.string().max(2000).optional(),
+  recommendations: z.string().max(2000).optional()
+});
+
+export const DevelopmentalHistorySchema = z.object({
+  patientId: patientIdSchema,
+  clinicId: clinicIdSchema,
+  limit: z.number().int().min(1).max(100).default(20),
+  offset: z.number().int().min(0).default(0)
+});
+
+export const DevelopmentalCheckByIdSchema = z.object({
+  id: z.number().int().positive(),
+  clinicId: clinicIdSchema
+});
+
+// ==================== TYPE INFERENCES ====================
+export type MilestoneCatalogueInput = z.infer<typeof MilestoneCatalogueSchema>;
+export type ScreeningFormInput = z.infer<typeof ScreeningFormSchema>;
+export type MilestoneEntryInput = z.infer<typeof MilestoneEntrySchema>;
+export type RecordDevelopmentalCheckInput = z.infer<typeof RecordDevelopmentalCheckSchema>;
+export type DevelopmentalHistoryInput = z.infer<typeof DevelopmentalHistorySchema>;
+export type DevelopmentalCheckByIdInput = z.infer<typeof DevelopmentalCheckByIdSchema>;
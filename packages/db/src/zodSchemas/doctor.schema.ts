@@ -2,7 +2,13 @@ import { z } from 'zod';
 
 import { UserRole } from '../../generated/browser';
 import { NullableDecimal } from './helpers';
-import { availabilityStatusSchema, decimalSchema, jobTypeSchema, statusSchema } from './helpers/enums';
+import {
+  availabilityStatusSchema,
+  decimalSchema,
+  jobTypeSchema,
+  scheduleExceptionTypeSchema,
+  statusSchema
+} from './helpers/enums';
 
 const userRoleSchema = z.enum(UserRole);
 // Doctor schemas
@@ -125,6 +131,69 @@ export const DeleteDoctorSchema = z.object({
 
 // Type inference for use in components
 export type DeleteDoctorInput = z.infer<typeof DeleteDoctorSchema>;
+
+// --- Schedule: split shifts, breaks and date exceptions ---
+const scheduleTimeSchema = z.string().regex(/^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/, 'Invalid time format (HH:MM)');
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours ?? 0) * 60 + (minutes ?? 0);
+};
+
+export const DoctorBreakSchema = z
+  .object({
+    day: z.string().min(1, 'Day is required'),
+    startTime: scheduleTimeSchema,
+    endTime: scheduleTimeSchema,
+    label: z.string().max(100).optional().nullable()
+  })
+  .refine(b => minutesOf(b.startTime) < minutesOf(b.endTime), {
+    message: 'Start time must be before end time',
+    path: ['endTime']
+  });
+
+export const UpdateDoctorBreaksSchema = z.object({
+  doctorId: z.uuid(),
+  breaks: z.array(DoctorBreakSchema)
+});
+
+export const ScheduleExceptionSchema = z
+  .object({
+    doctorId: z.uuid().optional().nullable(), // omitted for clinic-wide holidays/closures
+    date: z.iso.date(),
+    type: scheduleExceptionTypeSchema,
+    startTime: scheduleTimeSchema.optional().nullable(),
+    endTime: scheduleTimeSchema.optional().nullable(),
+    reason: z.string().max(255).optional().nullable()
+  })
+  .refine(e => !!e.startTime === !!e.endTime, {
+    message: 'Provide both start and end time, or neither for the whole day',
+    path: ['endTime']
+  })
+  .refine(e => !(e.startTime && e.endTime) || minutesOf(e.startTime) < minutesOf(e.endTime), {
+    message: 'Start time must be before end time',
+    path: ['endTime']
+  })
+  .refine(e => e.type !== 'EXTRA_SESSION' || !!e.startTime, {
+    message: 'Extra sessions need a start and end time',
+    path: ['startTime']
+  });
+
+export const ScheduleExceptionFilterSchema = z.object({
+  doctorId: z.uuid().optional(),
+  from: z.iso.date().optional(),
+  to: z.iso.date().optional()
+});
+
+export const DoctorScheduleRangeSchema = z.object({
+  doctorId: z.uuid(),
+  from: z.coerce.date(),
+  to: z.coerce.date()
+});
+
+export type DoctorBreakInput = z.infer<typeof DoctorBreakSchema>;
+export type ScheduleExceptionInput = z.infer<typeof ScheduleExceptionSchema>;
+export type ScheduleExceptionFilter = z.infer<typeof ScheduleExceptionFilterSchema>;
 export const UpdateDoctorInputSchema = CreateNewDoctorInputSchema.extend({
   // ID is required to know which doctor to update
   id: z.uuid('Invalid Doctor ID format'),
@@ -0,0 +1,59 @@
+import { z } from 'zod';
+
+import { clinicIdSchema, dateSchema, feedingTypeSchema, idSchema, patientIdSchema } from './helpers/enums';
+
+export const breastSideSchema = z.enum(['Left', 'Right', 'Both']);
+
+// ==================== FEEDING LOG SCHEMAS ====================
+
+export const FeedingLogBaseSchema = z.object({
+  date: dateSchema.optional(),
+  type: feedingTypeSchema,
+  // Minutes at the breast
+  duration: z.number().int().min(1).max(180).optional(),
+  // Volume taken in ml: formula, expressed milk or a test weight
+  amount: z.number().positive().max(500).optional(),
+  breast: breastSideSchema.optional(),
+  notes: z.string().max(500).optional()
+});
+
+export const CreateFeedingLogSchema = FeedingLogBaseSchema.extend({
+  patientId: patientIdSchema,
+  clinicId: clinicIdSchema
+});
+
+export const UpdateFeedingLogSchema = FeedingLogBaseSchema.partial().extend({
+  id: idSchema,
+  clinicId: clinicIdSchema
+});
+
+export const FeedingLogByIdSchema = z.object({
+  id: idSchema,
+  clinicId: clinicIdSchema
+});
+
+export const FeedingLogListSchema = z.object({
+  patientId: patientIdSchema,
+  clinicId: clinicIdSchema,
+  from: dateSchema.optional(),
+  to: dateSchema.optional(),
+  limit: z.number().int().min(1).max(200).default(50),
+  offset: z.number().int().min(0).default(0)
+});
+
+// ==================== ANALYTICS SCHEMAS ====================
+
+export const FeedingSummarySchema = z.object({
+  patientId: patientIdSchema,
+  clinicId: clinicIdSchema,
+  // Days back from today the summary covers
+  days: z.number().int().min(1).max(90).default(7)
+});
+
+// ==================== TYPE INFERENCES ====================
+export type BreastSide = z.infer<typeof breastSideSchema>;
+export type CreateFeedingLogInput = z.infer<typeof CreateFeedingLogSchema>;
+export type UpdateFeedingLogInput = z.infer<typeof UpdateFeedingLogSchema>;
+export type FeedingLogByIdInput = z.infer<typeof FeedingLogByIdSchema>;
+export type FeedingLogListInput = z.infer<typeof FeedingLogListSchema>;
+export type FeedingSummaryInput = z.infer<typeof FeedingSummarySchema>;
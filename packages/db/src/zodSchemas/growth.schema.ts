@@ -1,9 +1,10 @@
 import { z } from 'zod';
 
-import { ChartType, Gender, GrowthStatus, MeasurementType } from '../../generated/browser';
+import { ChartType, Gender, GrowthAlertType, GrowthStatus, MeasurementType } from '../../generated/browser';
 import { clinicIdSchema, dateSchema, genderSchema, idSchema, patientIdSchema } from './helpers/enums';
 export const measurementTypeSchema = z.enum(MeasurementType);
 export const whoChartTypeSchema = z.enum(ChartType);
+export const pretermReferenceSchema = z.enum(['FENTON_2013', 'INTERGROWTH_21ST']);
 
 // // ==================== PEDIATRIC VALIDATION HELPERS ====================
 // const pediatricAgeSchema = z
@@ -40,9 +41,9 @@ export const GrowthRecordBaseSchema = z
     date: dateSchema.default(() => new Date()),
     recordedAt: dateSchema.default(() => new Date()),
     // Age information
-    ageDays: z.number().int().min(0).max(1825),
-    ageMonths: z.number().int().min(0).max(60),
-    ageYears: z.number().int().min(0).max(5),
+    ageDays: z.number().int().min(0).max(6940),
+    ageMonths: z.number().int().min(0).max(228),
+    ageYears: z.number().int().min(0).max(19),
     // Measurements
     weight: z.number().min(0.5).max(200), // kg
     height: z.number().min(20).max(250), // cm
@@ -81,10 +82,10 @@ export const GrowthRecordBaseSchema = z
       const daysFromMonths = (data.ageMonths || 0) * 30.44;
       const daysFromYears = (data.ageYears || 0) * 365.25;
       const maxDays = Math.max(data.ageDays || 0, daysFromMonths, daysFromYears);
-      return maxDays <= 1825;
+      return maxDays <= 6940;
     },
     {
-      message: 'Pediatric age cannot exceed 5 years',
+      message: 'Pediatric age cannot exceed 19 years',
       path: ['ageYears']
     }
   )
@@ -103,7 +104,9 @@ export const GrowthRecordBaseSchema = z
     }
   );
 export const GrowthRecordCreateSchema = GrowthRecordBaseSchema.extend({
-  clinicId: clinicIdSchema.optional() // Required for create
+  clinicId: clinicIdSchema.optional(), // Required for create
+  // Save a measurement that fails the plausibility checks as confirmed
+  confirmImplausible: z.boolean().default(false)
 });
 
 export type GrowthRecordCreateInput = z.infer<typeof GrowthRecordCreateSchema>;
@@ -250,6 +253,7 @@ export type GrowthRecordsByPatientInput = z.infer<typeof GrowthRecordByPatientSc
 export const growthStandardsSchema = z.object({
   gender: z.enum(Object.values(Gender) as [Gender, ...Gender[]]),
   measurementType: z.enum(Object.values(MeasurementType) as [MeasurementType, ...MeasurementType[]]),
+  chartType: z.enum(Object.values(ChartType) as [ChartType, ...ChartType[]]).optional(),
   ageMonthsMin: z.number().min(0).max(240).optional(),
   ageMonthsMax: z.number().min(0).max(240).optional()
 }) satisfies z.ZodType<unknown>;
@@ -258,7 +262,7 @@ export const growthPercentileSchema = z.object({
   patientId: z.uuid(),
   date: z.date(),
   measurement: z.object({
-    type: z.enum(['Weight', 'Height', 'HeadCircumference']),
+    type: z.enum(['Weight', 'Height', 'HeadCircumference', 'BMI']),
     value: z.number().min(0).max(500),
     ageMonths: z.number().min(0).max(240)
   })
@@ -324,12 +328,12 @@ export const bmiSchema = z.number().min(5, 'BMI must be at least 5').max(50, 'BM
 export const ageDaysSchema = z
   .number()
   .min(0, 'Age cannot be negative')
-  .max(1825, 'Age cannot exceed 5 years (1825 days)');
+  .max(6940, 'Age cannot exceed 19 years (6940 days)');
 
 export const ageMonthsSchema = z
   .number()
   .min(0, 'Age cannot be negative')
-  .max(60, 'Age cannot exceed 5 years (60 months)');
+  .max(228, 'Age cannot exceed 19 years (228 months)');
 
 export const zScoreSchema = z
   .number()
@@ -374,7 +378,7 @@ export const InvalidateGrowthCacheSchema = z.object({
 export const GrowthStandardsSchema = z.object({
   gender: genderSchema,
   measurementType: z.enum(MeasurementType),
-  chartType: measurementTypeSchema,
+  chartType: whoChartTypeSchema.optional(),
   ageMonthsMin: ageMonthsSchema.optional(),
   ageMonthsMax: ageMonthsSchema.optional()
 });
@@ -437,7 +441,9 @@ export const GrowthComparisonSchema = z.object({
 export const ZScoreCalculationSchema = z.object({
   ageDays: ageDaysSchema,
   weight: weightSchema,
-  gender: genderSchema
+  gender: genderSchema,
+  height: heightSchema,
+  headCircumference: headCircumferenceSchema
 });
 
 export const MultipleZScoreSchema = z.object({
@@ -448,13 +454,36 @@ export const MultipleZScoreSchema = z.object({
 
 export const ZScoreChartSchema = z.object({
   gender: genderSchema,
-  measurementType: measurementTypeSchema.default('Weight')
+  measurementType: measurementTypeSchema.default('Weight'),
+  // Defaults to the age-based chart of the measurement type
+  chartType: whoChartTypeSchema.optional()
 });
 
 export const PatientZScoreChartSchema = z.object({
   patientId: patientIdSchema,
   clinicId: clinicIdSchema,
-  measurementType: measurementTypeSchema.default('Weight')
+  measurementType: measurementTypeSchema.default('Weight'),
+  chartType: whoChartTypeSchema.optional(),
+  // Preterm chart used before term-equivalent age; falls back to the other when not seeded
+  pretermReference: pretermReferenceSchema.optional()
+});
+
+export const growthChartModeSchema = z.enum(['percentile', 'zscore']);
+
+// Query string of the chart download endpoint
+export const GrowthChartDownloadSchema = z.object({
+  measurementType: measurementTypeSchema.default('Weight'),
+  chartType: whoChartTypeSchema.optional(),
+  mode: growthChartModeSchema.default('percentile'),
+  format: z.enum(['pdf', 'svg']).default('pdf')
+});
+
+export const GrowthChartBatchSchema = z.object({
+  clinicId: clinicIdSchema,
+  patientIds: z.array(patientIdSchema).min(1).max(200),
+  measurementType: measurementTypeSchema.default('Weight'),
+  chartType: whoChartTypeSchema.optional(),
+  mode: growthChartModeSchema.default('percentile')
 });
 
 // ==================== PROJECTION SCHEMAS ====================
@@ -466,6 +495,86 @@ export const GrowthProjectionSchema = z.object({
   projectionMonths: z.number().min(1).max(24).default(12)
 });
 
+// ==================== ALERT SCHEMAS ====================
+
+export const GrowthAlertsByPatientSchema = z.object({
+  patientId: patientIdSchema,
+  type: z.enum(GrowthAlertType).optional(),
+  includeAcknowledged: z.boolean().default(false)
+});
+
+export const ClinicGrowthAlertsSchema = z.object({
+  clinicId: clinicIdSchema,
+  includeAcknowledged: z.boolean().default(false),
+  limit: z.number().int().min(1).max(100).default(50),
+  offset: z.number().int().min(0).default(0)
+});
+
+export const AcknowledgeGrowthAlertSchema = z.object({
+  id: idSchema
+});
+
+export const AcknowledgePatientGrowthAlertsSchema = z.object({
+  patientId: patientIdSchema
+});
+
+// ==================== PLAUSIBILITY SCHEMAS ====================
+
+export const ConfirmGrowthRecordSchema = z.object({
+  id: idSchema
+});
+
+export const FlaggedGrowthRecordsSchema = z.object({
+  clinicId: clinicIdSchema,
+  limit: z.number().int().min(1).max(100).default(50),
+  offset: z.number().int().min(0).default(0)
+});
+
+// ==================== IMPORT SCHEMAS ====================
+
+export const growthImportFieldSchema = z.enum([
+  'medicalRecordNumber',
+  'firstName',
+  'lastName',
+  'fullName',
+  'dateOfBirth',
+  'date',
+  'weight',
+  'height',
+  'headCircumference',
+  'notes'
+]);
+
+export const GrowthImportUnitsSchema = z.object({
+  weight: z.enum(['kg', 'g', 'lb']).optional(),
+  height: z.enum(['cm', 'mm', 'm', 'in']).optional(),
+  headCircumference: z.enum(['cm', 'in']).optional()
+});
+
+export const GrowthImportSchema = z.object({
+  clinicId: clinicIdSchema,
+  fileName: z.string().min(1).max(255),
+  // Base64 file content: CSV or XLSX, up to 10 MB
+  content: z.string().min(1).max(14_000_000),
+  // Column header for each field; detected from the headers when omitted
+  mapping: z.partialRecord(growthImportFieldSchema, z.string().min(1)).optional(),
+  // Units of each column; detected from headers and values when omitted
+  units: GrowthImportUnitsSchema.optional(),
+  // How to read dates like 03/04/2020
+  dateFormat: z.enum(['auto', 'DMY', 'MDY']).default('auto')
+});
+
+export const GrowthImportJobSchema = z.object({
+  clinicId: clinicIdSchema,
+  jobId: z.string().min(1)
+});
+
+// ==================== RECOMPUTE SCHEMAS ====================
+
+export const GrowthRecomputeSchema = z.object({
+  clinicId: clinicIdSchema
+});
+
 // ==================== TYPE INFERENCES ====================
 export type DeleteGrowthRecordInput = z.infer<typeof DeleteGrowthRecordSchema>;
 export type InvalidateGrowthCacheInput = z.infer<typeof InvalidateGrowthCacheSchema>;
@@ -473,7 +582,18 @@ export type ZScoreCalculationInput = z.infer<typeof ZScoreCalculationSchema>;
 export type MultipleZScoreInput = z.infer<typeof MultipleZScoreSchema>;
 export type ZScoreChartInput = z.infer<typeof ZScoreChartSchema>;
 export type PatientZScoreChartInput = z.infer<typeof PatientZScoreChartSchema>;
+export type GrowthChartDownloadInput = z.infer<typeof GrowthChartDownloadSchema>;
+export type GrowthChartBatchInput = z.infer<typeof GrowthChartBatchSchema>;
 export type GrowthProjectionInput = z.infer<typeof GrowthProjectionSchema>;
+export type GrowthAlertsByPatientInput = z.infer<typeof GrowthAlertsByPatientSchema>;
+export type ClinicGrowthAlertsInput = z.infer<typeof ClinicGrowthAlertsSchema>;
+export type ConfirmGrowthRecordInput = z.infer<typeof ConfirmGrowthRecordSchema>;
+export type FlaggedGrowthRecordsInput = z.infer<typeof FlaggedGrowthRecordsSchema>;
+export type GrowthImportField = z.infer<typeof growthImportFieldSchema>;
+export type GrowthImportUnits = z.infer<typeof GrowthImportUnitsSchema>;
+export type GrowthImportInput = z.infer<typeof GrowthImportSchema>;
+export type GrowthImportJobInput = z.infer<typeof GrowthImportJobSchema>;
+export type GrowthRecomputeInput = z.infer<typeof GrowthRecomputeSchema>;
 
 // ==================== CONSTANTS ====================
 
@@ -497,7 +617,10 @@ export const MEASUREMENT_TYPES = {
 export const WHO_MEASUREMENT_TYPES = {
   WFA: 'WFA',
   HFA: 'HFA',
-  HcFA: 'HcFA'
+  HcFA: 'HcFA',
+  BFA: 'BFA',
+  WFL: 'WFL',
+  WFH: 'WFH'
 } as const;
 
 export const COMPARISON_TYPES = {
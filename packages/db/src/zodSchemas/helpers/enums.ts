@@ -3,11 +3,18 @@
 import * as z from 'zod';
 
 import {
+  AllergenType,
+  AllergySeverity,
+  AllergyVerificationStatus,
   AppointmentStatus,
   AppointmentType,
   AvailabilityStatus,
+  ConditionCodeSystem,
+  ConditionStatus,
+  ControlledSchedule,
   DevelopmentStatus,
   DosageUnit,
+  DrugForm,
   DrugRoute,
   EncounterStatus,
   EncounterType,
@@ -15,17 +22,23 @@ import {
   Gender,
   GrowthStatus,
   ImmunizationStatus,
+  InteractionSeverity,
   JOBTYPE,
   LabStatus,
   MeasurementType,
   NotificationType,
   PaymentMethod,
   PaymentStatus,
+  PregnancyCategory,
+  PrescriptionStatus,
+  RecurrenceFrequency,
   ReminderMethod,
   ReminderStatus,
+  ScheduleExceptionType,
   ServiceCategory,
   Status,
-  UserRole
+  UserRole,
+  WaitlistEntryStatus
 } from '../../../generated/browser';
 
 // Role
@@ -41,6 +54,10 @@ export type StatusType = z.infer<typeof statusSchema>;
 export const jobTypeSchema = z.enum(JOBTYPE);
 export type JOBTYPEType = z.infer<typeof jobTypeSchema>;
 
+// Schedule Exception Type
+export const scheduleExceptionTypeSchema = z.enum(ScheduleExceptionType);
+export type ScheduleExceptionTypeType = z.infer<typeof scheduleExceptionTypeSchema>;
+
 // Gender
 export const genderSchema = z.enum(Gender);
 export type GenderType = z.infer<typeof genderSchema>;
@@ -52,6 +69,12 @@ export type AvailabilityStatusType = z.infer<typeof availabilityStatusSchema>;
 
 export const appointmentTypeSchema = z.enum(AppointmentType);
 export type AppointmentTypeType = z.infer<typeof appointmentTypeSchema>;
+
+// Recurrence Frequency
+export const recurrenceFrequencySchema = z.enum(RecurrenceFrequency);
+export type RecurrenceFrequencyType = z.infer<typeof recurrenceFrequencySchema>;
+export const waitlistEntryStatusSchema = z.enum(WaitlistEntryStatus);
+export type WaitlistEntryStatusType = z.infer<typeof waitlistEntryStatusSchema>;
 // Payment Method
 export const paymentMethodSchema = z.enum(PaymentMethod);
 export type PaymentMethodType = z.infer<typeof paymentMethodSchema>;
@@ -104,6 +127,36 @@ export type DosageUnitType = z.infer<typeof dosageUnitSchema>;
 export const drugRouteSchema = z.enum(DrugRoute);
 export type DrugRouteType = z.infer<typeof drugRouteSchema>;
 
+// Drug Formulary
+export const drugFormSchema = z.enum(DrugForm);
+export type DrugFormType = z.infer<typeof drugFormSchema>;
+export const pregnancyCategorySchema = z.enum(PregnancyCategory);
+export type PregnancyCategoryType = z.infer<typeof pregnancyCategorySchema>;
+export const controlledScheduleSchema = z.enum(ControlledSchedule);
+export type ControlledScheduleType = z.infer<typeof controlledScheduleSchema>;
+
+// Prescription Status
+export const prescriptionStatusSchema = z.enum(PrescriptionStatus);
+export type PrescriptionStatusType = z.infer<typeof prescriptionStatusSchema>;
+
+// Drug Interaction Severity
+export const interactionSeveritySchema = z.enum(InteractionSeverity);
+export type InteractionSeverityType = z.infer<typeof interactionSeveritySchema>;
+
+// Allergies
+export const allergenTypeSchema = z.enum(AllergenType);
+export type AllergenTypeType = z.infer<typeof allergenTypeSchema>;
+export const allergySeveritySchema = z.enum(AllergySeverity);
+export type AllergySeverityType = z.infer<typeof allergySeveritySchema>;
+export const allergyVerificationStatusSchema = z.enum(AllergyVerificationStatus);
+export type AllergyVerificationStatusType = z.infer<typeof allergyVerificationStatusSchema>;
+
+// Conditions
+export const conditionCodeSystemSchema = z.enum(ConditionCodeSystem);
+export type ConditionCodeSystemType = z.infer<typeof conditionCodeSystemSchema>;
+export const conditionStatusSchema = z.enum(ConditionStatus);
+export type ConditionStatusType = z.infer<typeof conditionStatusSchema>;
+
 // Utility function to create enum arrays for select inputs
 export const enumToOptions = <T extends Record<string, string>>(enumObj: T) => {
   return Object.entries(enumObj).map(([key, value]) => ({
@@ -173,8 +226,6 @@ export const DrugRouteEnum = z.enum([
   'TRANSDERMAL'
 ]);
 
-export const PrescriptionStatusEnum = z.enum(['ACTIVE', 'COMPLETED', 'CANCELLED', 'ON_HOLD', 'EXPIRED']);
-
 export const AllergySeverityEnum = z.enum(['MILD', 'MODERATE', 'SEVERE', 'ANAPHYLAXIS']);
 
 export const InteractionSeverityEnum = z.enum(['MINOR', 'MODERATE', 'MAJOR', 'CONTRAINDICATED']);
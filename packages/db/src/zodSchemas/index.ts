@@ -1,9 +1,12 @@
 export * from './admin.schema';
+export * from './allergy.schema';
 export * from './appointment.schema';
 export * from './auth.schema';
 export * from './clinic.schema';
+export * from './development.schema';
 export * from './doctor.schema';
 export * from './encounter.schema';
+export * from './feeding.schema';
 export * from './growth.schema';
 export * from './medical.schema';
 export * from './patient.schema';
@@ -20,6 +20,8 @@ export const patientBaseSchema = z
   .object({
     firstName: nameSchema,
     lastName: nameSchema,
+    // The clinic's own record number; imported growth histories are matched on it
+    medicalRecordNumber: z.string().trim().min(1).max(50).optional().nullable(),
     dateOfBirth: z.date().refine(date => date <= new Date(), {
       message: 'Date of birth cannot be in future'
     }),
@@ -34,6 +36,18 @@ export const patientBaseSchema = z
       .optional()
       .nullable(),
     bloodGroup: bloodGroupSchema.nullable(),
+    // Gestational age at birth, e.g. 32+4 weeks; drives corrected age for preterm babies
+    gestationalAgeWeeks: z
+      .number()
+      .int()
+      .min(22, 'Gestational age must be at least 22 weeks')
+      .max(44)
+      .optional()
+      .nullable(),
+    gestationalAgeDays: z.number().int().min(0).max(6).optional().nullable(),
+    // Parents' adult heights give the mid-parental target height on height charts
+    fatherHeightCm: z.number().min(100).max(250).optional().nullable(),
+    motherHeightCm: z.number().min(100).max(250).optional().nullable(),
     allergies: z.string().max(2000, 'Allergies must be less than 2000 characters').optional().nullable(),
     medicalConditions: z
       .string()
@@ -65,7 +79,11 @@ export const patientBaseSchema = z
       message: 'Emergency contact name and phone must both be provided if either is specified',
       path: ['emergencyContactNumber']
     }
-  );
+  )
+  .refine(data => data.gestationalAgeDays == null || data.gestationalAgeWeeks != null, {
+    message: 'Gestational age days require the completed weeks',
+    path: ['gestationalAgeDays']
+  });
 
 // ==================== CREATE SCHEMA ====================
 export const CreatePatientSchema = patientBaseSchema
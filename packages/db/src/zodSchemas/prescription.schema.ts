@@ -2,13 +2,18 @@ import { z } from 'zod';
 
 import {
   clinicIdSchema,
+  controlledScheduleSchema,
   DoseGuidelineRouteEnum,
   dateSchema,
   doctorIdSchema,
   dosageUnitSchema,
+  drugFormSchema,
   drugRouteSchema,
   idSchema,
-  patientIdSchema
+  interactionSeveritySchema,
+  patientIdSchema,
+  pregnancyCategorySchema,
+  prescriptionStatusSchema
 } from './helpers/enums';
 export const DoseGuidelineBaseSchema = z.object({
   drugId: idSchema,
@@ -36,34 +41,47 @@ export const DoseGuidelineUpdateSchema = DoseGuidelineBaseSchema.partial().exten
 });
 
 // ==================== DRUG SCHEMAS ====================
+const listSchema = (max: number) => z.array(z.string().trim().min(1).max(max));
+
 export const DrugBaseSchema = z.object({
   name: z
     .string()
     .min(1, 'Drug name is required')
     .max(200, 'Drug name must be less than 200 characters')
     .regex(/^[a-zA-Z0-9\s\-./]+$/, 'Drug name contains invalid characters'),
-  genericName: z.string().max(200).optional(),
-  brandNames: z.array(z.string().max(200)).optional(),
-  manufacturer: z.string().max(200).optional(),
-  drugClass: z.string().max(100).optional(),
-  description: z.string().max(2000).optional(),
-  indications: z.array(z.string().max(500)).optional(),
-  contraindications: z.array(z.string().max(500)).optional(),
-  sideEffects: z.array(z.string().max(500)).optional(),
-  warnings: z.array(z.string().max(500)).optional(),
-  pregnancyCategory: z.enum(['A', 'B', 'C', 'D', 'X', 'N']).optional(),
+  genericName: z.string().max(200).optional().nullable(),
+  brandNames: listSchema(200).optional(),
+  manufacturer: z.string().max(200).optional().nullable(),
+  // Matched against the interaction and allergy tables, which hold classes in lower case
+  drugClasses: z.array(z.string().trim().min(1).max(100).toLowerCase()).optional(),
+  ingredients: z.array(z.string().trim().min(1).max(100).toLowerCase()).optional(),
+  description: z.string().max(2000).optional().nullable(),
+  indications: listSchema(500).optional(),
+  contraindications: listSchema(500).optional(),
+  sideEffects: listSchema(500).optional(),
+  warnings: listSchema(500).optional(),
+  pregnancyCategory: pregnancyCategorySchema.optional().nullable(),
+  isControlled: z.boolean(),
+  controlledSchedule: controlledScheduleSchema.optional().nullable(),
+  requiresPriorAuth: z.boolean(),
+  isActive: z.boolean()
+});
+
+// Defaults are set on create only, so a partial update leaves fields as they are
+export const DrugCreateSchema = DrugBaseSchema.extend({
   isControlled: z.boolean().default(false),
-  controlledSchedule: z.enum(['I', 'II', 'III', 'IV', 'V']).optional(),
   requiresPriorAuth: z.boolean().default(false),
   isActive: z.boolean().default(true)
 });
 
-export const DrugCreateSchema = DrugBaseSchema;
-
 export const DrugUpdateSchema = DrugBaseSchema.partial().extend({
   id: idSchema
 });
 
+export const DrugByIdSchema = z.object({
+  id: idSchema
+});
+
 export const DrugFilterSchema = z.object({
   search: z.string().max(100).optional(),
   drugClass: z.string().max(100).optional(),
@@ -74,12 +92,69 @@ export const DrugFilterSchema = z.object({
   limit: z.number().int().min(1).max(100).default(20)
 });
 
+export const DrugSearchSchema = z.object({
+  query: z.string().trim().min(1, 'Search term is required').max(100),
+  limit: z.number().int().min(1).max(50).default(20)
+});
+
+// ==================== FORMULATION SCHEMAS ====================
+export const strengthUnitSchema = z.enum(['mg', 'mcg', 'g']);
+
+export const DrugFormulationBaseSchema = z.object({
+  drugId: idSchema,
+  form: drugFormSchema,
+  route: drugRouteSchema,
+  strength: z.number().positive('Strength must be greater than zero').max(100_000),
+  strengthUnit: strengthUnitSchema,
+  // Volume the strength is given in, e.g. 5 for 125 mg/5 mL; left out for solids
+  perVolumeMl: z.number().positive().max(1000).optional().nullable(),
+  divisions: z.number().int().min(1).max(4),
+  label: z.string().max(100).optional().nullable(),
+  isActive: z.boolean()
+});
+
+export const DrugFormulationCreateSchema = DrugFormulationBaseSchema.extend({
+  strengthUnit: strengthUnitSchema.default('mg'),
+  divisions: z.number().int().min(1).max(4).default(1),
+  isActive: z.boolean().default(true)
+});
+
+export const DrugFormulationUpdateSchema = DrugFormulationBaseSchema.omit({ drugId: true }).partial().extend({
+  id: idSchema
+});
+
+export const DoseMeasureSchema = z.object({
+  formulationId: idSchema,
+  dosageValue: z.number().positive('Dose must be greater than zero').max(100_000),
+  dosageUnit: dosageUnitSchema.default('MG')
+});
+
+/**
+ * A formulary dataset: drugs by name, each with its formulations. Drugs are
+ * matched on name, so an import can be run again to update them.
+ */
+export const FormularyImportSchema = z.object({
+  drugs: z
+    .array(
+      DrugCreateSchema.extend({
+        formulations: z.array(DrugFormulationCreateSchema.omit({ drugId: true })).default([])
+      })
+    )
+    .min(1)
+    .max(1000)
+});
+
 // Types
 export type DoseGuidelineCreateInput = z.infer<typeof DoseGuidelineCreateSchema>;
 export type DoseGuidelineUpdateInput = z.infer<typeof DoseGuidelineUpdateSchema>;
 export type DrugCreateInput = z.infer<typeof DrugCreateSchema>;
 export type DrugUpdateInput = z.infer<typeof DrugUpdateSchema>;
 export type DrugFilterInput = z.infer<typeof DrugFilterSchema>;
+export type DrugSearchInput = z.infer<typeof DrugSearchSchema>;
+export type DrugFormulationCreateInput = z.infer<typeof DrugFormulationCreateSchema>;
+export type DrugFormulationUpdateInput = z.infer<typeof DrugFormulationUpdateSchema>;
+export type DoseMeasureInput = z.infer<typeof DoseMeasureSchema>;
+export type FormularyImportInput = z.infer<typeof FormularyImportSchema>;
 
 export const PharmacyRefillSchema = z.object({
   prescriptionId: idSchema,
@@ -121,12 +196,6 @@ export const PediatricDoseCheckSchema = z.object({
 export type PrescriptionVerificationInput = z.infer<typeof PrescriptionVerificationSchema>;
 export type PediatricDoseCheckInput = z.infer<typeof PediatricDoseCheckSchema>;
 // ==================== PRESCRIPTION VALIDATION HELPERS ====================
-const medicationNameSchema = z
-  .string()
-  .min(1, 'Medication name is required')
-  .max(200, 'Medication name must be less than 200 characters')
-  .regex(/^[a-zA-Z0-9\s-]+$/, 'Medication name can only contain letters, numbers, spaces, and hyphens');
-
 const dosageValueSchema = z
   .number()
   .min(0.01, 'Dosage must be greater than 0')
@@ -142,6 +211,13 @@ const frequencySchema = z
     'Invalid frequency format. Use formats like "once daily", "twice daily", "3 times daily", "every 4 hours"'
   );
 
+// Required to go ahead past an interaction or allergy cross-sensitivity warning
+const overrideReasonSchema = z
+  .string()
+  .trim()
+  .min(10, 'Give a reason of at least 10 characters for prescribing despite the warning')
+  .max(500, 'Reason must be less than 500 characters');
+
 const durationSchema = z
   .string()
   .min(1, 'Duration is required')
@@ -149,102 +225,95 @@ const durationSchema = z
   .regex(/^\d+ (days?|weeks?|months?)$/, 'Invalid duration format. Use formats like "7 days", "2 weeks", "3 months"');
 
 // ==================== PRESCRIBED ITEM SCHEMAS ====================
-export const PrescribedItemBaseSchema = z
-  .object({
-    prescriptionId: idSchema,
-    drugId: idSchema,
-    dosageValue: dosageValueSchema,
-    dosageUnit: dosageUnitSchema,
-    frequency: frequencySchema,
-    duration: durationSchema,
-    instructions: z.string().max(1000, 'Instructions must be less than 1000 characters').optional(),
-    drugRoute: drugRouteSchema.optional(),
-    strength: z.string().max(50).optional(), // e.g., "500mg", "10mg/ml"
-    quantity: z.number().min(1).max(1000).optional(), // Total quantity to dispense
-    refills: z.number().int().min(0).max(12).optional(), // Number of refills allowed
-    prn: z.boolean().default(false), // As needed (pro re nata)
-    isActive: z.boolean().default(true)
-  })
-  .refine(
-    data => {
-      // Validate dosage based on unit
-      if (data.dosageUnit === 'MG' && data.dosageValue > 1000) {
-        return false;
-      }
-      if (data.dosageUnit === 'ML' && data.dosageValue > 100) {
-        return false;
-      }
-      if (data.dosageUnit === 'TABLET' && data.dosageValue > 20) {
-        return false;
-      }
-      return true;
-    },
-    {
-      message: 'Dosage value exceeds maximum for specified unit',
-      path: ['dosageValue']
-    }
-  );
+export const PrescribedItemBaseSchema = z.object({
+  drugId: idSchema,
+  dosageValue: dosageValueSchema,
+  dosageUnit: dosageUnitSchema,
+  frequency: frequencySchema,
+  duration: durationSchema,
+  instructions: z.string().max(1000, 'Instructions must be less than 1000 characters').optional(),
+  drugRoute: drugRouteSchema.optional(),
+  // Product the dose is measured from; the item then records the volume or tablets to give
+  formulationId: idSchema.optional(),
+  // What the drug is given for, choosing the dosing guideline the dose is checked against
+  indication: z.string().trim().min(1).max(200, 'Indication must be less than 200 characters').optional()
+});
 
-export const PrescribedItemCreateSchema = PrescribedItemBaseSchema;
+// Refinements go on last: zod cannot extend or make partial a refined object
+const withinUnitLimit = (data: { dosageUnit?: string; dosageValue?: number }) => {
+  if (data.dosageValue === undefined) return true;
+  // Validate dosage based on unit
+  if (data.dosageUnit === 'MG' && data.dosageValue > 1000) {
+    return false;
+  }
+  if (data.dosageUnit === 'ML' && data.dosageValue > 100) {
+    return false;
+  }
+  if (data.dosageUnit === 'TABLET' && data.dosageValue > 20) {
+    return false;
+  }
+  return true;
+};
+const unitLimitIssue = {
+  message: 'Dosage value exceeds maximum for specified unit',
+  path: ['dosageValue']
+};
 
-export const PrescribedItemUpdateSchema = PrescribedItemBaseSchema.partial().extend({
-  id: idSchema
-});
+export const PrescribedItemCreateSchema = PrescribedItemBaseSchema.refine(withinUnitLimit, unitLimitIssue);
 
-// ==================== PRESCRIPTION SCHEMAS ====================
-export const PrescriptionBaseSchema = z
-  .object({
-    medicalRecordId: idSchema,
-    doctorId: doctorIdSchema,
-    patientId: patientIdSchema,
-    encounterId: idSchema,
-    clinicId: clinicIdSchema,
-    medicationName: medicationNameSchema.optional(), // Legacy field for free-text entry
-    instructions: z.string().max(2000, 'Instructions must be less than 2000 characters').optional(),
-    issuedDate: dateSchema.default(() => new Date()),
-    endDate: dateSchema.optional(),
-    status: z.enum(['ACTIVE', 'COMPLETED', 'CANCELLED', 'ON_HOLD']).default('ACTIVE'),
-    isChronic: z.boolean().default(false),
-    requiresPriorAuthorization: z.boolean().default(false),
-    priorAuthorizationCode: z.string().max(50).optional(),
-    pharmacyNotes: z.string().max(500).optional(),
-    prescribedItems: z
-      .array(PrescribedItemBaseSchema.omit({ prescriptionId: true }))
-      .min(1, 'At least one prescribed item is required')
+export const PrescribedItemUpdateSchema = PrescribedItemBaseSchema.partial()
+  .extend({
+    id: idSchema
   })
-  .refine(
-    data => {
-      // Validate end date is after issue date
-      if (data.endDate && data.endDate <= data.issuedDate) {
-        return false;
-      }
-      return true;
-    },
-    {
-      message: 'End date must be after issue date',
-      path: ['endDate']
-    }
-  )
-  .refine(
-    data => {
-      // Validate prior authorization requirement
-      if (data.requiresPriorAuthorization && !data.priorAuthorizationCode) {
-        return false;
-      }
-      return true;
-    },
-    {
-      message: 'Prior authorization code is required when prior authorization is required',
-      path: ['priorAuthorizationCode']
+  .refine(withinUnitLimit, unitLimitIssue);
+
+// ==================== PRESCRIPTION SCHEMAS ====================
+export const PrescriptionBaseSchema = z.object({
+  // The diagnosis encounter being treated; patient, doctor and medical record come from it
+  encounterId: idSchema,
+  clinicId: clinicIdSchema,
+  instructions: z.string().max(2000, 'Instructions must be less than 2000 characters').optional(),
+  issuedDate: dateSchema.optional(),
+  // Defaults to the end of the longest item's duration
+  endDate: dateSchema.optional(),
+  prescribedItems: z
+    .array(PrescribedItemCreateSchema)
+    .min(1, 'At least one prescribed item is required')
+    .max(20, 'A prescription can have at most 20 items'),
+  interactionOverrideReason: overrideReasonSchema.optional(),
+  allergyOverrideReason: overrideReasonSchema.optional()
+});
+
+export const PrescriptionCreateSchema = PrescriptionBaseSchema.refine(
+  data => {
+    // Validate end date is after issue date
+    if (data.endDate && data.endDate <= (data.issuedDate ?? new Date())) {
+      return false;
     }
-  );
+    return true;
+  },
+  {
+    message: 'End date must be after issue date',
+    path: ['endDate']
+  }
+);
 
-export const PrescriptionCreateSchema = PrescriptionBaseSchema.extend({
-  clinicId: clinicIdSchema // Required for create
+export const PrescriptionByIdSchema = z.object({
+  id: idSchema,
+  clinicId: clinicIdSchema
 });
 
-export const PrescriptionUpdateSchema = PrescriptionBaseSchema.partial().extend({
-  id: idSchema
+export const PrescriptionRenewSchema = PrescriptionByIdSchema.extend({
+  // Encounter the renewal is written at; defaults to the original one
+  encounterId: idSchema.optional(),
+  endDate: dateSchema.optional(),
+  instructions: z.string().max(2000, 'Instructions must be less than 2000 characters').optional(),
+  interactionOverrideReason: overrideReasonSchema.optional(),
+  allergyOverrideReason: overrideReasonSchema.optional()
+});
+
+export const PrescriptionDiscontinueSchema = PrescriptionByIdSchema.extend({
+  reason: z.string().trim().min(3, 'A reason is required').max(500, 'Reason must be less than 500 characters')
 });
 
 // ==================== PRESCRIPTION FILTER SCHEMAS ====================
@@ -254,7 +323,7 @@ export const PrescriptionFilterSchema = z.object({
   clinicId: clinicIdSchema.optional(),
   encounterId: idSchema.optional(),
   medicalRecordId: idSchema.optional(),
-  status: z.enum(['ACTIVE', 'COMPLETED', 'CANCELLED', 'ON_HOLD']).optional(),
+  status: prescriptionStatusSchema.optional(),
   isChronic: z.boolean().optional(),
   medicationName: z.string().max(100).optional(),
   dateRange: z
@@ -283,32 +352,26 @@ export const PrescriptionFilterSchema = z.object({
 });
 
 // ==================== DRUG INTERACTION SCHEMAS ====================
+// Each side is a drug name or a drug class
 export const DrugInteractionSchema = z.object({
-  drugId1: idSchema,
-  drugId2: idSchema,
-  severity: z.enum(['MINOR', 'MODERATE', 'MAJOR', 'CONTRAINDICATED']),
-  description: z.string().max(1000),
-  recommendation: z.string().max(1000).optional(),
-  isActive: z.boolean().default(true)
+  a: z.string().trim().min(1).max(100),
+  b: z.string().trim().min(1).max(100),
+  severity: z.preprocess(value => (typeof value === 'string' ? value.toUpperCase() : value), interactionSeveritySchema),
+  mechanism: z.string().min(1).max(1000),
+  management: z.string().min(1).max(1000),
+  source: z.string().max(200).optional()
 });
 
-export const DrugInteractionCheckSchema = z.object({
-  drugIds: z.array(idSchema).min(2, 'At least two drugs are required for interaction check'),
-  patientId: patientIdSchema.optional() // Include for patient-specific interactions
+// The importable interaction dataset: drug classes by member drug name, and the interacting pairs
+export const DrugInteractionDatasetSchema = z.object({
+  classes: z.record(z.string().trim().min(1).max(100), z.array(z.string().min(1))).default({}),
+  interactions: z.array(DrugInteractionSchema).min(1, 'The dataset has no interactions')
 });
 
-// ==================== ALLERGY SCHEMAS ====================
-export const MedicationAllergySchema = z.object({
-  patientId: patientIdSchema,
-  drugId: idSchema.optional(), // For known drugs
-  medicationName: medicationNameSchema, // For free-text allergies
-  reactionType: z.enum(['MILD', 'MODERATE', 'SEVERE', 'ANAPHYLAXIS']),
-  reaction: z.string().max(500, 'Reaction description must be less than 500 characters'),
-  severity: z.enum(['MILD', 'MODERATE', 'SEVERE', 'ANAPHYLAXIS']),
-  isActive: z.boolean().default(true),
-  notes: z.string().max(1000).optional(),
-  reportedBy: z.enum(['PATIENT', 'DOCTOR', 'FAMILY', 'OTHER']).default('PATIENT'),
-  reportedDate: dateSchema.default(() => new Date())
+export const DrugInteractionCheckSchema = z.object({
+  drugIds: z.array(idSchema).min(1, 'At least one drug is required for interaction check'),
+  clinicId: clinicIdSchema,
+  patientId: patientIdSchema.optional() // Also checks against the patient's active prescriptions
 });
 
 // ==================== PHARMACY SCHEMAS ====================
@@ -328,9 +391,11 @@ export const PharmacyDispenseSchema = z.object({
 export type PrescribedItemCreateInput = z.infer<typeof PrescribedItemCreateSchema>;
 export type PrescribedItemUpdateInput = z.infer<typeof PrescribedItemUpdateSchema>;
 export type PrescriptionCreateInput = z.infer<typeof PrescriptionCreateSchema>;
-export type PrescriptionUpdateInput = z.infer<typeof PrescriptionUpdateSchema>;
+export type PrescriptionByIdInput = z.infer<typeof PrescriptionByIdSchema>;
+export type PrescriptionRenewInput = z.infer<typeof PrescriptionRenewSchema>;
+export type PrescriptionDiscontinueInput = z.infer<typeof PrescriptionDiscontinueSchema>;
 export type PrescriptionFilterInput = z.infer<typeof PrescriptionFilterSchema>;
 export type DrugInteractionInput = z.infer<typeof DrugInteractionSchema>;
+export type DrugInteractionDataset = z.infer<typeof DrugInteractionDatasetSchema>;
 export type DrugInteractionCheckInput = z.infer<typeof DrugInteractionCheckSchema>;
-export type MedicationAllergyInput = z.infer<typeof MedicationAllergySchema>;
 export type PharmacyDispenseInput = z.infer<typeof PharmacyDispenseSchema>;
@@ -43,6 +43,38 @@ export const VaccineScheduleSchema = z.object({
   lotNumberFormat: z.string().optional()
 });
 
+// ==================== SCHEDULE SET SCHEMAS ====================
+
+export const VaccineScheduleDoseSchema = z.object({
+  doseNumber: z.number().int().min(1),
+  minimumAgeDays: z.number().int().min(0),
+  recommendedAgeDays: z.number().int().min(0),
+  maximumAgeDays: z.number().int().min(0).optional(),
+  minimumIntervalDays: z.number().int().min(0).optional()
+});
+
+export const VaccineScheduleSetImportSchema = z.object({
+  code: z.string().min(1, 'Programme code is required').max(50),
+  name: z.string().min(1, 'Schedule name is required'),
+  country: z.string().length(2).toUpperCase().optional(),
+  version: z.string().min(1, 'Version is required').max(50),
+  description: z.string().optional(),
+  effectiveFrom: dateSchema.optional(),
+  isDefault: z.boolean().default(false),
+  vaccines: z
+    .array(
+      VaccineScheduleSchema.omit({ id: true, route: true, manufacturer: true, lotNumberFormat: true }).extend({
+        doses: z.array(VaccineScheduleDoseSchema).optional()
+      })
+    )
+    .min(1, 'A schedule set needs at least one vaccine')
+});
+
+export const ActivateScheduleSetSchema = z.object({
+  clinicId: clinicIdSchema,
+  scheduleSetId: z.number().int().positive()
+});
+
 // ==================== IMMUNIZATION RECORD SCHEMAS ====================
 
 export const ImmunizationCreateSchema = z.object({
@@ -155,6 +187,7 @@ export const OverdueVaccinationsSchema = z.object({
 });
 
 export const VaccineScheduleFilterSchema = z.object({
+  clinicId: clinicIdSchema.optional(),
   ageMonths: z.number().int().min(0).max(240).optional(),
   isMandatory: z.boolean().optional(),
   vaccineName: z.string().optional(),
@@ -208,6 +241,8 @@ export type CalculateDueVaccinesInput = z.infer<typeof calculateDueVaccinesSchem
 // ==================== TYPE INFERENCES ====================
 
 export type VaccineScheduleInput = z.infer<typeof VaccineScheduleSchema>;
+export type VaccineScheduleSetImportInput = z.infer<typeof VaccineScheduleSetImportSchema>;
+export type ActivateScheduleSetInput = z.infer<typeof ActivateScheduleSetSchema>;
 export type ImmunizationCreateInput = z.infer<typeof ImmunizationCreateSchema>;
 export type ImmunizationUpdateInput = z.infer<typeof ImmunizationUpdateSchema>;
 export type ScheduleVaccinationInput = z.infer<typeof ScheduleVaccinationSchema>;
@@ -9,6 +9,12 @@ export const env = createEnv({
     BETTER_AUTH_SECRET: z.string().min(32),
     BETTER_AUTH_URL: z.url(),
     CORS_ORIGIN: z.url(),
+    // Signs immunization certificate QR payloads; falls back to BETTER_AUTH_SECRET
+    CERTIFICATE_SIGNING_SECRET: z.string().min(32).optional(),
+    // Reminder delivery: "local" writes to the log (and REMINDER_OUTBOX_DIR if set),
+    // "queue" hands off to the send-email/send-sms jobs; defaults to local outside production
+    REMINDER_CHANNEL: z.enum(['local', 'queue']).optional(),
+    REMINDER_OUTBOX_DIR: z.string().optional(),
     NODE_ENV: z.enum(['development', 'production', 'test']).default('development')
   },
   runtimeEnv: process.env,
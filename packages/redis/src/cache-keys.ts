@@ -12,7 +12,8 @@ export const CACHE_KEYS = {
   VISIT: (id: string) => `visit:${id}`,
   CLINIC_VACCINATION_STATS: (clinicId: string) => `clinic:${clinicId}:vaccination-stats`,
   PATIENT_DUE_VACCINES: (patientId: string) => `patient:${patientId}:due-vaccines`,
-  VACCINE_SCHEDULE: (ageMonths: string, vaccineName: string) => `patient:${ageMonths}:vaccine-schedule:${vaccineName}`,
+  VACCINE_SCHEDULE: (scheduleSetId: number | string, ageMonths: string, vaccineName: string) =>
+    `vaccine-schedule:${scheduleSetId}:age:${ageMonths}:name:${vaccineName}`,
   OVERDUE_IMMUNIZATIONS: (clinicId: string) => `clinic:${clinicId}:immunizations:overdue`,
   CLINIC_IMMUNIZATIONS: (clinicId: string) => `clinic:${clinicId}:immunizations`,
   PATIENT_IMMUNIZATIONS: (patientId: string) => `patient:${patientId}:immunizations`,
@@ -69,6 +70,9 @@ export const CACHE_KEYS = {
   // Individual records
   GROWTH_PERCENTILE: (patientId: string) => `growth:percentile:${patientId}`,
   GROWTH_RECORD: (id: string) => `growth:record:${id}`,
+  GROWTH_CHART_BATCH: (jobId: string) => `growth:chart:batch:${jobId}`,
+  GROWTH_IMPORT: (importId: string) => `growth:import:${importId}`,
+  GROWTH_RECOMPUTE: (clinicId: string) => `clinic:${clinicId}:growth:recompute`,
   ADMIN_DASHBOARD: (clinicId: string) => `clinic:${clinicId}:dashboard`,
   PATIENT_DASHBOARD: (patientId: string) => `patient:${patientId}:dashboard`,
   ADMIN_DASHBOARD_RANGE: (clinicId: string, from: string, to: string) =>
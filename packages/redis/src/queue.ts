@@ -10,10 +10,17 @@ const logger = baseLogger.child({ module: 'queue' });
 // Job Handlers Map
 type JobHandler = (data: JobDataMap[JobType], job: Job) => Promise<unknown>;
 
+/**
+ * Work for a job type that needs data this package cannot reach (the database
+ * layer registers reminder delivery this way)
+ */
+export type JobProcessor<T extends JobType> = (data: JobDataMap[T], job: Job<JobDataMap[T]>) => Promise<unknown>;
+
 class JobQueueManager {
   private readonly queues: Map<JobType, Queue> = new Map();
   private readonly workers: Map<JobType, Worker> = new Map();
   private readonly handlers: Map<JobType, JobHandler> = new Map();
+  private readonly processors: { [T in JobType]?: JobProcessor<T> } = {};
   private isShuttingDown = false;
   private isInitialized = false;
   private initializationAttempted = false;
@@ -42,6 +49,7 @@ class JobQueueManager {
       this.handleImmunizationReminder.bind(this) as unknown as JobHandler
     );
     this.handlers.set('process-followup-reminder', this.handleFollowupReminder.bind(this) as unknown as JobHandler);
+    this.handlers.set('expire-waitlist-offer', this.handleExpireWaitlistOffer.bind(this) as unknown as JobHandler);
 
     // Report handlers
     this.handlers.set('generate-report', this.handleGenerateReport.bind(this) as unknown as JobHandler);
@@ -58,6 +66,14 @@ class JobQueueManager {
     this.handlers.set('process-billing', this.handleProcessBilling.bind(this) as unknown as JobHandler);
   }
 
+  /**
+   * Plug in the implementation for a job type whose handler delegates to one
+   */
+  setProcessor<T extends JobType>(type: T, processor: JobProcessor<T>): void {
+    (this.processors as Record<T, JobProcessor<T>>)[type] = processor;
+    logger.debug('Job processor registered', { jobType: type });
+  }
+
   /**
    * Initialize queues - must be called explicitly
    */
@@ -94,7 +110,8 @@ class JobQueueManager {
         'process-vitals',
         'calculate-growth-percentiles',
         'sync-calendar',
-        'process-billing'
+        'process-billing',
+        'expire-waitlist-offer'
       ];
 
       let successCount = 0;
@@ -305,6 +322,7 @@ class JobQueueManager {
       attempts: options.attempts ?? queueConfig.defaultAttempts,
       backoff: options.backoff ?? { type: 'exponential', delay: queueConfig.defaultBackoff },
       delay: options.delay,
+      jobId: options.jobId,
       repeat: options.repeat,
       priority: options.priority ?? this.getPriority(type),
       removeOnComplete: options.removeOnComplete ?? queueConfig.retention.completed,
@@ -679,8 +697,7 @@ class JobQueueManager {
       appointmentId: data.appointmentId,
       reminderType: data.reminderType
     });
-    // Implement appointment reminder logic
-    return { processed: true, timestamp: new Date().toISOString() };
+    return this.runProcessor('process-appointment-reminder', data, job);
   }
 
   private async handleImmunizationReminder(
@@ -692,8 +709,24 @@ class JobQueueManager {
       patientId: data.patientId,
       dueDate: data.dueDate
     });
-    // Implement immunization reminder logic
-    return { processed: true, timestamp: new Date().toISOString() };
+    return this.runProcessor('process-immunization-reminder', data, job);
+  }
+
+  /**
+   * Run the registered processor; with none registered the job fails and is
+   * retried, rather than being reported as done
+   */
+  private async runProcessor<T extends JobType>(type: T, data: JobDataMap[T], job: Job): Promise<unknown> {
+    const processor = this.processors[type] as JobProcessor<T> | undefined;
+    if (!processor) {
+      throw new Error(`No processor registered for ${type}`);
+    }
+    return processor(data, job as Job<JobDataMap[T]>);
+  }
+
+  private async handleExpireWaitlistOffer(data: JobDataMap['expire-waitlist-offer'], job: Job): Promise<unknown> {
+    logger.info('Expiring waitlist offer', { jobId: job.id, offerId: data.offerId });
+    return this.runProcessor('expire-waitlist-offer', data, job);
   }
 
   private async handleFollowupReminder(data: JobDataMap['process-followup-reminder'], job: Job): Promise<unknown> {
@@ -712,9 +745,8 @@ class JobQueueManager {
   }
 
   private async handleGenerateGrowthChart(data: JobDataMap['generate-growth-chart'], job: Job): Promise<unknown> {
-    logger.info('Generating growth chart', { jobId: job.id, patientId: data.patientId });
-    // Implement growth chart generation
-    return { generated: true, timestamp: new Date().toISOString() };
+    logger.info('Generating growth charts', { jobId: job.id, patients: data.patientIds.length });
+    return this.runProcessor('generate-growth-chart', data, job);
   }
 
   private async handleExportRecords(data: JobDataMap['export-records'], job: Job): Promise<unknown> {
@@ -729,8 +761,7 @@ class JobQueueManager {
 
   private async handleImportRecords(data: JobDataMap['import-records'], job: Job): Promise<unknown> {
     logger.info('Importing records', { jobId: job.id, importId: data.importId });
-    // Implement import logic
-    return { imported: true, timestamp: new Date().toISOString() };
+    return this.runProcessor('import-records', data, job);
   }
 
   private async handleBackupDatabase(data: JobDataMap['backup-database'], job: Job): Promise<unknown> {
@@ -756,13 +787,12 @@ class JobQueueManager {
   }
 
   private async handleGrowthCalculation(data: JobDataMap['calculate-growth-percentiles'], job: Job): Promise<unknown> {
-    logger.info('Calculating growth percentiles', {
+    logger.info('Recomputing growth percentiles', {
       jobId: job.id,
-      patientId: data.patientId,
-      measurementsCount: data.measurements.length
+      clinicId: data.clinicId,
+      trigger: data.trigger
     });
-    // Implement growth calculation logic
-    return { calculated: true, timestamp: new Date().toISOString() };
+    return this.runProcessor('calculate-growth-percentiles', data, job);
   }
 
   private async handleSyncCalendar(data: JobDataMap['sync-calendar'], job: Job): Promise<unknown> {
@@ -801,6 +831,11 @@ export const getJob = async <T extends JobType>(type: T, jobId: string) => {
   return queueManager.getJob(type, jobId);
 };
 
+export const removeJob = async (type: JobType, jobId: string) => {
+  await queueManager.initialize();
+  return queueManager.removeJob(type, jobId);
+};
+
 export const getQueueStats = async (type: JobType) => {
   await queueManager.initialize();
   return queueManager.getQueueStats(type);
@@ -80,7 +80,8 @@ export type JobType =
   | 'process-vitals'
   | 'calculate-growth-percentiles'
   | 'sync-calendar'
-  | 'process-billing';
+  | 'process-billing'
+  | 'expire-waitlist-offer';
 
 // Job Data Interfaces
 export interface BaseJobData {
@@ -136,6 +137,18 @@ export interface GenerateReportJobData extends BaseJobData {
   userId: string;
 }
 
+/**
+ * Growth charts for a batch of patients, rendered into one PDF for printing
+ */
+export interface GenerateGrowthChartJobData extends BaseJobData {
+  /** Defaults to the chart of `measurementType` */
+  chartType?: 'WFA' | 'HFA' | 'HcFA' | 'BFA' | 'WFL' | 'WFH';
+  clinicId: string;
+  measurementType?: 'Weight' | 'Height' | 'HeadCircumference' | 'BMI';
+  mode?: 'percentile' | 'zscore';
+  patientIds: string[];
+}
+
 export interface ExportRecordsJobData extends BaseJobData {
   entityType: 'patients' | 'appointments' | 'medical-records';
   exportId: string;
@@ -144,6 +157,12 @@ export interface ExportRecordsJobData extends BaseJobData {
   userId: string;
 }
 
+export interface ImportRecordsJobData extends BaseJobData {
+  clinicId: string;
+  /** Staged file and options, held in redis until the job runs */
+  importId: string;
+}
+
 export interface ProcessVitalsJobData extends BaseJobData {
   patientId: string;
   vitals: Array<{
@@ -154,14 +173,19 @@ export interface ProcessVitalsJobData extends BaseJobData {
   }>;
 }
 
+/**
+ * Recomputation of stored growth scores outdated by a reference data change.
+ * The cursor and running totals are saved on the job after each batch, so a
+ * retried job carries on from the last finished batch.
+ */
 export interface GrowthCalculationJobData extends BaseJobData {
-  measurements: Array<{
-    date: Date;
-    weight?: number;
-    height?: number;
-    headCircumference?: number;
-  }>;
-  patientId: string;
+  /** Limit the run to one clinic; nightly runs cover every clinic */
+  clinicId?: string;
+  /** Last record id recomputed */
+  cursor?: string;
+  processed?: number;
+  total?: number;
+  trigger: 'manual' | 'nightly';
 }
 
 export interface SyncCalendarJobData extends BaseJobData {
@@ -171,6 +195,14 @@ export interface SyncCalendarJobData extends BaseJobData {
   userId: string;
 }
 
+/**
+ * Runs when a waitlist offer's hold runs out
+ */
+export interface ExpireWaitlistOfferJobData extends BaseJobData {
+  clinicId: string;
+  offerId: string;
+}
+
 export type JobDataMap = {
   'send-email': SendEmailJobData;
   'send-sms': SendSMSJobData;
@@ -179,15 +211,16 @@ export type JobDataMap = {
   'process-immunization-reminder': ImmunizationReminderJobData;
   'process-followup-reminder': BaseJobData & { appointmentId: string };
   'generate-report': GenerateReportJobData;
-  'generate-growth-chart': BaseJobData & { patientId: string; timeRange: string };
+  'generate-growth-chart': GenerateGrowthChartJobData;
   'export-records': ExportRecordsJobData;
-  'import-records': BaseJobData & { importId: string };
+  'import-records': ImportRecordsJobData;
   'backup-database': BaseJobData & { backupId: string; type: 'full' | 'incremental' };
   'cache-warm': BaseJobData & { keys: string[] };
   'process-vitals': ProcessVitalsJobData;
   'calculate-growth-percentiles': GrowthCalculationJobData;
   'sync-calendar': SyncCalendarJobData;
   'process-billing': BaseJobData & { billingCycle: string };
+  'expire-waitlist-offer': ExpireWaitlistOfferJobData;
 };
 
 // Job Result Type
@@ -230,6 +263,8 @@ export interface JobOptions {
   attempts?: number;
   backoff?: number | { type: 'fixed' | 'exponential'; delay: number };
   delay?: number;
+  /** Stable id, so a scheduled job can be found and removed later */
+  jobId?: string;
   priority?: 1 | 2 | 3 | 4 | 5; // 1 = highest, 5 = lowest
   removeOnComplete?: boolean | number;
   removeOnFail?: boolean | number;